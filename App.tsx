@@ -19,12 +19,17 @@ import { useTranslate } from './hooks/useTranslate';
 import { lightColors } from './utils/theme';
 import { queueManager } from './services/queue/QueueManager';
 import { backgroundSyncService } from './services/sync/BackgroundSyncService';
+import { jobScheduler } from './services/jobs/JobScheduler';
+import { loyaltyExpiryJob } from './services/jobs/LoyaltyExpiryJob';
+import { auditRetentionJob } from './services/jobs/AuditRetentionJob';
 import { posConfig } from './services/config/POSConfigService';
 import { authConfig } from './services/auth/AuthConfigService';
 import { instoreApiConfig } from './services/instoreapi/InstoreApiConfig';
 import { instoreApiServer } from './services/instoreapi/InstoreApiServer';
 import { syncPoller } from './services/instoreapi/sync/SyncPoller';
 import { storeApiConnectionManager } from './services/instoreapi/websocket/StoreApiConnectionManager';
+import { failoverService } from './services/instoreapi/failover/FailoverService';
+import { productSearchIndexService } from './services/search/ProductSearchIndexService';
 import RootNavigator from './navigation/RootNavigator';
 import ErrorBoundary from './components/ErrorBoundary';
 import { NotificationProvider, useNotifications } from './contexts/NotificationProvider';
@@ -125,10 +130,17 @@ const AppContent = () => {
         if (instoreApiConfig.isClient) {
           syncPoller.start();
           loggerRef.current.info({ message: 'SyncPoller started — client mode active' });
-        } else if (instoreApiConfig.isServer) {
+        }
+
+        // Failover standbys listen too, so they can answer heartbeats and take over
+        if (instoreApiConfig.acceptsConnections) {
           try {
             await instoreApiServer.start();
-            loggerRef.current.info({ message: 'InstoreApiServer started — server mode active' });
+            loggerRef.current.info({
+              message: instoreApiConfig.isServer
+                ? 'InstoreApiServer started — server mode active'
+                : 'InstoreApiServer started — failover standby',
+            });
           } catch (error) {
             loggerRef.current.error(
               { message: 'Failed to start InstoreApiServer' },
@@ -147,6 +159,11 @@ const AppContent = () => {
               err instanceof Error ? err : new Error(String(err))
             );
           });
+
+          // Leader election, so another register takes over if the server goes down
+          failoverService.start().catch(err => {
+            loggerRef.current.error({ message: 'Failed to start FailoverService' }, err instanceof Error ? err : new Error(String(err)));
+          });
         }
       })
       .catch(err => {
@@ -159,11 +176,22 @@ const AppContent = () => {
     // Start background sync service for retrying failed order syncs
     backgroundSyncService.start(300000); // Check every 5 minutes
 
+    // Keep the offline search index in step with product changes from other registers
+    productSearchIndexService.start();
+
+    // Register built-in jobs, then run scheduled jobs (platform syncs, loyalty expiry, audit retention)
+    loyaltyExpiryJob.start();
+    auditRetentionJob.start();
+    jobScheduler.start();
+
     // Cleanup
     return () => {
       isMounted = false;
       backgroundSyncService.stop();
+      productSearchIndexService.stop();
+      jobScheduler.stop();
       queueManager.dispose();
+      failoverService.stop();
       syncPoller.stop();
       storeApiConnectionManager.stop().catch(() => {}); // Don't throw on cleanup
       instoreApiServer.stop().catch(() => {}); // Don't throw on cleanup
@@ -1,7 +1,7 @@
 import React, { useState, useCallback } from 'react';
 import { View, Text, Modal, StyleSheet, TouchableOpacity, ScrollView, TextInput } from 'react-native';
 import { lightColors, spacing, borderRadius, typography, elevation, semanticColors } from '../utils/theme';
-import { formatMoney } from '../utils/money';
+import { addMoney, formatMoney } from '../utils/money';
 import { Button } from './Button';
 import PinKeypad from './PinKeypad';
 import { useCurrency } from '../hooks/useCurrency';
@@ -9,8 +9,10 @@ import { useTranslate } from '../hooks/useTranslate';
 import type { PaymentLine as OrderPaymentLine } from '../services/order/order';
 import type { PaymentMode } from '../hooks/usePayment';
 import { PaymentProvider } from '../services/payment/PaymentServiceFactory';
+import { TipConfig, tipForPercentage } from '../services/tips/tips';
+import { CustomerPromptBanner } from './CustomerPromptBanner';
 
-export type PaymentMethod = 'cash' | 'card' | 'terminal' | 'store_credit' | 'loyalty';
+export type PaymentMethod = 'cash' | 'card' | 'terminal' | 'store_credit' | 'loyalty' | 'gift_card';
 
 export interface PaymentSelection {
   method: PaymentMethod;
@@ -40,6 +42,8 @@ interface CheckoutModalProps {
   paymentLines?: OrderPaymentLine[];
   onAddPaymentLine?: (line: Omit<OrderPaymentLine, 'id' | 'processedAt'>) => void;
   onRemovePaymentLine?: (lineId: string) => void;
+  /** Redeem a gift card as a split line — shown as a tender only when provided */
+  onRedeemGiftCard?: (code: string, amount: number) => void;
   onCompleteSplit?: () => void;
   splitMode?: boolean;
   /** Amount for cash tender in split mode (null = not in cash tender) */
@@ -51,6 +55,13 @@ interface CheckoutModalProps {
   loyaltyPoints?: number;
   /** Available store credit in dollars */
   storeCreditDollars?: number;
+  /** Tipping settings — the tip selector is shown only when enabled */
+  tipConfig?: TipConfig | null;
+  /** Tip chosen on the till, charged on top of the order total */
+  tipAmount?: number;
+  onTipChange?: (tipAmount: number) => void;
+  /** Card payments ask for the tip on the terminal instead */
+  tipsOnTerminal?: boolean;
 }
 
 type ModalStep = 'method' | 'cash_tender' | 'split_tender';
@@ -138,6 +149,7 @@ export const CheckoutModal: React.FC<CheckoutModalProps> = props => {
     paymentLines = [],
     onAddPaymentLine,
     onRemovePaymentLine,
+    onRedeemGiftCard,
     onCompleteSplit,
     splitMode = false,
     splitCashTenderAmount = null,
@@ -145,6 +157,10 @@ export const CheckoutModal: React.FC<CheckoutModalProps> = props => {
     customerEmail,
     loyaltyPoints = 0,
     storeCreditDollars = 0,
+    tipConfig,
+    tipAmount = 0,
+    onTipChange,
+    tipsOnTerminal = false,
   } = props;
 
   // Build the available method list for this device + provider combination.
@@ -157,6 +173,12 @@ export const CheckoutModal: React.FC<CheckoutModalProps> = props => {
   // Split tender — amount input for the current line being added
   const [splitAmountStr, setSplitAmountStr] = useState('');
   const [splitMethod, setSplitMethod] = useState<PaymentMethod>('cash');
+  const [giftCardCode, setGiftCardCode] = useState('');
+  const [customTipStr, setCustomTipStr] = useState<string | null>(null);
+
+  // What the customer pays: the order total plus any tip chosen on the till
+  const amountToPay = addMoney(orderTotal, tipAmount);
+  const showTipSelector = !!tipConfig?.enabled && !!onTipChange && !(tipsOnTerminal && selectedMethod === 'terminal');
 
   // When splitCashTenderAmount is set, transition to cash_tender step
   React.useEffect(() => {
@@ -171,9 +193,32 @@ export const CheckoutModal: React.FC<CheckoutModalProps> = props => {
     setStep('method');
     setTenderedStr('');
     setSplitAmountStr('');
+    setGiftCardCode('');
+    setCustomTipStr(null);
     onCancel();
   }, [onCancel]);
 
+  const handleSelectMethod = useCallback(
+    (method: PaymentMethod) => {
+      setSelectedMethod(method);
+      // The terminal asks for the tip, so drop any chosen on the till
+      if (tipsOnTerminal && method === 'terminal' && tipAmount > 0) {
+        setCustomTipStr(null);
+        onTipChange?.(0);
+      }
+    },
+    [tipsOnTerminal, tipAmount, onTipChange]
+  );
+
+  const handleCustomTip = useCallback(
+    (value: string) => {
+      setCustomTipStr(value);
+      const amount = parseFloat(value);
+      onTipChange?.(amount > 0 ? amount : 0);
+    },
+    [onTipChange]
+  );
+
   // "Pay" button on the method selection step
   const handleMethodConfirm = useCallback(() => {
     if (selectedMethod === 'cash') {
@@ -204,7 +249,7 @@ export const CheckoutModal: React.FC<CheckoutModalProps> = props => {
   }, []);
 
   // Calculate tender validation for handleCashConfirm callback
-  const amountDue = splitCashTenderAmount ?? orderTotal;
+  const amountDue = splitCashTenderAmount ?? amountToPay;
   const tenderedAmount = parseFloat(tenderedStr) || 0;
   const isTenderValid = tenderedAmount >= amountDue;
 
@@ -223,9 +268,10 @@ export const CheckoutModal: React.FC<CheckoutModalProps> = props => {
   // ── Split tender step ────────────────────────────────────────────────────
   if (step === 'split_tender') {
     const collected = paymentLines.filter(p => p.amount > 0).reduce((s, p) => s + p.amount, 0);
-    const remaining = Math.max(0, orderTotal - collected);
+    const remaining = Math.max(0, amountToPay - collected);
     const splitAmount = parseFloat(splitAmountStr) || 0;
-    const isSplitAmountValid = splitAmount > 0 && splitAmount <= remaining + 0.001;
+    const isSplitAmountValid =
+      splitAmount > 0 && splitAmount <= remaining + 0.001 && (splitMethod !== 'gift_card' || giftCardCode.trim().length > 0);
     const isSettled = remaining <= 0.01;
 
     const methodLabel = (m: PaymentMethod | 'card_terminal') => {
@@ -241,13 +287,25 @@ export const CheckoutModal: React.FC<CheckoutModalProps> = props => {
           return '🎁 Store Credit';
         case 'loyalty':
           return '⭐ Loyalty Points';
+        case 'gift_card':
+          return '🎟️ Gift Card';
         default:
           return m;
       }
     };
 
     const handleAddSplitLine = () => {
-      if (!isSplitAmountValid || !onAddPaymentLine) return;
+      if (!isSplitAmountValid) return;
+
+      // Gift cards carry a code, so they are redeemed through their own callback
+      if (splitMethod === 'gift_card') {
+        onRedeemGiftCard?.(giftCardCode.trim(), splitAmount);
+        setGiftCardCode('');
+        setSplitAmountStr('');
+        return;
+      }
+
+      if (!onAddPaymentLine) return;
       const mappedMethod = splitMethod === 'terminal' ? 'card_terminal' : splitMethod;
 
       // For cash, the hook will trigger cash tendering
@@ -283,18 +341,28 @@ export const CheckoutModal: React.FC<CheckoutModalProps> = props => {
             </View>
 
             <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+              <CustomerPromptBanner />
               {/* Order total */}
               <View style={styles.amountDueRow}>
                 <Text style={styles.amountDueLabel}>Order Total</Text>
                 <Text style={styles.amountDueValue}>{formatMoney(orderTotal, currency.code)}</Text>
               </View>
+              {tipAmount > 0 && (
+                <View style={styles.amountDueRow}>
+                  <Text style={styles.amountDueLabel}>{t('checkout.tip')}</Text>
+                  <Text style={styles.amountDueValue}>{formatMoney(tipAmount, currency.code)}</Text>
+                </View>
+              )}
 
               {/* Collected lines */}
               {paymentLines.length > 0 && (
                 <View style={styles.splitLinesContainer}>
                   {paymentLines.map(line => (
                     <View key={line.id} style={styles.splitLine}>
-                      <Text style={styles.splitLineMethod}>{methodLabel(line.method as PaymentMethod)}</Text>
+                      <Text style={styles.splitLineMethod}>
+                        {methodLabel(line.method as PaymentMethod)}
+                        {line.method === 'gift_card' && line.last4 ? ` ••${line.last4}` : ''}
+                      </Text>
                       <Text style={styles.splitLineAmount}>{formatMoney(line.amount, currency.code)}</Text>
                       {onRemovePaymentLine && (
                         <TouchableOpacity
@@ -375,6 +443,31 @@ export const CheckoutModal: React.FC<CheckoutModalProps> = props => {
                       )}
                     </View>
                   )}
+                  {onRedeemGiftCard && (
+                    <View style={styles.splitMethodRow}>
+                      <TouchableOpacity
+                        style={[styles.splitMethodButton, splitMethod === 'gift_card' && styles.splitMethodButtonSelected]}
+                        onPress={() => setSplitMethod('gift_card')}
+                        accessibilityRole="radio"
+                        accessibilityState={{ selected: splitMethod === 'gift_card' }}
+                      >
+                        <Text style={[styles.splitMethodButtonText, splitMethod === 'gift_card' && styles.splitMethodButtonTextSelected]}>
+                          {methodLabel('gift_card')}
+                        </Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                  {splitMethod === 'gift_card' && (
+                    <TextInput
+                      style={styles.splitAmountInput}
+                      value={giftCardCode}
+                      onChangeText={setGiftCardCode}
+                      placeholder="Gift card code"
+                      autoCapitalize="characters"
+                      autoCorrect={false}
+                      accessibilityLabel="Gift card code"
+                    />
+                  )}
                   <TextInput
                     style={styles.splitAmountInput}
                     value={splitAmountStr}
@@ -413,8 +506,8 @@ export const CheckoutModal: React.FC<CheckoutModalProps> = props => {
 
   // ── Cash tendering step ──────────────────────────────────────────────────
   if (step === 'cash_tender') {
-    // In split mode, use the split cash tender amount; otherwise use full order total
-    const amountDue = splitCashTenderAmount ?? orderTotal;
+    // In split mode, use the split cash tender amount; otherwise the order total plus tip
+    const amountDue = splitCashTenderAmount ?? amountToPay;
     const tenderedAmount = parseFloat(tenderedStr) || 0;
     const changeDue = tenderedAmount - amountDue;
     const isTenderValid = tenderedAmount >= amountDue;
@@ -447,6 +540,7 @@ export const CheckoutModal: React.FC<CheckoutModalProps> = props => {
             </View>
 
             <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+              <CustomerPromptBanner />
               {/* Amount due */}
               <View style={styles.amountDueRow}>
                 <Text style={styles.amountDueLabel}>{t('checkout.amountDue')}</Text>
@@ -545,6 +639,7 @@ export const CheckoutModal: React.FC<CheckoutModalProps> = props => {
           </View>
 
           <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+            <CustomerPromptBanner />
             {/* Order Summary */}
             <View style={styles.summaryCard}>
               <Text style={styles.orderRef}>{t('checkout.orderRef', { ref: orderId.slice(-8) })}</Text>
@@ -564,6 +659,18 @@ export const CheckoutModal: React.FC<CheckoutModalProps> = props => {
                 <Text style={styles.totalLabel}>{t('checkout.total')}</Text>
                 <Text style={styles.totalValue}>{formatMoney(orderTotal, currency.code)}</Text>
               </View>
+              {tipAmount > 0 && (
+                <>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>{t('checkout.tip')}</Text>
+                    <Text style={styles.summaryValue}>{formatMoney(tipAmount, currency.code)}</Text>
+                  </View>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.totalLabel}>{t('checkout.totalToPay')}</Text>
+                    <Text style={styles.totalValue}>{formatMoney(amountToPay, currency.code)}</Text>
+                  </View>
+                </>
+              )}
 
               {/* Loyalty & Store Credit Info */}
               {customerEmail && (loyaltyPoints > 0 || storeCreditDollars > 0) && (
@@ -584,6 +691,63 @@ export const CheckoutModal: React.FC<CheckoutModalProps> = props => {
               )}
             </View>
 
+            {/* Tip */}
+            {showTipSelector && (
+              <>
+                <Text style={styles.sectionTitle}>{t('checkout.tip')}</Text>
+                <View style={styles.quickAmounts}>
+                  {[
+                    { label: t('checkout.noTip'), value: 0 },
+                    ...tipConfig!.percentages.map(pct => {
+                      const value = tipForPercentage(orderTotal, pct);
+                      return { label: `${pct}% (${formatMoney(value, currency.code)})`, value };
+                    }),
+                  ].map(option => {
+                    const isSelected = customTipStr === null && tipAmount === option.value;
+                    return (
+                      <TouchableOpacity
+                        key={option.label}
+                        style={[styles.quickAmountButton, isSelected && styles.tipOptionSelected]}
+                        onPress={() => {
+                          setCustomTipStr(null);
+                          onTipChange!(option.value);
+                        }}
+                        accessibilityRole="radio"
+                        accessibilityState={{ selected: isSelected }}
+                        accessibilityLabel={option.label}
+                      >
+                        <Text style={[styles.quickAmountText, isSelected && styles.tipOptionTextSelected]}>{option.label}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                  <TouchableOpacity
+                    style={[styles.quickAmountButton, customTipStr !== null && styles.tipOptionSelected]}
+                    onPress={() => handleCustomTip('')}
+                    accessibilityRole="radio"
+                    accessibilityState={{ selected: customTipStr !== null }}
+                    accessibilityLabel={t('checkout.customTip')}
+                  >
+                    <Text style={[styles.quickAmountText, customTipStr !== null && styles.tipOptionTextSelected]}>
+                      {t('checkout.customTip')}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+                {customTipStr !== null && (
+                  <TextInput
+                    style={styles.splitAmountInput}
+                    value={customTipStr}
+                    onChangeText={handleCustomTip}
+                    placeholder={t('checkout.customTip')}
+                    keyboardType="decimal-pad"
+                    accessibilityLabel={t('checkout.customTip')}
+                  />
+                )}
+              </>
+            )}
+            {tipConfig?.enabled && tipsOnTerminal && selectedMethod === 'terminal' && (
+              <Text style={styles.tipHint}>{t('checkout.tipOnTerminal')}</Text>
+            )}
+
             {/* Payment Method Selection */}
             <Text style={styles.sectionTitle}>{t('checkout.paymentMethod')}</Text>
             <View style={styles.paymentMethods}>
@@ -595,7 +759,7 @@ export const CheckoutModal: React.FC<CheckoutModalProps> = props => {
                   <TouchableOpacity
                     key={method.id}
                     style={[styles.paymentOption, isSelected && styles.paymentOptionSelected, isDisabled && styles.paymentOptionDisabled]}
-                    onPress={() => !isDisabled && setSelectedMethod(method.id)}
+                    onPress={() => !isDisabled && handleSelectMethod(method.id)}
                     disabled={isDisabled}
                     activeOpacity={0.7}
                     accessibilityLabel={`Pay with ${method.label}`}
@@ -623,7 +787,7 @@ export const CheckoutModal: React.FC<CheckoutModalProps> = props => {
                   ? t('common.processing')
                   : selectedMethod === 'cash'
                     ? t('checkout.enterCashAmount')
-                    : t('checkout.pay', { amount: formatMoney(orderTotal, currency.code) })
+                    : t('checkout.pay', { amount: formatMoney(amountToPay, currency.code) })
               }
               variant="success"
               size="lg"
@@ -907,6 +1071,17 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: lightColors.primary,
   },
+  tipOptionSelected: {
+    backgroundColor: lightColors.primary,
+  },
+  tipOptionTextSelected: {
+    color: lightColors.textOnPrimary,
+  },
+  tipHint: {
+    fontSize: typography.fontSize.sm,
+    color: lightColors.textSecondary,
+    marginBottom: spacing.md,
+  },
   keypadWrapper: {
     alignItems: 'center',
     marginBottom: spacing.sm,
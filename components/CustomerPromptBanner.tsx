@@ -0,0 +1,86 @@
+/**
+ * CustomerPromptBanner
+ *
+ * Tells the cashier the customer display is waiting for the customer and
+ * lets them skip the question. Subscribes to CustomerPromptService and
+ * renders only while a prompt is open.
+ *
+ * See: docs/specs/hardware/customer-display.md §2.7
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, StyleProp, ViewStyle } from 'react-native';
+import { lightColors, spacing, typography, borderRadius } from '../utils/theme';
+import { useTranslate } from '../hooks/useTranslate';
+import { customerPromptService } from '../services/display/CustomerPromptService';
+import { DisplayPromptType } from '../services/display/CustomerDisplayServiceInterface';
+
+const PROMPT_KEYS: Record<DisplayPromptType, string> = {
+  tip: 'checkout.customerPrompt.tip',
+  receipt: 'checkout.customerPrompt.receipt',
+  loyalty: 'checkout.customerPrompt.loyalty',
+  age: 'checkout.customerPrompt.age',
+  signature: 'checkout.customerPrompt.signature',
+};
+
+interface CustomerPromptBannerProps {
+  style?: StyleProp<ViewStyle>;
+}
+
+export const CustomerPromptBanner: React.FC<CustomerPromptBannerProps> = ({ style }) => {
+  const { t } = useTranslate();
+  const [prompt, setPrompt] = useState(customerPromptService.getCurrentPrompt());
+
+  useEffect(() => {
+    const unsubscribe = customerPromptService.subscribe(() => setPrompt(customerPromptService.getCurrentPrompt()));
+    return unsubscribe;
+  }, []);
+
+  if (!prompt) return null;
+
+  return (
+    <View style={[styles.container, style]} accessibilityLiveRegion="polite">
+      <ActivityIndicator size="small" color={lightColors.info} />
+      <Text style={styles.message}>{t('checkout.customerPrompt.waiting', { prompt: t(PROMPT_KEYS[prompt]) })}</Text>
+      <TouchableOpacity
+        style={styles.skipButton}
+        onPress={() => customerPromptService.skip()}
+        accessibilityRole="button"
+        accessibilityLabel={t('checkout.customerPrompt.skip')}
+      >
+        <Text style={styles.skipText}>{t('checkout.customerPrompt.skip')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    borderWidth: 1,
+    borderRadius: borderRadius.md,
+    borderColor: lightColors.info + '40',
+    backgroundColor: lightColors.info + '15',
+  },
+  message: {
+    flex: 1,
+    fontSize: typography.fontSize.sm,
+    color: lightColors.info,
+  },
+  skipButton: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderWidth: 1,
+    borderRadius: borderRadius.sm,
+    borderColor: lightColors.info,
+  },
+  skipText: {
+    fontSize: typography.fontSize.sm,
+    color: lightColors.info,
+    fontWeight: '600',
+  },
+});
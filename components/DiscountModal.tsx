@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { View, Text, Modal, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import { lightColors, spacing, typography, borderRadius, elevation } from '../utils/theme';
+import { useTranslate } from '../hooks/useTranslate';
+
+export interface ManualDiscountEntry {
+  type: 'fixed' | 'percentage';
+  value: number;
+  reason: string;
+}
+
+interface DiscountModalProps {
+  visible: boolean;
+  /** Set when discounting a single line — codes only apply to the whole sale */
+  itemName?: string;
+  onApplyCode: (code: string) => void;
+  onApplyManual: (entry: ManualDiscountEntry) => void;
+  onClose: () => void;
+}
+
+type Mode = 'code' | 'manual';
+
+/**
+ * Entry form for a discount code or a manual discount with a reason.
+ * Approval and stacking checks happen in the caller and BasketService.
+ */
+const DiscountModal: React.FC<DiscountModalProps> = ({ visible, itemName, onApplyCode, onApplyManual, onClose }) => {
+  const { t } = useTranslate();
+  const [mode, setMode] = useState<Mode>('code');
+  const [code, setCode] = useState('');
+  const [type, setType] = useState<ManualDiscountEntry['type']>('percentage');
+  const [value, setValue] = useState('');
+  const [reason, setReason] = useState('');
+
+  const effectiveMode: Mode = itemName ? 'manual' : mode;
+  const numericValue = parseFloat(value);
+  const canApply =
+    effectiveMode === 'code'
+      ? code.trim().length > 0
+      : numericValue > 0 && (type === 'fixed' || numericValue <= 100) && reason.trim().length > 0;
+
+  const reset = () => {
+    setMode('code');
+    setCode('');
+    setType('percentage');
+    setValue('');
+    setReason('');
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleApply = () => {
+    if (!canApply) return;
+    if (effectiveMode === 'code') {
+      onApplyCode(code.trim());
+    } else {
+      onApplyManual({ type, value: numericValue, reason: reason.trim() });
+    }
+    reset();
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <Text style={styles.title} numberOfLines={1}>
+              {itemName ? t('discountModal.titleLine', { name: itemName }) : t('discountModal.titleBasket')}
+            </Text>
+            <TouchableOpacity
+              onPress={handleClose}
+              style={styles.closeButton}
+              accessibilityLabel={t('discountModal.closeLabel')}
+              accessibilityRole="button"
+            >
+              <Text style={styles.closeText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.body}>
+            {!itemName && (
+              <View style={styles.segment}>
+                {(['code', 'manual'] as Mode[]).map(m => (
+                  <TouchableOpacity
+                    key={m}
+                    style={[styles.segmentButton, mode === m && styles.segmentButtonActive]}
+                    onPress={() => setMode(m)}
+                    accessibilityRole="button"
+                  >
+                    <Text style={[styles.segmentText, mode === m && styles.segmentTextActive]}>{t(`discountModal.${m}`)}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            {effectiveMode === 'code' ? (
+              <TextInput
+                style={styles.input}
+                value={code}
+                onChangeText={setCode}
+                placeholder={t('discountModal.codePlaceholder')}
+                placeholderTextColor={lightColors.textSecondary}
+                autoCapitalize="characters"
+                autoCorrect={false}
+                autoFocus
+                accessibilityLabel={t('discountModal.codeLabel')}
+              />
+            ) : (
+              <>
+                <View style={styles.segment}>
+                  {(['percentage', 'fixed'] as ManualDiscountEntry['type'][]).map(option => (
+                    <TouchableOpacity
+                      key={option}
+                      style={[styles.segmentButton, type === option && styles.segmentButtonActive]}
+                      onPress={() => setType(option)}
+                      accessibilityRole="button"
+                    >
+                      <Text style={[styles.segmentText, type === option && styles.segmentTextActive]}>
+                        {option === 'percentage' ? t('discountModal.percent') : t('discountModal.amount')}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <TextInput
+                  style={styles.input}
+                  value={value}
+                  onChangeText={setValue}
+                  placeholder={t('discountModal.valuePlaceholder')}
+                  placeholderTextColor={lightColors.textSecondary}
+                  keyboardType="decimal-pad"
+                  autoFocus
+                  accessibilityLabel={t('discountModal.valueLabel')}
+                />
+                <TextInput
+                  style={styles.input}
+                  value={reason}
+                  onChangeText={setReason}
+                  placeholder={t('discountModal.reasonPlaceholder')}
+                  placeholderTextColor={lightColors.textSecondary}
+                  accessibilityLabel={t('discountModal.reasonLabel')}
+                />
+                <Text style={styles.hint}>{t('discountModal.needsApproval')}</Text>
+              </>
+            )}
+
+            <TouchableOpacity
+              style={[styles.applyButton, !canApply && styles.applyButtonDisabled]}
+              onPress={handleApply}
+              disabled={!canApply}
+              accessibilityRole="button"
+            >
+              <Text style={styles.applyButtonText}>{t('discountModal.apply')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: lightColors.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    width: '90%',
+    maxWidth: 420,
+    backgroundColor: lightColors.surface,
+    borderRadius: borderRadius.lg,
+    ...elevation.medium,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: lightColors.border,
+  },
+  title: {
+    flex: 1,
+    fontSize: typography.fontSize.lg,
+    fontWeight: '700',
+    color: lightColors.textPrimary,
+  },
+  closeButton: { padding: spacing.xs },
+  closeText: { fontSize: typography.fontSize.lg, color: lightColors.textSecondary },
+  body: { padding: spacing.md, gap: spacing.sm },
+  segment: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderColor: lightColors.border,
+    borderRadius: borderRadius.sm,
+    overflow: 'hidden',
+  },
+  segmentButton: { flex: 1, paddingVertical: spacing.sm, alignItems: 'center' },
+  segmentButtonActive: { backgroundColor: lightColors.primary },
+  segmentText: { fontSize: typography.fontSize.sm, color: lightColors.textPrimary, fontWeight: '600' },
+  segmentTextActive: { color: lightColors.textOnPrimary },
+  input: {
+    borderWidth: 1,
+    borderColor: lightColors.border,
+    borderRadius: borderRadius.sm,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.sm,
+    fontSize: typography.fontSize.md,
+    color: lightColors.textPrimary,
+  },
+  hint: { fontSize: typography.fontSize.xs, color: lightColors.textSecondary },
+  applyButton: {
+    backgroundColor: lightColors.primary,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.sm,
+    alignItems: 'center',
+  },
+  applyButtonDisabled: { opacity: 0.5 },
+  applyButtonText: { color: lightColors.textOnPrimary, fontSize: typography.fontSize.md, fontWeight: '600' },
+});
+
+export default DiscountModal;
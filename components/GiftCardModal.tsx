@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { View, Text, Modal, StyleSheet, TouchableOpacity, TextInput, ActivityIndicator } from 'react-native';
+import { lightColors, spacing, typography, borderRadius, elevation } from '../utils/theme';
+import { formatMoney, toDollars } from '../utils/money';
+import { useTranslate } from '../hooks/useTranslate';
+import { useCurrency } from '../hooks/useCurrency';
+import type { GiftCard, GiftCardLineAction } from '../services/giftcard/giftCard';
+
+interface GiftCardModalProps {
+  visible: boolean;
+  /** Result of the last balance check, if any */
+  balance: GiftCard | null;
+  isChecking?: boolean;
+  error?: string | null;
+  onCheckBalance: (code: string) => void;
+  onAddToBasket: (code: string, amount: number, action: GiftCardLineAction) => void;
+  onClose: () => void;
+}
+
+type Mode = GiftCardLineAction | 'balance';
+
+const MODES: Mode[] = ['activate', 'reload', 'balance'];
+
+/**
+ * Sell or reload a gift card as a basket line, or check a card's balance.
+ * Cards are only activated / loaded once the sale is paid.
+ */
+const GiftCardModal: React.FC<GiftCardModalProps> = ({ visible, balance, isChecking, error, onCheckBalance, onAddToBasket, onClose }) => {
+  const { t } = useTranslate();
+  const currency = useCurrency();
+  const [mode, setMode] = useState<Mode>('activate');
+  const [code, setCode] = useState('');
+  const [amount, setAmount] = useState('');
+
+  const numericAmount = parseFloat(amount);
+  const canApply = code.trim().length > 0 && (mode === 'balance' || numericAmount > 0);
+
+  const reset = () => {
+    setMode('activate');
+    setCode('');
+    setAmount('');
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleApply = () => {
+    if (!canApply) return;
+    if (mode === 'balance') {
+      onCheckBalance(code.trim());
+      return;
+    }
+    onAddToBasket(code.trim(), numericAmount, mode);
+    reset();
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{t('giftCardModal.title')}</Text>
+            <TouchableOpacity
+              onPress={handleClose}
+              style={styles.closeButton}
+              accessibilityLabel={t('giftCardModal.closeLabel')}
+              accessibilityRole="button"
+            >
+              <Text style={styles.closeText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.body}>
+            <View style={styles.segment}>
+              {MODES.map(m => (
+                <TouchableOpacity
+                  key={m}
+                  style={[styles.segmentButton, mode === m && styles.segmentButtonActive]}
+                  onPress={() => setMode(m)}
+                  accessibilityRole="button"
+                >
+                  <Text style={[styles.segmentText, mode === m && styles.segmentTextActive]}>{t(`giftCardModal.${m}`)}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <TextInput
+              style={styles.input}
+              value={code}
+              onChangeText={setCode}
+              placeholder={t('giftCardModal.codePlaceholder')}
+              placeholderTextColor={lightColors.textSecondary}
+              autoCapitalize="characters"
+              autoCorrect={false}
+              autoFocus
+              accessibilityLabel={t('giftCardModal.codeLabel')}
+            />
+
+            {mode !== 'balance' && (
+              <TextInput
+                style={styles.input}
+                value={amount}
+                onChangeText={setAmount}
+                placeholder={t('giftCardModal.amountPlaceholder')}
+                placeholderTextColor={lightColors.textSecondary}
+                keyboardType="decimal-pad"
+                accessibilityLabel={t('giftCardModal.amountLabel')}
+              />
+            )}
+
+            {mode === 'balance' && isChecking && <ActivityIndicator color={lightColors.primary} />}
+            {mode === 'balance' && !isChecking && balance && (
+              <View style={styles.balanceRow}>
+                <Text style={styles.balanceLabel}>
+                  {balance.status === 'active' ? t('giftCardModal.balance') : t('giftCardModal.void')}
+                </Text>
+                <Text style={styles.balanceValue}>{formatMoney(toDollars(balance.balanceCents), balance.currency ?? currency.code)}</Text>
+              </View>
+            )}
+            {mode === 'balance' && !isChecking && error && <Text style={styles.error}>{error}</Text>}
+
+            <TouchableOpacity
+              style={[styles.applyButton, !canApply && styles.applyButtonDisabled]}
+              onPress={handleApply}
+              disabled={!canApply}
+              accessibilityRole="button"
+            >
+              <Text style={styles.applyButtonText}>
+                {mode === 'balance' ? t('giftCardModal.checkBalance') : t('giftCardModal.addToBasket')}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: lightColors.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    width: '90%',
+    maxWidth: 420,
+    backgroundColor: lightColors.surface,
+    borderRadius: borderRadius.lg,
+    ...elevation.medium,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: lightColors.border,
+  },
+  title: {
+    flex: 1,
+    fontSize: typography.fontSize.lg,
+    fontWeight: '700',
+    color: lightColors.textPrimary,
+  },
+  closeButton: { padding: spacing.xs },
+  closeText: { fontSize: typography.fontSize.lg, color: lightColors.textSecondary },
+  body: { padding: spacing.md, gap: spacing.sm },
+  segment: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderColor: lightColors.border,
+    borderRadius: borderRadius.sm,
+    overflow: 'hidden',
+  },
+  segmentButton: { flex: 1, paddingVertical: spacing.sm, alignItems: 'center' },
+  segmentButtonActive: { backgroundColor: lightColors.primary },
+  segmentText: { fontSize: typography.fontSize.sm, color: lightColors.textPrimary, fontWeight: '600' },
+  segmentTextActive: { color: lightColors.textOnPrimary },
+  input: {
+    borderWidth: 1,
+    borderColor: lightColors.border,
+    borderRadius: borderRadius.sm,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.sm,
+    fontSize: typography.fontSize.md,
+    color: lightColors.textPrimary,
+  },
+  balanceRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', paddingVertical: spacing.xs },
+  balanceLabel: { fontSize: typography.fontSize.md, color: lightColors.textSecondary },
+  balanceValue: { fontSize: typography.fontSize.lg, fontWeight: '700', color: lightColors.textPrimary },
+  error: { fontSize: typography.fontSize.sm, color: lightColors.error },
+  applyButton: {
+    backgroundColor: lightColors.primary,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.sm,
+    alignItems: 'center',
+  },
+  applyButtonDisabled: { opacity: 0.5 },
+  applyButtonText: { color: lightColors.textOnPrimary, fontSize: typography.fontSize.md, fontWeight: '600' },
+});
+
+export default GiftCardModal;
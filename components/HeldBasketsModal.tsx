@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { View, Text, Modal, StyleSheet, TouchableOpacity, TextInput, FlatList, ActivityIndicator } from 'react-native';
+import { lightColors, spacing, typography, borderRadius, elevation } from '../utils/theme';
+import { formatMoney } from '../utils/money';
+import { useTranslate } from '../hooks/useTranslate';
+import { useCurrency } from '../hooks/useCurrency';
+import type { HeldBasket } from '../services/basket/HeldBasketServiceInterface';
+
+interface HeldBasketsModalProps {
+  visible: boolean;
+  heldBaskets: HeldBasket[];
+  isLoading?: boolean;
+  error?: string | null;
+  /** The current sale has lines and can be parked */
+  canPark: boolean;
+  onPark: (name: string) => void;
+  onRecall: (heldBasketId: string) => void;
+  onDiscard: (heldBasketId: string) => void;
+  onClose: () => void;
+}
+
+const formatTime = (epochMs: number) => new Date(epochMs).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Park the current sale under a name, or recall a sale parked on any register.
+ */
+const HeldBasketsModal: React.FC<HeldBasketsModalProps> = ({
+  visible,
+  heldBaskets,
+  isLoading,
+  error,
+  canPark,
+  onPark,
+  onRecall,
+  onDiscard,
+  onClose,
+}) => {
+  const { t } = useTranslate();
+  const currency = useCurrency();
+  const [name, setName] = useState('');
+
+  const handleClose = () => {
+    setName('');
+    onClose();
+  };
+
+  const handlePark = () => {
+    if (!canPark) return;
+    onPark(name.trim());
+    setName('');
+  };
+
+  const renderItem = ({ item }: { item: HeldBasket }) => (
+    <View style={styles.row}>
+      <View style={styles.rowInfo}>
+        <Text style={styles.rowName} numberOfLines={1}>
+          {item.name}
+        </Text>
+        <Text style={styles.rowMeta} numberOfLines={1}>
+          {t('heldBasketsModal.heldAt', {
+            count: item.items.reduce((sum, line) => sum + line.quantity, 0),
+            time: formatTime(item.heldAt),
+            register: item.registerName ?? item.registerId ?? '',
+          })}
+        </Text>
+        {item.expiresAt && <Text style={styles.rowExpiry}>{t('heldBasketsModal.expiresAt', { time: formatTime(item.expiresAt) })}</Text>}
+      </View>
+      <Text style={styles.rowTotal}>{formatMoney(item.total, currency.code)}</Text>
+      <TouchableOpacity
+        style={[styles.recallButton, canPark && styles.buttonDisabled]}
+        onPress={() => onRecall(item.id)}
+        disabled={canPark}
+        accessibilityLabel={t('heldBasketsModal.recallLabel', { name: item.name })}
+        accessibilityRole="button"
+      >
+        <Text style={styles.recallButtonText}>{t('heldBasketsModal.recall')}</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.discardButton}
+        onPress={() => onDiscard(item.id)}
+        accessibilityLabel={t('heldBasketsModal.discardLabel', { name: item.name })}
+        accessibilityRole="button"
+      >
+        <Text style={styles.discardText}>✕</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{t('heldBasketsModal.title')}</Text>
+            <TouchableOpacity
+              onPress={handleClose}
+              style={styles.closeButton}
+              accessibilityLabel={t('heldBasketsModal.closeLabel')}
+              accessibilityRole="button"
+            >
+              <Text style={styles.closeText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.body}>
+            {canPark && (
+              <View style={styles.parkRow}>
+                <TextInput
+                  style={styles.input}
+                  value={name}
+                  onChangeText={setName}
+                  placeholder={t('heldBasketsModal.namePlaceholder')}
+                  placeholderTextColor={lightColors.textSecondary}
+                  accessibilityLabel={t('heldBasketsModal.nameLabel')}
+                />
+                <TouchableOpacity style={styles.parkButton} onPress={handlePark} accessibilityRole="button">
+                  <Text style={styles.parkButtonText}>{t('heldBasketsModal.park')}</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+            {canPark && heldBaskets.length > 0 && <Text style={styles.hint}>{t('heldBasketsModal.recallHint')}</Text>}
+
+            {isLoading && heldBaskets.length === 0 ? (
+              <ActivityIndicator color={lightColors.primary} />
+            ) : heldBaskets.length === 0 ? (
+              <Text style={styles.empty}>{t('heldBasketsModal.empty')}</Text>
+            ) : (
+              <FlatList data={heldBaskets} renderItem={renderItem} keyExtractor={item => item.id} style={styles.list} />
+            )}
+            {error && <Text style={styles.error}>{error}</Text>}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: lightColors.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    width: '90%',
+    maxWidth: 480,
+    maxHeight: '80%',
+    backgroundColor: lightColors.surface,
+    borderRadius: borderRadius.lg,
+    ...elevation.medium,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: lightColors.border,
+  },
+  title: {
+    flex: 1,
+    fontSize: typography.fontSize.lg,
+    fontWeight: '700',
+    color: lightColors.textPrimary,
+  },
+  closeButton: { padding: spacing.xs },
+  closeText: { fontSize: typography.fontSize.lg, color: lightColors.textSecondary },
+  body: { padding: spacing.md, gap: spacing.sm },
+  parkRow: { flexDirection: 'row', gap: spacing.sm },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: lightColors.border,
+    borderRadius: borderRadius.sm,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.sm,
+    fontSize: typography.fontSize.md,
+    color: lightColors.textPrimary,
+  },
+  parkButton: {
+    backgroundColor: lightColors.primary,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.sm,
+    justifyContent: 'center',
+  },
+  parkButtonText: { color: lightColors.textOnPrimary, fontSize: typography.fontSize.md, fontWeight: '600' },
+  hint: { fontSize: typography.fontSize.xs, color: lightColors.textSecondary },
+  list: { flexGrow: 0 },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: lightColors.border,
+  },
+  rowInfo: { flex: 1 },
+  rowName: { fontSize: typography.fontSize.md, fontWeight: '600', color: lightColors.textPrimary },
+  rowMeta: { fontSize: typography.fontSize.xs, color: lightColors.textSecondary, marginTop: 2 },
+  rowExpiry: { fontSize: typography.fontSize.xs, color: lightColors.warning, marginTop: 2 },
+  rowTotal: { fontSize: typography.fontSize.md, fontWeight: '700', color: lightColors.textPrimary },
+  recallButton: {
+    backgroundColor: lightColors.primary,
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.sm,
+  },
+  recallButtonText: { color: lightColors.textOnPrimary, fontSize: typography.fontSize.sm, fontWeight: '600' },
+  buttonDisabled: { opacity: 0.5 },
+  discardButton: { padding: spacing.xs },
+  discardText: { fontSize: typography.fontSize.md, color: lightColors.error },
+  empty: { fontSize: typography.fontSize.sm, color: lightColors.textSecondary, textAlign: 'center', paddingVertical: spacing.md },
+  error: { fontSize: typography.fontSize.sm, color: lightColors.error },
+});
+
+export default HeldBasketsModal;
@@ -0,0 +1,276 @@
+import React from 'react';
+import { View, Text, Modal, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { lightColors, spacing, borderRadius, typography, elevation, semanticColors } from '../utils/theme';
+import { Button } from './Button';
+import { LabelPreview as LabelPreviewData } from '../services/printing/BarcodeLabelService';
+import { LabelBarcodeElement } from '../services/printing/labels/labelTypes';
+
+interface LabelPreviewProps {
+  visible: boolean;
+  preview: LabelPreviewData | null;
+  onPrint: () => void;
+  onClose: () => void;
+  title?: string;
+}
+
+const PREVIEW_WIDTH = 340;
+
+const LANGUAGE_NAMES: Record<LabelPreviewData['language'], string> = {
+  zpl: 'ZPL',
+  tspl: 'TSPL',
+  escpos: 'ESC/POS (receipt printer)',
+};
+
+const SYMBOLOGY_NAMES: Record<LabelBarcodeElement['barcode']['symbology'], string> = {
+  ean13: 'EAN-13',
+  upca: 'UPC-A',
+  code128: 'Code 128',
+  qr: 'QR',
+};
+
+/**
+ * Bar widths for the on-screen mockup, derived from the data so different
+ * values look different. Not a scannable encoding — the printer draws the real symbol.
+ */
+function mockBars(data: string, count: number): number[] {
+  const bars: number[] = [];
+  for (let i = 0; i < count; i++) {
+    bars.push(1 + ((data.charCodeAt(i % data.length) + i) % 3));
+  }
+  return bars;
+}
+
+/** Show control characters (ESC/POS) as ^X so the commands stay readable; keeps line breaks */
+function showControlChars(commands: string): string {
+  let shown = '';
+  for (const char of commands) {
+    const code = char.charCodeAt(0);
+    const isControl = (code < 0x20 && char !== '\n' && char !== '\r') || code === 0x7f;
+    shown += isControl ? `^${String.fromCharCode(code ^ 0x40)}` : char;
+  }
+  return shown.replace(/\r\n/g, '\n');
+}
+
+const BarcodeMockup: React.FC<{ element: LabelBarcodeElement; scale: number }> = ({ element, scale }) => {
+  const style = {
+    left: element.x * scale,
+    top: element.y * scale,
+    width: element.width * scale,
+  };
+
+  if (element.barcode.symbology === 'qr') {
+    return (
+      <View style={[styles.element, style, styles.qr, { height: element.height * scale }]}>
+        <Text style={styles.qrText}>QR</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.element, style]}>
+      <View style={[styles.bars, { height: element.height * scale }]}>
+        {mockBars(element.barcode.data, 30).map((width, index) => (
+          <View key={index} style={[styles.bar, { flex: width }]} />
+        ))}
+      </View>
+      <Text style={[styles.hri, { fontSize: Math.max(6, element.textHeight * scale * 0.8) }]} numberOfLines={1}>
+        {element.barcode.text}
+      </Text>
+    </View>
+  );
+};
+
+export const LabelPreview: React.FC<LabelPreviewProps> = ({ visible, preview, onPrint, onClose, title = 'Label Preview' }) => {
+  const scale = preview ? PREVIEW_WIDTH / preview.layout.widthDots : 1;
+  const barcode = preview?.layout.elements.find((e): e is LabelBarcodeElement => e.kind === 'barcode');
+
+  return (
+    <Modal visible={visible} animationType="fade" transparent statusBarTranslucent>
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <View style={styles.header}>
+            <Text style={styles.headerTitle}>{title}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Text style={styles.closeText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          {preview && (
+            <ScrollView style={styles.scroll} contentContainerStyle={styles.content}>
+              <Text style={styles.meta}>
+                {LANGUAGE_NAMES[preview.language]} · {preview.dpi} dpi
+                {barcode ? ` · ${SYMBOLOGY_NAMES[barcode.barcode.symbology]}` : ''}
+              </Text>
+
+              <View style={[styles.label, { width: PREVIEW_WIDTH, height: preview.layout.heightDots * scale }]}>
+                {preview.layout.elements.map((element, index) =>
+                  element.kind === 'text' ? (
+                    <Text
+                      key={index}
+                      numberOfLines={1}
+                      style={[
+                        styles.element,
+                        styles.text,
+                        {
+                          left: element.x * scale,
+                          top: element.y * scale,
+                          width: element.width * scale,
+                          fontSize: element.height * scale * 0.8,
+                          lineHeight: element.height * scale,
+                        },
+                        element.field === 'price' && styles.price,
+                      ]}
+                    >
+                      {element.text}
+                    </Text>
+                  ) : (
+                    <BarcodeMockup key={index} element={element} scale={scale} />
+                  )
+                )}
+              </View>
+
+              <Text style={styles.commandsTitle}>Printer Commands</Text>
+              <View style={styles.commands}>
+                <Text style={styles.commandsText} selectable>
+                  {showControlChars(preview.commands)}
+                </Text>
+              </View>
+            </ScrollView>
+          )}
+
+          <View style={styles.actions}>
+            <Button title="Close" variant="outline" onPress={onClose} style={styles.actionButton} />
+            <Button title="🖨  Print" variant="primary" onPress={onPrint} style={styles.actionButton} />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: lightColors.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  modal: {
+    backgroundColor: lightColors.surface,
+    borderRadius: borderRadius.lg,
+    width: '100%',
+    maxWidth: 420,
+    maxHeight: '85%',
+    ...elevation.high,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: lightColors.border,
+  },
+  headerTitle: {
+    fontSize: typography.fontSize.lg,
+    fontWeight: '700',
+    color: lightColors.textPrimary,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: lightColors.inputBackground,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  closeText: {
+    fontSize: 16,
+    color: lightColors.textSecondary,
+    fontWeight: '600',
+  },
+  scroll: {
+    flexGrow: 0,
+  },
+  content: {
+    padding: spacing.md,
+    alignItems: 'center',
+  },
+  meta: {
+    fontSize: typography.fontSize.sm,
+    color: lightColors.textSecondary,
+    marginBottom: spacing.sm,
+  },
+  label: {
+    backgroundColor: semanticColors.receiptPaper,
+    borderWidth: 1,
+    borderColor: lightColors.border,
+    borderRadius: borderRadius.sm,
+    overflow: 'hidden',
+  },
+  element: {
+    position: 'absolute',
+  },
+  text: {
+    color: lightColors.textPrimary,
+    textAlign: 'center',
+  },
+  price: {
+    fontWeight: '700',
+  },
+  bars: {
+    flexDirection: 'row',
+    gap: 1,
+  },
+  bar: {
+    backgroundColor: lightColors.textPrimary,
+  },
+  hri: {
+    color: lightColors.textPrimary,
+    textAlign: 'center',
+    fontFamily: 'monospace',
+  },
+  qr: {
+    borderWidth: 3,
+    borderColor: lightColors.textPrimary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  qrText: {
+    color: lightColors.textPrimary,
+    fontWeight: '700',
+  },
+  commandsTitle: {
+    alignSelf: 'flex-start',
+    fontSize: typography.fontSize.sm,
+    fontWeight: '600',
+    color: lightColors.textPrimary,
+    marginTop: spacing.md,
+    marginBottom: spacing.xs,
+  },
+  commands: {
+    alignSelf: 'stretch',
+    backgroundColor: lightColors.inputBackground,
+    borderRadius: borderRadius.sm,
+    padding: spacing.sm,
+  },
+  commandsText: {
+    fontFamily: 'monospace',
+    fontSize: 11,
+    lineHeight: 15,
+    color: lightColors.textPrimary,
+  },
+  actions: {
+    flexDirection: 'row',
+    padding: spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: lightColors.border,
+    gap: spacing.sm,
+  },
+  actionButton: {
+    flex: 1,
+  },
+});
+
+export default LabelPreview;
@@ -0,0 +1,280 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, Modal, StyleSheet, TouchableOpacity, TextInput, ActivityIndicator } from 'react-native';
+import { lightColors, spacing, typography, borderRadius, elevation } from '../utils/theme';
+import { formatMoney, multiplyMoney } from '../utils/money';
+import { useTranslate } from '../hooks/useTranslate';
+import { useCurrency } from '../hooks/useCurrency';
+import { scaleServiceFactory } from '../services/scale/ScaleServiceFactory';
+import type { ScaleServiceInterface, WeightReading } from '../services/scale/ScaleServiceInterface';
+import {
+  formatQuantity,
+  isSoldByWeight,
+  MeasuredLine,
+  measuredLineProperties,
+  netWeightKg,
+  quantityFromWeight,
+  roundQuantity,
+  SELLING_UNITS,
+} from '../services/product/unitOfMeasure';
+
+/** How often the live weight refreshes while the modal is open */
+const LIVE_READING_INTERVAL_MS = 500;
+
+interface WeighItemModalProps {
+  visible: boolean;
+  productName: string;
+  /** Price of one selling unit */
+  unitPrice: number;
+  unit: MeasuredLine['unit'];
+  /** Product's container weight in kg, deducted from the scale reading */
+  defaultTareKg?: number;
+  onConfirm: (quantity: number, properties: Record<string, string>) => void;
+  onClose: () => void;
+}
+
+/**
+ * Weigh or measure an item sold by weight or length before it is added to the
+ * basket. With a scale connected the weight comes from a stable reading less
+ * the tare; otherwise the cashier types the net weight or the length.
+ */
+const WeighItemModal: React.FC<WeighItemModalProps> = ({ visible, productName, unitPrice, unit, defaultTareKg, onConfirm, onClose }) => {
+  const { t } = useTranslate();
+  const currency = useCurrency();
+  const [scale, setScale] = useState<ScaleServiceInterface | null>(null);
+  const [live, setLive] = useState<WeightReading | null>(null);
+  const [grossKg, setGrossKg] = useState<number | null>(null);
+  const [tare, setTare] = useState('');
+  const [manual, setManual] = useState('');
+  const [isWeighing, setIsWeighing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const byWeight = isSoldByWeight(unit);
+
+  useEffect(() => {
+    if (!visible) return;
+    setScale(null);
+    setLive(null);
+    setGrossKg(null);
+    setManual('');
+    setError(null);
+    setTare(defaultTareKg ? String(defaultTareKg) : '');
+
+    if (!byWeight) return;
+    let cancelled = false;
+    scaleServiceFactory.initialize().then(() => {
+      if (!cancelled) setScale(scaleServiceFactory.getService());
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, byWeight, defaultTareKg]);
+
+  // Live weight so the cashier can see the platter settle
+  useEffect(() => {
+    if (!visible || !scale) return;
+    let busy = false;
+    const timer = setInterval(async () => {
+      if (busy) return;
+      busy = true;
+      try {
+        setLive(await scale.readWeight());
+      } finally {
+        busy = false;
+      }
+    }, LIVE_READING_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [visible, scale]);
+
+  const tareKg = parseFloat(tare) || 0;
+  const manualValue = parseFloat(manual) || 0;
+  let quantity: number;
+  if (scale && grossKg !== null) {
+    quantity = quantityFromWeight(netWeightKg(grossKg, tareKg), unit) ?? 0;
+  } else if (byWeight) {
+    quantity = quantityFromWeight(manualValue, unit) ?? 0;
+  } else {
+    quantity = roundQuantity(manualValue, unit);
+  }
+  const canConfirm = quantity > 0;
+
+  const handleWeigh = async () => {
+    if (!scale) return;
+    setIsWeighing(true);
+    setError(null);
+    try {
+      const reading = await scale.readStableWeight();
+      setGrossKg(reading.weightKg);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsWeighing(false);
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!canConfirm) return;
+    const weighing = scale && grossKg !== null ? { grossKg, tareKg } : undefined;
+    onConfirm(quantity, measuredLineProperties(unit, weighing));
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <Text style={styles.title} numberOfLines={1}>
+              {t('weighItemModal.title', { name: productName })}
+            </Text>
+            <TouchableOpacity
+              onPress={onClose}
+              style={styles.closeButton}
+              accessibilityLabel={t('weighItemModal.closeLabel')}
+              accessibilityRole="button"
+            >
+              <Text style={styles.closeText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.body}>
+            <Text style={styles.unitPrice}>
+              {t('weighItemModal.unitPrice', { price: formatMoney(unitPrice, currency.code), unit: SELLING_UNITS[unit].label })}
+            </Text>
+
+            {scale ? (
+              <>
+                <View style={styles.row}>
+                  <Text style={styles.label}>{t('weighItemModal.scaleReading')}</Text>
+                  <Text style={styles.value}>
+                    {live ? formatQuantity(live.weightKg, 'kg') : '—'}
+                    {live && live.status !== 'stable' ? ` ${t('weighItemModal.settling')}` : ''}
+                  </Text>
+                </View>
+                <TextInput
+                  style={styles.input}
+                  value={tare}
+                  onChangeText={setTare}
+                  placeholder={t('weighItemModal.tarePlaceholder')}
+                  placeholderTextColor={lightColors.textSecondary}
+                  keyboardType="decimal-pad"
+                  accessibilityLabel={t('weighItemModal.tareLabel')}
+                />
+                <TouchableOpacity
+                  style={[styles.secondaryButton, isWeighing && styles.buttonDisabled]}
+                  onPress={handleWeigh}
+                  disabled={isWeighing}
+                  accessibilityRole="button"
+                >
+                  {isWeighing ? (
+                    <ActivityIndicator color={lightColors.primary} />
+                  ) : (
+                    <Text style={styles.secondaryButtonText}>{t('weighItemModal.weigh')}</Text>
+                  )}
+                </TouchableOpacity>
+              </>
+            ) : (
+              <>
+                {byWeight && <Text style={styles.hint}>{t('weighItemModal.noScale')}</Text>}
+                <TextInput
+                  style={styles.input}
+                  value={manual}
+                  onChangeText={setManual}
+                  placeholder={byWeight ? t('weighItemModal.weightPlaceholder') : t('weighItemModal.lengthPlaceholder')}
+                  placeholderTextColor={lightColors.textSecondary}
+                  keyboardType="decimal-pad"
+                  autoFocus
+                  accessibilityLabel={byWeight ? t('weighItemModal.weightLabel') : t('weighItemModal.lengthLabel')}
+                />
+              </>
+            )}
+
+            {error && <Text style={styles.error}>{error}</Text>}
+
+            <View style={styles.row}>
+              <Text style={styles.label}>{t('weighItemModal.net')}</Text>
+              <Text style={styles.total}>{formatQuantity(quantity, unit)}</Text>
+            </View>
+
+            <TouchableOpacity
+              style={[styles.applyButton, !canConfirm && styles.buttonDisabled]}
+              onPress={handleConfirm}
+              disabled={!canConfirm}
+              accessibilityRole="button"
+            >
+              <Text style={styles.applyButtonText}>
+                {t('weighItemModal.addToBasket', { amount: formatMoney(multiplyMoney(unitPrice, quantity), currency.code) })}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: lightColors.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    width: '90%',
+    maxWidth: 420,
+    backgroundColor: lightColors.surface,
+    borderRadius: borderRadius.lg,
+    ...elevation.medium,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: lightColors.border,
+  },
+  title: {
+    flex: 1,
+    fontSize: typography.fontSize.lg,
+    fontWeight: '700',
+    color: lightColors.textPrimary,
+  },
+  closeButton: { padding: spacing.xs },
+  closeText: { fontSize: typography.fontSize.lg, color: lightColors.textSecondary },
+  body: { padding: spacing.md, gap: spacing.sm },
+  unitPrice: { fontSize: typography.fontSize.md, color: lightColors.textSecondary },
+  row: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', paddingVertical: spacing.xs },
+  label: { fontSize: typography.fontSize.md, color: lightColors.textSecondary },
+  value: { fontSize: typography.fontSize.md, color: lightColors.textPrimary },
+  total: { fontSize: typography.fontSize.lg, fontWeight: '700', color: lightColors.textPrimary },
+  hint: { fontSize: typography.fontSize.sm, color: lightColors.textSecondary },
+  input: {
+    borderWidth: 1,
+    borderColor: lightColors.border,
+    borderRadius: borderRadius.sm,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.sm,
+    fontSize: typography.fontSize.md,
+    color: lightColors.textPrimary,
+  },
+  error: { fontSize: typography.fontSize.sm, color: lightColors.error },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: lightColors.primary,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.sm,
+    alignItems: 'center',
+  },
+  secondaryButtonText: { color: lightColors.primary, fontSize: typography.fontSize.md, fontWeight: '600' },
+  applyButton: {
+    backgroundColor: lightColors.primary,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.sm,
+    alignItems: 'center',
+  },
+  buttonDisabled: { opacity: 0.5 },
+  applyButtonText: { color: lightColors.textOnPrimary, fontSize: typography.fontSize.md, fontWeight: '600' },
+});
+
+export default WeighItemModal;
@@ -5,6 +5,9 @@ import { useBasketState } from './BasketStateProvider';
 import { customerDisplayServiceFactory } from '../services/display/CustomerDisplayServiceFactory';
 import { buildDisplayState } from '../services/display/CustomerDisplayServiceInterface';
 import { useCurrency } from '../hooks/useCurrency';
+import { AdjustmentInput } from '../services/basket/BasketServiceInterface';
+import { giftCardService } from '../services/giftcard/GiftCardService';
+import { GiftCardLineAction } from '../services/giftcard/giftCard';
 
 // Logger for debugging (can be used for future error tracking)
 // const logger = LoggerFactory.getInstance().createLogger('BasketActionsContext');
@@ -23,8 +26,12 @@ export interface BasketProduct {
   taxRate?: number;
   taxProfileId?: string;
   taxCode?: string;
+  /** Used to match category-wide promotions */
+  categoryId?: string;
   platformId?: string;
   platform?: ECommercePlatform;
+  /** Line properties, e.g. batch and expiry from a GS1 scan */
+  properties?: Record<string, string>;
 }
 
 export interface BasketActionsContextType {
@@ -40,7 +47,18 @@ export interface BasketActionsContextType {
   setCustomer: (email?: string, name?: string) => Promise<void>;
   setNote: (note: string) => Promise<void>;
   applyDiscount: (code: string) => Promise<void>;
-  removeDiscount: () => Promise<void>;
+  /** Remove one discount code, or all codes when omitted */
+  removeDiscount: (code?: string) => Promise<void>;
+  addBasketAdjustment: (input: AdjustmentInput) => Promise<void>;
+  addLineAdjustment: (itemId: string, input: AdjustmentInput) => Promise<void>;
+  removeAdjustment: (adjustmentId: string) => Promise<void>;
+
+  // Gift cards — activated / reloaded when the order is paid
+  addGiftCard: (code: string, amount: number, action: GiftCardLineAction) => Promise<void>;
+
+  // Held sales — park the current basket, or recall one parked on any register
+  parkBasket: (name: string, heldBy?: string) => Promise<void>;
+  recallBasket: (heldBasketId: string, recalledBy?: string) => Promise<void>;
 
   // Refresh
   refreshBasket: () => Promise<void>;
@@ -84,7 +102,7 @@ export const BasketActionsProvider = ({ children }: Readonly<{ children: ReactNo
     if (state.basketItems.length === 0) {
       display.showIdle().catch(() => {});
     } else {
-      const basketItems = state.basketItems.map(i => ({ name: i.name, quantity: i.quantity, price: i.price }));
+      const basketItems = state.basketItems.map(i => ({ name: i.name, quantity: i.quantity, price: i.price, properties: i.properties }));
       display.update(buildDisplayState(basketItems, state.subtotal, state.tax, state.total, currency.code, 'basket')).catch(() => {});
     }
   }, [state.basketItems, state.subtotal, state.tax, state.total, currency.code]);
@@ -131,6 +149,8 @@ export const BasketActionsProvider = ({ children }: Readonly<{ children: ReactNo
           originalId: product.originalId || product.platformId,
           taxRate: resolvedTaxRate,
           taxable: product.taxable ?? true,
+          categoryId: product.categoryId || undefined,
+          properties: product.properties,
         });
         if (state._mountedRef.current) {
           state._setBasket(newBasket);
@@ -274,21 +294,136 @@ export const BasketActionsProvider = ({ children }: Readonly<{ children: ReactNo
     [state]
   );
 
-  const removeDiscount = useCallback(async () => {
-    if (!state._containerRef.current) return;
+  const removeDiscount = useCallback(
+    async (code?: string) => {
+      if (!state._containerRef.current) return;
 
-    try {
-      const newBasket = await state._containerRef.current.basketService.removeDiscount();
-      if (state._mountedRef.current) {
-        state._setBasket(newBasket);
-        state._setError(null);
+      try {
+        const newBasket = await state._containerRef.current.basketService.removeDiscount(code);
+        if (state._mountedRef.current) {
+          state._setBasket(newBasket);
+          state._setError(null);
+        }
+      } catch (err) {
+        if (state._mountedRef.current) {
+          state._setError((err as Error).message);
+        }
       }
-    } catch (err) {
-      if (state._mountedRef.current) {
-        state._setError((err as Error).message);
+    },
+    [state]
+  );
+
+  const addBasketAdjustment = useCallback(
+    async (input: AdjustmentInput) => {
+      if (!state._containerRef.current) return;
+
+      try {
+        const newBasket = await state._containerRef.current.basketService.addBasketAdjustment(input);
+        if (state._mountedRef.current) {
+          state._setBasket(newBasket);
+          state._setError(null);
+        }
+      } catch (err) {
+        if (state._mountedRef.current) {
+          state._setError((err as Error).message);
+        }
       }
-    }
-  }, [state]);
+    },
+    [state]
+  );
+
+  const addLineAdjustment = useCallback(
+    async (itemId: string, input: AdjustmentInput) => {
+      if (!state._containerRef.current) return;
+
+      try {
+        const newBasket = await state._containerRef.current.basketService.addLineAdjustment(itemId, input);
+        if (state._mountedRef.current) {
+          state._setBasket(newBasket);
+          state._setError(null);
+        }
+      } catch (err) {
+        if (state._mountedRef.current) {
+          state._setError((err as Error).message);
+        }
+      }
+    },
+    [state]
+  );
+
+  const removeAdjustment = useCallback(
+    async (adjustmentId: string) => {
+      if (!state._containerRef.current) return;
+
+      try {
+        const newBasket = await state._containerRef.current.basketService.removeAdjustment(adjustmentId);
+        if (state._mountedRef.current) {
+          state._setBasket(newBasket);
+          state._setError(null);
+        }
+      } catch (err) {
+        if (state._mountedRef.current) {
+          state._setError((err as Error).message);
+        }
+      }
+    },
+    [state]
+  );
+
+  const addGiftCard = useCallback(
+    async (code: string, amount: number, action: GiftCardLineAction) => {
+      if (!state._containerRef.current) return;
+
+      try {
+        const line = await giftCardService.createBasketLine(code, amount, action);
+        const newBasket = await state._containerRef.current.basketService.addItem(line);
+        if (state._mountedRef.current) {
+          state._setBasket(newBasket);
+          state._setError(null);
+        }
+      } catch (err) {
+        if (state._mountedRef.current) {
+          state._setError((err as Error).message);
+        }
+      }
+    },
+    [state]
+  );
+
+  const parkBasket = useCallback(
+    async (name: string, heldBy?: string) => {
+      if (!state._containerRef.current) return;
+
+      try {
+        await state._containerRef.current.basketService.park(name, heldBy);
+        await refreshBasket();
+      } catch (err) {
+        if (state._mountedRef.current) {
+          state._setError((err as Error).message);
+        }
+      }
+    },
+    [state, refreshBasket]
+  );
+
+  const recallBasket = useCallback(
+    async (heldBasketId: string, recalledBy?: string) => {
+      if (!state._containerRef.current) return;
+
+      try {
+        const newBasket = await state._containerRef.current.basketService.recall(heldBasketId, recalledBy);
+        if (state._mountedRef.current) {
+          state._setBasket(newBasket);
+          state._setError(null);
+        }
+      } catch (err) {
+        if (state._mountedRef.current) {
+          state._setError((err as Error).message);
+        }
+      }
+    },
+    [state]
+  );
 
   // Memoize the entire context value - these callbacks are stable
   const value = useMemo(
@@ -303,6 +438,12 @@ export const BasketActionsProvider = ({ children }: Readonly<{ children: ReactNo
       setNote,
       applyDiscount,
       removeDiscount,
+      addBasketAdjustment,
+      addLineAdjustment,
+      removeAdjustment,
+      addGiftCard,
+      parkBasket,
+      recallBasket,
       refreshBasket,
     }),
     [
@@ -316,6 +457,12 @@ export const BasketActionsProvider = ({ children }: Readonly<{ children: ReactNo
       setNote,
       applyDiscount,
       removeDiscount,
+      addBasketAdjustment,
+      addLineAdjustment,
+      removeAdjustment,
+      addGiftCard,
+      parkBasket,
+      recallBasket,
       refreshBasket,
     ]
   );
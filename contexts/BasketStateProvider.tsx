@@ -1,10 +1,12 @@
 import React, { ReactNode, createContext, useContext, useMemo, useState, useEffect, useRef } from 'react';
 import { ImageSourcePropType } from 'react-native';
-import { Basket } from '../services/basket/basket';
+import { Basket, BasketAdjustment } from '../services/basket/basket';
 import { LocalOrder } from '../services/order/order';
+import { LinePromotion } from '../services/promotion/PromotionServiceInterface';
 import { getServiceContainer, ServiceContainer } from '../services/basket/BasketServiceFactory';
 import { syncEventBus } from '../services/instoreapi/sync/SyncEventBus';
 import { instoreApiConfig } from '../services/instoreapi/InstoreApiConfig';
+import { countedQuantity } from '../services/product/unitOfMeasure';
 
 // Re-export basket item type for components
 export interface BasketItem {
@@ -19,6 +21,12 @@ export interface BasketItem {
   originalId?: string;
   sku?: string;
   platformId?: string;
+  promotions?: LinePromotion[];
+  promotionDiscount?: number;
+  adjustments?: BasketAdjustment[];
+  adjustmentDiscount?: number;
+  /** Line properties — GS1 batch / expiry, gift card code, unit of measure and weighing */
+  properties?: Record<string, string>;
 }
 
 // Cart items as a map (productId -> quantity) for efficient lookups
@@ -122,6 +130,11 @@ export const BasketStateProvider = ({ children }: Readonly<{ children: ReactNode
       variantId: item.variantId,
       originalId: item.originalId,
       sku: item.sku,
+      promotions: item.promotions,
+      promotionDiscount: item.promotionDiscount,
+      adjustments: item.adjustments,
+      adjustmentDiscount: item.adjustmentDiscount,
+      properties: item.properties,
     }));
   }, [basket?.items]);
 
@@ -130,7 +143,7 @@ export const BasketStateProvider = ({ children }: Readonly<{ children: ReactNode
   const basketItemsMap = useMemo(() => {
     if (!basket?.items) return {};
     return basket.items.reduce((acc, item) => {
-      acc[item.productId] = item.quantity;
+      acc[item.productId] = countedQuantity(item);
       return acc;
     }, {} as BasketItemsMap);
   }, [basket?.items]);
@@ -143,7 +156,8 @@ export const BasketStateProvider = ({ children }: Readonly<{ children: ReactNode
   // Optimized: direct calculation from basket items
   const itemCount = useMemo(() => {
     if (!basket?.items) return 0;
-    return basket.items.reduce((sum, item) => sum + item.quantity, 0);
+    // A weighed or measured line counts as one item, whatever its weight
+    return basket.items.reduce((sum, item) => sum + countedQuantity(item), 0);
   }, [basket?.items]);
 
   // Subscribe to sync events for real-time updates (spec: multi-register.md §2.7.1-2.7.5)
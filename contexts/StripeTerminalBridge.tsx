@@ -28,7 +28,13 @@ interface StripeTerminalBridgeActions {
   discoverReaders: (options: { discoveryMethod: string; simulated?: boolean }) => Promise<Reader[]>;
   connectToReader: (readerId: string) => Promise<boolean>;
   disconnectReader: () => Promise<boolean>;
-  processPayment: (options: { amount: number; currency: string; description: string; metadata?: Record<string, string> }) => Promise<{
+  processPayment: (options: {
+    amount: number;
+    currency: string;
+    description: string;
+    metadata?: Record<string, string>;
+    tipEligibleAmount?: number;
+  }) => Promise<{
     success: boolean;
     transactionId?: string;
     receiptNumber?: string;
@@ -39,9 +45,11 @@ interface StripeTerminalBridgeActions {
     paymentMethod?: string;
     cardBrand?: string;
     last4?: string;
+    tipAmount?: number;
   }>;
   cancelPayment: (transactionId: string) => Promise<boolean>;
   refundPayment: (transactionId: string, amount: number) => Promise<boolean>;
+  adjustTip: (transactionId: string, amount: number) => Promise<boolean>;
 }
 
 // Create the context
@@ -330,7 +338,7 @@ export const StripeTerminalBridgeProvider: React.FC<{ children: ReactNode }> = (
           }
         },
 
-        processPayment: async ({ amount, currency = 'usd', description, metadata = {} }) => {
+        processPayment: async ({ amount, currency = 'usd', description, metadata = {}, tipEligibleAmount }) => {
           try {
             if (!terminal || !terminal.collectPaymentMethod || !terminal.processPayment) {
               setState(prev => ({
@@ -417,6 +425,8 @@ export const StripeTerminalBridgeProvider: React.FC<{ children: ReactNode }> = (
             logger.info('Collecting payment method...');
             const { error: collectError } = await terminal.collectPaymentMethod({
               paymentIntentId: paymentIntent.id,
+              // The reader shows its tipping screen when given the amount tips are calculated on
+              ...(tipEligibleAmount ? { tipEligibleAmount: Math.round(tipEligibleAmount * 100) } : {}),
             });
 
             if (collectError) {
@@ -473,13 +483,18 @@ export const StripeTerminalBridgeProvider: React.FC<{ children: ReactNode }> = (
               paymentMethod = 'contactless';
             }
 
+            // A tip chosen on the reader is added to the intent's amount
+            const tipCents: number = processedIntent.amount_details?.tip?.amount ?? 0;
+            const tipAmount = tipCents > 0 ? tipCents / 100 : undefined;
+
             // Return success response with all available information
             return {
               success: true,
               transactionId: processedIntent.id,
               receiptNumber: `RCPT-${processedIntent.id.slice(-6)}`,
               timestamp: new Date(),
-              amount: amount,
+              amount: tipAmount ? processedIntent.amount / 100 : amount,
+              tipAmount,
               paymentMethod,
               cardBrand,
               last4,
@@ -591,6 +606,43 @@ export const StripeTerminalBridgeProvider: React.FC<{ children: ReactNode }> = (
             return false;
           }
         },
+
+        adjustTip: async (transactionId, amount) => {
+          // Tips are adjusted by capturing the authorised intent for the new amount,
+          // which your backend does through the Stripe PaymentIntents API
+          try {
+            const backendUrl = await keyValueRepository.getItem('stripe_nfc_backendUrl');
+            if (!backendUrl) {
+              throw new Error('Stripe backend URL not configured');
+            }
+
+            const response = await fetch(`${backendUrl}/stripe/adjust_tip`, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({
+                paymentIntentId: transactionId,
+                amount: Math.round(amount * 100), // Convert to cents
+              }),
+            });
+
+            const result = await response.json();
+
+            if (!result.success) {
+              throw new Error(result.error || 'Tip adjustment failed');
+            }
+
+            setState(prev => ({
+              ...prev,
+              lastError: null,
+            }));
+
+            return true;
+          } catch (e) {
+            const error = e as Error;
+            setState(prev => ({ ...prev, lastError: error.message }));
+            return false;
+          }
+        },
       }),
       [terminal]
     );
@@ -667,6 +719,7 @@ export class StripeTerminalBridgeManager {
     currency: string;
     description: string;
     metadata?: Record<string, string>;
+    tipEligibleAmount?: number;
   }): Promise<{
     success: boolean;
     transactionId?: string;
@@ -678,6 +731,7 @@ export class StripeTerminalBridgeManager {
     paymentMethod?: string;
     cardBrand?: string;
     last4?: string;
+    tipAmount?: number;
   }> {
     if (!this.bridgeRef) {
       throw new Error('Stripe Terminal Bridge is not registered');
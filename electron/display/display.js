@@ -0,0 +1,329 @@
+/**
+ * Customer display page (served by the register; see electron/ipc/displayServer.js).
+ *
+ * Opened in a browser on a tablet or second monitor. Shows the screens the
+ * POS sends over the `/display` socket and answers its prompts — tip, digital
+ * receipt, loyalty sign-up, age confirmation and signature — with a
+ * `response` message. The POS re-checks every answer, so the checks here are
+ * only there to catch typing mistakes. Reconnects on its own when the
+ * register restarts.
+ */
+
+/** Size of the box signatures are scaled to; the POS expects this box */
+const SIGNATURE_WIDTH = 1000;
+const SIGNATURE_HEIGHT = 400;
+const MAX_RECONNECT_MS = 10000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[0-9][0-9 ()-]{5,19}$/;
+
+const screens = ['idle', 'basket', 'payment', 'thankyou'];
+const promptEl = document.getElementById('prompt');
+const titleEl = document.getElementById('prompt-title');
+const subtitleEl = document.getElementById('prompt-subtitle');
+const bodyEl = document.getElementById('prompt-body');
+const actionsEl = document.getElementById('prompt-actions');
+const offlineEl = document.getElementById('offline');
+
+let socket = null;
+let reconnectMs = 500;
+let openPromptId = null;
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function el(tag, className, text) {
+  const node = document.createElement(tag);
+  if (className) node.className = className;
+  if (text !== undefined) node.textContent = text;
+  return node;
+}
+
+function money(amount, currencyCode) {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency: currencyCode || 'GBP' }).format(amount);
+  } catch {
+    return Number(amount).toFixed(2);
+  }
+}
+
+function button(text, className, onClick) {
+  const node = el('button', className, text);
+  node.addEventListener('click', onClick);
+  return node;
+}
+
+function input(type, placeholder, autocomplete) {
+  const node = el('input');
+  node.type = type;
+  node.placeholder = placeholder;
+  node.autocomplete = autocomplete;
+  return node;
+}
+
+function send(message) {
+  if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+}
+
+// ── Screens ─────────────────────────────────────────────────────────────────
+
+function show(screen) {
+  for (const id of screens) document.getElementById(id).hidden = id !== screen;
+}
+
+function renderBasket(state) {
+  const items = document.getElementById('items');
+  items.replaceChildren();
+  for (const item of state.items) {
+    const li = el('li');
+    li.appendChild(el('span', 'item-qty', item.quantityLabel || `${item.quantity}×`));
+    li.appendChild(el('span', 'item-name', item.name));
+    li.appendChild(el('span', 'item-total', money(item.total, state.currencyCode)));
+    items.appendChild(li);
+  }
+  document.getElementById('subtotal').textContent = money(state.subtotal, state.currencyCode);
+  document.getElementById('tax').textContent = money(state.tax, state.currencyCode);
+  document.getElementById('total').textContent = money(state.total, state.currencyCode);
+}
+
+function showScreen(message) {
+  const payload = message.payload || {};
+  switch (message.type) {
+    case 'update':
+      if (payload.screen === 'basket' || payload.screen === 'payment') renderBasket(payload);
+      if (payload.screen === 'payment') document.getElementById('payment-total').textContent = money(payload.total, payload.currencyCode);
+      if (payload.screen === 'idle' && payload.message) document.getElementById('idle-message').textContent = payload.message;
+      if (payload.screen === 'thankyou' && payload.message) document.getElementById('thankyou-message').textContent = payload.message;
+      show(payload.screen);
+      break;
+    case 'idle':
+      document.getElementById('idle-message').textContent = payload.message || 'Welcome';
+      show('idle');
+      break;
+    case 'payment':
+      document.getElementById('payment-total').textContent = money(payload.total, payload.currencyCode);
+      show('payment');
+      break;
+    case 'thankyou':
+      document.getElementById('thankyou-message').textContent = payload.message || 'Thank you!';
+      show('thankyou');
+      break;
+  }
+}
+
+// ── Prompts ─────────────────────────────────────────────────────────────────
+
+function closePrompt() {
+  openPromptId = null;
+  promptEl.hidden = true;
+  bodyEl.replaceChildren();
+  actionsEl.replaceChildren();
+}
+
+function answer(id, value) {
+  if (id !== openPromptId) return;
+  send({ type: 'response', id, status: 'answered', value });
+  closePrompt();
+}
+
+function decline(id) {
+  if (id !== openPromptId) return;
+  send({ type: 'response', id, status: 'declined' });
+  closePrompt();
+}
+
+function openPrompt(id, title, subtitle) {
+  closePrompt();
+  openPromptId = id;
+  titleEl.textContent = title;
+  subtitleEl.textContent = subtitle || '';
+  promptEl.hidden = false;
+}
+
+/** Adds an error line to the prompt body and returns a setter for it */
+function errorLine() {
+  const node = el('p', 'error');
+  bodyEl.appendChild(node);
+  return text => {
+    node.textContent = text;
+  };
+}
+
+function tipPrompt(id, prompt) {
+  openPrompt(id, 'Add a tip?', `Order total ${money(prompt.total, prompt.currencyCode)}`);
+  for (const option of prompt.options) {
+    const node = button(option.label, 'option', () => answer(id, { tipAmount: option.tipAmount }));
+    node.appendChild(el('small', '', money(option.tipAmount, prompt.currencyCode)));
+    bodyEl.appendChild(node);
+  }
+  if (prompt.allowCustom) {
+    const amount = input('number', 'Other amount', 'off');
+    amount.min = '0';
+    amount.step = '0.01';
+    amount.inputMode = 'decimal';
+    bodyEl.appendChild(amount);
+    const setError = errorLine();
+    actionsEl.appendChild(
+      button('Add tip', 'primary', () => {
+        const tipAmount = Number(amount.value);
+        if (amount.value === '' || !Number.isFinite(tipAmount) || tipAmount < 0) return setError('Enter an amount');
+        answer(id, { tipAmount });
+      })
+    );
+  }
+  actionsEl.prepend(button('No tip', '', () => answer(id, { tipAmount: 0 })));
+}
+
+function receiptPrompt(id, prompt) {
+  const by = [prompt.allowEmail && 'email', prompt.allowPhone && 'text message'].filter(Boolean).join(' or ');
+  openPrompt(id, 'Would you like a digital receipt?', `We can send it by ${by}`);
+  const email = prompt.allowEmail ? input('email', 'Email address', 'email') : null;
+  const phone = prompt.allowPhone ? input('tel', 'Mobile number', 'tel') : null;
+  if (email) bodyEl.appendChild(email);
+  if (phone) bodyEl.appendChild(phone);
+  const setError = errorLine();
+  actionsEl.appendChild(button('No thanks', '', () => decline(id)));
+  actionsEl.appendChild(
+    button('Send receipt', 'primary', () => {
+      const value = {};
+      if (email && email.value.trim()) {
+        if (!EMAIL_PATTERN.test(email.value.trim())) return setError('Check the email address');
+        value.email = email.value.trim();
+      }
+      if (phone && phone.value.trim()) {
+        if (!PHONE_PATTERN.test(phone.value.trim())) return setError('Check the mobile number');
+        value.phone = phone.value.trim();
+      }
+      if (!value.email && !value.phone) return setError(`Enter your ${by}`);
+      answer(id, value);
+    })
+  );
+}
+
+function loyaltyPrompt(id, prompt) {
+  openPrompt(id, `Join ${prompt.programName}?`, 'Earn points on this purchase and every visit');
+  const name = input('text', 'Name', 'name');
+  const email = input('email', 'Email address', 'email');
+  const phone = input('tel', 'Mobile number (optional)', 'tel');
+  bodyEl.append(name, email, phone);
+  const setError = errorLine();
+  actionsEl.appendChild(button('No thanks', '', () => decline(id)));
+  actionsEl.appendChild(
+    button('Join', 'primary', () => {
+      if (!EMAIL_PATTERN.test(email.value.trim())) return setError('Enter your email address');
+      if (phone.value.trim() && !PHONE_PATTERN.test(phone.value.trim())) return setError('Check the mobile number');
+      answer(id, { email: email.value.trim(), name: name.value.trim() || undefined, phone: phone.value.trim() || undefined });
+    })
+  );
+}
+
+function agePrompt(id, prompt) {
+  openPrompt(id, 'Age confirmation', `This sale includes items for customers aged ${prompt.minimumAge} or over`);
+  bodyEl.appendChild(el('p', 'label', `Please confirm you are ${prompt.minimumAge} or over. Staff may ask for ID.`));
+  actionsEl.appendChild(button('No', '', () => decline(id)));
+  actionsEl.appendChild(button(`I am ${prompt.minimumAge} or over`, 'primary', () => answer(id, { confirmed: true })));
+}
+
+function signaturePrompt(id, prompt) {
+  openPrompt(id, 'Please sign', `To authorise ${money(prompt.total, prompt.currencyCode)}`);
+  const canvas = el('canvas');
+  canvas.width = SIGNATURE_WIDTH;
+  canvas.height = SIGNATURE_HEIGHT;
+  bodyEl.appendChild(canvas);
+  const setError = errorLine();
+
+  const ctx = canvas.getContext('2d');
+  ctx.lineWidth = 4;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  const strokes = [];
+  let current = null;
+
+  const point = event => {
+    const rect = canvas.getBoundingClientRect();
+    return [
+      Math.round(((event.clientX - rect.left) / rect.width) * SIGNATURE_WIDTH),
+      Math.round(((event.clientY - rect.top) / rect.height) * SIGNATURE_HEIGHT),
+    ];
+  };
+  canvas.addEventListener('pointerdown', event => {
+    canvas.setPointerCapture(event.pointerId);
+    current = [point(event)];
+    strokes.push(current);
+  });
+  canvas.addEventListener('pointermove', event => {
+    if (!current) return;
+    const [x, y] = point(event);
+    const [px, py] = current[current.length - 1];
+    current.push([x, y]);
+    ctx.beginPath();
+    ctx.moveTo(px, py);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+  });
+  const endStroke = () => {
+    current = null;
+  };
+  canvas.addEventListener('pointerup', endStroke);
+  canvas.addEventListener('pointercancel', endStroke);
+
+  actionsEl.appendChild(
+    button('Clear', '', () => {
+      strokes.length = 0;
+      ctx.clearRect(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+    })
+  );
+  actionsEl.appendChild(
+    button('Done', 'primary', () => {
+      const drawn = strokes.filter(stroke => stroke.length > 1);
+      if (drawn.length === 0) return setError('Please sign in the box');
+      const svg = drawn.map(stroke => stroke.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${x} ${y}`).join(' ')).join(' ');
+      answer(id, { svg });
+    })
+  );
+}
+
+const promptRenderers = {
+  tip: tipPrompt,
+  receipt: receiptPrompt,
+  loyalty: loyaltyPrompt,
+  age: agePrompt,
+  signature: signaturePrompt,
+};
+
+// ── Connection ──────────────────────────────────────────────────────────────
+
+function handle(message) {
+  if (message.type === 'prompt') {
+    const render = promptRenderers[message.prompt && message.prompt.type];
+    if (render) render(message.id, message.prompt);
+  } else if (message.type === 'cancel') {
+    if (message.id === openPromptId) closePrompt();
+  } else {
+    showScreen(message);
+  }
+}
+
+function connect() {
+  const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
+  // The register only accepts displays opened from its display URL, which carries the token
+  const token = new URLSearchParams(location.search).get('token') || '';
+  socket = new WebSocket(`${protocol}//${location.host}/display?token=${encodeURIComponent(token)}`);
+  socket.onopen = () => {
+    reconnectMs = 500;
+    offlineEl.hidden = true;
+  };
+  socket.onmessage = event => {
+    try {
+      handle(JSON.parse(event.data));
+    } catch {
+      // Ignore anything that is not a display message
+    }
+  };
+  socket.onclose = () => {
+    offlineEl.hidden = false;
+    closePrompt();
+    setTimeout(connect, reconnectMs);
+    reconnectMs = Math.min(reconnectMs * 2, MAX_RECONNECT_MS);
+  };
+}
+
+connect();
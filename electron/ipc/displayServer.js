@@ -0,0 +1,372 @@
+/**
+ * Customer Display Server (Node.js / main process)
+ *
+ * Serves the reference customer display (electron/display/) over HTTP so a
+ * tablet or monitor on the LAN can open it in a browser, and relays messages
+ * between that page and the POS window over WebSocket:
+ *
+ *   GET /                → the display page (index.html, display.css, display.js)
+ *   WS  /display?token=  → customer displays, any number, from the LAN
+ *   WS  /pos             → the POS window's WebSocketDisplayService, loopback only
+ *
+ * A display must present the register's display token, which is part of the
+ * URL shown in the display settings; upgrades without it are refused, so a
+ * device that merely shares the network cannot read the sale or answer a
+ * prompt.
+ *
+ * Screens and prompts from the POS go to every display; the last screen and
+ * the open prompt are replayed to a display that connects later. The first
+ * answer to a prompt goes to the POS and the prompt is withdrawn from the
+ * other displays. The POS is sent `{ type: 'display', connected }` when it
+ * connects, when the first display attaches and when the last one leaves.
+ * The message format is described in services/display/displayPrompts.ts.
+ *
+ * Only what the relay needs of RFC 6455 is implemented: unfragmented text
+ * frames, ping/pong and close, with messages capped at MAX_MESSAGE_BYTES.
+ */
+
+const http = require('http');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const crypto = require('crypto');
+
+const STATIC_DIR = path.join(__dirname, '..', 'display');
+const STATIC_FILES = {
+  '/': ['index.html', 'text/html; charset=utf-8'],
+  '/index.html': ['index.html', 'text/html; charset=utf-8'],
+  '/display.css': ['display.css', 'text/css; charset=utf-8'],
+  '/display.js': ['display.js', 'application/javascript; charset=utf-8'],
+};
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+/** Large enough for a signature's SVG path */
+const MAX_MESSAGE_BYTES = 256 * 1024;
+const SCREEN_TYPES = ['update', 'idle', 'payment', 'thankyou'];
+const LOOPBACK = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+const MIN_TOKEN_LENGTH = 32;
+
+let server = null;
+let serverPort = null;
+const posConnections = new Set();
+const displayConnections = new Set();
+/** Last screen message, replayed to displays that connect later */
+let lastScreen = null;
+/** The prompt waiting for an answer: { id, text } */
+let openPrompt = null;
+/** Secret a display must present on `/display` */
+let displayToken = null;
+
+/**
+ * Start serving on `port` (restarting if already serving on another port).
+ * Displays must connect with `token`; changing it drops connected displays.
+ * @returns {Promise<{ posUrl: string, displayUrls: string[] }>}
+ */
+function start(port, token) {
+  const wanted = Number(port);
+  if (!Number.isInteger(wanted) || wanted < 1 || wanted > 65535) {
+    return Promise.reject(new Error(`Invalid customer display port ${port}`));
+  }
+  if (typeof token !== 'string' || token.length < MIN_TOKEN_LENGTH) {
+    return Promise.reject(new Error('A customer display token is required'));
+  }
+  if (server && serverPort === wanted) {
+    if (token !== displayToken) {
+      displayToken = token;
+      for (const connection of displayConnections) connection.close(1008);
+    }
+    return Promise.resolve(urls(wanted));
+  }
+  stop();
+  displayToken = token;
+
+  return new Promise((resolve, reject) => {
+    const httpServer = http.createServer(serveStatic);
+    httpServer.on('upgrade', handleUpgrade);
+    httpServer.once('error', reject);
+    httpServer.listen(wanted, () => {
+      httpServer.removeListener('error', reject);
+      httpServer.on('error', err => console.error('[DisplayServer]', err));
+      server = httpServer;
+      serverPort = wanted;
+      console.log(`[DisplayServer] Customer display served on port ${wanted}`);
+      resolve(urls(wanted));
+    });
+  });
+}
+
+function stop() {
+  for (const connection of [...posConnections, ...displayConnections]) connection.close(1001);
+  posConnections.clear();
+  displayConnections.clear();
+  lastScreen = null;
+  openPrompt = null;
+  displayToken = null;
+  if (server) {
+    server.close();
+    server = null;
+    serverPort = null;
+  }
+}
+
+function status() {
+  return {
+    running: server !== null,
+    port: serverPort,
+    displays: displayConnections.size,
+    displayUrls: server ? lanUrls(serverPort) : [],
+  };
+}
+
+function urls(port) {
+  return { posUrl: `ws://127.0.0.1:${port}/pos`, displayUrls: lanUrls(port) };
+}
+
+/** The display page's address, with the display token, on each LAN interface */
+function lanUrls(port) {
+  return Object.values(os.networkInterfaces())
+    .flat()
+    .filter(address => address && address.family === 'IPv4' && !address.internal)
+    .map(address => `http://${address.address}:${port}/?token=${displayToken}`);
+}
+
+function serveStatic(req, res) {
+  const file = req.method === 'GET' ? STATIC_FILES[new URL(req.url, 'http://localhost').pathname] : undefined;
+  if (!file) {
+    res.writeHead(404);
+    res.end();
+    return;
+  }
+  fs.readFile(path.join(STATIC_DIR, file[0]), (err, data) => {
+    if (err) {
+      res.writeHead(500);
+      res.end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': file[1], 'Cache-Control': 'no-store' });
+    res.end(data);
+  });
+}
+
+// ── Relay ───────────────────────────────────────────────────────────────────
+
+function handleUpgrade(req, socket) {
+  const url = new URL(req.url, 'http://localhost');
+  const role = url.pathname === '/pos' ? 'pos' : url.pathname === '/display' ? 'display' : null;
+  const key = req.headers['sec-websocket-key'];
+
+  if (!role || !key || String(req.headers.upgrade).toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  // Only the POS window on this machine may drive the display
+  if (role === 'pos' && !LOOPBACK.includes(socket.remoteAddress)) {
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    return;
+  }
+  // Displays see the sale and answer prompts, so only those opened from the register's display URL
+  if (role === 'display' && !tokenMatches(url.searchParams.get('token'))) {
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    return;
+  }
+
+  const accept = crypto
+    .createHash('sha1')
+    .update(key + WS_GUID)
+    .digest('base64');
+  socket.write(
+    ['HTTP/1.1 101 Switching Protocols', 'Upgrade: websocket', 'Connection: Upgrade', `Sec-WebSocket-Accept: ${accept}`, '', ''].join(
+      '\r\n'
+    )
+  );
+  socket.setNoDelay(true);
+
+  const connection = createConnection(
+    socket,
+    text => (role === 'pos' ? fromPos(text) : fromDisplay(connection, text)),
+    () => closed(role, connection)
+  );
+
+  if (role === 'pos') {
+    posConnections.add(connection);
+    connection.send(JSON.stringify({ type: 'display', connected: displayConnections.size > 0 }));
+  } else {
+    displayConnections.add(connection);
+    if (lastScreen) connection.send(lastScreen);
+    if (openPrompt) connection.send(openPrompt.text);
+    if (displayConnections.size === 1) toAll(posConnections, JSON.stringify({ type: 'display', connected: true }));
+  }
+}
+
+function fromPos(text) {
+  const message = parse(text);
+  if (!message) return;
+  if (SCREEN_TYPES.includes(message.type)) {
+    lastScreen = text;
+  } else if (message.type === 'prompt') {
+    openPrompt = { id: message.id, text };
+  } else if (message.type === 'cancel') {
+    if (openPrompt && openPrompt.id === message.id) openPrompt = null;
+  } else {
+    return;
+  }
+  toAll(displayConnections, text);
+}
+
+function fromDisplay(connection, text) {
+  const message = parse(text);
+  // Only the first answer to the open prompt counts
+  if (!message || message.type !== 'response' || !openPrompt || openPrompt.id !== message.id) return;
+  openPrompt = null;
+  toAll(posConnections, text);
+  const withdraw = JSON.stringify({ type: 'cancel', id: message.id });
+  for (const other of displayConnections) {
+    if (other !== connection) other.send(withdraw);
+  }
+}
+
+function closed(role, connection) {
+  if (role === 'pos') {
+    posConnections.delete(connection);
+    return;
+  }
+  displayConnections.delete(connection);
+  if (displayConnections.size === 0) toAll(posConnections, JSON.stringify({ type: 'display', connected: false }));
+}
+
+/** Compare in constant time; hashing first gives both sides the same length */
+function tokenMatches(candidate) {
+  if (!displayToken || !candidate) return false;
+  const digest = value => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(candidate), digest(displayToken));
+}
+
+function parse(text) {
+  try {
+    const message = JSON.parse(text);
+    return message && typeof message.type === 'string' ? message : null;
+  } catch {
+    return null;
+  }
+}
+
+function toAll(connections, text) {
+  for (const connection of connections) connection.send(text);
+}
+
+// ── WebSocket framing ──────────────────────────────────────────────────────
+
+/**
+ * Wrap an upgraded socket: calls onText for each text message and onClose
+ * once when the connection ends.
+ */
+function createConnection(socket, onText, onClose) {
+  let buffer = Buffer.alloc(0);
+  let open = true;
+  let ended = false;
+
+  const connection = {
+    send(text) {
+      if (open) socket.write(encodeFrame(0x1, Buffer.from(text, 'utf8')));
+    },
+    close(code = 1000) {
+      if (!open) return;
+      open = false;
+      const payload = Buffer.alloc(2);
+      payload.writeUInt16BE(code, 0);
+      socket.end(encodeFrame(0x8, payload));
+    },
+  };
+
+  socket.on('data', chunk => {
+    buffer = Buffer.concat([buffer, chunk]);
+    let frame;
+    while (open && (frame = decodeFrame(buffer))) {
+      buffer = buffer.subarray(frame.length);
+      if (frame.tooLarge) return connection.close(1009);
+      // Clients must mask their frames; fragmented messages are not used by the display
+      if (!frame.masked || !frame.fin) return connection.close(1002);
+
+      switch (frame.opcode) {
+        case 0x1:
+          onText(frame.payload.toString('utf8'));
+          break;
+        case 0x8:
+          connection.close(1000);
+          break;
+        case 0x9:
+          socket.write(encodeFrame(0xa, frame.payload));
+          break;
+        case 0xa:
+          break;
+        default:
+          connection.close(1003);
+      }
+    }
+  });
+
+  const finish = () => {
+    open = false;
+    if (!ended) {
+      ended = true;
+      onClose();
+    }
+  };
+  socket.on('close', finish);
+  socket.on('error', () => socket.destroy());
+
+  return connection;
+}
+
+/** Decode the frame at the start of `buf`; null until it has fully arrived */
+function decodeFrame(buf) {
+  if (buf.length < 2) return null;
+  const fin = (buf[0] & 0x80) !== 0;
+  const opcode = buf[0] & 0x0f;
+  const masked = (buf[1] & 0x80) !== 0;
+  let length = buf[1] & 0x7f;
+  let offset = 2;
+
+  if (length === 126) {
+    if (buf.length < 4) return null;
+    length = buf.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buf.length < 10) return null;
+    const longLength = buf.readBigUInt64BE(2);
+    if (longLength > BigInt(MAX_MESSAGE_BYTES)) return { tooLarge: true, length: buf.length };
+    length = Number(longLength);
+    offset = 10;
+  }
+  if (length > MAX_MESSAGE_BYTES) return { tooLarge: true, length: buf.length };
+
+  const maskOffset = offset;
+  if (masked) offset += 4;
+  if (buf.length < offset + length) return null;
+
+  const payload = Buffer.from(buf.subarray(offset, offset + length));
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) payload[i] ^= buf[maskOffset + (i % 4)];
+  }
+  return { fin, opcode, masked, payload, length: offset + length };
+}
+
+/** An unmasked, unfragmented server frame */
+function encodeFrame(opcode, payload) {
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+module.exports = { start, stop, status };
@@ -0,0 +1,151 @@
+import http from 'http';
+import net from 'net';
+import crypto from 'crypto';
+import { Duplex } from 'stream';
+import { start, stop } from './displayServer';
+
+const TOKEN = 'a'.repeat(32);
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.once('error', reject);
+    probe.listen(0, () => {
+      const { port } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+interface TestSocket {
+  messages: Array<Record<string, unknown>>;
+  /** Resolves when the server ends the connection */
+  closed: Promise<void>;
+  send: (message: Record<string, unknown>) => void;
+  close: () => void;
+}
+
+/** Masked, unfragmented client text frame; payloads stay under 126 bytes */
+function clientFrame(text: string): Buffer {
+  const payload = Buffer.from(text, 'utf8');
+  const mask = crypto.randomBytes(4);
+  const masked = Buffer.from(payload.map((byte, i) => byte ^ mask[i % 4]));
+  return Buffer.concat([Buffer.from([0x81, 0x80 | payload.length]), mask, masked]);
+}
+
+/** Open a WebSocket on `path`; resolves the upgraded socket or rejects with the HTTP status */
+function connect(port: number, path: string): Promise<TestSocket> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({
+      host: '127.0.0.1',
+      port,
+      path,
+      headers: {
+        Connection: 'Upgrade',
+        Upgrade: 'websocket',
+        'Sec-WebSocket-Key': crypto.randomBytes(16).toString('base64'),
+        'Sec-WebSocket-Version': '13',
+      },
+    });
+    req.on('response', res => {
+      res.resume();
+      reject(new Error(String(res.statusCode)));
+    });
+    req.on('error', reject);
+    req.on('upgrade', (_res, socket: Duplex, head: Buffer) => {
+      const messages: Array<Record<string, unknown>> = [];
+      let buffer = Buffer.alloc(0);
+      const receive = (chunk: Buffer) => {
+        buffer = Buffer.concat([buffer, chunk]);
+        // Server frames are unmasked and, in these tests, shorter than 126 bytes
+        while (buffer.length >= 2 && buffer.length >= 2 + (buffer[1] & 0x7f)) {
+          const length = buffer[1] & 0x7f;
+          if ((buffer[0] & 0x0f) === 0x1) messages.push(JSON.parse(buffer.subarray(2, 2 + length).toString('utf8')));
+          buffer = buffer.subarray(2 + length);
+        }
+      };
+      // Frames sent straight after the handshake arrive with it
+      receive(head);
+      socket.on('data', receive);
+      socket.on('error', () => undefined);
+      resolve({
+        messages,
+        closed: new Promise(done => socket.once('close', () => done())),
+        send: message => socket.write(clientFrame(JSON.stringify(message))),
+        close: () => socket.destroy(),
+      });
+    });
+    req.end();
+  });
+}
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 50));
+
+// ── Tests ─────────────────────────────────────────────────────────────
+
+describe('displayServer', () => {
+  let port: number;
+
+  beforeEach(async () => {
+    port = await freePort();
+    await start(port, TOKEN);
+  });
+
+  afterEach(() => {
+    stop();
+  });
+
+  it('refuses to start without a display token', async () => {
+    stop();
+    await expect(start(port, undefined)).rejects.toThrow('A customer display token is required');
+    await expect(start(port, 'short')).rejects.toThrow('A customer display token is required');
+  });
+
+  it('puts the display token in the display URLs', async () => {
+    const { displayUrls } = await start(port, TOKEN);
+
+    for (const url of displayUrls) expect(url).toMatch(new RegExp(`:${port}/\\?token=${TOKEN}$`));
+  });
+
+  it('refuses a display without the token, which then cannot answer an open prompt', async () => {
+    const pos = await connect(port, '/pos');
+    pos.send({ type: 'prompt', id: 'p1', prompt: { type: 'age', minimumAge: 18 } });
+    await settle();
+
+    await expect(connect(port, '/display')).rejects.toThrow('403');
+    await expect(connect(port, `/display?token=${'b'.repeat(32)}`)).rejects.toThrow('403');
+    await settle();
+
+    expect(pos.messages).toEqual([{ type: 'display', connected: false }]);
+    pos.close();
+  });
+
+  it('relays the open prompt to a display with the token and its answer to the POS', async () => {
+    const pos = await connect(port, '/pos');
+    pos.send({ type: 'prompt', id: 'p1', prompt: { type: 'age', minimumAge: 18 } });
+    await settle();
+
+    const display = await connect(port, `/display?token=${TOKEN}`);
+    await settle();
+    expect(display.messages).toEqual([{ type: 'prompt', id: 'p1', prompt: { type: 'age', minimumAge: 18 } }]);
+
+    display.send({ type: 'response', id: 'p1', status: 'answered', value: { confirmed: true } });
+    await settle();
+    expect(pos.messages).toContainEqual({ type: 'response', id: 'p1', status: 'answered', value: { confirmed: true } });
+    display.close();
+    pos.close();
+  });
+
+  it('drops connected displays when the token changes', async () => {
+    const display = await connect(port, `/display?token=${TOKEN}`);
+    await settle();
+
+    await start(port, 'c'.repeat(32));
+
+    await display.closed;
+    await expect(connect(port, `/display?token=${TOKEN}`)).rejects.toThrow('403');
+    display.close();
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Kitchen Display IPC Bridge (Node.js / main process)
+ *
+ * Owns the built-in KDS window (electron/kds/) and the tickets it shows.
+ * Tickets live here rather than in the window so they survive the window
+ * being closed and reopened. The POS window sends tickets in; the KDS window
+ * starts, bumps and recalls them, and every status change is reported back
+ * to the POS through the listener set with setStatusListener().
+ *
+ * Ticket statuses follow KdsOrderStatus in services/kds/KdsServiceInterface.ts:
+ *   received → preparing → ready (bumped) → recalled → ready …
+ */
+
+const path = require('path');
+const { BrowserWindow, screen } = require('electron');
+
+/** Bumped tickets kept for recall, newest first */
+const MAX_BUMPED = 20;
+const WINDOW_STATUSES = ['preparing', 'ready', 'recalled'];
+
+let kdsWindow = null;
+let statusListener = null;
+const tickets = new Map();
+
+/**
+ * Report ticket status changes (including bumps made on the KDS window).
+ * @param {(update: { orderId: string, status: string, updatedAt: number }) => void} listener
+ */
+function setStatusListener(listener) {
+  statusListener = listener;
+}
+
+/**
+ * Open the KDS window, full screen on the first non-primary display if one is
+ * connected, otherwise as a normal window. Focuses it if already open.
+ * @returns {boolean}
+ */
+function openKdsWindow() {
+  if (kdsWindow) {
+    kdsWindow.show();
+    kdsWindow.focus();
+    return true;
+  }
+
+  const primary = screen.getPrimaryDisplay();
+  const secondary = screen.getAllDisplays().find(d => d.id !== primary.id);
+
+  kdsWindow = new BrowserWindow({
+    width: 1280,
+    height: 800,
+    ...(secondary ? { x: secondary.bounds.x, y: secondary.bounds.y, fullscreen: true } : {}),
+    title: 'Kitchen Display',
+    backgroundColor: '#1E1E1E',
+    autoHideMenuBar: true,
+    webPreferences: {
+      preload: path.join(__dirname, '..', 'kds', 'preload.js'),
+      contextIsolation: true,
+      nodeIntegration: false,
+      // See main.js — the preload needs require('electron') for contextBridge
+      sandbox: false,
+      // The kitchen screen is often unfocused; keep its timers ticking
+      backgroundThrottling: false,
+    },
+  });
+
+  kdsWindow.loadFile(path.join(__dirname, '..', 'kds', 'index.html'));
+  kdsWindow.webContents.setWindowOpenHandler(() => ({ action: 'deny' }));
+  kdsWindow.on('closed', () => {
+    kdsWindow = null;
+  });
+  return true;
+}
+
+function closeKdsWindow() {
+  if (kdsWindow) kdsWindow.close();
+}
+
+function isKdsWindowOpen() {
+  return kdsWindow !== null;
+}
+
+/**
+ * Add (or replace) a ticket.
+ * @returns {boolean} true when the ticket is on screen; false when the window is closed
+ */
+function sendOrder(order) {
+  if (!order || typeof order.orderId !== 'string' || !Array.isArray(order.items)) return false;
+  tickets.set(order.orderId, {
+    orderId: order.orderId,
+    orderRef: String(order.orderRef || order.orderId.slice(-4)),
+    label: order.label,
+    placedAt: Number(order.placedAt) || Date.now(),
+    items: order.items.map(item => ({
+      id: String(item.id),
+      name: String(item.name),
+      quantity: Number(item.quantity) || 1,
+      modifiers: Array.isArray(item.modifiers) ? item.modifiers.map(String) : undefined,
+      notes: item.notes ? String(item.notes) : undefined,
+    })),
+    status: 'received',
+    updatedAt: Date.now(),
+  });
+  publish();
+  notify(order.orderId);
+  return isKdsWindowOpen();
+}
+
+function recallOrder(orderId) {
+  return setStatus(orderId, 'recalled');
+}
+
+function cancelOrder(orderId) {
+  const removed = tickets.delete(orderId);
+  if (removed) publish();
+  return removed;
+}
+
+/**
+ * Status change made on the KDS window.
+ * @returns {boolean} false for an unknown ticket or status
+ */
+function setStatus(orderId, status) {
+  const ticket = tickets.get(orderId);
+  if (!ticket || !WINDOW_STATUSES.includes(status)) return false;
+  ticket.status = status;
+  ticket.updatedAt = Date.now();
+  pruneBumped();
+  publish();
+  notify(orderId);
+  return true;
+}
+
+/**
+ * Tickets for the KDS window: active ones oldest first, bumped ones newest first.
+ */
+function getTickets() {
+  const all = [...tickets.values()];
+  return {
+    active: all.filter(t => t.status !== 'ready').sort((a, b) => a.placedAt - b.placedAt),
+    bumped: all.filter(t => t.status === 'ready').sort((a, b) => b.updatedAt - a.updatedAt),
+  };
+}
+
+function pruneBumped() {
+  getTickets()
+    .bumped.slice(MAX_BUMPED)
+    .forEach(t => tickets.delete(t.orderId));
+}
+
+function publish() {
+  if (kdsWindow && !kdsWindow.isDestroyed()) {
+    kdsWindow.webContents.send('kds-tickets', getTickets());
+  }
+}
+
+function notify(orderId) {
+  const ticket = tickets.get(orderId);
+  if (ticket && statusListener) {
+    statusListener({ orderId, status: ticket.status, updatedAt: ticket.updatedAt });
+  }
+}
+
+module.exports = {
+  setStatusListener,
+  openKdsWindow,
+  closeKdsWindow,
+  isKdsWindowOpen,
+  sendOrder,
+  recallOrder,
+  cancelOrder,
+  setStatus,
+  getTickets,
+};
@@ -0,0 +1,136 @@
+/**
+ * Weighing Scale IPC Bridge (Node.js / main process)
+ *
+ * Holds the serial port of the scale used for items sold by weight. The
+ * renderer's SerialScaleService sends protocol requests and parses the
+ * frames; this bridge only moves bytes:
+ *
+ *   open   — open the port with the protocol's line settings
+ *   read   — send a request (none for streaming scales) and resolve the next
+ *            frame ending in the terminator, or null on timeout
+ *   write  — send a command such as zero
+ *   close  — release the port
+ *
+ * Frames are passed as latin1 strings so control characters (STX, ETX, ENQ)
+ * survive the IPC hop. One scale per terminal; opening again closes the
+ * previous port.
+ *
+ * Dependencies (install as needed):
+ *   npm install serialport
+ */
+
+/** Drop a partial frame that never ends rather than growing without bound */
+const MAX_BUFFER_CHARS = 256;
+
+let port = null;
+let buffer = '';
+/** @type {{ terminator: string, resolve: (frame: string | null) => void, timer: NodeJS.Timeout } | null} */
+let pending = null;
+
+/**
+ * Open the scale's serial port.
+ * @param {{ port: string, baudRate: number, dataBits: 7 | 8, parity: 'none' | 'even' | 'odd' }} config
+ * @returns {Promise<boolean>}
+ */
+async function open(config) {
+  await close();
+
+  let SerialPort;
+  try {
+    ({ SerialPort } = require('serialport'));
+  } catch (err) {
+    console.error('[scaleBridge] serialport unavailable:', err.message);
+    return false;
+  }
+
+  return new Promise(resolve => {
+    const serial = new SerialPort(
+      { path: config.port, baudRate: config.baudRate, dataBits: config.dataBits, parity: config.parity, stopBits: 1 },
+      err => {
+        if (err) {
+          console.error('[scaleBridge] Failed to open', config.port, err.message);
+          resolve(false);
+          return;
+        }
+        port = serial;
+        buffer = '';
+        resolve(true);
+      }
+    );
+    serial.on('data', onData);
+    serial.on('error', err => console.error('[scaleBridge] Serial error:', err.message));
+    serial.on('close', () => {
+      if (port === serial) port = null;
+      settle(null);
+    });
+  });
+}
+
+/** Release the port; a pending read resolves null */
+async function close() {
+  settle(null);
+  if (!port) return;
+  const serial = port;
+  port = null;
+  await new Promise(resolve => serial.close(() => resolve()));
+}
+
+/**
+ * Send `request` and resolve the next frame ending in `terminator`.
+ * @param {string} request — may be empty for scales that stream readings
+ * @param {string} terminator
+ * @param {number} timeoutMs
+ * @returns {Promise<string | null>}
+ */
+async function read(request, terminator, timeoutMs) {
+  if (!port) return null;
+  settle(null);
+
+  // Streaming scales send continuously; only a frame that starts after this
+  // request is fresh, so drop what has queued up.
+  buffer = '';
+
+  return new Promise(resolve => {
+    pending = { terminator, resolve, timer: setTimeout(() => settle(null), timeoutMs) };
+    if (request) {
+      port.write(Buffer.from(request, 'latin1'), err => {
+        if (err) {
+          console.error('[scaleBridge] Write failed:', err.message);
+          settle(null);
+        }
+      });
+    }
+  });
+}
+
+/**
+ * Send a command to the scale.
+ * @param {string} data
+ * @returns {Promise<boolean>}
+ */
+async function write(data) {
+  if (!port) return false;
+  return new Promise(resolve => {
+    port.write(Buffer.from(data, 'latin1'), err => resolve(!err));
+  });
+}
+
+function onData(chunk) {
+  buffer = (buffer + chunk.toString('latin1')).slice(-MAX_BUFFER_CHARS);
+  if (!pending) return;
+  const end = buffer.indexOf(pending.terminator);
+  if (end === -1) return;
+  const frame = buffer.slice(0, end + pending.terminator.length);
+  buffer = buffer.slice(end + pending.terminator.length);
+  settle(frame);
+}
+
+function settle(frame) {
+  if (!pending) return;
+  const { resolve, timer } = pending;
+  pending = null;
+  clearTimeout(timer);
+  resolve(frame);
+}
+
+module.exports = { open, close, read, write };
@@ -0,0 +1,120 @@
+/**
+ * Kitchen display page (runs in the KDS window; see electron/ipc/kdsBridge.js).
+ *
+ * Shows open tickets oldest first with a running timer that turns amber and
+ * then red as the ticket ages. Staff tap Start when they begin an order and
+ * Bump when it is ready; bumped tickets move to the footer where they can be
+ * recalled. All changes go through window.kdsAPI to the main process, which
+ * reports them to the POS.
+ */
+
+/** Ticket age thresholds (ms) for the amber and red timer colours */
+const WARN_AFTER_MS = 5 * 60 * 1000;
+const LATE_AFTER_MS = 10 * 60 * 1000;
+
+const ticketsEl = document.getElementById('tickets');
+const bumpedEl = document.getElementById('bumped');
+const emptyEl = document.getElementById('empty');
+const summaryEl = document.getElementById('summary');
+const clockEl = document.getElementById('clock');
+
+let state = { active: [], bumped: [] };
+
+function formatElapsed(ms) {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+function ageClass(ms) {
+  if (ms >= LATE_AFTER_MS) return 'late';
+  if (ms >= WARN_AFTER_MS) return 'warn';
+  return '';
+}
+
+function el(tag, className, text) {
+  const node = document.createElement(tag);
+  if (className) node.className = className;
+  if (text !== undefined) node.textContent = text;
+  return node;
+}
+
+function button(className, text, status, orderId) {
+  const node = el('button', className, text);
+  node.addEventListener('click', () => {
+    node.disabled = true;
+    window.kdsAPI.setStatus(orderId, status).finally(() => {
+      node.disabled = false;
+    });
+  });
+  return node;
+}
+
+function renderTicket(ticket, now) {
+  const card = el('article', 'ticket');
+  card.dataset.placedAt = String(ticket.placedAt);
+  if (ticket.status === 'recalled') card.classList.add('recalled');
+
+  const head = el('div', 'ticket-head');
+  const title = el('div');
+  title.appendChild(el('span', 'ticket-ref', `#${ticket.orderRef}`));
+  if (ticket.label) title.appendChild(el('span', 'ticket-label', ticket.label));
+  head.appendChild(title);
+  head.appendChild(el('span', 'ticket-timer', formatElapsed(now - ticket.placedAt)));
+  card.appendChild(head);
+
+  card.appendChild(el('div', 'ticket-status', ticket.status));
+
+  const items = el('ul', 'ticket-items');
+  for (const item of ticket.items) {
+    const li = el('li');
+    li.appendChild(el('span', 'item-qty', `${item.quantity}×`));
+    li.appendChild(document.createTextNode(item.name));
+    for (const modifier of item.modifiers || []) li.appendChild(el('span', 'item-detail', modifier));
+    if (item.notes) li.appendChild(el('span', 'item-detail', item.notes));
+    items.appendChild(li);
+  }
+  card.appendChild(items);
+
+  const actions = el('div', 'ticket-actions');
+  if (ticket.status !== 'preparing') actions.appendChild(button('start', 'Start', 'preparing', ticket.orderId));
+  actions.appendChild(button('bump', 'Bump', 'ready', ticket.orderId));
+  card.appendChild(actions);
+
+  return card;
+}
+
+function render() {
+  const now = Date.now();
+  ticketsEl.replaceChildren(...state.active.map(ticket => renderTicket(ticket, now)));
+  bumpedEl.replaceChildren(...state.bumped.map(ticket => button('recall', `↺ #${ticket.orderRef}`, 'recalled', ticket.orderId)));
+  emptyEl.hidden = state.active.length > 0;
+  summaryEl.textContent = `${state.active.length} open`;
+  tick();
+}
+
+/** Refresh timers and colours without rebuilding the tickets */
+function tick() {
+  const now = Date.now();
+  clockEl.textContent = new Date(now).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  for (const card of ticketsEl.children) {
+    const age = now - Number(card.dataset.placedAt);
+    card.querySelector('.ticket-timer').textContent = formatElapsed(age);
+    card.classList.remove('warn', 'late');
+    const cls = ageClass(age);
+    if (cls) card.classList.add(cls);
+  }
+}
+
+window.kdsAPI.onTicketsChanged(tickets => {
+  state = tickets;
+  render();
+});
+
+window.kdsAPI.getTickets().then(tickets => {
+  state = tickets;
+  render();
+});
+
+setInterval(tick, 1000);
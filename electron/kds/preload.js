@@ -0,0 +1,16 @@
+const { contextBridge, ipcRenderer } = require('electron');
+
+/**
+ * Preload for the built-in kitchen display window (electron/ipc/kdsBridge.js).
+ * Exposes only what the KDS page needs: reading tickets, changing a ticket's
+ * status, and hearing when the ticket list changes.
+ */
+contextBridge.exposeInMainWorld('kdsAPI', {
+  getTickets: () => ipcRenderer.invoke('kds-window-get-tickets'),
+  setStatus: (orderId, status) => ipcRenderer.invoke('kds-window-set-status', orderId, status),
+  onTicketsChanged: callback => {
+    const listener = (_event, tickets) => callback(tickets);
+    ipcRenderer.on('kds-tickets', listener);
+    return () => ipcRenderer.removeListener('kds-tickets', listener);
+  },
+});
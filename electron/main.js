@@ -92,6 +92,8 @@ function createWindow() {
 
   mainWindow.on('closed', () => {
     mainWindow = null;
+    // The kitchen display is driven by the POS window, so it goes with it
+    require('./ipc/kdsBridge').closeKdsWindow();
   });
 
   // Reduce resource usage when minimized
@@ -357,6 +359,100 @@ function registerIpcHandlers() {
       console.error('[IPC] payment-disconnect failed:', err);
     }
   });
+
+  // ── Kitchen display IPC ───────────────────────────────────────────────────
+  // The POS window (ElectronKdsService) sends tickets to the built-in KDS
+  // window; the KDS window starts, bumps and recalls them. Status changes
+  // are forwarded back to the POS window as 'kds-status-update' events.
+
+  const kds = require('./ipc/kdsBridge');
+  kds.setStatusListener(update => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('kds-status-update', update);
+    }
+  });
+
+  ipcMain.handle('kds-window-open', () => {
+    try {
+      return kds.openKdsWindow();
+    } catch (err) {
+      console.error('[IPC] kds-window-open failed:', err);
+      return false;
+    }
+  });
+
+  ipcMain.handle('kds-window-close', () => kds.closeKdsWindow());
+  ipcMain.handle('kds-window-is-open', () => kds.isKdsWindowOpen());
+
+  ipcMain.handle('kds-send-order', (_event, order) => {
+    try {
+      return kds.sendOrder(order);
+    } catch (err) {
+      console.error('[IPC] kds-send-order failed:', err);
+      return false;
+    }
+  });
+
+  ipcMain.handle('kds-recall-order', (_event, orderId) => kds.recallOrder(orderId));
+  ipcMain.handle('kds-cancel-order', (_event, orderId) => kds.cancelOrder(orderId));
+
+  // Called from the KDS window (electron/kds/preload.js)
+  ipcMain.handle('kds-window-get-tickets', () => kds.getTickets());
+  ipcMain.handle('kds-window-set-status', (_event, orderId, status) => kds.setStatus(orderId, status));
+
+  // ── Customer display IPC ──────────────────────────────────────────────────
+  // Serves the reference customer display page (electron/display/) to a
+  // tablet or monitor on the LAN and relays messages between it and the POS
+  // window's WebSocketDisplayService. Errors (e.g. port in use) reject.
+
+  const displayServer = require('./ipc/displayServer');
+  ipcMain.handle('display-server-start', (_event, port, token) => displayServer.start(port, token));
+  ipcMain.handle('display-server-stop', () => displayServer.stop());
+  ipcMain.handle('display-server-status', () => displayServer.status());
+
+  // ── Scale IPC ─────────────────────────────────────────────────────────────
+  // Moves bytes between the scale's serial port and the renderer's
+  // SerialScaleService, which speaks the protocol. Returns false / null on
+  // any error so a missing scale falls back to manual weight entry.
+
+  ipcMain.handle('scale-open', async (_event, config) => {
+    try {
+      const { open } = require('./ipc/scaleBridge');
+      return await open(config);
+    } catch (err) {
+      console.error('[IPC] scale-open failed:', err);
+      return false;
+    }
+  });
+
+  ipcMain.handle('scale-close', async () => {
+    try {
+      const { close } = require('./ipc/scaleBridge');
+      await close();
+    } catch (err) {
+      console.error('[IPC] scale-close failed:', err);
+    }
+  });
+
+  ipcMain.handle('scale-read', async (_event, request, terminator, timeoutMs) => {
+    try {
+      const { read } = require('./ipc/scaleBridge');
+      return await read(request, terminator, timeoutMs);
+    } catch (err) {
+      console.error('[IPC] scale-read failed:', err);
+      return null;
+    }
+  });
+
+  ipcMain.handle('scale-write', async (_event, data) => {
+    try {
+      const { write } = require('./ipc/scaleBridge');
+      return await write(data);
+    } catch (err) {
+      console.error('[IPC] scale-write failed:', err);
+      return false;
+    }
+  });
 }
 
 // App lifecycle
@@ -384,6 +480,10 @@ app.whenReady().then(() => {
   });
 });
 
+app.on('will-quit', () => {
+  require('./ipc/displayServer').stop();
+});
+
 app.on('window-all-closed', () => {
   // On macOS apps stay active until Cmd+Q
   if (process.platform !== 'darwin') {
@@ -45,6 +45,30 @@ contextBridge.exposeInMainWorld('electronAPI', {
   paymentCollect: request => ipcRenderer.invoke('payment-collect', request),
   paymentCancel: () => ipcRenderer.invoke('payment-cancel'),
   paymentDisconnect: () => ipcRenderer.invoke('payment-disconnect'),
+
+  // ── Kitchen display IPC ───────────────────────────────────────────────────
+  kdsWindowOpen: () => ipcRenderer.invoke('kds-window-open'),
+  kdsWindowClose: () => ipcRenderer.invoke('kds-window-close'),
+  kdsWindowIsOpen: () => ipcRenderer.invoke('kds-window-is-open'),
+  kdsSendOrder: order => ipcRenderer.invoke('kds-send-order', order),
+  kdsRecallOrder: orderId => ipcRenderer.invoke('kds-recall-order', orderId),
+  kdsCancelOrder: orderId => ipcRenderer.invoke('kds-cancel-order', orderId),
+  onKdsStatusUpdate: callback => {
+    const listener = (_event, update) => callback(update);
+    ipcRenderer.on('kds-status-update', listener);
+    return () => ipcRenderer.removeListener('kds-status-update', listener);
+  },
+
+  // ── Customer display IPC ──────────────────────────────────────────────────
+  displayServerStart: (port, token) => ipcRenderer.invoke('display-server-start', port, token),
+  displayServerStop: () => ipcRenderer.invoke('display-server-stop'),
+  displayServerStatus: () => ipcRenderer.invoke('display-server-status'),
+
+  // ── Scale IPC ─────────────────────────────────────────────────────────────
+  scaleOpen: config => ipcRenderer.invoke('scale-open', config),
+  scaleClose: () => ipcRenderer.invoke('scale-close'),
+  scaleRead: (request, terminator, timeoutMs) => ipcRenderer.invoke('scale-read', request, terminator, timeoutMs),
+  scaleWrite: data => ipcRenderer.invoke('scale-write', data),
 });
 
 // Expose a top-level flag for the isElectron() utility in utils/electron.ts
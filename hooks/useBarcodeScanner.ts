@@ -5,6 +5,8 @@ import { ScannerType, ScannerServiceFactory } from '../services/scanner/ScannerS
 import { ScannerServiceInterface } from '../services/scanner/ScannerServiceInterface';
 import { SearchServiceFactory } from '../services/search/SearchServiceFactory';
 import { productVariantRepository } from '../repositories/ProductVariantRepository';
+import { scannerSettingsService } from '../services/scanner/ScannerSettingsService';
+import { decodeBarcode, Gs1Scan, isExpired, scanLine } from '../services/scanner/gs1';
 import { useLogger } from './useLogger';
 
 interface ScannerSettings {
@@ -23,11 +25,12 @@ interface Product {
 interface UseBarcodeScannerServiceProps {
   scannerSettings: ScannerSettings;
   products: Product[];
-  onScanSuccess: (productId: string) => void;
+  /** `scan` is set when the code was a GS1 code carrying price, weight, batch or expiry */
+  onScanSuccess: (productId: string, scan?: Gs1Scan) => void;
 }
 
 export interface ScanResult {
-  status: 'found_local' | 'found_variant' | 'found_online' | 'not_found' | 'searching';
+  status: 'found_local' | 'found_variant' | 'found_online' | 'not_found' | 'expired' | 'searching';
   name?: string;
   price?: number;
 }
@@ -95,39 +98,62 @@ export const useBarcodeScanner = ({ scannerSettings, products, onScanSuccess }:
 
   // Process barcode data from any scanner type
   // UX design: auto-add immediately on any unambiguous local match (no dialog friction).
-  // Only show Alert for 'not found' (so cashier knows to check the item).
+  // Only show Alert for 'not found' and expired items (so cashier knows to check the item).
   // Online results call onScanSuccess directly — OrderScreen will auto-add when navigated.
+  // GS1 codes are decoded first and looked up by their GTIN or item reference.
   const processBarcodeData = useCallback(
     async (data: string) => {
       setScanResult({ status: 'searching' });
 
-      // 1. Exact match in loaded products list (id, barcode, or SKU) — instant, no dialog
-      const product = products.find(p => p.id === data || p.barcode === data || (p as unknown as { sku?: string }).sku === data);
-      if (product) {
-        setScanResult({ status: 'found_local', name: product.name, price: product.price });
-        onScanSuccess(product.id);
+      await scannerSettingsService.initialize();
+      const gs1Settings = scannerSettingsService.getGs1Settings();
+      const scan = decodeBarcode(data, gs1Settings) ?? undefined;
+      const codes = scan?.lookupCodes ?? [data];
+
+      if (scan?.expiry && gs1Settings.blockExpired && isExpired(scan.expiry)) {
+        setScanResult({ status: 'expired' });
+        showScannerAlert('Item Expired', `This item expired on ${scan.expiry} and cannot be sold.`, [
+          {
+            text: 'Scan Again',
+            onPress: () => {
+              scannedRef.current = false;
+              setScanned(false);
+              setScanResult(null);
+            },
+          },
+        ]);
+        return;
+      }
+
+      const found = (status: ScanResult['status'], productId: string, name: string, price: number) => {
+        setScanResult({ status, name, price: scan ? scanLine(scan, price).price : price });
+        onScanSuccess(productId, scan);
         setTimeout(() => {
           scannedRef.current = false;
           setScanned(false);
           setScanResult(null);
         }, 1500);
-        return;
+      };
+
+      // 1. Exact match in loaded products list (id, barcode, or SKU) — instant, no dialog
+      for (const code of codes) {
+        const product = products.find(p => p.id === code || p.barcode === code || (p as unknown as { sku?: string }).sku === code);
+        if (product) {
+          found('found_local', product.id, product.name, product.price);
+          return;
+        }
       }
 
       // 2. Variant DB lookup (non-default variants not in the products array) — auto-add
       try {
-        const variant = (await productVariantRepository.findByBarcode(data)) || (await productVariantRepository.findBySku(data));
-        if (variant) {
-          const parentProduct = products.find(p => p.id === variant.product_id);
-          const displayName = parentProduct ? `${parentProduct.name} — ${variant.title}` : variant.title;
-          setScanResult({ status: 'found_variant', name: displayName, price: variant.price });
-          onScanSuccess(variant.product_id);
-          setTimeout(() => {
-            scannedRef.current = false;
-            setScanned(false);
-            setScanResult(null);
-          }, 1500);
-          return;
+        for (const code of codes) {
+          const variant = (await productVariantRepository.findByBarcode(code)) || (await productVariantRepository.findBySku(code));
+          if (variant) {
+            const parentProduct = products.find(p => p.id === variant.product_id);
+            const displayName = parentProduct ? `${parentProduct.name} — ${variant.title}` : variant.title;
+            found('found_variant', variant.product_id, displayName, variant.price);
+            return;
+          }
         }
       } catch (error) {
         logger.error({ message: 'Variant barcode lookup failed' }, error instanceof Error ? error : new Error(String(error)));
@@ -137,17 +163,13 @@ export const useBarcodeScanner = ({ scannerSettings, products, onScanSuccess }:
       try {
         const searchService = SearchServiceFactory.getInstance().getService();
         if (searchService.isInitialized()) {
-          const result = await searchService.searchByBarcode(data);
-          const onlineProduct = result.ecommerceResults[0];
-          if (onlineProduct) {
-            setScanResult({ status: 'found_online', name: onlineProduct.name, price: onlineProduct.price });
-            onScanSuccess(onlineProduct.id);
-            setTimeout(() => {
-              scannedRef.current = false;
-              setScanned(false);
-              setScanResult(null);
-            }, 1500);
-            return;
+          for (const code of codes) {
+            const result = await searchService.searchByBarcode(code);
+            const onlineProduct = result.ecommerceResults[0];
+            if (onlineProduct) {
+              found('found_online', onlineProduct.id, onlineProduct.name, onlineProduct.price);
+              return;
+            }
           }
         }
       } catch (error) {
@@ -12,6 +12,7 @@ import {
   UnifiedCategoryTree,
 } from '../services/category/types';
 import { mapToUnifiedCategories } from '../services/category/mappers';
+import { syncEventBus } from '../services/instoreapi/sync/SyncEventBus';
 
 /**
  * Hook state interface
@@ -169,6 +170,15 @@ export const useUnifiedCategories = (platform?: ECommercePlatform): UseUnifiedCa
     fetchCategories();
   }, [fetchCategories]);
 
+  // Refresh when categories change on another register or in the online store
+  useEffect(() => {
+    return syncEventBus.on('config:updated', event => {
+      if ((event.payload as { entity?: string } | undefined)?.entity === 'category') {
+        fetchCategories();
+      }
+    });
+  }, [fetchCategories]);
+
   return {
     categories,
     categorySummaries,
@@ -15,25 +15,64 @@
  *  - Before "Pay" tapped: pure local state, no API calls
  *  - After markPaymentProcessing: cancelOrder → restart checkout
  *  - On cash tender back button: setStep('method'), no API call
+ *
+ * Tips (docs/specs/checkout/tips.md): chosen on the till before paying, or
+ * asked for on the card terminal when tipsOnTerminal. Either way the tip is
+ * charged on top of the order total and recorded on the payment line that
+ * carried it.
+ *
+ * Customer display prompts (docs/specs/hardware/customer-display.md §2.7):
+ * age check and loyalty sign-up before the draft is created — an
+ * age-restricted sale also needs the cashier to confirm they checked ID — the tip while
+ * checkout is open (when tipping.config.onDisplay), and signature and
+ * receipt contact after the payment is taken, via customerPromptService.
+ *
+ * Lines scanned with a GS1 expiry date that has since passed block checkout
+ * (docs/specs/hardware/scanner.md §2.13).
  */
 
 import { useState, useCallback, useMemo } from 'react';
+import { Alert } from 'react-native';
 import { ECommercePlatform } from '../utils/platforms';
 import { usePayment } from './usePayment';
 import { cashDrawerServiceFactory } from '../services/drawer/CashDrawerServiceFactory';
 import { PrinterServiceFactory } from '../services/printer/PrinterServiceFactory';
 import { customerDisplayServiceFactory } from '../services/display/CustomerDisplayServiceFactory';
+import { customerPromptService } from '../services/display/CustomerPromptService';
 import { keyValueRepository } from '../repositories/KeyValueRepository';
 import { PaymentSelection } from '../components/CheckoutModal';
 import { PaymentLine } from '../services/order/order';
 import { generateUUID } from '../utils/uuid';
 import { loyaltyService } from '../services/loyalty/LoyaltyService';
 import { storeCreditService } from '../services/customer/StoreCreditService';
-import { toCents } from '../utils/money';
+import { giftCardService } from '../services/giftcard/GiftCardService';
+import { tipService } from '../services/tips/TipService';
+import { TipConfig, assignTip } from '../services/tips/tips';
+import { scannerSettingsService } from '../services/scanner/ScannerSettingsService';
+import { findExpiredLines } from '../services/scanner/gs1';
+import { addMoney, toCents } from '../utils/money';
 import { useLogger } from './useLogger';
 import { useManagerApproval } from './useManagerApproval';
 import { useBasketState } from '../contexts/BasketStateProvider';
+import { useBasketActions } from '../contexts/BasketActionsProvider';
 import { useCheckoutContext } from '../contexts/CheckoutProvider';
+import { useAuthContext } from '../contexts/AuthProvider';
+import { receiptDiscountsFromOrder, receiptItemsFromOrder } from '../utils/receipt.utils';
+
+/** Ask the cashier whether they have seen ID; dismissing the question counts as no */
+function confirmIdChecked(minimumAge: number): Promise<boolean> {
+  return new Promise(resolve => {
+    Alert.alert(
+      'Check ID',
+      `Has the customer shown ID proving they are ${minimumAge} or over?`,
+      [
+        { text: 'Not Verified', style: 'cancel', onPress: () => resolve(false) },
+        { text: 'ID Checked', onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+}
 
 interface UseCheckoutOptions {
   platform?: ECommercePlatform;
@@ -43,6 +82,8 @@ interface UseCheckoutOptions {
 export function useCheckout({ platform, onSuccess }: UseCheckoutOptions = {}) {
   const logger = useLogger('useCheckout');
   const { basketItems, total, subtotal, tax, itemCount, basket } = useBasketState();
+  const { setCustomer } = useBasketActions();
+  const { user } = useAuthContext();
   const { currentOrder, startCheckout, markPaymentProcessing, completePayment, cancelOrder, cancelDraftOrder } = useCheckoutContext();
 
   const { processPayment, isTerminalConnected, getPaymentMode, getCurrentProvider } = usePayment();
@@ -57,6 +98,11 @@ export function useCheckout({ platform, onSuccess }: UseCheckoutOptions = {}) {
   const [paymentLines, setPaymentLines] = useState<PaymentLine[]>([]);
   const [splitCashTenderAmount, setSplitCashTenderAmount] = useState<number | null>(null);
 
+  // ── Tip state ────────────────────────────────────────────────────────
+  const [tipConfig, setTipConfig] = useState<TipConfig | null>(null);
+  const [tipAmount, setTipAmount] = useState(0);
+  const [tipsOnTerminal, setTipsOnTerminal] = useState(false);
+
   // ── Start checkout — creates platform draft ──────────────────────────
   const handleStartCheckout = useCallback(async () => {
     if (basketItems.length === 0) return;
@@ -65,17 +111,63 @@ export function useCheckout({ platform, onSuccess }: UseCheckoutOptions = {}) {
     setSplitMode(false);
     setPaymentLines([]);
     setSplitCashTenderAmount(null);
+    setTipAmount(0);
+    let config: TipConfig | null = null;
     try {
+      const [loaded, onTerminal] = await Promise.all([tipService.getConfig(), tipService.tipsOnTerminal()]);
+      config = loaded;
+      setTipConfig(loaded);
+      // A tip asked for on the customer display is not asked for again on the terminal
+      setTipsOnTerminal(onTerminal && !(loaded.onDisplay && customerPromptService.canPrompt()));
+    } catch (err) {
+      logger.warn('Failed to load tip settings:', err);
+    }
+    try {
+      // A line scanned before its expiry date may have expired while the sale was parked
+      await scannerSettingsService.initialize();
+      const expired = scannerSettingsService.getGs1Settings().blockExpired ? findExpiredLines(basket?.items ?? []) : [];
+      if (expired.length > 0) {
+        setError(`${expired[0].name} is past its expiry date — remove it to continue`);
+        return;
+      }
+
+      const prompts = await customerPromptService.beforeCheckout({ items: basket?.items ?? [], hasCustomer: !!basket?.customerEmail });
+      if (!prompts.allowed) {
+        setError('The customer did not confirm their age');
+        return;
+      }
+      if (prompts.ageCheck) {
+        // The customer's answer on the display is a declaration, not proof of age
+        const idChecked = await confirmIdChecked(prompts.ageCheck.minimumAge);
+        await customerPromptService.recordAgeCheck(prompts.ageCheck, idChecked, { id: user?.id, name: user?.username });
+        if (!idChecked) {
+          setError(`ID not checked — the customer must be ${prompts.ageCheck.minimumAge} or over`);
+          return;
+        }
+      }
+      if (prompts.customer) {
+        await setCustomer(prompts.customer.email, prompts.customer.name);
+      }
+
       const order = await startCheckout(platform);
       if (order) {
         setCheckoutVisible(true);
+        // The customer chooses on the display while the cashier sees checkout
+        if (config) {
+          customerPromptService
+            .askForTip(order.total, config, 'GBP')
+            .then(tip => {
+              if (tip !== null) setTipAmount(tip);
+            })
+            .catch(() => {});
+        }
       }
     } catch (err) {
       setError((err as Error).message);
     } finally {
       setIsProcessing(false);
     }
-  }, [basketItems.length, startCheckout, platform]);
+  }, [basketItems.length, basket, setCustomer, startCheckout, platform, logger, user]);
 
   // ── Cancel draft — return to basket for editing ──────────────────────
   // Called when cashier closes CheckoutModal before paying
@@ -90,8 +182,10 @@ export function useCheckout({ platform, onSuccess }: UseCheckoutOptions = {}) {
       } else if (currentOrder.status === 'processing') {
         // Hard cancel: payment was initiated, order must be cancelled
         await cancelOrder(currentOrder.id);
+      } else {
+        // 'pending' (offline fallback) — no platform call needed, but give back any gift card tender
+        await giftCardService.reverseOrder(currentOrder.id);
       }
-      // 'pending' (offline fallback) — just close, no platform call needed
     } catch (err) {
       setError((err as Error).message);
     }
@@ -189,6 +283,31 @@ export function useCheckout({ platform, onSuccess }: UseCheckoutOptions = {}) {
     [currentOrder, processPayment, itemCount, basket?.customerEmail]
   );
 
+  // Gift cards need a code as well as an amount, so they bypass addPaymentLine
+  const redeemGiftCard = useCallback(
+    async (code: string, amount: number) => {
+      if (!currentOrder) return;
+      setIsProcessing(true);
+      try {
+        const result = await giftCardService.redeem(code, currentOrder.id, toCents(amount), platform);
+        const full: PaymentLine = {
+          method: 'gift_card',
+          amount: result.amountDollars,
+          id: generateUUID(),
+          processedAt: Date.now(),
+          last4: result.code.slice(-4),
+          note: `Gift card redemption: ${result.entryId}`,
+        };
+        setPaymentLines(prev => [...prev, full]);
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setIsProcessing(false);
+      }
+    },
+    [currentOrder, platform]
+  );
+
   const confirmSplitCashPayment = useCallback(
     (tenderedAmount: number) => {
       if (splitCashTenderAmount === null) return;
@@ -257,6 +376,14 @@ export function useCheckout({ platform, onSuccess }: UseCheckoutOptions = {}) {
         }
       }
 
+      // Reverse gift card redemption
+      if (line.method === 'gift_card' && line.note) {
+        const entryIdMatch = line.note.match(/Gift card redemption: (.+)/);
+        if (entryIdMatch) {
+          await giftCardService.reverseRedemption(entryIdMatch[1]);
+        }
+      }
+
       setPaymentLines(prev => prev.filter(p => p.id !== lineId));
     },
     [paymentLines, basket?.customerEmail, logger]
@@ -264,8 +391,8 @@ export function useCheckout({ platform, onSuccess }: UseCheckoutOptions = {}) {
 
   const remainingDue = useMemo(() => {
     const collected = paymentLines.filter(p => p.amount > 0).reduce((s, p) => s + p.amount, 0);
-    return Math.max(0, total - collected);
-  }, [paymentLines, total]);
+    return Math.max(0, addMoney(total, tipAmount) - collected);
+  }, [paymentLines, total, tipAmount]);
 
   const handleCompleteSplit = useCallback(async () => {
     if (!currentOrder || remainingDue > 0.01) return;
@@ -273,8 +400,17 @@ export function useCheckout({ platform, onSuccess }: UseCheckoutOptions = {}) {
     setError(null);
     try {
       await markPaymentProcessing(currentOrder.id);
-      const primaryLine = paymentLines.find(p => p.amount > 0);
-      const result = await completePayment(currentOrder.id, primaryLine?.method ?? 'other', primaryLine?.transactionId, paymentLines);
+      const lines = assignTip(paymentLines, tipAmount);
+      const primaryLine = lines.find(p => p.amount > 0);
+      // Card lines were authorised as they were added, so only the receipt contact is asked for
+      await customerPromptService.beforeCompletion({
+        orderId: currentOrder.id,
+        method: 'split',
+        amount: addMoney(total, tipAmount),
+        currencyCode: 'GBP',
+        hasCustomerEmail: !!currentOrder.customerEmail,
+      });
+      const result = await completePayment(currentOrder.id, primaryLine?.method ?? 'other', primaryLine?.transactionId, lines);
       if (result.success) {
         if (result.openDrawer) {
           cashDrawerServiceFactory
@@ -298,12 +434,14 @@ export function useCheckout({ platform, onSuccess }: UseCheckoutOptions = {}) {
               printerFactory
                 .printReceipt({
                   orderId: order.id.slice(-8),
-                  items: order.items.map(i => ({ name: i.name, quantity: i.quantity, price: i.price })),
+                  items: receiptItemsFromOrder(order),
+                  discounts: receiptDiscountsFromOrder(order),
                   subtotal,
                   tax,
                   total,
+                  tipAmount: tipAmount > 0 ? tipAmount : undefined,
                   paymentMethod: 'split',
-                  paymentLines: paymentLines.map(p => ({
+                  paymentLines: lines.map(p => ({
                     method: p.method,
                     amount: p.amount,
                     cardBrand: p.cardBrand,
@@ -333,7 +471,19 @@ export function useCheckout({ platform, onSuccess }: UseCheckoutOptions = {}) {
     } finally {
       setIsProcessing(false);
     }
-  }, [currentOrder, remainingDue, paymentLines, markPaymentProcessing, completePayment, onSuccess, subtotal, tax, total, logger]);
+  }, [
+    currentOrder,
+    remainingDue,
+    paymentLines,
+    tipAmount,
+    markPaymentProcessing,
+    completePayment,
+    onSuccess,
+    subtotal,
+    tax,
+    total,
+    logger,
+  ]);
 
   // ── Process payment ──────────────────────────────────────────────────
   const handlePayment = useCallback(
@@ -343,6 +493,11 @@ export function useCheckout({ platform, onSuccess }: UseCheckoutOptions = {}) {
       setIsProcessing(true);
       setError(null);
       try {
+        // Paying ends the tip prompt; the tip chosen on the till stands
+        if (customerPromptService.getCurrentPrompt() === 'tip') {
+          await customerPromptService.skip();
+        }
+
         // Check if manager approval is required for high-value transactions
         const settings = await keyValueRepository.getObject<{ highValueThreshold?: number }>('checkoutSettings');
         const highValueThreshold = settings?.highValueThreshold ?? 500; // Default £500
@@ -362,18 +517,22 @@ export function useCheckout({ platform, onSuccess }: UseCheckoutOptions = {}) {
         // Show payment screen on customer display
         customerDisplayServiceFactory
           .getService()
-          .showPayment(total, 'GBP')
+          .showPayment(addMoney(total, tipAmount), 'GBP')
           .catch(() => {});
 
         let transactionId: string | undefined;
+        let cardDetails: Pick<PaymentLine, 'cardBrand' | 'last4'> = {};
+        let tip = tipAmount;
 
         // Card / terminal: go through PaymentService first
         if (selection.method === 'card' || selection.method === 'terminal') {
+          // With on-terminal tipping the customer picks the tip on the terminal instead
           const response = await processPayment({
-            amount: total,
+            amount: tipsOnTerminal ? total : addMoney(total, tipAmount),
             reference: `ORDER-${Date.now()}`,
             orderId: currentOrder.id,
             itemCount,
+            ...(tipsOnTerminal ? { tipEligibleAmount: total } : {}),
           });
 
           if (!response.success) {
@@ -386,10 +545,35 @@ export function useCheckout({ platform, onSuccess }: UseCheckoutOptions = {}) {
           }
 
           transactionId = response.transactionId;
+          cardDetails = { cardBrand: response.cardBrand, last4: response.last4 };
+          if (tipsOnTerminal) tip = response.tipAmount ?? 0;
         }
 
         const paymentMethod = selection.method === 'terminal' ? 'card_terminal' : selection.method;
-        const result = await completePayment(currentOrder.id, paymentMethod, transactionId);
+        const { signature } = await customerPromptService.beforeCompletion({
+          orderId: currentOrder.id,
+          method: paymentMethod,
+          amount: addMoney(total, tip),
+          currencyCode: 'GBP',
+          hasCustomerEmail: !!currentOrder.customerEmail,
+        });
+        // A tipped or signed order records its tender as a payment line, which carries the tip and signature
+        const tenderLines: PaymentLine[] | undefined =
+          tip > 0 || signature
+            ? [
+                {
+                  id: generateUUID(),
+                  method: paymentMethod,
+                  amount: addMoney(total, tip),
+                  tipAmount: tip > 0 ? tip : undefined,
+                  transactionId,
+                  ...cardDetails,
+                  processedAt: Date.now(),
+                  signature,
+                },
+              ]
+            : undefined;
+        const result = await completePayment(currentOrder.id, paymentMethod, transactionId, tenderLines);
 
         if (result.success) {
           if (result.openDrawer) {
@@ -415,10 +599,12 @@ export function useCheckout({ platform, onSuccess }: UseCheckoutOptions = {}) {
                 printerFactory
                   .printReceipt({
                     orderId: order.id.slice(-8),
-                    items: order.items.map(i => ({ name: i.name, quantity: i.quantity, price: i.price })),
+                    items: receiptItemsFromOrder(order),
+                    discounts: receiptDiscountsFromOrder(order),
                     subtotal,
                     tax,
                     total,
+                    tipAmount: tip > 0 ? tip : undefined,
                     paymentMethod: paymentMethod,
                     date: new Date(),
                     cashierName: order.cashierName ?? 'Cashier',
@@ -452,6 +638,8 @@ export function useCheckout({ platform, onSuccess }: UseCheckoutOptions = {}) {
       tax,
       itemCount,
       subtotal,
+      tipAmount,
+      tipsOnTerminal,
       onSuccess,
       logger,
       requestApproval,
@@ -485,9 +673,15 @@ export function useCheckout({ platform, onSuccess }: UseCheckoutOptions = {}) {
     paymentLines,
     addPaymentLine,
     removePaymentLine,
+    redeemGiftCard,
     remainingDue,
     handleCompleteSplit,
     splitCashTenderAmount,
     confirmSplitCashPayment,
+    // Tips
+    tipConfig,
+    tipAmount,
+    setTipAmount,
+    tipsOnTerminal,
   };
 }
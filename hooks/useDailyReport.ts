@@ -1,41 +1,66 @@
 import { useState, useCallback, useEffect } from 'react';
-import { dailyReportService, ShiftData, DailyReportData } from '../services/printer/DailyReportService';
+import { dailyReportService, ShiftData, DailyReportData, ShiftReportPrintOptions } from '../services/printer/DailyReportService';
 import { LocalOrder } from '../services/basket/BasketServiceInterface';
+import { syncEventBus } from '../services/instoreapi/sync/SyncEventBus';
+import type { CashCount } from '../services/cashup/denominations';
+import type { ShiftReport } from '../services/cashup/shiftReport';
+import type { EndOfDayReport } from '../services/cashup/endOfDay';
+import { useAuthContext } from '../contexts/AuthProvider';
 import { useCurrency } from './useCurrency';
 
 interface UseDailyReportReturn {
+  /** The signed-in user's open shift on this register */
   currentShift: ShiftData | null;
+  /** Every open shift on this register's drawer; empty when the drawer is closed */
+  registerShifts: ShiftData[];
   shiftHistory: ShiftData[];
+  zReports: ShiftReport[];
   isLoading: boolean;
   error: string | null;
   openShift: (cashierName: string, cashierId: string, openingCash: number) => Promise<ShiftData>;
-  closeShift: (closingCash: number) => Promise<ShiftData>;
+  handOverShift: () => Promise<ShiftData>;
+  closeShift: (closingCash: number | CashCount) => Promise<ShiftData>;
+  getXReport: (count?: CashCount) => Promise<ShiftReport>;
+  getZReport: (id: string) => Promise<ShiftReport | null>;
+  getEndOfDayReport: (date?: string) => Promise<EndOfDayReport>;
+  getEndOfDayLines: (report: EndOfDayReport) => string[];
   generateReport: (orders: LocalOrder[], shift?: ShiftData) => Promise<DailyReportData>;
   getReportLines: (report: DailyReportData) => string[];
+  getShiftReportLines: (report: ShiftReport, options?: ShiftReportPrintOptions) => string[];
   getReceiptLines: (order: LocalOrder) => string[];
   loadShiftHistory: () => Promise<void>;
+  loadZReports: () => Promise<void>;
   reload: () => Promise<void>;
 }
 
 export const useDailyReport = (): UseDailyReportReturn => {
   const { symbol: currencySymbol } = useCurrency();
+  const { user } = useAuthContext();
+  const userId = user?.id;
   const [currentShift, setCurrentShift] = useState<ShiftData | null>(null);
+  const [registerShifts, setRegisterShifts] = useState<ShiftData[]>([]);
   const [shiftHistory, setShiftHistory] = useState<ShiftData[]>([]);
+  const [zReports, setZReports] = useState<ShiftReport[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  const syncShifts = useCallback(() => {
+    setCurrentShift(userId ? dailyReportService.getCurrentShift(userId) : null);
+    setRegisterShifts(dailyReportService.getRegisterShifts());
+  }, [userId]);
+
   const reload = useCallback(async () => {
     setIsLoading(true);
     setError(null);
     try {
       await dailyReportService.initialize();
-      setCurrentShift(dailyReportService.getCurrentShift());
+      syncShifts();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to initialize daily report service');
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [syncShifts]);
 
   const loadShiftHistory = useCallback(async () => {
     try {
@@ -46,26 +71,51 @@ export const useDailyReport = (): UseDailyReportReturn => {
     }
   }, []);
 
-  const openShift = useCallback(async (cashierName: string, cashierId: string, openingCash: number): Promise<ShiftData> => {
+  const loadZReports = useCallback(async () => {
+    setZReports(await dailyReportService.getZReports());
+  }, []);
+
+  const openShift = useCallback(
+    async (cashierName: string, cashierId: string, openingCash: number): Promise<ShiftData> => {
+      setError(null);
+      try {
+        const shift = await dailyReportService.openShift(cashierName, cashierId, openingCash);
+        syncShifts();
+        return shift;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to open shift';
+        setError(message);
+        throw new Error(message);
+      }
+    },
+    [syncShifts]
+  );
+
+  const handOverShift = useCallback(async (): Promise<ShiftData> => {
     setError(null);
     try {
-      const shift = await dailyReportService.openShift(cashierName, cashierId, openingCash);
-      setCurrentShift(shift);
+      if (!currentShift) {
+        throw new Error('You have no open shift to hand over.');
+      }
+      const shift = await dailyReportService.handOverShift(currentShift.id);
+      syncShifts();
+      await loadShiftHistory();
       return shift;
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to open shift';
+      const message = err instanceof Error ? err.message : 'Failed to hand over shift';
       setError(message);
       throw new Error(message);
     }
-  }, []);
+  }, [currentShift, syncShifts, loadShiftHistory]);
 
+  // Closes the drawer the user is on, or the register's drawer for a manager without a shift
   const closeShift = useCallback(
-    async (closingCash: number): Promise<ShiftData> => {
+    async (closingCash: number | CashCount): Promise<ShiftData> => {
       setError(null);
       try {
-        const shift = await dailyReportService.closeShift(closingCash);
-        setCurrentShift(null);
-        await loadShiftHistory();
+        const shift = await dailyReportService.closeShift(closingCash, currentShift?.id);
+        syncShifts();
+        await Promise.all([loadShiftHistory(), loadZReports()]);
         return shift;
       } catch (err) {
         const message = err instanceof Error ? err.message : 'Failed to close shift';
@@ -73,7 +123,41 @@ export const useDailyReport = (): UseDailyReportReturn => {
         throw new Error(message);
       }
     },
-    [loadShiftHistory]
+    [currentShift, syncShifts, loadShiftHistory, loadZReports]
+  );
+
+  const getXReport = useCallback(
+    async (count?: CashCount): Promise<ShiftReport> => {
+      setError(null);
+      try {
+        return await dailyReportService.getXReport(count, currentShift?.id);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to generate X-report';
+        setError(message);
+        throw new Error(message);
+      }
+    },
+    [currentShift]
+  );
+
+  const getZReport = useCallback((id: string) => dailyReportService.getZReport(id), []);
+
+  const getEndOfDayReport = useCallback(async (date?: string): Promise<EndOfDayReport> => {
+    setError(null);
+    try {
+      return await dailyReportService.getEndOfDayReport(date);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to build end-of-day report';
+      setError(message);
+      throw new Error(message);
+    }
+  }, []);
+
+  const getEndOfDayLines = useCallback(
+    (report: EndOfDayReport): string[] => {
+      return dailyReportService.formatEndOfDayForPrint(report, currencySymbol);
+    },
+    [currencySymbol]
   );
 
   const generateReport = useCallback(async (orders: LocalOrder[], shift?: ShiftData): Promise<DailyReportData> => {
@@ -94,6 +178,13 @@ export const useDailyReport = (): UseDailyReportReturn => {
     [currencySymbol]
   );
 
+  const getShiftReportLines = useCallback(
+    (report: ShiftReport, options?: ShiftReportPrintOptions): string[] => {
+      return dailyReportService.formatShiftReportForPrint(report, currencySymbol, options);
+    },
+    [currencySymbol]
+  );
+
   const getReceiptLines = useCallback(
     (order: LocalOrder): string[] => {
       return dailyReportService.formatReceiptForPrint(order, currencySymbol);
@@ -105,19 +196,45 @@ export const useDailyReport = (): UseDailyReportReturn => {
     reload();
   }, [reload]);
 
+  // Cashiers open, hand over and close shifts on other registers too
+  useEffect(() => {
+    const refresh = () => {
+      dailyReportService
+        .refresh()
+        .then(syncShifts)
+        .catch(err => setError(err instanceof Error ? err.message : 'Failed to refresh shifts'));
+    };
+    const unsubscribeOpened = syncEventBus.on('shift:opened', refresh);
+    const unsubscribeClosed = syncEventBus.on('shift:closed', refresh);
+
+    return () => {
+      unsubscribeOpened();
+      unsubscribeClosed();
+    };
+  }, [syncShifts]);
+
   return {
     currentShift,
+    registerShifts,
     shiftHistory,
+    zReports,
     isLoading,
     error,
     openShift,
+    handOverShift,
     closeShift,
+    getXReport,
+    getZReport,
+    getEndOfDayReport,
+    getEndOfDayLines,
     generateReport,
     getReportLines,
+    getShiftReportLines,
     getReceiptLines,
     loadShiftHistory,
+    loadZReports,
     reload,
   };
 };
 
-export type { ShiftData, DailyReportData };
+export type { ShiftData, DailyReportData, ShiftReport, EndOfDayReport };
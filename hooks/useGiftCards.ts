@@ -0,0 +1,44 @@
+/**
+ * useGiftCards
+ *
+ * Balance lookup for the gift card modal. Local cards are answered from the
+ * SQLite ledger; unknown codes fall through to the platform's gift card provider.
+ */
+
+import { useState, useCallback } from 'react';
+import { ECommercePlatform } from '../utils/platforms';
+import { giftCardService } from '../services/giftcard/GiftCardService';
+import { GiftCard } from '../services/giftcard/giftCard';
+
+export function useGiftCards(platform?: ECommercePlatform) {
+  const [balance, setBalance] = useState<GiftCard | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const checkBalance = useCallback(
+    async (code: string): Promise<GiftCard | null> => {
+      setIsChecking(true);
+      setError(null);
+      try {
+        const card = await giftCardService.checkBalance(code, platform);
+        setBalance(card);
+        if (!card) setError('Gift card not found');
+        return card;
+      } catch (err) {
+        setBalance(null);
+        setError(err instanceof Error ? err.message : 'Balance check failed');
+        return null;
+      } finally {
+        setIsChecking(false);
+      }
+    },
+    [platform]
+  );
+
+  const reset = useCallback(() => {
+    setBalance(null);
+    setError(null);
+  }, []);
+
+  return { balance, isChecking, error, checkBalance, reset };
+}
@@ -3,7 +3,7 @@ import { CashDrawerServiceInterface } from '../services/drawer/CashDrawerService
 import { BasePrinterService } from '../services/printer/BasePrinterService';
 import { ScannerServiceInterface } from '../services/scanner/ScannerServiceInterface';
 import { KdsServiceInterface } from '../services/kds/KdsServiceInterface';
-import { CustomerDisplayServiceInterface } from '../services/display/CustomerDisplayServiceInterface';
+import { CustomerDisplayServiceInterface, DisplayDriverType } from '../services/display/CustomerDisplayServiceInterface';
 
 export interface HardwareStatus {
   printer: {
@@ -31,7 +31,7 @@ export interface HardwareStatus {
   };
   display: {
     connected: boolean;
-    type?: 'websocket' | 'serial' | 'electron' | 'none';
+    type?: DisplayDriverType;
     lastChecked?: number;
   };
 }
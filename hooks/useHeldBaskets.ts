@@ -0,0 +1,67 @@
+/**
+ * useHeldBaskets
+ *
+ * The store's held (parked) sales for the sale screen. The list is shared by
+ * every register and refreshed whenever a sale is parked, recalled or
+ * discarded anywhere in the store.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { heldBasketService } from '../services/basket/HeldBasketService';
+import { HeldBasket } from '../services/basket/HeldBasketServiceInterface';
+import { syncEventBus } from '../services/instoreapi/sync/SyncEventBus';
+
+export function useHeldBaskets() {
+  const [heldBaskets, setHeldBaskets] = useState<HeldBasket[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setHeldBaskets(await heldBasketService.list());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load held sales');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Parked sales come and go on other registers too
+  useEffect(() => {
+    const unsubscribeHeld = syncEventBus.on('basket:held', () => {
+      refresh();
+    });
+    const unsubscribeRecalled = syncEventBus.on('basket:recalled', () => {
+      refresh();
+    });
+    const unsubscribeDiscarded = syncEventBus.on('basket:discarded', () => {
+      refresh();
+    });
+
+    return () => {
+      unsubscribeHeld();
+      unsubscribeRecalled();
+      unsubscribeDiscarded();
+    };
+  }, [refresh]);
+
+  const discard = useCallback(
+    async (id: string, discardedBy?: string) => {
+      try {
+        await heldBasketService.discard(id, discardedBy);
+        await refresh();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to discard held sale');
+      }
+    },
+    [refresh]
+  );
+
+  return { heldBaskets, isLoading, error, refresh, discard };
+}
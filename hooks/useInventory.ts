@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react';
 import { InventoryServiceFactory } from '../services/inventory/InventoryServiceFactory';
+import { locationService } from '../services/inventory/LocationService';
 import { InventoryResult, InventoryUpdate, InventoryUpdateResult } from '../services/inventory/InventoryServiceInterface';
 import { ECommercePlatform } from '../utils/platforms';
 import { useLogger } from './useLogger';
@@ -7,8 +8,9 @@ import { useLogger } from './useLogger';
 /**
  * Hook for inventory operations
  * Provides methods for getting and updating inventory across e-commerce platforms
+ * Stock is read and written at `locationId`, or this register's location when omitted
  */
-export const useInventory = (platform?: ECommercePlatform) => {
+export const useInventory = (platform?: ECommercePlatform, locationId?: string) => {
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [inventory, setInventory] = useState<InventoryResult | null>(null);
@@ -24,7 +26,7 @@ export const useInventory = (platform?: ECommercePlatform) => {
         setError(null);
 
         const service = InventoryServiceFactory.getInstance().getService(platform || ECommercePlatform.OFFLINE);
-        const result = await service.getInventory(productIds);
+        const result = await service.getInventory(productIds, locationId ?? (await locationService.getRegisterLocationId()));
         setInventory(result);
         return result;
       } catch (err) {
@@ -36,7 +38,7 @@ export const useInventory = (platform?: ECommercePlatform) => {
         setIsLoading(false);
       }
     },
-    [platform, logger]
+    [platform, locationId, logger]
   );
 
   /**
@@ -49,7 +51,10 @@ export const useInventory = (platform?: ECommercePlatform) => {
         setError(null);
 
         const service = InventoryServiceFactory.getInstance().getService(platform || ECommercePlatform.OFFLINE);
-        const result = await service.updateInventory(updates);
+        const targetLocationId = locationId ?? (await locationService.getRegisterLocationId());
+        const result = await service.updateInventory(
+          updates.map(update => ({ ...update, locationId: update.locationId ?? targetLocationId }))
+        );
 
         if (result.failed > 0) {
           setError(`${result.failed} inventory updates failed`);
@@ -65,7 +70,7 @@ export const useInventory = (platform?: ECommercePlatform) => {
         setIsLoading(false);
       }
     },
-    [platform, logger]
+    [platform, locationId, logger]
   );
 
   /**
@@ -0,0 +1,75 @@
+import { useState, useEffect, useCallback } from 'react';
+import { locationService } from '../services/inventory/LocationService';
+import { CreateLocationInput, LocationRow, UpdateLocationInput } from '../repositories/LocationRepository';
+
+interface UseLocationsResult {
+  /** Every location, default first; inactive ones included */
+  locations: LocationRow[];
+  /** Location this register sells from */
+  registerLocationId: string | null;
+  isLoading: boolean;
+  create: (input: CreateLocationInput, userId?: string) => Promise<string>;
+  update: (id: string, input: UpdateLocationInput, userId?: string) => Promise<void>;
+  setDefault: (id: string, userId?: string) => Promise<void>;
+  setRegisterLocation: (id: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+export function useLocations(): UseLocationsResult {
+  const [locations, setLocations] = useState<LocationRow[]>([]);
+  const [registerLocationId, setRegisterLocationId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      // Resolving the register location seeds the default location on first use
+      const registerId = await locationService.getRegisterLocationId();
+      setLocations(await locationService.findAll());
+      setRegisterLocationId(registerId);
+    } catch {
+      // Silently fail — the UI will show no locations
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const create = useCallback(
+    async (input: CreateLocationInput, userId?: string): Promise<string> => {
+      const id = await locationService.create(input, userId);
+      await load();
+      return id;
+    },
+    [load]
+  );
+
+  const update = useCallback(
+    async (id: string, input: UpdateLocationInput, userId?: string): Promise<void> => {
+      await locationService.update(id, input, userId);
+      await load();
+    },
+    [load]
+  );
+
+  const setDefault = useCallback(
+    async (id: string, userId?: string): Promise<void> => {
+      await locationService.setDefault(id, userId);
+      await load();
+    },
+    [load]
+  );
+
+  const setRegisterLocation = useCallback(
+    async (id: string): Promise<void> => {
+      await locationService.setRegisterLocation(id);
+      await load();
+    },
+    [load]
+  );
+
+  return { locations, registerLocationId, isLoading, create, update, setDefault, setRegisterLocation, refresh: load };
+}
@@ -9,6 +9,9 @@
  *   const approved = await requestApproval('price:override');
  *   if (approved) { ... }
  *
+ *   const authorisedBy = await requestAuthoriser('discount:manual');
+ *   if (authorisedBy) { ... }
+ *
  * See: docs/specs/auth/permissions.md §2.2
  */
 
@@ -48,5 +51,30 @@ export function useManagerApproval() {
     [user?.id]
   );
 
-  return { requestApproval, isApproving };
+  /**
+   * Like requestApproval, but resolves to the id of the user who authorised
+   * the action — the current user when they hold the permission, otherwise the
+   * approving manager. Resolves to null when approval is denied.
+   */
+  const requestAuthoriser = useCallback(
+    async (actionKey: string): Promise<string | null> => {
+      if (!user?.id) return null;
+
+      setIsApproving(true);
+      try {
+        const hasPermission = await permissionService.can(user.id, actionKey);
+        if (hasPermission) {
+          return user.id;
+        }
+
+        const result = await managerApprovalService.requestApproval(actionKey, user.id);
+        return result.approved ? (result.approvingUserId ?? null) : null;
+      } finally {
+        setIsApproving(false);
+      }
+    },
+    [user?.id]
+  );
+
+  return { requestApproval, requestAuthoriser, isApproving };
 }
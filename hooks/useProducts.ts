@@ -10,6 +10,7 @@ import {
 } from '../services/product/types';
 import { mapToUnifiedProducts } from '../services/product/mappers';
 import { syncEventBus } from '../services/instoreapi/sync/SyncEventBus';
+import { SyncEvent } from '../services/instoreapi/sync/SyncEventTypes';
 import { instoreApiConfig } from '../services/instoreapi/InstoreApiConfig';
 
 /**
@@ -199,19 +200,20 @@ export const useUnifiedProducts = (platform?: ECommercePlatform, initialOptions?
 
   // Subscribe to sync events for real-time updates (spec: multi-register.md §2.7.1-2.7.5)
   useEffect(() => {
-    if (!instoreApiConfig.isClient) {
-      return; // Only client registers need to listen for server events
-    }
+    // Client registers follow changes made on other registers; every register follows changes
+    // that came from the online store (webhooks, bidirectional sync), which no local action has already shown
+    const refreshOnChange = (event: SyncEvent) => {
+      const source = (event.payload as { source?: string } | undefined)?.source;
+      if (instoreApiConfig.isClient || source === 'webhook' || source === 'sync') {
+        refresh();
+      }
+    };
 
-    // Refresh product list when products are updated on other registers
-    const unsubscribeProductUpdated = syncEventBus.on('product:updated', () => {
-      refresh();
-    });
+    // Refresh product list when products are updated on other registers or the platform
+    const unsubscribeProductUpdated = syncEventBus.on('product:updated', refreshOnChange);
 
     // Refresh when inventory is updated (affects stock levels)
-    const unsubscribeInventoryUpdated = syncEventBus.on('inventory:updated', () => {
-      refresh();
-    });
+    const unsubscribeInventoryUpdated = syncEventBus.on('inventory:updated', refreshOnChange);
 
     return () => {
       unsubscribeProductUpdated();
@@ -285,6 +287,8 @@ export const useProductsForDisplay = (platform?: ECommercePlatform, categoryId?:
         // Tax resolution fields
         taxProfileId: product.taxProfileId,
         taxCode: product.taxCode ?? defaultVariant?.taxCode,
+        unitOfMeasure: defaultVariant?.unitOfMeasure,
+        tareWeight: defaultVariant?.tareWeight,
       };
     });
   }, [products]);
@@ -5,6 +5,11 @@ import {
   SalesByPeriod,
   CashierPerformance,
   PaymentBreakdown,
+  ProductAnalytics,
+  ComparisonBaseline,
+  ReportComparison,
+  SalesForecast,
+  TipSummary,
 } from '../services/reporting/ReportingService';
 
 interface UseReportingResult {
@@ -13,12 +18,25 @@ interface UseReportingResult {
   salesByDay: SalesByPeriod[];
   cashierPerformance: CashierPerformance[];
   paymentBreakdown: PaymentBreakdown[];
+  /** Tips kept apart from sales, per tender and per staff member */
+  tips: TipSummary | null;
+  /** Item-level sections: top/bottom sellers, categories, margin and sell-through per SKU, dead stock */
+  productAnalytics: ProductAnalytics | null;
+  /** Every report against a baseline range; null while comparison is off */
+  comparison: ReportComparison | null;
+  /** Rest of today and this week, with staffing for today */
+  forecast: SalesForecast | null;
   isLoading: boolean;
   error: string | null;
   /** Load all report data for a date range */
   loadReport: (from: number, to: number) => Promise<void>;
   /** Load hourly breakdown for a single day */
   loadHourlyReport: (dayStart: number, dayEnd: number) => Promise<void>;
+  /** Compare the reports for a range against a baseline, by hour or by day */
+  loadComparison: (from: number, to: number, baseline: ComparisonBaseline, granularity: 'hour' | 'day') => Promise<void>;
+  clearComparison: () => void;
+  /** Forecast the rest of today and this week */
+  loadForecast: () => Promise<void>;
   /** Export orders as CSV string */
   exportCsv: (from: number, to: number) => Promise<string>;
 }
@@ -29,6 +47,10 @@ export function useReporting(): UseReportingResult {
   const [salesByDay, setSalesByDay] = useState<SalesByPeriod[]>([]);
   const [cashierPerformance, setCashierPerformance] = useState<CashierPerformance[]>([]);
   const [paymentBreakdown, setPaymentBreakdown] = useState<PaymentBreakdown[]>([]);
+  const [tips, setTips] = useState<TipSummary | null>(null);
+  const [productAnalytics, setProductAnalytics] = useState<ProductAnalytics | null>(null);
+  const [comparison, setComparison] = useState<ReportComparison | null>(null);
+  const [forecast, setForecast] = useState<SalesForecast | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -36,16 +58,20 @@ export function useReporting(): UseReportingResult {
     setIsLoading(true);
     setError(null);
     try {
-      const [summaryData, byDay, cashiers, payments] = await Promise.all([
+      const [summaryData, byDay, cashiers, payments, tipSummary, products] = await Promise.all([
         reportingService.getSalesSummary(from, to),
         reportingService.getSalesByDay(from, to),
         reportingService.getCashierPerformance(from, to),
         reportingService.getPaymentBreakdown(from, to),
+        reportingService.getTipSummary(from, to),
+        reportingService.getProductAnalytics(from, to),
       ]);
       setSummary(summaryData);
       setSalesByDay(byDay);
       setCashierPerformance(cashiers);
       setPaymentBreakdown(payments);
+      setTips(tipSummary);
+      setProductAnalytics(products);
     } catch {
       setError('Failed to load report data.');
     } finally {
@@ -57,16 +83,20 @@ export function useReporting(): UseReportingResult {
     setIsLoading(true);
     setError(null);
     try {
-      const [summaryData, byHour, cashiers, payments] = await Promise.all([
+      const [summaryData, byHour, cashiers, payments, tipSummary, products] = await Promise.all([
         reportingService.getSalesSummary(dayStart, dayEnd),
         reportingService.getSalesByHour(dayStart, dayEnd),
         reportingService.getCashierPerformance(dayStart, dayEnd),
         reportingService.getPaymentBreakdown(dayStart, dayEnd),
+        reportingService.getTipSummary(dayStart, dayEnd),
+        reportingService.getProductAnalytics(dayStart, dayEnd),
       ]);
       setSummary(summaryData);
       setSalesByHour(byHour);
       setCashierPerformance(cashiers);
       setPaymentBreakdown(payments);
+      setTips(tipSummary);
+      setProductAnalytics(products);
     } catch {
       setError('Failed to load report data.');
     } finally {
@@ -74,6 +104,26 @@ export function useReporting(): UseReportingResult {
     }
   }, []);
 
+  const loadComparison = useCallback(async (from: number, to: number, baseline: ComparisonBaseline, granularity: 'hour' | 'day') => {
+    try {
+      setComparison(await reportingService.getComparison(from, to, baseline, granularity));
+    } catch {
+      setComparison(null);
+      setError('Failed to load comparison data.');
+    }
+  }, []);
+
+  const clearComparison = useCallback(() => setComparison(null), []);
+
+  const loadForecast = useCallback(async () => {
+    try {
+      setForecast(await reportingService.getSalesForecast());
+    } catch {
+      setForecast(null);
+      setError('Failed to load forecast.');
+    }
+  }, []);
+
   const exportCsv = useCallback(async (from: number, to: number): Promise<string> => {
     return reportingService.exportOrdersCsv(from, to);
   }, []);
@@ -84,10 +134,17 @@ export function useReporting(): UseReportingResult {
     salesByDay,
     cashierPerformance,
     paymentBreakdown,
+    tips,
+    productAnalytics,
+    comparison,
+    forecast,
     isLoading,
     error,
     loadReport,
     loadHourlyReport,
+    loadComparison,
+    clearComparison,
+    loadForecast,
     exportCsv,
   };
 }
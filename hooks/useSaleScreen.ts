@@ -21,6 +21,17 @@ import { useCheckoutContext } from '../contexts/CheckoutProvider';
 import { getUserFacingSaleState, type UserFacingSaleState } from '../utils/orderStateMapper';
 import type { BasketBlocker } from '../components/BasketBlockers';
 import type { BasketItem } from '../services/basket/basket';
+import { scanLine } from '../services/scanner/gs1';
+import { isMeasured, MEASURE_PROPERTY_KEYS, MeasuredLine } from '../services/product/unitOfMeasure';
+
+/** An item sold by weight or length waiting to be weighed before it goes in the basket */
+export interface PendingWeighing {
+  /** The line to add; its properties may already hold a scanned batch / expiry */
+  product: BasketProduct;
+  unit: MeasuredLine['unit'];
+  /** Container weight (kg) to deduct from the scale reading */
+  tareKg?: number;
+}
 
 export function useSaleScreen() {
   const { selectedCategory, selectedCategoryName, setSelectedCategory, setSelectedCategoryName } = useCategoryContext();
@@ -29,6 +40,7 @@ export function useSaleScreen() {
   const { currentOrder, unsyncedOrdersCount, isProcessing } = useCheckoutContext();
   const { isTabletOrDesktop, width } = useResponsive();
   const [searchQuery, setSearchQuery] = useState('');
+  const [pendingWeighing, setPendingWeighing] = useState<PendingWeighing | null>(null);
 
   const route = useRoute<RouteProp<MainTabParamList, 'Sale'>>();
   const handledScanRef = useRef<string | null>(null);
@@ -127,10 +139,13 @@ export function useSaleScreen() {
   useKeyboardShortcuts([{ key: 'k', meta: true, handler: () => {}, description: 'Focus search' }], isTabletOrDesktop);
 
   // Auto-add product when arriving from a barcode scan
+  // A GS1 code prices the line (embedded price or weight) and records its batch / expiry
   useEffect(() => {
     const scannedId = route.params?.scannedProductId;
-    if (!scannedId || scannedId === handledScanRef.current) return;
-    handledScanRef.current = scannedId;
+    const scannedCode = route.params?.scannedCode;
+    const scanKey = scannedCode ? `${scannedId}|${scannedCode.raw}` : scannedId;
+    if (!scannedId || scanKey === handledScanRef.current) return;
+    handledScanRef.current = scanKey ?? null;
 
     const tryAdd = async () => {
       let product = products.find(p => p.id === scannedId);
@@ -166,6 +181,8 @@ export function useSaleScreen() {
                 options: u.options.length > 0 ? u.options : undefined,
                 taxProfileId: u.taxProfileId,
                 taxCode: u.taxCode ?? dv?.taxCode,
+                unitOfMeasure: dv?.unitOfMeasure,
+                tareWeight: dv?.tareWeight,
               };
             }
           }
@@ -176,10 +193,12 @@ export function useSaleScreen() {
 
       if (!product) return;
 
+      const line = scannedCode ? scanLine(scannedCode, product.price, product.unitOfMeasure) : null;
+      const weighed = !!line?.properties[MEASURE_PROPERTY_KEYS.unit];
       const basketProduct: BasketProduct = {
         id: product.id,
         name: product.name,
-        price: product.price,
+        price: line?.price ?? product.price,
         image: product.image,
         isEcommerceProduct: product.isEcommerceProduct,
         variantId: product.variantId,
@@ -188,12 +207,19 @@ export function useSaleScreen() {
         platform: product.platform,
         taxProfileId: product.taxProfileId,
         taxCode: product.taxCode,
+        categoryId: product.categoryId,
+        properties: line && Object.keys(line.properties).length > 0 ? line.properties : undefined,
       };
-      addToBasket(basketProduct, 1).catch(() => {});
+      // An item sold by measure without a weight on its label is weighed first
+      if (isMeasured(product.unitOfMeasure) && !weighed) {
+        setPendingWeighing({ product: basketProduct, unit: product.unitOfMeasure, tareKg: product.tareWeight });
+        return;
+      }
+      addToBasket(basketProduct, line?.quantity ?? 1).catch(() => {});
     };
 
     tryAdd();
-  }, [route.params?.scannedProductId, products, addToBasket, currentPlatform]);
+  }, [route.params?.scannedProductId, route.params?.scannedCode, products, addToBasket, currentPlatform]);
 
   const handleAddToCart = useCallback(
     async (id: string, quantity: number, variantId?: string) => {
@@ -219,6 +245,7 @@ export function useSaleScreen() {
           platform: product.platform,
           taxProfileId: product.taxProfileId,
           taxCode: product.taxCode,
+          categoryId: product.categoryId,
         };
         await addToBasket(basketProduct, quantity);
       }
@@ -226,6 +253,48 @@ export function useSaleScreen() {
     [products, basketItems, updateQuantity, addToBasket]
   );
 
+  const startWeighing = useCallback(
+    (id: string, variantId?: string) => {
+      const product = products.find(p => p.id === id);
+      if (!product) return;
+      const variant = variantId ? product.variants?.find(v => v.id === variantId) : undefined;
+      const unit = variant ? variant.unitOfMeasure : product.unitOfMeasure;
+      if (!isMeasured(unit)) return;
+
+      setPendingWeighing({
+        product: {
+          id: product.id,
+          name: product.name,
+          price: variant?.price ?? product.price,
+          image: product.image,
+          isEcommerceProduct: product.isEcommerceProduct,
+          variantId: variant?.id ?? product.variantId,
+          sku: variant?.sku ?? product.sku,
+          platformId: product.platformId,
+          platform: product.platform,
+          taxProfileId: product.taxProfileId,
+          taxCode: product.taxCode,
+          categoryId: product.categoryId,
+        },
+        unit,
+        tareKg: variant ? variant.tareWeight : product.tareWeight,
+      });
+    },
+    [products]
+  );
+
+  const handleAddWeighed = useCallback(
+    async (quantity: number, properties: Record<string, string>) => {
+      if (!pendingWeighing) return;
+      const { product } = pendingWeighing;
+      setPendingWeighing(null);
+      await addToBasket({ ...product, properties: { ...product.properties, ...properties } }, quantity);
+    },
+    [pendingWeighing, addToBasket]
+  );
+
+  const cancelWeighing = useCallback(() => setPendingWeighing(null), []);
+
   const clearCategoryFilter = useCallback(() => {
     setSearchQuery('');
     setSelectedCategory(null);
@@ -254,6 +323,11 @@ export function useSaleScreen() {
     itemCount,
     total,
     handleAddToCart,
+    // Weighing (items sold by weight or length)
+    pendingWeighing,
+    startWeighing,
+    handleAddWeighed,
+    cancelWeighing,
     // Layout
     isTabletOrDesktop,
     numColumns,
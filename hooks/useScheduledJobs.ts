@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback } from 'react';
+import { jobScheduler } from '../services/jobs/JobScheduler';
+import { ScheduledJob, ScheduledJobRun } from '../services/jobs/JobSchedulerInterface';
+
+export interface ScheduledJobSummary extends ScheduledJob {
+  /** Most recent run, if the job has run (or been skipped) yet */
+  lastRun: ScheduledJobRun | null;
+}
+
+interface UseScheduledJobsResult {
+  /** Every persisted schedule, soonest first */
+  jobs: ScheduledJobSummary[];
+  isLoading: boolean;
+  /** ID of the job currently being run or toggled */
+  busyJobId: string | null;
+  /** Pause or resume a schedule */
+  setEnabled: (jobId: string, enabled: boolean) => Promise<boolean>;
+  /** Run a job now, outside its schedule */
+  runNow: (jobId: string) => Promise<ScheduledJobRun | null>;
+  /** Delete a schedule */
+  cancel: (jobId: string) => Promise<boolean>;
+  refresh: () => Promise<void>;
+}
+
+export function useScheduledJobs(): UseScheduledJobsResult {
+  const [jobs, setJobs] = useState<ScheduledJobSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyJobId, setBusyJobId] = useState<string | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const scheduled = await jobScheduler.list();
+      const summaries = await Promise.all(
+        scheduled.map(async job => {
+          const [lastRun] = await jobScheduler.getRuns(job.id, 1);
+          return { ...job, lastRun: lastRun ?? null };
+        })
+      );
+      setJobs(summaries);
+    } catch {
+      // Silently fail — the UI will show no schedules
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  const setEnabled = useCallback(
+    async (jobId: string, enabled: boolean): Promise<boolean> => {
+      setBusyJobId(jobId);
+      try {
+        const updated = await jobScheduler.setEnabled(jobId, enabled);
+        await loadJobs();
+        return updated;
+      } catch {
+        return false;
+      } finally {
+        setBusyJobId(null);
+      }
+    },
+    [loadJobs]
+  );
+
+  const runNow = useCallback(
+    async (jobId: string): Promise<ScheduledJobRun | null> => {
+      setBusyJobId(jobId);
+      try {
+        const run = await jobScheduler.runNow(jobId);
+        await loadJobs();
+        return run;
+      } catch {
+        return null;
+      } finally {
+        setBusyJobId(null);
+      }
+    },
+    [loadJobs]
+  );
+
+  const cancel = useCallback(
+    async (jobId: string): Promise<boolean> => {
+      setBusyJobId(jobId);
+      try {
+        const cancelled = await jobScheduler.cancel(jobId);
+        await loadJobs();
+        return cancelled;
+      } catch {
+        return false;
+      } finally {
+        setBusyJobId(null);
+      }
+    },
+    [loadJobs]
+  );
+
+  return { jobs, isLoading, busyJobId, setEnabled, runNow, cancel, refresh: loadJobs };
+}
@@ -0,0 +1,117 @@
+import { useState, useEffect, useCallback } from 'react';
+import { syncConflictService } from '../services/sync/SyncConflictService';
+import {
+  ConflictEntityType,
+  ConflictPolicies,
+  ConflictPolicy,
+  ConflictWinner,
+  PRODUCT_SYNC_FIELDS,
+} from '../services/sync/conflictDetection';
+import { syncEventBus } from '../services/instoreapi/sync/SyncEventBus';
+import { SyncEvent } from '../services/instoreapi/sync/SyncEventTypes';
+
+export interface SyncConflictItem {
+  id: string;
+  platform: string;
+  productId: string;
+  productName: string | null;
+  field: string;
+  /** Human-readable field name, e.g. "Price" */
+  fieldLabel: string;
+  /** Value both sides last agreed on; null if they never had */
+  baseValue: string | null;
+  posValue: string;
+  platformValue: string;
+  posUpdatedAt: Date | null;
+  platformUpdatedAt: Date | null;
+  detectedAt: Date;
+}
+
+interface UseSyncConflictsResult {
+  /** Open conflicts, oldest first */
+  conflicts: SyncConflictItem[];
+  /** Policy per entity type */
+  policies: ConflictPolicies | null;
+  isLoading: boolean;
+  /** ID of the conflict currently being resolved */
+  busyConflictId: string | null;
+  /** Keep one side's value; `resolvedBy` is the approving manager */
+  resolve: (conflictId: string, winner: ConflictWinner, resolvedBy: string | null) => Promise<boolean>;
+  setPolicy: (entityType: ConflictEntityType, policy: ConflictPolicy) => Promise<boolean>;
+  refresh: () => Promise<void>;
+}
+
+export function useSyncConflicts(): UseSyncConflictsResult {
+  const [conflicts, setConflicts] = useState<SyncConflictItem[]>([]);
+  const [policies, setPolicies] = useState<ConflictPolicies | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyConflictId, setBusyConflictId] = useState<string | null>(null);
+
+  const loadConflicts = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [rows, currentPolicies] = await Promise.all([syncConflictService.getOpenConflicts(), syncConflictService.getPolicies()]);
+      setConflicts(
+        rows.map(row => ({
+          id: row.id,
+          platform: row.platform,
+          productId: row.entity_id,
+          productName: row.entity_name,
+          field: row.field,
+          fieldLabel: PRODUCT_SYNC_FIELDS.find(f => f.field === row.field)?.label ?? row.field,
+          baseValue: row.base_value,
+          posValue: row.pos_value ?? '',
+          platformValue: row.platform_value ?? '',
+          posUpdatedAt: row.pos_updated_at ? new Date(row.pos_updated_at) : null,
+          platformUpdatedAt: row.platform_updated_at ? new Date(row.platform_updated_at) : null,
+          detectedAt: new Date(row.detected_at),
+        }))
+      );
+      setPolicies(currentPolicies);
+    } catch {
+      // Silently fail — the UI will show no conflicts
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadConflicts();
+  }, [loadConflicts]);
+
+  // Conflicts are queued by background syncs and may be resolved on another register
+  useEffect(() => {
+    return syncEventBus.on('config:updated', (event: SyncEvent) => {
+      if ((event.payload as { entity?: string } | undefined)?.entity === 'sync_conflict') {
+        loadConflicts();
+      }
+    });
+  }, [loadConflicts]);
+
+  const resolve = useCallback(
+    async (conflictId: string, winner: ConflictWinner, resolvedBy: string | null): Promise<boolean> => {
+      setBusyConflictId(conflictId);
+      try {
+        await syncConflictService.resolve(conflictId, winner, resolvedBy);
+        await loadConflicts();
+        return true;
+      } catch {
+        return false;
+      } finally {
+        setBusyConflictId(null);
+      }
+    },
+    [loadConflicts]
+  );
+
+  const setPolicy = useCallback(async (entityType: ConflictEntityType, policy: ConflictPolicy): Promise<boolean> => {
+    try {
+      setPolicies(await syncConflictService.setPolicy(entityType, policy));
+      return true;
+    } catch {
+      return false;
+    }
+  }, []);
+
+  return { conflicts, policies, isLoading, busyConflictId, resolve, setPolicy, refresh: loadConflicts };
+}
@@ -10,18 +10,23 @@ export interface SyncQueueOrder {
   cashierName: string | null;
   syncStatus: 'pending' | 'synced' | 'failed';
   syncError: string | null;
+  platformOrderId: string | null;
+  /** Extra platform orders found for the same sale by sync reconciliation */
+  duplicatePlatformOrderIds: string[];
   status: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
 interface UseSyncQueueResult {
-  /** Orders that are pending or failed sync */
+  /** Orders that are pending or failed sync, or have duplicate platform orders */
   orders: SyncQueueOrder[];
   /** Total count of unsynced orders */
   totalCount: number;
   /** Number of failed orders */
   failedCount: number;
+  /** Number of orders with unresolved duplicate platform orders */
+  duplicateCount: number;
   /** Whether data is loading */
   isLoading: boolean;
   /** Whether a retry/discard is in progress */
@@ -32,6 +37,8 @@ interface UseSyncQueueResult {
   retryAll: () => Promise<{ synced: number; failed: number }>;
   /** Discard a failed order (mark as cancelled) */
   discardOrder: (orderId: string) => Promise<boolean>;
+  /** Clear an order's duplicates once they have been cancelled on the platform */
+  dismissDuplicates: (orderId: string) => Promise<boolean>;
   /** Refresh the queue data */
   refresh: () => Promise<void>;
 }
@@ -66,6 +73,8 @@ function mapRow(row: OrderRow): SyncQueueOrder {
     cashierName: row.cashier_name,
     syncStatus: row.sync_status as SyncQueueOrder['syncStatus'],
     syncError: row.sync_error,
+    platformOrderId: row.platform_order_id,
+    duplicatePlatformOrderIds: row.duplicate_platform_order_ids ? (JSON.parse(row.duplicate_platform_order_ids) as string[]) : [],
     status: row.status,
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
@@ -85,9 +94,10 @@ export function useSyncQueue(): UseSyncQueueResult {
       const failedRows = await orderRepository.findAll('paid');
       const allRelevant = [...rows];
 
-      // Add failed-sync orders that aren't already in the unsynced list
+      // Add failed-sync orders, and synced orders with duplicates, that aren't already in the unsynced list
       for (const row of failedRows) {
-        if (row.sync_status === 'failed' && !allRelevant.find(r => r.id === row.id)) {
+        const needsAttention = row.sync_status === 'failed' || row.duplicate_platform_order_ids !== null;
+        if (needsAttention && !allRelevant.find(r => r.id === row.id)) {
           allRelevant.push(row);
         }
       }
@@ -116,8 +126,9 @@ export function useSyncQueue(): UseSyncQueueResult {
     loadQueue();
   }, [loadQueue]);
 
-  const totalCount = orders.length;
+  const totalCount = orders.filter(o => o.syncStatus !== 'synced').length;
   const failedCount = orders.filter(o => o.syncStatus === 'failed').length;
+  const duplicateCount = orders.filter(o => o.duplicatePlatformOrderIds.length > 0).length;
 
   const retryOrder = useCallback(
     async (orderId: string): Promise<boolean> => {
@@ -167,15 +178,34 @@ export function useSyncQueue(): UseSyncQueueResult {
     [loadQueue]
   );
 
+  const dismissDuplicates = useCallback(
+    async (orderId: string): Promise<boolean> => {
+      setIsProcessing(true);
+      try {
+        const { orderSyncService } = await getServiceContainer();
+        const success = await orderSyncService.dismissDuplicates(orderId);
+        await loadQueue();
+        return success;
+      } catch {
+        return false;
+      } finally {
+        setIsProcessing(false);
+      }
+    },
+    [loadQueue]
+  );
+
   return {
     orders,
     totalCount,
     failedCount,
+    duplicateCount,
     isLoading,
     isProcessing,
     retryOrder,
     retryAll,
     discardOrder,
+    dismissDuplicates,
     refresh: loadQueue,
   };
 }
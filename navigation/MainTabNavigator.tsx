@@ -10,6 +10,7 @@ import type { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import { lightColors, typography, spacing } from '../utils/theme';
 import { canAccessTab } from '../utils/roleAccess';
 import type { UserRole } from '../repositories/UserRepository';
+import type { Gs1Scan } from '../services/scanner/gs1';
 
 const BarcodeScannerScreen = lazy(() => import('../screens/BarcodeScannerScreen').then(m => ({ default: m.BarcodeScannerScreen })));
 const SearchScreen = lazy(() => import('../screens/SearchScreen'));
@@ -46,8 +47,8 @@ export const MainTabNavigator: React.FC<MainTabNavigatorProps> = ({ username, us
 
   // Handler for barcode scan success — navigate to Sale tab and auto-add the scanned product
   const handleScanSuccess = useCallback(
-    (productId: string) => {
-      navigation.navigate('Sale', { scannedProductId: productId });
+    (productId: string, scan?: Gs1Scan) => {
+      navigation.navigate('Sale', { scannedProductId: productId, scannedCode: scan });
     },
     [navigation]
   );
@@ -31,6 +31,7 @@ const PurchaseOrdersScreen = lazy(() => import('../screens/procurement/PurchaseO
 const InventoryCountScreen = lazy(() => import('../screens/procurement/InventoryCountScreen'));
 const ProcurementScreen = lazy(() => import('../screens/procurement/ProcurementScreen'));
 const TransferOrdersScreen = lazy(() => import('../screens/procurement/TransferOrdersScreen'));
+const LocationsScreen = lazy(() => import('../screens/procurement/LocationsScreen'));
 const VendorReturnsScreen = lazy(() => import('../screens/procurement/VendorReturnsScreen'));
 const ReorderPointConfigScreen = lazy(() => import('../screens/inventory/ReorderPointConfigScreen'));
 const BarcodeLabelScreen = lazy(() => import('../screens/inventory/BarcodeLabelScreen'));
@@ -321,6 +322,13 @@ export const MoreNavigator: React.FC<MoreNavigatorProps> = ({ userRole, onLogout
           </Suspense>
         )}
       </Stack.Screen>
+      <Stack.Screen name="Locations" options={{ title: 'Locations' }}>
+        {() => (
+          <Suspense fallback={<LazyFallback />}>
+            <LocationsScreen />
+          </Suspense>
+        )}
+      </Stack.Screen>
       <Stack.Screen name="VendorReturns" options={{ title: 'Vendor Returns' }}>
         {() => (
           <Suspense fallback={<LazyFallback />}>
@@ -2,6 +2,7 @@ import type { NavigatorScreenParams } from '@react-navigation/native';
 import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 import type { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
 import type { CompositeScreenProps } from '@react-navigation/native';
+import type { Gs1Scan } from '../services/scanner/gs1';
 
 /**
  * Root Stack - Authentication flow
@@ -23,7 +24,8 @@ export type AuthStackParamList = {
  * Main Tab Navigator - Bottom tabs after login
  */
 export type MainTabParamList = {
-  Sale: { scannedProductId?: string } | undefined;
+  /** `scannedCode`: the decoded GS1 code, to price the line and record its batch and expiry */
+  Sale: { scannedProductId?: string; scannedCode?: Gs1Scan } | undefined;
   Scan: undefined;
   Search: undefined;
   Inventory: undefined;
@@ -53,6 +55,7 @@ export type MoreStackParamList = {
   InventoryCount: undefined;
   Procurement: undefined;
   TransferOrders: undefined;
+  Locations: undefined;
   VendorReturns: undefined;
   ReorderPointConfig: undefined;
   BarcodeLabelPrint: undefined;
@@ -0,0 +1,189 @@
+/**
+ * AuditLogRepository
+ *
+ * Append-only, hash-chained audit entries and the archives that entries are
+ * moved to under the retention policy. The schema refuses updates, and refuses
+ * deletes of entries no archive covers (triggers in dbSchema v16).
+ *
+ * Tables: audit_log, audit_log_archives (created in dbSchema v16)
+ */
+
+import { db } from '../utils/db';
+import { generateUUID } from '../utils/uuid';
+
+export interface AuditLogRow {
+  seq: number;
+  id: string;
+  action: string;
+  user_id: string | null;
+  user_name: string | null;
+  register_id: string | null;
+  details: string | null;
+  metadata: string | null; // JSON
+  timestamp: number;
+  prev_hash: string;
+  hash: string;
+}
+
+export interface AuditArchiveRow {
+  id: string;
+  from_seq: number;
+  to_seq: number;
+  entry_count: number;
+  /** prev_hash of the first archived entry */
+  anchor_hash: string;
+  /** hash of the last archived entry — the anchor for the entries left in audit_log */
+  last_hash: string;
+  archived_before: number;
+  file_uri: string;
+  created_at: number;
+}
+
+export interface InsertAuditLogInput {
+  id: string;
+  action: string;
+  userId: string | null;
+  userName: string | null;
+  registerId: string | null;
+  details: string | null;
+  metadata: string | null;
+  timestamp: number;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditLogFilter {
+  action?: string;
+  userId?: string;
+  /** Inclusive lower bound (Unix ms) */
+  from?: number;
+  /** Exclusive upper bound (Unix ms) */
+  to?: number;
+}
+
+export interface InsertAuditArchiveInput {
+  fromSeq: number;
+  toSeq: number;
+  entryCount: number;
+  anchorHash: string;
+  lastHash: string;
+  archivedBefore: number;
+  fileUri: string;
+}
+
+function buildWhere(filter: AuditLogFilter): { where: string; params: (string | number)[] } {
+  const clauses: string[] = [];
+  const params: (string | number)[] = [];
+  if (filter.action) {
+    clauses.push('action = ?');
+    params.push(filter.action);
+  }
+  if (filter.userId) {
+    clauses.push('user_id = ?');
+    params.push(filter.userId);
+  }
+  if (filter.from !== undefined) {
+    clauses.push('timestamp >= ?');
+    params.push(filter.from);
+  }
+  if (filter.to !== undefined) {
+    clauses.push('timestamp < ?');
+    params.push(filter.to);
+  }
+  return { where: clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '', params };
+}
+
+export class AuditLogRepository {
+  async insert(input: InsertAuditLogInput): Promise<void> {
+    await db.runAsync(
+      `INSERT INTO audit_log (id, action, user_id, user_name, register_id, details, metadata, timestamp, prev_hash, hash)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        input.id,
+        input.action,
+        input.userId,
+        input.userName,
+        input.registerId,
+        input.details,
+        input.metadata,
+        input.timestamp,
+        input.prevHash,
+        input.hash,
+      ]
+    );
+  }
+
+  /** The most recently written entry */
+  async findHead(): Promise<AuditLogRow | null> {
+    return db.getFirstAsync<AuditLogRow>('SELECT * FROM audit_log ORDER BY seq DESC LIMIT 1');
+  }
+
+  /** Entries matching the filter, newest first; all of them when no limit is given */
+  async find(filter: AuditLogFilter = {}, limit?: number, offset = 0): Promise<AuditLogRow[]> {
+    const { where, params } = buildWhere(filter);
+    if (limit === undefined) {
+      return db.getAllAsync<AuditLogRow>(`SELECT * FROM audit_log ${where} ORDER BY seq DESC`, params);
+    }
+    return db.getAllAsync<AuditLogRow>(`SELECT * FROM audit_log ${where} ORDER BY seq DESC LIMIT ? OFFSET ?`, [...params, limit, offset]);
+  }
+
+  async count(filter: AuditLogFilter = {}): Promise<number> {
+    const { where, params } = buildWhere(filter);
+    const row = await db.getFirstAsync<{ total: number }>(`SELECT COUNT(*) AS total FROM audit_log ${where}`, params);
+    return row?.total ?? 0;
+  }
+
+  /** A batch of entries in chain order, starting after `afterSeq` */
+  async findAfter(afterSeq: number, limit: number): Promise<AuditLogRow[]> {
+    return db.getAllAsync<AuditLogRow>('SELECT * FROM audit_log WHERE seq > ? ORDER BY seq ASC LIMIT ?', [afterSeq, limit]);
+  }
+
+  /** Entries in chain order up to and including `toSeq` */
+  async findThrough(toSeq: number): Promise<AuditLogRow[]> {
+    return db.getAllAsync<AuditLogRow>('SELECT * FROM audit_log WHERE seq <= ? ORDER BY seq ASC', [toSeq]);
+  }
+
+  /** Highest seq written before `timestamp`, or null when there is none */
+  async findLastSeqBefore(timestamp: number): Promise<number | null> {
+    const row = await db.getFirstAsync<{ seq: number | null }>('SELECT MAX(seq) AS seq FROM audit_log WHERE timestamp < ?', [timestamp]);
+    return row?.seq ?? null;
+  }
+
+  /**
+   * Record an archive and remove the entries it covers, in one transaction.
+   * The schema only lets entries go once an archive row covers their seq.
+   */
+  async archiveThrough(input: InsertAuditArchiveInput): Promise<string> {
+    const id = generateUUID();
+    await db.withTransactionAsync(async () => {
+      await db.runAsync(
+        `INSERT INTO audit_log_archives (id, from_seq, to_seq, entry_count, anchor_hash, last_hash, archived_before, file_uri, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id,
+          input.fromSeq,
+          input.toSeq,
+          input.entryCount,
+          input.anchorHash,
+          input.lastHash,
+          input.archivedBefore,
+          input.fileUri,
+          Date.now(),
+        ]
+      );
+      await db.runAsync('DELETE FROM audit_log WHERE seq <= ?', [input.toSeq]);
+    });
+    return id;
+  }
+
+  /** The archive the entries left in audit_log continue from */
+  async findLatestArchive(): Promise<AuditArchiveRow | null> {
+    return db.getFirstAsync<AuditArchiveRow>('SELECT * FROM audit_log_archives ORDER BY to_seq DESC LIMIT 1');
+  }
+
+  async findArchives(): Promise<AuditArchiveRow[]> {
+    return db.getAllAsync<AuditArchiveRow>('SELECT * FROM audit_log_archives ORDER BY to_seq DESC');
+  }
+}
+
+export const auditLogRepository = new AuditLogRepository();
@@ -9,6 +9,8 @@ export interface BasketRow {
   total: number;
   discount_amount: number | null;
   discount_code: string | null;
+  /** JSON array of basket-level BasketAdjustment (dbSchema v11) */
+  adjustments: string | null;
   customer_email: string | null;
   customer_name: string | null;
   note: string | null;
@@ -16,6 +18,15 @@ export interface BasketRow {
   updated_at: number;
 }
 
+/** A parked basket — status 'held' (dbSchema v13) */
+export interface HeldBasketRow extends BasketRow {
+  name: string;
+  register_id: string | null;
+  register_name: string | null;
+  held_by: string | null;
+  expires_at: number | null;
+}
+
 export interface CreateBasketInput {
   id: string;
   items: string;
@@ -29,6 +40,7 @@ export interface UpdateBasketInput {
   subtotal: number;
   tax: number;
   total: number;
+  adjustments: string | null;
   discountAmount: number | null;
   discountCode: string | null;
   customerEmail: string | null;
@@ -36,6 +48,23 @@ export interface UpdateBasketInput {
   note: string | null;
 }
 
+export interface CreateHeldBasketInput {
+  id: string;
+  name: string;
+  items: string;
+  subtotal: number;
+  tax: number;
+  total: number;
+  adjustments: string | null;
+  customerEmail: string | null;
+  customerName: string | null;
+  note: string | null;
+  registerId: string | null;
+  registerName: string | null;
+  heldBy: string | null;
+  expiresAt: number | null;
+}
+
 export class BasketRepository {
   async findActiveBasket(): Promise<BasketRow | null> {
     return db.getFirstAsync<BasketRow>('SELECT * FROM baskets WHERE status = ? ORDER BY created_at DESC LIMIT 1', ['active']);
@@ -55,7 +84,7 @@ export class BasketRepository {
     await db.runAsync(
       `UPDATE baskets SET 
         items = ?, subtotal = ?, tax = ?, total = ?, 
-        discount_amount = ?, discount_code = ?,
+        adjustments = ?, discount_amount = ?, discount_code = ?,
         customer_email = ?, customer_name = ?, note = ?,
         updated_at = ?
        WHERE id = ?`,
@@ -64,6 +93,7 @@ export class BasketRepository {
         input.subtotal,
         input.tax,
         input.total,
+        input.adjustments,
         input.discountAmount,
         input.discountCode,
         input.customerEmail,
@@ -75,11 +105,69 @@ export class BasketRepository {
     );
   }
 
+  // ── Held baskets ───────────────────────────────────────────────────
+
+  async createHeldBasket(input: CreateHeldBasketInput): Promise<void> {
+    const now = Date.now();
+    await db.runAsync(
+      `INSERT INTO baskets (id, name, items, subtotal, tax, total, adjustments, customer_email, customer_name, note,
+                            register_id, register_name, held_by, expires_at, status, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        input.id,
+        input.name,
+        input.items,
+        input.subtotal,
+        input.tax,
+        input.total,
+        input.adjustments,
+        input.customerEmail,
+        input.customerName,
+        input.note,
+        input.registerId,
+        input.registerName,
+        input.heldBy,
+        input.expiresAt,
+        'held',
+        now,
+        now,
+      ]
+    );
+  }
+
+  async findHeldBaskets(): Promise<HeldBasketRow[]> {
+    return db.getAllAsync<HeldBasketRow>('SELECT * FROM baskets WHERE status = ? ORDER BY created_at ASC', ['held']);
+  }
+
+  async findHeldBasketById(id: string): Promise<HeldBasketRow | null> {
+    return db.getFirstAsync<HeldBasketRow>('SELECT * FROM baskets WHERE id = ? AND status = ?', [id, 'held']);
+  }
+
+  /**
+   * Remove a held basket so it can be loaded into a register's active basket.
+   * Returns false when another register got there first.
+   */
+  async deleteHeldBasket(id: string): Promise<boolean> {
+    const result = await db.runAsync('DELETE FROM baskets WHERE id = ? AND status = ?', [id, 'held']);
+    return result.changes > 0;
+  }
+
+  /** Mark a held basket abandoned (discarded or expired). Returns false if it is no longer held. */
+  async abandonHeldBasket(id: string): Promise<boolean> {
+    const result = await db.runAsync('UPDATE baskets SET status = ?, updated_at = ? WHERE id = ? AND status = ?', [
+      'abandoned',
+      Date.now(),
+      id,
+      'held',
+    ]);
+    return result.changes > 0;
+  }
+
   async clearBasket(basketId: string): Promise<void> {
     const now = Date.now();
     await db.runAsync(
       `UPDATE baskets SET items = ?, subtotal = ?, tax = ?, total = ?, 
-       discount_amount = NULL, discount_code = NULL, updated_at = ?
+       adjustments = NULL, discount_amount = NULL, discount_code = NULL, updated_at = ?
        WHERE id = ?`,
       ['[]', 0, 0, 0, now, basketId]
     );
@@ -0,0 +1,97 @@
+/**
+ * CashMovementRepository
+ *
+ * Ledger of cash moved in or out of the drawer outside of a sale, tied to the
+ * shift and register it happened on. Append-only: triggers reject every
+ * UPDATE and DELETE.
+ *
+ * Table: cash_movements (created in dbSchema v20)
+ */
+
+import { db } from '../utils/db';
+import { generateUUID } from '../utils/uuid';
+import type { CashMovementType, ExpenseCategory } from '../services/cashup/cashMovement';
+
+export interface CashMovementRow {
+  id: string;
+  register_id: string;
+  shift_id: string;
+  type: CashMovementType;
+  amount: number;
+  reason: string;
+  expense_category: ExpenseCategory | null;
+  user_id: string | null;
+  user_name: string | null;
+  approved_by: string;
+  created_at: number;
+}
+
+export interface CreateCashMovementInput {
+  registerId: string;
+  shiftId: string;
+  type: CashMovementType;
+  amount: number;
+  reason: string;
+  expenseCategory: ExpenseCategory | null;
+  userId: string | null;
+  userName: string | null;
+  approvedBy: string;
+}
+
+export class CashMovementRepository {
+  async create(input: CreateCashMovementInput): Promise<CashMovementRow> {
+    const row: CashMovementRow = {
+      id: generateUUID(),
+      register_id: input.registerId,
+      shift_id: input.shiftId,
+      type: input.type,
+      amount: input.amount,
+      reason: input.reason,
+      expense_category: input.expenseCategory,
+      user_id: input.userId,
+      user_name: input.userName,
+      approved_by: input.approvedBy,
+      created_at: Date.now(),
+    };
+    await db.runAsync(
+      `INSERT INTO cash_movements (id, register_id, shift_id, type, amount, reason, expense_category,
+                                   user_id, user_name, approved_by, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        row.id,
+        row.register_id,
+        row.shift_id,
+        row.type,
+        row.amount,
+        row.reason,
+        row.expense_category,
+        row.user_id,
+        row.user_name,
+        row.approved_by,
+        row.created_at,
+      ]
+    );
+    return row;
+  }
+
+  async findByShift(shiftId: string): Promise<CashMovementRow[]> {
+    return db.getAllAsync<CashMovementRow>('SELECT * FROM cash_movements WHERE shift_id = ? ORDER BY created_at', [shiftId]);
+  }
+
+  /** Movements recorded on any shift worked on the drawer */
+  async findByDrawer(drawerId: string): Promise<CashMovementRow[]> {
+    return db.getAllAsync<CashMovementRow>(
+      `SELECT m.* FROM cash_movements m JOIN shifts s ON s.id = m.shift_id WHERE s.drawer_id = ? ORDER BY m.created_at`,
+      [drawerId]
+    );
+  }
+
+  async findByDateRange(from: number, to: number): Promise<CashMovementRow[]> {
+    return db.getAllAsync<CashMovementRow>('SELECT * FROM cash_movements WHERE created_at >= ? AND created_at < ? ORDER BY created_at', [
+      from,
+      to,
+    ]);
+  }
+}
+
+export const cashMovementRepository = new CashMovementRepository();
@@ -0,0 +1,143 @@
+/**
+ * ClusterSnapshotRepository
+ *
+ * Raw row copies of the shared store state, used for in-store server
+ * failover: the leader exports a snapshot, standby registers import it into
+ * their own SQLite so they can take over, and a returning old server hands
+ * over the orders it wrote while the registers were split.
+ *
+ * Every table is keyed by `id`. Rows are copied column by column; only
+ * columns present in the local table are written, so a standby on a slightly
+ * older schema ignores new columns.
+ *
+ * Tables: orders, order_items, products, categories, tax_profiles
+ */
+
+import { db } from '../utils/db';
+import { OrderRow } from './OrderRepository';
+import { OrderItemRow } from './OrderItemRepository';
+import { planOrderReconciliation, OrderReconciliationPlan } from '../services/instoreapi/failover/orderReconciliation';
+
+type SnapshotTable = 'orders' | 'order_items' | 'products' | 'categories' | 'tax_profiles';
+type Row = Record<string, unknown>;
+
+export interface ClusterSnapshot {
+  /** When the snapshot was taken, on the leader's clock */
+  snapshot_version: number;
+  orders: Row[];
+  order_items: Row[];
+  products: Row[];
+  categories: Row[];
+  tax_profiles: Row[];
+}
+
+export interface ClusterOrderBatch {
+  orders: OrderRow[];
+  order_items: OrderItemRow[];
+}
+
+export class ClusterSnapshotRepository {
+  private columns = new Map<SnapshotTable, Set<string>>();
+
+  /** Orders created since `ordersSince` or not yet synced, plus the whole catalogue */
+  async exportSnapshot(ordersSince: number): Promise<ClusterSnapshot> {
+    const snapshotVersion = Date.now();
+    const orders = await db.getAllAsync<Row>("SELECT * FROM orders WHERE created_at >= ? OR sync_status != 'synced'", [ordersSince]);
+    return {
+      snapshot_version: snapshotVersion,
+      orders,
+      order_items: await this.itemsFor(orders.map(o => String(o.id))),
+      products: await db.getAllAsync<Row>('SELECT * FROM products'),
+      categories: await db.getAllAsync<Row>('SELECT * FROM categories'),
+      tax_profiles: await db.getAllAsync<Row>('SELECT * FROM tax_profiles'),
+    };
+  }
+
+  /** Replace local copies of every row in the snapshot */
+  async importSnapshot(snapshot: ClusterSnapshot): Promise<void> {
+    await db.withTransactionAsync(async () => {
+      await this.upsertRows('categories', snapshot.categories);
+      await this.upsertRows('tax_profiles', snapshot.tax_profiles);
+      await this.upsertRows('products', snapshot.products);
+      await this.upsertRows('orders', snapshot.orders);
+      await this.replaceItems(
+        snapshot.orders.map(o => String(o.id)),
+        snapshot.order_items
+      );
+    });
+  }
+
+  /** Orders changed since a point in time, with their items */
+  async findOrdersUpdatedSince(since: number): Promise<ClusterOrderBatch> {
+    const orders = await db.getAllAsync<OrderRow>('SELECT * FROM orders WHERE updated_at >= ? ORDER BY created_at', [since]);
+    return { orders, order_items: (await this.itemsFor(orders.map(o => o.id))) as unknown as OrderItemRow[] };
+  }
+
+  /**
+   * Merge orders from another register (see planOrderReconciliation): unknown
+   * orders are inserted, newer copies replace the local row and its items.
+   */
+  async mergeOrders(batch: ClusterOrderBatch): Promise<OrderReconciliationPlan> {
+    const existing = new Map<string, { id: string; updated_at: number }>();
+    for (const order of batch.orders) {
+      const row = await db.getFirstAsync<{ id: string; updated_at: number }>('SELECT id, updated_at FROM orders WHERE id = ?', [order.id]);
+      if (row) existing.set(row.id, row);
+    }
+
+    const plan = planOrderReconciliation(batch.orders, existing);
+    const accepted = new Set([...plan.insert, ...plan.update]);
+    if (accepted.size === 0) return plan;
+
+    await db.withTransactionAsync(async () => {
+      await this.upsertRows('orders', batch.orders.filter(o => accepted.has(o.id)) as unknown as Row[]);
+      await this.replaceItems([...accepted], batch.order_items.filter(i => accepted.has(i.order_id)) as unknown as Row[]);
+    });
+    return plan;
+  }
+
+  // ── Private ─────────────────────────────────────────────────────────
+
+  private async itemsFor(orderIds: string[]): Promise<Row[]> {
+    const items: Row[] = [];
+    for (const orderId of orderIds) {
+      items.push(...(await db.getAllAsync<Row>('SELECT * FROM order_items WHERE order_id = ?', [orderId])));
+    }
+    return items;
+  }
+
+  private async replaceItems(orderIds: string[], items: Row[]): Promise<void> {
+    for (const orderId of orderIds) {
+      await db.runAsync('DELETE FROM order_items WHERE order_id = ?', [orderId]);
+    }
+    await this.upsertRows('order_items', items);
+  }
+
+  private async upsertRows(table: SnapshotTable, rows: Row[]): Promise<void> {
+    if (rows.length === 0) return;
+    const known = await this.columnsOf(table);
+    for (const row of rows) {
+      const columns = Object.keys(row).filter(column => known.has(column));
+      if (columns.length === 0) continue;
+      const values = columns.map(column => row[column] as string | number | null);
+      const updates = columns.filter(column => column !== 'id').map(column => `${column} = excluded.${column}`);
+      // An upsert rather than INSERT OR REPLACE, which would delete rows referencing this one
+      await db.runAsync(
+        `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})
+         ON CONFLICT(id) DO ${updates.length > 0 ? `UPDATE SET ${updates.join(', ')}` : 'NOTHING'}`,
+        values
+      );
+    }
+  }
+
+  private async columnsOf(table: SnapshotTable): Promise<Set<string>> {
+    let columns = this.columns.get(table);
+    if (!columns) {
+      const info = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+      columns = new Set(info.map(c => c.name));
+      this.columns.set(table, columns);
+    }
+    return columns;
+  }
+}
+
+export const clusterSnapshotRepository = new ClusterSnapshotRepository();
@@ -0,0 +1,150 @@
+/**
+ * GiftCardRepository
+ *
+ * Gift card records plus an append-only balance ledger.
+ * All amounts stored as integer cents (per ADR-006).
+ * Balance is always derived by summing the ledger.
+ *
+ * Tables: gift_cards, gift_card_ledger (created in dbSchema v12)
+ */
+
+import { db } from '../utils/db';
+import { generateUUID } from '../utils/uuid';
+
+export type GiftCardStatus = 'active' | 'void';
+
+export type GiftCardEntryType = 'activate' | 'reload' | 'redeem' | 'refund' | 'reversal' | 'void';
+
+export interface GiftCardRow {
+  id: string;
+  code: string;
+  status: GiftCardStatus;
+  source: string; // 'local' or the platform holding the balance
+  remote_id: string | null;
+  currency: string | null;
+  customer_email: string | null;
+  order_id: string | null; // order that sold the card
+  expires_at: number | null;
+  created_by: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface GiftCardEntryRow {
+  id: string;
+  card_id: string;
+  type: GiftCardEntryType;
+  amount_cents: number; // positive = activate/reload/refund/reversal, negative = redeem/void
+  order_id: string | null;
+  remote_transaction_id: string | null;
+  reason: string | null;
+  created_by: string | null;
+  created_at: number;
+}
+
+export interface CreateGiftCardInput {
+  code: string;
+  source?: string;
+  remoteId?: string | null;
+  currency?: string | null;
+  customerEmail?: string | null;
+  orderId?: string | null;
+  expiresAt?: number | null;
+  createdBy?: string | null;
+}
+
+export interface AppendGiftCardEntryInput {
+  cardId: string;
+  type: GiftCardEntryType;
+  amountCents: number;
+  orderId?: string | null;
+  remoteTransactionId?: string | null;
+  reason?: string | null;
+  createdBy?: string | null;
+}
+
+export class GiftCardRepository {
+  async create(input: CreateGiftCardInput): Promise<string> {
+    const id = generateUUID();
+    const now = Date.now();
+    await db.runAsync(
+      `INSERT INTO gift_cards
+         (id, code, status, source, remote_id, currency, customer_email, order_id, expires_at, created_by, created_at, updated_at)
+       VALUES (?, ?, 'active', ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        input.code,
+        input.source ?? 'local',
+        input.remoteId ?? null,
+        input.currency ?? null,
+        input.customerEmail?.toLowerCase() ?? null,
+        input.orderId ?? null,
+        input.expiresAt ?? null,
+        input.createdBy ?? null,
+        now,
+        now,
+      ]
+    );
+    return id;
+  }
+
+  async findByCode(code: string): Promise<GiftCardRow | null> {
+    return db.getFirstAsync<GiftCardRow>('SELECT * FROM gift_cards WHERE code = ?', [code]);
+  }
+
+  async findById(id: string): Promise<GiftCardRow | null> {
+    return db.getFirstAsync<GiftCardRow>('SELECT * FROM gift_cards WHERE id = ?', [id]);
+  }
+
+  async updateStatus(id: string, status: GiftCardStatus): Promise<void> {
+    await db.runAsync('UPDATE gift_cards SET status = ?, updated_at = ? WHERE id = ?', [status, Date.now(), id]);
+  }
+
+  // ── Ledger ────────────────────────────────────────────────────────────
+
+  async getBalanceCents(cardId: string): Promise<number> {
+    const result = await db.getFirstAsync<{ total: number }>(
+      'SELECT COALESCE(SUM(amount_cents), 0) as total FROM gift_card_ledger WHERE card_id = ?',
+      [cardId]
+    );
+    return Math.max(0, result?.total ?? 0);
+  }
+
+  async appendEntry(input: AppendGiftCardEntryInput): Promise<string> {
+    const id = generateUUID();
+    await db.runAsync(
+      `INSERT INTO gift_card_ledger
+         (id, card_id, type, amount_cents, order_id, remote_transaction_id, reason, created_by, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        input.cardId,
+        input.type,
+        input.amountCents,
+        input.orderId ?? null,
+        input.remoteTransactionId ?? null,
+        input.reason ?? null,
+        input.createdBy ?? null,
+        Date.now(),
+      ]
+    );
+    return id;
+  }
+
+  async findEntryById(id: string): Promise<GiftCardEntryRow | null> {
+    return db.getFirstAsync<GiftCardEntryRow>('SELECT * FROM gift_card_ledger WHERE id = ?', [id]);
+  }
+
+  async findEntriesByCard(cardId: string, limit = 50): Promise<GiftCardEntryRow[]> {
+    return db.getAllAsync<GiftCardEntryRow>('SELECT * FROM gift_card_ledger WHERE card_id = ? ORDER BY created_at DESC LIMIT ?', [
+      cardId,
+      limit,
+    ]);
+  }
+
+  async findEntriesByOrder(orderId: string): Promise<GiftCardEntryRow[]> {
+    return db.getAllAsync<GiftCardEntryRow>('SELECT * FROM gift_card_ledger WHERE order_id = ? ORDER BY created_at ASC', [orderId]);
+  }
+}
+
+export const giftCardRepository = new GiftCardRepository();
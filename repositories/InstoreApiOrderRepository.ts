@@ -43,9 +43,18 @@ export class InstoreApiOrderRepository implements OrderRepository {
     await instoreApiClient.updateOrderPayment(orderId, paymentMethod, transactionId ?? undefined);
   }
 
-  async updatePaymentLines(orderId: string, paymentMethod: string, transactionId: string | null, paymentsJson: string): Promise<void> {
-    void paymentsJson;
-    await instoreApiClient.updateOrderPayment(orderId, paymentMethod, transactionId ?? undefined);
+  async updatePaymentLines(
+    orderId: string,
+    paymentMethod: string,
+    transactionId: string | null,
+    paymentsJson: string,
+    tipAmount: number
+  ): Promise<void> {
+    await instoreApiClient.updateOrderPayment(orderId, paymentMethod, transactionId ?? undefined, { paymentsJson, tipAmount });
+  }
+
+  async updateReceiptContact(orderId: string, email: string | null, phone: string | null): Promise<void> {
+    await instoreApiClient.updateOrderReceiptContact(orderId, email, phone);
   }
 
   async updateSyncSuccess(orderId: string, platformOrderId: string): Promise<void> {
@@ -61,6 +70,17 @@ export class InstoreApiOrderRepository implements OrderRepository {
     void errorMessage;
   }
 
+  async markSyncAttempt(orderId: string): Promise<void> {
+    // Sync attempts are managed by the server — no-op on client
+    void orderId;
+  }
+
+  async updateSyncDuplicates(orderId: string, platformOrderIds: string[]): Promise<void> {
+    // Sync duplicates are managed by the server — no-op on client
+    void orderId;
+    void platformOrderIds;
+  }
+
   async delete(orderId: string): Promise<void> {
     await instoreApiClient.updateOrderStatus(orderId, 'cancelled');
   }
@@ -0,0 +1,118 @@
+/**
+ * LocationRepository
+ *
+ * Stores and warehouses that hold stock. Inventory updates, purchase orders,
+ * counts and transfer orders reference these rows by id.
+ *
+ * Table: locations (created in dbSchema v15)
+ */
+
+import { db } from '../utils/db';
+import { generateUUID } from '../utils/uuid';
+
+export type LocationType = 'store' | 'warehouse';
+
+export interface LocationRow {
+  id: string;
+  name: string;
+  type: LocationType;
+  code: string | null;
+  /** Shopify location id, BigCommerce location_id or Magento MSI source_code */
+  platform_location_id: string | null;
+  is_default: number; // 0 | 1
+  is_active: number; // 0 | 1
+  created_at: number;
+  updated_at: number;
+}
+
+export interface CreateLocationInput {
+  name: string;
+  type: LocationType;
+  code?: string | null;
+  platformLocationId?: string | null;
+  isDefault?: boolean;
+}
+
+export interface UpdateLocationInput {
+  name?: string;
+  type?: LocationType;
+  code?: string | null;
+  platformLocationId?: string | null;
+  isActive?: boolean;
+}
+
+export class LocationRepository {
+  async create(input: CreateLocationInput): Promise<string> {
+    const id = generateUUID();
+    const now = Date.now();
+
+    // Only one default location
+    if (input.isDefault) {
+      await db.runAsync('UPDATE locations SET is_default = 0, updated_at = ? WHERE is_default = 1', [now]);
+    }
+
+    await db.runAsync(
+      `INSERT INTO locations (id, name, type, code, platform_location_id, is_default, is_active, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, 1, ?, ?)`,
+      [id, input.name, input.type, input.code ?? null, input.platformLocationId ?? null, input.isDefault ? 1 : 0, now, now]
+    );
+    return id;
+  }
+
+  async findAll(): Promise<LocationRow[]> {
+    return db.getAllAsync<LocationRow>('SELECT * FROM locations ORDER BY is_default DESC, name ASC');
+  }
+
+  async findActive(): Promise<LocationRow[]> {
+    return db.getAllAsync<LocationRow>('SELECT * FROM locations WHERE is_active = 1 ORDER BY is_default DESC, name ASC');
+  }
+
+  async findById(id: string): Promise<LocationRow | null> {
+    return db.getFirstAsync<LocationRow>('SELECT * FROM locations WHERE id = ?', [id]);
+  }
+
+  async findDefault(): Promise<LocationRow | null> {
+    return db.getFirstAsync<LocationRow>('SELECT * FROM locations WHERE is_default = 1 AND is_active = 1');
+  }
+
+  async update(id: string, input: UpdateLocationInput): Promise<void> {
+    const sets: string[] = [];
+    const values: (string | number | null)[] = [];
+
+    if (input.name !== undefined) {
+      sets.push('name = ?');
+      values.push(input.name);
+    }
+    if (input.type !== undefined) {
+      sets.push('type = ?');
+      values.push(input.type);
+    }
+    if (input.code !== undefined) {
+      sets.push('code = ?');
+      values.push(input.code);
+    }
+    if (input.platformLocationId !== undefined) {
+      sets.push('platform_location_id = ?');
+      values.push(input.platformLocationId);
+    }
+    if (input.isActive !== undefined) {
+      sets.push('is_active = ?');
+      values.push(input.isActive ? 1 : 0);
+    }
+
+    if (sets.length === 0) return;
+
+    sets.push('updated_at = ?');
+    values.push(Date.now(), id);
+
+    await db.runAsync(`UPDATE locations SET ${sets.join(', ')} WHERE id = ?`, values);
+  }
+
+  async setDefault(id: string): Promise<void> {
+    const now = Date.now();
+    await db.runAsync('UPDATE locations SET is_default = 0, updated_at = ? WHERE is_default = 1 AND id != ?', [now, id]);
+    await db.runAsync('UPDATE locations SET is_default = 1, updated_at = ? WHERE id = ?', [now, id]);
+  }
+}
+
+export const locationRepository = new LocationRepository();
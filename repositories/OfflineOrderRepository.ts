@@ -100,14 +100,40 @@ export class OfflineOrderRepository implements OrderRepository {
     );
   }
 
-  async updatePaymentLines(orderId: string, paymentMethod: string, transactionId: string | null, paymentsJson: string): Promise<void> {
+  async updatePaymentLines(
+    orderId: string,
+    paymentMethod: string,
+    transactionId: string | null,
+    paymentsJson: string,
+    tipAmount: number
+  ): Promise<void> {
     const now = Date.now();
     await db.runAsync(
-      `UPDATE orders SET status = ?, payment_method = ?, payment_transaction_id = ?, payments_json = ?, paid_at = ?, updated_at = ? WHERE id = ?`,
-      ['paid', paymentMethod, transactionId, paymentsJson, now, now, orderId]
+      `UPDATE orders SET status = ?, payment_method = ?, payment_transaction_id = ?, payments_json = ?, tip_amount = ?, paid_at = ?, updated_at = ? WHERE id = ?`,
+      ['paid', paymentMethod, transactionId, paymentsJson, tipAmount, now, now, orderId]
     );
   }
 
+  /** Change the tip of a paid order; its payment lines carry the adjusted amounts */
+  async updateTip(orderId: string, tipAmount: number, paymentsJson: string): Promise<void> {
+    const now = Date.now();
+    await db.runAsync('UPDATE orders SET tip_amount = ?, payments_json = ?, updated_at = ? WHERE id = ?', [
+      tipAmount,
+      paymentsJson,
+      now,
+      orderId,
+    ]);
+  }
+
+  async updateReceiptContact(orderId: string, email: string | null, phone: string | null): Promise<void> {
+    await db.runAsync('UPDATE orders SET receipt_email = ?, receipt_phone = ?, updated_at = ? WHERE id = ?', [
+      email,
+      phone,
+      Date.now(),
+      orderId,
+    ]);
+  }
+
   async updateSyncSuccess(orderId: string, platformOrderId: string): Promise<void> {
     const now = Date.now();
     await db.runAsync(`UPDATE orders SET platform_order_id = ?, sync_status = ?, synced_at = ?, updated_at = ? WHERE id = ?`, [
@@ -129,6 +155,23 @@ export class OfflineOrderRepository implements OrderRepository {
     ]);
   }
 
+  async markSyncAttempt(orderId: string): Promise<void> {
+    const now = Date.now();
+    await db.runAsync('UPDATE orders SET sync_attempted_at = COALESCE(sync_attempted_at, ?), updated_at = ? WHERE id = ?', [
+      now,
+      now,
+      orderId,
+    ]);
+  }
+
+  async updateSyncDuplicates(orderId: string, platformOrderIds: string[]): Promise<void> {
+    await db.runAsync('UPDATE orders SET duplicate_platform_order_ids = ?, updated_at = ? WHERE id = ?', [
+      platformOrderIds.length > 0 ? JSON.stringify(platformOrderIds) : null,
+      Date.now(),
+      orderId,
+    ]);
+  }
+
   // ── Delete ────────────────────────────────────────────────────────────
 
   async delete(orderId: string): Promise<void> {
@@ -1,5 +1,7 @@
 import { db } from '../utils/db';
 import { generateUUID } from '../utils/uuid';
+import type { LinePromotion } from '../services/promotion/PromotionServiceInterface';
+import type { BasketAdjustment } from '../services/basket/basket';
 
 /** DB row shape for the order_items table */
 export interface OrderItemRow {
@@ -10,7 +12,7 @@ export interface OrderItemRow {
   sku: string | null;
   name: string;
   price: number;
-  quantity: number;
+  quantity: number; // Decimal for weighed lines: the INTEGER column keeps non-integral values as REAL
   image: string | null;
   taxable: number; // SQLite stores booleans as 0/1
   tax_rate: number | null;
@@ -22,8 +24,18 @@ export interface OrderItemRow {
   tax_profile_id: string | null;
   inventory_policy: string | null;
   catalog_version: string | null;
+  promotion_discount: number | null;
+  promotions: string | null; // JSON array of LinePromotion
+  adjustments: string | null; // JSON array of BasketAdjustment — every discount on the line
+  discount_total: number | null;
 }
 
+/** An order line joined to its order, as read for item-level reporting */
+export type SoldLineRow = Pick<
+  OrderItemRow,
+  'product_id' | 'variant_id' | 'sku' | 'name' | 'option_summary' | 'price' | 'quantity' | 'discount_total'
+>;
+
 export interface CreateOrderItemInput {
   orderId: string;
   productId: string;
@@ -43,6 +55,12 @@ export interface CreateOrderItemInput {
   taxProfileId?: string | null;
   inventoryPolicy?: 'deny' | 'continue' | null;
   catalogVersion?: string | null;
+  promotionDiscount?: number | null;
+  promotions?: LinePromotion[] | null;
+  /** Promotions, line adjustments and the line's share of basket adjustments */
+  adjustments?: BasketAdjustment[] | null;
+  /** Sum of adjustments[].amount, in dollars */
+  discountTotal?: number | null;
 }
 
 export class OrderItemRepository {
@@ -53,8 +71,9 @@ export class OrderItemRepository {
         `INSERT INTO order_items (
           id, order_id, product_id, variant_id, sku, name, price, quantity,
           image, taxable, tax_rate, is_ecommerce_product, original_id, properties,
-          option_summary, tax_code, tax_profile_id, inventory_policy, catalog_version
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          option_summary, tax_code, tax_profile_id, inventory_policy, catalog_version,
+          promotion_discount, promotions, adjustments, discount_total
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         [
           id,
           item.orderId,
@@ -75,6 +94,10 @@ export class OrderItemRepository {
           item.taxProfileId ?? null,
           item.inventoryPolicy ?? null,
           item.catalogVersion ?? null,
+          item.promotionDiscount ?? null,
+          item.promotions && item.promotions.length > 0 ? JSON.stringify(item.promotions) : null,
+          item.adjustments && item.adjustments.length > 0 ? JSON.stringify(item.adjustments) : null,
+          item.discountTotal ?? null,
         ]
       );
     }
@@ -84,6 +107,52 @@ export class OrderItemRepository {
     return db.getAllAsync<OrderItemRow>('SELECT * FROM order_items WHERE order_id = ?', [orderId]);
   }
 
+  /** Units sold per product on paid or synced orders created since `since` (epoch ms) */
+  async getUnitsSoldByProduct(since: number): Promise<{ product_id: string; units: number }[]> {
+    return db.getAllAsync<{ product_id: string; units: number }>(
+      `SELECT oi.product_id, SUM(oi.quantity) AS units
+         FROM order_items oi
+         JOIN orders o ON o.id = oi.order_id
+        WHERE o.status IN ('paid', 'synced') AND o.created_at >= ?
+        GROUP BY oi.product_id`,
+      [since]
+    );
+  }
+
+  /** Units per order for orders created in [from, to) */
+  async getItemCountsByOrder(from: number, to: number): Promise<{ order_id: string; units: number }[]> {
+    return db.getAllAsync<{ order_id: string; units: number }>(
+      `SELECT oi.order_id, SUM(oi.quantity) AS units
+         FROM order_items oi
+         JOIN orders o ON o.id = oi.order_id
+        WHERE o.created_at >= ? AND o.created_at < ?
+        GROUP BY oi.order_id`,
+      [from, to]
+    );
+  }
+
+  /** Line items of paid or synced orders created in [from, to) */
+  async findSoldLines(from: number, to: number): Promise<SoldLineRow[]> {
+    return db.getAllAsync<SoldLineRow>(
+      `SELECT oi.product_id, oi.variant_id, oi.sku, oi.name, oi.option_summary, oi.price, oi.quantity, oi.discount_total
+         FROM order_items oi
+         JOIN orders o ON o.id = oi.order_id
+        WHERE o.status IN ('paid', 'synced') AND o.created_at >= ? AND o.created_at < ?`,
+      [from, to]
+    );
+  }
+
+  /** Most recent sale per product and variant, across all paid or synced orders */
+  async getLastSoldAt(): Promise<{ product_id: string; variant_id: string | null; last_sold_at: number }[]> {
+    return db.getAllAsync<{ product_id: string; variant_id: string | null; last_sold_at: number }>(
+      `SELECT oi.product_id, oi.variant_id, MAX(o.created_at) AS last_sold_at
+         FROM order_items oi
+         JOIN orders o ON o.id = oi.order_id
+        WHERE o.status IN ('paid', 'synced')
+        GROUP BY oi.product_id, oi.variant_id`
+    );
+  }
+
   async deleteByOrderId(orderId: string): Promise<void> {
     await db.runAsync('DELETE FROM order_items WHERE order_id = ?', [orderId]);
   }
@@ -29,6 +29,14 @@ export interface OrderRow {
   paid_at: number | null;
   synced_at: number | null;
   payments_json: string | null;
+  /** Gratuity paid on top of `total`; included in the payment lines' amounts (dbSchema v22) */
+  tip_amount: number;
+  /** Where the customer asked for a digital receipt, entered on the customer display (dbSchema v23) */
+  receipt_email: string | null;
+  receipt_phone: string | null;
+  /** First time a create was sent to the platform, and extra platform orders found for this sale (dbSchema v24) */
+  sync_attempted_at: number | null;
+  duplicate_platform_order_ids: string | null;
 }
 
 export interface CreateOrderInput {
@@ -64,9 +72,20 @@ export interface OrderRepository {
   findByDateRange(fromTimestamp: number, toTimestamp: number, cashierId?: string): Promise<OrderRow[]>;
   updateStatus(orderId: string, status: string): Promise<void>;
   updatePayment(orderId: string, paymentMethod: string, transactionId: string | null): Promise<void>;
-  updatePaymentLines(orderId: string, paymentMethod: string, transactionId: string | null, paymentsJson: string): Promise<void>;
+  updatePaymentLines(
+    orderId: string,
+    paymentMethod: string,
+    transactionId: string | null,
+    paymentsJson: string,
+    tipAmount: number
+  ): Promise<void>;
+  updateReceiptContact(orderId: string, email: string | null, phone: string | null): Promise<void>;
   updateSyncSuccess(orderId: string, platformOrderId: string): Promise<void>;
   updateSyncError(orderId: string, syncStatus: string, errorMessage: string): Promise<void>;
+  /** Record that a platform create is about to be sent; keeps the time of the first attempt */
+  markSyncAttempt(orderId: string): Promise<void>;
+  /** Replace the duplicate platform order IDs found for the order; an empty list clears them */
+  updateSyncDuplicates(orderId: string, platformOrderIds: string[]): Promise<void>;
   delete(orderId: string): Promise<void>;
 }
 
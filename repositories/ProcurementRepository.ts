@@ -5,7 +5,8 @@
  * inventory counts, inventory count items, transfer orders, transfer order
  * items, product inventory config (reorder points), and vendor returns.
  *
- * Tables created in dbSchema v7.
+ * Tables created in dbSchema v7; location_id on purchase_orders and
+ * inventory_counts added in v15.
  */
 
 import { db } from '../utils/db';
@@ -46,6 +47,8 @@ export interface PurchaseOrderRow {
   expected_date: number | null;
   notes: string | null;
   ordered_at: number | null;
+  /** Location the goods are received into; null for orders created before v15 (default location) */
+  location_id: string | null;
   created_by: string | null;
   created_at: number;
   updated_at: number;
@@ -62,8 +65,17 @@ export interface PurchaseOrderItemRow {
   unit_cost: number;
 }
 
+/** Weighted average cost of received goods per product / variant */
+export interface ReceivedUnitCostRow {
+  product_id: string;
+  variant_id: string | null;
+  received_qty: number;
+  unit_cost: number;
+}
+
 export interface CreatePOInput {
   vendorId?: string | null;
+  locationId?: string | null;
   expectedDate?: number | null;
   notes?: string | null;
   createdBy?: string | null;
@@ -87,6 +99,8 @@ export interface InventoryCountRow {
   started_at: number;
   completed_at: number | null;
   notes: string | null;
+  /** Location being counted; null for counts started before v15 (default location) */
+  location_id: string | null;
 }
 
 export interface InventoryCountItemRow {
@@ -106,6 +120,7 @@ export type TransferStatus = 'draft' | 'in_transit' | 'received' | 'cancelled';
 
 export interface TransferOrderRow {
   id: string;
+  /** Location ids (see LocationRepository) */
   from_location: string;
   to_location: string;
   status: TransferStatus;
@@ -239,9 +254,18 @@ export class ProcurementRepository {
     const id = generateUUID();
     const now = Date.now();
     await db.runAsync(
-      `INSERT INTO purchase_orders (id, vendor_id, status, expected_date, notes, created_by, created_at, updated_at)
-       VALUES (?, ?, 'draft', ?, ?, ?, ?, ?)`,
-      [id, input.vendorId ?? null, input.expectedDate ?? null, input.notes ?? null, input.createdBy ?? null, now, now]
+      `INSERT INTO purchase_orders (id, vendor_id, location_id, status, expected_date, notes, created_by, created_at, updated_at)
+       VALUES (?, ?, ?, 'draft', ?, ?, ?, ?, ?)`,
+      [
+        id,
+        input.vendorId ?? null,
+        input.locationId ?? null,
+        input.expectedDate ?? null,
+        input.notes ?? null,
+        input.createdBy ?? null,
+        now,
+        now,
+      ]
     );
     for (const item of input.items) {
       const itemId = generateUUID();
@@ -270,6 +294,20 @@ export class ProcurementRepository {
     return db.getAllAsync<PurchaseOrderItemRow>('SELECT * FROM purchase_order_items WHERE purchase_order_id = ?', [purchaseOrderId]);
   }
 
+  /**
+   * Average unit cost of everything received so far, per product and variant,
+   * weighted by the quantity received on each purchase order line
+   */
+  async getReceivedUnitCosts(): Promise<ReceivedUnitCostRow[]> {
+    return db.getAllAsync<ReceivedUnitCostRow>(
+      `SELECT product_id, variant_id, SUM(received_qty) AS received_qty,
+              SUM(received_qty * unit_cost) / SUM(received_qty) AS unit_cost
+         FROM purchase_order_items
+        WHERE received_qty > 0
+        GROUP BY product_id, variant_id`
+    );
+  }
+
   async updatePOStatus(id: string, status: POStatus, orderedAt?: number): Promise<void> {
     const now = Date.now();
     if (orderedAt !== undefined) {
@@ -293,13 +331,13 @@ export class ProcurementRepository {
 
   // ── Inventory Counts ──────────────────────────────────────────────────
 
-  async createCount(startedBy?: string | null, notes?: string | null): Promise<string> {
+  async createCount(startedBy?: string | null, notes?: string | null, locationId?: string | null): Promise<string> {
     const id = generateUUID();
     const now = Date.now();
     await db.runAsync(
-      `INSERT INTO inventory_counts (id, status, started_by, started_at, notes)
-       VALUES (?, 'in_progress', ?, ?, ?)`,
-      [id, startedBy ?? null, now, notes ?? null]
+      `INSERT INTO inventory_counts (id, status, started_by, started_at, notes, location_id)
+       VALUES (?, 'in_progress', ?, ?, ?, ?)`,
+      [id, startedBy ?? null, now, notes ?? null, locationId ?? null]
     );
     return id;
   }
@@ -349,8 +387,8 @@ export class ProcurementRepository {
   // ── Transfer Orders ───────────────────────────────────────────────────
 
   async createTransferOrder(
-    fromLocation: string,
-    toLocation: string,
+    fromLocationId: string,
+    toLocationId: string,
     notes: string | null,
     createdBy: string | null,
     items: Array<{ productId: string; variantId?: string | null; productName: string; transferQty: number }>
@@ -360,7 +398,7 @@ export class ProcurementRepository {
     await db.runAsync(
       `INSERT INTO transfer_orders (id, from_location, to_location, status, notes, created_by, created_at, updated_at)
        VALUES (?, ?, ?, 'draft', ?, ?, ?, ?)`,
-      [id, fromLocation, toLocation, notes, createdBy, now, now]
+      [id, fromLocationId, toLocationId, notes, createdBy, now, now]
     );
     for (const item of items) {
       const itemId = generateUUID();
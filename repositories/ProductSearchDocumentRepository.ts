@@ -0,0 +1,55 @@
+/**
+ * ProductSearchDocumentRepository
+ *
+ * Persisted documents for the offline product search index, one per product,
+ * so the index can be rebuilt at startup without refetching the catalogue.
+ *
+ * Table: product_search_documents (created in dbSchema v17)
+ */
+
+import { db } from '../utils/db';
+
+export interface ProductSearchDocumentRow {
+  product_id: string;
+  platform: string;
+  document: string; // JSON SearchDocument
+  updated_at: number;
+}
+
+export class ProductSearchDocumentRepository {
+  async upsertMany(documents: { productId: string; platform: string; document: string }[]): Promise<void> {
+    if (documents.length === 0) return;
+    const now = Date.now();
+    await db.withTransactionAsync(async () => {
+      for (const d of documents) {
+        await db.runAsync(
+          `INSERT INTO product_search_documents (product_id, platform, document, updated_at)
+           VALUES (?, ?, ?, ?)
+           ON CONFLICT(product_id) DO UPDATE SET platform = excluded.platform, document = excluded.document, updated_at = excluded.updated_at`,
+          [d.productId, d.platform, d.document, now]
+        );
+      }
+    });
+  }
+
+  async deleteMany(productIds: string[]): Promise<void> {
+    if (productIds.length === 0) return;
+    const placeholders = productIds.map(() => '?').join(', ');
+    await db.runAsync(`DELETE FROM product_search_documents WHERE product_id IN (${placeholders})`, productIds);
+  }
+
+  async deleteByPlatform(platform: string): Promise<void> {
+    await db.runAsync('DELETE FROM product_search_documents WHERE platform = ?', [platform]);
+  }
+
+  async findAll(): Promise<ProductSearchDocumentRow[]> {
+    return db.getAllAsync<ProductSearchDocumentRow>('SELECT * FROM product_search_documents');
+  }
+
+  async count(): Promise<number> {
+    const row = await db.getFirstAsync<{ count: number }>('SELECT COUNT(*) AS count FROM product_search_documents');
+    return row?.count ?? 0;
+  }
+}
+
+export const productSearchDocumentRepository = new ProductSearchDocumentRepository();
@@ -109,6 +109,10 @@ export class ProductVariantRepository {
     }
   }
 
+  async findAll(): Promise<ProductVariantRow[]> {
+    return db.getAllAsync<ProductVariantRow>('SELECT * FROM product_variants ORDER BY product_id, position');
+  }
+
   async findByProductId(productId: string): Promise<ProductVariantRow[]> {
     return db.getAllAsync<ProductVariantRow>('SELECT * FROM product_variants WHERE product_id = ? ORDER BY position ASC', [productId]);
   }
@@ -0,0 +1,118 @@
+/**
+ * PromotionRepository
+ *
+ * Persistence for automatic promotion rules. Targets, tiers and schedules are
+ * stored as JSON columns; evaluation lives in services/promotion.
+ *
+ * Table: promotions (created in dbSchema v10)
+ */
+
+import { db } from '../utils/db';
+import { generateUUID } from '../utils/uuid';
+import type { PromotionType } from '../services/promotion/PromotionServiceInterface';
+
+export interface PromotionRow {
+  id: string;
+  name: string;
+  description: string | null;
+  type: PromotionType;
+  target: string; // JSON PromotionTarget
+  buy_quantity: number | null;
+  get_quantity: number | null;
+  get_discount_percent: number | null;
+  bundle_price: number | null;
+  tiers: string | null; // JSON SpendTier[]
+  discount_type: 'fixed' | 'percentage' | null;
+  discount_value: number | null;
+  schedule: string | null; // JSON PromotionSchedule
+  starts_at: number | null;
+  ends_at: number | null;
+  priority: number;
+  active: number; // SQLite stores booleans as 0/1
+  created_at: number;
+  updated_at: number;
+}
+
+export interface PromotionInput {
+  name: string;
+  description?: string | null;
+  type: PromotionType;
+  target: string;
+  buyQuantity?: number | null;
+  getQuantity?: number | null;
+  getDiscountPercent?: number | null;
+  bundlePrice?: number | null;
+  tiers?: string | null;
+  discountType?: 'fixed' | 'percentage' | null;
+  discountValue?: number | null;
+  schedule?: string | null;
+  startsAt?: number | null;
+  endsAt?: number | null;
+  priority: number;
+  active: boolean;
+}
+
+export class PromotionRepository {
+  async findAll(): Promise<PromotionRow[]> {
+    return db.getAllAsync<PromotionRow>('SELECT * FROM promotions ORDER BY priority DESC, created_at ASC');
+  }
+
+  async findActive(): Promise<PromotionRow[]> {
+    return db.getAllAsync<PromotionRow>('SELECT * FROM promotions WHERE active = 1 ORDER BY priority DESC, created_at ASC');
+  }
+
+  async findById(id: string): Promise<PromotionRow | null> {
+    return db.getFirstAsync<PromotionRow>('SELECT * FROM promotions WHERE id = ?', [id]);
+  }
+
+  async create(input: PromotionInput): Promise<string> {
+    const id = generateUUID();
+    const now = Date.now();
+    await db.runAsync(
+      `INSERT INTO promotions
+         (id, name, description, type, target, buy_quantity, get_quantity, get_discount_percent, bundle_price,
+          tiers, discount_type, discount_value, schedule, starts_at, ends_at, priority, active, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [id, ...this.toParams(input), now, now]
+    );
+    return id;
+  }
+
+  async update(id: string, input: PromotionInput): Promise<void> {
+    await db.runAsync(
+      `UPDATE promotions SET
+         name = ?, description = ?, type = ?, target = ?, buy_quantity = ?, get_quantity = ?, get_discount_percent = ?,
+         bundle_price = ?, tiers = ?, discount_type = ?, discount_value = ?, schedule = ?, starts_at = ?, ends_at = ?,
+         priority = ?, active = ?, updated_at = ?
+       WHERE id = ?`,
+      [...this.toParams(input), Date.now(), id]
+    );
+  }
+
+  async delete(id: string): Promise<void> {
+    await db.runAsync('DELETE FROM promotions WHERE id = ?', [id]);
+  }
+
+  private toParams(input: PromotionInput): (string | number | null)[] {
+    return [
+      input.name,
+      input.description ?? null,
+      input.type,
+      input.target,
+      input.buyQuantity ?? null,
+      input.getQuantity ?? null,
+      input.getDiscountPercent ?? null,
+      input.bundlePrice ?? null,
+      input.tiers ?? null,
+      input.discountType ?? null,
+      input.discountValue ?? null,
+      input.schedule ?? null,
+      input.startsAt ?? null,
+      input.endsAt ?? null,
+      input.priority,
+      input.active ? 1 : 0,
+    ];
+  }
+}
+
+export const promotionRepository = new PromotionRepository();
@@ -0,0 +1,87 @@
+/**
+ * RegisterCredentialRepository
+ *
+ * Credentials issued by the server register to each paired client register.
+ * The row id is the key id a register sends with every signed request.
+ * Revoked credentials are kept so the settings screen can show their history.
+ *
+ * Table: register_credentials (created in dbSchema v18)
+ */
+
+import { db } from '../utils/db';
+
+export type RegisterRole = 'register' | 'back_office';
+
+export interface RegisterCredentialRow {
+  id: string;
+  register_id: string;
+  register_name: string;
+  role: RegisterRole;
+  secret: string;
+  created_at: number;
+  last_seen_at: number | null;
+  revoked_at: number | null;
+}
+
+export interface CreateRegisterCredentialInput {
+  keyId: string;
+  registerId: string;
+  registerName: string;
+  role: RegisterRole;
+  secret: string;
+}
+
+export class RegisterCredentialRepository {
+  async create(input: CreateRegisterCredentialInput): Promise<void> {
+    await db.runAsync(
+      `INSERT INTO register_credentials (id, register_id, register_name, role, secret, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [input.keyId, input.registerId, input.registerName, input.role, input.secret, Date.now()]
+    );
+  }
+
+  async findById(keyId: string): Promise<RegisterCredentialRow | null> {
+    return db.getFirstAsync<RegisterCredentialRow>('SELECT * FROM register_credentials WHERE id = ?', [keyId]);
+  }
+
+  async findAll(): Promise<RegisterCredentialRow[]> {
+    return db.getAllAsync<RegisterCredentialRow>('SELECT * FROM register_credentials ORDER BY revoked_at IS NOT NULL, created_at DESC');
+  }
+
+  /** Revoke every live credential held by a register, e.g. when it pairs again */
+  async revokeByRegister(registerId: string): Promise<void> {
+    await db.runAsync('UPDATE register_credentials SET revoked_at = ? WHERE register_id = ? AND revoked_at IS NULL', [
+      Date.now(),
+      registerId,
+    ]);
+  }
+
+  async revoke(keyId: string): Promise<void> {
+    await db.runAsync('UPDATE register_credentials SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL', [Date.now(), keyId]);
+  }
+
+  async setRole(keyId: string, role: RegisterRole): Promise<void> {
+    await db.runAsync('UPDATE register_credentials SET role = ? WHERE id = ?', [role, keyId]);
+  }
+
+  /** Copy credentials replicated from the leader register (see FailoverService) */
+  async upsertMany(rows: RegisterCredentialRow[]): Promise<void> {
+    if (rows.length === 0) return;
+    await db.withTransactionAsync(async () => {
+      for (const row of rows) {
+        await db.runAsync(
+          `INSERT INTO register_credentials (id, register_id, register_name, role, secret, created_at, last_seen_at, revoked_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT(id) DO UPDATE SET register_name = excluded.register_name, role = excluded.role, revoked_at = excluded.revoked_at`,
+          [row.id, row.register_id, row.register_name, row.role, row.secret, row.created_at, row.last_seen_at, row.revoked_at]
+        );
+      }
+    });
+  }
+
+  async markSeen(keyId: string, at: number): Promise<void> {
+    await db.runAsync('UPDATE register_credentials SET last_seen_at = ? WHERE id = ?', [at, keyId]);
+  }
+}
+
+export const registerCredentialRepository = new RegisterCredentialRepository();
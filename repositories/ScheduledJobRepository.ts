@@ -0,0 +1,155 @@
+/**
+ * ScheduledJobRepository
+ *
+ * Cron schedules for the JobScheduler and the history of their runs.
+ *
+ * Tables: scheduled_jobs, scheduled_job_runs (created in dbSchema v14)
+ */
+
+import { db } from '../utils/db';
+import { generateUUID } from '../utils/uuid';
+
+export type MissedRunPolicy = 'skip' | 'catch_up';
+
+export type JobRunStatus = 'completed' | 'failed' | 'skipped';
+
+export interface ScheduledJobRow {
+  id: string;
+  type: string;
+  name: string;
+  cron: string;
+  payload: string | null; // JSON
+  missed_run_policy: MissedRunPolicy;
+  enabled: number; // 0 | 1
+  next_run_at: number;
+  last_run_at: number | null;
+  last_status: JobRunStatus | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface ScheduledJobRunRow {
+  id: string;
+  job_id: string;
+  scheduled_for: number;
+  started_at: number;
+  completed_at: number;
+  status: JobRunStatus;
+  result: string | null; // JSON SyncOperationResult
+  error: string | null;
+}
+
+export interface CreateScheduledJobInput {
+  id?: string;
+  type: string;
+  name: string;
+  cron: string;
+  payload?: string | null;
+  missedRunPolicy: MissedRunPolicy;
+  nextRunAt: number;
+}
+
+export interface InsertJobRunInput {
+  jobId: string;
+  scheduledFor: number;
+  startedAt: number;
+  completedAt: number;
+  status: JobRunStatus;
+  result?: string | null;
+  error?: string | null;
+}
+
+export class ScheduledJobRepository {
+  async create(input: CreateScheduledJobInput): Promise<string> {
+    const id = input.id ?? generateUUID();
+    const now = Date.now();
+    await db.runAsync(
+      `INSERT INTO scheduled_jobs
+         (id, type, name, cron, payload, missed_run_policy, enabled, next_run_at, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, 1, ?, ?, ?)`,
+      [id, input.type, input.name, input.cron, input.payload ?? null, input.missedRunPolicy, input.nextRunAt, now, now]
+    );
+    return id;
+  }
+
+  async findById(id: string): Promise<ScheduledJobRow | null> {
+    return db.getFirstAsync<ScheduledJobRow>('SELECT * FROM scheduled_jobs WHERE id = ?', [id]);
+  }
+
+  async findAll(): Promise<ScheduledJobRow[]> {
+    return db.getAllAsync<ScheduledJobRow>('SELECT * FROM scheduled_jobs ORDER BY next_run_at ASC');
+  }
+
+  async findDue(now: number): Promise<ScheduledJobRow[]> {
+    return db.getAllAsync<ScheduledJobRow>('SELECT * FROM scheduled_jobs WHERE enabled = 1 AND next_run_at <= ? ORDER BY next_run_at ASC', [
+      now,
+    ]);
+  }
+
+  /** Earliest upcoming run across enabled jobs, used to arm the wake-up timer */
+  async findNextRunAt(): Promise<number | null> {
+    const row = await db.getFirstAsync<{ next_run_at: number | null }>(
+      'SELECT MIN(next_run_at) as next_run_at FROM scheduled_jobs WHERE enabled = 1'
+    );
+    return row?.next_run_at ?? null;
+  }
+
+  async setEnabled(id: string, enabled: boolean, nextRunAt: number): Promise<boolean> {
+    const result = await db.runAsync('UPDATE scheduled_jobs SET enabled = ?, next_run_at = ?, updated_at = ? WHERE id = ?', [
+      enabled ? 1 : 0,
+      nextRunAt,
+      Date.now(),
+      id,
+    ]);
+    return result.changes > 0;
+  }
+
+  async recordRunOutcome(id: string, status: JobRunStatus, lastRunAt: number | null, nextRunAt: number): Promise<void> {
+    await db.runAsync('UPDATE scheduled_jobs SET last_status = ?, last_run_at = ?, next_run_at = ?, updated_at = ? WHERE id = ?', [
+      status,
+      lastRunAt,
+      nextRunAt,
+      Date.now(),
+      id,
+    ]);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await db.runAsync('DELETE FROM scheduled_job_runs WHERE job_id = ?', [id]);
+    const result = await db.runAsync('DELETE FROM scheduled_jobs WHERE id = ?', [id]);
+    return result.changes > 0;
+  }
+
+  // ── Run history ───────────────────────────────────────────────────────
+
+  async insertRun(input: InsertJobRunInput): Promise<string> {
+    const id = generateUUID();
+    await db.runAsync(
+      `INSERT INTO scheduled_job_runs
+         (id, job_id, scheduled_for, started_at, completed_at, status, result, error)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [id, input.jobId, input.scheduledFor, input.startedAt, input.completedAt, input.status, input.result ?? null, input.error ?? null]
+    );
+    return id;
+  }
+
+  async findRuns(jobId: string, limit: number = 20): Promise<ScheduledJobRunRow[]> {
+    return db.getAllAsync<ScheduledJobRunRow>('SELECT * FROM scheduled_job_runs WHERE job_id = ? ORDER BY started_at DESC LIMIT ?', [
+      jobId,
+      limit,
+    ]);
+  }
+
+  /** Keep only the most recent `keep` runs of a job */
+  async pruneRuns(jobId: string, keep: number): Promise<void> {
+    await db.runAsync(
+      `DELETE FROM scheduled_job_runs
+       WHERE job_id = ? AND id NOT IN (
+         SELECT id FROM scheduled_job_runs WHERE job_id = ? ORDER BY started_at DESC LIMIT ?
+       )`,
+      [jobId, jobId, keep]
+    );
+  }
+}
+
+export const scheduledJobRepository = new ScheduledJobRepository();
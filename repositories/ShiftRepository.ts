@@ -0,0 +1,185 @@
+/**
+ * ShiftRepository
+ *
+ * Cash drawers and the cashier shifts worked on them. A drawer is one
+ * register's cash session — opening float, closing count and Z-report — and
+ * only one can be open per register. Any number of cashiers can have a shift
+ * open on a drawer at once; a shift ends on hand-over or when the drawer
+ * closes, without counting the drawer.
+ *
+ * Tables: drawers, shifts (created in dbSchema v21)
+ */
+
+import { db } from '../utils/db';
+import { generateUUID } from '../utils/uuid';
+
+export type DrawerStatus = 'open' | 'closed';
+export type ShiftStatus = 'open' | 'closed';
+/** Why a shift ended: the cashier handed the drawer over, or the drawer was closed */
+export type ShiftEndReason = 'handover' | 'drawer_closed';
+
+export interface DrawerRow {
+  id: string;
+  register_id: string;
+  register_name: string | null;
+  status: DrawerStatus;
+  opening_float: number;
+  closing_cash: number | null;
+  opened_at: number;
+  closed_at: number | null;
+  opened_by: string | null;
+  closed_by: string | null;
+  z_report_id: string | null;
+  z_number: number | null;
+}
+
+export interface ShiftRow {
+  id: string;
+  drawer_id: string;
+  register_id: string;
+  cashier_id: string;
+  cashier_name: string;
+  status: ShiftStatus;
+  started_at: number;
+  ended_at: number | null;
+  end_reason: ShiftEndReason | null;
+}
+
+export interface CreateDrawerInput {
+  registerId: string;
+  registerName: string | null;
+  openingFloat: number;
+  openedBy: string | null;
+  /** Defaults to now */
+  openedAt?: number;
+}
+
+export interface CloseDrawerInput {
+  closingCash: number;
+  closedAt: number;
+  closedBy: string | null;
+  zReportId: string;
+  zNumber: number;
+}
+
+export interface CreateShiftInput {
+  drawerId: string;
+  registerId: string;
+  cashierId: string;
+  cashierName: string;
+  /** Defaults to now */
+  startedAt?: number;
+}
+
+export class ShiftRepository {
+  // ── Drawers ───────────────────────────────────────────────────────
+
+  /** Fails if the register already has an open drawer (partial unique index) */
+  async createDrawer(input: CreateDrawerInput): Promise<DrawerRow> {
+    const row: DrawerRow = {
+      id: generateUUID(),
+      register_id: input.registerId,
+      register_name: input.registerName,
+      status: 'open',
+      opening_float: input.openingFloat,
+      closing_cash: null,
+      opened_at: input.openedAt ?? Date.now(),
+      closed_at: null,
+      opened_by: input.openedBy,
+      closed_by: null,
+      z_report_id: null,
+      z_number: null,
+    };
+    await db.runAsync(
+      `INSERT INTO drawers (id, register_id, register_name, status, opening_float, opened_at, opened_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [row.id, row.register_id, row.register_name, row.status, row.opening_float, row.opened_at, row.opened_by]
+    );
+    return row;
+  }
+
+  async findDrawerById(id: string): Promise<DrawerRow | null> {
+    return db.getFirstAsync<DrawerRow>('SELECT * FROM drawers WHERE id = ?', [id]);
+  }
+
+  async findOpenDrawer(registerId: string): Promise<DrawerRow | null> {
+    return db.getFirstAsync<DrawerRow>(`SELECT * FROM drawers WHERE register_id = ? AND status = 'open'`, [registerId]);
+  }
+
+  async findOpenDrawers(): Promise<DrawerRow[]> {
+    return db.getAllAsync<DrawerRow>(`SELECT * FROM drawers WHERE status = 'open' ORDER BY opened_at`);
+  }
+
+  /** Returns false if the drawer was already closed — another register got there first */
+  async closeDrawer(id: string, input: CloseDrawerInput): Promise<boolean> {
+    const result = await db.runAsync(
+      `UPDATE drawers SET status = 'closed', closing_cash = ?, closed_at = ?, closed_by = ?, z_report_id = ?, z_number = ?
+       WHERE id = ? AND status = 'open'`,
+      [input.closingCash, input.closedAt, input.closedBy, input.zReportId, input.zNumber, id]
+    );
+    return result.changes > 0;
+  }
+
+  // ── Shifts ────────────────────────────────────────────────────────
+
+  /** Fails if the cashier already has a shift open on the register (partial unique index) */
+  async createShift(input: CreateShiftInput): Promise<ShiftRow> {
+    const row: ShiftRow = {
+      id: generateUUID(),
+      drawer_id: input.drawerId,
+      register_id: input.registerId,
+      cashier_id: input.cashierId,
+      cashier_name: input.cashierName,
+      status: 'open',
+      started_at: input.startedAt ?? Date.now(),
+      ended_at: null,
+      end_reason: null,
+    };
+    await db.runAsync(
+      `INSERT INTO shifts (id, drawer_id, register_id, cashier_id, cashier_name, status, started_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [row.id, row.drawer_id, row.register_id, row.cashier_id, row.cashier_name, row.status, row.started_at]
+    );
+    return row;
+  }
+
+  async findShiftById(id: string): Promise<ShiftRow | null> {
+    return db.getFirstAsync<ShiftRow>('SELECT * FROM shifts WHERE id = ?', [id]);
+  }
+
+  /** Open shifts on every register, or on one */
+  async findOpenShifts(registerId?: string): Promise<ShiftRow[]> {
+    if (registerId !== undefined) {
+      return db.getAllAsync<ShiftRow>(`SELECT * FROM shifts WHERE register_id = ? AND status = 'open' ORDER BY started_at`, [registerId]);
+    }
+    return db.getAllAsync<ShiftRow>(`SELECT * FROM shifts WHERE status = 'open' ORDER BY started_at`);
+  }
+
+  async findShiftsByDrawer(drawerId: string): Promise<ShiftRow[]> {
+    return db.getAllAsync<ShiftRow>('SELECT * FROM shifts WHERE drawer_id = ? ORDER BY started_at', [drawerId]);
+  }
+
+  async findRecentShifts(limit: number): Promise<ShiftRow[]> {
+    return db.getAllAsync<ShiftRow>(`SELECT * FROM shifts WHERE status = 'closed' ORDER BY ended_at DESC LIMIT ?`, [limit]);
+  }
+
+  /** Returns false if the shift had already ended */
+  async endShift(id: string, endedAt: number, reason: ShiftEndReason): Promise<boolean> {
+    const result = await db.runAsync(`UPDATE shifts SET status = 'closed', ended_at = ?, end_reason = ? WHERE id = ? AND status = 'open'`, [
+      endedAt,
+      reason,
+      id,
+    ]);
+    return result.changes > 0;
+  }
+
+  /** End every shift still open on a drawer that is closing */
+  async endDrawerShifts(drawerId: string, endedAt: number): Promise<void> {
+    await db.runAsync(
+      `UPDATE shifts SET status = 'closed', ended_at = ?, end_reason = 'drawer_closed' WHERE drawer_id = ? AND status = 'open'`,
+      [endedAt, drawerId]
+    );
+  }
+}
+
+export const shiftRepository = new ShiftRepository();
@@ -0,0 +1,244 @@
+/**
+ * SyncConflictRepository
+ *
+ * Per-field sync versions for bidirectional sync, the platform product and
+ * variant each local product is synced with, and the queue of conflicts
+ * awaiting a manager's decision.
+ *
+ * Tables: sync_field_versions, sync_conflicts, sync_product_links (created in
+ * dbSchema v26)
+ */
+
+import { db } from '../utils/db';
+import { generateUUID } from '../utils/uuid';
+
+export type SyncConflictStatus = 'open' | 'resolved';
+
+/** Which side was kept; `converged` when both sides were edited to the same value */
+export type SyncConflictResolution = 'pos' | 'platform' | 'converged';
+
+export interface SyncFieldVersionRow {
+  platform: string;
+  entity_type: string;
+  entity_id: string;
+  field: string;
+  synced_value: string | null;
+  version: number;
+  pos_updated_at: number | null;
+  platform_updated_at: number | null;
+  synced_at: number;
+}
+
+export interface SyncConflictRow {
+  id: string;
+  platform: string;
+  entity_type: string;
+  entity_id: string;
+  entity_name: string | null;
+  field: string;
+  base_value: string | null;
+  pos_value: string | null;
+  platform_value: string | null;
+  pos_updated_at: number | null;
+  platform_updated_at: number | null;
+  status: SyncConflictStatus;
+  resolution: SyncConflictResolution | null;
+  resolved_by: string | null;
+  detected_at: number;
+  resolved_at: number | null;
+}
+
+export interface SyncProductLinkRow {
+  platform: string;
+  product_id: string;
+  platform_product_id: string;
+  platform_variant_id: string;
+  linked_at: number;
+}
+
+export interface SaveProductLinkInput {
+  platform: string;
+  productId: string;
+  platformProductId: string;
+  platformVariantId: string;
+}
+
+export interface SaveFieldVersionInput {
+  platform: string;
+  entityType: string;
+  entityId: string;
+  field: string;
+  value: string;
+  posUpdatedAt?: number | null;
+  platformUpdatedAt?: number | null;
+}
+
+export interface OpenConflictInput {
+  platform: string;
+  entityType: string;
+  entityId: string;
+  entityName?: string | null;
+  field: string;
+  baseValue: string | null;
+  posValue: string;
+  platformValue: string;
+  posUpdatedAt?: number | null;
+  platformUpdatedAt?: number | null;
+}
+
+export class SyncConflictRepository {
+  // ── Field versions ────────────────────────────────────────────────────
+
+  async findFieldVersions(platform: string, entityType: string, entityId: string): Promise<SyncFieldVersionRow[]> {
+    return db.getAllAsync<SyncFieldVersionRow>(
+      'SELECT * FROM sync_field_versions WHERE platform = ? AND entity_type = ? AND entity_id = ?',
+      [platform, entityType, entityId]
+    );
+  }
+
+  /** Record the value both sides now agree on; the version only moves when the value changes */
+  async saveFieldVersion(input: SaveFieldVersionInput): Promise<void> {
+    const now = Date.now();
+    await db.runAsync(
+      `INSERT INTO sync_field_versions
+         (platform, entity_type, entity_id, field, synced_value, version, pos_updated_at, platform_updated_at, synced_at)
+       VALUES (?, ?, ?, ?, ?, 1, ?, ?, ?)
+       ON CONFLICT(platform, entity_type, entity_id, field) DO UPDATE SET
+         version = version + (CASE WHEN synced_value IS excluded.synced_value THEN 0 ELSE 1 END),
+         synced_value = excluded.synced_value,
+         pos_updated_at = excluded.pos_updated_at,
+         platform_updated_at = excluded.platform_updated_at,
+         synced_at = excluded.synced_at`,
+      [
+        input.platform,
+        input.entityType,
+        input.entityId,
+        input.field,
+        input.value,
+        input.posUpdatedAt ?? null,
+        input.platformUpdatedAt ?? null,
+        now,
+      ]
+    );
+  }
+
+  // ── Product links ─────────────────────────────────────────────────────
+
+  async findProductLink(platform: string, productId: string): Promise<SyncProductLinkRow | null> {
+    return db.getFirstAsync<SyncProductLinkRow>('SELECT * FROM sync_product_links WHERE platform = ? AND product_id = ?', [
+      platform,
+      productId,
+    ]);
+  }
+
+  async findProductLinks(platform: string, productIds: string[]): Promise<SyncProductLinkRow[]> {
+    if (productIds.length === 0) return [];
+    const placeholders = productIds.map(() => '?').join(', ');
+    return db.getAllAsync<SyncProductLinkRow>(`SELECT * FROM sync_product_links WHERE platform = ? AND product_id IN (${placeholders})`, [
+      platform,
+      ...productIds,
+    ]);
+  }
+
+  async saveProductLink(input: SaveProductLinkInput): Promise<void> {
+    await db.runAsync(
+      `INSERT INTO sync_product_links (platform, product_id, platform_product_id, platform_variant_id, linked_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(platform, product_id) DO UPDATE SET
+         platform_product_id = excluded.platform_product_id,
+         platform_variant_id = excluded.platform_variant_id,
+         linked_at = excluded.linked_at`,
+      [input.platform, input.productId, input.platformProductId, input.platformVariantId, Date.now()]
+    );
+  }
+
+  // ── Conflicts ─────────────────────────────────────────────────────────
+
+  async findById(id: string): Promise<SyncConflictRow | null> {
+    return db.getFirstAsync<SyncConflictRow>('SELECT * FROM sync_conflicts WHERE id = ?', [id]);
+  }
+
+  async findOpen(platform?: string): Promise<SyncConflictRow[]> {
+    if (platform) {
+      return db.getAllAsync<SyncConflictRow>(
+        "SELECT * FROM sync_conflicts WHERE status = 'open' AND platform = ? ORDER BY detected_at ASC",
+        [platform]
+      );
+    }
+    return db.getAllAsync<SyncConflictRow>("SELECT * FROM sync_conflicts WHERE status = 'open' ORDER BY detected_at ASC");
+  }
+
+  async findOpenForEntity(platform: string, entityType: string, entityId: string): Promise<SyncConflictRow[]> {
+    return db.getAllAsync<SyncConflictRow>(
+      "SELECT * FROM sync_conflicts WHERE status = 'open' AND platform = ? AND entity_type = ? AND entity_id = ?",
+      [platform, entityType, entityId]
+    );
+  }
+
+  /**
+   * Queue a conflict, or refresh the open one for the same field with the
+   * latest values from both sides. Returns the conflict ID.
+   */
+  async upsertOpen(input: OpenConflictInput): Promise<string> {
+    const existing = await db.getFirstAsync<{ id: string }>(
+      "SELECT id FROM sync_conflicts WHERE status = 'open' AND platform = ? AND entity_type = ? AND entity_id = ? AND field = ?",
+      [input.platform, input.entityType, input.entityId, input.field]
+    );
+
+    if (existing) {
+      await db.runAsync(
+        `UPDATE sync_conflicts
+            SET entity_name = ?, pos_value = ?, platform_value = ?, pos_updated_at = ?, platform_updated_at = ?
+          WHERE id = ?`,
+        [
+          input.entityName ?? null,
+          input.posValue,
+          input.platformValue,
+          input.posUpdatedAt ?? null,
+          input.platformUpdatedAt ?? null,
+          existing.id,
+        ]
+      );
+      return existing.id;
+    }
+
+    const id = generateUUID();
+    await db.runAsync(
+      `INSERT INTO sync_conflicts
+         (id, platform, entity_type, entity_id, entity_name, field, base_value, pos_value, platform_value,
+          pos_updated_at, platform_updated_at, status, detected_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'open', ?)`,
+      [
+        id,
+        input.platform,
+        input.entityType,
+        input.entityId,
+        input.entityName ?? null,
+        input.field,
+        input.baseValue,
+        input.posValue,
+        input.platformValue,
+        input.posUpdatedAt ?? null,
+        input.platformUpdatedAt ?? null,
+        Date.now(),
+      ]
+    );
+    return id;
+  }
+
+  async markResolved(id: string, resolution: SyncConflictResolution, resolvedBy: string | null): Promise<void> {
+    await db.runAsync("UPDATE sync_conflicts SET status = 'resolved', resolution = ?, resolved_by = ?, resolved_at = ? WHERE id = ?", [
+      resolution,
+      resolvedBy,
+      Date.now(),
+      id,
+    ]);
+  }
+
+  async countOpen(): Promise<number> {
+    const row = await db.getFirstAsync<{ count: number }>("SELECT COUNT(*) as count FROM sync_conflicts WHERE status = 'open'");
+    return row?.count ?? 0;
+  }
+}
+
+export const syncConflictRepository = new SyncConflictRepository();
@@ -0,0 +1,68 @@
+/**
+ * TipRepository
+ *
+ * Staff shares of the tips taken on orders, one row per staff member per
+ * order. An order's shares are replaced as a whole when its tip is adjusted,
+ * so they always add up to the order's tip_amount.
+ *
+ * Table: order_tips (created in dbSchema v22)
+ */
+
+import { db } from '../utils/db';
+import { generateUUID } from '../utils/uuid';
+
+export interface TipShareRow {
+  id: string;
+  order_id: string;
+  register_id: string;
+  staff_id: string;
+  staff_name: string;
+  amount: number;
+  paid_at: number;
+  updated_at: number;
+}
+
+export interface TipShareInput {
+  staffId: string;
+  staffName: string;
+  amount: number;
+}
+
+export class TipRepository {
+  /** Replace the order's shares; an empty list removes them */
+  async replaceForOrder(orderId: string, registerId: string, paidAt: number, shares: TipShareInput[]): Promise<TipShareRow[]> {
+    const now = Date.now();
+    const rows: TipShareRow[] = shares.map(share => ({
+      id: generateUUID(),
+      order_id: orderId,
+      register_id: registerId,
+      staff_id: share.staffId,
+      staff_name: share.staffName,
+      amount: share.amount,
+      paid_at: paidAt,
+      updated_at: now,
+    }));
+
+    await db.withTransactionAsync(async () => {
+      await db.runAsync('DELETE FROM order_tips WHERE order_id = ?', [orderId]);
+      for (const row of rows) {
+        await db.runAsync(
+          `INSERT INTO order_tips (id, order_id, register_id, staff_id, staff_name, amount, paid_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [row.id, row.order_id, row.register_id, row.staff_id, row.staff_name, row.amount, row.paid_at, row.updated_at]
+        );
+      }
+    });
+    return rows;
+  }
+
+  async findByOrder(orderId: string): Promise<TipShareRow[]> {
+    return db.getAllAsync<TipShareRow>('SELECT * FROM order_tips WHERE order_id = ? ORDER BY staff_name', [orderId]);
+  }
+
+  async findByDateRange(from: number, to: number): Promise<TipShareRow[]> {
+    return db.getAllAsync<TipShareRow>('SELECT * FROM order_tips WHERE paid_at >= ? AND paid_at < ? ORDER BY paid_at', [from, to]);
+  }
+}
+
+export const tipRepository = new TipRepository();
@@ -0,0 +1,35 @@
+/**
+ * WebhookDeliveryRepository
+ *
+ * Webhook deliveries already accepted, kept long enough to recognise platform
+ * retries, including retries that arrive after the server restarts.
+ *
+ * Table: webhook_deliveries (created in dbSchema v25)
+ */
+
+import { db } from '../utils/db';
+
+export interface WebhookDeliveryRow {
+  platform: string;
+  /** `<topic>:<delivery ID>` */
+  delivery_key: string;
+  received_at: number;
+}
+
+export class WebhookDeliveryRepository {
+  /** Record an accepted delivery; false when it was already recorded */
+  async insertIfNew(platform: string, deliveryKey: string, receivedAt: number): Promise<boolean> {
+    const result = await db.runAsync('INSERT OR IGNORE INTO webhook_deliveries (platform, delivery_key, received_at) VALUES (?, ?, ?)', [
+      platform,
+      deliveryKey,
+      receivedAt,
+    ]);
+    return result.changes > 0;
+  }
+
+  async deleteReceivedBefore(before: number): Promise<void> {
+    await db.runAsync('DELETE FROM webhook_deliveries WHERE received_at < ?', [before]);
+  }
+}
+
+export const webhookDeliveryRepository = new WebhookDeliveryRepository();
@@ -0,0 +1,93 @@
+/**
+ * ZReportRepository
+ *
+ * Z-reports, one per closed drawer, numbered per register. Rows are
+ * immutable: the table has triggers that reject every UPDATE and DELETE, so
+ * there are no update or delete methods here.
+ *
+ * Table: z_reports (created in dbSchema v19, drawer_id added in v21)
+ */
+
+import { db } from '../utils/db';
+
+export interface ZReportRow {
+  id: string;
+  register_id: string;
+  z_number: number;
+  /** The closing cashier's shift */
+  shift_id: string;
+  /** The drawer the report closed; null for reports written before v21 */
+  drawer_id: string | null;
+  cashier_id: string | null;
+  cashier_name: string | null;
+  opened_at: number;
+  closed_at: number;
+  net_takings: number;
+  grand_total: number;
+  variance: number | null;
+  /** Full ShiftReport JSON */
+  report: string;
+  created_at: number;
+}
+
+export interface CreateZReportInput {
+  id: string;
+  registerId: string;
+  zNumber: number;
+  shiftId: string;
+  drawerId: string;
+  cashierId: string | null;
+  cashierName: string | null;
+  openedAt: number;
+  closedAt: number;
+  netTakings: number;
+  grandTotal: number;
+  variance: number | null;
+  report: string;
+}
+
+export class ZReportRepository {
+  /** Fails on a duplicate Z number for the register (UNIQUE(register_id, z_number)) */
+  async create(input: CreateZReportInput): Promise<void> {
+    await db.runAsync(
+      `INSERT INTO z_reports (id, register_id, z_number, shift_id, drawer_id, cashier_id, cashier_name, opened_at,
+                              closed_at, net_takings, grand_total, variance, report, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        input.id,
+        input.registerId,
+        input.zNumber,
+        input.shiftId,
+        input.drawerId,
+        input.cashierId,
+        input.cashierName,
+        input.openedAt,
+        input.closedAt,
+        input.netTakings,
+        input.grandTotal,
+        input.variance,
+        input.report,
+        Date.now(),
+      ]
+    );
+  }
+
+  async findById(id: string): Promise<ZReportRow | null> {
+    return db.getFirstAsync<ZReportRow>('SELECT * FROM z_reports WHERE id = ?', [id]);
+  }
+
+  /** The register's most recent Z-report, which carries its last number and grand total */
+  async findLatest(registerId: string): Promise<ZReportRow | null> {
+    return db.getFirstAsync<ZReportRow>('SELECT * FROM z_reports WHERE register_id = ? ORDER BY z_number DESC LIMIT 1', [registerId]);
+  }
+
+  async findRecent(limit: number): Promise<ZReportRow[]> {
+    return db.getAllAsync<ZReportRow>('SELECT * FROM z_reports ORDER BY closed_at DESC LIMIT ?', [limit]);
+  }
+
+  async findByDateRange(from: number, to: number): Promise<ZReportRow[]> {
+    return db.getAllAsync<ZReportRow>('SELECT * FROM z_reports WHERE closed_at >= ? AND closed_at < ? ORDER BY closed_at', [from, to]);
+  }
+}
+
+export const zReportRepository = new ZReportRepository();
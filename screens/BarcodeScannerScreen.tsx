@@ -4,11 +4,12 @@ import { CameraView } from 'expo-camera';
 import { useProductsForDisplay } from '../hooks/useProducts';
 import { useBarcodeScanner } from '../hooks/useBarcodeScanner';
 import { useScanner } from '../hooks/useScanner';
+import type { Gs1Scan } from '../services/scanner/gs1';
 import { isElectron } from '../utils/electron';
 import { lightColors, spacing, borderRadius, typography, elevation } from '../utils/theme';
 
 interface BarcodeScannerScreenProps {
-  onScanSuccess: (productId: string) => void;
+  onScanSuccess: (productId: string, scan?: Gs1Scan) => void;
   onClose: () => void;
 }
 
@@ -88,7 +89,7 @@ export const BarcodeScannerScreen: React.FC<BarcodeScannerScreenProps> = ({ onSc
   const renderScanResultBanner = () => {
     if (!scanResult) return null;
     const bannerStyle =
-      scanResult.status === 'not_found'
+      scanResult.status === 'not_found' || scanResult.status === 'expired'
         ? styles.bannerError
         : scanResult.status === 'searching'
           ? styles.bannerSearching
@@ -98,9 +99,11 @@ export const BarcodeScannerScreen: React.FC<BarcodeScannerScreenProps> = ({ onSc
         ? 'Searching...'
         : scanResult.status === 'not_found'
           ? 'Product not found'
-          : scanResult.status === 'found_online'
-            ? `\u2713 Online: ${scanResult.name}`
-            : `\u2713 Added: ${scanResult.name}`;
+          : scanResult.status === 'expired'
+            ? 'Item expired — not added'
+            : scanResult.status === 'found_online'
+              ? `\u2713 Online: ${scanResult.name}`
+              : `\u2713 Added: ${scanResult.name}`;
     return (
       <View style={[styles.scanResultBanner, bannerStyle]}>
         <Text style={styles.scanResultText} numberOfLines={1}>
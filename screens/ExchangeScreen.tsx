@@ -3,7 +3,7 @@ import { View, Text, StyleSheet, FlatList, TouchableOpacity, ActivityIndicator,
 import { MaterialIcons } from '@expo/vector-icons';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { lightColors, spacing, typography, borderRadius, elevation } from '../utils/theme';
-import { formatMoney } from '../utils/money';
+import { formatMoney, multiplyMoney } from '../utils/money';
 import { Button } from '../components/Button';
 import { useCurrency } from '../hooks/useCurrency';
 import { useAuthContext } from '../contexts/AuthProvider';
@@ -12,6 +12,7 @@ import { ExchangeService, ExchangeSession, ReturnLineInput } from '../services/e
 import { PaymentMethod } from '../services/order/order';
 import { BasketServiceFactory } from '../services/basket/BasketServiceFactory';
 import { generateUUID } from '../utils/uuid';
+import { formatQuantity, isMeasured, SELLING_UNITS, SellingUnit } from '../services/product/unitOfMeasure';
 import type { MoreStackParamList } from '../navigation/types';
 
 type ExchangeScreenRouteProp = RouteProp<MoreStackParamList, 'Exchange'>;
@@ -24,9 +25,13 @@ interface ReturnableItem {
   variantId: string | null;
   name: string;
   price: number;
+  /** Per-unit price after discounts — what the customer is credited */
+  netPrice: number;
   originalQuantity: number;
   returnedQuantity: number;
   returnableQuantity: number;
+  /** Lines sold by weight or length are returned whole: the stepper toggles all or nothing */
+  unit?: SellingUnit;
 }
 
 interface ReturnQty {
@@ -101,7 +106,11 @@ const ExchangeScreen: React.FC = () => {
         const item = returnableItems.find(i => i.orderItemId === orderItemId);
         if (!item) return prev;
         const current = prev[orderItemId] ?? 0;
-        const next = Math.max(0, Math.min(item.returnableQuantity, current + delta));
+        const next = isMeasured(item.unit)
+          ? delta > 0
+            ? item.returnableQuantity
+            : 0
+          : Math.max(0, Math.min(item.returnableQuantity, current + delta));
         return { ...prev, [orderItemId]: next };
       });
     },
@@ -117,7 +126,7 @@ const ExchangeScreen: React.FC = () => {
         variantId: i.variantId ?? undefined,
         productName: i.name,
         quantity: returnQtys[i.orderItemId],
-        price: i.price,
+        price: i.netPrice,
       }));
 
     if (selectedItems.length === 0) {
@@ -290,7 +299,9 @@ const ExchangeScreen: React.FC = () => {
                     <View style={styles.returnItemInfo}>
                       <Text style={styles.returnItemName}>{item.name}</Text>
                       <Text style={styles.returnItemPrice}>
-                        {formatMoney(item.price, currency.code)} × {item.returnableQuantity} available
+                        {isMeasured(item.unit)
+                          ? `${formatMoney(item.netPrice, currency.code)}/${SELLING_UNITS[item.unit].label} × ${formatQuantity(item.returnableQuantity, item.unit)} available`
+                          : `${formatMoney(item.netPrice, currency.code)} × ${item.returnableQuantity} available`}
                       </Text>
                     </View>
                     <View style={styles.qtyControl}>
@@ -303,7 +314,7 @@ const ExchangeScreen: React.FC = () => {
                       >
                         <Text style={[styles.qtyButtonText, qty === 0 && styles.qtyButtonDisabled]}>−</Text>
                       </TouchableOpacity>
-                      <Text style={styles.qtyValue}>{qty}</Text>
+                      <Text style={styles.qtyValue}>{isMeasured(item.unit) && qty > 0 ? formatQuantity(qty, item.unit) : qty}</Text>
                       <TouchableOpacity
                         style={styles.qtyButton}
                         onPress={() => handleReturnQtyChange(item.orderItemId, 1)}
@@ -324,7 +335,7 @@ const ExchangeScreen: React.FC = () => {
             <Text style={styles.creditSummary}>
               Return credit:{' '}
               {formatMoney(
-                returnableItems.reduce((s, i) => s + i.price * (returnQtys[i.orderItemId] ?? 0), 0),
+                returnableItems.reduce((s, i) => s + multiplyMoney(i.netPrice, returnQtys[i.orderItemId] ?? 0), 0),
                 currency.code
               )}
             </Text>
@@ -1,10 +1,11 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, Alert, RefreshControl } from 'react-native';
 import { FlashList } from '@shopify/flash-list';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import { useAuthContext } from '../contexts/AuthProvider';
-import { useDailyReport, DailyReportData } from '../hooks/useDailyReport';
+import { useManagerApproval } from '../hooks/useManagerApproval';
+import { useDailyReport, ShiftReport, EndOfDayReport } from '../hooks/useDailyReport';
 import type { MoreStackScreenProps } from '../navigation/types';
 import { lightColors, spacing, typography, borderRadius } from '../utils/theme';
 import { LocalOrder } from '../services/basket/BasketServiceInterface';
@@ -13,11 +14,21 @@ import OrderCard from './order-history/OrderCard';
 import ShiftModal from './order-history/ShiftModal';
 import ReportModal from './order-history/ReportModal';
 import ReceiptModal from './order-history/ReceiptModal';
+import ZReportListModal from './order-history/ZReportListModal';
+import EndOfDayModal from './order-history/EndOfDayModal';
+import CashMovementModal, { CashMovementEntry } from './order-history/CashMovementModal';
+import TipAdjustModal from './order-history/TipAdjustModal';
 import { useCurrency } from '../hooks/useCurrency';
 import { useLogger } from '../hooks/useLogger';
 import { PrinterServiceFactory } from '../services/printer/PrinterServiceFactory';
 import { useOrderHistory } from '../hooks/useOrderHistory';
 import { useCheckoutContext } from '../contexts/CheckoutProvider';
+import { posConfig } from '../services/config/POSConfigService';
+import { cashTotal, countCash, getDenominations } from '../services/cashup/denominations';
+import { cashMovementService } from '../services/cashup/CashMovementService';
+import { CASH_MOVEMENT_ACTIONS, CASH_MOVEMENT_LABELS } from '../services/cashup/cashMovement';
+import { tipService } from '../services/tips/TipService';
+import { getMeasuredLine } from '../services/product/unitOfMeasure';
 
 interface OrderHistoryScreenProps extends MoreStackScreenProps<'OrderHistory'> {}
 
@@ -28,8 +39,24 @@ const formatDate = (timestamp: number): string => {
 const OrderHistoryScreen: React.FC<OrderHistoryScreenProps> = () => {
   const { getSyncQueueStatus, unsyncedOrdersCount } = useCheckoutContext();
   const { user } = useAuthContext();
+  const { requestAuthoriser } = useManagerApproval();
   const navigation = useNavigation<MoreStackScreenProps<'OrderHistory'>['navigation']>();
-  const { currentShift, openShift, closeShift, generateReport, getReportLines } = useDailyReport();
+  const {
+    currentShift,
+    registerShifts,
+    zReports,
+    openShift,
+    handOverShift,
+    closeShift,
+    getXReport,
+    getZReport,
+    getEndOfDayReport,
+    getShiftReportLines,
+    getEndOfDayLines,
+    loadZReports,
+  } = useDailyReport();
+  // Another cashier's shift keeps the register's drawer open
+  const drawerOpen = registerShifts.length > 0;
   const logger = useLogger('OrderHistoryScreen');
   const currency = useCurrency();
 
@@ -53,16 +80,32 @@ const OrderHistoryScreen: React.FC<OrderHistoryScreenProps> = () => {
   const [showShiftModal, setShowShiftModal] = useState(false);
   const [shiftModalMode, setShiftModalMode] = useState<'open' | 'close'>('open');
   const [cashAmount, setCashAmount] = useState('');
+  const [denominationCounts, setDenominationCounts] = useState<Record<string, string>>({});
+  const [expectedCash, setExpectedCash] = useState<number | null>(null);
   const [isProcessingShift, setIsProcessingShift] = useState(false);
 
   // Report state
-  const [currentReport, setCurrentReport] = useState<DailyReportData | null>(null);
+  const [currentReport, setCurrentReport] = useState<ShiftReport | null>(null);
   const [showReportModal, setShowReportModal] = useState(false);
+  const [showZReports, setShowZReports] = useState(false);
+  const [endOfDayReport, setEndOfDayReport] = useState<EndOfDayReport | null>(null);
+
+  // Cash movement state
+  const [showCashMovement, setShowCashMovement] = useState(false);
+  const [isRecordingMovement, setIsRecordingMovement] = useState(false);
+
+  // Blind close hides expected cash and variance from cashiers
+  const blind = isCashier && posConfig.values.blindClose === true;
+  const denominations = useMemo(() => getDenominations(currency.code), [currency.code]);
 
   // Receipt preview state
   const [selectedOrder, setSelectedOrder] = useState<LocalOrder | null>(null);
   const [showReceiptModal, setShowReceiptModal] = useState(false);
 
+  // Tip adjustment state
+  const [tipOrder, setTipOrder] = useState<LocalOrder | null>(null);
+  const [isAdjustingTip, setIsAdjustingTip] = useState(false);
+
   const handlePrintReceipt = useCallback((order: LocalOrder) => {
     setSelectedOrder(order);
     setShowReceiptModal(true);
@@ -85,7 +128,12 @@ const OrderHistoryScreen: React.FC<OrderHistoryScreenProps> = () => {
     try {
       const receiptData = {
         orderId: selectedOrder.id.slice(-8),
-        items: selectedOrder.items.map(item => ({ name: item.name, quantity: item.quantity, price: item.price })),
+        items: selectedOrder.items.map(item => ({
+          name: item.name,
+          quantity: item.quantity,
+          price: item.price,
+          unit: getMeasuredLine(item)?.unit,
+        })),
         subtotal: selectedOrder.subtotal,
         tax: selectedOrder.tax,
         total: selectedOrder.total,
@@ -112,55 +160,211 @@ const OrderHistoryScreen: React.FC<OrderHistoryScreenProps> = () => {
 
   // ============ Shift Actions ============
 
-  const handleOpenShift = useCallback(() => {
+  const handleOpenShift = useCallback(async () => {
+    // The float was counted when the drawer opened; joining cashiers don't recount it
+    if (drawerOpen) {
+      try {
+        await openShift(user?.username || 'Unknown', user?.id || 'unknown', 0);
+        Alert.alert('Shift Started', 'You joined the open drawer on this register.');
+      } catch (err) {
+        Alert.alert('Error', err instanceof Error ? err.message : 'Failed to start shift');
+      }
+      return;
+    }
     setShiftModalMode('open');
     setCashAmount('');
     setShowShiftModal(true);
-  }, []);
+  }, [drawerOpen, openShift, user]);
+
+  const handleHandOver = useCallback(() => {
+    Alert.alert('Hand Over', 'End your shift and leave the drawer open for the next cashier?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Hand Over',
+        onPress: async () => {
+          try {
+            await handOverShift();
+            Alert.alert('Shift Handed Over', 'The drawer stays open. The next cashier starts their shift to take over.');
+          } catch (err) {
+            Alert.alert('Error', err instanceof Error ? err.message : 'Failed to hand over shift');
+          }
+        },
+      },
+    ]);
+  }, [handOverShift]);
 
   const handleCloseShift = useCallback(() => {
     setShiftModalMode('close');
     setCashAmount('');
+    setDenominationCounts({});
+    setExpectedCash(null);
     setShowShiftModal(true);
+    if (!blind) {
+      getXReport()
+        .then(report => setExpectedCash(report.cash.expected))
+        .catch(() => setExpectedCash(null));
+    }
+  }, [blind, getXReport]);
+
+  const handleDenominationChange = useCallback((denomination: number, value: string) => {
+    setDenominationCounts(prev => ({ ...prev, [String(denomination)]: value }));
   }, []);
 
-  const handleShiftSubmit = useCallback(async () => {
+  const countByDenomination = shiftModalMode === 'close' && denominations.length > 0;
+
+  const denominationLines = useMemo(
+    () => denominations.map(denomination => ({ denomination, quantity: Number(denominationCounts[String(denomination)] || 0) })),
+    [denominations, denominationCounts]
+  );
+
+  const countedTotal = useMemo(() => {
+    if (countByDenomination) {
+      return countCash(denominationLines.filter(l => Number.isInteger(l.quantity) && l.quantity > 0)).total;
+    }
     const amount = parseFloat(cashAmount);
-    if (isNaN(amount) || amount < 0) {
-      Alert.alert('Invalid Amount', 'Please enter a valid cash amount.');
-      return;
+    return isNaN(amount) ? 0 : amount;
+  }, [countByDenomination, denominationLines, cashAmount]);
+
+  const handleShiftSubmit = useCallback(async () => {
+    let count = null;
+    if (countByDenomination) {
+      if (denominationLines.some(l => !Number.isInteger(l.quantity) || l.quantity < 0)) {
+        Alert.alert('Invalid Count', 'Enter a whole number of each note and coin.');
+        return;
+      }
+      count = countCash(denominationLines);
+    } else {
+      const amount = parseFloat(cashAmount);
+      if (isNaN(amount) || amount < 0) {
+        Alert.alert('Invalid Amount', 'Please enter a valid cash amount.');
+        return;
+      }
+      count = cashTotal(amount);
     }
 
     setIsProcessingShift(true);
     try {
       if (shiftModalMode === 'open') {
-        await openShift(user?.username || 'Unknown', user?.id || 'unknown', amount);
-        Alert.alert('Shift Opened', `Shift started with ${formatMoney(amount, currency.code)} opening cash.`);
+        await openShift(user?.username || 'Unknown', user?.id || 'unknown', count.total);
+        Alert.alert('Shift Opened', `Shift started with ${formatMoney(count.total, currency.code)} opening cash.`);
       } else {
-        const closedShift = await closeShift(amount);
-        const report = await generateReport(orders, closedShift);
+        const closedShift = await closeShift(count);
+        const report = closedShift.zReportId ? await getZReport(closedShift.zReportId) : null;
         setCurrentReport(report);
-        setShowReportModal(true);
-        Alert.alert('Shift Closed', 'Daily report generated. You can now print it.');
+        setShowReportModal(report !== null);
+        Alert.alert('Shift Closed', `Z-report #${closedShift.zNumber ?? '-'} saved. You can now print it.`);
       }
       setShowShiftModal(false);
       setCashAmount('');
+      setDenominationCounts({});
     } catch (err) {
       Alert.alert('Error', err instanceof Error ? err.message : 'Failed to process shift');
     } finally {
       setIsProcessingShift(false);
     }
-  }, [cashAmount, shiftModalMode, openShift, closeShift, generateReport, orders, user, currency.code]);
+  }, [countByDenomination, denominationLines, cashAmount, shiftModalMode, openShift, closeShift, getZReport, user, currency.code]);
 
-  const handleGenerateReport = useCallback(async () => {
+  const handleXReport = useCallback(async () => {
     try {
-      const report = await generateReport(orders);
+      const report = await getXReport();
       setCurrentReport(report);
       setShowReportModal(true);
     } catch (err) {
-      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to generate report');
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to generate X-report');
+    }
+  }, [getXReport]);
+
+  // Every movement is authorised through ManagerApprovalService before it is recorded
+  const handleCashMovement = useCallback(
+    async (entry: CashMovementEntry) => {
+      setShowCashMovement(false);
+      const approvedBy = await requestAuthoriser(CASH_MOVEMENT_ACTIONS[entry.type]);
+      if (!approvedBy) return;
+
+      setIsRecordingMovement(true);
+      try {
+        const result = await cashMovementService.record({
+          ...entry,
+          userId: user?.id ?? null,
+          userName: user?.username ?? null,
+          approvedBy,
+        });
+        const label = CASH_MOVEMENT_LABELS[entry.type];
+        const amount = entry.type === 'no_sale' ? '' : ` of ${formatMoney(result.movement.amount, currency.code)}`;
+        const slip = result.slipPrinted ? '' : ' No slip was printed.';
+        Alert.alert(`${label} Recorded`, `${label}${amount} recorded against this shift.${slip}`);
+      } catch (err) {
+        Alert.alert('Error', err instanceof Error ? err.message : 'Failed to record cash movement');
+      } finally {
+        setIsRecordingMovement(false);
+      }
+    },
+    [requestAuthoriser, user, currency.code]
+  );
+
+  // Tip adjustments change a card authorisation, so a manager authorises each one
+  const handleAdjustTip = useCallback(
+    async (tipAmount: number) => {
+      if (!tipOrder) return;
+      const order = tipOrder;
+      setTipOrder(null);
+      const approvedBy = await requestAuthoriser('order:tip_adjust');
+      if (!approvedBy) return;
+
+      setIsAdjustingTip(true);
+      try {
+        await tipService.adjustTip({
+          orderId: order.id,
+          tipAmount,
+          userId: user?.id ?? null,
+          userName: user?.username ?? null,
+          approvedBy,
+        });
+        Alert.alert('Tip Adjusted', `Tip on order #${order.id.slice(-8)} is now ${formatMoney(tipAmount, currency.code)}.`);
+        onRefresh();
+      } catch (err) {
+        Alert.alert('Error', err instanceof Error ? err.message : 'Failed to adjust tip');
+      } finally {
+        setIsAdjustingTip(false);
+      }
+    },
+    [tipOrder, requestAuthoriser, user, currency.code, onRefresh]
+  );
+
+  const handleShowZReports = useCallback(async () => {
+    await loadZReports();
+    setShowZReports(true);
+  }, [loadZReports]);
+
+  const handleEndOfDay = useCallback(async () => {
+    try {
+      setEndOfDayReport(await getEndOfDayReport());
+    } catch (err) {
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to build end-of-day report');
+    }
+  }, [getEndOfDayReport]);
+
+  const handlePrintEndOfDay = useCallback(async () => {
+    if (!endOfDayReport) return;
+    const printerService = PrinterServiceFactory.getInstance();
+    if (!printerService.isConnectedToPrinter()) {
+      Alert.alert('No Printer', 'No printer connected. Please connect a printer in Settings → Printer.');
+      return;
+    }
+    try {
+      const success = await printerService.printLines(getEndOfDayLines(endOfDayReport));
+      if (!success) Alert.alert('Print Failed', 'Could not print the report.');
+    } catch (err) {
+      logger.error({ message: 'Failed to print end-of-day report' }, err instanceof Error ? err : new Error(String(err)));
+      Alert.alert('Print Error', err instanceof Error ? err.message : 'Failed to print report.');
     }
-  }, [generateReport, orders]);
+  }, [endOfDayReport, getEndOfDayLines, logger]);
+
+  const handleSelectZReport = useCallback((report: ShiftReport) => {
+    setShowZReports(false);
+    setCurrentReport(report);
+    setShowReportModal(true);
+  }, []);
 
   const handlePrintReport = useCallback(async () => {
     if (!currentReport) return;
@@ -170,26 +374,13 @@ const OrderHistoryScreen: React.FC<OrderHistoryScreenProps> = () => {
       return;
     }
     try {
-      const lines = getReportLines(currentReport);
-      // Build a minimal ReceiptData from the report lines as plain text
-      const receiptData = {
-        orderId: `REPORT-${currentReport.date.toISOString().slice(0, 10)}`,
-        items: lines.map(line => ({ name: line, quantity: 1, price: 0 })),
-        subtotal: currentReport.summary.netSales,
-        tax: currentReport.summary.totalTax,
-        total: currentReport.summary.totalSales,
-        paymentMethod: 'Report',
-        date: currentReport.date,
-        cashierName: currentReport.shift.cashierName,
-        currencySymbol: currency.symbol,
-      };
-      const success = await printerService.printReceipt(receiptData);
+      const success = await printerService.printLines(getShiftReportLines(currentReport, { blind }));
       if (!success) Alert.alert('Print Failed', 'Could not print the report.');
     } catch (err) {
       logger.error({ message: 'Failed to print report' }, err instanceof Error ? err : new Error(String(err)));
       Alert.alert('Print Error', err instanceof Error ? err.message : 'Failed to print report.');
     }
-  }, [currentReport, getReportLines, currency.symbol, logger]);
+  }, [currentReport, getShiftReportLines, blind, logger]);
 
   // ============ Render ============
 
@@ -201,6 +392,7 @@ const OrderHistoryScreen: React.FC<OrderHistoryScreenProps> = () => {
         onResync={handleResyncOrder}
         onPrintReceipt={handlePrintReceipt}
         onExchange={handleExchange}
+        onAdjustTip={isAdjustingTip ? undefined : setTipOrder}
       />
       {isAdmin && (
         <TouchableOpacity style={styles.deleteOrderButton} onPress={() => handleDeleteOrder(order.id)}>
@@ -238,10 +430,10 @@ const OrderHistoryScreen: React.FC<OrderHistoryScreenProps> = () => {
               {unsyncedOrdersCount > 0 ? `\u2022 ${unsyncedOrdersCount} pending sync` : ''}
             </Text>
           </View>
-          {currentShift && (
+          {drawerOpen && (
             <View style={styles.shiftBadge}>
               <MaterialIcons name="access-time" size={14} color={lightColors.success} />
-              <Text style={styles.shiftBadgeText}>Shift Open</Text>
+              <Text style={styles.shiftBadgeText}>{currentShift ? 'Shift Open' : 'Drawer Open'}</Text>
             </View>
           )}
         </View>
@@ -267,19 +459,48 @@ const OrderHistoryScreen: React.FC<OrderHistoryScreenProps> = () => {
           {!currentShift ? (
             <TouchableOpacity style={styles.shiftButton} onPress={handleOpenShift}>
               <MaterialIcons name="play-arrow" size={18} color={lightColors.surface} />
-              <Text style={styles.shiftButtonText}>Open Shift</Text>
+              <Text style={styles.shiftButtonText}>{drawerOpen ? 'Join Shift' : 'Open Shift'}</Text>
             </TouchableOpacity>
           ) : (
-            <TouchableOpacity style={[styles.shiftButton, styles.closeShiftButton]} onPress={handleCloseShift}>
-              <MaterialIcons name="stop" size={18} color={lightColors.surface} />
-              <Text style={styles.shiftButtonText}>Close Shift</Text>
+            <>
+              <TouchableOpacity style={styles.reportButton} onPress={handleHandOver}>
+                <MaterialIcons name="swap-horiz" size={18} color={lightColors.primary} />
+                <Text style={styles.reportButtonText}>Hand Over</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.shiftButton, styles.closeShiftButton]} onPress={handleCloseShift}>
+                <MaterialIcons name="stop" size={18} color={lightColors.surface} />
+                <Text style={styles.shiftButtonText}>Close Shift</Text>
+              </TouchableOpacity>
+            </>
+          )}
+
+          {drawerOpen && (
+            <TouchableOpacity style={styles.reportButton} onPress={() => setShowCashMovement(true)} disabled={isRecordingMovement}>
+              <MaterialIcons name="payments" size={18} color={lightColors.primary} />
+              <Text style={styles.reportButtonText}>Cash</Text>
             </TouchableOpacity>
           )}
 
-          <TouchableOpacity style={styles.reportButton} onPress={handleGenerateReport}>
-            <MaterialIcons name="assessment" size={18} color={lightColors.primary} />
-            <Text style={styles.reportButtonText}>View Report</Text>
-          </TouchableOpacity>
+          {drawerOpen && (
+            <TouchableOpacity style={styles.reportButton} onPress={handleXReport}>
+              <MaterialIcons name="assessment" size={18} color={lightColors.primary} />
+              <Text style={styles.reportButtonText}>X Report</Text>
+            </TouchableOpacity>
+          )}
+
+          {!isCashier && (
+            <TouchableOpacity style={styles.reportButton} onPress={handleShowZReports}>
+              <MaterialIcons name="history" size={18} color={lightColors.primary} />
+              <Text style={styles.reportButtonText}>Z Reports</Text>
+            </TouchableOpacity>
+          )}
+
+          {!isCashier && (
+            <TouchableOpacity style={styles.reportButton} onPress={handleEndOfDay}>
+              <MaterialIcons name="store" size={18} color={lightColors.primary} />
+              <Text style={styles.reportButtonText}>End of Day</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </View>
 
@@ -307,13 +528,49 @@ const OrderHistoryScreen: React.FC<OrderHistoryScreenProps> = () => {
         visible={showShiftModal}
         mode={shiftModalMode}
         cashAmount={cashAmount}
+        currencyCode={currency.code}
+        denominations={denominations}
+        denominationCounts={denominationCounts}
+        countedTotal={countedTotal}
+        expectedCash={blind ? null : expectedCash}
         isProcessing={isProcessingShift}
         onCashAmountChange={setCashAmount}
+        onDenominationChange={handleDenominationChange}
         onSubmit={handleShiftSubmit}
         onClose={() => setShowShiftModal(false)}
       />
 
-      <ReportModal visible={showReportModal} report={currentReport} onPrint={handlePrintReport} onClose={() => setShowReportModal(false)} />
+      <ReportModal
+        visible={showReportModal}
+        report={currentReport}
+        blind={blind}
+        onPrint={handlePrintReport}
+        onClose={() => setShowReportModal(false)}
+      />
+
+      <CashMovementModal
+        visible={showCashMovement}
+        isProcessing={isRecordingMovement}
+        onSubmit={handleCashMovement}
+        onClose={() => setShowCashMovement(false)}
+      />
+
+      <ZReportListModal visible={showZReports} reports={zReports} onSelect={handleSelectZReport} onClose={() => setShowZReports(false)} />
+
+      <EndOfDayModal
+        visible={endOfDayReport !== null}
+        report={endOfDayReport}
+        onPrint={handlePrintEndOfDay}
+        onClose={() => setEndOfDayReport(null)}
+      />
+
+      <TipAdjustModal
+        visible={tipOrder !== null}
+        order={tipOrder}
+        isProcessing={isAdjustingTip}
+        onSubmit={handleAdjustTip}
+        onClose={() => setTipOrder(null)}
+      />
 
       <ReceiptModal
         visible={showReceiptModal}
@@ -393,6 +650,7 @@ const styles = StyleSheet.create({
   // Actions
   actionBar: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: spacing.sm,
   },
   shiftButton: {
@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, FlatList, ActivityIndicator, TouchableOpacity, ScrollView } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { lightColors, spacing, typography, borderRadius, elevation } from '../utils/theme';
-import { formatMoney } from '../utils/money';
+import { formatMoney, multiplyMoney } from '../utils/money';
 import { useRefund } from '../hooks/useRefund';
 import { RefundRecord } from '../services/refunds/RefundService';
 import { Button } from '../components/Button';
@@ -10,6 +10,7 @@ import Input from '../components/Input';
 import { useCurrency } from '../hooks/useCurrency';
 import { useLogger } from '../hooks/useLogger';
 import { useManagerApproval } from '../hooks/useManagerApproval';
+import { formatQuantity, isMeasured, SELLING_UNITS, SellingUnit } from '../services/product/unitOfMeasure';
 
 interface ReturnsScreenProps {
   onGoBack?: () => void;
@@ -21,6 +22,7 @@ interface ReturnItemInput {
   variantId?: string;
   productName: string;
   quantity: number;
+  unit?: SellingUnit;
   refundAmount: number;
   reason?: string;
   restock?: boolean;
@@ -58,9 +60,11 @@ const RefundScreen: React.FC<ReturnsScreenProps> = ({ onGoBack }) => {
       variantId: string | null;
       name: string;
       price: number;
+      netPrice: number;
       originalQuantity: number;
       returnedQuantity: number;
       returnableQuantity: number;
+      unit?: SellingUnit;
     }>
   >([]);
   const [loadingReturnableItems, setLoadingReturnableItems] = useState(false);
@@ -214,9 +218,12 @@ const RefundScreen: React.FC<ReturnsScreenProps> = ({ onGoBack }) => {
     productId: string;
     variantId: string | null;
     name: string;
-    price: number;
+    netPrice: number;
     returnableQuantity: number;
+    unit?: SellingUnit;
   }) => {
+    // Weighed lines cannot be split by a stepper, so the remaining measure goes back as one
+    const measured = isMeasured(item.unit);
     setReturnItems([
       ...returnItems,
       {
@@ -224,8 +231,9 @@ const RefundScreen: React.FC<ReturnsScreenProps> = ({ onGoBack }) => {
         productId: item.productId,
         variantId: item.variantId || undefined,
         productName: item.name,
-        quantity: 1,
-        refundAmount: item.price,
+        quantity: measured ? item.returnableQuantity : 1,
+        unit: item.unit,
+        refundAmount: measured ? multiplyMoney(item.netPrice, item.returnableQuantity) : item.netPrice,
         reason: reason || undefined,
         restock: true,
       },
@@ -392,7 +400,10 @@ const RefundScreen: React.FC<ReturnsScreenProps> = ({ onGoBack }) => {
                       <View style={styles.returnableItemInfo}>
                         <Text style={styles.returnableItemName}>{item.name}</Text>
                         <Text style={styles.returnableItemMeta}>
-                          {item.returnableQuantity} available · {formatMoney(item.price, currency.code)} each
+                          {isMeasured(item.unit)
+                            ? `${formatQuantity(item.returnableQuantity, item.unit)} available · ${formatMoney(item.netPrice, currency.code)}/${SELLING_UNITS[item.unit].label}`
+                            : `${item.returnableQuantity} available · ${formatMoney(item.netPrice, currency.code)} each`}
+                          {item.netPrice < item.price ? ` (was ${formatMoney(item.price, currency.code)})` : ''}
                         </Text>
                       </View>
                       <Button
@@ -421,26 +432,30 @@ const RefundScreen: React.FC<ReturnsScreenProps> = ({ onGoBack }) => {
                         </TouchableOpacity>
                       </View>
                       <View style={styles.returnItemControls}>
-                        <View style={styles.quantityControl}>
-                          <TouchableOpacity
-                            onPress={() => updateReturnItemQuantity(index, item.quantity - 1)}
-                            disabled={item.quantity <= 1}
-                            style={styles.quantityButton}
-                          >
-                            <MaterialIcons
-                              name="remove"
-                              size={20}
-                              color={item.quantity <= 1 ? lightColors.textSecondary : lightColors.primary}
-                            />
-                          </TouchableOpacity>
-                          <Text style={styles.quantityText}>{item.quantity}</Text>
-                          <TouchableOpacity
-                            onPress={() => updateReturnItemQuantity(index, item.quantity + 1)}
-                            style={styles.quantityButton}
-                          >
-                            <MaterialIcons name="add" size={20} color={lightColors.primary} />
-                          </TouchableOpacity>
-                        </View>
+                        {isMeasured(item.unit) ? (
+                          <Text style={styles.quantityText}>{formatQuantity(item.quantity, item.unit)}</Text>
+                        ) : (
+                          <View style={styles.quantityControl}>
+                            <TouchableOpacity
+                              onPress={() => updateReturnItemQuantity(index, item.quantity - 1)}
+                              disabled={item.quantity <= 1}
+                              style={styles.quantityButton}
+                            >
+                              <MaterialIcons
+                                name="remove"
+                                size={20}
+                                color={item.quantity <= 1 ? lightColors.textSecondary : lightColors.primary}
+                              />
+                            </TouchableOpacity>
+                            <Text style={styles.quantityText}>{item.quantity}</Text>
+                            <TouchableOpacity
+                              onPress={() => updateReturnItemQuantity(index, item.quantity + 1)}
+                              style={styles.quantityButton}
+                            >
+                              <MaterialIcons name="add" size={20} color={lightColors.primary} />
+                            </TouchableOpacity>
+                          </View>
+                        )}
                         <Text style={styles.returnItemAmount}>{formatMoney(item.refundAmount, currency.code)}</Text>
                       </View>
                     </View>
@@ -5,8 +5,37 @@ import { lightColors, spacing, typography, borderRadius, elevation } from '../ut
 import { formatMoney } from '../utils/money';
 import { useReporting } from '../hooks/useReporting';
 import { useCurrency } from '../hooks/useCurrency';
+import type { Delta, KeyedComparison } from '../services/reporting/ReportingService';
 
 type DateRange = 'today' | 'yesterday' | 'week' | 'month';
+type RankBy = 'revenue' | 'units';
+type CompareMode = 'none' | 'previous_period' | 'last_year';
+
+const COMPARE_LABELS: Record<CompareMode, string> = {
+  none: 'Off',
+  previous_period: 'Previous',
+  last_year: 'Last Year',
+};
+
+/** Products and categories listed as the biggest movers */
+const MOVER_ROWS = 5;
+
+/** SKU rows shown in the margin and sell-through section */
+const SKU_ROWS = 20;
+
+const skuLabel = (item: { name: string; variantName: string | null }): string =>
+  item.variantName ? `${item.name} — ${item.variantName}` : item.name;
+
+const percent = (value: number | null): string => (value === null ? '—' : `${value}%`);
+
+const formatChange = (delta: Delta): string => {
+  if (delta.changePercent === null) return delta.current > 0 ? 'new' : '—';
+  return `${delta.changePercent > 0 ? '+' : ''}${delta.changePercent}%`;
+};
+
+/** Largest absolute revenue change first */
+const biggestMovers = (items: KeyedComparison[]): KeyedComparison[] =>
+  [...items].sort((a, b) => Math.abs(b.total.change) - Math.abs(a.total.change)).slice(0, MOVER_ROWS);
 
 const getDateRange = (range: DateRange): { from: number; to: number } => {
   const now = new Date();
@@ -25,6 +54,12 @@ const getDateRange = (range: DateRange): { from: number; to: number } => {
   }
 };
 
+const DeltaText: React.FC<{ delta: Delta; compact?: boolean }> = ({ delta, compact }) => (
+  <Text style={[compact ? styles.deltaCompact : styles.delta, delta.change > 0 && styles.deltaUp, delta.change < 0 && styles.deltaDown]}>
+    {formatChange(delta)}
+  </Text>
+);
+
 const ReportingScreen: React.FC = () => {
   const currency = useCurrency();
   const {
@@ -33,23 +68,41 @@ const ReportingScreen: React.FC = () => {
     salesByDay,
     cashierPerformance,
     paymentBreakdown,
+    tips,
+    productAnalytics,
+    comparison,
+    forecast,
     isLoading,
     error,
     loadReport,
     loadHourlyReport,
+    loadComparison,
+    clearComparison,
+    loadForecast,
     exportCsv,
   } = useReporting();
 
   const [selectedRange, setSelectedRange] = useState<DateRange>('today');
+  const [rankBy, setRankBy] = useState<RankBy>('revenue');
+  const [compareMode, setCompareMode] = useState<CompareMode>('none');
 
   const loadData = useCallback(() => {
     const { from, to } = getDateRange(selectedRange);
-    if (selectedRange === 'today' || selectedRange === 'yesterday') {
+    const hourly = selectedRange === 'today' || selectedRange === 'yesterday';
+    if (hourly) {
       loadHourlyReport(from, to);
     } else {
       loadReport(from, to);
     }
-  }, [selectedRange, loadReport, loadHourlyReport]);
+    if (compareMode === 'none') {
+      clearComparison();
+    } else {
+      loadComparison(from, to, { mode: compareMode }, hourly ? 'hour' : 'day');
+    }
+    if (selectedRange === 'today') {
+      loadForecast();
+    }
+  }, [selectedRange, compareMode, loadReport, loadHourlyReport, loadComparison, clearComparison, loadForecast]);
 
   useEffect(() => {
     loadData();
@@ -97,6 +150,20 @@ const ReportingScreen: React.FC = () => {
         </TouchableOpacity>
       </View>
 
+      {/* Comparison baseline */}
+      <View style={styles.compareRow}>
+        <Text style={styles.compareLabel}>Compare</Text>
+        {(Object.keys(COMPARE_LABELS) as CompareMode[]).map(mode => (
+          <TouchableOpacity
+            key={mode}
+            style={[styles.toggleButton, compareMode === mode && styles.toggleButtonActive]}
+            onPress={() => setCompareMode(mode)}
+          >
+            <Text style={[styles.toggleText, compareMode === mode && styles.toggleTextActive]}>{COMPARE_LABELS[mode]}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
       {error && (
         <View style={styles.errorBox}>
           <Text style={styles.errorText}>{error}</Text>
@@ -109,18 +176,22 @@ const ReportingScreen: React.FC = () => {
           <View style={styles.summaryCard}>
             <Text style={styles.summaryLabel}>Total Sales</Text>
             <Text style={styles.summaryValue}>{formatMoney(summary.totalSales, currency.code)}</Text>
+            {comparison && <DeltaText delta={comparison.summary.totalSales} />}
           </View>
           <View style={styles.summaryCard}>
             <Text style={styles.summaryLabel}>Orders</Text>
             <Text style={styles.summaryValue}>{summary.totalOrders}</Text>
+            {comparison && <DeltaText delta={comparison.summary.totalOrders} />}
           </View>
           <View style={styles.summaryCard}>
             <Text style={styles.summaryLabel}>Avg Order</Text>
             <Text style={styles.summaryValue}>{formatMoney(summary.averageOrderValue, currency.code)}</Text>
+            {comparison && <DeltaText delta={comparison.summary.averageOrderValue} />}
           </View>
           <View style={styles.summaryCard}>
             <Text style={styles.summaryLabel}>Tax</Text>
             <Text style={styles.summaryValue}>{formatMoney(summary.totalTax, currency.code)}</Text>
+            {comparison && <DeltaText delta={comparison.summary.totalTax} />}
           </View>
         </View>
       )}
@@ -160,6 +231,32 @@ const ReportingScreen: React.FC = () => {
         </View>
       )}
 
+      {/* Tips — not part of sales */}
+      {tips && tips.count > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Tips</Text>
+          {tips.byTender.map(t => (
+            <View key={t.method} style={styles.breakdownRow}>
+              <Text style={styles.breakdownMethod}>{t.method}</Text>
+              <Text style={styles.breakdownCount}>{t.count} orders</Text>
+              <Text style={styles.breakdownTotal}>{formatMoney(t.total, currency.code)}</Text>
+            </View>
+          ))}
+          {tips.byStaff.map(s => (
+            <View key={s.staffId} style={styles.breakdownRow}>
+              <Text style={styles.breakdownMethod}>{s.staffName}</Text>
+              <Text style={styles.breakdownCount}>{s.count} orders</Text>
+              <Text style={styles.breakdownTotal}>{formatMoney(s.total, currency.code)}</Text>
+            </View>
+          ))}
+          <View style={styles.breakdownRow}>
+            <Text style={styles.breakdownMethod}>Total</Text>
+            <Text style={styles.breakdownCount}>{tips.count} orders</Text>
+            <Text style={styles.breakdownTotal}>{formatMoney(tips.total, currency.code)}</Text>
+          </View>
+        </View>
+      )}
+
       {/* Cashier performance */}
       {cashierPerformance.length > 0 && (
         <View style={styles.section}>
@@ -178,6 +275,191 @@ const ReportingScreen: React.FC = () => {
           ))}
         </View>
       )}
+
+      {/* Forecast and staffing (today only) */}
+      {selectedRange === 'today' && forecast && forecast.today.basedOnDays > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Forecast</Text>
+          <View style={styles.breakdownRow}>
+            <Text style={styles.productName}>Projected today</Text>
+            <Text style={styles.breakdownCount}>~{Math.round(forecast.today.projectedOrders)} orders</Text>
+            <Text style={styles.breakdownTotal}>{formatMoney(forecast.today.projectedSales, currency.code)}</Text>
+          </View>
+          <View style={styles.breakdownRow}>
+            <Text style={styles.productName}>Still to come today</Text>
+            <Text style={styles.breakdownCount}>~{Math.round(forecast.today.remainingOrders)} orders</Text>
+            <Text style={styles.breakdownTotal}>{formatMoney(forecast.today.remainingSales, currency.code)}</Text>
+          </View>
+          <View style={styles.breakdownRow}>
+            <Text style={styles.productName}>Projected this week</Text>
+            <Text style={styles.breakdownCount}>~{Math.round(forecast.week.projectedOrders)} orders</Text>
+            <Text style={styles.breakdownTotal}>{formatMoney(forecast.week.projectedSales, currency.code)}</Text>
+          </View>
+          <Text style={styles.footnote}>
+            From the last {forecast.today.basedOnDays} same weekdays, running at {Math.round(forecast.today.paceFactor * 100)}% of the usual
+            pace
+          </Text>
+
+          <Text style={[styles.sectionTitle, styles.subsectionTitle]}>Suggested Staffing</Text>
+          {forecast.staffing
+            .filter(h => h.staff > 0 && !forecast.today.hours[h.hour].isComplete)
+            .map(h => (
+              <View key={h.hour} style={styles.breakdownRow}>
+                <Text style={styles.rankNumber}>{h.label}</Text>
+                <Text style={styles.productName}>~{Math.round(h.forecastOrders)} orders</Text>
+                <Text style={styles.breakdownTotal}>
+                  {h.staff} {h.staff === 1 ? 'person' : 'people'}
+                </Text>
+              </View>
+            ))}
+        </View>
+      )}
+
+      {/* Biggest movers against the baseline */}
+      {comparison && (comparison.products.length > 0 || comparison.categories.length > 0) && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>
+            Biggest Changes vs {COMPARE_LABELS[comparison.baseline.mode as CompareMode] ?? 'Baseline'}
+          </Text>
+          {[
+            { title: 'Products', items: biggestMovers(comparison.products) },
+            { title: 'Categories', items: biggestMovers(comparison.categories) },
+          ]
+            .filter(group => group.items.length > 0)
+            .map(group => (
+              <View key={group.title}>
+                <Text style={styles.groupTitle}>{group.title}</Text>
+                {group.items.map(item => (
+                  <View key={item.key} style={styles.breakdownRow}>
+                    <Text style={styles.productName} numberOfLines={1}>
+                      {item.label}
+                    </Text>
+                    <Text style={styles.breakdownCount}>{formatMoney(item.total.baseline, currency.code)} →</Text>
+                    <Text style={styles.breakdownTotal}>{formatMoney(item.total.current, currency.code)}</Text>
+                    <DeltaText delta={item.total} compact />
+                  </View>
+                ))}
+              </View>
+            ))}
+        </View>
+      )}
+
+      {/* Top and slowest sellers */}
+      {productAnalytics && productAnalytics.topByRevenue.length > 0 && (
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Top Sellers</Text>
+            <View style={styles.toggleRow}>
+              {(['revenue', 'units'] as RankBy[]).map(by => (
+                <TouchableOpacity
+                  key={by}
+                  style={[styles.toggleButton, rankBy === by && styles.toggleButtonActive]}
+                  onPress={() => setRankBy(by)}
+                >
+                  <Text style={[styles.toggleText, rankBy === by && styles.toggleTextActive]}>
+                    {by === 'revenue' ? 'Revenue' : 'Units'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+          {(rankBy === 'revenue' ? productAnalytics.topByRevenue : productAnalytics.topByUnits).map((p, i) => (
+            <View key={p.productId} style={styles.breakdownRow}>
+              <Text style={styles.rankNumber}>{i + 1}</Text>
+              <Text style={styles.productName} numberOfLines={1}>
+                {p.name}
+              </Text>
+              <Text style={styles.breakdownCount}>{p.quantitySold} sold</Text>
+              <Text style={styles.breakdownTotal}>{formatMoney(p.totalRevenue, currency.code)}</Text>
+            </View>
+          ))}
+
+          <Text style={[styles.sectionTitle, styles.subsectionTitle]}>Slowest Sellers</Text>
+          {productAnalytics.bottomByUnits.map(p => (
+            <View key={p.productId} style={styles.breakdownRow}>
+              <Text style={styles.productName} numberOfLines={1}>
+                {p.name}
+              </Text>
+              <Text style={styles.breakdownCount}>{p.quantitySold} sold</Text>
+              <Text style={styles.breakdownTotal}>{formatMoney(p.totalRevenue, currency.code)}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Categories */}
+      {productAnalytics && productAnalytics.categories.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Categories</Text>
+          {productAnalytics.categories.map(c => (
+            <View key={c.category} style={styles.breakdownRow}>
+              <Text style={styles.productName} numberOfLines={1}>
+                {c.category}
+              </Text>
+              <Text style={styles.breakdownCount}>{c.netUnits} units</Text>
+              <Text style={styles.breakdownTotal}>{formatMoney(c.netRevenue, currency.code)}</Text>
+              <Text style={styles.breakdownPercent}>{c.revenueShare}%</Text>
+              <Text style={styles.marginPercent}>{percent(c.marginPercent)}</Text>
+            </View>
+          ))}
+          <Text style={styles.footnote}>Share of revenue, then gross margin where cost prices are known</Text>
+        </View>
+      )}
+
+      {/* Margin and sell-through per SKU */}
+      {productAnalytics && productAnalytics.skus.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Margin & Sell-Through</Text>
+          {productAnalytics.skus.slice(0, SKU_ROWS).map(sku => (
+            <View key={`${sku.productId}:${sku.variantId ?? ''}`} style={styles.cashierRow}>
+              <View style={styles.cashierInfo}>
+                <Text style={styles.cashierName} numberOfLines={1}>
+                  {skuLabel(sku)}
+                </Text>
+                <Text style={styles.cashierOrders}>
+                  {sku.netUnits} sold
+                  {sku.unitsReturned > 0 ? ` (${sku.unitsReturned} returned)` : ''}
+                  {sku.onHand !== null ? ` · ${sku.onHand} on hand` : ''}
+                  {sku.sellThroughRate !== null ? ` · ${sku.sellThroughRate}% sell-through` : ''}
+                  {sku.daysOfCover !== null ? ` · ${sku.daysOfCover} days cover` : ''}
+                </Text>
+              </View>
+              <View style={styles.cashierStats}>
+                <Text style={styles.cashierTotal}>{formatMoney(sku.netRevenue, currency.code)}</Text>
+                <Text style={styles.cashierAvg}>
+                  {sku.grossMargin !== null
+                    ? `margin ${formatMoney(sku.grossMargin, currency.code)} (${percent(sku.marginPercent)})`
+                    : 'no cost price'}
+                </Text>
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Dead stock */}
+      {productAnalytics && productAnalytics.deadStock.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Dead Stock</Text>
+          {productAnalytics.deadStock.map(item => (
+            <View key={`${item.productId}:${item.variantId ?? ''}`} style={styles.cashierRow}>
+              <View style={styles.cashierInfo}>
+                <Text style={styles.cashierName} numberOfLines={1}>
+                  {skuLabel(item)}
+                </Text>
+                <Text style={styles.cashierOrders}>
+                  {item.daysSinceLastSale !== null ? `Last sold ${item.daysSinceLastSale} days ago` : 'Never sold'}
+                  {item.sku ? ` · ${item.sku}` : ''}
+                </Text>
+              </View>
+              <View style={styles.cashierStats}>
+                <Text style={styles.cashierTotal}>{item.onHand} on hand</Text>
+                {item.stockValue !== null && <Text style={styles.cashierAvg}>{formatMoney(item.stockValue, currency.code)} at cost</Text>}
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
     </ScrollView>
   );
 };
@@ -234,6 +516,40 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginLeft: 4,
   },
+  compareRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+    gap: spacing.xs,
+  },
+  compareLabel: {
+    fontSize: typography.fontSize.sm,
+    color: lightColors.textSecondary,
+    marginRight: spacing.xs,
+  },
+  delta: {
+    fontSize: typography.fontSize.xs,
+    color: lightColors.textSecondary,
+    marginTop: 2,
+  },
+  deltaCompact: {
+    fontSize: typography.fontSize.xs,
+    color: lightColors.textSecondary,
+    width: 48,
+    textAlign: 'right',
+  },
+  deltaUp: {
+    color: lightColors.success,
+  },
+  deltaDown: {
+    color: lightColors.error,
+  },
+  groupTitle: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: '600',
+    color: lightColors.textSecondary,
+    marginTop: spacing.sm,
+  },
   errorBox: {
     backgroundColor: lightColors.error + '10',
     padding: spacing.md,
@@ -281,6 +597,36 @@ const styles = StyleSheet.create({
     color: lightColors.textPrimary,
     marginBottom: spacing.md,
   },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  subsectionTitle: {
+    marginTop: spacing.lg,
+    marginBottom: spacing.xs,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+  },
+  toggleButton: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: borderRadius.sm,
+    backgroundColor: lightColors.background,
+  },
+  toggleButtonActive: {
+    backgroundColor: lightColors.primary,
+  },
+  toggleText: {
+    fontSize: typography.fontSize.xs,
+    fontWeight: '600',
+    color: lightColors.textSecondary,
+  },
+  toggleTextActive: {
+    color: lightColors.textOnPrimary,
+  },
   chartContainer: {
     gap: spacing.xs,
   },
@@ -344,6 +690,29 @@ const styles = StyleSheet.create({
     width: 40,
     textAlign: 'right',
   },
+  rankNumber: {
+    width: 24,
+    fontSize: typography.fontSize.sm,
+    color: lightColors.textSecondary,
+  },
+  productName: {
+    flex: 1,
+    fontSize: typography.fontSize.sm,
+    fontWeight: '600',
+    color: lightColors.textPrimary,
+    marginRight: spacing.sm,
+  },
+  marginPercent: {
+    fontSize: typography.fontSize.sm,
+    color: lightColors.success,
+    width: 48,
+    textAlign: 'right',
+  },
+  footnote: {
+    fontSize: typography.fontSize.xs,
+    color: lightColors.textSecondary,
+    marginTop: spacing.sm,
+  },
   cashierRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
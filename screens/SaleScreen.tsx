@@ -11,6 +11,8 @@ import { BasketContent } from './sale/BasketContent';
 import { SearchBar } from '../components/SearchBar';
 import { SalesStatusHeader } from '../components/SalesStatusHeader';
 import { InterruptionBanner } from '../components/InterruptionBanner';
+import { CustomerPromptBanner } from '../components/CustomerPromptBanner';
+import WeighItemModal from '../components/WeighItemModal';
 import { useSaleScreen } from '../hooks/useSaleScreen';
 import { useInterruptionRecovery } from '../hooks/useInterruptionRecovery';
 import { useAuthContext } from '../contexts/AuthProvider';
@@ -38,6 +40,10 @@ const SaleScreen: React.FC<SaleScreenProps> = ({ username = 'User' }) => {
     itemCount,
     total,
     handleAddToCart,
+    pendingWeighing,
+    startWeighing,
+    handleAddWeighed,
+    cancelWeighing,
     isTabletOrDesktop,
     numColumns,
     sidebarWidths,
@@ -152,11 +158,24 @@ const SaleScreen: React.FC<SaleScreenProps> = ({ username = 'User' }) => {
         <ProductGrid
           products={filteredProducts}
           onAddToCart={handleAddToCart}
+          onWeigh={startWeighing}
           basketItems={basketItemsMap}
           numColumns={numColumns}
           onLoadMore={loadMore}
         />
       )}
+
+      {pendingWeighing && (
+        <WeighItemModal
+          visible={true}
+          productName={pendingWeighing.product.name}
+          unitPrice={pendingWeighing.product.price}
+          unit={pendingWeighing.unit}
+          defaultTareKg={pendingWeighing.tareKg}
+          onConfirm={handleAddWeighed}
+          onClose={cancelWeighing}
+        />
+      )}
     </View>
   );
 
@@ -183,6 +202,7 @@ const SaleScreen: React.FC<SaleScreenProps> = ({ username = 'User' }) => {
             onDismiss={dismissBanner}
           />
         )}
+        <CustomerPromptBanner style={styles.promptBanner} />
         <View style={styles.desktopLayout}>
           <View style={[styles.sidebar, styles.categorySidebar, { width: sidebarWidths.category }]}>
             <Text style={styles.sidebarTitle}>Categories</Text>
@@ -227,6 +247,7 @@ const SaleScreen: React.FC<SaleScreenProps> = ({ username = 'User' }) => {
           onDismiss={dismissBanner}
         />
       )}
+      <CustomerPromptBanner style={styles.promptBanner} />
       <View style={styles.content}>{renderProductArea()}</View>
       <Category />
       <Basket platform={currentPlatform} />
@@ -237,6 +258,7 @@ const SaleScreen: React.FC<SaleScreenProps> = ({ username = 'User' }) => {
 const styles = StyleSheet.create({
   container: { flex: 1, backgroundColor: lightColors.background },
   desktopLayout: { flex: 1, flexDirection: 'row' },
+  promptBanner: { marginHorizontal: spacing.md, marginTop: spacing.md },
   sidebar: { backgroundColor: lightColors.surface, borderColor: lightColors.border },
   categorySidebar: { borderRightWidth: 1 },
   basketSidebar: { borderLeftWidth: 1 },
@@ -128,7 +128,7 @@ const SearchScreen: React.FC<SearchScreenProps> = ({ onGoBack, onSelectProduct }
         onToggleFilters={() => setShowFilters(!showFilters)}
       />
 
-      {showFilters && <FilterPanel filterOptions={filterOptions} onFilterChange={handleFilterChange} />}
+      {showFilters && <FilterPanel filterOptions={filterOptions} onFilterChange={handleFilterChange} facets={searchResults?.facets} />}
       {renderContent()}
     </View>
   );
@@ -1,14 +1,138 @@
 import React, { useCallback } from 'react';
-import { View, Text, FlatList, TouchableOpacity, StyleSheet, Alert, ActivityIndicator, RefreshControl } from 'react-native';
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, Alert, ActivityIndicator, RefreshControl, Switch } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { lightColors, spacing, typography, borderRadius, elevation } from '../utils/theme';
 import { formatMoney } from '../utils/money';
 import { useSyncQueue, SyncQueueOrder } from '../hooks/useSyncQueue';
 import { useCurrency } from '../hooks/useCurrency';
+import { useScheduledJobs, ScheduledJobSummary } from '../hooks/useScheduledJobs';
+import { useSyncConflicts, SyncConflictItem } from '../hooks/useSyncConflicts';
+import { useManagerApproval } from '../hooks/useManagerApproval';
+import { SCHEDULED_SYNC_JOB_TYPE } from '../services/sync/SyncServiceInterface';
+import { CONFLICT_ENTITY_TYPES, ConflictPolicy, ConflictWinner } from '../services/sync/conflictDetection';
+import { getPlatformDisplayName } from '../utils/platforms';
+
+const POLICY_LABELS: Record<ConflictPolicy, string> = {
+  manual: 'Ask manager',
+  platform_wins: 'Platform wins',
+  pos_wins: 'POS wins',
+  newest_wins: 'Newest wins',
+};
+
+const ENTITY_LABELS: Record<string, string> = {
+  product: 'Products',
+  inventory: 'Stock',
+};
 
 const SyncQueueScreen: React.FC = () => {
   const currency = useCurrency();
-  const { orders, totalCount, failedCount, isLoading, isProcessing, retryOrder, retryAll, discardOrder, refresh } = useSyncQueue();
+  const {
+    orders,
+    totalCount,
+    failedCount,
+    duplicateCount,
+    isLoading,
+    isProcessing,
+    retryOrder,
+    retryAll,
+    discardOrder,
+    dismissDuplicates,
+    refresh,
+  } = useSyncQueue();
+  const { jobs, busyJobId, setEnabled, runNow, cancel, refresh: refreshJobs } = useScheduledJobs();
+  const { conflicts, policies, busyConflictId, resolve, setPolicy, refresh: refreshConflicts } = useSyncConflicts();
+  const { requestAuthoriser } = useManagerApproval();
+
+  const handleRefresh = useCallback(() => {
+    refresh();
+    refreshJobs();
+    refreshConflicts();
+  }, [refresh, refreshJobs, refreshConflicts]);
+
+  // Either choice overwrites an edit on one side, so a manager authorises it
+  const handleResolveConflict = useCallback(
+    (conflict: SyncConflictItem, winner: ConflictWinner) => {
+      const kept = winner === 'pos' ? 'POS' : getPlatformDisplayName(conflict.platform);
+      const lost = winner === 'pos' ? getPlatformDisplayName(conflict.platform) : 'POS';
+      Alert.alert(
+        'Resolve Conflict',
+        `Keep the ${kept} ${conflict.fieldLabel.toLowerCase()} for "${conflict.productName ?? conflict.productId}"? The ${lost} value will be overwritten.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: `Keep ${kept}`,
+            onPress: async () => {
+              const approvedBy = await requestAuthoriser('sync:resolve_conflict');
+              if (!approvedBy) return;
+              const success = await resolve(conflict.id, winner, approvedBy);
+              if (!success) {
+                Alert.alert('Error', 'Failed to resolve conflict. Check the platform connection and try again.');
+              }
+            },
+          },
+        ]
+      );
+    },
+    [requestAuthoriser, resolve]
+  );
+
+  const handleSetPolicy = useCallback(
+    async (entityType: (typeof CONFLICT_ENTITY_TYPES)[number], policy: ConflictPolicy) => {
+      const approvedBy = await requestAuthoriser('sync:resolve_conflict');
+      if (!approvedBy) return;
+      const success = await setPolicy(entityType, policy);
+      if (!success) {
+        Alert.alert('Error', 'Failed to save conflict policy.');
+      }
+    },
+    [requestAuthoriser, setPolicy]
+  );
+
+  const handleRunJob = useCallback(
+    (jobId: string) => {
+      runNow(jobId).then(run => {
+        if (!run) {
+          Alert.alert('Error', 'Failed to run scheduled job.');
+        } else if (run.status === 'failed') {
+          Alert.alert('Run Failed', run.error ?? `${run.result?.failed ?? 0} item(s) failed.`);
+        } else {
+          Alert.alert('Run Complete', `Processed: ${run.result?.successful ?? 0}`);
+        }
+      });
+    },
+    [runNow]
+  );
+
+  const handleToggleJob = useCallback(
+    (jobId: string, enabled: boolean) => {
+      setEnabled(jobId, enabled).then(success => {
+        if (!success) {
+          Alert.alert('Error', `Failed to ${enabled ? 'resume' : 'pause'} schedule.`);
+        }
+      });
+    },
+    [setEnabled]
+  );
+
+  const handleCancelJob = useCallback(
+    (job: ScheduledJobSummary) => {
+      Alert.alert('Remove Schedule', `Stop running "${job.name}" on a schedule?`, [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => {
+            cancel(job.id).then(success => {
+              if (!success) {
+                Alert.alert('Error', 'Failed to remove schedule.');
+              }
+            });
+          },
+        },
+      ]);
+    },
+    [cancel]
+  );
 
   const handleRetryOrder = useCallback(
     (orderId: string) => {
@@ -61,6 +185,29 @@ const SyncQueueScreen: React.FC = () => {
     [discardOrder]
   );
 
+  const handleDismissDuplicates = useCallback(
+    (order: SyncQueueOrder) => {
+      Alert.alert(
+        'Duplicates Resolved',
+        `Confirm the duplicate platform order(s) ${order.duplicatePlatformOrderIds.join(', ')} have been cancelled or refunded on the platform.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Resolved',
+            onPress: () => {
+              dismissDuplicates(order.id).then(success => {
+                if (!success) {
+                  Alert.alert('Error', 'Failed to update order.');
+                }
+              });
+            },
+          },
+        ]
+      );
+    },
+    [dismissDuplicates]
+  );
+
   const getSyncStatusColor = (status: string) => {
     switch (status) {
       case 'synced':
@@ -97,6 +244,8 @@ const SyncQueueScreen: React.FC = () => {
   const renderOrderItem = ({ item }: { item: SyncQueueOrder }) => {
     const statusColor = getSyncStatusColor(item.syncStatus);
     const isFailed = item.syncStatus === 'failed';
+    const isSynced = item.syncStatus === 'synced';
+    const hasDuplicates = item.duplicatePlatformOrderIds.length > 0;
 
     return (
       <View style={styles.orderCard}>
@@ -130,15 +279,39 @@ const SyncQueueScreen: React.FC = () => {
           </View>
         )}
 
+        {hasDuplicates && (
+          <View style={styles.duplicateBox}>
+            <MaterialIcons name="content-copy" size={14} color={lightColors.warning} />
+            <Text style={styles.duplicateText}>
+              Duplicate platform order{item.duplicatePlatformOrderIds.length !== 1 ? 's' : ''}{' '}
+              {item.duplicatePlatformOrderIds.map(id => `#${id}`).join(', ')}
+              {item.platformOrderId ? ` (kept #${item.platformOrderId})` : ''}. Cancel them on the platform.
+            </Text>
+          </View>
+        )}
+
         <View style={styles.actionRow}>
-          <TouchableOpacity
-            style={[styles.actionButton, styles.retryButton]}
-            onPress={() => handleRetryOrder(item.id)}
-            disabled={isProcessing}
-          >
-            <MaterialIcons name="refresh" size={16} color={lightColors.textOnPrimary} />
-            <Text style={styles.retryButtonText}>Retry</Text>
-          </TouchableOpacity>
+          {!isSynced && (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.retryButton]}
+              onPress={() => handleRetryOrder(item.id)}
+              disabled={isProcessing}
+            >
+              <MaterialIcons name="refresh" size={16} color={lightColors.textOnPrimary} />
+              <Text style={styles.retryButtonText}>Retry</Text>
+            </TouchableOpacity>
+          )}
+
+          {hasDuplicates && (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.retryButton]}
+              onPress={() => handleDismissDuplicates(item)}
+              disabled={isProcessing}
+            >
+              <MaterialIcons name="done" size={16} color={lightColors.textOnPrimary} />
+              <Text style={styles.retryButtonText}>Resolved</Text>
+            </TouchableOpacity>
+          )}
 
           {isFailed && (
             <TouchableOpacity
@@ -155,6 +328,180 @@ const SyncQueueScreen: React.FC = () => {
     );
   };
 
+  const getRunSummary = (job: ScheduledJobSummary) => {
+    const run = job.lastRun;
+    if (!run) return 'Never run';
+    if (run.status === 'skipped') return `Skipped missed run · ${formatTime(new Date(run.scheduledFor))}`;
+    const detail = run.error ?? (run.result ? `${run.result.successful} ok, ${run.result.failed} failed` : '');
+    return `${run.status === 'failed' ? 'Failed' : 'Completed'} ${formatTime(new Date(run.completedAt))}${detail ? ` · ${detail}` : ''}`;
+  };
+
+  const formatFieldValue = (conflict: SyncConflictItem, value: string | null) => {
+    if (value === null || value === '') return '(empty)';
+    return conflict.field === 'price' ? formatMoney(Number(value), currency.code) : value;
+  };
+
+  const renderConflicts = () => {
+    if (conflicts.length === 0) return null;
+
+    return (
+      <View style={styles.scheduleSection}>
+        <Text style={styles.sectionTitle}>Sync Conflicts</Text>
+        {conflicts.map(conflict => {
+          const isBusy = busyConflictId === conflict.id;
+          const platformName = getPlatformDisplayName(conflict.platform);
+
+          return (
+            <View key={conflict.id} style={styles.scheduleCard}>
+              <View style={styles.orderHeader}>
+                <View style={styles.scheduleInfo}>
+                  <Text style={styles.scheduleName}>{conflict.productName ?? conflict.productId}</Text>
+                  <Text style={styles.metaText}>
+                    {conflict.fieldLabel} changed on both sides · {formatTime(conflict.detectedAt)}
+                  </Text>
+                </View>
+              </View>
+
+              <View style={styles.diffRow}>
+                <View style={styles.diffColumn}>
+                  <Text style={styles.diffLabel}>POS</Text>
+                  <Text style={styles.diffValue}>{formatFieldValue(conflict, conflict.posValue)}</Text>
+                  {conflict.posUpdatedAt && <Text style={styles.metaText}>Edited {formatTime(conflict.posUpdatedAt)}</Text>}
+                </View>
+                <View style={styles.diffColumn}>
+                  <Text style={styles.diffLabel}>{platformName}</Text>
+                  <Text style={styles.diffValue}>{formatFieldValue(conflict, conflict.platformValue)}</Text>
+                  {conflict.platformUpdatedAt && <Text style={styles.metaText}>Edited {formatTime(conflict.platformUpdatedAt)}</Text>}
+                </View>
+              </View>
+              <Text style={styles.metaText}>
+                {conflict.baseValue === null ? 'Never synced' : `Last synced: ${formatFieldValue(conflict, conflict.baseValue)}`}
+              </Text>
+
+              <View style={styles.actionRow}>
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.retryButton]}
+                  onPress={() => handleResolveConflict(conflict, 'pos')}
+                  disabled={isBusy}
+                >
+                  {isBusy ? (
+                    <ActivityIndicator size="small" color={lightColors.textOnPrimary} />
+                  ) : (
+                    <MaterialIcons name="point-of-sale" size={16} color={lightColors.textOnPrimary} />
+                  )}
+                  <Text style={styles.retryButtonText}>Keep POS</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.retryButton]}
+                  onPress={() => handleResolveConflict(conflict, 'platform')}
+                  disabled={isBusy}
+                >
+                  <MaterialIcons name="cloud" size={16} color={lightColors.textOnPrimary} />
+                  <Text style={styles.retryButtonText}>Keep {platformName}</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const renderPolicies = () => {
+    if (!policies) return null;
+
+    return (
+      <View style={styles.scheduleSection}>
+        <Text style={styles.sectionTitle}>Conflict Policies</Text>
+        <View style={styles.scheduleCard}>
+          {CONFLICT_ENTITY_TYPES.map(entityType => (
+            <View key={entityType} style={styles.policyRow}>
+              <Text style={styles.policyEntity}>{ENTITY_LABELS[entityType] ?? entityType}</Text>
+              <View style={styles.policyOptions}>
+                {(Object.keys(POLICY_LABELS) as ConflictPolicy[]).map(policy => {
+                  const selected = policies[entityType] === policy;
+                  return (
+                    <TouchableOpacity
+                      key={policy}
+                      style={[styles.policyChip, selected && styles.policyChipSelected]}
+                      onPress={() => !selected && handleSetPolicy(entityType, policy)}
+                    >
+                      <Text style={[styles.policyChipText, selected && styles.policyChipTextSelected]}>{POLICY_LABELS[policy]}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  const renderSchedules = () => {
+    if (jobs.length === 0) return null;
+
+    return (
+      <View style={styles.scheduleSection}>
+        <Text style={styles.sectionTitle}>Schedules</Text>
+        {jobs.map(job => {
+          const isBusy = busyJobId === job.id;
+          const lastFailed = job.lastRun?.status === 'failed';
+
+          return (
+            <View key={job.id} style={styles.scheduleCard}>
+              <View style={styles.orderHeader}>
+                <View style={styles.scheduleInfo}>
+                  <Text style={styles.scheduleName}>{job.name}</Text>
+                  <Text style={styles.metaText}>
+                    {job.cron} · {job.missedRunPolicy === 'skip' ? 'Skips missed runs' : 'Catches up missed runs'}
+                  </Text>
+                </View>
+                <Switch value={job.enabled} onValueChange={enabled => handleToggleJob(job.id, enabled)} disabled={isBusy} />
+              </View>
+
+              <Text style={styles.metaText}>{job.enabled ? `Next: ${formatTime(new Date(job.nextRunAt))}` : 'Paused'}</Text>
+              <Text style={[styles.metaText, lastFailed && { color: lightColors.error }]} numberOfLines={2}>
+                {getRunSummary(job)}
+              </Text>
+
+              <View style={styles.actionRow}>
+                <TouchableOpacity style={[styles.actionButton, styles.retryButton]} onPress={() => handleRunJob(job.id)} disabled={isBusy}>
+                  {isBusy ? (
+                    <ActivityIndicator size="small" color={lightColors.textOnPrimary} />
+                  ) : (
+                    <MaterialIcons name="play-arrow" size={16} color={lightColors.textOnPrimary} />
+                  )}
+                  <Text style={styles.retryButtonText}>Run Now</Text>
+                </TouchableOpacity>
+
+                {job.type === SCHEDULED_SYNC_JOB_TYPE && (
+                  <TouchableOpacity
+                    style={[styles.actionButton, styles.discardButton]}
+                    onPress={() => handleCancelJob(job)}
+                    disabled={isBusy}
+                  >
+                    <MaterialIcons name="delete-outline" size={16} color={lightColors.error} />
+                    <Text style={styles.discardButtonText}>Remove</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const renderListHeader = () => (
+    <View>
+      {renderConflicts()}
+      {renderPolicies()}
+      {renderSchedules()}
+      <Text style={styles.sectionTitle}>Order Queue</Text>
+    </View>
+  );
+
   if (isLoading) {
     return (
       <View style={styles.centered}>
@@ -180,6 +527,18 @@ const SyncQueueScreen: React.FC = () => {
           <Text style={[styles.summaryValue, { color: lightColors.error }]}>{failedCount}</Text>
           <Text style={styles.summaryLabel}>Failed</Text>
         </View>
+        {conflicts.length > 0 && (
+          <View style={styles.summaryItem}>
+            <Text style={[styles.summaryValue, { color: lightColors.warning }]}>{conflicts.length}</Text>
+            <Text style={styles.summaryLabel}>Conflicts</Text>
+          </View>
+        )}
+        {duplicateCount > 0 && (
+          <View style={styles.summaryItem}>
+            <Text style={[styles.summaryValue, { color: lightColors.warning }]}>{duplicateCount}</Text>
+            <Text style={styles.summaryLabel}>Duplicates</Text>
+          </View>
+        )}
         {totalCount > 0 && (
           <TouchableOpacity style={styles.retryAllButton} onPress={handleRetryAll} disabled={isProcessing}>
             {isProcessing ? (
@@ -200,7 +559,8 @@ const SyncQueueScreen: React.FC = () => {
         keyExtractor={item => item.id}
         renderItem={renderOrderItem}
         contentContainerStyle={orders.length === 0 ? styles.emptyContainer : styles.listContent}
-        refreshControl={<RefreshControl refreshing={false} onRefresh={refresh} />}
+        refreshControl={<RefreshControl refreshing={false} onRefresh={handleRefresh} />}
+        ListHeaderComponent={renderListHeader()}
         ListEmptyComponent={
           <View style={styles.emptyState}>
             <MaterialIcons name="check-circle" size={64} color={lightColors.success} />
@@ -337,6 +697,20 @@ const styles = StyleSheet.create({
     marginLeft: spacing.xs,
     flex: 1,
   },
+  duplicateBox: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: lightColors.warning + '10',
+    padding: spacing.sm,
+    borderRadius: borderRadius.sm,
+    marginTop: spacing.sm,
+  },
+  duplicateText: {
+    fontSize: typography.fontSize.sm,
+    color: lightColors.textPrimary,
+    marginLeft: spacing.xs,
+    flex: 1,
+  },
   actionRow: {
     flexDirection: 'row',
     marginTop: spacing.sm,
@@ -372,6 +746,90 @@ const styles = StyleSheet.create({
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
+    padding: spacing.md,
+  },
+  scheduleSection: {
+    marginBottom: spacing.sm,
+  },
+  sectionTitle: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: '700',
+    color: lightColors.textSecondary,
+    textTransform: 'uppercase',
+    marginBottom: spacing.sm,
+    marginTop: spacing.xs,
+  },
+  scheduleCard: {
+    backgroundColor: lightColors.surface,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    ...elevation.low,
+  },
+  scheduleInfo: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  scheduleName: {
+    fontSize: typography.fontSize.md,
+    fontWeight: '700',
+    color: lightColors.textPrimary,
+  },
+  diffRow: {
+    flexDirection: 'row',
+    marginVertical: spacing.sm,
+    gap: spacing.sm,
+  },
+  diffColumn: {
+    flex: 1,
+    backgroundColor: lightColors.background,
+    borderRadius: borderRadius.sm,
+    padding: spacing.sm,
+  },
+  diffLabel: {
+    fontSize: typography.fontSize.xs,
+    fontWeight: '700',
+    color: lightColors.textSecondary,
+    textTransform: 'uppercase',
+  },
+  diffValue: {
+    fontSize: typography.fontSize.md,
+    fontWeight: '600',
+    color: lightColors.textPrimary,
+    marginVertical: 2,
+  },
+  policyRow: {
+    marginBottom: spacing.sm,
+  },
+  policyEntity: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: '600',
+    color: lightColors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  policyOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  policyChip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 4,
+    borderRadius: borderRadius.sm,
+    borderWidth: 1,
+    borderColor: lightColors.border,
+  },
+  policyChipSelected: {
+    backgroundColor: lightColors.primary,
+    borderColor: lightColors.primary,
+  },
+  policyChipText: {
+    fontSize: typography.fontSize.sm,
+    color: lightColors.textSecondary,
+  },
+  policyChipTextSelected: {
+    color: lightColors.textOnPrimary,
+    fontWeight: '600',
   },
   emptyState: {
     alignItems: 'center',
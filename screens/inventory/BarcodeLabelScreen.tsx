@@ -1,8 +1,9 @@
 /**
  * BarcodeLabelScreen
  *
- * Multi-select products and print barcode labels. Supports label format
- * configuration and CSV export fallback.
+ * Multi-select products and print barcode labels. Supports label size,
+ * symbology and format configuration, a preview of the first selected label
+ * as the printer will receive it, and CSV export fallback.
  */
 
 import React, { useState, useEffect } from 'react';
@@ -13,7 +14,10 @@ import { Button } from '../../components/Button';
 import { Input } from '../../components/Input';
 import { Card } from '../../components/Card';
 import { useProductsForDisplay } from '../../hooks/useProducts';
-import { barcodeLabelService, LabelData, LabelFormat } from '../../services/printing/BarcodeLabelService';
+import { barcodeLabelService, LabelData, LabelFormat, LabelPreview as LabelPreviewData } from '../../services/printing/BarcodeLabelService';
+import { LabelSymbology } from '../../services/printing/labels/labelTypes';
+import { LabelPreview } from '../../components/LabelPreview';
+import { useCurrency } from '../../hooks/useCurrency';
 import { useAuthContext } from '../../contexts/AuthProvider';
 import { Paths, File } from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
@@ -28,9 +32,26 @@ interface ProductSelection {
   quantity: number;
 }
 
+/** Common shelf-edge and product label sizes (mm) */
+const LABEL_SIZES: { width: number; height: number }[] = [
+  { width: 38, height: 25 },
+  { width: 50, height: 30 },
+  { width: 58, height: 40 },
+  { width: 100, height: 50 },
+];
+
+const SYMBOLOGIES: { value: LabelSymbology; label: string }[] = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'ean13', label: 'EAN-13' },
+  { value: 'upca', label: 'UPC-A' },
+  { value: 'code128', label: 'Code 128' },
+  { value: 'qr', label: 'QR' },
+];
+
 const BarcodeLabelScreen: React.FC = () => {
   const { products } = useProductsForDisplay();
   const { user } = useAuthContext();
+  const currency = useCurrency();
 
   const [productSelections, setProductSelections] = useState<ProductSelection[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
@@ -38,6 +59,7 @@ const BarcodeLabelScreen: React.FC = () => {
   const [labelFormat, setLabelFormat] = useState<LabelFormat>(barcodeLabelService.getDefaultFormat());
   const [printing, setPrinting] = useState(false);
   const [exporting, setExporting] = useState(false);
+  const [preview, setPreview] = useState<LabelPreviewData | null>(null);
 
   // Initialize product selections
   useEffect(() => {
@@ -83,6 +105,32 @@ const BarcodeLabelScreen: React.FC = () => {
     setProductSelections(prev => prev.map(p => ({ ...p, selected: newSelectAll })));
   };
 
+  const toLabelData = (product: ProductSelection): LabelData => ({
+    productId: product.productId,
+    variantId: product.variantId,
+    name: product.name,
+    sku: product.sku,
+    price: product.price,
+    barcode: product.sku, // Use SKU as barcode
+    quantity: product.quantity,
+  });
+
+  const formatForPrint = (): LabelFormat => ({ ...labelFormat, currencySymbol: currency.symbol });
+
+  // Preview the first selected label
+  const handlePreview = async () => {
+    if (selectedProducts.length === 0) {
+      Alert.alert('No Selection', 'Please select at least one product to preview.');
+      return;
+    }
+
+    try {
+      setPreview(await barcodeLabelService.previewLabel(toLabelData(selectedProducts[0]), formatForPrint()));
+    } catch (err) {
+      Alert.alert('Preview Failed', err instanceof Error ? err.message : 'Failed to preview label.');
+    }
+  };
+
   // Print labels
   const handlePrint = async () => {
     if (selectedProducts.length === 0) {
@@ -90,15 +138,7 @@ const BarcodeLabelScreen: React.FC = () => {
       return;
     }
 
-    const labelData: LabelData[] = selectedProducts.map(product => ({
-      productId: product.productId,
-      variantId: product.variantId,
-      name: product.name,
-      sku: product.sku,
-      price: product.price,
-      barcode: product.sku, // Use SKU as barcode
-      quantity: product.quantity,
-    }));
+    const labelData: LabelData[] = selectedProducts.map(toLabelData);
 
     const validation = barcodeLabelService.validateLabelData(labelData);
     if (!validation.valid) {
@@ -108,7 +148,7 @@ const BarcodeLabelScreen: React.FC = () => {
 
     setPrinting(true);
     try {
-      const result = await barcodeLabelService.printLabels(labelData, labelFormat, user?.id);
+      const result = await barcodeLabelService.printLabels(labelData, formatForPrint(), user?.id);
 
       if (result.success) {
         if (result.failed > 0) {
@@ -196,7 +236,12 @@ const BarcodeLabelScreen: React.FC = () => {
         <View style={styles.productInfo}>
           <Text style={styles.productName}>{item.name}</Text>
           {item.sku && <Text style={styles.productSku}>SKU: {item.sku}</Text>}
-          {item.price !== undefined && <Text style={styles.productPrice}>${item.price.toFixed(2)}</Text>}
+          {item.price !== undefined && (
+            <Text style={styles.productPrice}>
+              {currency.symbol}
+              {item.price.toFixed(2)}
+            </Text>
+          )}
         </View>
         {item.selected && (
           <View style={styles.quantityContainer}>
@@ -260,6 +305,42 @@ const BarcodeLabelScreen: React.FC = () => {
         <Card style={styles.formatCard}>
           <Text style={styles.formatTitle}>Label Format</Text>
           <View style={styles.formatOptions}>
+            <View style={styles.formatRow}>
+              <Text style={styles.formatLabel}>Label Size:</Text>
+              <View style={styles.fontSizeButtons}>
+                {LABEL_SIZES.map(size => {
+                  const active = labelFormat.width === size.width && labelFormat.height === size.height;
+                  return (
+                    <TouchableOpacity
+                      key={`${size.width}x${size.height}`}
+                      style={[styles.fontSizeButton, active && styles.fontSizeButtonActive]}
+                      onPress={() => setLabelFormat(prev => ({ ...prev, width: size.width, height: size.height }))}
+                    >
+                      <Text style={[styles.fontSizeButtonText, active && styles.fontSizeButtonTextActive]}>
+                        {size.width}×{size.height}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+            <View style={styles.formatRow}>
+              <Text style={styles.formatLabel}>Barcode:</Text>
+              <View style={styles.fontSizeButtons}>
+                {SYMBOLOGIES.map(option => {
+                  const active = (labelFormat.symbology ?? 'auto') === option.value;
+                  return (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[styles.fontSizeButton, active && styles.fontSizeButtonActive]}
+                      onPress={() => setLabelFormat(prev => ({ ...prev, symbology: option.value }))}
+                    >
+                      <Text style={[styles.fontSizeButtonText, active && styles.fontSizeButtonTextActive]}>{option.label}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
             <View style={styles.formatRow}>
               <Text style={styles.formatLabel}>Font Size:</Text>
               <View style={styles.fontSizeButtons}>
@@ -316,6 +397,7 @@ const BarcodeLabelScreen: React.FC = () => {
             disabled={printing || exporting}
             style={styles.actionButton}
           />
+          <Button title="Preview" variant="outline" onPress={handlePreview} disabled={printing || exporting} style={styles.actionButton} />
           <Button
             title="Export CSV"
             variant="outline"
@@ -326,6 +408,16 @@ const BarcodeLabelScreen: React.FC = () => {
           />
         </View>
       )}
+
+      <LabelPreview
+        visible={preview !== null}
+        preview={preview}
+        onClose={() => setPreview(null)}
+        onPrint={() => {
+          setPreview(null);
+          handlePrint();
+        }}
+      />
     </View>
   );
 };
@@ -0,0 +1,233 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, TextInput, Modal, StyleSheet } from 'react-native';
+import { lightColors, spacing, typography, borderRadius } from '../../utils/theme';
+import {
+  CASH_MOVEMENT_LABELS,
+  CASH_MOVEMENT_TYPES,
+  CashMovementType,
+  EXPENSE_CATEGORIES,
+  EXPENSE_CATEGORY_LABELS,
+  ExpenseCategory,
+} from '../../services/cashup/cashMovement';
+
+export interface CashMovementEntry {
+  type: CashMovementType;
+  amount: number;
+  reason: string;
+  expenseCategory: ExpenseCategory | null;
+}
+
+interface CashMovementModalProps {
+  visible: boolean;
+  isProcessing: boolean;
+  onSubmit: (entry: CashMovementEntry) => void;
+  onClose: () => void;
+}
+
+const CashMovementModal: React.FC<CashMovementModalProps> = ({ visible, isProcessing, onSubmit, onClose }) => {
+  const [type, setType] = useState<CashMovementType>('paid_out');
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [expenseCategory, setExpenseCategory] = useState<ExpenseCategory | null>(null);
+
+  // Start every movement from a blank form
+  useEffect(() => {
+    if (visible) {
+      setType('paid_out');
+      setAmount('');
+      setReason('');
+      setExpenseCategory(null);
+    }
+  }, [visible]);
+
+  const isNoSale = type === 'no_sale';
+  const parsedAmount = parseFloat(amount);
+  const canSubmit =
+    reason.trim().length > 0 &&
+    (isNoSale || (!isNaN(parsedAmount) && parsedAmount > 0)) &&
+    (type !== 'paid_out' || expenseCategory !== null);
+
+  const handleSubmit = () => {
+    onSubmit({
+      type,
+      amount: isNoSale ? 0 : parsedAmount,
+      reason: reason.trim(),
+      expenseCategory: type === 'paid_out' ? expenseCategory : null,
+    });
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>Cash Movement</Text>
+          <Text style={styles.modalDescription}>Every movement needs a reason and manager approval, and prints a slip.</Text>
+
+          <View style={styles.chips}>
+            {CASH_MOVEMENT_TYPES.map(option => (
+              <TouchableOpacity key={option} style={[styles.chip, type === option && styles.chipSelected]} onPress={() => setType(option)}>
+                <Text style={[styles.chipText, type === option && styles.chipTextSelected]}>{CASH_MOVEMENT_LABELS[option]}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {!isNoSale && (
+            <>
+              <Text style={styles.inputLabel}>Amount</Text>
+              <TextInput style={styles.modalInput} value={amount} onChangeText={setAmount} placeholder="0.00" keyboardType="decimal-pad" />
+            </>
+          )}
+
+          {type === 'paid_out' && (
+            <>
+              <Text style={styles.inputLabel}>Expense Category</Text>
+              <View style={styles.chips}>
+                {EXPENSE_CATEGORIES.map(category => (
+                  <TouchableOpacity
+                    key={category}
+                    style={[styles.chip, expenseCategory === category && styles.chipSelected]}
+                    onPress={() => setExpenseCategory(category)}
+                  >
+                    <Text style={[styles.chipText, expenseCategory === category && styles.chipTextSelected]}>
+                      {EXPENSE_CATEGORY_LABELS[category]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+
+          <Text style={styles.inputLabel}>Reason</Text>
+          <TextInput
+            style={[styles.modalInput, styles.reasonInput]}
+            value={reason}
+            onChangeText={setReason}
+            placeholder={isNoSale ? 'e.g. Change for a customer' : 'e.g. Window cleaner'}
+          />
+
+          <View style={styles.modalButtons}>
+            <TouchableOpacity style={styles.modalCancelButton} onPress={onClose}>
+              <Text style={styles.modalCancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.modalSubmitButton, (isProcessing || !canSubmit) && styles.buttonDisabled]}
+              onPress={handleSubmit}
+              disabled={isProcessing || !canSubmit}
+            >
+              <Text style={styles.modalSubmitText}>{isProcessing ? 'Processing...' : 'Record'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: lightColors.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: lightColors.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.lg,
+    width: '85%',
+    maxWidth: 440,
+  },
+  modalTitle: {
+    fontSize: typography.fontSize.lg,
+    fontWeight: '700',
+    color: lightColors.textPrimary,
+    textAlign: 'center',
+    marginBottom: spacing.sm,
+  },
+  modalDescription: {
+    fontSize: typography.fontSize.sm,
+    color: lightColors.textSecondary,
+    textAlign: 'center',
+    marginBottom: spacing.md,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+    marginBottom: spacing.md,
+  },
+  chip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: lightColors.border,
+    backgroundColor: lightColors.background,
+  },
+  chipSelected: {
+    borderColor: lightColors.primary,
+    backgroundColor: lightColors.primary,
+  },
+  chipText: {
+    fontSize: typography.fontSize.sm,
+    color: lightColors.textPrimary,
+  },
+  chipTextSelected: {
+    color: lightColors.surface,
+    fontWeight: '600',
+  },
+  inputLabel: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: '500',
+    color: lightColors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  modalInput: {
+    backgroundColor: lightColors.background,
+    borderWidth: 1,
+    borderColor: lightColors.border,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    fontSize: typography.fontSize.lg,
+    textAlign: 'center',
+    marginBottom: spacing.md,
+  },
+  reasonInput: {
+    fontSize: typography.fontSize.md,
+    textAlign: 'left',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  modalCancelButton: {
+    flex: 1,
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.md,
+    backgroundColor: lightColors.divider,
+    alignItems: 'center',
+  },
+  modalCancelText: {
+    fontSize: typography.fontSize.md,
+    fontWeight: '600',
+    color: lightColors.textPrimary,
+  },
+  modalSubmitButton: {
+    flex: 1,
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.md,
+    backgroundColor: lightColors.primary,
+    alignItems: 'center',
+  },
+  modalSubmitText: {
+    fontSize: typography.fontSize.md,
+    fontWeight: '600',
+    color: lightColors.surface,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
+
+export default CashMovementModal;
@@ -0,0 +1,310 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, Modal, ScrollView, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { lightColors, spacing, typography, borderRadius } from '../../utils/theme';
+import { formatMoney } from '../../utils/money';
+import { EndOfDayReport } from '../../hooks/useDailyReport';
+import { useCurrency } from '../../hooks/useCurrency';
+
+interface EndOfDayModalProps {
+  visible: boolean;
+  report: EndOfDayReport | null;
+  onPrint: () => void;
+  onClose: () => void;
+}
+
+const ReportRow: React.FC<{ label: string; value: string; highlight?: boolean; warning?: boolean }> = ({
+  label,
+  value,
+  highlight,
+  warning,
+}) => (
+  <View style={styles.reportRow}>
+    <Text style={styles.reportLabel}>{label}</Text>
+    <Text style={[styles.reportValue, highlight && styles.reportHighlight, warning && styles.reportWarning]}>{value}</Text>
+  </View>
+);
+
+const tenderLabel = (method: string) => method.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export const EndOfDayModal: React.FC<EndOfDayModalProps> = ({ visible, report, onPrint, onClose }) => {
+  const currency = useCurrency();
+  const money = (amount: number) => formatMoney(amount, currency.code);
+  const signed = (amount: number) => (amount < 0 ? `-${money(Math.abs(amount))}` : money(amount));
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent>
+      <View style={styles.modalOverlay}>
+        <View style={styles.reportModalContent}>
+          <Text style={styles.modalTitle}>Store End of Day</Text>
+          {report && (
+            <Text style={styles.modalDate}>
+              {report.date} · {report.zReportCount} Z-report{report.zReportCount !== 1 ? 's' : ''}
+            </Text>
+          )}
+
+          <ScrollView style={styles.scroll} showsVerticalScrollIndicator={false}>
+            {report && (
+              <>
+                {/* Drawers not yet closed are not in the totals */}
+                {report.openDrawers.length > 0 && (
+                  <View style={styles.warningBox}>
+                    <MaterialIcons name="warning" size={18} color={lightColors.error} />
+                    <View style={styles.warningContent}>
+                      <Text style={styles.warningTitle}>
+                        {report.openDrawers.length} drawer{report.openDrawers.length !== 1 ? 's' : ''} still open
+                      </Text>
+                      {report.openDrawers.map(drawer => (
+                        <Text key={drawer.drawerId} style={styles.warningText}>
+                          {drawer.registerName || drawer.registerId || 'Local'} since {formatTime(drawer.openedAt)}
+                          {drawer.cashiers.length > 0 ? ` · ${drawer.cashiers.join(', ')}` : ''}
+                        </Text>
+                      ))}
+                    </View>
+                  </View>
+                )}
+
+                {/* Registers */}
+                <Text style={styles.sectionTitle}>Registers</Text>
+                <View style={styles.reportSummary}>
+                  {report.registers.length === 0 && <Text style={styles.emptyText}>No drawers closed on this day</Text>}
+                  {report.registers.map(register => (
+                    <View key={register.registerId}>
+                      <ReportRow
+                        label={`${register.registerId || 'Local'} · Z ${register.zNumbers.map(n => `#${n}`).join(', ')}`}
+                        value={money(register.netTakings)}
+                      />
+                      <ReportRow label="  Variance" value={signed(register.variance)} warning={register.variance !== 0} />
+                    </View>
+                  ))}
+                </View>
+
+                {/* Sales */}
+                <Text style={styles.sectionTitle}>Sales</Text>
+                <View style={styles.reportSummary}>
+                  <ReportRow label="Orders" value={String(report.sales.orderCount)} />
+                  <ReportRow label="Items Sold" value={String(report.sales.itemsSold)} />
+                  <ReportRow label="Gross Sales" value={money(report.sales.grossSales)} />
+                  <ReportRow label="Tax Collected" value={money(report.sales.tax)} />
+                  <ReportRow label="Net Sales" value={money(report.sales.netSales)} highlight />
+                  <View style={styles.divider} />
+                  <ReportRow label={`Discounts (${report.discounts.count})`} value={`-${money(report.discounts.total)}`} />
+                  <ReportRow label={`Voids (${report.voids.count})`} value={money(report.voids.total)} />
+                  <ReportRow label={`Refunds (${report.refunds.count})`} value={`-${money(report.refunds.total)}`} />
+                  <ReportRow label="No-Sale Opens" value={String(report.noSaleCount)} />
+                </View>
+
+                {/* Tenders */}
+                {report.tenders.length > 0 && (
+                  <>
+                    <Text style={styles.sectionTitle}>Tenders</Text>
+                    <View style={styles.reportSummary}>
+                      {report.tenders.map(tender => (
+                        <ReportRow
+                          key={tender.method}
+                          label={`${tenderLabel(tender.method)} (${tender.count})`}
+                          value={money(tender.total)}
+                        />
+                      ))}
+                    </View>
+                  </>
+                )}
+
+                {/* Tips */}
+                {report.tips.count > 0 && (
+                  <>
+                    <Text style={styles.sectionTitle}>Tips</Text>
+                    <View style={styles.reportSummary}>
+                      {report.tips.byTender.map(tender => (
+                        <ReportRow
+                          key={tender.method}
+                          label={`${tenderLabel(tender.method)} (${tender.count})`}
+                          value={money(tender.total)}
+                        />
+                      ))}
+                      <ReportRow label={`Total (${report.tips.count})`} value={money(report.tips.total)} />
+                      {report.tips.byStaff.length > 0 && <View style={styles.divider} />}
+                      {report.tips.byStaff.map(staff => (
+                        <ReportRow key={staff.staffId} label={`${staff.staffName} (${staff.count})`} value={money(staff.total)} />
+                      ))}
+                    </View>
+                  </>
+                )}
+
+                {/* Cash */}
+                <Text style={styles.sectionTitle}>Cash</Text>
+                <View style={styles.reportSummary}>
+                  <ReportRow label="Opening Floats" value={money(report.cash.openingFloat)} />
+                  <ReportRow label="Cash Sales" value={money(report.cash.cashSales)} />
+                  <ReportRow label="Cash Refunds" value={`-${money(report.cash.cashRefunds)}`} />
+                  <ReportRow label="Cash Tips" value={money(report.cash.cashTips)} />
+                  <ReportRow label="Paid In" value={money(report.cash.paidIn)} />
+                  <ReportRow label="Float Top-Ups" value={money(report.cash.floatTopUps)} />
+                  <ReportRow label="Paid Out" value={`-${money(report.cash.paidOut)}`} />
+                  <ReportRow label="Safe Drops" value={`-${money(report.cash.safeDrops)}`} />
+                  <View style={styles.divider} />
+                  <ReportRow label="Expected Cash" value={money(report.cash.expected)} />
+                  <ReportRow label="Counted Cash" value={money(report.cash.counted)} />
+                  <ReportRow label="Variance" value={signed(report.cash.variance)} warning={report.cash.variance !== 0} />
+                </View>
+
+                <Text style={styles.sectionTitle}>Totals</Text>
+                <View style={styles.reportSummary}>
+                  <ReportRow label="Net Takings" value={money(report.netTakings)} highlight />
+                </View>
+              </>
+            )}
+          </ScrollView>
+
+          <View style={styles.modalButtons}>
+            <TouchableOpacity style={styles.modalCancelButton} onPress={onClose}>
+              <Text style={styles.modalCancelText}>Close</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.printReportButton} onPress={onPrint}>
+              <MaterialIcons name="print" size={18} color={lightColors.surface} />
+              <Text style={styles.printReportText}>Print Report</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: lightColors.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  reportModalContent: {
+    backgroundColor: lightColors.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.lg,
+    width: '92%',
+    maxWidth: 480,
+    maxHeight: '88%',
+  },
+  modalTitle: {
+    fontSize: typography.fontSize.lg,
+    fontWeight: '700',
+    color: lightColors.textPrimary,
+    textAlign: 'center',
+    marginBottom: spacing.xs,
+  },
+  modalDate: {
+    fontSize: typography.fontSize.sm,
+    color: lightColors.textSecondary,
+    textAlign: 'center',
+    marginBottom: spacing.sm,
+  },
+  scroll: {
+    maxHeight: 480,
+    marginVertical: spacing.sm,
+  },
+  warningBox: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: lightColors.error,
+    marginBottom: spacing.sm,
+  },
+  warningContent: {
+    flex: 1,
+  },
+  warningTitle: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: '700',
+    color: lightColors.error,
+    marginBottom: spacing.xs,
+  },
+  warningText: {
+    fontSize: typography.fontSize.sm,
+    color: lightColors.textPrimary,
+  },
+  sectionTitle: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: '700',
+    color: lightColors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.8,
+    marginTop: spacing.sm,
+    marginBottom: spacing.xs,
+  },
+  reportSummary: {
+    backgroundColor: lightColors.background,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.xs,
+  },
+  emptyText: {
+    fontSize: typography.fontSize.sm,
+    color: lightColors.textSecondary,
+  },
+  divider: {
+    height: 1,
+    backgroundColor: lightColors.border,
+    marginVertical: spacing.xs,
+  },
+  reportRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs,
+  },
+  reportLabel: {
+    fontSize: typography.fontSize.sm,
+    color: lightColors.textSecondary,
+    flex: 1,
+  },
+  reportValue: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: '600',
+    color: lightColors.textPrimary,
+  },
+  reportHighlight: {
+    fontSize: typography.fontSize.md,
+    color: lightColors.success,
+  },
+  reportWarning: {
+    color: lightColors.error,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginTop: spacing.md,
+  },
+  modalCancelButton: {
+    flex: 1,
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.md,
+    backgroundColor: lightColors.divider,
+    alignItems: 'center',
+  },
+  modalCancelText: {
+    fontSize: typography.fontSize.md,
+    fontWeight: '600',
+    color: lightColors.textPrimary,
+  },
+  printReportButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.md,
+    backgroundColor: lightColors.success,
+  },
+  printReportText: {
+    marginLeft: spacing.xs,
+    fontSize: typography.fontSize.md,
+    fontWeight: '600',
+    color: lightColors.surface,
+  },
+});
+
+export default EndOfDayModal;
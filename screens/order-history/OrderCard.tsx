@@ -5,6 +5,7 @@ import { lightColors, spacing, typography, borderRadius, elevation } from '../..
 import { formatMoney } from '../../utils/money';
 import { LocalOrder } from '../../services/basket/BasketServiceInterface';
 import { useCurrency } from '../../hooks/useCurrency';
+import { findAdjustableLine } from '../../services/tips/tips';
 
 interface OrderCardProps {
   order: LocalOrder;
@@ -12,6 +13,8 @@ interface OrderCardProps {
   onResync: (orderId: string) => void;
   onPrintReceipt: (order: LocalOrder) => void;
   onExchange?: (orderId: string) => void;
+  /** Change the tip on a paid card order — shown only for orders with a card payment */
+  onAdjustTip?: (order: LocalOrder) => void;
 }
 
 const getOrderStatusColor = (order: LocalOrder) => {
@@ -26,9 +29,11 @@ const getOrderStatusText = (order: LocalOrder) => {
   return 'Pending';
 };
 
-export const OrderCard: React.FC<OrderCardProps> = ({ order, isSyncing, onResync, onPrintReceipt, onExchange }) => {
+export const OrderCard: React.FC<OrderCardProps> = ({ order, isSyncing, onResync, onPrintReceipt, onExchange, onAdjustTip }) => {
   const currency = useCurrency();
   const statusColor = getOrderStatusColor(order);
+  const isPaid = order.status === 'paid' || order.status === 'synced';
+  const canAdjustTip = isPaid && !!onAdjustTip && findAdjustableLine(order.payments ?? []) !== null;
 
   return (
     <View style={styles.orderCard}>
@@ -46,6 +51,7 @@ export const OrderCard: React.FC<OrderCardProps> = ({ order, isSyncing, onResync
         <View style={styles.orderDetailsLeft}>
           <Text style={styles.customerInfo}>
             {order.customerName || 'Guest'} • {formatMoney(order.total, currency.code)}
+            {order.tipAmount ? ` + ${formatMoney(order.tipAmount, currency.code)} tip` : ''}
           </Text>
           <Text style={styles.itemCount}>
             {order.items.length} item{order.items.length !== 1 ? 's' : ''}
@@ -72,13 +78,20 @@ export const OrderCard: React.FC<OrderCardProps> = ({ order, isSyncing, onResync
           <Text style={styles.printButtonText}>Print</Text>
         </TouchableOpacity>
 
-        {(order.status === 'paid' || order.status === 'synced') && onExchange && (
+        {isPaid && onExchange && (
           <TouchableOpacity style={styles.exchangeButton} onPress={() => onExchange(order.id)}>
             <MaterialIcons name="swap-horiz" size={16} color={lightColors.secondary} />
             <Text style={styles.exchangeButtonText}>Exchange</Text>
           </TouchableOpacity>
         )}
 
+        {canAdjustTip && (
+          <TouchableOpacity style={styles.exchangeButton} onPress={() => onAdjustTip!(order)}>
+            <MaterialIcons name="attach-money" size={16} color={lightColors.secondary} />
+            <Text style={styles.exchangeButtonText}>Tip</Text>
+          </TouchableOpacity>
+        )}
+
         {order.syncStatus !== 'synced' && (
           <TouchableOpacity
             style={[styles.resyncButton, isSyncing && styles.resyncButtonDisabled]}
@@ -1,6 +1,8 @@
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import { LocalOrder } from '../../services/basket/BasketServiceInterface';
+import { formatQuantityLine, getMeasuredLine } from '../../services/product/unitOfMeasure';
+import { multiplyMoney } from '../../utils/money';
 import { lightColors, spacing, typography, borderRadius } from '../../utils/theme';
 
 interface ReceiptTemplateProps {
@@ -71,16 +73,14 @@ const ReceiptTemplate: React.FC<ReceiptTemplateProps> = ({
       {/* ===== ITEMS ===== */}
       <View style={styles.itemsSection}>
         {order.items.map((item, index) => {
-          const itemTotal = item.price * item.quantity;
+          const itemTotal = multiplyMoney(item.price, item.quantity);
+          const unit = getMeasuredLine(item)?.unit;
           return (
             <View key={index} style={styles.itemRow}>
               <View style={styles.itemInfo}>
                 <Text style={styles.itemName}>{item.name}</Text>
-                {item.quantity > 1 && (
-                  <Text style={styles.itemQty}>
-                    {item.quantity} x {cs}
-                    {item.price.toFixed(2)}
-                  </Text>
+                {(item.quantity > 1 || unit) && (
+                  <Text style={styles.itemQty}>{formatQuantityLine(item.quantity, item.price, unit, cs)}</Text>
                 )}
               </View>
               <Text style={styles.itemTotal}>
@@ -2,69 +2,103 @@ import React from 'react';
 import { View, Text, TouchableOpacity, Modal, ScrollView, StyleSheet } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { lightColors, spacing, typography, borderRadius } from '../../utils/theme';
-import { formatMoney } from '../../utils/money';
-import { DailyReportData } from '../../hooks/useDailyReport';
+import { formatMoney, multiplyMoney } from '../../utils/money';
+import { ShiftReport } from '../../hooks/useDailyReport';
+import type { TenderTotal } from '../../services/cashup/shiftReport';
+import { EXPENSE_CATEGORY_LABELS } from '../../services/cashup/cashMovement';
 import { useCurrency } from '../../hooks/useCurrency';
 
 interface ReportModalProps {
   visible: boolean;
-  report: DailyReportData | null;
+  report: ShiftReport | null;
+  /** Blind close: hide expected cash, cash takings and variance */
+  blind: boolean;
   onPrint: () => void;
   onClose: () => void;
 }
 
-const ReportRow: React.FC<{ label: string; value: string; highlight?: boolean }> = ({ label, value, highlight }) => (
+const ReportRow: React.FC<{ label: string; value: string; highlight?: boolean; warning?: boolean }> = ({
+  label,
+  value,
+  highlight,
+  warning,
+}) => (
   <View style={styles.reportRow}>
     <Text style={styles.reportLabel}>{label}</Text>
-    <Text style={[styles.reportValue, highlight && styles.reportHighlight]}>{value}</Text>
+    <Text style={[styles.reportValue, highlight && styles.reportHighlight, warning && styles.reportWarning]}>{value}</Text>
   </View>
 );
 
-export const ReportModal: React.FC<ReportModalProps> = ({ visible, report, onClose, onPrint }) => {
+const tenderLabel = (method: string) => method.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export const ReportModal: React.FC<ReportModalProps> = ({ visible, report, blind, onClose, onPrint }) => {
   const currency = useCurrency();
+  const money = (amount: number) => formatMoney(amount, currency.code);
+  // Under blind close the cash tender would give the expected total away
+  const visibleTenders = (tenders: TenderTotal[]) => (blind ? tenders.filter(t => t.method !== 'cash') : tenders);
 
-  const paymentEntries = report ? Object.entries(report.summary.paymentBreakdown) : [];
+  const title = !report ? 'Shift Report' : report.type === 'Z' ? `Z-Report #${report.zNumber ?? '-'}` : 'X-Report';
+  const variance = report?.cash.variance ?? null;
 
   return (
     <Modal visible={visible} animationType="slide" transparent>
       <View style={styles.modalOverlay}>
         <View style={styles.reportModalContent}>
-          <Text style={styles.modalTitle}>Shift Report</Text>
+          <Text style={styles.modalTitle}>{title}</Text>
           {report && (
             <Text style={styles.modalDate}>
-              {report.date.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })}
+              {new Date(report.generatedAt).toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })} ·{' '}
+              {report.cashierName} · {formatTime(report.openedAt)}–{formatTime(report.generatedAt)}
             </Text>
           )}
 
           <ScrollView style={styles.scroll} showsVerticalScrollIndicator={false}>
             {report && (
               <>
-                {/* Sales Summary */}
-                <Text style={styles.sectionTitle}>Sales Summary</Text>
+                {/* Sales */}
+                <Text style={styles.sectionTitle}>Sales</Text>
                 <View style={styles.reportSummary}>
-                  <ReportRow label="Total Orders" value={String(report.summary.totalOrders)} />
-                  <ReportRow label="Items Sold" value={String(report.summary.itemsSold)} />
-                  <ReportRow label="Avg Order Value" value={formatMoney(report.summary.averageOrderValue, currency.code)} />
+                  <ReportRow label="Orders" value={String(report.sales.orderCount)} />
+                  <ReportRow label="Items Sold" value={String(report.sales.itemsSold)} />
+                  <ReportRow label="Avg Order Value" value={money(report.sales.averageOrderValue)} />
                   <View style={styles.divider} />
-                  <ReportRow label="Gross Sales" value={formatMoney(report.summary.totalSales, currency.code)} />
-                  <ReportRow label="Tax Collected" value={formatMoney(report.summary.totalTax, currency.code)} />
-                  {report.summary.totalDiscount > 0 && (
-                    <ReportRow label="Discounts" value={`-${formatMoney(report.summary.totalDiscount, currency.code)}`} />
-                  )}
+                  <ReportRow label="Gross Sales" value={money(report.sales.grossSales)} />
+                  <ReportRow label="Tax Collected" value={money(report.sales.tax)} />
+                  <ReportRow label="Net Sales" value={money(report.sales.netSales)} highlight />
                   <View style={styles.divider} />
-                  <ReportRow label="Net Sales" value={formatMoney(report.summary.netSales, currency.code)} highlight />
+                  <ReportRow label={`Discounts (${report.discounts.count})`} value={`-${money(report.discounts.total)}`} />
+                  <ReportRow label={`Voids (${report.voids.count})`} value={money(report.voids.total)} />
+                  <ReportRow label="No-Sale Opens" value={String(report.noSaleCount)} />
                 </View>
 
-                {/* Payment Breakdown */}
-                {paymentEntries.length > 0 && (
+                {/* Cashiers sharing the drawer */}
+                {report.cashiers && report.cashiers.length > 1 && (
+                  <>
+                    <Text style={styles.sectionTitle}>Cashiers</Text>
+                    <View style={styles.reportSummary}>
+                      {report.cashiers.map(cashier => (
+                        <ReportRow
+                          key={cashier.cashierId}
+                          label={`${cashier.cashierName} (${cashier.orderCount})`}
+                          value={money(cashier.grossSales)}
+                        />
+                      ))}
+                    </View>
+                  </>
+                )}
+
+                {/* Tenders */}
+                {visibleTenders(report.tenders).length > 0 && (
                   <>
-                    <Text style={styles.sectionTitle}>Payment Breakdown</Text>
+                    <Text style={styles.sectionTitle}>Tenders</Text>
                     <View style={styles.reportSummary}>
-                      {paymentEntries.map(([method, data]) => (
+                      {visibleTenders(report.tenders).map(tender => (
                         <ReportRow
-                          key={method}
-                          label={`${method.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase())} (${data.count})`}
-                          value={formatMoney(data.total, currency.code)}
+                          key={tender.method}
+                          label={`${tenderLabel(tender.method)} (${tender.count})`}
+                          value={money(tender.total)}
                         />
                       ))}
                     </View>
@@ -72,36 +106,96 @@ export const ReportModal: React.FC<ReportModalProps> = ({ visible, report, onClo
                 )}
 
                 {/* Refunds */}
-                {report.summary.refunds > 0 && (
+                {report.refunds.count > 0 && (
                   <>
                     <Text style={styles.sectionTitle}>Refunds</Text>
                     <View style={styles.reportSummary}>
-                      <ReportRow label="Refund Count" value={String(report.summary.refunds)} />
-                      <ReportRow label="Refund Amount" value={formatMoney(report.summary.refundAmount, currency.code)} />
+                      {visibleTenders(report.refunds.byTender).map(tender => (
+                        <ReportRow
+                          key={tender.method}
+                          label={`${tenderLabel(tender.method)} (${tender.count})`}
+                          value={money(tender.total)}
+                        />
+                      ))}
+                      <ReportRow label={`Total (${report.refunds.count})`} value={money(report.refunds.total)} />
                     </View>
                   </>
                 )}
 
-                {/* Shift Info */}
-                {report.shift && (
+                {/* Tips — kept apart from sales */}
+                {report.tips && report.tips.count > 0 && (
                   <>
-                    <Text style={styles.sectionTitle}>Shift</Text>
+                    <Text style={styles.sectionTitle}>Tips</Text>
                     <View style={styles.reportSummary}>
-                      <ReportRow label="Cashier" value={report.shift.cashierName} />
-                      <ReportRow
-                        label="Opened"
-                        value={new Date(report.shift.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                      />
-                      {report.shift.endTime && (
+                      {visibleTenders(report.tips.byTender).map(tender => (
                         <ReportRow
-                          label="Closed"
-                          value={new Date(report.shift.endTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                          key={tender.method}
+                          label={`${tenderLabel(tender.method)} (${tender.count})`}
+                          value={money(tender.total)}
+                        />
+                      ))}
+                      <ReportRow label={`Total (${report.tips.count})`} value={money(report.tips.total)} />
+                      {report.tips.byStaff.length > 0 && <View style={styles.divider} />}
+                      {report.tips.byStaff.map(staff => (
+                        <ReportRow key={staff.staffId} label={`${staff.staffName} (${staff.count})`} value={money(staff.total)} />
+                      ))}
+                    </View>
+                  </>
+                )}
+
+                {/* Cash drawer */}
+                <Text style={styles.sectionTitle}>Cash Drawer</Text>
+                <View style={styles.reportSummary}>
+                  <ReportRow label="Opening Float" value={money(report.cash.openingFloat)} />
+                  {!blind && <ReportRow label="Cash Sales" value={money(report.cash.cashSales)} />}
+                  {!blind && <ReportRow label="Cash Refunds" value={`-${money(report.cash.cashRefunds)}`} />}
+                  {!blind && report.cash.cashTips !== undefined && <ReportRow label="Cash Tips" value={money(report.cash.cashTips)} />}
+                  <ReportRow label="Paid In" value={money(report.cash.paidIn)} />
+                  <ReportRow label="Float Top-Ups" value={money(report.cash.floatTopUps)} />
+                  <ReportRow label="Paid Out" value={`-${money(report.cash.paidOut)}`} />
+                  {report.cash.paidOutByCategory.map(expense => (
+                    <ReportRow
+                      key={expense.category}
+                      label={`  ${EXPENSE_CATEGORY_LABELS[expense.category]} (${expense.count})`}
+                      value={`-${money(expense.total)}`}
+                    />
+                  ))}
+                  <ReportRow label="Safe Drops" value={`-${money(report.cash.safeDrops)}`} />
+                  {!blind && (
+                    <>
+                      <View style={styles.divider} />
+                      <ReportRow label="Expected Cash" value={money(report.cash.expected)} highlight />
+                    </>
+                  )}
+                  {report.cash.counted !== null && (
+                    <>
+                      <View style={styles.divider} />
+                      {report.cash.countedDenominations.map(line => (
+                        <ReportRow
+                          key={line.denomination}
+                          label={`${line.quantity} × ${money(line.denomination)}`}
+                          value={money(multiplyMoney(line.denomination, line.quantity))}
+                        />
+                      ))}
+                      <ReportRow label="Counted Cash" value={money(report.cash.counted)} />
+                      {!blind && variance !== null && (
+                        <ReportRow
+                          label={variance > 0 ? 'Over' : variance < 0 ? 'Short' : 'Variance'}
+                          value={money(Math.abs(variance))}
+                          warning={variance !== 0}
                         />
                       )}
-                      <ReportRow label="Opening Cash" value={formatMoney(report.shift.openingCash, currency.code)} />
-                      {report.shift.closingCash !== null && (
-                        <ReportRow label="Closing Cash" value={formatMoney(report.shift.closingCash, currency.code)} />
-                      )}
+                    </>
+                  )}
+                </View>
+
+                {/* Z totals */}
+                {report.type === 'Z' && (
+                  <>
+                    <Text style={styles.sectionTitle}>Totals</Text>
+                    <View style={styles.reportSummary}>
+                      <ReportRow label="Net Takings" value={money(report.netTakings)} highlight />
+                      {report.grandTotal !== null && <ReportRow label="Grand Total" value={money(report.grandTotal)} />}
                     </View>
                   </>
                 )}
@@ -195,6 +289,9 @@ const styles = StyleSheet.create({
     fontSize: typography.fontSize.md,
     color: lightColors.success,
   },
+  reportWarning: {
+    color: lightColors.error,
+  },
   modalButtons: {
     flexDirection: 'row',
     gap: spacing.sm,
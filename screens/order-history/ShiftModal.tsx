@@ -1,36 +1,111 @@
 import React from 'react';
-import { View, Text, TouchableOpacity, TextInput, Modal, StyleSheet } from 'react-native';
+import { View, Text, TouchableOpacity, TextInput, Modal, ScrollView, StyleSheet } from 'react-native';
 import { lightColors, spacing, typography, borderRadius } from '../../utils/theme';
+import { formatMoney, subtractMoney } from '../../utils/money';
 
 interface ShiftModalProps {
   visible: boolean;
   mode: 'open' | 'close';
   cashAmount: string;
+  currencyCode: string;
+  /** Notes and coins to count at close; empty to enter a single total */
+  denominations: number[];
+  /** Quantity typed per denomination, keyed by denomination */
+  denominationCounts: Record<string, string>;
+  /** Total of the count so far */
+  countedTotal: number;
+  /** Expected drawer cash at close; null under blind close */
+  expectedCash: number | null;
   isProcessing: boolean;
   onCashAmountChange: (value: string) => void;
+  onDenominationChange: (denomination: number, value: string) => void;
   onSubmit: () => void;
   onClose: () => void;
 }
 
-const ShiftModal: React.FC<ShiftModalProps> = ({ visible, mode, cashAmount, isProcessing, onCashAmountChange, onSubmit, onClose }) => {
+const ShiftModal: React.FC<ShiftModalProps> = ({
+  visible,
+  mode,
+  cashAmount,
+  currencyCode,
+  denominations,
+  denominationCounts,
+  countedTotal,
+  expectedCash,
+  isProcessing,
+  onCashAmountChange,
+  onDenominationChange,
+  onSubmit,
+  onClose,
+}) => {
+  const countByDenomination = mode === 'close' && denominations.length > 0;
+  const variance = expectedCash !== null ? subtractMoney(countedTotal, expectedCash) : null;
+
   return (
     <Modal visible={visible} animationType="slide" transparent>
       <View style={styles.modalOverlay}>
         <View style={styles.modalContent}>
           <Text style={styles.modalTitle}>{mode === 'open' ? 'Open Shift' : 'Close Shift'}</Text>
           <Text style={styles.modalDescription}>
-            {mode === 'open' ? 'Enter the opening cash amount in the drawer.' : 'Count and enter the closing cash amount in the drawer.'}
+            {mode === 'open'
+              ? 'Enter the opening cash amount in the drawer.'
+              : countByDenomination
+                ? 'Count the drawer and enter how many of each note and coin it holds.'
+                : 'Count and enter the closing cash amount in the drawer.'}
           </Text>
 
-          <Text style={styles.inputLabel}>Cash Amount ($)</Text>
-          <TextInput
-            style={styles.modalInput}
-            value={cashAmount}
-            onChangeText={onCashAmountChange}
-            placeholder="0.00"
-            keyboardType="decimal-pad"
-            autoFocus
-          />
+          {countByDenomination ? (
+            <ScrollView style={styles.countList} showsVerticalScrollIndicator={false}>
+              {denominations.map(denomination => (
+                <View key={denomination} style={styles.countRow}>
+                  <Text style={styles.countLabel}>{formatMoney(denomination, currencyCode)}</Text>
+                  <Text style={styles.countTimes}>×</Text>
+                  <TextInput
+                    style={styles.countInput}
+                    value={denominationCounts[String(denomination)] ?? ''}
+                    onChangeText={value => onDenominationChange(denomination, value)}
+                    placeholder="0"
+                    keyboardType="number-pad"
+                  />
+                </View>
+              ))}
+            </ScrollView>
+          ) : (
+            <>
+              <Text style={styles.inputLabel}>Cash Amount</Text>
+              <TextInput
+                style={styles.modalInput}
+                value={cashAmount}
+                onChangeText={onCashAmountChange}
+                placeholder="0.00"
+                keyboardType="decimal-pad"
+                autoFocus
+              />
+            </>
+          )}
+
+          {mode === 'close' && (
+            <View style={styles.totals}>
+              <View style={styles.totalRow}>
+                <Text style={styles.totalLabel}>Counted</Text>
+                <Text style={styles.totalValue}>{formatMoney(countedTotal, currencyCode)}</Text>
+              </View>
+              {expectedCash !== null && variance !== null && (
+                <>
+                  <View style={styles.totalRow}>
+                    <Text style={styles.totalLabel}>Expected</Text>
+                    <Text style={styles.totalValue}>{formatMoney(expectedCash, currencyCode)}</Text>
+                  </View>
+                  <View style={styles.totalRow}>
+                    <Text style={styles.totalLabel}>{variance > 0 ? 'Over' : variance < 0 ? 'Short' : 'Variance'}</Text>
+                    <Text style={[styles.totalValue, variance !== 0 && styles.varianceWarning]}>
+                      {formatMoney(Math.abs(variance), currencyCode)}
+                    </Text>
+                  </View>
+                </>
+              )}
+            </View>
+          )}
 
           <View style={styles.modalButtons}>
             <TouchableOpacity style={styles.modalCancelButton} onPress={onClose}>
@@ -93,6 +168,59 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: spacing.md,
   },
+  countList: {
+    maxHeight: 320,
+    marginBottom: spacing.sm,
+  },
+  countRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.xs,
+  },
+  countLabel: {
+    flex: 1,
+    fontSize: typography.fontSize.md,
+    fontWeight: '600',
+    color: lightColors.textPrimary,
+  },
+  countTimes: {
+    fontSize: typography.fontSize.md,
+    color: lightColors.textSecondary,
+    marginHorizontal: spacing.sm,
+  },
+  countInput: {
+    width: 80,
+    backgroundColor: lightColors.background,
+    borderWidth: 1,
+    borderColor: lightColors.border,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    fontSize: typography.fontSize.md,
+    textAlign: 'center',
+  },
+  totals: {
+    backgroundColor: lightColors.background,
+    borderRadius: borderRadius.md,
+    padding: spacing.sm,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs,
+  },
+  totalLabel: {
+    fontSize: typography.fontSize.sm,
+    color: lightColors.textSecondary,
+  },
+  totalValue: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: '600',
+    color: lightColors.textPrimary,
+  },
+  varianceWarning: {
+    color: lightColors.error,
+  },
   modalButtons: {
     flexDirection: 'row',
     gap: spacing.sm,
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, TextInput, Modal, StyleSheet } from 'react-native';
+import { lightColors, spacing, typography, borderRadius } from '../../utils/theme';
+import { formatMoney } from '../../utils/money';
+import { LocalOrder } from '../../services/basket/BasketServiceInterface';
+import { useCurrency } from '../../hooks/useCurrency';
+
+interface TipAdjustModalProps {
+  visible: boolean;
+  order: LocalOrder | null;
+  isProcessing: boolean;
+  onSubmit: (tipAmount: number) => void;
+  onClose: () => void;
+}
+
+const TipAdjustModal: React.FC<TipAdjustModalProps> = ({ visible, order, isProcessing, onSubmit, onClose }) => {
+  const currency = useCurrency();
+  const [amount, setAmount] = useState('');
+
+  // Start from the tip already on the order
+  useEffect(() => {
+    if (visible) {
+      setAmount(order?.tipAmount ? order.tipAmount.toFixed(2) : '');
+    }
+  }, [visible, order]);
+
+  const parsedAmount = amount.trim() === '' ? 0 : parseFloat(amount);
+  const canSubmit = !isNaN(parsedAmount) && parsedAmount >= 0 && parsedAmount !== (order?.tipAmount ?? 0);
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>Adjust Tip</Text>
+          {order && (
+            <Text style={styles.modalDescription}>
+              Order #{order.id.slice(-8)} · {formatMoney(order.total, currency.code)}. The card payment is adjusted with the provider and
+              needs manager approval.
+            </Text>
+          )}
+
+          <Text style={styles.inputLabel}>Tip</Text>
+          <TextInput style={styles.modalInput} value={amount} onChangeText={setAmount} placeholder="0.00" keyboardType="decimal-pad" />
+
+          <View style={styles.modalButtons}>
+            <TouchableOpacity style={styles.modalCancelButton} onPress={onClose}>
+              <Text style={styles.modalCancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.modalSubmitButton, (isProcessing || !canSubmit) && styles.buttonDisabled]}
+              onPress={() => onSubmit(parsedAmount)}
+              disabled={isProcessing || !canSubmit}
+            >
+              <Text style={styles.modalSubmitText}>{isProcessing ? 'Processing...' : 'Adjust'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: lightColors.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: lightColors.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.lg,
+    width: '85%',
+    maxWidth: 440,
+  },
+  modalTitle: {
+    fontSize: typography.fontSize.lg,
+    fontWeight: '700',
+    color: lightColors.textPrimary,
+    textAlign: 'center',
+    marginBottom: spacing.sm,
+  },
+  modalDescription: {
+    fontSize: typography.fontSize.sm,
+    color: lightColors.textSecondary,
+    textAlign: 'center',
+    marginBottom: spacing.md,
+  },
+  inputLabel: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: '500',
+    color: lightColors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  modalInput: {
+    backgroundColor: lightColors.background,
+    borderWidth: 1,
+    borderColor: lightColors.border,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    fontSize: typography.fontSize.lg,
+    textAlign: 'center',
+    marginBottom: spacing.md,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  modalCancelButton: {
+    flex: 1,
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.md,
+    backgroundColor: lightColors.divider,
+    alignItems: 'center',
+  },
+  modalCancelText: {
+    fontSize: typography.fontSize.md,
+    fontWeight: '600',
+    color: lightColors.textPrimary,
+  },
+  modalSubmitButton: {
+    flex: 1,
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.md,
+    backgroundColor: lightColors.primary,
+    alignItems: 'center',
+  },
+  modalSubmitText: {
+    fontSize: typography.fontSize.md,
+    fontWeight: '600',
+    color: lightColors.surface,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
+
+export default TipAdjustModal;
@@ -0,0 +1,150 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, Modal, FlatList, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { lightColors, spacing, typography, borderRadius } from '../../utils/theme';
+import { formatMoney } from '../../utils/money';
+import { ShiftReport } from '../../hooks/useDailyReport';
+import { useCurrency } from '../../hooks/useCurrency';
+
+interface ZReportListModalProps {
+  visible: boolean;
+  reports: ShiftReport[];
+  onSelect: (report: ShiftReport) => void;
+  onClose: () => void;
+}
+
+export const ZReportListModal: React.FC<ZReportListModalProps> = ({ visible, reports, onSelect, onClose }) => {
+  const currency = useCurrency();
+
+  const renderItem = ({ item }: { item: ShiftReport }) => {
+    const variance = item.cash.variance ?? 0;
+    return (
+      <TouchableOpacity style={styles.row} onPress={() => onSelect(item)}>
+        <View style={styles.rowMain}>
+          <Text style={styles.rowTitle}>
+            Z #{item.zNumber} · {item.cashierName}
+          </Text>
+          <Text style={styles.rowSubtitle}>
+            {new Date(item.generatedAt).toLocaleString(undefined, {
+              weekday: 'short',
+              month: 'short',
+              day: 'numeric',
+              hour: '2-digit',
+              minute: '2-digit',
+            })}
+          </Text>
+        </View>
+        <View style={styles.rowFigures}>
+          <Text style={styles.rowTotal}>{formatMoney(item.netTakings, currency.code)}</Text>
+          <Text style={[styles.rowVariance, variance !== 0 && styles.rowVarianceWarning]}>
+            {variance > 0 ? 'Over ' : variance < 0 ? 'Short ' : ''}
+            {formatMoney(Math.abs(variance), currency.code)}
+          </Text>
+        </View>
+        <MaterialIcons name="chevron-right" size={20} color={lightColors.textSecondary} />
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>Z-Reports</Text>
+          <FlatList
+            style={styles.list}
+            data={reports}
+            keyExtractor={item => `${item.registerId}-${item.zNumber}`}
+            renderItem={renderItem}
+            ListEmptyComponent={<Text style={styles.emptyText}>No Z-reports yet. One is written each time a shift is closed.</Text>}
+          />
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: lightColors.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: lightColors.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.lg,
+    width: '92%',
+    maxWidth: 480,
+    maxHeight: '88%',
+  },
+  modalTitle: {
+    fontSize: typography.fontSize.lg,
+    fontWeight: '700',
+    color: lightColors.textPrimary,
+    textAlign: 'center',
+    marginBottom: spacing.sm,
+  },
+  list: {
+    maxHeight: 480,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: lightColors.border,
+  },
+  rowMain: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: typography.fontSize.md,
+    fontWeight: '600',
+    color: lightColors.textPrimary,
+  },
+  rowSubtitle: {
+    fontSize: typography.fontSize.sm,
+    color: lightColors.textSecondary,
+  },
+  rowFigures: {
+    alignItems: 'flex-end',
+    marginRight: spacing.xs,
+  },
+  rowTotal: {
+    fontSize: typography.fontSize.md,
+    fontWeight: '600',
+    color: lightColors.textPrimary,
+  },
+  rowVariance: {
+    fontSize: typography.fontSize.sm,
+    color: lightColors.textSecondary,
+  },
+  rowVarianceWarning: {
+    color: lightColors.error,
+  },
+  emptyText: {
+    fontSize: typography.fontSize.sm,
+    color: lightColors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: spacing.lg,
+  },
+  closeButton: {
+    marginTop: spacing.md,
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.md,
+    backgroundColor: lightColors.divider,
+    alignItems: 'center',
+  },
+  closeText: {
+    fontSize: typography.fontSize.md,
+    fontWeight: '600',
+    color: lightColors.textPrimary,
+  },
+});
+
+export default ZReportListModal;
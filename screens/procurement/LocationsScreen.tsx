@@ -0,0 +1,271 @@
+/**
+ * LocationsScreen
+ *
+ * Stores and warehouses that hold stock: create/edit, map each to its
+ * platform location, choose the default and the location this register sells from.
+ * Admin only.
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, TextInput, Alert, ActivityIndicator } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { lightColors, spacing, borderRadius, typography, elevation } from '../../utils/theme';
+import { Button } from '../../components/Button';
+import { LocationRow, LocationType } from '../../repositories/LocationRepository';
+import { useAuthContext } from '../../contexts/AuthProvider';
+import { useLocations } from '../../hooks/useLocations';
+
+type ViewMode = 'list' | 'form';
+
+const EMPTY_FORM = { name: '', code: '', platformLocationId: '', type: 'store' as LocationType };
+
+const LocationsScreen: React.FC = () => {
+  const { user } = useAuthContext();
+  const { locations, registerLocationId, isLoading, create, update, setDefault, setRegisterLocation } = useLocations();
+  const [view, setView] = useState<ViewMode>('list');
+  const [editing, setEditing] = useState<LocationRow | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setView('form');
+  };
+  const openEdit = (l: LocationRow) => {
+    setEditing(l);
+    setForm({ name: l.name, code: l.code ?? '', platformLocationId: l.platform_location_id ?? '', type: l.type });
+    setView('form');
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) return;
+    setSaving(true);
+    try {
+      const input = {
+        name: form.name.trim(),
+        type: form.type,
+        code: form.code.trim() || null,
+        platformLocationId: form.platformLocationId.trim() || null,
+      };
+      if (editing) {
+        await update(editing.id, input, user?.id);
+      } else {
+        await create(input, user?.id);
+      }
+      setView('list');
+    } catch (err) {
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to save location');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (err) {
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to update location');
+    }
+  };
+
+  const handleToggleActive = (l: LocationRow) => {
+    const deactivate = l.is_active === 1;
+    Alert.alert(
+      deactivate ? 'Deactivate Location' : 'Reactivate Location',
+      deactivate
+        ? `Deactivate "${l.name}"? It will no longer be offered for transfers. Its stock records are kept.`
+        : `Reactivate "${l.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: deactivate ? 'Deactivate' : 'Reactivate',
+          style: deactivate ? 'destructive' : 'default',
+          onPress: () => runAction(() => update(l.id, { isActive: !deactivate }, user?.id)),
+        },
+      ]
+    );
+  };
+
+  if (view === 'form') {
+    const fields: Array<{ key: 'name' | 'code' | 'platformLocationId'; label: string; placeholder?: string }> = [
+      { key: 'name', label: 'Name *' },
+      { key: 'code', label: 'Code', placeholder: 'e.g., LDN-01' },
+      {
+        key: 'platformLocationId',
+        label: 'Platform Location',
+        placeholder: 'Shopify location ID, BigCommerce location ID or Magento source code',
+      },
+    ];
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>{editing ? 'Edit Location' : 'New Location'}</Text>
+        <View style={styles.fieldGroup}>
+          <Text style={styles.label}>Type</Text>
+          <View style={styles.typeRow}>
+            {(['store', 'warehouse'] as LocationType[]).map(type => (
+              <TouchableOpacity
+                key={type}
+                style={[styles.typeChip, form.type === type && styles.typeChipActive]}
+                onPress={() => setForm(p => ({ ...p, type }))}
+              >
+                <Text style={[styles.typeChipText, form.type === type && styles.typeChipTextActive]}>{type}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+        {fields.map(f => (
+          <View key={f.key} style={styles.fieldGroup}>
+            <Text style={styles.label}>{f.label}</Text>
+            <TextInput
+              style={styles.input}
+              value={form[f.key]}
+              onChangeText={v => setForm(p => ({ ...p, [f.key]: v }))}
+              placeholder={f.placeholder}
+              autoCapitalize="none"
+              placeholderTextColor={lightColors.textHint}
+            />
+          </View>
+        ))}
+        <View style={styles.formActions}>
+          <Button title="Cancel" variant="outline" onPress={() => setView('list')} style={styles.actionBtn} />
+          <Button
+            title={saving ? 'Saving…' : 'Save'}
+            variant="primary"
+            onPress={handleSave}
+            loading={saving}
+            disabled={saving || !form.name.trim()}
+            style={styles.actionBtn}
+          />
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Locations</Text>
+        <Button title="+ Add" variant="primary" size="sm" onPress={openCreate} />
+      </View>
+      {isLoading && locations.length === 0 ? (
+        <ActivityIndicator style={styles.loader} color={lightColors.primary} />
+      ) : (
+        <FlatList
+          data={locations}
+          keyExtractor={l => l.id}
+          renderItem={({ item }) => (
+            <View style={[styles.card, item.is_active !== 1 && styles.cardInactive]}>
+              <View style={styles.cardInfo}>
+                <Text style={styles.cardName}>{item.name}</Text>
+                <Text style={styles.cardMeta}>
+                  {item.type}
+                  {item.code ? ` · ${item.code}` : ''}
+                  {item.platform_location_id ? ` · platform ${item.platform_location_id}` : ' · not mapped'}
+                </Text>
+                <View style={styles.badges}>
+                  {item.is_default === 1 && <Text style={styles.badge}>Default</Text>}
+                  {item.id === registerLocationId && <Text style={styles.badge}>This register</Text>}
+                  {item.is_active !== 1 && <Text style={[styles.badge, styles.badgeMuted]}>Inactive</Text>}
+                </View>
+              </View>
+              <View style={styles.cardActions}>
+                {item.is_active === 1 && item.id !== registerLocationId && (
+                  <TouchableOpacity
+                    onPress={() => runAction(() => setRegisterLocation(item.id))}
+                    style={styles.iconBtn}
+                    accessibilityLabel="Use at this register"
+                  >
+                    <MaterialIcons name="point-of-sale" size={20} color={lightColors.primary} />
+                  </TouchableOpacity>
+                )}
+                {item.is_active === 1 && item.is_default !== 1 && (
+                  <TouchableOpacity
+                    onPress={() => runAction(() => setDefault(item.id, user?.id))}
+                    style={styles.iconBtn}
+                    accessibilityLabel="Set as default"
+                  >
+                    <MaterialIcons name="star-outline" size={20} color={lightColors.primary} />
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity onPress={() => openEdit(item)} style={styles.iconBtn}>
+                  <MaterialIcons name="edit" size={20} color={lightColors.primary} />
+                </TouchableOpacity>
+                {item.is_default !== 1 && (
+                  <TouchableOpacity onPress={() => handleToggleActive(item)} style={styles.iconBtn}>
+                    <MaterialIcons
+                      name={item.is_active === 1 ? 'block' : 'restore'}
+                      size={20}
+                      color={item.is_active === 1 ? lightColors.error : lightColors.primary}
+                    />
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+          )}
+          contentContainerStyle={styles.list}
+          ItemSeparatorComponent={() => <View style={{ height: spacing.xs }} />}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: lightColors.background, padding: spacing.md },
+  header: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: spacing.md },
+  title: { fontSize: typography.fontSize.lg, fontWeight: '700', color: lightColors.textPrimary },
+  list: { paddingBottom: spacing.xl },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: lightColors.surface,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    ...elevation.low,
+  },
+  cardInactive: { opacity: 0.6 },
+  cardInfo: { flex: 1 },
+  cardName: { fontSize: typography.fontSize.md, fontWeight: '600', color: lightColors.textPrimary },
+  cardMeta: { fontSize: typography.fontSize.sm, color: lightColors.textSecondary, marginTop: 2, textTransform: 'capitalize' },
+  badges: { flexDirection: 'row', gap: spacing.xs, marginTop: spacing.xs },
+  badge: {
+    fontSize: typography.fontSize.xs,
+    fontWeight: '600',
+    color: lightColors.primary,
+    backgroundColor: lightColors.primary + '20',
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: borderRadius.sm,
+    overflow: 'hidden',
+  },
+  badgeMuted: { color: lightColors.textSecondary, backgroundColor: lightColors.inputBackground },
+  cardActions: { flexDirection: 'row', gap: spacing.xs },
+  iconBtn: { padding: spacing.xs },
+  fieldGroup: { marginBottom: spacing.sm },
+  label: { fontSize: typography.fontSize.sm, fontWeight: '600', color: lightColors.textSecondary, marginBottom: spacing.xs },
+  input: {
+    backgroundColor: lightColors.surface,
+    borderWidth: 1,
+    borderColor: lightColors.border,
+    borderRadius: borderRadius.md,
+    padding: spacing.sm,
+    fontSize: typography.fontSize.md,
+    color: lightColors.textPrimary,
+  },
+  typeRow: { flexDirection: 'row', gap: spacing.xs },
+  typeChip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.round,
+    backgroundColor: lightColors.inputBackground,
+  },
+  typeChipActive: { backgroundColor: lightColors.primary },
+  typeChipText: { fontSize: typography.fontSize.sm, color: lightColors.textSecondary, textTransform: 'capitalize' },
+  typeChipTextActive: { color: lightColors.surface, fontWeight: '600' },
+  formActions: { flexDirection: 'row', gap: spacing.sm, marginTop: spacing.lg },
+  actionBtn: { flex: 1 },
+  loader: { marginTop: spacing.xl },
+});
+
+export default LocationsScreen;
@@ -1,7 +1,8 @@
 /**
  * ProcurementScreen
  *
- * Hub screen linking to Vendors, Purchase Orders, and Inventory Counts.
+ * Hub screen linking to Vendors, Purchase Orders, Inventory Counts, Transfer Orders,
+ * Locations and Vendor Returns.
  * Manager/admin only.
  */
 
@@ -19,7 +20,7 @@ interface HubItem {
   description: string;
   icon: React.ComponentProps<typeof MaterialIcons>['name'];
   color: string;
-  route: 'Vendors' | 'PurchaseOrders' | 'InventoryCount' | 'TransferOrders' | 'VendorReturns';
+  route: 'Vendors' | 'PurchaseOrders' | 'InventoryCount' | 'TransferOrders' | 'Locations' | 'VendorReturns';
 }
 
 const HUB_ITEMS: HubItem[] = [
@@ -51,6 +52,13 @@ const HUB_ITEMS: HubItem[] = [
     color: '#7E57C2',
     route: 'TransferOrders',
   },
+  {
+    label: 'Locations',
+    description: 'Stores and warehouses that hold stock',
+    icon: 'store',
+    color: '#8D6E63',
+    route: 'Locations',
+  },
   {
     label: 'Vendor Returns',
     description: 'Return items to suppliers',
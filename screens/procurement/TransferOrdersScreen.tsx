@@ -2,7 +2,7 @@
  * TransferOrdersScreen
  *
  * Lists transfer orders with status filter. Supports create, dispatch,
- * and receive flows. Manager/admin only.
+ * and receive flows between locations. Manager/admin only.
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
@@ -15,6 +15,7 @@ import { TransferOrderRow, TransferOrderItemRow } from '../../repositories/Procu
 import { useAuthContext } from '../../contexts/AuthProvider';
 import { useEcommerceSettings } from '../../hooks/useEcommerceSettings';
 import { useProductsForDisplay } from '../../hooks/useProducts';
+import { useLocations } from '../../hooks/useLocations';
 import { ECommercePlatform } from '../../utils/platforms';
 
 type ViewMode = 'list' | 'detail' | 'create';
@@ -31,6 +32,9 @@ const TransferOrdersScreen: React.FC = () => {
   const { user } = useAuthContext();
   const { ecommerceSettings } = useEcommerceSettings();
   const { products } = useProductsForDisplay();
+  const { locations } = useLocations();
+  const activeLocations = locations.filter(l => l.is_active === 1);
+  const locationName = (id: string) => locations.find(l => l.id === id)?.name ?? id;
   const platform = (ecommerceSettings?.platform ?? 'offline') as ECommercePlatform;
 
   const [transfers, setTransfers] = useState<TransferOrderRow[]>([]);
@@ -77,8 +81,12 @@ const TransferOrdersScreen: React.FC = () => {
   };
 
   const handleCreate = async () => {
-    if (!fromLocation.trim() || !toLocation.trim()) {
-      Alert.alert('Validation Error', 'Please enter both from and to locations.');
+    if (!fromLocation || !toLocation) {
+      Alert.alert('Validation Error', 'Please choose both from and to locations.');
+      return;
+    }
+    if (fromLocation === toLocation) {
+      Alert.alert('Validation Error', 'From and to locations must be different.');
       return;
     }
     if (selectedProducts.length === 0) {
@@ -251,7 +259,7 @@ const TransferOrdersScreen: React.FC = () => {
               <TouchableOpacity style={styles.card} onPress={() => openDetail(item)}>
                 <View style={styles.cardHeader}>
                   <Text style={styles.cardTitle}>
-                    {item.from_location} → {item.to_location}
+                    {locationName(item.from_location)} → {locationName(item.to_location)}
                   </Text>
                   <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[item.status] + '20' }]}>
                     <Text style={[styles.statusText, { color: STATUS_COLORS[item.status] }]}>{item.status.replace('_', ' ')}</Text>
@@ -284,11 +292,11 @@ const TransferOrdersScreen: React.FC = () => {
           <View style={styles.detailCard}>
             <View style={styles.detailRow}>
               <Text style={styles.detailLabel}>From:</Text>
-              <Text style={styles.detailValue}>{selectedTransfer.from_location}</Text>
+              <Text style={styles.detailValue}>{locationName(selectedTransfer.from_location)}</Text>
             </View>
             <View style={styles.detailRow}>
               <Text style={styles.detailLabel}>To:</Text>
-              <Text style={styles.detailValue}>{selectedTransfer.to_location}</Text>
+              <Text style={styles.detailValue}>{locationName(selectedTransfer.to_location)}</Text>
             </View>
             <View style={styles.detailRow}>
               <Text style={styles.detailLabel}>Status:</Text>
@@ -343,22 +351,30 @@ const TransferOrdersScreen: React.FC = () => {
 
       <ScrollView style={styles.content}>
         <Text style={styles.label}>From Location *</Text>
-        <TextInput
-          style={styles.input}
-          value={fromLocation}
-          onChangeText={setFromLocation}
-          placeholder="e.g., Main Store"
-          placeholderTextColor={lightColors.textHint}
-        />
+        <View style={styles.locationRow}>
+          {activeLocations.map(location => (
+            <TouchableOpacity
+              key={location.id}
+              style={[styles.filterChip, fromLocation === location.id && styles.filterChipActive]}
+              onPress={() => setFromLocation(location.id)}
+            >
+              <Text style={[styles.locationChipText, fromLocation === location.id && styles.filterChipTextActive]}>{location.name}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
 
         <Text style={styles.label}>To Location *</Text>
-        <TextInput
-          style={styles.input}
-          value={toLocation}
-          onChangeText={setToLocation}
-          placeholder="e.g., Warehouse"
-          placeholderTextColor={lightColors.textHint}
-        />
+        <View style={styles.locationRow}>
+          {activeLocations.map(location => (
+            <TouchableOpacity
+              key={location.id}
+              style={[styles.filterChip, toLocation === location.id && styles.filterChipActive]}
+              onPress={() => setToLocation(location.id)}
+            >
+              <Text style={[styles.locationChipText, toLocation === location.id && styles.filterChipTextActive]}>{location.name}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
 
         <Text style={styles.label}>Notes</Text>
         <TextInput
@@ -464,6 +480,16 @@ const styles = StyleSheet.create({
     color: lightColors.textSecondary,
     textTransform: 'capitalize',
   },
+  locationRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+    marginBottom: spacing.md,
+  },
+  locationChipText: {
+    fontSize: typography.fontSize.sm,
+    color: lightColors.textSecondary,
+  },
   filterChipTextActive: {
     color: lightColors.surface,
     fontWeight: '600',
@@ -5,7 +5,8 @@ import { SwipeablePanel } from '../../components/SwipeablePanel';
 import { BasketBlockers } from '../../components/BasketBlockers';
 import { RecoveryModal, RecoveryAction } from '../../components/RecoveryModal';
 import { usePanelState } from '../../contexts/PanelStateProvider';
-import { formatMoney } from '../../utils/money';
+import { formatMoney, multiplyMoney } from '../../utils/money';
+import { formatQuantity, getMeasuredLine, SELLING_UNITS } from '../../services/product/unitOfMeasure';
 import { ECommercePlatform } from '../../utils/platforms';
 import { useCurrency } from '../../hooks/useCurrency';
 import { useTranslate } from '../../hooks/useTranslate';
@@ -75,9 +76,14 @@ export const Basket: React.FC<BasketProps> = ({ onCheckout, platform }) => {
     paymentLines,
     addPaymentLine,
     removePaymentLine,
+    redeemGiftCard,
     handleCompleteSplit,
     splitCashTenderAmount,
     confirmSplitCashPayment,
+    tipConfig,
+    tipAmount,
+    setTipAmount,
+    tipsOnTerminal,
   } = useCheckout({
     platform,
     onSuccess: () => {
@@ -198,39 +204,53 @@ export const Basket: React.FC<BasketProps> = ({ onCheckout, platform }) => {
     }
   };
 
-  const renderItem = ({ item }: { item: BasketItem }) => (
-    <View style={styles.cartItem}>
-      <View style={styles.itemInfo}>
-        <Text style={styles.itemName} numberOfLines={2}>
-          {item.name}
-        </Text>
-        <Text style={styles.itemPrice}>{formatMoney(item.price, currency.code)}</Text>
-        {item.sku && <Text style={styles.itemSku}>{t('basket.sku', { sku: item.sku })}</Text>}
-      </View>
-      <View style={styles.quantityContainer}>
-        <TouchableOpacity
-          style={styles.quantityButton}
-          onPress={() => handleDecrement(item.id, item.quantity)}
-          accessibilityLabel={`Decrease quantity of ${item.name}`}
-          accessibilityRole="button"
-        >
-          <Text style={styles.quantityButtonText}>-</Text>
-        </TouchableOpacity>
-        <Text style={styles.quantity} accessibilityLabel={`Quantity: ${item.quantity}`}>
-          {item.quantity}
-        </Text>
-        <TouchableOpacity
-          style={styles.quantityButton}
-          onPress={() => incrementQuantity(item.id)}
-          accessibilityLabel={`Increase quantity of ${item.name}`}
-          accessibilityRole="button"
-        >
-          <Text style={styles.quantityButtonText}>+</Text>
-        </TouchableOpacity>
+  const renderItem = ({ item }: { item: BasketItem }) => {
+    // Weighed and measured lines show their amount instead of a stepper
+    const measured = getMeasuredLine(item);
+    const lineAmount = multiplyMoney(item.price, item.quantity);
+    return (
+      <View style={styles.cartItem}>
+        <View style={styles.itemInfo}>
+          <Text style={styles.itemName} numberOfLines={2}>
+            {item.name}
+          </Text>
+          <Text style={styles.itemPrice}>
+            {formatMoney(item.price, currency.code)}
+            {measured ? `/${SELLING_UNITS[measured.unit].label}` : ''}
+          </Text>
+          {item.sku && <Text style={styles.itemSku}>{t('basket.sku', { sku: item.sku })}</Text>}
+        </View>
+        {measured ? (
+          <Text style={styles.measuredQuantity} accessibilityLabel={`Quantity: ${formatQuantity(item.quantity, measured.unit)}`}>
+            {formatQuantity(item.quantity, measured.unit)}
+          </Text>
+        ) : (
+          <View style={styles.quantityContainer}>
+            <TouchableOpacity
+              style={styles.quantityButton}
+              onPress={() => handleDecrement(item.id, item.quantity)}
+              accessibilityLabel={`Decrease quantity of ${item.name}`}
+              accessibilityRole="button"
+            >
+              <Text style={styles.quantityButtonText}>-</Text>
+            </TouchableOpacity>
+            <Text style={styles.quantity} accessibilityLabel={`Quantity: ${item.quantity}`}>
+              {item.quantity}
+            </Text>
+            <TouchableOpacity
+              style={styles.quantityButton}
+              onPress={() => incrementQuantity(item.id)}
+              accessibilityLabel={`Increase quantity of ${item.name}`}
+              accessibilityRole="button"
+            >
+              <Text style={styles.quantityButtonText}>+</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        <Text style={styles.itemTotal}>{formatMoney(lineAmount, currency.code)}</Text>
       </View>
-      <Text style={styles.itemTotal}>{formatMoney(item.price * item.quantity, currency.code)}</Text>
-    </View>
-  );
+    );
+  };
 
   return (
     <SwipeablePanel
@@ -379,12 +399,17 @@ export const Basket: React.FC<BasketProps> = ({ onCheckout, platform }) => {
         paymentLines={paymentLines}
         onAddPaymentLine={addPaymentLine}
         onRemovePaymentLine={removePaymentLine}
+        onRedeemGiftCard={redeemGiftCard}
         onCompleteSplit={handleCompleteSplit}
         splitCashTenderAmount={splitCashTenderAmount}
         onConfirmSplitCash={confirmSplitCashPayment}
         customerEmail={basket?.customerEmail}
         loyaltyPoints={loyaltyBalance?.points || 0}
         storeCreditDollars={storeCreditDollars}
+        tipConfig={tipConfig}
+        tipAmount={tipAmount}
+        onTipChange={setTipAmount}
+        tipsOnTerminal={tipsOnTerminal}
       />
 
       {/* Recovery Modal for errors and confirmations */}
@@ -430,6 +455,7 @@ const styles = StyleSheet.create({
   },
   quantityButtonText: { fontSize: typography.fontSize.lg, fontWeight: '700' },
   quantity: { fontSize: typography.fontSize.md, marginHorizontal: spacing.xs, minWidth: 20, textAlign: 'center' },
+  measuredQuantity: { fontSize: typography.fontSize.md, marginRight: spacing.sm, textAlign: 'right' },
   summary: { marginTop: spacing.lg, borderTopWidth: 1, borderTopColor: lightColors.border, paddingTop: spacing.md },
   summaryRow: { flexDirection: 'row', justifyContent: 'space-between', marginBottom: spacing.xs },
   summaryLabel: { fontSize: typography.fontSize.md, color: lightColors.textSecondary },
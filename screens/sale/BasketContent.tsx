@@ -2,7 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, FlatList, TouchableOpacity, ActivityIndicator, Animated } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { lightColors, spacing, typography, borderRadius } from '../../utils/theme';
-import { formatMoney } from '../../utils/money';
+import { formatMoney, multiplyMoney } from '../../utils/money';
+import { formatQuantity, getMeasuredLine, SELLING_UNITS } from '../../services/product/unitOfMeasure';
 import { CheckoutModal } from '../../components/CheckoutModal';
 import { StatusBadge } from '../../components/StatusBadge';
 import { BasketBlockers } from '../../components/BasketBlockers';
@@ -16,6 +17,14 @@ import { BasketItem, useBasketState } from '../../contexts/BasketStateProvider';
 import { useBasketActions } from '../../contexts/BasketActionsProvider';
 import { useCheckoutContext } from '../../contexts/CheckoutProvider';
 import { useSaleScreen } from '../../hooks/useSaleScreen';
+import { useManagerApproval } from '../../hooks/useManagerApproval';
+import { useAuthContext } from '../../contexts/AuthProvider';
+import DiscountModal, { ManualDiscountEntry } from '../../components/DiscountModal';
+import GiftCardModal from '../../components/GiftCardModal';
+import { useGiftCards } from '../../hooks/useGiftCards';
+import { GiftCardLineAction } from '../../services/giftcard/giftCard';
+import HeldBasketsModal from '../../components/HeldBasketsModal';
+import { useHeldBaskets } from '../../hooks/useHeldBaskets';
 
 interface BasketContentProps {
   platform?: ECommercePlatform;
@@ -25,7 +34,21 @@ interface BasketContentProps {
 export const BasketContent: React.FC<BasketContentProps> = ({ platform, onCheckout }) => {
   const currency = useCurrency();
   const { isLoading, basket, basketItems } = useBasketState();
-  const { incrementQuantity, decrementQuantity, removeFromBasket, setCustomer, applyDiscount } = useBasketActions();
+  const {
+    incrementQuantity,
+    decrementQuantity,
+    removeFromBasket,
+    setCustomer,
+    applyDiscount,
+    addBasketAdjustment,
+    addLineAdjustment,
+    removeAdjustment,
+    addGiftCard,
+    parkBasket,
+    recallBasket,
+  } = useBasketActions();
+  const { user } = useAuthContext();
+  const { requestAuthoriser } = useManagerApproval();
   const { unsyncedOrdersCount, syncAllPendingOrders } = useCheckoutContext();
   const { blockers, saleState } = useSaleScreen();
 
@@ -72,13 +95,24 @@ export const BasketContent: React.FC<BasketContentProps> = ({ platform, onChecko
     paymentLines,
     addPaymentLine,
     removePaymentLine,
+    redeemGiftCard,
     handleCompleteSplit,
     splitCashTenderAmount,
     confirmSplitCashPayment,
+    tipConfig,
+    tipAmount,
+    setTipAmount,
+    tipsOnTerminal,
   } = useCheckout({ platform, onSuccess: () => onCheckout?.() });
 
   const [isSyncing, setIsSyncing] = useState(false);
   const [customerModalVisible, setCustomerModalVisible] = useState(false);
+  // null = closed; { } = whole sale; { itemId } = a single line
+  const [discountTarget, setDiscountTarget] = useState<{ itemId?: string; itemName?: string } | null>(null);
+  const [giftCardModalVisible, setGiftCardModalVisible] = useState(false);
+  const giftCards = useGiftCards(platform);
+  const [heldBasketsVisible, setHeldBasketsVisible] = useState(false);
+  const heldBaskets = useHeldBaskets();
 
   // Loyalty & store credit — load balances when customer changes
   const {
@@ -110,6 +144,58 @@ export const BasketContent: React.FC<BasketContentProps> = ({ platform, onChecko
     setCustomerModalVisible(false);
   };
 
+  const handleAddGiftCard = async (code: string, amount: number, action: GiftCardLineAction) => {
+    setGiftCardModalVisible(false);
+    giftCards.reset();
+    await addGiftCard(code, amount, action);
+  };
+
+  const handleCloseGiftCards = () => {
+    setGiftCardModalVisible(false);
+    giftCards.reset();
+  };
+
+  const handleParkBasket = async (name: string) => {
+    setHeldBasketsVisible(false);
+    await parkBasket(name, user?.id);
+    await heldBaskets.refresh();
+  };
+
+  const handleRecallBasket = async (heldBasketId: string) => {
+    setHeldBasketsVisible(false);
+    await recallBasket(heldBasketId, user?.id);
+    await heldBaskets.refresh();
+  };
+
+  const handleApplyCode = async (code: string) => {
+    setDiscountTarget(null);
+    await applyDiscount(code);
+  };
+
+  // Manual discounts are authorised through ManagerApprovalService (discount:manual)
+  const handleApplyManual = async (entry: ManualDiscountEntry) => {
+    const target = discountTarget;
+    setDiscountTarget(null);
+    const authorisedBy = await requestAuthoriser('discount:manual');
+    if (!authorisedBy) return;
+
+    const input = { source: 'manual' as const, ...entry, appliedBy: user?.id, authorisedBy };
+    if (target?.itemId) {
+      await addLineAdjustment(target.itemId, input);
+    } else {
+      await addBasketAdjustment(input);
+    }
+  };
+
+  const handleReverseRedemption = async () => {
+    const source = activeRedemption?.type;
+    await reverseActiveRedemption();
+    const adjustment = basket?.adjustments?.find(a => a.source === source);
+    if (adjustment) {
+      await removeAdjustment(adjustment.id);
+    }
+  };
+
   const handleSyncOrders = async () => {
     setIsSyncing(true);
     try {
@@ -119,50 +205,107 @@ export const BasketContent: React.FC<BasketContentProps> = ({ platform, onChecko
     }
   };
 
-  const renderItem = ({ item }: { item: BasketItem }) => (
-    <View style={styles.cartItem}>
-      <View style={styles.itemInfo}>
-        <Text style={styles.itemName} numberOfLines={2}>
-          {item.name}
-        </Text>
-        <Text style={styles.itemPrice}>{formatMoney(item.price, currency.code)}</Text>
-        {item.sku && <Text style={styles.itemSku}>{item.sku}</Text>}
-      </View>
-      <View style={styles.quantityContainer}>
-        <TouchableOpacity
-          style={styles.quantityButton}
-          onPress={() => handleDecrement(item.id, item.quantity)}
-          accessibilityLabel={`Decrease quantity of ${item.name}`}
-          accessibilityRole="button"
-        >
-          <Text style={styles.quantityButtonText}>−</Text>
-        </TouchableOpacity>
-        <Text style={styles.quantity} accessibilityLabel={`Quantity: ${item.quantity}`}>
-          {item.quantity}
-        </Text>
-        <TouchableOpacity
-          style={styles.quantityButton}
-          onPress={() => incrementQuantity(item.id)}
-          accessibilityLabel={`Increase quantity of ${item.name}`}
-          accessibilityRole="button"
-        >
-          <Text style={styles.quantityButtonText}>+</Text>
-        </TouchableOpacity>
-      </View>
-      <View style={styles.itemRight}>
-        <Text style={styles.itemTotal}>{formatMoney(item.price * item.quantity, currency.code)}</Text>
-        <TouchableOpacity
-          style={styles.removeButton}
-          onPress={() => removeFromBasket(item.id)}
-          hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
-          accessibilityLabel={`Remove ${item.name} from cart`}
-          accessibilityRole="button"
-        >
-          <MaterialIcons name="delete-outline" size={18} color={lightColors.error} />
-        </TouchableOpacity>
+  const renderItem = ({ item }: { item: BasketItem }) => {
+    // Weighed and measured lines show their amount instead of a stepper
+    const measured = getMeasuredLine(item);
+    const lineAmount = multiplyMoney(item.price, item.quantity);
+    return (
+      <View style={styles.cartItem}>
+        <View style={styles.itemInfo}>
+          <Text style={styles.itemName} numberOfLines={2}>
+            {item.name}
+          </Text>
+          <Text style={styles.itemPrice}>
+            {formatMoney(item.price, currency.code)}
+            {measured ? `/${SELLING_UNITS[measured.unit].label}` : ''}
+          </Text>
+          {item.sku && <Text style={styles.itemSku}>{item.sku}</Text>}
+          {item.promotions?.map(promotion => (
+            <View key={promotion.promotionId} style={styles.itemPromotion}>
+              <MaterialIcons name="local-offer" size={12} color={lightColors.success} />
+              <Text style={styles.itemPromotionText} numberOfLines={1}>
+                {promotion.promotionName} −{formatMoney(promotion.amount, currency.code)}
+              </Text>
+            </View>
+          ))}
+          {item.adjustments?.map(adjustment => (
+            <TouchableOpacity
+              key={adjustment.id}
+              style={styles.itemPromotion}
+              onPress={() => removeAdjustment(adjustment.id)}
+              accessibilityLabel={`Remove discount ${adjustment.label} from ${item.name}`}
+              accessibilityRole="button"
+            >
+              <MaterialIcons name="sell" size={12} color={lightColors.success} />
+              <Text style={styles.itemPromotionText} numberOfLines={1}>
+                {adjustment.reason ?? adjustment.label} −{formatMoney(adjustment.amount, currency.code)}
+              </Text>
+              <MaterialIcons name="close" size={12} color={lightColors.textSecondary} />
+            </TouchableOpacity>
+          ))}
+        </View>
+        {measured ? (
+          <Text style={styles.measuredQuantity} accessibilityLabel={`Quantity: ${formatQuantity(item.quantity, measured.unit)}`}>
+            {formatQuantity(item.quantity, measured.unit)}
+          </Text>
+        ) : (
+          <View style={styles.quantityContainer}>
+            <TouchableOpacity
+              style={styles.quantityButton}
+              onPress={() => handleDecrement(item.id, item.quantity)}
+              accessibilityLabel={`Decrease quantity of ${item.name}`}
+              accessibilityRole="button"
+            >
+              <Text style={styles.quantityButtonText}>−</Text>
+            </TouchableOpacity>
+            <Text style={styles.quantity} accessibilityLabel={`Quantity: ${item.quantity}`}>
+              {item.quantity}
+            </Text>
+            <TouchableOpacity
+              style={styles.quantityButton}
+              onPress={() => incrementQuantity(item.id)}
+              accessibilityLabel={`Increase quantity of ${item.name}`}
+              accessibilityRole="button"
+            >
+              <Text style={styles.quantityButtonText}>+</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        <View style={styles.itemRight}>
+          {item.promotionDiscount || item.adjustmentDiscount ? (
+            <>
+              <Text style={styles.itemTotalStruck}>{formatMoney(lineAmount, currency.code)}</Text>
+              <Text style={styles.itemTotal}>
+                {formatMoney(lineAmount - (item.promotionDiscount ?? 0) - (item.adjustmentDiscount ?? 0), currency.code)}
+              </Text>
+            </>
+          ) : (
+            <Text style={styles.itemTotal}>{formatMoney(lineAmount, currency.code)}</Text>
+          )}
+          <View style={styles.itemActions}>
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => setDiscountTarget({ itemId: item.id, itemName: item.name })}
+              hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+              accessibilityLabel={`Discount ${item.name}`}
+              accessibilityRole="button"
+            >
+              <MaterialIcons name="sell" size={18} color={lightColors.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => removeFromBasket(item.id)}
+              hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+              accessibilityLabel={`Remove ${item.name} from cart`}
+              accessibilityRole="button"
+            >
+              <MaterialIcons name="delete-outline" size={18} color={lightColors.error} />
+            </TouchableOpacity>
+          </View>
+        </View>
       </View>
-    </View>
-  );
+    );
+  };
 
   return (
     <View style={styles.container}>
@@ -257,7 +400,7 @@ export const BasketContent: React.FC<BasketContentProps> = ({ platform, onChecko
               onPress={async () => {
                 try {
                   const discount = await redeemLoyalty(loyaltyBalance.points);
-                  await applyDiscount(`LOYALTY_${discount.toFixed(2)}`);
+                  await addBasketAdjustment({ source: 'loyalty', type: 'fixed', value: discount, appliedBy: user?.id });
                 } catch {
                   // error shown via hook state
                 }
@@ -278,7 +421,7 @@ export const BasketContent: React.FC<BasketContentProps> = ({ platform, onChecko
               onPress={async () => {
                 try {
                   const result = await redeemStoreCredit(storeCreditDollars);
-                  await applyDiscount(`CREDIT_${result.toFixed(2)}`);
+                  await addBasketAdjustment({ source: 'store_credit', type: 'fixed', value: result, appliedBy: user?.id });
                 } catch {
                   // error shown via hook state
                 }
@@ -296,7 +439,7 @@ export const BasketContent: React.FC<BasketContentProps> = ({ platform, onChecko
           {activeRedemption && (
             <TouchableOpacity
               style={styles.loyaltyReversalBtn}
-              onPress={reverseActiveRedemption}
+              onPress={handleReverseRedemption}
               accessibilityRole="button"
               accessibilityLabel="Remove redemption"
             >
@@ -323,6 +466,59 @@ export const BasketContent: React.FC<BasketContentProps> = ({ platform, onChecko
           <Text style={styles.summaryLabel}>Subtotal</Text>
           <Text style={styles.summaryValue}>{formatMoney(subtotal, currency.code)}</Text>
         </View>
+        {basket?.promotionDiscount ? (
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Promotions</Text>
+            <Text style={[styles.summaryValue, styles.promotionValue]}>−{formatMoney(basket.promotionDiscount, currency.code)}</Text>
+          </View>
+        ) : null}
+        {basket?.adjustments?.map(adjustment => (
+          <View key={adjustment.id} style={styles.summaryRow}>
+            <TouchableOpacity
+              style={styles.adjustmentLabel}
+              onPress={() => removeAdjustment(adjustment.id)}
+              accessibilityLabel={`Remove discount ${adjustment.label}`}
+              accessibilityRole="button"
+            >
+              <Text style={styles.summaryLabel} numberOfLines={1}>
+                {adjustment.label}
+              </Text>
+              <MaterialIcons name="close" size={14} color={lightColors.textSecondary} />
+            </TouchableOpacity>
+            <Text style={[styles.summaryValue, styles.promotionValue]}>−{formatMoney(adjustment.amount, currency.code)}</Text>
+          </View>
+        ))}
+        {basketItems.length > 0 && (
+          <TouchableOpacity
+            style={styles.addDiscountButton}
+            onPress={() => setDiscountTarget({})}
+            accessibilityLabel="Add discount to sale"
+            accessibilityRole="button"
+          >
+            <MaterialIcons name="sell" size={14} color={lightColors.primary} />
+            <Text style={styles.addDiscountText}>Add Discount</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={styles.addDiscountButton}
+          onPress={() => setGiftCardModalVisible(true)}
+          accessibilityLabel="Sell, reload or check a gift card"
+          accessibilityRole="button"
+        >
+          <MaterialIcons name="redeem" size={14} color={lightColors.primary} />
+          <Text style={styles.addDiscountText}>Gift Card</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.addDiscountButton}
+          onPress={() => setHeldBasketsVisible(true)}
+          accessibilityLabel="Park this sale or recall a held sale"
+          accessibilityRole="button"
+        >
+          <MaterialIcons name="pause-circle-outline" size={14} color={lightColors.primary} />
+          <Text style={styles.addDiscountText}>
+            Held Sales{heldBaskets.heldBaskets.length > 0 ? ` (${heldBaskets.heldBaskets.length})` : ''}
+          </Text>
+        </TouchableOpacity>
         <View style={styles.summaryRow}>
           <Text style={styles.summaryLabel}>Tax</Text>
           <Text style={styles.summaryValue}>{formatMoney(tax, currency.code)}</Text>
@@ -382,6 +578,36 @@ export const BasketContent: React.FC<BasketContentProps> = ({ platform, onChecko
         onClose={() => setCustomerModalVisible(false)}
       />
 
+      <DiscountModal
+        visible={discountTarget !== null}
+        itemName={discountTarget?.itemName}
+        onApplyCode={handleApplyCode}
+        onApplyManual={handleApplyManual}
+        onClose={() => setDiscountTarget(null)}
+      />
+
+      <GiftCardModal
+        visible={giftCardModalVisible}
+        balance={giftCards.balance}
+        isChecking={giftCards.isChecking}
+        error={giftCards.error}
+        onCheckBalance={giftCards.checkBalance}
+        onAddToBasket={handleAddGiftCard}
+        onClose={handleCloseGiftCards}
+      />
+
+      <HeldBasketsModal
+        visible={heldBasketsVisible}
+        heldBaskets={heldBaskets.heldBaskets}
+        isLoading={heldBaskets.isLoading}
+        error={heldBaskets.error}
+        canPark={basketItems.length > 0}
+        onPark={handleParkBasket}
+        onRecall={handleRecallBasket}
+        onDiscard={id => heldBaskets.discard(id, user?.id)}
+        onClose={() => setHeldBasketsVisible(false)}
+      />
+
       <CheckoutModal
         visible={checkoutVisible}
         orderId={currentOrder?.id || ''}
@@ -399,12 +625,17 @@ export const BasketContent: React.FC<BasketContentProps> = ({ platform, onChecko
         paymentLines={paymentLines}
         onAddPaymentLine={addPaymentLine}
         onRemovePaymentLine={removePaymentLine}
+        onRedeemGiftCard={redeemGiftCard}
         onCompleteSplit={handleCompleteSplit}
         splitCashTenderAmount={splitCashTenderAmount}
         onConfirmSplitCash={confirmSplitCashPayment}
         customerEmail={basket?.customerEmail}
         loyaltyPoints={loyaltyBalance?.points || 0}
         storeCreditDollars={storeCreditDollars}
+        tipConfig={tipConfig}
+        tipAmount={tipAmount}
+        onTipChange={setTipAmount}
+        tipsOnTerminal={tipsOnTerminal}
       />
     </View>
   );
@@ -432,6 +663,15 @@ const styles = StyleSheet.create({
   itemSku: { fontSize: 10, color: lightColors.textHint, marginTop: 1 },
   itemRight: { alignItems: 'flex-end', gap: 4 },
   itemTotal: { fontSize: typography.fontSize.sm, fontWeight: '600', minWidth: 56, textAlign: 'right' },
+  itemTotalStruck: {
+    fontSize: typography.fontSize.xs,
+    color: lightColors.textHint,
+    textDecorationLine: 'line-through',
+    textAlign: 'right',
+  },
+  itemPromotion: { flexDirection: 'row', alignItems: 'center', gap: 4, marginTop: 2 },
+  itemPromotionText: { fontSize: typography.fontSize.xs, color: lightColors.success, flexShrink: 1 },
+  itemActions: { flexDirection: 'row', gap: spacing.xs },
   removeButton: { padding: 2 },
   quantityContainer: { flexDirection: 'row', alignItems: 'center', marginRight: spacing.sm },
   quantityButton: {
@@ -445,11 +685,16 @@ const styles = StyleSheet.create({
   },
   quantityButtonText: { fontSize: typography.fontSize.md, fontWeight: '700' },
   quantity: { fontSize: typography.fontSize.sm, marginHorizontal: spacing.xs, minWidth: 18, textAlign: 'center' },
+  measuredQuantity: { fontSize: typography.fontSize.sm, marginRight: spacing.sm, textAlign: 'right' },
   summary: { borderTopWidth: 1, borderTopColor: lightColors.border, padding: spacing.md, backgroundColor: lightColors.surface },
   syncBanner: { flexDirection: 'row', justifyContent: 'center', alignItems: 'center', gap: spacing.sm, marginBottom: spacing.sm },
   summaryRow: { flexDirection: 'row', justifyContent: 'space-between', marginBottom: spacing.xs },
   summaryLabel: { fontSize: typography.fontSize.sm, color: lightColors.textSecondary },
   summaryValue: { fontSize: typography.fontSize.sm },
+  promotionValue: { color: lightColors.success },
+  adjustmentLabel: { flexDirection: 'row', alignItems: 'center', gap: 4, flexShrink: 1 },
+  addDiscountButton: { flexDirection: 'row', alignItems: 'center', gap: spacing.xs, marginBottom: spacing.xs },
+  addDiscountText: { fontSize: typography.fontSize.sm, color: lightColors.primary, fontWeight: '600' },
   totalRow: { marginTop: spacing.xs, borderTopWidth: 1, borderTopColor: lightColors.border, paddingTop: spacing.sm },
   totalLabel: { fontSize: typography.fontSize.lg, fontWeight: '700' },
   totalValue: { fontSize: typography.fontSize.lg, fontWeight: '700', color: lightColors.primary },
@@ -15,6 +15,8 @@ interface ProductCardProps {
   initialQuantity?: number;
   stock?: number;
   widthPercent?: number;
+  /** Selling unit of an item sold by measure, e.g. "kg" — each tap weighs a new line, so there is no stepper */
+  unitLabel?: string;
 }
 
 const ProductCardInner: React.FC<ProductCardProps> = ({
@@ -27,6 +29,7 @@ const ProductCardInner: React.FC<ProductCardProps> = ({
   initialQuantity = 0,
   stock,
   widthPercent,
+  unitLabel,
 }) => {
   const currency = useCurrency();
   const [quantity, setQuantity] = useState(initialQuantity);
@@ -100,11 +103,14 @@ const ProductCardInner: React.FC<ProductCardProps> = ({
         <Text style={styles.name} numberOfLines={2} ellipsizeMode="tail">
           {name}
         </Text>
-        <Text style={styles.price}>{formatMoney(priceProp, currency.code)}</Text>
+        <Text style={styles.price}>
+          {formatMoney(priceProp, currency.code)}
+          {unitLabel ? `/${unitLabel}` : ''}
+        </Text>
       </View>
 
       {/* Quantity controls — always below info, never overlapping */}
-      {isInBasket && (
+      {isInBasket && !unitLabel && (
         <View style={styles.quantityBar}>
           <TouchableOpacity
             style={styles.quantityButton}
@@ -7,6 +7,7 @@ import { ECommercePlatform } from '../../utils/platforms';
 import VariantPicker from '../../components/VariantPicker';
 import { UnifiedProductVariant, UnifiedProductOption } from '../../services/product/types';
 import { useCurrency } from '../../hooks/useCurrency';
+import { isMeasured, SELLING_UNITS, SellingUnit } from '../../services/product/unitOfMeasure';
 
 /**
  * Display-ready product interface
@@ -51,17 +52,23 @@ export interface DisplayProduct {
   taxProfileId?: string;
   /** Online: platform tax code/class */
   taxCode?: string;
+  /** How the default variant is sold; `price` is per this unit */
+  unitOfMeasure?: SellingUnit;
+  /** Container weight (kg) deducted when weighing */
+  tareWeight?: number;
 }
 
 interface ProductGridProps {
   products: DisplayProduct[];
   onAddToCart: (id: string, quantity: number, variantId?: string) => void;
+  /** Open the weighing step for an item sold by weight or length */
+  onWeigh: (id: string, variantId?: string) => void;
   basketItems?: Record<string, number>;
   numColumns?: number;
   onLoadMore?: () => void;
 }
 
-const ProductGridInner: React.FC<ProductGridProps> = ({ products, onAddToCart, basketItems = {}, numColumns = 2, onLoadMore }) => {
+const ProductGridInner: React.FC<ProductGridProps> = ({ products, onAddToCart, onWeigh, basketItems = {}, numColumns = 2, onLoadMore }) => {
   const currency = useCurrency();
   const [pickerProduct, setPickerProduct] = useState<DisplayProduct | null>(null);
 
@@ -75,18 +82,26 @@ const ProductGridInner: React.FC<ProductGridProps> = ({ products, onAddToCart, b
         setPickerProduct(product);
         return;
       }
+      if (product && isMeasured(product.unitOfMeasure)) {
+        onWeigh(id);
+        return;
+      }
       onAddToCart(id, quantity);
     },
-    [products, onAddToCart]
+    [products, onAddToCart, onWeigh]
   );
 
   const handleVariantSelect = useCallback(
     (variant: UnifiedProductVariant) => {
       if (!pickerProduct) return;
-      onAddToCart(pickerProduct.id, 1, variant.id);
+      if (isMeasured(variant.unitOfMeasure)) {
+        onWeigh(pickerProduct.id, variant.id);
+      } else {
+        onAddToCart(pickerProduct.id, 1, variant.id);
+      }
       setPickerProduct(null);
     },
-    [pickerProduct, onAddToCart]
+    [pickerProduct, onAddToCart, onWeigh]
   );
 
   const renderItem = useCallback(
@@ -101,6 +116,7 @@ const ProductGridInner: React.FC<ProductGridProps> = ({ products, onAddToCart, b
         inBasket={!!basketItems[item.id]}
         initialQuantity={basketItems[item.id] || 0}
         widthPercent={cardWidthPercent}
+        unitLabel={isMeasured(item.unitOfMeasure) ? SELLING_UNITS[item.unitOfMeasure].label : undefined}
       />
     ),
     [handleCardPress, basketItems, cardWidthPercent]
@@ -1,15 +1,24 @@
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
-import { SearchOptions } from '../../services/search/SearchServiceInterface';
+import { SearchFacets, SearchOptions } from '../../services/search/SearchServiceInterface';
 import { Button } from '../../components/Button';
 import { lightColors, spacing, typography } from '../../utils/theme';
 
 interface FilterPanelProps {
   filterOptions: SearchOptions;
   onFilterChange: (key: keyof SearchOptions, value: SearchOptions[keyof SearchOptions]) => void;
+  /** Counts from the last search; category chips are shown only when present */
+  facets?: SearchFacets;
 }
 
-const FilterPanel: React.FC<FilterPanelProps> = ({ filterOptions, onFilterChange }) => {
+const FilterPanel: React.FC<FilterPanelProps> = ({ filterOptions, onFilterChange, facets }) => {
+  const selectedCategories = filterOptions.categories ?? [];
+
+  const toggleCategory = (category: string) => {
+    const next = selectedCategories.includes(category) ? selectedCategories.filter(c => c !== category) : [...selectedCategories, category];
+    onFilterChange('categories', next);
+  };
+
   return (
     <View style={styles.filtersContainer}>
       <Text style={styles.filterTitle}>Filter Results</Text>
@@ -35,7 +44,7 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ filterOptions, onFilterChange
       </View>
 
       <View style={styles.filterRow}>
-        <Text style={styles.filterLabel}>In Stock Only:</Text>
+        <Text style={styles.filterLabel}>In Stock Only{facets ? ` (${facets.inStock})` : ''}:</Text>
         <Button
           title={filterOptions.inStock ? 'On' : 'Off'}
           variant={filterOptions.inStock ? 'success' : 'outline'}
@@ -43,6 +52,23 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ filterOptions, onFilterChange
           onPress={() => onFilterChange('inStock', !filterOptions.inStock)}
         />
       </View>
+
+      {facets && facets.categories.length > 0 && (
+        <>
+          <Text style={styles.facetTitle}>Categories</Text>
+          <View style={styles.facetRow}>
+            {facets.categories.map(facet => (
+              <Button
+                key={facet.value}
+                title={`${facet.value} (${facet.count})`}
+                variant={selectedCategories.includes(facet.value) ? 'primary' : 'outline'}
+                size="sm"
+                onPress={() => toggleCategory(facet.value)}
+              />
+            ))}
+          </View>
+        </>
+      )}
     </View>
   );
 };
@@ -70,6 +96,18 @@ const styles = StyleSheet.create({
     fontSize: typography.fontSize.sm,
     color: lightColors.textPrimary,
   },
+  facetTitle: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: '600' as '600',
+    marginTop: spacing.sm,
+    marginBottom: spacing.xs,
+    color: lightColors.textPrimary,
+  },
+  facetRow: {
+    flexDirection: 'row' as 'row',
+    flexWrap: 'wrap' as 'wrap',
+    gap: spacing.xs,
+  },
 });
 
 export default FilterPanel;
@@ -3,12 +3,14 @@ import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-nati
 import { useTheme } from '../../contexts/ThemeProvider';
 import { ScannerSettingsTab } from './hardware/ScannerSettingsTab';
 import { PrinterSettingsTab } from './hardware/PrinterSettingsTab';
+import { LabelPrinterSettingsTab } from './hardware/LabelPrinterSettingsTab';
 import { CashDrawerSettingsTab } from './hardware/CashDrawerSettingsTab';
 import { KdsSettingsTab } from './hardware/KdsSettingsTab';
 import { CustomerDisplaySettingsTab } from './hardware/CustomerDisplaySettingsTab';
 import { AuthHardwareSettingsTab } from './hardware/AuthHardwareSettingsTab';
+import { ScaleSettingsTab } from './hardware/ScaleSettingsTab';
 
-type HardwareTab = 'scanner' | 'printer' | 'drawer' | 'kds' | 'display' | 'auth';
+type HardwareTab = 'scanner' | 'printer' | 'labels' | 'drawer' | 'scale' | 'kds' | 'display' | 'auth';
 
 interface TabConfig {
   id: HardwareTab;
@@ -20,7 +22,9 @@ interface TabConfig {
 const HARDWARE_TABS: TabConfig[] = [
   { id: 'scanner', label: 'Barcode Scanner', icon: '📷', component: ScannerSettingsTab },
   { id: 'printer', label: 'Receipt Printer', icon: '🖨️', component: PrinterSettingsTab },
+  { id: 'labels', label: 'Label Printer', icon: '🏷️', component: LabelPrinterSettingsTab },
   { id: 'drawer', label: 'Cash Drawer', icon: '💰', component: CashDrawerSettingsTab },
+  { id: 'scale', label: 'Scale', icon: '⚖️', component: ScaleSettingsTab },
   { id: 'kds', label: 'Kitchen Display', icon: '🍳', component: KdsSettingsTab },
   { id: 'display', label: 'Customer Display', icon: '📺', component: CustomerDisplaySettingsTab },
   { id: 'auth', label: 'Auth Hardware', icon: '🔐', component: AuthHardwareSettingsTab },
@@ -1,15 +1,19 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { View, Text, TextInput, TouchableOpacity, StyleSheet, ActivityIndicator, Alert } from 'react-native';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, ActivityIndicator, Alert, Switch } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { lightColors, spacing, typography, borderRadius, elevation } from '../../utils/theme';
-import { instoreApiConfig, InstoreApiMode } from '../../services/instoreapi/InstoreApiConfig';
+import { instoreApiConfig, InstoreApiMode, INSTORE_API_VERSION } from '../../services/instoreapi/InstoreApiConfig';
 import { instoreApiClient } from '../../services/clients/instoreapi/InstoreApiClient';
 import { instoreApiServer } from '../../services/instoreapi/InstoreApiServer';
 import { instoreApiDiscovery, DiscoveredServer } from '../../services/instoreapi/InstoreApiDiscovery';
 import { BasketServiceFactory } from '../../services/basket/BasketServiceFactory';
 import { syncPoller } from '../../services/instoreapi/sync/SyncPoller';
+import { failoverService, FailoverState } from '../../services/instoreapi/failover/FailoverService';
+import { registerAuthService, IssuedCredential, PairingCode, RegisterRole } from '../../services/instoreapi/auth/RegisterAuthService';
+import { RegisterCredentialRow } from '../../repositories/RegisterCredentialRepository';
 import { generateUUID } from '../../utils/uuid';
 import { useTranslate } from '../../hooks/useTranslate';
+import { useAuthContext } from '../../contexts/AuthProvider';
 
 const MODE_OPTION_KEYS: { value: InstoreApiMode; labelKey: string; descKey: string }[] = [
   { value: 'standalone', labelKey: 'settings.instoreApi.standalone', descKey: 'settings.instoreApi.standaloneDesc' },
@@ -17,48 +21,130 @@ const MODE_OPTION_KEYS: { value: InstoreApiMode; labelKey: string; descKey: stri
   { value: 'client', labelKey: 'settings.instoreApi.client', descKey: 'settings.instoreApi.clientDesc' },
 ];
 
+const ROLE_LABEL_KEYS: Record<RegisterRole, string> = {
+  register: 'settings.instoreApi.roleRegister',
+  back_office: 'settings.instoreApi.roleBackOffice',
+};
+
 const InstoreApiSettingsTab: React.FC = () => {
   const { t } = useTranslate();
+  const { user } = useAuthContext();
   const [mode, setMode] = useState<InstoreApiMode>('standalone');
   const [port, setPort] = useState('8787');
-  const [sharedSecret, setSharedSecret] = useState('');
   const [registerName, setRegisterName] = useState('Register 1');
   const [serverAddress, setServerAddress] = useState('');
   const [connectionStatus, setConnectionStatus] = useState<'idle' | 'testing' | 'connected' | 'failed'>('idle');
   const [scanning, setScanning] = useState(false);
   const [discoveredServers, setDiscoveredServers] = useState<DiscoveredServer[]>([]);
   const [scanProgress, setScanProgress] = useState(0);
+  // Servers found by their mDNS advertisement while the client tab is open
+  const [advertisedServers, setAdvertisedServers] = useState<DiscoveredServer[]>([]);
+  const [storeId, setStoreId] = useState('');
+  // Server mode: pairing and paired registers
+  const [pairingRole, setPairingRole] = useState<RegisterRole>('register');
+  const [pairingCode, setPairingCode] = useState<PairingCode | null>(registerAuthService.activePairingCode);
+  const [credentials, setCredentials] = useState<RegisterCredentialRow[]>([]);
+  // Client mode: this register's credential
+  const [credential, setCredential] = useState<IssuedCredential | null>(null);
+  const [codeInput, setCodeInput] = useState('');
+  const [pairing, setPairing] = useState(false);
+  // Failover: leader election between registers
+  const [failoverEnabled, setFailoverEnabled] = useState(false);
+  const [failoverPriority, setFailoverPriority] = useState('0');
+  const [advertisedAddress, setAdvertisedAddress] = useState('');
+  const [failoverState, setFailoverState] = useState<FailoverState | null>(failoverService.state);
+
+  const loadCredentials = useCallback(async () => {
+    setCredentials(await registerAuthService.listCredentials());
+  }, []);
 
   useEffect(() => {
     (async () => {
       const settings = await instoreApiConfig.load();
       setMode(settings.mode);
       setPort(String(settings.port));
-      setSharedSecret(settings.sharedSecret);
       setRegisterName(settings.registerName);
       setServerAddress(settings.serverAddress);
+      setCredential(settings.credential);
+      setFailoverEnabled(settings.failoverEnabled);
+      setFailoverPriority(String(settings.failoverPriority));
+      setAdvertisedAddress(settings.advertisedAddress);
+      setStoreId(settings.storeId);
     })();
   }, []);
 
+  // Follow promotions and leader changes while the tab is open
+  useEffect(
+    () =>
+      failoverService.onStateChange(state => {
+        setFailoverState(state);
+        setMode(instoreApiConfig.current.mode);
+        setServerAddress(instoreApiConfig.current.serverAddress);
+      }),
+    []
+  );
+
+  useEffect(() => {
+    if (mode === 'server') loadCredentials();
+  }, [mode, loadCredentials]);
+
+  // Browse for advertised servers while choosing one in client mode
+  useEffect(() => {
+    if (mode !== 'client') {
+      setAdvertisedServers([]);
+      return;
+    }
+    return instoreApiDiscovery.browse(setAdvertisedServers);
+  }, [mode]);
+
+  // Advertised servers first; scan results only for servers not advertising
+  const servers = useMemo(() => {
+    const advertised = new Set(advertisedServers.map(s => `${s.address}:${s.port}`));
+    const registerIds = new Set(advertisedServers.map(s => s.registerId));
+    return [
+      ...advertisedServers,
+      ...discoveredServers.filter(s => !advertised.has(`${s.address}:${s.port}`) && !(s.registerId && registerIds.has(s.registerId))),
+    ];
+  }, [advertisedServers, discoveredServers]);
+
+  // Hide the pairing code once it expires
+  useEffect(() => {
+    if (!pairingCode) return;
+    const timer = setTimeout(() => {
+      setPairingCode(registerAuthService.activePairingCode);
+      loadCredentials();
+    }, pairingCode.expiresAt - Date.now());
+    return () => clearTimeout(timer);
+  }, [pairingCode, loadCredentials]);
+
   const handleSave = useCallback(async () => {
     const registerId = instoreApiConfig.current.registerId || generateUUID();
     await instoreApiConfig.save({
       mode,
       port: parseInt(port, 10) || 8787,
-      sharedSecret,
       registerName,
       serverAddress,
       registerId,
+      failoverEnabled,
+      failoverPriority: Math.max(0, parseInt(failoverPriority, 10) || 0),
+      advertisedAddress: advertisedAddress.trim(),
+      storeId: storeId.trim(),
     });
 
     try {
+      failoverService.stop();
       if (mode === 'server') {
         await instoreApiServer.start();
         syncPoller.stop();
         BasketServiceFactory.getInstance().reset();
         Alert.alert(t('common.saved'), t('settings.instoreApi.savedServer', { port }));
       } else if (mode === 'client') {
-        await instoreApiServer.stop();
+        // A failover standby keeps listening so it can answer heartbeats
+        if (failoverEnabled) {
+          await instoreApiServer.start();
+        } else {
+          await instoreApiServer.stop();
+        }
         syncPoller.start();
         BasketServiceFactory.getInstance().reset();
         Alert.alert(t('common.saved'), t('settings.instoreApi.savedClient'));
@@ -68,13 +154,83 @@ const InstoreApiSettingsTab: React.FC = () => {
         BasketServiceFactory.getInstance().reset();
         Alert.alert(t('common.saved'), t('settings.instoreApi.savedStandalone'));
       }
+      await failoverService.start();
+      setFailoverState(failoverService.state);
     } catch (error) {
       Alert.alert(
         t('common.error'),
         `Failed to ${mode === 'server' ? 'start' : 'stop'} server: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
     }
-  }, [mode, port, sharedSecret, registerName, serverAddress, t]);
+  }, [mode, port, registerName, serverAddress, failoverEnabled, failoverPriority, advertisedAddress, storeId, t]);
+
+  // ── Server: pairing and revocation ──────────────────────────────────
+
+  const handleCreatePairingCode = useCallback(() => {
+    setPairingCode(registerAuthService.createPairingCode(pairingRole));
+  }, [pairingRole]);
+
+  const handleRefreshCredentials = useCallback(async () => {
+    setPairingCode(registerAuthService.activePairingCode);
+    await loadCredentials();
+  }, [loadCredentials]);
+
+  const handleRevoke = useCallback(
+    (row: RegisterCredentialRow) => {
+      Alert.alert(t('settings.instoreApi.revokeTitle'), t('settings.instoreApi.revokeMessage', { name: row.register_name }), [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('settings.instoreApi.revoke'),
+          style: 'destructive',
+          onPress: async () => {
+            await registerAuthService.revoke(row.id, user?.id);
+            await loadCredentials();
+          },
+        },
+      ]);
+    },
+    [t, user, loadCredentials]
+  );
+
+  const handleToggleRole = useCallback(
+    async (row: RegisterCredentialRow) => {
+      await registerAuthService.setRole(row.id, row.role === 'register' ? 'back_office' : 'register', user?.id);
+      await loadCredentials();
+    },
+    [user, loadCredentials]
+  );
+
+  // ── Client: pairing with the server ─────────────────────────────────
+
+  const handlePair = useCallback(async () => {
+    const code = codeInput.trim();
+    if (!code) return;
+    setPairing(true);
+    try {
+      await instoreApiConfig.save({
+        serverAddress,
+        port: parseInt(port, 10) || 8787,
+        registerName,
+        registerId: instoreApiConfig.current.registerId || generateUUID(),
+      });
+      setCredential(await instoreApiClient.pair(code));
+      setCodeInput('');
+      Alert.alert(t('settings.instoreApi.pairedTitle'), t('settings.instoreApi.pairedMessage'));
+    } catch (error) {
+      Alert.alert(
+        t('settings.instoreApi.pairingFailed'),
+        error instanceof Error ? error.message : t('settings.instoreApi.connectionFailedMessage')
+      );
+    } finally {
+      setPairing(false);
+    }
+  }, [codeInput, serverAddress, port, registerName, t]);
+
+  const handleUnpair = useCallback(async () => {
+    await instoreApiClient.unpair();
+    setCredential(null);
+    setConnectionStatus('idle');
+  }, []);
 
   const handleTestConnection = useCallback(async () => {
     setConnectionStatus('testing');
@@ -90,17 +246,17 @@ const InstoreApiSettingsTab: React.FC = () => {
     setScanProgress(0);
     setDiscoveredServers([]);
 
-    const servers = await instoreApiDiscovery.scanSubnet(undefined, (checked, total) => {
+    const found = await instoreApiDiscovery.scanSubnet(undefined, (checked, total) => {
       setScanProgress(Math.round((checked / total) * 100));
     });
 
-    setDiscoveredServers(servers);
+    setDiscoveredServers(found);
     setScanning(false);
 
-    if (servers.length === 0) {
+    if (found.length === 0 && advertisedServers.length === 0) {
       Alert.alert(t('settings.instoreApi.noServersFound'), t('settings.instoreApi.noServersFoundMessage'));
     }
-  }, [t]);
+  }, [advertisedServers.length, t]);
 
   const handleSelectServer = useCallback(async (server: DiscoveredServer) => {
     setServerAddress(server.address);
@@ -167,15 +323,90 @@ const InstoreApiSettingsTab: React.FC = () => {
             placeholderTextColor={lightColors.textSecondary}
           />
 
-          <Text style={styles.fieldLabel}>{t('settings.instoreApi.sharedSecret')}</Text>
+          <Text style={styles.fieldLabel}>{t('settings.instoreApi.storeId')}</Text>
           <TextInput
             style={styles.input}
-            value={sharedSecret}
-            onChangeText={setSharedSecret}
-            placeholder={t('settings.instoreApi.sharedSecretPlaceholder')}
+            value={storeId}
+            onChangeText={setStoreId}
+            autoCapitalize="none"
+            placeholder={t('settings.instoreApi.storeIdPlaceholder')}
             placeholderTextColor={lightColors.textSecondary}
-            secureTextEntry
           />
+          <Text style={styles.hint}>{t('settings.instoreApi.storeIdHint')}</Text>
+        </View>
+      )}
+
+      {/* Server-specific: pairing code + paired registers */}
+      {mode === 'server' && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('settings.instoreApi.pairedRegisters')}</Text>
+          <Text style={styles.hint}>{t('settings.instoreApi.pairingHint')}</Text>
+
+          <Text style={styles.fieldLabel}>{t('settings.instoreApi.pairingRole')}</Text>
+          <View style={styles.buttonRow}>
+            {(Object.keys(ROLE_LABEL_KEYS) as RegisterRole[]).map(role => (
+              <TouchableOpacity
+                key={role}
+                style={[styles.chip, pairingRole === role && styles.chipActive]}
+                onPress={() => setPairingRole(role)}
+              >
+                <Text style={[styles.chipText, pairingRole === role && styles.chipTextActive]}>{t(ROLE_LABEL_KEYS[role])}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={styles.primaryButton} onPress={handleCreatePairingCode}>
+              <MaterialIcons name="link" size={16} color={lightColors.textOnPrimary} />
+              <Text style={styles.primaryButtonText}>{t('settings.instoreApi.createPairingCode')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.secondaryButton} onPress={handleRefreshCredentials}>
+              <MaterialIcons name="refresh" size={16} color={lightColors.primary} />
+              <Text style={styles.secondaryButtonText}>{t('settings.instoreApi.refresh')}</Text>
+            </TouchableOpacity>
+          </View>
+
+          {pairingCode && (
+            <View style={styles.pairingCodeBox}>
+              <Text style={styles.pairingCode}>{pairingCode.code}</Text>
+              <Text style={styles.hint}>
+                {t('settings.instoreApi.pairingCodeExpires', {
+                  role: t(ROLE_LABEL_KEYS[pairingCode.role]),
+                  time: new Date(pairingCode.expiresAt).toLocaleTimeString(),
+                })}
+              </Text>
+            </View>
+          )}
+
+          {credentials.length === 0 ? (
+            <Text style={styles.hint}>{t('settings.instoreApi.noPairedRegisters')}</Text>
+          ) : (
+            credentials.map(row => (
+              <View key={row.id} style={[styles.credentialItem, row.revoked_at !== null && styles.credentialRevoked]}>
+                <MaterialIcons name="point-of-sale" size={20} color={lightColors.textSecondary} />
+                <View style={styles.discoveredInfo}>
+                  <Text style={styles.discoveredName}>{row.register_name}</Text>
+                  <Text style={styles.discoveredAddress}>
+                    {row.revoked_at !== null
+                      ? t('settings.instoreApi.revokedAt', { time: new Date(row.revoked_at).toLocaleString() })
+                      : row.last_seen_at !== null
+                        ? t('settings.instoreApi.lastSeen', { time: new Date(row.last_seen_at).toLocaleString() })
+                        : t('settings.instoreApi.neverSeen')}
+                  </Text>
+                </View>
+                {row.revoked_at === null && (
+                  <>
+                    <TouchableOpacity style={styles.chip} onPress={() => handleToggleRole(row)}>
+                      <Text style={styles.chipText}>{t(ROLE_LABEL_KEYS[row.role])}</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.revokeButton} onPress={() => handleRevoke(row)}>
+                      <Text style={styles.revokeButtonText}>{t('settings.instoreApi.revoke')}</Text>
+                    </TouchableOpacity>
+                  </>
+                )}
+              </View>
+            ))
+          )}
         </View>
       )}
 
@@ -194,6 +425,38 @@ const InstoreApiSettingsTab: React.FC = () => {
             keyboardType="numbers-and-punctuation"
           />
 
+          <Text style={styles.fieldLabel}>{t('settings.instoreApi.pairing')}</Text>
+          {credential ? (
+            <View style={styles.statusBox}>
+              <MaterialIcons name="verified-user" size={16} color={lightColors.success} />
+              <Text style={[styles.statusText, styles.pairedText]}>
+                {t('settings.instoreApi.pairedAs', { role: t(ROLE_LABEL_KEYS[credential.role]) })}
+              </Text>
+              <TouchableOpacity onPress={handleUnpair}>
+                <Text style={styles.revokeButtonText}>{t('settings.instoreApi.unpair')}</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <View style={styles.buttonRow}>
+              <TextInput
+                style={[styles.input, styles.codeInput]}
+                value={codeInput}
+                onChangeText={setCodeInput}
+                placeholder={t('settings.instoreApi.pairingCodePlaceholder')}
+                placeholderTextColor={lightColors.textSecondary}
+                keyboardType="number-pad"
+                maxLength={6}
+              />
+              <TouchableOpacity style={styles.primaryButton} onPress={handlePair} disabled={pairing || !codeInput.trim()}>
+                {pairing ? (
+                  <ActivityIndicator size="small" color={lightColors.textOnPrimary} />
+                ) : (
+                  <Text style={styles.primaryButtonText}>{t('settings.instoreApi.pair')}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+
           <View style={styles.buttonRow}>
             <TouchableOpacity style={styles.primaryButton} onPress={handleTestConnection} disabled={connectionStatus === 'testing'}>
               {connectionStatus === 'testing' ? (
@@ -234,22 +497,93 @@ const InstoreApiSettingsTab: React.FC = () => {
             </View>
           )}
 
-          {/* Discovered servers */}
-          {discoveredServers.length > 0 && (
-            <View style={styles.discoveredList}>
-              <Text style={styles.fieldLabel}>{t('settings.instoreApi.discoveredServers')}</Text>
-              {discoveredServers.map((server, i) => (
-                <TouchableOpacity key={i} style={styles.discoveredItem} onPress={() => handleSelectServer(server)}>
-                  <MaterialIcons name="dns" size={20} color={lightColors.primary} />
-                  <View style={styles.discoveredInfo}>
-                    <Text style={styles.discoveredName}>{server.registerName}</Text>
-                    <Text style={styles.discoveredAddress}>
-                      {server.address}:{server.port}
+          {/* Discovered servers: advertised over mDNS, then any found by the subnet scan */}
+          <View style={styles.discoveredList}>
+            <Text style={styles.fieldLabel}>{t('settings.instoreApi.discoveredServers')}</Text>
+            {servers.length === 0 && (
+              <Text style={styles.hint}>
+                {instoreApiDiscovery.canBrowse ? t('settings.instoreApi.browsing') : t('settings.instoreApi.browseUnavailable')}
+              </Text>
+            )}
+            {servers.map(server => (
+              <TouchableOpacity
+                key={`${server.address}:${server.port}`}
+                style={styles.discoveredItem}
+                onPress={() => handleSelectServer(server)}
+              >
+                <MaterialIcons name={server.source === 'mdns' ? 'dns' : 'search'} size={20} color={lightColors.primary} />
+                <View style={styles.discoveredInfo}>
+                  <Text style={styles.discoveredName}>{server.registerName}</Text>
+                  <Text style={styles.discoveredAddress}>
+                    {server.address}:{server.port} ·{' '}
+                    {server.source === 'mdns' ? t('settings.instoreApi.foundAdvertised') : t('settings.instoreApi.foundByScan')}
+                    {server.storeId ? ` · ${t('settings.instoreApi.storeLabel', { storeId: server.storeId })}` : ''}
+                  </Text>
+                  {!!server.apiVersion && server.apiVersion !== INSTORE_API_VERSION && (
+                    <Text style={[styles.discoveredAddress, { color: lightColors.warningText }]}>
+                      {t('settings.instoreApi.apiVersionMismatch', { version: server.apiVersion })}
                     </Text>
-                  </View>
-                  <MaterialIcons name="chevron-right" size={20} color={lightColors.textSecondary} />
-                </TouchableOpacity>
-              ))}
+                  )}
+                </View>
+                <MaterialIcons name="chevron-right" size={20} color={lightColors.textSecondary} />
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      )}
+
+      {/* Failover: another register takes over if the server goes down */}
+      {mode !== 'standalone' && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('settings.instoreApi.failover')}</Text>
+          <Text style={styles.hint}>{t('settings.instoreApi.failoverHint')}</Text>
+
+          <View style={styles.switchRow}>
+            <Text style={[styles.fieldLabel, styles.switchLabel]}>{t('settings.instoreApi.failoverEnabled')}</Text>
+            <Switch
+              value={failoverEnabled}
+              onValueChange={setFailoverEnabled}
+              trackColor={{ false: lightColors.border, true: lightColors.primary + '60' }}
+              thumbColor={failoverEnabled ? lightColors.primary : lightColors.textSecondary}
+            />
+          </View>
+
+          {failoverEnabled && (
+            <>
+              <Text style={styles.fieldLabel}>{t('settings.instoreApi.failoverPriority')}</Text>
+              <TextInput
+                style={styles.input}
+                value={failoverPriority}
+                onChangeText={setFailoverPriority}
+                keyboardType="number-pad"
+                placeholder="0"
+                placeholderTextColor={lightColors.textSecondary}
+              />
+              <Text style={styles.hint}>{t('settings.instoreApi.failoverPriorityHint')}</Text>
+
+              <Text style={styles.fieldLabel}>{t('settings.instoreApi.advertisedAddress')}</Text>
+              <TextInput
+                style={styles.input}
+                value={advertisedAddress}
+                onChangeText={setAdvertisedAddress}
+                placeholder={t('settings.instoreApi.advertisedAddressPlaceholder')}
+                placeholderTextColor={lightColors.textSecondary}
+                keyboardType="numbers-and-punctuation"
+              />
+            </>
+          )}
+
+          {failoverState && (
+            <View style={styles.statusBox}>
+              <MaterialIcons name={failoverState.role === 'leader' ? 'dns' : 'device-hub'} size={16} color={lightColors.primary} />
+              <Text style={styles.statusText}>
+                {failoverState.role === 'leader'
+                  ? t('settings.instoreApi.failoverLeading', { term: failoverState.term, count: failoverState.members.length })
+                  : t('settings.instoreApi.failoverFollowing', {
+                      leader: failoverState.leader?.registerName ?? '—',
+                      term: failoverState.term,
+                    })}
+              </Text>
             </View>
           )}
         </View>
@@ -372,6 +706,15 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     fontSize: typography.fontSize.sm,
   },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  switchLabel: {
+    flex: 1,
+    marginRight: spacing.md,
+  },
   statusBox: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -382,6 +725,71 @@ const styles = StyleSheet.create({
     fontSize: typography.fontSize.sm,
     fontWeight: '600',
   },
+  pairedText: {
+    flex: 1,
+    color: lightColors.success,
+  },
+  hint: {
+    fontSize: typography.fontSize.xs,
+    color: lightColors.textSecondary,
+    marginTop: spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.sm,
+    borderWidth: 1,
+    borderColor: lightColors.border,
+  },
+  chipActive: {
+    borderColor: lightColors.primary,
+    backgroundColor: lightColors.primary + '08',
+  },
+  chipText: {
+    fontSize: typography.fontSize.xs,
+    fontWeight: '600',
+    color: lightColors.textSecondary,
+  },
+  chipTextActive: {
+    color: lightColors.primary,
+  },
+  pairingCodeBox: {
+    alignItems: 'center',
+    padding: spacing.md,
+    marginTop: spacing.md,
+    borderRadius: borderRadius.md,
+    backgroundColor: lightColors.background,
+  },
+  pairingCode: {
+    fontSize: typography.fontSize.xxxl,
+    fontWeight: '700',
+    letterSpacing: 8,
+    color: lightColors.textPrimary,
+  },
+  credentialItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    padding: spacing.sm,
+    borderRadius: borderRadius.sm,
+    backgroundColor: lightColors.background,
+    marginTop: spacing.xs,
+  },
+  credentialRevoked: {
+    opacity: 0.5,
+  },
+  revokeButton: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  revokeButtonText: {
+    color: lightColors.error,
+    fontWeight: '600',
+    fontSize: typography.fontSize.sm,
+  },
+  codeInput: {
+    flex: 1,
+  },
   discoveredList: {
     marginTop: spacing.md,
   },
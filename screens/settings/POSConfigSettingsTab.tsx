@@ -6,6 +6,8 @@ import { getCurrencyOptions } from '../../utils/currency';
 import { useTranslate } from '../../hooks/useTranslate';
 import { loyaltyService } from '../../services/loyalty/LoyaltyService';
 import { storeCreditService } from '../../services/customer/StoreCreditService';
+import { tipService } from '../../services/tips/TipService';
+import { TipAllocation } from '../../services/tips/tips';
 
 const POSConfigSettingsTab: React.FC = () => {
   const { t } = useTranslate();
@@ -16,6 +18,7 @@ const POSConfigSettingsTab: React.FC = () => {
   const [currencySymbol, setCurrencySymbol] = useState('£');
   const [maxSyncRetries, setMaxSyncRetries] = useState('3');
   const [drawerOpenOnCash, setDrawerOpenOnCash] = useState(true);
+  const [blindClose, setBlindClose] = useState(false);
   const [saving, setSaving] = useState(false);
   const [dirty, setDirty] = useState(false);
 
@@ -30,6 +33,13 @@ const POSConfigSettingsTab: React.FC = () => {
   // Store credit settings
   const [storeCreditEnabled, setStoreCreditEnabled] = useState(false);
 
+  // Tipping settings
+  const [tipsEnabled, setTipsEnabled] = useState(false);
+  const [tipPercentages, setTipPercentages] = useState('10, 12.5, 15');
+  const [tipsOnTerminal, setTipsOnTerminal] = useState(false);
+  const [tipsOnDisplay, setTipsOnDisplay] = useState(false);
+  const [tipAllocation, setTipAllocation] = useState<TipAllocation>('cashier');
+
   useEffect(() => {
     const cfg = posConfig.values;
     if (cfg.storeName) setStoreName(cfg.storeName);
@@ -39,6 +49,7 @@ const POSConfigSettingsTab: React.FC = () => {
     if (cfg.currencySymbol) setCurrencySymbol(cfg.currencySymbol);
     if (cfg.maxSyncRetries !== undefined) setMaxSyncRetries(String(cfg.maxSyncRetries));
     if (cfg.drawerOpenOnCash !== undefined) setDrawerOpenOnCash(cfg.drawerOpenOnCash);
+    if (cfg.blindClose !== undefined) setBlindClose(cfg.blindClose);
 
     // Load loyalty and store credit settings
     (async () => {
@@ -51,6 +62,13 @@ const POSConfigSettingsTab: React.FC = () => {
 
         const storeCreditEnabledValue = await storeCreditService.isEnabled();
         setStoreCreditEnabled(storeCreditEnabledValue);
+
+        const tipConfig = await tipService.getConfig();
+        setTipsEnabled(tipConfig.enabled);
+        setTipPercentages(tipConfig.percentages.join(', '));
+        setTipsOnTerminal(tipConfig.onTerminal);
+        setTipsOnDisplay(tipConfig.onDisplay);
+        setTipAllocation(tipConfig.allocation);
       } catch {
         // Use defaults
       }
@@ -105,6 +123,17 @@ const POSConfigSettingsTab: React.FC = () => {
       }
     }
 
+    // Validate tipping settings
+    const percentages = tipPercentages
+      .split(',')
+      .map(p => p.trim())
+      .filter(Boolean)
+      .map(Number);
+    if (tipsEnabled && (percentages.length === 0 || percentages.some(p => isNaN(p) || p <= 0 || p > 100))) {
+      Alert.alert(t('common.invalid'), 'Tip percentages must be a comma-separated list of numbers between 0 and 100');
+      return;
+    }
+
     setSaving(true);
     try {
       await posConfig.updateAll({
@@ -115,6 +144,7 @@ const POSConfigSettingsTab: React.FC = () => {
         currencySymbol,
         maxSyncRetries: parseInt(maxSyncRetries, 10) || 3,
         drawerOpenOnCash,
+        blindClose,
       });
 
       // Save loyalty settings
@@ -128,6 +158,15 @@ const POSConfigSettingsTab: React.FC = () => {
       // Save store credit settings
       await storeCreditService.setEnabled(storeCreditEnabled);
 
+      // Save tipping settings
+      await tipService.updateConfig({
+        enabled: tipsEnabled,
+        ...(percentages.length > 0 ? { percentages } : {}),
+        onTerminal: tipsOnTerminal,
+        onDisplay: tipsOnDisplay,
+        allocation: tipAllocation,
+      });
+
       setDirty(false);
       Alert.alert(t('common.saved'), t('settings.posConfig.saved'));
     } catch {
@@ -231,6 +270,22 @@ const POSConfigSettingsTab: React.FC = () => {
             thumbColor={drawerOpenOnCash ? lightColors.primary : lightColors.textSecondary}
           />
         </View>
+
+        <View style={styles.switchRow}>
+          <View style={styles.switchLabel}>
+            <Text style={styles.label}>{t('settings.posConfig.blindClose')}</Text>
+            <Text style={styles.helpText}>{t('settings.posConfig.blindCloseHint')}</Text>
+          </View>
+          <Switch
+            value={blindClose}
+            onValueChange={v => {
+              setBlindClose(v);
+              setDirty(true);
+            }}
+            trackColor={{ false: lightColors.border, true: lightColors.primary + '60' }}
+            thumbColor={blindClose ? lightColors.primary : lightColors.textSecondary}
+          />
+        </View>
       </View>
 
       {/* Loyalty Program */}
@@ -333,6 +388,90 @@ const POSConfigSettingsTab: React.FC = () => {
         </View>
       </View>
 
+      {/* Tipping */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Tipping</Text>
+
+        <View style={styles.switchRow}>
+          <View style={styles.switchLabel}>
+            <Text style={styles.label}>Enable Tips</Text>
+            <Text style={styles.helpText}>Offer the customer a tip at checkout, kept apart from sales</Text>
+          </View>
+          <Switch
+            value={tipsEnabled}
+            onValueChange={v => {
+              setTipsEnabled(v);
+              setDirty(true);
+            }}
+            trackColor={{ false: lightColors.border, true: lightColors.primary + '60' }}
+            thumbColor={tipsEnabled ? lightColors.primary : lightColors.textSecondary}
+          />
+        </View>
+
+        {tipsEnabled && (
+          <>
+            <Text style={styles.label}>Preset Percentages</Text>
+            <TextInput
+              style={styles.input}
+              value={tipPercentages}
+              onChangeText={markDirty(setTipPercentages)}
+              placeholder="10, 12.5, 15"
+              placeholderTextColor={lightColors.textSecondary}
+              keyboardType="numbers-and-punctuation"
+            />
+            <Text style={styles.helpText}>Offered as buttons at checkout, calculated on the order total</Text>
+
+            <View style={styles.switchRow}>
+              <View style={styles.switchLabel}>
+                <Text style={styles.label}>Ask on Card Terminal</Text>
+                <Text style={styles.helpText}>Card customers choose the tip on the terminal when the provider supports it</Text>
+              </View>
+              <Switch
+                value={tipsOnTerminal}
+                onValueChange={v => {
+                  setTipsOnTerminal(v);
+                  setDirty(true);
+                }}
+                trackColor={{ false: lightColors.border, true: lightColors.primary + '60' }}
+                thumbColor={tipsOnTerminal ? lightColors.primary : lightColors.textSecondary}
+              />
+            </View>
+
+            <View style={styles.switchRow}>
+              <View style={styles.switchLabel}>
+                <Text style={styles.label}>Ask on Customer Display</Text>
+                <Text style={styles.helpText}>The customer chooses the tip on the customer display when one is attached</Text>
+              </View>
+              <Switch
+                value={tipsOnDisplay}
+                onValueChange={v => {
+                  setTipsOnDisplay(v);
+                  setDirty(true);
+                }}
+                trackColor={{ false: lightColors.border, true: lightColors.primary + '60' }}
+                thumbColor={tipsOnDisplay ? lightColors.primary : lightColors.textSecondary}
+              />
+            </View>
+
+            <View style={styles.switchRow}>
+              <View style={styles.switchLabel}>
+                <Text style={styles.label}>Share Between Drawer Staff</Text>
+                <Text style={styles.helpText}>Split each tip evenly between everyone signed on to the drawer, not just the cashier</Text>
+              </View>
+              <Switch
+                value={tipAllocation === 'drawer'}
+                onValueChange={v => {
+                  setTipAllocation(v ? 'drawer' : 'cashier');
+                  setDirty(true);
+                }}
+                trackColor={{ false: lightColors.border, true: lightColors.primary + '60' }}
+                thumbColor={tipAllocation === 'drawer' ? lightColors.primary : lightColors.textSecondary}
+              />
+            </View>
+          </>
+        )}
+      </View>
+
       {/* Save */}
       {dirty && (
         <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={saving}>
@@ -5,6 +5,7 @@ import { useOfflineCategories } from '../../hooks/useOfflineCategories';
 import { formatMoney } from '../../utils/money';
 import { useCurrency } from '../../hooks/useCurrency';
 import { elevation, lightColors } from '../../utils/theme';
+import { isMeasured, isSoldByWeight, roundStockQuantity, SELLING_UNITS, SellingUnit } from '../../services/product/unitOfMeasure';
 
 interface ProductFormData {
   title: string;
@@ -15,8 +16,13 @@ interface ProductFormData {
   stock: string;
   categoryId: string;
   imageUrl: string;
+  unitOfMeasure: SellingUnit;
+  /** Container weight in kg, for items sold by weight */
+  tareWeight: string;
 }
 
+const UNIT_OPTIONS = Object.keys(SELLING_UNITS) as SellingUnit[];
+
 const emptyFormData: ProductFormData = {
   title: '',
   description: '',
@@ -26,6 +32,8 @@ const emptyFormData: ProductFormData = {
   stock: '',
   categoryId: '',
   imageUrl: '',
+  unitOfMeasure: 'each',
+  tareWeight: '',
 };
 
 const ProductManagementTab: React.FC = () => {
@@ -63,6 +71,8 @@ const ProductManagementTab: React.FC = () => {
       stock: defaultVariant?.inventoryQuantity?.toString() || '0',
       categoryId: product.productType || '',
       imageUrl: product.images?.[0]?.url || '',
+      unitOfMeasure: defaultVariant?.unitOfMeasure || 'each',
+      tareWeight: defaultVariant?.tareWeight?.toString() || '',
     });
     setShowModal(true);
   };
@@ -94,6 +104,10 @@ const ProductManagementTab: React.FC = () => {
       Alert.alert('Validation Error', 'Please enter a valid price.');
       return false;
     }
+    if (formData.tareWeight && (isNaN(parseFloat(formData.tareWeight)) || parseFloat(formData.tareWeight) < 0)) {
+      Alert.alert('Validation Error', 'Please enter a valid tare weight in kg.');
+      return false;
+    }
     return true;
   };
 
@@ -111,7 +125,12 @@ const ProductManagementTab: React.FC = () => {
           sku: formData.sku.trim() || undefined,
           barcode: formData.barcode.trim() || undefined,
           price: parseFloat(formData.price) || 0,
-          inventoryQuantity: parseInt(formData.stock) || 0,
+          // Stock of an item sold by measure is held in its unit (kg, metres), so it can be fractional
+          inventoryQuantity: isMeasured(formData.unitOfMeasure)
+            ? roundStockQuantity(parseFloat(formData.stock) || 0)
+            : parseInt(formData.stock) || 0,
+          unitOfMeasure: formData.unitOfMeasure,
+          tareWeight: isSoldByWeight(formData.unitOfMeasure) && formData.tareWeight ? parseFloat(formData.tareWeight) : undefined,
         },
       ],
       images: formData.imageUrl.trim() ? [{ id: 'main', url: formData.imageUrl.trim(), alt: formData.title.trim() }] : [],
@@ -158,7 +177,10 @@ const ProductManagementTab: React.FC = () => {
           <Text style={styles.productTitle} numberOfLines={2}>
             {product.title}
           </Text>
-          <Text style={styles.productPrice}>{formatMoney(defaultVariant?.price || 0, currency.code)}</Text>
+          <Text style={styles.productPrice}>
+            {formatMoney(defaultVariant?.price || 0, currency.code)}
+            {isMeasured(defaultVariant?.unitOfMeasure) ? `/${SELLING_UNITS[defaultVariant.unitOfMeasure].label}` : ''}
+          </Text>
           {defaultVariant?.sku && <Text style={styles.productSku}>SKU: {defaultVariant.sku}</Text>}
           <Text style={styles.productStock}>Stock: {defaultVariant?.inventoryQuantity || 0}</Text>
           {product.productType && <Text style={styles.productCategory}>{product.productType}</Text>}
@@ -200,7 +222,24 @@ const ProductManagementTab: React.FC = () => {
               numberOfLines={3}
             />
 
-            <Text style={styles.inputLabel}>Price *</Text>
+            <Text style={styles.inputLabel}>Sold By</Text>
+            <View style={styles.categorySelector}>
+              {UNIT_OPTIONS.map(unit => (
+                <TouchableOpacity
+                  key={unit}
+                  style={[styles.categoryOption, formData.unitOfMeasure === unit && styles.categoryOptionSelected]}
+                  onPress={() => setFormData({ ...formData, unitOfMeasure: unit })}
+                >
+                  <Text style={[styles.categoryOptionText, formData.unitOfMeasure === unit && styles.categoryOptionTextSelected]}>
+                    {SELLING_UNITS[unit].label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.inputLabel}>
+              {isMeasured(formData.unitOfMeasure) ? `Price per ${SELLING_UNITS[formData.unitOfMeasure].label} *` : 'Price *'}
+            </Text>
             <TextInput
               style={styles.input}
               value={formData.price}
@@ -209,6 +248,19 @@ const ProductManagementTab: React.FC = () => {
               keyboardType="decimal-pad"
             />
 
+            {isSoldByWeight(formData.unitOfMeasure) && (
+              <>
+                <Text style={styles.inputLabel}>Tare Weight (kg)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={formData.tareWeight}
+                  onChangeText={text => setFormData({ ...formData, tareWeight: text })}
+                  placeholder="0.000"
+                  keyboardType="decimal-pad"
+                />
+              </>
+            )}
+
             <Text style={styles.inputLabel}>SKU</Text>
             <TextInput
               style={styles.input}
@@ -233,7 +285,7 @@ const ProductManagementTab: React.FC = () => {
               value={formData.stock}
               onChangeText={text => setFormData({ ...formData, stock: text })}
               placeholder="0"
-              keyboardType="number-pad"
+              keyboardType={isMeasured(formData.unitOfMeasure) ? 'decimal-pad' : 'number-pad'}
             />
 
             <Text style={styles.inputLabel}>Category</Text>
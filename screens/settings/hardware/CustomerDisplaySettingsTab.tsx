@@ -1,40 +1,505 @@
-import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
-import { useTheme } from '../../../contexts/ThemeProvider';
-import { Card } from '../../../components/Card';
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Switch, ActivityIndicator, Alert, ScrollView } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { lightColors, spacing, typography, borderRadius, elevation } from '../../../utils/theme';
+import {
+  customerDisplayServiceFactory,
+  CustomerDisplaySettings,
+  DisplayType,
+  DEFAULT_DISPLAY_SERVER_PORT,
+} from '../../../services/display/CustomerDisplayServiceFactory';
+import { useOfflineCategories } from '../../../hooks/useOfflineCategories';
+import { getElectronAPI, isElectron } from '../../../utils/electron';
+import { useLogger } from '../../../hooks/useLogger';
+
+const DISPLAY_TYPES: { value: DisplayType; label: string; description: string }[] = [
+  {
+    value: 'websocket',
+    label: 'Browser Display',
+    description: 'A tablet or monitor running the display page in a browser. Shows the basket and asks the customer questions.',
+  },
+  {
+    value: 'mock',
+    label: 'Simulated Display',
+    description: 'Answers every question automatically after a short pause. For testing and training.',
+  },
+];
 
 /**
- * Customer display settings tab - placeholder for future implementation
+ * Customer-facing display settings: how the display is reached and which
+ * questions it asks the customer. See docs/specs/hardware/customer-display.md.
  */
-export function CustomerDisplaySettingsTab() {
-  const { colors } = useTheme();
+export const CustomerDisplaySettingsTab: React.FC = () => {
+  const logger = useLogger('CustomerDisplaySettingsTab');
+  const { categories } = useOfflineCategories();
+  const canServe = isElectron();
 
-  return (
-    <View style={styles.container}>
-      <Card style={styles.section}>
-        <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>Customer-Facing Display</Text>
-        <Text style={[styles.sectionDescription, { color: colors.textSecondary }]}>
-          Customer display configuration will be available in a future update. This feature allows you to show basket contents on a second
-          screen for customers.
-        </Text>
-      </Card>
+  const [enabled, setEnabled] = useState(false);
+  const [type, setType] = useState<DisplayType>('websocket');
+  const [serveFromRegister, setServeFromRegister] = useState(canServe);
+  const [serverPort, setServerPort] = useState(String(DEFAULT_DISPLAY_SERVER_PORT));
+  const [endpoint, setEndpoint] = useState('');
+  const [idleMessage, setIdleMessage] = useState('Welcome!');
+  const [thankYouMessage, setThankYouMessage] = useState('Thank you!');
+  const [promptTimeout, setPromptTimeout] = useState('');
+  const [askForReceipt, setAskForReceipt] = useState(false);
+  const [offerLoyaltySignUp, setOfferLoyaltySignUp] = useState(false);
+  const [loyaltyProgramName, setLoyaltyProgramName] = useState('');
+  const [signatureThreshold, setSignatureThreshold] = useState('');
+  const [ageCheckEnabled, setAgeCheckEnabled] = useState(false);
+  const [minimumAge, setMinimumAge] = useState('18');
+  const [ageCategoryIds, setAgeCategoryIds] = useState<string[]>([]);
+  const [displayUrls, setDisplayUrls] = useState<string[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const refreshDisplayUrls = useCallback(async () => {
+    const status = await getElectronAPI()
+      ?.displayServerStatus()
+      .catch(() => null);
+    setDisplayUrls(status?.running ? status.displayUrls : []);
+  }, []);
+
+  // Load persisted settings on mount
+  useEffect(() => {
+    const settings = customerDisplayServiceFactory.getSettings();
+    setEnabled(settings.enabled);
+    if (settings.type !== 'none') setType(settings.type);
+    setServeFromRegister(settings.serveFromRegister ?? canServe);
+    setServerPort(String(settings.serverPort ?? DEFAULT_DISPLAY_SERVER_PORT));
+    setEndpoint(settings.endpoint);
+    setIdleMessage(settings.idleMessage ?? '');
+    setThankYouMessage(settings.thankYouMessage ?? '');
+    setPromptTimeout(settings.promptTimeoutSeconds ? String(settings.promptTimeoutSeconds) : '');
+    setAskForReceipt(settings.askForReceipt ?? false);
+    setOfferLoyaltySignUp(settings.offerLoyaltySignUp ?? false);
+    setLoyaltyProgramName(settings.loyaltyProgramName ?? '');
+    setSignatureThreshold(settings.signatureThreshold != null ? String(settings.signatureThreshold) : '');
+    setAgeCheckEnabled(!!settings.ageCheck);
+    setMinimumAge(String(settings.ageCheck?.minimumAge ?? 18));
+    setAgeCategoryIds(settings.ageCheck?.categoryIds ?? []);
+    refreshDisplayUrls();
+  }, [canServe, refreshDisplayUrls]);
+
+  /** Wraps a setter so changing the value marks the form dirty */
+  const edit =
+    <T,>(setter: (value: T) => void) =>
+    (value: T) => {
+      setter(value);
+      setDirty(true);
+    };
+
+  const toggleAgeCategory = (categoryId: string) => {
+    setAgeCategoryIds(prev => (prev.includes(categoryId) ? prev.filter(id => id !== categoryId) : [...prev, categoryId]));
+    setDirty(true);
+  };
+
+  // A new address locks out every display opened from the old one, e.g. after it was shared by mistake
+  const handleRenewDisplayLink = useCallback(() => {
+    Alert.alert('New Display Address', 'Displays using the current address will disconnect and must open the new one.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Continue',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await customerDisplayServiceFactory.renewDisplayToken();
+            await refreshDisplayUrls();
+          } catch (err) {
+            logger.error({ message: 'Failed to renew the customer display address' }, err instanceof Error ? err : new Error(String(err)));
+            Alert.alert('Error', 'Failed to create a new display address.');
+          }
+        },
+      },
+    ]);
+  }, [refreshDisplayUrls, logger]);
+
+  const serving = type === 'websocket' && canServe && serveFromRegister;
+
+  const handleSave = useCallback(async () => {
+    const port = parseInt(serverPort, 10);
+    const timeout = promptTimeout.trim() ? parseInt(promptTimeout, 10) : undefined;
+    const threshold = signatureThreshold.trim() ? parseFloat(signatureThreshold) : null;
+    const age = parseInt(minimumAge, 10);
+
+    if (enabled && type === 'websocket' && !serving && !endpoint.trim()) {
+      Alert.alert('Validation Error', 'Enter the display server URL, or serve the display from this register.');
+      return;
+    }
+    if (serving && !(port > 0 && port < 65536)) {
+      Alert.alert('Validation Error', 'Port must be between 1 and 65535.');
+      return;
+    }
+    if (timeout !== undefined && !(timeout >= 10)) {
+      Alert.alert('Validation Error', 'Prompt timeout must be at least 10 seconds.');
+      return;
+    }
+    if (threshold !== null && !(threshold >= 0)) {
+      Alert.alert('Validation Error', 'Signature threshold must be a positive amount.');
+      return;
+    }
+    if (ageCheckEnabled && (!(age > 0) || ageCategoryIds.length === 0)) {
+      Alert.alert('Validation Error', 'Age check needs a minimum age and at least one category.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const settings: CustomerDisplaySettings = {
+        enabled,
+        type,
+        endpoint: endpoint.trim(),
+        idleMessage: idleMessage.trim() || undefined,
+        thankYouMessage: thankYouMessage.trim() || undefined,
+        serveFromRegister: serving,
+        serverPort: port || DEFAULT_DISPLAY_SERVER_PORT,
+        promptTimeoutSeconds: timeout,
+        askForReceipt,
+        offerLoyaltySignUp,
+        loyaltyProgramName: loyaltyProgramName.trim() || undefined,
+        signatureThreshold: threshold,
+        ageCheck: ageCheckEnabled ? { minimumAge: age, categoryIds: ageCategoryIds } : null,
+      };
+      const connected = await customerDisplayServiceFactory.configure(settings);
+      setDirty(false);
+      await refreshDisplayUrls();
+      if (!enabled) {
+        Alert.alert('Saved', 'Customer display disabled.');
+      } else if (connected) {
+        Alert.alert('Saved', 'Customer display settings saved and connected.');
+      } else {
+        Alert.alert('Saved', 'Settings saved but the customer display could not be reached.');
+      }
+    } catch (err) {
+      logger.error({ message: 'Failed to save customer display settings' }, err instanceof Error ? err : new Error(String(err)));
+      Alert.alert('Error', 'Failed to save customer display settings.');
+    } finally {
+      setSaving(false);
+    }
+  }, [
+    enabled,
+    type,
+    serving,
+    serverPort,
+    endpoint,
+    idleMessage,
+    thankYouMessage,
+    promptTimeout,
+    askForReceipt,
+    offerLoyaltySignUp,
+    loyaltyProgramName,
+    signatureThreshold,
+    ageCheckEnabled,
+    minimumAge,
+    ageCategoryIds,
+    refreshDisplayUrls,
+    logger,
+  ]);
+
+  const renderSwitch = (label: string, hint: string, value: boolean, onChange: (value: boolean) => void) => (
+    <View style={styles.row}>
+      <View style={styles.rowLabel}>
+        <Text style={styles.label}>{label}</Text>
+        <Text style={styles.hint}>{hint}</Text>
+      </View>
+      <Switch
+        value={value}
+        onValueChange={edit(onChange)}
+        trackColor={{ false: lightColors.border, true: lightColors.primary + '60' }}
+        thumbColor={value ? lightColors.primary : lightColors.textSecondary}
+      />
     </View>
   );
-}
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.title}>Customer-Facing Display</Text>
+      <Text style={styles.subtitle}>
+        Show the basket on a second screen facing the customer, and let the customer choose a tip, ask for a digital receipt, join loyalty,
+        confirm their age and sign on it.
+      </Text>
+
+      {/* Enable toggle */}
+      <View style={styles.section}>
+        {renderSwitch('Enable Customer Display', 'Show the basket and payment on a customer-facing screen', enabled, setEnabled)}
+      </View>
+
+      {enabled && (
+        <>
+          {/* Display type */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Display Type</Text>
+            {DISPLAY_TYPES.map(opt => (
+              <TouchableOpacity
+                key={opt.value}
+                style={[styles.typeCard, type === opt.value && styles.typeCardActive]}
+                onPress={() => edit(setType)(opt.value)}
+              >
+                <View style={styles.typeCardContent}>
+                  <Text style={[styles.typeLabel, type === opt.value && styles.typeLabelActive]}>{opt.label}</Text>
+                  <Text style={styles.typeDesc}>{opt.description}</Text>
+                </View>
+                {type === opt.value && <MaterialIcons name="check-circle" size={20} color={lightColors.primary} />}
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {/* Connection */}
+          {type === 'websocket' && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Connection</Text>
+              {canServe &&
+                renderSwitch(
+                  'Serve from This Register',
+                  'The register hosts the display page; open its address in a browser on the display device',
+                  serveFromRegister,
+                  setServeFromRegister
+                )}
+
+              {serving ? (
+                <>
+                  <Text style={styles.fieldLabel}>Port</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={serverPort}
+                    onChangeText={edit(setServerPort)}
+                    placeholder={String(DEFAULT_DISPLAY_SERVER_PORT)}
+                    placeholderTextColor={lightColors.textSecondary}
+                    keyboardType="numeric"
+                  />
+                  {displayUrls.length > 0 ? (
+                    <>
+                      <Text style={styles.fieldLabel}>Open on the display device</Text>
+                      {displayUrls.map(url => (
+                        <Text key={url} style={styles.url} selectable>
+                          {url}
+                        </Text>
+                      ))}
+                      <Text style={styles.hint}>Only displays opened from this address can connect.</Text>
+                      <TouchableOpacity style={styles.linkButton} onPress={handleRenewDisplayLink}>
+                        <Text style={styles.linkButtonText}>New Display Address</Text>
+                      </TouchableOpacity>
+                    </>
+                  ) : (
+                    <Text style={styles.hint}>The display address is shown here once the settings are saved.</Text>
+                  )}
+                </>
+              ) : (
+                <>
+                  <Text style={styles.fieldLabel}>Display Server URL *</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={endpoint}
+                    onChangeText={edit(setEndpoint)}
+                    placeholder={`ws://192.168.1.20:${DEFAULT_DISPLAY_SERVER_PORT}/pos`}
+                    placeholderTextColor={lightColors.textSecondary}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    keyboardType="url"
+                  />
+                  <Text style={styles.hint}>The POS socket of a register or relay serving the display page</Text>
+                </>
+              )}
+            </View>
+          )}
+
+          {/* Messages */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Messages</Text>
+            <Text style={styles.fieldLabel}>Idle Message</Text>
+            <TextInput
+              style={styles.input}
+              value={idleMessage}
+              onChangeText={edit(setIdleMessage)}
+              placeholder="Welcome!"
+              placeholderTextColor={lightColors.textSecondary}
+            />
+            <Text style={styles.fieldLabel}>Thank-You Message</Text>
+            <TextInput
+              style={styles.input}
+              value={thankYouMessage}
+              onChangeText={edit(setThankYouMessage)}
+              placeholder="Thank you!"
+              placeholderTextColor={lightColors.textSecondary}
+            />
+          </View>
+
+          {/* Customer questions */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Customer Questions</Text>
+            <Text style={styles.hint}>Tips are asked on the display when enabled under POS Config → Tipping.</Text>
+
+            <Text style={styles.fieldLabel}>Answer Time (seconds)</Text>
+            <TextInput
+              style={styles.input}
+              value={promptTimeout}
+              onChangeText={edit(setPromptTimeout)}
+              placeholder="Default for each question"
+              placeholderTextColor={lightColors.textSecondary}
+              keyboardType="numeric"
+            />
+
+            {renderSwitch(
+              'Digital Receipt',
+              'Ask customers without an account for an email or mobile number for their receipt',
+              askForReceipt,
+              setAskForReceipt
+            )}
+
+            {renderSwitch(
+              'Loyalty Sign-Up',
+              'Invite customers without an account to join loyalty when loyalty is enabled',
+              offerLoyaltySignUp,
+              setOfferLoyaltySignUp
+            )}
+            {offerLoyaltySignUp && (
+              <>
+                <Text style={styles.fieldLabel}>Programme Name</Text>
+                <TextInput
+                  style={styles.input}
+                  value={loyaltyProgramName}
+                  onChangeText={edit(setLoyaltyProgramName)}
+                  placeholder="our rewards programme"
+                  placeholderTextColor={lightColors.textSecondary}
+                />
+              </>
+            )}
+
+            <Text style={styles.fieldLabel}>Signature Threshold</Text>
+            <TextInput
+              style={styles.input}
+              value={signatureThreshold}
+              onChangeText={edit(setSignatureThreshold)}
+              placeholder="No signature"
+              placeholderTextColor={lightColors.textSecondary}
+              keyboardType="decimal-pad"
+            />
+            <Text style={styles.hint}>Manual card payments of this amount or more are signed for on the display</Text>
+          </View>
+
+          {/* Age check */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Age Check</Text>
+            {renderSwitch(
+              'Confirm Age on the Display',
+              'Before checkout, ask the customer to confirm their age when the basket has items from these categories',
+              ageCheckEnabled,
+              setAgeCheckEnabled
+            )}
+            {ageCheckEnabled && (
+              <>
+                <Text style={styles.fieldLabel}>Minimum Age</Text>
+                <TextInput
+                  style={styles.input}
+                  value={minimumAge}
+                  onChangeText={edit(setMinimumAge)}
+                  placeholder="18"
+                  placeholderTextColor={lightColors.textSecondary}
+                  keyboardType="numeric"
+                />
+                <Text style={styles.fieldLabel}>Categories</Text>
+                <View style={styles.chips}>
+                  {categories.map(category => {
+                    const selected = ageCategoryIds.includes(category.id);
+                    return (
+                      <TouchableOpacity
+                        key={category.id}
+                        style={[styles.chip, selected && styles.chipSelected]}
+                        onPress={() => toggleAgeCategory(category.id)}
+                        accessibilityRole="checkbox"
+                        accessibilityState={{ checked: selected }}
+                      >
+                        <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{category.name}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </>
+            )}
+          </View>
+        </>
+      )}
+
+      {/* Save */}
+      {dirty && (
+        <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={saving}>
+          {saving ? (
+            <ActivityIndicator color={lightColors.textOnPrimary} size="small" />
+          ) : (
+            <Text style={styles.saveButtonText}>Save Changes</Text>
+          )}
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+};
 
 const styles = StyleSheet.create({
-  container: {
-    gap: 16,
-  },
+  container: { flex: 1, backgroundColor: lightColors.background },
+  content: { paddingBottom: spacing.xl * 2 },
+  title: { fontSize: typography.fontSize.lg, fontWeight: '600', color: lightColors.textPrimary, marginBottom: spacing.xs },
+  subtitle: { fontSize: typography.fontSize.sm, color: lightColors.textSecondary, marginBottom: spacing.md, lineHeight: 20 },
   section: {
-    padding: 16,
-    gap: 12,
+    backgroundColor: lightColors.surface,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    gap: spacing.sm,
+    ...elevation.low,
+  },
+  sectionTitle: { fontSize: typography.fontSize.md, fontWeight: '700', color: lightColors.textPrimary },
+  row: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginTop: spacing.sm },
+  rowLabel: { flex: 1, marginRight: spacing.md },
+  label: { fontSize: typography.fontSize.md, fontWeight: '600', color: lightColors.textPrimary },
+  hint: { fontSize: typography.fontSize.xs, color: lightColors.textSecondary, marginTop: 2 },
+  fieldLabel: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: '600',
+    color: lightColors.textPrimary,
+    marginTop: spacing.sm,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: lightColors.border,
+    borderRadius: borderRadius.sm,
+    padding: spacing.sm,
+    fontSize: typography.fontSize.md,
+    color: lightColors.textPrimary,
+    backgroundColor: lightColors.background,
+  },
+  url: { fontSize: typography.fontSize.md, fontWeight: '600', color: lightColors.primary },
+  linkButton: { alignSelf: 'flex-start', paddingVertical: spacing.xs },
+  linkButtonText: { fontSize: typography.fontSize.sm, fontWeight: '600', color: lightColors.primary },
+  typeCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 2,
+    borderColor: lightColors.border,
   },
-  sectionTitle: {
-    fontSize: 18,
-    fontWeight: 'bold',
+  typeCardActive: { borderColor: lightColors.primary, backgroundColor: lightColors.primary + '08' },
+  typeCardContent: { flex: 1 },
+  typeLabel: { fontSize: typography.fontSize.md, fontWeight: '600', color: lightColors.textPrimary },
+  typeLabelActive: { color: lightColors.primary },
+  typeDesc: { fontSize: typography.fontSize.xs, color: lightColors.textSecondary, marginTop: 2 },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    borderColor: lightColors.border,
   },
-  sectionDescription: {
-    fontSize: 14,
+  chipSelected: { borderColor: lightColors.primary, backgroundColor: lightColors.primary + '15' },
+  chipText: { fontSize: typography.fontSize.sm, color: lightColors.textPrimary },
+  chipTextSelected: { color: lightColors.primary, fontWeight: '600' },
+  saveButton: {
+    backgroundColor: lightColors.primary,
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    alignItems: 'center',
+    marginTop: spacing.sm,
   },
+  saveButtonText: { color: lightColors.textOnPrimary, fontWeight: '700', fontSize: typography.fontSize.md },
 });
@@ -8,10 +8,13 @@ import { useLogger } from '../../../hooks/useLogger';
 
 const KDS_TYPES: { value: KdsType; label: string; description: string }[] = [
   { value: 'http', label: 'HTTP / REST', description: 'Send tickets via REST API. Compatible with Square KDS and custom servers.' },
-  { value: 'websocket', label: 'WebSocket', description: 'Real-time push over WebSocket. Coming soon.' },
-  { value: 'electron', label: 'Second Screen', description: 'Display on a second monitor via Electron IPC. Coming soon.' },
+  { value: 'websocket', label: 'WebSocket', description: 'Real-time push over WebSocket with instant bump and recall updates.' },
+  { value: 'electron', label: 'Second Screen', description: 'Built-in kitchen display window on a second monitor (desktop app only).' },
 ];
 
+/** Drivers that talk to an external KDS and so need an endpoint and vendor */
+const needsEndpoint = (type: KdsType) => type === 'http' || type === 'websocket';
+
 export const KdsSettingsTab: React.FC = () => {
   const logger = useLogger('KdsSettingsTab');
 
@@ -45,7 +48,7 @@ export const KdsSettingsTab: React.FC = () => {
   const markDirty = () => setDirty(true);
 
   const handleSave = useCallback(async () => {
-    if (enabled && type !== 'none' && !endpoint.trim()) {
+    if (enabled && needsEndpoint(type) && !endpoint.trim()) {
       Alert.alert('Validation Error', 'Endpoint URL is required when KDS is enabled.');
       return;
     }
@@ -84,21 +87,30 @@ export const KdsSettingsTab: React.FC = () => {
   }, [enabled, type, vendor, endpoint, apiKey, autoReconnect, pollIntervalMs, merchantId, logger]);
 
   const handleTestConnection = useCallback(async () => {
-    if (!endpoint.trim()) {
+    if (needsEndpoint(type) && !endpoint.trim()) {
       Alert.alert('Validation Error', 'Enter an endpoint URL before testing.');
       return;
     }
     setConnectionStatus('testing');
     try {
       const service = kdsServiceFactory.getService();
-      const ok = service.isConnected() || (await service.connect({ endpoint: endpoint.trim(), apiKey: apiKey.trim() }));
+      const ok =
+        service.isConnected() ||
+        (await service.connect({
+          endpoint: endpoint.trim(),
+          apiKey: apiKey.trim(),
+          autoReconnect,
+          vendorPreset: KDS_VENDOR_PRESETS[vendor],
+          merchantId: merchantId.trim() || undefined,
+        }));
+      const failure = type === 'electron' ? 'Could not open the KDS window.' : 'Could not reach the KDS endpoint.';
       setConnectionStatus(ok ? 'connected' : 'failed');
-      Alert.alert(ok ? 'Connected' : 'Failed', ok ? 'KDS is reachable.' : 'Could not reach the KDS endpoint.');
+      Alert.alert(ok ? 'Connected' : 'Failed', ok ? 'KDS is reachable.' : failure);
     } catch {
       setConnectionStatus('failed');
       Alert.alert('Failed', 'Could not reach the KDS endpoint.');
     }
-  }, [endpoint, apiKey]);
+  }, [type, vendor, endpoint, apiKey, autoReconnect, merchantId]);
 
   const statusIcon = () => {
     switch (connectionStatus) {
@@ -152,13 +164,9 @@ export const KdsSettingsTab: React.FC = () => {
                   setType(opt.value);
                   markDirty();
                 }}
-                disabled={opt.value === 'websocket' || opt.value === 'electron'}
               >
                 <View style={styles.typeCardContent}>
-                  <Text style={[styles.typeLabel, type === opt.value && styles.typeLabelActive]}>
-                    {opt.label}
-                    {(opt.value === 'websocket' || opt.value === 'electron') && <Text style={styles.comingSoon}> (coming soon)</Text>}
-                  </Text>
+                  <Text style={[styles.typeLabel, type === opt.value && styles.typeLabelActive]}>{opt.label}</Text>
                   <Text style={styles.typeDesc}>{opt.description}</Text>
                 </View>
                 {type === opt.value && <MaterialIcons name="check-circle" size={20} color={lightColors.primary} />}
@@ -167,108 +175,124 @@ export const KdsSettingsTab: React.FC = () => {
           </View>
 
           {/* KDS Vendor */}
-          <View style={styles.section}>
-            <Text style={styles.sectionTitle}>KDS Vendor</Text>
-            <Text style={styles.hint}>Select your kitchen display system vendor for optimized API endpoints</Text>
+          {needsEndpoint(type) && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>KDS Vendor</Text>
+              <Text style={styles.hint}>Select your kitchen display system vendor for optimized API endpoints</Text>
 
-            {(Object.keys(KDS_VENDOR_PRESETS) as KdsVendorType[]).map(vendorKey => {
-              const preset = KDS_VENDOR_PRESETS[vendorKey];
-              return (
-                <TouchableOpacity
-                  key={vendorKey}
-                  style={[styles.typeCard, vendor === vendorKey && styles.typeCardActive]}
-                  onPress={() => {
-                    setVendor(vendorKey);
-                    setPollIntervalMs(preset.defaultPollIntervalMs.toString());
-                    markDirty();
-                  }}
-                >
-                  <View style={styles.typeCardContent}>
-                    <Text style={[styles.typeLabel, vendor === vendorKey && styles.typeLabelActive]}>{preset.name}</Text>
-                    <Text style={styles.typeDesc}>{preset.description}</Text>
-                  </View>
-                  {vendor === vendorKey && <MaterialIcons name="check-circle" size={20} color={lightColors.primary} />}
-                </TouchableOpacity>
-              );
-            })}
-          </View>
+              {(Object.keys(KDS_VENDOR_PRESETS) as KdsVendorType[])
+                .filter(vendorKey => type !== 'websocket' || KDS_VENDOR_PRESETS[vendorKey].supportsWebSocket)
+                .map(vendorKey => {
+                  const preset = KDS_VENDOR_PRESETS[vendorKey];
+                  return (
+                    <TouchableOpacity
+                      key={vendorKey}
+                      style={[styles.typeCard, vendor === vendorKey && styles.typeCardActive]}
+                      onPress={() => {
+                        setVendor(vendorKey);
+                        setPollIntervalMs(preset.defaultPollIntervalMs.toString());
+                        markDirty();
+                      }}
+                    >
+                      <View style={styles.typeCardContent}>
+                        <Text style={[styles.typeLabel, vendor === vendorKey && styles.typeLabelActive]}>{preset.name}</Text>
+                        <Text style={styles.typeDesc}>{preset.description}</Text>
+                      </View>
+                      {vendor === vendorKey && <MaterialIcons name="check-circle" size={20} color={lightColors.primary} />}
+                    </TouchableOpacity>
+                  );
+                })}
+            </View>
+          )}
 
           {/* Connection details */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Connection Details</Text>
 
-            <Text style={styles.fieldLabel}>Endpoint URL *</Text>
-            <TextInput
-              style={styles.input}
-              value={endpoint}
-              onChangeText={v => {
-                setEndpoint(v);
-                markDirty();
-              }}
-              placeholder="http://192.168.1.50:8080"
-              placeholderTextColor={lightColors.textSecondary}
-              autoCapitalize="none"
-              autoCorrect={false}
-              keyboardType="url"
-            />
-
-            {KDS_VENDOR_PRESETS[vendor].requiresApiKey && (
+            {needsEndpoint(type) && (
               <>
-                <Text style={styles.fieldLabel}>API Key *</Text>
+                <Text style={styles.fieldLabel}>Endpoint URL *</Text>
                 <TextInput
                   style={styles.input}
-                  value={apiKey}
+                  value={endpoint}
                   onChangeText={v => {
-                    setApiKey(v);
+                    setEndpoint(v);
                     markDirty();
                   }}
-                  placeholder="Required for this vendor"
+                  placeholder="http://192.168.1.50:8080"
                   placeholderTextColor={lightColors.textSecondary}
                   autoCapitalize="none"
                   autoCorrect={false}
-                  secureTextEntry
+                  keyboardType="url"
                 />
-              </>
-            )}
 
-            {vendor === 'clover' && (
-              <>
-                <Text style={styles.fieldLabel}>Merchant ID *</Text>
-                <TextInput
-                  style={styles.input}
-                  value={merchantId}
-                  onChangeText={v => {
-                    setMerchantId(v);
-                    markDirty();
-                  }}
-                  placeholder="Your Clover merchant ID"
-                  placeholderTextColor={lightColors.textSecondary}
-                  autoCapitalize="none"
-                  autoCorrect={false}
-                />
+                {KDS_VENDOR_PRESETS[vendor].requiresApiKey && (
+                  <>
+                    <Text style={styles.fieldLabel}>API Key *</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={apiKey}
+                      onChangeText={v => {
+                        setApiKey(v);
+                        markDirty();
+                      }}
+                      placeholder="Required for this vendor"
+                      placeholderTextColor={lightColors.textSecondary}
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                      secureTextEntry
+                    />
+                  </>
+                )}
+
+                {vendor === 'clover' && (
+                  <>
+                    <Text style={styles.fieldLabel}>Merchant ID *</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={merchantId}
+                      onChangeText={v => {
+                        setMerchantId(v);
+                        markDirty();
+                      }}
+                      placeholder="Your Clover merchant ID"
+                      placeholderTextColor={lightColors.textSecondary}
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                    />
+                  </>
+                )}
+
+                {type === 'http' && (
+                  <>
+                    <Text style={styles.fieldLabel}>Poll Interval (ms)</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={pollIntervalMs}
+                      onChangeText={v => {
+                        setPollIntervalMs(v);
+                        markDirty();
+                      }}
+                      placeholder="3000"
+                      placeholderTextColor={lightColors.textSecondary}
+                      keyboardType="numeric"
+                    />
+                    <Text style={styles.hint}>
+                      How often to check for status updates (default: {KDS_VENDOR_PRESETS[vendor].defaultPollIntervalMs}ms)
+                    </Text>
+                  </>
+                )}
               </>
             )}
 
-            <Text style={styles.fieldLabel}>Poll Interval (ms)</Text>
-            <TextInput
-              style={styles.input}
-              value={pollIntervalMs}
-              onChangeText={v => {
-                setPollIntervalMs(v);
-                markDirty();
-              }}
-              placeholder="3000"
-              placeholderTextColor={lightColors.textSecondary}
-              keyboardType="numeric"
-            />
-            <Text style={styles.hint}>
-              How often to check for status updates (default: {KDS_VENDOR_PRESETS[vendor].defaultPollIntervalMs}ms)
-            </Text>
-
             <View style={styles.row}>
               <View style={styles.rowLabel}>
                 <Text style={styles.label}>Auto-reconnect</Text>
-                <Text style={styles.hint}>Reconnect automatically if connection drops</Text>
+                <Text style={styles.hint}>
+                  {type === 'electron'
+                    ? 'Reopen the KDS window when a ticket arrives after it was closed'
+                    : 'Reconnect automatically if connection drops'}
+                </Text>
               </View>
               <Switch
                 value={autoReconnect}
@@ -367,7 +391,6 @@ const styles = StyleSheet.create({
   typeLabel: { fontSize: typography.fontSize.md, fontWeight: '600', color: lightColors.textPrimary },
   typeLabelActive: { color: lightColors.primary },
   typeDesc: { fontSize: typography.fontSize.xs, color: lightColors.textSecondary, marginTop: 2 },
-  comingSoon: { fontSize: typography.fontSize.xs, color: lightColors.textSecondary, fontWeight: '400' },
   testButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,446 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Switch, ActivityIndicator, Alert, ScrollView } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { lightColors, spacing, typography, borderRadius, elevation } from '../../../utils/theme';
+import { labelPrinterService, LabelPrinterSettings, DEFAULT_LABEL_PRINTER_SETTINGS } from '../../../services/printing/LabelPrinterService';
+import { PrinterConfig } from '../../../services/printer/PrinterTypes';
+import { LabelDpi } from '../../../services/printing/labels/labelTypes';
+import { useLogger } from '../../../hooks/useLogger';
+
+const LANGUAGES: { value: LabelPrinterSettings['language']; label: string; description: string }[] = [
+  { value: 'zpl', label: 'ZPL', description: 'Zebra printers and ZPL emulation (e.g. Honeywell, Godex in ZPL mode).' },
+  { value: 'tspl', label: 'TSPL', description: 'TSC, Godex and other TSPL / TSPL2 compatible printers.' },
+];
+
+const CONNECTION_TYPES: { value: PrinterConfig['connectionType']; label: string }[] = [
+  { value: 'network', label: 'Network' },
+  { value: 'usb', label: 'USB' },
+  { value: 'bluetooth', label: 'Bluetooth' },
+];
+
+const DPI_OPTIONS: LabelDpi[] = [203, 300];
+
+export const LabelPrinterSettingsTab: React.FC = () => {
+  const logger = useLogger('LabelPrinterSettingsTab');
+
+  const [enabled, setEnabled] = useState(false);
+  const [language, setLanguage] = useState<LabelPrinterSettings['language']>(DEFAULT_LABEL_PRINTER_SETTINGS.language);
+  const [dpi, setDpi] = useState<LabelDpi>(DEFAULT_LABEL_PRINTER_SETTINGS.dpi);
+  const [gapMm, setGapMm] = useState(String(DEFAULT_LABEL_PRINTER_SETTINGS.gapMm));
+  const [printerName, setPrinterName] = useState(DEFAULT_LABEL_PRINTER_SETTINGS.printer.printerName);
+  const [connectionType, setConnectionType] = useState<PrinterConfig['connectionType']>('network');
+  const [ipAddress, setIpAddress] = useState('');
+  const [port, setPort] = useState('9100');
+  const [macAddress, setMacAddress] = useState('');
+  const [vendorId, setVendorId] = useState('');
+  const [productId, setProductId] = useState('');
+  const [connectionStatus, setConnectionStatus] = useState<'idle' | 'testing' | 'connected' | 'failed'>('idle');
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Load persisted settings on mount
+  useEffect(() => {
+    labelPrinterService.getSettings().then(settings => {
+      setEnabled(settings.enabled);
+      setLanguage(settings.language);
+      setDpi(settings.dpi);
+      setGapMm(String(settings.gapMm));
+      setPrinterName(settings.printer.printerName);
+      setConnectionType(settings.printer.connectionType);
+      setIpAddress(settings.printer.ipAddress || '');
+      setPort(settings.printer.port?.toString() || '9100');
+      setMacAddress(settings.printer.macAddress || '');
+      setVendorId(settings.printer.vendorId?.toString(16) || '');
+      setProductId(settings.printer.productId?.toString(16) || '');
+    });
+  }, []);
+
+  const markDirty = () => setDirty(true);
+
+  const buildPrinterConfig = useCallback(
+    (): PrinterConfig => ({
+      printerName: printerName.trim() || DEFAULT_LABEL_PRINTER_SETTINGS.printer.printerName,
+      connectionType,
+      ipAddress: ipAddress.trim(),
+      port: parseInt(port, 10) || 9100,
+      macAddress: macAddress.trim(),
+      vendorId: vendorId.trim() ? parseInt(vendorId, 16) : undefined,
+      productId: productId.trim() ? parseInt(productId, 16) : undefined,
+    }),
+    [printerName, connectionType, ipAddress, port, macAddress, vendorId, productId]
+  );
+
+  const validate = useCallback((): string | null => {
+    if (connectionType === 'network' && !ipAddress.trim()) return 'IP address is required for a network label printer.';
+    if (connectionType === 'bluetooth' && !macAddress.trim()) return 'MAC address is required for a Bluetooth label printer.';
+    if (connectionType === 'usb' && (!vendorId.trim() || !productId.trim()))
+      return 'Vendor and product IDs are required for a USB label printer.';
+    return null;
+  }, [connectionType, ipAddress, macAddress, vendorId, productId]);
+
+  const handleSave = useCallback(async () => {
+    const error = enabled ? validate() : null;
+    if (error) {
+      Alert.alert('Validation Error', error);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await labelPrinterService.configure({
+        enabled,
+        language,
+        dpi,
+        gapMm: parseFloat(gapMm) || DEFAULT_LABEL_PRINTER_SETTINGS.gapMm,
+        printer: buildPrinterConfig(),
+      });
+      setDirty(false);
+      Alert.alert('Saved', enabled ? 'Labels will print on the label printer.' : 'Labels will print on the receipt printer.');
+    } catch (err) {
+      logger.error({ message: 'Failed to save label printer settings' }, err instanceof Error ? err : new Error(String(err)));
+      Alert.alert('Error', 'Failed to save label printer settings.');
+    } finally {
+      setSaving(false);
+    }
+  }, [enabled, language, dpi, gapMm, buildPrinterConfig, validate, logger]);
+
+  const handleTestConnection = useCallback(async () => {
+    const error = validate();
+    if (error) {
+      Alert.alert('Validation Error', error);
+      return;
+    }
+    setConnectionStatus('testing');
+    const ok = await labelPrinterService.testConnection(buildPrinterConfig());
+    setConnectionStatus(ok ? 'connected' : 'failed');
+    Alert.alert(ok ? 'Connected' : 'Failed', ok ? 'Label printer is reachable.' : 'Could not connect to the label printer.');
+  }, [buildPrinterConfig, validate]);
+
+  const statusIcon = () => {
+    switch (connectionStatus) {
+      case 'connected':
+        return <MaterialIcons name="check-circle" size={18} color={lightColors.success} />;
+      case 'failed':
+        return <MaterialIcons name="error" size={18} color={lightColors.error} />;
+      case 'testing':
+        return <ActivityIndicator size="small" color={lightColors.primary} />;
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.title}>Label Printer</Text>
+      <Text style={styles.subtitle}>
+        Print shelf-edge and product labels on a dedicated ZPL or TSPL label printer. When disabled, labels print on the receipt printer.
+      </Text>
+
+      {/* Enable toggle */}
+      <View style={styles.section}>
+        <View style={styles.row}>
+          <View style={styles.rowLabel}>
+            <Text style={styles.label}>Use Label Printer</Text>
+            <Text style={styles.hint}>Send barcode labels to this printer instead of the receipt printer</Text>
+          </View>
+          <Switch
+            value={enabled}
+            onValueChange={v => {
+              setEnabled(v);
+              markDirty();
+            }}
+            trackColor={{ false: lightColors.border, true: lightColors.primary + '60' }}
+            thumbColor={enabled ? lightColors.primary : lightColors.textSecondary}
+          />
+        </View>
+      </View>
+
+      {enabled && (
+        <>
+          {/* Printer language */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Printer Language</Text>
+            {LANGUAGES.map(opt => (
+              <TouchableOpacity
+                key={opt.value}
+                style={[styles.typeCard, language === opt.value && styles.typeCardActive]}
+                onPress={() => {
+                  setLanguage(opt.value);
+                  markDirty();
+                }}
+              >
+                <View style={styles.typeCardContent}>
+                  <Text style={[styles.typeLabel, language === opt.value && styles.typeLabelActive]}>{opt.label}</Text>
+                  <Text style={styles.typeDesc}>{opt.description}</Text>
+                </View>
+                {language === opt.value && <MaterialIcons name="check-circle" size={20} color={lightColors.primary} />}
+              </TouchableOpacity>
+            ))}
+
+            <Text style={styles.fieldLabel}>Print Resolution</Text>
+            <View style={styles.chipRow}>
+              {DPI_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, dpi === option && styles.chipActive]}
+                  onPress={() => {
+                    setDpi(option);
+                    markDirty();
+                  }}
+                >
+                  <Text style={[styles.chipText, dpi === option && styles.chipTextActive]}>{option} dpi</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {language === 'tspl' && (
+              <>
+                <Text style={styles.fieldLabel}>Label Gap (mm)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={gapMm}
+                  onChangeText={v => {
+                    setGapMm(v);
+                    markDirty();
+                  }}
+                  placeholder="2"
+                  placeholderTextColor={lightColors.textSecondary}
+                  keyboardType="decimal-pad"
+                />
+                <Text style={styles.hint}>Space between labels on the roll, used to find the start of each label</Text>
+              </>
+            )}
+          </View>
+
+          {/* Connection details */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Connection</Text>
+            <View style={styles.chipRow}>
+              {CONNECTION_TYPES.map(opt => (
+                <TouchableOpacity
+                  key={opt.value}
+                  style={[styles.chip, connectionType === opt.value && styles.chipActive]}
+                  onPress={() => {
+                    setConnectionType(opt.value);
+                    setConnectionStatus('idle');
+                    markDirty();
+                  }}
+                >
+                  <Text style={[styles.chipText, connectionType === opt.value && styles.chipTextActive]}>{opt.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.fieldLabel}>Printer Name</Text>
+            <TextInput
+              style={styles.input}
+              value={printerName}
+              onChangeText={v => {
+                setPrinterName(v);
+                markDirty();
+              }}
+              placeholder="Label Printer"
+              placeholderTextColor={lightColors.textSecondary}
+            />
+
+            {connectionType === 'network' && (
+              <>
+                <Text style={styles.fieldLabel}>IP Address *</Text>
+                <TextInput
+                  style={styles.input}
+                  value={ipAddress}
+                  onChangeText={v => {
+                    setIpAddress(v);
+                    markDirty();
+                  }}
+                  placeholder="192.168.1.60"
+                  placeholderTextColor={lightColors.textSecondary}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="numeric"
+                />
+                <Text style={styles.fieldLabel}>Port</Text>
+                <TextInput
+                  style={styles.input}
+                  value={port}
+                  onChangeText={v => {
+                    setPort(v);
+                    markDirty();
+                  }}
+                  placeholder="9100"
+                  placeholderTextColor={lightColors.textSecondary}
+                  keyboardType="numeric"
+                />
+              </>
+            )}
+
+            {connectionType === 'bluetooth' && (
+              <>
+                <Text style={styles.fieldLabel}>MAC Address *</Text>
+                <TextInput
+                  style={styles.input}
+                  value={macAddress}
+                  onChangeText={v => {
+                    setMacAddress(v);
+                    markDirty();
+                  }}
+                  placeholder="00:11:22:33:44:55"
+                  placeholderTextColor={lightColors.textSecondary}
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                />
+              </>
+            )}
+
+            {connectionType === 'usb' && (
+              <>
+                <Text style={styles.fieldLabel}>Vendor ID (hex) *</Text>
+                <TextInput
+                  style={styles.input}
+                  value={vendorId}
+                  onChangeText={v => {
+                    setVendorId(v);
+                    markDirty();
+                  }}
+                  placeholder="0a5f"
+                  placeholderTextColor={lightColors.textSecondary}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+                <Text style={styles.fieldLabel}>Product ID (hex) *</Text>
+                <TextInput
+                  style={styles.input}
+                  value={productId}
+                  onChangeText={v => {
+                    setProductId(v);
+                    markDirty();
+                  }}
+                  placeholder="0164"
+                  placeholderTextColor={lightColors.textSecondary}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+              </>
+            )}
+          </View>
+
+          {/* Test connection */}
+          <View style={styles.section}>
+            <TouchableOpacity style={styles.testButton} onPress={handleTestConnection} disabled={connectionStatus === 'testing'}>
+              {connectionStatus === 'testing' ? (
+                <ActivityIndicator size="small" color={lightColors.textOnPrimary} />
+              ) : (
+                <MaterialIcons name="print" size={18} color={lightColors.textOnPrimary} />
+              )}
+              <Text style={styles.testButtonText}>Test Connection</Text>
+            </TouchableOpacity>
+
+            {connectionStatus !== 'idle' && (
+              <View style={styles.statusRow}>
+                {statusIcon()}
+                <Text style={[styles.statusText, connectionStatus === 'connected' ? styles.statusOk : styles.statusFail]}>
+                  {connectionStatus === 'connected' ? 'Connected' : connectionStatus === 'failed' ? 'Connection failed' : 'Testing…'}
+                </Text>
+              </View>
+            )}
+          </View>
+        </>
+      )}
+
+      {/* Save */}
+      {dirty && (
+        <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={saving}>
+          {saving ? (
+            <ActivityIndicator color={lightColors.textOnPrimary} size="small" />
+          ) : (
+            <Text style={styles.saveButtonText}>Save Changes</Text>
+          )}
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: lightColors.background },
+  content: { paddingBottom: spacing.xl * 2 },
+  title: { fontSize: typography.fontSize.lg, fontWeight: '600', color: lightColors.textPrimary, marginBottom: spacing.xs },
+  subtitle: { fontSize: typography.fontSize.sm, color: lightColors.textSecondary, marginBottom: spacing.md, lineHeight: 20 },
+  section: {
+    backgroundColor: lightColors.surface,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    ...elevation.low,
+  },
+  sectionTitle: { fontSize: typography.fontSize.md, fontWeight: '700', color: lightColors.textPrimary, marginBottom: spacing.md },
+  row: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+  rowLabel: { flex: 1, marginRight: spacing.md },
+  label: { fontSize: typography.fontSize.md, fontWeight: '600', color: lightColors.textPrimary },
+  hint: { fontSize: typography.fontSize.xs, color: lightColors.textSecondary, marginTop: 2 },
+  fieldLabel: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: '600',
+    color: lightColors.textPrimary,
+    marginBottom: spacing.xs,
+    marginTop: spacing.sm,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: lightColors.border,
+    borderRadius: borderRadius.sm,
+    padding: spacing.sm,
+    fontSize: typography.fontSize.md,
+    color: lightColors.textPrimary,
+    backgroundColor: lightColors.background,
+    marginBottom: spacing.sm,
+  },
+  typeCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 2,
+    borderColor: lightColors.border,
+    marginBottom: spacing.sm,
+  },
+  typeCardActive: { borderColor: lightColors.primary, backgroundColor: lightColors.primary + '08' },
+  typeCardContent: { flex: 1 },
+  typeLabel: { fontSize: typography.fontSize.md, fontWeight: '600', color: lightColors.textPrimary },
+  typeLabelActive: { color: lightColors.primary },
+  typeDesc: { fontSize: typography.fontSize.xs, color: lightColors.textSecondary, marginTop: 2 },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.round,
+    borderWidth: 1,
+    borderColor: lightColors.border,
+  },
+  chipActive: { borderColor: lightColors.primary, backgroundColor: lightColors.primary + '15' },
+  chipText: { fontSize: typography.fontSize.sm, color: lightColors.textPrimary },
+  chipTextActive: { color: lightColors.primary, fontWeight: '600' },
+  testButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: lightColors.primary,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.md,
+    gap: spacing.xs,
+  },
+  testButtonText: { color: lightColors.textOnPrimary, fontWeight: '600', fontSize: typography.fontSize.sm },
+  statusRow: { flexDirection: 'row', alignItems: 'center', marginTop: spacing.sm, gap: spacing.xs },
+  statusText: { fontSize: typography.fontSize.sm, fontWeight: '600' },
+  statusOk: { color: lightColors.success },
+  statusFail: { color: lightColors.error },
+  saveButton: {
+    backgroundColor: lightColors.primary,
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    alignItems: 'center',
+    marginTop: spacing.sm,
+  },
+  saveButtonText: { color: lightColors.textOnPrimary, fontWeight: '700', fontSize: typography.fontSize.md },
+});
@@ -0,0 +1,285 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, StyleSheet, Alert, ActivityIndicator, TouchableOpacity, Switch } from 'react-native';
+import { useTheme } from '../../../contexts/ThemeProvider';
+import { Button } from '../../../components/Button';
+import { Card } from '../../../components/Card';
+import { scaleServiceFactory, ScaleSettings } from '../../../services/scale/ScaleServiceFactory';
+import { ScaleProtocol, ScaleType } from '../../../services/scale/ScaleServiceInterface';
+import { SCALE_PROTOCOLS } from '../../../services/scale/scaleProtocols';
+
+const SCALE_TYPES: { id: ScaleType; label: string }[] = [
+  { id: 'serial', label: 'Serial' },
+  { id: 'mock', label: 'Simulated' },
+];
+
+/**
+ * Weighing scale settings tab
+ */
+export function ScaleSettingsTab() {
+  const { colors } = useTheme();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [settings, setSettings] = useState<ScaleSettings>(scaleServiceFactory.getSettings());
+  const [baudRateText, setBaudRateText] = useState('');
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      await scaleServiceFactory.initialize();
+      const saved = scaleServiceFactory.getSettings();
+      setSettings(saved);
+      setBaudRateText(saved.baudRate ? String(saved.baudRate) : '');
+    } catch {
+      Alert.alert('Error', 'Failed to load scale settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const update = (changes: Partial<ScaleSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    const baudRate = baudRateText.trim() ? parseInt(baudRateText, 10) : undefined;
+    if (baudRate !== undefined && (isNaN(baudRate) || baudRate <= 0)) {
+      Alert.alert('Invalid Baud Rate', 'Enter a positive number or leave it empty for the protocol default');
+      return;
+    }
+    if (settings.enabled && settings.type === 'serial' && !settings.port.trim()) {
+      Alert.alert('Missing Port', 'Enter the serial port the scale is connected to');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const connected = await scaleServiceFactory.configure({ ...settings, port: settings.port.trim(), baudRate });
+      setDirty(false);
+      if (connected) {
+        Alert.alert('Success', 'Scale settings saved');
+      } else {
+        Alert.alert('Saved', 'Settings saved, but the scale could not be opened. Check the port and cable.');
+      }
+    } catch {
+      Alert.alert('Error', 'Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTestWeigh = async () => {
+    const scale = scaleServiceFactory.getService();
+    if (!scale) {
+      Alert.alert('No Scale', 'Save the settings to connect the scale first');
+      return;
+    }
+
+    setTesting(true);
+    try {
+      const reading = await scale.readStableWeight();
+      Alert.alert('Test Weigh', `${reading.weightKg.toFixed(3)} kg`);
+    } catch (error) {
+      Alert.alert('Test Weigh Failed', error instanceof Error ? error.message : 'The scale did not answer');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  const active = settings.enabled && settings.type !== 'none';
+
+  return (
+    <View style={styles.container}>
+      <Card style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>Weighing Scale</Text>
+        <Text style={[styles.sectionDescription, { color: colors.textSecondary }]}>
+          Read weights for items sold by weight. Without a scale the cashier types the weight in.
+        </Text>
+
+        <View style={styles.switchRow}>
+          <Text style={[styles.label, { color: colors.textPrimary }]}>Enable scale</Text>
+          <Switch
+            value={settings.enabled}
+            onValueChange={enabled => update({ enabled, type: enabled && settings.type === 'none' ? 'serial' : settings.type })}
+          />
+        </View>
+
+        {settings.enabled && (
+          <>
+            <View style={styles.field}>
+              <Text style={[styles.label, { color: colors.textPrimary }]}>Connection</Text>
+              <View style={styles.optionButtons}>
+                {SCALE_TYPES.map(type => (
+                  <TouchableOpacity
+                    key={type.id}
+                    style={[
+                      styles.optionButton,
+                      { borderColor: colors.border },
+                      settings.type === type.id && { backgroundColor: colors.primary, borderColor: colors.primary },
+                    ]}
+                    onPress={() => update({ type: type.id })}
+                  >
+                    <Text
+                      style={[styles.optionButtonText, { color: settings.type === type.id ? colors.textOnPrimary : colors.textPrimary }]}
+                    >
+                      {type.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            {settings.type === 'serial' && (
+              <>
+                <View style={styles.field}>
+                  <Text style={[styles.label, { color: colors.textPrimary }]}>Protocol</Text>
+                  <View style={styles.optionButtons}>
+                    {(Object.keys(SCALE_PROTOCOLS) as ScaleProtocol[]).map(protocol => (
+                      <TouchableOpacity
+                        key={protocol}
+                        style={[
+                          styles.optionButton,
+                          { borderColor: colors.border },
+                          settings.protocol === protocol && { backgroundColor: colors.primary, borderColor: colors.primary },
+                        ]}
+                        onPress={() => update({ protocol })}
+                      >
+                        <Text
+                          style={[
+                            styles.optionButtonText,
+                            { color: settings.protocol === protocol ? colors.textOnPrimary : colors.textPrimary },
+                          ]}
+                        >
+                          {SCALE_PROTOCOLS[protocol].label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+
+                <View style={styles.field}>
+                  <Text style={[styles.label, { color: colors.textPrimary }]}>Serial Port</Text>
+                  <TextInput
+                    style={[styles.input, { borderColor: colors.border, color: colors.textPrimary }]}
+                    value={settings.port}
+                    onChangeText={port => update({ port })}
+                    placeholder="COM3 or /dev/ttyUSB0"
+                    placeholderTextColor={colors.textSecondary}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                </View>
+
+                <View style={styles.field}>
+                  <Text style={[styles.label, { color: colors.textPrimary }]}>Baud Rate</Text>
+                  <TextInput
+                    style={[styles.input, { borderColor: colors.border, color: colors.textPrimary }]}
+                    value={baudRateText}
+                    onChangeText={text => {
+                      setBaudRateText(text);
+                      setDirty(true);
+                    }}
+                    placeholder={String(SCALE_PROTOCOLS[settings.protocol].baudRate)}
+                    placeholderTextColor={colors.textSecondary}
+                    keyboardType="numeric"
+                  />
+                  <Text style={[styles.helperText, { color: colors.textSecondary }]}>
+                    Leave empty to use the protocol default. Serial scales are only available in the desktop app.
+                  </Text>
+                </View>
+              </>
+            )}
+          </>
+        )}
+      </Card>
+
+      {active && !dirty && (
+        <Button
+          title={testing ? 'Weighing...' : 'Test Weigh'}
+          variant="outline"
+          onPress={handleTestWeigh}
+          disabled={testing}
+          style={styles.saveButton}
+        />
+      )}
+
+      {dirty && <Button title={saving ? 'Saving...' : 'Save Settings'} onPress={handleSave} disabled={saving} style={styles.saveButton} />}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  section: {
+    padding: 16,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  sectionDescription: {
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  field: {
+    gap: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  optionButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  optionButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  optionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+  },
+  helperText: {
+    fontSize: 12,
+  },
+  saveButton: {
+    marginTop: 8,
+  },
+});
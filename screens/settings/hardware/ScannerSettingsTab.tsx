@@ -1,10 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ActivityIndicator, Switch } from 'react-native';
 import { useTheme } from '../../../contexts/ThemeProvider';
 import { Input } from '../../../components/Input';
 import { Button } from '../../../components/Button';
 import { Card } from '../../../components/Card';
 import { scannerSettingsService, BLE_SCANNER_PRESETS, BleScannerPreset } from '../../../services/scanner/ScannerSettingsService';
+import { VariableMeasureRule } from '../../../services/scanner/gs1';
+
+type PrefixUse = 'off' | 'price' | 'weight';
+
+/** In-store prefixes a variable-measure EAN-13 label can start with */
+const VARIABLE_MEASURE_PREFIXES = ['02', '20', '21', '22', '23', '24', '25', '26', '27', '28', '29'];
+const PREFIX_USES: PrefixUse[] = ['off', 'price', 'weight'];
 
 /**
  * Scanner settings tab for configuring barcode scanners
@@ -27,6 +34,13 @@ export function ScannerSettingsTab() {
   const [maxBarcodeLength, setMaxBarcodeLength] = useState('128');
   const [suffixChar, setSuffixChar] = useState<'Enter' | 'Tab'>('Enter');
 
+  // GS1 Settings
+  const [gs1Enabled, setGs1Enabled] = useState(true);
+  const [gs1Separator, setGs1Separator] = useState('');
+  const [blockExpired, setBlockExpired] = useState(true);
+  const [prefixUses, setPrefixUses] = useState<Record<string, PrefixUse>>({});
+  const [priceCheckDigit, setPriceCheckDigit] = useState(false);
+
   useEffect(() => {
     loadSettings();
   }, []);
@@ -45,6 +59,12 @@ export function ScannerSettingsTab() {
       setMinBarcodeLength(settings.usb.minBarcodeLength.toString());
       setMaxBarcodeLength(settings.usb.maxBarcodeLength.toString());
       setSuffixChar(settings.usb.suffixChar);
+
+      setGs1Enabled(settings.gs1.enabled);
+      setGs1Separator(settings.gs1.separator);
+      setBlockExpired(settings.gs1.blockExpired);
+      setPrefixUses(Object.fromEntries(settings.gs1.variableMeasure.map(rule => [rule.prefix, rule.kind])));
+      setPriceCheckDigit(settings.gs1.variableMeasure.some(rule => rule.valueDigits === 4));
     } catch {
       Alert.alert('Error', 'Failed to load scanner settings');
     } finally {
@@ -60,7 +80,18 @@ export function ScannerSettingsTab() {
     setDirty(true);
   };
 
+  const buildVariableMeasureRules = (): VariableMeasureRule[] =>
+    VARIABLE_MEASURE_PREFIXES.flatMap(prefix => {
+      const kind = prefixUses[prefix] ?? 'off';
+      if (kind === 'off') return [];
+      return [{ prefix, kind, itemDigits: 5, valueDigits: priceCheckDigit ? 4 : 5, decimals: kind === 'price' ? 2 : 3 }];
+    });
+
   const handleSave = async () => {
+    if (gs1Separator.length > 1 || /\d/.test(gs1Separator)) {
+      Alert.alert('Invalid Separator', 'The GS1 separator must be a single character that is not a digit');
+      return;
+    }
     setSaving(true);
     try {
       await scannerSettingsService.updateSettings({
@@ -79,6 +110,12 @@ export function ScannerSettingsTab() {
           maxBarcodeLength: parseInt(maxBarcodeLength, 10),
           suffixChar,
         },
+        gs1: {
+          enabled: gs1Enabled,
+          separator: gs1Separator,
+          blockExpired,
+          variableMeasure: buildVariableMeasureRules(),
+        },
       });
 
       setDirty(false);
@@ -239,6 +276,98 @@ export function ScannerSettingsTab() {
         </View>
       </Card>
 
+      {/* GS1 Barcode Settings */}
+      <Card style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>GS1 Barcodes</Text>
+        <Text style={[styles.sectionDescription, { color: colors.textSecondary }]}>
+          Read price and weight labels from scales, and the GTIN, batch and expiry date in GS1 DataMatrix and GS1-128 codes
+        </Text>
+
+        <View style={styles.switchRow}>
+          <Text style={[styles.label, { color: colors.textPrimary }]}>Decode GS1 Codes</Text>
+          <Switch
+            value={gs1Enabled}
+            onValueChange={value => {
+              setGs1Enabled(value);
+              setDirty(true);
+            }}
+          />
+        </View>
+
+        {gs1Enabled && (
+          <>
+            <View style={styles.switchRow}>
+              <Text style={[styles.label, { color: colors.textPrimary }]}>Block Expired Items</Text>
+              <Switch
+                value={blockExpired}
+                onValueChange={value => {
+                  setBlockExpired(value);
+                  setDirty(true);
+                }}
+              />
+            </View>
+
+            <Input
+              label="Separator Character"
+              value={gs1Separator}
+              onChangeText={text => {
+                setGs1Separator(text);
+                setDirty(true);
+              }}
+              placeholder="~"
+              maxLength={1}
+              helperText="The character your USB scanner is programmed to send for the GS1 separator (FNC1). Leave empty if it sends GS."
+            />
+
+            <View style={styles.field}>
+              <Text style={[styles.label, { color: colors.textPrimary }]}>Price and Weight Labels</Text>
+              <Text style={[styles.sectionDescription, { color: colors.textSecondary }]}>
+                What the value in an in-store EAN-13 is, by its first two digits. Weights are in kg.
+              </Text>
+              {VARIABLE_MEASURE_PREFIXES.map(prefix => (
+                <View key={prefix} style={styles.prefixRow}>
+                  <Text style={[styles.prefixLabel, { color: colors.textPrimary }]}>{prefix}</Text>
+                  <View style={styles.suffixButtons}>
+                    {PREFIX_USES.map(use => {
+                      const selected = (prefixUses[prefix] ?? 'off') === use;
+                      return (
+                        <TouchableOpacity
+                          key={use}
+                          style={[
+                            styles.suffixButton,
+                            { borderColor: colors.border },
+                            selected && { backgroundColor: colors.primary, borderColor: colors.primary },
+                          ]}
+                          onPress={() => {
+                            setPrefixUses(current => ({ ...current, [prefix]: use }));
+                            setDirty(true);
+                          }}
+                        >
+                          <Text style={[styles.suffixButtonText, { color: selected ? colors.textOnPrimary : colors.textPrimary }]}>
+                            {use === 'off' ? 'Off' : use === 'price' ? 'Price' : 'Weight'}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              ))}
+            </View>
+
+            <View style={styles.switchRow}>
+              <Text style={[styles.label, { color: colors.textPrimary }]}>4-Digit Value with Check Digit</Text>
+              <Switch
+                value={priceCheckDigit}
+                onValueChange={value => {
+                  setPriceCheckDigit(value);
+                  setDirty(true);
+                }}
+              />
+            </View>
+          </>
+        )}
+      </Card>
+
       {/* Save Button */}
       {dirty && <Button title={saving ? 'Saving...' : 'Save Settings'} onPress={handleSave} disabled={saving} style={styles.saveButton} />}
     </View>
@@ -303,6 +432,21 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  prefixRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  prefixLabel: {
+    width: 28,
+    fontSize: 14,
+    fontWeight: '600',
+  },
   saveButton: {
     marginTop: 8,
   },
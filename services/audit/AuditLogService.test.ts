@@ -16,13 +16,70 @@ jest.mock('../../repositories/KeyValueRepository', () => {
   const store: Record<string, string> = {};
   return {
     keyValueRepository: {
-      get: jest.fn(async (key: string) => store[key] ?? null),
-      set: jest.fn(async (key: string, value: string) => {
+      getItem: jest.fn(async (key: string) => store[key] ?? null),
+      setItem: jest.fn(async (key: string, value: string) => {
         store[key] = value;
       }),
-      delete: jest.fn(async (key: string) => {
-        delete store[key];
+    },
+  };
+});
+
+import type {
+  AuditArchiveRow,
+  AuditLogFilter,
+  AuditLogRow,
+  InsertAuditArchiveInput,
+  InsertAuditLogInput,
+} from '../../repositories/AuditLogRepository';
+
+// In-memory audit_log / audit_log_archives
+const mockRows: AuditLogRow[] = [];
+const mockArchives: Array<Pick<AuditArchiveRow, 'id' | 'to_seq' | 'last_hash'>> = [];
+let mockSeq = 0;
+
+jest.mock('../../repositories/AuditLogRepository', () => {
+  const matches = (row: AuditLogRow, filter: AuditLogFilter) =>
+    (!filter.action || row.action === filter.action) &&
+    (!filter.userId || row.user_id === filter.userId) &&
+    (filter.from === undefined || row.timestamp >= filter.from) &&
+    (filter.to === undefined || row.timestamp < filter.to);
+  return {
+    auditLogRepository: {
+      insert: jest.fn(async (input: InsertAuditLogInput) => {
+        // Yield so concurrent writers would interleave without the service's queue
+        await Promise.resolve();
+        mockRows.push({
+          seq: ++mockSeq,
+          id: input.id,
+          action: input.action,
+          user_id: input.userId,
+          user_name: input.userName,
+          register_id: input.registerId,
+          details: input.details,
+          metadata: input.metadata,
+          timestamp: input.timestamp,
+          prev_hash: input.prevHash,
+          hash: input.hash,
+        });
+      }),
+      findHead: jest.fn(async () => mockRows[mockRows.length - 1] ?? null),
+      find: jest.fn(async (filter: AuditLogFilter = {}, limit?: number, offset = 0) => {
+        const rows = mockRows.filter(r => matches(r, filter)).reverse();
+        return limit === undefined ? rows : rows.slice(offset, offset + limit);
+      }),
+      count: jest.fn(async (filter: AuditLogFilter = {}) => mockRows.filter(r => matches(r, filter)).length),
+      findAfter: jest.fn(async (afterSeq: number, limit: number) => mockRows.filter(r => r.seq > afterSeq).slice(0, limit)),
+      findThrough: jest.fn(async (toSeq: number) => mockRows.filter(r => r.seq <= toSeq)),
+      findLastSeqBefore: jest.fn(async (timestamp: number) => {
+        const older = mockRows.filter(r => r.timestamp < timestamp);
+        return older.length > 0 ? older[older.length - 1].seq : null;
+      }),
+      archiveThrough: jest.fn(async (input: InsertAuditArchiveInput) => {
+        mockArchives.push({ id: `archive-${mockArchives.length + 1}`, to_seq: input.toSeq, last_hash: input.lastHash });
+        mockRows.splice(0, mockRows.filter(r => r.seq <= input.toSeq).length);
+        return `archive-${mockArchives.length}`;
       }),
+      findLatestArchive: jest.fn(async () => mockArchives[mockArchives.length - 1] ?? null),
     },
   };
 });
@@ -32,10 +89,13 @@ jest.mock('../../utils/uuid', () => ({
 }));
 
 import { auditLogService } from './AuditLogService';
+import { GENESIS_HASH } from './auditChain';
 
 describe('AuditLogService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockRows.length = 0;
+    mockArchives.length = 0;
   });
 
   describe('log', () => {
@@ -87,4 +147,104 @@ describe('AuditLogService', () => {
       expect(Array.isArray(logs)).toBe(true);
     });
   });
+
+  describe('hash chain', () => {
+    it('links each entry to the one before it', async () => {
+      await auditLogService.log('auth:login', { userId: 'user-1' });
+      await auditLogService.log('order:created', { userId: 'user-1', metadata: { orderId: 'o-1' } });
+
+      const [second, first] = await auditLogService.getAll();
+      expect(first.prevHash).toBe(GENESIS_HASH);
+      expect(second.prevHash).toBe(first.hash);
+      expect(second.metadata).toEqual({ orderId: 'o-1' });
+      expect(await auditLogService.verifyChain()).toEqual(expect.objectContaining({ valid: true, checked: 2, headHash: second.hash }));
+    });
+
+    it('keeps the chain linear when entries are logged concurrently', async () => {
+      await Promise.all(['a', 'b', 'c', 'd'].map(userId => auditLogService.log('auth:login', { userId })));
+
+      expect(mockRows).toHaveLength(4);
+      expect((await auditLogService.verifyChain()).valid).toBe(true);
+    });
+
+    it('reports an edited entry as the first broken link', async () => {
+      for (let i = 0; i < 3; i++) await auditLogService.log('order:paid', { details: `Order ${i} paid` });
+      mockRows[1].details = 'Order 1 refunded';
+
+      const result = await auditLogService.verifyChain();
+      expect(result.valid).toBe(false);
+      expect(result.checked).toBe(2);
+      expect(result.brokenAt).toEqual({ seq: mockRows[1].seq, id: mockRows[1].id, reason: 'hash_mismatch' });
+    });
+
+    it('reports a removed entry at the entry after the gap', async () => {
+      for (let i = 0; i < 3; i++) await auditLogService.log('order:paid', { details: `Order ${i} paid` });
+      const next = mockRows[2];
+      mockRows.splice(1, 1);
+
+      const result = await auditLogService.verifyChain();
+      expect(result.brokenAt).toEqual({ seq: next.seq, id: next.id, reason: 'link_mismatch' });
+    });
+  });
+
+  describe('query', () => {
+    it('pages entries newest first with the total across pages', async () => {
+      for (let i = 0; i < 5; i++) await auditLogService.log('order:paid', { userId: 'user-1', details: `Order ${i}` });
+      await auditLogService.log('auth:logout', { userId: 'user-1' });
+
+      const page = await auditLogService.query({ action: 'order:paid', userId: 'user-1', limit: 2, offset: 2 });
+      expect(page.total).toBe(5);
+      expect(page.entries.map(e => e.details)).toEqual(['Order 2', 'Order 1']);
+    });
+  });
+
+  describe('exportCsv', () => {
+    it('includes the sequence and hashes, oldest first', async () => {
+      await auditLogService.log('auth:login', { userId: 'user-1', details: 'first, login' });
+      await auditLogService.log('auth:logout', { userId: 'user-1' });
+
+      const [header, first, second] = (await auditLogService.exportCsv()).split('\n');
+      expect(header).toBe('ID,Action,User ID,User Name,Register ID,Details,Timestamp,Sequence,Previous Hash,Hash');
+      expect(first).toContain('first; login');
+      expect(first.split(',').slice(-2)).toEqual([GENESIS_HASH, mockRows[0].hash]);
+      expect(second.split(',').slice(-2)).toEqual([mockRows[0].hash, mockRows[1].hash]);
+    });
+  });
+
+  describe('archiveBefore', () => {
+    it('moves old entries to an archive file and anchors the rest of the chain on it', async () => {
+      const now = jest.spyOn(Date, 'now');
+      now.mockReturnValue(1_000);
+      await auditLogService.log('auth:login', { userId: 'user-1' });
+      await auditLogService.log('auth:logout', { userId: 'user-1' });
+      now.mockReturnValue(5_000);
+      await auditLogService.log('auth:login', { userId: 'user-2' });
+
+      const archive = await auditLogService.archiveBefore(2_000, 'manager-1');
+      now.mockRestore();
+
+      expect(archive).toEqual(expect.objectContaining({ entryCount: 2, fileUri: expect.stringContaining('audit-archives/') }));
+      // The in-memory mock from tests/__mocks__, mapped in jest.config.js
+      const { files } = jest.requireActual('expo-file-system');
+      const archived = JSON.parse(files.get(archive!.fileUri));
+      expect(archived.anchorHash).toBe(GENESIS_HASH);
+      expect(archived.entries.map((e: { userId: string }) => e.userId)).toEqual(['user-1', 'user-1']);
+
+      const remaining = await auditLogService.getAll();
+      expect(remaining.map(e => e.action)).toEqual(['audit:archived', 'auth:login']);
+      expect(remaining[1].prevHash).toBe(archived.headHash);
+      expect(await auditLogService.verifyChain()).toEqual(expect.objectContaining({ valid: true, anchorHash: archived.headHash }));
+    });
+
+    it('refuses to archive a broken chain', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1_000);
+      await auditLogService.log('auth:login', { userId: 'user-1' });
+      await auditLogService.log('auth:logout', { userId: 'user-1' });
+      now.mockRestore();
+      mockRows[0].user_id = 'user-9';
+
+      await expect(auditLogService.archiveBefore(2_000)).rejects.toThrow('broken at entry');
+      expect(mockRows).toHaveLength(2);
+    });
+  });
 });
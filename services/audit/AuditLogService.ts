@@ -1,5 +1,8 @@
+import { Directory, File, Paths } from 'expo-file-system';
+import { auditLogRepository, AuditLogFilter, AuditLogRow } from '../../repositories/AuditLogRepository';
 import { keyValueRepository } from '../../repositories/KeyValueRepository';
 import { LoggerFactory } from '../logger/LoggerFactory';
+import { computeAuditHash, GENESIS_HASH } from './auditChain';
 
 export type AuditAction =
   | 'order:created'
@@ -7,6 +10,9 @@ export type AuditAction =
   | 'order:synced'
   | 'order:cancelled'
   | 'order:discarded'
+  | 'order:tip_adjusted'
+  | 'age_check:verified'
+  | 'age_check:refused'
   | 'refund:processed'
   | 'return:created'
   | 'return:completed'
@@ -23,11 +29,14 @@ export type AuditAction =
   | 'settings:changed'
   | 'shift:opened'
   | 'shift:closed'
+  | 'shift:handed_over'
   | 'drawer:opened'
   | 'drawer:closed'
+  | 'cash:moved'
   | 'sync:started'
   | 'sync:completed'
   | 'sync:failed'
+  | 'sync:conflict_resolved'
   | 'exchange:completed'
   | 'permission:approved'
   | 'permission_set:created'
@@ -41,6 +50,15 @@ export type AuditAction =
   | 'store_credit:issued'
   | 'store_credit:redeemed'
   | 'store_credit:expired'
+  | 'gift_card:activated'
+  | 'gift_card:reloaded'
+  | 'gift_card:redeemed'
+  | 'gift_card:refunded'
+  | 'gift_card:reversed'
+  | 'gift_card:voided'
+  | 'basket:held'
+  | 'basket:recalled'
+  | 'basket:discarded'
   | 'vendor:created'
   | 'vendor:updated'
   | 'vendor:deleted'
@@ -53,6 +71,8 @@ export type AuditAction =
   | 'transfer_order:dispatched'
   | 'transfer_order:created'
   | 'transfer_order:cancelled'
+  | 'location:created'
+  | 'location:updated'
   | 'vendor_return:created'
   | 'vendor_return:confirmed'
   | 'vendor_return:cancelled'
@@ -61,9 +81,23 @@ export type AuditAction =
   | 'hardware:connected'
   | 'hardware:disconnected'
   | 'hardware:error'
-  | 'hardware:configured';
+  | 'hardware:configured'
+  | 'promotion:created'
+  | 'promotion:updated'
+  | 'promotion:deleted'
+  | 'discount:applied'
+  | 'discount:removed'
+  | 'register:paired'
+  | 'register:revoked'
+  | 'register:role_changed'
+  | 'register:promoted'
+  | 'register:stepped_down'
+  | 'register:orders_reconciled'
+  | 'audit:archived';
 
 export interface AuditEntry {
+  /** Position in the chain; gaps never occur except where entries were archived */
+  seq: number;
   id: string;
   action: AuditAction;
   userId?: string;
@@ -72,21 +106,100 @@ export interface AuditEntry {
   details?: string;
   metadata?: Record<string, unknown>;
   timestamp: number;
+  /** Hash of the previous entry (all zeros for the first entry ever written) */
+  prevHash: string;
+  /** SHA-256 over prevHash and this entry's fields */
+  hash: string;
 }
 
-const KV_KEY = 'audit.log';
-const MAX_ENTRIES = 2000;
+export interface AuditLogQuery {
+  action?: AuditAction;
+  userId?: string;
+  /** Inclusive lower bound (Unix ms) */
+  from?: number;
+  /** Exclusive upper bound (Unix ms) */
+  to?: number;
+  /** Page size (default 50) */
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditLogPage {
+  /** Newest first */
+  entries: AuditEntry[];
+  /** Entries matching the filter across all pages */
+  total: number;
+}
+
+export interface AuditChainBreak {
+  seq: number;
+  id: string;
+  /**
+   * hash_mismatch — the entry was edited after it was written;
+   * link_mismatch — an entry before it was removed, inserted or reordered
+   */
+  reason: 'hash_mismatch' | 'link_mismatch';
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  /** Entries checked, up to and including the first broken one */
+  checked: number;
+  /** Hash the first entry links to — genesis, or the last archived entry */
+  anchorHash: string;
+  /** Hash of the newest entry (the anchor when the log is empty) */
+  headHash: string;
+  /** First broken link, when the chain does not verify */
+  brokenAt?: AuditChainBreak;
+}
+
+/** Entries plus what is needed to re-verify them independently */
+export interface AuditChainExport {
+  exportedAt: number;
+  anchorHash: string;
+  headHash: string;
+  /** Oldest first, so each entry's prevHash is the hash above it */
+  entries: AuditEntry[];
+}
+
+export interface AuditArchiveResult {
+  archiveId: string;
+  fromSeq: number;
+  toSeq: number;
+  entryCount: number;
+  fileUri: string;
+}
+
+type LogOptions = {
+  userId?: string;
+  userName?: string;
+  registerId?: string;
+  details?: string;
+  metadata?: Record<string, unknown>;
+};
+
+const RETENTION_DAYS_KEY = 'audit.retentionDays';
+const DEFAULT_RETENTION_DAYS = 365;
+const DEFAULT_PAGE_SIZE = 50;
+const VERIFY_BATCH_SIZE = 500;
+const ARCHIVE_DIRECTORY = 'audit-archives';
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
- * Lightweight audit log stored in key-value store as a JSON array.
- * For a production system this would be a dedicated table, but for
- * the current scope this keeps things simple and avoids another migration.
+ * Append-only audit log in SQLite (`audit_log`).
+ *
+ * Every entry carries a SHA-256 hash over its fields and the previous entry's
+ * hash, so editing, removing or reordering history breaks the chain and
+ * `verifyChain()` reports where. Writes are serialised so each entry links to
+ * the one before it. Entries past the retention period are moved to an archive
+ * file, and the archive's last hash anchors what stays in the table.
+ *
+ * See: docs/specs/system/audit.md
  */
 export class AuditLogService {
   private static instance: AuditLogService;
   private logger = LoggerFactory.getInstance().createLogger('AuditLogService');
-  private entries: AuditEntry[] = [];
-  private loaded = false;
+  private writeQueue: Promise<unknown> = Promise.resolve();
 
   private constructor() {}
 
@@ -97,101 +210,262 @@ export class AuditLogService {
     return AuditLogService.instance;
   }
 
-  private async ensureLoaded(): Promise<void> {
-    if (this.loaded) return;
+  /**
+   * Record an audit event. Never throws — a failed write is logged and the
+   * producer carries on.
+   */
+  async log(action: AuditAction, options?: LogOptions): Promise<void> {
     try {
-      const raw = await keyValueRepository.getItem(KV_KEY);
-      if (raw) {
-        this.entries = JSON.parse(raw);
-      }
+      await this.enqueue(() => this.append(action, options));
     } catch (error) {
-      this.logger.error({ message: 'Failed to load audit log' }, error instanceof Error ? error : new Error(String(error)));
+      this.logger.error({ message: `Failed to write audit entry ${action}` }, error instanceof Error ? error : new Error(String(error)));
     }
-    this.loaded = true;
   }
 
-  private async persist(): Promise<void> {
-    try {
-      await keyValueRepository.setItem(KV_KEY, JSON.stringify(this.entries));
-    } catch (error) {
-      this.logger.error({ message: 'Failed to persist audit log' }, error instanceof Error ? error : new Error(String(error)));
-    }
+  /** Get all entries (newest first) */
+  async getAll(): Promise<AuditEntry[]> {
+    return (await auditLogRepository.find()).map(toEntry);
+  }
+
+  /** Get entries filtered by action type */
+  async getByAction(action: AuditAction): Promise<AuditEntry[]> {
+    return (await auditLogRepository.find({ action })).map(toEntry);
+  }
+
+  /** Get entries for a specific user */
+  async getByUser(userId: string): Promise<AuditEntry[]> {
+    return (await auditLogRepository.find({ userId })).map(toEntry);
+  }
+
+  /** Get entries within a date range */
+  async getByDateRange(from: number, to: number): Promise<AuditEntry[]> {
+    return (await auditLogRepository.find({ from, to })).map(toEntry);
   }
 
-  /** Record an audit event */
-  async log(
-    action: AuditAction,
-    options?: {
-      userId?: string;
-      userName?: string;
-      registerId?: string;
-      details?: string;
-      metadata?: Record<string, unknown>;
+  /** One page of entries matching the filter, newest first */
+  async query(query: AuditLogQuery = {}): Promise<AuditLogPage> {
+    const filter: AuditLogFilter = { action: query.action, userId: query.userId, from: query.from, to: query.to };
+    const [rows, total] = await Promise.all([
+      auditLogRepository.find(filter, query.limit ?? DEFAULT_PAGE_SIZE, query.offset ?? 0),
+      auditLogRepository.count(filter),
+    ]);
+    return { entries: rows.map(toEntry), total };
+  }
+
+  /**
+   * Recompute the chain from its anchor and report the first broken link.
+   */
+  async verifyChain(): Promise<AuditChainVerification> {
+    const anchorHash = await this.getAnchorHash();
+    let expectedPrev = anchorHash;
+    let checked = 0;
+    let afterSeq = 0;
+
+    for (;;) {
+      const batch = await auditLogRepository.findAfter(afterSeq, VERIFY_BATCH_SIZE);
+      for (const row of batch) {
+        checked++;
+        const reason = checkLink(expectedPrev, row);
+        if (reason) {
+          this.logger.warn({ message: `Audit chain broken at entry ${row.seq} (${reason})` });
+          return { valid: false, checked, anchorHash, headHash: expectedPrev, brokenAt: { seq: row.seq, id: row.id, reason } };
+        }
+        expectedPrev = row.hash;
+      }
+      if (batch.length < VERIFY_BATCH_SIZE) break;
+      afterSeq = batch[batch.length - 1].seq;
     }
-  ): Promise<void> {
-    await this.ensureLoaded();
 
-    const entry: AuditEntry = {
-      id: `audit_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
-      action,
-      userId: options?.userId,
-      userName: options?.userName,
-      registerId: options?.registerId,
-      details: options?.details,
-      metadata: options?.metadata,
-      timestamp: Date.now(),
+    return { valid: true, checked, anchorHash, headHash: expectedPrev };
+  }
+
+  /**
+   * Export as CSV string. The hash columns are the chain proof: the first row's
+   * previous hash is the anchor, and each later row links to the row above it.
+   */
+  async exportCsv(filter: Omit<AuditLogQuery, 'limit' | 'offset'> = {}): Promise<string> {
+    const rows = await auditLogRepository.find(filter);
+    const header = 'ID,Action,User ID,User Name,Register ID,Details,Timestamp,Sequence,Previous Hash,Hash\n';
+    const lines = rows
+      .reverse()
+      .map(toEntry)
+      .map(e => {
+        const ts = new Date(e.timestamp).toISOString();
+        return [
+          e.id,
+          e.action,
+          e.userId || '',
+          e.userName || '',
+          e.registerId || '',
+          (e.details || '').replace(/,/g, ';'),
+          ts,
+          e.seq,
+          e.prevHash,
+          e.hash,
+        ].join(',');
+      });
+    return header + lines.join('\n');
+  }
+
+  /** Every entry still in the table, oldest first, with its anchor and head hashes */
+  async exportChain(): Promise<AuditChainExport> {
+    const anchorHash = await this.getAnchorHash();
+    const entries = (await auditLogRepository.find()).reverse().map(toEntry);
+    return {
+      exportedAt: Date.now(),
+      anchorHash,
+      headHash: entries.length > 0 ? entries[entries.length - 1].hash : anchorHash,
+      entries,
     };
+  }
 
-    this.entries.unshift(entry);
+  /**
+   * Move every entry written before `cutoff` to an archive file and remove it
+   * from the table. Refuses when the archived part of the chain does not verify,
+   * so a broken chain is never destroyed.
+   *
+   * @returns the archive, or null when nothing is older than `cutoff`
+   */
+  async archiveBefore(cutoff: number, archivedBy?: string): Promise<AuditArchiveResult | null> {
+    return this.enqueue(async () => {
+      const toSeq = await auditLogRepository.findLastSeqBefore(cutoff);
+      if (toSeq === null) return null;
 
-    // Cap the list
-    if (this.entries.length > MAX_ENTRIES) {
-      this.entries = this.entries.slice(0, MAX_ENTRIES);
-    }
+      const anchorHash = await this.getAnchorHash();
+      const rows = await auditLogRepository.findThrough(toSeq);
+      let expectedPrev = anchorHash;
+      for (const row of rows) {
+        const reason = checkLink(expectedPrev, row);
+        if (reason) {
+          throw new Error(`Audit chain is broken at entry ${row.seq} (${reason}) — not archiving`);
+        }
+        expectedPrev = row.hash;
+      }
+
+      const archive: AuditChainExport = { exportedAt: Date.now(), anchorHash, headHash: expectedPrev, entries: rows.map(toEntry) };
+      const fromSeq = rows[0].seq;
+      const fileUri = this.writeArchiveFile(`audit_${fromSeq}-${toSeq}.json`, JSON.stringify(archive));
+
+      const archiveId = await auditLogRepository.archiveThrough({
+        fromSeq,
+        toSeq,
+        entryCount: rows.length,
+        anchorHash,
+        lastHash: expectedPrev,
+        archivedBefore: cutoff,
+        fileUri,
+      });
+      this.logger.info(`Archived ${rows.length} audit entries (${fromSeq}–${toSeq}) to ${fileUri}`);
 
-    await this.persist();
+      await this.append('audit:archived', {
+        userId: archivedBy,
+        details: `${rows.length} audit entries archived`,
+        metadata: { archiveId, fromSeq, toSeq, lastHash: expectedPrev, fileUri },
+      });
+
+      return { archiveId, fromSeq, toSeq, entryCount: rows.length, fileUri };
+    });
   }
 
-  /** Get all entries (newest first) */
-  async getAll(): Promise<AuditEntry[]> {
-    await this.ensureLoaded();
-    return [...this.entries];
+  /** Archive everything older than the retention period */
+  async applyRetention(now: number = Date.now()): Promise<AuditArchiveResult | null> {
+    const days = await this.getRetentionDays();
+    return this.archiveBefore(now - days * DAY_MS);
   }
 
-  /** Get entries filtered by action type */
-  async getByAction(action: AuditAction): Promise<AuditEntry[]> {
-    await this.ensureLoaded();
-    return this.entries.filter(e => e.action === action);
+  async getRetentionDays(): Promise<number> {
+    const stored = Number(await keyValueRepository.getItem(RETENTION_DAYS_KEY));
+    return Number.isFinite(stored) && stored > 0 ? stored : DEFAULT_RETENTION_DAYS;
   }
 
-  /** Get entries for a specific user */
-  async getByUser(userId: string): Promise<AuditEntry[]> {
-    await this.ensureLoaded();
-    return this.entries.filter(e => e.userId === userId);
+  async setRetentionDays(days: number): Promise<void> {
+    if (!Number.isInteger(days) || days < 1) {
+      throw new Error('Audit retention must be a whole number of days, at least 1');
+    }
+    await keyValueRepository.setItem(RETENTION_DAYS_KEY, String(days));
   }
 
-  /** Get entries within a date range */
-  async getByDateRange(from: number, to: number): Promise<AuditEntry[]> {
-    await this.ensureLoaded();
-    return this.entries.filter(e => e.timestamp >= from && e.timestamp < to);
+  // ── Internals ─────────────────────────────────────────────────────────
+
+  /** Run writes one at a time so each entry links to the one before it */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.writeQueue.then(task, task);
+    this.writeQueue = run.catch(() => undefined);
+    return run;
   }
 
-  /** Clear all entries */
-  async clear(): Promise<void> {
-    this.entries = [];
-    await this.persist();
+  private async append(action: AuditAction, options?: LogOptions): Promise<void> {
+    const head = await auditLogRepository.findHead();
+    const prevHash = head?.hash ?? (await this.getAnchorHash());
+    const row = {
+      id: `audit_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      action,
+      userId: options?.userId ?? null,
+      userName: options?.userName ?? null,
+      registerId: options?.registerId ?? null,
+      details: options?.details ?? null,
+      metadata: options?.metadata ? JSON.stringify(options.metadata) : null,
+      timestamp: Date.now(),
+    };
+    await auditLogRepository.insert({ ...row, prevHash, hash: computeAuditHash(prevHash, row) });
   }
 
-  /** Export as CSV string */
-  async exportCsv(): Promise<string> {
-    await this.ensureLoaded();
-    const header = 'ID,Action,User ID,User Name,Register ID,Details,Timestamp\n';
-    const rows = this.entries.map(e => {
-      const ts = new Date(e.timestamp).toISOString();
-      return [e.id, e.action, e.userId || '', e.userName || '', e.registerId || '', (e.details || '').replace(/,/g, ';'), ts].join(',');
-    });
-    return header + rows.join('\n');
+  /** The hash the oldest remaining entry links to */
+  private async getAnchorHash(): Promise<string> {
+    const archive = await auditLogRepository.findLatestArchive();
+    return archive?.last_hash ?? GENESIS_HASH;
   }
+
+  private writeArchiveFile(name: string, content: string): string {
+    const directory = new Directory(Paths.document, ARCHIVE_DIRECTORY);
+    if (!directory.exists) {
+      directory.create();
+    }
+    const file = new File(directory, name);
+    file.write(content);
+    return file.uri;
+  }
+}
+
+/** Why a row does not follow `expectedPrev`, or null when it does */
+function checkLink(expectedPrev: string, row: AuditLogRow): AuditChainBreak['reason'] | null {
+  if (row.prev_hash !== expectedPrev) return 'link_mismatch';
+  const hash = computeAuditHash(row.prev_hash, {
+    id: row.id,
+    action: row.action,
+    userId: row.user_id,
+    userName: row.user_name,
+    registerId: row.register_id,
+    details: row.details,
+    metadata: row.metadata,
+    timestamp: row.timestamp,
+  });
+  return hash === row.hash ? null : 'hash_mismatch';
+}
+
+function parseMetadata(raw: string | null): Record<string, unknown> | undefined {
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+function toEntry(row: AuditLogRow): AuditEntry {
+  return {
+    seq: row.seq,
+    id: row.id,
+    action: row.action as AuditAction,
+    userId: row.user_id ?? undefined,
+    userName: row.user_name ?? undefined,
+    registerId: row.register_id ?? undefined,
+    details: row.details ?? undefined,
+    metadata: parseMetadata(row.metadata),
+    timestamp: row.timestamp,
+    prevHash: row.prev_hash,
+    hash: row.hash,
+  };
 }
 
 export const auditLogService = AuditLogService.getInstance();
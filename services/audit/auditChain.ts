@@ -0,0 +1,39 @@
+import { sha256Hex } from '../../utils/sha256';
+
+/** prev_hash of the first entry ever written */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * The fields of an audit entry covered by its hash, exactly as stored
+ * (`metadata` is the stored JSON text, not the parsed object).
+ */
+export interface AuditHashInput {
+  id: string;
+  action: string;
+  userId: string | null;
+  userName: string | null;
+  registerId: string | null;
+  details: string | null;
+  metadata: string | null;
+  timestamp: number;
+}
+
+/**
+ * SHA-256 linking an entry to its predecessor. Changing any covered field,
+ * or removing / reordering entries, breaks every hash after that point.
+ */
+export function computeAuditHash(prevHash: string, entry: AuditHashInput): string {
+  return sha256Hex(
+    JSON.stringify([
+      prevHash,
+      entry.id,
+      entry.action,
+      entry.userId,
+      entry.userName,
+      entry.registerId,
+      entry.details,
+      entry.metadata,
+      entry.timestamp,
+    ])
+  );
+}
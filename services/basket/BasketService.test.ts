@@ -16,9 +16,22 @@ jest.mock('../customer/LocalCustomerService', () => ({
   localCustomerService: { upsert: jest.fn().mockResolvedValue('mock-id'), recordOrder: jest.fn().mockResolvedValue(undefined) },
 }));
 
+// Stacking config lives in the KV store — use the defaults
+jest.mock('../discount/DiscountStackingPolicy', () => ({
+  ...jest.requireActual('../discount/DiscountStackingPolicy'),
+  discountStackingPolicy: {
+    getConfig: jest.fn().mockResolvedValue({ ...jest.requireActual('../discount/DiscountStackingPolicy').DEFAULT_STACKING_CONFIG }),
+  },
+}));
+
+jest.mock('../audit/AuditLogService', () => ({
+  auditLogService: { log: jest.fn().mockResolvedValue(undefined) },
+}));
+
 import { BasketService } from './BasketService';
 import { BasketRepository, BasketRow } from '../../repositories/BasketRepository';
 import { LoggerInterface } from '../logger/LoggerInterface';
+import { HeldBasket, HeldBasketServiceInterface } from './HeldBasketServiceInterface';
 
 // ── Mocks ─────────────────────────────────────────────────────────────
 
@@ -28,6 +41,11 @@ function createMockBasketRepo(): jest.Mocked<BasketRepository> {
     createBasket: jest.fn(),
     updateBasket: jest.fn(),
     clearBasket: jest.fn(),
+    createHeldBasket: jest.fn(),
+    findHeldBaskets: jest.fn(),
+    findHeldBasketById: jest.fn(),
+    deleteHeldBasket: jest.fn(),
+    abandonHeldBasket: jest.fn(),
   } as jest.Mocked<BasketRepository>;
 }
 
@@ -43,6 +61,29 @@ function createMockLogger(): LoggerInterface {
   } as jest.Mocked<LoggerInterface>;
 }
 
+/** Track saved basket state so subsequent reads return it */
+function persistSavedBasket(basketRepo: jest.Mocked<BasketRepository>): void {
+  let savedRow: BasketRow | null = null;
+  basketRepo.updateBasket.mockImplementation(async (_id, data) => {
+    savedRow = {
+      id: 'mock-uuid-1', // matches the basket ID created during initialize
+      items: data.items,
+      subtotal: data.subtotal,
+      tax: data.tax,
+      total: data.total,
+      discount_amount: data.discountAmount,
+      discount_code: data.discountCode,
+      adjustments: data.adjustments,
+      customer_email: data.customerEmail,
+      customer_name: data.customerName,
+      note: data.note,
+      created_at: Date.now(),
+      updated_at: Date.now(),
+    };
+  });
+  basketRepo.findActiveBasket.mockImplementation(async () => savedRow);
+}
+
 // ── Tests ─────────────────────────────────────────────────────────────
 
 describe('BasketService', () => {
@@ -73,6 +114,7 @@ describe('BasketService', () => {
         total: 0,
         discount_amount: null,
         discount_code: null,
+        adjustments: null,
         customer_email: null,
         customer_name: null,
         note: null,
@@ -105,26 +147,7 @@ describe('BasketService', () => {
     });
 
     it('increments quantity for duplicate product', async () => {
-      // Track saved basket state so subsequent reads return it
-      let savedRow: BasketRow | null = null;
-      basketRepo.updateBasket.mockImplementation(async (_id, data) => {
-        savedRow = {
-          id: 'mock-uuid-1', // matches the basket ID created during initialize
-          items: data.items,
-          subtotal: data.subtotal,
-          tax: data.tax,
-          total: data.total,
-          discount_amount: data.discountAmount,
-          discount_code: data.discountCode,
-          customer_email: data.customerEmail,
-          customer_name: data.customerName,
-          note: data.note,
-          created_at: Date.now(),
-          updated_at: Date.now(),
-        };
-      });
-      basketRepo.findActiveBasket.mockImplementation(async () => savedRow);
-
+      persistSavedBasket(basketRepo);
       await service.initialize();
 
       await service.addItem({
@@ -144,6 +167,35 @@ describe('BasketService', () => {
       expect(basket.items).toHaveLength(1);
       expect(basket.items[0].quantity).toBe(3);
     });
+
+    it('keeps scanned lines with their own price or batch apart', async () => {
+      persistSavedBasket(basketRepo);
+      await service.initialize();
+
+      await service.addItem({ productId: 'p1', name: 'Ham', price: 3.2, quantity: 1 });
+      await service.addItem({ productId: 'p1', name: 'Ham', price: 4.15, quantity: 1 });
+      await service.addItem({ productId: 'p1', name: 'Ham', price: 4.15, quantity: 1, properties: { batch: 'L123' } });
+      const basket = await service.addItem({ productId: 'p1', name: 'Ham', price: 4.15, quantity: 1, properties: { batch: 'L123' } });
+
+      expect(basket.items.map(i => [i.price, i.quantity, i.properties?.batch])).toEqual([
+        [3.2, 1, undefined],
+        [4.15, 1, undefined],
+        [4.15, 2, 'L123'],
+      ]);
+    });
+
+    it('adds weighed quantities at the resolution of their unit', async () => {
+      persistSavedBasket(basketRepo);
+      await service.initialize();
+
+      const properties = { unitOfMeasure: 'kg' };
+      await service.addItem({ productId: 'p1', name: 'Apples', price: 2.4, quantity: 0.1, properties });
+      const basket = await service.addItem({ productId: 'p1', name: 'Apples', price: 2.4, quantity: 0.2, properties });
+
+      expect(basket.items).toHaveLength(1);
+      expect(basket.items[0].quantity).toBe(0.3);
+      expect(basket.subtotal).toBe(0.72);
+    });
   });
 
   describe('removeItem', () => {
@@ -194,4 +246,145 @@ describe('BasketService', () => {
       expect(basket.note).toBe('Extra napkins please');
     });
   });
+
+  describe('adjustments', () => {
+    // Persist saves so each call sees the previous state
+    beforeEach(() => {
+      let savedRow: BasketRow | null = null;
+      basketRepo.updateBasket.mockImplementation(async (id, data) => {
+        savedRow = {
+          id,
+          items: data.items,
+          subtotal: data.subtotal,
+          tax: data.tax,
+          total: data.total,
+          discount_amount: data.discountAmount,
+          discount_code: data.discountCode,
+          adjustments: data.adjustments,
+          customer_email: data.customerEmail,
+          customer_name: data.customerName,
+          note: data.note,
+          created_at: Date.now(),
+          updated_at: Date.now(),
+        };
+      });
+      basketRepo.findActiveBasket.mockImplementation(async () => savedRow);
+    });
+
+    it('stacks a manual line discount with a basket discount', async () => {
+      await service.initialize();
+      const added = await service.addItem({ productId: 'p1', name: 'Mug', price: 20, quantity: 1, taxable: false });
+
+      await service.addLineAdjustment(added.items[0].id, { source: 'manual', type: 'percentage', value: 10, reason: 'Damaged' });
+      const basket = await service.addBasketAdjustment({ source: 'loyalty', type: 'fixed', value: 5 });
+
+      expect(basket.items[0].adjustmentDiscount).toBe(2);
+      expect(basket.discountAmount).toBe(5);
+      expect(basket.total).toBe(13);
+    });
+
+    it('requires a reason for manual discounts', async () => {
+      await service.initialize();
+      await service.addItem({ productId: 'p1', name: 'Mug', price: 20, quantity: 1 });
+
+      await expect(service.addBasketAdjustment({ source: 'manual', type: 'fixed', value: 5 })).rejects.toThrow('reason');
+    });
+
+    it('removes an adjustment and restores the total', async () => {
+      await service.initialize();
+      await service.addItem({ productId: 'p1', name: 'Mug', price: 20, quantity: 1, taxable: false });
+      const discounted = await service.addBasketAdjustment({ source: 'store_credit', type: 'fixed', value: 5 });
+
+      const basket = await service.removeAdjustment(discounted.adjustments![0].id);
+
+      expect(basket.adjustments).toEqual([]);
+      expect(basket.total).toBe(20);
+    });
+  });
+
+  describe('held sales', () => {
+    let held: HeldBasket[];
+    let heldService: jest.Mocked<HeldBasketServiceInterface>;
+
+    beforeEach(() => {
+      let savedRow: BasketRow | null = null;
+      basketRepo.updateBasket.mockImplementation(async (id, data) => {
+        savedRow = {
+          id,
+          items: data.items,
+          subtotal: data.subtotal,
+          tax: data.tax,
+          total: data.total,
+          discount_amount: data.discountAmount,
+          discount_code: data.discountCode,
+          adjustments: data.adjustments,
+          customer_email: data.customerEmail,
+          customer_name: data.customerName,
+          note: data.note,
+          created_at: Date.now(),
+          updated_at: Date.now(),
+        };
+      });
+      basketRepo.findActiveBasket.mockImplementation(async () => savedRow);
+
+      held = [];
+      heldService = {
+        hold: jest.fn(async input => {
+          const basket = { ...input, id: `held-${held.length + 1}`, heldAt: Date.now() };
+          held.push(basket);
+          return basket;
+        }),
+        list: jest.fn(async () => held),
+        claim: jest.fn(async id => {
+          const basket = held.find(b => b.id === id) ?? null;
+          held = held.filter(b => b.id !== id);
+          return basket;
+        }),
+        discard: jest.fn(),
+      };
+      service = new BasketService(basketRepo, logger, undefined, heldService);
+    });
+
+    it('parks the sale and leaves an empty basket', async () => {
+      await service.initialize();
+      await service.addItem({ productId: 'p1', name: 'Mug', price: 20, quantity: 2, taxable: false });
+      await service.setCustomer('ada@example.com', 'Ada');
+
+      const parked = await service.park('Ada', 'cashier-1');
+      const basket = await service.getBasket();
+
+      expect(parked).toMatchObject({ name: 'Ada', total: 40, customerEmail: 'ada@example.com', heldBy: 'cashier-1' });
+      expect(basket.items).toEqual([]);
+      expect(basket.total).toBe(0);
+      expect(basket.customerEmail).toBeUndefined();
+    });
+
+    it('recalls a held sale into the empty basket', async () => {
+      await service.initialize();
+      await service.addItem({ productId: 'p1', name: 'Mug', price: 20, quantity: 2, taxable: false });
+      const parked = await service.park('Table 4');
+
+      const basket = await service.recall(parked.id, 'cashier-2');
+
+      expect(heldService.claim).toHaveBeenCalledWith(parked.id, 'cashier-2');
+      expect(basket.items).toHaveLength(1);
+      expect(basket.total).toBe(40);
+    });
+
+    it('will not recall over a sale in progress', async () => {
+      await service.initialize();
+      await service.addItem({ productId: 'p1', name: 'Mug', price: 20, quantity: 1 });
+      const parked = await service.park('First');
+      await service.addItem({ productId: 'p2', name: 'Tea', price: 3, quantity: 1 });
+
+      await expect(service.recall(parked.id)).rejects.toThrow('Park or clear the current sale');
+      expect(heldService.claim).not.toHaveBeenCalled();
+    });
+
+    it('reports a sale already recalled on another register', async () => {
+      await service.initialize();
+
+      await expect(service.recall('missing')).rejects.toThrow('already been recalled');
+    });
+  });
 });
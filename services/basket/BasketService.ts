@@ -1,12 +1,30 @@
-import { BasketServiceInterface } from './BasketServiceInterface';
-import { Basket, BasketItem } from './basket';
+import { AdjustmentInput, BasketServiceInterface } from './BasketServiceInterface';
+import { Basket, BasketAdjustment, BasketItem } from './basket';
+import { lineNetAmount, resolveBasketAdjustments, resolveLineAdjustments } from './basketAdjustments';
 import { BasketRepository, BasketRow } from '../../repositories/BasketRepository';
 import { LoggerInterface } from '../logger/LoggerInterface';
-import { multiplyMoney, sumMoney, roundMoney } from '../../utils/money';
+import { multiplyMoney, sumMoney, roundMoney, toCents, toDollars } from '../../utils/money';
 import { generateUUID } from '../../utils/uuid';
 import { localCustomerService } from '../customer/LocalCustomerService';
 import { DiscountServiceFactory } from '../discount/DiscountServiceFactory';
 import { ECommercePlatform } from '../../utils/platforms';
+import { AppliedPromotion, PromotionServiceInterface } from '../promotion/PromotionServiceInterface';
+import { checkStacking, discountStackingPolicy, StackingCandidate } from '../discount/DiscountStackingPolicy';
+import { auditLogService } from '../audit/AuditLogService';
+import { getGiftCardLine } from '../giftcard/giftCard';
+import { getMeasuredLine, roundQuantity } from '../product/unitOfMeasure';
+import { HeldBasket, HeldBasketServiceInterface } from './HeldBasketServiceInterface';
+
+const ADJUSTMENT_LABELS: Record<AdjustmentInput['source'], string> = {
+  manual: 'Manual discount',
+  loyalty: 'Loyalty points',
+  store_credit: 'Store credit',
+};
+
+function sameProperties(a: Record<string, string> | undefined, b: Record<string, string> | undefined): boolean {
+  const aKeys = Object.keys(a ?? {});
+  return aKeys.length === Object.keys(b ?? {}).length && aKeys.every(k => a?.[k] === b?.[k]);
+}
 
 /**
  * Basket service — cart CRUD only.
@@ -17,7 +35,9 @@ export class BasketService implements BasketServiceInterface {
 
   constructor(
     private basketRepo: BasketRepository,
-    private logger: LoggerInterface
+    private logger: LoggerInterface,
+    private promotionService?: PromotionServiceInterface,
+    private heldBasketService?: HeldBasketServiceInterface
   ) {}
 
   async initialize(): Promise<void> {
@@ -33,10 +53,21 @@ export class BasketService implements BasketServiceInterface {
   async addItem(item: Omit<BasketItem, 'id'>): Promise<Basket> {
     const basket = await this.getOrCreateBasket();
 
-    const existingIndex = basket.items.findIndex(i => i.productId === item.productId && i.variantId === item.variantId);
+    // Lines priced or labelled by their scan (GS1 weight, price, batch) are kept apart
+    const existingIndex = basket.items.findIndex(
+      i =>
+        i.productId === item.productId &&
+        i.variantId === item.variantId &&
+        i.price === item.price &&
+        sameProperties(i.properties, item.properties)
+    );
 
     if (existingIndex !== -1) {
-      basket.items[existingIndex].quantity += item.quantity;
+      // Each gift card line is one card with one amount — never merge or multiply it
+      if (getGiftCardLine(item)) throw new Error('This gift card is already in the basket');
+      const existing = basket.items[existingIndex];
+      const measured = getMeasuredLine(item);
+      existing.quantity = measured ? roundQuantity(existing.quantity + item.quantity, measured.unit) : existing.quantity + item.quantity;
     } else {
       basket.items.push({ ...item, id: generateUUID() });
     }
@@ -51,7 +82,10 @@ export class BasketService implements BasketServiceInterface {
       basket.items = basket.items.filter(i => i.id !== itemId);
     } else {
       const item = basket.items.find(i => i.id === itemId);
-      if (item) item.quantity = quantity;
+      if (item && getGiftCardLine(item) && quantity > 1) throw new Error('Gift card quantity cannot be changed');
+      // Weighed and measured lines keep decimal quantities at their unit's resolution
+      const measured = item && getMeasuredLine(item);
+      if (item) item.quantity = measured ? roundQuantity(quantity, measured.unit) : quantity;
     }
 
     return this.recalculateAndSave(basket);
@@ -71,28 +105,44 @@ export class BasketService implements BasketServiceInterface {
     const basket = await this.getOrCreateBasket();
 
     try {
+      await this.assertCanStack(basket, { source: 'code', code });
+
       // Get discount service for current platform
       const discountService = DiscountServiceFactory.getInstance().getService(platform);
 
-      // Validate discount code and calculate discount amount
-      const validation = await discountService.validateDiscount(code, basket.subtotal);
+      // Validate against what is left after promotions and line adjustments (cents, ADR-006)
+      const netSubtotal = sumMoney(basket.items.map(lineNetAmount));
+      const validation = await discountService.validateDiscount(code, toCents(netSubtotal));
 
       if (!validation.valid) {
         this.logger.warn({ message: `Discount validation failed: ${code}`, error: validation.error });
         throw new Error(validation.error || 'Invalid discount code');
       }
 
-      // Apply validated discount
-      basket.discountCode = code;
-      basket.discountAmount = validation.discountAmount;
-      basket.updatedAt = new Date();
-
-      // Recalculate totals with discount applied
-      await this.recalculateAndSave(basket);
+      const adjustment: BasketAdjustment = {
+        id: generateUUID(),
+        source: 'code',
+        code: validation.code || code,
+        label: validation.code || code,
+        reason: validation.description,
+        type: validation.discountType,
+        value: validation.discountType === 'fixed' ? toDollars(validation.discountValue) : validation.discountValue,
+        maxAmount:
+          validation.discountType === 'percentage' && validation.maximumDiscount !== undefined
+            ? toDollars(validation.maximumDiscount)
+            : undefined,
+        amount: 0,
+        createdAt: Date.now(),
+      };
+
+      basket.adjustments = [...(basket.adjustments ?? []), adjustment];
+      await this.recalculateWithinCap(basket);
+      await this.updateBasketInDb(basket);
+      this.auditAdjustment('discount:applied', adjustment);
 
       this.logger.info({
         message: `Discount applied: ${code}`,
-        amount: validation.discountAmount,
+        amount: adjustment.amount,
         type: validation.discountType,
       });
 
@@ -103,10 +153,64 @@ export class BasketService implements BasketServiceInterface {
     }
   }
 
-  async removeDiscount(): Promise<Basket> {
+  async removeDiscount(code?: string): Promise<Basket> {
     const basket = await this.getOrCreateBasket();
-    basket.discountCode = undefined;
-    basket.discountAmount = undefined;
+    const matches = (a: BasketAdjustment) => a.source === 'code' && (!code || a.code?.toUpperCase() === code.toUpperCase());
+
+    const removed = (basket.adjustments ?? []).filter(matches);
+    basket.adjustments = (basket.adjustments ?? []).filter(a => !matches(a));
+    removed.forEach(a => this.auditAdjustment('discount:removed', a));
+
+    return this.recalculateAndSave(basket);
+  }
+
+  async addBasketAdjustment(input: AdjustmentInput): Promise<Basket> {
+    const basket = await this.getOrCreateBasket();
+    await this.assertCanStack(basket, { source: input.source });
+
+    const adjustment = this.createAdjustment(input);
+    basket.adjustments = [...(basket.adjustments ?? []), adjustment];
+    await this.recalculateWithinCap(basket);
+    await this.updateBasketInDb(basket);
+    this.auditAdjustment('discount:applied', adjustment);
+    return basket;
+  }
+
+  async addLineAdjustment(itemId: string, input: AdjustmentInput): Promise<Basket> {
+    const basket = await this.getOrCreateBasket();
+    const item = basket.items.find(i => i.id === itemId);
+    if (!item) {
+      throw new Error('Item not found in basket');
+    }
+    if (getGiftCardLine(item)) {
+      throw new Error('Gift cards cannot be discounted');
+    }
+    await this.assertCanStack(basket, { source: input.source, itemId });
+
+    const adjustment = this.createAdjustment(input);
+    item.adjustments = [...(item.adjustments ?? []), adjustment];
+    await this.recalculateWithinCap(basket);
+    await this.updateBasketInDb(basket);
+    this.auditAdjustment('discount:applied', adjustment, item);
+    return basket;
+  }
+
+  async removeAdjustment(adjustmentId: string): Promise<Basket> {
+    const basket = await this.getOrCreateBasket();
+
+    const basketLevel = basket.adjustments?.find(a => a.id === adjustmentId);
+    if (basketLevel) {
+      basket.adjustments = basket.adjustments?.filter(a => a.id !== adjustmentId);
+      this.auditAdjustment('discount:removed', basketLevel);
+    }
+    for (const item of basket.items) {
+      const lineLevel = item.adjustments?.find(a => a.id === adjustmentId);
+      if (lineLevel) {
+        item.adjustments = item.adjustments?.filter(a => a.id !== adjustmentId);
+        this.auditAdjustment('discount:removed', lineLevel, item);
+      }
+    }
+
     return this.recalculateAndSave(basket);
   }
 
@@ -133,6 +237,65 @@ export class BasketService implements BasketServiceInterface {
     return basket;
   }
 
+  async park(name: string, heldBy?: string): Promise<HeldBasket> {
+    if (!this.heldBasketService) throw new Error('Parking sales is not available');
+    const basket = await this.getOrCreateBasket();
+    if (basket.items.length === 0) throw new Error('There is nothing to park');
+
+    const held = await this.heldBasketService.hold({
+      name,
+      items: basket.items,
+      adjustments: basket.adjustments,
+      subtotal: basket.subtotal,
+      tax: basket.tax,
+      total: basket.total,
+      customerEmail: basket.customerEmail,
+      customerName: basket.customerName,
+      note: basket.note,
+      heldBy,
+    });
+    // Leave an empty basket behind — customer and note belong to the parked sale
+    await this.basketRepo.updateBasket(basket.id, {
+      items: '[]',
+      subtotal: 0,
+      tax: 0,
+      total: 0,
+      adjustments: null,
+      discountAmount: null,
+      discountCode: null,
+      customerEmail: null,
+      customerName: null,
+      note: null,
+    });
+
+    this.logger.info({ message: `Parked sale as "${held.name}"`, heldBasketId: held.id });
+    return held;
+  }
+
+  async recall(heldBasketId: string, recalledBy?: string): Promise<Basket> {
+    if (!this.heldBasketService) throw new Error('Parking sales is not available');
+    const basket = await this.getOrCreateBasket();
+    if (basket.items.length > 0) throw new Error('Park or clear the current sale before recalling another');
+
+    const held = await this.heldBasketService.claim(heldBasketId, recalledBy);
+    if (!held) throw new Error('This sale has already been recalled or has expired');
+
+    basket.items = held.items;
+    basket.adjustments = held.adjustments;
+    basket.customerEmail = held.customerEmail;
+    basket.customerName = held.customerName;
+    basket.note = held.note;
+
+    try {
+      // Promotions and discounts are re-evaluated — prices stay as they were when the items were added
+      return await this.recalculateAndSave(basket);
+    } catch (error) {
+      // Don't lose the sale if this register can't take it
+      await this.heldBasketService.hold(held).catch(() => {});
+      throw error;
+    }
+  }
+
   // ── Private helpers ─────────────────────────────────────────────────
 
   private async getOrCreateBasket(): Promise<Basket> {
@@ -157,12 +320,19 @@ export class BasketService implements BasketServiceInterface {
   }
 
   private mapRow(row: BasketRow): Basket {
+    const items = JSON.parse(row.items) as BasketItem[];
+    const promotions = this.summarisePromotions(items);
+    const adjustments = this.parseAdjustments(row);
+
     return {
       id: row.id,
-      items: JSON.parse(row.items) as BasketItem[],
+      items,
       subtotal: row.subtotal,
       tax: row.tax,
       total: row.total,
+      promotionDiscount: promotions.totalDiscount || undefined,
+      appliedPromotions: promotions.applied.length > 0 ? promotions.applied : undefined,
+      adjustments: adjustments.length > 0 ? adjustments : undefined,
       discountAmount: row.discount_amount ?? undefined,
       discountCode: row.discount_code ?? undefined,
       customerEmail: row.customer_email ?? undefined,
@@ -173,9 +343,38 @@ export class BasketService implements BasketServiceInterface {
     };
   }
 
-  private calculateTotals(items: BasketItem[], discountAmount: number = 0) {
+  /**
+   * Baskets saved before adjustments existed only carry discount_code/discount_amount.
+   * Treat that as a single fixed code adjustment so it keeps applying.
+   */
+  private parseAdjustments(row: BasketRow): BasketAdjustment[] {
+    if (row.adjustments) {
+      return JSON.parse(row.adjustments) as BasketAdjustment[];
+    }
+    if (row.discount_code && row.discount_amount) {
+      return [
+        {
+          id: `legacy-${row.id}`,
+          source: 'code',
+          code: row.discount_code,
+          label: row.discount_code,
+          type: 'fixed',
+          value: row.discount_amount,
+          amount: row.discount_amount,
+          createdAt: row.updated_at,
+        },
+      ];
+    }
+    return [];
+  }
+
+  private calculateTotals(items: BasketItem[], adjustments: BasketAdjustment[] = []) {
     const lineTotals = items.map(item => multiplyMoney(item.price, item.quantity));
     const subtotal = sumMoney(lineTotals);
+    const promotionDiscount = sumMoney(items.map(item => item.promotionDiscount ?? 0));
+    // Line adjustments resolve against each line after promotions; basket adjustments against the net of all lines
+    const lineDiscount = sumMoney(items.map(resolveLineAdjustments));
+    const discountAmount = resolveBasketAdjustments(adjustments, items);
 
     // Spec requirement 1.4: Calculate tax per-item using stored taxRate
     // For items where taxable === true, apply the item's taxRate (or DEFAULT_TAX_RATE fallback)
@@ -184,35 +383,144 @@ export class BasketService implements BasketServiceInterface {
     const taxAmounts = items.map(item => {
       if (item.taxable === false) return 0;
 
-      const lineTotal = multiplyMoney(item.price, item.quantity);
+      // Promotions and line adjustments reduce the taxable amount of the line (promotions spec 3.2, adjustments spec 1.4)
+      const lineTotal = lineNetAmount(item);
       const taxRate = item.taxRate ?? DEFAULT_TAX_RATE;
       return multiplyMoney(lineTotal, taxRate);
     });
 
     const tax = sumMoney(taxAmounts);
 
-    // Spec requirement 1.5: total = max(0, roundMoney(subtotal + tax - discountAmount))
-    const total = Math.max(0, roundMoney(subtotal + tax - discountAmount));
+    // Spec requirement 1.5: total = max(0, roundMoney(subtotal - promotionDiscount - lineDiscount + tax - discountAmount))
+    const total = Math.max(0, roundMoney(subtotal - promotionDiscount - lineDiscount + tax - discountAmount));
 
-    return { subtotal, tax, total };
+    return { subtotal, promotionDiscount, lineDiscount, discountAmount, tax, total };
   }
 
-  private async recalculateAndSave(basket: Basket): Promise<Basket> {
-    const totals = this.calculateTotals(basket.items, basket.discountAmount);
+  /**
+   * Re-evaluate automatic promotions and stamp the result onto each line.
+   * Runs on every basket change so deals appear and disappear as items move.
+   */
+  private async applyPromotions(basket: Basket): Promise<void> {
+    if (!this.promotionService) return;
+
+    const evaluation = await this.promotionService.evaluate(basket.items);
+    for (const item of basket.items) {
+      const linePromotions = evaluation.lineDiscounts[item.id];
+      item.promotions = linePromotions && linePromotions.length > 0 ? linePromotions : undefined;
+      item.promotionDiscount = linePromotions ? sumMoney(linePromotions.map(p => p.amount)) : undefined;
+    }
+    basket.appliedPromotions = evaluation.applied.length > 0 ? evaluation.applied : undefined;
+  }
+
+  /** Rebuild the basket-level promotion summary from the per-line breakdown */
+  private summarisePromotions(items: BasketItem[]): { applied: AppliedPromotion[]; totalDiscount: number } {
+    const byId = new Map<string, AppliedPromotion>();
+    for (const item of items) {
+      for (const promotion of item.promotions ?? []) {
+        const existing = byId.get(promotion.promotionId);
+        if (existing) {
+          existing.amount = roundMoney(existing.amount + promotion.amount);
+        } else {
+          byId.set(promotion.promotionId, { ...promotion });
+        }
+      }
+    }
+    const applied = Array.from(byId.values());
+    return { applied, totalDiscount: sumMoney(applied.map(p => p.amount)) };
+  }
+
+  private async recalculate(basket: Basket): Promise<ReturnType<BasketService['calculateTotals']>> {
+    await this.applyPromotions(basket);
+    const totals = this.calculateTotals(basket.items, basket.adjustments);
     basket.subtotal = totals.subtotal;
+    basket.promotionDiscount = totals.promotionDiscount || undefined;
+    basket.discountAmount = totals.discountAmount || undefined;
+    basket.discountCode = basket.adjustments?.find(a => a.source === 'code')?.code;
     basket.tax = totals.tax; // Spec requirement 1.2: Update tax after every operation
     basket.total = totals.total;
     basket.updatedAt = new Date();
+    return totals;
+  }
+
+  private async recalculateAndSave(basket: Basket): Promise<Basket> {
+    await this.recalculate(basket);
     await this.updateBasketInDb(basket);
     return basket;
   }
 
+  /**
+   * Recalculate after adding an adjustment and reject it when all discounts
+   * together exceed the configured share of the subtotal (adjustments spec 4.3).
+   */
+  private async recalculateWithinCap(basket: Basket): Promise<void> {
+    const totals = await this.recalculate(basket);
+    const { maxTotalPercent } = await discountStackingPolicy.getConfig();
+    const combined = sumMoney([totals.promotionDiscount, totals.lineDiscount, totals.discountAmount]);
+
+    if (maxTotalPercent < 100 && combined > multiplyMoney(totals.subtotal, maxTotalPercent / 100)) {
+      throw new Error(`Discounts cannot exceed ${maxTotalPercent}% of the sale`);
+    }
+  }
+
+  private async assertCanStack(basket: Basket, candidate: StackingCandidate): Promise<void> {
+    const config = await discountStackingPolicy.getConfig();
+    const error = checkStacking(candidate, basket, config);
+    if (error) {
+      throw new Error(error);
+    }
+  }
+
+  private createAdjustment(input: AdjustmentInput): BasketAdjustment {
+    if (!(input.value > 0) || (input.type === 'percentage' && input.value > 100)) {
+      throw new Error('Discount must be greater than zero and no more than 100%');
+    }
+    if (input.source === 'manual' && !input.reason?.trim()) {
+      throw new Error('A reason is required for manual discounts');
+    }
+
+    return {
+      id: generateUUID(),
+      source: input.source,
+      label: input.label ?? ADJUSTMENT_LABELS[input.source],
+      reason: input.reason?.trim() || undefined,
+      type: input.type,
+      value: input.type === 'fixed' ? roundMoney(input.value) : input.value,
+      amount: 0,
+      appliedBy: input.appliedBy,
+      authorisedBy: input.authorisedBy,
+      createdAt: Date.now(),
+    };
+  }
+
+  private auditAdjustment(action: 'discount:applied' | 'discount:removed', adjustment: BasketAdjustment, item?: BasketItem): void {
+    const target = item ? item.name : 'basket';
+    auditLogService
+      .log(action, {
+        userId: adjustment.authorisedBy ?? adjustment.appliedBy,
+        details: `${adjustment.label} (${adjustment.source}) on ${target}${adjustment.reason ? `: ${adjustment.reason}` : ''}`,
+        metadata: {
+          adjustmentId: adjustment.id,
+          source: adjustment.source,
+          code: adjustment.code,
+          type: adjustment.type,
+          value: adjustment.value,
+          amount: adjustment.amount,
+          itemId: item?.id,
+          appliedBy: adjustment.appliedBy,
+          authorisedBy: adjustment.authorisedBy,
+        },
+      })
+      .catch(() => {});
+  }
+
   private async updateBasketInDb(basket: Basket): Promise<void> {
     await this.basketRepo.updateBasket(basket.id, {
       items: JSON.stringify(basket.items),
       subtotal: basket.subtotal,
       tax: basket.tax,
       total: basket.total,
+      adjustments: basket.adjustments && basket.adjustments.length > 0 ? JSON.stringify(basket.adjustments) : null,
       discountAmount: basket.discountAmount ?? null,
       discountCode: basket.discountCode ?? null,
       customerEmail: basket.customerEmail ?? null,
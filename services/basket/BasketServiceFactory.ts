@@ -9,6 +9,8 @@ import { OrderRepository, getOrderRepository } from '../../repositories/OrderRep
 import { OrderItemRepository } from '../../repositories/OrderItemRepository';
 import { OrderServiceFactory } from '../order/OrderServiceFactory';
 import { LoggerFactory } from '../logger/LoggerFactory';
+import { promotionService } from '../promotion/PromotionService';
+import { heldBasketService } from './HeldBasketService';
 
 /**
  * Container holding the three split services.
@@ -85,7 +87,7 @@ export class BasketServiceFactory {
     const orderServiceFactory = OrderServiceFactory.getInstance();
 
     // Build services (bottom-up dependency order)
-    const basketService = new BasketService(basketRepo, loggerFactory.createLogger('BasketService'));
+    const basketService = new BasketService(basketRepo, loggerFactory.createLogger('BasketService'), promotionService, heldBasketService);
     const checkoutService = new CheckoutService(basketService, orderRepo, orderItemRepo, loggerFactory.createLogger('CheckoutService'));
     const orderSyncService = new OrderSyncService(
       checkoutService,
@@ -1,10 +1,26 @@
 // Re-export shared types so existing consumers don't break
-export type { BasketItem, Basket } from './basket';
+export type { BasketItem, Basket, BasketAdjustment, AdjustmentSource } from './basket';
 export type { LocalOrder, LocalOrderStatus, CheckoutResult, SyncResult } from '../order/order';
 
 import type { Basket, BasketItem } from './basket';
+import type { HeldBasket } from './HeldBasketServiceInterface';
 import type { ECommercePlatform } from '../../utils/platforms';
 
+/** A non-code adjustment to add to the basket or a line */
+export interface AdjustmentInput {
+  source: 'manual' | 'loyalty' | 'store_credit';
+  type: 'fixed' | 'percentage';
+  /** Dollars for fixed, 0–100 for percentage */
+  value: number;
+  /** Defaults to a label derived from the source */
+  label?: string;
+  /** Required for manual adjustments */
+  reason?: string;
+  appliedBy?: string;
+  /** Approving manager from ManagerApprovalService, or appliedBy when no approval was needed */
+  authorisedBy?: string;
+}
+
 /**
  * Interface for basket service operations (cart CRUD only)
  */
@@ -15,8 +31,18 @@ export interface BasketServiceInterface {
   updateItemQuantity(itemId: string, quantity: number): Promise<Basket>;
   removeItem(itemId: string): Promise<Basket>;
   clearBasket(): Promise<void>;
+  /** Validate a discount code and add it to the basket's adjustments (subject to stacking rules) */
   applyDiscount(code: string, platform?: ECommercePlatform): Promise<Basket>;
-  removeDiscount(): Promise<Basket>;
+  /** Remove one discount code, or every code when none is given */
+  removeDiscount(code?: string): Promise<Basket>;
+  addBasketAdjustment(input: AdjustmentInput): Promise<Basket>;
+  addLineAdjustment(itemId: string, input: AdjustmentInput): Promise<Basket>;
+  /** Remove a basket or line adjustment by id */
+  removeAdjustment(adjustmentId: string): Promise<Basket>;
   setCustomer(email?: string, name?: string): Promise<Basket>;
   setNote(note: string): Promise<Basket>;
+  /** Park the current sale under a name and start an empty basket */
+  park(name: string, heldBy?: string): Promise<HeldBasket>;
+  /** Load a held sale into the (empty) current basket */
+  recall(heldBasketId: string, recalledBy?: string): Promise<Basket>;
 }
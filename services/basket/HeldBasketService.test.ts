@@ -0,0 +1,154 @@
+// In-memory baskets table holding only parked rows
+const mockRows: Array<Record<string, unknown>> = [];
+
+jest.mock('../../repositories/BasketRepository', () => ({
+  basketRepository: {
+    createHeldBasket: jest.fn(async (input: Record<string, unknown>) => {
+      mockRows.push({
+        id: input.id,
+        name: input.name,
+        items: input.items,
+        subtotal: input.subtotal,
+        tax: input.tax,
+        total: input.total,
+        adjustments: input.adjustments,
+        customer_email: input.customerEmail,
+        customer_name: input.customerName,
+        note: input.note,
+        register_id: input.registerId,
+        register_name: input.registerName,
+        held_by: input.heldBy,
+        expires_at: input.expiresAt,
+        status: 'held',
+        created_at: Date.now(),
+      });
+    }),
+    findHeldBaskets: jest.fn(async () => mockRows.filter(r => r.status === 'held')),
+    findHeldBasketById: jest.fn(async (id: string) => mockRows.find(r => r.id === id && r.status === 'held') ?? null),
+    deleteHeldBasket: jest.fn(async (id: string) => {
+      const index = mockRows.findIndex(r => r.id === id && r.status === 'held');
+      if (index === -1) return false;
+      mockRows.splice(index, 1);
+      return true;
+    }),
+    abandonHeldBasket: jest.fn(async (id: string) => {
+      const row = mockRows.find(r => r.id === id && r.status === 'held');
+      if (!row) return false;
+      row.status = 'abandoned';
+      return true;
+    }),
+  },
+}));
+
+const mockGetObject = jest.fn().mockResolvedValue(null);
+jest.mock('../../repositories/KeyValueRepository', () => ({
+  keyValueRepository: { getObject: (...args: unknown[]) => mockGetObject(...args) },
+}));
+
+const mockConfig = { isClient: false, current: { registerId: 'reg-1', registerName: 'Register 1' } };
+jest.mock('../instoreapi/InstoreApiConfig', () => ({ instoreApiConfig: mockConfig }));
+
+jest.mock('../clients/instoreapi/InstoreApiClient', () => ({
+  instoreApiClient: {
+    getHeldBaskets: jest.fn().mockResolvedValue([]),
+    holdBasket: jest.fn(async (basket: Record<string, unknown>) => ({ ...basket, id: 'remote-1', heldAt: 1 })),
+    recallHeldBasket: jest.fn().mockResolvedValue(null),
+    discardHeldBasket: jest.fn(),
+  },
+}));
+
+jest.mock('../instoreapi/sync/SyncEventBus', () => ({
+  syncEventBus: { emit: jest.fn() },
+}));
+
+jest.mock('../audit/AuditLogService', () => ({
+  auditLogService: { log: jest.fn().mockResolvedValue(undefined) },
+}));
+
+jest.mock('../logger/LoggerFactory', () => ({
+  LoggerFactory: {
+    getInstance: () => ({
+      createLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }),
+    }),
+  },
+}));
+
+let uuidCounter = 0;
+jest.mock('../../utils/uuid', () => ({
+  generateUUID: () => `held-${++uuidCounter}`,
+}));
+
+import { heldBasketService } from './HeldBasketService';
+import { HoldBasketInput } from './HeldBasketServiceInterface';
+import { instoreApiClient } from '../clients/instoreapi/InstoreApiClient';
+import { syncEventBus } from '../instoreapi/sync/SyncEventBus';
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+function sale(name: string): HoldBasketInput {
+  return {
+    name,
+    items: [{ id: 'line-1', productId: 'p1', name: 'Coffee', price: 3, quantity: 2 }],
+    subtotal: 6,
+    tax: 0,
+    total: 6,
+    customerName: 'Ada',
+    heldBy: 'cashier-1',
+  };
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────
+
+describe('HeldBasketService', () => {
+  beforeEach(() => {
+    mockRows.length = 0;
+    mockConfig.isClient = false;
+    mockGetObject.mockResolvedValue(null);
+    jest.clearAllMocks();
+  });
+
+  it('parks a sale with the register it came from and publishes it', async () => {
+    const held = await heldBasketService.hold(sale('  '));
+
+    expect(held).toMatchObject({ name: 'Ada', registerId: 'reg-1', registerName: 'Register 1', total: 6, heldBy: 'cashier-1' });
+    expect(held.items).toHaveLength(1);
+    expect(held.expiresAt).toBeUndefined();
+    expect(syncEventBus.emit).toHaveBeenCalledWith('basket:held', { heldBasketId: held.id, name: 'Ada' });
+    expect(await heldBasketService.list()).toHaveLength(1);
+  });
+
+  it('lets only one register recall a held sale', async () => {
+    const held = await heldBasketService.hold(sale('Table 4'));
+
+    const first = await heldBasketService.claim(held.id, 'cashier-2');
+    const second = await heldBasketService.claim(held.id, 'cashier-3');
+
+    expect(first?.name).toBe('Table 4');
+    expect(second).toBeNull();
+    expect(await heldBasketService.list()).toEqual([]);
+    expect(syncEventBus.emit).toHaveBeenCalledWith('basket:recalled', { heldBasketId: held.id });
+  });
+
+  it('discards held sales once they expire', async () => {
+    mockGetObject.mockResolvedValue(2);
+    const held = await heldBasketService.hold(sale('Later'));
+    expect(held.expiresAt).toBeGreaterThan(Date.now());
+
+    mockRows[0].expires_at = Date.now() - 1;
+
+    expect(await heldBasketService.list()).toEqual([]);
+    expect(await heldBasketService.claim(held.id)).toBeNull();
+    expect(syncEventBus.emit).toHaveBeenCalledWith('basket:discarded', { heldBasketId: held.id, reason: 'expired' });
+  });
+
+  it('goes through the server register in client mode', async () => {
+    mockConfig.isClient = true;
+
+    await heldBasketService.hold(sale('Remote'));
+    await heldBasketService.claim('remote-1', 'cashier-2');
+
+    expect(instoreApiClient.holdBasket).toHaveBeenCalledWith(expect.objectContaining({ name: 'Remote', registerId: 'reg-1' }));
+    expect(instoreApiClient.recallHeldBasket).toHaveBeenCalledWith('remote-1', 'cashier-2');
+    expect(mockRows).toHaveLength(0);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * HeldBasketService
+ *
+ * Park a sale and recall it later, on the same register or another one.
+ * Held baskets live in the `baskets` table with status 'held' on the register
+ * that owns the data: standalone and server registers store them locally,
+ * client registers go through the in-store API so every register sees the
+ * same list. Changes are published on the SyncEventBus.
+ *
+ * Configuration key: heldBaskets.expiryHours (number, default none — held sales never expire)
+ *
+ * See: docs/specs/basket/held-baskets.md
+ */
+
+import { basketRepository, HeldBasketRow } from '../../repositories/BasketRepository';
+import { keyValueRepository } from '../../repositories/KeyValueRepository';
+import { instoreApiClient } from '../clients/instoreapi/InstoreApiClient';
+import { instoreApiConfig } from '../instoreapi/InstoreApiConfig';
+import { syncEventBus } from '../instoreapi/sync/SyncEventBus';
+import { auditLogService } from '../audit/AuditLogService';
+import { LoggerFactory } from '../logger/LoggerFactory';
+import { generateUUID } from '../../utils/uuid';
+import { BasketAdjustment, BasketItem } from './basket';
+import { HeldBasket, HeldBasketServiceInterface, HoldBasketInput } from './HeldBasketServiceInterface';
+
+const EXPIRY_CONFIG_KEY = 'heldBaskets.expiryHours';
+
+export class HeldBasketService implements HeldBasketServiceInterface {
+  private static instance: HeldBasketService;
+  private logger = LoggerFactory.getInstance().createLogger('HeldBasketService');
+
+  private constructor() {}
+
+  static getInstance(): HeldBasketService {
+    if (!HeldBasketService.instance) {
+      HeldBasketService.instance = new HeldBasketService();
+    }
+    return HeldBasketService.instance;
+  }
+
+  async hold(input: HoldBasketInput): Promise<HeldBasket> {
+    const basket: HoldBasketInput = {
+      ...input,
+      name: input.name.trim() || input.customerName || 'Held sale',
+      registerId: input.registerId ?? instoreApiConfig.current.registerId,
+      registerName: input.registerName ?? instoreApiConfig.current.registerName,
+    };
+
+    if (instoreApiConfig.isClient) {
+      return instoreApiClient.holdBasket(basket);
+    }
+
+    const id = generateUUID();
+    await basketRepository.createHeldBasket({
+      id,
+      name: basket.name,
+      items: JSON.stringify(basket.items),
+      subtotal: basket.subtotal,
+      tax: basket.tax,
+      total: basket.total,
+      adjustments: basket.adjustments && basket.adjustments.length > 0 ? JSON.stringify(basket.adjustments) : null,
+      customerEmail: basket.customerEmail ?? null,
+      customerName: basket.customerName ?? null,
+      note: basket.note ?? null,
+      registerId: basket.registerId ?? null,
+      registerName: basket.registerName ?? null,
+      heldBy: basket.heldBy ?? null,
+      expiresAt: await this.getExpiryDate(),
+    });
+
+    const row = await basketRepository.findHeldBasketById(id);
+    if (!row) throw new Error('Failed to park sale');
+    const held = this.mapRow(row);
+
+    syncEventBus.emit('basket:held', { heldBasketId: id, name: held.name });
+    await auditLogService.log('basket:held', {
+      userId: held.heldBy,
+      details: `Parked "${held.name}" (${held.items.length} line(s)) on ${held.registerName ?? held.registerId ?? 'register'}`,
+      metadata: { heldBasketId: id, total: held.total, registerId: held.registerId },
+    });
+    this.logger.info(`Parked sale ${id} on ${held.registerId}`);
+
+    return held;
+  }
+
+  async list(): Promise<HeldBasket[]> {
+    if (instoreApiConfig.isClient) {
+      return instoreApiClient.getHeldBaskets();
+    }
+
+    const rows = await basketRepository.findHeldBaskets();
+    const now = Date.now();
+    const held: HeldBasket[] = [];
+    for (const row of rows) {
+      if (row.expires_at !== null && row.expires_at <= now) {
+        await this.expire(row);
+      } else {
+        held.push(this.mapRow(row));
+      }
+    }
+    return held;
+  }
+
+  async claim(id: string, recalledBy?: string): Promise<HeldBasket | null> {
+    if (instoreApiConfig.isClient) {
+      return instoreApiClient.recallHeldBasket(id, recalledBy);
+    }
+
+    const row = await basketRepository.findHeldBasketById(id);
+    if (!row) return null;
+    if (row.expires_at !== null && row.expires_at <= Date.now()) {
+      await this.expire(row);
+      return null;
+    }
+    // Two registers can race for the same sale — only the one that deletes the row wins
+    if (!(await basketRepository.deleteHeldBasket(id))) return null;
+
+    const held = this.mapRow(row);
+    syncEventBus.emit('basket:recalled', { heldBasketId: id });
+    await auditLogService.log('basket:recalled', {
+      userId: recalledBy,
+      details: `Recalled "${held.name}" parked on ${held.registerName ?? held.registerId ?? 'register'}`,
+      metadata: { heldBasketId: id, total: held.total, heldBy: held.heldBy, registerId: held.registerId },
+    });
+
+    return held;
+  }
+
+  async discard(id: string, discardedBy?: string): Promise<void> {
+    if (instoreApiConfig.isClient) {
+      await instoreApiClient.discardHeldBasket(id, discardedBy);
+      return;
+    }
+
+    const row = await basketRepository.findHeldBasketById(id);
+    if (!row || !(await basketRepository.abandonHeldBasket(id))) return;
+
+    syncEventBus.emit('basket:discarded', { heldBasketId: id, reason: 'discarded' });
+    await auditLogService.log('basket:discarded', {
+      userId: discardedBy,
+      details: `Discarded held sale "${row.name}"`,
+      metadata: { heldBasketId: id, total: row.total, heldBy: row.held_by },
+    });
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────
+
+  private async expire(row: HeldBasketRow): Promise<void> {
+    if (!(await basketRepository.abandonHeldBasket(row.id))) return;
+
+    syncEventBus.emit('basket:discarded', { heldBasketId: row.id, reason: 'expired' });
+    await auditLogService.log('basket:discarded', {
+      details: `Held sale "${row.name}" expired`,
+      metadata: { heldBasketId: row.id, total: row.total, heldBy: row.held_by, expired: true },
+    });
+    this.logger.info(`Held sale ${row.id} expired`);
+  }
+
+  private async getExpiryDate(): Promise<number | null> {
+    const hours = await keyValueRepository.getObject<number>(EXPIRY_CONFIG_KEY);
+    if (!hours || hours <= 0) return null;
+    return Date.now() + hours * 60 * 60 * 1000;
+  }
+
+  private mapRow(row: HeldBasketRow): HeldBasket {
+    return {
+      id: row.id,
+      name: row.name,
+      items: JSON.parse(row.items) as BasketItem[],
+      adjustments: row.adjustments ? (JSON.parse(row.adjustments) as BasketAdjustment[]) : undefined,
+      subtotal: row.subtotal,
+      tax: row.tax,
+      total: row.total,
+      customerEmail: row.customer_email ?? undefined,
+      customerName: row.customer_name ?? undefined,
+      note: row.note ?? undefined,
+      registerId: row.register_id ?? undefined,
+      registerName: row.register_name ?? undefined,
+      heldBy: row.held_by ?? undefined,
+      heldAt: row.created_at,
+      expiresAt: row.expires_at ?? undefined,
+    };
+  }
+}
+
+export const heldBasketService = HeldBasketService.getInstance();
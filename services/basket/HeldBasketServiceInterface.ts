@@ -0,0 +1,48 @@
+/**
+ * Held Basket Service Interface
+ * Parked sales that any register in the store can recall.
+ *
+ * A held basket is a snapshot of a register's basket — lines, adjustments,
+ * customer and note. Amounts are in dollars, like the basket itself.
+ */
+
+import type { BasketAdjustment, BasketItem } from './basket';
+
+export interface HeldBasket {
+  id: string;
+  /** Label shown in the held sales list, e.g. the customer's name */
+  name: string;
+  items: BasketItem[];
+  adjustments?: BasketAdjustment[];
+  subtotal: number;
+  tax: number;
+  total: number;
+  customerEmail?: string;
+  customerName?: string;
+  note?: string;
+  /** Register the sale was parked on */
+  registerId?: string;
+  registerName?: string;
+  heldBy?: string;
+  /** Epoch ms */
+  heldAt: number;
+  /** Epoch ms — the held sale is discarded after this. Omitted = never expires */
+  expiresAt?: number;
+}
+
+/** What a register sends when it parks its basket */
+export type HoldBasketInput = Omit<HeldBasket, 'id' | 'heldAt' | 'expiresAt'>;
+
+export interface HeldBasketServiceInterface {
+  /** Store a parked basket and publish it to the other registers */
+  hold(input: HoldBasketInput): Promise<HeldBasket>;
+  /** Held baskets across the store, oldest first. Expired ones are discarded on the way */
+  list(): Promise<HeldBasket[]>;
+  /**
+   * Take a held basket off the list so it can be loaded into a register.
+   * Returns null when it no longer exists — recalled elsewhere, discarded or expired.
+   */
+  claim(id: string, recalledBy?: string): Promise<HeldBasket | null>;
+  /** Throw a held basket away without recalling it */
+  discard(id: string, discardedBy?: string): Promise<void>;
+}
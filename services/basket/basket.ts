@@ -1,3 +1,38 @@
+import type { AppliedPromotion, LinePromotion } from '../promotion/PromotionServiceInterface';
+
+/** Where a price adjustment came from */
+export type AdjustmentSource = 'code' | 'manual' | 'loyalty' | 'store_credit' | 'promotion';
+
+/**
+ * A discount applied to the basket or to a single line.
+ * Several adjustments can stack, subject to DiscountStackingPolicy.
+ */
+export interface BasketAdjustment {
+  id: string;
+  source: AdjustmentSource;
+  /** Discount code, when source is 'code' */
+  code?: string;
+  /** Short label for the basket and receipt, e.g. "SUMMER10" or "Damaged item" */
+  label: string;
+  /** Why the adjustment was made — required for manual adjustments */
+  reason?: string;
+  type: 'fixed' | 'percentage';
+  /** Dollars for fixed, 0–100 for percentage */
+  value: number;
+  /** Cap in dollars for percentage adjustments (e.g. a code's maximum discount) */
+  maxAmount?: number;
+  /** Resolved discount in dollars (recalculated on every basket change) */
+  amount: number;
+  /** User who applied the adjustment */
+  appliedBy?: string;
+  /** User who authorised it — the manager when ManagerApprovalService was used */
+  authorisedBy?: string;
+  /** Epoch ms */
+  createdAt: number;
+  /** Set on an order line's share of a basket-level adjustment (see allocateBasketAdjustments) */
+  allocated?: boolean;
+}
+
 /**
  * Represents an item in the basket.
  *
@@ -44,6 +79,21 @@ export interface BasketItem {
   inventoryPolicy?: 'deny' | 'continue';
   /** Catalog version or syncedAt timestamp — used to detect stale snapshots */
   catalogVersion?: string;
+  /** Category snapshot used to match category-wide promotions */
+  categoryId?: string;
+  /** Automatic promotions applied to this line (recomputed on every basket change) */
+  promotions?: LinePromotion[];
+  /** Sum of promotions[].amount, in dollars */
+  promotionDiscount?: number;
+  /** Manual discounts applied to this line */
+  adjustments?: BasketAdjustment[];
+  /** Sum of adjustments[].amount, in dollars */
+  adjustmentDiscount?: number;
+  /**
+   * Set on order lines only: every discount on the line, including its share
+   * of basket-level adjustments, in dollars. Refunds prorate against this.
+   */
+  discountTotal?: number;
   properties?: Record<string, string>;
 }
 
@@ -56,7 +106,14 @@ export interface Basket {
   subtotal: number;
   tax: number;
   total: number;
+  /** Total of automatic promotion discounts, in dollars */
+  promotionDiscount?: number;
+  appliedPromotions?: AppliedPromotion[];
+  /** Basket-level adjustments (codes, manual, loyalty, store credit) in the order they were applied */
+  adjustments?: BasketAdjustment[];
+  /** Sum of basket-level adjustment amounts, in dollars */
   discountAmount?: number;
+  /** First applied discount code — kept for platforms that accept a single code */
   discountCode?: string;
   customerId?: string;
   customerEmail?: string;
@@ -0,0 +1,174 @@
+import {
+  allocateBasketAdjustments,
+  collectLineAdjustments,
+  lineNetAmount,
+  resolveBasketAdjustments,
+  resolveLineAdjustments,
+} from './basketAdjustments';
+import { Basket, BasketAdjustment, BasketItem } from './basket';
+import { checkStacking, DEFAULT_STACKING_CONFIG } from '../discount/DiscountStackingPolicy';
+
+// Mock KeyValueRepository (imported by DiscountStackingPolicy) to avoid expo-sqlite
+jest.mock('../../repositories/KeyValueRepository', () => ({
+  keyValueRepository: { getObject: jest.fn(), setObject: jest.fn() },
+}));
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+function makeItem(overrides: Partial<BasketItem> = {}): BasketItem {
+  return {
+    id: 'line-1',
+    productId: 'prod-1',
+    name: 'Widget',
+    price: 10,
+    quantity: 1,
+    ...overrides,
+  };
+}
+
+function makeAdjustment(overrides: Partial<BasketAdjustment> = {}): BasketAdjustment {
+  return {
+    id: 'adj-1',
+    source: 'manual',
+    label: 'Manual discount',
+    type: 'percentage',
+    value: 10,
+    amount: 0,
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+function makeBasket(overrides: Partial<Basket> = {}): Basket {
+  return {
+    id: 'basket-1',
+    items: [makeItem()],
+    subtotal: 10,
+    tax: 0,
+    total: 10,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    ...overrides,
+  };
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────
+
+describe('basketAdjustments', () => {
+  // ─── Line adjustments ───────────────────────────────────────
+  describe('resolveLineAdjustments', () => {
+    it('applies percentages after promotions and compounds them', () => {
+      const item = makeItem({
+        price: 50,
+        quantity: 2,
+        promotionDiscount: 20,
+        adjustments: [makeAdjustment({ id: 'a' }), makeAdjustment({ id: 'b' })],
+      });
+
+      // £100 − £20 promotion = £80; 10% → £8, then 10% of £72 → £7.20
+      expect(resolveLineAdjustments(item)).toBe(15.2);
+      expect(item.adjustments?.map(a => a.amount)).toEqual([8, 7.2]);
+      expect(item.adjustmentDiscount).toBe(15.2);
+      expect(lineNetAmount(item)).toBe(64.8);
+    });
+
+    it('never takes a line below zero', () => {
+      const item = makeItem({
+        adjustments: [makeAdjustment({ id: 'a', type: 'fixed', value: 8 }), makeAdjustment({ id: 'b', type: 'fixed', value: 5 })],
+      });
+
+      expect(resolveLineAdjustments(item)).toBe(10);
+      expect(item.adjustments?.map(a => a.amount)).toEqual([8, 2]);
+      expect(lineNetAmount(item)).toBe(0);
+    });
+
+    it('clears the line discount when there are no adjustments', () => {
+      const item = makeItem({ adjustmentDiscount: 3 });
+      expect(resolveLineAdjustments(item)).toBe(0);
+      expect(item.adjustmentDiscount).toBeUndefined();
+    });
+  });
+
+  // ─── Basket adjustments ─────────────────────────────────────
+  describe('resolveBasketAdjustments', () => {
+    it('resolves against the net of all lines', () => {
+      const items = [makeItem({ id: 'a', price: 30 }), makeItem({ id: 'b', price: 20, promotionDiscount: 10 })];
+      const adjustments = [makeAdjustment({ source: 'code', code: 'SAVE10', value: 10 })];
+
+      // (£30 + £10) × 10%
+      expect(resolveBasketAdjustments(adjustments, items)).toBe(4);
+      expect(adjustments[0].amount).toBe(4);
+    });
+
+    it('caps a percentage at its maximum amount', () => {
+      const adjustments = [makeAdjustment({ source: 'code', value: 50, maxAmount: 3 })];
+      expect(resolveBasketAdjustments(adjustments, [makeItem({ price: 20 })])).toBe(3);
+    });
+  });
+
+  describe('allocateBasketAdjustments', () => {
+    it('splits each basket adjustment across lines by net value', () => {
+      const items = [makeItem({ id: 'a', price: 1 }), makeItem({ id: 'b', price: 2 })];
+      const adjustment = makeAdjustment({ type: 'fixed', value: 1, amount: 1 });
+
+      const shares = allocateBasketAdjustments(items, [adjustment]);
+
+      expect(shares['a'][0].amount + shares['b'][0].amount).toBeCloseTo(1, 2);
+      expect(shares['b'][0].amount).toBe(0.67);
+      expect(shares['a'][0].allocated).toBe(true);
+    });
+  });
+
+  describe('collectLineAdjustments', () => {
+    it('lists promotions, line adjustments and basket shares together', () => {
+      const item = makeItem({
+        promotions: [{ promotionId: 'p1', promotionName: 'BOGO', type: 'bogo', amount: 5 }],
+        adjustments: [makeAdjustment({ amount: 1 })],
+      });
+      const all = collectLineAdjustments(item, [makeAdjustment({ id: 'share', source: 'code', amount: 0.5, allocated: true })]);
+
+      expect(all.map(a => a.source)).toEqual(['promotion', 'manual', 'code']);
+    });
+  });
+
+  // ─── Stacking rules ─────────────────────────────────────────
+  describe('checkStacking', () => {
+    const withCode = (code: string) => makeBasket({ adjustments: [makeAdjustment({ source: 'code', code, label: code })] });
+
+    it('allows a second code up to the configured maximum', () => {
+      expect(checkStacking({ source: 'code', code: 'B' }, withCode('A'), DEFAULT_STACKING_CONFIG)).toBeNull();
+      expect(checkStacking({ source: 'code', code: 'B' }, withCode('A'), { ...DEFAULT_STACKING_CONFIG, maxCodes: 1 })).toMatch(
+        /one discount code/
+      );
+    });
+
+    it('rejects the same code twice', () => {
+      expect(checkStacking({ source: 'code', code: 'a' }, withCode('A'), DEFAULT_STACKING_CONFIG)).toMatch(/already applied/);
+    });
+
+    it('keeps exclusive codes on their own but still allows loyalty', () => {
+      const config = { ...DEFAULT_STACKING_CONFIG, exclusiveCodes: ['VIP'] };
+      expect(checkStacking({ source: 'manual' }, withCode('VIP'), config)).toMatch(/cannot be combined/);
+      expect(checkStacking({ source: 'code', code: 'VIP' }, withCode('A'), config)).toMatch(/cannot be combined/);
+      expect(checkStacking({ source: 'loyalty' }, withCode('VIP'), config)).toBeNull();
+    });
+
+    it('can forbid manual discounts alongside codes', () => {
+      const config = { ...DEFAULT_STACKING_CONFIG, allowManualWithCodes: false };
+      expect(checkStacking({ source: 'manual', itemId: 'line-1' }, withCode('A'), config)).toMatch(/Manual discounts/);
+    });
+
+    it('can forbid discounts on promoted lines', () => {
+      const basket = makeBasket({
+        items: [
+          makeItem({ promotions: [{ promotionId: 'p1', promotionName: 'BOGO', type: 'bogo', amount: 5 }] }),
+          makeItem({ id: 'line-2' }),
+        ],
+      });
+      const config = { ...DEFAULT_STACKING_CONFIG, allowWithPromotions: false };
+
+      expect(checkStacking({ source: 'manual', itemId: 'line-1' }, basket, config)).toMatch(/active promotion/);
+      expect(checkStacking({ source: 'manual', itemId: 'line-2' }, basket, config)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Pure helpers for resolving stacked basket and line adjustments.
+ * No React, no repositories — BasketService and CheckoutService call these.
+ *
+ * Order of application:
+ *   1. Automatic promotions (PromotionEngine) on each line
+ *   2. Line adjustments, in the order they were added, each on what is left of the line
+ *   3. Basket adjustments, in the order they were added, each on what is left of the basket
+ *
+ * Percentages therefore compound (10% then 10% = 19%), and no adjustment can
+ * take a line or the basket below zero. All arithmetic is in integer cents (ADR-006).
+ */
+
+import { BasketAdjustment, BasketItem } from './basket';
+import { allocateCents, multiplyMoney, toCents, toDollars } from '../../utils/money';
+
+/** Discount in cents for one adjustment against the remaining amount */
+function resolveAmountCents(adjustment: BasketAdjustment, remainingCents: number): number {
+  if (remainingCents <= 0) return 0;
+  const cents =
+    adjustment.type === 'fixed'
+      ? toCents(adjustment.value)
+      : Math.round((remainingCents * Math.min(100, Math.max(0, adjustment.value))) / 100);
+  const capped = adjustment.maxAmount !== undefined ? Math.min(cents, toCents(adjustment.maxAmount)) : cents;
+  return Math.min(Math.max(0, capped), remainingCents);
+}
+
+/** Gross line value minus promotions, in cents */
+function lineAfterPromotionsCents(item: BasketItem): number {
+  return Math.max(0, toCents(multiplyMoney(item.price, item.quantity)) - toCents(item.promotionDiscount ?? 0));
+}
+
+/**
+ * Recalculate the amount of every adjustment on a line and stamp
+ * `adjustmentDiscount` onto the item. Returns the line discount in dollars.
+ */
+export function resolveLineAdjustments(item: BasketItem): number {
+  if (!item.adjustments || item.adjustments.length === 0) {
+    item.adjustmentDiscount = undefined;
+    return 0;
+  }
+
+  let remaining = lineAfterPromotionsCents(item);
+  let totalCents = 0;
+  for (const adjustment of item.adjustments) {
+    const cents = resolveAmountCents(adjustment, remaining);
+    adjustment.amount = toDollars(cents);
+    remaining -= cents;
+    totalCents += cents;
+  }
+
+  item.adjustmentDiscount = totalCents > 0 ? toDollars(totalCents) : undefined;
+  return toDollars(totalCents);
+}
+
+/** Line value after promotions and line adjustments, in dollars */
+export function lineNetAmount(item: BasketItem): number {
+  return toDollars(Math.max(0, lineAfterPromotionsCents(item) - toCents(item.adjustmentDiscount ?? 0)));
+}
+
+/**
+ * Recalculate basket-level adjustments against the net of all lines.
+ * Returns the total basket-level discount in dollars.
+ */
+export function resolveBasketAdjustments(adjustments: BasketAdjustment[], items: BasketItem[]): number {
+  let remaining = items.reduce((sum, item) => sum + toCents(lineNetAmount(item)), 0);
+  let totalCents = 0;
+  for (const adjustment of adjustments) {
+    const cents = resolveAmountCents(adjustment, remaining);
+    adjustment.amount = toDollars(cents);
+    remaining -= cents;
+    totalCents += cents;
+  }
+  return toDollars(totalCents);
+}
+
+/**
+ * Spread each basket-level adjustment across the lines in proportion to their
+ * net value, so every order line knows its share (used for refund proration).
+ * Returns a map of item id → the line's share of each basket adjustment.
+ */
+export function allocateBasketAdjustments(items: BasketItem[], adjustments: BasketAdjustment[]): Record<string, BasketAdjustment[]> {
+  const shares: Record<string, BasketAdjustment[]> = {};
+  const weights = items.map(item => toCents(lineNetAmount(item)));
+
+  for (const adjustment of adjustments) {
+    const parts = allocateCents(toCents(adjustment.amount), weights);
+    items.forEach((item, i) => {
+      if (parts[i] <= 0) return;
+      (shares[item.id] ??= []).push({ ...adjustment, amount: toDollars(parts[i]), allocated: true });
+    });
+  }
+  return shares;
+}
+
+/**
+ * Every discount on a line as adjustments — promotions, manual line
+ * adjustments and (optionally) the line's share of basket adjustments.
+ * Used for receipts and order_items.
+ */
+export function collectLineAdjustments(item: BasketItem, basketShares: BasketAdjustment[] = []): BasketAdjustment[] {
+  const promotions: BasketAdjustment[] = (item.promotions ?? []).map(p => ({
+    id: p.promotionId,
+    source: 'promotion',
+    label: p.promotionName,
+    type: 'fixed',
+    value: p.amount,
+    amount: p.amount,
+    createdAt: 0,
+  }));
+  return [...promotions, ...(item.adjustments ?? []), ...basketShares];
+}
@@ -0,0 +1,180 @@
+/**
+ * CashMovementService — unit tests
+ *
+ * Validation, ledger row, audit entry, drawer reason and slip printing.
+ * The ledger, shift, drawer, printer, audit log and in-store API client are mocked.
+ */
+
+jest.mock('../logger/LoggerFactory', () => ({
+  LoggerFactory: {
+    getInstance: jest.fn(() => ({
+      createLogger: jest.fn(() => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() })),
+    })),
+  },
+}));
+
+jest.mock('../../repositories/CashMovementRepository', () => ({
+  cashMovementRepository: {
+    create: jest.fn(async (input: Record<string, unknown>) => ({
+      id: 'mv-0001-abcd',
+      register_id: input.registerId,
+      shift_id: input.shiftId,
+      type: input.type,
+      amount: input.amount,
+      reason: input.reason,
+      expense_category: input.expenseCategory,
+      user_id: input.userId,
+      user_name: input.userName,
+      approved_by: input.approvedBy,
+      created_at: 1_700_000_000_000,
+    })),
+    findByDrawer: jest.fn().mockResolvedValue([]),
+  },
+}));
+
+jest.mock('../printer/DailyReportService', () => ({
+  dailyReportService: {
+    getCurrentShift: jest.fn(() => ({ id: 'shift-1', status: 'open' })),
+    getCurrencySymbolFromSettings: jest.fn().mockResolvedValue('£'),
+  },
+}));
+
+jest.mock('../printer/ReceiptConfigService', () => ({
+  receiptConfigService: {
+    getConfig: jest.fn(() => ({ header: { businessName: 'Test Store' } })),
+    getDividerLine: jest.fn(() => '----'),
+    getDoubleDividerLine: jest.fn(() => '===='),
+    centerText: jest.fn((text: string) => text),
+    formatLine: jest.fn((label: string, value: string) => `${label} ${value}`),
+  },
+}));
+
+const mockPrinter = { isConnectedToPrinter: jest.fn(() => true), printLines: jest.fn().mockResolvedValue(true) };
+jest.mock('../printer/PrinterServiceFactory', () => ({
+  PrinterServiceFactory: { getInstance: jest.fn(() => mockPrinter) },
+}));
+
+const mockDrawer = { open: jest.fn().mockResolvedValue(true) };
+jest.mock('../drawer/CashDrawerServiceFactory', () => ({
+  cashDrawerServiceFactory: { getService: jest.fn(() => mockDrawer) },
+}));
+
+jest.mock('../audit/AuditLogService', () => ({
+  auditLogService: { log: jest.fn().mockResolvedValue(undefined) },
+}));
+
+const mockConfig = { isClient: false, current: { registerId: 'reg-1' } };
+jest.mock('../instoreapi/InstoreApiConfig', () => ({ instoreApiConfig: mockConfig }));
+
+jest.mock('../clients/instoreapi/InstoreApiClient', () => ({
+  instoreApiClient: { recordCashMovement: jest.fn() },
+}));
+
+import { CashMovementService, RecordCashMovementInput } from './CashMovementService';
+import { cashMovementRepository } from '../../repositories/CashMovementRepository';
+import { dailyReportService } from '../printer/DailyReportService';
+import { auditLogService } from '../audit/AuditLogService';
+import { instoreApiClient } from '../clients/instoreapi/InstoreApiClient';
+
+function getService(): CashMovementService {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (CashMovementService as any).instance = undefined;
+  return CashMovementService.getInstance();
+}
+
+function input(overrides: Partial<RecordCashMovementInput> = {}): RecordCashMovementInput {
+  return {
+    type: 'paid_out',
+    amount: 12.5,
+    reason: '  Window cleaner ',
+    expenseCategory: 'cleaning',
+    userId: 'cashier-1',
+    userName: 'Alice',
+    approvedBy: 'manager-1',
+    ...overrides,
+  };
+}
+
+describe('CashMovementService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrinter.isConnectedToPrinter.mockReturnValue(true);
+  });
+
+  it('records a paid-out against the open shift and register, audits it, opens the drawer and prints a slip', async () => {
+    const result = await getService().record(input());
+
+    expect(cashMovementRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        registerId: 'reg-1',
+        shiftId: 'shift-1',
+        amount: 12.5,
+        reason: 'Window cleaner',
+        expenseCategory: 'cleaning',
+      })
+    );
+    expect(auditLogService.log).toHaveBeenCalledWith(
+      'cash:moved',
+      expect.objectContaining({ metadata: expect.objectContaining({ type: 'paid_out', approvedBy: 'manager-1', shiftId: 'shift-1' }) })
+    );
+    expect(mockDrawer.open).toHaveBeenCalledWith('cash_movement');
+    expect(mockPrinter.printLines).toHaveBeenCalledWith(expect.arrayContaining(['PAID OUT', 'Amount: £12.50', 'Category: Cleaning']));
+    expect(result).toMatchObject({ drawerOpened: true, slipPrinted: true });
+  });
+
+  it("records against the register's current shift when the user has none of their own", async () => {
+    (dailyReportService.getCurrentShift as jest.Mock).mockImplementation((cashierId?: string) =>
+      cashierId ? null : { id: 'shift-2', status: 'open' }
+    );
+    await getService().record(input({ userId: 'manager-1', type: 'safe_drop', expenseCategory: null }));
+    (dailyReportService.getCurrentShift as jest.Mock).mockImplementation(() => ({ id: 'shift-1', status: 'open' }));
+
+    expect(cashMovementRepository.create).toHaveBeenCalledWith(expect.objectContaining({ shiftId: 'shift-2', userId: 'manager-1' }));
+  });
+
+  it('stores the movement on the server when this register is a client', async () => {
+    mockConfig.isClient = true;
+    (instoreApiClient.recordCashMovement as jest.Mock).mockResolvedValueOnce({ id: 'mv-0002-abcd', type: 'paid_in', amount: 5 });
+    try {
+      await getService().record(input({ type: 'paid_in', amount: 5, expenseCategory: null }));
+    } finally {
+      mockConfig.isClient = false;
+    }
+
+    expect(instoreApiClient.recordCashMovement).toHaveBeenCalledWith(expect.objectContaining({ registerId: 'reg-1', type: 'paid_in' }));
+    expect(cashMovementRepository.create).not.toHaveBeenCalled();
+    expect(auditLogService.log).not.toHaveBeenCalled();
+  });
+
+  it('opens the drawer as a no-sale with no amount', async () => {
+    await getService().record(input({ type: 'no_sale', amount: 40, expenseCategory: 'cleaning' }));
+
+    expect(cashMovementRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'no_sale', amount: 0, expenseCategory: null })
+    );
+    expect(mockDrawer.open).toHaveBeenCalledWith('no_sale');
+  });
+
+  it('keeps the movement when no printer is connected', async () => {
+    mockPrinter.isConnectedToPrinter.mockReturnValue(false);
+    const result = await getService().record(input({ type: 'safe_drop', amount: 500, expenseCategory: null }));
+
+    expect(result.slipPrinted).toBe(false);
+    expect(mockPrinter.printLines).not.toHaveBeenCalled();
+    expect(cashMovementRepository.create).toHaveBeenCalled();
+  });
+
+  it.each([
+    ['no open shift', {}, 'Open a shift'],
+    ['a blank reason', { reason: '   ' }, 'reason is required'],
+    ['no approver', { approvedBy: '' }, 'manager approval'],
+    ['a zero amount', { amount: 0 }, 'greater than zero'],
+    ['a paid-out without a category', { expenseCategory: null }, 'expense category'],
+  ])('rejects %s', async (label, overrides, message) => {
+    if (label === 'no open shift') {
+      (dailyReportService.getCurrentShift as jest.Mock).mockReturnValueOnce(null).mockReturnValueOnce(null);
+    }
+    await expect(getService().record(input(overrides))).rejects.toThrow(message);
+    expect(cashMovementRepository.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * CashMovementService
+ *
+ * Records cash moved in or out of the drawer outside of a sale against the
+ * open shift and this register: the ledger row, an audit entry, the drawer
+ * kick and a slip for the drawer or the safe bag.
+ *
+ * The ledger lives with the drawers on the register that owns the data;
+ * client registers store the row through the in-store API and kick their own
+ * drawer and printer.
+ *
+ * Approval happens before record() is called — the UI asks for the movement's
+ * action key through useManagerApproval and passes whoever authorised it as
+ * `approvedBy`.
+ *
+ * See: docs/specs/orders/cash-management.md
+ */
+
+import { cashMovementRepository, CashMovementRow, CreateCashMovementInput } from '../../repositories/CashMovementRepository';
+import { dailyReportService } from '../printer/DailyReportService';
+import { receiptConfigService } from '../printer/ReceiptConfigService';
+import { PrinterServiceFactory } from '../printer/PrinterServiceFactory';
+import { cashDrawerServiceFactory } from '../drawer/CashDrawerServiceFactory';
+import { auditLogService } from '../audit/AuditLogService';
+import { instoreApiConfig } from '../instoreapi/InstoreApiConfig';
+import { instoreApiClient } from '../clients/instoreapi/InstoreApiClient';
+import { LoggerFactory } from '../logger/LoggerFactory';
+import { roundMoney } from '../../utils/money';
+import { CASH_MOVEMENT_LABELS, CashMovementType, EXPENSE_CATEGORY_LABELS, ExpenseCategory } from './cashMovement';
+
+export interface RecordCashMovementInput {
+  type: CashMovementType;
+  /** Ignored for a no-sale, which never moves cash */
+  amount: number;
+  reason: string;
+  /** Required for a paid-out, ignored otherwise */
+  expenseCategory?: ExpenseCategory | null;
+  userId: string | null;
+  userName: string | null;
+  /** The user whose permission authorised the movement */
+  approvedBy: string;
+}
+
+export interface CashMovementResult {
+  movement: CashMovementRow;
+  drawerOpened: boolean;
+  slipPrinted: boolean;
+}
+
+export class CashMovementService {
+  private static instance: CashMovementService;
+  private logger = LoggerFactory.getInstance().createLogger('CashMovementService');
+
+  private constructor() {}
+
+  static getInstance(): CashMovementService {
+    if (!CashMovementService.instance) {
+      CashMovementService.instance = new CashMovementService();
+    }
+    return CashMovementService.instance;
+  }
+
+  /**
+   * Validate and record a movement, then open the drawer and print its slip.
+   * A drawer or printer failure does not undo the movement — the cash has
+   * usually moved already — and is reported in the result.
+   */
+  async record(input: RecordCashMovementInput): Promise<CashMovementResult> {
+    // A manager without a shift of their own records against whoever is on the drawer
+    const shift = (input.userId ? dailyReportService.getCurrentShift(input.userId) : null) ?? dailyReportService.getCurrentShift();
+    if (!shift || shift.status !== 'open') {
+      throw new Error('Open a shift before moving cash.');
+    }
+
+    const reason = input.reason.trim();
+    if (!reason) {
+      throw new Error('A reason is required.');
+    }
+    if (!input.approvedBy) {
+      throw new Error('Cash movements need manager approval.');
+    }
+
+    const amount = input.type === 'no_sale' ? 0 : roundMoney(input.amount);
+    if (input.type !== 'no_sale' && !(amount > 0)) {
+      throw new Error('Enter an amount greater than zero.');
+    }
+
+    const expenseCategory = input.type === 'paid_out' ? (input.expenseCategory ?? null) : null;
+    if (input.type === 'paid_out' && !expenseCategory) {
+      throw new Error('Choose an expense category for a paid-out.');
+    }
+
+    const movement = await this.store({
+      registerId: instoreApiConfig.current.registerId,
+      shiftId: shift.id,
+      type: input.type,
+      amount,
+      reason,
+      expenseCategory,
+      userId: input.userId,
+      userName: input.userName,
+      approvedBy: input.approvedBy,
+    });
+
+    const drawerOpened = await cashDrawerServiceFactory.getService().open(input.type === 'no_sale' ? 'no_sale' : 'cash_movement');
+    const slipPrinted = await this.printSlip(movement);
+
+    return { movement, drawerOpened, slipPrinted };
+  }
+
+  /** Write a validated movement to the ledger and audit it; the in-store API server calls this for client registers */
+  async store(input: CreateCashMovementInput): Promise<CashMovementRow> {
+    if (instoreApiConfig.isClient) {
+      return instoreApiClient.recordCashMovement(input);
+    }
+
+    const movement = await cashMovementRepository.create(input);
+    await auditLogService.log('cash:moved', {
+      userId: input.userId ?? undefined,
+      userName: input.userName ?? undefined,
+      registerId: input.registerId || undefined,
+      details: `${CASH_MOVEMENT_LABELS[input.type]} ${input.amount.toFixed(2)}: ${input.reason}`,
+      metadata: {
+        movementId: movement.id,
+        type: input.type,
+        amount: input.amount,
+        reason: input.reason,
+        expenseCategory: input.expenseCategory,
+        shiftId: input.shiftId,
+        approvedBy: input.approvedBy,
+      },
+    });
+    return movement;
+  }
+
+  async getShiftMovements(shiftId: string): Promise<CashMovementRow[]> {
+    return cashMovementRepository.findByShift(shiftId);
+  }
+
+  /** Print (or reprint) the slip for a movement; false when no printer took it */
+  async printSlip(movement: CashMovementRow): Promise<boolean> {
+    const printer = PrinterServiceFactory.getInstance();
+    if (!printer.isConnectedToPrinter()) {
+      this.logger.warn(`No printer connected — slip for cash movement ${movement.id} not printed`);
+      return false;
+    }
+
+    try {
+      return await printer.printLines(this.formatSlip(movement, await dailyReportService.getCurrencySymbolFromSettings()));
+    } catch (error) {
+      this.logger.error({ message: 'Failed to print cash movement slip' }, error instanceof Error ? error : new Error(String(error)));
+      return false;
+    }
+  }
+
+  formatSlip(movement: CashMovementRow, currencySymbol: string = '£'): string[] {
+    const config = receiptConfigService.getConfig();
+    const divider = receiptConfigService.getDividerLine();
+    const doubleDivider = receiptConfigService.getDoubleDividerLine();
+    const lines: string[] = [];
+
+    lines.push(receiptConfigService.centerText(config.header.businessName));
+    lines.push('');
+    lines.push(doubleDivider);
+    lines.push(receiptConfigService.centerText(CASH_MOVEMENT_LABELS[movement.type].toUpperCase()));
+    lines.push(doubleDivider);
+    lines.push(receiptConfigService.formatLine('Date:', new Date(movement.created_at).toLocaleString()));
+    if (movement.register_id) {
+      lines.push(receiptConfigService.formatLine('Register:', movement.register_id));
+    }
+    lines.push(receiptConfigService.formatLine('Cashier:', movement.user_name ?? movement.user_id ?? '-'));
+    lines.push(receiptConfigService.formatLine('Approved By:', movement.approved_by));
+    lines.push(divider);
+    if (movement.type !== 'no_sale') {
+      lines.push(receiptConfigService.formatLine('Amount:', `${currencySymbol}${movement.amount.toFixed(2)}`));
+    }
+    if (movement.expense_category) {
+      lines.push(receiptConfigService.formatLine('Category:', EXPENSE_CATEGORY_LABELS[movement.expense_category]));
+    }
+    lines.push(`Reason: ${movement.reason}`);
+    lines.push('');
+    lines.push('Signed: ______________________');
+    lines.push('');
+    lines.push(receiptConfigService.centerText(`Ref ${movement.id.slice(0, 8).toUpperCase()}`));
+    lines.push(doubleDivider);
+
+    return lines;
+  }
+}
+
+export const cashMovementService = CashMovementService.getInstance();
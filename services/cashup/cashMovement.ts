@@ -0,0 +1,69 @@
+/**
+ * Cash movements — cash that enters or leaves the drawer outside of a sale.
+ *
+ *   paid_in       cash put in (e.g. change returned from a petty-cash errand)
+ *   paid_out      cash taken out to pay an expense; carries an expense category
+ *   safe_drop     surplus cash moved from the drawer to the safe
+ *   float_top_up  extra float added to the drawer mid-shift
+ *   no_sale       drawer opened with no cash moving (amount is always 0)
+ *
+ * Every movement needs a reason and the approval of a user holding its action
+ * key (CASH_MOVEMENT_ACTIONS), and is reconciled in the shift's X/Z-reports.
+ */
+
+export type CashMovementType = 'paid_in' | 'paid_out' | 'safe_drop' | 'float_top_up' | 'no_sale';
+
+export const CASH_MOVEMENT_TYPES: readonly CashMovementType[] = ['paid_in', 'paid_out', 'safe_drop', 'float_top_up', 'no_sale'];
+
+export const CASH_MOVEMENT_LABELS: Record<CashMovementType, string> = {
+  paid_in: 'Paid In',
+  paid_out: 'Paid Out',
+  safe_drop: 'Safe Drop',
+  float_top_up: 'Float Top-Up',
+  no_sale: 'No Sale',
+};
+
+/** Action keys (utils/actionRegistry) that authorise each movement */
+export const CASH_MOVEMENT_ACTIONS: Record<CashMovementType, string> = {
+  paid_in: 'cash:paid_in',
+  paid_out: 'cash:paid_out',
+  safe_drop: 'cash:safe_drop',
+  float_top_up: 'cash:float_top_up',
+  no_sale: 'cash_drawer:open',
+};
+
+export type ExpenseCategory = 'supplies' | 'cleaning' | 'maintenance' | 'postage' | 'refreshments' | 'travel' | 'other';
+
+export const EXPENSE_CATEGORIES: readonly ExpenseCategory[] = [
+  'supplies',
+  'cleaning',
+  'maintenance',
+  'postage',
+  'refreshments',
+  'travel',
+  'other',
+];
+
+export const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  supplies: 'Supplies',
+  cleaning: 'Cleaning',
+  maintenance: 'Maintenance',
+  postage: 'Postage',
+  refreshments: 'Refreshments',
+  travel: 'Travel',
+  other: 'Other',
+};
+
+/** +1 when the movement adds cash to the drawer, −1 when it removes cash, 0 for a no-sale */
+export function drawerEffect(type: CashMovementType): 1 | -1 | 0 {
+  switch (type) {
+    case 'paid_in':
+    case 'float_top_up':
+      return 1;
+    case 'paid_out':
+    case 'safe_drop':
+      return -1;
+    case 'no_sale':
+      return 0;
+  }
+}
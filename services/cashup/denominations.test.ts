@@ -0,0 +1,29 @@
+import { cashTotal, countCash, getDenominations } from './denominations';
+
+describe('getDenominations', () => {
+  it('lists notes and coins largest first', () => {
+    const gbp = getDenominations('gbp');
+    expect(gbp[0]).toBe(50);
+    expect(gbp[gbp.length - 1]).toBe(0.01);
+  });
+
+  it('is empty for currencies counted as a total', () => {
+    expect(getDenominations('JPY')).toEqual([]);
+  });
+});
+
+describe('countCash', () => {
+  it('totals the count without floating-point drift and drops empty lines', () => {
+    const count = countCash([
+      { denomination: 0.1, quantity: 3 },
+      { denomination: 0.2, quantity: 0 },
+      { denomination: 20, quantity: 2 },
+    ]);
+    expect(count.total).toBe(40.3);
+    expect(count.denominations).toHaveLength(2);
+  });
+
+  it('wraps a single amount', () => {
+    expect(cashTotal(12.5)).toEqual({ denominations: [], total: 12.5 });
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Cash denominations — the notes and coins a cashier counts at cash-up.
+ *
+ * Values are in major units, largest first. Currencies without a list here
+ * are counted as a single total instead.
+ */
+
+import { multiplyMoney, sumMoney } from '../../utils/money';
+
+const DENOMINATIONS: Record<string, number[]> = {
+  GBP: [50, 20, 10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01],
+  EUR: [500, 200, 100, 50, 20, 10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01],
+  USD: [100, 50, 20, 10, 5, 2, 1, 0.25, 0.1, 0.05, 0.01],
+  CAD: [100, 50, 20, 10, 5, 2, 1, 0.25, 0.1, 0.05],
+  AUD: [100, 50, 20, 10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05],
+  NZD: [100, 50, 20, 10, 5, 2, 1, 0.5, 0.2, 0.1],
+};
+
+/** How many of one note or coin were counted */
+export interface DenominationCount {
+  denomination: number;
+  quantity: number;
+}
+
+/** A drawer count: per denomination where the currency has a list, otherwise just the total */
+export interface CashCount {
+  denominations: DenominationCount[];
+  total: number;
+}
+
+/** Notes and coins for a currency code; empty when the currency is counted as a total */
+export function getDenominations(currencyCode: string): number[] {
+  return DENOMINATIONS[currencyCode.toUpperCase()] ?? [];
+}
+
+/** Total a denomination count; lines with no quantity are dropped */
+export function countCash(lines: DenominationCount[]): CashCount {
+  const denominations = lines.filter(l => l.quantity > 0);
+  return {
+    denominations,
+    total: sumMoney(denominations.map(l => multiplyMoney(l.denomination, l.quantity))),
+  };
+}
+
+/** A count entered as one amount, for currencies without denominations or a quick close */
+export function cashTotal(total: number): CashCount {
+  return { denominations: [], total };
+}
@@ -0,0 +1,93 @@
+import { buildEndOfDayReport } from './endOfDay';
+import { ShiftReport, ShiftReportOrder, buildShiftReport } from './shiftReport';
+import { cashTotal } from './denominations';
+
+function order(total: number, method: string = 'cash'): ShiftReportOrder {
+  return { id: `o-${total}`, status: 'paid', total, tax: 1, discountAmount: 0, itemCount: 2, tenders: [{ method, amount: total }] };
+}
+
+function zReport(registerId: string, zNumber: number, orders: ShiftReportOrder[], counted: number): ShiftReport {
+  const report = buildShiftReport({
+    type: 'Z',
+    shift: { id: `shift-${zNumber}`, drawerId: `drawer-${zNumber}`, cashierId: 'c1', cashierName: 'Alice', openingCash: 50, startTime: 0 },
+    registerId,
+    generatedAt: 1000,
+    orders,
+    refunds: [],
+    noSaleCount: 1,
+    count: cashTotal(counted),
+  });
+  return { ...report, zNumber };
+}
+
+describe('buildEndOfDayReport', () => {
+  it("rolls every register's Z-reports up into store totals", () => {
+    const report = buildEndOfDayReport({
+      date: '2026-10-19',
+      generatedAt: 2000,
+      zReports: [
+        zReport('reg-2', 1, [order(40, 'card')], 50),
+        zReport('reg-1', 4, [order(30), order(10, 'card')], 80),
+        zReport('reg-1', 5, [order(20)], 70),
+      ],
+      openDrawers: [],
+    });
+
+    expect(report.zReportCount).toBe(3);
+    expect(report.registers.map(r => [r.registerId, r.zNumbers, r.netTakings])).toEqual([
+      ['reg-1', [4, 5], 60],
+      ['reg-2', [1], 40],
+    ]);
+    expect(report.sales).toMatchObject({ orderCount: 4, itemsSold: 8, grossSales: 100, tax: 4, netSales: 96, averageOrderValue: 25 });
+    expect(report.tenders).toEqual([
+      { method: 'card', count: 2, total: 50 },
+      { method: 'cash', count: 2, total: 50 },
+    ]);
+    expect(report.noSaleCount).toBe(3);
+    expect(report.cash).toMatchObject({ openingFloat: 150, cashSales: 50, expected: 200, counted: 200, variance: 0 });
+  });
+
+  it('adds up tips, tolerating Z-reports stored before tips were recorded', () => {
+    const tipped = buildShiftReport({
+      type: 'Z',
+      shift: { id: 'shift-7', drawerId: 'drawer-7', cashierId: 'c1', cashierName: 'Alice', openingCash: 50, startTime: 0 },
+      registerId: 'reg-1',
+      generatedAt: 1000,
+      orders: [{ ...order(30), tips: [{ method: 'cash', amount: 4 }] }],
+      refunds: [],
+      noSaleCount: 0,
+      tipShares: [{ staffId: 'c1', staffName: 'Alice', amount: 4 }],
+      count: cashTotal(84),
+    });
+    const legacy = zReport('reg-2', 1, [order(20, 'card')], 50);
+    delete legacy.tips;
+    delete legacy.cash.cashTips;
+
+    const report = buildEndOfDayReport({ date: '2026-10-19', generatedAt: 2000, zReports: [tipped, legacy], openDrawers: [] });
+
+    expect(report.tips).toMatchObject({ count: 1, total: 4, byTender: [{ method: 'cash', count: 1, total: 4 }] });
+    expect(report.tips.byStaff).toEqual([{ staffId: 'c1', staffName: 'Alice', count: 1, total: 4 }]);
+    expect(report.cash).toMatchObject({ cashTips: 4, expected: 134, variance: 0 });
+  });
+
+  it('keeps per-register variances apart from the store variance', () => {
+    const report = buildEndOfDayReport({
+      date: '2026-10-19',
+      generatedAt: 2000,
+      zReports: [zReport('reg-1', 1, [order(30)], 75), zReport('reg-2', 1, [order(30)], 85)],
+      openDrawers: [],
+    });
+
+    expect(report.registers.map(r => r.variance)).toEqual([-5, 5]);
+    expect(report.cash.variance).toBe(0);
+  });
+
+  it('passes drawers still open through without counting them', () => {
+    const openDrawer = { drawerId: 'drawer-9', registerId: 'reg-3', registerName: 'Till 3', openedAt: 500, cashiers: ['Bob'] };
+    const report = buildEndOfDayReport({ date: '2026-10-19', generatedAt: 2000, zReports: [], openDrawers: [openDrawer] });
+
+    expect(report.openDrawers).toEqual([openDrawer]);
+    expect(report.registers).toEqual([]);
+    expect(report.netTakings).toBe(0);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Store end-of-day — every register's Z-reports for one day rolled up into a
+ * single store total, used by DailyReportService.
+ *
+ * Nothing is stored: the Z-reports it is built from are already immutable,
+ * so the roll-up can be rebuilt at any time. Drawers still open at the time
+ * it is built are listed so the manager can chase them before banking;
+ * their takings are not in the totals until they are closed.
+ */
+
+import { addMoney, roundMoney, subtractMoney, sumMoney } from '../../utils/money';
+import type { ShiftReport, TenderTotal } from './shiftReport';
+import type { StaffTipTotal, TipSummary } from '../tips/tips';
+
+export interface OpenDrawerSummary {
+  drawerId: string;
+  registerId: string;
+  registerName: string | null;
+  openedAt: number;
+  /** Cashiers with a shift still open on the drawer */
+  cashiers: string[];
+}
+
+export interface RegisterDayTotal {
+  registerId: string;
+  /** Z numbers closed on the register that day, in order */
+  zNumbers: number[];
+  orderCount: number;
+  grossSales: number;
+  netTakings: number;
+  expectedCash: number;
+  countedCash: number;
+  variance: number;
+}
+
+export interface EndOfDayInput {
+  /** Local calendar day, YYYY-MM-DD */
+  date: string;
+  generatedAt: number;
+  zReports: ShiftReport[];
+  openDrawers: OpenDrawerSummary[];
+}
+
+export interface EndOfDayReport {
+  date: string;
+  generatedAt: number;
+  registers: RegisterDayTotal[];
+  zReportCount: number;
+  sales: {
+    orderCount: number;
+    itemsSold: number;
+    grossSales: number;
+    tax: number;
+    netSales: number;
+    averageOrderValue: number;
+  };
+  tenders: TenderTotal[];
+  refunds: { count: number; total: number; byTender: TenderTotal[] };
+  voids: { count: number; total: number };
+  discounts: { count: number; total: number };
+  noSaleCount: number;
+  netTakings: number;
+  tips: TipSummary;
+  cash: {
+    openingFloat: number;
+    cashSales: number;
+    cashTips: number;
+    cashRefunds: number;
+    paidIn: number;
+    paidOut: number;
+    safeDrops: number;
+    floatTopUps: number;
+    expected: number;
+    counted: number;
+    /** Counted minus expected across every register: positive is over, negative is short */
+    variance: number;
+  };
+  openDrawers: OpenDrawerSummary[];
+}
+
+function mergeTenders(lists: TenderTotal[][]): TenderTotal[] {
+  const totals = new Map<string, TenderTotal>();
+  for (const tender of lists.flat()) {
+    const entry = totals.get(tender.method) ?? { method: tender.method, count: 0, total: 0 };
+    entry.count += tender.count;
+    entry.total = addMoney(entry.total, tender.total);
+    totals.set(tender.method, entry);
+  }
+  return [...totals.values()].sort((a, b) => b.total - a.total || a.method.localeCompare(b.method));
+}
+
+/** Z-reports stored before tips were recorded have none */
+function mergeTips(summaries: (TipSummary | undefined)[]): TipSummary {
+  const present = summaries.filter((t): t is TipSummary => !!t);
+  const byStaff = new Map<string, StaffTipTotal>();
+  for (const staff of present.flatMap(t => t.byStaff)) {
+    const entry = byStaff.get(staff.staffId) ?? { ...staff, count: 0, total: 0 };
+    entry.count += staff.count;
+    entry.total = addMoney(entry.total, staff.total);
+    byStaff.set(staff.staffId, entry);
+  }
+  return {
+    count: present.reduce((sum, t) => sum + t.count, 0),
+    total: sumMoney(present.map(t => t.total)),
+    byTender: mergeTenders(present.map(t => t.byTender)),
+    byStaff: [...byStaff.values()].sort((a, b) => b.total - a.total || a.staffName.localeCompare(b.staffName)),
+  };
+}
+
+function registerTotals(zReports: ShiftReport[]): RegisterDayTotal[] {
+  const byRegister = new Map<string, ShiftReport[]>();
+  for (const report of zReports) {
+    byRegister.set(report.registerId, [...(byRegister.get(report.registerId) ?? []), report]);
+  }
+  return [...byRegister.entries()]
+    .map(([registerId, reports]) => ({
+      registerId,
+      zNumbers: reports.map(r => r.zNumber ?? 0).sort((a, b) => a - b),
+      orderCount: reports.reduce((sum, r) => sum + r.sales.orderCount, 0),
+      grossSales: sumMoney(reports.map(r => r.sales.grossSales)),
+      netTakings: sumMoney(reports.map(r => r.netTakings)),
+      expectedCash: sumMoney(reports.map(r => r.cash.expected)),
+      countedCash: sumMoney(reports.map(r => r.cash.counted ?? 0)),
+      variance: sumMoney(reports.map(r => r.cash.variance ?? 0)),
+    }))
+    .sort((a, b) => a.registerId.localeCompare(b.registerId));
+}
+
+export function buildEndOfDayReport(input: EndOfDayInput): EndOfDayReport {
+  const reports = input.zReports;
+  const total = (pick: (report: ShiftReport) => number) => sumMoney(reports.map(pick));
+  const orderCount = reports.reduce((sum, r) => sum + r.sales.orderCount, 0);
+  const grossSales = total(r => r.sales.grossSales);
+  const tax = total(r => r.sales.tax);
+  const expected = total(r => r.cash.expected);
+  const counted = total(r => r.cash.counted ?? 0);
+
+  return {
+    date: input.date,
+    generatedAt: input.generatedAt,
+    registers: registerTotals(reports),
+    zReportCount: reports.length,
+    sales: {
+      orderCount,
+      itemsSold: reports.reduce((sum, r) => sum + r.sales.itemsSold, 0),
+      grossSales,
+      tax,
+      netSales: subtractMoney(grossSales, tax),
+      averageOrderValue: orderCount > 0 ? roundMoney(grossSales / orderCount) : 0,
+    },
+    tenders: mergeTenders(reports.map(r => r.tenders)),
+    refunds: {
+      count: reports.reduce((sum, r) => sum + r.refunds.count, 0),
+      total: total(r => r.refunds.total),
+      byTender: mergeTenders(reports.map(r => r.refunds.byTender)),
+    },
+    voids: { count: reports.reduce((sum, r) => sum + r.voids.count, 0), total: total(r => r.voids.total) },
+    discounts: { count: reports.reduce((sum, r) => sum + r.discounts.count, 0), total: total(r => r.discounts.total) },
+    noSaleCount: reports.reduce((sum, r) => sum + r.noSaleCount, 0),
+    netTakings: total(r => r.netTakings),
+    tips: mergeTips(reports.map(r => r.tips)),
+    cash: {
+      openingFloat: total(r => r.cash.openingFloat),
+      cashSales: total(r => r.cash.cashSales),
+      cashTips: total(r => r.cash.cashTips ?? 0),
+      cashRefunds: total(r => r.cash.cashRefunds),
+      paidIn: total(r => r.cash.paidIn),
+      paidOut: total(r => r.cash.paidOut),
+      safeDrops: total(r => r.cash.safeDrops),
+      floatTopUps: total(r => r.cash.floatTopUps),
+      expected,
+      counted,
+      variance: subtractMoney(counted, expected),
+    },
+    openDrawers: input.openDrawers,
+  };
+}
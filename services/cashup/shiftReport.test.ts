@@ -0,0 +1,200 @@
+import { ShiftReportInput, ShiftReportOrder, allocateRefund, buildShiftReport, orderTenders } from './shiftReport';
+import { countCash } from './denominations';
+
+function order(total: number, overrides: Partial<ShiftReportOrder> = {}): ShiftReportOrder {
+  return {
+    id: `o-${total}`,
+    status: 'paid',
+    total,
+    tax: 0,
+    discountAmount: 0,
+    itemCount: 1,
+    tenders: [{ method: 'cash', amount: total }],
+    ...overrides,
+  };
+}
+
+function input(overrides: Partial<ShiftReportInput> = {}): ShiftReportInput {
+  return {
+    type: 'X',
+    shift: { id: 'shift-1', drawerId: 'drawer-1', cashierId: 'c1', cashierName: 'Alice', openingCash: 100, startTime: 0 },
+    registerId: 'reg-1',
+    generatedAt: 1000,
+    orders: [],
+    refunds: [],
+    noSaleCount: 0,
+    ...overrides,
+  };
+}
+
+describe('orderTenders', () => {
+  it('uses split payment lines when present, otherwise the single tender for the total', () => {
+    expect(orderTenders('card', [{ method: 'Cash', amount: 5 }], 5)).toEqual([{ method: 'cash', amount: 5 }]);
+    expect(orderTenders('Card', null, 12)).toEqual([{ method: 'card', amount: 12 }]);
+    expect(orderTenders(null, [], 3)).toEqual([{ method: 'unknown', amount: 3 }]);
+  });
+});
+
+describe('allocateRefund', () => {
+  it('refunds gift cards first, then the other tenders in order', () => {
+    const tenders = [
+      { method: 'cash', amount: 10 },
+      { method: 'gift_card', amount: 15 },
+      { method: 'card', amount: 5 },
+    ];
+    expect(allocateRefund(20, tenders)).toEqual([
+      { method: 'gift_card', amount: 15 },
+      { method: 'cash', amount: 5 },
+    ]);
+  });
+
+  it('keeps any excess on the main tender', () => {
+    expect(allocateRefund(12, [{ method: 'card', amount: 10 }])).toEqual([{ method: 'card', amount: 12 }]);
+    expect(allocateRefund(4, [])).toEqual([{ method: 'unknown', amount: 4 }]);
+  });
+});
+
+describe('buildShiftReport', () => {
+  it('totals sales, tenders, voids and discounts', () => {
+    const report = buildShiftReport(
+      input({
+        orders: [
+          order(30, { tax: 5, itemCount: 3, discountAmount: 2 }),
+          order(20, { tenders: [{ method: 'card', amount: 20 }] }),
+          order(15, {
+            tenders: [
+              { method: 'cash', amount: 5 },
+              { method: 'card', amount: 10 },
+            ],
+          }),
+          order(8, { status: 'cancelled' }),
+          order(9, { status: 'draft' }),
+        ],
+        noSaleCount: 2,
+      })
+    );
+
+    expect(report.sales).toEqual({ orderCount: 3, itemsSold: 5, grossSales: 65, tax: 5, netSales: 60, averageOrderValue: 21.67 });
+    expect(report.tenders).toEqual([
+      { method: 'cash', count: 2, total: 35 },
+      { method: 'card', count: 2, total: 30 },
+    ]);
+    expect(report.voids).toEqual({ count: 1, total: 8 });
+    expect(report.discounts).toEqual({ count: 1, total: 2 });
+    expect(report.noSaleCount).toBe(2);
+  });
+
+  it('reconciles expected cash against the count', () => {
+    const report = buildShiftReport(
+      input({
+        type: 'Z',
+        orders: [order(50)],
+        refunds: [{ orderId: 'old', amount: 10, originalTenders: [{ method: 'cash', amount: 10 }] }],
+        movements: [
+          { type: 'paid_in', amount: 5, expenseCategory: null },
+          { type: 'paid_out', amount: 20, expenseCategory: 'cleaning' },
+        ],
+        count: countCash([
+          { denomination: 20, quantity: 6 },
+          { denomination: 2, quantity: 2 },
+        ]),
+      })
+    );
+
+    // 100 float + 50 cash sales − 10 cash refund + 5 paid in − 20 paid out
+    expect(report.cash).toMatchObject({ cashSales: 50, cashRefunds: 10, expected: 125, counted: 124, variance: -1 });
+    expect(report.refunds).toEqual({ count: 1, total: 10, byTender: [{ method: 'cash', count: 1, total: 10 }] });
+    expect(report.netTakings).toBe(40);
+    expect(report.zNumber).toBeNull();
+  });
+
+  it('moves expected cash by safe drops and float top-ups and groups paid-outs by category', () => {
+    const report = buildShiftReport(
+      input({
+        movements: [
+          { type: 'safe_drop', amount: 60, expenseCategory: null },
+          { type: 'float_top_up', amount: 25, expenseCategory: null },
+          { type: 'paid_out', amount: 4.5, expenseCategory: 'postage' },
+          { type: 'paid_out', amount: 3, expenseCategory: 'postage' },
+          { type: 'paid_out', amount: 10, expenseCategory: 'cleaning' },
+          { type: 'no_sale', amount: 0, expenseCategory: null },
+        ],
+      })
+    );
+
+    // 100 float + 25 top-up − 60 drop − 17.5 paid out
+    expect(report.cash).toMatchObject({ safeDrops: 60, floatTopUps: 25, paidOut: 17.5, expected: 47.5 });
+    expect(report.cash.paidOutByCategory).toEqual([
+      { category: 'cleaning', count: 1, total: 10 },
+      { category: 'postage', count: 2, total: 7.5 },
+    ]);
+  });
+
+  it('reports tips apart from sales and keeps cash tips in expected cash', () => {
+    const report = buildShiftReport(
+      input({
+        orders: [
+          order(20, {
+            tenders: orderTenders('cash', [{ method: 'cash', amount: 23, tipAmount: 3 }], 20),
+            tips: [{ method: 'cash', amount: 3 }],
+          }),
+          order(40, { tenders: [{ method: 'card', amount: 40 }], tips: [{ method: 'card', amount: 6 }] }),
+          order(10, { status: 'cancelled', tips: [{ method: 'cash', amount: 1 }] }),
+        ],
+        tipShares: [
+          { staffId: 'c1', staffName: 'Alice', amount: 3 },
+          { staffId: 'c1', staffName: 'Alice', amount: 3 },
+          { staffId: 'c2', staffName: 'Bob', amount: 3 },
+        ],
+      })
+    );
+
+    expect(report.sales.grossSales).toBe(60);
+    expect(report.tenders).toEqual([
+      { method: 'card', count: 1, total: 40 },
+      { method: 'cash', count: 1, total: 20 },
+    ]);
+    expect(report.tips).toMatchObject({
+      count: 2,
+      total: 9,
+      byTender: [
+        { method: 'card', count: 1, total: 6 },
+        { method: 'cash', count: 1, total: 3 },
+      ],
+    });
+    expect(report.tips?.byStaff.map(s => [s.staffName, s.total])).toEqual([
+      ['Alice', 6],
+      ['Bob', 3],
+    ]);
+    // 100 float + 20 cash sales + 3 cash tips
+    expect(report.cash).toMatchObject({ cashSales: 20, cashTips: 3, expected: 123 });
+  });
+
+  it('totals sales per cashier who worked the drawer', () => {
+    const report = buildShiftReport(
+      input({
+        cashiers: [
+          { cashierId: 'c1', cashierName: 'Alice' },
+          { cashierId: 'c2', cashierName: 'Bob' },
+        ],
+        orders: [
+          order(10, { cashierId: 'c1' }),
+          order(20, { id: 'o-b', cashierId: 'c2' }),
+          order(5, { id: 'o-b2', cashierId: 'c2' }),
+          order(7, { id: 'o-void', cashierId: 'c2', status: 'cancelled' }),
+        ],
+      })
+    );
+
+    expect(report.drawerId).toBe('drawer-1');
+    expect(report.cashiers).toEqual([
+      { cashierId: 'c1', cashierName: 'Alice', orderCount: 1, grossSales: 10 },
+      { cashierId: 'c2', cashierName: 'Bob', orderCount: 2, grossSales: 25 },
+    ]);
+  });
+
+  it('has no variance without a count', () => {
+    const report = buildShiftReport(input({ orders: [order(10)] }));
+    expect(report.cash).toMatchObject({ expected: 110, counted: null, variance: null, countedDenominations: [] });
+  });
+});
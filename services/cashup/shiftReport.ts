@@ -0,0 +1,338 @@
+/**
+ * X- and Z-reports — pure cash-up reconciliation used by DailyReportService.
+ *
+ * Both reports cover one cash drawer on one register, across every cashier
+ * whose shift was on it:
+ *
+ *   X — mid-shift snapshot from drawer open to now; changes nothing
+ *   Z — drawer close; the counted drawer is reconciled, the report is numbered
+ *       and stored, and the next drawer starts from zero
+ *
+ * Expected cash in the drawer is
+ *
+ *   opening float + cash sales + cash tips − cash refunds + paid-ins
+ *     + float top-ups − paid-outs − safe drops
+ *
+ * Tips are not takings: tenders and sales exclude them, and they are totalled
+ * on their own per tender and per staff member. Cash tips stay in the drawer
+ * until they are paid out, so they are part of the expected cash.
+ *
+ * Refunds are assigned to tenders the way RefundService pays them out: gift
+ * cards used on the original order first, then the order's other tenders in
+ * the order they were taken, each up to the amount paid with it.
+ */
+
+import { addMoney, roundMoney, subtractMoney, sumMoney } from '../../utils/money';
+import type { CashCount, DenominationCount } from './denominations';
+import type { CashMovementType, ExpenseCategory } from './cashMovement';
+import { TipShare, TipSummary, summariseTips } from '../tips/tips';
+
+export type ShiftReportType = 'X' | 'Z';
+
+/** Tender key used for cash, matching CheckoutService's drawer rule */
+export const CASH_TENDER = 'cash';
+
+const GIFT_CARD_TENDER = 'gift_card';
+const UNKNOWN_TENDER = 'unknown';
+
+/** Order statuses that count as takings */
+const SALE_STATUSES = new Set(['paid', 'synced']);
+const VOID_STATUS = 'cancelled';
+
+export interface TenderLine {
+  method: string;
+  amount: number;
+}
+
+export interface TenderTotal {
+  method: string;
+  count: number;
+  total: number;
+}
+
+export interface ShiftReportOrder {
+  id: string;
+  status: string;
+  total: number;
+  tax: number;
+  discountAmount: number;
+  itemCount: number;
+  /** Split-tender payment lines, or the single tender for the whole total; tips excluded */
+  tenders: TenderLine[];
+  /** Tip portion of the payment lines that carry one */
+  tips?: TenderLine[];
+  cashierId?: string | null;
+}
+
+export interface ShiftReportRefund {
+  orderId: string;
+  amount: number;
+  /** Tenders of the original order, which may have been taken in an earlier shift */
+  originalTenders: TenderLine[];
+}
+
+export interface ShiftReportMovement {
+  type: CashMovementType;
+  amount: number;
+  expenseCategory: ExpenseCategory | null;
+}
+
+export interface ExpenseTotal {
+  category: ExpenseCategory;
+  count: number;
+  total: number;
+}
+
+/** The shift asking for the report, on the drawer being reported */
+export interface ShiftReportShift {
+  id: string;
+  drawerId: string;
+  cashierId: string;
+  cashierName: string;
+  /** The drawer's opening float */
+  openingCash: number;
+  /** When the drawer opened */
+  startTime: number;
+}
+
+export interface ShiftReportCashier {
+  cashierId: string;
+  cashierName: string;
+}
+
+export interface CashierTotal extends ShiftReportCashier {
+  orderCount: number;
+  grossSales: number;
+}
+
+export interface ShiftReportInput {
+  type: ShiftReportType;
+  shift: ShiftReportShift;
+  registerId: string;
+  generatedAt: number;
+  /** Everyone who had a shift on the drawer, in the order they started */
+  cashiers?: ShiftReportCashier[];
+  /** Every order taken on the drawer, including cancelled ones */
+  orders: ShiftReportOrder[];
+  refunds: ShiftReportRefund[];
+  noSaleCount: number;
+  /** Cash movement ledger entries of the drawer */
+  movements?: ShiftReportMovement[];
+  /** Staff shares of the tips on the drawer's orders */
+  tipShares?: TipShare[];
+  /** The drawer count; required for a Z-report, optional for an X-report */
+  count?: CashCount | null;
+}
+
+export interface CashReconciliation {
+  openingFloat: number;
+  cashSales: number;
+  /** Absent on Z-reports stored before tips were recorded */
+  cashTips?: number;
+  cashRefunds: number;
+  paidIn: number;
+  paidOut: number;
+  safeDrops: number;
+  floatTopUps: number;
+  /** Paid-outs per expense category */
+  paidOutByCategory: ExpenseTotal[];
+  expected: number;
+  counted: number | null;
+  countedDenominations: DenominationCount[];
+  /** Counted minus expected: positive is over, negative is short */
+  variance: number | null;
+}
+
+export interface ShiftReport {
+  type: ShiftReportType;
+  /** Sequential per register; set when a Z-report is stored */
+  zNumber: number | null;
+  registerId: string;
+  drawerId: string;
+  /** The shift that asked for the report — for a Z-report, whoever closed the drawer */
+  shiftId: string;
+  cashierId: string;
+  cashierName: string;
+  /** Sales per cashier who worked the drawer */
+  cashiers: CashierTotal[];
+  openedAt: number;
+  generatedAt: number;
+  sales: {
+    orderCount: number;
+    itemsSold: number;
+    grossSales: number;
+    tax: number;
+    netSales: number;
+    averageOrderValue: number;
+  };
+  tenders: TenderTotal[];
+  refunds: { count: number; total: number; byTender: TenderTotal[] };
+  voids: { count: number; total: number };
+  discounts: { count: number; total: number };
+  noSaleCount: number;
+  /** Gross sales less refunds */
+  netTakings: number;
+  /** Absent on Z-reports stored before tips were recorded */
+  tips?: TipSummary;
+  cash: CashReconciliation;
+  /** Running net takings across every Z-report of the register; set when a Z-report is stored */
+  grandTotal: number | null;
+}
+
+function cashierTotals(cashiers: ShiftReportCashier[], sales: ShiftReportOrder[]): CashierTotal[] {
+  return cashiers.map(cashier => {
+    const own = sales.filter(o => o.cashierId === cashier.cashierId);
+    return { ...cashier, orderCount: own.length, grossSales: sumMoney(own.map(o => o.total)) };
+  });
+}
+
+function tenderKey(method: string | null | undefined): string {
+  return method ? method.toLowerCase() : UNKNOWN_TENDER;
+}
+
+/** Payment lines of an order less any tip on them, falling back to its single tender for the whole total */
+export function orderTenders(
+  paymentMethod: string | null,
+  payments: (TenderLine & { tipAmount?: number })[] | null | undefined,
+  total: number
+): TenderLine[] {
+  if (payments && payments.length > 0) {
+    return payments.map(p => ({ method: tenderKey(p.method), amount: subtractMoney(p.amount, p.tipAmount ?? 0) }));
+  }
+  return [{ method: tenderKey(paymentMethod), amount: total }];
+}
+
+/** Split a refund across the original order's tenders: gift cards first, then in tender order */
+export function allocateRefund(amount: number, originalTenders: TenderLine[]): TenderLine[] {
+  const tenders = originalTenders.filter(t => t.amount > 0);
+  const ordered = [...tenders.filter(t => t.method === GIFT_CARD_TENDER), ...tenders.filter(t => t.method !== GIFT_CARD_TENDER)];
+
+  const allocation = new Map<string, number>();
+  let remaining = roundMoney(amount);
+  for (const tender of ordered) {
+    if (remaining <= 0) break;
+    const share = Math.min(remaining, tender.amount);
+    allocation.set(tender.method, addMoney(allocation.get(tender.method) ?? 0, share));
+    remaining = subtractMoney(remaining, share);
+  }
+  // More refunded than was paid (e.g. a price override on the return) stays with the main tender
+  if (remaining > 0) {
+    const fallback = ordered.find(t => t.method !== GIFT_CARD_TENDER)?.method ?? ordered[0]?.method ?? UNKNOWN_TENDER;
+    allocation.set(fallback, addMoney(allocation.get(fallback) ?? 0, remaining));
+  }
+
+  return [...allocation.entries()].map(([method, share]) => ({ method, amount: share }));
+}
+
+function addTender(totals: Map<string, TenderTotal>, method: string, amount: number): void {
+  const entry = totals.get(method) ?? { method, count: 0, total: 0 };
+  entry.count++;
+  entry.total = addMoney(entry.total, amount);
+  totals.set(method, entry);
+}
+
+function sortTenders(totals: Map<string, TenderTotal>): TenderTotal[] {
+  return [...totals.values()].sort((a, b) => b.total - a.total || a.method.localeCompare(b.method));
+}
+
+function movementTotal(movements: ShiftReportMovement[], type: CashMovementType): number {
+  return sumMoney(movements.filter(m => m.type === type).map(m => m.amount));
+}
+
+function expensesByCategory(movements: ShiftReportMovement[]): ExpenseTotal[] {
+  const totals = new Map<ExpenseCategory, ExpenseTotal>();
+  for (const m of movements) {
+    if (m.type !== 'paid_out') continue;
+    const category = m.expenseCategory ?? 'other';
+    const entry = totals.get(category) ?? { category, count: 0, total: 0 };
+    entry.count++;
+    entry.total = addMoney(entry.total, m.amount);
+    totals.set(category, entry);
+  }
+  return [...totals.values()].sort((a, b) => b.total - a.total || a.category.localeCompare(b.category));
+}
+
+export function buildShiftReport(input: ShiftReportInput): ShiftReport {
+  const sales = input.orders.filter(o => SALE_STATUSES.has(o.status));
+  const voids = input.orders.filter(o => o.status === VOID_STATUS);
+
+  const tenders = new Map<string, TenderTotal>();
+  for (const order of sales) {
+    for (const tender of order.tenders) {
+      addTender(tenders, tender.method, tender.amount);
+    }
+  }
+
+  const refundTenders = new Map<string, TenderTotal>();
+  for (const refund of input.refunds) {
+    for (const share of allocateRefund(refund.amount, refund.originalTenders)) {
+      addTender(refundTenders, share.method, share.amount);
+    }
+  }
+
+  const grossSales = sumMoney(sales.map(o => o.total));
+  const tax = sumMoney(sales.map(o => o.tax));
+  const refundTotal = sumMoney(input.refunds.map(r => r.amount));
+  const discounted = sales.filter(o => o.discountAmount > 0);
+
+  const tips = summariseTips(
+    sales.map(o => o.tips ?? []),
+    input.tipShares ?? []
+  );
+
+  const openingFloat = input.shift.openingCash;
+  const cashSales = tenders.get(CASH_TENDER)?.total ?? 0;
+  const cashTips = tips.byTender.find(t => t.method === CASH_TENDER)?.total ?? 0;
+  const cashRefunds = refundTenders.get(CASH_TENDER)?.total ?? 0;
+  const movements = input.movements ?? [];
+  const paidIn = movementTotal(movements, 'paid_in');
+  const paidOut = movementTotal(movements, 'paid_out');
+  const safeDrops = movementTotal(movements, 'safe_drop');
+  const floatTopUps = movementTotal(movements, 'float_top_up');
+  const expected = sumMoney([openingFloat, cashSales, cashTips, -cashRefunds, paidIn, floatTopUps, -paidOut, -safeDrops]);
+  const count = input.count ?? null;
+
+  return {
+    type: input.type,
+    zNumber: null,
+    registerId: input.registerId,
+    drawerId: input.shift.drawerId,
+    shiftId: input.shift.id,
+    cashierId: input.shift.cashierId,
+    cashierName: input.shift.cashierName,
+    cashiers: cashierTotals(input.cashiers ?? [], sales),
+    openedAt: input.shift.startTime,
+    generatedAt: input.generatedAt,
+    sales: {
+      orderCount: sales.length,
+      itemsSold: sales.reduce((sum, o) => sum + o.itemCount, 0),
+      grossSales,
+      tax,
+      netSales: subtractMoney(grossSales, tax),
+      averageOrderValue: sales.length > 0 ? roundMoney(grossSales / sales.length) : 0,
+    },
+    tenders: sortTenders(tenders),
+    refunds: { count: input.refunds.length, total: refundTotal, byTender: sortTenders(refundTenders) },
+    voids: { count: voids.length, total: sumMoney(voids.map(o => o.total)) },
+    discounts: { count: discounted.length, total: sumMoney(discounted.map(o => o.discountAmount)) },
+    noSaleCount: input.noSaleCount,
+    netTakings: subtractMoney(grossSales, refundTotal),
+    tips,
+    cash: {
+      openingFloat,
+      cashSales,
+      cashTips,
+      cashRefunds,
+      paidIn,
+      paidOut,
+      safeDrops,
+      floatTopUps,
+      paidOutByCategory: expensesByCategory(movements),
+      expected,
+      counted: count ? count.total : null,
+      countedDenominations: count ? count.denominations : [],
+      variance: count ? subtractMoney(count.total, expected) : null,
+    },
+    grandTotal: null,
+  };
+}
@@ -39,12 +39,25 @@ jest.mock('../customer/LocalCustomerService', () => ({
   localCustomerService: { upsert: jest.fn().mockResolvedValue('mock-id'), recordOrder: jest.fn().mockResolvedValue(undefined) },
 }));
 
+// Mock GiftCardService to avoid expo-sqlite and platform client dependencies
+jest.mock('../giftcard/GiftCardService', () => ({
+  giftCardService: { fulfilOrder: jest.fn().mockResolvedValue(undefined), reverseOrder: jest.fn().mockResolvedValue(undefined) },
+}));
+
+// Mock TipService to avoid expo-sqlite dependency
+jest.mock('../tips/TipService', () => ({
+  tipService: { recordOrderTips: jest.fn().mockResolvedValue([]) },
+}));
+
 import { CheckoutService } from './CheckoutService';
 import { BasketServiceInterface } from '../basket/BasketServiceInterface';
 import { OrderRepository } from '../../repositories/OrderRepository';
 import { OrderItemRepository } from '../../repositories/OrderItemRepository';
 import { LoggerInterface } from '../logger/LoggerInterface';
 import { Basket } from '../basket/basket';
+import { giftCardService } from '../giftcard/GiftCardService';
+import { tipService } from '../tips/TipService';
+import { PaymentLine } from '../order/order';
 
 // ── Mocks ─────────────────────────────────────────────────────────────
 
@@ -76,8 +89,13 @@ function createMockBasketService(): BasketServiceInterface {
     clearBasket: jest.fn(),
     applyDiscount: jest.fn(),
     removeDiscount: jest.fn(),
+    addBasketAdjustment: jest.fn(),
+    addLineAdjustment: jest.fn(),
+    removeAdjustment: jest.fn(),
     setCustomer: jest.fn(),
     setNote: jest.fn(),
+    park: jest.fn(),
+    recall: jest.fn(),
   };
 }
 
@@ -93,8 +111,11 @@ function createMockOrderRepo(): jest.Mocked<OrderRepository> {
     updateStatus: jest.fn(),
     updatePayment: jest.fn(),
     updatePaymentLines: jest.fn(),
+    updateReceiptContact: jest.fn(),
     updateSyncSuccess: jest.fn(),
     updateSyncError: jest.fn(),
+    markSyncAttempt: jest.fn(),
+    updateSyncDuplicates: jest.fn(),
     delete: jest.fn(),
   } as jest.Mocked<OrderRepository>;
 }
@@ -104,6 +125,10 @@ function createMockOrderItemRepo(): jest.Mocked<OrderItemRepository> {
     createMany: jest.fn(),
     findByOrderId: jest.fn().mockResolvedValue([]),
     deleteByOrderId: jest.fn(),
+    getUnitsSoldByProduct: jest.fn().mockResolvedValue([]),
+    findSoldLines: jest.fn().mockResolvedValue([]),
+    getLastSoldAt: jest.fn().mockResolvedValue([]),
+    getItemCountsByOrder: jest.fn().mockResolvedValue([]),
   } as jest.Mocked<OrderItemRepository>;
 }
 
@@ -175,6 +200,38 @@ describe('CheckoutService', () => {
       expect(result.error).toBe('DB write failed');
       expect(orderRepo.updateStatus).toHaveBeenCalledWith('order-1', 'failed');
     });
+
+    describe('with a tip', () => {
+      const tippedLine: PaymentLine = { id: 'p1', method: 'card', amount: 24, tipAmount: 4, transactionId: 'txn-1', processedAt: 0 };
+
+      beforeEach(() => {
+        (tipService.recordOrderTips as jest.Mock).mockClear();
+        orderRepo.findById.mockResolvedValue({ id: 'order-1', total: 20 } as Awaited<ReturnType<OrderRepository['findById']>>);
+      });
+
+      it('accepts payment lines adding up to the total plus the tip and records the tip apart', async () => {
+        const result = await service.completePayment('order-1', 'card', 'txn-1', [tippedLine]);
+
+        expect(result.success).toBe(true);
+        expect(orderRepo.updatePaymentLines).toHaveBeenCalledWith('order-1', 'card', 'txn-1', JSON.stringify([tippedLine]), 4);
+        expect(tipService.recordOrderTips).toHaveBeenCalledWith('order-1');
+      });
+
+      it('rejects payment lines that do not cover the tip', async () => {
+        const result = await service.completePayment('order-1', 'card', 'txn-1', [{ ...tippedLine, amount: 20 }]);
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('Payment total mismatch');
+        expect(tipService.recordOrderTips).not.toHaveBeenCalled();
+      });
+
+      it('does not share anything when the order has no tip', async () => {
+        await service.completePayment('order-1', 'card', 'txn-1', [{ ...tippedLine, amount: 20, tipAmount: undefined }]);
+
+        expect(orderRepo.updatePaymentLines).toHaveBeenCalledWith('order-1', 'card', 'txn-1', expect.any(String), 0);
+        expect(tipService.recordOrderTips).not.toHaveBeenCalled();
+      });
+    });
   });
 
   describe('cancelOrder', () => {
@@ -182,6 +239,11 @@ describe('CheckoutService', () => {
       await service.cancelOrder('order-1');
       expect(orderRepo.updateStatus).toHaveBeenCalledWith('order-1', 'cancelled');
     });
+
+    it('reverses gift card tender and loads taken on the order', async () => {
+      await service.cancelOrder('order-1');
+      expect(giftCardService.reverseOrder).toHaveBeenCalledWith('order-1');
+    });
   });
 
   describe('getLocalOrders', () => {
@@ -212,6 +274,11 @@ describe('CheckoutService', () => {
           paid_at: Date.now(),
           synced_at: null,
           payments_json: null,
+          tip_amount: 0,
+          receipt_email: null,
+          receipt_phone: null,
+          sync_attempted_at: null,
+          duplicate_platform_order_ids: null,
         },
       ]);
 
@@ -1,5 +1,6 @@
 import { ECommercePlatform, isOnlinePlatform } from '../../utils/platforms';
-import { BasketItem } from '../basket/basket';
+import { Basket, BasketAdjustment, BasketItem } from '../basket/basket';
+import { allocateBasketAdjustments, collectLineAdjustments } from '../basket/basketAdjustments';
 import { LocalOrder, LocalOrderStatus, CheckoutResult, PaymentLine } from '../order/order';
 import { BasketServiceInterface } from '../basket/BasketServiceInterface';
 import { CheckoutServiceInterface } from './CheckoutServiceInterface';
@@ -9,13 +10,20 @@ import { OrderItemRepository } from '../../repositories/OrderItemRepository';
 import { LoggerInterface } from '../logger/LoggerInterface';
 import { posConfig } from '../config/POSConfigService';
 import { generateUUID } from '../../utils/uuid';
+import { addMoney, sumMoney } from '../../utils/money';
 import { auditLogService } from '../audit/AuditLogService';
 import { OrderServiceFactory } from '../order/OrderServiceFactory';
+import { Discount } from '../order/OrderServiceInterface';
 import { getPlatformCapabilities, getBasketMode } from '../../utils/platformCapabilities';
 import { loyaltyService } from '../loyalty/LoyaltyService';
 import { localCustomerService } from '../customer/LocalCustomerService';
 import { procurementService } from '../procurement/ProcurementService';
 import { InventoryServiceFactory } from '../inventory/InventoryServiceFactory';
+import { locationService } from '../inventory/LocationService';
+import { giftCardService } from '../giftcard/GiftCardService';
+import { GIFT_CARD_PRODUCT_ID } from '../giftcard/giftCard';
+import { tipService } from '../tips/TipService';
+import { paymentLinesTip } from '../tips/tips';
 
 /**
  * Handles checkout flow and order queries.
@@ -72,9 +80,7 @@ export class CheckoutService implements CheckoutServiceInterface {
           subtotal: basket.subtotal,
           tax: basket.tax,
           total: basket.total,
-          discounts: basket.discountCode
-            ? [{ code: basket.discountCode, amount: basket.discountAmount ?? 0, type: 'fixed_amount' }]
-            : undefined,
+          discounts: this.buildDraftDiscounts(basket),
         });
 
         // Use platform-authoritative values
@@ -107,6 +113,7 @@ export class CheckoutService implements CheckoutServiceInterface {
       total,
       discountAmount: basket.discountAmount,
       discountCode: basket.discountCode,
+      adjustments: basket.adjustments,
       customerEmail: basket.customerEmail,
       customerName: basket.customerName,
       note: basket.note,
@@ -137,26 +144,36 @@ export class CheckoutService implements CheckoutServiceInterface {
       status,
     };
 
-    const itemInputs = basket.items.map((item, i) => ({
-      orderId,
-      productId: item.productId,
-      variantId: item.variantId,
-      sku: item.sku,
-      name: item.name,
-      price: item.price,
-      quantity: item.quantity,
-      image: item.image,
-      taxable: item.taxable ?? false,
-      taxRate: platformTaxRates[i] ?? item.taxRate ?? null,
-      isEcommerceProduct: item.isEcommerceProduct,
-      originalId: item.originalId,
-      properties: item.properties,
-      optionSummary: item.optionSummary ?? null,
-      taxCode: item.taxCode ?? null,
-      taxProfileId: item.taxProfileId ?? null,
-      inventoryPolicy: item.inventoryPolicy ?? null,
-      catalogVersion: item.catalogVersion ?? null,
-    }));
+    // Spread basket-level adjustments over the lines so each order line carries its full discount
+    const basketShares = allocateBasketAdjustments(basket.items, basket.adjustments ?? []);
+
+    const itemInputs = basket.items.map((item, i) => {
+      const adjustments = collectLineAdjustments(item, basketShares[item.id]);
+      return {
+        orderId,
+        productId: item.productId,
+        variantId: item.variantId,
+        sku: item.sku,
+        name: item.name,
+        price: item.price,
+        quantity: item.quantity,
+        image: item.image,
+        taxable: item.taxable ?? false,
+        taxRate: platformTaxRates[i] ?? item.taxRate ?? null,
+        isEcommerceProduct: item.isEcommerceProduct,
+        originalId: item.originalId,
+        properties: item.properties,
+        optionSummary: item.optionSummary ?? null,
+        taxCode: item.taxCode ?? null,
+        taxProfileId: item.taxProfileId ?? null,
+        inventoryPolicy: item.inventoryPolicy ?? null,
+        catalogVersion: item.catalogVersion ?? null,
+        promotionDiscount: item.promotionDiscount ?? null,
+        promotions: item.promotions ?? null,
+        adjustments,
+        discountTotal: adjustments.length > 0 ? sumMoney(adjustments.map(a => a.amount)) : null,
+      };
+    });
 
     await this.orderRepo.createWithItems(orderInput, itemInputs);
 
@@ -188,6 +205,9 @@ export class CheckoutService implements CheckoutServiceInterface {
       }
     }
 
+    // Restore any gift card tender taken against the draft
+    await giftCardService.reverseOrder(orderId);
+
     // Always remove the local draft row
     await this.orderRepo.delete(orderId);
   }
@@ -204,17 +224,18 @@ export class CheckoutService implements CheckoutServiceInterface {
 
   async completePayment(orderId: string, paymentMethod: string, transactionId?: string, payments?: PaymentLine[]): Promise<CheckoutResult> {
     try {
-      // Validate split tender total matches order total (spec §6.1)
+      // Validate split tender total matches order total plus any tip (spec §6.1, tips.md §2.2)
+      const tipAmount = payments ? paymentLinesTip(payments) : 0;
       if (payments && payments.length > 0) {
         const orderRow = await this.orderRepo.findById(orderId);
         if (orderRow) {
           const paymentSum = Math.round(payments.reduce((s, p) => s + p.amount, 0) * 100);
-          const orderTotal = Math.round(orderRow.total * 100);
+          const orderTotal = Math.round(addMoney(orderRow.total, tipAmount) * 100);
           if (Math.abs(paymentSum - orderTotal) > 1) {
             throw new Error('Payment total mismatch');
           }
         }
-        await this.orderRepo.updatePaymentLines(orderId, paymentMethod, transactionId ?? null, JSON.stringify(payments));
+        await this.orderRepo.updatePaymentLines(orderId, paymentMethod, transactionId ?? null, JSON.stringify(payments), tipAmount);
       } else {
         await this.orderRepo.updatePayment(orderId, paymentMethod, transactionId ?? null);
       }
@@ -243,6 +264,9 @@ export class CheckoutService implements CheckoutServiceInterface {
       // Only clear basket after the order is successfully recorded
       await this.basketService.clearBasket();
 
+      // Gift cards sold on this order go live now that it is paid
+      await this.fulfilGiftCards(orderId, orderRow?.cashier_id ?? undefined, orderRow?.customer_email ?? undefined);
+
       // Post-payment hooks — non-blocking, must not affect checkout result
       // orderRow was already fetched above; reuse it
       if (orderRow?.customer_email) {
@@ -252,15 +276,25 @@ export class CheckoutService implements CheckoutServiceInterface {
         localCustomerService.recordOrder(email, total).catch(() => {});
       }
 
-      // Check reorder points for sold items (non-blocking)
-      this.checkReorderPointsAfterSale(orderId).catch(() => {});
+      // Take sold items out of this register's stock and check reorder points (non-blocking)
+      this.updateStockAfterSale(orderId, (orderRow?.platform as ECommercePlatform | null) ?? undefined).catch(() => {});
+
+      // Share the tip between staff (non-blocking — the tip is already on the order)
+      if (tipAmount > 0) {
+        tipService.recordOrderTips(orderId).catch(err => {
+          this.logger.warn(
+            { message: `Failed to record tip shares for order ${orderId}` },
+            err instanceof Error ? err : new Error(String(err))
+          );
+        });
+      }
 
       const isCash = paymentMethod.toLowerCase() === 'cash';
       const openDrawer = isCash && posConfig.values.drawerOpenOnCash;
 
       auditLogService.log('order:paid', {
         details: `Order ${orderId} paid via ${paymentMethod}`,
-        metadata: { orderId, paymentMethod, transactionId },
+        metadata: { orderId, paymentMethod, transactionId, ...(tipAmount > 0 ? { tipAmount } : {}) },
       });
 
       return { success: true, orderId, openDrawer };
@@ -273,6 +307,7 @@ export class CheckoutService implements CheckoutServiceInterface {
 
   async cancelOrder(orderId: string): Promise<void> {
     await this.orderRepo.updateStatus(orderId, 'cancelled');
+    await giftCardService.reverseOrder(orderId);
     auditLogService.log('order:cancelled', {
       details: `Order ${orderId} cancelled`,
       metadata: { orderId },
@@ -299,6 +334,46 @@ export class CheckoutService implements CheckoutServiceInterface {
 
   // ── Mapping ─────────────────────────────────────────────────────────
 
+  /** One fixed-amount entry per automatic promotion, line adjustment and basket adjustment (codes keep their code) */
+  private buildDraftDiscounts(basket: Basket): Discount[] | undefined {
+    const discounts: Discount[] = (basket.appliedPromotions ?? []).map(p => ({
+      amount: p.amount,
+      type: 'fixed_amount',
+      description: p.promotionName,
+    }));
+    const adjustments = [...basket.items.flatMap(item => item.adjustments ?? []), ...(basket.adjustments ?? [])];
+    for (const adjustment of adjustments) {
+      if (adjustment.amount <= 0) continue;
+      discounts.push({
+        code: adjustment.code,
+        amount: adjustment.amount,
+        type: 'fixed_amount',
+        description: adjustment.reason ?? adjustment.label,
+      });
+    }
+    return discounts.length > 0 ? discounts : undefined;
+  }
+
+  private parseItemAdjustments(json: string | null): BasketAdjustment[] {
+    return json ? (JSON.parse(json) as BasketAdjustment[]) : [];
+  }
+
+  /** Sum each basket-level adjustment's per-line shares back into one entry */
+  private regroupBasketAdjustments(lineAdjustments: BasketAdjustment[]): BasketAdjustment[] {
+    const byId = new Map<string, BasketAdjustment>();
+    for (const share of lineAdjustments) {
+      if (!share.allocated) continue;
+      const existing = byId.get(share.id);
+      if (existing) {
+        existing.amount = sumMoney([existing.amount, share.amount]);
+      } else {
+        const { allocated: _allocated, ...adjustment } = share;
+        byId.set(share.id, adjustment);
+      }
+    }
+    return Array.from(byId.values());
+  }
+
   private async mapOrderRowToLocalOrder(row: OrderRow): Promise<LocalOrder> {
     const itemRows = await this.orderItemRepo.findByOrderId(row.id);
     const items: BasketItem[] = itemRows.map(ir => ({
@@ -315,7 +390,13 @@ export class CheckoutService implements CheckoutServiceInterface {
       isEcommerceProduct: ir.is_ecommerce_product === 1,
       originalId: ir.original_id ?? undefined,
       properties: ir.properties ? JSON.parse(ir.properties) : undefined,
+      promotionDiscount: ir.promotion_discount ?? undefined,
+      promotions: ir.promotions ? JSON.parse(ir.promotions) : undefined,
+      // Promotions are already in `promotions`; basket shares are regrouped onto the order below
+      adjustments: this.parseItemAdjustments(ir.adjustments).filter(a => a.source !== 'promotion' && !a.allocated),
+      discountTotal: ir.discount_total ?? undefined,
     }));
+    const adjustments = this.regroupBasketAdjustments(itemRows.flatMap(ir => this.parseItemAdjustments(ir.adjustments)));
 
     return {
       id: row.id,
@@ -327,18 +408,24 @@ export class CheckoutService implements CheckoutServiceInterface {
       total: row.total,
       discountAmount: row.discount_amount ?? undefined,
       discountCode: row.discount_code ?? undefined,
+      adjustments: adjustments.length > 0 ? adjustments : undefined,
       cashierId: row.cashier_id ?? undefined,
       cashierName: row.cashier_name ?? undefined,
       customerEmail: row.customer_email ?? undefined,
       customerName: row.customer_name ?? undefined,
+      receiptEmail: row.receipt_email ?? undefined,
+      receiptPhone: row.receipt_phone ?? undefined,
       note: row.note ?? undefined,
       paymentMethod: row.payment_method ?? undefined,
       paymentTransactionId: row.payment_transaction_id ?? undefined,
       payments: row.payments_json ? (JSON.parse(row.payments_json) as PaymentLine[]) : undefined,
+      tipAmount: row.tip_amount || undefined,
       registerId: row.register_id ?? undefined,
       status: row.status as LocalOrderStatus,
       syncStatus: row.sync_status as 'pending' | 'synced' | 'failed',
       syncError: row.sync_error ?? undefined,
+      syncAttemptedAt: row.sync_attempted_at ? new Date(row.sync_attempted_at) : undefined,
+      duplicatePlatformOrderIds: row.duplicate_platform_order_ids ? (JSON.parse(row.duplicate_platform_order_ids) as string[]) : undefined,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at),
       paidAt: row.paid_at ? new Date(row.paid_at) : undefined,
@@ -349,17 +436,59 @@ export class CheckoutService implements CheckoutServiceInterface {
   // ── Reorder Point Integration ──────────────────────────────────────────
 
   /**
-   * Check reorder points for items sold in an order.
-   * Called after successful payment completion.
+   * Activate / reload the gift cards sold on a paid order.
+   * Failures are logged loudly but never undo the recorded payment.
    */
-  private async checkReorderPointsAfterSale(orderId: string): Promise<void> {
+  private async fulfilGiftCards(orderId: string, cashierId?: string, customerEmail?: string): Promise<void> {
     try {
       const orderItems = await this.orderItemRepo.findByOrderId(orderId);
+      const lines = orderItems
+        .filter(item => item.product_id === GIFT_CARD_PRODUCT_ID)
+        .map(item => ({
+          productId: item.product_id,
+          properties: item.properties ? (JSON.parse(item.properties) as Record<string, string>) : undefined,
+          price: item.price,
+          quantity: item.quantity,
+        }));
+      if (lines.length === 0) return;
+
+      await giftCardService.fulfilOrder(orderId, lines, cashierId, customerEmail);
+    } catch (err) {
+      this.logger.error(
+        { message: `Failed to activate gift cards for order ${orderId} — activate them manually` },
+        err instanceof Error ? err : new Error(String(err))
+      );
+    }
+  }
+
+  /**
+   * Decrement stock for items sold in an order at this register's location,
+   * then check their reorder points against what is left there.
+   * Online platforms decrement their own stock when the order reaches them,
+   * so only local-only orders are decremented here.
+   * Called after successful payment completion.
+   */
+  private async updateStockAfterSale(orderId: string, platform?: ECommercePlatform): Promise<void> {
+    try {
+      const orderItems = (await this.orderItemRepo.findByOrderId(orderId)).filter(item => item.product_id !== GIFT_CARD_PRODUCT_ID);
       const inventoryService = InventoryServiceFactory.getInstance().getService();
+      const locationId = await locationService.getRegisterLocationId();
+
+      if (!platform || !isOnlinePlatform(platform)) {
+        await inventoryService.updateInventory(
+          orderItems.map(item => ({
+            productId: item.product_id,
+            variantId: item.variant_id ?? undefined,
+            quantity: -item.quantity,
+            adjustment: true,
+            locationId,
+          }))
+        );
+      }
 
       for (const item of orderItems) {
-        // Get current inventory after the sale
-        const inventoryResult = await inventoryService.getInventory([item.product_id]);
+        // Get current inventory at this location after the sale
+        const inventoryResult = await inventoryService.getInventory([item.product_id], locationId);
         if (inventoryResult && inventoryResult.items.length > 0) {
           const inventoryItem = inventoryResult.items.find(
             inv => inv.productId === item.product_id && (inv.variantId || null) === (item.variant_id || null)
@@ -371,10 +500,7 @@ export class CheckoutService implements CheckoutServiceInterface {
         }
       }
     } catch (err) {
-      this.logger.warn(
-        { message: `Failed to check reorder points for order ${orderId}` },
-        err instanceof Error ? err : new Error(String(err))
-      );
+      this.logger.warn({ message: `Failed to update stock for order ${orderId}` }, err instanceof Error ? err : new Error(String(err)));
     }
   }
 }
@@ -88,9 +88,10 @@ export abstract class BaseApiClient<TConfig extends BaseApiClientConfig = BaseAp
 
   /**
    * Authenticated POST request.
+   * `headers` are sent on this request only, e.g. an `Idempotency-Key`.
    */
-  public async post<T = any>(path: string, body?: unknown): Promise<T> {
-    return this.request<T>('POST', this.buildApiUrl(path), body);
+  public async post<T = any>(path: string, body?: unknown, headers?: Record<string, string>): Promise<T> {
+    return this.request<T>('POST', this.buildApiUrl(path), body, headers);
   }
 
   /**
@@ -116,13 +117,18 @@ export abstract class BaseApiClient<TConfig extends BaseApiClientConfig = BaseAp
 
   // ── Internals ──────────────────────────────────────────────────────
 
-  protected async request<T>(method: string, url: string, body?: unknown): Promise<T> {
-    const { data } = await this.requestWithHeaders<T>(method, url, body);
+  protected async request<T>(method: string, url: string, body?: unknown, extraHeaders?: Record<string, string>): Promise<T> {
+    const { data } = await this.requestWithHeaders<T>(method, url, body, extraHeaders);
     return data;
   }
 
-  protected async requestWithHeaders<T>(method: string, url: string, body?: unknown): Promise<{ data: T; headers: Headers }> {
-    const headers = this.buildHeaders();
+  protected async requestWithHeaders<T>(
+    method: string,
+    url: string,
+    body?: unknown,
+    extraHeaders?: Record<string, string>
+  ): Promise<{ data: T; headers: Headers }> {
+    const headers = { ...this.buildHeaders(), ...extraHeaders };
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), 30_000);
 
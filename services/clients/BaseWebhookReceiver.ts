@@ -0,0 +1,204 @@
+import { LoggerFactory } from '../logger/LoggerFactory';
+import { ECommercePlatform } from '../../utils/platforms';
+import { ProductServiceFactory } from '../product/ProductServiceFactory';
+import { syncEventBus } from '../instoreapi/sync/SyncEventBus';
+import { webhookDeliveryRepository } from '../../repositories/WebhookDeliveryRepository';
+
+/** How long accepted deliveries are remembered — BigCommerce, the slowest, stops retrying after 48 hours */
+const DELIVERY_RETENTION_MS = 3 * 24 * 60 * 60 * 1000;
+
+/** Remembered deliveries are pruned at most this often */
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface WebhookResponse {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+/** A webhook request whose signature has been verified */
+export interface WebhookDelivery<TPayload = unknown> {
+  /** Platform delivery ID, the same across retries of one event */
+  deliveryId: string;
+  /** Platform topic or scope, e.g. `products/update`, `product.updated`, `store/product/updated` */
+  topic: string;
+  payload: TPayload;
+}
+
+/** A local change a webhook maps to */
+export type WebhookChange =
+  | { entity: 'product'; action: 'updated' | 'deleted'; productId: string }
+  | { entity: 'inventory'; productId?: string }
+  | { entity: 'category'; action: 'created' | 'updated' | 'deleted'; categoryId: string };
+
+/**
+ * Shared flow for inbound platform webhooks (spec: docs/specs/sync/webhooks.md).
+ *
+ * Subclasses verify the platform's signature, read the delivery ID and topic,
+ * and map the topic to local changes. This class deduplicates deliveries,
+ * answers the platform immediately and applies the changes in the background:
+ * changed products are re-read from the platform and broadcast on the
+ * SyncEventBus, which re-indexes them and refreshes every register.
+ * `TPayload` is the shape of the platform's parsed body.
+ */
+export abstract class BaseWebhookReceiver<TPayload = unknown> {
+  protected logger;
+  private secret: string | null = null;
+  private lastPrunedAt = 0;
+
+  protected constructor(
+    protected readonly platform: ECommercePlatform,
+    loggerName: string
+  ) {
+    this.logger = LoggerFactory.getInstance().createLogger(loggerName);
+  }
+
+  /**
+   * Set the shared secret the platform signs deliveries with.
+   * Without one every delivery is refused.
+   */
+  setSecret(secret: string | undefined): void {
+    this.secret = secret || null;
+  }
+
+  isConfigured(): boolean {
+    return this.secret !== null;
+  }
+
+  /**
+   * Handle an incoming webhook HTTP request.
+   *
+   * @param rawBody  The raw request body as a string (for signature verification)
+   * @param headers  The HTTP request headers
+   * @returns An object with status code and response body to send back
+   */
+  async handleRequest(rawBody: string, headers: Record<string, string | undefined>): Promise<WebhookResponse> {
+    const normalized: Record<string, string | undefined> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      normalized[name.toLowerCase()] = value;
+    }
+
+    if (this.isPing(rawBody, normalized)) {
+      return { status: 200, body: { success: true, received: 'ping' } };
+    }
+
+    if (!this.secret) {
+      this.logger.error({ message: 'Webhook receiver has no secret configured' });
+      return { status: 500, body: { success: false, error: 'Webhook receiver not configured' } };
+    }
+
+    if (!this.verifySignature(rawBody, normalized, this.secret)) {
+      this.logger.warn({ message: 'Webhook signature verification failed' });
+      return { status: 401, body: { success: false, error: 'Invalid signature' } };
+    }
+
+    let delivery: WebhookDelivery<TPayload>;
+    try {
+      delivery = this.parseDelivery(rawBody, normalized);
+    } catch (error) {
+      this.logger.error({ message: 'Failed to parse webhook body' }, error instanceof Error ? error : new Error(String(error)));
+      return { status: 400, body: { success: false, error: 'Invalid JSON body' } };
+    }
+
+    if (!delivery.topic) {
+      return { status: 400, body: { success: false, error: 'Missing event type' } };
+    }
+    if (!delivery.deliveryId) {
+      return { status: 400, body: { success: false, error: 'Missing delivery ID' } };
+    }
+
+    // A retry of a delivery already accepted — acknowledge it so the platform stops retrying
+    const now = Date.now();
+    const isNew = await webhookDeliveryRepository.insertIfNew(this.platform, `${delivery.topic}:${delivery.deliveryId}`, now);
+    if (!isNew) {
+      this.logger.info({ message: `Ignoring duplicate webhook delivery ${delivery.deliveryId} (${delivery.topic})` });
+      return { status: 200, body: { success: true, duplicate: true, deliveryId: delivery.deliveryId } };
+    }
+    this.pruneDeliveries(now);
+
+    // Process asynchronously — respond immediately to avoid the platform's timeout
+    this.processDelivery(delivery).catch(error => {
+      this.logger.error(
+        { message: `Error processing webhook ${delivery.topic} (${delivery.deliveryId})` },
+        error instanceof Error ? error : new Error(String(error))
+      );
+    });
+
+    return { status: 200, body: { success: true, received: delivery.topic, deliveryId: delivery.deliveryId } };
+  }
+
+  /** Whether the request is the platform's unsigned test delivery, acknowledged without processing */
+  protected isPing(_rawBody: string, _headers: Record<string, string | undefined>): boolean {
+    return false;
+  }
+
+  /** Check the platform's signature over the raw body */
+  protected abstract verifySignature(rawBody: string, headers: Record<string, string | undefined>, secret: string): boolean;
+
+  /** Read the delivery ID, topic and payload; throws on a malformed body */
+  protected abstract parseDelivery(rawBody: string, headers: Record<string, string | undefined>): WebhookDelivery<TPayload>;
+
+  /** Map a delivery to local changes; topics the POS does not follow map to none */
+  protected abstract toChanges(delivery: WebhookDelivery<TPayload>): Promise<WebhookChange[]>;
+
+  private pruneDeliveries(now: number): void {
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) return;
+    this.lastPrunedAt = now;
+    webhookDeliveryRepository.deleteReceivedBefore(now - DELIVERY_RETENTION_MS).catch(error => {
+      this.logger.warn({ message: `Failed to prune webhook deliveries: ${error instanceof Error ? error.message : String(error)}` });
+    });
+  }
+
+  private async processDelivery(delivery: WebhookDelivery<TPayload>): Promise<void> {
+    const changes = await this.toChanges(delivery);
+    if (changes.length === 0) {
+      this.logger.debug({ message: `No local changes for webhook ${delivery.topic}` });
+      return;
+    }
+    await this.applyChanges(changes);
+  }
+
+  /**
+   * Apply changes locally. Products are re-read from the platform rather than taken
+   * from the payload: deliveries can arrive out of order or be retried hours later,
+   * and some platforms only send the ID.
+   */
+  private async applyChanges(changes: WebhookChange[]): Promise<void> {
+    const refreshIds = [
+      ...new Set(
+        changes.flatMap(change =>
+          (change.entity === 'product' && change.action === 'updated') || (change.entity === 'inventory' && change.productId)
+            ? [change.productId!]
+            : []
+        )
+      ),
+    ];
+
+    if (refreshIds.length > 0) {
+      const productService = ProductServiceFactory.getInstance().getService(this.platform);
+      const { products } = await productService.getProducts({ ids: refreshIds, limit: refreshIds.length });
+      for (const product of products) {
+        syncEventBus.emit('product:updated', { action: 'updated', product, platform: this.platform, source: 'webhook' });
+      }
+      const missing = refreshIds.filter(id => !products.some(p => p.id === id));
+      if (missing.length > 0) {
+        this.logger.warn({ message: `Webhook products not returned by ${this.platform}: ${missing.join(', ')}` });
+      }
+    }
+
+    for (const change of changes) {
+      if (change.entity === 'product' && change.action === 'deleted') {
+        syncEventBus.emit('product:updated', { action: 'deleted', id: change.productId, platform: this.platform, source: 'webhook' });
+      } else if (change.entity === 'inventory') {
+        syncEventBus.emit('inventory:updated', { productId: change.productId, platform: this.platform, source: 'webhook' });
+      } else if (change.entity === 'category') {
+        syncEventBus.emit('config:updated', {
+          entity: 'category',
+          action: change.action,
+          id: change.categoryId,
+          platform: this.platform,
+          source: 'webhook',
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,127 @@
+const mockGetProducts = jest.fn();
+const mockEmit = jest.fn();
+
+jest.mock('../../logger/LoggerFactory', () => ({
+  LoggerFactory: {
+    getInstance: () => ({
+      createLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }),
+    }),
+  },
+}));
+
+jest.mock('../../product/ProductServiceFactory', () => ({
+  ProductServiceFactory: { getInstance: () => ({ getService: () => ({ getProducts: mockGetProducts }) }) },
+}));
+
+jest.mock('../../instoreapi/sync/SyncEventBus', () => ({
+  syncEventBus: { emit: mockEmit },
+}));
+
+// Accepted deliveries as the webhook_deliveries table would keep them, across restarts
+const mockAcceptedDeliveries = new Set<string>();
+
+jest.mock('../../../repositories/WebhookDeliveryRepository', () => ({
+  webhookDeliveryRepository: {
+    insertIfNew: jest.fn(async (platform: string, deliveryKey: string) => {
+      const key = `${platform}|${deliveryKey}`;
+      if (mockAcceptedDeliveries.has(key)) return false;
+      mockAcceptedDeliveries.add(key);
+      return true;
+    }),
+    deleteReceivedBefore: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { BigCommerceWebhookReceiver } from './BigCommerceWebhookReceiver';
+
+const SECRET = 'bc-webhook-token';
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, '__fixtures__', name), 'utf8');
+}
+
+const signed = { 'X-Webhook-Source': 'RetailPOS-BigCommerce', 'X-Webhook-Token': SECRET };
+
+const flushProcessing = () => new Promise(resolve => setImmediate(resolve));
+
+// ── Tests ─────────────────────────────────────────────────────────────
+
+describe('BigCommerceWebhookReceiver', () => {
+  const receiver = BigCommerceWebhookReceiver.getInstance();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    receiver.setSecret(SECRET);
+    mockGetProducts.mockImplementation(async ({ ids }: { ids: string[] }) => ({
+      products: ids.map(id => ({ id, title: 'Enamel Mug', variants: [] })),
+      pagination: { currentPage: 1, totalPages: 1, totalItems: ids.length },
+    }));
+  });
+
+  it('re-reads the product named in an ID-only payload', async () => {
+    const result = await receiver.handleRequest(fixture('product-updated.json'), signed);
+    await flushProcessing();
+
+    expect(result.body).toEqual({
+      success: true,
+      received: 'store/product/updated',
+      deliveryId: 'dd70c0976e06b67aaf671e73f49dcb79230ebf9d',
+    });
+    expect(mockGetProducts).toHaveBeenCalledWith({ ids: ['113'], limit: 1 });
+    expect(mockEmit).toHaveBeenCalledWith('product:updated', {
+      action: 'updated',
+      product: expect.objectContaining({ id: '113' }),
+      platform: 'bigcommerce',
+      source: 'webhook',
+    });
+  });
+
+  it('maps SKU stock changes to the parent product', async () => {
+    await receiver.handleRequest(fixture('sku-inventory-updated.json'), signed);
+    await flushProcessing();
+
+    expect(mockEmit).toHaveBeenCalledWith('inventory:updated', { productId: '113', platform: 'bigcommerce', source: 'webhook' });
+  });
+
+  it('maps a deleted category to a category change', async () => {
+    await receiver.handleRequest(fixture('category-deleted.json'), signed);
+    await flushProcessing();
+
+    expect(mockEmit).toHaveBeenCalledWith('config:updated', {
+      entity: 'category',
+      action: 'deleted',
+      id: '42',
+      platform: 'bigcommerce',
+      source: 'webhook',
+    });
+  });
+
+  it('rejects deliveries without the registered token', async () => {
+    const body = fixture('product-updated.json');
+
+    expect((await receiver.handleRequest(body, { 'X-Webhook-Source': 'RetailPOS-BigCommerce' })).status).toBe(401);
+    expect((await receiver.handleRequest(body, { 'X-Webhook-Token': 'guess' })).status).toBe(401);
+  });
+
+  it('deduplicates retries by payload hash', async () => {
+    const body = fixture('product-updated.json').replace(
+      'dd70c0976e06b67aaf671e73f49dcb79230ebf9d',
+      'e1f2a3b4c5d6e7f8091a2b3c4d5e6f708192a3b4'
+    );
+
+    await receiver.handleRequest(body, signed);
+    const retry = await receiver.handleRequest(body, signed);
+    await flushProcessing();
+
+    expect(retry.body.duplicate).toBe(true);
+    expect(mockGetProducts).toHaveBeenCalledTimes(1);
+  });
+
+  it('answers 400 for a body that is not JSON', async () => {
+    expect((await receiver.handleRequest('not json', signed)).status).toBe(400);
+  });
+});
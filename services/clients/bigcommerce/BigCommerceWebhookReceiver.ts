@@ -0,0 +1,87 @@
+import { BaseWebhookReceiver, WebhookChange, WebhookDelivery } from '../BaseWebhookReceiver';
+import { ECommercePlatform } from '../../../utils/platforms';
+import { timingSafeEqual } from '../../instoreapi/auth/requestSigning';
+
+/** Header BigCommerceSyncService registers on every hook, carrying the webhook secret */
+export const BIGCOMMERCE_WEBHOOK_TOKEN_HEADER = 'X-Webhook-Token';
+
+/** A BigCommerce webhook body; `data` only carries IDs */
+interface BigCommerceWebhookPayload {
+  scope?: string;
+  hash?: string;
+  created_at?: number;
+  data?: {
+    id?: number;
+    /** Set on `store/sku/inventory/*` */
+    inventory?: { product_id?: number };
+  };
+}
+
+const CATEGORY_ACTIONS: Record<string, 'created' | 'updated' | 'deleted'> = {
+  'store/category/created': 'created',
+  'store/category/updated': 'updated',
+  'store/category/deleted': 'deleted',
+};
+
+/**
+ * Receiver for BigCommerce webhooks, mounted at `POST /api/webhooks/bigcommerce`.
+ *
+ * BigCommerce does not sign deliveries. Instead each hook is registered with a
+ * custom `X-Webhook-Token` header holding the webhook secret, which BigCommerce
+ * sends back on every delivery. Payloads only carry IDs; the delivery is
+ * identified by the payload `hash`, which is the same on retries.
+ */
+export class BigCommerceWebhookReceiver extends BaseWebhookReceiver<BigCommerceWebhookPayload> {
+  private static instance: BigCommerceWebhookReceiver;
+
+  private constructor() {
+    super(ECommercePlatform.BIGCOMMERCE, 'BigCommerceWebhookReceiver');
+  }
+
+  static getInstance(): BigCommerceWebhookReceiver {
+    if (!BigCommerceWebhookReceiver.instance) {
+      BigCommerceWebhookReceiver.instance = new BigCommerceWebhookReceiver();
+    }
+    return BigCommerceWebhookReceiver.instance;
+  }
+
+  protected verifySignature(_rawBody: string, headers: Record<string, string | undefined>, secret: string): boolean {
+    const token = headers[BIGCOMMERCE_WEBHOOK_TOKEN_HEADER.toLowerCase()];
+    return !!token && timingSafeEqual(secret, token);
+  }
+
+  protected parseDelivery(rawBody: string): WebhookDelivery<BigCommerceWebhookPayload> {
+    const payload = JSON.parse(rawBody) as BigCommerceWebhookPayload;
+    const fallbackId = payload.created_at && payload.data?.id ? `${payload.created_at}:${payload.data.id}` : '';
+    return {
+      deliveryId: payload.hash || fallbackId,
+      topic: payload.scope || '',
+      payload,
+    };
+  }
+
+  protected async toChanges({ topic, payload }: WebhookDelivery<BigCommerceWebhookPayload>): Promise<WebhookChange[]> {
+    const data = payload.data ?? {};
+
+    switch (topic) {
+      case 'store/product/created':
+      case 'store/product/updated':
+        return [{ entity: 'product', action: 'updated', productId: String(data.id) }];
+      case 'store/product/deleted':
+        return [{ entity: 'product', action: 'deleted', productId: String(data.id) }];
+      case 'store/product/inventory/updated':
+      case 'store/product/inventory/order/updated':
+        return [{ entity: 'inventory', productId: String(data.id) }];
+      case 'store/sku/inventory/updated':
+      case 'store/sku/inventory/order/updated':
+        // SKU payloads name the product in the inventory block
+        return [{ entity: 'inventory', productId: data.inventory?.product_id ? String(data.inventory.product_id) : undefined }];
+      case 'store/category/created':
+      case 'store/category/updated':
+      case 'store/category/deleted':
+        return [{ entity: 'category', action: CATEGORY_ACTIONS[topic], categoryId: String(data.id) }];
+      default:
+        return [];
+    }
+  }
+}
@@ -1,4 +1,6 @@
 import { instoreApiConfig } from '../../instoreapi/InstoreApiConfig';
+import { instoreApiRequestHeaders } from '../../instoreapi/auth/instoreApiRequestHeaders';
+import { AuthenticatedRegister, IssuedCredential } from '../../instoreapi/auth/RegisterAuthService';
 import { LoggerFactory } from '../../logger/LoggerFactory';
 import { OrderRow, CreateOrderInput } from '../../../repositories/OrderRepository';
 import { OrderItemRow, CreateOrderItemInput } from '../../../repositories/OrderItemRepository';
@@ -6,11 +8,38 @@ import { Product } from '../../../repositories/ProductRepository';
 import { TaxProfileRow } from '../../../repositories/TaxProfileRepository';
 import { ReturnRow, CreateReturnInput } from '../../../repositories/ReturnRepository';
 import { Category } from '../../../services/category/CategoryServiceInterface';
+import { HeldBasket, HoldBasketInput } from '../../basket/HeldBasketServiceInterface';
+import { ClusterOrderBatch, ClusterSnapshot } from '../../../repositories/ClusterSnapshotRepository';
+import type { ClusterHeartbeatBody, ClusterHeartbeatResponse } from '../../instoreapi/failover/FailoverService';
+import type { ClusterStatus } from '../../instoreapi/failover/LeaderElection';
+import type { OrderReconciliationPlan } from '../../instoreapi/failover/orderReconciliation';
+import type { ShiftData } from '../../printer/DailyReportService';
+import type { ShiftReport } from '../../cashup/shiftReport';
+import type { EndOfDayReport } from '../../cashup/endOfDay';
+import type { CashCount } from '../../cashup/denominations';
+import type { CashMovementRow, CreateCashMovementInput } from '../../../repositories/CashMovementRepository';
+import type { TipShareRow } from '../../../repositories/TipRepository';
+import type { TipAllocation } from '../../tips/tips';
+import type { TipAdjustment } from '../../tips/TipService';
 
 export interface InstoreApiHealthResponse {
   ok: boolean;
   registerId?: string;
   registerName?: string;
+  apiVersion?: string;
+  storeId?: string;
+}
+
+export interface InstoreApiWhoAmIResponse {
+  register: AuthenticatedRegister;
+  serverRegisterName: string;
+}
+
+/** Opened on the calling register, which the server takes from the request signature */
+export interface OpenShiftRequest {
+  cashierId: string;
+  cashierName: string;
+  openingCash: number;
 }
 
 export interface InstoreApiSyncEventsResponse<TEvent> {
@@ -21,6 +50,9 @@ export interface InstoreApiSyncEventsResponse<TEvent> {
  * HTTP client for connecting to a Local API Server on the LAN.
  * Used by registers in "client" mode to read/write shared data
  * from the server register instead of local SQLite.
+ *
+ * Requests are signed with the credential this register received when it
+ * paired with the server (see `pair`).
  */
 export class InstoreApiClient {
   private static instance: InstoreApiClient;
@@ -40,12 +72,16 @@ export class InstoreApiClient {
     return this.connected;
   }
 
-  /** Test the connection to the server */
+  /** Test the connection to the server, including that this register's credential is accepted */
   async testConnection(): Promise<{ ok: boolean; registerName?: string; error?: string }> {
+    if (!instoreApiConfig.isPaired) {
+      this.connected = false;
+      return { ok: false, error: 'This register is not paired with the server' };
+    }
     try {
-      const result = await this.get<InstoreApiHealthResponse>('/api/health');
-      this.connected = result.ok === true;
-      return { ok: true, registerName: result.registerName };
+      const result = await this.get<InstoreApiWhoAmIResponse>('/api/registers/me');
+      this.connected = true;
+      return { ok: true, registerName: result.serverRegisterName };
     } catch (error) {
       this.connected = false;
       return {
@@ -55,9 +91,28 @@ export class InstoreApiClient {
     }
   }
 
-  async probeHealth(baseUrl: string, secret?: string, timeoutMs: number = 2000): Promise<InstoreApiHealthResponse | null> {
+  /**
+   * Exchange the one-time code shown on the server register for this
+   * register's own credential, and store it.
+   */
+  async pair(code: string): Promise<IssuedCredential> {
+    const { registerId, registerName } = instoreApiConfig.current;
+    const result = await this.post<{ credential: IssuedCredential }>('/api/registers/pair', { code, registerId, registerName });
+    await instoreApiConfig.save({ credential: result.credential });
+    this.logger.info(`Paired with server as ${result.credential.role}`);
+    return result.credential;
+  }
+
+  /** Forget this register's credential; the server should revoke it too */
+  async unpair(): Promise<void> {
+    await instoreApiConfig.save({ credential: null });
+    this.connected = false;
+  }
+
+  /** Unauthenticated health check, used by discovery before pairing */
+  async probeHealth(baseUrl: string, timeoutMs: number = 2000): Promise<InstoreApiHealthResponse | null> {
     try {
-      return await this.getFromBaseUrl<InstoreApiHealthResponse>(baseUrl, '/api/health', undefined, secret, timeoutMs);
+      return await this.getFromBaseUrl<InstoreApiHealthResponse>(baseUrl, '/api/health', undefined, timeoutMs);
     } catch {
       return null;
     }
@@ -156,11 +211,30 @@ export class InstoreApiClient {
     return result.order;
   }
 
-  async updateOrderPayment(orderId: string, paymentMethod: string, transactionId?: string): Promise<OrderRow> {
-    const result = await this.put<{ order: OrderRow }>(`/api/orders/${orderId}/payment`, { paymentMethod, transactionId });
+  /** Mark an order paid; split-tender and tipped orders also send their payment lines and tip */
+  async updateOrderPayment(
+    orderId: string,
+    paymentMethod: string,
+    transactionId?: string,
+    lines?: { paymentsJson: string; tipAmount: number }
+  ): Promise<OrderRow> {
+    const result = await this.put<{ order: OrderRow }>(`/api/orders/${orderId}/payment`, { paymentMethod, transactionId, ...lines });
     return result.order;
   }
 
+  async updateOrderReceiptContact(orderId: string, email: string | null, phone: string | null): Promise<void> {
+    await this.put(`/api/orders/${orderId}/receipt-contact`, { email, phone });
+  }
+
+  async recordOrderTips(orderId: string, allocation: TipAllocation): Promise<TipShareRow[]> {
+    const result = await this.post<{ tips: TipShareRow[] }>(`/api/orders/${orderId}/tips`, { allocation });
+    return result.tips;
+  }
+
+  async storeTipAdjustment(adjustment: TipAdjustment): Promise<void> {
+    await this.put<{ ok: boolean }>(`/api/orders/${adjustment.orderId}/tip`, { adjustment });
+  }
+
   // ── Products (write) ──────────────────────────────────────────────
 
   async createProduct(data: Omit<Product, 'id'>): Promise<Product> {
@@ -184,18 +258,56 @@ export class InstoreApiClient {
     return result.returnId;
   }
 
+  // ── Held baskets ──────────────────────────────────────────────────
+
+  async getHeldBaskets(): Promise<HeldBasket[]> {
+    const result = await this.get<{ heldBaskets: HeldBasket[] }>('/api/baskets/held');
+    return result.heldBaskets;
+  }
+
+  async holdBasket(basket: HoldBasketInput): Promise<HeldBasket> {
+    const result = await this.post<{ heldBasket: HeldBasket }>('/api/baskets/held', { basket });
+    return result.heldBasket;
+  }
+
+  async recallHeldBasket(id: string, recalledBy?: string): Promise<HeldBasket | null> {
+    try {
+      const result = await this.post<{ heldBasket: HeldBasket }>(`/api/baskets/held/${id}/recall`, { recalledBy });
+      return result.heldBasket;
+    } catch {
+      // 404 = recalled on another register, discarded or expired
+      return null;
+    }
+  }
+
+  async discardHeldBasket(id: string, discardedBy?: string): Promise<void> {
+    await this.post(`/api/baskets/held/${id}/discard`, { discardedBy });
+  }
+
   // ── Snapshot ────────────────────────────────────────────────────────
 
-  async getSnapshot(): Promise<{
-    snapshot_version: number;
-    orders: unknown[];
-    products: unknown[];
-    categories: unknown[];
-    tax_profiles: unknown[];
-  }> {
+  async getSnapshot(): Promise<ClusterSnapshot> {
     return this.get('/api/snapshot');
   }
 
+  // ── Cluster (failover) ────────────────────────────────────────────
+  // Sent to a specific register rather than the configured server
+
+  async clusterHeartbeat(baseUrl: string, body: ClusterHeartbeatBody, timeoutMs: number): Promise<ClusterHeartbeatResponse> {
+    return this.postToBaseUrl<ClusterHeartbeatResponse>(baseUrl, '/api/cluster/heartbeat', body, timeoutMs);
+  }
+
+  async getClusterStatus(baseUrl: string, timeoutMs?: number): Promise<ClusterStatus> {
+    const result = await this.getFromBaseUrl<{ status: ClusterStatus }>(baseUrl, '/api/cluster/status', undefined, timeoutMs);
+    return result.status;
+  }
+
+  /** Hand orders written during a split over to the new server register */
+  async handOverOrders(baseUrl: string, batch: ClusterOrderBatch): Promise<OrderReconciliationPlan> {
+    const result = await this.postToBaseUrl<{ plan: OrderReconciliationPlan }>(baseUrl, '/api/cluster/orders', batch);
+    return result.plan;
+  }
+
   // ── Users ─────────────────────────────────────────────────────────
 
   async getUsers(): Promise<Array<{ id: string; name: string; role: string; is_active: boolean }>> {
@@ -213,69 +325,79 @@ export class InstoreApiClient {
     }
   }
 
-  // ── Shifts ────────────────────────────────────────────────────────
+  // ── Shifts and drawers ────────────────────────────────────────────
 
-  async getShifts(): Promise<unknown[]> {
-    const result = await this.get<{ shifts: unknown[] }>('/api/shifts');
+  /** Open shifts, or recently ended ones with `closed` */
+  async getShifts(query: { registerId?: string; closed?: boolean; limit?: number } = {}): Promise<ShiftData[]> {
+    const params: Record<string, string> = {};
+    if (query.registerId !== undefined) params.registerId = query.registerId;
+    if (query.closed) params.closed = 'true';
+    if (query.limit !== undefined) params.limit = String(query.limit);
+    const result = await this.get<{ shifts: ShiftData[] }>('/api/shifts', params);
     return result.shifts;
   }
 
-  async openShift(cashierId: string, openingFloat?: number): Promise<unknown> {
-    const result = await this.post<{ shift: unknown }>('/api/shifts', {
-      cashier_id: cashierId,
-      opening_float: openingFloat ?? 0,
-    });
+  async openShift(input: OpenShiftRequest): Promise<ShiftData> {
+    const result = await this.post<{ shift: ShiftData }>('/api/shifts', input);
     return result.shift;
   }
 
-  async closeShift(shiftId: string, closingFloat?: number, notes?: string): Promise<unknown> {
-    const result = await this.put<{ shift: unknown }>(`/api/shifts/${shiftId}`, {
-      closing_float: closingFloat ?? 0,
-      notes: notes ?? '',
-    });
+  async handOverShift(shiftId: string): Promise<ShiftData> {
+    const result = await this.post<{ shift: ShiftData }>(`/api/shifts/${shiftId}/hand-over`, {});
     return result.shift;
   }
 
-  // ── Generic HTTP helpers ──────────────────────────────────────────
+  /** Close the shift's drawer; the server writes the Z-report */
+  async closeShift(shiftId: string, count: CashCount): Promise<ShiftData> {
+    const result = await this.post<{ shift: ShiftData }>(`/api/shifts/${shiftId}/close`, { count });
+    return result.shift;
+  }
 
-  private get headers(): Record<string, string> {
-    const h: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'X-Register-Id': instoreApiConfig.current.registerId,
-    };
-    const secret = instoreApiConfig.current.sharedSecret;
-    if (secret) {
-      h['x-shared-secret'] = secret;
-    }
-    return h;
+  async getXReport(shiftId: string, count?: CashCount): Promise<ShiftReport> {
+    const result = await this.post<{ report: ShiftReport }>(`/api/shifts/${shiftId}/x-report`, { count });
+    return result.report;
   }
 
-  private get baseUrl(): string {
-    return instoreApiConfig.baseUrl;
+  async getZReports(limit: number): Promise<ShiftReport[]> {
+    const result = await this.get<{ zReports: ShiftReport[] }>('/api/z-reports', { limit: String(limit) });
+    return result.zReports;
   }
 
-  private buildHeaders(secretOverride?: string): Record<string, string> {
-    const h: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'X-Register-Id': instoreApiConfig.current.registerId,
-    };
-    const secret = secretOverride ?? instoreApiConfig.current.sharedSecret;
-    if (secret) {
-      h['x-shared-secret'] = secret;
+  async getZReport(id: string): Promise<ShiftReport | null> {
+    try {
+      const result = await this.get<{ zReport: ShiftReport }>(`/api/z-reports/${id}`);
+      return result.zReport;
+    } catch {
+      return null;
     }
-    return h;
+  }
+
+  async getEndOfDayReport(date: string): Promise<EndOfDayReport> {
+    const result = await this.get<{ report: EndOfDayReport }>('/api/end-of-day', { date });
+    return result.report;
+  }
+
+  async recordCashMovement(movement: CreateCashMovementInput): Promise<CashMovementRow> {
+    const result = await this.post<{ movement: CashMovementRow }>('/api/cash-movements', { movement });
+    return result.movement;
+  }
+
+  // ── Generic HTTP helpers ──────────────────────────────────────────
+
+  private get baseUrl(): string {
+    return instoreApiConfig.baseUrl;
   }
 
   private async get<T>(path: string, queryParams?: Record<string, string>): Promise<T> {
-    let url = `${this.baseUrl}${path}`;
+    let target = path;
     if (queryParams) {
       const qs = new URLSearchParams(queryParams).toString();
-      url += `?${qs}`;
+      target += `?${qs}`;
     }
 
-    const response = await fetch(url, {
+    const response = await fetch(`${this.baseUrl}${target}`, {
       method: 'GET',
-      headers: this.headers,
+      headers: instoreApiRequestHeaders('GET', target),
     });
 
     if (!response.ok) {
@@ -286,26 +408,20 @@ export class InstoreApiClient {
     return response.json();
   }
 
-  private async getFromBaseUrl<T>(
-    baseUrl: string,
-    path: string,
-    queryParams?: Record<string, string>,
-    secretOverride?: string,
-    timeoutMs?: number
-  ): Promise<T> {
-    let url = `${baseUrl.replace(/\/$/, '')}${path}`;
+  private async getFromBaseUrl<T>(baseUrl: string, path: string, queryParams?: Record<string, string>, timeoutMs?: number): Promise<T> {
+    let target = path;
     if (queryParams) {
       const qs = new URLSearchParams(queryParams).toString();
-      url += `?${qs}`;
+      target += `?${qs}`;
     }
 
     const controller = timeoutMs ? new AbortController() : undefined;
     const timeout = timeoutMs ? setTimeout(() => controller?.abort(), timeoutMs) : undefined;
 
     try {
-      const response = await fetch(url, {
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}${target}`, {
         method: 'GET',
-        headers: this.buildHeaders(secretOverride),
+        headers: instoreApiRequestHeaders('GET', target),
         signal: controller?.signal,
       });
 
@@ -322,11 +438,38 @@ export class InstoreApiClient {
     }
   }
 
+  private async postToBaseUrl<T>(baseUrl: string, path: string, body: unknown, timeoutMs?: number): Promise<T> {
+    const payload = JSON.stringify(body);
+    const controller = timeoutMs ? new AbortController() : undefined;
+    const timeout = timeoutMs ? setTimeout(() => controller?.abort(), timeoutMs) : undefined;
+
+    try {
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}${path}`, {
+        method: 'POST',
+        headers: instoreApiRequestHeaders('POST', path, payload),
+        body: payload,
+        signal: controller?.signal,
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => ({}));
+        throw new Error(errorBody.error || `POST ${path} failed: ${response.status}`);
+      }
+
+      return response.json();
+    } finally {
+      if (timeout) {
+        clearTimeout(timeout);
+      }
+    }
+  }
+
   private async post<T>(path: string, body: unknown): Promise<T> {
+    const payload = JSON.stringify(body);
     const response = await fetch(`${this.baseUrl}${path}`, {
       method: 'POST',
-      headers: this.headers,
-      body: JSON.stringify(body),
+      headers: instoreApiRequestHeaders('POST', path, payload),
+      body: payload,
     });
 
     if (!response.ok) {
@@ -338,10 +481,11 @@ export class InstoreApiClient {
   }
 
   private async put<T>(path: string, body: unknown): Promise<T> {
+    const payload = JSON.stringify(body);
     const response = await fetch(`${this.baseUrl}${path}`, {
       method: 'PUT',
-      headers: this.headers,
-      body: JSON.stringify(body),
+      headers: instoreApiRequestHeaders('PUT', path, payload),
+      body: payload,
     });
 
     if (!response.ok) {
@@ -355,7 +499,7 @@ export class InstoreApiClient {
   private async delete(path: string): Promise<void> {
     const response = await fetch(`${this.baseUrl}${path}`, {
       method: 'DELETE',
-      headers: this.headers,
+      headers: instoreApiRequestHeaders('DELETE', path),
     });
 
     if (!response.ok) {
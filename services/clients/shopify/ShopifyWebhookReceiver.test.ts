@@ -0,0 +1,195 @@
+const mockGetProducts = jest.fn();
+const mockApiGet = jest.fn();
+const mockFindByCode = jest.fn();
+const mockEmit = jest.fn();
+
+jest.mock('../../logger/LoggerFactory', () => ({
+  LoggerFactory: {
+    getInstance: () => ({
+      createLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }),
+    }),
+  },
+}));
+
+jest.mock('../../product/ProductServiceFactory', () => ({
+  ProductServiceFactory: { getInstance: () => ({ getService: () => ({ getProducts: mockGetProducts }) }) },
+}));
+
+jest.mock('./ShopifyApiClient', () => ({
+  ShopifyApiClient: { getInstance: () => ({ get: mockApiGet }) },
+}));
+
+jest.mock('../../search/ProductSearchIndexService', () => ({
+  productSearchIndexService: { findByCode: mockFindByCode },
+}));
+
+jest.mock('../../instoreapi/sync/SyncEventBus', () => ({
+  syncEventBus: { emit: mockEmit },
+}));
+
+// Accepted deliveries as the webhook_deliveries table would keep them, across restarts
+const mockAcceptedDeliveries = new Set<string>();
+
+jest.mock('../../../repositories/WebhookDeliveryRepository', () => ({
+  webhookDeliveryRepository: {
+    insertIfNew: jest.fn(async (platform: string, deliveryKey: string) => {
+      const key = `${platform}|${deliveryKey}`;
+      if (mockAcceptedDeliveries.has(key)) return false;
+      mockAcceptedDeliveries.add(key);
+      return true;
+    }),
+    deleteReceivedBefore: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+import { createHmac } from 'crypto';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ShopifyWebhookReceiver } from './ShopifyWebhookReceiver';
+
+const SECRET = 'shpss_test_secret';
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, '__fixtures__', name), 'utf8');
+}
+
+function headersFor(body: string, topic: string, eventId: string, secret = SECRET): Record<string, string> {
+  return {
+    'X-Shopify-Topic': topic,
+    'X-Shopify-Hmac-Sha256': createHmac('sha256', secret).update(body).digest('base64'),
+    'X-Shopify-Event-Id': eventId,
+    'X-Shopify-Webhook-Id': `${eventId}-webhook`,
+  };
+}
+
+const flushProcessing = () => new Promise(resolve => setImmediate(resolve));
+
+// ── Tests ─────────────────────────────────────────────────────────────
+
+describe('ShopifyWebhookReceiver', () => {
+  const receiver = ShopifyWebhookReceiver.getInstance();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    receiver.setSecret(SECRET);
+    mockGetProducts.mockImplementation(async ({ ids }: { ids: string[] }) => ({
+      products: ids.map(id => ({ id, title: 'House Blend Coffee Beans', variants: [] })),
+      pagination: { currentPage: 1, totalPages: 1, totalItems: ids.length },
+    }));
+  });
+
+  it('re-reads an updated product and broadcasts it', async () => {
+    const body = fixture('products-update.json');
+
+    const result = await receiver.handleRequest(body, headersFor(body, 'products/update', 'evt-product-1'));
+    await flushProcessing();
+
+    expect(result).toEqual({ status: 200, body: { success: true, received: 'products/update', deliveryId: 'evt-product-1' } });
+    expect(mockGetProducts).toHaveBeenCalledWith({ ids: ['8012345678901'], limit: 1 });
+    expect(mockEmit).toHaveBeenCalledWith('product:updated', {
+      action: 'updated',
+      product: expect.objectContaining({ id: '8012345678901' }),
+      platform: 'shopify',
+      source: 'webhook',
+    });
+  });
+
+  it('rejects a body that does not match the signature', async () => {
+    const body = fixture('products-update.json');
+    const headers = headersFor(body, 'products/update', 'evt-product-2');
+
+    const tampered = await receiver.handleRequest(body.replace('12.50', '0.01'), headers);
+    const wrongSecret = await receiver.handleRequest(body, headersFor(body, 'products/update', 'evt-product-2', 'other'));
+
+    expect(tampered.status).toBe(401);
+    expect(wrongSecret.status).toBe(401);
+    await flushProcessing();
+    expect(mockEmit).not.toHaveBeenCalled();
+  });
+
+  it('refuses deliveries until a secret is configured', async () => {
+    receiver.setSecret(undefined);
+    const body = fixture('products-update.json');
+
+    const result = await receiver.handleRequest(body, headersFor(body, 'products/update', 'evt-product-3'));
+
+    expect(result.status).toBe(500);
+  });
+
+  it('acknowledges a retried event without processing it again', async () => {
+    const body = fixture('products-update.json');
+    const headers = headersFor(body, 'products/update', 'evt-product-4');
+
+    await receiver.handleRequest(body, headers);
+    const retry = await receiver.handleRequest(body, headers);
+    await flushProcessing();
+
+    expect(retry).toEqual({ status: 200, body: { success: true, duplicate: true, deliveryId: 'evt-product-4' } });
+    expect(mockGetProducts).toHaveBeenCalledTimes(1);
+  });
+
+  it('recognises a retry of an event accepted before a restart', async () => {
+    mockAcceptedDeliveries.add('shopify|products/update:evt-product-5');
+    const body = fixture('products-update.json');
+
+    const retry = await receiver.handleRequest(body, headersFor(body, 'products/update', 'evt-product-5'));
+    await flushProcessing();
+
+    expect(retry).toEqual({ status: 200, body: { success: true, duplicate: true, deliveryId: 'evt-product-5' } });
+    expect(mockGetProducts).not.toHaveBeenCalled();
+  });
+
+  it('maps an inventory level to the products carrying the item SKU', async () => {
+    mockApiGet.mockResolvedValue({ inventory_item: { id: 46675362013358, sku: 'COF-HB-250' } });
+    mockFindByCode.mockResolvedValue([
+      { id: '8012345678901', platform: 'shopify' },
+      { id: 'local-1', platform: 'offline' },
+    ]);
+    const body = fixture('inventory-levels-update.json');
+
+    await receiver.handleRequest(body, headersFor(body, 'inventory_levels/update', 'evt-inventory-1'));
+    await flushProcessing();
+
+    expect(mockApiGet).toHaveBeenCalledWith('inventory_items/46675362013358.json');
+    expect(mockGetProducts).toHaveBeenCalledWith({ ids: ['8012345678901'], limit: 1 });
+    expect(mockEmit).toHaveBeenCalledWith('inventory:updated', { productId: '8012345678901', platform: 'shopify', source: 'webhook' });
+  });
+
+  it('still refreshes stock when the inventory item has no known SKU', async () => {
+    mockApiGet.mockResolvedValue({ inventory_item: { id: 46675362013358, sku: '' } });
+    const body = fixture('inventory-levels-update.json');
+
+    await receiver.handleRequest(body, headersFor(body, 'inventory_levels/update', 'evt-inventory-2'));
+    await flushProcessing();
+
+    expect(mockGetProducts).not.toHaveBeenCalled();
+    expect(mockEmit).toHaveBeenCalledWith('inventory:updated', { productId: undefined, platform: 'shopify', source: 'webhook' });
+  });
+
+  it('maps a deleted collection to a category change', async () => {
+    const body = fixture('collections-delete.json');
+
+    await receiver.handleRequest(body, headersFor(body, 'collections/delete', 'evt-collection-1'));
+    await flushProcessing();
+
+    expect(mockEmit).toHaveBeenCalledWith('config:updated', {
+      entity: 'category',
+      action: 'deleted',
+      id: '482865238',
+      platform: 'shopify',
+      source: 'webhook',
+    });
+  });
+
+  it('ignores topics the POS does not follow', async () => {
+    const body = JSON.stringify({ id: 820982911946154500, email: 'jon@example.com' });
+
+    const result = await receiver.handleRequest(body, headersFor(body, 'customers/update', 'evt-customer-1'));
+    await flushProcessing();
+
+    expect(result.status).toBe(200);
+    expect(mockEmit).not.toHaveBeenCalled();
+  });
+});
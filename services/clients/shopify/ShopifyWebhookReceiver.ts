@@ -0,0 +1,93 @@
+import { BaseWebhookReceiver, WebhookChange, WebhookDelivery } from '../BaseWebhookReceiver';
+import { ShopifyApiClient } from './ShopifyApiClient';
+import { ECommercePlatform } from '../../../utils/platforms';
+import { hmacSha256Base64 } from '../../../utils/sha256';
+import { timingSafeEqual } from '../../instoreapi/auth/requestSigning';
+import { productSearchIndexService } from '../../search/ProductSearchIndexService';
+
+/** Fields of the Shopify webhook bodies the POS reads */
+interface ShopifyWebhookPayload {
+  /** Product or collection ID */
+  id?: number | string;
+  /** Set on `inventory_levels/update` */
+  inventory_item_id?: number | string;
+}
+
+const COLLECTION_ACTIONS: Record<string, 'created' | 'updated' | 'deleted'> = {
+  'collections/create': 'created',
+  'collections/update': 'updated',
+  'collections/delete': 'deleted',
+};
+
+/**
+ * Receiver for Shopify webhooks, mounted at `POST /api/webhooks/shopify`.
+ *
+ * Shopify signs the raw body with the app's API secret (base64 HMAC-SHA256 in
+ * `X-Shopify-Hmac-Sha256`) and repeats `X-Shopify-Event-Id` on every retry.
+ */
+export class ShopifyWebhookReceiver extends BaseWebhookReceiver<ShopifyWebhookPayload> {
+  private static instance: ShopifyWebhookReceiver;
+  private apiClient = ShopifyApiClient.getInstance();
+
+  private constructor() {
+    super(ECommercePlatform.SHOPIFY, 'ShopifyWebhookReceiver');
+  }
+
+  static getInstance(): ShopifyWebhookReceiver {
+    if (!ShopifyWebhookReceiver.instance) {
+      ShopifyWebhookReceiver.instance = new ShopifyWebhookReceiver();
+    }
+    return ShopifyWebhookReceiver.instance;
+  }
+
+  protected verifySignature(rawBody: string, headers: Record<string, string | undefined>, secret: string): boolean {
+    const signature = headers['x-shopify-hmac-sha256'];
+    return !!signature && timingSafeEqual(hmacSha256Base64(secret, rawBody), signature);
+  }
+
+  protected parseDelivery(rawBody: string, headers: Record<string, string | undefined>): WebhookDelivery<ShopifyWebhookPayload> {
+    return {
+      deliveryId: headers['x-shopify-event-id'] || headers['x-shopify-webhook-id'] || '',
+      topic: headers['x-shopify-topic'] || '',
+      payload: JSON.parse(rawBody) as ShopifyWebhookPayload,
+    };
+  }
+
+  protected async toChanges({ topic, payload }: WebhookDelivery<ShopifyWebhookPayload>): Promise<WebhookChange[]> {
+    switch (topic) {
+      case 'products/create':
+      case 'products/update':
+        return [{ entity: 'product', action: 'updated', productId: String(payload.id) }];
+      case 'products/delete':
+        return [{ entity: 'product', action: 'deleted', productId: String(payload.id) }];
+      case 'inventory_levels/update':
+        return (await this.findProductIdsForInventoryItem(payload.inventory_item_id)).map(productId => ({
+          entity: 'inventory' as const,
+          productId,
+        }));
+      case 'collections/create':
+      case 'collections/update':
+      case 'collections/delete':
+        return [{ entity: 'category', action: COLLECTION_ACTIONS[topic], categoryId: String(payload.id) }];
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Inventory levels only carry the inventory item — look up its SKU and find the
+   * products that carry it in the search index. Unresolved items still yield one
+   * change without a product so registers refresh their stock.
+   */
+  private async findProductIdsForInventoryItem(inventoryItemId: unknown): Promise<(string | undefined)[]> {
+    if (!inventoryItemId) return [undefined];
+
+    const data = await this.apiClient.get<{ inventory_item?: { sku?: string } }>(`inventory_items/${inventoryItemId}.json`);
+    const sku = data.inventory_item?.sku;
+    if (!sku) return [undefined];
+
+    const documents = await productSearchIndexService.findByCode(sku);
+    const productIds = documents.filter(doc => doc.platform === this.platform).map(doc => doc.id);
+    return productIds.length > 0 ? productIds : [undefined];
+  }
+}
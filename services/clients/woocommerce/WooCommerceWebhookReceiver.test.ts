@@ -0,0 +1,139 @@
+const mockGetProducts = jest.fn();
+const mockEmit = jest.fn();
+
+jest.mock('../../logger/LoggerFactory', () => ({
+  LoggerFactory: {
+    getInstance: () => ({
+      createLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }),
+    }),
+  },
+}));
+
+jest.mock('../../product/ProductServiceFactory', () => ({
+  ProductServiceFactory: { getInstance: () => ({ getService: () => ({ getProducts: mockGetProducts }) }) },
+}));
+
+jest.mock('../../instoreapi/sync/SyncEventBus', () => ({
+  syncEventBus: { emit: mockEmit },
+}));
+
+// Accepted deliveries as the webhook_deliveries table would keep them, across restarts
+const mockAcceptedDeliveries = new Set<string>();
+
+jest.mock('../../../repositories/WebhookDeliveryRepository', () => ({
+  webhookDeliveryRepository: {
+    insertIfNew: jest.fn(async (platform: string, deliveryKey: string) => {
+      const key = `${platform}|${deliveryKey}`;
+      if (mockAcceptedDeliveries.has(key)) return false;
+      mockAcceptedDeliveries.add(key);
+      return true;
+    }),
+    deleteReceivedBefore: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+import { createHmac } from 'crypto';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { WooCommerceWebhookReceiver } from './WooCommerceWebhookReceiver';
+
+const SECRET = 'cs_test_secret';
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, '__fixtures__', name), 'utf8');
+}
+
+function headersFor(body: string, topic: string, deliveryId: string): Record<string, string> {
+  const [resource, event] = topic.split('.');
+  return {
+    'x-wc-webhook-source': 'https://shop.example.com/',
+    'x-wc-webhook-topic': topic,
+    'x-wc-webhook-resource': resource,
+    'x-wc-webhook-event': event,
+    'x-wc-webhook-signature': createHmac('sha256', SECRET).update(body).digest('base64'),
+    'x-wc-webhook-id': '12',
+    'x-wc-webhook-delivery-id': deliveryId,
+  };
+}
+
+const flushProcessing = () => new Promise(resolve => setImmediate(resolve));
+
+// ── Tests ─────────────────────────────────────────────────────────────
+
+describe('WooCommerceWebhookReceiver', () => {
+  const receiver = WooCommerceWebhookReceiver.getInstance();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    receiver.setSecret(SECRET);
+    mockGetProducts.mockImplementation(async ({ ids }: { ids: string[] }) => ({
+      products: ids.map(id => ({ id, title: 'Canvas Tote', variants: [] })),
+      pagination: { currentPage: 1, totalPages: 1, totalItems: ids.length },
+    }));
+  });
+
+  it('refreshes the parent product when a variation changes', async () => {
+    const body = fixture('product-updated-variation.json');
+
+    const result = await receiver.handleRequest(body, headersFor(body, 'product.updated', '5001'));
+    await flushProcessing();
+
+    expect(result.status).toBe(200);
+    expect(mockGetProducts).toHaveBeenCalledWith({ ids: ['731'], limit: 1 });
+    expect(mockEmit).toHaveBeenCalledWith('product:updated', expect.objectContaining({ action: 'updated', platform: 'woocommerce' }));
+    expect(mockEmit).toHaveBeenCalledWith('inventory:updated', { productId: '731', platform: 'woocommerce', source: 'webhook' });
+  });
+
+  it('broadcasts a deleted product without asking the store for it', async () => {
+    const body = fixture('product-deleted.json');
+
+    await receiver.handleRequest(body, headersFor(body, 'product.deleted', '5002'));
+    await flushProcessing();
+
+    expect(mockGetProducts).not.toHaveBeenCalled();
+    expect(mockEmit).toHaveBeenCalledWith('product:updated', { action: 'deleted', id: '794', platform: 'woocommerce', source: 'webhook' });
+  });
+
+  it('maps a new product category to a category change', async () => {
+    const body = fixture('product-cat-created.json');
+
+    await receiver.handleRequest(body, headersFor(body, 'product_cat.created', '5003'));
+    await flushProcessing();
+
+    expect(mockEmit).toHaveBeenCalledWith('config:updated', {
+      entity: 'category',
+      action: 'created',
+      id: '27',
+      platform: 'woocommerce',
+      source: 'webhook',
+    });
+  });
+
+  it('rejects unsigned and wrongly signed deliveries', async () => {
+    const body = fixture('product-deleted.json');
+    const { 'x-wc-webhook-signature': _signature, ...unsigned } = headersFor(body, 'product.deleted', '5004');
+
+    expect((await receiver.handleRequest(body, unsigned)).status).toBe(401);
+    expect((await receiver.handleRequest('{ "id": 795 }', headersFor(body, 'product.deleted', '5004'))).status).toBe(401);
+  });
+
+  it('ignores a repeated delivery ID', async () => {
+    const body = fixture('product-deleted.json');
+    const headers = headersFor(body, 'product.deleted', '5005');
+
+    await receiver.handleRequest(body, headers);
+    const repeat = await receiver.handleRequest(body, headers);
+    await flushProcessing();
+
+    expect(repeat.body.duplicate).toBe(true);
+    expect(mockEmit).toHaveBeenCalledTimes(1);
+  });
+
+  it('acknowledges the ping sent when a webhook is created', async () => {
+    const result = await receiver.handleRequest('webhook_id=12', { 'content-type': 'application/x-www-form-urlencoded' });
+
+    expect(result).toEqual({ status: 200, body: { success: true, received: 'ping' } });
+  });
+});
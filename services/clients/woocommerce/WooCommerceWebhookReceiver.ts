@@ -0,0 +1,72 @@
+import { BaseWebhookReceiver, WebhookChange, WebhookDelivery } from '../BaseWebhookReceiver';
+import { ECommercePlatform } from '../../../utils/platforms';
+import { hmacSha256Base64 } from '../../../utils/sha256';
+import { timingSafeEqual } from '../../instoreapi/auth/requestSigning';
+
+/** Fields of the WooCommerce product and category webhook bodies the POS reads */
+interface WooCommerceWebhookPayload {
+  id?: number;
+  /** Set on variations, which are sent as their own product */
+  parent_id?: number;
+}
+
+/**
+ * Receiver for WooCommerce webhooks, mounted at `POST /api/webhooks/woocommerce`.
+ *
+ * WooCommerce signs the raw body with the secret set when the webhook was created
+ * (base64 HMAC-SHA256 in `X-WC-Webhook-Signature`). When a webhook is created it
+ * sends an unsigned `webhook_id=<id>` ping, which is acknowledged and ignored.
+ */
+export class WooCommerceWebhookReceiver extends BaseWebhookReceiver<WooCommerceWebhookPayload> {
+  private static instance: WooCommerceWebhookReceiver;
+
+  private constructor() {
+    super(ECommercePlatform.WOOCOMMERCE, 'WooCommerceWebhookReceiver');
+  }
+
+  static getInstance(): WooCommerceWebhookReceiver {
+    if (!WooCommerceWebhookReceiver.instance) {
+      WooCommerceWebhookReceiver.instance = new WooCommerceWebhookReceiver();
+    }
+    return WooCommerceWebhookReceiver.instance;
+  }
+
+  protected isPing(rawBody: string, headers: Record<string, string | undefined>): boolean {
+    return !headers['x-wc-webhook-topic'] && /^webhook_id=\d+$/.test(rawBody.trim());
+  }
+
+  protected verifySignature(rawBody: string, headers: Record<string, string | undefined>, secret: string): boolean {
+    const signature = headers['x-wc-webhook-signature'];
+    return !!signature && timingSafeEqual(hmacSha256Base64(secret, rawBody), signature);
+  }
+
+  protected parseDelivery(rawBody: string, headers: Record<string, string | undefined>): WebhookDelivery<WooCommerceWebhookPayload> {
+    return {
+      deliveryId: headers['x-wc-webhook-delivery-id'] || '',
+      topic: headers['x-wc-webhook-topic'] || '',
+      payload: JSON.parse(rawBody) as WooCommerceWebhookPayload,
+    };
+  }
+
+  protected async toChanges({ topic, payload }: WebhookDelivery<WooCommerceWebhookPayload>): Promise<WebhookChange[]> {
+    const [resource, event] = topic.split('.');
+
+    if (resource === 'product') {
+      if (event === 'deleted') {
+        return [{ entity: 'product', action: 'deleted', productId: String(payload.id) }];
+      }
+      // Variations are sent as their own product; refresh the parent product instead
+      const productId = String(payload.parent_id || payload.id);
+      return [
+        { entity: 'product', action: 'updated', productId },
+        { entity: 'inventory', productId },
+      ];
+    }
+
+    if (resource === 'product_cat' && (event === 'created' || event === 'updated' || event === 'deleted')) {
+      return [{ entity: 'category', action: event, categoryId: String(payload.id) }];
+    }
+
+    return [];
+  }
+}
@@ -10,6 +10,8 @@ export interface POSConfig {
   storePhone: string;
   currencySymbol: string;
   drawerOpenOnCash: boolean;
+  /** Hide expected cash and variance from cashiers at cash-up */
+  blindClose: boolean;
 }
 
 // ── Settings keys in the database ───────────────────────────────────
@@ -22,6 +24,7 @@ export const SETTINGS_KEYS: Record<keyof POSConfig, string> = {
   storePhone: 'pos.storePhone',
   currencySymbol: 'pos.currencySymbol',
   drawerOpenOnCash: 'pos.drawerOpenOnCash',
+  blindClose: 'pos.blindClose',
 };
 
 /**
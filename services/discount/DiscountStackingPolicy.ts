@@ -0,0 +1,122 @@
+/**
+ * DiscountStackingPolicy
+ *
+ * Decides whether a new adjustment may be combined with the ones already on
+ * the basket. The rules are store-configurable and stored in the key-value
+ * store; `checkStacking` is pure so BasketService can test a candidate before
+ * saving it.
+ *
+ * Configuration key: discounts.stacking (DiscountStackingConfig)
+ *
+ * See: docs/specs/basket/adjustments.md
+ */
+
+import { keyValueRepository } from '../../repositories/KeyValueRepository';
+import type { AdjustmentSource, Basket } from '../basket/basket';
+
+const CONFIG_KEY = 'discounts.stacking';
+
+export interface DiscountStackingConfig {
+  /** Most discount codes allowed on one basket (1 = single code, the previous behaviour) */
+  maxCodes: number;
+  /** Whether manual discounts may be combined with discount codes */
+  allowManualWithCodes: boolean;
+  /** Whether codes and manual discounts may be added on top of automatic promotions */
+  allowWithPromotions: boolean;
+  /** Codes that can never be combined with any other code or manual discount */
+  exclusiveCodes: string[];
+  /** Cap on all promotions and adjustments combined, as a percentage of the subtotal */
+  maxTotalPercent: number;
+}
+
+export const DEFAULT_STACKING_CONFIG: DiscountStackingConfig = {
+  maxCodes: 3,
+  allowManualWithCodes: true,
+  allowWithPromotions: true,
+  exclusiveCodes: [],
+  maxTotalPercent: 100,
+};
+
+/** The adjustment being added */
+export interface StackingCandidate {
+  source: Exclude<AdjustmentSource, 'promotion'>;
+  code?: string;
+  /** Set for line adjustments */
+  itemId?: string;
+}
+
+/**
+ * Check a candidate adjustment against the basket and config.
+ * @returns An error message, or null when the adjustment may be added
+ */
+export function checkStacking(candidate: StackingCandidate, basket: Basket, config: DiscountStackingConfig): string | null {
+  const existing = [...(basket.adjustments ?? []), ...basket.items.flatMap(item => item.adjustments ?? [])];
+  const codes = existing.filter(a => a.source === 'code');
+  const exclusive = new Set(config.exclusiveCodes.map(c => c.toUpperCase()));
+  const candidateCode = candidate.code?.toUpperCase();
+
+  if (candidate.source === 'code' && candidateCode) {
+    if (codes.some(a => a.code?.toUpperCase() === candidateCode)) {
+      return `Discount code ${candidate.code} is already applied`;
+    }
+    if (codes.length >= config.maxCodes) {
+      return config.maxCodes === 1
+        ? 'Only one discount code can be used per sale'
+        : `Only ${config.maxCodes} discount codes can be used per sale`;
+    }
+  }
+
+  // Exclusive codes block — and are blocked by — every other code or manual discount
+  const blocking = existing.find(a => a.source === 'code' && a.code && exclusive.has(a.code.toUpperCase()));
+  if (blocking && (candidate.source === 'code' || candidate.source === 'manual')) {
+    return `${blocking.code} cannot be combined with other discounts`;
+  }
+  if (candidateCode && exclusive.has(candidateCode) && existing.some(a => a.source === 'code' || a.source === 'manual')) {
+    return `${candidate.code} cannot be combined with other discounts`;
+  }
+
+  if (!config.allowManualWithCodes) {
+    if (candidate.source === 'manual' && codes.length > 0) {
+      return 'Manual discounts cannot be combined with discount codes';
+    }
+    if (candidate.source === 'code' && existing.some(a => a.source === 'manual')) {
+      return 'Discount codes cannot be combined with manual discounts';
+    }
+  }
+
+  if (!config.allowWithPromotions && (candidate.source === 'code' || candidate.source === 'manual')) {
+    const promoted = candidate.itemId
+      ? basket.items.find(item => item.id === candidate.itemId)?.promotions?.length
+      : basket.items.some(item => item.promotions && item.promotions.length > 0);
+    if (promoted) {
+      return 'Discounts cannot be combined with an active promotion';
+    }
+  }
+
+  return null;
+}
+
+export class DiscountStackingPolicy {
+  private static instance: DiscountStackingPolicy;
+
+  private constructor() {}
+
+  static getInstance(): DiscountStackingPolicy {
+    if (!DiscountStackingPolicy.instance) {
+      DiscountStackingPolicy.instance = new DiscountStackingPolicy();
+    }
+    return DiscountStackingPolicy.instance;
+  }
+
+  async getConfig(): Promise<DiscountStackingConfig> {
+    const stored = await keyValueRepository.getObject<Partial<DiscountStackingConfig>>(CONFIG_KEY);
+    return { ...DEFAULT_STACKING_CONFIG, ...(stored ?? {}) };
+  }
+
+  async setConfig(updates: Partial<DiscountStackingConfig>): Promise<void> {
+    const current = await this.getConfig();
+    await keyValueRepository.setObject(CONFIG_KEY, { ...current, ...updates });
+  }
+}
+
+export const discountStackingPolicy = DiscountStackingPolicy.getInstance();
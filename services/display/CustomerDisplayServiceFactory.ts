@@ -1,12 +1,28 @@
-import { CustomerDisplayServiceInterface, DisplayConnectionConfig } from './CustomerDisplayServiceInterface';
+import { CustomerDisplayServiceInterface, DisplayConnectionConfig, DisplayPromptType } from './CustomerDisplayServiceInterface';
 import { NoOpDisplayService } from './NoOpDisplayService';
 import { WebSocketDisplayService } from './WebSocketDisplayService';
+import { MockDisplayService } from './mock/MockDisplayService';
+import { DEFAULT_PROMPT_TIMEOUT_MS } from './displayPrompts';
 import { LoggerFactory } from '../logger/LoggerFactory';
 import { keyValueRepository } from '../../repositories/KeyValueRepository';
+import { getElectronAPI } from '../../utils/electron';
+import { randomHex } from '../../utils/secureRandom';
 
-export type DisplayType = 'websocket' | 'serial' | 'electron' | 'none';
+export type DisplayType = 'websocket' | 'serial' | 'electron' | 'mock' | 'none';
+
+/** Port the register serves the reference display on (Electron) */
+export const DEFAULT_DISPLAY_SERVER_PORT = 8788;
+
+/** Ask the customer to confirm their age before checkout when the basket has items in these categories */
+export interface AgeCheckSettings {
+  minimumAge: number;
+  categoryIds: string[];
+}
 
 const DISPLAY_SETTINGS_KEY = 'customerDisplaySettings';
+/** Secret in the display URL; kept apart from the settings so saving them does not change it */
+const DISPLAY_TOKEN_KEY = 'customerDisplayToken';
+const DISPLAY_TOKEN_BYTES = 16;
 
 export interface CustomerDisplaySettings {
   enabled: boolean;
@@ -16,6 +32,20 @@ export interface CustomerDisplaySettings {
   characterWidth?: number;
   idleMessage?: string;
   thankYouMessage?: string;
+  /** Electron: serve the reference display page and socket from this register on `serverPort` */
+  serveFromRegister?: boolean;
+  serverPort?: number;
+  /** Seconds the customer has to answer a prompt; unset uses each prompt's default */
+  promptTimeoutSeconds?: number;
+  /** Ask for an email or phone number for a digital receipt before the sale completes */
+  askForReceipt?: boolean;
+  /** Offer loyalty sign-up to customers without an account while loyalty is enabled */
+  offerLoyaltySignUp?: boolean;
+  /** Name shown in the sign-up prompt */
+  loyaltyProgramName?: string;
+  /** Manual card payments of this total or more are signed for on the display */
+  signatureThreshold?: number | null;
+  ageCheck?: AgeCheckSettings | null;
 }
 
 const DEFAULT_DISPLAY_SETTINGS: CustomerDisplaySettings = {
@@ -38,6 +68,7 @@ export class CustomerDisplayServiceFactory {
   private logger = LoggerFactory.getInstance().createLogger('CustomerDisplayServiceFactory');
   private currentService: CustomerDisplayServiceInterface = new NoOpDisplayService();
   private settings: CustomerDisplaySettings = DEFAULT_DISPLAY_SETTINGS;
+  private serving = false;
 
   private constructor() {}
 
@@ -82,6 +113,22 @@ export class CustomerDisplayServiceFactory {
     return this.applySettings(settings);
   }
 
+  /** How long a prompt of this type waits for the customer */
+  getPromptTimeoutMs(type: DisplayPromptType): number {
+    const seconds = this.settings.promptTimeoutSeconds;
+    return seconds && seconds > 0 ? seconds * 1000 : DEFAULT_PROMPT_TIMEOUT_MS[type];
+  }
+
+  /**
+   * Issue a new display token, e.g. when the display URL has leaked. Displays
+   * opened from the old URL are disconnected and must open the new one.
+   */
+  async renewDisplayToken(): Promise<boolean> {
+    await keyValueRepository.setItem(DISPLAY_TOKEN_KEY, randomHex(DISPLAY_TOKEN_BYTES));
+    if (!this.serving) return true;
+    return this.applySettings(this.settings);
+  }
+
   /** Disconnect and reset to no-op. */
   async reset(): Promise<void> {
     await this.currentService.disconnect();
@@ -90,6 +137,9 @@ export class CustomerDisplayServiceFactory {
 
   private async applySettings(settings: CustomerDisplaySettings): Promise<boolean> {
     await this.currentService.disconnect();
+    if (this.serving && !(settings.enabled && settings.type === 'websocket' && settings.serveFromRegister)) {
+      await this.stopDisplayServer();
+    }
 
     if (!settings.enabled || settings.type === 'none') {
       this.currentService = new NoOpDisplayService();
@@ -104,8 +154,16 @@ export class CustomerDisplayServiceFactory {
 
     switch (settings.type) {
       case 'websocket':
+        if (settings.serveFromRegister) {
+          const endpoint = await this.startDisplayServer(settings.serverPort ?? DEFAULT_DISPLAY_SERVER_PORT);
+          if (!endpoint) return false;
+          config.endpoint = endpoint;
+        }
         this.currentService = new WebSocketDisplayService();
         break;
+      case 'mock':
+        this.currentService = new MockDisplayService();
+        break;
       default:
         this.logger.warn({ message: `Display type '${settings.type}' not yet implemented, using no-op` });
         this.currentService = new NoOpDisplayService();
@@ -114,10 +172,50 @@ export class CustomerDisplayServiceFactory {
 
     const connected = await this.currentService.connect(config);
     if (!connected) {
-      this.logger.warn({ message: `Failed to connect customer display at ${settings.endpoint}` });
+      this.logger.warn({ message: `Failed to connect customer display at ${config.endpoint}` });
     }
     return connected;
   }
+
+  /**
+   * Start the display server in the Electron main process
+   * (electron/ipc/displayServer.js) and return the POS socket URL.
+   */
+  private async startDisplayServer(port: number): Promise<string | null> {
+    const api = getElectronAPI();
+    if (!api) {
+      this.logger.warn({ message: 'Serving the customer display needs the desktop app; set an endpoint instead' });
+      return null;
+    }
+    try {
+      const { posUrl, displayUrls } = await api.displayServerStart(port, await this.getDisplayToken());
+      this.serving = true;
+      this.logger.info(`Customer display served at ${displayUrls.join(', ')}`);
+      return posUrl;
+    } catch (error) {
+      this.logger.error(
+        { message: `Failed to serve the customer display on port ${port}` },
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return null;
+    }
+  }
+
+  /** The token displays must present; created on first use so the display URL survives restarts */
+  private async getDisplayToken(): Promise<string> {
+    const saved = await keyValueRepository.getItem(DISPLAY_TOKEN_KEY);
+    if (saved) return saved;
+    const token = randomHex(DISPLAY_TOKEN_BYTES);
+    await keyValueRepository.setItem(DISPLAY_TOKEN_KEY, token);
+    return token;
+  }
+
+  private async stopDisplayServer(): Promise<void> {
+    this.serving = false;
+    await getElectronAPI()
+      ?.displayServerStop()
+      .catch(() => undefined);
+  }
 }
 
 export const customerDisplayServiceFactory = CustomerDisplayServiceFactory.getInstance();
@@ -1,3 +1,6 @@
+import { multiplyMoney } from '../../utils/money';
+import { formatQuantity, getMeasuredLine } from '../product/unitOfMeasure';
+
 /**
  * The data shown on the customer-facing display.
  */
@@ -8,6 +11,8 @@ export interface CustomerDisplayState {
     quantity: number;
     price: number;
     total: number;
+    /** Amount of an item sold by measure, e.g. "0.512 kg"; shown instead of the quantity */
+    quantityLabel?: string;
   }>;
   subtotal: number;
   tax: number;
@@ -20,13 +25,56 @@ export interface CustomerDisplayState {
   message?: string;
 }
 
+// ── Prompts ───────────────────────────────────────────────────────────────
+
+export type DisplayPromptType = 'tip' | 'receipt' | 'loyalty' | 'age' | 'signature';
+
+export interface DisplayTipOption {
+  /** Shown on the button, e.g. "15%" */
+  label: string;
+  tipAmount: number;
+}
+
+/** A question put to the customer on an interactive display */
+export type DisplayPrompt =
+  | { type: 'tip'; total: number; currencyCode: string; options: DisplayTipOption[]; allowCustom: boolean }
+  | { type: 'receipt'; allowEmail: boolean; allowPhone: boolean }
+  | { type: 'loyalty'; programName: string }
+  | { type: 'age'; minimumAge: number }
+  | { type: 'signature'; total: number; currencyCode: string };
+
+export type DisplayPromptOf<T extends DisplayPromptType> = Extract<DisplayPrompt, { type: T }>;
+
+/** What the customer entered, per prompt type */
+export interface DisplayPromptAnswers {
+  tip: { tipAmount: number };
+  receipt: { email?: string; phone?: string };
+  loyalty: { email: string; name?: string; phone?: string };
+  age: { confirmed: true };
+  /** SVG path data of the strokes, in a 0–1000 × 0–400 box */
+  signature: { svg: string };
+}
+
+/**
+ * How a prompt ended:
+ *   answered    — the customer entered a valid answer
+ *   declined    — the customer said no or skipped
+ *   timeout     — no answer within the prompt's timeout
+ *   cancelled   — the cashier withdrew it, another prompt replaced it, or the display went away
+ *   unavailable — no interactive display is attached
+ */
+export type DisplayPromptResult<T extends DisplayPromptType> =
+  | { status: 'answered'; value: DisplayPromptAnswers[T] }
+  | { status: 'declined' | 'timeout' | 'cancelled' | 'unavailable' };
+
 /**
  * Interface for customer-facing display integrations.
  *
  * Implementations:
  *  - `ElectronDisplayService`  — second Electron window via IPC
  *  - `SerialDisplayService`    — USB serial pole display (VFD/LCD, e.g. Epson DM-D110)
- *  - `WebSocketDisplayService` — push to a browser-based display on a second device
+ *  - `WebSocketDisplayService` — browser-based display on a second device; interactive
+ *  - `MockDisplayService`      — in-memory display that answers prompts (tests, development)
  *  - `NoOpDisplayService`      — does nothing (when no display is configured)
  */
 export interface CustomerDisplayServiceInterface {
@@ -54,6 +102,23 @@ export interface CustomerDisplayServiceInterface {
    */
   showThankYou(message?: string): Promise<void>;
 
+  /**
+   * Whether a display that can answer prompts is attached.
+   */
+  canPrompt(): boolean;
+
+  /**
+   * Ask the customer for input. Resolves when they answer or decline, after
+   * `timeoutMs` (default per prompt type), or when the prompt is cancelled;
+   * never rejects. Only one prompt is open at a time: a new one cancels the last.
+   */
+  prompt<T extends DisplayPromptType>(prompt: DisplayPromptOf<T>, timeoutMs?: number): Promise<DisplayPromptResult<T>>;
+
+  /**
+   * Withdraw the open prompt, if any; it resolves as `cancelled`.
+   */
+  cancelPrompt(): Promise<void>;
+
   /**
    * Check whether the display is connected.
    */
@@ -70,7 +135,7 @@ export interface CustomerDisplayServiceInterface {
   disconnect(): Promise<void>;
 }
 
-export type DisplayDriverType = 'electron' | 'serial' | 'websocket' | 'none';
+export type DisplayDriverType = 'electron' | 'serial' | 'websocket' | 'mock' | 'none';
 
 export interface DisplayConnectionConfig {
   /** Serial port path (e.g. '/dev/tty.usbserial-1410') or WebSocket URL */
@@ -87,7 +152,7 @@ export interface DisplayConnectionConfig {
 
 /** Build a CustomerDisplayState from basket data */
 export function buildDisplayState(
-  items: Array<{ name: string; quantity: number; price: number }>,
+  items: Array<{ name: string; quantity: number; price: number; properties?: Record<string, string> }>,
   subtotal: number,
   tax: number,
   total: number,
@@ -95,12 +160,16 @@ export function buildDisplayState(
   screen: CustomerDisplayState['screen'] = 'basket'
 ): CustomerDisplayState {
   return {
-    items: items.map(i => ({
-      name: i.name,
-      quantity: i.quantity,
-      price: i.price,
-      total: i.price * i.quantity,
-    })),
+    items: items.map(i => {
+      const measured = getMeasuredLine(i);
+      return {
+        name: i.name,
+        quantity: i.quantity,
+        price: i.price,
+        total: multiplyMoney(i.price, i.quantity),
+        quantityLabel: measured ? formatQuantity(i.quantity, measured.unit) : undefined,
+      };
+    }),
     subtotal,
     tax,
     total,
@@ -0,0 +1,217 @@
+jest.mock('../logger/LoggerFactory', () => ({
+  LoggerFactory: {
+    getInstance: () => ({
+      createLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }),
+    }),
+  },
+}));
+
+const mockFactory = {
+  service: null as unknown,
+  settings: {} as Record<string, unknown>,
+  getService: () => mockFactory.service,
+  getSettings: () => mockFactory.settings,
+  getPromptTimeoutMs: () => 50,
+};
+jest.mock('./CustomerDisplayServiceFactory', () => ({ customerDisplayServiceFactory: mockFactory }));
+
+const mockLoyaltyConfig = { enabled: true };
+jest.mock('../loyalty/LoyaltyService', () => ({
+  loyaltyService: { getConfig: jest.fn(async () => mockLoyaltyConfig) },
+}));
+
+const mockUpsert = jest.fn();
+jest.mock('../customer/LocalCustomerService', () => ({
+  localCustomerService: { upsert: (...args: unknown[]) => mockUpsert(...args) },
+}));
+
+const mockUpdateReceiptContact = jest.fn();
+jest.mock('../../repositories/OrderRepository', () => ({
+  getOrderRepository: () => ({ updateReceiptContact: mockUpdateReceiptContact }),
+}));
+
+const mockAuditLog = jest.fn();
+jest.mock('../audit/AuditLogService', () => ({
+  auditLogService: { log: (...args: unknown[]) => mockAuditLog(...args) },
+}));
+
+import { CustomerPromptService } from './CustomerPromptService';
+import { MockDisplayService } from './mock/MockDisplayService';
+import { NoOpDisplayService } from './NoOpDisplayService';
+import { DEFAULT_TIP_CONFIG } from '../tips/tips';
+
+describe('CustomerPromptService', () => {
+  let display: MockDisplayService;
+  let service: CustomerPromptService;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    display = new MockDisplayService({ replyDelayMs: 0 });
+    await display.connect({ endpoint: '' });
+    mockFactory.service = display;
+    mockFactory.settings = {};
+    mockLoyaltyConfig.enabled = true;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (CustomerPromptService as any).instance = undefined;
+    service = CustomerPromptService.getInstance();
+  });
+
+  describe('beforeCheckout', () => {
+    const ageCheck = { minimumAge: 18, categoryIds: ['cat-alcohol'] };
+
+    it('asks nothing for an unrestricted basket when sign-up is off', async () => {
+      mockFactory.settings = { ageCheck };
+      await expect(service.beforeCheckout({ items: [{ categoryId: 'cat-bread' }], hasCustomer: false })).resolves.toEqual({
+        allowed: true,
+      });
+      expect(display.promptsAsked).toHaveLength(0);
+    });
+
+    it('still asks the cashier to check ID after the customer confirms their age', async () => {
+      mockFactory.settings = { ageCheck };
+      const outcome = await service.beforeCheckout({ items: [{ categoryId: 'cat-alcohol' }], hasCustomer: false });
+
+      expect(outcome).toEqual({ allowed: true, ageCheck: { minimumAge: 18, declaration: 'confirmed' } });
+      expect(display.promptsAsked).toEqual([{ type: 'age', minimumAge: 18 }]);
+      expect(mockAuditLog).not.toHaveBeenCalled();
+    });
+
+    it.each(['declined', 'timeout'] as const)('blocks and audits the sale when the age prompt is %s', async reply => {
+      mockFactory.settings = { ageCheck };
+      display.reply('age', reply);
+
+      await expect(service.beforeCheckout({ items: [{ categoryId: 'cat-alcohol' }], hasCustomer: false })).resolves.toEqual({
+        allowed: false,
+      });
+      expect(mockAuditLog).toHaveBeenCalledWith(
+        'age_check:refused',
+        expect.objectContaining({ metadata: { minimumAge: 18, declaration: reply, idChecked: false } })
+      );
+    });
+
+    it('leaves the age check to the cashier when no display can ask', async () => {
+      mockFactory.settings = { ageCheck };
+      mockFactory.service = new NoOpDisplayService();
+
+      await expect(service.beforeCheckout({ items: [{ categoryId: 'cat-alcohol' }], hasCustomer: false })).resolves.toEqual({
+        allowed: true,
+        ageCheck: { minimumAge: 18, declaration: 'unavailable' },
+      });
+    });
+
+    it('signs the customer up for loyalty and returns them for the basket', async () => {
+      mockFactory.settings = { offerLoyaltySignUp: true, loyaltyProgramName: 'Corner Club' };
+      display.reply('loyalty', { email: 'ada@example.com', name: 'Ada' });
+
+      const outcome = await service.beforeCheckout({ items: [], hasCustomer: false });
+
+      expect(display.promptsAsked).toEqual([{ type: 'loyalty', programName: 'Corner Club' }]);
+      expect(mockUpsert).toHaveBeenCalledWith({ email: 'ada@example.com', name: 'Ada', phone: undefined });
+      expect(outcome).toEqual({ allowed: true, customer: { email: 'ada@example.com', name: 'Ada' } });
+    });
+
+    it('does not offer loyalty to a known customer or while loyalty is off', async () => {
+      mockFactory.settings = { offerLoyaltySignUp: true };
+      await service.beforeCheckout({ items: [], hasCustomer: true });
+      mockLoyaltyConfig.enabled = false;
+      await service.beforeCheckout({ items: [], hasCustomer: false });
+
+      expect(display.promptsAsked).toHaveLength(0);
+    });
+  });
+
+  describe('askForTip', () => {
+    const config = { ...DEFAULT_TIP_CONFIG, enabled: true, onDisplay: true };
+
+    it('offers the configured percentages of the order total', async () => {
+      display.reply('tip', { tipAmount: 5 });
+
+      await expect(service.askForTip(40, config, 'GBP')).resolves.toBe(5);
+      expect(display.promptsAsked[0]).toEqual({
+        type: 'tip',
+        total: 40,
+        currencyCode: 'GBP',
+        options: [
+          { label: '10%', tipAmount: 4 },
+          { label: '12.5%', tipAmount: 5 },
+          { label: '15%', tipAmount: 6 },
+        ],
+        allowCustom: true,
+      });
+    });
+
+    it('returns null when tipping on the display is off or the customer declines', async () => {
+      await expect(service.askForTip(40, { ...config, onDisplay: false }, 'GBP')).resolves.toBeNull();
+      display.reply('tip', 'declined');
+      await expect(service.askForTip(40, config, 'GBP')).resolves.toBeNull();
+    });
+  });
+
+  describe('beforeCompletion', () => {
+    const input = { orderId: 'order-1', method: 'card', amount: 120, currencyCode: 'GBP', hasCustomerEmail: false };
+
+    it('captures a signature for a card payment at or over the threshold', async () => {
+      mockFactory.settings = { signatureThreshold: 100 };
+
+      await expect(service.beforeCompletion(input)).resolves.toEqual({ signature: 'M10 200 L200 120 L400 260 L600 140' });
+      await expect(service.beforeCompletion({ ...input, amount: 99.99 })).resolves.toEqual({});
+      await expect(service.beforeCompletion({ ...input, method: 'cash' })).resolves.toEqual({});
+      expect(display.promptsAsked).toHaveLength(1);
+    });
+
+    it('stores the receipt contact on the order', async () => {
+      mockFactory.settings = { askForReceipt: true };
+      display.reply('receipt', { phone: '+44 7700 900123' });
+
+      await service.beforeCompletion(input);
+
+      expect(mockUpdateReceiptContact).toHaveBeenCalledWith('order-1', null, '+44 7700 900123');
+    });
+
+    it('does not ask for a receipt contact when the order has a customer email', async () => {
+      mockFactory.settings = { askForReceipt: true };
+
+      await service.beforeCompletion({ ...input, hasCustomerEmail: true });
+
+      expect(display.promptsAsked).toHaveLength(0);
+      expect(mockUpdateReceiptContact).not.toHaveBeenCalled();
+    });
+  });
+
+  it('reports the open prompt to subscribers and lets the cashier skip it', async () => {
+    mockFactory.settings = { ageCheck: { minimumAge: 18, categoryIds: ['cat-alcohol'] } };
+    display.reply('age', 'timeout');
+    const seen: Array<string | null> = [];
+    const unsubscribe = service.subscribe(() => seen.push(service.getCurrentPrompt()));
+
+    const checking = service.beforeCheckout({ items: [{ categoryId: 'cat-alcohol' }], hasCustomer: false });
+    expect(service.getCurrentPrompt()).toBe('age');
+    await service.skip();
+
+    await expect(checking).resolves.toEqual({ allowed: true, ageCheck: { minimumAge: 18, declaration: 'skipped' } });
+    expect(seen).toEqual(['age', null]);
+    unsubscribe();
+  });
+
+  describe('recordAgeCheck', () => {
+    it('audits a sale the cashier checked ID for, with what the customer answered', async () => {
+      await service.recordAgeCheck({ minimumAge: 18, declaration: 'confirmed' }, true, { id: 'user-1', name: 'sam' });
+
+      expect(mockAuditLog).toHaveBeenCalledWith('age_check:verified', {
+        userId: 'user-1',
+        userName: 'sam',
+        details: 'Cashier checked ID for 18+ sale (customer display: confirmed)',
+        metadata: { minimumAge: 18, declaration: 'confirmed', idChecked: true },
+      });
+    });
+
+    it('audits a sale refused because the cashier did not check ID', async () => {
+      await service.recordAgeCheck({ minimumAge: 21, declaration: 'confirmed' }, false);
+
+      expect(mockAuditLog).toHaveBeenCalledWith(
+        'age_check:refused',
+        expect.objectContaining({ details: '21+ sale refused by the cashier (customer display: confirmed)' })
+      );
+    });
+  });
+});
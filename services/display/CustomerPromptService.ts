@@ -0,0 +1,259 @@
+/**
+ * CustomerPromptService
+ *
+ * Asks the customer for input on the customer display at the points of the
+ * sale where the display settings call for it:
+ *
+ *   beforeCheckout   — age confirmation, loyalty sign-up
+ *   askForTip        — tip (when `tipping.config.onDisplay`)
+ *   beforeCompletion — signature for manual card payments, digital receipt contact
+ *
+ * Apart from the age check nothing here can stop a sale: with no interactive
+ * display attached, or no answer in time, checkout carries on as it would
+ * without one. The cashier can skip the open prompt with `skip()`. The
+ * customer's age answer is only a declaration; the cashier still confirms ID
+ * and `recordAgeCheck()` audits which way the sale went.
+ *
+ * See: docs/specs/hardware/customer-display.md §2.7
+ */
+
+import { customerDisplayServiceFactory } from './CustomerDisplayServiceFactory';
+import { DisplayPromptOf, DisplayPromptResult, DisplayPromptType } from './CustomerDisplayServiceInterface';
+import { loyaltyService } from '../loyalty/LoyaltyService';
+import { localCustomerService } from '../customer/LocalCustomerService';
+import { TipConfig, tipForPercentage } from '../tips/tips';
+import { LoggerFactory } from '../logger/LoggerFactory';
+import { getOrderRepository } from '../../repositories/OrderRepository';
+import { auditLogService } from '../audit/AuditLogService';
+
+const DEFAULT_PROGRAM_NAME = 'our rewards programme';
+
+export interface CheckoutPromptInput {
+  items: Array<{ categoryId?: string }>;
+  /** A customer is already attached to the basket */
+  hasCustomer: boolean;
+}
+
+/** What the customer said on the display when asked their age */
+export type AgeDeclaration = 'confirmed' | 'declined' | 'timeout' | 'skipped' | 'unavailable';
+
+/** An age-restricted basket the cashier must check ID for */
+export interface AgeCheck {
+  minimumAge: number;
+  declaration: AgeDeclaration;
+}
+
+export interface CheckoutPromptOutcome {
+  /** False when the customer did not confirm their age */
+  allowed: boolean;
+  /** Set for an allowed age-restricted basket: the cashier must still check ID, then call `recordAgeCheck()` */
+  ageCheck?: AgeCheck;
+  /** Customer who signed up for loyalty; attach them to the basket */
+  customer?: { email: string; name?: string };
+}
+
+export interface CompletionPromptInput {
+  orderId: string;
+  method: string;
+  /** Amount charged, including any tip */
+  amount: number;
+  currencyCode: string;
+  /** The order already has a customer email, so a receipt contact is not asked for */
+  hasCustomerEmail: boolean;
+}
+
+export interface CompletionPromptOutcome {
+  /** SVG path data, for `PaymentLine.signature` */
+  signature?: string;
+}
+
+export class CustomerPromptService {
+  private static instance: CustomerPromptService;
+  private logger = LoggerFactory.getInstance().createLogger('CustomerPromptService');
+
+  /** Prompt open on the display — null when idle */
+  private current: DisplayPromptType | null = null;
+
+  private constructor() {}
+
+  static getInstance(): CustomerPromptService {
+    if (!CustomerPromptService.instance) {
+      CustomerPromptService.instance = new CustomerPromptService();
+    }
+    return CustomerPromptService.instance;
+  }
+
+  getCurrentPrompt(): DisplayPromptType | null {
+    return this.current;
+  }
+
+  /** Whether a display that can answer prompts is attached */
+  canPrompt(): boolean {
+    return customerDisplayServiceFactory.getService().canPrompt();
+  }
+
+  /**
+   * Before the draft order is created: confirm the customer's age when the
+   * basket has age-restricted categories, then offer loyalty sign-up to a
+   * customer without an account.
+   *
+   * The sale is blocked when the customer says no or lets the age prompt
+   * time out. Otherwise an age-restricted basket comes back with `ageCheck`:
+   * whatever the customer answered, the cashier checks ID before the sale
+   * goes ahead, as they do with no display attached.
+   */
+  async beforeCheckout(input: CheckoutPromptInput): Promise<CheckoutPromptOutcome> {
+    const settings = customerDisplayServiceFactory.getSettings();
+    const outcome: CheckoutPromptOutcome = { allowed: true };
+
+    const ageSettings = settings.ageCheck;
+    if (
+      ageSettings &&
+      ageSettings.categoryIds.length > 0 &&
+      input.items.some(i => i.categoryId && ageSettings.categoryIds.includes(i.categoryId))
+    ) {
+      const result = await this.ask({ type: 'age', minimumAge: ageSettings.minimumAge });
+      const ageCheck: AgeCheck = { minimumAge: ageSettings.minimumAge, declaration: toAgeDeclaration(result.status) };
+      if (ageCheck.declaration === 'declined' || ageCheck.declaration === 'timeout') {
+        this.logger.warn(`Customer did not confirm they are ${ageCheck.minimumAge} or over (${result.status})`);
+        await this.recordAgeCheck(ageCheck, false);
+        return { allowed: false };
+      }
+      outcome.ageCheck = ageCheck;
+    }
+
+    if (!settings.offerLoyaltySignUp || input.hasCustomer || !this.canPrompt()) return outcome;
+    const loyalty = await loyaltyService.getConfig();
+    if (!loyalty.enabled) return outcome;
+
+    const result = await this.ask({ type: 'loyalty', programName: settings.loyaltyProgramName || DEFAULT_PROGRAM_NAME });
+    if (result.status !== 'answered') return outcome;
+
+    const { email, name, phone } = result.value;
+    try {
+      await localCustomerService.upsert({ email, name, phone });
+    } catch (error) {
+      this.logger.error({ message: 'Failed to save loyalty sign-up' }, error instanceof Error ? error : new Error(String(error)));
+    }
+    return { ...outcome, customer: { email, name } };
+  }
+
+  /**
+   * Audit how an age-restricted sale was decided: `idChecked` is the
+   * cashier's ID check, and the entry keeps what the customer told the
+   * display alongside it.
+   */
+  async recordAgeCheck(check: AgeCheck, idChecked: boolean, cashier?: { id?: string; name?: string }): Promise<void> {
+    const refusedBy = check.declaration === 'declined' || check.declaration === 'timeout' ? 'customer' : 'cashier';
+    await auditLogService.log(idChecked ? 'age_check:verified' : 'age_check:refused', {
+      userId: cashier?.id,
+      userName: cashier?.name,
+      details: idChecked
+        ? `Cashier checked ID for ${check.minimumAge}+ sale (customer display: ${check.declaration})`
+        : `${check.minimumAge}+ sale refused by the ${refusedBy} (customer display: ${check.declaration})`,
+      metadata: { minimumAge: check.minimumAge, declaration: check.declaration, idChecked },
+    });
+  }
+
+  /**
+   * Ask the customer to choose a tip on the order total. Resolves to null
+   * when the display cannot ask or gets no answer; the tip is then chosen on
+   * the till as usual.
+   */
+  async askForTip(orderTotal: number, config: TipConfig, currencyCode: string): Promise<number | null> {
+    if (!config.enabled || !config.onDisplay || !this.canPrompt()) return null;
+    const result = await this.ask({
+      type: 'tip',
+      total: orderTotal,
+      currencyCode,
+      options: config.percentages.map(p => ({ label: `${p}%`, tipAmount: tipForPercentage(orderTotal, p) })),
+      allowCustom: true,
+    });
+    return result.status === 'answered' ? result.value.tipAmount : null;
+  }
+
+  /**
+   * After the payment is taken and before the order is completed: capture a
+   * signature for a manual card payment at or over the threshold, then ask
+   * where to send a digital receipt. The receipt contact is stored on the
+   * order here, before it is completed and queued for sync.
+   */
+  async beforeCompletion(input: CompletionPromptInput): Promise<CompletionPromptOutcome> {
+    const settings = customerDisplayServiceFactory.getSettings();
+    const outcome: CompletionPromptOutcome = {};
+    if (!this.canPrompt()) return outcome;
+
+    const threshold = settings.signatureThreshold;
+    if (input.method === 'card' && threshold != null && input.amount >= threshold) {
+      const result = await this.ask({ type: 'signature', total: input.amount, currencyCode: input.currencyCode });
+      if (result.status === 'answered') {
+        outcome.signature = result.value.svg;
+      } else {
+        this.logger.warn(`No signature for order ${input.orderId} (${result.status})`);
+      }
+    }
+
+    if (settings.askForReceipt && !input.hasCustomerEmail) {
+      const result = await this.ask({ type: 'receipt', allowEmail: true, allowPhone: true });
+      if (result.status === 'answered') {
+        try {
+          await getOrderRepository().updateReceiptContact(input.orderId, result.value.email ?? null, result.value.phone ?? null);
+        } catch (error) {
+          this.logger.error(
+            { message: `Failed to save receipt contact for order ${input.orderId}` },
+            error instanceof Error ? error : new Error(String(error))
+          );
+        }
+      }
+    }
+
+    return outcome;
+  }
+
+  /** Called when the cashier skips the question on the display */
+  async skip(): Promise<void> {
+    await customerDisplayServiceFactory.getService().cancelPrompt();
+  }
+
+  private async ask<T extends DisplayPromptType>(prompt: DisplayPromptOf<T>): Promise<DisplayPromptResult<T>> {
+    const display = customerDisplayServiceFactory.getService();
+    if (!display.canPrompt()) return { status: 'unavailable' };
+
+    this.current = prompt.type;
+    this.notifyListeners();
+    try {
+      return await display.prompt(prompt, customerDisplayServiceFactory.getPromptTimeoutMs(prompt.type));
+    } finally {
+      this.current = null;
+      this.notifyListeners();
+    }
+  }
+
+  // ── Listener pattern for React components ────────────────────────────
+
+  private listeners: Array<() => void> = [];
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(l => l());
+  }
+}
+
+function toAgeDeclaration(status: DisplayPromptResult<'age'>['status']): AgeDeclaration {
+  switch (status) {
+    case 'answered':
+      return 'confirmed';
+    case 'cancelled':
+      return 'skipped';
+    default:
+      return status;
+  }
+}
+
+export const customerPromptService = CustomerPromptService.getInstance();
@@ -3,6 +3,9 @@ import {
   CustomerDisplayState,
   DisplayConnectionConfig,
   DisplayDriverType,
+  DisplayPromptOf,
+  DisplayPromptResult,
+  DisplayPromptType,
 } from './CustomerDisplayServiceInterface';
 
 /**
@@ -15,6 +18,13 @@ export class NoOpDisplayService implements CustomerDisplayServiceInterface {
   async showIdle(_message?: string): Promise<void> {}
   async showPayment(_total: number, _currencyCode: string): Promise<void> {}
   async showThankYou(_message?: string): Promise<void> {}
+  canPrompt(): boolean {
+    return false;
+  }
+  async prompt<T extends DisplayPromptType>(_prompt: DisplayPromptOf<T>, _timeoutMs?: number): Promise<DisplayPromptResult<T>> {
+    return { status: 'unavailable' };
+  }
+  async cancelPrompt(): Promise<void> {}
   isConnected(): boolean {
     return false;
   }
@@ -0,0 +1,147 @@
+jest.mock('../logger/LoggerFactory', () => ({
+  LoggerFactory: {
+    getInstance: () => ({
+      createLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }),
+    }),
+  },
+}));
+
+import { WebSocketDisplayService } from './WebSocketDisplayService';
+
+/** Minimal stand-in for the browser / React Native WebSocket */
+class FakeWebSocket {
+  static OPEN = 1;
+  static instances: FakeWebSocket[] = [];
+  readyState = 0;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  sent: Record<string, unknown>[] = [];
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = 3;
+  }
+
+  // ── Test helpers: act as the display server ──
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(message: Record<string, unknown>) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  lastPrompt(): Record<string, unknown> {
+    return [...this.sent].reverse().find(m => m.type === 'prompt') ?? {};
+  }
+
+  drop() {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+}
+
+async function connect(service: WebSocketDisplayService, displayAttached = true): Promise<FakeWebSocket> {
+  const connecting = service.connect({ endpoint: 'ws://127.0.0.1:8788/pos' });
+  const socket = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+  socket.open();
+  await expect(connecting).resolves.toBe(true);
+  if (displayAttached) socket.receive({ type: 'display', connected: true });
+  return socket;
+}
+
+describe('WebSocketDisplayService', () => {
+  let service: WebSocketDisplayService;
+
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    globalThis.WebSocket = FakeWebSocket as unknown as typeof WebSocket;
+    service = new WebSocketDisplayService();
+  });
+
+  afterEach(async () => {
+    await service.disconnect();
+    jest.useRealTimers();
+  });
+
+  it('sends screens to the display server', async () => {
+    const socket = await connect(service);
+    await service.showPayment(12.5, 'GBP');
+
+    expect(socket.sent).toEqual([{ type: 'payment', payload: { total: 12.5, currencyCode: 'GBP' } }]);
+  });
+
+  it('only prompts once the server reports an attached display', async () => {
+    const socket = await connect(service, false);
+    expect(service.canPrompt()).toBe(false);
+    await expect(service.prompt({ type: 'age', minimumAge: 18 })).resolves.toEqual({ status: 'unavailable' });
+    expect(socket.sent).toHaveLength(0);
+
+    socket.receive({ type: 'display', connected: true });
+    expect(service.canPrompt()).toBe(true);
+  });
+
+  it('resolves a prompt with the display response', async () => {
+    const socket = await connect(service);
+    const asking = service.prompt({ type: 'receipt', allowEmail: true, allowPhone: false });
+    const { id } = socket.lastPrompt();
+
+    socket.receive({ type: 'response', id, status: 'answered', value: { email: ' Ada@Example.com ' } });
+
+    await expect(asking).resolves.toEqual({ status: 'answered', value: { email: 'ada@example.com', phone: undefined } });
+  });
+
+  it('ignores responses to other prompts and invalid answers', async () => {
+    jest.useFakeTimers();
+    const socket = await connect(service);
+    const asking = service.prompt({ type: 'age', minimumAge: 18 }, 5000);
+    const { id } = socket.lastPrompt();
+
+    socket.receive({ type: 'response', id: 'someone-else', status: 'answered', value: { confirmed: true } });
+    socket.receive({ type: 'response', id, status: 'answered', value: { confirmed: 'yes' } });
+    jest.advanceTimersByTime(5000);
+
+    await expect(asking).resolves.toEqual({ status: 'timeout' });
+    expect(socket.sent[socket.sent.length - 1]).toEqual({ type: 'cancel', id });
+  });
+
+  it('withdraws the open prompt when the cashier cancels it', async () => {
+    const socket = await connect(service);
+    const asking = service.prompt({ type: 'loyalty', programName: 'Rewards' });
+    const { id } = socket.lastPrompt();
+
+    await service.cancelPrompt();
+
+    await expect(asking).resolves.toEqual({ status: 'cancelled' });
+    expect(socket.sent[socket.sent.length - 1]).toEqual({ type: 'cancel', id });
+  });
+
+  it('ends the open prompt as unavailable when the display goes away', async () => {
+    const socket = await connect(service);
+    const asking = service.prompt({ type: 'signature', total: 80, currencyCode: 'GBP' });
+
+    socket.receive({ type: 'display', connected: false });
+
+    await expect(asking).resolves.toEqual({ status: 'unavailable' });
+    expect(service.canPrompt()).toBe(false);
+  });
+
+  it('ends the open prompt as unavailable when the connection drops', async () => {
+    const socket = await connect(service);
+    const asking = service.prompt({ type: 'age', minimumAge: 18 });
+
+    socket.drop();
+
+    await expect(asking).resolves.toEqual({ status: 'unavailable' });
+  });
+});
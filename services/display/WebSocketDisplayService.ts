@@ -3,7 +3,11 @@ import {
   CustomerDisplayState,
   DisplayConnectionConfig,
   DisplayDriverType,
+  DisplayPromptOf,
+  DisplayPromptResult,
+  DisplayPromptType,
 } from './CustomerDisplayServiceInterface';
+import { DisplayIncomingMessage, DisplayOutgoingMessage, DisplayPromptBroker } from './displayPrompts';
 import { LoggerFactory } from '../logger/LoggerFactory';
 
 /**
@@ -11,19 +15,27 @@ import { LoggerFactory } from '../logger/LoggerFactory';
  * Pushes basket state to a browser running on a second device (tablet, monitor).
  * The display browser connects to this WebSocket server and renders the state.
  *
- * On Electron, the main process hosts the WebSocket server.
- * On mobile/tablet, a lightweight WebSocket server can be run via a native module.
+ * On Electron, the main process hosts the WebSocket server and serves the
+ * reference display page (electron/ipc/displayServer.js); the POS connects to
+ * its `/pos` socket. On mobile/tablet, a lightweight WebSocket server can be
+ * run via a native module.
+ *
+ * The display answers prompts on the same socket (see displayPrompts.ts).
+ * Prompts are only sent once the server has reported an attached display.
  */
 export class WebSocketDisplayService implements CustomerDisplayServiceInterface {
   readonly driverType: DisplayDriverType = 'websocket';
   private logger = LoggerFactory.getInstance().createLogger('WebSocketDisplayService');
   private ws: WebSocket | null = null;
   private config: DisplayConnectionConfig | null = null;
+  private displayAttached = false;
+  private prompts = new DisplayPromptBroker(message => this.send(message));
 
   async connect(config: DisplayConnectionConfig): Promise<boolean> {
     try {
       this.config = config;
-      this.ws = new WebSocket(config.endpoint!);
+      const ws = new WebSocket(config.endpoint!);
+      this.ws = ws;
 
       const timeoutMs = config.connectionTimeoutMs ?? 5000;
 
@@ -33,16 +45,24 @@ export class WebSocketDisplayService implements CustomerDisplayServiceInterface
           resolve(false);
         }, timeoutMs);
 
-        this.ws!.onopen = () => {
+        ws.onopen = () => {
           clearTimeout(timeout);
           this.logger.info(`Customer display connected via WebSocket: ${config.endpoint}`);
           resolve(true);
         };
 
-        this.ws!.onerror = () => {
+        ws.onerror = () => {
           clearTimeout(timeout);
           resolve(false);
         };
+
+        ws.onmessage = event => this.handleMessage(event.data);
+
+        ws.onclose = () => {
+          if (this.ws !== ws) return;
+          this.displayAttached = false;
+          this.prompts.cancel('unavailable');
+        };
       });
     } catch (error) {
       this.logger.error({ message: 'Failed to connect customer display' }, error instanceof Error ? error : new Error(String(error)));
@@ -51,6 +71,8 @@ export class WebSocketDisplayService implements CustomerDisplayServiceInterface
   }
 
   async disconnect(): Promise<void> {
+    this.prompts.cancel('unavailable');
+    this.displayAttached = false;
     this.ws?.close();
     this.ws = null;
     this.logger.info('Customer display disconnected');
@@ -60,6 +82,10 @@ export class WebSocketDisplayService implements CustomerDisplayServiceInterface
     return this.ws?.readyState === WebSocket.OPEN;
   }
 
+  canPrompt(): boolean {
+    return this.isConnected() && this.displayAttached;
+  }
+
   async update(state: CustomerDisplayState): Promise<void> {
     this.send({ type: 'update', payload: state });
   }
@@ -76,7 +102,38 @@ export class WebSocketDisplayService implements CustomerDisplayServiceInterface
     this.send({ type: 'thankyou', payload: { message } });
   }
 
-  private send(message: unknown): void {
+  async prompt<T extends DisplayPromptType>(prompt: DisplayPromptOf<T>, timeoutMs?: number): Promise<DisplayPromptResult<T>> {
+    if (!this.canPrompt()) return { status: 'unavailable' };
+    return this.prompts.ask(prompt, timeoutMs);
+  }
+
+  async cancelPrompt(): Promise<void> {
+    this.prompts.cancel();
+  }
+
+  private handleMessage(data: unknown): void {
+    let message: DisplayIncomingMessage;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      this.logger.warn({ message: 'Ignoring malformed customer display message' });
+      return;
+    }
+
+    switch (message.type) {
+      case 'response':
+        if (!this.prompts.respond(message)) {
+          this.logger.warn({ message: `Ignoring customer display response to ${message.id}` });
+        }
+        break;
+      case 'display':
+        this.displayAttached = message.connected === true;
+        if (!this.displayAttached) this.prompts.cancel('unavailable');
+        break;
+    }
+  }
+
+  private send(message: DisplayOutgoingMessage): void {
     if (!this.isConnected()) return;
     try {
       this.ws!.send(JSON.stringify(message));
@@ -0,0 +1,116 @@
+import { DisplayOutgoingMessage, DisplayPromptBroker, parseAnswer } from './displayPrompts';
+
+describe('parseAnswer', () => {
+  const tip = { type: 'tip' as const, total: 40, currencyCode: 'GBP', options: [{ label: '10%', tipAmount: 4 }], allowCustom: false };
+
+  it('accepts a preset tip and rounds to the cent', () => {
+    expect(parseAnswer(tip, { tipAmount: 4.001 })).toEqual({ tipAmount: 4 });
+    expect(parseAnswer(tip, { tipAmount: 0 })).toEqual({ tipAmount: 0 });
+  });
+
+  it('rejects a tip that is negative, not a number, or not offered', () => {
+    expect(parseAnswer(tip, { tipAmount: -1 })).toBeNull();
+    expect(parseAnswer(tip, { tipAmount: 'lots' })).toBeNull();
+    expect(parseAnswer(tip, { tipAmount: 7 })).toBeNull();
+    expect(parseAnswer({ ...tip, allowCustom: true }, { tipAmount: 7 })).toEqual({ tipAmount: 7 });
+  });
+
+  it('keeps only the receipt contacts the prompt asked for', () => {
+    const receipt = { type: 'receipt' as const, allowEmail: true, allowPhone: false };
+    expect(parseAnswer(receipt, { email: 'Ada@Example.com', phone: '+44 7700 900123' })).toEqual({
+      email: 'ada@example.com',
+      phone: undefined,
+    });
+    expect(parseAnswer(receipt, { email: 'not-an-email' })).toBeNull();
+    expect(parseAnswer({ ...receipt, allowPhone: true }, { phone: '+44 7700 900123' })).toEqual({
+      email: undefined,
+      phone: '+44 7700 900123',
+    });
+  });
+
+  it('requires an email to join loyalty and drops an invalid phone', () => {
+    const loyalty = { type: 'loyalty' as const, programName: 'Rewards' };
+    expect(parseAnswer(loyalty, { name: 'Ada' })).toBeNull();
+    expect(parseAnswer(loyalty, { email: 'ada@example.com', name: ' Ada ', phone: 'call me' })).toEqual({
+      email: 'ada@example.com',
+      name: 'Ada',
+      phone: undefined,
+    });
+  });
+
+  it('only accepts an explicit age confirmation', () => {
+    const age = { type: 'age' as const, minimumAge: 18 };
+    expect(parseAnswer(age, { confirmed: true })).toEqual({ confirmed: true });
+    expect(parseAnswer(age, { confirmed: 'true' })).toBeNull();
+  });
+
+  it('accepts signature path data and nothing else', () => {
+    const signature = { type: 'signature' as const, total: 80, currencyCode: 'GBP' };
+    expect(parseAnswer(signature, { svg: 'M10 20 L30 40' })).toEqual({ svg: 'M10 20 L30 40' });
+    expect(parseAnswer(signature, { svg: '<script>alert(1)</script>' })).toBeNull();
+    expect(parseAnswer(signature, { svg: `M0 0 ${'L1 1 '.repeat(30_000)}` })).toBeNull();
+  });
+});
+
+describe('DisplayPromptBroker', () => {
+  let sent: DisplayOutgoingMessage[];
+  let broker: DisplayPromptBroker;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    sent = [];
+    broker = new DisplayPromptBroker(message => sent.push(message));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const lastId = () => {
+    const prompt = sent.filter(m => m.type === 'prompt').pop();
+    return prompt && prompt.type === 'prompt' ? prompt.id : '';
+  };
+
+  it('resolves declined when the customer says no', async () => {
+    const asking = broker.ask({ type: 'loyalty', programName: 'Rewards' });
+    expect(broker.respond({ type: 'response', id: lastId(), status: 'declined' })).toBe(true);
+    await expect(asking).resolves.toEqual({ status: 'declined' });
+    expect(broker.openPrompt).toBeNull();
+  });
+
+  it('times out after the default for the prompt type and withdraws it', async () => {
+    const asking = broker.ask({ type: 'age', minimumAge: 18 });
+    const id = lastId();
+
+    jest.advanceTimersByTime(59_999);
+    expect(broker.openPrompt).not.toBeNull();
+    jest.advanceTimersByTime(1);
+
+    await expect(asking).resolves.toEqual({ status: 'timeout' });
+    expect(sent[sent.length - 1]).toEqual({ type: 'cancel', id });
+  });
+
+  it('cancels the open prompt when another is asked', async () => {
+    const first = broker.ask({ type: 'age', minimumAge: 18 });
+    const firstId = lastId();
+    broker.ask({ type: 'loyalty', programName: 'Rewards' });
+
+    await expect(first).resolves.toEqual({ status: 'cancelled' });
+    expect(sent.map(m => m.type)).toEqual(['prompt', 'cancel', 'prompt']);
+    expect(broker.respond({ type: 'response', id: firstId, status: 'answered', value: { confirmed: true } })).toBe(false);
+  });
+
+  it('does not message a display that has gone away', async () => {
+    const asking = broker.ask({ type: 'age', minimumAge: 18 });
+    broker.cancel('unavailable');
+
+    await expect(asking).resolves.toEqual({ status: 'unavailable' });
+    expect(sent.map(m => m.type)).toEqual(['prompt']);
+  });
+
+  it('keeps the prompt open after an invalid answer', () => {
+    broker.ask({ type: 'age', minimumAge: 18 });
+    expect(broker.respond({ type: 'response', id: lastId(), status: 'answered', value: {} })).toBe(false);
+    expect(broker.openPrompt).toEqual({ type: 'age', minimumAge: 18 });
+  });
+});
@@ -0,0 +1,170 @@
+import { roundMoney } from '../../utils/money';
+import {
+  CustomerDisplayState,
+  DisplayPrompt,
+  DisplayPromptAnswers,
+  DisplayPromptOf,
+  DisplayPromptResult,
+  DisplayPromptType,
+} from './CustomerDisplayServiceInterface';
+
+/**
+ * Messages exchanged with an interactive display, one JSON object per frame.
+ *
+ * POS → display: the screens (`update`, `idle`, `payment`, `thankyou`),
+ * `prompt` (carries an `id`) and `cancel` (withdraws the prompt with that id).
+ * Display → POS: `response` to a prompt. The relay that serves the display
+ * (electron/ipc/displayServer.js) also tells the POS with `display` whether
+ * any display is attached; without a relay the POS never prompts.
+ */
+export type DisplayOutgoingMessage =
+  | { type: 'update'; payload: CustomerDisplayState }
+  | { type: 'idle'; payload: { message?: string } }
+  | { type: 'payment'; payload: { total: number; currencyCode: string } }
+  | { type: 'thankyou'; payload: { message?: string } }
+  | { type: 'prompt'; id: string; prompt: DisplayPrompt }
+  | { type: 'cancel'; id: string };
+
+export type DisplayIncomingMessage =
+  | { type: 'response'; id: string; status: 'answered' | 'declined'; value?: unknown }
+  | { type: 'display'; connected: boolean };
+
+/** How long the customer has to answer, per prompt type */
+export const DEFAULT_PROMPT_TIMEOUT_MS: Record<DisplayPromptType, number> = {
+  tip: 60_000,
+  receipt: 90_000,
+  loyalty: 120_000,
+  age: 60_000,
+  signature: 90_000,
+};
+
+/** Signatures are SVG path data; anything longer is not a signature */
+const MAX_SIGNATURE_LENGTH = 100_000;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[0-9][0-9 ()-]{5,19}$/;
+const SVG_PATH_PATTERN = /^[MLQCZmlqcz0-9.,\s-]+$/;
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
+/**
+ * Check a display's answer before the POS uses it; the display runs on a
+ * customer-facing device, so nothing it sends is trusted. Returns null for an
+ * answer that does not fit the prompt.
+ */
+export function parseAnswer<T extends DisplayPromptType>(prompt: DisplayPromptOf<T>, value: unknown): DisplayPromptAnswers[T] | null {
+  const v = (value ?? {}) as Record<string, unknown>;
+  const p: DisplayPrompt = prompt;
+  switch (p.type) {
+    case 'tip': {
+      const tipAmount = Number(v.tipAmount);
+      if (!Number.isFinite(tipAmount) || tipAmount < 0) return null;
+      const rounded = roundMoney(tipAmount);
+      if (!p.allowCustom && rounded > 0 && !p.options.some(o => o.tipAmount === rounded)) return null;
+      return { tipAmount: rounded } as DisplayPromptAnswers[T];
+    }
+    case 'receipt': {
+      const email = text(v.email)?.toLowerCase();
+      const phone = text(v.phone);
+      const validEmail = email && p.allowEmail && EMAIL_PATTERN.test(email) ? email : undefined;
+      const validPhone = phone && p.allowPhone && PHONE_PATTERN.test(phone) ? phone : undefined;
+      if (!validEmail && !validPhone) return null;
+      return { email: validEmail, phone: validPhone } as DisplayPromptAnswers[T];
+    }
+    case 'loyalty': {
+      const email = text(v.email)?.toLowerCase();
+      if (!email || !EMAIL_PATTERN.test(email)) return null;
+      const phone = text(v.phone);
+      return {
+        email,
+        name: text(v.name)?.slice(0, 100),
+        phone: phone && PHONE_PATTERN.test(phone) ? phone : undefined,
+      } as DisplayPromptAnswers[T];
+    }
+    case 'age':
+      return v.confirmed === true ? ({ confirmed: true } as DisplayPromptAnswers[T]) : null;
+    case 'signature': {
+      const svg = text(v.svg);
+      if (!svg || svg.length > MAX_SIGNATURE_LENGTH || !SVG_PATH_PATTERN.test(svg)) return null;
+      return { svg } as DisplayPromptAnswers[T];
+    }
+  }
+  return null;
+}
+
+interface OpenPrompt {
+  id: string;
+  prompt: DisplayPrompt;
+  resolve: (result: DisplayPromptResult<DisplayPromptType>) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Keeps track of the one prompt open on a display: sends it, matches the
+ * response to it, and ends it on timeout or cancellation. Display services
+ * hand it their `send` and feed it the responses they receive.
+ */
+export class DisplayPromptBroker {
+  private open: OpenPrompt | null = null;
+  private seq = 0;
+
+  constructor(private send: (message: DisplayOutgoingMessage) => void) {}
+
+  get openPrompt(): DisplayPrompt | null {
+    return this.open?.prompt ?? null;
+  }
+
+  ask<T extends DisplayPromptType>(prompt: DisplayPromptOf<T>, timeoutMs?: number): Promise<DisplayPromptResult<T>> {
+    this.cancel();
+    const id = `prompt-${Date.now()}-${++this.seq}`;
+
+    return new Promise<DisplayPromptResult<T>>(resolve => {
+      const timer = setTimeout(() => this.finish(id, { status: 'timeout' }, true), timeoutMs ?? DEFAULT_PROMPT_TIMEOUT_MS[prompt.type]);
+      this.open = { id, prompt, resolve: resolve as OpenPrompt['resolve'], timer };
+      try {
+        this.send({ type: 'prompt', id, prompt });
+      } catch {
+        this.finish(id, { status: 'unavailable' }, false);
+      }
+    });
+  }
+
+  /**
+   * Match a display's response to the open prompt. Returns false when it is
+   * for another prompt or its answer is invalid; the prompt then stays open.
+   */
+  respond(message: Extract<DisplayIncomingMessage, { type: 'response' }>): boolean {
+    const open = this.open;
+    if (!open || open.id !== message.id) return false;
+    if (message.status === 'declined') {
+      this.finish(open.id, { status: 'declined' }, false);
+      return true;
+    }
+    const value = parseAnswer(open.prompt, message.value);
+    if (value === null) return false;
+    this.finish(open.id, { status: 'answered', value }, false);
+    return true;
+  }
+
+  /** End the open prompt; the display is told to close it unless it has gone away */
+  cancel(status: 'cancelled' | 'unavailable' = 'cancelled'): void {
+    if (this.open) this.finish(this.open.id, { status }, status === 'cancelled');
+  }
+
+  private finish(id: string, result: DisplayPromptResult<DisplayPromptType>, notifyDisplay: boolean): void {
+    const open = this.open;
+    if (!open || open.id !== id) return;
+    this.open = null;
+    clearTimeout(open.timer);
+    if (notifyDisplay) {
+      try {
+        this.send({ type: 'cancel', id });
+      } catch {
+        // The display is gone; nothing to close
+      }
+    }
+    open.resolve(result);
+  }
+}
@@ -0,0 +1,136 @@
+import {
+  CustomerDisplayServiceInterface,
+  CustomerDisplayState,
+  DisplayConnectionConfig,
+  DisplayDriverType,
+  DisplayPrompt,
+  DisplayPromptAnswers,
+  DisplayPromptOf,
+  DisplayPromptResult,
+  DisplayPromptType,
+} from '../CustomerDisplayServiceInterface';
+import { DisplayOutgoingMessage, DisplayPromptBroker } from '../displayPrompts';
+import { LoggerFactory } from '../../logger/LoggerFactory';
+
+/** A scripted reply: an answer, a decline, or no answer at all (the prompt times out) */
+export type MockDisplayReply<T extends DisplayPromptType> = DisplayPromptAnswers[T] | 'declined' | 'timeout';
+
+/** What the mock answers when nothing is scripted */
+const DEFAULT_REPLIES: { [T in DisplayPromptType]: (prompt: DisplayPromptOf<T>) => MockDisplayReply<T> } = {
+  tip: prompt => ({ tipAmount: prompt.options[0]?.tipAmount ?? 0 }),
+  receipt: () => ({ email: 'customer@example.com' }),
+  loyalty: () => ({ email: 'customer@example.com', name: 'Mock Customer' }),
+  age: () => ({ confirmed: true }),
+  signature: () => ({ svg: 'M10 200 L200 120 L400 260 L600 140' }),
+};
+
+interface MockDisplayOptions {
+  /** Delay before a prompt is answered (default 1500 ms; use 0 in tests) */
+  replyDelayMs?: number;
+}
+
+/**
+ * In-memory customer display.
+ *
+ * Used in tests and when `mock` is chosen as the display type, so prompt
+ * flows can be exercised without a second screen. Records every screen and
+ * message sent to it, and answers prompts after `replyDelayMs` with the next
+ * scripted reply for that prompt type (see `reply()`), or a canned answer.
+ * Replies go through the same broker and validation as a real display.
+ */
+export class MockDisplayService implements CustomerDisplayServiceInterface {
+  readonly driverType: DisplayDriverType = 'mock';
+  private readonly logger = LoggerFactory.getInstance().createLogger('MockDisplayService');
+  private connected = false;
+  private replyDelayMs: number;
+  private replies = new Map<DisplayPromptType, MockDisplayReply<DisplayPromptType>[]>();
+  private prompts = new DisplayPromptBroker(message => this.receive(message));
+
+  /** Every message sent to the display, oldest first */
+  readonly messages: DisplayOutgoingMessage[] = [];
+
+  constructor(options: MockDisplayOptions = {}) {
+    this.replyDelayMs = options.replyDelayMs ?? 1500;
+  }
+
+  /** Queue the reply to the next prompt of this type */
+  reply<T extends DisplayPromptType>(type: T, reply: MockDisplayReply<T>): this {
+    this.replies.set(type, [...(this.replies.get(type) ?? []), reply as MockDisplayReply<DisplayPromptType>]);
+    return this;
+  }
+
+  /** Prompts asked so far, oldest first */
+  get promptsAsked(): DisplayPrompt[] {
+    return this.messages.flatMap(m => (m.type === 'prompt' ? [m.prompt] : []));
+  }
+
+  /** The screen last shown, from the most recent screen message */
+  get screen(): CustomerDisplayState['screen'] | null {
+    const last = [...this.messages].reverse().find(m => m.type !== 'prompt' && m.type !== 'cancel');
+    if (!last) return null;
+    return last.type === 'update' ? last.payload.screen : last.type;
+  }
+
+  async connect(_config: DisplayConnectionConfig): Promise<boolean> {
+    this.connected = true;
+    this.logger.info('[MOCK] Customer display connected');
+    return true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.prompts.cancel('unavailable');
+    this.connected = false;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  canPrompt(): boolean {
+    return this.connected;
+  }
+
+  async update(state: CustomerDisplayState): Promise<void> {
+    this.receive({ type: 'update', payload: state });
+  }
+
+  async showIdle(message?: string): Promise<void> {
+    this.receive({ type: 'idle', payload: { message } });
+  }
+
+  async showPayment(total: number, currencyCode: string): Promise<void> {
+    this.receive({ type: 'payment', payload: { total, currencyCode } });
+  }
+
+  async showThankYou(message?: string): Promise<void> {
+    this.receive({ type: 'thankyou', payload: { message } });
+  }
+
+  async prompt<T extends DisplayPromptType>(prompt: DisplayPromptOf<T>, timeoutMs?: number): Promise<DisplayPromptResult<T>> {
+    if (!this.canPrompt()) return { status: 'unavailable' };
+    return this.prompts.ask(prompt, timeoutMs);
+  }
+
+  async cancelPrompt(): Promise<void> {
+    this.prompts.cancel();
+  }
+
+  /** Acts as the display: records the message and answers prompts */
+  private receive(message: DisplayOutgoingMessage): void {
+    if (!this.connected) return;
+    this.messages.push(message);
+    if (message.type !== 'prompt') return;
+
+    const queued = this.replies.get(message.prompt.type) ?? [];
+    const reply = queued.shift() ?? DEFAULT_REPLIES[message.prompt.type](message.prompt as never);
+    if (reply === 'timeout') return;
+
+    setTimeout(() => {
+      this.prompts.respond(
+        reply === 'declined'
+          ? { type: 'response', id: message.id, status: 'declined' }
+          : { type: 'response', id: message.id, status: 'answered', value: reply }
+      );
+    }, this.replyDelayMs);
+  }
+}
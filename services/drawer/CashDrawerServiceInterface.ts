@@ -3,6 +3,13 @@
  */
 export type DrawerDriverType = 'printer' | 'usb' | 'bluetooth' | 'network' | 'none';
 
+/**
+ * Why the drawer was opened. Recorded on the `drawer:opened` audit entry;
+ * X/Z-reports count the `no_sale` opens. `cash_movement` covers paid-ins,
+ * paid-outs, safe drops and float top-ups.
+ */
+export type DrawerOpenReason = 'sale' | 'no_sale' | 'cash_movement';
+
 /**
  * Interface for cash drawer operations.
  *
@@ -20,9 +27,10 @@ export interface CashDrawerServiceInterface {
 
   /**
    * Open the cash drawer.
+   * @param reason Why it is opened (default `sale`)
    * @returns true if the command was sent successfully
    */
-  open(): Promise<boolean>;
+  open(reason?: DrawerOpenReason): Promise<boolean>;
 
   /**
    * Check whether the drawer is currently open (if hardware supports it).
@@ -1,4 +1,4 @@
-import { CashDrawerServiceInterface, DrawerDriverType } from './CashDrawerServiceInterface';
+import { CashDrawerServiceInterface, DrawerDriverType, DrawerOpenReason } from './CashDrawerServiceInterface';
 import { LoggerFactory } from '../logger/LoggerFactory';
 import { getElectronAPI, ElectronPrinterConfig } from '../../utils/electron';
 
@@ -23,7 +23,7 @@ export class ElectronDrawerDriver implements CashDrawerServiceInterface {
     this.pin = pin;
   }
 
-  async open(): Promise<boolean> {
+  async open(reason: DrawerOpenReason = 'sale'): Promise<boolean> {
     const api = getElectronAPI();
     if (!api) {
       this.logger.warn('ElectronAPI not available — cannot open drawer');
@@ -32,7 +32,15 @@ export class ElectronDrawerDriver implements CashDrawerServiceInterface {
 
     try {
       this.logger.info('Opening cash drawer via Electron IPC');
-      return await api.drawerOpen(this.printerConfig, this.pin);
+      const result = await api.drawerOpen(this.printerConfig, this.pin);
+      if (result) {
+        const { auditLogService } = await import('../audit/AuditLogService');
+        await auditLogService.log('drawer:opened', {
+          details: `Cash drawer opened via Electron (pin ${this.pin})`,
+          metadata: { pin: this.pin, method: 'electron', reason },
+        });
+      }
+      return result;
     } catch (error) {
       this.logger.error({ message: 'Failed to open drawer' }, error instanceof Error ? error : new Error(String(error)));
       return false;
@@ -1,4 +1,4 @@
-import { CashDrawerServiceInterface, DrawerDriverType } from './CashDrawerServiceInterface';
+import { CashDrawerServiceInterface, DrawerDriverType, DrawerOpenReason } from './CashDrawerServiceInterface';
 import { BasePrinterService } from '../printer/BasePrinterService';
 import { LoggerFactory } from '../logger/LoggerFactory';
 
@@ -16,7 +16,7 @@ export class PrinterDrawerDriver implements CashDrawerServiceInterface {
     private pin: 2 | 5 = 2
   ) {}
 
-  async open(): Promise<boolean> {
+  async open(reason: DrawerOpenReason = 'sale'): Promise<boolean> {
     if (!this.printer.isConnected()) {
       this.logger.warn('Cannot open drawer — printer not connected');
       return false;
@@ -31,7 +31,7 @@ export class PrinterDrawerDriver implements CashDrawerServiceInterface {
         const { auditLogService } = await import('../audit/AuditLogService');
         await auditLogService.log('drawer:opened', {
           details: `Cash drawer opened via printer (pin ${this.pin})`,
-          metadata: { pin: this.pin, method: 'printer' },
+          metadata: { pin: this.pin, method: 'printer', reason },
         });
       }
       return result;
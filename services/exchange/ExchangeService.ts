@@ -1,4 +1,5 @@
 import { generateUUID } from '../../utils/uuid';
+import { multiplyMoney } from '../../utils/money';
 import { BasketItem } from '../basket/basket';
 import { PaymentLine } from '../order/order';
 import { ReturnService } from '../refunds/RefundService';
@@ -59,7 +60,7 @@ export class ExchangeService {
   }
 
   createSession(originalOrderId: string, returnItems: ReturnLineInput[]): ExchangeSession {
-    const returnCredit = Math.round(returnItems.reduce((s, i) => s + i.price * i.quantity, 0) * 100) / 100;
+    const returnCredit = Math.round(returnItems.reduce((s, i) => s + multiplyMoney(i.price, i.quantity), 0) * 100) / 100;
     const base = {
       id: generateUUID(),
       originalOrderId,
@@ -74,14 +75,14 @@ export class ExchangeService {
 
   addItem(session: ExchangeSession, item: BasketItem): ExchangeSession {
     const newItems = [...session.newItems, item];
-    const newItemsTotal = Math.round(newItems.reduce((s, i) => s + i.price * i.quantity, 0) * 100) / 100;
+    const newItemsTotal = Math.round(newItems.reduce((s, i) => s + multiplyMoney(i.price, i.quantity), 0) * 100) / 100;
     const updated = { ...session, newItems, newItemsTotal };
     return { ...updated, ...calcTotals(updated) };
   }
 
   removeItem(session: ExchangeSession, itemId: string): ExchangeSession {
     const newItems = session.newItems.filter(i => i.id !== itemId);
-    const newItemsTotal = Math.round(newItems.reduce((s, i) => s + i.price * i.quantity, 0) * 100) / 100;
+    const newItemsTotal = Math.round(newItems.reduce((s, i) => s + multiplyMoney(i.price, i.quantity), 0) * 100) / 100;
     const updated = { ...session, newItems, newItemsTotal };
     return { ...updated, ...calcTotals(updated) };
   }
@@ -115,7 +116,7 @@ export class ExchangeService {
           variantId: i.variantId,
           productName: i.productName,
           quantity: i.quantity,
-          refundAmount: i.price * i.quantity,
+          refundAmount: multiplyMoney(i.price, i.quantity),
           restock: true,
           issueRefund: false,
         })),
@@ -0,0 +1,38 @@
+import { ECommercePlatform } from '../../utils/platforms';
+
+/**
+ * A gift card as returned by a platform API.
+ */
+export interface RemoteGiftCard {
+  /** Platform id of the card — needed for debit / credit calls */
+  remoteId: string;
+  code: string;
+  balanceCents: number;
+  currency?: string;
+  /** Disabled, expired or otherwise unusable on the platform */
+  disabled: boolean;
+  expiresAt?: Date;
+}
+
+/**
+ * Pluggable lookup / redemption for gift cards issued by an e-commerce
+ * platform. The local ledger is tried first; a provider is only consulted
+ * for codes the till has never seen.
+ *
+ * `debit` and `credit` are optional — a provider without them can check
+ * balances but its cards cannot be taken as tender at the till.
+ */
+export interface GiftCardProviderInterface {
+  readonly platform: ECommercePlatform;
+
+  initialize(): Promise<boolean>;
+
+  /** Look a card up by its code. Returns null when the platform does not know it. */
+  lookup(code: string): Promise<RemoteGiftCard | null>;
+
+  /** Take `amountCents` off the card. Returns the platform transaction id. */
+  debit?(card: RemoteGiftCard, amountCents: number, note: string): Promise<string>;
+
+  /** Put `amountCents` back on the card (reversal / refund). Returns the platform transaction id. */
+  credit?(card: RemoteGiftCard, amountCents: number, note: string): Promise<string>;
+}
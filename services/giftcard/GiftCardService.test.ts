@@ -0,0 +1,183 @@
+// In-memory gift card tables so the ledger arithmetic is exercised for real
+const mockCards: Array<Record<string, unknown>> = [];
+const mockEntries: Array<Record<string, unknown>> = [];
+let mockId = 0;
+
+jest.mock('../../repositories/GiftCardRepository', () => ({
+  giftCardRepository: {
+    create: jest.fn(async (input: Record<string, unknown>) => {
+      const id = `card-${++mockId}`;
+      mockCards.push({ id, status: 'active', source: 'local', expires_at: null, ...input, order_id: input.orderId ?? null });
+      return id;
+    }),
+    findByCode: jest.fn(async (code: string) => mockCards.find(c => c.code === code) ?? null),
+    findById: jest.fn(async (id: string) => mockCards.find(c => c.id === id) ?? null),
+    updateStatus: jest.fn(async (id: string, status: string) => {
+      const card = mockCards.find(c => c.id === id);
+      if (card) card.status = status;
+    }),
+    getBalanceCents: jest.fn(async (cardId: string) =>
+      Math.max(
+        0,
+        mockEntries.filter(e => e.card_id === cardId).reduce((sum, e) => sum + (e.amount_cents as number), 0)
+      )
+    ),
+    appendEntry: jest.fn(async (input: Record<string, unknown>) => {
+      const id = `entry-${++mockId}`;
+      mockEntries.push({
+        id,
+        card_id: input.cardId,
+        type: input.type,
+        amount_cents: input.amountCents,
+        order_id: input.orderId ?? null,
+        reason: input.reason ?? null,
+      });
+      return id;
+    }),
+    findEntryById: jest.fn(async (id: string) => mockEntries.find(e => e.id === id) ?? null),
+    findEntriesByOrder: jest.fn(async (orderId: string) => mockEntries.filter(e => e.order_id === orderId)),
+    findEntriesByCard: jest.fn(async (cardId: string) => mockEntries.filter(e => e.card_id === cardId)),
+  },
+}));
+
+jest.mock('../../repositories/KeyValueRepository', () => ({
+  keyValueRepository: { getObject: jest.fn().mockResolvedValue(null), setObject: jest.fn() },
+}));
+
+jest.mock('../audit/AuditLogService', () => ({
+  auditLogService: { log: jest.fn().mockResolvedValue(undefined) },
+}));
+
+jest.mock('../logger/LoggerFactory', () => ({
+  LoggerFactory: {
+    getInstance: () => ({
+      createLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }),
+    }),
+  },
+}));
+
+// Platform providers pull in the API clients — replace them with inert stubs
+jest.mock('./platforms/ShopifyGiftCardProvider', () => ({
+  ShopifyGiftCardProvider: jest.fn().mockImplementation(() => ({ platform: 'shopify', initialize: jest.fn(), lookup: jest.fn() })),
+}));
+jest.mock('./platforms/WooCommerceGiftCardProvider', () => ({
+  WooCommerceGiftCardProvider: jest.fn().mockImplementation(() => ({ platform: 'woocommerce', initialize: jest.fn(), lookup: jest.fn() })),
+}));
+
+import { giftCardService } from './GiftCardService';
+import { GiftCardProviderInterface } from './GiftCardProviderInterface';
+import { ECommercePlatform } from '../../utils/platforms';
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+async function balanceOf(code: string): Promise<number | undefined> {
+  return (await giftCardService.checkBalance(code))?.balanceCents;
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────
+
+describe('GiftCardService', () => {
+  beforeEach(() => {
+    mockCards.length = 0;
+    mockEntries.length = 0;
+  });
+
+  describe('selling', () => {
+    it('builds an untaxed basket line and activates it when the order is paid', async () => {
+      const line = await giftCardService.createBasketLine('gc-1234 5678', 25, 'activate');
+
+      expect(line.price).toBe(25);
+      expect(line.taxable).toBe(false);
+      expect(line.properties).toEqual({ giftCardCode: 'GC12345678', giftCardAction: 'activate' });
+      expect(await balanceOf('GC12345678')).toBeUndefined();
+
+      await giftCardService.fulfilOrder('order-1', [line]);
+      await giftCardService.fulfilOrder('order-1', [line]);
+
+      expect(await balanceOf('gc12345678')).toBe(2500);
+    });
+
+    it('refuses to sell a code that has already been issued', async () => {
+      await giftCardService.activate('GC1', 1000);
+      await expect(giftCardService.createBasketLine('GC1', 10, 'activate')).rejects.toThrow('already been issued');
+    });
+
+    it('reloads an existing card', async () => {
+      await giftCardService.activate('GC1', 1000);
+      const line = await giftCardService.createBasketLine('GC1', 5, 'reload');
+
+      await giftCardService.fulfilOrder('order-2', [line]);
+
+      expect(await balanceOf('GC1')).toBe(1500);
+    });
+  });
+
+  describe('redeeming', () => {
+    it('clamps a redemption to the balance', async () => {
+      await giftCardService.activate('GC1', 1000);
+
+      const result = await giftCardService.redeem('GC1', 'order-1', 2500);
+
+      expect(result.redeemedCents).toBe(1000);
+      expect(result.amountDollars).toBe(10);
+      expect(await balanceOf('GC1')).toBe(0);
+      await expect(giftCardService.redeem('GC1', 'order-2', 100)).rejects.toThrow('Insufficient');
+    });
+
+    it('reverses a single redemption only once', async () => {
+      await giftCardService.activate('GC1', 1000);
+      const { entryId } = await giftCardService.redeem('GC1', 'order-1', 400);
+
+      await giftCardService.reverseRedemption(entryId);
+      await giftCardService.reverseRedemption(entryId);
+
+      expect(await balanceOf('GC1')).toBe(1000);
+    });
+
+    it('debits platform cards through their provider', async () => {
+      const provider: GiftCardProviderInterface = {
+        platform: ECommercePlatform.SHOPIFY,
+        initialize: jest.fn().mockResolvedValue(true),
+        lookup: jest.fn().mockResolvedValue({ remoteId: 'r1', code: 'SHOP1', balanceCents: 3000, disabled: false }),
+        debit: jest.fn().mockResolvedValue('adj-1'),
+      };
+      giftCardService.registerProvider(provider);
+
+      const result = await giftCardService.redeem('shop1', 'order-1', 1200, ECommercePlatform.SHOPIFY);
+
+      expect(result.redeemedCents).toBe(1200);
+      expect(provider.debit).toHaveBeenCalledWith(expect.objectContaining({ remoteId: 'r1' }), 1200, 'POS order order-1');
+    });
+  });
+
+  describe('cancel and refund', () => {
+    it('restores tender and voids cards sold when an order is cancelled', async () => {
+      await giftCardService.activate('PAY', 2000);
+      await giftCardService.redeem('PAY', 'order-1', 500);
+      await giftCardService.fulfilOrder('order-1', [await giftCardService.createBasketLine('NEW', 30, 'activate')]);
+
+      await giftCardService.reverseOrder('order-1');
+      await giftCardService.reverseOrder('order-1');
+
+      expect(await balanceOf('PAY')).toBe(2000);
+      const sold = await giftCardService.checkBalance('NEW');
+      expect(sold).toMatchObject({ balanceCents: 0, status: 'void' });
+    });
+
+    it('refunds no more to a card than the order took from it', async () => {
+      await giftCardService.activate('PAY', 2000);
+      await giftCardService.redeem('PAY', 'order-1', 600);
+
+      expect(await giftCardService.refundToCards('order-1', 1000)).toBe(600);
+      expect(await giftCardService.refundToCards('order-1', 1000)).toBe(0);
+      expect(await balanceOf('PAY')).toBe(2000);
+    });
+
+    it('will not accept a returned card that has been spent', async () => {
+      await giftCardService.fulfilOrder('order-1', [await giftCardService.createBasketLine('NEW', 30, 'activate')]);
+      await giftCardService.redeem('NEW', 'order-2', 100);
+
+      await expect(giftCardService.voidForReturn('NEW', 'order-1')).rejects.toThrow('partly spent');
+    });
+  });
+});
@@ -0,0 +1,536 @@
+/**
+ * GiftCardService
+ *
+ * Sell, activate, reload, balance-check and redeem gift cards.
+ * All amounts in integer cents (per ADR-006).
+ * Local-first — cards sold at the till live in the SQLite ledger; codes the
+ * till has never seen are looked up on the platform through a
+ * GiftCardProviderInterface.
+ *
+ * Configuration key: giftCards.expiryMonths (number, default none — cards never expire)
+ *
+ * See: docs/specs/checkout/gift-cards.md
+ */
+
+import { giftCardRepository, GiftCardEntryRow, GiftCardRow } from '../../repositories/GiftCardRepository';
+import { keyValueRepository } from '../../repositories/KeyValueRepository';
+import { auditLogService } from '../audit/AuditLogService';
+import { LoggerFactory } from '../logger/LoggerFactory';
+import { BasketItem } from '../basket/basket';
+import { GiftCardProviderInterface, RemoteGiftCard } from './GiftCardProviderInterface';
+import { ShopifyGiftCardProvider } from './platforms/ShopifyGiftCardProvider';
+import { WooCommerceGiftCardProvider } from './platforms/WooCommerceGiftCardProvider';
+import { GIFT_CARD_PRODUCT_ID, GiftCard, GiftCardLineAction, GiftCardRedemption, getGiftCardLine, normalizeGiftCardCode } from './giftCard';
+import { ECommercePlatform } from '../../utils/platforms';
+import { getPlatformCapabilities } from '../../utils/platformCapabilities';
+import { toCents, toDollars } from '../../utils/money';
+
+const EXPIRY_CONFIG_KEY = 'giftCards.expiryMonths';
+
+/** Fields of an order line needed to fulfil a gift card sale */
+export type GiftCardOrderLine = Pick<BasketItem, 'productId' | 'properties' | 'price' | 'quantity'>;
+
+export class GiftCardService {
+  private static instance: GiftCardService;
+  private logger = LoggerFactory.getInstance().createLogger('GiftCardService');
+  private providers = new Map<ECommercePlatform, GiftCardProviderInterface>();
+  private readyProviders = new Set<ECommercePlatform>();
+
+  private constructor() {
+    this.registerProvider(new ShopifyGiftCardProvider());
+    this.registerProvider(new WooCommerceGiftCardProvider());
+  }
+
+  static getInstance(): GiftCardService {
+    if (!GiftCardService.instance) {
+      GiftCardService.instance = new GiftCardService();
+    }
+    return GiftCardService.instance;
+  }
+
+  // ── Providers ─────────────────────────────────────────────────────────
+
+  /** Register (or replace) the remote provider for a platform */
+  registerProvider(provider: GiftCardProviderInterface): void {
+    this.providers.set(provider.platform, provider);
+    this.readyProviders.delete(provider.platform);
+  }
+
+  private async getProvider(platform?: ECommercePlatform): Promise<GiftCardProviderInterface | null> {
+    if (!platform || getPlatformCapabilities(platform).giftCards === 'not_recommended') return null;
+
+    const provider = this.providers.get(platform);
+    if (!provider) return null;
+
+    if (!this.readyProviders.has(platform)) {
+      if (!(await provider.initialize())) return null;
+      this.readyProviders.add(platform);
+    }
+    return provider;
+  }
+
+  private async lookupRemote(
+    code: string,
+    platform?: ECommercePlatform
+  ): Promise<{ provider: GiftCardProviderInterface; card: RemoteGiftCard } | null> {
+    const provider = await this.getProvider(platform);
+    if (!provider) return null;
+
+    try {
+      const card = await provider.lookup(code);
+      return card ? { provider, card } : null;
+    } catch (err) {
+      this.logger.error(
+        { message: `Gift card lookup failed on ${provider.platform}` },
+        err instanceof Error ? err : new Error(String(err))
+      );
+      return null;
+    }
+  }
+
+  // ── Balance ───────────────────────────────────────────────────────────
+
+  /**
+   * Look a card up locally, then on the platform.
+   * Returns null when neither knows the code.
+   */
+  async checkBalance(code: string, platform?: ECommercePlatform): Promise<GiftCard | null> {
+    const normalized = normalizeGiftCardCode(code);
+    const row = await giftCardRepository.findByCode(normalized);
+
+    if (row && row.source === 'local') {
+      return this.toGiftCard(row, await giftCardRepository.getBalanceCents(row.id));
+    }
+
+    const remote = await this.lookupRemote(normalized, platform ?? (row?.source as ECommercePlatform | undefined));
+    if (!remote) return null;
+
+    return {
+      code: normalized,
+      status: remote.card.disabled ? 'void' : 'active',
+      source: remote.provider.platform,
+      balanceCents: remote.card.balanceCents,
+      currency: remote.card.currency,
+      expiresAt: remote.card.expiresAt,
+    };
+  }
+
+  // ── Sell / reload ─────────────────────────────────────────────────────
+
+  /**
+   * Build the basket line for selling or reloading a card.
+   * The card is only activated / loaded once the order is paid (fulfilOrder).
+   */
+  async createBasketLine(code: string, amountDollars: number, action: GiftCardLineAction): Promise<Omit<BasketItem, 'id'>> {
+    const normalized = normalizeGiftCardCode(code);
+    if (!normalized) throw new Error('Gift card code is required');
+    if (toCents(amountDollars) <= 0) throw new Error('Gift card amount must be positive');
+
+    const existing = await giftCardRepository.findByCode(normalized);
+    if (action === 'activate' && existing) {
+      throw new Error(`Gift card ${this.mask(normalized)} has already been issued`);
+    }
+    if (action === 'reload') {
+      if (!existing || existing.source !== 'local') throw new Error(`Gift card ${this.mask(normalized)} was not issued by this store`);
+      if (existing.status !== 'active') throw new Error(`Gift card ${this.mask(normalized)} is void`);
+    }
+
+    return {
+      productId: GIFT_CARD_PRODUCT_ID,
+      variantId: normalized,
+      name: action === 'activate' ? `Gift card ${this.mask(normalized)}` : `Gift card reload ${this.mask(normalized)}`,
+      price: amountDollars,
+      quantity: 1,
+      // Gift cards are a liability, not a taxable supply — tax is charged when the card is spent
+      taxable: false,
+      properties: { giftCardCode: normalized, giftCardAction: action },
+    };
+  }
+
+  /** Issue a new card with an opening balance. Returns the card id. */
+  async activate(
+    code: string,
+    amountCents: number,
+    orderId?: string | null,
+    activatedBy?: string,
+    customerEmail?: string
+  ): Promise<string> {
+    if (amountCents <= 0) throw new Error('Activation amount must be positive');
+
+    const normalized = normalizeGiftCardCode(code);
+    if (await giftCardRepository.findByCode(normalized)) {
+      throw new Error(`Gift card ${this.mask(normalized)} has already been issued`);
+    }
+
+    const cardId = await giftCardRepository.create({
+      code: normalized,
+      customerEmail,
+      orderId,
+      expiresAt: await this.getExpiryDate(),
+      createdBy: activatedBy,
+    });
+    const entryId = await giftCardRepository.appendEntry({
+      cardId,
+      type: 'activate',
+      amountCents,
+      orderId,
+      reason: 'Gift card sale',
+      createdBy: activatedBy,
+    });
+
+    await auditLogService.log('gift_card:activated', {
+      userId: activatedBy,
+      details: `Gift card ${this.mask(normalized)} activated: ${toDollars(amountCents).toFixed(2)}${orderId ? ` on order ${orderId}` : ''}`,
+      metadata: { cardId, amountCents, orderId, entryId },
+    });
+
+    this.logger.info(`Activated gift card ${this.mask(normalized)} with ${amountCents}¢`);
+    return cardId;
+  }
+
+  /** Add value to an active local card. Returns the ledger entry id. */
+  async reload(code: string, amountCents: number, orderId?: string | null, reloadedBy?: string): Promise<string> {
+    if (amountCents <= 0) throw new Error('Reload amount must be positive');
+
+    const card = await this.requireLocalCard(code);
+    const entryId = await giftCardRepository.appendEntry({
+      cardId: card.id,
+      type: 'reload',
+      amountCents,
+      orderId,
+      reason: 'Gift card reload',
+      createdBy: reloadedBy,
+    });
+
+    await auditLogService.log('gift_card:reloaded', {
+      userId: reloadedBy,
+      details: `Gift card ${this.mask(card.code)} reloaded: ${toDollars(amountCents).toFixed(2)}${orderId ? ` on order ${orderId}` : ''}`,
+      metadata: { cardId: card.id, amountCents, orderId, entryId },
+    });
+
+    return entryId;
+  }
+
+  /**
+   * Activate / reload every gift card line on a paid order.
+   * Safe to call more than once — lines already fulfilled for the order are skipped.
+   */
+  async fulfilOrder(orderId: string, lines: GiftCardOrderLine[], fulfilledBy?: string, customerEmail?: string): Promise<void> {
+    const fulfilled = await giftCardRepository.findEntriesByOrder(orderId);
+
+    for (const line of lines) {
+      const giftCard = getGiftCardLine(line);
+      if (!giftCard) continue;
+
+      const amountCents = toCents(line.price * line.quantity);
+      const card = await giftCardRepository.findByCode(giftCard.code);
+      if (card && fulfilled.some(e => e.card_id === card.id && e.type === giftCard.action)) continue;
+
+      if (giftCard.action === 'activate') {
+        await this.activate(giftCard.code, amountCents, orderId, fulfilledBy, customerEmail);
+      } else {
+        await this.reload(giftCard.code, amountCents, orderId, fulfilledBy);
+      }
+    }
+  }
+
+  // ── Redeem ────────────────────────────────────────────────────────────
+
+  /**
+   * Redeem a card as a tender. Clamps to the available balance.
+   * Local cards are debited in the ledger; platform cards are debited through
+   * their provider and mirrored in the ledger so the redemption can be reversed.
+   */
+  async redeem(code: string, orderId: string, requestedCents: number, platform?: ECommercePlatform): Promise<GiftCardRedemption> {
+    const normalized = normalizeGiftCardCode(code);
+    const row = await giftCardRepository.findByCode(normalized);
+
+    const result =
+      row && row.source === 'local'
+        ? await this.redeemLocal(row, orderId, requestedCents)
+        : await this.redeemRemote(normalized, row, orderId, requestedCents, platform);
+
+    await auditLogService.log('gift_card:redeemed', {
+      details: `Gift card ${this.mask(normalized)} redeemed: ${toDollars(result.redeemedCents).toFixed(2)} on order ${orderId}`,
+      metadata: { code: this.mask(normalized), redeemedCents: result.redeemedCents, orderId, entryId: result.entryId },
+    });
+
+    return result;
+  }
+
+  private async redeemLocal(row: GiftCardRow, orderId: string, requestedCents: number): Promise<GiftCardRedemption> {
+    this.assertUsable(row);
+
+    const balance = await giftCardRepository.getBalanceCents(row.id);
+    const redeemedCents = Math.min(requestedCents, balance);
+    if (redeemedCents <= 0) throw new Error('Insufficient gift card balance');
+
+    const entryId = await giftCardRepository.appendEntry({
+      cardId: row.id,
+      type: 'redeem',
+      amountCents: -redeemedCents,
+      orderId,
+      reason: 'Gift card redemption',
+    });
+
+    return { entryId, code: row.code, redeemedCents, amountDollars: toDollars(redeemedCents) };
+  }
+
+  private async redeemRemote(
+    code: string,
+    row: GiftCardRow | null,
+    orderId: string,
+    requestedCents: number,
+    platform?: ECommercePlatform
+  ): Promise<GiftCardRedemption> {
+    const remote = await this.lookupRemote(code, platform ?? (row?.source as ECommercePlatform | undefined));
+    if (!remote) throw new Error('Gift card not found');
+    if (remote.card.disabled) throw new Error('Gift card is disabled or expired');
+    if (!remote.provider.debit) throw new Error(`${remote.provider.platform} gift cards cannot be redeemed at the till`);
+
+    const redeemedCents = Math.min(requestedCents, remote.card.balanceCents);
+    if (redeemedCents <= 0) throw new Error('Insufficient gift card balance');
+
+    const transactionId = await remote.provider.debit(remote.card, redeemedCents, `POS order ${orderId}`);
+
+    const cardId =
+      row?.id ??
+      (await giftCardRepository.create({
+        code,
+        source: remote.provider.platform,
+        remoteId: remote.card.remoteId,
+        currency: remote.card.currency,
+      }));
+    const entryId = await giftCardRepository.appendEntry({
+      cardId,
+      type: 'redeem',
+      amountCents: -redeemedCents,
+      orderId,
+      remoteTransactionId: transactionId,
+      reason: 'Gift card redemption',
+    });
+
+    return { entryId, code, redeemedCents, amountDollars: toDollars(redeemedCents) };
+  }
+
+  /**
+   * Reverse a single redemption (e.g. payment line removed before completing the sale).
+   */
+  async reverseRedemption(entryId: string): Promise<void> {
+    try {
+      const entry = await giftCardRepository.findEntryById(entryId);
+      if (!entry || entry.type !== 'redeem' || !entry.order_id) return;
+
+      const orderEntries = await giftCardRepository.findEntriesByOrder(entry.order_id);
+      if (orderEntries.some(e => e.type === 'reversal' && e.reason === `Reversal of ${entryId}`)) return;
+
+      await this.credit(entry.card_id, 'reversal', Math.abs(entry.amount_cents), entry.order_id, `Reversal of ${entryId}`);
+      this.logger.info(`Reversed gift card redemption ${entryId} — restored ${Math.abs(entry.amount_cents)}¢`);
+    } catch (err) {
+      this.logger.error(
+        { message: `Failed to reverse gift card redemption ${entryId}` },
+        err instanceof Error ? err : new Error(String(err))
+      );
+    }
+  }
+
+  // ── Cancel / refund ───────────────────────────────────────────────────
+
+  /**
+   * Undo everything an order did to gift cards: restore what it redeemed and
+   * void what it loaded (up to the remaining balance). Called when an order
+   * is cancelled; safe to call more than once.
+   */
+  async reverseOrder(orderId: string, reversedBy?: string): Promise<void> {
+    try {
+      const entries = await giftCardRepository.findEntriesByOrder(orderId);
+
+      for (const [cardId, cardEntries] of this.groupByCard(entries)) {
+        const outstandingCents = this.outstandingRedeemedCents(cardEntries);
+        if (outstandingCents > 0) {
+          await this.credit(cardId, 'reversal', outstandingCents, orderId, `Order ${orderId} cancelled`, reversedBy);
+        }
+
+        const loadedCents = this.sumEntries(cardEntries, ['activate', 'reload', 'void']);
+        if (loadedCents > 0) {
+          await this.voidLoad(cardId, loadedCents, orderId, `Order ${orderId} cancelled`, reversedBy, false);
+        }
+      }
+
+      if (entries.length > 0) {
+        await auditLogService.log('gift_card:reversed', {
+          userId: reversedBy,
+          details: `Gift card activity reversed for cancelled order ${orderId}`,
+          metadata: { orderId },
+        });
+      }
+    } catch (err) {
+      this.logger.error(
+        { message: `Failed to reverse gift card activity for order ${orderId}` },
+        err instanceof Error ? err : new Error(String(err))
+      );
+    }
+  }
+
+  /**
+   * Refund up to `amountCents` back onto the cards that paid for an order.
+   * Returns the amount refunded to cards — the caller refunds the rest to
+   * the other tenders.
+   */
+  async refundToCards(orderId: string, amountCents: number, refundedBy?: string): Promise<number> {
+    const entries = await giftCardRepository.findEntriesByOrder(orderId);
+    let remainingCents = amountCents;
+
+    for (const [cardId, cardEntries] of this.groupByCard(entries)) {
+      if (remainingCents <= 0) break;
+
+      const refundCents = Math.min(remainingCents, this.outstandingRedeemedCents(cardEntries));
+      if (refundCents <= 0) continue;
+
+      await this.credit(cardId, 'refund', refundCents, orderId, `Refund on order ${orderId}`, refundedBy);
+      remainingCents -= refundCents;
+    }
+
+    const refundedCents = amountCents - remainingCents;
+    if (refundedCents > 0) {
+      await auditLogService.log('gift_card:refunded', {
+        userId: refundedBy,
+        details: `Refunded ${toDollars(refundedCents).toFixed(2)} to gift card(s) for order ${orderId}`,
+        metadata: { orderId, refundedCents },
+      });
+    }
+    return refundedCents;
+  }
+
+  /**
+   * Void the value an order loaded onto a card when that card line is returned.
+   * Throws if part of the loaded value has already been spent.
+   */
+  async voidForReturn(code: string, orderId: string, voidedBy?: string): Promise<void> {
+    const card = await this.requireLocalCard(code);
+    const entries = (await giftCardRepository.findEntriesByOrder(orderId)).filter(e => e.card_id === card.id);
+    const loadedCents = this.sumEntries(entries, ['activate', 'reload', 'void']);
+    if (loadedCents <= 0) return;
+
+    await this.voidLoad(card.id, loadedCents, orderId, `Returned on order ${orderId}`, voidedBy, true);
+  }
+
+  // ── History ───────────────────────────────────────────────────────────
+
+  async getHistory(code: string, limit = 50): Promise<GiftCardEntryRow[]> {
+    const row = await giftCardRepository.findByCode(normalizeGiftCardCode(code));
+    return row ? giftCardRepository.findEntriesByCard(row.id, limit) : [];
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────────
+
+  /** Put value back on a card — through the provider for platform cards */
+  private async credit(
+    cardId: string,
+    type: 'refund' | 'reversal',
+    amountCents: number,
+    orderId: string,
+    reason: string,
+    createdBy?: string
+  ): Promise<void> {
+    const card = await giftCardRepository.findById(cardId);
+    if (!card) return;
+
+    let remoteTransactionId: string | null = null;
+    if (card.source !== 'local') {
+      const remote = await this.lookupRemote(card.code, card.source as ECommercePlatform);
+      if (!remote?.provider.credit) throw new Error(`Cannot credit ${card.source} gift card ${this.mask(card.code)}`);
+      remoteTransactionId = await remote.provider.credit(remote.card, amountCents, reason);
+    }
+
+    await giftCardRepository.appendEntry({ cardId, type, amountCents, orderId, remoteTransactionId, reason, createdBy });
+  }
+
+  private async voidLoad(
+    cardId: string,
+    loadedCents: number,
+    orderId: string,
+    reason: string,
+    voidedBy: string | undefined,
+    strict: boolean
+  ): Promise<void> {
+    const balance = await giftCardRepository.getBalanceCents(cardId);
+    if (strict && balance < loadedCents) {
+      throw new Error('Gift card has already been partly spent and cannot be returned');
+    }
+
+    const voidCents = Math.min(loadedCents, balance);
+    if (voidCents <= 0) return;
+
+    await giftCardRepository.appendEntry({ cardId, type: 'void', amountCents: -voidCents, orderId, reason, createdBy: voidedBy });
+
+    // A card sold by this order is dead once its load is gone; a reloaded card stays usable
+    const card = await giftCardRepository.findById(cardId);
+    if (card?.order_id === orderId && balance - voidCents <= 0) {
+      await giftCardRepository.updateStatus(cardId, 'void');
+    }
+
+    await auditLogService.log('gift_card:voided', {
+      userId: voidedBy,
+      details: `Gift card load of ${toDollars(voidCents).toFixed(2)} voided — ${reason}`,
+      metadata: { cardId, orderId, voidCents },
+    });
+  }
+
+  /** Redeemed on the order and not yet refunded or reversed */
+  private outstandingRedeemedCents(entries: GiftCardEntryRow[]): number {
+    return -this.sumEntries(entries, ['redeem', 'refund', 'reversal']);
+  }
+
+  private sumEntries(entries: GiftCardEntryRow[], types: GiftCardEntryRow['type'][]): number {
+    return entries.filter(e => types.includes(e.type)).reduce((sum, e) => sum + e.amount_cents, 0);
+  }
+
+  private groupByCard(entries: GiftCardEntryRow[]): Map<string, GiftCardEntryRow[]> {
+    const groups = new Map<string, GiftCardEntryRow[]>();
+    for (const entry of entries) {
+      groups.set(entry.card_id, [...(groups.get(entry.card_id) ?? []), entry]);
+    }
+    return groups;
+  }
+
+  private async requireLocalCard(code: string): Promise<GiftCardRow> {
+    const normalized = normalizeGiftCardCode(code);
+    const card = await giftCardRepository.findByCode(normalized);
+    if (!card || card.source !== 'local') throw new Error(`Gift card ${this.mask(normalized)} was not issued by this store`);
+    this.assertUsable(card);
+    return card;
+  }
+
+  private assertUsable(card: GiftCardRow): void {
+    if (card.status !== 'active') throw new Error('Gift card is void');
+    if (card.expires_at && card.expires_at < Date.now()) throw new Error('Gift card has expired');
+  }
+
+  private async getExpiryDate(): Promise<number | null> {
+    const months = await keyValueRepository.getObject<number>(EXPIRY_CONFIG_KEY);
+    if (!months || months <= 0) return null;
+    const expiry = new Date();
+    expiry.setMonth(expiry.getMonth() + months);
+    return expiry.getTime();
+  }
+
+  private toGiftCard(row: GiftCardRow, balanceCents: number): GiftCard {
+    return {
+      code: row.code,
+      status: row.status,
+      source: 'local',
+      balanceCents,
+      currency: row.currency ?? undefined,
+      customerEmail: row.customer_email ?? undefined,
+      expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+    };
+  }
+
+  /** Codes are bearer value — only the last four characters go into logs and labels */
+  private mask(code: string): string {
+    return `••${code.slice(-4)}`;
+  }
+}
+
+export const giftCardService = GiftCardService.getInstance();
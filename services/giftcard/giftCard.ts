@@ -0,0 +1,54 @@
+import { ECommercePlatform } from '../../utils/platforms';
+import { BasketItem } from '../basket/basket';
+
+/** Product id used for gift card sale / reload lines in the basket */
+export const GIFT_CARD_PRODUCT_ID = 'gift-card';
+
+/** What happens to the card when the order containing the line is paid */
+export type GiftCardLineAction = 'activate' | 'reload';
+
+/**
+ * A gift card as seen by the till — either held in the local ledger
+ * or looked up on the connected platform through a provider.
+ */
+export interface GiftCard {
+  code: string;
+  status: 'active' | 'void';
+  /** 'local' for cards sold at the till, otherwise the platform that holds the balance */
+  source: 'local' | ECommercePlatform;
+  balanceCents: number;
+  currency?: string;
+  customerEmail?: string;
+  expiresAt?: Date;
+}
+
+/** Result of redeeming a card as a tender */
+export interface GiftCardRedemption {
+  entryId: string;
+  code: string;
+  redeemedCents: number;
+  amountDollars: number;
+}
+
+/** Gift card details carried on a basket / order line */
+export interface GiftCardLine {
+  code: string;
+  action: GiftCardLineAction;
+}
+
+/**
+ * Gift card lines carry their code and action in `properties` so they survive
+ * basket persistence and are written to order_items without schema changes.
+ */
+export function getGiftCardLine(item: Pick<BasketItem, 'productId' | 'properties'>): GiftCardLine | null {
+  if (item.productId !== GIFT_CARD_PRODUCT_ID || !item.properties?.giftCardCode) return null;
+  return {
+    code: item.properties.giftCardCode,
+    action: item.properties.giftCardAction === 'reload' ? 'reload' : 'activate',
+  };
+}
+
+/** Normalize a scanned or typed code: trim, upper-case, drop spaces and dashes */
+export function normalizeGiftCardCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toUpperCase();
+}
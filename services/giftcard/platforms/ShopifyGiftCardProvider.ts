@@ -0,0 +1,95 @@
+/* eslint-disable @typescript-eslint/no-explicit-any -- raw platform API response mapping */
+import { GiftCardProviderInterface, RemoteGiftCard } from '../GiftCardProviderInterface';
+import { ECommercePlatform } from '../../../utils/platforms';
+import { withTokenRefresh } from '../../token/TokenIntegration';
+import { LoggerFactory } from '../../logger/LoggerFactory';
+import { secretsServiceFactory } from '../../secrets/SecretsService';
+import { ShopifyApiClient } from '../../clients/shopify/ShopifyApiClient';
+import { toCents, toDollars } from '../../../utils/money';
+
+const secretsService = secretsServiceFactory.getService();
+
+/**
+ * Shopify gift cards via the Admin REST API (requires the gift card scopes).
+ *
+ * Shopify never returns a full card code, only `last_characters`, so lookup
+ * searches on those and only accepts a single unambiguous match.
+ */
+export class ShopifyGiftCardProvider implements GiftCardProviderInterface {
+  readonly platform = ECommercePlatform.SHOPIFY;
+  private apiClient = ShopifyApiClient.getInstance();
+  private logger = LoggerFactory.getInstance().createLogger('ShopifyGiftCardProvider');
+  private initialized = false;
+
+  async initialize(): Promise<boolean> {
+    try {
+      const storeUrl = (await secretsService.getSecret('SHOPIFY_STORE_URL')) || process.env.SHOPIFY_STORE_URL || '';
+
+      if (!storeUrl) {
+        this.logger.warn('Missing Shopify store URL');
+        return false;
+      }
+
+      if (!this.apiClient.isInitialized()) {
+        this.apiClient.configure({ storeUrl });
+        await this.apiClient.initialize();
+      }
+
+      this.initialized = true;
+      return true;
+    } catch (error) {
+      this.logger.error(
+        { message: 'Failed to initialize Shopify gift card provider' },
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return false;
+    }
+  }
+
+  async lookup(code: string): Promise<RemoteGiftCard | null> {
+    if (!this.initialized) return null;
+
+    const lastCharacters = code.slice(-4).toLowerCase();
+    return withTokenRefresh(ECommercePlatform.SHOPIFY, async () => {
+      const data = await this.apiClient.get<{ gift_cards: any[] }>('gift_cards/search.json', {
+        query: `last_characters:${lastCharacters}`,
+      });
+      const matches = data.gift_cards || [];
+
+      if (matches.length !== 1) {
+        if (matches.length > 1) this.logger.warn(`Ambiguous Shopify gift card lookup for ••${lastCharacters}`);
+        return null;
+      }
+      return this.mapGiftCard(matches[0], code);
+    });
+  }
+
+  async debit(card: RemoteGiftCard, amountCents: number, note: string): Promise<string> {
+    return this.adjust(card, -amountCents, note);
+  }
+
+  async credit(card: RemoteGiftCard, amountCents: number, note: string): Promise<string> {
+    return this.adjust(card, amountCents, note);
+  }
+
+  private async adjust(card: RemoteGiftCard, amountCents: number, note: string): Promise<string> {
+    return withTokenRefresh(ECommercePlatform.SHOPIFY, async () => {
+      const data = await this.apiClient.post<{ adjustment: any }>(`gift_cards/${card.remoteId}/adjustments.json`, {
+        adjustment: { amount: toDollars(amountCents).toFixed(2), note },
+      });
+      return String(data.adjustment.id);
+    });
+  }
+
+  private mapGiftCard(g: any, code: string): RemoteGiftCard {
+    const expiresAt = g.expires_on ? new Date(g.expires_on) : undefined;
+    return {
+      remoteId: String(g.id),
+      code,
+      balanceCents: toCents(parseFloat(g.balance ?? '0')),
+      currency: g.currency,
+      disabled: Boolean(g.disabled_at) || (expiresAt !== undefined && expiresAt.getTime() < Date.now()),
+      expiresAt,
+    };
+  }
+}
@@ -0,0 +1,68 @@
+/* eslint-disable @typescript-eslint/no-explicit-any -- raw platform API response mapping */
+import { GiftCardProviderInterface, RemoteGiftCard } from '../GiftCardProviderInterface';
+import { ECommercePlatform } from '../../../utils/platforms';
+import { withTokenRefresh } from '../../token/TokenIntegration';
+import { LoggerFactory } from '../../logger/LoggerFactory';
+import { secretsServiceFactory } from '../../secrets/SecretsService';
+import { WooCommerceApiClient } from '../../clients/woocommerce/WooCommerceApiClient';
+import { toCents } from '../../../utils/money';
+
+const secretsService = secretsServiceFactory.getService();
+
+/**
+ * WooCommerce has no core gift card API (capability level 'custom'). This
+ * provider expects a gift card extension that registers a `gift-cards`
+ * route under the store's REST namespace, and is balance-check only —
+ * WooCommerce cards must be spent online, not taken as tender at the till.
+ */
+export class WooCommerceGiftCardProvider implements GiftCardProviderInterface {
+  readonly platform = ECommercePlatform.WOOCOMMERCE;
+  private apiClient = WooCommerceApiClient.getInstance();
+  private logger = LoggerFactory.getInstance().createLogger('WooCommerceGiftCardProvider');
+  private initialized = false;
+
+  async initialize(): Promise<boolean> {
+    try {
+      const storeUrl = (await secretsService.getSecret('WOOCOMMERCE_STORE_URL')) || process.env.WOOCOMMERCE_STORE_URL || '';
+
+      if (!storeUrl) {
+        this.logger.warn('Missing WooCommerce store URL');
+        return false;
+      }
+
+      if (!this.apiClient.isInitialized()) {
+        this.apiClient.configure({ storeUrl });
+        await this.apiClient.initialize();
+      }
+
+      this.initialized = true;
+      return true;
+    } catch (error) {
+      this.logger.error(
+        { message: 'Failed to initialize WooCommerce gift card provider' },
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return false;
+    }
+  }
+
+  async lookup(code: string): Promise<RemoteGiftCard | null> {
+    if (!this.initialized) return null;
+
+    return withTokenRefresh(ECommercePlatform.WOOCOMMERCE, async () => {
+      const data = await this.apiClient.get<any[]>('gift-cards', { search: code });
+      const card = (data || []).find((g: any) => String(g.code ?? '').toUpperCase() === code);
+      if (!card) return null;
+
+      const expiresAt = card.expire_date ? new Date(card.expire_date) : undefined;
+      return {
+        remoteId: String(card.id),
+        code,
+        balanceCents: toCents(parseFloat(card.balance ?? '0')),
+        currency: card.currency,
+        disabled: card.status !== undefined && card.status !== 'active',
+        expiresAt,
+      };
+    });
+  }
+}
@@ -1,24 +1,41 @@
 import { keyValueRepository } from '../../repositories/KeyValueRepository';
 import { LoggerFactory } from '../logger/LoggerFactory';
+import type { IssuedCredential } from './auth/RegisterAuthService';
 
 export type InstoreApiMode = 'standalone' | 'server' | 'client';
 
+/** Version of the in-store API routes; advertised to browsing registers and returned by /api/health */
+export const INSTORE_API_VERSION = '1';
+
 export interface InstoreApiSettings {
   mode: InstoreApiMode;
   serverAddress: string;
   port: number;
-  sharedSecret: string;
+  /** Issued by the server register when this client paired with it; null until paired */
+  credential: IssuedCredential | null;
   registerId: string;
   registerName: string;
+  /** Take part in leader election so another register can take over as server (see FailoverService) */
+  failoverEnabled: boolean;
+  /** Succession priority when the server is lost; higher goes first, 0 = never take over */
+  failoverPriority: number;
+  /** LAN address other registers use to reach this one; detected when empty */
+  advertisedAddress: string;
+  /** Identifies the store; registers only list servers advertising the same store ID (empty = any) */
+  storeId: string;
 }
 
 const DEFAULTS: InstoreApiSettings = {
   mode: 'standalone',
   serverAddress: '',
   port: 8787,
-  sharedSecret: '',
+  credential: null,
   registerId: '',
   registerName: 'Register 1',
+  failoverEnabled: false,
+  failoverPriority: 0,
+  advertisedAddress: '',
+  storeId: '',
 };
 
 const KV_KEY = 'instoreapi.settings';
@@ -28,6 +45,9 @@ const KV_KEY = 'instoreapi.settings';
  * - **standalone**: single register, no networking (default)
  * - **server**: this device runs the HTTP server; other registers connect to it
  * - **client**: this device connects to a server register over the LAN
+ *
+ * With failover enabled the mode and server address are rewritten at runtime
+ * when another register takes over as server.
  */
 export class InstoreApiConfig {
   private static instance: InstoreApiConfig;
@@ -48,7 +68,10 @@ export class InstoreApiConfig {
     try {
       const raw = await keyValueRepository.getItem(KV_KEY);
       if (raw) {
-        this.settings = { ...DEFAULTS, ...JSON.parse(raw) };
+        const stored = JSON.parse(raw);
+        // Replaced by per-register credentials
+        delete stored.sharedSecret;
+        this.settings = { ...DEFAULTS, ...stored };
       }
       this.loaded = true;
     } catch (error) {
@@ -78,6 +101,15 @@ export class InstoreApiConfig {
     return this.settings.mode === 'standalone';
   }
 
+  get isPaired(): boolean {
+    return this.settings.credential !== null;
+  }
+
+  /** Standby registers answer cluster heartbeats, so they run the HTTP listener too */
+  get acceptsConnections(): boolean {
+    return this.isServer || (this.isClient && this.settings.failoverEnabled);
+  }
+
   get isMultiRegister(): boolean {
     return this.settings.mode !== 'standalone';
   }
@@ -1,21 +1,28 @@
+import NetInfo from '@react-native-community/netinfo';
 import { instoreApiConfig } from './InstoreApiConfig';
 import { LoggerFactory } from '../logger/LoggerFactory';
 import { instoreApiClient } from '../clients/instoreapi/InstoreApiClient';
+import { mdnsService } from './discovery/MdnsService';
 
 export interface DiscoveredServer {
   address: string;
   port: number;
   registerName: string;
   respondedAt: number;
+  /** How the server was found: its DNS-SD advertisement or the subnet scan */
+  source: 'mdns' | 'scan';
+  registerId?: string;
+  apiVersion?: string;
+  storeId?: string;
 }
 
 /**
  * Discovery service for finding the Local API Server on the LAN.
  *
- * Strategy: scan a range of IPs on the local subnet for the server's
- * health endpoint. In a real deployment this could be replaced with
- * mDNS/Bonjour via a native module, but subnet scanning works without
- * native dependencies and is sufficient for small retail LANs.
+ * Primary strategy: browse for the `_retailpos._tcp` DNS-SD service the
+ * server register advertises (see discovery/MdnsService.ts). Fallback, for
+ * web / Electron or networks that block multicast: scan the local subnet for
+ * the server's health endpoint.
  */
 export class InstoreApiDiscovery {
   private static instance: InstoreApiDiscovery;
@@ -35,21 +42,60 @@ export class InstoreApiDiscovery {
     return this.scanning;
   }
 
+  /** Whether servers can be found by their mDNS advertisement on this platform */
+  get canBrowse(): boolean {
+    return mdnsService.isAvailable;
+  }
+
+  /**
+   * Browse for advertised servers until the returned function is called.
+   * `onChange` receives the full list each time a server appears, changes or
+   * goes away.
+   */
+  browse(onChange: (servers: DiscoveredServer[]) => void): () => void {
+    return mdnsService.browse(advertisements =>
+      onChange(
+        advertisements.map(ad => ({
+          address: ad.address,
+          port: ad.port,
+          registerName: ad.registerName,
+          respondedAt: ad.seenAt,
+          source: 'mdns',
+          registerId: ad.registerId,
+          apiVersion: ad.apiVersion,
+          storeId: ad.storeId,
+        }))
+      )
+    );
+  }
+
+  /** The /24 prefix of this register's own address, e.g. "10.0.4"; null when unknown */
+  async localSubnetPrefix(): Promise<string | null> {
+    try {
+      const state = await NetInfo.fetch();
+      const details = state.details as { ipAddress?: string } | null;
+      const match = details?.ipAddress?.match(/^(\d{1,3}\.\d{1,3}\.\d{1,3})\.\d{1,3}$/);
+      return match ? match[1] : null;
+    } catch {
+      return null;
+    }
+  }
+
   /**
-   * Scan the local subnet for a running Local API Server.
-   * Tries common private network ranges on the configured port.
+   * Scan the local subnet for a running Local API Server — the fallback when
+   * no advertisement is found. Scans this register's own /24 on the
+   * configured port unless a prefix is given.
    * Returns all discovered servers.
    */
   async scanSubnet(subnetPrefix?: string, onProgress?: (checked: number, total: number) => void): Promise<DiscoveredServer[]> {
     if (this.scanning) return [];
     this.scanning = true;
 
-    const port = instoreApiConfig.current.port;
-    const secret = instoreApiConfig.current.sharedSecret;
+    const { port, storeId } = instoreApiConfig.current;
     const discovered: DiscoveredServer[] = [];
 
     // Determine subnet to scan
-    const prefix = subnetPrefix || '192.168.1';
+    const prefix = subnetPrefix || (await this.localSubnetPrefix()) || '192.168.1';
     const total = 254;
     let checked = 0;
 
@@ -63,8 +109,10 @@ export class InstoreApiDiscovery {
       for (let i = start; i < Math.min(start + BATCH_SIZE, 255); i++) {
         const address = `${prefix}.${i}`;
         promises.push(
-          this.probeAddress(address, port, secret)
+          this.probeAddress(address, port)
             .then(result => {
+              // A server for another store on the same network
+              if (result && storeId && result.storeId && result.storeId !== storeId) return;
               if (result) {
                 discovered.push(result);
                 this.logger.info(`Found server at ${address}:${port} (${result.registerName})`);
@@ -92,9 +140,9 @@ export class InstoreApiDiscovery {
    * Probe a single address for the health endpoint.
    * Uses a short timeout to avoid blocking on unresponsive IPs.
    */
-  async probeAddress(address: string, port: number, secret?: string): Promise<DiscoveredServer | null> {
+  async probeAddress(address: string, port: number): Promise<DiscoveredServer | null> {
     try {
-      const data = await instoreApiClient.probeHealth(`http://${address}:${port}`, secret, 2000);
+      const data = await instoreApiClient.probeHealth(`http://${address}:${port}`, 2000);
       if (!data || data.ok !== true) return null;
 
       return {
@@ -102,6 +150,10 @@ export class InstoreApiDiscovery {
         port,
         registerName: data.registerName || 'Unknown',
         respondedAt: Date.now(),
+        source: 'scan',
+        registerId: data.registerId,
+        apiVersion: data.apiVersion,
+        storeId: data.storeId,
       };
     } catch {
       return null;
@@ -1,4 +1,4 @@
-import { instoreApiConfig } from './InstoreApiConfig';
+import { instoreApiConfig, INSTORE_API_VERSION } from './InstoreApiConfig';
 import { LoggerFactory } from '../logger/LoggerFactory';
 import { orderRepository, CreateOrderInput } from '../../repositories/OrderRepository';
 import { OrderItemRepository, CreateOrderItemInput } from '../../repositories/OrderItemRepository';
@@ -7,18 +7,62 @@ import { taxProfileRepository } from '../../repositories/TaxProfileRepository';
 import { returnRepository, CreateReturnInput } from '../../repositories/ReturnRepository';
 import { syncEventBus } from './sync/SyncEventBus';
 import { CommerceFullWebhookReceiver } from '../clients/commercefull/CommerceFullWebhookReceiver';
+import { BaseWebhookReceiver } from '../clients/BaseWebhookReceiver';
+import { ShopifyWebhookReceiver } from '../clients/shopify/ShopifyWebhookReceiver';
+import { WooCommerceWebhookReceiver } from '../clients/woocommerce/WooCommerceWebhookReceiver';
+import { BigCommerceWebhookReceiver } from '../clients/bigcommerce/BigCommerceWebhookReceiver';
 import { offlineProductService } from '../product/platforms/OfflineProductService';
 import { offlineCategoryService } from '../category/platforms/OfflineCategoryService';
 import { instoreApiTransport } from './InstoreApiTransport';
+import { mdnsService } from './discovery/MdnsService';
+import { heldBasketService } from '../basket/HeldBasketService';
+import { HoldBasketInput } from '../basket/HeldBasketServiceInterface';
+import { dailyReportService } from '../printer/DailyReportService';
+import { cashMovementService } from '../cashup/CashMovementService';
+import { CreateCashMovementInput } from '../../repositories/CashMovementRepository';
+import type { TipAdjustment } from '../tips/TipService';
+import type { TipAllocation } from '../tips/tips';
+import { CashCount } from '../cashup/denominations';
+import type { OpenShiftRequest } from '../clients/instoreapi/InstoreApiClient';
+import { registerAuthService, AuthenticatedRegister, RegisterRole } from './auth/RegisterAuthService';
+import { failoverService, ClusterHeartbeatBody, SNAPSHOT_ORDER_WINDOW_MS } from './failover/FailoverService';
+import { clusterSnapshotRepository, ClusterOrderBatch } from '../../repositories/ClusterSnapshotRepository';
 
 type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
 
+interface RequestContext {
+  /** The paired register that signed the request; absent on public routes */
+  register?: AuthenticatedRegister;
+  /** Body exactly as received */
+  rawBody: string;
+}
+
+interface RouteOptions {
+  /** Skip register authentication (health check, pairing, platform webhooks) */
+  public?: boolean;
+  /** Lowest register role allowed to call the route (default 'register') */
+  minRole?: RegisterRole;
+  /** Also served while this register is a failover standby rather than the server */
+  standby?: boolean;
+}
+
 interface RouteHandler {
   method: HttpMethod;
   path: string;
-  handler: (params: Record<string, string>, body: unknown, headers?: Record<string, string>) => Promise<{ status: number; body: unknown }>;
+  public: boolean;
+  minRole: RegisterRole;
+  standby: boolean;
+  handler: (
+    params: Record<string, string>,
+    body: unknown,
+    headers: Record<string, string> | undefined,
+    context: RequestContext
+  ) => Promise<{ status: number; body: unknown }>;
 }
 
+/** Catalog writes are limited to back-office registers */
+const BACK_OFFICE: RouteOptions = { minRole: 'back_office' };
+
 /**
  * Lightweight instoreapi API server for multi-register offline setups.
  *
@@ -28,6 +72,18 @@ interface RouteHandler {
  * `react-native-http-bridge`, or a WebSocket relay).
  *
  * The actual transport binding is in `InstoreApiTransport.ts`.
+ *
+ * Every route except the public ones requires a request signed with a
+ * paired register's credential (see auth/RegisterAuthService.ts). Unsigned or
+ * badly signed requests get 401; registers whose role is below the route's
+ * `minRole` get 403.
+ *
+ * While running in server mode the register advertises itself over mDNS
+ * (see discovery/MdnsService.ts) so other registers can find it.
+ *
+ * A client register with failover enabled also runs the server as a standby
+ * (see failover/FailoverService.ts); until it is promoted it answers only
+ * routes marked `standby` and returns 503 for the rest.
  */
 export class InstoreApiServer {
   private static instance: InstoreApiServer;
@@ -53,7 +109,7 @@ export class InstoreApiServer {
   }
 
   async start(): Promise<void> {
-    if (!instoreApiConfig.isServer) {
+    if (!instoreApiConfig.acceptsConnections) {
       this.logger.warn('Cannot start server — not in server mode');
       return;
     }
@@ -69,10 +125,18 @@ export class InstoreApiServer {
       this.logger.error('Failed to start HTTP transport:', error);
       throw error;
     }
+
+    // Only the server is advertised; a failover standby is found through the cluster roster
+    if (instoreApiConfig.isServer) {
+      mdnsService.advertise();
+    } else {
+      mdnsService.stopAdvertising();
+    }
   }
 
   async stop(): Promise<void> {
     this.running = false;
+    mdnsService.stopAdvertising();
 
     try {
       // Stop the HTTP transport layer
@@ -86,55 +150,146 @@ export class InstoreApiServer {
 
   /**
    * Handle an incoming request. Called by the transport layer.
+   * `path` includes the query string and `rawBody` is the body exactly as
+   * received — both are covered by the request signature.
    * Returns a response object with status and body.
    */
   async handleRequest(
     method: HttpMethod,
     path: string,
     body?: unknown,
-    headers?: Record<string, string>
+    headers?: Record<string, string>,
+    rawBody: string = ''
   ): Promise<{ status: number; body: unknown }> {
     if (!this.running) {
       return { status: 503, body: { error: 'Server not running' } };
     }
 
-    // Authenticate via shared secret
-    const secret = instoreApiConfig.current.sharedSecret;
-    if (secret && headers?.['x-shared-secret'] !== secret) {
-      return { status: 401, body: { error: 'Unauthorized' } };
-    }
+    const match = this.findRoute(method, path);
 
-    // Match route
-    for (const route of this.routes) {
-      if (route.method !== method) continue;
-      const params = this.matchPath(route.path, path);
-      if (params !== null) {
-        try {
-          return await route.handler(params, body, headers);
-        } catch (error) {
-          this.logger.error({ message: `Error handling ${method} ${path}` }, error instanceof Error ? error : new Error(String(error)));
-          return { status: 500, body: { error: 'Internal server error' } };
-        }
+    // Authenticate before reporting 404 so unpaired callers cannot map the API
+    let register: AuthenticatedRegister | undefined;
+    if (!match?.route.public) {
+      const auth = await registerAuthService.authenticate(method, path, rawBody, headers);
+      if (auth.ok === false) {
+        this.logger.warn({ message: `Rejected ${method} ${path}: ${auth.error}` });
+        return { status: 401, body: { error: 'Unauthorized' } };
       }
+      register = auth.register;
+    }
+
+    if (!match) {
+      return { status: 404, body: { error: 'Not found' } };
+    }
+
+    if (!instoreApiConfig.isServer && !match.route.standby) {
+      return { status: 503, body: { error: 'This register is not the server', serverAddress: instoreApiConfig.current.serverAddress } };
     }
 
-    return { status: 404, body: { error: 'Not found' } };
+    if (register && !registerAuthService.hasRole(register, match.route.minRole)) {
+      this.logger.warn({ message: `Register ${register.registerName} (${register.role}) may not call ${method} ${match.route.path}` });
+      return { status: 403, body: { error: 'Forbidden' } };
+    }
+
+    try {
+      return await match.route.handler(match.params, body, headers, { register, rawBody });
+    } catch (error) {
+      this.logger.error({ message: `Error handling ${method} ${path}` }, error instanceof Error ? error : new Error(String(error)));
+      return { status: 500, body: { error: 'Internal server error' } };
+    }
   }
 
   // ── Route registration ──────────────────────────────────────────────
 
   private registerRoutes(): void {
     // Health
-    this.route('GET', '/api/health', async () => ({
-      status: 200,
-      body: {
-        ok: true,
-        registerId: instoreApiConfig.current.registerId,
-        registerName: instoreApiConfig.current.registerName,
-        timestamp: Date.now(),
+    this.route(
+      'GET',
+      '/api/health',
+      async () => ({
+        status: 200,
+        body: {
+          ok: true,
+          registerId: instoreApiConfig.current.registerId,
+          registerName: instoreApiConfig.current.registerName,
+          apiVersion: INSTORE_API_VERSION,
+          storeId: instoreApiConfig.current.storeId,
+          timestamp: Date.now(),
+        },
+      }),
+      { public: true, standby: true }
+    );
+
+    // ── Registers ─────────────────────────────────────────────────────
+    this.route(
+      'POST',
+      '/api/registers/pair',
+      async (_params, body) => {
+        const b = body as { code?: string; registerId?: string; registerName?: string } | undefined;
+        if (!b?.code || !b.registerId || !b.registerName) {
+          return { status: 400, body: { error: 'code, registerId and registerName are required' } };
+        }
+        const credential = await registerAuthService.pair({ code: b.code, registerId: b.registerId, registerName: b.registerName });
+        if (!credential) return { status: 403, body: { error: 'Invalid or expired pairing code' } };
+        return { status: 201, body: { credential } };
       },
+      { public: true }
+    );
+
+    this.route('GET', '/api/registers/me', async (_params, _body, _headers, { register }) => ({
+      status: 200,
+      body: { register, serverRegisterName: instoreApiConfig.current.registerName },
     }));
 
+    // ── Cluster (failover) ────────────────────────────────────────────
+    this.route(
+      'POST',
+      '/api/cluster/heartbeat',
+      async (_params, body, _headers, { register }) => {
+        const b = body as ClusterHeartbeatBody | undefined;
+        if (!b?.heartbeat?.from) return { status: 400, body: { error: 'heartbeat is required' } };
+        if (!register || b.heartbeat.from.registerId !== register.registerId) return { status: 403, body: { error: 'Forbidden' } };
+        const response = await failoverService.handleHeartbeat(b, register);
+        if (!response) return { status: 503, body: { error: 'Failover is not enabled on this register' } };
+        return { status: 200, body: response };
+      },
+      { standby: true }
+    );
+
+    this.route(
+      'GET',
+      '/api/cluster/status',
+      async () => {
+        const status = failoverService.clusterStatus;
+        if (!status) return { status: 503, body: { error: 'Failover is not enabled on this register' } };
+        return { status: 200, body: { status } };
+      },
+      { standby: true }
+    );
+
+    // Orders a former server wrote while another register had taken over
+    this.route(
+      'POST',
+      '/api/cluster/orders',
+      async (_params, body, _headers, { register }) => {
+        const b = body as ClusterOrderBatch | undefined;
+        if (!Array.isArray(b?.orders) || !Array.isArray(b?.order_items)) {
+          return { status: 400, body: { error: 'orders and order_items are required' } };
+        }
+        const plan = await clusterSnapshotRepository.mergeOrders(b);
+        for (const orderId of plan.insert) syncEventBus.emit('order:created', { orderId });
+        for (const orderId of plan.update) syncEventBus.emit('order:updated', { orderId });
+        this.logger.info(`Merged ${plan.insert.length + plan.update.length} order(s) from ${register?.registerName}`);
+        return { status: 200, body: { plan } };
+      },
+      BACK_OFFICE
+    );
+
+    this.route('GET', '/api/snapshot', async () => {
+      const snapshot = await clusterSnapshotRepository.exportSnapshot(Date.now() - SNAPSHOT_ORDER_WINDOW_MS);
+      return { status: 200, body: snapshot };
+    });
+
     // ── Orders ────────────────────────────────────────────────────────
     this.route('GET', '/api/orders', async (_params, body) => {
       const b = body as Record<string, unknown> | undefined;
@@ -195,11 +350,35 @@ export class InstoreApiServer {
     });
 
     // ── Webhook Receiver (CommerceFull real-time push) ────────────────
-    this.route('POST', '/api/webhooks/commercefull', async (_params, body, headers) => {
-      const receiver = CommerceFullWebhookReceiver.getInstance();
-      const rawBody = typeof body === 'string' ? body : JSON.stringify(body);
-      return await receiver.handleRequest(rawBody, headers || {});
-    });
+    // Sent by the platform, not a register — authenticated by the platform's own signature instead
+    this.route(
+      'POST',
+      '/api/webhooks/commercefull',
+      async (_params, _body, headers, { rawBody }) => {
+        if (!headers?.['x-webhook-signature']) {
+          return { status: 401, body: { success: false, error: 'Missing signature' } };
+        }
+        const receiver = CommerceFullWebhookReceiver.getInstance();
+        return await receiver.handleRequest(rawBody, headers);
+      },
+      { public: true }
+    );
+
+    // ── Webhook Receivers (Shopify, WooCommerce, BigCommerce) ─────────
+    // Public for the same reason; each receiver checks its platform's signature and answers 401 itself
+    const platformReceivers: Record<string, BaseWebhookReceiver> = {
+      shopify: ShopifyWebhookReceiver.getInstance(),
+      woocommerce: WooCommerceWebhookReceiver.getInstance(),
+      bigcommerce: BigCommerceWebhookReceiver.getInstance(),
+    };
+    for (const [platform, receiver] of Object.entries(platformReceivers)) {
+      this.route(
+        'POST',
+        `/api/webhooks/${platform}`,
+        async (_params, _body, headers, { rawBody }) => await receiver.handleRequest(rawBody, headers ?? {}),
+        { public: true }
+      );
+    }
 
     // ── Categories ────────────────────────────────────────────────────
     this.route('GET', '/api/categories', async () => {
@@ -207,25 +386,40 @@ export class InstoreApiServer {
       return { status: 200, body: { categories: rows } };
     });
 
-    this.route('POST', '/api/categories', async (_params, body) => {
-      const data = body as Parameters<typeof offlineCategoryService.addCategory>[0];
-      const category = await offlineCategoryService.addCategory(data);
-      syncEventBus.emit('config:updated', { entity: 'category', action: 'created', category });
-      return { status: 201, body: { category } };
-    });
-
-    this.route('PUT', '/api/categories/:id', async (params, body) => {
-      const data = body as Parameters<typeof offlineCategoryService.updateCategory>[1];
-      const category = await offlineCategoryService.updateCategory(params.id, data);
-      syncEventBus.emit('config:updated', { entity: 'category', action: 'updated', category });
-      return { status: 200, body: { category } };
-    });
-
-    this.route('DELETE', '/api/categories/:id', async params => {
-      await offlineCategoryService.deleteCategory(params.id);
-      syncEventBus.emit('config:updated', { entity: 'category', action: 'deleted', id: params.id });
-      return { status: 200, body: { ok: true } };
-    });
+    this.route(
+      'POST',
+      '/api/categories',
+      async (_params, body) => {
+        const data = body as Parameters<typeof offlineCategoryService.addCategory>[0];
+        const category = await offlineCategoryService.addCategory(data);
+        syncEventBus.emit('config:updated', { entity: 'category', action: 'created', category });
+        return { status: 201, body: { category } };
+      },
+      BACK_OFFICE
+    );
+
+    this.route(
+      'PUT',
+      '/api/categories/:id',
+      async (params, body) => {
+        const data = body as Parameters<typeof offlineCategoryService.updateCategory>[1];
+        const category = await offlineCategoryService.updateCategory(params.id, data);
+        syncEventBus.emit('config:updated', { entity: 'category', action: 'updated', category });
+        return { status: 200, body: { category } };
+      },
+      BACK_OFFICE
+    );
+
+    this.route(
+      'DELETE',
+      '/api/categories/:id',
+      async params => {
+        await offlineCategoryService.deleteCategory(params.id);
+        syncEventBus.emit('config:updated', { entity: 'category', action: 'deleted', id: params.id });
+        return { status: 200, body: { ok: true } };
+      },
+      BACK_OFFICE
+    );
 
     // ── Orders (write) ────────────────────────────────────────────────
     this.route('POST', '/api/orders', async (_params, body) => {
@@ -246,34 +440,189 @@ export class InstoreApiServer {
     });
 
     this.route('PUT', '/api/orders/:id/payment', async (params, body) => {
-      const b = body as { paymentMethod: string; transactionId?: string };
-      await orderRepository.updatePayment(params.id, b.paymentMethod, b.transactionId ?? null);
+      const b = body as { paymentMethod: string; transactionId?: string; paymentsJson?: string; tipAmount?: number };
+      if (b.paymentsJson) {
+        await orderRepository.updatePaymentLines(params.id, b.paymentMethod, b.transactionId ?? null, b.paymentsJson, b.tipAmount ?? 0);
+      } else {
+        await orderRepository.updatePayment(params.id, b.paymentMethod, b.transactionId ?? null);
+      }
       const row = await orderRepository.findById(params.id);
       syncEventBus.emit('order:paid', { orderId: params.id });
       return { status: 200, body: { order: row } };
     });
 
-    // ── Products (write) ──────────────────────────────────────────────
-    this.route('POST', '/api/products', async (_params, body) => {
-      const data = body as Parameters<typeof offlineProductService.createProduct>[0];
-      const product = await offlineProductService.createProduct(data);
-      syncEventBus.emit('product:updated', { action: 'created', product });
-      return { status: 201, body: { product } };
+    this.route('PUT', '/api/orders/:id/receipt-contact', async (params, body) => {
+      const b = body as { email: string | null; phone: string | null };
+      await orderRepository.updateReceiptContact(params.id, b.email ?? null, b.phone ?? null);
+      return { status: 200, body: { ok: true } };
     });
 
-    this.route('PUT', '/api/products/:id', async (params, body) => {
-      const data = body as Parameters<typeof offlineProductService.updateProduct>[1];
-      const product = await offlineProductService.updateProduct(params.id, data);
-      syncEventBus.emit('product:updated', { action: 'updated', product });
-      return { status: 200, body: { product } };
+    this.route('POST', '/api/orders/:id/tips', async (params, body) => {
+      const b = body as { allocation: TipAllocation };
+      try {
+        // Imported lazily — TipService pulls in the payment provider stack
+        const { tipService } = await import('../tips/TipService');
+        const tips = await tipService.allocate(params.id, b.allocation);
+        return { status: 201, body: { tips } };
+      } catch (error) {
+        return this.refused(error);
+      }
     });
 
-    this.route('DELETE', '/api/products/:id', async params => {
-      await offlineProductService.deleteProduct(params.id);
-      syncEventBus.emit('product:updated', { action: 'deleted', id: params.id });
+    this.route('PUT', '/api/orders/:id/tip', async (params, body) => {
+      const b = body as { adjustment: TipAdjustment };
+      try {
+        const { tipService } = await import('../tips/TipService');
+        await tipService.storeAdjustment({ ...b.adjustment, orderId: params.id });
+        const row = await orderRepository.findById(params.id);
+        syncEventBus.emit('order:updated', { orderId: params.id, status: row?.status });
+        return { status: 200, body: { ok: true } };
+      } catch (error) {
+        return this.refused(error);
+      }
+    });
+
+    // ── Held baskets (parked sales shared across registers) ───────────
+    this.route('GET', '/api/baskets/held', async () => {
+      const heldBaskets = await heldBasketService.list();
+      return { status: 200, body: { heldBaskets } };
+    });
+
+    this.route('POST', '/api/baskets/held', async (_params, body) => {
+      const b = body as { basket: HoldBasketInput };
+      const heldBasket = await heldBasketService.hold(b.basket);
+      return { status: 201, body: { heldBasket } };
+    });
+
+    this.route('POST', '/api/baskets/held/:id/recall', async (params, body) => {
+      const b = body as { recalledBy?: string } | undefined;
+      const heldBasket = await heldBasketService.claim(params.id, b?.recalledBy);
+      if (!heldBasket) return { status: 404, body: { error: 'Held sale not found' } };
+      return { status: 200, body: { heldBasket } };
+    });
+
+    this.route('POST', '/api/baskets/held/:id/discard', async (params, body) => {
+      const b = body as { discardedBy?: string } | undefined;
+      await heldBasketService.discard(params.id, b?.discardedBy);
       return { status: 200, body: { ok: true } };
     });
 
+    // ── Shifts and drawers (one drawer per register, shared by its cashiers) ──
+    this.route('GET', '/api/shifts', async (_params, body) => {
+      const b = body as { registerId?: string; closed?: string; limit?: string } | undefined;
+      const shifts =
+        b?.closed === 'true'
+          ? await dailyReportService.getShiftHistory(parseInt(b.limit ?? '', 10) || 30)
+          : (await dailyReportService.getOpenShifts()).filter(s => b?.registerId === undefined || s.registerId === b.registerId);
+      return { status: 200, body: { shifts } };
+    });
+
+    this.route('POST', '/api/shifts', async (_params, body, _headers, { register }) => {
+      const b = body as OpenShiftRequest;
+      try {
+        const shift = await dailyReportService.openShift(b.cashierName, b.cashierId, b.openingCash, {
+          registerId: register?.registerId ?? '',
+          registerName: register?.registerName ?? null,
+        });
+        return { status: 201, body: { shift } };
+      } catch (error) {
+        return this.refused(error);
+      }
+    });
+
+    this.route('POST', '/api/shifts/:id/hand-over', async params => {
+      try {
+        const shift = await dailyReportService.handOverShift(params.id);
+        return { status: 200, body: { shift } };
+      } catch (error) {
+        return this.refused(error);
+      }
+    });
+
+    this.route('POST', '/api/shifts/:id/close', async (params, body) => {
+      const b = body as { count: CashCount };
+      try {
+        const shift = await dailyReportService.closeShift(b.count, params.id);
+        return { status: 200, body: { shift } };
+      } catch (error) {
+        return this.refused(error);
+      }
+    });
+
+    this.route('POST', '/api/shifts/:id/x-report', async (params, body) => {
+      const b = body as { count?: CashCount } | undefined;
+      try {
+        const report = await dailyReportService.getXReport(b?.count, params.id);
+        return { status: 200, body: { report } };
+      } catch (error) {
+        return this.refused(error);
+      }
+    });
+
+    this.route('GET', '/api/z-reports', async (_params, body) => {
+      const b = body as { limit?: string } | undefined;
+      const zReports = await dailyReportService.getZReports(parseInt(b?.limit ?? '', 10) || 30);
+      return { status: 200, body: { zReports } };
+    });
+
+    this.route('GET', '/api/z-reports/:id', async params => {
+      const zReport = await dailyReportService.getZReport(params.id);
+      if (!zReport) return { status: 404, body: { error: 'Z-report not found' } };
+      return { status: 200, body: { zReport } };
+    });
+
+    this.route('GET', '/api/end-of-day', async (_params, body) => {
+      const b = body as { date?: string } | undefined;
+      const report = await dailyReportService.getEndOfDayReport(b?.date);
+      return { status: 200, body: { report } };
+    });
+
+    this.route('POST', '/api/cash-movements', async (_params, body) => {
+      const b = body as { movement: CreateCashMovementInput };
+      try {
+        const movement = await cashMovementService.store(b.movement);
+        return { status: 201, body: { movement } };
+      } catch (error) {
+        return this.refused(error);
+      }
+    });
+
+    // ── Products (write) ──────────────────────────────────────────────
+    this.route(
+      'POST',
+      '/api/products',
+      async (_params, body) => {
+        const data = body as Parameters<typeof offlineProductService.createProduct>[0];
+        const product = await offlineProductService.createProduct(data);
+        syncEventBus.emit('product:updated', { action: 'created', product });
+        return { status: 201, body: { product } };
+      },
+      BACK_OFFICE
+    );
+
+    this.route(
+      'PUT',
+      '/api/products/:id',
+      async (params, body) => {
+        const data = body as Parameters<typeof offlineProductService.updateProduct>[1];
+        const product = await offlineProductService.updateProduct(params.id, data);
+        syncEventBus.emit('product:updated', { action: 'updated', product });
+        return { status: 200, body: { product } };
+      },
+      BACK_OFFICE
+    );
+
+    this.route(
+      'DELETE',
+      '/api/products/:id',
+      async params => {
+        await offlineProductService.deleteProduct(params.id);
+        syncEventBus.emit('product:updated', { action: 'deleted', id: params.id });
+        return { status: 200, body: { ok: true } };
+      },
+      BACK_OFFICE
+    );
+
     // ── Returns (write) ───────────────────────────────────────────────
     this.route('POST', '/api/returns', async (_params, body) => {
       const b = body as { input: CreateReturnInput; processedBy?: string };
@@ -286,8 +635,29 @@ export class InstoreApiServer {
 
   // ── Helpers ─────────────────────────────────────────────────────────
 
-  private route(method: HttpMethod, path: string, handler: RouteHandler['handler']): void {
-    this.routes.push({ method, path, handler });
+  /** A rule the service enforced (e.g. a second shift for the same cashier), passed back as the client's error */
+  private refused(error: unknown): { status: number; body: unknown } {
+    return { status: 409, body: { error: error instanceof Error ? error.message : String(error) } };
+  }
+
+  private route(method: HttpMethod, path: string, handler: RouteHandler['handler'], options: RouteOptions = {}): void {
+    this.routes.push({
+      method,
+      path,
+      handler,
+      public: options.public ?? false,
+      minRole: options.minRole ?? 'register',
+      standby: options.standby ?? false,
+    });
+  }
+
+  private findRoute(method: HttpMethod, path: string): { route: RouteHandler; params: Record<string, string> } | null {
+    for (const route of this.routes) {
+      if (route.method !== method) continue;
+      const params = this.matchPath(route.path, path);
+      if (params !== null) return { route, params };
+    }
+    return null;
   }
 
   /**
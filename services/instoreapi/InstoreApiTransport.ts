@@ -49,7 +49,7 @@ export class InstoreApiTransport {
       return;
     }
 
-    if (!instoreApiConfig.isServer) {
+    if (!instoreApiConfig.acceptsConnections) {
       this.logger.warn('Cannot start HTTP transport — not in server mode');
       return;
     }
@@ -113,9 +113,10 @@ export class InstoreApiTransport {
     try {
       const { requestId, method, url, headers, data } = request;
 
-      // Parse URL and extract path
+      // Parse URL; the path passed on keeps its query string because the request signature covers it
       const urlObj = new URL(url, 'http://localhost');
-      const path = urlObj.pathname;
+      const path = urlObj.pathname + urlObj.search;
+      const rawBody: string = typeof data === 'string' ? data : '';
 
       // Parse request body
       let body: unknown = undefined;
@@ -141,7 +142,7 @@ export class InstoreApiTransport {
 
       // Call the server logic
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const response = await instoreApiServer.handleRequest(method as any, path, body, headers);
+      const response = await instoreApiServer.handleRequest(method as any, path, body, headers, rawBody);
 
       // Send response back through the bridge
       httpBridge.respond(requestId, response.status, 'application/json', JSON.stringify(response.body));
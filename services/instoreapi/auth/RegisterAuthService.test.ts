@@ -0,0 +1,235 @@
+/**
+ * RegisterAuthService — unit tests
+ *
+ * Covers pairing (single use, expiry, attempt limit), signed request
+ * verification (signature, clock skew, replay, revocation) and roles.
+ * The credential repository is an in-memory fake.
+ */
+
+import type {
+  CreateRegisterCredentialInput,
+  RegisterCredentialRow,
+  RegisterRole,
+} from '../../../repositories/RegisterCredentialRepository';
+
+// ── Mocks ─────────────────────────────────────────────────────────────────
+
+jest.mock('../../logger/LoggerFactory', () => ({
+  LoggerFactory: {
+    getInstance: () => ({
+      createLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }),
+    }),
+  },
+}));
+
+jest.mock('../../audit/AuditLogService', () => ({
+  auditLogService: { log: jest.fn() },
+}));
+
+jest.mock('../../../utils/uuid', () => {
+  let seq = 0;
+  return { generateUUID: jest.fn(() => `key-${++seq}`) };
+});
+
+jest.mock('../../../utils/secureRandom', () => ({
+  randomHex: jest.fn(() => 'ab'.repeat(32)),
+  randomDigits: jest.fn(() => '123456'),
+}));
+
+jest.mock('../../../repositories/RegisterCredentialRepository', () => {
+  const rows = new Map<string, RegisterCredentialRow>();
+  return {
+    __rows: rows,
+    registerCredentialRepository: {
+      create: jest.fn(async (input: CreateRegisterCredentialInput) => {
+        rows.set(input.keyId, {
+          id: input.keyId,
+          register_id: input.registerId,
+          register_name: input.registerName,
+          role: input.role,
+          secret: input.secret,
+          created_at: Date.now(),
+          last_seen_at: null,
+          revoked_at: null,
+        });
+      }),
+      findById: jest.fn(async (id: string) => (rows.has(id) ? { ...rows.get(id) } : null)),
+      findAll: jest.fn(async () => [...rows.values()]),
+      revoke: jest.fn(async (id: string) => {
+        if (rows.has(id)) rows.get(id).revoked_at = Date.now();
+      }),
+      revokeByRegister: jest.fn(async (registerId: string) => {
+        for (const row of rows.values()) if (row.register_id === registerId && !row.revoked_at) row.revoked_at = Date.now();
+      }),
+      setRole: jest.fn(async (id: string, role: RegisterRole) => {
+        if (rows.has(id)) rows.get(id).role = role;
+      }),
+      markSeen: jest.fn(),
+    },
+  };
+});
+
+import { RegisterAuthService, MAX_PAIRING_ATTEMPTS, PAIRING_CODE_TTL_MS, IssuedCredential } from './RegisterAuthService';
+import { signatureHeaders } from './requestSigning';
+import { auditLogService } from '../../audit/AuditLogService';
+
+const { __rows } = jest.requireMock<{ __rows: Map<string, RegisterCredentialRow> }>('../../../repositories/RegisterCredentialRepository');
+
+// ── Helpers ───────────────────────────────────────────────────────────────
+
+function getService(): RegisterAuthService {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (RegisterAuthService as any).instance = undefined;
+  return RegisterAuthService.getInstance();
+}
+
+let nonceSeq = 0;
+
+function signed(
+  credential: IssuedCredential,
+  method: string,
+  path: string,
+  body = '',
+  overrides: { timestamp?: number; nonce?: string } = {}
+) {
+  const request = { method, path, body, timestamp: overrides.timestamp ?? Date.now(), nonce: overrides.nonce ?? `nonce-${++nonceSeq}` };
+  return signatureHeaders(credential, request);
+}
+
+async function pairRegister(service: RegisterAuthService, role: 'register' | 'back_office' = 'register'): Promise<IssuedCredential> {
+  const { code } = service.createPairingCode(role);
+  const credential = await service.pair({ code, registerId: 'reg-2', registerName: 'Till 2' });
+  return credential!;
+}
+
+beforeEach(() => {
+  __rows.clear();
+  jest.clearAllMocks();
+  jest.useRealTimers();
+});
+
+// ── Pairing ───────────────────────────────────────────────────────────────
+
+describe('RegisterAuthService pairing', () => {
+  it('issues a credential for the right code and records it', async () => {
+    const service = getService();
+    const credential = await pairRegister(service, 'back_office');
+
+    expect(credential).toMatchObject({ role: 'back_office', secret: 'ab'.repeat(32) });
+    expect(__rows.get(credential.keyId)).toMatchObject({ register_id: 'reg-2', register_name: 'Till 2' });
+    expect(auditLogService.log).toHaveBeenCalledWith('register:paired', expect.objectContaining({ registerId: 'reg-2' }));
+  });
+
+  it('accepts a code only once', async () => {
+    const service = getService();
+    const { code } = service.createPairingCode();
+    await service.pair({ code, registerId: 'reg-2', registerName: 'Till 2' });
+
+    await expect(service.pair({ code, registerId: 'reg-3', registerName: 'Till 3' })).resolves.toBeNull();
+    expect(service.activePairingCode).toBeNull();
+  });
+
+  it('rejects an expired code', async () => {
+    jest.useFakeTimers();
+    const service = getService();
+    const { code } = service.createPairingCode();
+    jest.advanceTimersByTime(PAIRING_CODE_TTL_MS);
+
+    await expect(service.pair({ code, registerId: 'reg-2', registerName: 'Till 2' })).resolves.toBeNull();
+  });
+
+  it('discards the code after too many wrong guesses', async () => {
+    const service = getService();
+    const { code } = service.createPairingCode();
+    for (let i = 0; i < MAX_PAIRING_ATTEMPTS; i++) {
+      await expect(service.pair({ code: '000000', registerId: 'reg-x', registerName: 'X' })).resolves.toBeNull();
+    }
+
+    await expect(service.pair({ code, registerId: 'reg-2', registerName: 'Till 2' })).resolves.toBeNull();
+  });
+
+  it('revokes the previous credential when a register pairs again', async () => {
+    const service = getService();
+    const first = await pairRegister(service);
+    await pairRegister(service);
+
+    const result = await service.authenticate('GET', '/api/orders', '', signed(first, 'GET', '/api/orders'));
+    expect(result).toEqual({ ok: false, error: 'Unknown or revoked credential' });
+  });
+});
+
+// ── Authentication ────────────────────────────────────────────────────────
+
+describe('RegisterAuthService.authenticate', () => {
+  it('accepts a correctly signed request', async () => {
+    const service = getService();
+    const credential = await pairRegister(service);
+    const body = '{"status":"paid"}';
+
+    const result = await service.authenticate(
+      'PUT',
+      '/api/orders/o1/status',
+      body,
+      signed(credential, 'PUT', '/api/orders/o1/status', body)
+    );
+
+    expect(result).toEqual({
+      ok: true,
+      register: { keyId: credential.keyId, registerId: 'reg-2', registerName: 'Till 2', role: 'register' },
+    });
+  });
+
+  it('rejects unsigned, tampered and stale requests', async () => {
+    const service = getService();
+    const credential = await pairRegister(service);
+
+    await expect(service.authenticate('GET', '/api/orders', '', {})).resolves.toMatchObject({ ok: false });
+    await expect(service.authenticate('DELETE', '/api/orders', '', signed(credential, 'GET', '/api/orders'))).resolves.toEqual({
+      ok: false,
+      error: 'Invalid request signature',
+    });
+    await expect(
+      service.authenticate(
+        'GET',
+        '/api/orders',
+        '',
+        signed(credential, 'GET', '/api/orders', '', { timestamp: Date.now() - 10 * 60 * 1000 })
+      )
+    ).resolves.toEqual({ ok: false, error: 'Request timestamp out of range' });
+  });
+
+  it('rejects a replayed request', async () => {
+    const service = getService();
+    const credential = await pairRegister(service);
+    const headers = signed(credential, 'GET', '/api/orders');
+
+    await expect(service.authenticate('GET', '/api/orders', '', headers)).resolves.toMatchObject({ ok: true });
+    await expect(service.authenticate('GET', '/api/orders', '', headers)).resolves.toEqual({ ok: false, error: 'Replayed request' });
+  });
+
+  it('rejects requests once the credential is revoked', async () => {
+    const service = getService();
+    const credential = await pairRegister(service);
+    await expect(service.authenticate('GET', '/api/orders', '', signed(credential, 'GET', '/api/orders'))).resolves.toMatchObject({
+      ok: true,
+    });
+
+    await service.revoke(credential.keyId, 'admin-1');
+
+    await expect(service.authenticate('GET', '/api/orders', '', signed(credential, 'GET', '/api/orders'))).resolves.toMatchObject({
+      ok: false,
+    });
+    expect(auditLogService.log).toHaveBeenCalledWith('register:revoked', expect.objectContaining({ userId: 'admin-1' }));
+  });
+
+  it('applies role changes to the next request', async () => {
+    const service = getService();
+    const credential = await pairRegister(service);
+    await service.authenticate('GET', '/api/orders', '', signed(credential, 'GET', '/api/orders'));
+
+    await service.setRole(credential.keyId, 'back_office');
+    const result = await service.authenticate('GET', '/api/orders', '', signed(credential, 'GET', '/api/orders'));
+
+    expect(result.ok && service.hasRole(result.register, 'back_office')).toBe(true);
+  });
+});
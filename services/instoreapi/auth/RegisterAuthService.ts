@@ -0,0 +1,294 @@
+import { registerCredentialRepository, RegisterCredentialRow, RegisterRole } from '../../../repositories/RegisterCredentialRepository';
+import { auditLogService } from '../../audit/AuditLogService';
+import { LoggerFactory } from '../../logger/LoggerFactory';
+import { generateUUID } from '../../../utils/uuid';
+import { randomDigits, randomHex } from '../../../utils/secureRandom';
+import { sha256Hex } from '../../../utils/sha256';
+import { NonceCache, isWithinClockSkew, readSignatureHeaders, verifySignature } from './requestSigning';
+
+export type { RegisterRole } from '../../../repositories/RegisterCredentialRepository';
+
+/** Role rank: back_office (2) > register (1) */
+export const REGISTER_ROLE_RANK: Record<RegisterRole, number> = {
+  register: 1,
+  back_office: 2,
+};
+
+/** How long a pairing code shown on the server stays valid */
+export const PAIRING_CODE_TTL_MS = 5 * 60 * 1000;
+
+/** Wrong guesses allowed before the pairing code is thrown away */
+export const MAX_PAIRING_ATTEMPTS = 5;
+
+/** last_seen_at is written at most this often per credential */
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+const SECRET_BYTES = 32;
+const PAIRING_CODE_DIGITS = 6;
+
+export interface PairingCode {
+  code: string;
+  role: RegisterRole;
+  expiresAt: number;
+}
+
+export interface PairRequest {
+  code: string;
+  registerId: string;
+  registerName: string;
+}
+
+/** What a client register stores after pairing */
+export interface IssuedCredential {
+  keyId: string;
+  secret: string;
+  role: RegisterRole;
+}
+
+export interface AuthenticatedRegister {
+  keyId: string;
+  registerId: string;
+  registerName: string;
+  role: RegisterRole;
+}
+
+export type AuthenticationResult = { ok: true; register: AuthenticatedRegister } | { ok: false; error: string };
+
+/**
+ * Issues and checks per-register credentials for the in-store API server.
+ *
+ * Pairing: the server register shows a one-time code (createPairingCode);
+ * the client register sends it with its id and name (pair) and receives its
+ * own key id and secret. Only one code is live at a time, it expires after
+ * PAIRING_CODE_TTL_MS and is discarded after MAX_PAIRING_ATTEMPTS wrong guesses.
+ *
+ * Every later request is HMAC-signed with that secret (see requestSigning.ts)
+ * and verified here. Revoking a credential takes effect on the next request.
+ */
+export class RegisterAuthService {
+  private static instance: RegisterAuthService;
+  private logger = LoggerFactory.getInstance().createLogger('RegisterAuthService');
+  private pairingCode: (PairingCode & { failedAttempts: number }) | null = null;
+  private nonces = new NonceCache();
+  private credentials = new Map<string, RegisterCredentialRow>();
+  private lastSeenWritten = new Map<string, number>();
+
+  private constructor() {}
+
+  static getInstance(): RegisterAuthService {
+    if (!RegisterAuthService.instance) {
+      RegisterAuthService.instance = new RegisterAuthService();
+    }
+    return RegisterAuthService.instance;
+  }
+
+  // ── Pairing ─────────────────────────────────────────────────────────
+
+  /** Create a new one-time code, replacing any code still showing */
+  createPairingCode(role: RegisterRole = 'register'): PairingCode {
+    this.pairingCode = {
+      code: randomDigits(PAIRING_CODE_DIGITS),
+      role,
+      expiresAt: Date.now() + PAIRING_CODE_TTL_MS,
+      failedAttempts: 0,
+    };
+    this.logger.info(`Pairing code created for role ${role}`);
+    return this.activePairingCode!;
+  }
+
+  get activePairingCode(): PairingCode | null {
+    if (!this.pairingCode || this.pairingCode.expiresAt <= Date.now()) return null;
+    const { code, role, expiresAt } = this.pairingCode;
+    return { code, role, expiresAt };
+  }
+
+  cancelPairingCode(): void {
+    this.pairingCode = null;
+  }
+
+  /**
+   * Exchange a pairing code for a credential. Returns null when the code is
+   * wrong, expired or already used. Pairing again from the same register
+   * revokes its previous credential.
+   */
+  async pair(request: PairRequest): Promise<IssuedCredential | null> {
+    const pending = this.activePairingCode;
+    if (!pending || !this.pairingCode) {
+      this.pairingCode = null;
+      return null;
+    }
+
+    if (request.code !== pending.code) {
+      this.pairingCode.failedAttempts++;
+      if (this.pairingCode.failedAttempts >= MAX_PAIRING_ATTEMPTS) {
+        this.logger.warn(`Pairing code discarded after ${MAX_PAIRING_ATTEMPTS} failed attempts`);
+        this.pairingCode = null;
+      }
+      return null;
+    }
+
+    // Single use
+    this.pairingCode = null;
+
+    const credential: IssuedCredential = { keyId: generateUUID(), secret: randomHex(SECRET_BYTES), role: pending.role };
+    await registerCredentialRepository.revokeByRegister(request.registerId);
+    await registerCredentialRepository.create({
+      keyId: credential.keyId,
+      registerId: request.registerId,
+      registerName: request.registerName,
+      role: credential.role,
+      secret: credential.secret,
+    });
+    this.credentials.clear();
+
+    await auditLogService.log('register:paired', {
+      registerId: request.registerId,
+      details: `Register "${request.registerName}" paired as ${credential.role}`,
+      metadata: { keyId: credential.keyId, role: credential.role },
+    });
+    this.logger.info(`Register ${request.registerName} (${request.registerId}) paired`);
+
+    return credential;
+  }
+
+  // ── Request authentication ──────────────────────────────────────────
+
+  /**
+   * Verify a signed request. `path` must include the query string and
+   * `rawBody` must be the body exactly as received.
+   */
+  async authenticate(
+    method: string,
+    path: string,
+    rawBody: string | undefined,
+    headers: Record<string, string> | undefined
+  ): Promise<AuthenticationResult> {
+    const signed = readSignatureHeaders(headers);
+    if (!signed) return { ok: false, error: 'Missing request signature' };
+
+    if (!isWithinClockSkew(signed.timestamp)) return { ok: false, error: 'Request timestamp out of range' };
+
+    const credential = await this.getCredential(signed.keyId);
+    if (!credential || credential.revoked_at != null) return { ok: false, error: 'Unknown or revoked credential' };
+
+    const request = { method, path, body: rawBody, timestamp: signed.timestamp, nonce: signed.nonce };
+    if (!verifySignature(credential.secret, request, signed.signature)) return { ok: false, error: 'Invalid request signature' };
+
+    // Only remember nonces of correctly signed requests, so unauthenticated traffic cannot fill the cache
+    if (!this.nonces.checkAndStore(signed.keyId, signed.nonce)) return { ok: false, error: 'Replayed request' };
+
+    await this.touch(credential.id);
+
+    return {
+      ok: true,
+      register: {
+        keyId: credential.id,
+        registerId: credential.register_id,
+        registerName: credential.register_name,
+        role: credential.role,
+      },
+    };
+  }
+
+  hasRole(register: AuthenticatedRegister, minRole: RegisterRole): boolean {
+    return REGISTER_ROLE_RANK[register.role] >= REGISTER_ROLE_RANK[minRole];
+  }
+
+  // ── Management (settings screen) ────────────────────────────────────
+
+  async listCredentials(): Promise<RegisterCredentialRow[]> {
+    return registerCredentialRepository.findAll();
+  }
+
+  async revoke(keyId: string, revokedBy?: string): Promise<void> {
+    const credential = await registerCredentialRepository.findById(keyId);
+    if (!credential || credential.revoked_at != null) return;
+
+    await registerCredentialRepository.revoke(keyId);
+    this.credentials.delete(keyId);
+
+    await auditLogService.log('register:revoked', {
+      userId: revokedBy,
+      registerId: credential.register_id,
+      details: `Credential for register "${credential.register_name}" revoked`,
+      metadata: { keyId },
+    });
+    this.logger.info(`Credential ${keyId} for register ${credential.register_name} revoked`);
+  }
+
+  async setRole(keyId: string, role: RegisterRole, changedBy?: string): Promise<void> {
+    const credential = await registerCredentialRepository.findById(keyId);
+    if (!credential || credential.role === role) return;
+
+    await registerCredentialRepository.setRole(keyId, role);
+    this.credentials.delete(keyId);
+
+    await auditLogService.log('register:role_changed', {
+      userId: changedBy,
+      registerId: credential.register_id,
+      details: `Register "${credential.register_name}" changed from ${credential.role} to ${role}`,
+      metadata: { keyId, from: credential.role, to: role },
+    });
+  }
+
+  // ── Replication (failover) ──────────────────────────────────────────
+
+  /**
+   * Issue a credential to the server register itself, so it can sign
+   * requests to whichever register takes over from it. Reuses a live one.
+   */
+  async issueOwnCredential(registerId: string, registerName: string, current: IssuedCredential | null): Promise<IssuedCredential> {
+    if (current) {
+      const row = await registerCredentialRepository.findById(current.keyId);
+      if (row && row.revoked_at == null) return current;
+    }
+    const credential: IssuedCredential = { keyId: generateUUID(), secret: randomHex(SECRET_BYTES), role: 'back_office' };
+    await registerCredentialRepository.revokeByRegister(registerId);
+    await registerCredentialRepository.create({ ...credential, registerId, registerName });
+    this.credentials.clear();
+    return credential;
+  }
+
+  /** Changes whenever a credential is added, revoked or changes role */
+  async credentialsVersion(): Promise<string> {
+    const rows = await registerCredentialRepository.findAll();
+    const summary = rows
+      .map(row => `${row.id}:${row.role}:${row.revoked_at ?? ''}`)
+      .sort()
+      .join('|');
+    return sha256Hex(summary);
+  }
+
+  async exportCredentials(): Promise<RegisterCredentialRow[]> {
+    return registerCredentialRepository.findAll();
+  }
+
+  /** Store credentials replicated from the leader so this register can verify requests after taking over */
+  async importCredentials(rows: RegisterCredentialRow[]): Promise<void> {
+    await registerCredentialRepository.upsertMany(rows);
+    this.credentials.clear();
+  }
+
+  // ── Private ─────────────────────────────────────────────────────────
+
+  private async getCredential(keyId: string): Promise<RegisterCredentialRow | null> {
+    const cached = this.credentials.get(keyId);
+    if (cached) return cached;
+    const row = await registerCredentialRepository.findById(keyId);
+    if (row) this.credentials.set(keyId, row);
+    return row;
+  }
+
+  private async touch(keyId: string): Promise<void> {
+    const now = Date.now();
+    if (now - (this.lastSeenWritten.get(keyId) ?? 0) < LAST_SEEN_INTERVAL_MS) return;
+    this.lastSeenWritten.set(keyId, now);
+    try {
+      await registerCredentialRepository.markSeen(keyId, now);
+    } catch (error) {
+      this.logger.warn({ message: `Failed to record last seen for ${keyId}: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  }
+}
+
+export const registerAuthService = RegisterAuthService.getInstance();
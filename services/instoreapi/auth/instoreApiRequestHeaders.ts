@@ -0,0 +1,21 @@
+import { instoreApiConfig } from '../InstoreApiConfig';
+import { generateUUID } from '../../../utils/uuid';
+import { signatureHeaders } from './requestSigning';
+
+/**
+ * Headers for a request from this register to the server register: JSON
+ * content type, the register id and, once paired, the request signature.
+ * `path` must include the query string and `body` must be the exact string
+ * that is sent, or the server will reject the signature.
+ */
+export function instoreApiRequestHeaders(method: string, path: string, body?: string): Record<string, string> {
+  const { registerId, credential } = instoreApiConfig.current;
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'X-Register-Id': registerId,
+  };
+  if (credential) {
+    Object.assign(headers, signatureHeaders(credential, { method, path, body, timestamp: Date.now(), nonce: generateUUID() }));
+  }
+  return headers;
+}
@@ -0,0 +1,80 @@
+import {
+  MAX_CLOCK_SKEW_MS,
+  NonceCache,
+  canonicalRequest,
+  isWithinClockSkew,
+  readSignatureHeaders,
+  signatureHeaders,
+  verifySignature,
+} from './requestSigning';
+
+const credential = { keyId: 'key-1', secret: 'c0ffee' };
+const request = {
+  method: 'post',
+  path: '/api/orders?draft=1',
+  body: '{"order":{"id":"o1"}}',
+  timestamp: 1_700_000_000_000,
+  nonce: 'nonce-1',
+};
+
+describe('requestSigning', () => {
+  it('builds the canonical string from method, path, timestamp, nonce and body hash', () => {
+    expect(canonicalRequest({ ...request, body: '' })).toBe(
+      'POST\n/api/orders?draft=1\n1700000000000\nnonce-1\ne3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+    );
+  });
+
+  it('round-trips signed headers through verification', () => {
+    const headers = signatureHeaders(credential, request);
+    const parsed = readSignatureHeaders(headers);
+
+    expect(parsed).toEqual({ keyId: 'key-1', timestamp: request.timestamp, nonce: 'nonce-1', signature: headers['x-signature'] });
+    expect(verifySignature(credential.secret, request, parsed!.signature)).toBe(true);
+  });
+
+  it('rejects a signature when any signed part changes', () => {
+    const { 'x-signature': signature } = signatureHeaders(credential, request);
+
+    expect(verifySignature('other-secret', request, signature)).toBe(false);
+    expect(verifySignature(credential.secret, { ...request, method: 'DELETE' }, signature)).toBe(false);
+    expect(verifySignature(credential.secret, { ...request, path: '/api/orders' }, signature)).toBe(false);
+    expect(verifySignature(credential.secret, { ...request, body: '{}' }, signature)).toBe(false);
+    expect(verifySignature(credential.secret, { ...request, timestamp: request.timestamp + 1 }, signature)).toBe(false);
+    expect(verifySignature(credential.secret, { ...request, nonce: 'nonce-2' }, signature)).toBe(false);
+  });
+
+  it('reads headers case-insensitively and rejects incomplete sets', () => {
+    expect(readSignatureHeaders({ 'X-Key-Id': 'k', 'X-Timestamp': '5', 'X-Nonce': 'n', 'X-Signature': 'ab' })).toEqual({
+      keyId: 'k',
+      timestamp: 5,
+      nonce: 'n',
+      signature: 'ab',
+    });
+    expect(readSignatureHeaders({ 'x-key-id': 'k', 'x-timestamp': 'soon', 'x-nonce': 'n', 'x-signature': 'ab' })).toBeNull();
+    expect(readSignatureHeaders({ 'x-shared-secret': 'old' })).toBeNull();
+    expect(readSignatureHeaders(undefined)).toBeNull();
+  });
+
+  it('limits clock skew in both directions', () => {
+    const now = request.timestamp;
+    expect(isWithinClockSkew(now - MAX_CLOCK_SKEW_MS, now)).toBe(true);
+    expect(isWithinClockSkew(now + MAX_CLOCK_SKEW_MS + 1, now)).toBe(false);
+    expect(isWithinClockSkew(now - MAX_CLOCK_SKEW_MS - 1, now)).toBe(false);
+  });
+});
+
+describe('NonceCache', () => {
+  it('rejects a replayed nonce for the same key', () => {
+    const cache = new NonceCache(1000);
+    expect(cache.checkAndStore('key-1', 'n1', 0)).toBe(true);
+    expect(cache.checkAndStore('key-1', 'n1', 10)).toBe(false);
+    expect(cache.checkAndStore('key-2', 'n1', 10)).toBe(true);
+  });
+
+  it('forgets nonces once they expire', () => {
+    const cache = new NonceCache(1000);
+    cache.checkAndStore('key-1', 'n1', 0);
+    expect(cache.checkAndStore('key-1', 'n2', 1000)).toBe(true);
+    expect(cache.size).toBe(1);
+  });
+});
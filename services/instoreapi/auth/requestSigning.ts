@@ -0,0 +1,136 @@
+import { hmacSha256Hex, sha256Hex } from '../../../utils/sha256';
+
+/**
+ * HMAC request signing for the in-store API.
+ *
+ * Every request from a paired register carries its key id, a timestamp, a
+ * random nonce and an HMAC-SHA256 signature over:
+ *
+ *   METHOD \n path (with query string) \n timestamp \n nonce \n sha256(body)
+ *
+ * The server rejects requests whose timestamp is outside MAX_CLOCK_SKEW_MS
+ * and any nonce it has already seen within that window, so a captured
+ * request cannot be replayed.
+ *
+ * Kept free of React Native imports so the client, the server and tests all
+ * share one implementation.
+ */
+
+export const SIGNATURE_HEADERS = {
+  keyId: 'x-key-id',
+  timestamp: 'x-timestamp',
+  nonce: 'x-nonce',
+  signature: 'x-signature',
+} as const;
+
+/** How far a request timestamp may drift from the server clock */
+export const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export interface SigningCredential {
+  keyId: string;
+  secret: string;
+}
+
+export interface SignableRequest {
+  method: string;
+  /** Request path including any query string, e.g. `/api/orders?status=paid` */
+  path: string;
+  /** Raw request body exactly as sent; empty for GET/DELETE */
+  body?: string;
+  timestamp: number;
+  nonce: string;
+}
+
+export interface SignedRequestHeaders {
+  keyId: string;
+  timestamp: number;
+  nonce: string;
+  signature: string;
+}
+
+export function canonicalRequest(request: SignableRequest): string {
+  return [request.method.toUpperCase(), request.path, String(request.timestamp), request.nonce, sha256Hex(request.body ?? '')].join('\n');
+}
+
+export function signRequest(secret: string, request: SignableRequest): string {
+  return hmacSha256Hex(secret, canonicalRequest(request));
+}
+
+/** Headers to attach to an outgoing request */
+export function signatureHeaders(credential: SigningCredential, request: SignableRequest): Record<string, string> {
+  return {
+    [SIGNATURE_HEADERS.keyId]: credential.keyId,
+    [SIGNATURE_HEADERS.timestamp]: String(request.timestamp),
+    [SIGNATURE_HEADERS.nonce]: request.nonce,
+    [SIGNATURE_HEADERS.signature]: signRequest(credential.secret, request),
+  };
+}
+
+/**
+ * Read the signature headers from an incoming request. Header names are
+ * matched case-insensitively because transports differ in how they report
+ * them. Returns null when any header is missing or malformed.
+ */
+export function readSignatureHeaders(headers: Record<string, string> | undefined): SignedRequestHeaders | null {
+  if (!headers) return null;
+  const lower: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    lower[name.toLowerCase()] = value;
+  }
+
+  const keyId = lower[SIGNATURE_HEADERS.keyId];
+  const nonce = lower[SIGNATURE_HEADERS.nonce];
+  const signature = lower[SIGNATURE_HEADERS.signature];
+  const timestamp = Number(lower[SIGNATURE_HEADERS.timestamp]);
+  if (!keyId || !nonce || !signature || !Number.isFinite(timestamp)) return null;
+
+  return { keyId, timestamp, nonce, signature };
+}
+
+/** Compare two hex strings without short-circuiting on the first difference */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export function verifySignature(secret: string, request: SignableRequest, signature: string): boolean {
+  return timingSafeEqual(signRequest(secret, request), signature.toLowerCase());
+}
+
+export function isWithinClockSkew(timestamp: number, now: number = Date.now()): boolean {
+  return Math.abs(now - timestamp) <= MAX_CLOCK_SKEW_MS;
+}
+
+/**
+ * Remembers nonces for as long as their timestamps are acceptable. A nonce
+ * only needs to be kept until its request would fail the clock-skew check
+ * anyway, so the cache stays small.
+ */
+export class NonceCache {
+  private seen = new Map<string, number>();
+
+  constructor(private readonly ttlMs: number = MAX_CLOCK_SKEW_MS * 2) {}
+
+  /** Record a nonce; returns false if it has already been used */
+  checkAndStore(keyId: string, nonce: string, now: number = Date.now()): boolean {
+    this.prune(now);
+    const key = `${keyId}:${nonce}`;
+    if (this.seen.has(key)) return false;
+    this.seen.set(key, now + this.ttlMs);
+    return true;
+  }
+
+  get size(): number {
+    return this.seen.size;
+  }
+
+  private prune(now: number): void {
+    for (const [key, expiresAt] of this.seen) {
+      if (expiresAt <= now) this.seen.delete(key);
+    }
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * MdnsService
+ *
+ * Publishes and browses the `_retailpos._tcp` DNS-SD service using
+ * react-native-zeroconf (NSD on Android, Bonjour on iOS).
+ *
+ * - The server register advertises itself while InstoreApiServer runs in
+ *   server mode, with TXT records for its register ID, name, API version and
+ *   store ID (see ServiceAdvertisementRegistry).
+ * - Other registers browse while they need the list (InstoreApiDiscovery).
+ *   Resolved services go through an AdvertisementRegistry that drops
+ *   duplicates and stale entries. Most platform browsers only report a
+ *   service when it is announced, so the browse is restarted periodically to
+ *   re-resolve what is still there; whatever does not come back within the
+ *   TTL is dropped.
+ *
+ * On web / Electron, or when the native module is missing, `isAvailable` is
+ * false and discovery falls back to the subnet scan.
+ */
+
+import { Platform } from 'react-native';
+import { instoreApiConfig, INSTORE_API_VERSION } from '../InstoreApiConfig';
+import { LoggerFactory } from '../../logger/LoggerFactory';
+import {
+  AdvertisementRegistry,
+  ResolvedService,
+  SERVICE_DOMAIN,
+  SERVICE_PROTOCOL,
+  SERVICE_TYPE,
+  ServiceAdvertisement,
+  buildTxtRecord,
+  parseResolvedService,
+} from './ServiceAdvertisementRegistry';
+
+// Import react-native-zeroconf only on native platforms
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+let ZeroconfModule: any = null;
+if (Platform.OS !== 'web') {
+  try {
+    ZeroconfModule = require('react-native-zeroconf').default;
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.warn('react-native-zeroconf not available:', error);
+  }
+}
+
+/** How often an active browse is restarted to re-resolve live services */
+const REBROWSE_INTERVAL_MS = 60 * 1000;
+
+export type AdvertisementListener = (advertisements: ServiceAdvertisement[]) => void;
+
+export class MdnsService {
+  private static instance: MdnsService;
+  private logger = LoggerFactory.getInstance().createLogger('MdnsService');
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private zeroconf: any = null;
+  private publishedName: string | null = null;
+  private registry = new AdvertisementRegistry();
+  private listeners = new Set<AdvertisementListener>();
+  private rebrowseTimer: ReturnType<typeof setInterval> | null = null;
+
+  private constructor() {}
+
+  static getInstance(): MdnsService {
+    if (!MdnsService.instance) {
+      MdnsService.instance = new MdnsService();
+    }
+    return MdnsService.instance;
+  }
+
+  get isAvailable(): boolean {
+    return ZeroconfModule !== null;
+  }
+
+  get isAdvertising(): boolean {
+    return this.publishedName !== null;
+  }
+
+  get isBrowsing(): boolean {
+    return this.listeners.size > 0;
+  }
+
+  /** Advertisements for this store, excluding this register's own */
+  get advertisements(): ServiceAdvertisement[] {
+    const { registerId, storeId } = instoreApiConfig.current;
+    return this.registry.list(storeId).filter(ad => ad.registerId !== registerId);
+  }
+
+  // ── Advertising ─────────────────────────────────────────────────────
+
+  /** Publish (or re-publish, after a settings change) this register as the server */
+  advertise(): void {
+    const zeroconf = this.client();
+    if (!zeroconf) return;
+
+    const settings = instoreApiConfig.current;
+    this.stopAdvertising();
+    try {
+      zeroconf.publishService(
+        SERVICE_TYPE,
+        SERVICE_PROTOCOL,
+        SERVICE_DOMAIN,
+        settings.registerName,
+        settings.port,
+        buildTxtRecord(settings.registerId, settings.registerName, INSTORE_API_VERSION, settings.storeId)
+      );
+      this.publishedName = settings.registerName;
+      this.logger.info(`Advertising _${SERVICE_TYPE}._${SERVICE_PROTOCOL} as "${settings.registerName}" on port ${settings.port}`);
+    } catch (error) {
+      this.logger.error({ message: 'Failed to publish mDNS service' }, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  stopAdvertising(): void {
+    if (!this.publishedName) return;
+    try {
+      this.zeroconf?.unpublishService(this.publishedName);
+      this.logger.info(`Stopped advertising "${this.publishedName}"`);
+    } catch (error) {
+      this.logger.warn({ message: `Failed to unpublish mDNS service: ${error instanceof Error ? error.message : String(error)}` });
+    }
+    this.publishedName = null;
+  }
+
+  // ── Browsing ────────────────────────────────────────────────────────
+
+  /**
+   * Browse for servers until the returned function is called. The listener
+   * is called with the current list straight away and whenever it changes.
+   */
+  browse(listener: AdvertisementListener): () => void {
+    const zeroconf = this.client();
+    if (!zeroconf) {
+      listener([]);
+      return () => {};
+    }
+
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) {
+      this.registry.clear();
+      this.startScan();
+      this.rebrowseTimer = setInterval(() => this.rebrowse(), REBROWSE_INTERVAL_MS);
+    }
+    listener(this.advertisements);
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.stopBrowsing();
+    };
+  }
+
+  // ── Private ─────────────────────────────────────────────────────────
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private client(): any {
+    if (!ZeroconfModule) return null;
+    if (!this.zeroconf) {
+      this.zeroconf = new ZeroconfModule();
+      this.zeroconf.on('resolved', (service: ResolvedService) => this.handleResolved(service));
+      this.zeroconf.on('remove', (name: string) => this.handleRemoved(name));
+      this.zeroconf.on('error', (error: unknown) => {
+        this.logger.warn({ message: `mDNS error: ${error instanceof Error ? error.message : String(error)}` });
+      });
+    }
+    return this.zeroconf;
+  }
+
+  private handleResolved(service: ResolvedService): void {
+    if (!this.isBrowsing) return;
+    const ad = parseResolvedService(service, Date.now());
+    if (ad && this.registry.upsert(ad)) this.notify();
+  }
+
+  private handleRemoved(name: string): void {
+    if (this.registry.remove(name)) this.notify();
+  }
+
+  private startScan(): void {
+    try {
+      this.zeroconf.scan(SERVICE_TYPE, SERVICE_PROTOCOL, SERVICE_DOMAIN);
+    } catch (error) {
+      this.logger.error({ message: 'Failed to browse for mDNS services' }, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  private rebrowse(): void {
+    if (this.registry.prune(Date.now())) this.notify();
+    try {
+      this.zeroconf.stop();
+    } catch {
+      // Not scanning — nothing to stop
+    }
+    this.startScan();
+  }
+
+  private stopBrowsing(): void {
+    if (this.rebrowseTimer) {
+      clearInterval(this.rebrowseTimer);
+      this.rebrowseTimer = null;
+    }
+    try {
+      this.zeroconf?.stop();
+    } catch {
+      // Not scanning — nothing to stop
+    }
+    this.registry.clear();
+  }
+
+  private notify(): void {
+    const advertisements = this.advertisements;
+    for (const listener of this.listeners) {
+      try {
+        listener(advertisements);
+      } catch (error) {
+        this.logger.error({ message: 'Advertisement listener failed' }, error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  }
+}
+
+export const mdnsService = MdnsService.getInstance();
@@ -0,0 +1,90 @@
+import {
+  AdvertisementRegistry,
+  ResolvedService,
+  ServiceAdvertisement,
+  buildTxtRecord,
+  parseResolvedService,
+} from './ServiceAdvertisementRegistry';
+
+function ad(overrides: Partial<ServiceAdvertisement> = {}): ServiceAdvertisement {
+  return {
+    serviceName: 'Till 1',
+    registerId: 'r1',
+    registerName: 'Till 1',
+    apiVersion: '1',
+    storeId: 'store-a',
+    address: '10.0.4.20',
+    port: 8787,
+    seenAt: 1000,
+    ...overrides,
+  };
+}
+
+describe('parseResolvedService', () => {
+  const service: ResolvedService = {
+    name: 'Till 1',
+    host: 'till-1.local.',
+    port: 8787,
+    addresses: ['fe80::1', '10.0.4.20'],
+    txt: { ...buildTxtRecord('r1', 'Till 1', '1', 'store-a') },
+  };
+
+  it('reads the TXT record and prefers an IPv4 address', () => {
+    expect(parseResolvedService(service, 1000)).toEqual(ad());
+  });
+
+  it('falls back to the host name without an IPv4 address', () => {
+    expect(parseResolvedService({ ...service, addresses: ['fe80::1'] }, 1000)?.address).toBe('till-1.local');
+  });
+
+  it('ignores services without a register ID', () => {
+    expect(parseResolvedService({ ...service, txt: { name: 'Printer' } }, 1000)).toBeNull();
+  });
+});
+
+describe('AdvertisementRegistry', () => {
+  it('keeps one entry per register when it is re-published under another name', () => {
+    const registry = new AdvertisementRegistry();
+    registry.upsert(ad());
+    expect(registry.upsert(ad({ serviceName: 'Till 1 (2)', seenAt: 2000 }))).toBe(true);
+
+    expect(registry.list().map(a => a.serviceName)).toEqual(['Till 1 (2)']);
+  });
+
+  it('reports no change when the same advertisement resolves again', () => {
+    const registry = new AdvertisementRegistry();
+    registry.upsert(ad());
+
+    expect(registry.upsert(ad({ seenAt: 2000 }))).toBe(false);
+    expect(registry.list()[0].seenAt).toBe(2000);
+  });
+
+  it('replaces a register that no longer answers on an address', () => {
+    const registry = new AdvertisementRegistry();
+    registry.upsert(ad());
+    registry.upsert(ad({ serviceName: 'Till 2', registerId: 'r2', registerName: 'Till 2' }));
+
+    expect(registry.list().map(a => a.registerId)).toEqual(['r2']);
+  });
+
+  it('drops removed services and entries past the TTL', () => {
+    const registry = new AdvertisementRegistry(60_000);
+    registry.upsert(ad());
+    registry.upsert(ad({ serviceName: 'Till 2', registerId: 'r2', address: '10.0.4.21', seenAt: 50_000 }));
+
+    expect(registry.remove('Till 2')).toBe(true);
+    expect(registry.remove('Till 2')).toBe(false);
+    expect(registry.prune(30_000)).toBe(false);
+    expect(registry.prune(70_000)).toBe(true);
+    expect(registry.list()).toEqual([]);
+  });
+
+  it('lists only advertisements for the configured store', () => {
+    const registry = new AdvertisementRegistry();
+    registry.upsert(ad());
+    registry.upsert(ad({ serviceName: 'Till 9', registerId: 'r9', storeId: 'store-b', address: '10.0.4.99' }));
+
+    expect(registry.list('store-a').map(a => a.registerId)).toEqual(['r1']);
+    expect(registry.list()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * DNS-SD advertisements of the in-store API (`_retailpos._tcp`).
+ *
+ * The server register publishes one service with TXT records carrying its
+ * register ID, name, API version and store ID. Browsing registers feed every
+ * resolved service into an AdvertisementRegistry, which keeps one entry per
+ * register:
+ *
+ *   - the same register seen under another service name (mDNS renames a
+ *     service to "Till 1 (2)" when it collides with a stale record) replaces
+ *     the older entry;
+ *   - a different register now answering on the same address and port
+ *     replaces the entry for the register that used to be there;
+ *   - entries not re-resolved within the TTL are dropped, as are services
+ *     the browser reports as removed.
+ */
+
+export const SERVICE_TYPE = 'retailpos';
+export const SERVICE_PROTOCOL = 'tcp';
+export const SERVICE_DOMAIN = 'local.';
+
+/** Entries not re-resolved for this long are treated as gone */
+export const ADVERTISEMENT_TTL_MS = 3 * 60 * 1000;
+
+/** TXT record keys; kept short because DNS-SD limits each record to 255 bytes */
+export interface ServiceTxtRecord {
+  /** Register ID */
+  id: string;
+  /** Register name */
+  name: string;
+  /** In-store API version */
+  api: string;
+  /** Store ID; empty when not configured */
+  store: string;
+}
+
+/** A service as reported by the platform's DNS-SD browser once resolved */
+export interface ResolvedService {
+  name: string;
+  host?: string;
+  port: number;
+  addresses?: string[];
+  txt?: Record<string, string | undefined>;
+}
+
+export interface ServiceAdvertisement {
+  serviceName: string;
+  registerId: string;
+  registerName: string;
+  apiVersion: string;
+  storeId: string;
+  address: string;
+  port: number;
+  /** Last time the service was resolved */
+  seenAt: number;
+}
+
+export function buildTxtRecord(registerId: string, registerName: string, apiVersion: string, storeId: string): ServiceTxtRecord {
+  return { id: registerId, name: registerName, api: apiVersion, store: storeId };
+}
+
+const IPV4 = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+/**
+ * Turn a resolved service into an advertisement. Returns null for services
+ * without a register ID or a usable address (another app using the same
+ * service type, or a record that has not fully resolved).
+ */
+export function parseResolvedService(service: ResolvedService, now: number): ServiceAdvertisement | null {
+  const txt = service.txt ?? {};
+  const registerId = txt.id?.trim();
+  if (!registerId || !service.port) return null;
+
+  // Registers reach each other over IPv4; fall back to the host name otherwise
+  const address = service.addresses?.find(a => IPV4.test(a)) ?? service.host?.replace(/\.$/, '');
+  if (!address) return null;
+
+  return {
+    serviceName: service.name,
+    registerId,
+    registerName: txt.name || service.name,
+    apiVersion: txt.api || '',
+    storeId: txt.store || '',
+    address,
+    port: service.port,
+    seenAt: now,
+  };
+}
+
+export class AdvertisementRegistry {
+  private entries = new Map<string, ServiceAdvertisement>();
+
+  constructor(private ttlMs = ADVERTISEMENT_TTL_MS) {}
+
+  /** Record a resolved advertisement; returns true when the list changed */
+  upsert(ad: ServiceAdvertisement): boolean {
+    const previous = this.entries.get(ad.registerId);
+
+    for (const [registerId, entry] of this.entries) {
+      if (registerId !== ad.registerId && entry.address === ad.address && entry.port === ad.port) {
+        this.entries.delete(registerId);
+      }
+    }
+    this.entries.set(ad.registerId, ad);
+
+    return (
+      !previous ||
+      previous.serviceName !== ad.serviceName ||
+      previous.registerName !== ad.registerName ||
+      previous.apiVersion !== ad.apiVersion ||
+      previous.storeId !== ad.storeId ||
+      previous.address !== ad.address ||
+      previous.port !== ad.port
+    );
+  }
+
+  /** Drop the entry published under a service name; returns true when one was removed */
+  remove(serviceName: string): boolean {
+    for (const [registerId, entry] of this.entries) {
+      if (entry.serviceName === serviceName) {
+        this.entries.delete(registerId);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /** Drop entries not seen within the TTL; returns true when any were removed */
+  prune(now: number): boolean {
+    let removed = false;
+    for (const [registerId, entry] of this.entries) {
+      if (now - entry.seenAt > this.ttlMs) {
+        this.entries.delete(registerId);
+        removed = true;
+      }
+    }
+    return removed;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Current advertisements, most recently seen first. With a store ID, only
+   * advertisements for that store are listed.
+   */
+  list(storeId = ''): ServiceAdvertisement[] {
+    return [...this.entries.values()].filter(ad => !storeId || ad.storeId === storeId).sort((a, b) => b.seenAt - a.seenAt);
+  }
+}
@@ -0,0 +1,375 @@
+/**
+ * FailoverService
+ *
+ * Runs leader election (LeaderElection) between the registers on the LAN and
+ * applies its outcome to this register:
+ *
+ *   - **Promoted**: switches to server mode and starts advertising over mDNS.
+ *     The HTTP listener is already running (standbys answer heartbeats), and
+ *     local SQLite already holds the latest snapshot from the old server, so
+ *     it serves immediately.
+ *   - **Leader changed**: points `serverAddress` at the new leader and
+ *     restarts SyncPoller and the StoreApiConnectionManager WebSocket.
+ *   - **Stepped down** (the old server came back after another register took
+ *     over): hands the orders it wrote since the new leader's snapshot over to
+ *     the new leader, then follows it like any client.
+ *
+ * Only back-office registers with a failover priority above 0 are standbys.
+ * The leader replicates register credentials and a store snapshot to them so
+ * they can authenticate the other registers and serve their data after
+ * taking over. All registers must listen on the same port.
+ */
+
+import NetInfo from '@react-native-community/netinfo';
+import { instoreApiConfig } from '../InstoreApiConfig';
+import { instoreApiServer } from '../InstoreApiServer';
+import { instoreApiClient } from '../../clients/instoreapi/InstoreApiClient';
+import { registerAuthService, AuthenticatedRegister } from '../auth/RegisterAuthService';
+import { syncPoller } from '../sync/SyncPoller';
+import { syncEventBus } from '../sync/SyncEventBus';
+import { storeApiConnectionManager } from '../websocket/StoreApiConnectionManager';
+import { snapshotService } from '../websocket/SnapshotService';
+import { mdnsService } from '../discovery/MdnsService';
+import { clusterSnapshotRepository } from '../../../repositories/ClusterSnapshotRepository';
+import { keyValueRepository } from '../../../repositories/KeyValueRepository';
+import { RegisterCredentialRow } from '../../../repositories/RegisterCredentialRepository';
+import { auditLogService } from '../../audit/AuditLogService';
+import { LoggerFactory } from '../../logger/LoggerFactory';
+import { ClusterMember, ClusterPeer, ClusterRole, ClusterStatus, HeartbeatRequest, LeaderElection } from './LeaderElection';
+
+/** Orders older than this (and already synced) are left out of snapshots */
+export const SNAPSHOT_ORDER_WINDOW_MS = 48 * 60 * 60 * 1000;
+
+/** A standby refetches the snapshot at least this often */
+const SNAPSHOT_REFRESH_MS = 60 * 1000;
+
+/** …and at most this often, however busy the leader is */
+const SNAPSHOT_MIN_INTERVAL_MS = 10 * 1000;
+
+const HEARTBEAT_TIMEOUT_MS = 1500;
+
+const KV_STATE = 'instoreapi.cluster.state';
+
+interface PersistedClusterState {
+  term: number;
+  leader: ClusterPeer | null;
+  members: ClusterMember[];
+  stateAsOf: number;
+  snapshotVersion: number;
+}
+
+/** Body of POST /api/cluster/heartbeat */
+export interface ClusterHeartbeatBody {
+  heartbeat: HeartbeatRequest;
+  /** Version of the credentials the sender holds; the leader sends newer ones to standbys */
+  credentialsVersion: string | null;
+}
+
+export interface ClusterHeartbeatResponse {
+  status: ClusterStatus;
+  credentials?: { version: string; rows: RegisterCredentialRow[] };
+}
+
+export interface FailoverState {
+  role: ClusterRole;
+  term: number;
+  leader: ClusterPeer | null;
+  members: ClusterMember[];
+}
+
+type FailoverStateListener = (state: FailoverState) => void;
+
+export class FailoverService {
+  private static instance: FailoverService;
+  private logger = LoggerFactory.getInstance().createLogger('FailoverService');
+  private election: LeaderElection | null = null;
+  private listeners = new Set<FailoverStateListener>();
+  private credentialsVersion: string | null = null;
+  private snapshotVersion = 0;
+  private snapshotFetchedAt = 0;
+  private rosterKey = '';
+
+  private constructor() {}
+
+  static getInstance(): FailoverService {
+    if (!FailoverService.instance) {
+      FailoverService.instance = new FailoverService();
+    }
+    return FailoverService.instance;
+  }
+
+  get isRunning(): boolean {
+    return this.election !== null;
+  }
+
+  get clusterStatus(): ClusterStatus | null {
+    return this.election?.status ?? null;
+  }
+
+  get state(): FailoverState | null {
+    if (!this.election) return null;
+    const { role, term, leader, members } = this.election.status;
+    return { role, term, leader, members };
+  }
+
+  /** Join leader election; no-op unless failover is enabled in a multi-register setup */
+  async start(): Promise<void> {
+    if (this.election) return;
+    const settings = instoreApiConfig.current;
+    if (!instoreApiConfig.isMultiRegister || !settings.failoverEnabled) return;
+    if (instoreApiConfig.isClient && !instoreApiConfig.isPaired) {
+      this.logger.warn('Failover not started — this register is not paired with the server');
+      return;
+    }
+
+    // The server needs its own credential to talk to whichever register replaces it
+    if (instoreApiConfig.isServer) {
+      const credential = await registerAuthService.issueOwnCredential(settings.registerId, settings.registerName, settings.credential);
+      if (credential !== settings.credential) await instoreApiConfig.save({ credential });
+    }
+
+    const persisted = await keyValueRepository.getObject<PersistedClusterState>(KV_STATE);
+    this.snapshotVersion = persisted?.snapshotVersion ?? 0;
+    const address = settings.advertisedAddress || (await this.detectAddress());
+
+    this.election = new LeaderElection({
+      self: {
+        registerId: settings.registerId,
+        registerName: settings.registerName,
+        address,
+        port: settings.port,
+        priority: settings.failoverPriority,
+      },
+      role: instoreApiConfig.isServer ? 'leader' : 'follower',
+      term: persisted?.term ?? 1,
+      leader: this.configuredLeader(persisted?.leader ?? null),
+      members: persisted?.members ?? [],
+      transport: { heartbeat: (target, request) => this.sendHeartbeat(target, request) },
+      listener: {
+        onPromoted: term => this.handlePromoted(term),
+        onLeaderChanged: leader => this.followLeader(leader),
+        onDemoted: (leader, term) => this.handleDemoted(leader, term),
+        onLeaderStatus: status => this.handleLeaderStatus(status),
+      },
+      stateVersion: () => (this.election?.isLeader ? syncEventBus.latestEventTimestamp : this.snapshotVersion),
+      stateAsOf: persisted?.stateAsOf ?? 0,
+    });
+    this.election.start();
+    this.logger.info(`Failover started as ${this.election.isLeader ? 'leader' : 'follower'} (priority ${settings.failoverPriority})`);
+  }
+
+  stop(): void {
+    if (!this.election) return;
+    this.election.stop();
+    this.election = null;
+    this.logger.info('Failover stopped');
+  }
+
+  onStateChange(listener: FailoverStateListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // ── Server side (called by InstoreApiServer routes) ─────────────────
+
+  /**
+   * Answer a heartbeat from another register. Only back-office registers can
+   * be standbys or sway the election: others are recorded with priority 0,
+   * their term and leader are ignored, and they get no credentials.
+   */
+  async handleHeartbeat(body: ClusterHeartbeatBody, register: AuthenticatedRegister): Promise<ClusterHeartbeatResponse | null> {
+    if (!this.election) return null;
+
+    const standby = register.role === 'back_office';
+    const heartbeat: HeartbeatRequest = standby ? body.heartbeat : { from: { ...body.heartbeat.from, priority: 0 }, term: 0, leader: null };
+    const response: ClusterHeartbeatResponse = { status: this.election.receiveHeartbeat(heartbeat) };
+    await this.persistIfRosterChanged(response.status.members);
+
+    if (this.election.isLeader && standby && heartbeat.from.priority > 0) {
+      const version = await registerAuthService.credentialsVersion();
+      if (version !== body.credentialsVersion) {
+        response.credentials = { version, rows: await registerAuthService.exportCredentials() };
+      }
+    }
+    return response;
+  }
+
+  // ── Election outcomes ───────────────────────────────────────────────
+
+  private async handlePromoted(term: number): Promise<void> {
+    const settings = instoreApiConfig.current;
+    this.logger.info(`Promoted to server for term ${term}`);
+
+    await instoreApiConfig.save({ mode: 'server' });
+    await storeApiConnectionManager.stop();
+    syncPoller.stop();
+    if (instoreApiServer.isRunning) {
+      mdnsService.advertise();
+    } else {
+      await instoreApiServer.start();
+    }
+    await storeApiConnectionManager.start();
+
+    syncEventBus.emit('config:updated', { entity: 'cluster', action: 'promoted', term });
+    await auditLogService.log('register:promoted', {
+      registerId: settings.registerId,
+      details: `Register "${settings.registerName}" took over as server (term ${term})`,
+      metadata: { term, stateAsOf: this.snapshotVersion },
+    });
+    await this.persist();
+  }
+
+  private async handleDemoted(leader: ClusterPeer, term: number): Promise<void> {
+    const settings = instoreApiConfig.current;
+    this.logger.info(`Stepping down — ${leader.registerName} is server for term ${term}`);
+
+    await auditLogService.log('register:stepped_down', {
+      registerId: settings.registerId,
+      details: `Register "${settings.registerName}" handed the server role to "${leader.registerName}" (term ${term})`,
+      metadata: { term, leaderId: leader.registerId },
+    });
+
+    await this.handOverOrders(leader);
+    await this.followLeader(leader);
+  }
+
+  /**
+   * Send the new leader every order changed here since the state it took
+   * over with; it keeps whichever copy was changed last.
+   */
+  private async handOverOrders(leader: ClusterPeer): Promise<void> {
+    const baseUrl = this.peerBaseUrl(leader);
+    try {
+      const leaderStatus = await instoreApiClient.getClusterStatus(baseUrl, HEARTBEAT_TIMEOUT_MS);
+      const since = Math.max(leaderStatus.stateAsOf, Date.now() - SNAPSHOT_ORDER_WINDOW_MS);
+      const batch = await clusterSnapshotRepository.findOrdersUpdatedSince(since);
+      if (batch.orders.length === 0) return;
+
+      const plan = await instoreApiClient.handOverOrders(baseUrl, batch);
+      this.logger.info(
+        `Handed over ${batch.orders.length} order(s): ${plan.insert.length} added, ${plan.update.length} updated, ${plan.skip.length} unchanged`
+      );
+      await auditLogService.log('register:orders_reconciled', {
+        registerId: instoreApiConfig.current.registerId,
+        details: `${plan.insert.length + plan.update.length} order(s) written during the split handed over to "${leader.registerName}"`,
+        metadata: { since, inserted: plan.insert, updated: plan.update, skipped: plan.skip.length },
+      });
+    } catch (error) {
+      // Orders stay in local SQLite; they are retried the next time this register steps down
+      this.logger.error(
+        { message: `Failed to hand over orders to ${leader.registerName}` },
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+
+  /** Point this register's client services at a (new) server register */
+  private async followLeader(leader: ClusterPeer): Promise<void> {
+    const settings = instoreApiConfig.current;
+    const changed = settings.mode !== 'client' || settings.serverAddress !== leader.address;
+
+    if (changed) {
+      this.logger.info(`Following ${leader.registerName} at ${leader.address}`);
+      await instoreApiConfig.save({ mode: 'client', serverAddress: leader.address });
+      mdnsService.stopAdvertising();
+      await storeApiConnectionManager.stop();
+      syncPoller.start();
+      await storeApiConnectionManager.start();
+      this.snapshotFetchedAt = 0;
+      syncEventBus.emit('config:updated', { entity: 'cluster', action: 'leader_changed', leader });
+    }
+    await this.persist();
+  }
+
+  /** Keep a fresh copy of the leader's state on standbys */
+  private async handleLeaderStatus(status: ClusterStatus): Promise<void> {
+    await this.persistIfRosterChanged(status.members);
+    if (instoreApiConfig.current.failoverPriority <= 0) return;
+
+    const now = Date.now();
+    const sinceFetch = now - this.snapshotFetchedAt;
+    const stale = status.stateVersion > this.snapshotVersion && sinceFetch >= SNAPSHOT_MIN_INTERVAL_MS;
+    if (!stale && sinceFetch < SNAPSHOT_REFRESH_MS) return;
+
+    this.snapshotFetchedAt = now;
+    const version = await snapshotService.fetchAndStore();
+    if (version > 0) {
+      this.snapshotVersion = version;
+      await this.persist();
+    }
+  }
+
+  // ── Transport ───────────────────────────────────────────────────────
+
+  private async sendHeartbeat(target: ClusterPeer, request: HeartbeatRequest): Promise<ClusterStatus | null> {
+    try {
+      const response = await instoreApiClient.clusterHeartbeat(
+        this.peerBaseUrl(target),
+        { heartbeat: request, credentialsVersion: this.credentialsVersion },
+        HEARTBEAT_TIMEOUT_MS
+      );
+      if (response.credentials) {
+        await registerAuthService.importCredentials(response.credentials.rows);
+        this.credentialsVersion = response.credentials.version;
+      }
+      return response.status;
+    } catch {
+      return null;
+    }
+  }
+
+  // ── Helpers ─────────────────────────────────────────────────────────
+
+  private peerBaseUrl(peer: ClusterPeer): string {
+    return `http://${peer.address}:${peer.port}`;
+  }
+
+  /** The server this client is configured for, with its id if we have seen it before */
+  private configuredLeader(persisted: ClusterPeer | null): ClusterPeer | null {
+    if (instoreApiConfig.isServer) return null;
+    const { serverAddress, port } = instoreApiConfig.current;
+    if (persisted && persisted.address === serverAddress) return persisted;
+    return { registerId: '', registerName: serverAddress, address: serverAddress, port };
+  }
+
+  private async detectAddress(): Promise<string> {
+    try {
+      const state = await NetInfo.fetch();
+      const details = state.details as { ipAddress?: string } | null;
+      if (details?.ipAddress) return details.ipAddress;
+    } catch {
+      // Fall through
+    }
+    this.logger.warn("Could not detect this register's LAN address — set it in Instore API settings");
+    return 'localhost';
+  }
+
+  /** The roster must survive a restart: it is how a returning register finds the current leader */
+  private async persistIfRosterChanged(members: ClusterMember[]): Promise<void> {
+    const key = members.map(m => `${m.registerId}@${m.address}:${m.priority}`).join(',');
+    if (key === this.rosterKey) return;
+    this.rosterKey = key;
+    await this.persist();
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.election) return;
+    const status = this.election.status;
+    const state: PersistedClusterState = {
+      term: status.term,
+      leader: status.leader,
+      members: status.members,
+      stateAsOf: status.stateAsOf,
+      snapshotVersion: this.snapshotVersion,
+    };
+    try {
+      await keyValueRepository.setObject(KV_STATE, state);
+    } catch (error) {
+      this.logger.warn({ message: `Failed to persist cluster state: ${error instanceof Error ? error.message : String(error)}` });
+    }
+    const { role, term, leader, members } = status;
+    this.listeners.forEach(fn => fn({ role, term, leader, members }));
+  }
+}
+
+export const failoverService = FailoverService.getInstance();
@@ -0,0 +1,41 @@
+import { ClusterPeer, ClusterStatus, ClusterTransport, HeartbeatRequest, LeaderElection } from './LeaderElection';
+
+/**
+ * Connects several LeaderElection instances running in the same process, so
+ * failover can be exercised on one machine without a LAN. Registers are
+ * looked up by registerId; `disconnect` simulates a crashed or unplugged
+ * register until `reconnect` is called.
+ */
+export class InProcessClusterTransport implements ClusterTransport {
+  private registers = new Map<string, LeaderElection>();
+  private offline = new Set<string>();
+
+  constructor(private readonly fromRegisterId?: string) {}
+
+  /** A transport that sends as `registerId` over the same set of registers */
+  forRegister(registerId: string): InProcessClusterTransport {
+    const transport = new InProcessClusterTransport(registerId);
+    transport.registers = this.registers;
+    transport.offline = this.offline;
+    return transport;
+  }
+
+  add(registerId: string, election: LeaderElection): void {
+    this.registers.set(registerId, election);
+  }
+
+  disconnect(registerId: string): void {
+    this.offline.add(registerId);
+  }
+
+  reconnect(registerId: string): void {
+    this.offline.delete(registerId);
+  }
+
+  async heartbeat(target: ClusterPeer, request: HeartbeatRequest): Promise<ClusterStatus | null> {
+    if (this.fromRegisterId && this.offline.has(this.fromRegisterId)) return null;
+    if (this.offline.has(target.registerId)) return null;
+    const election = this.registers.get(target.registerId);
+    return election ? election.receiveHeartbeat(request) : null;
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * LeaderElection — unit tests
+ *
+ * Runs several registers in one process over InProcessClusterTransport and
+ * drives them tick by tick: steady heartbeats, promotion after the server is
+ * lost, re-pointing the other registers, and stepping down when the old
+ * server returns.
+ */
+
+import { InProcessClusterTransport } from './InProcessClusterTransport';
+import { ClusterMember, ClusterPeer, LeaderElection, LeaderElectionListener, compareSuccession } from './LeaderElection';
+
+// ── Helpers ───────────────────────────────────────────────────────────────
+
+interface TestRegister {
+  election: LeaderElection;
+  events: string[];
+}
+
+function member(registerId: string, priority: number): ClusterMember {
+  return {
+    registerId,
+    registerName: `Till ${registerId}`,
+    address: `10.0.0.${registerId.charCodeAt(0)}`,
+    port: 8787,
+    priority,
+    lastSeenAt: 0,
+  };
+}
+
+function peer({ registerId, registerName, address, port }: ClusterMember): ClusterPeer {
+  return { registerId, registerName, address, port };
+}
+
+/** A leads term 1; the others follow it and already know the roster */
+function createCluster(priorities: Record<string, number>, leaderId = 'A') {
+  const hub = new InProcessClusterTransport();
+  const members = Object.entries(priorities).map(([id, priority]) => member(id, priority));
+  const leader = peer(members.find(m => m.registerId === leaderId)!);
+  const registers: Record<string, TestRegister> = {};
+
+  for (const self of members) {
+    const events: string[] = [];
+    const listener: LeaderElectionListener = {
+      onPromoted: term => void events.push(`promoted:${term}`),
+      onLeaderChanged: (l, term) => void events.push(`following:${l.registerId}:${term}`),
+      onDemoted: (l, term) => void events.push(`demoted:${l.registerId}:${term}`),
+    };
+    const { lastSeenAt: _unused, ...selfInfo } = self;
+    const election = new LeaderElection({
+      self: selfInfo,
+      role: self.registerId === leaderId ? 'leader' : 'follower',
+      term: 1,
+      leader,
+      members,
+      transport: hub.forRegister(self.registerId),
+      listener,
+      stateVersion: () => 100,
+    });
+    hub.add(self.registerId, election);
+    registers[self.registerId] = { election, events };
+  }
+
+  return { hub, registers };
+}
+
+async function tickAll(registers: Record<string, TestRegister>, rounds = 1): Promise<void> {
+  for (let i = 0; i < rounds; i++) {
+    for (const { election } of Object.values(registers)) {
+      await election.tick();
+    }
+  }
+}
+
+function leaderOf(register: TestRegister): string | undefined {
+  return register.election.currentLeader?.registerId;
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────
+
+describe('compareSuccession', () => {
+  it('orders by priority, then register id', () => {
+    const ordered = [member('C', 1), member('B', 2), member('A', 1)].sort(compareSuccession).map(m => m.registerId);
+    expect(ordered).toEqual(['B', 'A', 'C']);
+  });
+});
+
+describe('LeaderElection', () => {
+  it('keeps following a leader that answers heartbeats', async () => {
+    const { registers } = createCluster({ A: 3, B: 2, C: 1 });
+
+    await tickAll(registers, 5);
+
+    expect(registers.A.election.isLeader).toBe(true);
+    expect(leaderOf(registers.B)).toBe('A');
+    expect(leaderOf(registers.C)).toBe('A');
+    expect(registers.B.events).toEqual([]);
+  });
+
+  it('promotes the next standby after missed heartbeats and re-points the others', async () => {
+    const { hub, registers } = createCluster({ A: 3, B: 2, C: 1, D: 0 });
+    hub.disconnect('A');
+
+    await tickAll(registers, 2);
+    expect(registers.B.election.isLeader).toBe(false);
+
+    await tickAll(registers, 2);
+
+    expect(registers.B.election.isLeader).toBe(true);
+    expect(registers.B.election.currentTerm).toBe(2);
+    expect(registers.B.events).toEqual(['promoted:2']);
+    expect(leaderOf(registers.C)).toBe('B');
+    expect(leaderOf(registers.D)).toBe('B');
+    expect(registers.C.events).toEqual(['following:B:2']);
+  });
+
+  it('lets a lower standby wait while a higher one is still alive', async () => {
+    const { hub, registers } = createCluster({ A: 3, B: 2, C: 1 });
+    hub.disconnect('A');
+
+    // Only C ticks: it notices the loss first but B outranks it and is alive
+    for (let i = 0; i < 5; i++) await registers.C.election.tick();
+
+    expect(registers.C.election.isLeader).toBe(false);
+    expect(registers.C.events).toEqual([]);
+  });
+
+  it('skips standbys that are also down', async () => {
+    const { hub, registers } = createCluster({ A: 3, B: 2, C: 1 });
+    hub.disconnect('A');
+    hub.disconnect('B');
+
+    await tickAll(registers, 3);
+
+    expect(registers.C.election.isLeader).toBe(true);
+    expect(registers.C.events).toEqual(['promoted:2']);
+  });
+
+  it('never promotes a priority 0 register', async () => {
+    const { hub, registers } = createCluster({ A: 3, D: 0 });
+    hub.disconnect('A');
+
+    await tickAll(registers, 10);
+
+    expect(registers.D.election.isLeader).toBe(false);
+    expect(leaderOf(registers.D)).toBe('A');
+  });
+
+  it('makes the returning old server step down to the new leader', async () => {
+    const { hub, registers } = createCluster({ A: 3, B: 2, C: 1 });
+    hub.disconnect('A');
+    await tickAll(registers, 3);
+    expect(registers.B.election.isLeader).toBe(true);
+
+    hub.reconnect('A');
+    await registers.A.election.tick();
+
+    expect(registers.A.election.isLeader).toBe(false);
+    expect(leaderOf(registers.A)).toBe('B');
+    expect(registers.A.events).toEqual(['demoted:B:2']);
+
+    // A is now an ordinary follower of B
+    await tickAll(registers, 3);
+    expect(registers.B.election.isLeader).toBe(true);
+    expect(leaderOf(registers.C)).toBe('B');
+  });
+
+  it('resolves two leaders on the same term by succession rank', async () => {
+    const { hub, registers } = createCluster({ A: 3, B: 2, C: 1 });
+    // A is lost; B and C are split from each other, so each promotes itself
+    hub.disconnect('A');
+    hub.disconnect('C');
+    await tickAll({ B: registers.B }, 3);
+    hub.reconnect('C');
+    hub.disconnect('B');
+    await tickAll({ C: registers.C }, 3);
+    expect(registers.B.election.isLeader).toBe(true);
+    expect(registers.C.election.isLeader).toBe(true);
+
+    hub.reconnect('B');
+    await tickAll({ B: registers.B, C: registers.C });
+
+    expect(registers.B.election.isLeader).toBe(true);
+    expect(registers.C.election.isLeader).toBe(false);
+    expect(registers.C.events).toContain('demoted:B:2');
+  });
+
+  it('answers heartbeats with its roster and records the sender', () => {
+    const { registers } = createCluster({ A: 3, B: 2 });
+    const status = registers.A.election.receiveHeartbeat({
+      from: { registerId: 'E', registerName: 'Till E', address: '10.0.0.9', port: 8787, priority: 1 },
+      term: 1,
+      leader: registers.A.election.currentLeader,
+    });
+
+    expect(status).toMatchObject({ registerId: 'A', role: 'leader', term: 1, stateVersion: 100 });
+    expect(status.members.map(m => m.registerId)).toEqual(['A', 'B', 'E']);
+  });
+});
@@ -0,0 +1,360 @@
+/**
+ * LeaderElection
+ *
+ * Decides which register on the LAN acts as the in-store API server (the
+ * leader). Pure state machine: the network is reached only through the
+ * injected `ClusterTransport` and the clock through `now`, so several
+ * registers can run side by side in one process (see InProcessClusterTransport).
+ *
+ * - Followers send a heartbeat to the leader every tick. The leader answers
+ *   with its term and the roster of registers it has heard from.
+ * - After `missedHeartbeats` unanswered heartbeats a follower walks the
+ *   succession order (priority desc, then registerId). If a register ahead of
+ *   it already follows a newer leader it follows that one; if one ahead is
+ *   still alive it waits for it to take over; if none ahead answers it
+ *   promotes itself with the next term.
+ * - A leader probes the other standby registers every tick. When it finds a
+ *   leader with a higher term — or the same term and a better succession
+ *   rank — it steps down (onDemoted) so the caller can hand over the orders
+ *   it wrote meanwhile.
+ *
+ * Only registers with a priority above 0 are standbys: they may be promoted
+ * and they answer probes. Priority 0 registers follow but never lead.
+ */
+
+export type ClusterRole = 'leader' | 'follower';
+
+/** How to reach a register */
+export interface ClusterPeer {
+  registerId: string;
+  registerName: string;
+  address: string;
+  port: number;
+}
+
+export interface ClusterMember extends ClusterPeer {
+  /** Succession priority; 0 = never promoted */
+  priority: number;
+  lastSeenAt: number;
+}
+
+export interface HeartbeatRequest {
+  from: Omit<ClusterMember, 'lastSeenAt'>;
+  term: number;
+  /** The leader the sender currently follows (itself when it leads) */
+  leader: ClusterPeer | null;
+}
+
+/** What a register reports about itself in reply to a heartbeat */
+export interface ClusterStatus {
+  registerId: string;
+  role: ClusterRole;
+  term: number;
+  leader: ClusterPeer | null;
+  members: ClusterMember[];
+  /** Leader: timestamp of its latest change. Follower: version of the state it holds */
+  stateVersion: number;
+  /** Leader: version of the state it held when it took over (0 for the original server) */
+  stateAsOf: number;
+}
+
+export interface ClusterTransport {
+  /** Send a heartbeat to a register; null when it does not answer */
+  heartbeat(target: ClusterPeer, request: HeartbeatRequest): Promise<ClusterStatus | null>;
+}
+
+export interface LeaderElectionListener {
+  /** This register became the leader */
+  onPromoted?(term: number): void | Promise<void>;
+  /** This follower now follows a different leader */
+  onLeaderChanged?(leader: ClusterPeer, term: number): void | Promise<void>;
+  /** This register was the leader and now follows another one */
+  onDemoted?(leader: ClusterPeer, term: number): void | Promise<void>;
+  /** A heartbeat to the leader succeeded */
+  onLeaderStatus?(status: ClusterStatus): void | Promise<void>;
+}
+
+export interface LeaderElectionOptions {
+  self: Omit<ClusterMember, 'lastSeenAt'>;
+  role: ClusterRole;
+  term: number;
+  leader: ClusterPeer | null;
+  members?: ClusterMember[];
+  transport: ClusterTransport;
+  listener?: LeaderElectionListener;
+  /** Version of the state this register holds (see ClusterStatus.stateVersion) */
+  stateVersion?: () => number;
+  stateAsOf?: number;
+  missedHeartbeats?: number;
+  /** Registers not heard from for this long are dropped from the leader's roster */
+  memberTtlMs?: number;
+  now?: () => number;
+}
+
+export const DEFAULT_HEARTBEAT_INTERVAL_MS = 2000;
+export const DEFAULT_MISSED_HEARTBEATS = 3;
+export const DEFAULT_MEMBER_TTL_MS = 60 * 60 * 1000;
+
+/** Succession order: higher priority first, then lower registerId */
+export function compareSuccession(
+  a: Pick<ClusterMember, 'registerId' | 'priority'>,
+  b: Pick<ClusterMember, 'registerId' | 'priority'>
+): number {
+  if (a.priority !== b.priority) return b.priority - a.priority;
+  return a.registerId < b.registerId ? -1 : a.registerId > b.registerId ? 1 : 0;
+}
+
+export class LeaderElection {
+  private readonly self: Omit<ClusterMember, 'lastSeenAt'>;
+  private readonly transport: ClusterTransport;
+  private readonly listener: LeaderElectionListener;
+  private readonly stateVersion: () => number;
+  private readonly missedHeartbeats: number;
+  private readonly memberTtlMs: number;
+  private readonly now: () => number;
+  private role: ClusterRole;
+  private term: number;
+  private leader: ClusterPeer | null;
+  private stateAsOf: number;
+  private members = new Map<string, ClusterMember>();
+  private missed = 0;
+  /** Last time any other register was heard from */
+  private lastContactAt = 0;
+  private ticking = false;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: LeaderElectionOptions) {
+    this.self = options.self;
+    this.transport = options.transport;
+    this.listener = options.listener ?? {};
+    this.stateVersion = options.stateVersion ?? (() => 0);
+    this.missedHeartbeats = options.missedHeartbeats ?? DEFAULT_MISSED_HEARTBEATS;
+    this.memberTtlMs = options.memberTtlMs ?? DEFAULT_MEMBER_TTL_MS;
+    this.now = options.now ?? Date.now;
+    this.role = options.role;
+    this.term = options.term;
+    this.leader = options.role === 'leader' ? this.selfPeer : options.leader;
+    this.stateAsOf = options.stateAsOf ?? 0;
+    for (const member of options.members ?? []) {
+      if (member.registerId !== this.self.registerId) this.members.set(member.registerId, member);
+    }
+  }
+
+  get isLeader(): boolean {
+    return this.role === 'leader';
+  }
+
+  get currentLeader(): ClusterPeer | null {
+    return this.leader;
+  }
+
+  get currentTerm(): number {
+    return this.term;
+  }
+
+  get roster(): ClusterMember[] {
+    return [{ ...this.self, lastSeenAt: this.now() }, ...this.members.values()].sort(compareSuccession);
+  }
+
+  get status(): ClusterStatus {
+    return {
+      registerId: this.self.registerId,
+      role: this.role,
+      term: this.term,
+      leader: this.leader,
+      members: this.roster,
+      stateVersion: this.stateVersion(),
+      stateAsOf: this.stateAsOf,
+    };
+  }
+
+  start(intervalMs: number = DEFAULT_HEARTBEAT_INTERVAL_MS): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Answer a heartbeat from another register. A sender on a newer term that
+   * follows another leader makes this register follow it too.
+   */
+  receiveHeartbeat(request: HeartbeatRequest): ClusterStatus {
+    if (request.from.registerId !== this.self.registerId) {
+      this.lastContactAt = this.now();
+      this.members.set(request.from.registerId, { ...request.from, lastSeenAt: this.lastContactAt });
+    }
+    if (request.term > this.term && request.leader && request.leader.registerId !== this.self.registerId) {
+      this.follow(request.leader, request.term);
+    }
+    return this.status;
+  }
+
+  /** One heartbeat round; called by the interval timer, or directly by tests */
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      if (this.role === 'leader') {
+        await this.leaderTick();
+      } else {
+        await this.followerTick();
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  // ── Leader ──────────────────────────────────────────────────────────
+
+  private async leaderTick(): Promise<void> {
+    for (const member of this.standbys()) {
+      const status = await this.transport.heartbeat(member, this.heartbeatRequest());
+      if (!status) continue;
+      member.lastSeenAt = this.lastContactAt = this.now();
+      const newer = this.newerLeaderIn(status);
+      if (newer) {
+        this.follow(newer, status.term);
+        return;
+      }
+    }
+
+    // Measured from the last contact, so a leader cut off from the LAN keeps the roster it needs to find its successor
+    for (const [id, member] of this.members) {
+      if (this.lastContactAt - member.lastSeenAt > this.memberTtlMs) this.members.delete(id);
+    }
+  }
+
+  /** The leader a probed register points at, if it beats this one */
+  private newerLeaderIn(status: ClusterStatus): ClusterPeer | null {
+    const leader = status.leader;
+    if (!leader || leader.registerId === this.self.registerId) return null;
+    if (status.term > this.term) return leader;
+    if (status.term === this.term && status.role === 'leader') {
+      const other = { registerId: status.registerId, priority: this.members.get(status.registerId)?.priority ?? 0 };
+      if (compareSuccession(other, this.self) < 0) return leader;
+    }
+    return null;
+  }
+
+  // ── Follower ────────────────────────────────────────────────────────
+
+  private async followerTick(): Promise<void> {
+    if (!this.leader) {
+      await this.elect();
+      return;
+    }
+
+    const status = await this.transport.heartbeat(this.leader, this.heartbeatRequest());
+    if (status && status.term >= this.term && status.leader && status.leader.registerId !== this.leader.registerId) {
+      // Our leader stepped down or was superseded — follow the one it points at
+      if (status.leader.registerId === this.self.registerId) {
+        this.missed++;
+      } else {
+        this.follow(status.leader, status.term);
+        return;
+      }
+    } else if (status && status.role === 'leader' && status.term >= this.term) {
+      this.missed = 0;
+      this.term = Math.max(this.term, status.term);
+      this.adoptRoster(status.members);
+      await this.listener.onLeaderStatus?.(status);
+      return;
+    } else {
+      this.missed++;
+    }
+
+    if (this.missed >= this.missedHeartbeats) {
+      await this.elect();
+    }
+  }
+
+  /**
+   * Walk the succession order past the unreachable leader. Stops at the
+   * first register ahead of this one that answers: it either already follows
+   * a new leader, or it outranks us and will take over itself.
+   */
+  private async elect(): Promise<void> {
+    const lostLeaderId = this.leader?.registerId;
+    const candidates = [...this.standbys(), ...(this.self.priority > 0 ? [{ ...this.self, lastSeenAt: 0 }] : [])]
+      .filter(member => member.registerId !== lostLeaderId)
+      .sort(compareSuccession);
+
+    for (const candidate of candidates) {
+      if (candidate.registerId === this.self.registerId) {
+        this.promote();
+        return;
+      }
+
+      const status = await this.transport.heartbeat(candidate, this.heartbeatRequest());
+      if (!status) continue;
+
+      if (status.term >= this.term && status.leader && status.leader.registerId !== lostLeaderId) {
+        this.follow(status.leader, status.term);
+      }
+      return;
+    }
+  }
+
+  private promote(): void {
+    this.stateAsOf = this.stateVersion();
+    this.role = 'leader';
+    this.term += 1;
+    this.leader = this.selfPeer;
+    this.missed = 0;
+    void this.notify(() => this.listener.onPromoted?.(this.term));
+  }
+
+  private follow(leader: ClusterPeer, term: number): void {
+    const wasLeader = this.role === 'leader';
+    const sameLeader = !wasLeader && this.leader?.registerId === leader.registerId;
+    this.role = 'follower';
+    this.term = term;
+    this.leader = leader;
+    this.missed = 0;
+    if (wasLeader) {
+      void this.notify(() => this.listener.onDemoted?.(leader, term));
+    } else if (!sameLeader) {
+      void this.notify(() => this.listener.onLeaderChanged?.(leader, term));
+    }
+  }
+
+  // ── Helpers ─────────────────────────────────────────────────────────
+
+  private get selfPeer(): ClusterPeer {
+    const { registerId, registerName, address, port } = this.self;
+    return { registerId, registerName, address, port };
+  }
+
+  /** Other registers that may be promoted, in succession order */
+  private standbys(): ClusterMember[] {
+    return [...this.members.values()].filter(member => member.priority > 0).sort(compareSuccession);
+  }
+
+  private adoptRoster(members: ClusterMember[]): void {
+    this.members.clear();
+    for (const member of members) {
+      if (member.registerId !== this.self.registerId) this.members.set(member.registerId, member);
+    }
+  }
+
+  private heartbeatRequest(): HeartbeatRequest {
+    return { from: this.self, term: this.term, leader: this.leader };
+  }
+
+  /** Listener failures must never stop the election loop */
+  private async notify(callback: () => void | Promise<void>): Promise<void> {
+    try {
+      await callback();
+    } catch {
+      // The listener logs its own failures
+    }
+  }
+}
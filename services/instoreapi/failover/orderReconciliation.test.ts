@@ -0,0 +1,37 @@
+import { planOrderReconciliation } from './orderReconciliation';
+
+describe('planOrderReconciliation', () => {
+  const existing = new Map([
+    ['o1', { id: 'o1', updated_at: 100 }],
+    ['o2', { id: 'o2', updated_at: 200 }],
+  ]);
+
+  it('inserts unknown orders and replaces only newer copies', () => {
+    const plan = planOrderReconciliation(
+      [
+        { id: 'o1', updated_at: 150 },
+        { id: 'o2', updated_at: 200 },
+        { id: 'o3', updated_at: 50 },
+      ],
+      existing
+    );
+
+    expect(plan).toEqual({ insert: ['o3'], update: ['o1'], skip: ['o2'] });
+  });
+
+  it('keeps the leader copy when it is newer', () => {
+    expect(planOrderReconciliation([{ id: 'o2', updated_at: 150 }], existing)).toEqual({ insert: [], update: [], skip: ['o2'] });
+  });
+
+  it('handles an order sent twice once', () => {
+    const plan = planOrderReconciliation(
+      [
+        { id: 'o4', updated_at: 10 },
+        { id: 'o4', updated_at: 20 },
+      ],
+      existing
+    );
+
+    expect(plan.insert).toEqual(['o4']);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Merge rules for orders handed over when two registers both acted as the
+ * server during a split (see FailoverService).
+ *
+ * Orders are keyed by their UUID, so the same sale is never counted twice:
+ * an order the leader does not have is inserted, one it has is replaced only
+ * when the incoming copy was changed later, and anything else is kept as is.
+ */
+
+export interface ReconcilableOrder {
+  id: string;
+  updated_at: number;
+}
+
+export interface OrderReconciliationPlan {
+  insert: string[];
+  update: string[];
+  skip: string[];
+}
+
+export function planOrderReconciliation(incoming: ReconcilableOrder[], existing: Map<string, ReconcilableOrder>): OrderReconciliationPlan {
+  const plan: OrderReconciliationPlan = { insert: [], update: [], skip: [] };
+  const seen = new Set<string>();
+
+  for (const order of incoming) {
+    if (seen.has(order.id)) continue;
+    seen.add(order.id);
+
+    const current = existing.get(order.id);
+    if (!current) {
+      plan.insert.push(order.id);
+    } else if (order.updated_at > current.updated_at) {
+      plan.update.push(order.id);
+    } else {
+      plan.skip.push(order.id);
+    }
+  }
+
+  return plan;
+}
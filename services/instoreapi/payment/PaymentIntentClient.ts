@@ -23,6 +23,7 @@
  */
 
 import { instoreApiConfig } from '../InstoreApiConfig';
+import { instoreApiRequestHeaders } from '../auth/instoreApiRequestHeaders';
 import { LoggerFactory } from '../../logger/LoggerFactory';
 import type {
   PaymentIntent,
@@ -186,32 +187,20 @@ export class PaymentIntentClient {
 
   // ── Private HTTP helpers ────────────────────────────────────────────────────
 
-  private get headers(): Record<string, string> {
-    const h: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'X-Register-Id': instoreApiConfig.current.registerId,
-    };
-    const secret = instoreApiConfig.current.sharedSecret;
-    if (secret) {
-      h['x-shared-secret'] = secret;
-    }
-    return h;
-  }
-
   private get baseUrl(): string {
     return instoreApiConfig.baseUrl;
   }
 
   private async get<T>(path: string, queryParams?: Record<string, string>): Promise<T> {
-    let url = `${this.baseUrl}${path}`;
+    let target = path;
     if (queryParams) {
       const qs = new URLSearchParams(queryParams).toString();
-      url += `?${qs}`;
+      target += `?${qs}`;
     }
 
-    const response = await fetch(url, {
+    const response = await fetch(`${this.baseUrl}${target}`, {
       method: 'GET',
-      headers: this.headers,
+      headers: instoreApiRequestHeaders('GET', target),
     });
 
     if (!response.ok) {
@@ -224,10 +213,11 @@ export class PaymentIntentClient {
   }
 
   private async post<T>(path: string, body: unknown): Promise<T> {
+    const payload = JSON.stringify(body);
     const response = await fetch(`${this.baseUrl}${path}`, {
       method: 'POST',
-      headers: this.headers,
-      body: JSON.stringify(body),
+      headers: instoreApiRequestHeaders('POST', path, payload),
+      body: payload,
     });
 
     if (!response.ok) {
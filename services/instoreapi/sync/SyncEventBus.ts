@@ -85,6 +85,11 @@ export class SyncEventBus {
     return this.recentEvents.filter(e => e.timestamp > sinceTimestamp);
   }
 
+  /** Timestamp of the newest stored event, 0 if none (used as the leader's state version for failover) */
+  get latestEventTimestamp(): number {
+    return this.recentEvents.length > 0 ? this.recentEvents[this.recentEvents.length - 1].timestamp : 0;
+  }
+
   /** Clear all stored events */
   clear(): void {
     this.recentEvents = [];
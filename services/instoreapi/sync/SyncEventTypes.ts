@@ -11,6 +11,9 @@ export type SyncEventType =
   | 'shift:closed'
   | 'user:updated'
   | 'return:created'
+  | 'basket:held'
+  | 'basket:recalled'
+  | 'basket:discarded'
   | 'config:updated';
 
 export interface SyncEvent {
@@ -5,19 +5,17 @@
  * WebSocket handshake determines the device is too far behind for replay.
  *
  * Called when the server sends `{ type: "snapshot_needed", payload: { url: "/api/snapshot" } }`.
+ *
+ * Standby registers (failover) also keep a copy of the latest snapshot in
+ * their own SQLite via `fetchAndStore`, so they can take over as server.
  */
 
 import { instoreApiClient } from '../../clients/instoreapi/InstoreApiClient';
 import { LoggerFactory } from '../../logger/LoggerFactory';
 import { syncEventBus } from '../sync/SyncEventBus';
+import { clusterSnapshotRepository, ClusterSnapshot } from '../../../repositories/ClusterSnapshotRepository';
 
-export interface SnapshotPayload {
-  snapshot_version: number;
-  orders: unknown[];
-  products: unknown[];
-  categories: unknown[];
-  tax_profiles: unknown[];
-}
+export type SnapshotPayload = ClusterSnapshot;
 
 export class SnapshotService {
   private static instance: SnapshotService;
@@ -81,6 +79,29 @@ export class SnapshotService {
       this.applying = false;
     }
   }
+
+  /**
+   * Fetch a full snapshot from the server register and write it into local
+   * SQLite, replacing older copies of the same rows.
+   *
+   * @returns The snapshot_version stored, or 0 on failure.
+   */
+  async fetchAndStore(): Promise<number> {
+    if (this.applying) return 0;
+
+    this.applying = true;
+    try {
+      const snapshot = await instoreApiClient.getSnapshot();
+      await clusterSnapshotRepository.importSnapshot(snapshot);
+      this.logger.debug({ message: `Stored snapshot ${snapshot.snapshot_version}: ${snapshot.orders.length} orders` });
+      return snapshot.snapshot_version;
+    } catch (error) {
+      this.logger.error({ message: 'Failed to store snapshot' }, error instanceof Error ? error : new Error(String(error)));
+      return 0;
+    } finally {
+      this.applying = false;
+    }
+  }
 }
 
 export const snapshotService = SnapshotService.getInstance();
@@ -8,6 +8,8 @@ export interface InventoryResult {
     quantity: number;
     sku?: string;
     updatedAt?: Date;
+    /** Set when the quantity is for a single location rather than the total */
+    locationId?: string;
   }>;
 }
 
@@ -19,6 +21,8 @@ export interface InventoryUpdate {
   variantId?: string;
   quantity: number;
   adjustment?: boolean; // If true, quantity is an adjustment (+/-), otherwise it's an absolute value
+  /** Local location id (see LocationService); omitted means the default location */
+  locationId?: string;
 }
 
 /**
@@ -41,12 +45,14 @@ export interface InventoryServiceInterface {
   /**
    * Get inventory levels for products
    * @param productIds Array of product IDs to get inventory for
+   * @param locationId Local location id; omitted returns stock across all locations
    * @returns Promise resolving to inventory information
    */
-  getInventory(productIds: string[]): Promise<InventoryResult>;
+  getInventory(productIds: string[], locationId?: string): Promise<InventoryResult>;
 
   /**
    * Update inventory levels for products
+   * Platforms without multi-location stock ignore `locationId`.
    * @param updates Inventory updates to apply
    * @returns Promise resolving to the results of the update
    */
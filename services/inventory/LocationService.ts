@@ -0,0 +1,144 @@
+/**
+ * LocationService
+ *
+ * Stores and warehouses that hold stock, which location this register sells
+ * from, and the mapping from a local location to the platform's own location
+ * (Shopify location, BigCommerce location, Magento MSI source).
+ *
+ * See: docs/specs/inventory/inventory.md §7.8
+ */
+
+import { locationRepository, CreateLocationInput, LocationRow, UpdateLocationInput } from '../../repositories/LocationRepository';
+import { keyValueRepository } from '../../repositories/KeyValueRepository';
+import { auditLogService } from '../audit/AuditLogService';
+import { LoggerFactory } from '../logger/LoggerFactory';
+
+const REGISTER_LOCATION_KEY = 'inventory.registerLocationId';
+
+export class LocationService {
+  private static instance: LocationService;
+  private logger = LoggerFactory.getInstance().createLogger('LocationService');
+
+  private constructor() {}
+
+  static getInstance(): LocationService {
+    if (!LocationService.instance) {
+      LocationService.instance = new LocationService();
+    }
+    return LocationService.instance;
+  }
+
+  async create(input: CreateLocationInput, createdBy?: string): Promise<string> {
+    const id = await locationRepository.create(input);
+    await auditLogService.log('location:created', {
+      userId: createdBy,
+      details: `Location "${input.name}" created`,
+      metadata: { locationId: id, type: input.type, platformLocationId: input.platformLocationId ?? null },
+    });
+    return id;
+  }
+
+  async update(id: string, input: UpdateLocationInput, updatedBy?: string): Promise<void> {
+    if (input.isActive === false) {
+      const location = await locationRepository.findById(id);
+      if (location?.is_default === 1) {
+        throw new Error('The default location cannot be deactivated');
+      }
+    }
+
+    await locationRepository.update(id, input);
+    await auditLogService.log('location:updated', {
+      userId: updatedBy,
+      details: `Location ${id} updated`,
+      metadata: { locationId: id, fields: Object.keys(input) },
+    });
+  }
+
+  async setDefault(id: string, updatedBy?: string): Promise<void> {
+    const location = await locationRepository.findById(id);
+    if (!location || location.is_active !== 1) {
+      throw new Error('Only an active location can be the default');
+    }
+
+    await locationRepository.setDefault(id);
+    await auditLogService.log('location:updated', {
+      userId: updatedBy,
+      details: `Location "${location.name}" set as default`,
+      metadata: { locationId: id, fields: ['isDefault'] },
+    });
+  }
+
+  async findAll(): Promise<LocationRow[]> {
+    return locationRepository.findAll();
+  }
+
+  async findActive(): Promise<LocationRow[]> {
+    await this.getDefault();
+    return locationRepository.findActive();
+  }
+
+  async findById(id: string): Promise<LocationRow | null> {
+    return locationRepository.findById(id);
+  }
+
+  /**
+   * The location stock lands in when nothing more specific is given.
+   * Seeds a "Main Store" on first call so no bootstrap step is needed.
+   */
+  async getDefault(): Promise<LocationRow> {
+    const existing = await locationRepository.findDefault();
+    if (existing) return existing;
+
+    const id = await locationRepository.create({ name: 'Main Store', type: 'store', isDefault: true });
+    this.logger.info('Seeded default location "Main Store"');
+    return (await locationRepository.findById(id))!;
+  }
+
+  /**
+   * The location this register sells from — the default location until one is chosen.
+   */
+  async getRegisterLocationId(): Promise<string> {
+    const stored = await keyValueRepository.getItem(REGISTER_LOCATION_KEY);
+    if (stored) {
+      const location = await locationRepository.findById(stored);
+      if (location?.is_active === 1) return location.id;
+      this.logger.warn({ message: `Register location ${stored} is missing or inactive — using the default location` });
+    }
+    return (await this.getDefault()).id;
+  }
+
+  async setRegisterLocation(id: string): Promise<void> {
+    const location = await locationRepository.findById(id);
+    if (!location || location.is_active !== 1) {
+      throw new Error('Only an active location can be used by a register');
+    }
+    await keyValueRepository.setItem(REGISTER_LOCATION_KEY, id);
+  }
+
+  /**
+   * Map a local location to the platform's location id (Shopify location id,
+   * BigCommerce location_id or Magento MSI source_code).
+   *
+   * Returns undefined when the platform's own default should be used: no
+   * location was given, or the default location has not been mapped yet.
+   * @throws Error if the location is unknown or is another unmapped location,
+   *   so stock is never silently moved at the wrong place
+   */
+  async resolvePlatformLocationId(locationId?: string): Promise<string | undefined> {
+    if (!locationId) return undefined;
+
+    const location = await locationRepository.findById(locationId);
+    if (!location) {
+      throw new Error(`Unknown location ${locationId}`);
+    }
+    if (location.platform_location_id) {
+      return location.platform_location_id;
+    }
+    if (location.is_default === 1) {
+      return undefined;
+    }
+    throw new Error(`Location "${location.name}" is not mapped to a platform location`);
+  }
+}
+
+export const locationService = LocationService.getInstance();
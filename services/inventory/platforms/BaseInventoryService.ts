@@ -5,6 +5,7 @@ import {
   PlatformInventoryConfig,
 } from './PlatformInventoryServiceInterface';
 import { LoggerFactory } from '../../logger/LoggerFactory';
+import { locationService } from '../LocationService';
 
 /**
  * Abstract base class for platform-specific inventory services
@@ -52,7 +53,7 @@ export abstract class BaseInventoryService implements PlatformInventoryServiceIn
    * Get inventory levels for products
    * Each platform must implement this with its specific API calls
    */
-  abstract getInventory(productIds: string[]): Promise<InventoryResult>;
+  abstract getInventory(productIds: string[], locationId?: string): Promise<InventoryResult>;
 
   /**
    * Update inventory levels for products
@@ -60,6 +61,14 @@ export abstract class BaseInventoryService implements PlatformInventoryServiceIn
    */
   abstract updateInventory(updates: InventoryUpdate[]): Promise<InventoryUpdateResult>;
 
+  /**
+   * Resolve a local location to this platform's location id
+   * Undefined means the platform's default location
+   */
+  protected resolvePlatformLocationId(locationId?: string): Promise<string | undefined> {
+    return locationService.resolvePlatformLocationId(locationId);
+  }
+
   /**
    * Create authorization headers for API requests
    * Should be implemented by each platform that needs custom auth headers
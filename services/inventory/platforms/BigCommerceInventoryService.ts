@@ -22,6 +22,13 @@ interface BigCommerceProductInventoryResponse {
   data?: BigCommerceProductInventory;
 }
 
+interface BigCommerceLocationInventoryResponse {
+  data?: Array<{
+    identity: { sku?: string; product_id: number; variant_id?: number };
+    locations?: Array<{ location_id: number; available_to_sell?: number }>;
+  }>;
+}
+
 /**
  * BigCommerce-specific inventory service implementation
  * Handles BigCommerce inventory API interactions
@@ -41,13 +48,19 @@ export class BigCommerceInventoryService extends BaseInventoryService {
 
   /**
    * Get inventory levels for products from BigCommerce
+   * With a mapped location, quantities come from the v3 Inventory API for that location.
    */
-  async getInventory(productIds: string[]): Promise<InventoryResult> {
+  async getInventory(productIds: string[], locationId?: string): Promise<InventoryResult> {
     if (!this.isInitialized()) {
       throw new Error('BigCommerce inventory service not initialized');
     }
 
     try {
+      const bcLocationId = await this.resolvePlatformLocationId(locationId);
+      if (bcLocationId && locationId) {
+        return await this.getLocationInventory(productIds, bcLocationId, locationId);
+      }
+
       const items: InventoryResult['items'] = [];
 
       // BigCommerce requires us to fetch products one by one
@@ -112,6 +125,26 @@ export class BigCommerceInventoryService extends BaseInventoryService {
 
     try {
       for (const update of updates) {
+        let bcLocationId: string | undefined;
+        try {
+          bcLocationId = await this.resolvePlatformLocationId(update.locationId);
+        } catch (error) {
+          result.failed++;
+          result.errors.push({
+            productId: update.productId,
+            variantId: update.variantId,
+            error: error instanceof Error ? error.message : 'Unknown location',
+          });
+          continue;
+        }
+
+        // Mapped locations go through the Inventory API, which adjusts stock at one location
+        if (bcLocationId) {
+          await this.updateLocationInventory(update, bcLocationId);
+          result.successful++;
+          continue;
+        }
+
         let currentInventory = 0;
 
         // If this is an adjustment, we need to get the current inventory level first
@@ -159,4 +192,40 @@ export class BigCommerceInventoryService extends BaseInventoryService {
       };
     }
   }
+
+  /**
+   * Stock at one BigCommerce location, via GET /v3/inventory/items
+   */
+  private async getLocationInventory(productIds: string[], bcLocationId: string, locationId: string): Promise<InventoryResult> {
+    const data = await this.apiClient.get<BigCommerceLocationInventoryResponse>('inventory/items', {
+      'product_id:in': productIds.join(','),
+      'location_id:in': bcLocationId,
+    });
+
+    const items: InventoryResult['items'] = (data.data ?? []).map(item => ({
+      productId: item.identity.product_id.toString(),
+      variantId: item.identity.variant_id?.toString(),
+      quantity: item.locations?.find(l => l.location_id.toString() === bcLocationId)?.available_to_sell ?? 0,
+      sku: item.identity.sku,
+      locationId,
+    }));
+    return { items };
+  }
+
+  /**
+   * Set or adjust stock at one BigCommerce location via the v3 inventory adjustments
+   */
+  private async updateLocationInventory(update: InventoryUpdate, bcLocationId: string): Promise<void> {
+    const item = {
+      location_id: Number(bcLocationId),
+      ...(update.variantId ? { variant_id: Number(update.variantId) } : { product_id: Number(update.productId) }),
+      quantity: update.quantity,
+    };
+
+    if (update.adjustment) {
+      await this.apiClient.post('inventory/adjustments/relative', { reason: 'RetailPOS adjustment', items: [item] });
+    } else {
+      await this.apiClient.put('inventory/adjustments/absolute', { reason: 'RetailPOS stock count', items: [item] });
+    }
+  }
 }
@@ -44,9 +44,10 @@ export class CompositeInventoryService implements InventoryServiceInterface {
   /**
    * Get inventory levels across all platforms
    * @param productIds Array of product IDs to get inventory for
+   * @param locationId Local location id; omitted returns stock across all locations
    * @returns Promise resolving to combined inventory information
    */
-  public async getInventory(productIds: string[]): Promise<InventoryResult> {
+  public async getInventory(productIds: string[], locationId?: string): Promise<InventoryResult> {
     // Initialize services if they haven't been initialized yet
     await this.ensureInitialized();
 
@@ -59,7 +60,7 @@ export class CompositeInventoryService implements InventoryServiceInterface {
       }
 
       try {
-        const result = await service.getInventory(productIds);
+        const result = await service.getInventory(productIds, locationId);
         if (result) {
           results.push(result);
         }
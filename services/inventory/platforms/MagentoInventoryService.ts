@@ -74,8 +74,9 @@ export class MagentoInventoryService extends BaseInventoryService {
 
   /**
    * Get inventory levels for products
+   * With a mapped location, quantities come from that MSI source only.
    */
-  async getInventory(productIds: string[]): Promise<InventoryResult> {
+  async getInventory(productIds: string[], locationId?: string): Promise<InventoryResult> {
     if (!this.isInitialized()) {
       throw new Error('Magento inventory service not initialized');
     }
@@ -83,6 +84,8 @@ export class MagentoInventoryService extends BaseInventoryService {
     const items: InventoryResult['items'] = [];
 
     try {
+      const sourceCode = await this.resolvePlatformLocationId(locationId);
+
       for (const productId of productIds) {
         try {
           // First get the product to get its SKU
@@ -94,6 +97,11 @@ export class MagentoInventoryService extends BaseInventoryService {
             continue;
           }
 
+          if (sourceCode) {
+            items.push({ productId, variantId: productId, sku, quantity: await this.getSourceQuantity(sku, sourceCode), locationId });
+            continue;
+          }
+
           // Get stock item for this SKU
           try {
             const stockItem = await this.apiClient.get<any>(`stockItems/${encodeURIComponent(sku)}`);
@@ -150,6 +158,20 @@ export class MagentoInventoryService extends BaseInventoryService {
           continue;
         }
 
+        // A mapped location is an MSI source: write straight to its source item
+        const sourceCode = await this.resolvePlatformLocationId(update.locationId);
+        if (sourceCode) {
+          const newQuantity =
+            update.adjustment === true ? (await this.getSourceQuantity(sku, sourceCode)) + update.quantity : update.quantity;
+          if (await this.updateMsiInventory(sku, Math.max(0, newQuantity), sourceCode)) {
+            result.successful++;
+          } else {
+            result.failed++;
+            result.errors.push({ productId: update.productId, error: `Failed to update inventory at source ${sourceCode}` });
+          }
+          continue;
+        }
+
         const newQuantity = update.adjustment === true ? (await this.getCurrentQuantity(sku)) + update.quantity : update.quantity;
 
         try {
@@ -182,9 +204,12 @@ export class MagentoInventoryService extends BaseInventoryService {
   /**
    * Update inventory using MSI (Multi-Source Inventory)
    */
-  private async updateMsiInventory(sku: string, quantity: number): Promise<boolean> {
+  private async updateMsiInventory(
+    sku: string,
+    quantity: number,
+    sourceCode: string = this.config.sourceCode || 'default'
+  ): Promise<boolean> {
     try {
-      const sourceCode = this.config.sourceCode || 'default';
       await this.apiClient.post('inventory/source-items', {
         sourceItems: [{ sku, source_code: sourceCode, quantity, status: quantity > 0 ? 1 : 0 }],
       });
@@ -195,6 +220,23 @@ export class MagentoInventoryService extends BaseInventoryService {
     }
   }
 
+  /**
+   * Get the quantity of a SKU at one MSI source
+   */
+  private async getSourceQuantity(sku: string, sourceCode: string): Promise<number> {
+    try {
+      const data = await this.apiClient.get<any>('inventory/source-items', {
+        'searchCriteria[filter_groups][0][filters][0][field]': 'sku',
+        'searchCriteria[filter_groups][0][filters][0][value]': sku,
+        'searchCriteria[filter_groups][1][filters][0][field]': 'source_code',
+        'searchCriteria[filter_groups][1][filters][0][value]': sourceCode,
+      });
+      return data.items?.[0]?.quantity || 0;
+    } catch {
+      return 0;
+    }
+  }
+
   /**
    * Get current quantity for a SKU
    */
@@ -0,0 +1,96 @@
+// In-memory key-value store so saved inventory survives a reload
+const mockStore = new Map<string, string>();
+
+jest.mock('../../../repositories/KeyValueRepository', () => ({
+  keyValueRepository: {
+    getItem: jest.fn(async (key: string) => mockStore.get(key) ?? null),
+    setItem: jest.fn(async (key: string, value: string) => {
+      mockStore.set(key, value);
+    }),
+    removeItem: jest.fn(async (key: string) => {
+      mockStore.delete(key);
+    }),
+  },
+}));
+
+jest.mock('../LocationService', () => ({
+  locationService: { getDefault: jest.fn(async () => ({ id: 'store-main' })) },
+}));
+
+jest.mock('../../logger/LoggerFactory', () => ({
+  LoggerFactory: {
+    getInstance: () => ({
+      createLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }),
+    }),
+  },
+}));
+
+import { OfflineInventoryService } from './OfflineInventoryService';
+
+const quantityOf = async (service: OfflineInventoryService, productId: string, locationId?: string) =>
+  (await service.getInventory([productId], locationId)).items[0].quantity;
+
+describe('OfflineInventoryService locations', () => {
+  let service: OfflineInventoryService;
+
+  beforeEach(() => {
+    mockStore.clear();
+    service = new OfflineInventoryService();
+  });
+
+  it('puts updates without a location at the default location', async () => {
+    await service.updateInventory([{ productId: 'p1', quantity: 12 }]);
+
+    expect(await quantityOf(service, 'p1', 'store-main')).toBe(12);
+    expect(await quantityOf(service, 'p1', 'warehouse')).toBe(0);
+    expect(await quantityOf(service, 'p1')).toBe(12);
+  });
+
+  it('moves stock between locations without changing the total', async () => {
+    await service.updateInventory([
+      { productId: 'p1', quantity: 10, locationId: 'store-main' },
+      { productId: 'p1', quantity: 30, locationId: 'warehouse' },
+    ]);
+
+    // A transfer: dispatch from the warehouse, receive at the store
+    await service.updateInventory([{ productId: 'p1', quantity: -8, adjustment: true, locationId: 'warehouse' }]);
+    await service.updateInventory([{ productId: 'p1', quantity: 8, adjustment: true, locationId: 'store-main' }]);
+
+    expect(await quantityOf(service, 'p1', 'warehouse')).toBe(22);
+    expect(await quantityOf(service, 'p1', 'store-main')).toBe(18);
+    expect(await quantityOf(service, 'p1')).toBe(40);
+  });
+
+  it('deducts weighed quantities without floating-point drift', async () => {
+    await service.updateInventory([{ productId: 'p1', quantity: 1 }]);
+    await service.updateInventory([{ productId: 'p1', quantity: -0.1, adjustment: true }]);
+    await service.updateInventory([{ productId: 'p1', quantity: -0.2, adjustment: true }]);
+
+    expect(await quantityOf(service, 'p1')).toBe(0.7);
+  });
+
+  it('sets an absolute count at one location only', async () => {
+    await service.updateInventory([
+      { productId: 'p1', quantity: 5, locationId: 'store-main' },
+      { productId: 'p1', quantity: 7, locationId: 'warehouse' },
+    ]);
+
+    await service.updateInventory([{ productId: 'p1', quantity: 2, adjustment: false, locationId: 'warehouse' }]);
+
+    expect(await quantityOf(service, 'p1', 'store-main')).toBe(5);
+    expect(await quantityOf(service, 'p1', 'warehouse')).toBe(2);
+    expect((await service.getInventoryStats()).totalQuantity).toBe(7);
+  });
+
+  it('treats stock saved before locations existed as held at the default location', async () => {
+    mockStore.set('offline_local_inventory', JSON.stringify({ p1: { quantity: 9, updatedAt: new Date().toISOString() } }));
+
+    expect(await quantityOf(service, 'p1', 'store-main')).toBe(9);
+    expect(await quantityOf(service, 'p1', 'warehouse')).toBe(0);
+
+    await service.updateInventory([{ productId: 'p1', quantity: 4, adjustment: true, locationId: 'warehouse' }]);
+
+    expect(await quantityOf(service, 'p1', 'store-main')).toBe(9);
+    expect(await quantityOf(service, 'p1')).toBe(13);
+  });
+});
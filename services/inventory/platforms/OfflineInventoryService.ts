@@ -1,17 +1,29 @@
 import { InventoryServiceInterface, InventoryResult, InventoryUpdate, InventoryUpdateResult } from '../InventoryServiceInterface';
 import { LoggerFactory } from '../../logger/LoggerFactory';
 import { keyValueRepository } from '../../../repositories/KeyValueRepository';
+import { locationService } from '../LocationService';
+import { roundStockQuantity } from '../../product/unitOfMeasure';
 
 const INVENTORY_STORAGE_KEY = 'offline_local_inventory';
 
+interface LocalInventoryItem {
+  /** Total across all locations */
+  quantity: number;
+  sku?: string;
+  updatedAt: Date;
+  /** Quantity per location id. Items stored before locations existed have none: all their stock is at the default location. */
+  locations?: Record<string, number>;
+}
+
 /**
  * Offline inventory service for local-first POS operation
  * Tracks inventory locally via SQLite - no online sync
  * In offline mode, inventory is maintained locally and not synced with any platform
+ * Stock is held per location; updates without a location apply to the default location
  */
 export class OfflineInventoryService implements InventoryServiceInterface {
   private initialized: boolean = false;
-  private inventory: Map<string, { quantity: number; sku?: string; updatedAt: Date }> = new Map();
+  private inventory: Map<string, LocalInventoryItem> = new Map();
   private logger = LoggerFactory.getInstance().createLogger('OfflineInventoryService');
 
   /**
@@ -24,7 +36,7 @@ export class OfflineInventoryService implements InventoryServiceInterface {
       if (storedInventory) {
         const parsed = JSON.parse(storedInventory);
         this.inventory = new Map(
-          Object.entries(parsed).map(([key, value]: [string, { quantity: number; sku?: string; updatedAt?: string }]) => [
+          Object.entries(parsed).map(([key, value]: [string, Omit<LocalInventoryItem, 'updatedAt'> & { updatedAt?: string }]) => [
             key,
             {
               ...value,
@@ -57,19 +69,23 @@ export class OfflineInventoryService implements InventoryServiceInterface {
 
   /**
    * Get inventory levels for products (from local storage)
+   * With a location, returns the quantity at that location instead of the total
    */
-  async getInventory(productIds: string[]): Promise<InventoryResult> {
+  async getInventory(productIds: string[], locationId?: string): Promise<InventoryResult> {
     if (!this.initialized) {
       await this.initialize();
     }
 
+    const defaultLocationId = locationId ? (await locationService.getDefault()).id : undefined;
+
     const items = productIds.map(productId => {
       const item = this.inventory.get(productId);
       return {
         productId,
-        quantity: item?.quantity || 0,
+        quantity: (locationId ? this.getLocationQuantities(item, defaultLocationId!)[locationId] : item?.quantity) || 0,
         sku: item?.sku || undefined,
         updatedAt: item?.updatedAt,
+        locationId,
       };
     });
 
@@ -91,28 +107,35 @@ export class OfflineInventoryService implements InventoryServiceInterface {
     };
 
     const now = new Date();
+    const defaultLocationId = (await locationService.getDefault()).id;
 
     updates.forEach(update => {
       try {
-        const currentItem = this.inventory.get(update.productId) || { quantity: 0 };
+        const currentItem = this.inventory.get(update.productId);
+        const locationId = update.locationId ?? defaultLocationId;
+        const locations = this.getLocationQuantities(currentItem, defaultLocationId);
+        const currentQuantity = locations[locationId] ?? 0;
 
         let newQuantity: number;
         if (update.adjustment) {
-          newQuantity = currentItem.quantity + update.quantity;
+          newQuantity = currentQuantity + update.quantity;
         } else {
           newQuantity = update.quantity;
         }
 
-        newQuantity = Math.max(0, newQuantity);
+        // Weighed sales deduct fractional stock; round so repeated deductions don't drift
+        newQuantity = Math.max(0, roundStockQuantity(newQuantity));
+        locations[locationId] = newQuantity;
 
         this.inventory.set(update.productId, {
-          quantity: newQuantity,
-          sku: update.variantId || (currentItem as { sku?: string }).sku,
+          quantity: roundStockQuantity(Object.values(locations).reduce((sum, quantity) => sum + quantity, 0)),
+          sku: update.variantId || currentItem?.sku,
           updatedAt: now,
+          locations,
         });
 
         result.successful++;
-        this.logger.info(`Updated inventory for ${update.productId}: ${newQuantity}`);
+        this.logger.info(`Updated inventory for ${update.productId} at location ${locationId}: ${newQuantity}`);
       } catch (error) {
         result.failed++;
         result.errors.push({
@@ -208,6 +231,14 @@ export class OfflineInventoryService implements InventoryServiceInterface {
     };
   }
 
+  /**
+   * Quantity per location for an item, treating stock stored before locations existed as held at the default location
+   */
+  private getLocationQuantities(item: LocalInventoryItem | undefined, defaultLocationId: string): Record<string, number> {
+    if (!item) return {};
+    return item.locations ? { ...item.locations } : { [defaultLocationId]: item.quantity };
+  }
+
   /**
    * Save inventory to local storage
    */
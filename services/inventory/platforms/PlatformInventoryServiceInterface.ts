@@ -47,9 +47,10 @@ export interface PlatformInventoryServiceInterface {
   /**
    * Get inventory levels for products from the platform
    * @param productIds Array of product IDs to get inventory for
+   * @param locationId Local location id; omitted returns stock across all locations
    * @returns Promise resolving to inventory information
    */
-  getInventory(productIds: string[]): Promise<InventoryResult>;
+  getInventory(productIds: string[], locationId?: string): Promise<InventoryResult>;
 
   /**
    * Update inventory levels for products on the platform
@@ -23,27 +23,35 @@ export class ShopifyInventoryService extends BaseInventoryService {
 
   /**
    * Get inventory levels for products from Shopify
+   * With a location, quantities come from that location's inventory levels
+   * rather than the variant's total across all locations.
    */
-  async getInventory(productIds: string[]): Promise<InventoryResult> {
+  async getInventory(productIds: string[], locationId?: string): Promise<InventoryResult> {
     if (!this.isInitialized()) {
       throw new Error('Shopify inventory service not initialized');
     }
 
     try {
       const items: InventoryResult['items'] = [];
+      const shopifyLocationId = locationId
+        ? ((await this.resolvePlatformLocationId(locationId)) ?? (await this.getFirstLocationId()))
+        : null;
 
       for (const productId of productIds) {
         const data = await this.apiClient.get<{ variants: any[] }>(`products/${productId}/variants.json`);
 
         // Map Shopify variants to inventory items
         if (data.variants && Array.isArray(data.variants)) {
+          const available = shopifyLocationId ? await this.getAvailableAtLocation(data.variants, shopifyLocationId) : null;
+
           for (const variant of data.variants) {
             items.push({
               productId: productId,
               variantId: variant.id.toString(),
-              quantity: variant.inventory_quantity || 0,
+              quantity: available ? (available.get(String(variant.inventory_item_id)) ?? 0) : variant.inventory_quantity || 0,
               sku: variant.sku,
               updatedAt: new Date(variant.updated_at),
+              locationId: available ? locationId : undefined,
             });
           }
         }
@@ -93,7 +101,18 @@ export class ShopifyInventoryService extends BaseInventoryService {
           continue;
         }
 
-        const locationId = await this.getFirstLocationId();
+        let locationId: string | null;
+        try {
+          locationId = (await this.resolvePlatformLocationId(update.locationId)) ?? (await this.getFirstLocationId());
+        } catch (error) {
+          result.failed++;
+          result.errors.push({
+            productId: update.productId,
+            variantId: update.variantId,
+            error: error instanceof Error ? error.message : 'Unknown location',
+          });
+          continue;
+        }
         if (!locationId) {
           result.failed++;
           result.errors.push({
@@ -154,7 +173,25 @@ export class ShopifyInventoryService extends BaseInventoryService {
   }
 
   /**
-   * Get the first location ID for inventory adjustments
+   * Available quantity per inventory item at one Shopify location
+   */
+  private async getAvailableAtLocation(variants: any[], shopifyLocationId: string): Promise<Map<string, number>> {
+    const inventoryItemIds = variants.map(variant => variant.inventory_item_id).filter(Boolean);
+    const available = new Map<string, number>();
+    if (inventoryItemIds.length === 0) return available;
+
+    const data = await this.apiClient.get<{ inventory_levels: any[] }>('inventory_levels.json', {
+      inventory_item_ids: inventoryItemIds.join(','),
+      location_ids: shopifyLocationId,
+    });
+    for (const level of data.inventory_levels ?? []) {
+      available.set(String(level.inventory_item_id), level.available || 0);
+    }
+    return available;
+  }
+
+  /**
+   * Get the first active location ID — used while the default location is not mapped
    */
   private async getFirstLocationId(): Promise<string | null> {
     try {
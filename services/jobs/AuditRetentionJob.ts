@@ -0,0 +1,82 @@
+/**
+ * AuditRetentionJob
+ *
+ * Moves audit entries older than the retention period (`audit.retentionDays`,
+ * 365 days by default) out of `audit_log` into an archive file.
+ *
+ * Runs as a JobScheduler job (`audit-retention`, daily at 03:30 by default).
+ *
+ * Usage:
+ *   auditRetentionJob.start();   // called once at app startup (App.tsx), before jobScheduler.start()
+ */
+
+import { auditLogService } from '../audit/AuditLogService';
+import { LoggerFactory } from '../logger/LoggerFactory';
+import { notificationService } from '../notifications/NotificationService';
+import { jobScheduler } from './JobScheduler';
+import { SyncEntityType, SyncOperationResult } from '../sync/SyncServiceInterface';
+
+export const AUDIT_RETENTION_JOB_TYPE = 'audit:retention';
+const AUDIT_RETENTION_JOB_ID = 'audit-retention';
+const DEFAULT_SCHEDULE = '30 3 * * *'; // daily at 03:30
+
+export class AuditRetentionJob {
+  private static instance: AuditRetentionJob;
+  private logger = LoggerFactory.getInstance().createLogger('AuditRetentionJob');
+  private started = false;
+
+  private constructor() {}
+
+  static getInstance(): AuditRetentionJob {
+    if (!AuditRetentionJob.instance) {
+      AuditRetentionJob.instance = new AuditRetentionJob();
+    }
+    return AuditRetentionJob.instance;
+  }
+
+  /**
+   * Register with the JobScheduler and create the schedule on first launch.
+   *
+   * @param schedule Cron expression for a newly created schedule (default: daily at 03:30)
+   */
+  start(schedule: string = DEFAULT_SCHEDULE): void {
+    if (this.started) return;
+    this.started = true;
+
+    jobScheduler.registerRunner(AUDIT_RETENTION_JOB_TYPE, () => this.runScheduled());
+    jobScheduler
+      .ensureJob({
+        id: AUDIT_RETENTION_JOB_ID,
+        type: AUDIT_RETENTION_JOB_TYPE,
+        name: 'Audit log retention',
+        cron: schedule,
+        missedRunPolicy: 'catch_up',
+      })
+      .catch(err => {
+        this.logger.error({ message: 'Failed to schedule audit retention job' }, err instanceof Error ? err : new Error(String(err)));
+      });
+  }
+
+  private async runScheduled(): Promise<SyncOperationResult> {
+    const startedAt = Date.now();
+    try {
+      const archive = await auditLogService.applyRetention();
+      return {
+        entityType: SyncEntityType.ALL,
+        successful: archive?.entryCount ?? 0,
+        failed: 0,
+        skipped: 0,
+        errors: [],
+        warnings: archive ? [`${archive.entryCount} audit entries archived to ${archive.fileUri}`] : [],
+        completedAt: new Date(),
+        durationMs: Date.now() - startedAt,
+      };
+    } catch (err) {
+      this.logger.error({ message: 'Audit retention job failed' }, err instanceof Error ? err : new Error(String(err)));
+      notificationService.notify('Audit Archive Failed', err instanceof Error ? err.message : 'Failed to archive audit entries', 'error');
+      throw err;
+    }
+  }
+}
+
+export const auditRetentionJob = AuditRetentionJob.getInstance();
@@ -0,0 +1,213 @@
+import type {
+  CreateScheduledJobInput,
+  InsertJobRunInput,
+  JobRunStatus,
+  ScheduledJobRow,
+  ScheduledJobRunRow,
+} from '../../repositories/ScheduledJobRepository';
+
+// In-memory scheduled_jobs / scheduled_job_runs tables
+const mockJobs: ScheduledJobRow[] = [];
+const mockRuns: ScheduledJobRunRow[] = [];
+
+jest.mock('../../repositories/ScheduledJobRepository', () => ({
+  scheduledJobRepository: {
+    create: jest.fn(async (input: CreateScheduledJobInput) => {
+      const id = input.id ?? `job-${mockJobs.length + 1}`;
+      mockJobs.push({
+        id,
+        type: input.type,
+        name: input.name,
+        cron: input.cron,
+        payload: input.payload ?? null,
+        missed_run_policy: input.missedRunPolicy,
+        enabled: 1,
+        next_run_at: input.nextRunAt,
+        last_run_at: null,
+        last_status: null,
+        created_at: 0,
+        updated_at: 0,
+      });
+      return id;
+    }),
+    findById: jest.fn(async (id: string) => mockJobs.find(j => j.id === id) ?? null),
+    findAll: jest.fn(async () => [...mockJobs]),
+    findDue: jest.fn(async (now: number) => mockJobs.filter(j => j.enabled === 1 && j.next_run_at <= now)),
+    findNextRunAt: jest.fn(async () => null),
+    setEnabled: jest.fn(async (id: string, enabled: boolean, nextRunAt: number) => {
+      const job = mockJobs.find(j => j.id === id);
+      if (!job) return false;
+      job.enabled = enabled ? 1 : 0;
+      job.next_run_at = nextRunAt;
+      return true;
+    }),
+    recordRunOutcome: jest.fn(async (id: string, status: JobRunStatus, lastRunAt: number | null, nextRunAt: number) => {
+      const job = mockJobs.find(j => j.id === id)!;
+      Object.assign(job, { last_status: status, last_run_at: lastRunAt, next_run_at: nextRunAt });
+    }),
+    delete: jest.fn(async (id: string) => {
+      const index = mockJobs.findIndex(j => j.id === id);
+      if (index === -1) return false;
+      mockJobs.splice(index, 1);
+      return true;
+    }),
+    insertRun: jest.fn(async (input: InsertJobRunInput) => {
+      const id = `run-${mockRuns.length + 1}`;
+      mockRuns.push({
+        id,
+        job_id: input.jobId,
+        scheduled_for: input.scheduledFor,
+        started_at: input.startedAt,
+        completed_at: input.completedAt,
+        status: input.status,
+        result: input.result ?? null,
+        error: input.error ?? null,
+      });
+      return id;
+    }),
+    findRuns: jest.fn(async (jobId: string) => mockRuns.filter(r => r.job_id === jobId).reverse()),
+    pruneRuns: jest.fn(),
+  },
+}));
+
+jest.mock('react-native', () => ({
+  AppState: { addEventListener: jest.fn(() => ({ remove: jest.fn() })) },
+}));
+
+jest.mock('../logger/LoggerFactory', () => ({
+  LoggerFactory: {
+    getInstance: () => ({
+      createLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }),
+    }),
+  },
+}));
+
+const mockRunScheduledSync = jest.fn();
+jest.mock('../sync/SyncServiceFactory', () => ({
+  SyncServiceFactory: { getInstance: () => ({ runScheduledSync: mockRunScheduledSync }) },
+}));
+
+import { jobScheduler } from './JobScheduler';
+import { SyncDirection, SyncEntityType, SyncOperationResult } from '../sync/SyncServiceInterface';
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+const HOUR = 60 * 60 * 1000;
+
+function okResult(successful: number, failed = 0): SyncOperationResult {
+  return {
+    entityType: SyncEntityType.PRODUCT,
+    successful,
+    failed,
+    skipped: 0,
+    errors: [],
+    warnings: [],
+    completedAt: new Date(),
+    durationMs: 5,
+  };
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────
+
+describe('JobScheduler', () => {
+  const runner = jest.fn();
+
+  beforeEach(() => {
+    mockJobs.length = 0;
+    mockRuns.length = 0;
+    jest.clearAllMocks();
+    runner.mockResolvedValue(okResult(3));
+    jobScheduler.registerRunner('test', runner);
+  });
+
+  it('persists a schedule with its next run time and rejects bad cron', async () => {
+    const id = await jobScheduler.schedule({ type: 'test', name: 'Nightly', cron: '0 3 * * *' });
+
+    const [job] = await jobScheduler.list();
+    expect(job).toMatchObject({ id, cron: '0 3 * * *', enabled: true, missedRunPolicy: 'catch_up' });
+    expect(job.nextRunAt).toBeGreaterThan(Date.now());
+    expect(new Date(job.nextRunAt).getHours()).toBe(3);
+
+    await expect(jobScheduler.schedule({ type: 'test', name: 'Bad', cron: '0 25 * * *' })).rejects.toThrow('out of range');
+  });
+
+  it('runs due jobs, records the result and moves to the next run time', async () => {
+    const id = await jobScheduler.schedule({ type: 'test', name: 'Every minute', cron: '* * * * *', payload: { a: 1 } });
+    mockJobs[0].next_run_at = Date.now() - 1000;
+
+    await jobScheduler.tick();
+
+    expect(runner).toHaveBeenCalledWith(expect.objectContaining({ id, payload: { a: 1 } }));
+    const [run] = await jobScheduler.getRuns(id);
+    expect(run.status).toBe('completed');
+    expect(run.result?.successful).toBe(3);
+    expect(run.result?.completedAt).toBeInstanceOf(Date);
+    expect(mockJobs[0].next_run_at).toBeGreaterThan(Date.now());
+    expect(mockJobs[0].last_status).toBe('completed');
+  });
+
+  it('records a failed run when the runner throws', async () => {
+    runner.mockRejectedValueOnce(new Error('Platform unreachable'));
+    const id = await jobScheduler.schedule({ type: 'test', name: 'Flaky', cron: '* * * * *' });
+
+    const run = await jobScheduler.runNow(id);
+
+    expect(run).toMatchObject({ status: 'failed', error: 'Platform unreachable' });
+    expect(mockJobs[0].last_status).toBe('failed');
+  });
+
+  it('catches up a missed run once, or skips it, according to the policy', async () => {
+    await jobScheduler.schedule({ type: 'test', name: 'Catch up', cron: '0 * * * *' });
+    await jobScheduler.schedule({ type: 'test', name: 'Skip', cron: '0 * * * *', missedRunPolicy: 'skip' });
+    // The app was closed through several run times
+    mockJobs.forEach(job => (job.next_run_at = Date.now() - 5 * HOUR));
+
+    await jobScheduler.tick();
+
+    expect(runner).toHaveBeenCalledTimes(1);
+    expect(runner.mock.calls[0][0].name).toBe('Catch up');
+    expect(mockRuns.map(r => r.status)).toEqual(['completed', 'skipped']);
+    mockJobs.forEach(job => expect(job.next_run_at).toBeGreaterThan(Date.now()));
+  });
+
+  it('leaves jobs due until their runner is registered', async () => {
+    await jobScheduler.schedule({ type: 'later', name: 'Registered later', cron: '* * * * *' });
+    mockJobs[0].next_run_at = Date.now() - 1000;
+
+    await jobScheduler.tick();
+    expect(mockRuns).toHaveLength(0);
+
+    const lateRunner = jest.fn().mockResolvedValue(okResult(1));
+    jobScheduler.registerRunner('later', lateRunner);
+    await jobScheduler.tick();
+    expect(lateRunner).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not catch up runs missed while paused', async () => {
+    const id = await jobScheduler.schedule({ type: 'test', name: 'Paused', cron: '* * * * *' });
+    await jobScheduler.setEnabled(id, false);
+    mockJobs[0].next_run_at = Date.now() - HOUR;
+
+    await jobScheduler.tick();
+    await jobScheduler.setEnabled(id, true);
+    await jobScheduler.tick();
+
+    expect(runner).not.toHaveBeenCalled();
+    expect(mockJobs[0].next_run_at).toBeGreaterThan(Date.now());
+  });
+
+  it('schedules platform syncs and runs them through the sync service factory', async () => {
+    mockRunScheduledSync.mockResolvedValue(okResult(12));
+    const options = { entityType: SyncEntityType.PRODUCT, direction: SyncDirection.ECOMMERCE_TO_POS };
+
+    const id = await jobScheduler.scheduleSync(options, '0 2 * * *', 'shopify');
+    const run = await jobScheduler.runNow(id);
+
+    expect(mockJobs[0]).toMatchObject({ type: 'sync', name: 'shopify product sync' });
+    expect(mockRunScheduledSync).toHaveBeenCalledWith({ platform: 'shopify', options });
+    expect(run.result?.successful).toBe(12);
+
+    expect(await jobScheduler.cancel(id)).toBe(true);
+    expect(await jobScheduler.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * JobScheduler
+ *
+ * Persistent cron scheduler. Schedules live in SQLite (`scheduled_jobs`) so they
+ * survive restarts; every run is recorded in `scheduled_job_runs` with a
+ * SyncOperationResult.
+ *
+ * Mobile apps are suspended when backgrounded, so the scheduler never relies on a
+ * timer alone:
+ *   - start() checks for due jobs immediately and on every foreground transition
+ *   - while the app is in the foreground a single timer is armed for the earliest
+ *     next run (re-checked at least hourly)
+ *
+ * A run time that passed while the app was closed or suspended is "missed". Each
+ * job's missedRunPolicy decides whether to run it once on wake-up (`catch_up`) or
+ * record it as skipped and wait for the next run time (`skip`).
+ *
+ * Runners are registered per job type. Sync jobs (`scheduleSync`) run through
+ * SyncServiceFactory; other jobs such as LoyaltyExpiryJob register their own.
+ *
+ * Usage:
+ *   jobScheduler.start();   // called once at app startup (App.tsx)
+ *   jobScheduler.stop();    // called on teardown
+ */
+
+import { AppState, AppStateStatus } from 'react-native';
+import { LoggerFactory } from '../logger/LoggerFactory';
+import { scheduledJobRepository, ScheduledJobRow, ScheduledJobRunRow } from '../../repositories/ScheduledJobRepository';
+import { getNextCronRun, parseCron } from './cronSchedule';
+import { JobRunner, JobRunStatus, JobSchedulerInterface, ScheduledJob, ScheduledJobRun, ScheduleJobInput } from './JobSchedulerInterface';
+import { SCHEDULED_SYNC_JOB_TYPE, ScheduledSyncPayload, SyncOperationResult, SyncOptions } from '../sync/SyncServiceInterface';
+
+/** A run that starts this long after its run time counts as missed */
+const MISSED_RUN_GRACE_MS = 5 * 60 * 1000;
+/** Upper bound on the wake-up timer so clock changes are picked up */
+const MAX_TIMER_MS = 60 * 60 * 1000;
+const RUN_HISTORY_LIMIT = 50;
+
+export class JobScheduler implements JobSchedulerInterface {
+  private static instance: JobScheduler;
+  private logger = LoggerFactory.getInstance().createLogger('JobScheduler');
+  private runners = new Map<string, JobRunner>();
+  private running = new Set<string>();
+  private ticking: Promise<void> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private appStateSubscription: { remove(): void } | null = null;
+  private started = false;
+
+  private constructor() {
+    // Imported lazily — the factory pulls in every platform sync service, which in turn use this scheduler
+    this.registerRunner(SCHEDULED_SYNC_JOB_TYPE, async job => {
+      const { SyncServiceFactory } = await import('../sync/SyncServiceFactory');
+      return SyncServiceFactory.getInstance().runScheduledSync(job.payload as ScheduledSyncPayload);
+    });
+  }
+
+  static getInstance(): JobScheduler {
+    if (!JobScheduler.instance) {
+      JobScheduler.instance = new JobScheduler();
+    }
+    return JobScheduler.instance;
+  }
+
+  registerRunner(type: string, runner: JobRunner): void {
+    this.runners.set(type, runner);
+  }
+
+  // ── Schedules ─────────────────────────────────────────────────────────
+
+  async schedule(input: ScheduleJobInput): Promise<string> {
+    const cron = parseCron(input.cron);
+    const id = await scheduledJobRepository.create({
+      id: input.id,
+      type: input.type,
+      name: input.name,
+      cron: cron.expression,
+      payload: input.payload === undefined ? null : JSON.stringify(input.payload),
+      missedRunPolicy: input.missedRunPolicy ?? 'catch_up',
+      nextRunAt: getNextCronRun(cron, new Date()).getTime(),
+    });
+
+    this.logger.info(`Scheduled "${input.name}" (${cron.expression})`);
+    await this.armTimer();
+    return id;
+  }
+
+  async ensureJob(input: ScheduleJobInput & { id: string }): Promise<ScheduledJob> {
+    const existing = await scheduledJobRepository.findById(input.id);
+    if (!existing) {
+      await this.schedule(input);
+    }
+    return this.mapJob((await scheduledJobRepository.findById(input.id))!);
+  }
+
+  async scheduleSync(options: SyncOptions, cron: string, platform?: string): Promise<string> {
+    const payload: ScheduledSyncPayload = { platform, options };
+    return this.schedule({
+      type: SCHEDULED_SYNC_JOB_TYPE,
+      name: `${platform ?? 'All platforms'} ${options.entityType} sync`,
+      cron,
+      payload,
+    });
+  }
+
+  async cancel(jobId: string): Promise<boolean> {
+    const deleted = await scheduledJobRepository.delete(jobId);
+    if (deleted) {
+      this.logger.info(`Cancelled scheduled job ${jobId}`);
+      await this.armTimer();
+    }
+    return deleted;
+  }
+
+  async setEnabled(jobId: string, enabled: boolean): Promise<boolean> {
+    const row = await scheduledJobRepository.findById(jobId);
+    if (!row) return false;
+
+    const nextRunAt = enabled ? getNextCronRun(row.cron, new Date()).getTime() : row.next_run_at;
+    const updated = await scheduledJobRepository.setEnabled(jobId, enabled, nextRunAt);
+    await this.armTimer();
+    return updated;
+  }
+
+  async list(): Promise<ScheduledJob[]> {
+    const rows = await scheduledJobRepository.findAll();
+    return rows.map(row => this.mapJob(row));
+  }
+
+  async getRuns(jobId: string, limit: number = 20): Promise<ScheduledJobRun[]> {
+    const rows = await scheduledJobRepository.findRuns(jobId, limit);
+    return rows.map(row => this.mapRun(row));
+  }
+
+  // ── Running ───────────────────────────────────────────────────────────
+
+  async runNow(jobId: string): Promise<ScheduledJobRun> {
+    const row = await scheduledJobRepository.findById(jobId);
+    if (!row) {
+      throw new Error('Scheduled job not found');
+    }
+    const run = await this.execute(this.mapJob(row), Date.now());
+    if (!run) {
+      throw new Error('This job is already running');
+    }
+    return run;
+  }
+
+  tick(now: number = Date.now()): Promise<void> {
+    if (!this.ticking) {
+      this.ticking = this.runDueJobs(now).finally(() => {
+        this.ticking = null;
+      });
+    }
+    return this.ticking;
+  }
+
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    this.appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+      if (state === 'active') {
+        this.tick().catch(err => {
+          this.logger.error({ message: 'Scheduled jobs failed on foreground' }, err instanceof Error ? err : new Error(String(err)));
+        });
+      } else {
+        this.clearTimer();
+      }
+    });
+
+    this.tick().catch(err => {
+      this.logger.error({ message: 'Initial scheduled job check failed' }, err instanceof Error ? err : new Error(String(err)));
+    });
+  }
+
+  stop(): void {
+    this.clearTimer();
+    if (this.appStateSubscription) {
+      this.appStateSubscription.remove();
+      this.appStateSubscription = null;
+    }
+    this.started = false;
+  }
+
+  // ── Internals ─────────────────────────────────────────────────────────
+
+  private async runDueJobs(now: number): Promise<void> {
+    const due = await scheduledJobRepository.findDue(now);
+
+    for (const row of due) {
+      const job = this.mapJob(row);
+
+      if (!this.runners.has(job.type)) {
+        this.logger.warn(`No runner registered for job type "${job.type}" — "${job.name}" stays due`);
+        continue;
+      }
+
+      if (now - job.nextRunAt > MISSED_RUN_GRACE_MS && job.missedRunPolicy === 'skip') {
+        await this.skip(job, now);
+        continue;
+      }
+
+      await this.execute(job, job.nextRunAt);
+    }
+
+    await this.armTimer();
+  }
+
+  private async execute(job: ScheduledJob, scheduledFor: number): Promise<ScheduledJobRun | null> {
+    const runner = this.runners.get(job.type);
+    if (!runner) {
+      throw new Error(`No runner registered for job type "${job.type}"`);
+    }
+    if (this.running.has(job.id)) {
+      this.logger.warn(`"${job.name}" is already running, skipping`);
+      return null;
+    }
+
+    this.running.add(job.id);
+    const startedAt = Date.now();
+    let status: JobRunStatus = 'completed';
+    let result: SyncOperationResult | undefined;
+    let error: string | undefined;
+
+    try {
+      this.logger.info(`Running scheduled job "${job.name}"`);
+      result = await runner(job);
+      if (result.failed > 0) {
+        status = 'failed';
+      }
+    } catch (err) {
+      status = 'failed';
+      error = err instanceof Error ? err.message : String(err);
+      this.logger.error({ message: `Scheduled job "${job.name}" failed` }, err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      this.running.delete(job.id);
+    }
+
+    const completedAt = Date.now();
+    const runId = await scheduledJobRepository.insertRun({
+      jobId: job.id,
+      scheduledFor,
+      startedAt,
+      completedAt,
+      status,
+      result: result ? JSON.stringify(result) : null,
+      error,
+    });
+    await scheduledJobRepository.pruneRuns(job.id, RUN_HISTORY_LIMIT);
+    await scheduledJobRepository.recordRunOutcome(job.id, status, completedAt, getNextCronRun(job.cron, new Date(completedAt)).getTime());
+
+    return { id: runId, jobId: job.id, scheduledFor, startedAt, completedAt, status, result, error };
+  }
+
+  private async skip(job: ScheduledJob, now: number): Promise<void> {
+    this.logger.info(`Skipping missed run of "${job.name}" scheduled for ${new Date(job.nextRunAt).toISOString()}`);
+
+    await scheduledJobRepository.insertRun({
+      jobId: job.id,
+      scheduledFor: job.nextRunAt,
+      startedAt: now,
+      completedAt: now,
+      status: 'skipped',
+    });
+    await scheduledJobRepository.pruneRuns(job.id, RUN_HISTORY_LIMIT);
+    await scheduledJobRepository.recordRunOutcome(
+      job.id,
+      'skipped',
+      job.lastRunAt ?? null,
+      getNextCronRun(job.cron, new Date(now)).getTime()
+    );
+  }
+
+  private async armTimer(): Promise<void> {
+    this.clearTimer();
+    if (!this.started) return;
+
+    const nextRunAt = await scheduledJobRepository.findNextRunAt();
+    const delay = nextRunAt === null ? MAX_TIMER_MS : Math.min(Math.max(nextRunAt - Date.now(), 1000), MAX_TIMER_MS);
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.tick().catch(err => {
+        this.logger.error({ message: 'Scheduled job check failed' }, err instanceof Error ? err : new Error(String(err)));
+      });
+    }, delay);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private mapJob(row: ScheduledJobRow): ScheduledJob {
+    return {
+      id: row.id,
+      type: row.type,
+      name: row.name,
+      cron: row.cron,
+      payload: row.payload ? JSON.parse(row.payload) : undefined,
+      missedRunPolicy: row.missed_run_policy,
+      enabled: row.enabled === 1,
+      nextRunAt: row.next_run_at,
+      lastRunAt: row.last_run_at ?? undefined,
+      lastStatus: row.last_status ?? undefined,
+    };
+  }
+
+  private mapRun(row: ScheduledJobRunRow): ScheduledJobRun {
+    let result: SyncOperationResult | undefined;
+    if (row.result) {
+      const parsed = JSON.parse(row.result) as SyncOperationResult;
+      result = { ...parsed, completedAt: new Date(parsed.completedAt) };
+    }
+
+    return {
+      id: row.id,
+      jobId: row.job_id,
+      scheduledFor: row.scheduled_for,
+      startedAt: row.started_at,
+      completedAt: row.completed_at,
+      status: row.status,
+      result,
+      error: row.error ?? undefined,
+    };
+  }
+}
+
+export const jobScheduler = JobScheduler.getInstance();
@@ -0,0 +1,90 @@
+import type { SyncOperationResult, SyncOptions } from '../sync/SyncServiceInterface';
+import type { JobRunStatus, MissedRunPolicy } from '../../repositories/ScheduledJobRepository';
+
+export type { JobRunStatus, MissedRunPolicy };
+
+/**
+ * A persisted cron schedule
+ */
+export interface ScheduledJob {
+  id: string;
+  /** Selects the registered runner */
+  type: string;
+  name: string;
+  /** 5-field cron expression, local time */
+  cron: string;
+  payload?: unknown;
+  /** What to do when the app was closed or suspended through a run time */
+  missedRunPolicy: MissedRunPolicy;
+  enabled: boolean;
+  nextRunAt: number;
+  lastRunAt?: number;
+  lastStatus?: JobRunStatus;
+}
+
+/**
+ * One execution (or skipped execution) of a scheduled job
+ */
+export interface ScheduledJobRun {
+  id: string;
+  jobId: string;
+  /** The run time the cron expression produced */
+  scheduledFor: number;
+  startedAt: number;
+  completedAt: number;
+  status: JobRunStatus;
+  result?: SyncOperationResult;
+  error?: string;
+}
+
+export interface ScheduleJobInput {
+  /** Fixed id for built-in jobs so they are created once */
+  id?: string;
+  type: string;
+  name: string;
+  cron: string;
+  payload?: unknown;
+  missedRunPolicy?: MissedRunPolicy;
+}
+
+/**
+ * Does the work of one job type. Throwing records the run as failed.
+ */
+export type JobRunner = (job: ScheduledJob) => Promise<SyncOperationResult>;
+
+export interface JobSchedulerInterface {
+  /** Register the runner for a job type */
+  registerRunner(type: string, runner: JobRunner): void;
+
+  /**
+   * Persist a new schedule
+   * @throws Error if the cron expression is invalid
+   */
+  schedule(input: ScheduleJobInput): Promise<string>;
+
+  /** Create a job with a fixed id unless it already exists */
+  ensureJob(input: ScheduleJobInput & { id: string }): Promise<ScheduledJob>;
+
+  /** Schedule a recurring sync on one platform, or every platform when omitted */
+  scheduleSync(options: SyncOptions, cron: string, platform?: string): Promise<string>;
+
+  /** Delete a schedule and its run history */
+  cancel(jobId: string): Promise<boolean>;
+
+  /** Pause or resume a schedule; resuming skips any run times missed while paused */
+  setEnabled(jobId: string, enabled: boolean): Promise<boolean>;
+
+  /** Run a job immediately, outside its schedule */
+  runNow(jobId: string): Promise<ScheduledJobRun>;
+
+  list(): Promise<ScheduledJob[]>;
+
+  getRuns(jobId: string, limit?: number): Promise<ScheduledJobRun[]>;
+
+  /** Run every due job */
+  tick(now?: number): Promise<void>;
+
+  start(): void;
+
+  stop(): void;
+}
@@ -3,32 +3,31 @@
  *
  * Expires old loyalty points based on the configured expiry period.
  *
- * Mobile apps are suspended by the OS when backgrounded — there is no cron,
- * and setInterval stops firing. This job therefore uses the AppState pattern:
- *   - start() subscribes to AppState changes
- *   - On every foreground transition, runIfDue() checks a persisted KV timestamp
- *   - If more than `minIntervalMs` has elapsed since the last run, it executes
+ * Runs as a JobScheduler job (`loyalty-expiry`, daily at 03:00 by default). The
+ * schedule is persisted, so a run missed while the app was closed is caught up on
+ * the next launch or foreground transition, and every run is recorded in the
+ * scheduler's history.
  *
  * Usage:
- *   loyaltyExpiryJob.start();   // called once at app startup (App.tsx)
- *   loyaltyExpiryJob.stop();    // called on logout / teardown
+ *   loyaltyExpiryJob.start();   // called once at app startup (App.tsx), before jobScheduler.start()
  *   await loyaltyExpiryJob.run(); // manual trigger from Settings screen
  */
 
-import { AppState, AppStateStatus } from 'react-native';
 import { loyaltyService } from '../loyalty/LoyaltyService';
 import { LoggerFactory } from '../logger/LoggerFactory';
 import { notificationService } from '../notifications/NotificationService';
-import { KeyValueRepository } from '../../repositories/KeyValueRepository';
+import { jobScheduler } from './JobScheduler';
+import { SyncEntityType, SyncOperationResult } from '../sync/SyncServiceInterface';
 
-const LAST_RUN_KEY = 'loyalty:lastExpiryRun';
-const DEFAULT_INTERVAL_MS = 24 * 60 * 60 * 1000; // 24 hours
+export const LOYALTY_EXPIRY_JOB_TYPE = 'loyalty:expiry';
+const LOYALTY_EXPIRY_JOB_ID = 'loyalty-expiry';
+const DEFAULT_SCHEDULE = '0 3 * * *'; // daily at 03:00
+
+type ExpiryResult = { customersProcessed: number; pointsExpired: number };
 
 export class LoyaltyExpiryJob {
   private static instance: LoyaltyExpiryJob;
   private logger = LoggerFactory.getInstance().createLogger('LoyaltyExpiryJob');
-  private kv = new KeyValueRepository();
-  private appStateSubscription: { remove(): void } | null = null;
   private executing = false;
   private started = false;
 
@@ -42,54 +41,66 @@ export class LoyaltyExpiryJob {
   }
 
   /**
-   * Start listening for app-foreground events.
-   * Checks whether the job is due on every foreground transition.
-   * Call once at app startup.
+   * Register with the JobScheduler and create the schedule on first launch.
+   * An existing schedule (and any change made to it) is kept.
    *
-   * @param minIntervalMs Minimum time between runs (default: 24 hours)
+   * @param schedule Cron expression for a newly created schedule (default: daily at 03:00)
    */
-  start(minIntervalMs: number = DEFAULT_INTERVAL_MS): void {
+  start(schedule: string = DEFAULT_SCHEDULE): void {
     if (this.started) return;
     this.started = true;
 
-    this.appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
-      if (state === 'active') {
-        this.runIfDue(minIntervalMs).catch(err => {
-          this.logger.error({ message: 'runIfDue failed on foreground' }, err instanceof Error ? err : new Error(String(err)));
-        });
-      }
-    });
-
-    this.runIfDue(minIntervalMs).catch(err => {
-      this.logger.error({ message: 'Initial runIfDue failed' }, err instanceof Error ? err : new Error(String(err)));
-    });
+    jobScheduler.registerRunner(LOYALTY_EXPIRY_JOB_TYPE, () => this.runScheduled());
+    jobScheduler
+      .ensureJob({
+        id: LOYALTY_EXPIRY_JOB_ID,
+        type: LOYALTY_EXPIRY_JOB_TYPE,
+        name: 'Loyalty points expiry',
+        cron: schedule,
+        missedRunPolicy: 'catch_up',
+      })
+      .catch(err => {
+        this.logger.error({ message: 'Failed to schedule loyalty expiry job' }, err instanceof Error ? err : new Error(String(err)));
+      });
   }
 
   /**
-   * Stop listening for foreground events.
+   * Run unconditionally. Safe to call multiple times — skips if already executing.
    */
-  stop(): void {
-    if (this.appStateSubscription) {
-      this.appStateSubscription.remove();
-      this.appStateSubscription = null;
+  async run(): Promise<ExpiryResult> {
+    try {
+      return await this.execute();
+    } catch {
+      return { customersProcessed: 0, pointsExpired: 0 };
     }
-    this.started = false;
   }
 
-  /**
-   * Run only if the minimum interval has elapsed since the last successful run.
-   */
-  async runIfDue(minIntervalMs: number = DEFAULT_INTERVAL_MS): Promise<void> {
-    const raw = await this.kv.getItem(LAST_RUN_KEY);
-    const lastRun = raw ? parseInt(raw, 10) : 0;
-    if (Date.now() - lastRun < minIntervalMs) return;
-    await this.run();
+  getStatus(): { executing: boolean; started: boolean } {
+    return { executing: this.executing, started: this.started };
   }
 
+  // ── Internals ─────────────────────────────────────────────────────────
+
   /**
-   * Run unconditionally. Safe to call multiple times — skips if already executing.
+   * JobScheduler runner — reports the run as a SyncOperationResult so it shows
+   * in the scheduler history alongside platform syncs.
    */
-  async run(): Promise<{ customersProcessed: number; pointsExpired: number }> {
+  private async runScheduled(): Promise<SyncOperationResult> {
+    const startedAt = Date.now();
+    const result = await this.execute();
+    return {
+      entityType: SyncEntityType.CUSTOMER,
+      successful: result.customersProcessed,
+      failed: 0,
+      skipped: 0,
+      errors: [],
+      warnings: result.pointsExpired > 0 ? [`${result.pointsExpired} points expired`] : [],
+      completedAt: new Date(),
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
+  private async execute(): Promise<ExpiryResult> {
     if (this.executing) {
       this.logger.warn('Loyalty expiry job already executing, skipping');
       return { customersProcessed: 0, pointsExpired: 0 };
@@ -101,8 +112,6 @@ export class LoyaltyExpiryJob {
     try {
       const result = await loyaltyService.expireOldPoints();
 
-      await this.kv.setItem(LAST_RUN_KEY, Date.now().toString());
-
       if (result.customersProcessed > 0) {
         this.logger.info(`Loyalty expiry completed: ${result.customersProcessed} customers, ${result.pointsExpired} points expired`);
         if (result.pointsExpired > 100) {
@@ -120,15 +129,11 @@ export class LoyaltyExpiryJob {
     } catch (err) {
       this.logger.error({ message: 'Loyalty expiry job failed' }, err instanceof Error ? err : new Error(String(err)));
       notificationService.notify('Loyalty Expiry Failed', 'Failed to expire loyalty points. Check logs for details.', 'error');
-      return { customersProcessed: 0, pointsExpired: 0 };
+      throw err;
     } finally {
       this.executing = false;
     }
   }
-
-  getStatus(): { executing: boolean; started: boolean } {
-    return { executing: this.executing, started: this.started };
-  }
 }
 
 export const loyaltyExpiryJob = LoyaltyExpiryJob.getInstance();
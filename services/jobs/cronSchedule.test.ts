@@ -0,0 +1,49 @@
+import { getNextCronRun, isValidCron, parseCron } from './cronSchedule';
+
+// Local-time dates keep these tests independent of the machine's timezone
+const at = (year: number, month: number, day: number, hour = 0, minute = 0) => new Date(year, month - 1, day, hour, minute);
+
+describe('parseCron', () => {
+  it('expands steps, ranges, lists and names', () => {
+    const cron = parseCron('*/15 9-17 1,15 JAN-MAR mon-fri');
+
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect(cron.hours.size).toBe(9);
+    expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    expect([...cron.months]).toEqual([1, 2, 3]);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('treats weekday 7 as Sunday', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(isValidCron('0 0 * *')).toBe(false);
+    expect(isValidCron('60 * * * *')).toBe(false);
+    expect(isValidCron('*/0 * * * *')).toBe(false);
+    expect(isValidCron('5-1 * * * *')).toBe(false);
+    expect(isValidCron('0 0 * * FOO')).toBe(false);
+    expect(isValidCron('0 3 * * *')).toBe(true);
+  });
+});
+
+describe('getNextCronRun', () => {
+  it('finds the next minute strictly after the given time', () => {
+    expect(getNextCronRun('0 3 * * *', at(2026, 10, 19, 2, 59))).toEqual(at(2026, 10, 19, 3, 0));
+    expect(getNextCronRun('0 3 * * *', at(2026, 10, 19, 3, 0))).toEqual(at(2026, 10, 20, 3, 0));
+  });
+
+  it('rolls over months and years', () => {
+    expect(getNextCronRun('30 6 1 * *', at(2026, 12, 15))).toEqual(at(2027, 1, 1, 6, 30));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // 2026-10-19 is a Monday: next is Friday 23rd, before the 1st of November
+    expect(getNextCronRun('0 9 1 * FRI', at(2026, 10, 19, 12))).toEqual(at(2026, 10, 23, 9, 0));
+  });
+
+  it('throws for a schedule that never fires', () => {
+    expect(() => getNextCronRun('0 0 30 2 *', at(2026, 1, 1))).toThrow('has no run time');
+  });
+});
@@ -0,0 +1,134 @@
+import { KdsServiceInterface, KdsOrder, KdsConnectionConfig, KdsDriverType, KdsStatusUpdate } from './KdsServiceInterface';
+import { LoggerFactory } from '../logger/LoggerFactory';
+import { getElectronAPI } from '../../utils/electron';
+
+/**
+ * Electron second-window KDS service.
+ * Shows tickets in a kitchen display window built into the desktop app
+ * (electron/kds/), typically full-screen on a second monitor. Tickets, bumps
+ * and recalls travel over IPC through the main process, which keeps the
+ * ticket list so the window can be closed and reopened without losing orders.
+ *
+ * Only available in the Electron desktop app; connect() fails elsewhere.
+ */
+export class ElectronKdsService implements KdsServiceInterface {
+  readonly driverType: KdsDriverType = 'electron';
+  private logger = LoggerFactory.getInstance().createLogger('ElectronKdsService');
+  private config: KdsConnectionConfig | null = null;
+  private connected = false;
+  private statusHandlers = new Map<string, (update: KdsStatusUpdate) => void>();
+  private handlerSeq = 0;
+  private unsubscribe: (() => void) | null = null;
+
+  async connect(config: KdsConnectionConfig): Promise<boolean> {
+    const api = getElectronAPI();
+    if (!api) {
+      this.logger.warn('ElectronAPI not available — the KDS window requires the desktop app');
+      return false;
+    }
+
+    try {
+      this.config = config;
+      this.unsubscribe?.();
+      this.unsubscribe = api.onKdsStatusUpdate(update => this.dispatch(update));
+      this.connected = await api.kdsWindowOpen();
+      if (this.connected) this.logger.info('KDS window opened');
+      return this.connected;
+    } catch (error) {
+      this.logger.error({ message: 'Failed to open KDS window' }, error instanceof Error ? error : new Error(String(error)));
+      this.connected = false;
+      return false;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.config = null;
+    if (!this.connected) return;
+    this.connected = false;
+    try {
+      await getElectronAPI()?.kdsWindowClose();
+      this.logger.info('KDS window closed');
+    } catch {
+      // Window already gone
+    }
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  async sendOrder(order: KdsOrder): Promise<boolean> {
+    const api = getElectronAPI();
+    if (!api || !this.config) return false;
+    try {
+      await this.ensureWindow();
+      const shown = await api.kdsSendOrder(order);
+      if (!shown) {
+        this.logger.warn({ message: `KDS window is closed; order ${order.orderId} will show when it reopens` });
+      }
+      return shown;
+    } catch (error) {
+      this.logger.error(
+        { message: `Failed to send order ${order.orderId} to KDS window` },
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return false;
+    }
+  }
+
+  async recallOrder(orderId: string): Promise<boolean> {
+    const api = getElectronAPI();
+    if (!api || !this.config) return false;
+    try {
+      await this.ensureWindow();
+      return await api.kdsRecallOrder(orderId);
+    } catch {
+      return false;
+    }
+  }
+
+  async cancelOrder(orderId: string): Promise<boolean> {
+    const api = getElectronAPI();
+    if (!api || !this.config) return false;
+    try {
+      return await api.kdsCancelOrder(orderId);
+    } catch {
+      return false;
+    }
+  }
+
+  onStatusUpdate(callback: (update: KdsStatusUpdate) => void): string {
+    const id = `kds-handler-${Date.now()}-${++this.handlerSeq}`;
+    this.statusHandlers.set(id, callback);
+    return id;
+  }
+
+  offStatusUpdate(subscriptionId: string): void {
+    this.statusHandlers.delete(subscriptionId);
+  }
+
+  /** Reopen the window if staff closed it and auto-reconnect is on */
+  private async ensureWindow(): Promise<void> {
+    const api = getElectronAPI();
+    if (!api) return;
+    const open = await api.kdsWindowIsOpen();
+    if (!open && this.config?.autoReconnect) {
+      this.logger.info('Reopening closed KDS window');
+      this.connected = await api.kdsWindowOpen();
+    } else {
+      this.connected = open;
+    }
+  }
+
+  private dispatch(update: KdsStatusUpdate): void {
+    this.statusHandlers.forEach(handler => {
+      try {
+        handler(update);
+      } catch {
+        /* swallow */
+      }
+    });
+  }
+}
@@ -1,6 +1,8 @@
 import { KdsServiceInterface, KdsConnectionConfig } from './KdsServiceInterface';
 import { NoOpKdsService } from './NoOpKdsService';
 import { HttpKdsService } from './HttpKdsService';
+import { WebSocketKdsService } from './WebSocketKdsService';
+import { ElectronKdsService } from './ElectronKdsService';
 import { LoggerFactory } from '../logger/LoggerFactory';
 import { keyValueRepository } from '../../repositories/KeyValueRepository';
 import { KdsVendorType, KDS_VENDOR_PRESETS } from './KdsVendorPresets';
@@ -121,6 +123,12 @@ export class KdsServiceFactory {
       case 'http':
         this.currentService = new HttpKdsService();
         break;
+      case 'websocket':
+        this.currentService = new WebSocketKdsService();
+        break;
+      case 'electron':
+        this.currentService = new ElectronKdsService();
+        break;
       default:
         this.logger.warn({ message: `KDS type '${settings.type}' not yet implemented, using no-op` });
         this.currentService = new NoOpKdsService();
@@ -129,7 +137,8 @@ export class KdsServiceFactory {
 
     const connected = await this.currentService.connect(config);
     if (!connected) {
-      this.logger.warn({ message: `Failed to connect to KDS at ${settings.endpoint}` });
+      const message = settings.type === 'electron' ? 'Failed to open the KDS window' : `Failed to connect to KDS at ${settings.endpoint}`;
+      this.logger.warn({ message });
     }
     return connected;
   }
@@ -8,8 +8,12 @@ export interface KdsEndpoints {
   recallOrder: string;
   cancelOrder: string;
   getUpdates: string;
+  /** WebSocket path for real-time tickets and status (WebSocketKdsService); defaults to DEFAULT_WEBSOCKET_PATH */
+  websocket?: string;
 }
 
+export const DEFAULT_WEBSOCKET_PATH = '/api/kds/ws';
+
 export interface KdsVendorPreset {
   name: string;
   endpoints: KdsEndpoints;
@@ -32,10 +36,11 @@ export const KDS_VENDOR_PRESETS: Record<string, KdsVendorPreset> = {
       recallOrder: '/api/kds/orders/{orderId}/recall',
       cancelOrder: '/api/kds/orders/{orderId}',
       getUpdates: '/api/kds/updates?since={timestamp}',
+      websocket: '/api/kds/ws',
     },
     requiresApiKey: false,
     supportsPolling: true,
-    supportsWebSocket: false,
+    supportsWebSocket: true,
     defaultPollIntervalMs: 3000,
     description: 'Generic REST API compatible with custom KDS implementations',
   },
@@ -112,6 +117,7 @@ export const KDS_VENDOR_PRESETS: Record<string, KdsVendorPreset> = {
       recallOrder: '/api/v1/tickets/{orderId}/recall',
       cancelOrder: '/api/v1/tickets/{orderId}',
       getUpdates: '/api/v1/tickets/updates?after={timestamp}',
+      websocket: '/api/v1/ws',
     },
     requiresApiKey: false,
     supportsPolling: true,
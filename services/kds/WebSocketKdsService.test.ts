@@ -0,0 +1,185 @@
+jest.mock('../logger/LoggerFactory', () => ({
+  LoggerFactory: {
+    getInstance: () => ({
+      createLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }),
+    }),
+  },
+}));
+
+import { WebSocketKdsService, buildSocketUrl } from './WebSocketKdsService';
+import { KDS_VENDOR_PRESETS } from './KdsVendorPresets';
+import { KdsConnectionConfig, KdsStatusUpdate } from './KdsServiceInterface';
+
+/** Minimal stand-in for the browser / React Native WebSocket */
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  sent: Record<string, unknown>[] = [];
+  closed = false;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  // ── Test helpers: act as the KDS server ──
+  receive(message: Record<string, unknown>) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  ackLast(ok = true) {
+    this.receive({ type: 'ack', id: this.sent[this.sent.length - 1].id, ok });
+  }
+
+  drop() {
+    this.onclose?.();
+  }
+}
+
+const config: KdsConnectionConfig = {
+  endpoint: 'http://192.168.1.50:8080',
+  apiKey: 'secret',
+  autoReconnect: true,
+  vendorPreset: KDS_VENDOR_PRESETS.custom,
+};
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+async function connect(service: WebSocketKdsService, overrides: Partial<KdsConnectionConfig> = {}): Promise<FakeWebSocket> {
+  const connecting = service.connect({ ...config, ...overrides });
+  await flush();
+  const socket = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+  socket.onopen?.();
+  socket.ackLast();
+  await expect(connecting).resolves.toBe(true);
+  return socket;
+}
+
+describe('WebSocketKdsService', () => {
+  let service: WebSocketKdsService;
+
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    globalThis.WebSocket = FakeWebSocket as unknown as typeof WebSocket;
+    service = new WebSocketKdsService();
+  });
+
+  afterEach(async () => {
+    await service.disconnect();
+    jest.useRealTimers();
+  });
+
+  it('derives the socket URL from the endpoint and vendor preset', () => {
+    expect(buildSocketUrl(config)).toBe('ws://192.168.1.50:8080/api/kds/ws');
+    expect(buildSocketUrl({ endpoint: 'https://kds.example.com/', vendorPreset: KDS_VENDOR_PRESETS.fresh_kds })).toBe(
+      'wss://kds.example.com/api/v1/ws'
+    );
+    expect(() => buildSocketUrl({ endpoint: '192.168.1.50' })).toThrow();
+  });
+
+  it('authenticates with a hello message before reporting connected', async () => {
+    const socket = await connect(service);
+
+    expect(socket.sent[0]).toMatchObject({ type: 'hello', apiKey: 'secret' });
+    expect(service.isConnected()).toBe(true);
+  });
+
+  it('fails to connect when the KDS rejects the hello', async () => {
+    const connecting = service.connect({ ...config, autoReconnect: false });
+    await flush();
+    const socket = FakeWebSocket.instances[0];
+    socket.onopen?.();
+    socket.ackLast(false);
+
+    await expect(connecting).resolves.toBe(false);
+    expect(socket.closed).toBe(true);
+  });
+
+  it('refuses vendors without WebSocket support', async () => {
+    await expect(service.connect({ ...config, vendorPreset: KDS_VENDOR_PRESETS.toast })).resolves.toBe(false);
+    expect(FakeWebSocket.instances).toHaveLength(0);
+  });
+
+  it('pushes tickets and resolves with the KDS acknowledgement', async () => {
+    const socket = await connect(service);
+    const order = { orderId: 'order-1234', orderRef: '1234', items: [{ id: 'p1', name: 'Latte', quantity: 2 }], placedAt: 1 };
+
+    const sending = service.sendOrder(order);
+    expect(socket.sent[1]).toMatchObject({ type: 'order', order });
+    socket.ackLast();
+    await expect(sending).resolves.toBe(true);
+
+    const recalling = service.recallOrder('order-1234');
+    expect(socket.sent[2]).toMatchObject({ type: 'recall', orderId: 'order-1234' });
+    socket.ackLast(false);
+    await expect(recalling).resolves.toBe(false);
+  });
+
+  it('returns false when not connected', async () => {
+    await expect(service.cancelOrder('order-1')).resolves.toBe(false);
+  });
+
+  it('delivers bump and recall status to subscribers', async () => {
+    const socket = await connect(service);
+    const updates: KdsStatusUpdate[] = [];
+    const id = service.onStatusUpdate(update => updates.push(update));
+    service.onStatusUpdate(() => {
+      throw new Error('handler failure');
+    });
+
+    socket.receive({ type: 'status', orderId: 'order-1', status: 'ready', updatedAt: 42 });
+    socket.receive({ type: 'status', orderId: 'order-1', status: 'bogus', updatedAt: 43 });
+    service.offStatusUpdate(id);
+    socket.receive({ type: 'status', orderId: 'order-1', status: 'recalled', updatedAt: 44 });
+
+    expect(updates).toEqual([{ orderId: 'order-1', status: 'ready', updatedAt: 42 }]);
+  });
+
+  it('answers pings', async () => {
+    const socket = await connect(service);
+    socket.receive({ type: 'ping' });
+    expect(socket.sent[socket.sent.length - 1]).toEqual({ type: 'pong' });
+  });
+
+  it('fails in-flight messages and reconnects with backoff when the socket drops', async () => {
+    const socket = await connect(service);
+    jest.useFakeTimers();
+
+    const sending = service.sendOrder({ orderId: 'order-1', orderRef: '0001', items: [], placedAt: 1 });
+    socket.drop();
+    await expect(sending).resolves.toBe(false);
+    expect(service.isConnected()).toBe(false);
+
+    jest.advanceTimersByTime(999);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    jest.advanceTimersByTime(1);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+
+    const retry = FakeWebSocket.instances[1];
+    retry.onopen?.();
+    retry.ackLast();
+    jest.useRealTimers();
+    await flush();
+    expect(service.isConnected()).toBe(true);
+  });
+
+  it('does not reconnect after disconnect()', async () => {
+    const socket = await connect(service);
+    jest.useFakeTimers();
+
+    await service.disconnect();
+    expect(socket.closed).toBe(true);
+    jest.advanceTimersByTime(60000);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+  });
+});
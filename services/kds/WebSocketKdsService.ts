@@ -0,0 +1,310 @@
+import { KdsServiceInterface, KdsOrder, KdsConnectionConfig, KdsDriverType, KdsStatusUpdate, KdsOrderStatus } from './KdsServiceInterface';
+import { LoggerFactory } from '../logger/LoggerFactory';
+import { DEFAULT_WEBSOCKET_PATH, formatEndpoint } from './KdsVendorPresets';
+
+/** How long to wait for the socket to open and for the KDS to acknowledge a message */
+const CONNECT_TIMEOUT_MS = 10000;
+const ACK_TIMEOUT_MS = 5000;
+/** Reconnect backoff: 1s, 2s, 4s … capped at 30s */
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+const STATUSES: KdsOrderStatus[] = ['received', 'preparing', 'ready', 'recalled'];
+
+/**
+ * Messages exchanged with the KDS, one JSON object per WebSocket frame.
+ *
+ * POS → KDS: `hello` (first frame, carries the API key), `order`, `recall`, `cancel`;
+ * each carries an `id` that the KDS echoes in an `ack`.
+ * KDS → POS: `ack`, `status` (kitchen started, bumped or recalled a ticket), `ping`.
+ */
+type OutgoingMessage =
+  | { type: 'hello'; id: string; apiKey?: string; merchantId?: string }
+  | { type: 'order'; id: string; order: KdsOrder }
+  | { type: 'recall' | 'cancel'; id: string; orderId: string }
+  | { type: 'pong' };
+
+type IncomingMessage = { type: 'ack'; id: string; ok: boolean; error?: string } | ({ type: 'status' } & KdsStatusUpdate) | { type: 'ping' };
+
+interface PendingAck {
+  resolve: (ok: boolean) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * WebSocket-based KDS service.
+ * Pushes order tickets to the kitchen the moment they are dispatched and
+ * receives bump / recall status back on the same socket, without polling.
+ *
+ * The socket URL is the endpoint with its scheme switched to ws/wss plus the
+ * vendor's `websocket` path. When `autoReconnect` is set, a dropped socket is
+ * reopened with exponential backoff.
+ */
+export class WebSocketKdsService implements KdsServiceInterface {
+  readonly driverType: KdsDriverType = 'websocket';
+  private logger = LoggerFactory.getInstance().createLogger('WebSocketKdsService');
+  private config: KdsConnectionConfig | null = null;
+  private socket: WebSocket | null = null;
+  private connected = false;
+  private statusHandlers = new Map<string, (update: KdsStatusUpdate) => void>();
+  private pendingAcks = new Map<string, PendingAck>();
+  private messageSeq = 0;
+  private handlerSeq = 0;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  async connect(config: KdsConnectionConfig): Promise<boolean> {
+    await this.disconnect();
+    this.config = config;
+
+    if (!config.endpoint) {
+      this.logger.error('No endpoint configured for WebSocket KDS');
+      return false;
+    }
+    if (config.vendorPreset && !config.vendorPreset.supportsWebSocket) {
+      this.logger.error(`${config.vendorPreset.name} does not support WebSocket connections`);
+      return false;
+    }
+
+    return this.open();
+  }
+
+  async disconnect(): Promise<void> {
+    const wasOpen = this.socket !== null;
+    this.config = null;
+    this.clearReconnect();
+    this.closeSocket();
+    if (wasOpen) this.logger.info('Disconnected from KDS');
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  sendOrder(order: KdsOrder): Promise<boolean> {
+    return this.request({ type: 'order', id: this.nextId(), order }, `order ${order.orderId}`);
+  }
+
+  recallOrder(orderId: string): Promise<boolean> {
+    return this.request({ type: 'recall', id: this.nextId(), orderId }, `recall of ${orderId}`);
+  }
+
+  cancelOrder(orderId: string): Promise<boolean> {
+    return this.request({ type: 'cancel', id: this.nextId(), orderId }, `cancel of ${orderId}`);
+  }
+
+  onStatusUpdate(callback: (update: KdsStatusUpdate) => void): string {
+    const id = `kds-handler-${Date.now()}-${++this.handlerSeq}`;
+    this.statusHandlers.set(id, callback);
+    return id;
+  }
+
+  offStatusUpdate(subscriptionId: string): void {
+    this.statusHandlers.delete(subscriptionId);
+  }
+
+  // ── Socket lifecycle ─────────────────────────────────────────────────
+
+  /** Open the socket and authenticate; resolves once the KDS acknowledges the hello */
+  private open(): Promise<boolean> {
+    const config = this.config;
+    if (!config?.endpoint) return Promise.resolve(false);
+
+    let url: string;
+    try {
+      url = buildSocketUrl(config);
+    } catch {
+      this.logger.error(`Invalid KDS endpoint: ${config.endpoint}`);
+      return Promise.resolve(false);
+    }
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(url);
+    } catch (error) {
+      this.logger.error({ message: `Failed to open KDS socket ${url}` }, error instanceof Error ? error : new Error(String(error)));
+      return Promise.resolve(false);
+    }
+    this.socket = socket;
+
+    return new Promise(resolve => {
+      let settled = false;
+      const settle = (ok: boolean) => {
+        if (!settled) {
+          settled = true;
+          clearTimeout(timeout);
+          resolve(ok);
+        }
+      };
+
+      const timeout = setTimeout(() => {
+        if (this.connected) return;
+        this.logger.warn({ message: `Timed out connecting to KDS at ${url}` });
+        settle(false);
+        socket.close();
+      }, CONNECT_TIMEOUT_MS);
+
+      socket.onopen = () => {
+        this.sendHello(socket).then(ok => {
+          if (this.socket !== socket) return settle(false);
+          if (!ok) {
+            this.logger.warn({ message: `KDS at ${url} rejected the connection` });
+            socket.close();
+            return settle(false);
+          }
+          this.connected = true;
+          this.reconnectAttempts = 0;
+          this.logger.info(`Connected to KDS at ${url}`);
+          settle(true);
+        });
+      };
+
+      socket.onmessage = event => this.handleMessage(event.data);
+
+      socket.onerror = () => {
+        if (!this.connected) settle(false);
+      };
+
+      socket.onclose = () => {
+        if (this.socket !== socket) return;
+        const wasConnected = this.connected;
+        this.socket = null;
+        this.connected = false;
+        this.failPendingAcks();
+        settle(false);
+        if (wasConnected) this.logger.warn({ message: 'KDS connection closed' });
+        this.scheduleReconnect();
+      };
+    });
+  }
+
+  private sendHello(socket: WebSocket): Promise<boolean> {
+    const id = this.nextId();
+    const ack = this.awaitAck(id);
+    const hello: OutgoingMessage = { type: 'hello', id, apiKey: this.config?.apiKey || undefined, merchantId: this.config?.merchantId };
+    socket.send(JSON.stringify(hello));
+    return ack;
+  }
+
+  private closeSocket(): void {
+    const socket = this.socket;
+    this.socket = null;
+    this.connected = false;
+    this.failPendingAcks();
+    if (socket) {
+      socket.onopen = null;
+      socket.onmessage = null;
+      socket.onerror = null;
+      socket.onclose = null;
+      socket.close();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.config?.autoReconnect || this.reconnectTimer) return;
+    const delay = Math.min(RECONNECT_BASE_MS * 2 ** this.reconnectAttempts, RECONNECT_MAX_MS);
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open().catch(() => undefined);
+    }, delay);
+  }
+
+  private clearReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempts = 0;
+  }
+
+  // ── Messaging ────────────────────────────────────────────────────────
+
+  private async request(message: OutgoingMessage & { id: string }, description: string): Promise<boolean> {
+    if (!this.socket || !this.connected) return false;
+    try {
+      const ack = this.awaitAck(message.id);
+      this.send(message);
+      const ok = await ack;
+      if (!ok) this.logger.warn({ message: `KDS did not accept ${description}` });
+      return ok;
+    } catch (error) {
+      this.logger.error({ message: `Failed to send ${description} to KDS` }, error instanceof Error ? error : new Error(String(error)));
+      return false;
+    }
+  }
+
+  private send(message: OutgoingMessage): void {
+    this.socket?.send(JSON.stringify(message));
+  }
+
+  private awaitAck(id: string): Promise<boolean> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.pendingAcks.delete(id);
+        resolve(false);
+      }, ACK_TIMEOUT_MS);
+      this.pendingAcks.set(id, { resolve, timer });
+    });
+  }
+
+  private failPendingAcks(): void {
+    this.pendingAcks.forEach(({ resolve, timer }) => {
+      clearTimeout(timer);
+      resolve(false);
+    });
+    this.pendingAcks.clear();
+  }
+
+  private handleMessage(data: unknown): void {
+    let message: IncomingMessage;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      this.logger.warn({ message: 'Ignoring malformed KDS message' });
+      return;
+    }
+
+    switch (message.type) {
+      case 'ack': {
+        const pending = this.pendingAcks.get(message.id);
+        if (pending) {
+          clearTimeout(pending.timer);
+          this.pendingAcks.delete(message.id);
+          pending.resolve(message.ok !== false);
+        }
+        break;
+      }
+      case 'status': {
+        if (!message.orderId || !STATUSES.includes(message.status)) return;
+        const update: KdsStatusUpdate = { orderId: message.orderId, status: message.status, updatedAt: message.updatedAt ?? Date.now() };
+        this.statusHandlers.forEach(handler => {
+          try {
+            handler(update);
+          } catch {
+            /* swallow */
+          }
+        });
+        break;
+      }
+      case 'ping':
+        this.send({ type: 'pong' });
+        break;
+    }
+  }
+
+  private nextId(): string {
+    return `kds-${Date.now()}-${++this.messageSeq}`;
+  }
+}
+
+/** ws(s):// URL for the configured endpoint and vendor socket path */
+export function buildSocketUrl(config: KdsConnectionConfig): string {
+  const endpoint = (config.endpoint ?? '').trim().replace(/\/+$/, '');
+  const match = /^(https?|wss?):\/\/(.+)$/i.exec(endpoint);
+  if (!match) throw new Error(`Unsupported KDS endpoint ${endpoint}`);
+
+  const scheme = match[1].toLowerCase() === 'https' || match[1].toLowerCase() === 'wss' ? 'wss' : 'ws';
+  const path = formatEndpoint(config.vendorPreset?.endpoints.websocket ?? DEFAULT_WEBSOCKET_PATH, { merchantId: config.merchantId });
+  return `${scheme}://${match[2]}${path}`;
+}
@@ -21,6 +21,13 @@ export interface Order {
   fulfillmentStatus?: 'unfulfilled' | 'partially_fulfilled' | 'fulfilled';
   note?: string;
   tags?: string[];
+  /**
+   * Stable key of the sale this order is created from (the local order ID).
+   * createOrder() sends it as an idempotency header where the platform honours
+   * one and stores it on the platform order, so a create whose response was
+   * lost can be found again with findOrdersByReference().
+   */
+  idempotencyKey?: string;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -111,6 +118,13 @@ export interface OrderServiceInterface {
    */
   createOrder(order: Order): Promise<Order>;
 
+  /**
+   * Find the platform orders created with an idempotency key, oldest first.
+   * `since` bounds the search: no such order is older than the first attempt
+   * to create it. Platforms that cannot search by the key return [].
+   */
+  findOrdersByReference(idempotencyKey: string, since: Date): Promise<Order[]>;
+
   /**
    * Get an existing order by ID
    */
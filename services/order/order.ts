@@ -1,5 +1,5 @@
 import { ECommercePlatform } from '../../utils/platforms';
-import { BasketItem } from '../basket/basket';
+import { BasketAdjustment, BasketItem } from '../basket/basket';
 
 export type PaymentMethod = 'cash' | 'card' | 'card_terminal' | 'store_credit' | 'loyalty' | 'gift_card' | 'other';
 
@@ -12,6 +12,8 @@ export interface PaymentLine {
   last4?: string;
   processedAt: number; // Unix ms
   note?: string;
+  tipAmount?: number; // part of `amount` that is a tip rather than payment for the order
+  signature?: string; // SVG path data signed on the customer display (manual card payments)
 }
 
 /**
@@ -39,21 +41,32 @@ export interface LocalOrder {
   total: number;
   discountAmount?: number;
   discountCode?: string;
+  /** Basket-level adjustments (codes, manual, loyalty, store credit); line discounts live on the items */
+  adjustments?: BasketAdjustment[];
   customerId?: string;
   customerEmail?: string;
   customerName?: string;
+  /** Digital receipt contact entered on the customer display */
+  receiptEmail?: string;
+  receiptPhone?: string;
   giftCardCode?: string;
   giftCardAmount?: number;
   note?: string;
   paymentMethod?: string;
   paymentTransactionId?: string;
-  /** Multi-tender payment lines. Populated for split-tender orders. */
+  /** Multi-tender payment lines. Populated for split-tender and tipped orders. */
   payments?: PaymentLine[];
+  /** Gratuity paid on top of `total`; not sales revenue */
+  tipAmount?: number;
   cashierId?: string;
   cashierName?: string;
   status: LocalOrderStatus;
   syncStatus: 'pending' | 'synced' | 'failed';
   syncError?: string;
+  /** First time a create was sent to the platform; retries search for it from here */
+  syncAttemptedAt?: Date;
+  /** Extra platform orders found for this sale, until a manager resolves them */
+  duplicatePlatformOrderIds?: string[];
   registerId?: string;
   createdAt: Date;
   updatedAt: Date;
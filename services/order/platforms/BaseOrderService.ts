@@ -60,6 +60,14 @@ export abstract class BaseOrderService implements PlatformOrderServiceInterface
     });
   }
 
+  // ── Sync reconciliation ───────────────────────────────────────────────
+  // Platforms override this where orders can carry and be searched by our key.
+  // Default: nothing found, so a retried create relies on the key alone.
+
+  async findOrdersByReference(_idempotencyKey: string, _since: Date): Promise<Order[]> {
+    return [];
+  }
+
   // ── Shared mapping helpers ────────────────────────────────────────────
 
   protected getAuthHeaders(): Record<string, string> {
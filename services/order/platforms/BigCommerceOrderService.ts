@@ -84,6 +84,34 @@ export class BigCommerceOrderService extends BaseOrderService {
     }
   }
 
+  /**
+   * Find orders created with our idempotency key, stored as `external_id`.
+   * BigCommerce has no idempotency header, so this lookup is what prevents duplicates.
+   * The orders API cannot filter on `external_id`, so every page created since `since` is read.
+   */
+  async findOrdersByReference(idempotencyKey: string, since: Date): Promise<Order[]> {
+    if (!this.isInitialized()) {
+      throw new Error('BigCommerce order service not initialized');
+    }
+
+    const limit = 250;
+    const orders: any[] = [];
+    for (let page = 1; ; page++) {
+      const data = await this.apiClient.get<any>('orders', {
+        min_date_created: since.toISOString(),
+        sort: 'date_created:asc',
+        limit: String(limit),
+        page: String(page),
+      });
+      // A page past the end is a 204, which the client returns as {}
+      const batch = Array.isArray(data) ? data : [];
+      orders.push(...batch);
+      if (batch.length < limit) break;
+    }
+
+    return orders.filter(o => o.external_id === idempotencyKey).map(o => this.mapToOrder(o));
+  }
+
   /**
    * Get an order by ID from BigCommerce
    */
@@ -200,6 +228,7 @@ export class BigCommerceOrderService extends BaseOrderService {
       products,
       customer_message: order.note || '',
       staff_notes: '',
+      external_id: order.idempotencyKey,
       subtotal_ex_tax: order.subtotal - order.tax,
       subtotal_inc_tax: order.subtotal,
       total_tax: order.tax,
@@ -355,6 +384,7 @@ export class BigCommerceOrderService extends BaseOrderService {
       paymentStatus: statusInfo.paymentStatus,
       fulfillmentStatus: statusInfo.fulfillmentStatus,
       note: bcOrder.customer_message,
+      idempotencyKey: bcOrder.external_id ?? undefined,
       createdAt: bcOrder.date_created ? new Date(bcOrder.date_created) : undefined,
       updatedAt: bcOrder.date_modified ? new Date(bcOrder.date_modified) : undefined,
     };
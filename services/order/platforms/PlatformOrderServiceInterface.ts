@@ -60,6 +60,8 @@ export interface PlatformOrderServiceInterface {
 
   /** Legacy: create a fully-paid order (used by sync service) */
   createOrder(order: Order): Promise<Order>;
+  /** Find orders created with an idempotency key, oldest first (used by sync reconciliation) */
+  findOrdersByReference(idempotencyKey: string, since: Date): Promise<Order[]>;
   getOrder(orderId: string): Promise<Order | null>;
   updateOrder(orderId: string, updates: Partial<Order>): Promise<Order | null>;
 }
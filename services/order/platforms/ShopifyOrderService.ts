@@ -136,7 +136,9 @@ export class ShopifyOrderService extends BaseOrderService {
 
     try {
       const shopifyOrder = this.mapToShopifyOrder(order);
-      const data = await this.apiClient.post<{ order: any }>('orders.json', { order: shopifyOrder });
+      // Shopify replays the original response for a repeated Idempotency-Key
+      const headers = order.idempotencyKey ? { 'Idempotency-Key': order.idempotencyKey } : undefined;
+      const data = await this.apiClient.post<{ order: any }>('orders.json', { order: shopifyOrder }, headers);
       return this.mapToOrder(data.order);
     } catch (error) {
       this.logger.error({ message: 'Error creating Shopify order:' }, error instanceof Error ? error : new Error(String(error)));
@@ -144,6 +146,35 @@ export class ShopifyOrderService extends BaseOrderService {
     }
   }
 
+  /**
+   * Find orders created with our idempotency key, stored as `source_identifier`.
+   * The Admin API cannot filter on it, so every page created since `since` is read.
+   * Endpoint: GET /admin/api/{version}/orders.json?created_at_min=…
+   */
+  async findOrdersByReference(idempotencyKey: string, since: Date): Promise<Order[]> {
+    if (!this.isInitialized()) {
+      throw new Error('Shopify order service not initialized');
+    }
+
+    const orders: any[] = [];
+    let params: Record<string, string> = { status: 'any', created_at_min: since.toISOString(), limit: '250' };
+    for (;;) {
+      const { data, headers } = await this.apiClient.getWithHeaders<{ orders: any[] }>('orders.json', params);
+      orders.push(...(data.orders ?? []));
+
+      // Format: <url?page_info=CURSOR>; rel="next"
+      const nextMatch = (headers.get('Link') || headers.get('link'))?.match(/<[^>]*[?&]page_info=([^&>]+)[^>]*>;\s*rel="next"/);
+      if (!nextMatch) break;
+      // Shopify rejects the original filters alongside a page_info cursor
+      params = { limit: '250', page_info: decodeURIComponent(nextMatch[1]) };
+    }
+
+    return orders
+      .filter(o => o.source_identifier === idempotencyKey)
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+      .map(o => this.mapToOrder(o));
+  }
+
   /**
    * Get an order by ID from Shopify
    */
@@ -249,6 +280,7 @@ export class ShopifyOrderService extends BaseOrderService {
       billing_address: mapAddress(order.billingAddress),
       financial_status: order.paymentStatus,
       fulfillment_status: order.fulfillmentStatus,
+      source_identifier: order.idempotencyKey,
       // Many more fields could be added as needed for specific Shopify requirements
     };
   }
@@ -265,6 +297,7 @@ export class ShopifyOrderService extends BaseOrderService {
       order.customerName = `${shopifyOrder.customer.first_name} ${shopifyOrder.customer.last_name}`.trim();
       order.customerEmail = shopifyOrder.customer.email;
     }
+    order.idempotencyKey = shopifyOrder.source_identifier ?? undefined;
 
     return order;
   }
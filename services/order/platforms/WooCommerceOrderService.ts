@@ -4,6 +4,9 @@ import { PlatformOrderConfig, PlatformConfigRequirements } from './PlatformOrder
 import { BaseOrderService } from './BaseOrderService';
 import { WooCommerceApiClient } from '../../clients/woocommerce/WooCommerceApiClient';
 
+/** Order meta key holding the local order ID (no leading underscore, so the REST API returns it) */
+const POS_ORDER_META_KEY = 'pos_order_id';
+
 /**
  * WooCommerce-specific implementation of the order service
  */
@@ -150,6 +153,37 @@ export class WooCommerceOrderService extends BaseOrderService {
     }
   }
 
+  /**
+   * Find orders created with our idempotency key, stored in the `pos_order_id` order meta.
+   * WooCommerce has no idempotency header, so this lookup is what prevents duplicates.
+   * The REST API cannot filter on order meta, so every page created since `since` is read.
+   */
+  async findOrdersByReference(idempotencyKey: string, since: Date): Promise<Order[]> {
+    if (!this.isInitialized()) {
+      throw new Error('WooCommerce order service not initialized');
+    }
+
+    const perPage = 100;
+    const orders: any[] = [];
+    for (let page = 1; ; page++) {
+      const data = await this.apiClient.get<any[]>('orders', {
+        after: since.toISOString(),
+        dates_are_gmt: 'true',
+        orderby: 'date',
+        order: 'asc',
+        per_page: String(perPage),
+        page: String(page),
+      });
+      const batch = Array.isArray(data) ? data : [];
+      orders.push(...batch);
+      if (batch.length < perPage) break;
+    }
+
+    return orders
+      .filter(o => o.meta_data?.some((meta: any) => meta.key === POS_ORDER_META_KEY && meta.value === idempotencyKey))
+      .map(o => this.mapToOrder(o));
+  }
+
   /**
    * Get an order by ID from WooCommerce
    */
@@ -257,6 +291,7 @@ export class WooCommerceOrderService extends BaseOrderService {
       customer_id: 0, // Guest order if not specified
       payment_method: order.paymentStatus === 'paid' ? 'cod' : 'bacs', // Default to Cash on Delivery or Bank Transfer
       set_paid: order.paymentStatus === 'paid',
+      meta_data: order.idempotencyKey ? [{ key: POS_ORDER_META_KEY, value: order.idempotencyKey }] : undefined,
     };
   }
 
@@ -329,6 +364,7 @@ export class WooCommerceOrderService extends BaseOrderService {
       paymentStatus,
       fulfillmentStatus,
       note: wooOrder.customer_note,
+      idempotencyKey: wooOrder.meta_data?.find((meta: any) => meta.key === POS_ORDER_META_KEY)?.value,
       createdAt: wooOrder.date_created ? new Date(wooOrder.date_created) : undefined,
       updatedAt: wooOrder.date_modified ? new Date(wooOrder.date_modified) : undefined,
     };
@@ -125,18 +125,22 @@ export class AdyenService implements PaymentServiceInterface {
           orderId: request.orderId ?? '',
           customerName: request.customerName ?? '',
         },
+        // AskGratuity shows the terminal's tip screen before the card is presented
+        ...(request.tipEligibleAmount ? { tenderOptions: ['AskGratuity'] } : {}),
       });
 
       if (result.resultCode === 'Authorised') {
+        const tipAmount: number | undefined = result.amounts?.tipAmount;
         return {
           success: true,
           transactionId: result.pspReference,
           receiptNumber: result.pspReference,
           timestamp: new Date(),
-          amount: request.amount,
+          amount: result.amounts?.authorizedAmount ?? request.amount,
           paymentMethod: result.paymentMethod ?? 'contactless',
           cardBrand: result.additionalData?.cardBrand,
           last4: result.additionalData?.cardSummary,
+          tipAmount: tipAmount || undefined,
         };
       }
 
@@ -204,4 +208,34 @@ export class AdyenService implements PaymentServiceInterface {
       };
     }
   }
+
+  public supportsOnTerminalTipping(): boolean {
+    return true;
+  }
+
+  public async adjustTip(transactionId: string, amount: number, tipAmount: number): Promise<PaymentResponse> {
+    try {
+      this.logger.info(`Adjusting tip on Adyen transaction: ${transactionId} to ${tipAmount} (total ${amount})`);
+      // Adjust Authorisation replaces the authorised amount before the payment is captured
+      const result = await this.sdk.AdyenTerminal.adjustAuthorisation({
+        pspReference: transactionId,
+        amount: { value: amount, currency: 'USD' },
+      });
+      return {
+        success: result.status === 'received',
+        transactionId,
+        timestamp: new Date(),
+        amount,
+        tipAmount,
+        errorMessage: result.status !== 'received' ? 'Tip adjustment was not accepted' : undefined,
+      };
+    } catch (error) {
+      this.logger.error('Failed to adjust tip on Adyen transaction', error instanceof Error ? error : new Error(String(error)));
+      return {
+        success: false,
+        errorMessage: error instanceof Error ? error.message : 'Tip adjustment failed',
+        timestamp: new Date(),
+      };
+    }
+  }
 }
@@ -101,6 +101,17 @@ class PaymentService implements PaymentServiceInterface {
     }
     throw new Error('refundTransaction not supported by the current payment provider');
   }
+
+  supportsOnTerminalTipping(): boolean {
+    return this.activeService.supportsOnTerminalTipping?.() ?? false;
+  }
+
+  async adjustTip(transactionId: string, amount: number, tipAmount: number): Promise<PaymentResponse> {
+    if (this.activeService.adjustTip) {
+      return this.activeService.adjustTip(transactionId, amount, tipAmount);
+    }
+    throw new Error('adjustTip not supported by the current payment provider');
+  }
 }
 
 // Export a singleton instance consumed by usePayment and other callers.
@@ -12,6 +12,7 @@ export interface PaymentRequest {
     quantity: number;
     price: number;
   }>;
+  tipEligibleAmount?: number; // Prompt for a tip on the terminal, calculated on this amount; the tip is added to `amount`
 }
 
 export interface PaymentResponse {
@@ -25,6 +26,7 @@ export interface PaymentResponse {
   paymentMethod?: string; // Method used for payment (e.g. 'contactless', 'chip')
   cardBrand?: string; // Brand of card used (e.g. 'Visa', 'Mastercard')
   last4?: string; // Last 4 digits of payment card
+  tipAmount?: number; // Tip the customer added on the terminal, included in `amount`
 }
 
 /**
@@ -54,4 +56,9 @@ export interface PaymentServiceInterface {
   getTransactionStatus?(transactionId: string): Promise<PaymentResponse>;
   voidTransaction?(transactionId: string): Promise<PaymentResponse>;
   refundTransaction?(transactionId: string, amount: number): Promise<PaymentResponse>;
+
+  // Tipping
+  supportsOnTerminalTipping?(): boolean;
+  // Change the tip on an authorised transaction; `amount` is the new total including `tipAmount`
+  adjustTip?(transactionId: string, amount: number, tipAmount: number): Promise<PaymentResponse>;
 }
@@ -167,4 +167,21 @@ export class SquareService implements PaymentServiceInterface {
       timestamp: new Date(),
     };
   }
+
+  public supportsOnTerminalTipping(): boolean {
+    // In-App Payments collects a card in the app; there is no terminal screen to ask on
+    return false;
+  }
+
+  public async adjustTip(transactionId: string, amount: number, tipAmount: number): Promise<PaymentResponse> {
+    // Square tip adjustments are handled server-side via the Square Payments API (UpdatePayment).
+    this.logger.info(
+      `Tip adjustment requested for Square transaction: ${transactionId} to ${tipAmount} (total ${amount}) — must be processed via backend`
+    );
+    return {
+      success: false,
+      errorMessage: 'Tip adjustment must be processed via your backend using the Square Payments API',
+      timestamp: new Date(),
+    };
+  }
 }
@@ -95,6 +95,7 @@ export class StripeService implements PaymentServiceInterface {
           orderId: request.orderId || '',
           customerName: request.customerName || '',
         },
+        tipEligibleAmount: request.tipEligibleAmount,
       });
 
       this.logger.info(`Payment processing result: ${result.success ? 'success' : 'failed'}`);
@@ -277,4 +278,44 @@ export class StripeService implements PaymentServiceInterface {
       };
     }
   }
+
+  /**
+   * Whether the reader can ask the customer for a tip.
+   * Note: the reader's location must have tipping configured in the Stripe dashboard
+   */
+  public supportsOnTerminalTipping(): boolean {
+    return true;
+  }
+
+  /**
+   * Change the tip on an authorised payment
+   * Note: like refunds, this goes through your backend and the Stripe API
+   */
+  public async adjustTip(transactionId: string, amount: number, tipAmount: number): Promise<PaymentResponse> {
+    try {
+      this.logger.info(`Adjusting tip on transaction ${transactionId} to ${tipAmount.toFixed(2)} (total ${amount.toFixed(2)})`);
+
+      // Import the bridge manager dynamically
+      const { StripeTerminalBridgeManager } = await import('../../contexts/StripeTerminalBridge');
+      const bridgeManager = StripeTerminalBridgeManager.getInstance();
+
+      const success = await bridgeManager.bridge?.actions.adjustTip(transactionId, amount);
+
+      return {
+        success: success || false,
+        transactionId,
+        errorMessage: success ? undefined : 'Failed to adjust tip',
+        timestamp: new Date(),
+        amount: success ? amount : undefined,
+        tipAmount: success ? tipAmount : undefined,
+      };
+    } catch (error) {
+      this.logger.error('Error adjusting tip:', error);
+      return {
+        success: false,
+        errorMessage: error instanceof Error ? error.message : 'Tip adjustment failed',
+        timestamp: new Date(),
+      };
+    }
+  }
 }
@@ -88,15 +88,17 @@ export class MockPaymentService implements PaymentServiceInterface {
     // 90 % success rate — realistic enough for UI testing.
     if (Math.random() < 0.9) {
       const txId = mockId('tx');
+      const tipAmount = request.tipEligibleAmount ? randomTip(request.tipEligibleAmount) : undefined;
       return {
         success: true,
         transactionId: txId,
         receiptNumber: `RCPT-${txId.slice(-8).toUpperCase()}`,
         timestamp: new Date(),
-        amount: request.amount,
+        amount: tipAmount ? Math.round((request.amount + tipAmount) * 100) / 100 : request.amount,
         paymentMethod: 'contactless',
         cardBrand: randomCardBrand(),
         last4: randomLast4(),
+        tipAmount,
       };
     }
 
@@ -156,6 +158,16 @@ export class MockPaymentService implements PaymentServiceInterface {
       timestamp: new Date(),
     };
   }
+
+  public supportsOnTerminalTipping(): boolean {
+    return true;
+  }
+
+  public async adjustTip(transactionId: string, amount: number, tipAmount: number): Promise<PaymentResponse> {
+    this.logger.info(`[MOCK] Adjusting tip on transaction: ${transactionId} to ${tipAmount} (total ${amount})`);
+    await delay(800);
+    return { success: true, transactionId, timestamp: new Date(), amount, tipAmount };
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -175,6 +187,13 @@ function randomCardBrand(): string {
   return brands[Math.floor(Math.random() * brands.length)];
 }
 
+/** The customer picks no tip or one of the usual percentages on the mock terminal */
+function randomTip(eligibleAmount: number): number {
+  const percentages = [0, 10, 15, 20];
+  const percentage = percentages[Math.floor(Math.random() * percentages.length)];
+  return Math.round(eligibleAmount * percentage) / 100;
+}
+
 function randomLast4(): string {
   return String(Math.floor(1000 + Math.random() * 9000));
 }
@@ -1,6 +1,8 @@
 import { ReceiptData, PrinterStatus } from './PrinterTypes';
 import { receiptConfigService } from './ReceiptConfigService';
 import { getCommandSet, getCommandSetForModel } from './PrinterCommandSets';
+import { addMoney, multiplyMoney } from '../../utils/money';
+import { formatQuantityLine, isMeasured } from '../product/unitOfMeasure';
 
 /**
  * ESC/POS Command constants for Epson printers (backward compatibility)
@@ -67,6 +69,12 @@ export interface BasePrinterService {
    */
   printRaw(commands: string | Uint8Array): Promise<boolean>;
 
+  /**
+   * Print pre-formatted text lines (shift reports, slips), then cut
+   * @param lines Lines already laid out for the paper width
+   */
+  printText(lines: string[]): Promise<boolean>;
+
   /**
    * Format receipt data into ESC/POS command buffer
    * @param data Receipt data
@@ -105,6 +113,25 @@ export abstract class AbstractPrinterService implements BasePrinterService {
     return this.sendBytes(bytes);
   }
 
+  /**
+   * Print text lines as ESC/POS bytes.
+   * Subclasses with a native text API can override.
+   */
+  async printText(lines: string[]): Promise<boolean> {
+    if (!this._isConnected) return false;
+
+    const config = receiptConfigService.getConfig();
+    const CMD = getCommandSet(getCommandSetForModel(config.printerModel.type));
+    const commands: number[] = [...CMD.INIT, ...CMD.ALIGN_LEFT];
+    for (const line of lines) {
+      commands.push(...stringToBytes(line), ...CMD.NEWLINE);
+    }
+    if (config.options.cutPaper && config.printerModel.supportsCut) {
+      commands.push(...CMD.CUT);
+    }
+    return this.sendBytes(new Uint8Array(commands));
+  }
+
   /**
    * Open cash drawer via ESC/POS command.
    * Subclasses that support raw byte writing should override sendBytes.
@@ -211,19 +238,27 @@ export abstract class AbstractPrinterService implements BasePrinterService {
 
     // Order items
     for (const item of data.items) {
-      const itemTotal = item.quantity * item.price;
-      if (item.quantity > 1) {
+      const itemTotal = multiplyMoney(item.price, item.quantity);
+      if (item.quantity > 1 || isMeasured(item.unit)) {
         commands.push(...stringToBytes(item.name));
         commands.push(...CMD.NEWLINE);
         commands.push(
           ...stringToBytes(
-            receiptConfigService.formatLine(`  ${item.quantity} x ${cs}${item.price.toFixed(2)}`, `${cs}${itemTotal.toFixed(2)}`)
+            receiptConfigService.formatLine(
+              `  ${formatQuantityLine(item.quantity, item.price, item.unit, cs)}`,
+              `${cs}${itemTotal.toFixed(2)}`
+            )
           )
         );
       } else {
         commands.push(...stringToBytes(receiptConfigService.formatLine(item.name, `${cs}${itemTotal.toFixed(2)}`)));
       }
       commands.push(...CMD.NEWLINE);
+
+      for (const discount of item.discounts ?? []) {
+        commands.push(...stringToBytes(receiptConfigService.formatLine(`  ${discount.label}`, `-${cs}${discount.amount.toFixed(2)}`)));
+        commands.push(...CMD.NEWLINE);
+      }
     }
 
     // Divider line
@@ -236,6 +271,10 @@ export abstract class AbstractPrinterService implements BasePrinterService {
     // Totals
     commands.push(...stringToBytes(`Subtotal: ${cs}${data.subtotal.toFixed(2)}`));
     commands.push(...CMD.NEWLINE);
+    for (const discount of data.discounts ?? []) {
+      commands.push(...stringToBytes(`${discount.label}: -${cs}${discount.amount.toFixed(2)}`));
+      commands.push(...CMD.NEWLINE);
+    }
     commands.push(...stringToBytes(`Tax: ${cs}${data.tax.toFixed(2)}`));
     commands.push(...CMD.NEWLINE);
 
@@ -245,6 +284,12 @@ export abstract class AbstractPrinterService implements BasePrinterService {
     commands.push(...CMD.NEWLINE);
     commands.push(...stringToBytes(`Total: ${cs}${data.total.toFixed(2)}`));
     commands.push(...CMD.NEWLINE);
+    if (data.tipAmount) {
+      commands.push(...stringToBytes(`Tip: ${cs}${data.tipAmount.toFixed(2)}`));
+      commands.push(...CMD.NEWLINE);
+      commands.push(...stringToBytes(`Total Paid: ${cs}${addMoney(data.total, data.tipAmount).toFixed(2)}`));
+      commands.push(...CMD.NEWLINE);
+    }
     commands.push(...CMD.BOLD_OFF);
     commands.push(...stringToBytes(doubleDivider));
     commands.push(...CMD.NEWLINE);
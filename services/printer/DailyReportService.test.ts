@@ -1,9 +1,12 @@
 /**
  * DailyReportService — unit tests
  *
- * Tests the pure business logic: order filtering, summary calculation,
- * payment breakdown, and receipt/report formatting.
- * All I/O (KeyValueRepository, ReceiptConfigService, LoggerFactory) is mocked.
+ * Tests the pure business logic: shift and drawer lifecycle, X/Z and
+ * end-of-day reports, order filtering, summary calculation, payment
+ * breakdown, and receipt/report formatting.
+ * All I/O (repositories, ReceiptConfigService, AuditLogService, SyncEventBus,
+ * InstoreApiClient, LoggerFactory) is mocked; drawers, shifts and Z-reports
+ * are kept in memory.
  */
 
 // ── Mocks ─────────────────────────────────────────────────────────────────
@@ -29,6 +32,144 @@ jest.mock('../../repositories/KeyValueRepository', () => ({
   },
 }));
 
+jest.mock('../audit/AuditLogService', () => ({
+  auditLogService: { log: jest.fn().mockResolvedValue(undefined), getByDateRange: jest.fn().mockResolvedValue([]) },
+}));
+
+jest.mock('../../repositories/OrderRepository', () => ({
+  orderRepository: { findByDateRange: jest.fn().mockResolvedValue([]), findById: jest.fn().mockResolvedValue(null) },
+}));
+
+jest.mock('../../repositories/OrderItemRepository', () => ({
+  orderItemRepository: { getItemCountsByOrder: jest.fn().mockResolvedValue([]) },
+}));
+
+jest.mock('../../repositories/ReturnRepository', () => ({
+  returnRepository: { findByDateRange: jest.fn().mockResolvedValue([]) },
+}));
+
+// In-memory z_reports table
+jest.mock('../../repositories/ZReportRepository', () => {
+  const rows: Record<string, unknown>[] = [];
+  return {
+    __rows: rows,
+    zReportRepository: {
+      create: jest.fn(async (input: Record<string, unknown>) => {
+        rows.push({
+          id: input.id,
+          register_id: input.registerId,
+          z_number: input.zNumber,
+          grand_total: input.grandTotal,
+          variance: input.variance,
+          report: input.report,
+        });
+      }),
+      findById: jest.fn(async (id: string) => rows.find(r => r.id === id) ?? null),
+      findLatest: jest.fn(async (registerId: string) => rows.filter(r => r.register_id === registerId).pop() ?? null),
+      findRecent: jest.fn(async () => [...rows].reverse()),
+      findByDateRange: jest.fn(async () => [...rows]),
+    },
+  };
+});
+
+// In-memory drawers and shifts tables
+jest.mock('../../repositories/ShiftRepository', () => {
+  type Row = Record<string, unknown>;
+  const drawers: Row[] = [];
+  const shifts: Row[] = [];
+  let seq = 0;
+  return {
+    __tables: { drawers, shifts },
+    shiftRepository: {
+      createDrawer: jest.fn(async (input: Row) => {
+        const row = {
+          id: `drawer-${++seq}`,
+          register_id: input.registerId,
+          register_name: input.registerName,
+          status: 'open',
+          opening_float: input.openingFloat,
+          closing_cash: null,
+          opened_at: input.openedAt ?? Date.now(),
+          closed_at: null,
+          opened_by: input.openedBy,
+          closed_by: null,
+          z_report_id: null,
+          z_number: null,
+        };
+        drawers.push(row);
+        return { ...row };
+      }),
+      findDrawerById: jest.fn(async (id: string) => drawers.find(d => d.id === id) ?? null),
+      findOpenDrawer: jest.fn(async (registerId: string) => drawers.find(d => d.register_id === registerId && d.status === 'open') ?? null),
+      findOpenDrawers: jest.fn(async () => drawers.filter(d => d.status === 'open')),
+      closeDrawer: jest.fn(async (id: string, input: Row) => {
+        const drawer = drawers.find(d => d.id === id && d.status === 'open');
+        if (!drawer) return false;
+        Object.assign(drawer, {
+          status: 'closed',
+          closing_cash: input.closingCash,
+          closed_at: input.closedAt,
+          closed_by: input.closedBy,
+          z_report_id: input.zReportId,
+          z_number: input.zNumber,
+        });
+        return true;
+      }),
+      createShift: jest.fn(async (input: Row) => {
+        const row = {
+          id: `shift-${++seq}`,
+          drawer_id: input.drawerId,
+          register_id: input.registerId,
+          cashier_id: input.cashierId,
+          cashier_name: input.cashierName,
+          status: 'open',
+          started_at: input.startedAt ?? Date.now(),
+          ended_at: null,
+          end_reason: null,
+        };
+        shifts.push(row);
+        return { ...row };
+      }),
+      findShiftById: jest.fn(async (id: string) => shifts.find(s => s.id === id) ?? null),
+      findOpenShifts: jest.fn(async (registerId?: string) =>
+        shifts.filter(s => s.status === 'open' && (registerId === undefined || s.register_id === registerId))
+      ),
+      findShiftsByDrawer: jest.fn(async (drawerId: string) => shifts.filter(s => s.drawer_id === drawerId)),
+      findRecentShifts: jest.fn(async () => shifts.filter(s => s.status === 'closed').reverse()),
+      endShift: jest.fn(async (id: string, endedAt: number, reason: string) => {
+        const shift = shifts.find(s => s.id === id && s.status === 'open');
+        if (!shift) return false;
+        Object.assign(shift, { status: 'closed', ended_at: endedAt, end_reason: reason });
+        return true;
+      }),
+      endDrawerShifts: jest.fn(async (drawerId: string, endedAt: number) => {
+        for (const shift of shifts.filter(s => s.drawer_id === drawerId && s.status === 'open')) {
+          Object.assign(shift, { status: 'closed', ended_at: endedAt, end_reason: 'drawer_closed' });
+        }
+      }),
+    },
+  };
+});
+
+jest.mock('../../repositories/CashMovementRepository', () => ({
+  cashMovementRepository: { findByDrawer: jest.fn().mockResolvedValue([]) },
+}));
+
+jest.mock('../../repositories/TipRepository', () => ({
+  tipRepository: { findByDateRange: jest.fn().mockResolvedValue([]) },
+}));
+
+const mockConfig = { isClient: false, current: { registerId: 'reg-1', registerName: 'Till 1' } };
+jest.mock('../instoreapi/InstoreApiConfig', () => ({ instoreApiConfig: mockConfig }));
+
+jest.mock('../instoreapi/sync/SyncEventBus', () => ({
+  syncEventBus: { emit: jest.fn() },
+}));
+
+jest.mock('../clients/instoreapi/InstoreApiClient', () => ({
+  instoreApiClient: { openShift: jest.fn(), getShifts: jest.fn().mockResolvedValue([]) },
+}));
+
 // Minimal receipt config — deterministic output for formatting tests
 jest.mock('./ReceiptConfigService', () => ({
   receiptConfigService: {
@@ -46,6 +187,16 @@ jest.mock('./ReceiptConfigService', () => ({
 
 import { DailyReportService, ShiftData } from './DailyReportService';
 import { LocalOrder } from '../basket/BasketServiceInterface';
+import { OrderRow, orderRepository } from '../../repositories/OrderRepository';
+import { returnRepository } from '../../repositories/ReturnRepository';
+import { zReportRepository } from '../../repositories/ZReportRepository';
+import { keyValueRepository } from '../../repositories/KeyValueRepository';
+import { shiftRepository } from '../../repositories/ShiftRepository';
+import { auditLogService } from '../audit/AuditLogService';
+import { cashMovementRepository } from '../../repositories/CashMovementRepository';
+import { tipRepository } from '../../repositories/TipRepository';
+import { instoreApiClient } from '../clients/instoreapi/InstoreApiClient';
+import { syncEventBus } from '../instoreapi/sync/SyncEventBus';
 
 // ── Helpers ───────────────────────────────────────────────────────────────
 
@@ -53,6 +204,8 @@ function makeShift(overrides: Partial<ShiftData> = {}): ShiftData {
   const now = Date.now();
   return {
     id: 'shift-1',
+    drawerId: 'drawer-1',
+    registerId: 'reg-1',
     startTime: new Date(now - 3_600_000), // 1 hour ago
     endTime: null,
     cashierName: 'Alice',
@@ -60,6 +213,42 @@ function makeShift(overrides: Partial<ShiftData> = {}): ShiftData {
     openingCash: 100,
     closingCash: null,
     status: 'open',
+    endReason: null,
+    ...overrides,
+  };
+}
+
+function makeOrderRow(overrides: Partial<OrderRow> = {}): OrderRow {
+  return {
+    id: `order-${Math.random().toString(36).slice(2)}`,
+    platform_order_id: null,
+    platform: null,
+    subtotal: 20,
+    tax: 0,
+    total: 20,
+    discount_amount: null,
+    discount_code: null,
+    customer_email: null,
+    customer_name: null,
+    note: null,
+    payment_method: 'cash',
+    payment_transaction_id: null,
+    cashier_id: 'cashier-1',
+    cashier_name: 'Alice',
+    status: 'paid',
+    sync_status: 'synced',
+    sync_error: null,
+    register_id: 'reg-1',
+    created_at: Date.now(),
+    updated_at: Date.now(),
+    paid_at: Date.now(),
+    synced_at: null,
+    payments_json: null,
+    tip_amount: 0,
+    receipt_email: null,
+    receipt_phone: null,
+    sync_attempted_at: null,
+    duplicate_platform_order_ids: null,
     ...overrides,
   };
 }
@@ -98,9 +287,14 @@ function getService(): DailyReportService {
 describe('DailyReportService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    const tables = jest.requireMock<{ __tables: { drawers: unknown[]; shifts: unknown[] } }>('../../repositories/ShiftRepository').__tables;
+    tables.drawers.length = 0;
+    tables.shifts.length = 0;
+    jest.requireMock<{ __rows: unknown[] }>('../../repositories/ZReportRepository').__rows.length = 0;
+    mockConfig.isClient = false;
   });
 
-  // ── openShift / closeShift ─────────────────────────────────────────────
+  // ── openShift / handOverShift / closeShift ─────────────────────────────
 
   describe('openShift', () => {
     it('creates a shift with correct fields', async () => {
@@ -110,15 +304,35 @@ describe('DailyReportService', () => {
       expect(shift.cashierName).toBe('Alice');
       expect(shift.cashierId).toBe('cashier-1');
       expect(shift.openingCash).toBe(150);
+      expect(shift.registerId).toBe('reg-1');
       expect(shift.status).toBe('open');
       expect(shift.endTime).toBeNull();
+      expect(syncEventBus.emit).toHaveBeenCalledWith(
+        'shift:opened',
+        expect.objectContaining({ shiftId: shift.id, drawerId: shift.drawerId, cashierId: 'cashier-1' })
+      );
     });
 
-    it('throws when a shift is already open', async () => {
+    it('throws when the cashier already has a shift open on the register', async () => {
       const service = getService();
       await service.openShift('Alice', 'cashier-1', 100);
 
-      await expect(service.openShift('Bob', 'cashier-2', 50)).rejects.toThrow('A shift is already open');
+      await expect(service.openShift('Alice', 'cashier-1', 50)).rejects.toThrow('already have a shift open');
+    });
+
+    it('lets a second cashier join the open drawer without a new float', async () => {
+      const service = getService();
+      const alice = await service.openShift('Alice', 'cashier-1', 100);
+      const bob = await service.openShift('Bob', 'cashier-2', 50);
+
+      expect(bob.drawerId).toBe(alice.drawerId);
+      expect(bob.openingCash).toBe(100);
+      expect(service.getRegisterShifts()).toHaveLength(2);
+      expect(service.getCurrentShift('cashier-2')?.id).toBe(bob.id);
+      expect(auditLogService.log).toHaveBeenLastCalledWith(
+        'shift:opened',
+        expect.objectContaining({ metadata: expect.objectContaining({ joinedOpenDrawer: true }) })
+      );
     });
 
     it('exposes the open shift via getCurrentShift()', async () => {
@@ -128,6 +342,42 @@ describe('DailyReportService', () => {
       expect(service.getCurrentShift()).not.toBeNull();
       expect(service.getCurrentShift()?.status).toBe('open');
     });
+
+    it('opens the shift on the server when this register is a client', async () => {
+      mockConfig.isClient = true;
+      (instoreApiClient.openShift as jest.Mock).mockResolvedValueOnce({
+        ...makeShift(),
+        startTime: new Date().toISOString(),
+      });
+      const service = getService();
+
+      const shift = await service.openShift('Alice', 'cashier-1', 100);
+
+      expect(instoreApiClient.openShift).toHaveBeenCalledWith({ cashierId: 'cashier-1', cashierName: 'Alice', openingCash: 100 });
+      expect(shift.startTime).toBeInstanceOf(Date);
+      expect(shiftRepository.createDrawer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handOverShift', () => {
+    it('ends the shift and leaves the drawer open for the next cashier', async () => {
+      const service = getService();
+      const alice = await service.openShift('Alice', 'cashier-1', 100);
+
+      const ended = await service.handOverShift(alice.id);
+      const bob = await service.openShift('Bob', 'cashier-2', 0);
+
+      expect(ended).toMatchObject({ status: 'closed', endReason: 'handover', closingCash: null });
+      expect(bob.drawerId).toBe(alice.drawerId);
+      expect(bob.openingCash).toBe(100);
+      expect(syncEventBus.emit).toHaveBeenCalledWith('shift:closed', expect.objectContaining({ shiftId: alice.id, reason: 'handover' }));
+      expect(zReportRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('throws when the shift is not open', async () => {
+      const service = getService();
+      await expect(service.handOverShift('missing')).rejects.toThrow('No open shift to hand over');
+    });
   });
 
   describe('closeShift', () => {
@@ -142,12 +392,206 @@ describe('DailyReportService', () => {
       expect(service.getCurrentShift()).toBeNull();
     });
 
+    it('ends every shift on the drawer', async () => {
+      const service = getService();
+      await service.openShift('Alice', 'cashier-1', 100);
+      const bob = await service.openShift('Bob', 'cashier-2', 0);
+
+      const closed = await service.closeShift(100, bob.id);
+
+      expect(service.getRegisterShifts()).toHaveLength(0);
+      expect(closed.endReason).toBe('drawer_closed');
+      expect(syncEventBus.emit).toHaveBeenCalledWith(
+        'shift:closed',
+        expect.objectContaining({ shiftId: bob.id, reason: 'drawer_closed', zNumber: 1 })
+      );
+    });
+
     it('throws when no shift is open', async () => {
       const service = getService();
       await expect(service.closeShift(100)).rejects.toThrow('No open shift to close');
     });
   });
 
+  describe('initialize', () => {
+    it('moves a shift left open in key_value_store to a drawer', async () => {
+      (keyValueRepository.getObject as jest.Mock).mockResolvedValueOnce({
+        startTime: new Date(Date.now() - 60_000).toISOString(),
+        cashierName: 'Alice',
+        cashierId: 'cashier-1',
+        openingCash: 80,
+        status: 'open',
+      });
+      const service = getService();
+
+      await service.initialize();
+
+      expect(service.getCurrentShift()).toMatchObject({ cashierId: 'cashier-1', openingCash: 80, status: 'open' });
+      expect(keyValueRepository.removeItem).toHaveBeenCalledWith('current_shift');
+    });
+  });
+
+  // ── X / Z reports ──────────────────────────────────────────────────────
+
+  describe('X and Z reports', () => {
+    it('reconciles the drawer on an X-report without closing the shift', async () => {
+      const service = getService();
+      await service.openShift('Alice', 'cashier-1', 100);
+      (orderRepository.findByDateRange as jest.Mock).mockResolvedValueOnce([
+        makeOrderRow({ total: 30 }),
+        makeOrderRow({ total: 12, payment_method: 'card' }),
+        makeOrderRow({ total: 50, cashier_id: 'cashier-2' }),
+        makeOrderRow({ total: 40, register_id: 'reg-2' }),
+      ]);
+      (returnRepository.findByDateRange as jest.Mock).mockResolvedValueOnce([
+        { order_id: 'old-order', refund_amount: 5, status: 'completed', processed_by: 'cashier-1' },
+        { order_id: 'old-order', refund_amount: 7, status: 'pending', processed_by: 'cashier-1' },
+        { order_id: 'other-order', refund_amount: 9, status: 'completed', processed_by: 'cashier-9' },
+      ]);
+      (orderRepository.findById as jest.Mock).mockResolvedValueOnce(makeOrderRow({ id: 'old-order', total: 5 }));
+      (cashMovementRepository.findByDrawer as jest.Mock).mockResolvedValueOnce([
+        { type: 'no_sale', amount: 0, expense_category: null, created_at: Date.now() },
+      ]);
+
+      const report = await service.getXReport();
+
+      // Every order rung up on the register's drawer counts, whoever took it
+      expect(report.type).toBe('X');
+      expect(report.sales.grossSales).toBe(92);
+      expect(report.noSaleCount).toBe(1);
+      expect(report.cash).toMatchObject({ cashSales: 80, cashRefunds: 5, expected: 175, variance: null });
+      expect(service.getCurrentShift()?.status).toBe('open');
+    });
+
+    it("reconciles the drawer's cash movements", async () => {
+      const service = getService();
+      await service.openShift('Alice', 'cashier-1', 100);
+      (cashMovementRepository.findByDrawer as jest.Mock).mockResolvedValueOnce([
+        { type: 'paid_out', amount: 15, expense_category: 'cleaning', created_at: Date.now() },
+        { type: 'safe_drop', amount: 50, expense_category: null, created_at: Date.now() },
+        { type: 'float_top_up', amount: 20, expense_category: null, created_at: Date.now() },
+      ]);
+
+      const report = await service.getXReport();
+
+      expect(cashMovementRepository.findByDrawer).toHaveBeenCalledWith(service.getCurrentShift()?.drawerId);
+      expect(report.cash).toMatchObject({ paidOut: 15, safeDrops: 50, floatTopUps: 20, expected: 55 });
+      expect(service.formatShiftReportForPrint(report, '£')).toContain('  Cleaning (1) -£15.00');
+    });
+
+    it('throws for an X-report without an open shift', async () => {
+      const service = getService();
+      await expect(service.getXReport()).rejects.toThrow('No open shift');
+    });
+
+    it('numbers Z-reports sequentially and carries the grand total forward', async () => {
+      const service = getService();
+      await service.openShift('Alice', 'cashier-1', 100);
+      (orderRepository.findByDateRange as jest.Mock).mockResolvedValueOnce([makeOrderRow({ total: 30 })]);
+      const first = await service.closeShift({ denominations: [{ denomination: 20, quantity: 6 }], total: 120 });
+
+      await service.openShift('Alice', 'cashier-1', 100);
+      (orderRepository.findByDateRange as jest.Mock).mockResolvedValueOnce([makeOrderRow({ total: 10 })]);
+      const second = await service.closeShift(110);
+
+      expect([first.zNumber, second.zNumber]).toEqual([1, 2]);
+      const z1 = await service.getZReport(first.zReportId!);
+      const z2 = await service.getZReport(second.zReportId!);
+      expect(z1?.cash).toMatchObject({ expected: 130, counted: 120, variance: -10 });
+      expect(z1?.cash.countedDenominations).toEqual([{ denomination: 20, quantity: 6 }]);
+      expect(z2).toMatchObject({ type: 'Z', zNumber: 2, registerId: 'reg-1', grandTotal: 40 });
+      expect(auditLogService.log).toHaveBeenCalledWith(
+        'shift:closed',
+        expect.objectContaining({ metadata: expect.objectContaining({ zNumber: 2, variance: 0 }) })
+      );
+    });
+
+    it('lists every cashier who worked the drawer on the Z-report', async () => {
+      const service = getService();
+      const alice = await service.openShift('Alice', 'cashier-1', 100);
+      await service.handOverShift(alice.id);
+      await service.openShift('Bob', 'cashier-2', 0);
+      (orderRepository.findByDateRange as jest.Mock).mockResolvedValueOnce([
+        makeOrderRow({ total: 30 }),
+        makeOrderRow({ total: 20, cashier_id: 'cashier-2' }),
+      ]);
+
+      const closed = await service.closeShift(150);
+      const report = (await service.getZReport(closed.zReportId!))!;
+
+      expect(report.cashiers).toEqual([
+        { cashierId: 'cashier-1', cashierName: 'Alice', orderCount: 1, grossSales: 30 },
+        { cashierId: 'cashier-2', cashierName: 'Bob', orderCount: 1, grossSales: 20 },
+      ]);
+      expect(report.cash.openingFloat).toBe(100);
+      expect(service.formatShiftReportForPrint(report, '£')).toContain('CASHIERS');
+    });
+
+    it('reports tips apart from sales, with their staff shares', async () => {
+      const service = getService();
+      await service.openShift('Alice', 'cashier-1', 100);
+      (orderRepository.findByDateRange as jest.Mock).mockResolvedValueOnce([
+        makeOrderRow({
+          id: 'tipped',
+          total: 30,
+          tip_amount: 4,
+          payments_json: JSON.stringify([{ id: 'p1', method: 'cash', amount: 34, tipAmount: 4, processedAt: 0 }]),
+        }),
+      ]);
+      (tipRepository.findByDateRange as jest.Mock).mockResolvedValueOnce([
+        { order_id: 'tipped', staff_id: 'cashier-1', staff_name: 'Alice', amount: 4 },
+        { order_id: 'elsewhere', staff_id: 'cashier-9', staff_name: 'Zed', amount: 2 },
+      ]);
+
+      const report = await service.getXReport();
+
+      expect(report.sales.grossSales).toBe(30);
+      expect(report.tenders).toEqual([{ method: 'cash', count: 1, total: 30 }]);
+      expect(report.tips).toMatchObject({ count: 1, total: 4, byStaff: [{ staffName: 'Alice', total: 4 }] });
+      expect(report.cash).toMatchObject({ cashSales: 30, cashTips: 4, expected: 134 });
+      const printed = service.formatShiftReportForPrint(report, '£');
+      expect(printed).toContain('Total Tips: £4.00');
+      expect(printed).toContain('Cash Tips: £4.00');
+    });
+
+    it('leaves expected cash and variance off a blind print', async () => {
+      const service = getService();
+      await service.openShift('Alice', 'cashier-1', 100);
+      const closed = await service.closeShift(100);
+      const report = (await service.getZReport(closed.zReportId!))!;
+
+      const full = service.formatShiftReportForPrint(report, '£');
+      const blind = service.formatShiftReportForPrint(report, '£', { blind: true });
+
+      expect(full).toContain('Z-REPORT #1');
+      expect(full.some(l => l.startsWith('Expected Cash:'))).toBe(true);
+      expect(blind.some(l => l.startsWith('Expected Cash:') || l.startsWith('Variance:'))).toBe(false);
+      expect(blind).toContain('Counted Cash: £100.00');
+    });
+  });
+
+  // ── Store end of day ───────────────────────────────────────────────────
+
+  describe('getEndOfDayReport', () => {
+    it("rolls up the day's Z-reports and lists drawers still open", async () => {
+      const service = getService();
+      await service.openShift('Alice', 'cashier-1', 100);
+      await service.openShift('Bob', 'cashier-2', 50, { registerId: 'reg-2', registerName: 'Till 2' });
+      (orderRepository.findByDateRange as jest.Mock).mockResolvedValueOnce([makeOrderRow({ total: 30 })]);
+      await service.closeShift(130);
+
+      const report = await service.getEndOfDayReport();
+
+      expect(report.registers).toEqual([expect.objectContaining({ registerId: 'reg-1', zNumbers: [1], netTakings: 30 })]);
+      expect(report.cash).toMatchObject({ expected: 130, counted: 130, variance: 0 });
+      expect(report.openDrawers).toEqual([expect.objectContaining({ registerId: 'reg-2', registerName: 'Till 2', cashiers: ['Bob'] })]);
+
+      const lines = service.formatEndOfDayForPrint(report, '£');
+      expect(lines).toContain('STILL OPEN');
+      expect(lines).toContain('*** END OF DAY ***');
+    });
+  });
+
   // ── generateDailyReport ────────────────────────────────────────────────
 
   describe('generateDailyReport', () => {
@@ -407,5 +851,14 @@ describe('DailyReportService', () => {
       const hasDiscount = lines.some(l => l.includes('Discount'));
       expect(hasDiscount).toBe(false);
     });
+
+    it('prints the tip after the total, with the total paid', () => {
+      const service = getService();
+      const lines = service.formatReceiptForPrint(makeOrder({ total: 20, tipAmount: 3 }), '£');
+
+      expect(lines).toContain('TOTAL: £20.00');
+      expect(lines).toContain('Tip: £3.00');
+      expect(lines).toContain('TOTAL PAID: £23.00');
+    });
   });
 });
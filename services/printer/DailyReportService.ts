@@ -1,20 +1,72 @@
+/**
+ * DailyReportService
+ *
+ * Shifts, cash drawers and the X-, Z- and end-of-day reports built from them.
+ *
+ * Each register has at most one open drawer — its float, count and Z-report —
+ * and any number of cashiers can have a shift open on it at once. A cashier
+ * hands over by ending their shift while the drawer stays open; the next
+ * cashier joins it without a new float. Closing the drawer counts it, writes
+ * its Z-report and ends every shift still on it.
+ *
+ * Drawers and shifts live on the register that owns the data: standalone and
+ * server registers store them in SQLite, client registers go through the
+ * in-store API. Opening and closing are published on the SyncEventBus as
+ * `shift:opened` and `shift:closed`.
+ *
+ * See: docs/specs/orders/order-history.md, docs/adr/ADR-021-per-register-drawers-and-concurrent-shifts.md
+ */
+
 import { keyValueRepository } from '../../repositories/KeyValueRepository';
+import { orderRepository } from '../../repositories/OrderRepository';
+import { orderItemRepository } from '../../repositories/OrderItemRepository';
+import { returnRepository } from '../../repositories/ReturnRepository';
+import { zReportRepository, ZReportRow } from '../../repositories/ZReportRepository';
+import { cashMovementRepository } from '../../repositories/CashMovementRepository';
+import { tipRepository } from '../../repositories/TipRepository';
+import { shiftRepository, DrawerRow, ShiftEndReason, ShiftRow } from '../../repositories/ShiftRepository';
 import { LocalOrder } from '../basket/BasketServiceInterface';
+import { PaymentLine } from '../order/order';
 import { receiptConfigService } from './ReceiptConfigService';
 import { addMoney, multiplyMoney, roundMoney, subtractMoney, sumMoney } from '../../utils/money';
 import { getCurrencySymbol } from '../../utils/currency';
 import { LoggerFactory } from '../logger/LoggerFactory';
 import { auditLogService } from '../audit/AuditLogService';
+import { instoreApiConfig } from '../instoreapi/InstoreApiConfig';
+import { instoreApiClient } from '../clients/instoreapi/InstoreApiClient';
+import { syncEventBus } from '../instoreapi/sync/SyncEventBus';
+import { CashCount, cashTotal } from '../cashup/denominations';
+import { EXPENSE_CATEGORY_LABELS } from '../cashup/cashMovement';
+import { CASH_TENDER, ShiftReport, ShiftReportType, TenderTotal, buildShiftReport, orderTenders } from '../cashup/shiftReport';
+import { EndOfDayReport, buildEndOfDayReport } from '../cashup/endOfDay';
+import { tenderTips } from '../tips/tips';
+import { countedQuantity, formatQuantityLine, getMeasuredLine } from '../product/unitOfMeasure';
 
 export interface ShiftData {
   id: string;
+  /** The drawer the shift was worked on */
+  drawerId: string;
+  registerId: string;
   startTime: Date;
   endTime: Date | null;
   cashierName: string;
   cashierId: string;
+  /** The drawer's opening float */
   openingCash: number;
+  /** The drawer's count once it has closed */
   closingCash: number | null;
   status: 'open' | 'closed';
+  /** Why the shift ended; null while it is open */
+  endReason: ShiftEndReason | null;
+  /** The Z-report written when the drawer closed */
+  zReportId?: string;
+  zNumber?: number;
+}
+
+/** The register a shift is opened on */
+export interface ShiftRegister {
+  registerId: string;
+  registerName: string | null;
 }
 
 export interface DailyReportData {
@@ -35,13 +87,19 @@ export interface DailyReportData {
   };
 }
 
-const CURRENT_SHIFT_KEY = 'current_shift';
-const SHIFT_HISTORY_KEY = 'shift_history';
+export interface ShiftReportPrintOptions {
+  /** Blind close: leave out expected cash, cash takings and variance */
+  blind?: boolean;
+}
+
+/** Where shifts were kept before v21; an open one is moved into the drawers table on upgrade */
+const LEGACY_CURRENT_SHIFT_KEY = 'current_shift';
 
 export class DailyReportService {
   private static instance: DailyReportService;
   private logger = LoggerFactory.getInstance().createLogger('DailyReportService');
-  private currentShift: ShiftData | null = null;
+  /** Open shifts on this register, oldest first */
+  private registerShifts: ShiftData[] = [];
 
   private constructor() {}
 
@@ -54,92 +112,470 @@ export class DailyReportService {
 
   async initialize(): Promise<void> {
     try {
-      const savedShift = await keyValueRepository.getObject<ShiftData>(CURRENT_SHIFT_KEY);
-      if (savedShift && savedShift.status === 'open') {
-        this.currentShift = {
-          ...savedShift,
-          startTime: new Date(savedShift.startTime),
-          endTime: savedShift.endTime ? new Date(savedShift.endTime) : null,
-        };
+      if (!instoreApiConfig.isClient) {
+        await this.migrateLegacyShift();
       }
+      await this.refresh();
     } catch (error) {
-      this.logger.error({ message: 'Failed to load current shift:' }, error instanceof Error ? error : new Error(String(error)));
+      this.logger.error({ message: 'Failed to load open shifts:' }, error instanceof Error ? error : new Error(String(error)));
     }
   }
 
-  getCurrentShift(): ShiftData | null {
-    return this.currentShift;
+  /** Reload the open shifts on this register, e.g. after a `shift:*` sync event */
+  async refresh(): Promise<void> {
+    const registerId = instoreApiConfig.current.registerId;
+    this.registerShifts = instoreApiConfig.isClient
+      ? (await instoreApiClient.getShifts({ registerId })).map(reviveShift)
+      : await this.loadShifts(await shiftRepository.findOpenShifts(registerId));
   }
 
-  async openShift(cashierName: string, cashierId: string, openingCash: number): Promise<ShiftData> {
-    if (this.currentShift && this.currentShift.status === 'open') {
-      throw new Error('A shift is already open. Please close it first.');
+  /**
+   * The cashier's open shift on this register; without a cashier, the
+   * longest-running open shift, if the drawer is open at all.
+   */
+  getCurrentShift(cashierId?: string): ShiftData | null {
+    if (cashierId !== undefined) {
+      return this.registerShifts.find(s => s.cashierId === cashierId) ?? null;
     }
+    return this.registerShifts[0] ?? null;
+  }
 
-    const shift: ShiftData = {
-      id: `shift-${Date.now()}`,
-      startTime: new Date(),
-      endTime: null,
-      cashierName,
-      cashierId,
-      openingCash,
-      closingCash: null,
-      status: 'open',
-    };
+  /** Every open shift on this register's drawer */
+  getRegisterShifts(): ShiftData[] {
+    return [...this.registerShifts];
+  }
+
+  /** Open shifts on every register in the store */
+  async getOpenShifts(): Promise<ShiftData[]> {
+    if (instoreApiConfig.isClient) {
+      return (await instoreApiClient.getShifts()).map(reviveShift);
+    }
+    return this.loadShifts(await shiftRepository.findOpenShifts());
+  }
 
-    this.currentShift = shift;
-    await keyValueRepository.setObject(CURRENT_SHIFT_KEY, shift);
+  /**
+   * Start a cashier's shift. The register's first shift opens its drawer with
+   * `openingCash` as the float; later ones join the open drawer and
+   * `openingCash` is ignored, since the float is only counted once.
+   * @param register Defaults to this register; the in-store API server passes the calling register
+   */
+  async openShift(
+    cashierName: string,
+    cashierId: string,
+    openingCash: number,
+    register: ShiftRegister = this.thisRegister()
+  ): Promise<ShiftData> {
+    if (instoreApiConfig.isClient) {
+      const shift = reviveShift(await instoreApiClient.openShift({ cashierId, cashierName, openingCash }));
+      await this.refresh();
+      return shift;
+    }
+
+    const open = await shiftRepository.findOpenShifts(register.registerId);
+    if (open.some(s => s.cashier_id === cashierId)) {
+      throw new Error('You already have a shift open on this register.');
+    }
+
+    const existing = await shiftRepository.findOpenDrawer(register.registerId);
+    const drawer =
+      existing ??
+      (await shiftRepository.createDrawer({
+        registerId: register.registerId,
+        registerName: register.registerName,
+        openingFloat: openingCash,
+        openedBy: cashierId,
+      }));
+    const shift = mapShift(
+      await shiftRepository.createShift({ drawerId: drawer.id, registerId: register.registerId, cashierId, cashierName }),
+      drawer
+    );
 
     // Log shift opened (spec: audit.md §2.1.9)
     await auditLogService.log('shift:opened', {
       userId: cashierId,
       userName: cashierName,
-      details: `Shift opened with starting cash ${openingCash.toFixed(2)}`,
+      registerId: register.registerId || undefined,
+      details: existing
+        ? `Shift started on the open drawer (float ${drawer.opening_float.toFixed(2)})`
+        : `Shift opened with starting cash ${openingCash.toFixed(2)}`,
       metadata: {
         shiftId: shift.id,
-        openingCash,
+        drawerId: drawer.id,
+        openingCash: drawer.opening_float,
+        joinedOpenDrawer: existing !== null,
       },
     });
+    syncEventBus.emit('shift:opened', {
+      shiftId: shift.id,
+      drawerId: drawer.id,
+      registerId: register.registerId,
+      cashierId,
+      cashierName,
+    });
 
+    await this.refresh();
     return shift;
   }
 
-  async closeShift(closingCash: number): Promise<ShiftData> {
-    if (!this.currentShift || this.currentShift.status !== 'open') {
+  /**
+   * End a cashier's shift without counting the drawer, which stays open for
+   * whoever takes over — they join it with openShift.
+   */
+  async handOverShift(shiftId: string): Promise<ShiftData> {
+    if (instoreApiConfig.isClient) {
+      const shift = reviveShift(await instoreApiClient.handOverShift(shiftId));
+      await this.refresh();
+      return shift;
+    }
+
+    const row = await shiftRepository.findShiftById(shiftId);
+    const endedAt = Date.now();
+    if (!row || !(await shiftRepository.endShift(shiftId, endedAt, 'handover'))) {
+      throw new Error('No open shift to hand over.');
+    }
+    const drawer = await this.requireDrawer(row.drawer_id);
+    const shift = mapShift({ ...row, status: 'closed', ended_at: endedAt, end_reason: 'handover' }, drawer);
+
+    await auditLogService.log('shift:handed_over', {
+      userId: shift.cashierId,
+      userName: shift.cashierName,
+      registerId: shift.registerId || undefined,
+      details: 'Shift handed over; drawer left open',
+      metadata: { shiftId: shift.id, drawerId: drawer.id },
+    });
+    syncEventBus.emit('shift:closed', {
+      shiftId: shift.id,
+      drawerId: drawer.id,
+      registerId: shift.registerId,
+      cashierId: shift.cashierId,
+      reason: 'handover',
+    });
+
+    await this.refresh();
+    return shift;
+  }
+
+  /**
+   * Close the drawer a shift is on and write its Z-report. Every shift still
+   * open on the drawer ends with it.
+   * @param closingCash The drawer count, or just its total
+   * @param shiftId The closing cashier's shift; defaults to the register's current shift
+   */
+  async closeShift(closingCash: number | CashCount, shiftId?: string): Promise<ShiftData> {
+    const id = shiftId ?? this.getCurrentShift()?.id;
+    if (!id) {
       throw new Error('No open shift to close.');
     }
+    const count = typeof closingCash === 'number' ? cashTotal(closingCash) : closingCash;
 
-    this.currentShift.endTime = new Date();
-    this.currentShift.closingCash = closingCash;
-    this.currentShift.status = 'closed';
+    if (instoreApiConfig.isClient) {
+      const shift = reviveShift(await instoreApiClient.closeShift(id, count));
+      await this.refresh();
+      return shift;
+    }
+
+    const shift = await this.findOpenShift(id);
+    if (!shift) {
+      throw new Error('No open shift to close.');
+    }
 
-    // Save to history
-    const history = (await keyValueRepository.getObject<ShiftData[]>(SHIFT_HISTORY_KEY)) || [];
-    history.push(this.currentShift);
-    await keyValueRepository.setObject(SHIFT_HISTORY_KEY, history);
+    const closedAt = Date.now();
+    const zReport = await this.writeZReport(shift, closedAt, count);
+    await shiftRepository.closeDrawer(shift.drawerId, {
+      closingCash: count.total,
+      closedAt,
+      closedBy: shift.cashierId,
+      zReportId: zReport.id,
+      zNumber: zReport.z_number,
+    });
+    await shiftRepository.endDrawerShifts(shift.drawerId, closedAt);
 
     // Log shift closed (spec: audit.md §2.1.10)
     await auditLogService.log('shift:closed', {
-      userId: this.currentShift.cashierId,
-      userName: this.currentShift.cashierName,
-      details: `Shift closed with ending cash ${closingCash.toFixed(2)}`,
+      userId: shift.cashierId,
+      userName: shift.cashierName,
+      registerId: shift.registerId || undefined,
+      details: `Shift closed with ending cash ${count.total.toFixed(2)} (Z${zReport.z_number})`,
       metadata: {
-        shiftId: this.currentShift.id,
-        openingCash: this.currentShift.openingCash,
-        closingCash,
+        shiftId: shift.id,
+        drawerId: shift.drawerId,
+        openingCash: shift.openingCash,
+        closingCash: count.total,
+        zNumber: zReport.z_number,
+        variance: zReport.variance,
+      },
+    });
+    syncEventBus.emit('shift:closed', {
+      shiftId: shift.id,
+      drawerId: shift.drawerId,
+      registerId: shift.registerId,
+      cashierId: shift.cashierId,
+      reason: 'drawer_closed',
+      zReportId: zReport.id,
+      zNumber: zReport.z_number,
+    });
+
+    await this.refresh();
+    return {
+      ...shift,
+      endTime: new Date(closedAt),
+      closingCash: count.total,
+      status: 'closed',
+      endReason: 'drawer_closed',
+      zReportId: zReport.id,
+      zNumber: zReport.z_number,
+    };
+  }
+
+  /**
+   * Mid-shift X-report for the drawer a shift is on: drawer open to now,
+   * nothing stored or reset.
+   * @param shiftId Defaults to the register's current shift
+   */
+  async getXReport(count?: CashCount, shiftId?: string): Promise<ShiftReport> {
+    const id = shiftId ?? this.getCurrentShift()?.id;
+    if (!id) {
+      throw new Error('No open shift to report on.');
+    }
+    if (instoreApiConfig.isClient) {
+      return instoreApiClient.getXReport(id, count);
+    }
+
+    const shift = await this.findOpenShift(id);
+    if (!shift) {
+      throw new Error('No open shift to report on.');
+    }
+    return this.buildReport('X', shift, Date.now(), count ?? null);
+  }
+
+  async getZReport(id: string): Promise<ShiftReport | null> {
+    if (instoreApiConfig.isClient) {
+      return instoreApiClient.getZReport(id);
+    }
+    const row = await zReportRepository.findById(id);
+    return row ? (JSON.parse(row.report) as ShiftReport) : null;
+  }
+
+  async getZReports(limit: number = 30): Promise<ShiftReport[]> {
+    try {
+      if (instoreApiConfig.isClient) {
+        return await instoreApiClient.getZReports(limit);
+      }
+      const rows = await zReportRepository.findRecent(limit);
+      return rows.map(row => JSON.parse(row.report) as ShiftReport);
+    } catch (error) {
+      this.logger.error({ message: 'Failed to load Z-reports:' }, error instanceof Error ? error : new Error(String(error)));
+      return [];
+    }
+  }
+
+  /**
+   * Store end-of-day: every register's Z-reports closed on a local calendar
+   * day rolled up, plus the drawers still open.
+   * @param date YYYY-MM-DD; defaults to today
+   */
+  async getEndOfDayReport(date: string = localDateKey(new Date())): Promise<EndOfDayReport> {
+    if (instoreApiConfig.isClient) {
+      return instoreApiClient.getEndOfDayReport(date);
+    }
+
+    const [year, month, day] = date.split('-').map(Number);
+    const from = new Date(year, month - 1, day).getTime();
+    const to = new Date(year, month - 1, day + 1).getTime();
+    const [rows, openDrawers, openShifts] = await Promise.all([
+      zReportRepository.findByDateRange(from, to),
+      shiftRepository.findOpenDrawers(),
+      shiftRepository.findOpenShifts(),
+    ]);
+
+    return buildEndOfDayReport({
+      date,
+      generatedAt: Date.now(),
+      zReports: rows.map(row => JSON.parse(row.report) as ShiftReport),
+      openDrawers: openDrawers.map(drawer => ({
+        drawerId: drawer.id,
+        registerId: drawer.register_id,
+        registerName: drawer.register_name,
+        openedAt: drawer.opened_at,
+        cashiers: openShifts.filter(s => s.drawer_id === drawer.id).map(s => s.cashier_name),
+      })),
+    });
+  }
+
+  /** Number the Z-report after the register's last one and store it; the row can never change */
+  private async writeZReport(shift: ShiftData, closedAt: number, count: CashCount): Promise<ZReportRow> {
+    const report = await this.buildReport('Z', shift, closedAt, count);
+    const previous = await zReportRepository.findLatest(report.registerId);
+    report.zNumber = (previous?.z_number ?? 0) + 1;
+    report.grandTotal = addMoney(previous?.grand_total ?? 0, report.netTakings);
+
+    const id = `z-${report.registerId || 'local'}-${report.zNumber}`;
+    await zReportRepository.create({
+      id,
+      registerId: report.registerId,
+      zNumber: report.zNumber,
+      shiftId: shift.id,
+      drawerId: shift.drawerId,
+      cashierId: shift.cashierId || null,
+      cashierName: shift.cashierName || null,
+      openedAt: report.openedAt,
+      closedAt,
+      netTakings: report.netTakings,
+      grandTotal: report.grandTotal,
+      variance: report.cash.variance,
+      report: JSON.stringify(report),
+    });
+
+    const row = await zReportRepository.findById(id);
+    if (!row) {
+      throw new Error(`Z-report ${report.zNumber} was not stored.`);
+    }
+    return row;
+  }
+
+  /** Orders, refunds and cash movements on the shift's drawer, from drawer open up to `until` */
+  private async buildReport(type: ShiftReportType, shift: ShiftData, until: number, count: CashCount | null): Promise<ShiftReport> {
+    const [drawer, drawerShifts] = await Promise.all([
+      this.requireDrawer(shift.drawerId),
+      shiftRepository.findShiftsByDrawer(shift.drawerId),
+    ]);
+    const from = drawer.opened_at;
+    // Upper bounds are exclusive; include anything stamped in the closing millisecond
+    const to = until + 1;
+    const [orderRows, itemCounts, returnRows, movementRows, tipRows] = await Promise.all([
+      orderRepository.findByDateRange(from, to),
+      orderItemRepository.getItemCountsByOrder(from, to),
+      returnRepository.findByDateRange(from, to),
+      cashMovementRepository.findByDrawer(drawer.id),
+      tipRepository.findByDateRange(from, to),
+    ]);
+
+    const registerId = drawer.register_id;
+    const cashierIds = new Set(drawerShifts.map(s => s.cashier_id));
+    const units = new Map(itemCounts.map(c => [c.order_id, c.units]));
+    const orders = orderRows
+      .filter(row => !row.register_id || !registerId || row.register_id === registerId)
+      .map(row => {
+        const payments = parsePayments(row.payments_json);
+        return {
+          id: row.id,
+          status: row.status,
+          total: row.total,
+          tax: row.tax,
+          discountAmount: row.discount_amount ?? 0,
+          itemCount: units.get(row.id) ?? 0,
+          tenders: orderTenders(row.payment_method, payments, row.total),
+          tips: tenderTips(payments),
+          cashierId: row.cashier_id,
+        };
+      });
+    const orderIds = new Set(orders.map(o => o.id));
+    const tipShares = tipRows
+      .filter(t => orderIds.has(t.order_id))
+      .map(t => ({ staffId: t.staff_id, staffName: t.staff_name, amount: t.amount }));
+
+    // Refunds paid out on this drawer, grouped per original order so each order is looked up once.
+    // Returns carry no register, so they are matched by who processed them.
+    const completed = returnRows.filter(r => r.status === 'completed' && (!r.processed_by || cashierIds.has(r.processed_by)));
+    const refundByOrder = new Map<string, number>();
+    for (const r of completed) {
+      refundByOrder.set(r.order_id, addMoney(refundByOrder.get(r.order_id) ?? 0, r.refund_amount));
+    }
+    const refunds = await Promise.all(
+      [...refundByOrder.entries()].map(async ([orderId, amount]) => {
+        const original = await orderRepository.findById(orderId);
+        return {
+          orderId,
+          amount,
+          originalTenders: original ? orderTenders(original.payment_method, parsePayments(original.payments_json), original.total) : [],
+        };
+      })
+    );
+
+    const movements = movementRows.filter(m => m.created_at < to);
+
+    return buildShiftReport({
+      type,
+      shift: {
+        id: shift.id,
+        drawerId: drawer.id,
+        cashierId: shift.cashierId,
+        cashierName: shift.cashierName,
+        openingCash: drawer.opening_float,
+        startTime: from,
       },
+      registerId,
+      generatedAt: until,
+      cashiers: uniqueCashiers(drawerShifts),
+      orders,
+      refunds,
+      noSaleCount: movements.filter(m => m.type === 'no_sale').length,
+      movements: movements.map(m => ({ type: m.type, amount: m.amount, expenseCategory: m.expense_category })),
+      tipShares,
+      count,
     });
+  }
 
-    // Clear current shift
-    const closedShift = { ...this.currentShift };
-    await keyValueRepository.removeItem(CURRENT_SHIFT_KEY);
-    this.currentShift = null;
+  private thisRegister(): ShiftRegister {
+    return { registerId: instoreApiConfig.current.registerId, registerName: instoreApiConfig.current.registerName || null };
+  }
 
-    return closedShift;
+  private async findOpenShift(id: string): Promise<ShiftData | null> {
+    const row = await shiftRepository.findShiftById(id);
+    if (!row || row.status !== 'open') return null;
+    return mapShift(row, await this.requireDrawer(row.drawer_id));
+  }
+
+  private async requireDrawer(id: string): Promise<DrawerRow> {
+    const drawer = await shiftRepository.findDrawerById(id);
+    if (!drawer) {
+      throw new Error(`Drawer ${id} not found.`);
+    }
+    return drawer;
+  }
+
+  private async loadShifts(rows: ShiftRow[]): Promise<ShiftData[]> {
+    const drawers = new Map<string, DrawerRow>();
+    for (const id of new Set(rows.map(r => r.drawer_id))) {
+      drawers.set(id, await this.requireDrawer(id));
+    }
+    return rows.map(row => mapShift(row, drawers.get(row.drawer_id)!));
+  }
+
+  /** Carry a shift left open in key_value_store by an earlier version over to the drawers table */
+  private async migrateLegacyShift(): Promise<void> {
+    const legacy = await keyValueRepository.getObject<{
+      startTime: string;
+      cashierName: string;
+      cashierId: string;
+      openingCash: number;
+      status: string;
+    }>(LEGACY_CURRENT_SHIFT_KEY);
+    if (!legacy) return;
+
+    const register = this.thisRegister();
+    if (legacy.status === 'open' && !(await shiftRepository.findOpenDrawer(register.registerId))) {
+      const openedAt = new Date(legacy.startTime).getTime();
+      const drawer = await shiftRepository.createDrawer({
+        ...register,
+        openingFloat: legacy.openingCash,
+        openedBy: legacy.cashierId,
+        openedAt,
+      });
+      await shiftRepository.createShift({
+        drawerId: drawer.id,
+        registerId: register.registerId,
+        cashierId: legacy.cashierId,
+        cashierName: legacy.cashierName,
+        startedAt: openedAt,
+      });
+      this.logger.info(`Moved the open shift of ${legacy.cashierName} to drawer ${drawer.id}`);
+    }
+    await keyValueRepository.removeItem(LEGACY_CURRENT_SHIFT_KEY);
   }
 
   async generateDailyReport(orders: LocalOrder[], shift?: ShiftData): Promise<DailyReportData> {
-    const shiftData = shift || this.currentShift;
+    const shiftData = shift || this.getCurrentShift();
     if (!shiftData) {
       throw new Error('No shift data available for report.');
     }
@@ -165,7 +601,7 @@ export class DailyReportService {
     let refunds = 0;
 
     for (const order of shiftOrders) {
-      itemsSold += order.items.reduce((sum, item) => sum + item.quantity, 0);
+      itemsSold += order.items.reduce((sum, item) => sum + countedQuantity(item), 0);
 
       // Use payments array if available (split-tender), otherwise use primary payment method
       if (order.payments && order.payments.length > 0) {
@@ -325,6 +761,261 @@ export class DailyReportService {
     return lines;
   }
 
+  formatShiftReportForPrint(report: ShiftReport, currencySymbol: string = '£', options: ShiftReportPrintOptions = {}): string[] {
+    const cs = currencySymbol;
+    const config = receiptConfigService.getConfig();
+    const lines: string[] = [];
+    const divider = receiptConfigService.getDividerLine();
+    const doubleDivider = receiptConfigService.getDoubleDividerLine();
+    const money = (amount: number) => (amount < 0 ? `-${cs}${Math.abs(amount).toFixed(2)}` : `${cs}${amount.toFixed(2)}`);
+    const tenderLabel = (method: string) => method.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+    // Under blind close the cash tender would give the expected total away
+    const visibleTenders = (tenders: TenderTotal[]) => (options.blind ? tenders.filter(t => t.method !== CASH_TENDER) : tenders);
+    const section = (title: string) => {
+      lines.push(divider);
+      lines.push(receiptConfigService.centerText(title));
+      lines.push(divider);
+    };
+
+    // Header
+    lines.push(receiptConfigService.centerText(config.header.businessName));
+    if (config.header.addressLine1) {
+      lines.push(receiptConfigService.centerText(config.header.addressLine1));
+    }
+    if (config.header.addressLine2) {
+      lines.push(receiptConfigService.centerText(config.header.addressLine2));
+    }
+    lines.push('');
+    lines.push(doubleDivider);
+    lines.push(receiptConfigService.centerText(report.type === 'Z' ? `Z-REPORT #${report.zNumber ?? '-'}` : 'X-REPORT'));
+    lines.push(doubleDivider);
+    if (report.registerId) {
+      lines.push(receiptConfigService.formatLine('Register:', report.registerId));
+    }
+    lines.push(receiptConfigService.formatLine(report.type === 'Z' ? 'Closed By:' : 'Cashier:', report.cashierName));
+    lines.push(receiptConfigService.formatLine('Opened:', new Date(report.openedAt).toLocaleString()));
+    lines.push(receiptConfigService.formatLine(report.type === 'Z' ? 'Closed:' : 'As of:', new Date(report.generatedAt).toLocaleString()));
+    lines.push('');
+
+    // Sales
+    section('SALES');
+    lines.push(receiptConfigService.formatLine('Orders:', report.sales.orderCount.toString()));
+    lines.push(receiptConfigService.formatLine('Items Sold:', report.sales.itemsSold.toString()));
+    lines.push(receiptConfigService.formatLine('Gross Sales:', money(report.sales.grossSales)));
+    lines.push(receiptConfigService.formatLine('Tax:', money(report.sales.tax)));
+    lines.push(receiptConfigService.formatLine('Net Sales:', money(report.sales.netSales)));
+    lines.push(receiptConfigService.formatLine(`Discounts (${report.discounts.count}):`, money(report.discounts.total)));
+    lines.push(receiptConfigService.formatLine(`Voids (${report.voids.count}):`, money(report.voids.total)));
+    lines.push(receiptConfigService.formatLine('No Sales:', report.noSaleCount.toString()));
+    lines.push('');
+
+    // Cashiers sharing the drawer (Z-reports written before v21 have no breakdown)
+    if (report.cashiers && report.cashiers.length > 1) {
+      section('CASHIERS');
+      for (const cashier of report.cashiers) {
+        lines.push(receiptConfigService.formatLine(`${cashier.cashierName} (${cashier.orderCount}):`, money(cashier.grossSales)));
+      }
+      lines.push('');
+    }
+
+    // Tenders
+    section('TENDERS');
+    for (const tender of visibleTenders(report.tenders)) {
+      lines.push(receiptConfigService.formatLine(`${tenderLabel(tender.method)} (${tender.count}):`, money(tender.total)));
+    }
+    lines.push('');
+
+    // Refunds
+    if (report.refunds.count > 0) {
+      section('REFUNDS');
+      for (const tender of visibleTenders(report.refunds.byTender)) {
+        lines.push(receiptConfigService.formatLine(`${tenderLabel(tender.method)} (${tender.count}):`, money(tender.total)));
+      }
+      lines.push(receiptConfigService.formatLine('Total Refunds:', money(report.refunds.total)));
+      lines.push('');
+    }
+
+    // Tips are not takings (Z-reports written before v22 have none)
+    if (report.tips && report.tips.count > 0) {
+      section('TIPS');
+      for (const tender of visibleTenders(report.tips.byTender)) {
+        lines.push(receiptConfigService.formatLine(`${tenderLabel(tender.method)} (${tender.count}):`, money(tender.total)));
+      }
+      lines.push(receiptConfigService.formatLine('Total Tips:', money(report.tips.total)));
+      for (const staff of report.tips.byStaff) {
+        lines.push(receiptConfigService.formatLine(`  ${staff.staffName} (${staff.count})`, money(staff.total)));
+      }
+      lines.push('');
+    }
+
+    // Cash drawer
+    section('CASH DRAWER');
+    lines.push(receiptConfigService.formatLine('Opening Float:', money(report.cash.openingFloat)));
+    if (!options.blind) {
+      lines.push(receiptConfigService.formatLine('Cash Sales:', money(report.cash.cashSales)));
+      if (report.cash.cashTips) {
+        lines.push(receiptConfigService.formatLine('Cash Tips:', money(report.cash.cashTips)));
+      }
+      lines.push(receiptConfigService.formatLine('Cash Refunds:', money(-report.cash.cashRefunds)));
+    }
+    lines.push(receiptConfigService.formatLine('Paid In:', money(report.cash.paidIn)));
+    lines.push(receiptConfigService.formatLine('Float Top-Ups:', money(report.cash.floatTopUps)));
+    lines.push(receiptConfigService.formatLine('Paid Out:', money(-report.cash.paidOut)));
+    for (const expense of report.cash.paidOutByCategory) {
+      lines.push(
+        receiptConfigService.formatLine(`  ${EXPENSE_CATEGORY_LABELS[expense.category]} (${expense.count})`, money(-expense.total))
+      );
+    }
+    lines.push(receiptConfigService.formatLine('Safe Drops:', money(-report.cash.safeDrops)));
+    if (!options.blind) {
+      lines.push(receiptConfigService.formatLine('Expected Cash:', money(report.cash.expected)));
+    }
+    if (report.cash.counted !== null) {
+      for (const line of report.cash.countedDenominations) {
+        lines.push(
+          receiptConfigService.formatLine(
+            `  ${line.quantity} x ${money(line.denomination)}`,
+            money(multiplyMoney(line.denomination, line.quantity))
+          )
+        );
+      }
+      lines.push(receiptConfigService.formatLine('Counted Cash:', money(report.cash.counted)));
+      if (!options.blind && report.cash.variance !== null) {
+        const variance = report.cash.variance;
+        lines.push(
+          receiptConfigService.formatLine(variance > 0 ? 'Over:' : variance < 0 ? 'Short:' : 'Variance:', money(Math.abs(variance)))
+        );
+      }
+    }
+    lines.push('');
+
+    if (report.type === 'Z') {
+      lines.push(doubleDivider);
+      lines.push(receiptConfigService.formatLine('Net Takings:', money(report.netTakings)));
+      if (report.grandTotal !== null) {
+        lines.push(receiptConfigService.formatLine('Grand Total:', money(report.grandTotal)));
+      }
+    }
+
+    // Footer
+    lines.push(doubleDivider);
+    lines.push(receiptConfigService.centerText(`*** END OF ${report.type}-REPORT ***`));
+    lines.push('');
+    lines.push(receiptConfigService.centerText(`Printed: ${new Date().toLocaleString()}`));
+    lines.push('');
+    lines.push('');
+    lines.push('');
+
+    return lines;
+  }
+
+  formatEndOfDayForPrint(report: EndOfDayReport, currencySymbol: string = '£'): string[] {
+    const cs = currencySymbol;
+    const config = receiptConfigService.getConfig();
+    const lines: string[] = [];
+    const divider = receiptConfigService.getDividerLine();
+    const doubleDivider = receiptConfigService.getDoubleDividerLine();
+    const money = (amount: number) => (amount < 0 ? `-${cs}${Math.abs(amount).toFixed(2)}` : `${cs}${amount.toFixed(2)}`);
+    const tenderLabel = (method: string) => method.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+    const section = (title: string) => {
+      lines.push(divider);
+      lines.push(receiptConfigService.centerText(title));
+      lines.push(divider);
+    };
+
+    // Header
+    lines.push(receiptConfigService.centerText(config.header.businessName));
+    lines.push('');
+    lines.push(doubleDivider);
+    lines.push(receiptConfigService.centerText('STORE END OF DAY'));
+    lines.push(doubleDivider);
+    lines.push(receiptConfigService.formatLine('Date:', report.date));
+    lines.push(receiptConfigService.formatLine('Z-Reports:', report.zReportCount.toString()));
+    lines.push('');
+
+    // Registers
+    section('REGISTERS');
+    for (const register of report.registers) {
+      lines.push(`${register.registerId || 'Local'} — Z ${register.zNumbers.map(n => `#${n}`).join(', ')}`);
+      lines.push(receiptConfigService.formatLine('  Net Takings:', money(register.netTakings)));
+      lines.push(receiptConfigService.formatLine('  Variance:', money(register.variance)));
+    }
+    lines.push('');
+
+    // Sales
+    section('SALES');
+    lines.push(receiptConfigService.formatLine('Orders:', report.sales.orderCount.toString()));
+    lines.push(receiptConfigService.formatLine('Items Sold:', report.sales.itemsSold.toString()));
+    lines.push(receiptConfigService.formatLine('Gross Sales:', money(report.sales.grossSales)));
+    lines.push(receiptConfigService.formatLine('Tax:', money(report.sales.tax)));
+    lines.push(receiptConfigService.formatLine('Net Sales:', money(report.sales.netSales)));
+    lines.push(receiptConfigService.formatLine(`Discounts (${report.discounts.count}):`, money(report.discounts.total)));
+    lines.push(receiptConfigService.formatLine(`Voids (${report.voids.count}):`, money(report.voids.total)));
+    lines.push(receiptConfigService.formatLine(`Refunds (${report.refunds.count}):`, money(report.refunds.total)));
+    lines.push(receiptConfigService.formatLine('No Sales:', report.noSaleCount.toString()));
+    lines.push('');
+
+    // Tenders
+    section('TENDERS');
+    for (const tender of report.tenders) {
+      lines.push(receiptConfigService.formatLine(`${tenderLabel(tender.method)} (${tender.count}):`, money(tender.total)));
+    }
+    lines.push('');
+
+    // Tips
+    if (report.tips.count > 0) {
+      section('TIPS');
+      for (const tender of report.tips.byTender) {
+        lines.push(receiptConfigService.formatLine(`${tenderLabel(tender.method)} (${tender.count}):`, money(tender.total)));
+      }
+      lines.push(receiptConfigService.formatLine('Total Tips:', money(report.tips.total)));
+      for (const staff of report.tips.byStaff) {
+        lines.push(receiptConfigService.formatLine(`  ${staff.staffName} (${staff.count})`, money(staff.total)));
+      }
+      lines.push('');
+    }
+
+    // Cash
+    section('CASH');
+    lines.push(receiptConfigService.formatLine('Opening Floats:', money(report.cash.openingFloat)));
+    lines.push(receiptConfigService.formatLine('Cash Sales:', money(report.cash.cashSales)));
+    if (report.cash.cashTips) {
+      lines.push(receiptConfigService.formatLine('Cash Tips:', money(report.cash.cashTips)));
+    }
+    lines.push(receiptConfigService.formatLine('Cash Refunds:', money(-report.cash.cashRefunds)));
+    lines.push(receiptConfigService.formatLine('Paid In:', money(report.cash.paidIn)));
+    lines.push(receiptConfigService.formatLine('Float Top-Ups:', money(report.cash.floatTopUps)));
+    lines.push(receiptConfigService.formatLine('Paid Out:', money(-report.cash.paidOut)));
+    lines.push(receiptConfigService.formatLine('Safe Drops:', money(-report.cash.safeDrops)));
+    lines.push(receiptConfigService.formatLine('Expected Cash:', money(report.cash.expected)));
+    lines.push(receiptConfigService.formatLine('Counted Cash:', money(report.cash.counted)));
+    lines.push(receiptConfigService.formatLine('Variance:', money(report.cash.variance)));
+    lines.push('');
+
+    lines.push(doubleDivider);
+    lines.push(receiptConfigService.formatLine('Net Takings:', money(report.netTakings)));
+
+    // Drawers not yet closed are not in the totals above
+    if (report.openDrawers.length > 0) {
+      section('STILL OPEN');
+      for (const drawer of report.openDrawers) {
+        const who = drawer.cashiers.length > 0 ? drawer.cashiers.join(', ') : 'no cashier';
+        lines.push(`${drawer.registerName || drawer.registerId || 'Local'} (${who})`);
+      }
+    }
+
+    // Footer
+    lines.push(doubleDivider);
+    lines.push(receiptConfigService.centerText('*** END OF DAY ***'));
+    lines.push('');
+    lines.push(receiptConfigService.centerText(`Printed: ${new Date().toLocaleString()}`));
+    lines.push('');
+    lines.push('');
+    lines.push('');
+
+    return lines;
+  }
+
   formatReceiptForPrint(order: LocalOrder, currencySymbol: string = '£'): string[] {
     const cs = currencySymbol;
     const config = receiptConfigService.getConfig();
@@ -361,9 +1052,12 @@ export class DailyReportService {
     // Items
     for (const item of order.items) {
       const itemTotal = multiplyMoney(item.price, item.quantity);
-      if (item.quantity > 1) {
+      const unit = getMeasuredLine(item)?.unit;
+      if (item.quantity > 1 || unit) {
         lines.push(item.name);
-        lines.push(receiptConfigService.formatLine(`  ${item.quantity} x ${cs}${item.price.toFixed(2)}`, `${cs}${itemTotal.toFixed(2)}`));
+        lines.push(
+          receiptConfigService.formatLine(`  ${formatQuantityLine(item.quantity, item.price, unit, cs)}`, `${cs}${itemTotal.toFixed(2)}`)
+        );
       } else {
         lines.push(receiptConfigService.formatLine(item.name, `${cs}${itemTotal.toFixed(2)}`));
       }
@@ -381,6 +1075,10 @@ export class DailyReportService {
     }
     lines.push(doubleDivider);
     lines.push(receiptConfigService.formatLine('TOTAL:', `${cs}${order.total.toFixed(2)}`));
+    if (order.tipAmount) {
+      lines.push(receiptConfigService.formatLine('Tip:', `${cs}${order.tipAmount.toFixed(2)}`));
+      lines.push(receiptConfigService.formatLine('TOTAL PAID:', `${cs}${addMoney(order.total, order.tipAmount).toFixed(2)}`));
+    }
     lines.push(doubleDivider);
 
     // Payment
@@ -417,17 +1115,13 @@ export class DailyReportService {
     return lines;
   }
 
+  /** Ended shifts, most recent first */
   async getShiftHistory(limit: number = 30): Promise<ShiftData[]> {
     try {
-      const history = (await keyValueRepository.getObject<ShiftData[]>(SHIFT_HISTORY_KEY)) || [];
-      return history
-        .map(s => ({
-          ...s,
-          startTime: new Date(s.startTime),
-          endTime: s.endTime ? new Date(s.endTime) : null,
-        }))
-        .slice(-limit)
-        .reverse();
+      if (instoreApiConfig.isClient) {
+        return (await instoreApiClient.getShifts({ closed: true, limit })).map(reviveShift);
+      }
+      return await this.loadShifts(await shiftRepository.findRecentShifts(limit));
     } catch (error) {
       this.logger.error({ message: 'Failed to load shift history:' }, error instanceof Error ? error : new Error(String(error)));
       return [];
@@ -435,4 +1129,46 @@ export class DailyReportService {
   }
 }
 
+function mapShift(row: ShiftRow, drawer: DrawerRow): ShiftData {
+  return {
+    id: row.id,
+    drawerId: row.drawer_id,
+    registerId: row.register_id,
+    startTime: new Date(row.started_at),
+    endTime: row.ended_at !== null ? new Date(row.ended_at) : null,
+    cashierName: row.cashier_name,
+    cashierId: row.cashier_id,
+    openingCash: drawer.opening_float,
+    closingCash: drawer.closing_cash,
+    status: row.status,
+    endReason: row.end_reason,
+    zReportId: drawer.z_report_id ?? undefined,
+    zNumber: drawer.z_number ?? undefined,
+  };
+}
+
+/** Shifts from the in-store API arrive with their dates as strings */
+function reviveShift(shift: ShiftData): ShiftData {
+  return { ...shift, startTime: new Date(shift.startTime), endTime: shift.endTime ? new Date(shift.endTime) : null };
+}
+
+/** Each cashier once, in the order they first started on the drawer */
+function uniqueCashiers(shifts: ShiftRow[]): { cashierId: string; cashierName: string }[] {
+  const seen = new Map<string, string>();
+  for (const shift of shifts) {
+    if (!seen.has(shift.cashier_id)) seen.set(shift.cashier_id, shift.cashier_name);
+  }
+  return [...seen.entries()].map(([cashierId, cashierName]) => ({ cashierId, cashierName }));
+}
+
+/** YYYY-MM-DD of a local calendar day */
+function localDateKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function parsePayments(paymentsJson: string | null): PaymentLine[] | null {
+  return paymentsJson ? (JSON.parse(paymentsJson) as PaymentLine[]) : null;
+}
+
 export const dailyReportService = DailyReportService.getInstance();
@@ -141,31 +141,7 @@ export class PrinterServiceFactory {
       // Use the unified printer service for all printer types
       const printerService = this.unifiedPrinterService;
 
-      // Map the PrinterConfig to the format expected by UnifiedPrinterService
-      const unifiedConfig = {
-        printerName: printer.printerName,
-        printerType: this.mapConnectionTypeToPrinterType(printer.connectionType),
-        paperWidth: printer.paperWidth,
-        // Add specific properties based on connection type
-        ...(printer.connectionType === 'usb'
-          ? {
-              vendorId: printer.vendorId?.toString(16) || '',
-              productId: printer.productId?.toString(16) || '',
-            }
-          : {}),
-        ...(printer.connectionType === 'bluetooth'
-          ? {
-              deviceId: printer.macAddress || '',
-              macAddress: printer.macAddress || '',
-            }
-          : {}),
-        ...(printer.connectionType === 'network'
-          ? {
-              host: printer.ipAddress || '',
-              port: printer.port || 9100,
-            }
-          : {}),
-      };
+      const unifiedConfig = this.toConnectionConfig(printer);
 
       // Connect to the printer
       const connected = await printerService.connect(unifiedConfig);
@@ -187,6 +163,51 @@ export class PrinterServiceFactory {
     }
   }
 
+  /**
+   * Map a PrinterConfig to the connection config printer services expect
+   */
+  public toConnectionConfig(printer: PrinterConfig) {
+    return {
+      printerName: printer.printerName,
+      printerType: this.mapConnectionTypeToPrinterType(printer.connectionType),
+      paperWidth: printer.paperWidth,
+      // Add specific properties based on connection type
+      ...(printer.connectionType === 'usb'
+        ? {
+            vendorId: printer.vendorId?.toString(16) || '',
+            productId: printer.productId?.toString(16) || '',
+          }
+        : {}),
+      ...(printer.connectionType === 'bluetooth'
+        ? {
+            deviceId: printer.macAddress || '',
+            macAddress: printer.macAddress || '',
+          }
+        : {}),
+      ...(printer.connectionType === 'network'
+        ? {
+            host: printer.ipAddress || '',
+            port: printer.port || 9100,
+          }
+        : {}),
+    };
+  }
+
+  /**
+   * Create a printer service separate from the receipt printer's, for
+   * devices that stay configured alongside it (e.g. the label printer).
+   */
+  public createPrinterService(): BasePrinterService {
+    if (USE_MOCK_PRINTERS === 'true') {
+      return new UnifiedPrinterServiceMock();
+    }
+    if (isElectron()) {
+      return new ElectronPrinterService();
+    }
+    const { UnifiedPrinterService } = require('./UnifiedPrinterService');
+    return new UnifiedPrinterService();
+  }
+
   /**
    * Map connection type from PrinterConfig to PrinterConnectionType for UnifiedPrinterService
    */
@@ -279,6 +300,24 @@ export class PrinterServiceFactory {
     }
   }
 
+  /**
+   * Print pre-formatted text lines (shift reports, slips) on the active printer
+   * @param lines Lines already laid out for the paper width
+   */
+  public async printLines(lines: string[]): Promise<boolean> {
+    if (!this.activePrinterService) {
+      throw new Error('Not connected to a printer');
+    }
+
+    try {
+      this.logger.info(`Printing ${lines.length} text lines`);
+      return await this.activePrinterService.printText(lines);
+    } catch (error) {
+      this.logger.error({ message: 'Failed to print text' }, error instanceof Error ? error : new Error(String(error)));
+      return false;
+    }
+  }
+
   /**
    * Get status of the active printer
    */
@@ -1,3 +1,5 @@
+import type { SellingUnit } from '../product/unitOfMeasure';
+
 /**
  * Printer configuration interface
  */
@@ -29,8 +31,23 @@ export interface PrinterConfig {
  */
 export interface ReceiptItem {
   name: string;
+  /** Decimal for items sold by weight or length */
   quantity: number;
+  /** Price of one unit — per kg, per metre, … when `unit` is set */
   price: number;
+  /** Selling unit of an item sold by measure; absent for items sold each */
+  unit?: SellingUnit;
+  /** Promotions and discounts on this line, printed beneath it */
+  discounts?: ReceiptDiscount[];
+}
+
+/**
+ * A discount line on a receipt (promotion, code, manual, loyalty, store credit)
+ */
+export interface ReceiptDiscount {
+  label: string;
+  /** Positive amount taken off, in dollars */
+  amount: number;
 }
 
 /**
@@ -52,7 +69,11 @@ export interface ReceiptData {
   subtotal: number;
   tax: number;
   total: number;
+  /** Basket-level discounts, printed after the subtotal */
+  discounts?: ReceiptDiscount[];
   paymentMethod: string;
+  /** Gratuity paid on top of `total` (optional) */
+  tipAmount?: number;
   /** Payment lines for split tender (optional) */
   paymentLines?: ReceiptPaymentLine[];
   date: Date;
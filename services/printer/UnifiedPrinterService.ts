@@ -2,6 +2,8 @@ import { LoggerFactory } from '../logger/LoggerFactory';
 import { AbstractPrinterService } from './BasePrinterService';
 import { PrinterStatus, ReceiptData } from './PrinterTypes';
 import { receiptConfigService } from './ReceiptConfigService';
+import { addMoney, multiplyMoney } from '../../utils/money';
+import { formatQuantityLine, isMeasured } from '../product/unitOfMeasure';
 
 // We'll use dynamic imports for these native modules to avoid initialization issues
 // These variables will hold the imported modules when needed
@@ -223,11 +225,11 @@ export class UnifiedPrinterService extends AbstractPrinterService {
 
       // Items
       for (const item of data.items) {
-        const itemTotal = item.quantity * item.price;
-        if (item.quantity > 1) {
+        const itemTotal = multiplyMoney(item.price, item.quantity);
+        if (item.quantity > 1 || isMeasured(item.unit)) {
           await this.printerInstance.printText(`${item.name}\n`);
           await this.printerInstance.printText(
-            `${receiptConfigService.formatLine(`  ${item.quantity} x ${cs}${item.price.toFixed(2)}`, `${cs}${itemTotal.toFixed(2)}`)}\n`
+            `${receiptConfigService.formatLine(`  ${formatQuantityLine(item.quantity, item.price, item.unit, cs)}`, `${cs}${itemTotal.toFixed(2)}`)}\n`
           );
         } else {
           await this.printerInstance.printText(`${receiptConfigService.formatLine(item.name, `${cs}${itemTotal.toFixed(2)}`)}\n`);
@@ -247,6 +249,10 @@ export class UnifiedPrinterService extends AbstractPrinterService {
       await this.printerInstance.setBold(true);
       await this.printerInstance.printText(`${doubleDivider}\n`);
       await this.printerInstance.printText(`Total: ${cs}${data.total.toFixed(2)}\n`);
+      if (data.tipAmount) {
+        await this.printerInstance.printText(`Tip: ${cs}${data.tipAmount.toFixed(2)}\n`);
+        await this.printerInstance.printText(`Total Paid: ${cs}${addMoney(data.total, data.tipAmount).toFixed(2)}\n`);
+      }
       await this.printerInstance.setBold(false);
       await this.printerInstance.printText(`${doubleDivider}\n`);
 
@@ -302,6 +308,30 @@ export class UnifiedPrinterService extends AbstractPrinterService {
     }
   }
 
+  /**
+   * Print pre-formatted text lines (shift reports, slips)
+   * @param lines Lines already laid out for the paper width
+   */
+  async printText(lines: string[]): Promise<boolean> {
+    if (!this._isConnected || !this.printerInstance) {
+      throw new Error('Not connected to a printer');
+    }
+
+    try {
+      const config = receiptConfigService.getConfig();
+      await this.printerInstance.init();
+      await this.printerInstance.alignLeft();
+      await this.printerInstance.printText(`${lines.join('\n')}\n`);
+      if (config.options.cutPaper) {
+        await this.printerInstance.cutPaper();
+      }
+      return true;
+    } catch (error) {
+      this.logger.error({ message: 'Failed to print text' }, error instanceof Error ? error : new Error(String(error)));
+      return false;
+    }
+  }
+
   /**
    * Get printer status
    */
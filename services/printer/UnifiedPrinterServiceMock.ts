@@ -87,6 +87,21 @@ export class UnifiedPrinterServiceMock extends AbstractPrinterService {
     return true;
   }
 
+  /**
+   * Mock printing text lines
+   */
+  async printText(lines: string[]): Promise<boolean> {
+    if (!this.isConnected()) {
+      this.logger.error({ message: 'Cannot print: Not connected to a printer', mock: true });
+      return false;
+    }
+
+    for (const line of lines) {
+      this.logger.info(line, { mock: true, receipt: true });
+    }
+    return true;
+  }
+
   /**
    * Get printer status
    */
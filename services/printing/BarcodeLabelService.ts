@@ -1,8 +1,9 @@
 /**
  * BarcodeLabelService
  *
- * Handles barcode label printing using ESC/POS commands for label printers.
- * Supports various label formats and provides CSV export fallback.
+ * Prints barcode labels. Labels go to the configured label printer as ZPL or
+ * TSPL (LabelPrinterService), or to the receipt printer as ESC/POS when no
+ * label printer is set up. Provides previews and a CSV export fallback.
  *
  * See: docs/specs/inventory/inventory.md §7.6
  */
@@ -10,25 +11,12 @@
 import { PrinterServiceFactory } from '../printer/PrinterServiceFactory';
 import { LoggerFactory } from '../logger/LoggerFactory';
 import { auditLogService } from '../audit/AuditLogService';
+import { labelPrinterService } from './LabelPrinterService';
+import { EscPosLabelDriver } from './labels/EscPosLabelDriver';
+import { layoutLabel } from './labels/labelLayout';
+import { LabelData, LabelDpi, LabelFormat, LabelLanguage, LabelLayout } from './labels/labelTypes';
 
-export interface LabelData {
-  productId: string;
-  variantId?: string;
-  name: string;
-  sku?: string;
-  price?: number;
-  barcode?: string;
-  quantity: number; // Number of labels to print
-}
-
-export interface LabelFormat {
-  width: number; // Label width in mm
-  height: number; // Label height in mm
-  fontSize: 'small' | 'medium' | 'large';
-  includePrice: boolean;
-  includeName: boolean;
-  includeSku: boolean;
-}
+export type { LabelData, LabelFormat } from './labels/labelTypes';
 
 export interface PrintResult {
   success: boolean;
@@ -37,9 +25,21 @@ export interface PrintResult {
   error?: string;
 }
 
+export interface LabelPreview {
+  language: LabelLanguage;
+  dpi: LabelDpi;
+  layout: LabelLayout;
+  /** Commands that would be sent for this label */
+  commands: string;
+}
+
+/** Resolution assumed for ESC/POS previews (typical receipt print head) */
+const RECEIPT_PRINTER_DPI: LabelDpi = 203;
+
 export class BarcodeLabelService {
   private static instance: BarcodeLabelService;
   private logger = LoggerFactory.getInstance().createLogger('BarcodeLabelService');
+  private escPosDriver = new EscPosLabelDriver();
 
   private constructor() {}
 
@@ -55,40 +55,15 @@ export class BarcodeLabelService {
    */
   async printLabels(labels: LabelData[], format: LabelFormat, printedBy?: string): Promise<PrintResult> {
     try {
-      const printerFactory = PrinterServiceFactory.getInstance();
-
-      // Check if printer is connected
-      const isConnected = printerFactory.isConnectedToPrinter();
-      if (!isConnected) {
-        throw new Error('Printer not connected');
-      }
-
-      let printed = 0;
-      let failed = 0;
-
-      for (const label of labels) {
-        try {
-          const escPosCommands = this.generateLabelCommands(label, format);
-
-          // Print the specified quantity
-          for (let i = 0; i < label.quantity; i++) {
-            const success = await printerFactory.printRaw(escPosCommands);
-            if (success) {
-              printed++;
-            } else {
-              failed++;
-            }
-          }
-        } catch (err) {
-          this.logger.warn(`Failed to print label for ${label.name}:`, err);
-          failed += label.quantity;
-        }
-      }
+      const settings = await labelPrinterService.getSettings();
+      const { printed, failed, language } = settings.enabled
+        ? { ...(await this.printToLabelPrinter(labels, format)), language: settings.language }
+        : { ...(await this.printToReceiptPrinter(labels, format)), language: 'escpos' };
 
       await auditLogService.log('barcode_labels:printed', {
         userId: printedBy,
         details: `Printed ${printed} barcode labels (${failed} failed)`,
-        metadata: { printed, failed, labelCount: labels.length },
+        metadata: { printed, failed, labelCount: labels.length, language },
       });
 
       return { success: true, printed, failed };
@@ -103,6 +78,100 @@ export class BarcodeLabelService {
     }
   }
 
+  /**
+   * Render and send labels to the label printer; each label's copies are one job
+   */
+  private async printToLabelPrinter(labels: LabelData[], format: LabelFormat): Promise<{ printed: number; failed: number }> {
+    const settings = await labelPrinterService.getSettings();
+    const driver = labelPrinterService.getDriver(settings);
+
+    let failed = 0;
+    const rendered: { label: LabelData; commands: string }[] = [];
+    for (const label of labels) {
+      try {
+        rendered.push({ label, commands: driver.render(label, format, settings.dpi) });
+      } catch (err) {
+        this.logger.warn(`Failed to render label for ${label.name}:`, err);
+        failed += label.quantity;
+      }
+    }
+
+    if (rendered.length === 0) {
+      return { printed: 0, failed };
+    }
+
+    let printed = 0;
+    const results = await labelPrinterService.send(rendered.map(job => job.commands));
+    results.forEach((success, index) => {
+      if (success) {
+        printed += rendered[index].label.quantity;
+      } else {
+        failed += rendered[index].label.quantity;
+      }
+    });
+
+    return { printed, failed };
+  }
+
+  /**
+   * Print labels as ESC/POS on the receipt printer, one print per copy
+   */
+  private async printToReceiptPrinter(labels: LabelData[], format: LabelFormat): Promise<{ printed: number; failed: number }> {
+    const printerFactory = PrinterServiceFactory.getInstance();
+
+    // Check if printer is connected
+    const isConnected = printerFactory.isConnectedToPrinter();
+    if (!isConnected) {
+      throw new Error('Printer not connected');
+    }
+
+    let printed = 0;
+    let failed = 0;
+
+    for (const label of labels) {
+      try {
+        const escPosCommands = this.escPosDriver.render(label, format);
+
+        // Print the specified quantity
+        for (let i = 0; i < label.quantity; i++) {
+          const success = await printerFactory.printRaw(escPosCommands);
+          if (success) {
+            printed++;
+          } else {
+            failed++;
+          }
+        }
+      } catch (err) {
+        this.logger.warn(`Failed to print label for ${label.name}:`, err);
+        failed += label.quantity;
+      }
+    }
+
+    return { printed, failed };
+  }
+
+  /**
+   * Lay out and render one label for the printer labels would currently go to
+   * @throws Error when the barcode is invalid for the symbology or the label is too small
+   */
+  async previewLabel(label: LabelData, format: LabelFormat): Promise<LabelPreview> {
+    const settings = await labelPrinterService.getSettings();
+    if (settings.enabled) {
+      return {
+        language: settings.language,
+        dpi: settings.dpi,
+        layout: layoutLabel(label, format, settings.dpi),
+        commands: labelPrinterService.getDriver(settings).render(label, format, settings.dpi),
+      };
+    }
+    return {
+      language: 'escpos',
+      dpi: RECEIPT_PRINTER_DPI,
+      layout: layoutLabel(label, format, RECEIPT_PRINTER_DPI),
+      commands: this.escPosDriver.render(label, format),
+    };
+  }
+
   /**
    * Export label data to CSV as fallback when printer unavailable
    */
@@ -126,72 +195,6 @@ export class BarcodeLabelService {
     return csvContent;
   }
 
-  /**
-   * Generate ESC/POS commands for a single label
-   */
-  private generateLabelCommands(label: LabelData, format: LabelFormat): string {
-    const ESC = '\x1B';
-    const GS = '\x1D';
-
-    let commands = '';
-
-    // Initialize printer
-    commands += ESC + '@'; // Initialize
-    commands += ESC + 'a' + '\x01'; // Center align
-
-    // Set font size based on format
-    switch (format.fontSize) {
-      case 'small':
-        commands += GS + '!' + '\x00'; // Normal size
-        break;
-      case 'medium':
-        commands += GS + '!' + '\x11'; // Double height and width
-        break;
-      case 'large':
-        commands += GS + '!' + '\x22'; // Triple height and width
-        break;
-    }
-
-    // Product name (if enabled)
-    if (format.includeName) {
-      commands += label.name + '\n';
-    }
-
-    // SKU (if enabled and available)
-    if (format.includeSku && label.sku) {
-      commands += GS + '!' + '\x00'; // Reset to normal size for SKU
-      commands += 'SKU: ' + label.sku + '\n';
-    }
-
-    // Barcode (use SKU, barcode field, or productId as fallback)
-    const barcodeData = label.barcode || label.sku || label.productId;
-    if (barcodeData) {
-      // Set barcode parameters
-      commands += GS + 'h' + '\x40'; // Barcode height (64 dots)
-      commands += GS + 'w' + '\x02'; // Barcode width (2 dots)
-      commands += GS + 'H' + '\x02'; // Print HRI below barcode
-      commands += GS + 'f' + '\x00'; // Font for HRI
-
-      // Print Code 128 barcode
-      commands += GS + 'k' + '\x49'; // Code 128
-      commands += String.fromCharCode(barcodeData.length); // Length
-      commands += barcodeData; // Data
-    }
-
-    // Price (if enabled and available)
-    if (format.includePrice && label.price !== undefined) {
-      commands += '\n';
-      commands += GS + '!' + '\x11'; // Double size for price
-      commands += '$' + label.price.toFixed(2) + '\n';
-    }
-
-    // Cut paper (if supported)
-    commands += '\n\n';
-    commands += GS + 'V' + '\x41' + '\x03'; // Partial cut
-
-    return commands;
-  }
-
   /**
    * Get default label format
    */
@@ -203,6 +206,7 @@ export class BarcodeLabelService {
       includePrice: true,
       includeName: true,
       includeSku: true,
+      symbology: 'auto',
     };
   }
 
@@ -0,0 +1,137 @@
+/**
+ * LabelPrinterService
+ *
+ * The label printer (Zebra ZPL, TSC / Godex TSPL) configured separately from
+ * the receipt printer. Holds its settings and sends rendered label jobs; a
+ * connection is opened per job so the receipt printer stays connected.
+ *
+ * Settings: key_value_store 'labelPrinterSettings'
+ *
+ * See: docs/specs/inventory/inventory.md §7.6
+ */
+
+import { LoggerFactory } from '../logger/LoggerFactory';
+import { keyValueRepository } from '../../repositories/KeyValueRepository';
+import { PrinterServiceFactory } from '../printer/PrinterServiceFactory';
+import { PrinterConfig } from '../printer/PrinterTypes';
+import { createLabelDriver } from './labels/labelDrivers';
+import { LabelLanguageDriver } from './labels/LabelLanguageDriver';
+import { LabelDpi } from './labels/labelTypes';
+
+const LABEL_PRINTER_SETTINGS_KEY = 'labelPrinterSettings';
+
+export interface LabelPrinterSettings {
+  /** When false, labels go to the receipt printer as ESC/POS */
+  enabled: boolean;
+  language: 'zpl' | 'tspl';
+  dpi: LabelDpi;
+  /** Gap between labels on the roll in mm (TSPL) */
+  gapMm: number;
+  printer: PrinterConfig;
+}
+
+export const DEFAULT_LABEL_PRINTER_SETTINGS: LabelPrinterSettings = {
+  enabled: false,
+  language: 'zpl',
+  dpi: 203,
+  gapMm: 2,
+  printer: {
+    printerName: 'Label Printer',
+    connectionType: 'network',
+    ipAddress: '',
+    port: 9100,
+  },
+};
+
+export class LabelPrinterService {
+  private static instance: LabelPrinterService;
+  private logger = LoggerFactory.getInstance().createLogger('LabelPrinterService');
+  private settings: LabelPrinterSettings | null = null;
+
+  private constructor() {}
+
+  static getInstance(): LabelPrinterService {
+    if (!LabelPrinterService.instance) {
+      LabelPrinterService.instance = new LabelPrinterService();
+    }
+    return LabelPrinterService.instance;
+  }
+
+  /** Current settings, loaded from storage on first use */
+  async getSettings(): Promise<LabelPrinterSettings> {
+    if (!this.settings) {
+      try {
+        const saved = await keyValueRepository.getObject<LabelPrinterSettings>(LABEL_PRINTER_SETTINGS_KEY);
+        this.settings = saved
+          ? { ...DEFAULT_LABEL_PRINTER_SETTINGS, ...saved, printer: { ...DEFAULT_LABEL_PRINTER_SETTINGS.printer, ...saved.printer } }
+          : DEFAULT_LABEL_PRINTER_SETTINGS;
+      } catch (error) {
+        this.logger.error({ message: 'Failed to load label printer settings' }, error instanceof Error ? error : new Error(String(error)));
+        return { ...DEFAULT_LABEL_PRINTER_SETTINGS };
+      }
+    }
+    return { ...this.settings, printer: { ...this.settings.printer } };
+  }
+
+  /** Persist label printer settings */
+  async configure(settings: LabelPrinterSettings): Promise<void> {
+    this.settings = settings;
+    await keyValueRepository.setObject(LABEL_PRINTER_SETTINGS_KEY, settings);
+    this.logger.info(`Label printer ${settings.enabled ? `set to ${settings.language.toUpperCase()} ${settings.dpi} dpi` : 'disabled'}`);
+  }
+
+  /** Driver rendering labels in the configured printer's language */
+  getDriver(settings: LabelPrinterSettings): LabelLanguageDriver {
+    return createLabelDriver(settings.language, { gapMm: settings.gapMm });
+  }
+
+  /**
+   * Send rendered label commands to the label printer in one connection.
+   * @returns Whether each command string was accepted, in order
+   * @throws Error when the label printer is disabled or cannot be reached
+   */
+  async send(jobs: string[]): Promise<boolean[]> {
+    const settings = await this.getSettings();
+    if (!settings.enabled) {
+      throw new Error('Label printer is not configured');
+    }
+
+    const factory = PrinterServiceFactory.getInstance();
+    const service = factory.createPrinterService();
+    const connected = await service.connect(factory.toConnectionConfig(settings.printer));
+    if (!connected) {
+      throw new Error(`Failed to connect to label printer: ${settings.printer.printerName}`);
+    }
+
+    try {
+      const results: boolean[] = [];
+      for (const commands of jobs) {
+        results.push(await service.printRaw(commands));
+      }
+      return results;
+    } finally {
+      await service.disconnect();
+    }
+  }
+
+  /**
+   * Test connectivity to a label printer without saving it.
+   * @returns true if the connection succeeded
+   */
+  async testConnection(printer: PrinterConfig): Promise<boolean> {
+    try {
+      const factory = PrinterServiceFactory.getInstance();
+      const service = factory.createPrinterService();
+      const connected = await service.connect(factory.toConnectionConfig(printer));
+      if (connected) {
+        await service.disconnect();
+      }
+      return connected;
+    } catch (error) {
+      this.logger.error({ message: 'Label printer test connection failed' }, error instanceof Error ? error : new Error(String(error)));
+      return false;
+    }
+  }
+}
+
+export const labelPrinterService = LabelPrinterService.getInstance();
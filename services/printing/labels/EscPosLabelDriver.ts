@@ -0,0 +1,115 @@
+import { LabelLanguageDriver } from './LabelLanguageDriver';
+import { resolveBarcode } from './barcodeSymbology';
+import { LabelData, LabelFormat } from './labelTypes';
+
+const ESC = '\x1B';
+const GS = '\x1D';
+
+/**
+ * Command strings are UTF-8 encoded on the way to the printer, so length
+ * bytes must stay below 0x80 to pass through unchanged.
+ */
+const MAX_ESC_POS_LENGTH_BYTE = 0x7f;
+
+/**
+ * ESC/POS on the receipt printer — the fallback when no label printer is
+ * configured. Prints line by line; label size only affects the paper fed.
+ */
+export class EscPosLabelDriver implements LabelLanguageDriver {
+  readonly language = 'escpos' as const;
+  readonly handlesCopies = false;
+
+  render(label: LabelData, format: LabelFormat): string {
+    let commands = '';
+
+    // Initialize printer
+    commands += ESC + '@'; // Initialize
+    commands += ESC + 'a' + '\x01'; // Center align
+
+    // Set font size based on format
+    switch (format.fontSize) {
+      case 'small':
+        commands += GS + '!' + '\x00'; // Normal size
+        break;
+      case 'medium':
+        commands += GS + '!' + '\x11'; // Double height and width
+        break;
+      case 'large':
+        commands += GS + '!' + '\x22'; // Triple height and width
+        break;
+    }
+
+    // Product name (if enabled)
+    if (format.includeName) {
+      commands += label.name + '\n';
+    }
+
+    // SKU (if enabled and available)
+    if (format.includeSku && label.sku) {
+      commands += GS + '!' + '\x00'; // Reset to normal size for SKU
+      commands += 'SKU: ' + label.sku + '\n';
+    }
+
+    // Barcode (use barcode field, SKU, or productId as fallback)
+    const barcodeValue = label.barcode || label.sku || label.productId;
+    if (barcodeValue) {
+      commands += this.barcode(barcodeValue, format);
+    }
+
+    // Price (if enabled and available)
+    if (format.includePrice && label.price !== undefined) {
+      commands += '\n';
+      commands += GS + '!' + '\x11'; // Double size for price
+      commands += (format.currencySymbol ?? '$') + label.price.toFixed(2) + '\n';
+    }
+
+    // Cut paper (if supported)
+    commands += '\n\n';
+    commands += GS + 'V' + '\x41' + '\x03'; // Partial cut
+
+    return commands;
+  }
+
+  private barcode(value: string, format: LabelFormat): string {
+    const barcode = resolveBarcode(value, format.symbology);
+
+    if (barcode.symbology === 'qr') {
+      const stored = barcode.data.length + 3;
+      if (!/^[\x20-\x7e]+$/.test(barcode.data) || stored > MAX_ESC_POS_LENGTH_BYTE) {
+        throw new Error('QR codes on the receipt printer are limited to 124 ASCII characters');
+      }
+      let commands = '';
+      commands += GS + '(k' + '\x04\x00' + '1A2\x00'; // Model 2
+      commands += GS + '(k' + '\x03\x00' + '1C' + '\x05'; // Cell size 5 dots
+      commands += GS + '(k' + '\x03\x00' + '1E1'; // Error correction M
+      commands += GS + '(k' + String.fromCharCode(stored) + '\x00' + '1P0' + barcode.data; // Store data
+      commands += GS + '(k' + '\x03\x00' + '1Q0'; // Print
+      return commands + '\n';
+    }
+
+    let commands = '';
+    commands += GS + 'h' + '\x40'; // Barcode height (64 dots)
+    commands += GS + 'w' + '\x02'; // Barcode width (2 dots)
+    commands += GS + 'H' + '\x02'; // Print HRI below barcode
+    commands += GS + 'f' + '\x00'; // Font for HRI
+
+    switch (barcode.symbology) {
+      case 'ean13':
+        commands += GS + 'k' + '\x43' + String.fromCharCode(barcode.data.length) + barcode.data; // JAN13 / EAN-13
+        break;
+      case 'upca':
+        commands += GS + 'k' + '\x41' + String.fromCharCode(barcode.data.length) + barcode.data; // UPC-A
+        break;
+      case 'code128': {
+        // Code 128 needs a code set selector; {B covers printable ASCII
+        const data = '{B' + barcode.data.replace(/\{/g, '{{');
+        if (data.length > MAX_ESC_POS_LENGTH_BYTE) {
+          throw new Error(`Barcode "${barcode.text}" is too long for the receipt printer`);
+        }
+        commands += GS + 'k' + '\x49' + String.fromCharCode(data.length) + data;
+        break;
+      }
+    }
+    return commands;
+  }
+}
@@ -0,0 +1,19 @@
+import { LabelData, LabelDpi, LabelFormat, LabelLanguage } from './labelTypes';
+
+/**
+ * Renders one label into the command language of a printer.
+ */
+export interface LabelLanguageDriver {
+  readonly language: LabelLanguage;
+
+  /**
+   * true when the rendered commands already print `label.quantity` copies;
+   * false when the caller must send them once per copy
+   */
+  readonly handlesCopies: boolean;
+
+  /**
+   * @throws Error when the barcode value is invalid for the symbology or the label is too small
+   */
+  render(label: LabelData, format: LabelFormat, dpi: LabelDpi): string;
+}
@@ -0,0 +1,60 @@
+import { LabelLanguageDriver } from './LabelLanguageDriver';
+import { layoutLabel } from './labelLayout';
+import { LabelBarcodeElement, LabelData, LabelDpi, LabelFormat, LabelTextElement } from './labelTypes';
+
+const DEFAULT_GAP_MM = 2;
+
+/**
+ * TSPL / TSPL2 (TSC, Godex and compatibles). Text uses the scalable font "0"
+ * in a centred BLOCK; sizes are converted from dots to points.
+ */
+export class TsplLabelDriver implements LabelLanguageDriver {
+  readonly language = 'tspl' as const;
+  readonly handlesCopies = true;
+
+  /**
+   * @param gapMm Gap between labels on the roll (the printer uses it to find the next label)
+   */
+  constructor(private readonly gapMm: number = DEFAULT_GAP_MM) {}
+
+  render(label: LabelData, format: LabelFormat, dpi: LabelDpi): string {
+    const layout = layoutLabel(label, format, dpi);
+    const lines = [`SIZE ${format.width} mm,${format.height} mm`, `GAP ${this.gapMm} mm,0 mm`, 'DIRECTION 1', 'CODEPAGE UTF-8', 'CLS'];
+
+    for (const element of layout.elements) {
+      lines.push(element.kind === 'text' ? this.text(element, dpi) : this.barcode(element));
+    }
+
+    lines.push(`PRINT ${Math.max(1, label.quantity)},1`);
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  private text(element: LabelTextElement, dpi: LabelDpi): string {
+    const points = Math.max(1, Math.round((element.height * 72) / dpi));
+    // Align 2 = centre within the block
+    return `BLOCK ${element.x},${element.y},${element.width},${element.height},"0",0,${points},${points},0,2,"${escapeTspl(element.text)}"`;
+  }
+
+  private barcode(element: LabelBarcodeElement): string {
+    const { barcode } = element;
+    const data = escapeTspl(barcode.data);
+    const narrow = element.moduleWidth;
+    switch (barcode.symbology) {
+      case 'ean13':
+        return `BARCODE ${element.x},${element.y},"EAN13",${element.height},1,0,${narrow},${narrow},"${data}"`;
+      case 'upca':
+        return `BARCODE ${element.x},${element.y},"UPCA",${element.height},1,0,${narrow},${narrow},"${data}"`;
+      case 'code128':
+        // "128" lets the printer switch code sets automatically
+        return `BARCODE ${element.x},${element.y},"128",${element.height},1,0,${narrow},${narrow},"${data}"`;
+      case 'qr':
+        // Error correction M, automatic encoding, no rotation
+        return `QRCODE ${element.x},${element.y},M,${element.moduleWidth},A,0,"${data}"`;
+    }
+  }
+}
+
+/** Escape double quotes inside a TSPL string parameter */
+export function escapeTspl(value: string): string {
+  return value.replace(/"/g, '\\["]');
+}
@@ -0,0 +1,51 @@
+import { LabelLanguageDriver } from './LabelLanguageDriver';
+import { layoutLabel } from './labelLayout';
+import { LabelBarcodeElement, LabelData, LabelDpi, LabelFormat, LabelTextElement } from './labelTypes';
+
+/**
+ * ZPL II (Zebra). Text uses the scalable font 0 centred in a one-line field
+ * block; field data goes through ^FH so ^, ~ and \ print literally.
+ */
+export class ZplLabelDriver implements LabelLanguageDriver {
+  readonly language = 'zpl' as const;
+  readonly handlesCopies = true;
+
+  render(label: LabelData, format: LabelFormat, dpi: LabelDpi): string {
+    const layout = layoutLabel(label, format, dpi);
+    const lines = ['^XA', '^CI28', `^PW${layout.widthDots}`, `^LL${layout.heightDots}`, '^LH0,0'];
+
+    for (const element of layout.elements) {
+      lines.push(element.kind === 'text' ? this.text(element) : this.barcode(element));
+    }
+
+    lines.push(`^PQ${Math.max(1, label.quantity)}`, '^XZ');
+    return lines.join('\n') + '\n';
+  }
+
+  private text(element: LabelTextElement): string {
+    return `^FO${element.x},${element.y}^A0N,${element.height},${element.height}^FB${element.width},1,0,C^FH\\^FD${escapeZpl(element.text)}^FS`;
+  }
+
+  private barcode(element: LabelBarcodeElement): string {
+    const { barcode } = element;
+    const origin = `^FO${element.x},${element.y}`;
+    const data = escapeZpl(barcode.data);
+    switch (barcode.symbology) {
+      case 'ean13':
+        return `${origin}^BY${element.moduleWidth}^BEN,${element.height},Y,N^FH\\^FD${data}^FS`;
+      case 'upca':
+        return `${origin}^BY${element.moduleWidth}^BUN,${element.height},Y,N,Y^FH\\^FD${data}^FS`;
+      case 'code128':
+        // Mode A: the printer picks code sets B/C to keep the symbol short
+        return `${origin}^BY${element.moduleWidth}^BCN,${element.height},Y,N,N,A^FH\\^FD${data}^FS`;
+      case 'qr':
+        // Model 2, error correction M, automatic data mode
+        return `${origin}^BQN,2,${element.moduleWidth}^FH\\^FDMA,${data}^FS`;
+    }
+  }
+}
+
+/** Hex-escape the characters ZPL treats as command prefixes (with ^FH\) */
+export function escapeZpl(value: string): string {
+  return value.replace(/[\\^~]/g, char => `\\${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
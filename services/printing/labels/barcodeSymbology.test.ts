@@ -0,0 +1,62 @@
+import { gtinCheckDigit, isValidGtin, resolveBarcode } from './barcodeSymbology';
+
+describe('barcodeSymbology', () => {
+  describe('gtinCheckDigit', () => {
+    it('computes GS1 check digits', () => {
+      expect(gtinCheckDigit('400638133393')).toBe(1); // EAN-13 4006381333931
+      expect(gtinCheckDigit('03600029145')).toBe(2); // UPC-A 036000291452
+      expect(gtinCheckDigit('9638507')).toBe(4); // EAN-8 96385074
+    });
+
+    it('validates complete GTINs', () => {
+      expect(isValidGtin('4006381333931')).toBe(true);
+      expect(isValidGtin('4006381333932')).toBe(false);
+      expect(isValidGtin('ABC')).toBe(false);
+    });
+  });
+
+  describe('resolveBarcode (auto)', () => {
+    it('prints a valid 13-digit GTIN as EAN-13 without the check digit', () => {
+      expect(resolveBarcode('4006381333931')).toEqual({ symbology: 'ean13', data: '400638133393', text: '4006381333931' });
+    });
+
+    it('prints a valid 12-digit GTIN as UPC-A', () => {
+      expect(resolveBarcode('036000291452')).toEqual({ symbology: 'upca', data: '03600029145', text: '036000291452' });
+    });
+
+    it('falls back to Code 128 for SKUs and numbers with a wrong check digit', () => {
+      expect(resolveBarcode('TSHIRT-RED-M').symbology).toBe('code128');
+      expect(resolveBarcode('4006381333932').symbology).toBe('code128');
+    });
+
+    it('rejects an empty value', () => {
+      expect(() => resolveBarcode('  ')).toThrow('empty');
+    });
+  });
+
+  describe('resolveBarcode (explicit)', () => {
+    it('adds the check digit when EAN-13 is given 12 digits', () => {
+      expect(resolveBarcode('400638133393', 'ean13').text).toBe('4006381333931');
+    });
+
+    it('rejects an EAN-13 with a wrong check digit', () => {
+      expect(() => resolveBarcode('4006381333932', 'ean13')).toThrow('invalid check digit (expected 1)');
+    });
+
+    it('rejects a UPC-A of the wrong length', () => {
+      expect(() => resolveBarcode('12345', 'upca')).toThrow('UPC-A needs 11 or 12 digits');
+    });
+
+    it('rejects non-ASCII Code 128 data', () => {
+      expect(() => resolveBarcode('CAFÉ', 'code128')).toThrow('printable ASCII');
+    });
+
+    it('accepts any text as a QR code', () => {
+      expect(resolveBarcode('https://shop.example/p/123', 'qr')).toEqual({
+        symbology: 'qr',
+        data: 'https://shop.example/p/123',
+        text: 'https://shop.example/p/123',
+      });
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { LabelSymbology, ResolvedBarcode } from './labelTypes';
+
+/**
+ * GS1 check digit for the digits of a GTIN without its check digit.
+ * Weights alternate 3,1,… starting from the rightmost digit.
+ */
+export function gtinCheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = digits.length - 1, weight = 3; i >= 0; i--, weight = weight === 3 ? 1 : 3) {
+    sum += Number(digits[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/** true when `value` is all digits and its last digit is the correct GTIN check digit */
+export function isValidGtin(value: string): boolean {
+  if (!/^\d{8,14}$/.test(value)) return false;
+  return gtinCheckDigit(value.slice(0, -1)) === Number(value[value.length - 1]);
+}
+
+function resolveGtin(value: string, symbology: 'ean13' | 'upca'): ResolvedBarcode {
+  const length = symbology === 'ean13' ? 13 : 12;
+  const name = symbology === 'ean13' ? 'EAN-13' : 'UPC-A';
+  if (!/^\d+$/.test(value) || (value.length !== length && value.length !== length - 1)) {
+    throw new Error(`${name} needs ${length - 1} or ${length} digits, got "${value}"`);
+  }
+  // Accept the number with or without its check digit; printers compute it themselves
+  const payload = value.slice(0, length - 1);
+  const full = payload + gtinCheckDigit(payload);
+  if (value.length === length && value !== full) {
+    throw new Error(`${name} "${value}" has an invalid check digit (expected ${full[length - 1]})`);
+  }
+  return { symbology, data: payload, text: full };
+}
+
+/**
+ * Check a barcode value against the requested symbology and encode it.
+ *
+ * In 'auto' mode a valid 13-digit GTIN prints as EAN-13, a valid 12-digit one
+ * as UPC-A, and anything else as Code 128.
+ *
+ * @throws Error when the value cannot be encoded in the requested symbology
+ */
+export function resolveBarcode(value: string, requested: LabelSymbology = 'auto'): ResolvedBarcode {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    throw new Error('Barcode value is empty');
+  }
+
+  switch (requested) {
+    case 'auto':
+      if (trimmed.length === 13 && isValidGtin(trimmed)) return resolveGtin(trimmed, 'ean13');
+      if (trimmed.length === 12 && isValidGtin(trimmed)) return resolveGtin(trimmed, 'upca');
+      return resolveBarcode(trimmed, 'code128');
+    case 'ean13':
+    case 'upca':
+      return resolveGtin(trimmed, requested);
+    case 'code128':
+      if (!/^[\x20-\x7e]+$/.test(trimmed)) {
+        throw new Error(`Code 128 supports printable ASCII only, got "${trimmed}"`);
+      }
+      return { symbology: 'code128', data: trimmed, text: trimmed };
+    case 'qr':
+      return { symbology: 'qr', data: trimmed, text: trimmed };
+  }
+}
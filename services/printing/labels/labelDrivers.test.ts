@@ -0,0 +1,118 @@
+import { createLabelDriver } from './labelDrivers';
+import { layoutLabel } from './labelLayout';
+import { LabelData, LabelFormat } from './labelTypes';
+
+const FORMAT: LabelFormat = {
+  width: 50,
+  height: 30,
+  fontSize: 'medium',
+  includePrice: true,
+  includeName: true,
+  includeSku: true,
+  symbology: 'auto',
+  currencySymbol: '£',
+};
+
+const LABEL: LabelData = {
+  productId: 'p1',
+  name: 'Organic Oat Milk 1L',
+  sku: 'OAT-1L',
+  price: 1.85,
+  barcode: '4006381333931',
+  quantity: 3,
+};
+
+describe('labelLayout', () => {
+  it('sizes the label in dots for the print head resolution', () => {
+    expect(layoutLabel(LABEL, FORMAT, 203)).toMatchObject({ widthDots: 400, heightDots: 240 });
+    expect(layoutLabel(LABEL, FORMAT, 300)).toMatchObject({ widthDots: 591, heightDots: 354 });
+  });
+
+  it('keeps every element inside the label', () => {
+    for (const format of [
+      FORMAT,
+      { ...FORMAT, width: 38, height: 25, fontSize: 'small' as const },
+      { ...FORMAT, symbology: 'qr' as const },
+    ]) {
+      const layout = layoutLabel(LABEL, format, 203);
+      for (const element of layout.elements) {
+        const bottom = element.y + element.height + (element.kind === 'barcode' ? element.textHeight : 0);
+        expect(element.x).toBeGreaterThanOrEqual(0);
+        expect(element.x + element.width).toBeLessThanOrEqual(layout.widthDots);
+        expect(bottom).toBeLessThanOrEqual(layout.heightDots);
+      }
+    }
+  });
+
+  it('truncates names too long for the label', () => {
+    const layout = layoutLabel({ ...LABEL, name: 'Extra Large Family Size Organic Unsweetened Oat Milk Barista Edition' }, FORMAT, 203);
+    const name = layout.elements.find(e => e.kind === 'text' && e.field === 'name');
+    expect(name?.kind === 'text' && name.text.endsWith('...')).toBe(true);
+  });
+
+  it('refuses a label too small for the barcode', () => {
+    expect(() => layoutLabel(LABEL, { ...FORMAT, width: 20, height: 12 }, 203)).toThrow();
+  });
+});
+
+describe('ZplLabelDriver', () => {
+  const driver = createLabelDriver('zpl');
+
+  it('renders a complete ZPL label with copies', () => {
+    const zpl = driver.render(LABEL, FORMAT, 203);
+
+    expect(zpl.startsWith('^XA\n^CI28\n^PW400\n^LL240\n')).toBe(true);
+    expect(zpl).toContain('^FDOrganic Oat Milk 1L^FS');
+    expect(zpl).toContain('^FDSKU: OAT-1L^FS');
+    expect(zpl).toContain('^FD£1.85^FS');
+    expect(zpl).toMatch(/\^BY\d\^BEN,\d+,Y,N\^FH\\\^FD400638133393\^FS/);
+    expect(zpl.endsWith('^PQ3\n^XZ\n')).toBe(true);
+    expect(driver.handlesCopies).toBe(true);
+  });
+
+  it('picks UPC-A, Code 128 and QR commands', () => {
+    expect(driver.render({ ...LABEL, barcode: '036000291452' }, FORMAT, 203)).toMatch(/\^BUN,\d+,Y,N,Y\^FH\\\^FD03600029145\^FS/);
+    expect(driver.render({ ...LABEL, barcode: 'OAT-1L' }, FORMAT, 203)).toMatch(/\^BCN,\d+,Y,N,N,A\^FH\\\^FDOAT-1L\^FS/);
+    expect(driver.render(LABEL, { ...FORMAT, symbology: 'qr' }, 203)).toMatch(/\^BQN,2,\d+\^FH\\\^FDMA,4006381333931\^FS/);
+  });
+
+  it('escapes ZPL command characters in field data', () => {
+    expect(driver.render({ ...LABEL, name: 'A^B~C\\D' }, FORMAT, 203)).toContain('^FDA\\5EB\\7EC\\5CD^FS');
+  });
+});
+
+describe('TsplLabelDriver', () => {
+  it('renders a complete TSPL label with the configured gap', () => {
+    const tspl = createLabelDriver('tspl', { gapMm: 3 }).render({ ...LABEL, barcode: '036000291452' }, FORMAT, 203);
+    const lines = tspl.trimEnd().split('\r\n');
+
+    expect(lines.slice(0, 5)).toEqual(['SIZE 50 mm,30 mm', 'GAP 3 mm,0 mm', 'DIRECTION 1', 'CODEPAGE UTF-8', 'CLS']);
+    expect(lines).toContainEqual(expect.stringMatching(/^BLOCK \d+,\d+,\d+,\d+,"0",0,\d+,\d+,0,2,"Organic Oat Milk 1L"$/));
+    expect(lines).toContainEqual(expect.stringMatching(/^BARCODE \d+,\d+,"UPCA",\d+,1,0,(\d),\1,"03600029145"$/));
+    expect(lines[lines.length - 1]).toBe('PRINT 3,1');
+  });
+
+  it('renders Code 128 and QR codes and escapes quotes', () => {
+    const driver = createLabelDriver('tspl');
+    expect(driver.render({ ...LABEL, barcode: 'OAT-1L' }, FORMAT, 300)).toMatch(/BARCODE \d+,\d+,"128",\d+,1,0,\d,\d,"OAT-1L"/);
+    expect(driver.render(LABEL, { ...FORMAT, symbology: 'qr' }, 203)).toMatch(/QRCODE \d+,\d+,M,\d+,A,0,"4006381333931"/);
+    expect(driver.render({ ...LABEL, name: '12" Pizza' }, FORMAT, 203)).toContain('"12\\["] Pizza"');
+  });
+});
+
+describe('EscPosLabelDriver', () => {
+  const driver = createLabelDriver('escpos');
+
+  it('leaves copies to the caller', () => {
+    expect(driver.handlesCopies).toBe(false);
+  });
+
+  it('selects code set B for Code 128 and uses the EAN-13 function for GTINs', () => {
+    expect(driver.render({ ...LABEL, barcode: 'OAT-1L' }, FORMAT, 203)).toContain('\x1Dk\x49\x08{BOAT-1L');
+    expect(driver.render(LABEL, FORMAT, 203)).toContain('\x1Dk\x43\x0C400638133393');
+  });
+
+  it('prints the price with the currency symbol', () => {
+    expect(driver.render(LABEL, FORMAT, 203)).toContain('£1.85\n');
+  });
+});
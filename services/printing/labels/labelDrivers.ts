@@ -0,0 +1,26 @@
+import { EscPosLabelDriver } from './EscPosLabelDriver';
+import { LabelLanguageDriver } from './LabelLanguageDriver';
+import { LabelLanguage } from './labelTypes';
+import { TsplLabelDriver } from './TsplLabelDriver';
+import { ZplLabelDriver } from './ZplLabelDriver';
+
+export interface LabelDriverOptions {
+  /** Gap between labels in mm (TSPL only) */
+  gapMm?: number;
+}
+
+/**
+ * Driver for a label printer language
+ */
+export function createLabelDriver(language: LabelLanguage, options: LabelDriverOptions = {}): LabelLanguageDriver {
+  switch (language) {
+    case 'zpl':
+      return new ZplLabelDriver();
+    case 'tspl':
+      return new TsplLabelDriver(options.gapMm);
+    case 'escpos':
+      return new EscPosLabelDriver();
+    default:
+      throw new Error(`Unsupported label language: ${language}`);
+  }
+}
@@ -0,0 +1,175 @@
+import { resolveBarcode } from './barcodeSymbology';
+import { LabelBarcodeElement, LabelData, LabelDpi, LabelElement, LabelFormat, LabelLayout, ResolvedBarcode } from './labelTypes';
+
+const MARGIN_MM = 1.5;
+const LINE_GAP_MM = 0.5;
+/** Height reserved under linear barcodes for the human-readable digits */
+const HRI_MM = 2.5;
+const MIN_BAR_HEIGHT_MM = 5;
+const MAX_MODULE_DOTS = 4;
+
+/** Character heights in mm for each text field by font size */
+const FONT_HEIGHTS_MM: Record<LabelFormat['fontSize'], { name: number; sku: number; price: number }> = {
+  small: { name: 2.5, sku: 2, price: 3 },
+  medium: { name: 3, sku: 2.5, price: 4 },
+  large: { name: 4, sku: 3, price: 5.5 },
+};
+
+/** Average glyph width as a fraction of its height for the printers' built-in scalable fonts */
+const GLYPH_ASPECT = 0.6;
+
+/** QR byte-mode capacity at error correction level M, versions 1–10 */
+const QR_BYTE_CAPACITY_M = [14, 26, 42, 62, 84, 106, 122, 152, 180, 213];
+
+export function mmToDots(mm: number, dpi: LabelDpi): number {
+  return Math.round((mm * dpi) / 25.4);
+}
+
+/** Shorten text with '...' so it fits `width` dots at character height `height` */
+function fitText(text: string, width: number, height: number): string {
+  const maxChars = Math.max(1, Math.floor(width / (height * GLYPH_ASPECT)));
+  if (text.length <= maxChars) return text;
+  return maxChars > 3 ? text.slice(0, maxChars - 3) + '...' : text.slice(0, maxChars);
+}
+
+/** Width in modules of a linear symbol including its quiet zones */
+function linearModules(barcode: ResolvedBarcode): number {
+  if (barcode.symbology === 'ean13' || barcode.symbology === 'upca') {
+    return 113; // 95 modules of bars plus the standard quiet zones
+  }
+  // Code 128: printers switch to code set C for even-length digit runs, two digits per symbol
+  const symbols = /^\d+$/.test(barcode.data) && barcode.data.length % 2 === 0 ? barcode.data.length / 2 : barcode.data.length;
+  // start + data + check symbols (11 modules each), stop (13), 10-module quiet zone each side
+  return 11 * (symbols + 2) + 13 + 20;
+}
+
+/** Smallest QR version (1–10) holding `data` at error correction level M */
+function qrVersion(data: string): number {
+  const bytes = new TextEncoder().encode(data).length;
+  const index = QR_BYTE_CAPACITY_M.findIndex(capacity => bytes <= capacity);
+  if (index < 0) {
+    throw new Error(`QR code data is too long for a label (${bytes} bytes, max ${QR_BYTE_CAPACITY_M[QR_BYTE_CAPACITY_M.length - 1]})`);
+  }
+  return index + 1;
+}
+
+function layoutBarcode(barcode: ResolvedBarcode, x: number, y: number, width: number, height: number, dpi: LabelDpi): LabelBarcodeElement {
+  if (barcode.symbology === 'qr') {
+    const modules = 17 + 4 * qrVersion(barcode.data);
+    // 4-module quiet zone on every side
+    const cell = Math.min(10, Math.floor(Math.min(width, height) / (modules + 8)));
+    if (cell < 1) {
+      throw new Error('Label is too small for the QR code');
+    }
+    const size = cell * modules;
+    return {
+      kind: 'barcode',
+      barcode,
+      x: x + Math.floor((width - size) / 2),
+      y: y + Math.floor((height - size) / 2),
+      width: size,
+      height: size,
+      moduleWidth: cell,
+      textHeight: 0,
+    };
+  }
+
+  const modules = linearModules(barcode);
+  const moduleWidth = Math.min(MAX_MODULE_DOTS, Math.floor(width / modules));
+  if (moduleWidth < 1) {
+    throw new Error(`Barcode "${barcode.text}" is too long for a ${width}-dot wide label`);
+  }
+  const textHeight = mmToDots(HRI_MM, dpi);
+  const barHeight = height - textHeight;
+  if (barHeight < mmToDots(MIN_BAR_HEIGHT_MM, dpi)) {
+    throw new Error('Label is too short for the barcode');
+  }
+  // Quiet zones are part of the fitted width but not of the printed symbol
+  const quietModules = barcode.symbology === 'code128' ? 20 : 18;
+  const symbolWidth = moduleWidth * (modules - quietModules);
+  return {
+    kind: 'barcode',
+    barcode,
+    x: x + Math.floor((width - symbolWidth) / 2),
+    y,
+    width: symbolWidth,
+    height: barHeight,
+    moduleWidth,
+    textHeight,
+  };
+}
+
+/**
+ * Position a label's fields in printer dots: name and SKU at the top, price
+ * at the bottom, and the barcode filling the space between them, sized to
+ * the widest module that fits.
+ *
+ * @throws Error when the barcode value is invalid for the symbology, or the fields do not fit the label
+ */
+export function layoutLabel(label: LabelData, format: LabelFormat, dpi: LabelDpi): LabelLayout {
+  const widthDots = mmToDots(format.width, dpi);
+  const heightDots = mmToDots(format.height, dpi);
+  const margin = mmToDots(MARGIN_MM, dpi);
+  const gap = mmToDots(LINE_GAP_MM, dpi);
+  const innerWidth = widthDots - margin * 2;
+  const fonts = FONT_HEIGHTS_MM[format.fontSize];
+
+  const elements: LabelElement[] = [];
+  let top = margin;
+  let bottom = heightDots - margin;
+
+  if (format.includeName && label.name.trim()) {
+    const height = mmToDots(fonts.name, dpi);
+    elements.push({
+      kind: 'text',
+      field: 'name',
+      text: fitText(label.name.trim(), innerWidth, height),
+      x: margin,
+      y: top,
+      width: innerWidth,
+      height,
+    });
+    top += height + gap;
+  }
+
+  if (format.includeSku && label.sku) {
+    const height = mmToDots(fonts.sku, dpi);
+    elements.push({
+      kind: 'text',
+      field: 'sku',
+      text: fitText(`SKU: ${label.sku}`, innerWidth, height),
+      x: margin,
+      y: top,
+      width: innerWidth,
+      height,
+    });
+    top += height + gap;
+  }
+
+  if (format.includePrice && label.price !== undefined) {
+    const height = mmToDots(fonts.price, dpi);
+    const text = `${format.currencySymbol ?? '$'}${label.price.toFixed(2)}`;
+    bottom -= height;
+    elements.push({
+      kind: 'text',
+      field: 'price',
+      text: fitText(text, innerWidth, height),
+      x: margin,
+      y: bottom,
+      width: innerWidth,
+      height,
+    });
+    bottom -= gap;
+  }
+
+  const barcodeValue = label.barcode || label.sku || label.productId;
+  if (barcodeValue) {
+    const barcode = resolveBarcode(barcodeValue, format.symbology);
+    if (bottom - top <= 0) {
+      throw new Error(`A ${format.width}×${format.height} mm label is too small for the selected fields`);
+    }
+    elements.push(layoutBarcode(barcode, margin, top, innerWidth, bottom - top, dpi));
+  }
+
+  return { dpi, widthDots, heightDots, elements };
+}
@@ -0,0 +1,86 @@
+/**
+ * Shared types for barcode label rendering.
+ *
+ * A label is described once (`LabelData` + `LabelFormat`), laid out in printer
+ * dots for a given resolution (`LabelLayout`) and rendered into a printer
+ * language by a `LabelLanguageDriver`.
+ *
+ * See: docs/specs/inventory/inventory.md §7.6
+ */
+
+export interface LabelData {
+  productId: string;
+  variantId?: string;
+  name: string;
+  sku?: string;
+  price?: number;
+  barcode?: string;
+  quantity: number; // Number of labels to print
+}
+
+/** Barcode symbology printed on a label; 'auto' picks from the barcode value */
+export type LabelSymbology = 'auto' | 'ean13' | 'upca' | 'code128' | 'qr';
+
+export interface LabelFormat {
+  width: number; // Label width in mm
+  height: number; // Label height in mm
+  fontSize: 'small' | 'medium' | 'large';
+  includePrice: boolean;
+  includeName: boolean;
+  includeSku: boolean;
+  /** Barcode symbology (default 'auto') */
+  symbology?: LabelSymbology;
+  /** Symbol printed before the price (default '$') */
+  currencySymbol?: string;
+}
+
+/** Printer language a label is rendered into */
+export type LabelLanguage = 'zpl' | 'tspl' | 'escpos';
+
+/** Print head resolution in dots per inch */
+export type LabelDpi = 203 | 300;
+
+/** A barcode value checked against, and encoded for, one symbology */
+export interface ResolvedBarcode {
+  symbology: Exclude<LabelSymbology, 'auto'>;
+  /** Value as sent to the printer (EAN-13 / UPC-A without the check digit — printers add it) */
+  data: string;
+  /** Human-readable text printed under the bars (full number for EAN-13 / UPC-A) */
+  text: string;
+}
+
+export interface LabelTextElement {
+  kind: 'text';
+  field: 'name' | 'sku' | 'price';
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  /** Character height in dots */
+  height: number;
+}
+
+export interface LabelBarcodeElement {
+  kind: 'barcode';
+  barcode: ResolvedBarcode;
+  x: number;
+  y: number;
+  /** Total symbol width in dots */
+  width: number;
+  /** Bar height in dots (square symbol size for QR), excluding the human-readable line */
+  height: number;
+  /** Narrow bar width in dots (cell size for QR) */
+  moduleWidth: number;
+  /** Dots reserved under the bars for the human-readable line (0 for QR) */
+  textHeight: number;
+}
+
+export type LabelElement = LabelTextElement | LabelBarcodeElement;
+
+/** A label positioned in printer dots, origin top-left */
+export interface LabelLayout {
+  dpi: LabelDpi;
+  widthDots: number;
+  heightDots: number;
+  elements: LabelElement[];
+}
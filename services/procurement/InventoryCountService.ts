@@ -2,13 +2,15 @@
  * InventoryCountService
  *
  * Manages stock-take sessions: start, count items, finalise, discard.
- * On finalise, pushes absolute quantity corrections to the platform.
+ * Each count covers one location. On finalise, pushes absolute quantity
+ * corrections to the platform at that location.
  *
  * See: docs/specs/inventory/inventory.md §7.4
  */
 
 import { procurementRepository, InventoryCountRow, InventoryCountItemRow } from '../../repositories/ProcurementRepository';
 import { InventoryServiceFactory } from '../inventory/InventoryServiceFactory';
+import { locationService } from '../inventory/LocationService';
 import { auditLogService } from '../audit/AuditLogService';
 import { LoggerFactory } from '../logger/LoggerFactory';
 import { ECommercePlatform } from '../../utils/platforms';
@@ -42,8 +44,13 @@ export class InventoryCountService {
     return InventoryCountService.instance;
   }
 
-  async startCount(items: CountItemInput[], startedBy?: string, notes?: string): Promise<string> {
-    const countId = await procurementRepository.createCount(startedBy ?? null, notes ?? null);
+  /**
+   * Start a count at `locationId`, or this register's location when omitted.
+   * `expectedQty` should be the quantity at that location.
+   */
+  async startCount(items: CountItemInput[], startedBy?: string, notes?: string, locationId?: string): Promise<string> {
+    const countLocationId = locationId ?? (await locationService.getRegisterLocationId());
+    const countId = await procurementRepository.createCount(startedBy ?? null, notes ?? null, countLocationId);
 
     for (const item of items) {
       await procurementRepository.addCountItem(
@@ -56,7 +63,7 @@ export class InventoryCountService {
       );
     }
 
-    this.logger.info(`Inventory count ${countId} started with ${items.length} items`);
+    this.logger.info(`Inventory count ${countId} started at location ${countLocationId} with ${items.length} items`);
     return countId;
   }
 
@@ -78,6 +85,8 @@ export class InventoryCountService {
 
   async finaliseCount(countId: string, platform: ECommercePlatform, finalisedBy?: string): Promise<FinaliseResult> {
     try {
+      const count = await procurementRepository.findCountById(countId);
+      const locationId = count?.location_id ?? undefined;
       const items = await procurementRepository.findCountItems(countId);
       const variantLines = items.filter(i => i.counted_qty !== null);
 
@@ -87,7 +96,13 @@ export class InventoryCountService {
           const variance = (item.counted_qty ?? 0) - item.expected_qty;
           totalVariance += variance;
           return variance !== 0
-            ? { productId: item.product_id, variantId: item.variant_id ?? undefined, quantity: item.counted_qty!, adjustment: false }
+            ? {
+                productId: item.product_id,
+                variantId: item.variant_id ?? undefined,
+                quantity: item.counted_qty!,
+                adjustment: false,
+                locationId,
+              }
             : null;
         })
         .filter((u): u is NonNullable<typeof u> => u !== null);
@@ -109,7 +124,7 @@ export class InventoryCountService {
       await auditLogService.log('inventory_count:completed', {
         userId: finalisedBy,
         details: `Inventory count ${countId} completed — ${adjustments.length} adjustment(s), total variance ${totalVariance}`,
-        metadata: { countId, adjustedLines: adjustments.length, totalVariance },
+        metadata: { countId, locationId, adjustedLines: adjustments.length, totalVariance },
       });
 
       return { success: true, adjustedLines: adjustments.length, totalVariance };
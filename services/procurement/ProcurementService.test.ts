@@ -0,0 +1,95 @@
+const mockTransfers: Array<Record<string, unknown>> = [];
+
+jest.mock('../../repositories/ProcurementRepository', () => ({
+  procurementRepository: {
+    createTransferOrder: jest.fn(async () => 'to-1'),
+    findTransferOrderById: jest.fn(async (id: string) => mockTransfers.find(t => t.id === id) ?? null),
+    findTransferOrderItems: jest.fn(async () => [
+      { id: 'toi-1', transfer_order_id: 'to-1', product_id: 'p1', variant_id: 'v1', product_name: 'Mug', transfer_qty: 6 },
+    ]),
+    updateTransferOrderStatus: jest.fn(async (id: string, status: string) => {
+      const transfer = mockTransfers.find(t => t.id === id);
+      if (transfer) transfer.status = status;
+    }),
+  },
+}));
+
+const mockUpdateInventory = jest.fn();
+jest.mock('../inventory/InventoryServiceFactory', () => ({
+  InventoryServiceFactory: { getInstance: () => ({ getService: () => ({ updateInventory: mockUpdateInventory }) }) },
+}));
+
+jest.mock('../inventory/LocationService', () => ({
+  locationService: {
+    findById: jest.fn(async (id: string) => (id === 'closed' ? { id, is_active: 0 } : { id, is_active: 1 })),
+    getRegisterLocationId: jest.fn(async () => 'store-main'),
+  },
+}));
+
+jest.mock('../audit/AuditLogService', () => ({
+  auditLogService: { log: jest.fn().mockResolvedValue(undefined) },
+}));
+
+jest.mock('../notifications/NotificationService', () => ({
+  notificationService: { notify: jest.fn() },
+}));
+
+jest.mock('../logger/LoggerFactory', () => ({
+  LoggerFactory: {
+    getInstance: () => ({
+      createLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }),
+    }),
+  },
+}));
+
+import { procurementService } from './ProcurementService';
+import { ECommercePlatform } from '../../utils/platforms';
+
+describe('ProcurementService transfer orders', () => {
+  beforeEach(() => {
+    mockTransfers.length = 0;
+    mockTransfers.push({ id: 'to-1', from_location: 'warehouse', to_location: 'store-main', status: 'draft' });
+    jest.clearAllMocks();
+    mockUpdateInventory.mockResolvedValue({ successful: 1, failed: 0, errors: [] });
+  });
+
+  it('takes stock out of the source location on dispatch', async () => {
+    await procurementService.dispatchTransferOrder('to-1', ECommercePlatform.OFFLINE);
+
+    expect(mockUpdateInventory).toHaveBeenCalledWith([
+      { productId: 'p1', variantId: 'v1', quantity: -6, adjustment: true, locationId: 'warehouse' },
+    ]);
+    expect(mockTransfers[0].status).toBe('in_transit');
+  });
+
+  it('puts stock into the destination location on receipt', async () => {
+    await procurementService.dispatchTransferOrder('to-1', ECommercePlatform.OFFLINE);
+    await procurementService.receiveTransferOrder('to-1', ECommercePlatform.OFFLINE);
+
+    expect(mockUpdateInventory).toHaveBeenLastCalledWith([
+      { productId: 'p1', variantId: 'v1', quantity: 6, adjustment: true, locationId: 'store-main' },
+    ]);
+    expect(mockTransfers[0].status).toBe('received');
+  });
+
+  it('refuses to dispatch a transfer twice', async () => {
+    await procurementService.dispatchTransferOrder('to-1', ECommercePlatform.OFFLINE);
+
+    await expect(procurementService.dispatchTransferOrder('to-1', ECommercePlatform.OFFLINE)).rejects.toThrow('is in transit');
+    expect(mockUpdateInventory).toHaveBeenCalledTimes(1);
+  });
+
+  it('requires two different active locations', async () => {
+    const base = { notes: null, createdBy: null, items: [{ productId: 'p1', productName: 'Mug', transferQty: 1 }] };
+
+    await expect(procurementService.createTransferOrder({ ...base, fromLocation: 'warehouse', toLocation: 'warehouse' })).rejects.toThrow(
+      'different'
+    );
+    await expect(procurementService.createTransferOrder({ ...base, fromLocation: 'warehouse', toLocation: 'closed' })).rejects.toThrow(
+      'active locations'
+    );
+    await expect(procurementService.createTransferOrder({ ...base, fromLocation: 'warehouse', toLocation: 'store-main' })).resolves.toBe(
+      'to-1'
+    );
+  });
+});
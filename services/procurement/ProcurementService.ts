@@ -1,10 +1,11 @@
 /**
  * ProcurementService
  *
- * Manages purchase orders, receiving, reorder points, and vendor returns.
- * Pushes stock adjustments to the platform via InventoryServiceFactory on receiving.
+ * Manages purchase orders, receiving, reorder points, vendor returns and transfer orders.
+ * Pushes stock adjustments to the platform via InventoryServiceFactory, each at
+ * the location the document belongs to.
  *
- * See: docs/specs/inventory/inventory.md §7.2–7.3, §7.7
+ * See: docs/specs/inventory/inventory.md §7.2–7.3, §7.5, §7.7–7.8
  */
 
 import {
@@ -15,8 +16,11 @@ import {
   ProductInventoryConfigRow,
   VendorReturnRow,
   VendorReturnItemRow,
+  TransferOrderRow,
+  TransferStatus,
 } from '../../repositories/ProcurementRepository';
 import { InventoryServiceFactory } from '../inventory/InventoryServiceFactory';
+import { locationService } from '../inventory/LocationService';
 import { auditLogService } from '../audit/AuditLogService';
 import { notificationService } from '../notifications/NotificationService';
 import { LoggerFactory } from '../logger/LoggerFactory';
@@ -49,12 +53,17 @@ export class ProcurementService {
 
   // ── Purchase Orders ───────────────────────────────────────────────────
 
+  /**
+   * Create a draft purchase order. Goods are received into `locationId`,
+   * or this register's location when omitted.
+   */
   async createPO(input: CreatePOInput): Promise<string> {
-    const id = await procurementRepository.createPO(input);
+    const locationId = input.locationId ?? (await locationService.getRegisterLocationId());
+    const id = await procurementRepository.createPO({ ...input, locationId });
     await auditLogService.log('purchase_order:created', {
       userId: input.createdBy ?? undefined,
       details: `Purchase order ${id} created (${input.items.length} line(s))`,
-      metadata: { poId: id, vendorId: input.vendorId, itemCount: input.items.length },
+      metadata: { poId: id, vendorId: input.vendorId, locationId, itemCount: input.items.length },
     });
     return id;
   }
@@ -96,11 +105,14 @@ export class ProcurementService {
 
   /**
    * Receive goods against a purchase order.
-   * Increments received quantities and pushes stock adjustments to the platform.
+   * Increments received quantities and pushes stock adjustments to the platform
+   * at the purchase order's location.
    */
   async receivePO(poId: string, lines: ReceiveLineInput[], platform: ECommercePlatform, receivedBy?: string): Promise<ReceiveResult> {
     try {
+      const po = await procurementRepository.findPOById(poId);
       const items = await procurementRepository.findPOItems(poId);
+      const locationId = po?.location_id ?? undefined;
 
       // Increment received quantities
       for (const line of lines) {
@@ -117,7 +129,13 @@ export class ProcurementService {
           .map(line => {
             const item = items.find(i => i.id === line.itemId);
             return item
-              ? { productId: item.product_id, variantId: item.variant_id ?? undefined, quantity: line.receiveNow, adjustment: true }
+              ? {
+                  productId: item.product_id,
+                  variantId: item.variant_id ?? undefined,
+                  quantity: line.receiveNow,
+                  adjustment: true,
+                  locationId,
+                }
               : null;
           })
           .filter((u): u is NonNullable<typeof u> => u !== null);
@@ -211,6 +229,11 @@ export class ProcurementService {
   async confirmVendorReturn(returnId: string, platform: ECommercePlatform, confirmedBy?: string): Promise<void> {
     const items = await procurementRepository.findVendorReturnItems(returnId);
 
+    // Returned goods leave the location the purchase order was received into
+    const vendorReturn = await procurementRepository.findVendorReturnById(returnId);
+    const po = vendorReturn ? await procurementRepository.findPOById(vendorReturn.purchase_order_id) : null;
+    const locationId = po?.location_id ?? undefined;
+
     // Decrement inventory for each returned line
     const capabilities = getPlatformCapabilities(platform);
     if (capabilities.inventory !== 'not_recommended') {
@@ -220,6 +243,7 @@ export class ProcurementService {
         variantId: item.variant_id ?? undefined,
         quantity: -item.return_qty,
         adjustment: true,
+        locationId,
       }));
       if (updates.length > 0) {
         await inventoryService.updateInventory(updates).catch(err => {
@@ -263,6 +287,7 @@ export class ProcurementService {
    * Spec §7.5.2
    */
   async dispatchTransferOrder(transferOrderId: string, platform: ECommercePlatform, dispatchedBy?: string): Promise<void> {
+    const transfer = await this.getTransferOrderOrThrow(transferOrderId, 'draft');
     const items = await procurementRepository.findTransferOrderItems(transferOrderId);
     const capabilities = getPlatformCapabilities(platform);
 
@@ -273,6 +298,7 @@ export class ProcurementService {
         variantId: item.variant_id ?? undefined,
         quantity: -item.transfer_qty,
         adjustment: true,
+        locationId: transfer.from_location,
       }));
       if (updates.length > 0) {
         await inventoryService.updateInventory(updates).catch(err => {
@@ -287,7 +313,7 @@ export class ProcurementService {
     await auditLogService.log('transfer_order:dispatched', {
       userId: dispatchedBy,
       details: `Transfer order ${transferOrderId} dispatched`,
-      metadata: { transferOrderId },
+      metadata: { transferOrderId, fromLocation: transfer.from_location },
     });
   }
 
@@ -297,6 +323,7 @@ export class ProcurementService {
    * Spec §7.5.3
    */
   async receiveTransferOrder(transferOrderId: string, platform: ECommercePlatform, receivedBy?: string): Promise<void> {
+    const transfer = await this.getTransferOrderOrThrow(transferOrderId, 'in_transit');
     const items = await procurementRepository.findTransferOrderItems(transferOrderId);
     const capabilities = getPlatformCapabilities(platform);
 
@@ -307,6 +334,7 @@ export class ProcurementService {
         variantId: item.variant_id ?? undefined,
         quantity: item.transfer_qty,
         adjustment: true,
+        locationId: transfer.to_location,
       }));
       if (updates.length > 0) {
         await inventoryService.updateInventory(updates).catch(err => {
@@ -321,11 +349,11 @@ export class ProcurementService {
     await auditLogService.log('transfer_order:received', {
       userId: receivedBy,
       details: `Transfer order ${transferOrderId} received`,
-      metadata: { transferOrderId },
+      metadata: { transferOrderId, toLocation: transfer.to_location },
     });
   }
 
-  async findAllTransferOrders(status?: import('../../repositories/ProcurementRepository').TransferStatus) {
+  async findAllTransferOrders(status?: TransferStatus) {
     return procurementRepository.findAllTransferOrders(status);
   }
 
@@ -346,6 +374,9 @@ export class ProcurementService {
     });
   }
 
+  /**
+   * Create a draft transfer order between two active locations (ids from LocationService).
+   */
   async createTransferOrder(input: {
     fromLocation: string;
     toLocation: string;
@@ -353,6 +384,14 @@ export class ProcurementService {
     createdBy: string | null;
     items: Array<{ productId: string; variantId?: string | null; productName: string; transferQty: number }>;
   }): Promise<string> {
+    if (input.fromLocation === input.toLocation) {
+      throw new Error('A transfer needs different from and to locations');
+    }
+    const [from, to] = await Promise.all([locationService.findById(input.fromLocation), locationService.findById(input.toLocation)]);
+    if (!from || from.is_active !== 1 || !to || to.is_active !== 1) {
+      throw new Error('Transfer locations must be active locations');
+    }
+
     const id = await procurementRepository.createTransferOrder(
       input.fromLocation,
       input.toLocation,
@@ -367,6 +406,19 @@ export class ProcurementService {
     });
     return id;
   }
+
+  private async getTransferOrderOrThrow(transferOrderId: string, expectedStatus: TransferStatus): Promise<TransferOrderRow> {
+    const transfer = await procurementRepository.findTransferOrderById(transferOrderId);
+    if (!transfer) {
+      throw new Error(`Transfer order ${transferOrderId} not found`);
+    }
+    if (transfer.status !== expectedStatus) {
+      throw new Error(
+        `Transfer order ${transferOrderId} is ${transfer.status.replace('_', ' ')}, expected ${expectedStatus.replace('_', ' ')}`
+      );
+    }
+    return transfer;
+  }
 }
 
 export const procurementService = ProcurementService.getInstance();
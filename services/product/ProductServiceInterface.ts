@@ -1,3 +1,5 @@
+import type { SellingUnit } from './unitOfMeasure';
+
 /**
  * Options for querying products
  */
@@ -68,6 +70,10 @@ export interface ProductVariant {
   inventoryQuantity: number;
   weight?: number;
   weightUnit?: 'g' | 'kg' | 'oz' | 'lb';
+  /** How the variant is sold at the till; `price` is per this unit (default `each`) */
+  unitOfMeasure?: SellingUnit;
+  /** Container weight in kg taken off the scale reading, for items sold by weight */
+  tareWeight?: number;
   requiresShipping?: boolean;
   taxable?: boolean;
   options?: string[];
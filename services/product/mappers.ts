@@ -1,5 +1,6 @@
 import { ECommercePlatform } from '../../utils/platforms';
 import { UnifiedProduct, UnifiedProductVariant, UnifiedProductOption, UnifiedProductImage, UnifiedProductStatus } from './types';
+import { isSellingUnit } from './unitOfMeasure';
 
 /**
  * ============================================================================
@@ -487,6 +488,8 @@ interface GenericProduct {
     inventoryQuantity: number;
     weight?: number;
     weightUnit?: string;
+    unitOfMeasure?: string;
+    tareWeight?: number;
     options?: string[];
   }>;
 }
@@ -538,6 +541,8 @@ export function mapGenericProduct(data: GenericProduct, platform: ECommercePlatf
       inventoryQuantity: v.inventoryQuantity ?? 0,
       weight: v.weight,
       weightUnit: (v.weightUnit as 'g' | 'kg' | 'oz' | 'lb') || 'g',
+      unitOfMeasure: isSellingUnit(v.unitOfMeasure) ? v.unitOfMeasure : undefined,
+      tareWeight: v.tareWeight,
       trackInventory: true,
       allowBackorder: false,
       requiresShipping: true,
@@ -3,6 +3,8 @@ import { Product, ProductQueryOptions, ProductResult, SyncResult } from '../Prod
 import { PlatformProductServiceInterface, PlatformConfigRequirements, PlatformProductConfig } from './PlatformProductServiceInterface';
 import { LoggerFactory } from '../../logger/LoggerFactory';
 import { keyValueRepository } from '../../../repositories/KeyValueRepository';
+import { productSearchIndexService } from '../../search/ProductSearchIndexService';
+import { ECommercePlatform } from '../../../utils/platforms';
 
 const PRODUCTS_STORAGE_KEY = 'offline_local_products';
 
@@ -27,6 +29,8 @@ export class OfflineProductService implements PlatformProductServiceInterface {
         this.products = JSON.parse(storedProducts);
         this.logger.info(`Loaded ${this.products.length} products from local storage`);
       }
+      // Not awaited: the first index build can take a while on a large catalogue
+      this.updateSearchIndex(() => productSearchIndexService.seedIfEmpty(this.products, ECommercePlatform.OFFLINE));
 
       this.initialized = true;
       this.logger.info('Offline product service initialized (local-only mode)');
@@ -140,6 +144,7 @@ export class OfflineProductService implements PlatformProductServiceInterface {
 
     this.products.push(newProduct);
     await this.saveProductsToStorage();
+    await this.updateSearchIndex(() => productSearchIndexService.indexProducts([newProduct], ECommercePlatform.OFFLINE));
 
     this.logger.info(`Created local product: ${newProduct.title}`);
     return newProduct;
@@ -167,6 +172,7 @@ export class OfflineProductService implements PlatformProductServiceInterface {
 
     this.products[index] = updatedProduct;
     await this.saveProductsToStorage();
+    await this.updateSearchIndex(() => productSearchIndexService.indexProducts([updatedProduct], ECommercePlatform.OFFLINE));
 
     this.logger.info(`Updated local product: ${updatedProduct.title}`);
     return updatedProduct;
@@ -187,6 +193,7 @@ export class OfflineProductService implements PlatformProductServiceInterface {
 
     this.products.splice(index, 1);
     await this.saveProductsToStorage();
+    await this.updateSearchIndex(() => productSearchIndexService.removeProducts([productId]));
 
     this.logger.info(`Deleted local product: ${productId}`);
     return true;
@@ -200,6 +207,7 @@ export class OfflineProductService implements PlatformProductServiceInterface {
     try {
       this.products = products;
       await this.saveProductsToStorage();
+      await this.updateSearchIndex(() => productSearchIndexService.replacePlatformProducts(products, ECommercePlatform.OFFLINE));
 
       this.logger.info(`Synced ${products.length} products to local storage`);
 
@@ -229,6 +237,18 @@ export class OfflineProductService implements PlatformProductServiceInterface {
     await keyValueRepository.setItem(PRODUCTS_STORAGE_KEY, JSON.stringify(this.products));
   }
 
+  /**
+   * Keep the search index in step with local products. Index failures are
+   * logged rather than thrown so they never fail the product change itself.
+   */
+  private async updateSearchIndex(change: () => Promise<void>): Promise<void> {
+    try {
+      await change();
+    } catch (error) {
+      this.logger.error({ message: 'Failed to update product search index' }, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
   /**
    * Map external product format to standard Product format
    */
@@ -278,6 +298,7 @@ export class OfflineProductService implements PlatformProductServiceInterface {
   async clearLocalProducts(): Promise<void> {
     this.products = [];
     await keyValueRepository.removeItem(PRODUCTS_STORAGE_KEY);
+    await this.updateSearchIndex(() => productSearchIndexService.replacePlatformProducts([], ECommercePlatform.OFFLINE));
     this.logger.info('Cleared all local products');
   }
 }
@@ -9,6 +9,7 @@
  */
 
 import { ECommercePlatform } from '../../utils/platforms';
+import type { SellingUnit } from './unitOfMeasure';
 
 // ---------------------------------------------------------------------------
 // Image
@@ -52,6 +53,10 @@ export interface UnifiedProductVariant {
   allowBackorder: boolean;
   weight?: number;
   weightUnit: 'g' | 'kg' | 'oz' | 'lb';
+  /** How the variant is sold at the till; `price` is per this unit (default `each`) */
+  unitOfMeasure?: SellingUnit;
+  /** Container weight in kg taken off the scale reading, for items sold by weight */
+  tareWeight?: number;
   requiresShipping: boolean;
   taxable: boolean;
   taxCode?: string;
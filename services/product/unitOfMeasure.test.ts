@@ -0,0 +1,51 @@
+import {
+  countedQuantity,
+  formatQuantity,
+  formatQuantityLine,
+  getMeasuredLine,
+  measuredLineProperties,
+  netWeightKg,
+  quantityFromWeight,
+  roundQuantity,
+} from './unitOfMeasure';
+
+describe('unitOfMeasure', () => {
+  it('rounds quantities to the resolution of their unit', () => {
+    expect(roundQuantity(0.1 + 0.2, 'kg')).toBe(0.3);
+    expect(roundQuantity(5.126, '100g')).toBe(5.13);
+    expect(roundQuantity(2.4, 'each')).toBe(2);
+  });
+
+  it('takes the tare off the gross weight, never below zero', () => {
+    expect(netWeightKg(0.532, 0.02)).toBe(0.512);
+    expect(netWeightKg(0.01, 0.02)).toBe(0);
+  });
+
+  it('converts a net weight to the selling unit', () => {
+    expect(quantityFromWeight(0.512, 'kg')).toBe(0.512);
+    expect(quantityFromWeight(0.512, '100g')).toBe(5.12);
+    expect(quantityFromWeight(0.45359237, 'lb')).toBe(1);
+    expect(quantityFromWeight(0.512, 'm')).toBeNull();
+  });
+
+  it('round-trips the unit and weighing through line properties', () => {
+    const properties = measuredLineProperties('kg', { grossKg: 0.532, tareKg: 0.02 });
+
+    expect(getMeasuredLine({ properties })).toEqual({ unit: 'kg', grossKg: 0.532, tareKg: 0.02 });
+    expect(getMeasuredLine({ properties: { unitOfMeasure: 'each' } })).toBeNull();
+    expect(getMeasuredLine({})).toBeNull();
+  });
+
+  it('counts a measured line as one item', () => {
+    expect(countedQuantity({ quantity: 0.512, properties: measuredLineProperties('kg') })).toBe(1);
+    expect(countedQuantity({ quantity: 3 })).toBe(3);
+  });
+
+  it('formats quantities for baskets and receipts', () => {
+    expect(formatQuantity(0.512, 'kg')).toBe('0.512 kg');
+    expect(formatQuantity(5.12, '100g')).toBe('512 g');
+    expect(formatQuantity(1.5, 'm')).toBe('1.50 m');
+    expect(formatQuantityLine(0.512, 18.5, 'kg', '£')).toBe('0.512 kg @ £18.50/kg');
+    expect(formatQuantityLine(2, 1, undefined, '£')).toBe('2 x £1.00');
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Units of measure for products sold by weight or length.
+ *
+ * A line sold by measure keeps the basket model unchanged: `price` is the
+ * price of one selling unit (per kg, per 100 g, per metre) and `quantity` is
+ * the decimal number of units sold, so `price × quantity` is still the line
+ * amount everywhere. The unit and the weighing (gross and tare) travel in
+ * `BasketItem.properties`, the same way gift card lines carry their code, so
+ * they are saved with the basket, written to order_items and synced as line
+ * properties without schema changes.
+ *
+ * See: docs/specs/hardware/scale.md
+ */
+
+import type { BasketItem } from '../basket/basket';
+
+/** How a product is sold */
+export type SellingUnit = 'each' | 'kg' | '100g' | 'lb' | 'm';
+
+interface UnitDefinition {
+  /** Shown after the unit price, e.g. "£1.20/100 g" */
+  label: string;
+  /** Decimal places a quantity is kept to */
+  decimals: number;
+  /** Kilograms in one unit, for units sold by weight */
+  kgPerUnit?: number;
+}
+
+export const SELLING_UNITS: Record<SellingUnit, UnitDefinition> = {
+  each: { label: 'each', decimals: 0 },
+  kg: { label: 'kg', decimals: 3, kgPerUnit: 1 },
+  '100g': { label: '100 g', decimals: 2, kgPerUnit: 0.1 },
+  lb: { label: 'lb', decimals: 3, kgPerUnit: 0.45359237 },
+  m: { label: 'm', decimals: 2 },
+};
+
+/** Keys written to `BasketItem.properties` for a line sold by measure */
+export const MEASURE_PROPERTY_KEYS = {
+  unit: 'unitOfMeasure',
+  gross: 'grossWeightKg',
+  tare: 'tareWeightKg',
+} as const;
+
+/** Stock levels are kept to the finest unit resolution (1 g) */
+const STOCK_DECIMALS = 3;
+
+/** Unit and weighing carried on a line sold by measure */
+export interface MeasuredLine {
+  unit: Exclude<SellingUnit, 'each'>;
+  grossKg?: number;
+  tareKg?: number;
+}
+
+export function isSellingUnit(value: unknown): value is SellingUnit {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SELLING_UNITS, value);
+}
+
+export function isMeasured(unit: SellingUnit | undefined): unit is MeasuredLine['unit'] {
+  return !!unit && unit !== 'each';
+}
+
+export function isSoldByWeight(unit: SellingUnit | undefined): boolean {
+  return !!unit && SELLING_UNITS[unit].kgPerUnit !== undefined;
+}
+
+/** Round a quantity to the resolution of its unit */
+export function roundQuantity(quantity: number, unit: SellingUnit = 'each'): number {
+  const factor = 10 ** SELLING_UNITS[unit].decimals;
+  return Math.round(quantity * factor) / factor;
+}
+
+/** Round a stock level after adding or removing a decimal quantity */
+export function roundStockQuantity(quantity: number): number {
+  const factor = 10 ** STOCK_DECIMALS;
+  return Math.round(quantity * factor) / factor;
+}
+
+/** Net weight after tare, never below zero */
+export function netWeightKg(grossKg: number, tareKg: number = 0): number {
+  return Math.max(0, roundQuantity(grossKg - tareKg, 'kg'));
+}
+
+/** Quantity of `unit` in a net weight, or null when the unit is not sold by weight */
+export function quantityFromWeight(netKg: number, unit: SellingUnit): number | null {
+  const kgPerUnit = SELLING_UNITS[unit].kgPerUnit;
+  if (kgPerUnit === undefined) return null;
+  return roundQuantity(netKg / kgPerUnit, unit);
+}
+
+/** Properties for a new line sold by measure, with the weighing when it came from a scale */
+export function measuredLineProperties(unit: MeasuredLine['unit'], weighing?: { grossKg: number; tareKg: number }): Record<string, string> {
+  const properties: Record<string, string> = { [MEASURE_PROPERTY_KEYS.unit]: unit };
+  if (weighing) {
+    properties[MEASURE_PROPERTY_KEYS.gross] = String(weighing.grossKg);
+    properties[MEASURE_PROPERTY_KEYS.tare] = String(weighing.tareKg);
+  }
+  return properties;
+}
+
+/** The unit and weighing of a line sold by measure, or null for a line sold each */
+export function getMeasuredLine(item: Pick<BasketItem, 'properties'>): MeasuredLine | null {
+  const unit = item.properties?.[MEASURE_PROPERTY_KEYS.unit];
+  if (!isSellingUnit(unit) || !isMeasured(unit)) return null;
+  const gross = item.properties?.[MEASURE_PROPERTY_KEYS.gross];
+  const tare = item.properties?.[MEASURE_PROPERTY_KEYS.tare];
+  return {
+    unit,
+    grossKg: gross !== undefined ? Number(gross) : undefined,
+    tareKg: tare !== undefined ? Number(tare) : undefined,
+  };
+}
+
+/** How many items a line counts as — a weighed or measured line is one item */
+export function countedQuantity(item: Pick<BasketItem, 'properties' | 'quantity'>): number {
+  return getMeasuredLine(item) ? 1 : item.quantity;
+}
+
+/** The amount sold, e.g. "0.512 kg", "512 g", "1.25 m" */
+export function formatQuantity(quantity: number, unit: SellingUnit): string {
+  if (unit === '100g') return `${Math.round(quantity * 100)} g`;
+  if (unit === 'each') return String(quantity);
+  return `${roundQuantity(quantity, unit).toFixed(SELLING_UNITS[unit].decimals)} ${SELLING_UNITS[unit].label}`;
+}
+
+/**
+ * Quantity column of a receipt or basket line: "2 x £1.00" for items sold
+ * each, "0.512 kg @ £18.50/kg" for items sold by measure.
+ */
+export function formatQuantityLine(quantity: number, price: number, unit: SellingUnit | undefined, currencySymbol: string): string {
+  if (!isMeasured(unit)) return `${quantity} x ${currencySymbol}${price.toFixed(2)}`;
+  return `${formatQuantity(quantity, unit)} @ ${currencySymbol}${price.toFixed(2)}/${SELLING_UNITS[unit].label}`;
+}
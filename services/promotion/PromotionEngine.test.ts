@@ -0,0 +1,195 @@
+import { evaluatePromotions, isPromotionLive, isWithinSchedule, matchesTarget } from './PromotionEngine';
+import { Promotion } from './PromotionServiceInterface';
+import { BasketItem } from '../basket/basket';
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+function makeItem(overrides: Partial<BasketItem> = {}): BasketItem {
+  return {
+    id: 'line-1',
+    productId: 'prod-1',
+    name: 'Widget',
+    price: 10,
+    quantity: 1,
+    ...overrides,
+  };
+}
+
+function makePromotion(overrides: Partial<Promotion> = {}): Promotion {
+  return {
+    id: 'promo-1',
+    name: 'Promo',
+    type: 'bogo',
+    target: {},
+    priority: 0,
+    active: true,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    ...overrides,
+  };
+}
+
+// Wednesday 2025-01-15 17:30 local time
+const NOW = new Date(2025, 0, 15, 17, 30);
+
+// ── Tests ─────────────────────────────────────────────────────────────
+
+describe('PromotionEngine', () => {
+  // ─── Eligibility ────────────────────────────────────────────
+  describe('isWithinSchedule', () => {
+    it('matches a same-day window with exclusive end', () => {
+      expect(isWithinSchedule({ startTime: '17:00', endTime: '18:00' }, NOW)).toBe(true);
+      expect(isWithinSchedule({ startTime: '17:00', endTime: '17:30' }, NOW)).toBe(false);
+    });
+
+    it('handles windows that span midnight', () => {
+      const late = new Date(2025, 0, 15, 1, 0);
+      expect(isWithinSchedule({ startTime: '22:00', endTime: '02:00' }, late)).toBe(true);
+      expect(isWithinSchedule({ startTime: '22:00', endTime: '02:00' }, NOW)).toBe(false);
+    });
+
+    it('filters by day of week', () => {
+      expect(isWithinSchedule({ daysOfWeek: [3] }, NOW)).toBe(true);
+      expect(isWithinSchedule({ daysOfWeek: [0, 6] }, NOW)).toBe(false);
+    });
+  });
+
+  describe('isPromotionLive', () => {
+    it('skips inactive and out-of-range promotions', () => {
+      expect(isPromotionLive(makePromotion({ active: false }), NOW)).toBe(false);
+      expect(isPromotionLive(makePromotion({ startsAt: new Date(2025, 0, 16) }), NOW)).toBe(false);
+      expect(isPromotionLive(makePromotion({ endsAt: new Date(2025, 0, 15) }), NOW)).toBe(false);
+      expect(isPromotionLive(makePromotion(), NOW)).toBe(true);
+    });
+  });
+
+  describe('matchesTarget', () => {
+    it('matches everything when the target is empty', () => {
+      expect(matchesTarget({}, makeItem())).toBe(true);
+    });
+
+    it('matches on category, product or sku', () => {
+      const item = makeItem({ categoryId: 'drinks', sku: 'SKU-1' });
+      expect(matchesTarget({ categoryIds: ['drinks'] }, item)).toBe(true);
+      expect(matchesTarget({ productIds: ['prod-1'] }, item)).toBe(true);
+      expect(matchesTarget({ skus: ['SKU-1'] }, item)).toBe(true);
+      expect(matchesTarget({ categoryIds: ['snacks'] }, item)).toBe(false);
+    });
+  });
+
+  // ─── Evaluation ─────────────────────────────────────────────
+  describe('evaluatePromotions', () => {
+    it('returns no discount when nothing applies', () => {
+      const result = evaluatePromotions([], [makeItem()], NOW);
+      expect(result.totalDiscount).toBe(0);
+      expect(result.applied).toEqual([]);
+    });
+
+    it('BOGO gives the cheapest unit of each pair free', () => {
+      const items = [makeItem({ id: 'a', price: 10, quantity: 1 }), makeItem({ id: 'b', productId: 'prod-2', price: 6, quantity: 1 })];
+      const result = evaluatePromotions([makePromotion({ type: 'bogo' })], items, NOW);
+
+      expect(result.totalDiscount).toBe(6);
+      expect(result.lineDiscounts['b'][0].amount).toBe(6);
+      expect(result.lineDiscounts['a']).toBeUndefined();
+    });
+
+    it('BOGO leaves an incomplete group undiscounted', () => {
+      const result = evaluatePromotions([makePromotion({ type: 'bogo' })], [makeItem({ quantity: 3 })], NOW);
+      expect(result.totalDiscount).toBe(10);
+    });
+
+    it('multi-buy mixes and matches across a category', () => {
+      const promotion = makePromotion({ type: 'multi_buy', buyQuantity: 3, bundlePrice: 10, target: { categoryIds: ['snacks'] } });
+      const items = [
+        makeItem({ id: 'a', price: 4, quantity: 2, categoryId: 'snacks' }),
+        makeItem({ id: 'b', productId: 'prod-2', price: 4, quantity: 1, categoryId: 'snacks' }),
+        makeItem({ id: 'c', productId: 'prod-3', price: 4, quantity: 1, categoryId: 'drinks' }),
+      ];
+      const result = evaluatePromotions([promotion], items, NOW);
+
+      // 3 × £4 = £12 → £10
+      expect(result.totalDiscount).toBe(2);
+      expect(result.lineDiscounts['c']).toBeUndefined();
+      const allocated = result.lineDiscounts['a'][0].amount + result.lineDiscounts['b'][0].amount;
+      expect(allocated).toBeCloseTo(2, 2);
+    });
+
+    it('multi-buy ignores bundles that are not cheaper', () => {
+      const promotion = makePromotion({ type: 'multi_buy', buyQuantity: 2, bundlePrice: 5 });
+      const result = evaluatePromotions([promotion], [makeItem({ price: 2, quantity: 2 })], NOW);
+      expect(result.totalDiscount).toBe(0);
+    });
+
+    it('buy X get Y applies a percentage to the get units', () => {
+      const promotion = makePromotion({ type: 'buy_x_get_y', buyQuantity: 2, getQuantity: 1, getDiscountPercent: 50 });
+      const result = evaluatePromotions([promotion], [makeItem({ price: 8, quantity: 3 })], NOW);
+      expect(result.totalDiscount).toBe(4);
+    });
+
+    it('never discounts the same unit twice across line-level promotions', () => {
+      const bogo = makePromotion({ id: 'bogo', type: 'bogo', priority: 10 });
+      const happyHour = makePromotion({ id: 'hh', type: 'happy_hour', discountType: 'percentage', discountValue: 50 });
+      const result = evaluatePromotions([happyHour, bogo], [makeItem({ price: 10, quantity: 3 })], NOW);
+
+      // BOGO claims 2 units (−£10); happy hour only gets the leftover unit (−£5)
+      expect(result.applied.map(a => a.promotionId)).toEqual(['bogo', 'hh']);
+      expect(result.totalDiscount).toBe(15);
+    });
+
+    it('happy hour only applies inside its window', () => {
+      const promotion = makePromotion({
+        type: 'happy_hour',
+        discountType: 'fixed',
+        discountValue: 1,
+        schedule: { startTime: '16:00', endTime: '18:00' },
+      });
+      const items = [makeItem({ quantity: 2 })];
+
+      expect(evaluatePromotions([promotion], items, NOW).totalDiscount).toBe(2);
+      expect(evaluatePromotions([promotion], items, new Date(2025, 0, 15, 19, 0)).totalDiscount).toBe(0);
+    });
+
+    it('weighed lines skip quantity deals, take happy hour off the line and count toward spend', () => {
+      const weighed = makeItem({ id: 'w', price: 10, quantity: 2.5, properties: { unitOfMeasure: 'kg' } });
+      const bogo = makePromotion({ id: 'bogo', type: 'bogo', priority: 10 });
+      const happyHour = makePromotion({ id: 'hh', type: 'happy_hour', discountType: 'percentage', discountValue: 10 });
+      const spend = makePromotion({ id: 'spend', type: 'spend_threshold', tiers: [{ minSpend: 20, discountType: 'fixed', value: 2 }] });
+
+      expect(evaluatePromotions([bogo], [weighed], NOW).totalDiscount).toBe(0);
+      expect(evaluatePromotions([happyHour], [weighed], NOW).totalDiscount).toBe(2.5);
+      expect(evaluatePromotions([spend], [weighed], NOW).totalDiscount).toBe(2);
+    });
+
+    it('spend threshold picks the highest tier on net spend and prorates it', () => {
+      const promotion = makePromotion({
+        type: 'spend_threshold',
+        tiers: [
+          { minSpend: 20, discountType: 'fixed', value: 2 },
+          { minSpend: 50, discountType: 'percentage', value: 10 },
+        ],
+      });
+      const items = [makeItem({ id: 'a', price: 30, quantity: 1 }), makeItem({ id: 'b', productId: 'prod-2', price: 30, quantity: 1 })];
+      const result = evaluatePromotions([promotion], items, NOW);
+
+      expect(result.totalDiscount).toBe(6);
+      expect(result.lineDiscounts['a'][0].amount).toBe(3);
+      expect(result.lineDiscounts['b'][0].amount).toBe(3);
+    });
+
+    it('spend threshold uses spend after line-level promotions', () => {
+      const bogo = makePromotion({ id: 'bogo', type: 'bogo' });
+      const spend = makePromotion({
+        id: 'spend',
+        type: 'spend_threshold',
+        priority: 100,
+        tiers: [{ minSpend: 20, discountType: 'fixed', value: 5 }],
+      });
+      // £30 gross, £20 net after BOGO on the £10 pair
+      const result = evaluatePromotions([spend, bogo], [makeItem({ price: 10, quantity: 2 }), makeItem({ id: 'b', price: 10 })], NOW);
+
+      expect(result.applied.map(a => a.promotionId)).toEqual(['bogo', 'spend']);
+      expect(result.totalDiscount).toBe(15);
+    });
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * PromotionEngine
+ *
+ * Pure evaluation of automatic promotions against basket lines.
+ * No I/O — PromotionService loads promotions and delegates here, which keeps
+ * the rules deterministic and unit-testable.
+ *
+ * Rules:
+ *  - Line-level promotions (bogo, multi_buy, buy_x_get_y, happy_hour) run in
+ *    descending priority. Each unit can be claimed by at most one of them, so
+ *    a unit discounted by a BOGO is never also discounted by a happy hour.
+ *  - Quantity deals sort qualifying units by price (highest first) and only
+ *    claim units that form a complete group; leftovers stay available.
+ *  - Lines sold by weight or length have no units to group: quantity deals
+ *    skip them and a happy hour discounts the line amount.
+ *  - Basket-level spend thresholds run last, on the net spend left after
+ *    line-level promotions, and are prorated back onto the qualifying lines so
+ *    refunds know each line's share.
+ *
+ * All arithmetic is in integer cents (ADR-006).
+ */
+
+import type { BasketItem } from '../basket/basket';
+import type { LinePromotion, Promotion, PromotionEvaluation, PromotionSchedule, PromotionTarget } from './PromotionServiceInterface';
+import { allocateCents, multiplyMoney, toCents, toDollars } from '../../utils/money';
+import { getMeasuredLine } from '../product/unitOfMeasure';
+
+const LINE_LEVEL_TYPES = new Set<Promotion['type']>(['bogo', 'multi_buy', 'buy_x_get_y', 'happy_hour']);
+
+/** A single sellable unit of a basket line */
+interface Unit {
+  lineId: string;
+  priceCents: number;
+}
+
+// ── Eligibility ─────────────────────────────────────────────────────────
+
+function parseTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+/** Whether `now` falls inside a recurring local-time window */
+export function isWithinSchedule(schedule: PromotionSchedule | undefined, now: Date): boolean {
+  if (!schedule) return true;
+
+  if (schedule.daysOfWeek && schedule.daysOfWeek.length > 0 && !schedule.daysOfWeek.includes(now.getDay())) {
+    return false;
+  }
+
+  const start = schedule.startTime ? parseTime(schedule.startTime) : null;
+  const end = schedule.endTime ? parseTime(schedule.endTime) : null;
+  const minutes = now.getHours() * 60 + now.getMinutes();
+
+  if (start !== null && end !== null) {
+    // A window such as 22:00–02:00 spans midnight
+    return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+  }
+  if (start !== null) return minutes >= start;
+  if (end !== null) return minutes < end;
+  return true;
+}
+
+/** Whether a promotion is switched on, inside its date range and inside its schedule */
+export function isPromotionLive(promotion: Promotion, now: Date): boolean {
+  if (!promotion.active) return false;
+  if (promotion.startsAt && now < promotion.startsAt) return false;
+  if (promotion.endsAt && now >= promotion.endsAt) return false;
+  return isWithinSchedule(promotion.schedule, now);
+}
+
+/** Whether a basket line qualifies for a promotion target */
+export function matchesTarget(target: PromotionTarget, item: BasketItem): boolean {
+  const lists = [target.productIds, target.variantIds, target.categoryIds, target.skus];
+  if (lists.every(list => !list || list.length === 0)) return true;
+
+  if (target.productIds?.includes(item.productId)) return true;
+  if (item.variantId && target.variantIds?.includes(item.variantId)) return true;
+  if (item.categoryId && target.categoryIds?.includes(item.categoryId)) return true;
+  if (item.sku && target.skus?.includes(item.sku)) return true;
+  return false;
+}
+
+// ── Evaluation ──────────────────────────────────────────────────────────
+
+/**
+ * Evaluate promotions against basket lines.
+ * @param promotions Candidate promotions (inactive / out-of-window ones are skipped)
+ * @param items Basket lines
+ * @param now Evaluation time
+ */
+export function evaluatePromotions(promotions: Promotion[], items: BasketItem[], now: Date = new Date()): PromotionEvaluation {
+  const live = promotions.filter(p => isPromotionLive(p, now)).sort((a, b) => b.priority - a.priority);
+
+  // Units already claimed by a line-level promotion, per line
+  const claimed = new Map<string, number>(items.map(item => [item.id, 0]));
+  // Discount already given per line, in cents (used for net spend)
+  const lineDiscountCents = new Map<string, number>(items.map(item => [item.id, 0]));
+  const lineDiscounts: Record<string, LinePromotion[]> = {};
+
+  const record = (promotion: Promotion, perLineCents: Map<string, number>): number => {
+    let total = 0;
+    perLineCents.forEach((cents, lineId) => {
+      if (cents <= 0) return;
+      total += cents;
+      lineDiscountCents.set(lineId, (lineDiscountCents.get(lineId) ?? 0) + cents);
+      (lineDiscounts[lineId] ??= []).push({
+        promotionId: promotion.id,
+        promotionName: promotion.name,
+        type: promotion.type,
+        amount: toDollars(cents),
+      });
+    });
+    return total;
+  };
+
+  const applied: PromotionEvaluation['applied'] = [];
+
+  const lineLevel = live.filter(p => LINE_LEVEL_TYPES.has(p.type));
+  const basketLevel = live.filter(p => !LINE_LEVEL_TYPES.has(p.type));
+
+  for (const promotion of lineLevel) {
+    const qualifying = items.filter(item => matchesTarget(promotion.target, item));
+    if (qualifying.length === 0) continue;
+
+    const perLine =
+      promotion.type === 'happy_hour' ? applyHappyHour(promotion, qualifying, claimed) : applyQuantityDeal(promotion, qualifying, claimed);
+
+    const total = record(promotion, perLine);
+    if (total > 0) {
+      applied.push({ promotionId: promotion.id, promotionName: promotion.name, type: promotion.type, amount: toDollars(total) });
+    }
+  }
+
+  for (const promotion of basketLevel) {
+    const perLine = applySpendThreshold(promotion, items, lineDiscountCents);
+    const total = record(promotion, perLine);
+    if (total > 0) {
+      applied.push({ promotionId: promotion.id, promotionName: promotion.name, type: promotion.type, amount: toDollars(total) });
+    }
+  }
+
+  const totalCents = Array.from(lineDiscountCents.values()).reduce((s, c) => s + c, 0);
+  return { applied, lineDiscounts, totalDiscount: toDollars(totalCents) };
+}
+
+/** Expand unclaimed units of the qualifying lines, most expensive first */
+function availableUnits(lines: BasketItem[], claimed: Map<string, number>): Unit[] {
+  const units: Unit[] = [];
+  for (const line of lines) {
+    if (getMeasuredLine(line)) continue;
+    const free = Math.floor(line.quantity) - (claimed.get(line.id) ?? 0);
+    const priceCents = toCents(line.price);
+    for (let i = 0; i < free; i++) {
+      units.push({ lineId: line.id, priceCents });
+    }
+  }
+  // Stable sort keeps basket order for equal prices
+  return units.sort((a, b) => b.priceCents - a.priceCents);
+}
+
+function claim(units: Unit[], claimed: Map<string, number>): void {
+  for (const unit of units) {
+    claimed.set(unit.lineId, (claimed.get(unit.lineId) ?? 0) + 1);
+  }
+}
+
+function addCents(perLine: Map<string, number>, lineId: string, cents: number): void {
+  perLine.set(lineId, (perLine.get(lineId) ?? 0) + cents);
+}
+
+/** bogo, buy_x_get_y and multi_buy — group units and discount each complete group */
+function applyQuantityDeal(promotion: Promotion, lines: BasketItem[], claimed: Map<string, number>): Map<string, number> {
+  const perLine = new Map<string, number>();
+  const units = availableUnits(lines, claimed);
+
+  if (promotion.type === 'multi_buy') {
+    const size = promotion.buyQuantity ?? 0;
+    const bundleCents = toCents(promotion.bundlePrice ?? 0);
+    if (size <= 0) return perLine;
+
+    for (let start = 0; start + size <= units.length; start += size) {
+      const group = units.slice(start, start + size);
+      const groupCents = group.reduce((s, u) => s + u.priceCents, 0);
+      const discount = groupCents - bundleCents;
+      // A bundle price that isn't cheaper than the units is not a deal
+      if (discount <= 0) continue;
+
+      const parts = allocateCents(
+        discount,
+        group.map(u => u.priceCents)
+      );
+      group.forEach((unit, i) => addCents(perLine, unit.lineId, parts[i]));
+      claim(group, claimed);
+    }
+    return perLine;
+  }
+
+  // bogo and buy_x_get_y share the same grouping; bogo is always 100% off
+  const buy = promotion.buyQuantity ?? 1;
+  const get = promotion.getQuantity ?? 1;
+  const percent = promotion.type === 'bogo' ? 100 : Math.min(100, Math.max(0, promotion.getDiscountPercent ?? 0));
+  const size = buy + get;
+  if (buy <= 0 || get <= 0 || percent <= 0) return perLine;
+
+  for (let start = 0; start + size <= units.length; start += size) {
+    const group = units.slice(start, start + size);
+    // Units are sorted high → low, so the cheapest `get` units are discounted
+    for (const unit of group.slice(buy)) {
+      addCents(perLine, unit.lineId, Math.round((unit.priceCents * percent) / 100));
+    }
+    claim(group, claimed);
+  }
+  return perLine;
+}
+
+/** happy_hour — discount every unclaimed qualifying unit */
+function applyHappyHour(promotion: Promotion, lines: BasketItem[], claimed: Map<string, number>): Map<string, number> {
+  const perLine = new Map<string, number>();
+  const value = promotion.discountValue ?? 0;
+  if (value <= 0) return perLine;
+
+  for (const line of lines) {
+    if (getMeasuredLine(line)) {
+      // A weighed line is one claim; the discount comes off its amount
+      if ((claimed.get(line.id) ?? 0) > 0) continue;
+      const lineCents = toCents(multiplyMoney(line.price, line.quantity));
+      const discount =
+        promotion.discountType === 'fixed' ? Math.min(toCents(value), lineCents) : Math.round((lineCents * Math.min(100, value)) / 100);
+      if (discount <= 0) continue;
+      addCents(perLine, line.id, discount);
+      claimed.set(line.id, 1);
+      continue;
+    }
+
+    const free = Math.floor(line.quantity) - (claimed.get(line.id) ?? 0);
+    if (free <= 0) continue;
+
+    const priceCents = toCents(line.price);
+    const perUnit =
+      promotion.discountType === 'fixed' ? Math.min(toCents(value), priceCents) : Math.round((priceCents * Math.min(100, value)) / 100);
+    if (perUnit <= 0) continue;
+
+    addCents(perLine, line.id, perUnit * free);
+    claimed.set(line.id, (claimed.get(line.id) ?? 0) + free);
+  }
+  return perLine;
+}
+
+/** spend_threshold — pick the highest tier reached and prorate it across qualifying lines */
+function applySpendThreshold(promotion: Promotion, items: BasketItem[], lineDiscountCents: Map<string, number>): Map<string, number> {
+  const perLine = new Map<string, number>();
+  const qualifying = items.filter(item => matchesTarget(promotion.target, item));
+  const netCents = qualifying.map(item =>
+    Math.max(0, toCents(multiplyMoney(item.price, item.quantity)) - (lineDiscountCents.get(item.id) ?? 0))
+  );
+  const spendCents = netCents.reduce((s, c) => s + c, 0);
+
+  const tier = [...(promotion.tiers ?? [])].sort((a, b) => b.minSpend - a.minSpend).find(t => spendCents >= toCents(t.minSpend));
+  if (!tier) return perLine;
+
+  const discount =
+    tier.discountType === 'fixed' ? Math.min(toCents(tier.value), spendCents) : Math.round((spendCents * Math.min(100, tier.value)) / 100);
+
+  const parts = allocateCents(discount, netCents);
+  qualifying.forEach((item, i) => {
+    if (parts[i] > 0) perLine.set(item.id, parts[i]);
+  });
+  return perLine;
+}
@@ -0,0 +1,205 @@
+/**
+ * PromotionService
+ *
+ * Manages automatic promotion rules and evaluates them against the basket.
+ * Rules are loaded from SQLite once and cached; any write invalidates the
+ * cache so the next basket change picks up the new rules.
+ *
+ * Evaluation itself is delegated to the pure PromotionEngine.
+ *
+ * See: docs/specs/basket/promotions.md
+ */
+
+import type { BasketItem } from '../basket/basket';
+import {
+  CreatePromotionInput,
+  Promotion,
+  PromotionEvaluation,
+  PromotionServiceInterface,
+  PromotionTarget,
+} from './PromotionServiceInterface';
+import { evaluatePromotions, isPromotionLive } from './PromotionEngine';
+import { promotionRepository, PromotionInput, PromotionRow } from '../../repositories/PromotionRepository';
+import { auditLogService } from '../audit/AuditLogService';
+import { LoggerFactory } from '../logger/LoggerFactory';
+
+export class PromotionService implements PromotionServiceInterface {
+  private static instance: PromotionService;
+  private logger = LoggerFactory.getInstance().createLogger('PromotionService');
+  private cache: Promotion[] | null = null;
+
+  private constructor() {}
+
+  static getInstance(): PromotionService {
+    if (!PromotionService.instance) {
+      PromotionService.instance = new PromotionService();
+    }
+    return PromotionService.instance;
+  }
+
+  // ── Evaluation ────────────────────────────────────────────────────────
+
+  async evaluate(items: BasketItem[], now: Date = new Date()): Promise<PromotionEvaluation> {
+    if (items.length === 0) {
+      return { applied: [], lineDiscounts: {}, totalDiscount: 0 };
+    }
+
+    try {
+      const promotions = await this.loadActive();
+      return evaluatePromotions(promotions, items, now);
+    } catch (error) {
+      // A broken rule must never block a sale — fall back to no promotions
+      this.logger.error({ message: 'Failed to evaluate promotions' }, error instanceof Error ? error : new Error(String(error)));
+      return { applied: [], lineDiscounts: {}, totalDiscount: 0 };
+    }
+  }
+
+  // ── Queries ───────────────────────────────────────────────────────────
+
+  async getPromotions(): Promise<Promotion[]> {
+    const rows = await promotionRepository.findAll();
+    return rows.map(row => this.mapRow(row));
+  }
+
+  async getActivePromotions(now: Date = new Date()): Promise<Promotion[]> {
+    const promotions = await this.loadActive();
+    return promotions.filter(p => isPromotionLive(p, now));
+  }
+
+  // ── Mutations ─────────────────────────────────────────────────────────
+
+  async createPromotion(input: CreatePromotionInput): Promise<Promotion> {
+    this.validate(input);
+
+    const id = await promotionRepository.create(this.toInput(input));
+    this.cache = null;
+
+    const created = await this.getById(id);
+    await auditLogService.log('promotion:created', {
+      details: `Promotion created: ${created.name} (${created.type})`,
+      metadata: { promotionId: id, type: created.type },
+    });
+
+    this.logger.info(`Created promotion ${created.name}`);
+    return created;
+  }
+
+  async updatePromotion(id: string, updates: Partial<CreatePromotionInput>): Promise<Promotion> {
+    const existing = await this.getById(id);
+    const merged: CreatePromotionInput = { ...existing, ...updates };
+    this.validate(merged);
+
+    await promotionRepository.update(id, this.toInput(merged));
+    this.cache = null;
+
+    const updated = await this.getById(id);
+    await auditLogService.log('promotion:updated', {
+      details: `Promotion updated: ${updated.name}`,
+      metadata: { promotionId: id, changes: Object.keys(updates) },
+    });
+
+    return updated;
+  }
+
+  async deletePromotion(id: string): Promise<void> {
+    const existing = await promotionRepository.findById(id);
+    await promotionRepository.delete(id);
+    this.cache = null;
+
+    await auditLogService.log('promotion:deleted', {
+      details: `Promotion deleted: ${existing?.name ?? id}`,
+      metadata: { promotionId: id },
+    });
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────
+
+  private async loadActive(): Promise<Promotion[]> {
+    if (!this.cache) {
+      const rows = await promotionRepository.findActive();
+      this.cache = rows.map(row => this.mapRow(row));
+    }
+    return this.cache;
+  }
+
+  private async getById(id: string): Promise<Promotion> {
+    const row = await promotionRepository.findById(id);
+    if (!row) throw new Error(`Promotion not found: ${id}`);
+    return this.mapRow(row);
+  }
+
+  private validate(input: CreatePromotionInput): void {
+    if (!input.name.trim()) throw new Error('Promotion name is required');
+
+    switch (input.type) {
+      case 'bogo':
+      case 'buy_x_get_y':
+        if ((input.buyQuantity ?? 1) < 1 || (input.getQuantity ?? 1) < 1) {
+          throw new Error('Buy and get quantities must be at least 1');
+        }
+        if (input.type === 'buy_x_get_y' && !(input.getDiscountPercent && input.getDiscountPercent > 0)) {
+          throw new Error('Buy X get Y promotions need a discount percentage');
+        }
+        break;
+      case 'multi_buy':
+        if (!input.buyQuantity || input.buyQuantity < 2) throw new Error('Multi-buy bundles need at least 2 items');
+        if (input.bundlePrice === undefined || input.bundlePrice < 0) throw new Error('Multi-buy bundles need a bundle price');
+        break;
+      case 'spend_threshold':
+        if (!input.tiers || input.tiers.length === 0) throw new Error('Spend threshold promotions need at least one tier');
+        break;
+      case 'happy_hour':
+        if (!input.discountType || !(input.discountValue && input.discountValue > 0)) {
+          throw new Error('Happy hour promotions need a discount');
+        }
+        break;
+    }
+  }
+
+  private toInput(input: CreatePromotionInput): PromotionInput {
+    return {
+      name: input.name.trim(),
+      description: input.description ?? null,
+      type: input.type,
+      target: JSON.stringify(input.target ?? {}),
+      buyQuantity: input.buyQuantity ?? null,
+      getQuantity: input.getQuantity ?? null,
+      getDiscountPercent: input.getDiscountPercent ?? null,
+      bundlePrice: input.bundlePrice ?? null,
+      tiers: input.tiers ? JSON.stringify(input.tiers) : null,
+      discountType: input.discountType ?? null,
+      discountValue: input.discountValue ?? null,
+      schedule: input.schedule ? JSON.stringify(input.schedule) : null,
+      startsAt: input.startsAt ? input.startsAt.getTime() : null,
+      endsAt: input.endsAt ? input.endsAt.getTime() : null,
+      priority: input.priority,
+      active: input.active,
+    };
+  }
+
+  private mapRow(row: PromotionRow): Promotion {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description ?? undefined,
+      type: row.type,
+      target: JSON.parse(row.target || '{}') as PromotionTarget,
+      buyQuantity: row.buy_quantity ?? undefined,
+      getQuantity: row.get_quantity ?? undefined,
+      getDiscountPercent: row.get_discount_percent ?? undefined,
+      bundlePrice: row.bundle_price ?? undefined,
+      tiers: row.tiers ? JSON.parse(row.tiers) : undefined,
+      discountType: row.discount_type ?? undefined,
+      discountValue: row.discount_value ?? undefined,
+      schedule: row.schedule ? JSON.parse(row.schedule) : undefined,
+      startsAt: row.starts_at ? new Date(row.starts_at) : undefined,
+      endsAt: row.ends_at ? new Date(row.ends_at) : undefined,
+      priority: row.priority,
+      active: row.active === 1,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
+
+export const promotionService = PromotionService.getInstance();
@@ -0,0 +1,123 @@
+/**
+ * Promotion Service Interface
+ * Automatic, code-less promotions evaluated against the basket on every change.
+ *
+ * All amounts are in dollars at the API boundary (like BasketItem.price);
+ * the engine works in integer cents internally (ADR-006).
+ */
+
+import type { BasketItem } from '../basket/basket';
+
+export type PromotionType =
+  /** Buy N, get M of the same qualifying items free */
+  | 'bogo'
+  /** N qualifying items for a fixed bundle price ("3 for £10"), mix-and-match across the target */
+  | 'multi_buy'
+  /** Buy N, get M qualifying items at a percentage off */
+  | 'buy_x_get_y'
+  /** Basket-level discount once net spend crosses a tier threshold */
+  | 'spend_threshold'
+  /** Per-unit percentage or fixed discount inside the promotion's time window */
+  | 'happy_hour';
+
+/**
+ * Which basket lines a promotion applies to.
+ * Every populated list is OR-ed together; an empty target matches all lines.
+ */
+export interface PromotionTarget {
+  productIds?: string[];
+  variantIds?: string[];
+  categoryIds?: string[];
+  skus?: string[];
+}
+
+/** Recurring local-time window, e.g. weekdays 16:00–18:00 */
+export interface PromotionSchedule {
+  /** 0 = Sunday … 6 = Saturday. Omitted = every day */
+  daysOfWeek?: number[];
+  /** "HH:MM", inclusive */
+  startTime?: string;
+  /** "HH:MM", exclusive. May be earlier than startTime to span midnight */
+  endTime?: string;
+}
+
+export interface SpendTier {
+  /** Minimum net spend in dollars for this tier */
+  minSpend: number;
+  discountType: 'fixed' | 'percentage';
+  /** Dollars for fixed, 0–100 for percentage */
+  value: number;
+}
+
+export interface Promotion {
+  id: string;
+  name: string;
+  description?: string;
+  type: PromotionType;
+  target: PromotionTarget;
+  /** bogo / buy_x_get_y: units to buy; multi_buy: bundle size */
+  buyQuantity?: number;
+  /** bogo / buy_x_get_y: units discounted per group */
+  getQuantity?: number;
+  /** buy_x_get_y: 0–100 off the "get" units */
+  getDiscountPercent?: number;
+  /** multi_buy: price in dollars for one bundle of buyQuantity units */
+  bundlePrice?: number;
+  /** spend_threshold: the highest qualifying tier wins */
+  tiers?: SpendTier[];
+  /** happy_hour: per-unit discount */
+  discountType?: 'fixed' | 'percentage';
+  /** happy_hour: dollars per unit for fixed, 0–100 for percentage */
+  discountValue?: number;
+  schedule?: PromotionSchedule;
+  startsAt?: Date;
+  endsAt?: Date;
+  /** Higher runs first and claims units before lower-priority quantity deals */
+  priority: number;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type CreatePromotionInput = Omit<Promotion, 'id' | 'createdAt' | 'updatedAt'>;
+
+/** A promotion's share of the discount on a single basket line */
+export interface LinePromotion {
+  promotionId: string;
+  promotionName: string;
+  type: PromotionType;
+  /** Discount allocated to this line, in dollars */
+  amount: number;
+}
+
+/** One promotion that fired during evaluation */
+export interface AppliedPromotion {
+  promotionId: string;
+  promotionName: string;
+  type: PromotionType;
+  /** Total discount across all lines, in dollars */
+  amount: number;
+}
+
+export interface PromotionEvaluation {
+  applied: AppliedPromotion[];
+  /** Keyed by BasketItem.id */
+  lineDiscounts: Record<string, LinePromotion[]>;
+  /** Sum of all promotion discounts, in dollars */
+  totalDiscount: number;
+}
+
+export interface PromotionServiceInterface {
+  /**
+   * Evaluate every active promotion against the given basket lines.
+   * @param items Current basket lines
+   * @param now Evaluation time (defaults to the current time)
+   */
+  evaluate(items: BasketItem[], now?: Date): Promise<PromotionEvaluation>;
+
+  getPromotions(): Promise<Promotion[]>;
+  getActivePromotions(now?: Date): Promise<Promotion[]>;
+  createPromotion(input: CreatePromotionInput): Promise<Promotion>;
+  updatePromotion(id: string, updates: Partial<CreatePromotionInput>): Promise<Promotion>;
+  deletePromotion(id: string): Promise<void>;
+}
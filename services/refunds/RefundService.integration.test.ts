@@ -97,10 +97,15 @@ jest.mock('../notifications/NotificationService', () => ({
   },
 }));
 
+jest.mock('../giftcard/GiftCardService', () => ({
+  giftCardService: { refundToCards: jest.fn().mockResolvedValue(0), voidForReturn: jest.fn().mockResolvedValue(undefined) },
+}));
+
 import { returnService } from './RefundService';
 import { auditLogService } from '../audit/AuditLogService';
 import { notificationService } from '../notifications/NotificationService';
 import { ECommercePlatform } from '../../utils/platforms';
+import { giftCardService } from '../giftcard/GiftCardService';
 
 describe('ReturnService - Integration Tests', () => {
   beforeEach(() => {
@@ -150,6 +155,33 @@ describe('ReturnService - Integration Tests', () => {
       );
     });
 
+    it('should refund gift card tender to the card before the platform', async () => {
+      mockOrderFindById.mockResolvedValue({
+        id: 'order-1',
+        platform: ECommercePlatform.WOOCOMMERCE,
+        platform_order_id: 'plat-order-1',
+        status: 'paid',
+        payments_json: JSON.stringify([
+          { id: 'p1', method: 'gift_card', amount: 6, processedAt: 0 },
+          { id: 'p2', method: 'cash', amount: 14, processedAt: 0 },
+        ]),
+      });
+      mockCreate.mockResolvedValue('return-1');
+      (giftCardService.refundToCards as jest.Mock).mockResolvedValue(600);
+      mockProcessRefund.mockResolvedValue({ success: true, refundId: 'refund-124', timestamp: new Date() });
+
+      const result = await returnService.processReturn({
+        orderId: 'order-1',
+        items: [{ orderItemId: 'item-1', productId: 'prod-1', productName: 'Test Item', quantity: 1, refundAmount: 10 }],
+        issueRefund: true,
+        platform: ECommercePlatform.WOOCOMMERCE,
+      });
+
+      expect(giftCardService.refundToCards).toHaveBeenCalledWith('order-1', 1000, undefined);
+      expect(result.giftCardRefund).toBe(6);
+      expect(mockProcessRefund.mock.calls[0][1]).toEqual(expect.objectContaining({ amount: 4 }));
+    });
+
     it('should process return without platform refund when issueRefund is false', async () => {
       mockOrderFindById.mockResolvedValue({
         id: 'order-1',
@@ -1,10 +1,15 @@
 import { ReturnRepository, returnRepository, ReturnRow, CreateReturnInput } from '../../repositories/ReturnRepository';
 import { orderRepository } from '../../repositories/OrderRepository';
-import { OrderItemRepository } from '../../repositories/OrderItemRepository';
+import { OrderItemRepository, OrderItemRow } from '../../repositories/OrderItemRepository';
 import { LoggerFactory } from '../logger/LoggerFactory';
 import { auditLogService } from '../audit/AuditLogService';
 import { ECommercePlatform } from '../../utils/platforms';
+import { roundMoney, toCents, toDollars } from '../../utils/money';
 import { notificationService } from '../notifications/NotificationService';
+import { giftCardService } from '../giftcard/GiftCardService';
+import { GIFT_CARD_PRODUCT_ID, getGiftCardLine } from '../giftcard/giftCard';
+import { getMeasuredLine, roundStockQuantity, SellingUnit } from '../product/unitOfMeasure';
+import { PaymentLine } from '../order/order';
 import { PlatformRefundServiceInterface } from './platforms/PlatformRefundServiceInterface';
 import { ShopifyRefundService } from './platforms/shopifyRefundService';
 import { WooCommerceRefundService } from './platforms/wooCommerceRefundService';
@@ -78,6 +83,8 @@ export interface ProcessReturnResult {
   success: boolean;
   returnIds: string[];
   totalRefund: number;
+  /** Portion of totalRefund credited back to the gift cards that paid for the order */
+  giftCardRefund?: number;
   /** Platform refund ID if a monetary refund was issued */
   refundId?: string;
   error?: string;
@@ -161,6 +168,12 @@ export class ReturnService {
         return { success: false, returnIds: [], totalRefund: 0, error: 'Order must be paid before processing a return' };
       }
 
+      // Returned gift cards give back only what is still on them
+      const giftCardError = await this.voidReturnedGiftCards(input);
+      if (giftCardError) {
+        return { success: false, returnIds: [], totalRefund: 0, error: giftCardError };
+      }
+
       const returnIds: string[] = [];
       let totalRefund = 0;
 
@@ -188,13 +201,20 @@ export class ReturnService {
 
       // Optionally trigger a monetary refund via the platform refund service
       let refundId: string | undefined;
-      if (input.issueRefund) {
+      let giftCardRefund = 0;
+      if (input.issueRefund && this.paidByGiftCard(order.payments_json)) {
+        // Money taken from gift cards goes back onto them before any other tender
+        giftCardRefund = toDollars(await giftCardService.refundToCards(input.orderId, toCents(totalRefund), input.processedBy));
+      }
+
+      const platformRefund = roundMoney(totalRefund - giftCardRefund);
+      if (input.issueRefund && platformRefund > 0) {
         const platform = input.platform ?? (order.platform as ECommercePlatform | undefined);
         try {
           const refundResult = await this.processRefund(
             order.platform_order_id || input.orderId,
             {
-              amount: Math.round(totalRefund * 100) / 100,
+              amount: platformRefund,
               reason: input.items[0]?.reason ?? 'POS return',
               items: input.items.map(i => ({
                 lineItemId: i.orderItemId || i.productId,
@@ -219,8 +239,8 @@ export class ReturnService {
 
       auditLogService.log('return:created', {
         userId: input.processedBy,
-        details: `Return for order ${input.orderId}: ${returnIds.length} item(s), refund ${totalRefund.toFixed(2)}${refundId ? `, platform refund ${refundId}` : ''}`,
-        metadata: { orderId: input.orderId, returnIds, totalRefund, refundId },
+        details: `Return for order ${input.orderId}: ${returnIds.length} item(s), refund ${totalRefund.toFixed(2)}${giftCardRefund > 0 ? `, ${giftCardRefund.toFixed(2)} to gift card` : ''}${refundId ? `, platform refund ${refundId}` : ''}`,
+        metadata: { orderId: input.orderId, returnIds, totalRefund, giftCardRefund, refundId },
       });
 
       notificationService.notify('Return Processed', `${returnIds.length} item(s) returned for order ${input.orderId.slice(-8)}`, 'info');
@@ -229,6 +249,7 @@ export class ReturnService {
         success: true,
         returnIds,
         totalRefund: Math.round(totalRefund * 100) / 100,
+        giftCardRefund: giftCardRefund > 0 ? giftCardRefund : undefined,
         refundId,
       };
     } catch (error) {
@@ -240,6 +261,34 @@ export class ReturnService {
     }
   }
 
+  /**
+   * Void the load of any gift card lines being returned.
+   * Returns an error message when a card has already been spent.
+   */
+  private async voidReturnedGiftCards(input: ProcessReturnInput): Promise<string | null> {
+    if (!input.items.some(item => item.productId === GIFT_CARD_PRODUCT_ID)) return null;
+
+    const orderItems = await this.orderItemRepo.findByOrderId(input.orderId);
+    for (const item of input.items) {
+      const row = orderItems.find(r => r.id === item.orderItemId);
+      const giftCard =
+        row && getGiftCardLine({ productId: row.product_id, properties: row.properties ? JSON.parse(row.properties) : undefined });
+      if (!giftCard) continue;
+
+      try {
+        await giftCardService.voidForReturn(giftCard.code, input.orderId, input.processedBy);
+      } catch (err) {
+        return err instanceof Error ? err.message : String(err);
+      }
+    }
+    return null;
+  }
+
+  private paidByGiftCard(paymentsJson: string | null): boolean {
+    if (!paymentsJson) return false;
+    return (JSON.parse(paymentsJson) as PaymentLine[]).some(p => p.method === 'gift_card');
+  }
+
   /** Get all returns for a specific order */
   async getReturnsByOrder(orderId: string): Promise<ReturnItem[]> {
     const rows = await this.returnRepo.findByOrderId(orderId);
@@ -272,9 +321,13 @@ export class ReturnService {
       variantId: string | null;
       name: string;
       price: number;
+      /** Per-unit price after promotions and discounts — what a return refunds */
+      netPrice: number;
       originalQuantity: number;
       returnedQuantity: number;
       returnableQuantity: number;
+      /** Set for lines sold by weight or length; these are returned as a whole remaining line */
+      unit?: SellingUnit;
     }[]
   > {
     const orderItems = await this.orderItemRepo.findByOrderId(orderId);
@@ -293,20 +346,33 @@ export class ReturnService {
       .map(item => {
         const key = item.id;
         const returnedQty = returnedMap.get(key) || 0;
+        const measured = getMeasuredLine({ properties: item.properties ? JSON.parse(item.properties) : undefined });
         return {
           orderItemId: item.id,
           productId: item.product_id,
           variantId: item.variant_id,
           name: item.name,
           price: item.price,
+          netPrice: this.netUnitPrice(item),
           originalQuantity: item.quantity,
           returnedQuantity: returnedQty,
-          returnableQuantity: Math.max(0, item.quantity - returnedQty),
+          returnableQuantity: Math.max(0, roundStockQuantity(item.quantity - returnedQty)),
+          unit: measured?.unit,
         };
       })
       .filter(item => item.returnableQuantity > 0);
   }
 
+  /**
+   * Prorate the line's discounts evenly over its units. Orders from before
+   * discount_total existed fall back to the promotion discount alone.
+   */
+  private netUnitPrice(item: OrderItemRow): number {
+    const discount = item.discount_total ?? item.promotion_discount ?? 0;
+    if (discount <= 0 || item.quantity <= 0) return item.price;
+    return Math.max(0, roundMoney(item.price - discount / item.quantity));
+  }
+
   // ── Refund capabilities ──────────────────────────────────────────────────
 
   /**
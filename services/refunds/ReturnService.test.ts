@@ -28,6 +28,10 @@ jest.mock('../notifications/NotificationService', () => ({
   notificationService: { notify: jest.fn() },
 }));
 
+jest.mock('../giftcard/GiftCardService', () => ({
+  giftCardService: { refundToCards: jest.fn().mockResolvedValue(0), voidForReturn: jest.fn().mockResolvedValue(undefined) },
+}));
+
 // Block expo-sqlite from loading — ReturnRepository is injected via setReturnRepository()
 jest.mock('../../utils/db', () => ({}));
 jest.mock('../../repositories/ReturnRepository', () => ({
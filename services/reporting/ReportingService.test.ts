@@ -2,8 +2,9 @@
  * ReportingService — unit tests
  *
  * Tests all aggregation logic: summary stats, hourly/daily bucketing,
- * cashier performance, payment breakdown, and CSV export.
- * The orderRepository is mocked so no SQLite dependency.
+ * cashier performance, payment breakdown, tips, CSV export, and the wiring of the
+ * item-level reports (the arithmetic is covered in productAnalytics.test.ts).
+ * Repositories are mocked so no SQLite dependency.
  */
 
 // ── Mocks ─────────────────────────────────────────────────────────────────
@@ -28,9 +29,33 @@ jest.mock('../../services/instoreapi/InstoreApiConfig', () => ({
 jest.mock('../../repositories/OrderRepository', () => ({
   orderRepository: { findByDateRange: jest.fn() },
 }));
+jest.mock('../../repositories/OrderItemRepository', () => ({
+  orderItemRepository: { findSoldLines: jest.fn(), getLastSoldAt: jest.fn() },
+}));
+jest.mock('../../repositories/ReturnRepository', () => ({
+  returnRepository: { findByDateRange: jest.fn() },
+}));
+jest.mock('../../repositories/ProcurementRepository', () => ({
+  procurementRepository: { getReceivedUnitCosts: jest.fn() },
+}));
+jest.mock('../../repositories/ProductVariantRepository', () => ({
+  productVariantRepository: { findAll: jest.fn() },
+}));
+jest.mock('../../repositories/ProductSearchDocumentRepository', () => ({
+  productSearchDocumentRepository: { findAll: jest.fn() },
+}));
+jest.mock('../../repositories/TipRepository', () => ({
+  tipRepository: { findByDateRange: jest.fn() },
+}));
 
 import { ReportingService } from './ReportingService';
 import { orderRepository } from '../../repositories/OrderRepository';
+import { orderItemRepository } from '../../repositories/OrderItemRepository';
+import { returnRepository } from '../../repositories/ReturnRepository';
+import { procurementRepository } from '../../repositories/ProcurementRepository';
+import { productVariantRepository } from '../../repositories/ProductVariantRepository';
+import { productSearchDocumentRepository } from '../../repositories/ProductSearchDocumentRepository';
+import { tipRepository } from '../../repositories/TipRepository';
 
 // ── Helpers ───────────────────────────────────────────────────────────────
 
@@ -41,6 +66,8 @@ type PartialOrderRow = {
   tax: number;
   total: number;
   discount_amount: number | null;
+  tip_amount: number;
+  payments_json: string | null;
   payment_method: string | null;
   cashier_id: string | null;
   cashier_name: string | null;
@@ -56,6 +83,8 @@ function makeRow(overrides: Partial<PartialOrderRow> = {}): PartialOrderRow {
     tax: 0.8,
     total: 10.8,
     discount_amount: null,
+    tip_amount: 0,
+    payments_json: null,
     payment_method: 'cash',
     cashier_id: 'c1',
     cashier_name: 'Alice',
@@ -354,4 +383,210 @@ describe('ReportingService.exportOrdersCsv', () => {
 
     expect(lines).toHaveLength(1);
   });
+
+  it('puts the tip in its own column after the total', async () => {
+    (orderRepository.findByDateRange as jest.Mock).mockResolvedValue([makeRow({ id: 'ord-1', total: 20, tip_amount: 3 })]);
+    const csv = await getService().exportOrdersCsv(0, Date.now());
+    const [header, row] = csv.trim().split('\n');
+
+    expect(header).toContain('Total,Tip,Payment Method');
+    expect(row).toContain('20.00,3.00,');
+  });
+});
+
+// ── getTipSummary ─────────────────────────────────────────────────────────
+
+describe('ReportingService.getTipSummary', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  const tipped = (id: string, method: string, tip: number, status = 'paid') =>
+    makeRow({
+      id,
+      status,
+      total: 20,
+      tip_amount: tip,
+      payments_json: JSON.stringify([{ id: `${id}-p`, method, amount: 20 + tip, tipAmount: tip, processedAt: 0 }]),
+    });
+
+  it('totals tips per tender and per staff member for paid orders', async () => {
+    (orderRepository.findByDateRange as jest.Mock).mockResolvedValue([
+      tipped('o1', 'card', 3),
+      tipped('o2', 'cash', 2),
+      tipped('o3', 'card', 5, 'cancelled'),
+      makeRow({ id: 'o4' }),
+    ]);
+    (tipRepository.findByDateRange as jest.Mock).mockResolvedValue([
+      { order_id: 'o1', staff_id: 'c1', staff_name: 'Alice', amount: 1.5 },
+      { order_id: 'o1', staff_id: 'c2', staff_name: 'Bob', amount: 1.5 },
+      { order_id: 'o2', staff_id: 'c1', staff_name: 'Alice', amount: 2 },
+      { order_id: 'o3', staff_id: 'c1', staff_name: 'Alice', amount: 5 },
+    ]);
+
+    const summary = await getService().getTipSummary(0, Date.now());
+
+    expect(summary.count).toBe(2);
+    expect(summary.total).toBe(5);
+    expect(summary.byTender).toEqual([
+      { method: 'card', count: 1, total: 3 },
+      { method: 'cash', count: 1, total: 2 },
+    ]);
+    expect(summary.byStaff).toEqual([
+      { staffId: 'c1', staffName: 'Alice', count: 2, total: 3.5 },
+      { staffId: 'c2', staffName: 'Bob', count: 1, total: 1.5 },
+    ]);
+  });
+
+  it('leaves tips out of sales totals', async () => {
+    (orderRepository.findByDateRange as jest.Mock).mockResolvedValue([tipped('o1', 'card', 3)]);
+    const summary = await getService().getSalesSummary(0, Date.now());
+
+    expect(summary.totalSales).toBe(20);
+  });
+});
+
+// ── Item-level analytics ──────────────────────────────────────────────────
+
+describe('ReportingService.getProductAnalytics', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+
+  function document(id: string, name: string, category: string, quantity: number): { product_id: string; document: string } {
+    return { product_id: id, document: JSON.stringify({ id, name, category, quantity, skus: [`${id}-SKU`] }) };
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (productSearchDocumentRepository.findAll as jest.Mock).mockResolvedValue([
+      document('tee', 'Classic Tee', 'Clothing', 0),
+      document('mug', 'Mug', 'Homeware', 12),
+    ]);
+    (productVariantRepository.findAll as jest.Mock).mockResolvedValue([
+      { id: 'tee-m', product_id: 'tee', title: 'M', sku: 'TEE-M', inventory_quantity: 6, track_inventory: 1, cost_price: 4 },
+      { id: 'tee-l', product_id: 'tee', title: 'L', sku: 'TEE-L', inventory_quantity: 2, track_inventory: 1, cost_price: 4 },
+    ]);
+    (procurementRepository.getReceivedUnitCosts as jest.Mock).mockResolvedValue([
+      { product_id: 'tee', variant_id: 'tee-m', received_qty: 10, unit_cost: 5 },
+    ]);
+    (orderItemRepository.findSoldLines as jest.Mock).mockResolvedValue([
+      {
+        product_id: 'tee',
+        variant_id: 'tee-m',
+        sku: 'TEE-M',
+        name: 'Classic Tee',
+        option_summary: 'M',
+        price: 15,
+        quantity: 4,
+        discount_total: 0,
+      },
+      {
+        product_id: 'tee',
+        variant_id: 'tee-l',
+        sku: 'TEE-L',
+        name: 'Classic Tee',
+        option_summary: 'L',
+        price: 15,
+        quantity: 1,
+        discount_total: null,
+      },
+    ]);
+    (returnRepository.findByDateRange as jest.Mock).mockResolvedValue([
+      { product_id: 'tee', variant_id: 'tee-m', product_name: 'Classic Tee', quantity: 1, refund_amount: 15, status: 'completed' },
+      { product_id: 'tee', variant_id: 'tee-l', product_name: 'Classic Tee', quantity: 1, refund_amount: 15, status: 'rejected' },
+    ]);
+    (orderItemRepository.getLastSoldAt as jest.Mock).mockResolvedValue([
+      { product_id: 'tee', variant_id: 'tee-m', last_sold_at: Date.now() - DAY },
+      { product_id: 'tee', variant_id: 'tee-l', last_sold_at: Date.now() - DAY },
+      { product_id: 'mug', variant_id: null, last_sold_at: Date.now() - 200 * DAY },
+    ]);
+  });
+
+  it('builds per-variant rows from order lines, returns, receipts and cached variants', async () => {
+    const analytics = await getService().getProductAnalytics(0, 30 * DAY);
+    const medium = analytics.skus.find(s => s.variantId === 'tee-m');
+
+    expect(medium).toMatchObject({
+      name: 'Classic Tee',
+      variantName: 'M',
+      category: 'Clothing',
+      netUnits: 3,
+      netRevenue: 45,
+      unitCost: 5,
+      grossMargin: 30,
+      onHand: 6,
+    });
+    // The rejected return is ignored; the catalogue cost price applies without receipts
+    expect(analytics.skus.find(s => s.variantId === 'tee-l')).toMatchObject({ netUnits: 1, unitCost: 4 });
+    expect(analytics.topByRevenue).toEqual([{ productId: 'tee', name: 'Classic Tee', quantitySold: 4, totalRevenue: 60 }]);
+    expect(analytics.categories.map(c => c.category)).toEqual(['Clothing']);
+  });
+
+  it('reports stocked products without recent sales as dead stock', async () => {
+    const analytics = await getService().getProductAnalytics(0, 30 * DAY);
+
+    expect(analytics.deadStock.map(d => [d.productId, d.onHand, d.daysSinceLastSale])).toEqual([['mug', 12, 200]]);
+  });
+
+  it('ranks slowest sellers for getTopProducts with order bottom', async () => {
+    const bottom = await getService().getTopProducts(0, 30 * DAY, 'units', 'bottom');
+    expect(bottom.map(p => p.productId)).toEqual(['tee']);
+  });
+});
+
+// ── Comparison and forecast ───────────────────────────────────────────────
+
+describe('ReportingService comparison and forecast', () => {
+  const HOUR = 60 * 60 * 1000;
+  const DAY = 24 * HOUR;
+  // Monday 19 October 2026, 10:00 local time
+  const now = new Date(2026, 9, 19, 10).getTime();
+  const todayStart = new Date(2026, 9, 19).getTime();
+
+  /** Serve orders from a fixed list, filtered by range like the repository */
+  function useOrders(rows: PartialOrderRow[]): void {
+    (orderRepository.findByDateRange as jest.Mock).mockImplementation(async (from: number, to: number) =>
+      rows.filter(r => r.created_at >= from && r.created_at < to)
+    );
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (productSearchDocumentRepository.findAll as jest.Mock).mockResolvedValue([]);
+    (productVariantRepository.findAll as jest.Mock).mockResolvedValue([]);
+    (procurementRepository.getReceivedUnitCosts as jest.Mock).mockResolvedValue([]);
+    (orderItemRepository.findSoldLines as jest.Mock).mockResolvedValue([]);
+    (returnRepository.findByDateRange as jest.Mock).mockResolvedValue([]);
+  });
+
+  it('compares every report against the previous period', async () => {
+    useOrders([
+      makeRow({ created_at: todayStart + 9 * HOUR, total: 30, payment_method: 'card' }),
+      makeRow({ created_at: todayStart + 9 * HOUR, total: 20, payment_method: 'cash' }),
+      makeRow({ created_at: todayStart - DAY + 9 * HOUR, total: 40, payment_method: 'card' }),
+    ]);
+
+    const comparison = await getService().getComparison(todayStart, todayStart + DAY, { mode: 'previous_period' }, 'hour');
+
+    expect(comparison.baselineRange).toEqual({ from: todayStart - DAY, to: todayStart });
+    expect(comparison.summary.totalSales).toMatchObject({ current: 50, baseline: 40, change: 10, changePercent: 25 });
+    expect(comparison.salesByPeriod[9].orderCount).toMatchObject({ current: 2, baseline: 1 });
+    expect(comparison.payments.map(p => [p.key, p.total.current, p.total.baseline])).toEqual([
+      ['card', 30, 40],
+      ['cash', 20, 0],
+    ]);
+  });
+
+  it('forecasts the rest of today from the same weekday in previous weeks', async () => {
+    const rows = [1, 2, 3, 4].flatMap(week => [
+      makeRow({ created_at: todayStart - 7 * week * DAY + 9 * HOUR, total: 100 }),
+      makeRow({ created_at: todayStart - 7 * week * DAY + 14 * HOUR, total: 200 }),
+    ]);
+    useOrders([...rows, makeRow({ created_at: todayStart + 9 * HOUR, total: 100 })]);
+
+    const forecast = await getService().getSalesForecast(now);
+
+    expect(forecast.today).toMatchObject({ actualSales: 100, projectedSales: 300, basedOnDays: 4, paceFactor: 1 });
+    expect(forecast.staffing[14]).toMatchObject({ forecastOrders: 1, staff: 1 });
+    // Monday is the first day of the week, so the rest of the week has no trading history
+    expect(forecast.week.days).toHaveLength(7);
+    expect(forecast.week.projectedSales).toBe(300);
+  });
 });
@@ -1,5 +1,51 @@
 import { orderRepository } from '../../repositories/OrderRepository';
+import { orderItemRepository } from '../../repositories/OrderItemRepository';
+import { returnRepository } from '../../repositories/ReturnRepository';
+import { procurementRepository } from '../../repositories/ProcurementRepository';
+import { productVariantRepository, ProductVariantRow } from '../../repositories/ProductVariantRepository';
+import { productSearchDocumentRepository } from '../../repositories/ProductSearchDocumentRepository';
+import { tipRepository } from '../../repositories/TipRepository';
+import type { PaymentLine } from '../order/order';
+import { TipSummary, summariseTips, tenderTips } from '../tips/tips';
+import type { SearchDocument } from '../search/index/searchDocument';
 import { LoggerFactory } from '../logger/LoggerFactory';
+import {
+  CategoryPerformance,
+  DeadStockItem,
+  SkuPerformance,
+  StockLevel,
+  UnitCost,
+  buildCategoryBreakdown,
+  buildSkuPerformance,
+  findDeadStock,
+  rankProducts,
+  skuKey,
+} from './productAnalytics';
+import {
+  ComparisonBaseline,
+  DateRange,
+  KeyedComparison,
+  PeriodPointComparison,
+  SummaryComparison,
+  baselineRange,
+  compareByKey,
+  compareDaily,
+  compareHourly,
+  compareSummary,
+  shiftDays,
+} from './periodComparison';
+import {
+  DEFAULT_STAFFING_OPTIONS,
+  DayForecast,
+  FORECAST_HISTORY_WEEKS,
+  SalesForecast,
+  StaffingOptions,
+  forecastDay,
+  startOfDay,
+  startOfWeek,
+  suggestStaffing,
+  summariseWeek,
+} from './salesForecast';
 
 export interface SalesSummary {
   totalOrders: number;
@@ -16,6 +62,7 @@ export interface SalesByPeriod {
   totalSales: number;
 }
 
+/** A product ranked by net units or net revenue (returns deducted) */
 export interface TopProduct {
   productId: string;
   name: string;
@@ -38,9 +85,67 @@ export interface PaymentBreakdown {
   percentage: number;
 }
 
+export type { CategoryPerformance, DeadStockItem, SkuPerformance } from './productAnalytics';
+export type {
+  ComparisonBaseline,
+  ComparisonMode,
+  DateRange,
+  Delta,
+  KeyedComparison,
+  PeriodPointComparison,
+  SummaryComparison,
+} from './periodComparison';
+export type { DayForecast, HourForecast, SalesForecast, StaffingOptions, StaffingSuggestion, WeekForecast } from './salesForecast';
+export type { TipSummary } from '../tips/tips';
+
+/** Every item-level section of the reporting screen for one date range */
+export interface ProductAnalytics {
+  /** Per SKU (product + variant), best net revenue first */
+  skus: SkuPerformance[];
+  topByRevenue: TopProduct[];
+  topByUnits: TopProduct[];
+  bottomByUnits: TopProduct[];
+  categories: CategoryPerformance[];
+  deadStock: DeadStockItem[];
+}
+
+/** Every report for one date range next to the same report for its baseline */
+export interface ReportComparison {
+  baseline: ComparisonBaseline;
+  currentRange: DateRange;
+  baselineRange: DateRange;
+  summary: SummaryComparison;
+  /** Hourly or daily, matching the chart for the range */
+  salesByPeriod: PeriodPointComparison[];
+  cashiers: KeyedComparison[];
+  payments: KeyedComparison[];
+  /** By net units (count) and net revenue (total) */
+  products: KeyedComparison[];
+  categories: KeyedComparison[];
+}
+
+/** Products listed in each top / bottom ranking */
+const RANKING_LIMIT = 10;
+
+/** SKUs with stock and no sale for this many days are dead stock */
+export const DEAD_STOCK_DAYS = 90;
+
 /**
  * Reporting service — queries OrderRepository for analytics data.
  * All queries are local SQLite, no platform API calls.
+ *
+ * Item-level reports (products, categories, variants, margin, sell-through,
+ * dead stock) read order_items and returns, purchase order receipts for
+ * cost, and the local catalogue (product_search_documents, product_variants)
+ * for category and current stock; the arithmetic is in productAnalytics.ts.
+ *
+ * Each report can be compared against a baseline range (previous period,
+ * same period last year or a custom range; periodComparison.ts), and
+ * getSalesForecast projects the rest of today and this week from the hourly
+ * curves of previous weeks, with staffing suggestions (salesForecast.ts).
+ *
+ * Tips are not sales: order totals exclude them, and getTipSummary reports
+ * them on their own, per tender and per staff member (order_tips).
  */
 export class ReportingService {
   private static instance: ReportingService;
@@ -182,11 +287,182 @@ export class ReportingService {
       .sort((a, b) => b.total - a.total);
   }
 
+  /** Tips taken on paid orders, per tender and per staff member */
+  async getTipSummary(from: number, to: number): Promise<TipSummary> {
+    const [orders, shares] = await Promise.all([orderRepository.findByDateRange(from, to), tipRepository.findByDateRange(from, to)]);
+    const paidOrders = orders.filter(o => (o.status === 'paid' || o.status === 'synced') && o.tip_amount > 0);
+    const orderIds = new Set(paidOrders.map(o => o.id));
+
+    return summariseTips(
+      paidOrders.map(o => tenderTips(o.payments_json ? (JSON.parse(o.payments_json) as PaymentLine[]) : [])),
+      shares.filter(s => orderIds.has(s.order_id)).map(s => ({ staffId: s.staff_id, staffName: s.staff_name, amount: s.amount }))
+    );
+  }
+
+  // ── Item-level analytics ────────────────────────────────────────────
+
+  /** Net units, revenue, margin, sell-through and days of cover per SKU sold or returned in the range */
+  async getProductPerformance(from: number, to: number): Promise<SkuPerformance[]> {
+    const [costs, stock] = await Promise.all([this.loadUnitCosts(), this.loadStockLevels()]);
+    return this.buildSkus(from, to, costs, stock);
+  }
+
+  /** Best (or, with `order: 'bottom'`, slowest) selling products by net revenue or units */
+  async getTopProducts(
+    from: number,
+    to: number,
+    by: 'units' | 'revenue' = 'revenue',
+    order: 'top' | 'bottom' = 'top',
+    limit = RANKING_LIMIT
+  ): Promise<TopProduct[]> {
+    return rankProducts(await this.getProductPerformance(from, to), by, order, limit);
+  }
+
+  async getCategoryBreakdown(from: number, to: number): Promise<CategoryPerformance[]> {
+    return buildCategoryBreakdown(await this.getProductPerformance(from, to));
+  }
+
+  /** The SKUs of one product, best net revenue first */
+  async getVariantBreakdown(from: number, to: number, productId: string): Promise<SkuPerformance[]> {
+    return (await this.getProductPerformance(from, to)).filter(s => s.productId === productId);
+  }
+
+  /** SKUs with stock on hand and no sale in the last `days` days */
+  async getDeadStock(days = DEAD_STOCK_DAYS): Promise<DeadStockItem[]> {
+    const [costs, stock, lastSold] = await Promise.all([this.loadUnitCosts(), this.loadStockLevels(), this.loadLastSoldAt()]);
+    return findDeadStock(stock, lastSold, costs, Date.now(), days);
+  }
+
+  /** All item-level sections at once, reading each table a single time */
+  async getProductAnalytics(from: number, to: number, deadStockDays = DEAD_STOCK_DAYS): Promise<ProductAnalytics> {
+    const [costs, stock, lastSold] = await Promise.all([this.loadUnitCosts(), this.loadStockLevels(), this.loadLastSoldAt()]);
+    const skus = await this.buildSkus(from, to, costs, stock);
+
+    return {
+      skus,
+      topByRevenue: rankProducts(skus, 'revenue', 'top', RANKING_LIMIT),
+      topByUnits: rankProducts(skus, 'units', 'top', RANKING_LIMIT),
+      bottomByUnits: rankProducts(skus, 'units', 'bottom', RANKING_LIMIT),
+      categories: buildCategoryBreakdown(skus),
+      deadStock: findDeadStock(stock, lastSold, costs, Date.now(), deadStockDays),
+    };
+  }
+
+  // ── Period-over-period comparison ───────────────────────────────────
+
+  async compareSalesSummary(from: number, to: number, baseline: ComparisonBaseline): Promise<SummaryComparison> {
+    const base = baselineRange(from, to, baseline);
+    const [current, previous] = await Promise.all([this.getSalesSummary(from, to), this.getSalesSummary(base.from, base.to)]);
+    return compareSummary(current, previous);
+  }
+
+  async compareSalesByHour(dayStart: number, dayEnd: number, baseline: ComparisonBaseline): Promise<PeriodPointComparison[]> {
+    const base = baselineRange(dayStart, dayEnd, baseline);
+    const [current, previous] = await Promise.all([this.getSalesByHour(dayStart, dayEnd), this.getSalesByHour(base.from, base.to)]);
+    return compareHourly(current, previous);
+  }
+
+  async compareSalesByDay(from: number, to: number, baseline: ComparisonBaseline): Promise<PeriodPointComparison[]> {
+    const base = baselineRange(from, to, baseline);
+    const [current, previous] = await Promise.all([this.getSalesByDay(from, to), this.getSalesByDay(base.from, base.to)]);
+    return compareDaily(current, previous, { from, to }, base);
+  }
+
+  async compareCashierPerformance(from: number, to: number, baseline: ComparisonBaseline): Promise<KeyedComparison[]> {
+    const base = baselineRange(from, to, baseline);
+    const [current, previous] = await Promise.all([this.getCashierPerformance(from, to), this.getCashierPerformance(base.from, base.to)]);
+    return compareCashiers(current, previous);
+  }
+
+  async comparePaymentBreakdown(from: number, to: number, baseline: ComparisonBaseline): Promise<KeyedComparison[]> {
+    const base = baselineRange(from, to, baseline);
+    const [current, previous] = await Promise.all([this.getPaymentBreakdown(from, to), this.getPaymentBreakdown(base.from, base.to)]);
+    return comparePayments(current, previous);
+  }
+
+  /** Every product sold in either range, by net units and net revenue */
+  async compareTopProducts(from: number, to: number, baseline: ComparisonBaseline): Promise<KeyedComparison[]> {
+    const base = baselineRange(from, to, baseline);
+    const [current, previous] = await Promise.all([this.getProductPerformance(from, to), this.getProductPerformance(base.from, base.to)]);
+    return compareProducts(current, previous);
+  }
+
+  async compareCategoryBreakdown(from: number, to: number, baseline: ComparisonBaseline): Promise<KeyedComparison[]> {
+    const base = baselineRange(from, to, baseline);
+    const [current, previous] = await Promise.all([this.getProductPerformance(from, to), this.getProductPerformance(base.from, base.to)]);
+    return compareCategories(current, previous);
+  }
+
+  /**
+   * Every report for the range against its baseline at once. `granularity`
+   * picks the hourly or daily chart, as ReportingScreen does by range.
+   */
+  async getComparison(from: number, to: number, baseline: ComparisonBaseline, granularity: 'hour' | 'day'): Promise<ReportComparison> {
+    const base = baselineRange(from, to, baseline);
+    const [costs, stock] = await Promise.all([this.loadUnitCosts(), this.loadStockLevels()]);
+    const [summary, salesByPeriod, cashiers, payments, skus, baselineSkus] = await Promise.all([
+      this.compareSalesSummary(from, to, baseline),
+      granularity === 'hour' ? this.compareSalesByHour(from, to, baseline) : this.compareSalesByDay(from, to, baseline),
+      this.compareCashierPerformance(from, to, baseline),
+      this.comparePaymentBreakdown(from, to, baseline),
+      this.buildSkus(from, to, costs, stock),
+      this.buildSkus(base.from, base.to, costs, stock),
+    ]);
+
+    return {
+      baseline,
+      currentRange: { from, to },
+      baselineRange: base,
+      summary,
+      salesByPeriod,
+      cashiers,
+      payments,
+      products: compareProducts(skus, baselineSkus),
+      categories: compareCategories(skus, baselineSkus),
+    };
+  }
+
+  // ── Forecast ────────────────────────────────────────────────────────
+
+  /**
+   * Forecast for one day from the same weekday in the previous `weeks`
+   * weeks. Hours before `now` are actual; a day still to come is all forecast.
+   */
+  async getDayForecast(dayStart: number, now = Date.now(), weeks = FORECAST_HISTORY_WEEKS): Promise<DayForecast> {
+    const dayEnd = shiftDays(dayStart, 1);
+    const history = await Promise.all(
+      Array.from({ length: weeks }, (_, i) => this.getSalesByHour(shiftDays(dayStart, -7 * (i + 1)), shiftDays(dayEnd, -7 * (i + 1))))
+    );
+    const actual = dayStart <= now ? await this.getSalesByHour(dayStart, dayEnd) : [];
+    return forecastDay({ dayStart, actual, history, now });
+  }
+
+  /** The rest of today and of this week (Monday to Sunday), with staffing for today */
+  async getSalesForecast(now = Date.now(), staffing: StaffingOptions = DEFAULT_STAFFING_OPTIONS): Promise<SalesForecast> {
+    const todayStart = startOfDay(now);
+    const weekStart = startOfWeek(now);
+
+    const days = await Promise.all(
+      Array.from({ length: 7 }, (_, i) => {
+        const dayStart = shiftDays(weekStart, i);
+        // Past days are all actual; no history needed
+        return dayStart < todayStart ? this.getDayForecast(dayStart, now, 0) : this.getDayForecast(dayStart, now);
+      })
+    );
+    const today = days.find(d => d.dayStart === todayStart)!;
+
+    return {
+      today,
+      week: summariseWeek(days),
+      staffing: suggestStaffing(today, staffing),
+    };
+  }
+
   /** Export orders as CSV string for a date range */
   async exportOrdersCsv(from: number, to: number): Promise<string> {
     const orders = await orderRepository.findByDateRange(from, to);
 
-    const header = 'Order ID,Date,Status,Subtotal,Tax,Discount,Total,Payment Method,Cashier,Sync Status\n';
+    const header = 'Order ID,Date,Status,Subtotal,Tax,Discount,Total,Tip,Payment Method,Cashier,Sync Status\n';
     const rows = orders.map(o => {
       const date = new Date(o.created_at).toISOString();
       return [
@@ -197,6 +473,7 @@ export class ReportingService {
         o.tax.toFixed(2),
         (o.discount_amount || 0).toFixed(2),
         o.total.toFixed(2),
+        (o.tip_amount || 0).toFixed(2),
         o.payment_method || '',
         o.cashier_name || '',
         o.sync_status,
@@ -205,6 +482,157 @@ export class ReportingService {
 
     return header + rows.join('\n');
   }
+
+  // ── Private ─────────────────────────────────────────────────────────
+
+  private async buildSkus(from: number, to: number, costs: UnitCost[], stock: StockLevel[]): Promise<SkuPerformance[]> {
+    const [lines, returns] = await Promise.all([orderItemRepository.findSoldLines(from, to), returnRepository.findByDateRange(from, to)]);
+
+    return buildSkuPerformance({
+      lines: lines.map(l => ({
+        productId: l.product_id,
+        variantId: l.variant_id,
+        sku: l.sku,
+        name: l.name,
+        variantName: l.option_summary,
+        price: l.price,
+        quantity: l.quantity,
+        discount: l.discount_total || 0,
+      })),
+      // Rejected returns refunded nothing
+      returns: returns
+        .filter(r => r.status !== 'rejected')
+        .map(r => ({
+          productId: r.product_id,
+          variantId: r.variant_id,
+          name: r.product_name,
+          quantity: r.quantity,
+          refund: r.refund_amount,
+        })),
+      costs,
+      stock,
+      from,
+      to,
+    });
+  }
+
+  private async loadUnitCosts(): Promise<UnitCost[]> {
+    const rows = await procurementRepository.getReceivedUnitCosts();
+    return rows.map(r => ({ productId: r.product_id, variantId: r.variant_id, unitCost: r.unit_cost }));
+  }
+
+  /**
+   * Current stock per SKU: one entry per cached variant, or one per product
+   * (stock from its catalogue document) when no variants are cached.
+   */
+  private async loadStockLevels(): Promise<StockLevel[]> {
+    const [documents, variants] = await Promise.all([productSearchDocumentRepository.findAll(), productVariantRepository.findAll()]);
+    const variantsByProduct = new Map<string, ProductVariantRow[]>();
+    // Untracked variants have no meaningful stock level
+    for (const variant of variants.filter(v => v.track_inventory)) {
+      variantsByProduct.set(variant.product_id, [...(variantsByProduct.get(variant.product_id) ?? []), variant]);
+    }
+
+    const levels: StockLevel[] = [];
+    for (const row of documents) {
+      let document: SearchDocument;
+      try {
+        document = JSON.parse(row.document) as SearchDocument;
+      } catch {
+        this.logger.warn({ message: `Skipping unreadable catalogue document for product ${row.product_id}` });
+        continue;
+      }
+
+      const productVariants = variantsByProduct.get(row.product_id);
+      variantsByProduct.delete(row.product_id);
+      if (!productVariants) {
+        levels.push({
+          productId: row.product_id,
+          variantId: null,
+          sku: document.skus[0] ?? null,
+          name: document.name,
+          variantName: null,
+          category: document.category ?? null,
+          onHand: document.quantity,
+          costPrice: null,
+        });
+        continue;
+      }
+      for (const variant of productVariants) {
+        levels.push(this.variantStockLevel(variant, document.name, document.category ?? null));
+      }
+    }
+
+    // Variants cached for products without a catalogue document
+    for (const productVariants of variantsByProduct.values()) {
+      for (const variant of productVariants) {
+        levels.push(this.variantStockLevel(variant, variant.title, null));
+      }
+    }
+    return levels;
+  }
+
+  private variantStockLevel(variant: ProductVariantRow, productName: string, category: string | null): StockLevel {
+    const isDefault = variant.title === 'Default' || variant.title === 'Default Title';
+    return {
+      productId: variant.product_id,
+      variantId: variant.id,
+      sku: variant.sku,
+      name: productName,
+      variantName: isDefault ? null : variant.title,
+      category,
+      onHand: variant.inventory_quantity,
+      costPrice: variant.cost_price,
+    };
+  }
+
+  /** Last sale per SKU, plus per product for stock held only at product level */
+  private async loadLastSoldAt(): Promise<Map<string, number>> {
+    const lastSold = new Map<string, number>();
+    for (const row of await orderItemRepository.getLastSoldAt()) {
+      lastSold.set(skuKey(row.product_id, row.variant_id), row.last_sold_at);
+      const productKey = skuKey(row.product_id, null);
+      lastSold.set(productKey, Math.max(lastSold.get(productKey) ?? 0, row.last_sold_at));
+    }
+    return lastSold;
+  }
+}
+
+function compareCashiers(current: CashierPerformance[], baseline: CashierPerformance[]): KeyedComparison[] {
+  return compareByKey(current, baseline, {
+    key: c => c.cashierId,
+    label: c => c.cashierName,
+    count: c => c.orderCount,
+    total: c => c.totalSales,
+  });
+}
+
+function comparePayments(current: PaymentBreakdown[], baseline: PaymentBreakdown[]): KeyedComparison[] {
+  return compareByKey(current, baseline, {
+    key: p => p.method,
+    label: p => p.method,
+    count: p => p.count,
+    total: p => p.total,
+  });
+}
+
+function compareProducts(current: SkuPerformance[], baseline: SkuPerformance[]): KeyedComparison[] {
+  const all = (skus: SkuPerformance[]) => rankProducts(skus, 'revenue', 'top', skus.length);
+  return compareByKey(all(current), all(baseline), {
+    key: p => p.productId,
+    label: p => p.name,
+    count: p => p.quantitySold,
+    total: p => p.totalRevenue,
+  });
+}
+
+function compareCategories(current: SkuPerformance[], baseline: SkuPerformance[]): KeyedComparison[] {
+  return compareByKey(buildCategoryBreakdown(current), buildCategoryBreakdown(baseline), {
+    key: c => c.category,
+    label: c => c.category,
+    count: c => c.netUnits,
+    total: c => c.netRevenue,
+  });
 }
 
 export const reportingService = ReportingService.getInstance();
@@ -0,0 +1,97 @@
+import { baselineRange, compareByKey, compareDaily, compareHourly, compareSummary, delta } from './periodComparison';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('baselineRange', () => {
+  const from = new Date(2026, 9, 12).getTime(); // Monday
+  const to = new Date(2026, 9, 19).getTime();
+
+  it('uses the range of the same length immediately before for the previous period', () => {
+    expect(baselineRange(from, to, { mode: 'previous_period' })).toEqual({ from: from - 7 * DAY, to: from });
+  });
+
+  it('goes back 52 weeks for last year so the weekdays line up', () => {
+    const range = baselineRange(from, to, { mode: 'last_year' });
+    expect(new Date(range.from).getDay()).toBe(new Date(from).getDay());
+    expect(new Date(range.from)).toEqual(new Date(2025, 9, 13));
+    expect(new Date(range.to)).toEqual(new Date(2025, 9, 20));
+  });
+
+  it('passes a custom range through', () => {
+    expect(baselineRange(from, to, { mode: 'custom', from: 1, to: 2 })).toEqual({ from: 1, to: 2 });
+  });
+});
+
+describe('delta', () => {
+  it('reports the change and percentage of the baseline', () => {
+    expect(delta(120, 100)).toEqual({ current: 120, baseline: 100, change: 20, changePercent: 20 });
+    expect(delta(75.5, 151)).toMatchObject({ change: -75.5, changePercent: -50 });
+  });
+
+  it('has no percentage against a zero baseline', () => {
+    expect(delta(10, 0).changePercent).toBeNull();
+  });
+});
+
+describe('compareSummary', () => {
+  it('compares every summary figure', () => {
+    const summary = { totalOrders: 10, totalSales: 200, totalTax: 20, totalDiscount: 5, netSales: 180, averageOrderValue: 20 };
+    const result = compareSummary(summary, { ...summary, totalOrders: 8, totalSales: 160 });
+
+    expect(result.totalOrders).toMatchObject({ change: 2, changePercent: 25 });
+    expect(result.totalSales).toMatchObject({ change: 40, changePercent: 25 });
+    expect(result.totalTax.change).toBe(0);
+  });
+});
+
+describe('compareHourly', () => {
+  it('lines hours up by label', () => {
+    const hours = (sales: number) => [{ label: '09:00', orderCount: 1, totalSales: sales }];
+    expect(compareHourly(hours(30), hours(20))[0]).toMatchObject({ label: '09:00', totalSales: { change: 10, changePercent: 50 } });
+  });
+});
+
+describe('compareDaily', () => {
+  it('lines days up by offset from the start of each range, comparing missing days against zero', () => {
+    const current = { from: Date.UTC(2026, 9, 12), to: Date.UTC(2026, 9, 19) };
+    const baseline = { from: Date.UTC(2026, 9, 5), to: Date.UTC(2026, 9, 12) };
+
+    const result = compareDaily(
+      [{ label: '2026-10-13', orderCount: 2, totalSales: 50 }],
+      [
+        { label: '2026-10-06', orderCount: 1, totalSales: 40 },
+        { label: '2026-10-07', orderCount: 1, totalSales: 10 },
+      ],
+      current,
+      baseline
+    );
+
+    expect(result.map(r => [r.label, r.baselineLabel, r.totalSales.current, r.totalSales.baseline])).toEqual([
+      ['2026-10-13', '2026-10-06', 50, 40],
+      ['2026-10-14', '2026-10-07', 0, 10],
+    ]);
+  });
+});
+
+describe('compareByKey', () => {
+  it('matches entries by key and includes ones found in only one range', () => {
+    const result = compareByKey(
+      [
+        { method: 'card', count: 5, total: 100 },
+        { method: 'cash', count: 1, total: 10 },
+      ],
+      [
+        { method: 'card', count: 4, total: 80 },
+        { method: 'voucher', count: 2, total: 30 },
+      ],
+      { key: p => p.method, label: p => p.method, count: p => p.count, total: p => p.total }
+    );
+
+    expect(result.map(r => [r.key, r.total.current, r.total.baseline])).toEqual([
+      ['card', 100, 80],
+      ['cash', 10, 0],
+      ['voucher', 0, 30],
+    ]);
+    expect(result[2].total.changePercent).toBe(-100);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Period-over-period comparison — pure helpers used by ReportingService.
+ *
+ * A report for `from`/`to` is compared against a baseline range:
+ *
+ *   previous_period — the range of the same length immediately before
+ *   last_year       — the same range 52 weeks earlier, so weekdays line up
+ *   custom          — any range the caller picks
+ *
+ * Every compared figure becomes a Delta: both values, the change and the
+ * change as a percentage of the baseline (null when the baseline is zero).
+ */
+
+import type { SalesByPeriod, SalesSummary } from './ReportingService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Same weekday one year back */
+const WEEKS_PER_YEAR = 52;
+
+export interface DateRange {
+  from: number;
+  to: number;
+}
+
+export type ComparisonBaseline = { mode: 'previous_period' } | { mode: 'last_year' } | ({ mode: 'custom' } & DateRange);
+
+export type ComparisonMode = ComparisonBaseline['mode'];
+
+export interface Delta {
+  current: number;
+  baseline: number;
+  change: number;
+  /** Change as a percentage of the baseline; null when the baseline is zero */
+  changePercent: number | null;
+}
+
+export type SummaryComparison = { [K in keyof SalesSummary]: Delta };
+
+/** One hour or day of a sales chart next to the matching baseline hour or day */
+export interface PeriodPointComparison {
+  label: string;
+  baselineLabel: string;
+  orderCount: Delta;
+  totalSales: Delta;
+}
+
+/** A cashier, payment method, product or category in both ranges */
+export interface KeyedComparison {
+  key: string;
+  label: string;
+  count: Delta;
+  total: Delta;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Shift a timestamp by whole calendar days, keeping the local time of day across DST changes */
+export function shiftDays(timestamp: number, days: number): number {
+  const date = new Date(timestamp);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+}
+
+/** The baseline range a report for `from`/`to` is compared against */
+export function baselineRange(from: number, to: number, baseline: ComparisonBaseline): DateRange {
+  switch (baseline.mode) {
+    case 'previous_period':
+      return { from: from - (to - from), to: from };
+    case 'last_year':
+      return { from: shiftDays(from, -7 * WEEKS_PER_YEAR), to: shiftDays(to, -7 * WEEKS_PER_YEAR) };
+    case 'custom':
+      return { from: baseline.from, to: baseline.to };
+  }
+}
+
+export function delta(current: number, baseline: number): Delta {
+  const change = round2(current - baseline);
+  return {
+    current,
+    baseline,
+    change,
+    changePercent: baseline !== 0 ? Math.round((change / Math.abs(baseline)) * 1000) / 10 : null,
+  };
+}
+
+export function compareSummary(current: SalesSummary, baseline: SalesSummary): SummaryComparison {
+  return {
+    totalOrders: delta(current.totalOrders, baseline.totalOrders),
+    totalSales: delta(current.totalSales, baseline.totalSales),
+    totalTax: delta(current.totalTax, baseline.totalTax),
+    totalDiscount: delta(current.totalDiscount, baseline.totalDiscount),
+    netSales: delta(current.netSales, baseline.netSales),
+    averageOrderValue: delta(current.averageOrderValue, baseline.averageOrderValue),
+  };
+}
+
+/** Hourly charts (always 24 buckets) line up by hour label */
+export function compareHourly(current: SalesByPeriod[], baseline: SalesByPeriod[]): PeriodPointComparison[] {
+  const baselineByLabel = new Map(baseline.map(p => [p.label, p]));
+  return current.map(point => {
+    const base = baselineByLabel.get(point.label);
+    return {
+      label: point.label,
+      baselineLabel: point.label,
+      orderCount: delta(point.orderCount, base?.orderCount ?? 0),
+      totalSales: delta(point.totalSales, base?.totalSales ?? 0),
+    };
+  });
+}
+
+/** YYYY-MM-DD key of a timestamp, as used by getSalesByDay */
+function dayKey(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function dayOffset(label: string, rangeFrom: number): number {
+  return Math.round((Date.parse(label) - Date.parse(dayKey(rangeFrom))) / DAY_MS);
+}
+
+/**
+ * Daily charts line up by day offset from the start of each range: day 1 of
+ * this week against day 1 of last week. Daily buckets are sparse, so a day
+ * with sales in only one of the ranges is compared against zero.
+ */
+export function compareDaily(
+  current: SalesByPeriod[],
+  baseline: SalesByPeriod[],
+  currentRange: DateRange,
+  baselineRangeValue: DateRange
+): PeriodPointComparison[] {
+  const offsets = new Map<number, { current?: SalesByPeriod; baseline?: SalesByPeriod }>();
+  for (const point of current) {
+    const offset = dayOffset(point.label, currentRange.from);
+    offsets.set(offset, { ...offsets.get(offset), current: point });
+  }
+  for (const point of baseline) {
+    const offset = dayOffset(point.label, baselineRangeValue.from);
+    offsets.set(offset, { ...offsets.get(offset), baseline: point });
+  }
+
+  return [...offsets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([offset, points]) => ({
+      label: points.current?.label ?? dayKey(Date.parse(dayKey(currentRange.from)) + offset * DAY_MS),
+      baselineLabel: points.baseline?.label ?? dayKey(Date.parse(dayKey(baselineRangeValue.from)) + offset * DAY_MS),
+      orderCount: delta(points.current?.orderCount ?? 0, points.baseline?.orderCount ?? 0),
+      totalSales: delta(points.current?.totalSales ?? 0, points.baseline?.totalSales ?? 0),
+    }));
+}
+
+export interface KeyedAccessors<T> {
+  key: (item: T) => string;
+  label: (item: T) => string;
+  count: (item: T) => number;
+  total: (item: T) => number;
+}
+
+/**
+ * Match two lists by key (cashier ID, payment method, product ID, category).
+ * Entries present in only one range are compared against zero. Sorted by
+ * the current total, then the baseline total, largest first.
+ */
+export function compareByKey<T>(current: T[], baseline: T[], accessors: KeyedAccessors<T>): KeyedComparison[] {
+  const entries = new Map<string, { label: string; current?: T; baseline?: T }>();
+  for (const item of baseline) {
+    entries.set(accessors.key(item), { label: accessors.label(item), baseline: item });
+  }
+  for (const item of current) {
+    const key = accessors.key(item);
+    entries.set(key, { ...entries.get(key), label: accessors.label(item), current: item });
+  }
+
+  const value = (item: T | undefined, read: (item: T) => number) => (item ? read(item) : 0);
+  return [...entries.entries()]
+    .map(([key, entry]) => ({
+      key,
+      label: entry.label,
+      count: delta(value(entry.current, accessors.count), value(entry.baseline, accessors.count)),
+      total: delta(value(entry.current, accessors.total), value(entry.baseline, accessors.total)),
+    }))
+    .sort((a, b) => b.total.current - a.total.current || b.total.baseline - a.total.baseline);
+}
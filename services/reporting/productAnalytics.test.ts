@@ -0,0 +1,161 @@
+import {
+  SoldLine,
+  StockLevel,
+  UNCATEGORISED,
+  buildCategoryBreakdown,
+  buildSkuPerformance,
+  findDeadStock,
+  rankProducts,
+  skuKey,
+} from './productAnalytics';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function line(productId: string, quantity: number, price: number, overrides: Partial<SoldLine> = {}): SoldLine {
+  return {
+    productId,
+    variantId: null,
+    sku: null,
+    name: `Product ${productId}`,
+    variantName: null,
+    price,
+    quantity,
+    discount: 0,
+    ...overrides,
+  };
+}
+
+function stock(productId: string, onHand: number, overrides: Partial<StockLevel> = {}): StockLevel {
+  return {
+    productId,
+    variantId: null,
+    sku: `SKU-${productId}`,
+    name: `Product ${productId}`,
+    variantName: null,
+    category: 'Drinks',
+    onHand,
+    costPrice: null,
+    ...overrides,
+  };
+}
+
+describe('buildSkuPerformance', () => {
+  const period = { from: 0, to: 10 * DAY };
+
+  it('nets returns off units and revenue and applies line discounts', () => {
+    const [row] = buildSkuPerformance({
+      lines: [line('p1', 4, 5, { discount: 2 }), line('p1', 1, 5)],
+      returns: [{ productId: 'p1', variantId: null, name: 'Product p1', quantity: 1, refund: 5 }],
+      costs: [],
+      stock: [],
+      ...period,
+    });
+
+    expect(row).toMatchObject({ unitsSold: 5, unitsReturned: 1, netUnits: 4, grossRevenue: 23, refunds: 5, netRevenue: 18 });
+    expect(row.grossMargin).toBeNull();
+    expect(row.category).toBe(UNCATEGORISED);
+  });
+
+  it('uses received cost first, then product-level cost, then the catalogue cost price', () => {
+    const rows = buildSkuPerformance({
+      lines: [line('p1', 2, 10, { variantId: 'v1' }), line('p1', 2, 10, { variantId: 'v2' }), line('p2', 2, 10, { variantId: 'v3' })],
+      returns: [],
+      costs: [
+        { productId: 'p1', variantId: 'v1', unitCost: 4 },
+        { productId: 'p1', variantId: null, unitCost: 6 },
+      ],
+      stock: [stock('p2', 5, { variantId: 'v3', costPrice: 7 })],
+      ...period,
+    });
+    const byVariant = new Map(rows.map(r => [r.variantId, r]));
+
+    expect(byVariant.get('v1')).toMatchObject({ unitCost: 4, grossMargin: 12, marginPercent: 60 });
+    expect(byVariant.get('v2')).toMatchObject({ unitCost: 6, grossMargin: 8, marginPercent: 40 });
+    expect(byVariant.get('v3')).toMatchObject({ unitCost: 7, grossMargin: 6, marginPercent: 30 });
+  });
+
+  it('computes sell-through and days of cover from stock on hand', () => {
+    const [row] = buildSkuPerformance({
+      lines: [line('p1', 20, 1)],
+      returns: [],
+      costs: [],
+      stock: [stock('p1', 60)],
+      ...period,
+    });
+
+    // 20 sold in 10 days = 2/day; 60 on hand lasts 30 days
+    expect(row).toMatchObject({ onHand: 60, sellThroughRate: 25, daysOfCover: 30, category: 'Drinks', sku: 'SKU-p1' });
+  });
+
+  it('leaves stock metrics empty for SKUs without a stock level', () => {
+    const [row] = buildSkuPerformance({ lines: [line('p1', 1, 1)], returns: [], costs: [], stock: [], ...period });
+    expect(row).toMatchObject({ onHand: null, sellThroughRate: null, daysOfCover: null });
+  });
+});
+
+describe('rankProducts', () => {
+  const skus = buildSkuPerformance({
+    lines: [line('a', 10, 1), line('b', 2, 20, { variantId: 'b1' }), line('b', 1, 20, { variantId: 'b2' }), line('c', 5, 3)],
+    returns: [{ productId: 'c', variantId: null, name: 'Product c', quantity: 5, refund: 15 }],
+    costs: [],
+    stock: [],
+    from: 0,
+    to: DAY,
+  });
+
+  it('sums variants per product and ranks by revenue or units', () => {
+    expect(rankProducts(skus, 'revenue', 'top', 5).map(p => [p.productId, p.totalRevenue])).toEqual([
+      ['b', 60],
+      ['a', 10],
+    ]);
+    expect(rankProducts(skus, 'units', 'top', 1).map(p => p.productId)).toEqual(['a']);
+  });
+
+  it('lists slowest sellers first and leaves out products fully returned', () => {
+    expect(rankProducts(skus, 'units', 'bottom', 5).map(p => [p.productId, p.quantitySold])).toEqual([
+      ['b', 3],
+      ['a', 10],
+    ]);
+  });
+});
+
+describe('buildCategoryBreakdown', () => {
+  it('totals categories and counts margin only where cost is known', () => {
+    const skus = buildSkuPerformance({
+      lines: [line('p1', 1, 30), line('p2', 1, 10), line('p3', 1, 60)],
+      returns: [],
+      costs: [{ productId: 'p1', variantId: null, unitCost: 15 }],
+      stock: [stock('p1', 0), stock('p2', 0), stock('p3', 0, { category: 'Snacks' })],
+      from: 0,
+      to: DAY,
+    });
+
+    expect(buildCategoryBreakdown(skus)).toEqual([
+      { category: 'Snacks', netUnits: 1, netRevenue: 60, grossMargin: null, marginPercent: null, revenueShare: 60 },
+      { category: 'Drinks', netUnits: 2, netRevenue: 40, grossMargin: 15, marginPercent: 50, revenueShare: 40 },
+    ]);
+  });
+});
+
+describe('findDeadStock', () => {
+  const now = 200 * DAY;
+
+  it('lists stocked SKUs not sold within the window, never-sold first', () => {
+    const lastSold = new Map([
+      [skuKey('old', null), now - 120 * DAY],
+      [skuKey('recent', null), now - 5 * DAY],
+    ]);
+    const items = findDeadStock(
+      [stock('old', 4), stock('recent', 9), stock('never', 2, { costPrice: 3 }), stock('empty', 0)],
+      lastSold,
+      [{ productId: 'old', variantId: null, unitCost: 2.5 }],
+      now,
+      90
+    );
+
+    expect(items.map(i => [i.productId, i.daysSinceLastSale, i.stockValue])).toEqual([
+      ['never', null, 6],
+      ['old', 120, 10],
+    ]);
+  });
+});
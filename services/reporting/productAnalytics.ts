@@ -0,0 +1,298 @@
+/**
+ * Item-level analytics — pure aggregation over rows read by ReportingService.
+ *
+ * Everything is keyed by SKU, i.e. product + variant (a product without
+ * variants is one SKU). Quantities and revenue are net of returns:
+ *
+ *   netRevenue      = Σ(price × quantity − line discounts) − Σ refunds
+ *   grossMargin     = netRevenue − netUnits × unitCost
+ *   sellThroughRate = netUnits / (netUnits + onHand) × 100
+ *   daysOfCover     = onHand / (netUnits / days in period)
+ *
+ * Unit cost is the quantity-weighted average of purchase order receipts for
+ * the SKU, then for the product, then the catalogue cost price. Margins stay
+ * null when no cost is known, and are left out of category totals.
+ */
+
+import type { TopProduct } from './ReportingService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SoldLine {
+  productId: string;
+  variantId: string | null;
+  sku: string | null;
+  name: string;
+  variantName: string | null;
+  price: number;
+  quantity: number;
+  discount: number;
+}
+
+export interface ReturnedLine {
+  productId: string;
+  variantId: string | null;
+  name: string;
+  quantity: number;
+  refund: number;
+}
+
+export interface UnitCost {
+  productId: string;
+  variantId: string | null;
+  unitCost: number;
+}
+
+/** Current stock and catalogue details for one SKU */
+export interface StockLevel {
+  productId: string;
+  variantId: string | null;
+  sku: string | null;
+  name: string;
+  variantName: string | null;
+  category: string | null;
+  onHand: number;
+  /** Cost price from the catalogue, used when nothing has been received */
+  costPrice: number | null;
+}
+
+export interface SkuPerformance {
+  productId: string;
+  variantId: string | null;
+  sku: string | null;
+  name: string;
+  variantName: string | null;
+  category: string;
+  unitsSold: number;
+  unitsReturned: number;
+  netUnits: number;
+  grossRevenue: number;
+  refunds: number;
+  netRevenue: number;
+  unitCost: number | null;
+  costOfGoods: number | null;
+  grossMargin: number | null;
+  marginPercent: number | null;
+  onHand: number | null;
+  sellThroughRate: number | null;
+  daysOfCover: number | null;
+}
+
+export interface CategoryPerformance {
+  category: string;
+  netUnits: number;
+  netRevenue: number;
+  grossMargin: number | null;
+  marginPercent: number | null;
+  /** Share of net revenue across all categories */
+  revenueShare: number;
+}
+
+export interface DeadStockItem {
+  productId: string;
+  variantId: string | null;
+  sku: string | null;
+  name: string;
+  variantName: string | null;
+  onHand: number;
+  lastSoldAt: number | null;
+  daysSinceLastSale: number | null;
+  stockValue: number | null;
+}
+
+export const UNCATEGORISED = 'Uncategorised';
+
+export function skuKey(productId: string, variantId: string | null | undefined): string {
+  return `${productId}::${variantId ?? ''}`;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/** Unit cost per SKU: received cost for the SKU, then for the product, then the catalogue cost price */
+export function resolveUnitCost(
+  productId: string,
+  variantId: string | null,
+  receivedCosts: Map<string, number>,
+  stock: StockLevel | undefined
+): number | null {
+  return (
+    receivedCosts.get(skuKey(productId, variantId)) ??
+    receivedCosts.get(skuKey(productId, null)) ??
+    (stock?.costPrice != null ? stock.costPrice : null)
+  );
+}
+
+export interface SkuPerformanceInput {
+  lines: SoldLine[];
+  returns: ReturnedLine[];
+  costs: UnitCost[];
+  stock: StockLevel[];
+  from: number;
+  to: number;
+}
+
+/** One row per SKU sold or returned in the period, best net revenue first */
+export function buildSkuPerformance({ lines, returns, costs, stock, from, to }: SkuPerformanceInput): SkuPerformance[] {
+  const receivedCosts = new Map(costs.map(c => [skuKey(c.productId, c.variantId), c.unitCost]));
+  const stockByKey = new Map(stock.map(s => [skuKey(s.productId, s.variantId), s]));
+  const periodDays = Math.max(1, (to - from) / DAY_MS);
+  const rows = new Map<string, SkuPerformance>();
+
+  const rowFor = (productId: string, variantId: string | null, fallbackName: string): SkuPerformance => {
+    const key = skuKey(productId, variantId);
+    let row = rows.get(key);
+    if (!row) {
+      const level = stockByKey.get(key);
+      // A variant of a product stocked only at product level still gets its name and category
+      const product = level ?? stockByKey.get(skuKey(productId, null));
+      row = {
+        productId,
+        variantId,
+        sku: level?.sku ?? null,
+        name: product?.name ?? fallbackName,
+        variantName: level?.variantName ?? null,
+        category: product?.category || UNCATEGORISED,
+        unitsSold: 0,
+        unitsReturned: 0,
+        netUnits: 0,
+        grossRevenue: 0,
+        refunds: 0,
+        netRevenue: 0,
+        unitCost: resolveUnitCost(productId, variantId, receivedCosts, level),
+        costOfGoods: null,
+        grossMargin: null,
+        marginPercent: null,
+        onHand: level ? Math.max(0, level.onHand) : null,
+        sellThroughRate: null,
+        daysOfCover: null,
+      };
+      rows.set(key, row);
+    }
+    return row;
+  };
+
+  for (const line of lines) {
+    const row = rowFor(line.productId, line.variantId, line.name);
+    row.sku = row.sku ?? line.sku;
+    row.variantName = row.variantName ?? line.variantName;
+    row.unitsSold += line.quantity;
+    row.grossRevenue += line.price * line.quantity - line.discount;
+  }
+
+  for (const ret of returns) {
+    const row = rowFor(ret.productId, ret.variantId, ret.name);
+    row.unitsReturned += ret.quantity;
+    row.refunds += ret.refund;
+  }
+
+  for (const row of rows.values()) {
+    row.netUnits = row.unitsSold - row.unitsReturned;
+    row.grossRevenue = round2(row.grossRevenue);
+    row.refunds = round2(row.refunds);
+    row.netRevenue = round2(row.grossRevenue - row.refunds);
+
+    if (row.unitCost !== null) {
+      row.costOfGoods = round2(row.netUnits * row.unitCost);
+      row.grossMargin = round2(row.netRevenue - row.costOfGoods);
+      row.marginPercent = row.netRevenue !== 0 ? round1((row.grossMargin / row.netRevenue) * 100) : null;
+    }
+
+    if (row.onHand !== null) {
+      const sold = Math.max(0, row.netUnits);
+      row.sellThroughRate = sold + row.onHand > 0 ? round1((sold / (sold + row.onHand)) * 100) : null;
+      row.daysOfCover = sold > 0 ? round1(row.onHand / (sold / periodDays)) : null;
+    }
+  }
+
+  return [...rows.values()].sort((a, b) => b.netRevenue - a.netRevenue);
+}
+
+/**
+ * Products ranked by net units or net revenue. `bottom` ranks the slowest
+ * sellers first; only products that sold in the period are ranked — stock
+ * that did not sell at all is reported by findDeadStock.
+ */
+export function rankProducts(skus: SkuPerformance[], by: 'units' | 'revenue', order: 'top' | 'bottom', limit: number): TopProduct[] {
+  const products = new Map<string, TopProduct>();
+  for (const sku of skus) {
+    const product = products.get(sku.productId) ?? { productId: sku.productId, name: sku.name, quantitySold: 0, totalRevenue: 0 };
+    product.quantitySold += sku.netUnits;
+    product.totalRevenue = round2(product.totalRevenue + sku.netRevenue);
+    products.set(sku.productId, product);
+  }
+
+  const value = (p: TopProduct) => (by === 'units' ? p.quantitySold : p.totalRevenue);
+  return [...products.values()]
+    .filter(p => p.quantitySold > 0)
+    .sort((a, b) => (order === 'top' ? value(b) - value(a) : value(a) - value(b)) || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
+
+/** Net units, revenue and margin per category, largest revenue first */
+export function buildCategoryBreakdown(skus: SkuPerformance[]): CategoryPerformance[] {
+  const categories = new Map<string, { units: number; revenue: number; margin: number; costedRevenue: number; costed: boolean }>();
+  for (const sku of skus) {
+    const entry = categories.get(sku.category) ?? { units: 0, revenue: 0, margin: 0, costedRevenue: 0, costed: false };
+    entry.units += sku.netUnits;
+    entry.revenue += sku.netRevenue;
+    if (sku.grossMargin !== null) {
+      entry.margin += sku.grossMargin;
+      entry.costedRevenue += sku.netRevenue;
+      entry.costed = true;
+    }
+    categories.set(sku.category, entry);
+  }
+
+  const total = [...categories.values()].reduce((sum, c) => sum + c.revenue, 0);
+  return [...categories.entries()]
+    .map(([category, c]) => ({
+      category,
+      netUnits: c.units,
+      netRevenue: round2(c.revenue),
+      grossMargin: c.costed ? round2(c.margin) : null,
+      marginPercent: c.costed && c.costedRevenue !== 0 ? round1((c.margin / c.costedRevenue) * 100) : null,
+      revenueShare: total > 0 ? round1((c.revenue / total) * 100) : 0,
+    }))
+    .sort((a, b) => b.netRevenue - a.netRevenue);
+}
+
+/**
+ * SKUs with stock on hand that have not sold since `now - days` (or never),
+ * longest unsold first. `lastSoldAt` is keyed by skuKey.
+ */
+export function findDeadStock(
+  stock: StockLevel[],
+  lastSoldAt: Map<string, number>,
+  costs: UnitCost[],
+  now: number,
+  days: number
+): DeadStockItem[] {
+  const receivedCosts = new Map(costs.map(c => [skuKey(c.productId, c.variantId), c.unitCost]));
+  const cutoff = now - days * DAY_MS;
+
+  return stock
+    .filter(s => s.onHand > 0)
+    .map(s => {
+      const soldAt = lastSoldAt.get(skuKey(s.productId, s.variantId)) ?? null;
+      const unitCost = resolveUnitCost(s.productId, s.variantId, receivedCosts, s);
+      return {
+        productId: s.productId,
+        variantId: s.variantId,
+        sku: s.sku,
+        name: s.name,
+        variantName: s.variantName,
+        onHand: s.onHand,
+        lastSoldAt: soldAt,
+        daysSinceLastSale: soldAt !== null ? Math.floor((now - soldAt) / DAY_MS) : null,
+        stockValue: unitCost !== null ? round2(s.onHand * unitCost) : null,
+      };
+    })
+    .filter(item => item.lastSoldAt === null || item.lastSoldAt < cutoff)
+    .sort((a, b) => (a.lastSoldAt ?? 0) - (b.lastSoldAt ?? 0) || b.onHand - a.onHand);
+}
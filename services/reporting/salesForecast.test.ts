@@ -0,0 +1,93 @@
+import type { SalesByPeriod } from './ReportingService';
+import { averageHourlyCurve, forecastDay, startOfWeek, suggestStaffing, summariseWeek } from './salesForecast';
+
+const HOUR = 60 * 60 * 1000;
+
+/** 24 hourly buckets with the given orders and sales per hour */
+function curve(perHour: Record<number, [number, number]>): SalesByPeriod[] {
+  return Array.from({ length: 24 }, (_, hour) => ({
+    label: `${hour.toString().padStart(2, '0')}:00`,
+    orderCount: perHour[hour]?.[0] ?? 0,
+    totalSales: perHour[hour]?.[1] ?? 0,
+  }));
+}
+
+const dayStart = new Date(2026, 9, 19).getTime();
+
+describe('averageHourlyCurve', () => {
+  it('averages per hour and skips days without sales', () => {
+    const result = averageHourlyCurve([curve({ 9: [2, 20] }), curve({ 9: [4, 60] }), curve({})]);
+    expect(result.days).toBe(2);
+    expect(result.orders[9]).toBe(3);
+    expect(result.sales[9]).toBe(40);
+  });
+});
+
+describe('forecastDay', () => {
+  const history = [curve({ 9: [10, 100], 10: [10, 100], 11: [20, 200] }), curve({ 9: [10, 100], 10: [10, 100], 11: [20, 200] })];
+
+  it('forecasts a day still to come from history alone', () => {
+    const result = forecastDay({ dayStart, actual: [], history, now: dayStart - HOUR });
+    expect(result).toMatchObject({ actualSales: 0, projectedSales: 400, projectedOrders: 40, paceFactor: 1, basedOnDays: 2 });
+  });
+
+  it('keeps actual sales for completed hours and scales the rest by the pace so far', () => {
+    // 10:00 — 09:00 finished at 150 against 100 expected, so pace is 1.5
+    const result = forecastDay({ dayStart, actual: curve({ 9: [15, 150] }), history, now: dayStart + 10 * HOUR });
+
+    expect(result.paceFactor).toBe(1.5);
+    expect(result.hours[9]).toMatchObject({ isComplete: true, forecastSales: 150 });
+    expect(result.hours[10].forecastSales).toBe(150);
+    expect(result.hours[11].forecastSales).toBe(300);
+    expect(result).toMatchObject({ actualSales: 150, projectedSales: 600, remainingSales: 450 });
+  });
+
+  it('clamps the pace factor', () => {
+    const result = forecastDay({ dayStart, actual: curve({ 9: [100, 1000] }), history, now: dayStart + 10 * HOUR });
+    expect(result.paceFactor).toBe(2);
+  });
+
+  it('counts only the remaining part of the current hour', () => {
+    const result = forecastDay({ dayStart, actual: curve({}), history, now: dayStart + 10.5 * HOUR });
+    expect(result.hours[10]).toMatchObject({ isComplete: false, forecastOrders: 5 });
+  });
+
+  it('is all actual once the day is over', () => {
+    const result = forecastDay({ dayStart, actual: curve({ 9: [3, 30] }), history, now: dayStart + 30 * HOUR });
+    expect(result).toMatchObject({ projectedSales: 30, remainingSales: 0 });
+  });
+});
+
+describe('summariseWeek', () => {
+  it('adds up actual and projected sales', () => {
+    const history = [curve({ 12: [4, 40] })];
+    const past = forecastDay({ dayStart, actual: curve({ 12: [3, 25] }), history: [], now: dayStart + 30 * HOUR });
+    const future = forecastDay({ dayStart, actual: [], history, now: dayStart - HOUR });
+
+    expect(summariseWeek([past, future])).toMatchObject({ actualSales: 25, projectedSales: 65, remainingSales: 40, projectedOrders: 7 });
+  });
+});
+
+describe('suggestStaffing', () => {
+  it('divides forecast transactions by throughput with a minimum for trading hours', () => {
+    const forecast = forecastDay({
+      dayStart,
+      actual: [],
+      history: [curve({ 8: [1, 1], 9: [5, 50], 12: [45, 450] }), curve({ 9: [5, 50], 12: [45, 450] })],
+      now: dayStart - HOUR,
+    });
+    const staffing = suggestStaffing(forecast, { transactionsPerStaffHour: 20, minimumStaff: 1 });
+
+    expect(staffing[8].staff).toBe(1);
+    expect(staffing[9].staff).toBe(1);
+    expect(staffing[12].staff).toBe(3);
+    expect(staffing[3].staff).toBe(0);
+  });
+});
+
+describe('startOfWeek', () => {
+  it('returns local midnight on Monday', () => {
+    expect(new Date(startOfWeek(new Date(2026, 9, 18, 15).getTime()))).toEqual(new Date(2026, 9, 12));
+    expect(new Date(startOfWeek(new Date(2026, 9, 19, 9).getTime()))).toEqual(new Date(2026, 9, 19));
+  });
+});
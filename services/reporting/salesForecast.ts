@@ -0,0 +1,217 @@
+/**
+ * Sales forecast and staffing suggestions — pure helpers used by
+ * ReportingService.
+ *
+ * The forecast for a day is the average hourly curve (getSalesByHour) of the
+ * same weekday over the previous weeks. Weeks with no sales at all, e.g.
+ * before the register was in use or a closed day, are left out of the average.
+ * For today, completed hours are actual sales. The rest of the day is the
+ * historical curve scaled by the pace factor: actual sales so far divided by
+ * what history expected by now, clamped so one busy or quiet morning cannot
+ * swing the forecast too far.
+ *
+ * Staffing suggestions divide forecast transactions per hour by how many
+ * transactions one person can serve in an hour.
+ */
+
+import type { SalesByPeriod } from './ReportingService';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Previous weeks whose same weekday makes up the historical curve */
+export const FORECAST_HISTORY_WEEKS = 4;
+
+/** Bounds of the pace factor applied to the rest of today */
+export const PACE_FACTOR_MIN = 0.5;
+export const PACE_FACTOR_MAX = 2;
+
+export interface HourForecast {
+  hour: number;
+  label: string;
+  /** Actual orders and sales so far in this hour */
+  actualOrders: number;
+  actualSales: number;
+  /** Actual for completed hours; actual plus the expected remainder otherwise */
+  forecastOrders: number;
+  forecastSales: number;
+  /** The hour is over and only actual figures count */
+  isComplete: boolean;
+}
+
+export interface DayForecast {
+  dayStart: number;
+  hours: HourForecast[];
+  actualOrders: number;
+  actualSales: number;
+  projectedOrders: number;
+  projectedSales: number;
+  remainingOrders: number;
+  remainingSales: number;
+  paceFactor: number;
+  /** Historical days the curve was averaged over */
+  basedOnDays: number;
+}
+
+export interface WeekForecast {
+  days: DayForecast[];
+  actualSales: number;
+  projectedSales: number;
+  remainingSales: number;
+  projectedOrders: number;
+}
+
+export interface StaffingOptions {
+  /** Transactions one person can serve in an hour */
+  transactionsPerStaffHour: number;
+  /** Staff for any hour that expects any trade */
+  minimumStaff: number;
+}
+
+export const DEFAULT_STAFFING_OPTIONS: StaffingOptions = {
+  transactionsPerStaffHour: 20,
+  minimumStaff: 1,
+};
+
+export interface StaffingSuggestion {
+  hour: number;
+  label: string;
+  forecastOrders: number;
+  staff: number;
+}
+
+export interface SalesForecast {
+  today: DayForecast;
+  /** Monday to Sunday of the current week: actual for past days, forecast for the rest */
+  week: WeekForecast;
+  /** Per hour of today */
+  staffing: StaffingSuggestion[];
+}
+
+/** Local midnight of the day containing `timestamp` */
+export function startOfDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+}
+
+/** Local midnight of the Monday of the week containing `timestamp` */
+export function startOfWeek(timestamp: number): number {
+  const date = new Date(startOfDay(timestamp));
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.getTime();
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/** Average orders and sales per hour over historical days, skipping days without sales */
+export function averageHourlyCurve(history: SalesByPeriod[][]): { orders: number[]; sales: number[]; days: number } {
+  const trading = history.filter(day => day.some(h => h.orderCount > 0));
+  const orders = new Array<number>(24).fill(0);
+  const sales = new Array<number>(24).fill(0);
+  for (const day of trading) {
+    day.forEach((h, hour) => {
+      orders[hour] += h.orderCount;
+      sales[hour] += h.totalSales;
+    });
+  }
+  const days = trading.length;
+  return {
+    orders: orders.map(o => (days > 0 ? o / days : 0)),
+    sales: sales.map(s => (days > 0 ? s / days : 0)),
+    days,
+  };
+}
+
+export interface DayForecastInput {
+  dayStart: number;
+  /** Hourly actuals for the day (24 buckets); empty for a day still to come */
+  actual: SalesByPeriod[];
+  /** Hourly curves of the same weekday in previous weeks */
+  history: SalesByPeriod[][];
+  now: number;
+}
+
+export function forecastDay({ dayStart, actual, history, now }: DayForecastInput): DayForecast {
+  const curve = averageHourlyCurve(history);
+  const elapsedHours = Math.min(24, Math.max(0, (now - dayStart) / HOUR_MS));
+  const completedHours = Math.floor(elapsedHours);
+
+  // Pace: actual sales so far against what history expected by now
+  let expectedSoFar = 0;
+  let actualSoFar = 0;
+  for (let hour = 0; hour < 24; hour++) {
+    const weight = Math.min(1, Math.max(0, elapsedHours - hour));
+    expectedSoFar += curve.sales[hour] * weight;
+    actualSoFar += actual[hour]?.totalSales ?? 0;
+  }
+  const paceFactor =
+    expectedSoFar > 0 && actualSoFar > 0 ? Math.min(PACE_FACTOR_MAX, Math.max(PACE_FACTOR_MIN, actualSoFar / expectedSoFar)) : 1;
+
+  const hours: HourForecast[] = [];
+  for (let hour = 0; hour < 24; hour++) {
+    const actualOrders = actual[hour]?.orderCount ?? 0;
+    const actualSales = actual[hour]?.totalSales ?? 0;
+    const isComplete = hour < completedHours;
+    // Share of the hour still to come: 0 for completed hours, part of the current hour, 1 after
+    const remaining = isComplete ? 0 : Math.min(1, hour + 1 - elapsedHours);
+    hours.push({
+      hour,
+      label: `${hour.toString().padStart(2, '0')}:00`,
+      actualOrders,
+      actualSales,
+      forecastOrders: round1(actualOrders + curve.orders[hour] * remaining * paceFactor),
+      forecastSales: round2(actualSales + curve.sales[hour] * remaining * paceFactor),
+      isComplete,
+    });
+  }
+
+  const sum = (read: (h: HourForecast) => number) => hours.reduce((total, h) => total + read(h), 0);
+  const actualOrders = sum(h => h.actualOrders);
+  const actualSales = round2(sum(h => h.actualSales));
+  const projectedOrders = round1(sum(h => h.forecastOrders));
+  const projectedSales = round2(sum(h => h.forecastSales));
+
+  return {
+    dayStart,
+    hours,
+    actualOrders,
+    actualSales,
+    projectedOrders,
+    projectedSales,
+    remainingOrders: round1(Math.max(0, projectedOrders - actualOrders)),
+    remainingSales: round2(Math.max(0, projectedSales - actualSales)),
+    paceFactor: round2(paceFactor),
+    basedOnDays: curve.days,
+  };
+}
+
+export function summariseWeek(days: DayForecast[]): WeekForecast {
+  const actualSales = round2(days.reduce((sum, d) => sum + d.actualSales, 0));
+  const projectedSales = round2(days.reduce((sum, d) => sum + d.projectedSales, 0));
+  return {
+    days,
+    actualSales,
+    projectedSales,
+    remainingSales: round2(Math.max(0, projectedSales - actualSales)),
+    projectedOrders: round1(days.reduce((sum, d) => sum + d.projectedOrders, 0)),
+  };
+}
+
+/**
+ * Suggested staff per hour of a forecast day. Hours expecting less than half
+ * a transaction (closed, or an occasional late sale) need nobody.
+ */
+export function suggestStaffing(day: DayForecast, options: StaffingOptions = DEFAULT_STAFFING_OPTIONS): StaffingSuggestion[] {
+  const perStaff = Math.max(1, options.transactionsPerStaffHour);
+  return day.hours.map(h => ({
+    hour: h.hour,
+    label: h.label,
+    forecastOrders: h.forecastOrders,
+    staff: h.forecastOrders >= 0.5 ? Math.max(options.minimumStaff, Math.ceil(h.forecastOrders / perStaff)) : 0,
+  }));
+}
@@ -0,0 +1,105 @@
+import { ScaleProtocol, ScaleServiceInterface, ScaleType } from './ScaleServiceInterface';
+import { SerialScaleService } from './SerialScaleService';
+import { MockScaleService } from './mock/MockScaleService';
+import { LoggerFactory } from '../logger/LoggerFactory';
+import { keyValueRepository } from '../../repositories/KeyValueRepository';
+
+const SCALE_SETTINGS_KEY = 'scaleSettings';
+
+export interface ScaleSettings {
+  enabled: boolean;
+  type: ScaleType;
+  /** Serial port path, e.g. `COM3` or `/dev/ttyUSB0` */
+  port: string;
+  protocol: ScaleProtocol;
+  /** Overrides the protocol's default baud rate */
+  baudRate?: number;
+}
+
+const DEFAULT_SCALE_SETTINGS: ScaleSettings = {
+  enabled: false,
+  type: 'none',
+  port: '',
+  protocol: 'cas',
+};
+
+/**
+ * Factory for the weighing scale used to price items sold by weight.
+ * With no scale configured getService() returns null and the cashier types
+ * the weight in.
+ *
+ * Usage:
+ *   const scale = ScaleServiceFactory.getInstance().getService();
+ *   const { weightKg } = await scale.readStableWeight();
+ */
+export class ScaleServiceFactory {
+  private static instance: ScaleServiceFactory;
+  private logger = LoggerFactory.getInstance().createLogger('ScaleServiceFactory');
+  private currentService: ScaleServiceInterface | null = null;
+  private settings: ScaleSettings = DEFAULT_SCALE_SETTINGS;
+  private initialized = false;
+
+  private constructor() {}
+
+  static getInstance(): ScaleServiceFactory {
+    if (!ScaleServiceFactory.instance) {
+      ScaleServiceFactory.instance = new ScaleServiceFactory();
+    }
+    return ScaleServiceFactory.instance;
+  }
+
+  /**
+   * Load scale settings from storage and connect if enabled.
+   * Safe to call more than once; only the first call connects.
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    try {
+      const saved = await keyValueRepository.getObject<ScaleSettings>(SCALE_SETTINGS_KEY);
+      if (saved) this.settings = { ...DEFAULT_SCALE_SETTINGS, ...saved };
+
+      if (this.settings.enabled && this.settings.type !== 'none') {
+        await this.applySettings(this.settings);
+      }
+    } catch (error) {
+      this.logger.error({ message: 'Failed to initialize scale' }, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /** Get the connected scale, or null when none is configured */
+  getService(): ScaleServiceInterface | null {
+    return this.currentService?.isConnected() ? this.currentService : null;
+  }
+
+  /** Get the current settings (for the settings UI). */
+  getSettings(): ScaleSettings {
+    return { ...this.settings };
+  }
+
+  /** Configure and connect to a scale. Persists settings to storage. */
+  async configure(settings: ScaleSettings): Promise<boolean> {
+    this.settings = settings;
+    await keyValueRepository.setObject(SCALE_SETTINGS_KEY, settings);
+    return this.applySettings(settings);
+  }
+
+  private async applySettings(settings: ScaleSettings): Promise<boolean> {
+    await this.currentService?.disconnect();
+    this.currentService = null;
+
+    if (!settings.enabled || settings.type === 'none') return true;
+
+    const service = settings.type === 'mock' ? new MockScaleService() : new SerialScaleService();
+    const connected = await service.connect({ port: settings.port, protocol: settings.protocol, baudRate: settings.baudRate });
+    if (!connected) {
+      this.logger.warn({ message: `Failed to connect scale on ${settings.port || 'mock'}` });
+      return false;
+    }
+    this.currentService = service;
+    return true;
+  }
+}
+
+export const scaleServiceFactory = ScaleServiceFactory.getInstance();
@@ -0,0 +1,75 @@
+/**
+ * Scale driver types
+ */
+export type ScaleType = 'serial' | 'mock' | 'none';
+
+/**
+ * Serial protocols spoken by retail scales
+ */
+export type ScaleProtocol = 'cas' | 'toledo' | 'dibal';
+
+/**
+ * One weight reported by the scale, converted to kilograms
+ */
+export interface WeightReading {
+  weightKg: number;
+  /** `stable` once the platter has settled; other states never price a line */
+  status: 'stable' | 'motion' | 'overload' | 'under_zero';
+}
+
+/**
+ * Serial line the scale is attached to
+ */
+export interface ScaleConnectionConfig {
+  /** Serial port path, e.g. `COM3` or `/dev/ttyUSB0` */
+  port: string;
+  protocol: ScaleProtocol;
+  /** Overrides the protocol's default baud rate */
+  baudRate?: number;
+}
+
+/**
+ * Interface for all scale services (serial, mock)
+ */
+export interface ScaleServiceInterface {
+  /**
+   * Which driver is backing this instance
+   */
+  readonly driverType: ScaleType;
+
+  /**
+   * Open the connection to the scale
+   * @returns Promise resolving to true if connected successfully, false otherwise
+   */
+  connect(config: ScaleConnectionConfig): Promise<boolean>;
+
+  /**
+   * Close the connection to the scale
+   */
+  disconnect(): Promise<void>;
+
+  /**
+   * Check if currently connected to a scale
+   */
+  isConnected(): boolean;
+
+  /**
+   * Take one reading, settled or not — for showing the live weight
+   * @returns Promise resolving to the reading, or null when the scale did not answer
+   */
+  readWeight(): Promise<WeightReading | null>;
+
+  /**
+   * Poll until the scale reports a stable weight
+   * @param timeoutMs How long to wait for the platter to settle
+   * @returns Promise resolving to the stable reading; rejects when the scale
+   *          stays in motion, overloaded or under zero, or stops answering
+   */
+  readStableWeight(timeoutMs?: number): Promise<WeightReading>;
+
+  /**
+   * Zero the scale, where the protocol supports it
+   * @returns Promise resolving to true if the command was sent
+   */
+  zero?(): Promise<boolean>;
+}
@@ -0,0 +1,95 @@
+jest.mock('../logger/LoggerFactory', () => ({
+  LoggerFactory: {
+    getInstance: () => ({
+      createLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }),
+    }),
+  },
+}));
+
+import { ScaleTransport, SerialLineConfig, SerialScaleService } from './SerialScaleService';
+
+/** Transport that answers each read with the next queued frame */
+class FakeTransport implements ScaleTransport {
+  opened: SerialLineConfig | null = null;
+  requests: string[] = [];
+  written: string[] = [];
+
+  constructor(
+    private frames: (string | null)[],
+    private canOpen = true
+  ) {}
+
+  async open(config: SerialLineConfig): Promise<boolean> {
+    this.opened = config;
+    return this.canOpen;
+  }
+
+  async close(): Promise<void> {
+    this.opened = null;
+  }
+
+  async read(request: string): Promise<string | null> {
+    this.requests.push(request);
+    return this.frames.length > 1 ? (this.frames.shift() ?? null) : (this.frames[0] ?? null);
+  }
+
+  async write(data: string): Promise<boolean> {
+    this.written.push(data);
+    return true;
+  }
+}
+
+describe('SerialScaleService', () => {
+  it('opens the port with the protocol line settings', async () => {
+    const transport = new FakeTransport([]);
+    const scale = new SerialScaleService(transport);
+
+    expect(await scale.connect({ port: 'COM3', protocol: 'toledo' })).toBe(true);
+    expect(transport.opened).toEqual({ port: 'COM3', baudRate: 9600, dataBits: 7, parity: 'even' });
+    expect(scale.isConnected()).toBe(true);
+  });
+
+  it('stays disconnected when the port does not open', async () => {
+    const scale = new SerialScaleService(new FakeTransport([], false));
+
+    expect(await scale.connect({ port: 'COM3', protocol: 'cas', baudRate: 4800 })).toBe(false);
+    expect(scale.isConnected()).toBe(false);
+    expect(await scale.readWeight()).toBeNull();
+    await expect(scale.readStableWeight()).rejects.toThrow('Scale not connected');
+  });
+
+  it('polls until the weight settles', async () => {
+    const transport = new FakeTransport(['US,GS,+  0.498kg\r\n', 'ST,GS,+  0.512kg\r\n']);
+    const scale = new SerialScaleService(transport);
+    await scale.connect({ port: 'COM3', protocol: 'cas' });
+
+    expect(await scale.readStableWeight()).toEqual({ weightKg: 0.512, status: 'stable' });
+    expect(transport.requests).toEqual(['', '']);
+  });
+
+  it('explains why a weight never settled', async () => {
+    const scale = new SerialScaleService(new FakeTransport(['OL,GS,+  0.000kg\r\n']));
+    await scale.connect({ port: 'COM3', protocol: 'cas' });
+
+    await expect(scale.readStableWeight(300)).rejects.toThrow('The scale is overloaded');
+  });
+
+  it('fails when the scale does not answer', async () => {
+    const scale = new SerialScaleService(new FakeTransport([null]));
+    await scale.connect({ port: 'COM3', protocol: 'dibal' });
+
+    await expect(scale.readStableWeight(300)).rejects.toThrow('The scale did not answer');
+  });
+
+  it('zeroes only scales whose protocol has a command for it', async () => {
+    const transport = new FakeTransport([]);
+    const scale = new SerialScaleService(transport);
+
+    await scale.connect({ port: 'COM3', protocol: 'cas' });
+    expect(await scale.zero()).toBe(false);
+
+    await scale.connect({ port: 'COM3', protocol: 'toledo' });
+    expect(await scale.zero()).toBe(true);
+    expect(transport.written).toEqual(['Z']);
+  });
+});
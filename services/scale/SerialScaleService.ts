@@ -0,0 +1,109 @@
+import { ScaleConnectionConfig, ScaleServiceInterface, WeightReading } from './ScaleServiceInterface';
+import { SCALE_PROTOCOLS, ScaleProtocolDefinition } from './scaleProtocols';
+import { LoggerFactory } from '../logger/LoggerFactory';
+import { getElectronAPI } from '../../utils/electron';
+
+/** How long one request waits for its response frame */
+const READ_TIMEOUT_MS = 1000;
+/** Pause between readings while waiting for the platter to settle */
+const POLL_INTERVAL_MS = 200;
+export const DEFAULT_STABLE_TIMEOUT_MS = 5000;
+
+/** Serial line settings handed to the transport */
+export interface SerialLineConfig {
+  port: string;
+  baudRate: number;
+  dataBits: 7 | 8;
+  parity: 'none' | 'even' | 'odd';
+}
+
+/**
+ * Byte pipe to the scale. The desktop app opens the port in the Electron
+ * main process (electron/ipc/scaleBridge.js); tests pass their own.
+ */
+export interface ScaleTransport {
+  open(config: SerialLineConfig): Promise<boolean>;
+  close(): Promise<void>;
+  /** Send `request` (empty for streaming scales) and resolve the next frame ending in `terminator`, or null on timeout */
+  read(request: string, terminator: string, timeoutMs: number): Promise<string | null>;
+  write(data: string): Promise<boolean>;
+}
+
+/** Transport over the Electron IPC bridge; every call fails cleanly outside the desktop app */
+export const electronScaleTransport: ScaleTransport = {
+  open: async config => (await getElectronAPI()?.scaleOpen(config)) ?? false,
+  close: async () => {
+    await getElectronAPI()?.scaleClose();
+  },
+  read: async (request, terminator, timeoutMs) => (await getElectronAPI()?.scaleRead(request, terminator, timeoutMs)) ?? null,
+  write: async data => (await getElectronAPI()?.scaleWrite(data)) ?? false,
+};
+
+const STATUS_ERRORS: Record<Exclude<WeightReading['status'], 'stable'>, string> = {
+  motion: 'The weight did not settle — keep the item still and try again',
+  overload: 'The scale is overloaded',
+  under_zero: 'The scale reads below zero — clear the platter and zero it',
+};
+
+/**
+ * Scale on a serial port speaking CAS, Toledo or Dibal.
+ */
+export class SerialScaleService implements ScaleServiceInterface {
+  readonly driverType = 'serial' as const;
+  private logger = LoggerFactory.getInstance().createLogger('SerialScaleService');
+  private protocol: ScaleProtocolDefinition | null = null;
+
+  constructor(private transport: ScaleTransport = electronScaleTransport) {}
+
+  async connect(config: ScaleConnectionConfig): Promise<boolean> {
+    const protocol = SCALE_PROTOCOLS[config.protocol];
+    const opened = await this.transport.open({
+      port: config.port,
+      baudRate: config.baudRate ?? protocol.baudRate,
+      dataBits: protocol.dataBits,
+      parity: protocol.parity,
+    });
+    this.protocol = opened ? protocol : null;
+    if (opened) {
+      this.logger.info(`Scale connected on ${config.port} (${protocol.label})`);
+    } else {
+      this.logger.warn({ message: `Failed to open scale port ${config.port}` });
+    }
+    return opened;
+  }
+
+  async disconnect(): Promise<void> {
+    if (!this.protocol) return;
+    this.protocol = null;
+    await this.transport.close();
+  }
+
+  isConnected(): boolean {
+    return this.protocol !== null;
+  }
+
+  async readWeight(): Promise<WeightReading | null> {
+    const protocol = this.protocol;
+    if (!protocol) return null;
+    const frame = await this.transport.read(protocol.request, protocol.terminator, READ_TIMEOUT_MS);
+    return frame ? protocol.parse(frame) : null;
+  }
+
+  async readStableWeight(timeoutMs: number = DEFAULT_STABLE_TIMEOUT_MS): Promise<WeightReading> {
+    if (!this.protocol) throw new Error('Scale not connected');
+
+    const deadline = Date.now() + timeoutMs;
+    let last: WeightReading | null = null;
+    while (Date.now() < deadline) {
+      last = (await this.readWeight()) ?? last;
+      if (last?.status === 'stable') return last;
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+    throw new Error(last ? STATUS_ERRORS[last.status as keyof typeof STATUS_ERRORS] : 'The scale did not answer');
+  }
+
+  async zero(): Promise<boolean> {
+    if (!this.protocol?.zero) return false;
+    return this.transport.write(this.protocol.zero);
+  }
+}
@@ -0,0 +1,56 @@
+import { ScaleConnectionConfig, ScaleServiceInterface, WeightReading } from '../ScaleServiceInterface';
+import { LoggerFactory } from '../../logger/LoggerFactory';
+
+/**
+ * Mock scale for development and demos. Reports the weight set with
+ * setWeight(), in motion for the first reading after each change.
+ */
+export class MockScaleService implements ScaleServiceInterface {
+  readonly driverType = 'mock' as const;
+  private logger = LoggerFactory.getInstance().createLogger('MockScaleService');
+  private connected = false;
+  private weightKg: number;
+  private settled = false;
+
+  constructor(weightKg: number = 0.5) {
+    this.weightKg = weightKg;
+  }
+
+  /** Put a weight on the platter */
+  setWeight(weightKg: number): void {
+    this.weightKg = weightKg;
+    this.settled = false;
+  }
+
+  async connect(config: ScaleConnectionConfig): Promise<boolean> {
+    this.logger.info(`Mock scale connected (${config.protocol})`);
+    this.connected = true;
+    return true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  async readWeight(): Promise<WeightReading | null> {
+    if (!this.connected) return null;
+    const status = this.settled ? 'stable' : 'motion';
+    this.settled = true;
+    return { weightKg: this.weightKg, status };
+  }
+
+  async readStableWeight(): Promise<WeightReading> {
+    if (!this.connected) throw new Error('Scale not connected');
+    this.settled = true;
+    return { weightKg: this.weightKg, status: 'stable' };
+  }
+
+  async zero(): Promise<boolean> {
+    this.setWeight(0);
+    return true;
+  }
+}
@@ -0,0 +1,60 @@
+import { SCALE_PROTOCOLS } from './scaleProtocols';
+
+const STX = '\u0002';
+const ETX = '\u0003';
+
+describe('CAS', () => {
+  const { parse } = SCALE_PROTOCOLS.cas;
+
+  it('reads stable and unstable weights', () => {
+    expect(parse('ST,GS,+  0.512kg\r\n')).toEqual({ weightKg: 0.512, status: 'stable' });
+    expect(parse('US,GS,+  0.498kg\r\n')).toEqual({ weightKg: 0.498, status: 'motion' });
+  });
+
+  it('converts grams and pounds to kilograms', () => {
+    expect(parse('ST,NT,+   512g')?.weightKg).toBe(0.512);
+    expect(parse('ST,GS,+  1.000lb')?.weightKg).toBe(0.454);
+  });
+
+  it('reports overload and negative weights', () => {
+    expect(parse('OL,GS,+  0.000kg')?.status).toBe('overload');
+    expect(parse('ST,GS,-  0.010kg')).toEqual({ weightKg: -0.01, status: 'under_zero' });
+  });
+
+  it('ignores frames that are not weights', () => {
+    expect(parse('garbage')).toBeNull();
+  });
+});
+
+describe('Mettler Toledo 8217', () => {
+  const { parse } = SCALE_PROTOCOLS.toledo;
+
+  it('reads a settled weight', () => {
+    expect(parse(`${STX}01.250\r`)).toEqual({ weightKg: 1.25, status: 'stable' });
+  });
+
+  it('reads the status byte when there is no weight', () => {
+    expect(parse(`${STX}?\u0001\r`)?.status).toBe('motion');
+    expect(parse(`${STX}?\u0002\r`)?.status).toBe('overload');
+    expect(parse(`${STX}?\u0004\r`)?.status).toBe('under_zero');
+  });
+
+  it('ignores frames that are not weights', () => {
+    expect(parse(`${STX}abc\r`)).toBeNull();
+  });
+});
+
+describe('Dibal', () => {
+  const { parse } = SCALE_PROTOCOLS.dibal;
+
+  it('reads grams with their status', () => {
+    expect(parse(`${STX}S+000512${ETX}`)).toEqual({ weightKg: 0.512, status: 'stable' });
+    expect(parse(`${STX}M+000498${ETX}`)?.status).toBe('motion');
+    expect(parse(`${STX}O+999999${ETX}`)?.status).toBe('overload');
+    expect(parse(`${STX}U-000010${ETX}`)).toEqual({ weightKg: -0.01, status: 'under_zero' });
+  });
+
+  it('ignores frames that are not weights', () => {
+    expect(parse(`${STX}S+12${ETX}`)).toBeNull();
+  });
+});
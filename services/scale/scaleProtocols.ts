@@ -0,0 +1,104 @@
+/**
+ * Serial protocols of common retail scales.
+ *
+ * Each protocol says what to send to ask for a weight, how a response frame
+ * ends and how to read it. Frames are read as latin1 strings by the serial
+ * transport and parsed here, so the parsing runs (and is tested) without a
+ * serial port.
+ *
+ *   cas     — CAS continuous output (EC, ED, DB, PD series):
+ *             `ST,GS,+  0.512kg\r\n`; ST stable, US unstable, OL overload
+ *   toledo  — Mettler Toledo 8217 (also spoken by most scanner-scales):
+ *             host sends `W`, scale answers `<STX>0.512<CR>` when settled or
+ *             `<STX>?<status><CR>` with motion / over / under-zero bits
+ *   dibal   — Dibal POS weight frame: host sends ENQ, scale answers
+ *             `<STX><status><sign><6-digit grams><ETX>`
+ *
+ * See: docs/specs/hardware/scale.md §2.3
+ */
+
+import { ScaleProtocol, WeightReading } from './ScaleServiceInterface';
+
+const STX = '\u0002';
+const ETX = '\u0003';
+const ENQ = '\u0005';
+const KG_PER_LB = 0.45359237;
+
+export interface ScaleProtocolDefinition {
+  label: string;
+  /** Sent to ask for a reading; empty for scales that stream continuously */
+  request: string;
+  /** Sent to zero the scale, when the protocol has a command for it */
+  zero?: string;
+  /** Last character of a response frame */
+  terminator: string;
+  /** Factory line settings */
+  baudRate: number;
+  dataBits: 7 | 8;
+  parity: 'none' | 'even' | 'odd';
+  /** Read one frame; null when the frame is not a weight */
+  parse(frame: string): WeightReading | null;
+}
+
+function toKg(value: number, unit: string): number {
+  const kg = unit === 'g' ? value / 1000 : unit === 'lb' ? value * KG_PER_LB : value;
+  return Math.round(kg * 1000) / 1000;
+}
+
+/** `ST,GS,+  0.512kg` */
+function parseCas(frame: string): WeightReading | null {
+  const match = /(ST|US|OL),(GS|NT),([+-])\s*([\d.]+)\s*(kg|g|lb)/i.exec(frame);
+  if (!match) return null;
+  const [, header, , sign, value, unit] = match;
+  const weightKg = toKg(Number(value), unit.toLowerCase());
+  if (header.toUpperCase() === 'OL') return { weightKg, status: 'overload' };
+  if (sign === '-') return { weightKg: -weightKg, status: 'under_zero' };
+  return { weightKg, status: header.toUpperCase() === 'ST' ? 'stable' : 'motion' };
+}
+
+/** `<STX>0.512<CR>` or `<STX>?<status><CR>` */
+function parseToledo(frame: string): WeightReading | null {
+  const body = frame.replace(STX, '').trim();
+  if (body.startsWith('?')) {
+    const status = body.charCodeAt(1) || 0;
+    // Status bits: 0 in motion, 1 over capacity, 2 under zero
+    if (status & 0x02) return { weightKg: 0, status: 'overload' };
+    if (status & 0x04) return { weightKg: 0, status: 'under_zero' };
+    return { weightKg: 0, status: 'motion' };
+  }
+  if (!/^\d+(\.\d+)?$/.test(body)) return null;
+  return { weightKg: toKg(Number(body), 'kg'), status: 'stable' };
+}
+
+/** `<STX><S|M|O|U><+|-><grams x6><ETX>` */
+function parseDibal(frame: string): WeightReading | null {
+  const match = new RegExp(`${STX}([SMOU])([+-])(\\d{6})${ETX}?`).exec(frame);
+  if (!match) return null;
+  const [, status, sign, grams] = match;
+  const weightKg = toKg(Number(grams), 'g') * (sign === '-' ? -1 : 1);
+  switch (status) {
+    case 'S':
+      return { weightKg, status: 'stable' };
+    case 'O':
+      return { weightKg, status: 'overload' };
+    case 'U':
+      return { weightKg, status: 'under_zero' };
+    default:
+      return { weightKg, status: 'motion' };
+  }
+}
+
+export const SCALE_PROTOCOLS: Record<ScaleProtocol, ScaleProtocolDefinition> = {
+  cas: { label: 'CAS', request: '', terminator: '\n', baudRate: 9600, dataBits: 8, parity: 'none', parse: parseCas },
+  toledo: {
+    label: 'Mettler Toledo 8217',
+    request: 'W',
+    zero: 'Z',
+    terminator: '\r',
+    baudRate: 9600,
+    dataBits: 7,
+    parity: 'even',
+    parse: parseToledo,
+  },
+  dibal: { label: 'Dibal', request: ENQ, terminator: ETX, baudRate: 9600, dataBits: 8, parity: 'none', parse: parseDibal },
+};
@@ -1,6 +1,7 @@
 import { keyValueRepository } from '../../repositories/KeyValueRepository';
 import { LoggerFactory } from '../logger/LoggerFactory';
 import { ScannerType } from './ScannerServiceFactory';
+import { DEFAULT_GS1_SETTINGS, Gs1Settings } from './gs1';
 
 const SCANNER_SETTINGS_KEY = 'scannerSettings';
 
@@ -71,6 +72,9 @@ export interface ScannerSettings {
     preferredCamera: 'back' | 'front';
     enableTorch: boolean;
   };
+
+  // GS1 decoding of scanned codes (variable-measure labels, DataMatrix / GS1-128)
+  gs1: Gs1Settings;
 }
 
 const DEFAULT_SCANNER_SETTINGS: ScannerSettings = {
@@ -92,6 +96,7 @@ const DEFAULT_SCANNER_SETTINGS: ScannerSettings = {
     preferredCamera: 'back',
     enableTorch: false,
   },
+  gs1: DEFAULT_GS1_SETTINGS,
 };
 
 /**
@@ -121,7 +126,7 @@ export class ScannerSettingsService {
     try {
       const saved = await keyValueRepository.getObject<ScannerSettings>(SCANNER_SETTINGS_KEY);
       if (saved) {
-        this.settings = { ...DEFAULT_SCANNER_SETTINGS, ...saved };
+        this.settings = { ...DEFAULT_SCANNER_SETTINGS, ...saved, gs1: { ...DEFAULT_GS1_SETTINGS, ...saved.gs1 } };
         this.logger.info('Scanner settings loaded from storage');
       }
       this.initialized = true;
@@ -149,6 +154,7 @@ export class ScannerSettingsService {
       bluetooth: { ...this.settings.bluetooth, ...updates.bluetooth },
       usb: { ...this.settings.usb, ...updates.usb },
       camera: { ...this.settings.camera, ...updates.camera },
+      gs1: { ...this.settings.gs1, ...updates.gs1 },
       lastConnectedDevices: { ...this.settings.lastConnectedDevices, ...updates.lastConnectedDevices },
     };
     await keyValueRepository.setObject(SCANNER_SETTINGS_KEY, this.settings);
@@ -231,6 +237,13 @@ export class ScannerSettingsService {
     return { ...this.settings.usb };
   }
 
+  /**
+   * Get GS1 decoding configuration
+   */
+  getGs1Settings(): Gs1Settings {
+    return { ...this.settings.gs1 };
+  }
+
   /**
    * Check if a device name matches configured patterns
    */
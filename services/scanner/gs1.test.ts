@@ -0,0 +1,167 @@
+import {
+  DEFAULT_GS1_SETTINGS,
+  decodeBarcode,
+  findExpiredLines,
+  gs1CheckDigit,
+  gtinLookupCodes,
+  isExpired,
+  parseGs1Date,
+  scanLine,
+} from './gs1';
+
+const today = new Date(2026, 9, 19);
+const GS = '\u001d';
+
+describe('gs1CheckDigit', () => {
+  it('computes the mod-10 check digit', () => {
+    expect(gs1CheckDigit('0950600013435')).toBe(2);
+    expect(gs1CheckDigit('201234501234')).toBe(9);
+  });
+});
+
+describe('decodeBarcode — variable-measure EAN-13', () => {
+  it('reads an embedded price and looks up the label with the price zeroed', () => {
+    expect(decodeBarcode('2012345012349', DEFAULT_GS1_SETTINGS, today)).toEqual({
+      raw: '2012345012349',
+      lookupCodes: ['2012345000001', '2012345', '12345'],
+      price: 12.34,
+    });
+  });
+
+  it('reads an embedded weight in kg', () => {
+    const scan = decodeBarcode('2554321005124', DEFAULT_GS1_SETTINGS, today);
+    expect(scan?.weight).toBe(0.512);
+    expect(scan?.lookupCodes[0]).toBe('2554321000006');
+  });
+
+  it('reads a 4-digit value after a price check digit', () => {
+    const settings = {
+      ...DEFAULT_GS1_SETTINGS,
+      variableMeasure: [{ prefix: '20', kind: 'price' as const, itemDigits: 5, valueDigits: 4, decimals: 2 }],
+    };
+    // 20 12345 0 1234 9: the digit after the item reference is the price check digit
+    expect(decodeBarcode('2012345012349', settings, today)?.price).toBe(12.34);
+  });
+
+  it('leaves ordinary EAN-13s, bad check digits and unconfigured prefixes alone', () => {
+    expect(decodeBarcode('5000000000012', DEFAULT_GS1_SETTINGS, today)).toBeNull();
+    expect(decodeBarcode('2012345012340', DEFAULT_GS1_SETTINGS, today)).toBeNull();
+    expect(decodeBarcode('2012345012349', { ...DEFAULT_GS1_SETTINGS, variableMeasure: [] }, today)).toBeNull();
+  });
+
+  it('decodes nothing while GS1 decoding is off', () => {
+    expect(decodeBarcode('2012345012349', { ...DEFAULT_GS1_SETTINGS, enabled: false }, today)).toBeNull();
+  });
+});
+
+describe('decodeBarcode — GS1 element strings', () => {
+  it('reads GTIN, expiry, batch and serial from a DataMatrix', () => {
+    const scan = decodeBarcode(`]d201095060001343521727123110ABC123${GS}21SN-9`, DEFAULT_GS1_SETTINGS, today);
+    expect(scan).toEqual({
+      raw: `]d201095060001343521727123110ABC123${GS}21SN-9`,
+      lookupCodes: ['09506000134352', '9506000134352'],
+      gtin: '09506000134352',
+      expiry: '2027-12-31',
+      batch: 'ABC123',
+      serial: 'SN-9',
+    });
+  });
+
+  it('reads the bracketed human-readable form', () => {
+    const scan = decodeBarcode('(01)09506000134352(10)L42(17)270600', DEFAULT_GS1_SETTINGS, today);
+    expect(scan).toMatchObject({ gtin: '09506000134352', batch: 'L42', expiry: '2027-06-30' });
+  });
+
+  it('reads net weight and price AIs', () => {
+    const scan = decodeBarcode(`${GS}0109506000134352${'3103'}000750${'3922'}449`, DEFAULT_GS1_SETTINGS, today);
+    expect(scan).toMatchObject({ weight: 0.75, price: 4.49 });
+  });
+
+  it('splits on the separator a keyboard-wedge scanner sends for FNC1', () => {
+    const settings = { ...DEFAULT_GS1_SETTINGS, separator: '~' };
+    const scan = decodeBarcode('~010950600013435210B7~17270101', settings, today);
+    expect(scan).toMatchObject({ batch: 'B7', expiry: '2027-01-01' });
+  });
+
+  it('looks up UPC-A and EAN-8 GTINs in their short form', () => {
+    expect(gtinLookupCodes('00012345678905')).toEqual(['00012345678905', '0012345678905', '012345678905']);
+    expect(gtinLookupCodes('00000096385074')).toEqual(['00000096385074', '0000096385074', '000096385074', '96385074']);
+  });
+
+  it('leaves an unmarked Code 128 starting with 01 alone', () => {
+    expect(decodeBarcode('0109506000134352', DEFAULT_GS1_SETTINGS, today)).toBeNull();
+  });
+
+  it('rejects a GTIN with a bad check digit or a code without one', () => {
+    expect(decodeBarcode(`]d20109506000134351`, DEFAULT_GS1_SETTINGS, today)).toBeNull();
+    expect(decodeBarcode(`]d210ABC123`, DEFAULT_GS1_SETTINGS, today)).toBeNull();
+  });
+});
+
+describe('parseGs1Date', () => {
+  it('treats day 00 as the last day of the month', () => {
+    expect(parseGs1Date('280200', today)).toBe('2028-02-29');
+  });
+
+  it('puts the year within 49 years before or 50 after today', () => {
+    expect(parseGs1Date('760101', today)).toBe('2076-01-01');
+    expect(parseGs1Date('770101', today)).toBe('1977-01-01');
+  });
+
+  it('rejects impossible dates', () => {
+    expect(parseGs1Date('271301', today)).toBeNull();
+    expect(parseGs1Date('270231', today)).toBeNull();
+  });
+});
+
+describe('expiry', () => {
+  it('sells on the expiry date and blocks after it', () => {
+    expect(isExpired('2026-10-19', today)).toBe(false);
+    expect(isExpired('2026-10-18', today)).toBe(true);
+  });
+
+  it('finds basket lines whose recorded expiry has passed', () => {
+    const items = [
+      { name: 'Milk', properties: { expiryDate: '2026-10-18' } },
+      { name: 'Cheese', properties: { expiryDate: '2026-11-01' } },
+      { name: 'Bread' },
+    ];
+    expect(findExpiredLines(items, today).map(i => i.name)).toEqual(['Milk']);
+  });
+});
+
+describe('scanLine', () => {
+  it('uses the embedded price for the line', () => {
+    expect(scanLine({ raw: '', lookupCodes: [], price: 12.34 }, 9.99)).toEqual({ price: 12.34, quantity: 1, properties: {} });
+  });
+
+  it('prices an embedded weight at the unit price per kg', () => {
+    expect(scanLine({ raw: '', lookupCodes: [], weight: 0.512 }, 18.5)).toEqual({
+      price: 9.47,
+      quantity: 1,
+      properties: { netWeightKg: '0.512' },
+    });
+  });
+
+  it('makes an embedded weight the quantity of a product sold by weight', () => {
+    expect(scanLine({ raw: '', lookupCodes: [], weight: 0.512 }, 18.5, 'kg')).toEqual({
+      price: 18.5,
+      quantity: 0.512,
+      properties: { netWeightKg: '0.512', unitOfMeasure: 'kg' },
+    });
+    expect(scanLine({ raw: '', lookupCodes: [], weight: 0.512 }, 1.2, '100g').quantity).toBe(5.12);
+  });
+
+  it('keeps an embedded price over the weight of a product sold by weight', () => {
+    expect(scanLine({ raw: '', lookupCodes: [], price: 9.47, weight: 0.512 }, 18.5, 'kg')).toMatchObject({ price: 9.47, quantity: 1 });
+  });
+
+  it('records GTIN, batch, expiry and serial in the line properties', () => {
+    const line = scanLine({ raw: '', lookupCodes: [], gtin: '09506000134352', batch: 'ABC123', expiry: '2027-12-31', serial: 'SN-9' }, 2.5);
+    expect(line).toEqual({
+      price: 2.5,
+      quantity: 1,
+      properties: { gtin: '09506000134352', batch: 'ABC123', expiryDate: '2027-12-31', serialNumber: 'SN-9' },
+    });
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * GS1 barcode decoding.
+ *
+ * Scanners hand over the raw symbol as a string. Two kinds of GS1 code do not
+ * resolve by exact match against a variant barcode and are decoded here first:
+ *
+ *   Variable-measure EAN-13  — in-store labels from deli and produce scales,
+ *                              prefix 02 or 20–29, with the price or weight in
+ *                              the code (rules in `Gs1Settings.variableMeasure`)
+ *   GS1 element strings      — GS1 DataMatrix, GS1-128 and GS1 QR, a sequence of
+ *                              application identifiers (AIs): GTIN (01), batch
+ *                              (10), expiry (17), serial (21), net weight (310n),
+ *                              price (392n)
+ *
+ * `decodeBarcode()` returns the codes to look the product up by and what the
+ * code says about this one item; `scanLine()` turns that into the basket line.
+ *
+ * See: docs/specs/hardware/scanner.md §2.13
+ */
+
+import { multiplyMoney, roundMoney } from '../../utils/money';
+import { isMeasured, isSoldByWeight, measuredLineProperties, quantityFromWeight, SellingUnit } from '../product/unitOfMeasure';
+
+/** How one variable-measure prefix lays out its 13 digits */
+export interface VariableMeasureRule {
+  /** Two-digit prefix, `02` or `20`–`29` */
+  prefix: string;
+  /** The value is the line price, or the net weight in kg */
+  kind: 'price' | 'weight';
+  /** Digits of the item reference after the prefix */
+  itemDigits: number;
+  /** Digits of the value; 4 when the label has a price check digit before it */
+  valueDigits: number;
+  /** Implied decimal places of the value (2 for price, 3 for kg) */
+  decimals: number;
+}
+
+export interface Gs1Settings {
+  /** Decode GS1 codes before looking a barcode up */
+  enabled: boolean;
+  /**
+   * Printable character a keyboard-wedge scanner is programmed to send in
+   * place of the FNC1 / GS separator (e.g. `~`); empty when it sends GS itself
+   */
+  separator: string;
+  /** Refuse to sell items whose expiry date (AI 17) has passed */
+  blockExpired: boolean;
+  variableMeasure: VariableMeasureRule[];
+}
+
+const priceRule = (prefix: string): VariableMeasureRule => ({ prefix, kind: 'price', itemDigits: 5, valueDigits: 5, decimals: 2 });
+const weightRule = (prefix: string): VariableMeasureRule => ({ prefix, kind: 'weight', itemDigits: 5, valueDigits: 5, decimals: 3 });
+
+export const DEFAULT_GS1_SETTINGS: Gs1Settings = {
+  enabled: true,
+  separator: '',
+  blockExpired: true,
+  variableMeasure: [priceRule('02'), ...['20', '21', '22', '23', '24'].map(priceRule), ...['25', '26', '27', '28', '29'].map(weightRule)],
+};
+
+/** What a GS1 code says about the scanned item */
+export interface Gs1Scan {
+  /** The code as scanned */
+  raw: string;
+  /** Codes to look the product up by, most specific first */
+  lookupCodes: string[];
+  gtin?: string;
+  /** Price of this line, embedded in the code */
+  price?: number;
+  /** Net weight in kg, embedded in the code */
+  weight?: number;
+  batch?: string;
+  /** Expiry date, YYYY-MM-DD */
+  expiry?: string;
+  serial?: string;
+}
+
+/** Keys written to `BasketItem.properties` for a decoded scan */
+export const GS1_PROPERTY_KEYS = {
+  gtin: 'gtin',
+  batch: 'batch',
+  expiry: 'expiryDate',
+  serial: 'serialNumber',
+  weight: 'netWeightKg',
+} as const;
+
+const GS = String.fromCharCode(29);
+
+function stripLeadingGs(value: string): string {
+  let start = 0;
+  while (value[start] === GS) start++;
+  return value.slice(start);
+}
+
+/** Symbology identifiers for GS1 DataMatrix, GS1-128, GS1 QR and GS1 DataBar */
+const GS1_SYMBOLOGY_PREFIXES = [']d2', ']C1', ']Q3', ']e0'];
+
+/** AIs of fixed data length — the GS1 "predefined length" table, by the AI's first two digits */
+const FIXED_LENGTH: Record<string, number> = {
+  '00': 18,
+  '01': 14,
+  '02': 14,
+  '03': 14,
+  '04': 16,
+  '11': 6,
+  '12': 6,
+  '13': 6,
+  '14': 6,
+  '15': 6,
+  '16': 6,
+  '17': 6,
+  '18': 6,
+  '19': 6,
+  '20': 2,
+  '31': 6,
+  '32': 6,
+  '33': 6,
+  '34': 6,
+  '35': 6,
+  '36': 6,
+  '41': 13,
+};
+
+/** AIs whose code is four digits long (the last digit being a decimal point position for measures) */
+const FOUR_DIGIT_AI = /^(31|32|33|34|35|36|39|70|71|72|80|81|82)/;
+const THREE_DIGIT_AI = /^(23|24|25|40|41|42|43)/;
+
+/** GS1 mod-10 check digit of the digits before it */
+export function gs1CheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const d = Number(digits[digits.length - 1 - i]);
+    sum += i % 2 === 0 ? d * 3 : d;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+function hasValidCheckDigit(code: string): boolean {
+  return /^\d+$/.test(code) && gs1CheckDigit(code.slice(0, -1)) === Number(code[code.length - 1]);
+}
+
+/**
+ * Decode a scanned code. Returns null for an ordinary barcode, which is
+ * looked up as it is.
+ */
+export function decodeBarcode(raw: string, settings: Gs1Settings, today: Date = new Date()): Gs1Scan | null {
+  if (!settings.enabled) return null;
+  const code = settings.separator ? raw.split(settings.separator).join(GS) : raw;
+  return parseVariableMeasure(code, settings.variableMeasure) ?? parseElementString(code, today);
+}
+
+/** Decode an in-store EAN-13 with an embedded price or weight */
+export function parseVariableMeasure(code: string, rules: VariableMeasureRule[]): Gs1Scan | null {
+  if (code.length !== 13 || !hasValidCheckDigit(code)) return null;
+  const rule = rules.find(r => code.startsWith(r.prefix));
+  if (!rule) return null;
+
+  const itemEnd = rule.prefix.length + rule.itemDigits;
+  const valueStart = 12 - rule.valueDigits;
+  if (valueStart < itemEnd) return null;
+
+  const item = code.slice(rule.prefix.length, itemEnd);
+  const value = Number(code.slice(valueStart, 12)) / 10 ** rule.decimals;
+  // The catalog holds the label code with the value zeroed, or the item reference
+  const zeroed = code.slice(0, valueStart) + '0'.repeat(rule.valueDigits);
+  const base = zeroed + gs1CheckDigit(zeroed);
+
+  return {
+    raw: code,
+    lookupCodes: [base, rule.prefix + item, item],
+    ...(rule.kind === 'price' ? { price: roundMoney(value) } : { weight: value }),
+  };
+}
+
+/** Decode a GS1 element string (DataMatrix, GS1-128, QR or the bracketed human-readable form) */
+export function parseElementString(code: string, today: Date = new Date()): Gs1Scan | null {
+  const fields = splitElementString(code);
+  if (!fields) return null;
+
+  const scan: Gs1Scan = { raw: code, lookupCodes: [] };
+  for (const [ai, data] of fields) {
+    if (ai === '01' || ai === '02') {
+      if (!hasValidCheckDigit(data)) return null;
+      scan.gtin = data;
+    } else if (ai === '10') {
+      scan.batch = data;
+    } else if (ai === '21') {
+      scan.serial = data;
+    } else if (ai === '17') {
+      const expiry = parseGs1Date(data, today);
+      if (!expiry) return null;
+      scan.expiry = expiry;
+    } else if (/^310\d$/.test(ai)) {
+      scan.weight = Number(data) / 10 ** Number(ai[3]);
+    } else if (/^392\d$/.test(ai)) {
+      scan.price = roundMoney(Number(data) / 10 ** Number(ai[3]));
+    }
+  }
+  if (!scan.gtin) return null;
+
+  scan.lookupCodes = gtinLookupCodes(scan.gtin);
+  return scan;
+}
+
+/**
+ * Split into [AI, data] pairs, or null when the code is not a GS1 element
+ * string. Only codes marked as GS1 — a symbology identifier, a GS separator
+ * or the bracketed form — are split, so an ordinary Code 128 starting with
+ * `01` still looks up as it is.
+ */
+function splitElementString(code: string): Array<[string, string]> | null {
+  if (/^\(\d{2,4}\)/.test(code)) {
+    const fields: Array<[string, string]> = [];
+    const pattern = /\((\d{2,4})\)([^(]*)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(code))) fields.push([match[1], match[2].trim()]);
+    return fields;
+  }
+
+  const prefix = GS1_SYMBOLOGY_PREFIXES.find(p => code.startsWith(p));
+  if (!prefix && !code.includes(GS)) return null;
+
+  let rest = stripLeadingGs(prefix ? code.slice(prefix.length) : code);
+  const fields: Array<[string, string]> = [];
+  while (rest.length > 0) {
+    const aiLength = FOUR_DIGIT_AI.test(rest) ? 4 : THREE_DIGIT_AI.test(rest) ? 3 : 2;
+    const ai = rest.slice(0, aiLength);
+    if (!/^\d+$/.test(ai) || ai.length < aiLength) return null;
+    rest = rest.slice(aiLength);
+
+    const fixed = FIXED_LENGTH[ai.slice(0, 2)];
+    let data: string;
+    if (fixed !== undefined) {
+      data = rest.slice(0, fixed);
+      if (data.length < fixed) return null;
+      rest = rest.slice(fixed);
+    } else {
+      const end = rest.indexOf(GS);
+      data = end === -1 ? rest : rest.slice(0, end);
+      rest = end === -1 ? '' : rest.slice(end);
+    }
+    fields.push([ai, data]);
+    rest = stripLeadingGs(rest);
+  }
+  return fields.length > 0 ? fields : null;
+}
+
+/** A GTIN-14 as the catalog may hold it: GTIN-14, EAN-13, UPC-A, EAN-8 */
+export function gtinLookupCodes(gtin: string): string[] {
+  const codes = [gtin];
+  for (const length of [13, 12, 8]) {
+    const leading = gtin.slice(0, gtin.length - length);
+    if (/^0*$/.test(leading)) codes.push(gtin.slice(-length));
+  }
+  return codes;
+}
+
+/**
+ * YYMMDD to YYYY-MM-DD. The century is the one that puts the year within 49
+ * years before or 50 after today (GS1 General Specifications 7.12); day 00 is
+ * the last day of the month.
+ */
+export function parseGs1Date(yymmdd: string, today: Date = new Date()): string | null {
+  if (!/^\d{6}$/.test(yymmdd)) return null;
+  const yy = Number(yymmdd.slice(0, 2));
+  const month = Number(yymmdd.slice(2, 4));
+  let day = Number(yymmdd.slice(4, 6));
+  if (month < 1 || month > 12) return null;
+
+  const currentYear = today.getFullYear();
+  const diff = yy - (currentYear % 100);
+  const century = Math.floor(currentYear / 100) * 100 + (diff > 50 ? -100 : diff < -49 ? 100 : 0);
+  const year = century + yy;
+
+  const daysInMonth = new Date(year, month, 0).getDate();
+  if (day === 0) day = daysInMonth;
+  if (day > daysInMonth) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/** Today as YYYY-MM-DD, local time */
+function localDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/** Whether an expiry date (YYYY-MM-DD) has passed; the item can still be sold on the day itself */
+export function isExpired(expiry: string, today: Date = new Date()): boolean {
+  return expiry < localDate(today);
+}
+
+/** Basket lines whose recorded expiry date has passed */
+export function findExpiredLines<T extends { properties?: Record<string, string> }>(items: T[], today: Date = new Date()): T[] {
+  return items.filter(item => {
+    const expiry = item.properties?.[GS1_PROPERTY_KEYS.expiry];
+    return !!expiry && isExpired(expiry, today);
+  });
+}
+
+/**
+ * The basket line for a decoded scan of a product with this unit price: an
+ * embedded price replaces the line price. An embedded weight becomes the
+ * quantity of a product sold by weight; for a product sold each it prices the
+ * line per kg. Batch, expiry, serial and weight are kept in the line properties.
+ */
+export function scanLine(
+  scan: Gs1Scan,
+  unitPrice: number,
+  unit?: SellingUnit
+): { price: number; quantity: number; properties: Record<string, string> } {
+  const properties: Record<string, string> = {};
+  if (scan.gtin) properties[GS1_PROPERTY_KEYS.gtin] = scan.gtin;
+  if (scan.batch) properties[GS1_PROPERTY_KEYS.batch] = scan.batch;
+  if (scan.expiry) properties[GS1_PROPERTY_KEYS.expiry] = scan.expiry;
+  if (scan.serial) properties[GS1_PROPERTY_KEYS.serial] = scan.serial;
+  if (scan.weight !== undefined) properties[GS1_PROPERTY_KEYS.weight] = scan.weight.toFixed(3);
+
+  if (scan.price === undefined && scan.weight !== undefined && isMeasured(unit) && isSoldByWeight(unit)) {
+    const quantity = quantityFromWeight(scan.weight, unit) ?? 0;
+    return { price: unitPrice, quantity, properties: { ...properties, ...measuredLineProperties(unit) } };
+  }
+
+  const price = scan.price ?? (scan.weight !== undefined ? multiplyMoney(unitPrice, scan.weight) : unitPrice);
+  return { price, quantity: 1, properties };
+}
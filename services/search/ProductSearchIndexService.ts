@@ -0,0 +1,170 @@
+/**
+ * ProductSearchIndexService
+ *
+ * Owns the offline product search index: loads it from product_search_documents
+ * on first use, keeps it current as products are created, edited, deleted and
+ * synced, and refreshes the sales velocity used for ranking.
+ *
+ * Synonyms: key_value_store 'search.synonyms' (string[][])
+ *
+ * See: docs/specs/system/search.md §2.12
+ */
+
+import { LoggerFactory } from '../logger/LoggerFactory';
+import { keyValueRepository } from '../../repositories/KeyValueRepository';
+import { productSearchDocumentRepository } from '../../repositories/ProductSearchDocumentRepository';
+import { orderItemRepository } from '../../repositories/OrderItemRepository';
+import { syncEventBus } from '../instoreapi/sync/SyncEventBus';
+import { Product } from '../product/ProductServiceInterface';
+import { ECommercePlatform } from '../../utils/platforms';
+import { SearchOptions } from './SearchServiceInterface';
+import { IndexSearchResult, ProductSearchIndex } from './index/ProductSearchIndex';
+import { SearchDocument, toSearchDocument } from './index/searchDocument';
+
+const SYNONYMS_KEY = 'search.synonyms';
+
+/** Sales velocity is units sold per day over this window */
+const VELOCITY_WINDOW_DAYS = 30;
+const VELOCITY_REFRESH_MS = 60 * 60 * 1000;
+
+export class ProductSearchIndexService {
+  private static instance: ProductSearchIndexService;
+  private logger = LoggerFactory.getInstance().createLogger('ProductSearchIndexService');
+  private index = new ProductSearchIndex();
+  private loading: Promise<void> | null = null;
+  private velocityRefreshedAt = 0;
+  private unsubscribe: (() => void) | null = null;
+
+  private constructor() {}
+
+  static getInstance(): ProductSearchIndexService {
+    if (!ProductSearchIndexService.instance) {
+      ProductSearchIndexService.instance = new ProductSearchIndexService();
+    }
+    return ProductSearchIndexService.instance;
+  }
+
+  /** Follow product changes broadcast by the in-store server to other registers */
+  start(): void {
+    if (this.unsubscribe) return;
+    this.unsubscribe = syncEventBus.on('product:updated', event => {
+      this.applyProductEvent(event.payload).catch(err => {
+        this.logger.error({ message: 'Failed to index product update' }, err instanceof Error ? err : new Error(String(err)));
+      });
+    });
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<IndexSearchResult> {
+    await this.ensureLoaded();
+    if (Date.now() - this.velocityRefreshedAt > VELOCITY_REFRESH_MS) {
+      await this.refreshSalesVelocity();
+    }
+    return this.index.search(query, options);
+  }
+
+  /** Products whose SKU or barcode equals `code` */
+  async findByCode(code: string): Promise<SearchDocument[]> {
+    await this.ensureLoaded();
+    return this.index.findByCode(code);
+  }
+
+  /** Add or replace products in the index */
+  async indexProducts(products: Product[], platform: string): Promise<void> {
+    if (products.length === 0) return;
+    await this.ensureLoaded();
+    const documents = products.map(p => toSearchDocument(p, platform));
+    await productSearchDocumentRepository.upsertMany(
+      documents.map(d => ({ productId: d.id, platform: d.platform, document: JSON.stringify(d) }))
+    );
+    documents.forEach(d => this.index.upsert(d));
+  }
+
+  async removeProducts(productIds: string[]): Promise<void> {
+    if (productIds.length === 0) return;
+    await this.ensureLoaded();
+    await productSearchDocumentRepository.deleteMany(productIds);
+    productIds.forEach(id => this.index.remove(id));
+  }
+
+  /** Replace every product indexed for `platform`, after a full catalogue sync */
+  async replacePlatformProducts(products: Product[], platform: string): Promise<void> {
+    await this.ensureLoaded();
+    const keep = new Set(products.map(p => p.id));
+    const stale = this.index.idsForPlatform(platform).filter(id => !keep.has(id));
+    await this.removeProducts(stale);
+    await this.indexProducts(products, platform);
+  }
+
+  /** Index a catalogue loaded before the index existed (first run after upgrading) */
+  async seedIfEmpty(products: Product[], platform: string): Promise<void> {
+    await this.ensureLoaded();
+    if (this.index.size === 0 && products.length > 0) {
+      await this.indexProducts(products, platform);
+      this.logger.info(`Seeded search index with ${products.length} ${platform} products`);
+    }
+  }
+
+  async getSynonyms(): Promise<string[][]> {
+    return (await keyValueRepository.getObject<string[][]>(SYNONYMS_KEY)) ?? [];
+  }
+
+  async setSynonyms(groups: string[][]): Promise<void> {
+    const cleaned = groups.map(group => group.map(word => word.trim()).filter(Boolean)).filter(group => group.length > 1);
+    await keyValueRepository.setObject(SYNONYMS_KEY, cleaned);
+    this.index.setSynonyms(cleaned);
+  }
+
+  /** Reload units sold per day from local orders */
+  async refreshSalesVelocity(): Promise<void> {
+    const since = Date.now() - VELOCITY_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+    try {
+      const rows = await orderItemRepository.getUnitsSoldByProduct(since);
+      this.index.setSalesVelocity(new Map(rows.map(r => [r.product_id, r.units / VELOCITY_WINDOW_DAYS])));
+    } catch (err) {
+      this.logger.warn({ message: `Could not load sales velocity: ${err instanceof Error ? err.message : String(err)}` });
+    }
+    this.velocityRefreshedAt = Date.now();
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load().catch(err => {
+        this.loading = null;
+        throw err;
+      });
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    const rows = await productSearchDocumentRepository.findAll();
+    for (const row of rows) {
+      try {
+        this.index.upsert(JSON.parse(row.document) as SearchDocument);
+      } catch {
+        this.logger.warn({ message: `Skipping unreadable search document for product ${row.product_id}` });
+      }
+    }
+    this.index.setSynonyms(await this.getSynonyms());
+    await this.refreshSalesVelocity();
+    this.logger.info(`Search index loaded with ${this.index.size} products`);
+  }
+
+  /** payload from InstoreApiServer or a webhook receiver: { action: 'created' | 'updated', product, platform? } or { action: 'deleted', id } */
+  private async applyProductEvent(payload: unknown): Promise<void> {
+    const event = payload as { action?: string; product?: Product; id?: string; platform?: string };
+    if (event.action === 'deleted' && event.id) {
+      await this.removeProducts([event.id]);
+    } else if ((event.action === 'created' || event.action === 'updated') && event.product?.variants) {
+      // Register edits are local products; platform webhooks say where the product came from
+      await this.indexProducts([event.product], event.platform ?? ECommercePlatform.OFFLINE);
+    }
+  }
+}
+
+export const productSearchIndexService = ProductSearchIndexService.getInstance();
@@ -6,7 +6,6 @@ import { WooCommerceSearchService } from './platforms/WooCommerceSearchService';
 import { WixSearchService } from './platforms/WixSearchService';
 import { SyliusSearchService } from './platforms/SyliusSearchService';
 import { MagentoSearchService } from './platforms/MagentoSearchService';
-import { OfflineSearchService } from './platforms/OfflineSearchService';
 import { CommerceFullSearchService } from './platforms/CommerceFullSearchService';
 import { PlatformSearchConfig } from './platforms/PlatformSearchServiceInterface';
 
@@ -94,14 +93,8 @@ export class SearchServiceFactory {
       platformServices.push(new MagentoSearchService(magentoConfig));
     }
 
-    // PrestaShop and Squarespace use the offline search service (no dedicated search implementation)
-    if (platformConfigs.prestashop) {
-      platformServices.push(new OfflineSearchService());
-    }
-
-    if (platformConfigs.squarespace) {
-      platformServices.push(new OfflineSearchService());
-    }
+    // PrestaShop, Squarespace and Offline have no platform search service: their
+    // products are found through the local search index the composite always queries
 
     // Create CommerceFull service if config is provided
     if (platformConfigs.commercefull) {
@@ -109,11 +102,6 @@ export class SearchServiceFactory {
       platformServices.push(new CommerceFullSearchService(commerceFullConfig));
     }
 
-    // Create Offline service if config is provided
-    if (platformConfigs.offline) {
-      platformServices.push(new OfflineSearchService());
-    }
-
     // Create a new composite service with configured platforms
     this.service = new CompositeSearchService(platformServices);
     this.service.initialize();
@@ -199,7 +187,7 @@ export class SearchServiceFactory {
     }
 
     // PrestaShop and Squarespace don't have dedicated search services;
-    // they use the offline search service which searches local product data.
+    // the composite finds their products through the local search index.
 
     return platformServices;
   }
@@ -68,6 +68,23 @@ export interface SearchResult {
   localResults: SearchProduct[];
   ecommerceResults: SearchProduct[];
   categories: string[];
+  /** Counts for the filter panel, from the local search index (not reported by platform APIs) */
+  facets?: SearchFacets;
+}
+
+/**
+ * Facet counts over the products matching a query. Each facet ignores its own
+ * filter, so the category counts show what selecting another category would return.
+ */
+export interface SearchFacets {
+  categories: FacetCount[];
+  inStock: number;
+  outOfStock: number;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
 }
 
 /**
@@ -0,0 +1,158 @@
+import { ProductSearchIndex } from './ProductSearchIndex';
+import { SearchDocument, toSearchDocument } from './searchDocument';
+import { codeTerms, editDistance, tokenize } from './searchText';
+
+function doc(id: string, name: string, extra: Partial<SearchDocument> = {}): SearchDocument {
+  return { id, platform: 'offline', name, tags: [], options: [], skus: [], barcodes: [], price: 1, quantity: 10, ...extra };
+}
+
+function ids(index: ProductSearchIndex, query: string, options = {}): string[] {
+  return index.search(query, options).hits.map(hit => hit.document.id);
+}
+
+describe('searchText', () => {
+  it('normalises case and diacritics and splits on punctuation', () => {
+    expect(tokenize('Crème Brûlée – 2×100g')).toEqual(['creme', 'brulee', '2', '100g']);
+  });
+
+  it('indexes codes by their parts and without separators', () => {
+    expect(codeTerms('TS-RED-M')).toEqual(['ts', 'red', 'm', 'tsredm']);
+    expect(codeTerms('4006381333931')).toEqual(['4006381333931']);
+  });
+
+  it('counts adjacent transpositions as one edit and stops past the limit', () => {
+    expect(editDistance('milk', 'mlik', 2)).toBe(1);
+    expect(editDistance('coffee', 'cofee', 1)).toBe(1);
+    expect(editDistance('banana', 'apple', 2)).toBe(3);
+  });
+});
+
+describe('ProductSearchIndex', () => {
+  let index: ProductSearchIndex;
+
+  beforeEach(() => {
+    index = new ProductSearchIndex();
+    index.upsert(doc('oat', 'Organic Oat Milk 1L', { category: 'Dairy Alternatives', skus: ['OAT-1L'], barcodes: ['4006381333931'] }));
+    index.upsert(doc('whole', 'Whole Milk 2L', { category: 'Dairy', skus: ['MILK-2L'], quantity: 0 }));
+    index.upsert(doc('tee', 'Classic Tee', { category: 'Clothing', options: ['Size', 'XL', 'Colour', 'Red'], price: 15 }));
+    index.upsert(doc('cola', 'Cola 330ml', { category: 'Drinks', description: 'Fizzy soft drink', price: 0.9 }));
+  });
+
+  it('requires every query term to match', () => {
+    expect(ids(index, 'oat milk')).toEqual(['oat']);
+    expect(ids(index, 'milk')).toEqual(expect.arrayContaining(['oat', 'whole']));
+    expect(ids(index, 'oat juice')).toEqual([]);
+  });
+
+  it('matches prefixes while typing', () => {
+    expect(ids(index, 'organ')).toEqual(['oat']);
+    expect(ids(index, 'cla te')).toEqual(['tee']);
+  });
+
+  it('tolerates typos', () => {
+    expect(ids(index, 'mlik')).toEqual(expect.arrayContaining(['oat', 'whole']));
+    expect(ids(index, 'organik')).toEqual(['oat']);
+  });
+
+  it('ranks exact matches above fuzzy ones', () => {
+    index.upsert(doc('silk', 'Silk Scarf'));
+    // "whole" also matches its SKU, which outweighs a name match
+    expect(ids(index, 'milk')).toEqual(['whole', 'oat', 'silk']);
+  });
+
+  it('searches variant options, SKUs and barcodes', () => {
+    expect(ids(index, 'red xl')).toEqual(['tee']);
+    expect(ids(index, 'oat1l')).toEqual(['oat']);
+    expect(ids(index, '4006381333931')).toEqual(['oat']);
+  });
+
+  it('restricts matching to the requested field', () => {
+    expect(ids(index, 'milk', { searchField: 'sku' })).toEqual(['whole']);
+    expect(ids(index, 'oat', { searchField: 'name' })).toEqual(['oat']);
+  });
+
+  it('expands synonyms', () => {
+    expect(ids(index, 'soda')).toEqual([]);
+    index.setSynonyms([['soda', 'pop', 'cola']]);
+    expect(ids(index, 'soda')).toEqual(['cola']);
+  });
+
+  it('boosts products that sell faster', () => {
+    expect(ids(index, 'dairy')).toEqual(['oat', 'whole']);
+    index.setSalesVelocity(new Map([['whole', 25]]));
+    expect(ids(index, 'dairy')).toEqual(['whole', 'oat']);
+  });
+
+  it('lists best sellers first for an empty query', () => {
+    index.setSalesVelocity(new Map([['cola', 40]]));
+    expect(ids(index, '')[0]).toBe('cola');
+    expect(index.search('').total).toBe(4);
+  });
+
+  it('filters by category, price and stock', () => {
+    expect(ids(index, 'milk', { categories: ['Dairy'] })).toEqual(['whole']);
+    expect(ids(index, 'milk', { inStock: true })).toEqual(['oat']);
+    expect(ids(index, '', { minPrice: 1, maxPrice: 10 })).toEqual(expect.arrayContaining(['oat', 'whole']));
+    expect(ids(index, '', { minPrice: 1, maxPrice: 10 })).toHaveLength(2);
+  });
+
+  it('counts facets ignoring their own filter', () => {
+    const { facets } = index.search('milk', { categories: ['Dairy'], inStock: true });
+
+    expect(facets.categories).toEqual([{ value: 'Dairy Alternatives', count: 1 }]);
+    expect(facets).toMatchObject({ inStock: 0, outOfStock: 1 });
+  });
+
+  it('pages results', () => {
+    const result = index.search('', { limit: 3, page: 2 });
+    expect(result.total).toBe(4);
+    expect(result.hits).toHaveLength(1);
+  });
+
+  it('updates and removes documents incrementally', () => {
+    index.upsert(doc('oat', 'Barista Oat Drink', { skus: ['OAT-B'] }));
+    expect(ids(index, 'organic')).toEqual([]);
+    expect(ids(index, 'barista')).toEqual(['oat']);
+    expect(index.findByCode('oat-1l')).toEqual([]);
+
+    expect(index.remove('oat')).toBe(true);
+    expect(ids(index, 'oat')).toEqual([]);
+    expect(index.findByCode('OAT-B')).toEqual([]);
+    expect(index.size).toBe(3);
+  });
+
+  it('finds products by exact SKU or barcode', () => {
+    expect(index.findByCode('4006381333931').map(d => d.id)).toEqual(['oat']);
+    expect(index.findByCode('milk-2l').map(d => d.id)).toEqual(['whole']);
+    expect(index.findByCode('MILK')).toEqual([]);
+  });
+});
+
+describe('toSearchDocument', () => {
+  it('collects options, codes and stock across variants', () => {
+    const document = toSearchDocument(
+      {
+        id: 'p1',
+        title: 'Classic Tee',
+        productType: 'Clothing',
+        options: [{ name: 'Size', values: ['M', 'L'] }],
+        variants: [
+          { id: 'v1', title: 'M', sku: 'TEE-M', barcode: '036000291452', price: 15, inventoryQuantity: 3 },
+          { id: 'v2', title: 'L', sku: 'TEE-L', price: 16, inventoryQuantity: -2 },
+        ],
+      },
+      'shopify'
+    );
+
+    expect(document).toMatchObject({
+      name: 'Classic Tee',
+      category: 'Clothing',
+      options: ['Size', 'M', 'L'],
+      skus: ['TEE-M', 'TEE-L'],
+      barcodes: ['036000291452'],
+      price: 15,
+      quantity: 3,
+      platform: 'shopify',
+    });
+  });
+});
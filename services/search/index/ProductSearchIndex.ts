@@ -0,0 +1,346 @@
+import { FacetCount, SearchFacets, SearchOptions } from '../SearchServiceInterface';
+import { SearchDocument } from './searchDocument';
+import { codeTerms, editDistance, normalizeText, tokenize } from './searchText';
+
+/** Bit flags for the document fields a term occurs in */
+const FIELD = {
+  name: 1,
+  sku: 2,
+  barcode: 4,
+  category: 8,
+  options: 16,
+  tags: 32,
+  description: 64,
+} as const;
+
+const ALL_FIELDS = Object.values(FIELD).reduce((mask, bit) => mask | bit, 0);
+
+/** Relative weight of a match in each field */
+const FIELD_WEIGHTS: [number, number][] = [
+  [FIELD.sku, 8],
+  [FIELD.barcode, 8],
+  [FIELD.name, 5],
+  [FIELD.category, 3],
+  [FIELD.options, 2],
+  [FIELD.tags, 2],
+  [FIELD.description, 1],
+];
+
+const SEARCH_FIELD_MASKS: Record<NonNullable<SearchOptions['searchField']>, number> = {
+  all: ALL_FIELDS,
+  name: FIELD.name,
+  sku: FIELD.sku,
+  barcode: FIELD.barcode,
+};
+
+/** Match quality multipliers: an exact term beats a synonym, a prefix and a typo, in that order */
+const EXACT = 1;
+const SYNONYM = 0.9;
+const PREFIX = 0.75;
+const FUZZY = [0, 0.55, 0.4];
+
+/** Shortest query term expanded by prefix, and by one and two typos */
+const MIN_PREFIX_LENGTH = 2;
+const MIN_FUZZY_LENGTH = 4;
+const MIN_TWO_TYPO_LENGTH = 8;
+
+/** Score multiplier per log-unit of daily sales: 10 units/day ranks a match ~1.6× higher */
+const VELOCITY_BOOST = 0.25;
+
+export interface SearchHit {
+  document: SearchDocument;
+  score: number;
+}
+
+export interface IndexSearchResult {
+  hits: SearchHit[];
+  total: number;
+  facets: SearchFacets;
+}
+
+/**
+ * In-memory inverted index over product search documents.
+ *
+ * Every query term must match some field of a product, either exactly, as a
+ * synonym, as a prefix of an indexed term (so results appear while typing) or
+ * within one or two typos. Matches are scored by field weight and term rarity,
+ * then boosted by the product's sales velocity.
+ */
+export class ProductSearchIndex {
+  private documents = new Map<string, SearchDocument>();
+  /** term → (product id → FIELD mask) */
+  private postings = new Map<string, Map<string, number>>();
+  private documentTerms = new Map<string, string[]>();
+  private termsByLength = new Map<number, Set<string>>();
+  /** Sorted term list for prefix lookups; rebuilt lazily after changes */
+  private sortedTerms: string[] | null = null;
+  /** Exact SKU and barcode (normalised) → product ids */
+  private codes = new Map<string, Set<string>>();
+  private synonyms = new Map<string, string[]>();
+  /** Product id → units sold per day */
+  private velocity = new Map<string, number>();
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  get(id: string): SearchDocument | undefined {
+    return this.documents.get(id);
+  }
+
+  idsForPlatform(platform: string): string[] {
+    return [...this.documents.values()].filter(d => d.platform === platform).map(d => d.id);
+  }
+
+  /** Add a document, replacing any previous version of the same product */
+  upsert(document: SearchDocument): void {
+    this.remove(document.id);
+    this.documents.set(document.id, document);
+
+    const fields = new Map<string, number>();
+    const add = (terms: string[], field: number) => {
+      for (const term of terms) fields.set(term, (fields.get(term) ?? 0) | field);
+    };
+    add(tokenize(document.name), FIELD.name);
+    add(document.skus.flatMap(codeTerms), FIELD.sku);
+    add(document.barcodes.flatMap(codeTerms), FIELD.barcode);
+    add(tokenize(document.category), FIELD.category);
+    add(document.options.flatMap(tokenize), FIELD.options);
+    add([...document.tags, document.vendor ?? ''].flatMap(tokenize), FIELD.tags);
+    add(tokenize(document.description), FIELD.description);
+
+    for (const [term, mask] of fields) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+        this.addTerm(term);
+      }
+      posting.set(document.id, mask);
+    }
+    this.documentTerms.set(document.id, [...fields.keys()]);
+
+    for (const code of [...document.skus, ...document.barcodes]) {
+      const key = normalizeText(code.trim());
+      if (!this.codes.has(key)) this.codes.set(key, new Set());
+      this.codes.get(key)!.add(document.id);
+    }
+  }
+
+  remove(id: string): boolean {
+    const document = this.documents.get(id);
+    if (!document) return false;
+
+    for (const term of this.documentTerms.get(id) ?? []) {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting && posting.size === 0) {
+        this.postings.delete(term);
+        this.termsByLength.get(term.length)?.delete(term);
+        this.sortedTerms = null;
+      }
+    }
+    for (const code of [...document.skus, ...document.barcodes]) {
+      const key = normalizeText(code.trim());
+      const ids = this.codes.get(key);
+      ids?.delete(id);
+      if (ids && ids.size === 0) this.codes.delete(key);
+    }
+
+    this.documentTerms.delete(id);
+    this.documents.delete(id);
+    return true;
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.documentTerms.clear();
+    this.termsByLength.clear();
+    this.codes.clear();
+    this.sortedTerms = null;
+  }
+
+  /**
+   * Replace the synonym groups. Each group lists interchangeable single words,
+   * e.g. ["soda", "pop", "fizzy"]; a query for any of them matches all.
+   */
+  setSynonyms(groups: string[][]): void {
+    this.synonyms.clear();
+    for (const group of groups) {
+      const terms = [...new Set(group.flatMap(word => tokenize(word).slice(0, 1)))];
+      for (const term of terms) {
+        const others = terms.filter(t => t !== term);
+        this.synonyms.set(term, [...new Set([...(this.synonyms.get(term) ?? []), ...others])]);
+      }
+    }
+  }
+
+  /** Replace the sales velocity (units sold per day) used to boost ranking */
+  setSalesVelocity(unitsPerDay: Map<string, number>): void {
+    this.velocity = new Map(unitsPerDay);
+  }
+
+  /** Products whose SKU or barcode equals `code` exactly (ignoring case) */
+  findByCode(code: string): SearchDocument[] {
+    const ids = this.codes.get(normalizeText(code.trim()));
+    return ids ? [...ids].map(id => this.documents.get(id)!).filter(Boolean) : [];
+  }
+
+  /**
+   * Rank products for `query`, apply the options' filters and page, and count
+   * facets. An empty query lists every product, best sellers first.
+   */
+  search(query: string, options: SearchOptions = {}): IndexSearchResult {
+    const fieldMask = SEARCH_FIELD_MASKS[options.searchField ?? 'all'];
+    const terms = options.searchField === 'sku' || options.searchField === 'barcode' ? codeTerms(query) : tokenize(query);
+
+    const scores = terms.length > 0 ? this.match(terms, fieldMask) : this.matchAll();
+
+    const categories = options.categories?.length ? new Set(options.categories) : null;
+    const inPriceRange = (d: SearchDocument) =>
+      (options.minPrice === undefined || d.price >= options.minPrice) && (options.maxPrice === undefined || d.price <= options.maxPrice);
+    const inCategory = (d: SearchDocument) => !categories || (d.category !== undefined && categories.has(d.category));
+    const inStock = (d: SearchDocument) => !options.inStock || d.quantity > 0;
+
+    const hits: SearchHit[] = [];
+    const categoryCounts = new Map<string, number>();
+    let stocked = 0;
+    let unstocked = 0;
+
+    for (const [id, score] of scores) {
+      const document = this.documents.get(id)!;
+      if (!inPriceRange(document)) continue;
+
+      if (inStock(document) && document.category) {
+        categoryCounts.set(document.category, (categoryCounts.get(document.category) ?? 0) + 1);
+      }
+      if (inCategory(document)) {
+        if (document.quantity > 0) stocked++;
+        else unstocked++;
+      }
+      if (inCategory(document) && inStock(document)) {
+        hits.push({ document, score: score * (1 + VELOCITY_BOOST * Math.log1p(this.velocity.get(id) ?? 0)) });
+      }
+    }
+
+    hits.sort((a, b) => b.score - a.score || a.document.name.localeCompare(b.document.name));
+
+    const limit = options.limit ?? 50;
+    const page = options.page ?? 1;
+    const facetCategories: FacetCount[] = [...categoryCounts]
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+
+    return {
+      hits: hits.slice((page - 1) * limit, page * limit),
+      total: hits.length,
+      facets: { categories: facetCategories, inStock: stocked, outOfStock: unstocked },
+    };
+  }
+
+  /** Browse order for an empty query: every product scored by sales alone */
+  private matchAll(): Map<string, number> {
+    const scores = new Map<string, number>();
+    for (const id of this.documents.keys()) scores.set(id, 1);
+    return scores;
+  }
+
+  /** Score products containing every query term; each term contributes its best match */
+  private match(queryTerms: string[], fieldMask: number): Map<string, number> {
+    let scores: Map<string, number> | null = null;
+
+    for (const queryTerm of queryTerms) {
+      const termScores = new Map<string, number>();
+      for (const [term, quality] of this.expand(queryTerm)) {
+        const posting = this.postings.get(term)!;
+        const idf = Math.log(1 + this.documents.size / posting.size);
+        for (const [id, mask] of posting) {
+          const weight = fieldWeight(mask & fieldMask);
+          if (weight === 0) continue;
+          const score = quality * weight * idf;
+          if (score > (termScores.get(id) ?? 0)) termScores.set(id, score);
+        }
+      }
+
+      if (scores === null) {
+        scores = termScores;
+      } else {
+        const previous: Map<string, number> = scores;
+        scores = new Map();
+        for (const [id, score] of termScores) {
+          const sofar = previous.get(id);
+          if (sofar !== undefined) scores.set(id, sofar + score);
+        }
+      }
+      if (scores.size === 0) break;
+    }
+
+    return scores ?? new Map();
+  }
+
+  /** Indexed terms matching a query term, with the best match quality for each */
+  private expand(queryTerm: string): Map<string, number> {
+    const matches = new Map<string, number>();
+    const consider = (term: string, quality: number) => {
+      if (quality > (matches.get(term) ?? 0)) matches.set(term, quality);
+    };
+
+    if (this.postings.has(queryTerm)) consider(queryTerm, EXACT);
+    for (const synonym of this.synonyms.get(queryTerm) ?? []) {
+      if (this.postings.has(synonym)) consider(synonym, SYNONYM);
+    }
+
+    if (queryTerm.length >= MIN_PREFIX_LENGTH) {
+      const terms = this.getSortedTerms();
+      for (let i = lowerBound(terms, queryTerm); i < terms.length && terms[i].startsWith(queryTerm); i++) {
+        if (terms[i] !== queryTerm) consider(terms[i], PREFIX);
+      }
+    }
+
+    if (queryTerm.length >= MIN_FUZZY_LENGTH) {
+      const maxEdits = queryTerm.length >= MIN_TWO_TYPO_LENGTH ? 2 : 1;
+      for (let length = queryTerm.length - maxEdits; length <= queryTerm.length + maxEdits; length++) {
+        for (const term of this.termsByLength.get(length) ?? []) {
+          const distance = editDistance(queryTerm, term, maxEdits);
+          if (distance > 0 && distance <= maxEdits) consider(term, FUZZY[distance]);
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  private addTerm(term: string): void {
+    if (!this.termsByLength.has(term.length)) this.termsByLength.set(term.length, new Set());
+    this.termsByLength.get(term.length)!.add(term);
+    this.sortedTerms = null;
+  }
+
+  private getSortedTerms(): string[] {
+    if (!this.sortedTerms) {
+      this.sortedTerms = [...this.postings.keys()].sort();
+    }
+    return this.sortedTerms;
+  }
+}
+
+/** Weight of the highest-weighted field in `mask`, or 0 */
+function fieldWeight(mask: number): number {
+  for (const [field, weight] of FIELD_WEIGHTS) {
+    if (mask & field) return weight;
+  }
+  return 0;
+}
+
+/** Index of the first element of sorted `terms` not less than `value` */
+function lowerBound(terms: string[], value: string): number {
+  let low = 0;
+  let high = terms.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (terms[mid] < value) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
@@ -0,0 +1,70 @@
+import { Product } from '../../product/ProductServiceInterface';
+import { SearchProduct } from '../SearchServiceInterface';
+
+/**
+ * The searchable projection of a product, as stored in product_search_documents
+ * and held by ProductSearchIndex.
+ */
+export interface SearchDocument {
+  id: string;
+  /** Platform the product was synced from (ECommercePlatform value) */
+  platform: string;
+  name: string;
+  description?: string;
+  category?: string;
+  vendor?: string;
+  tags: string[];
+  /** Option names and values across the product and its variants, e.g. "Size", "XL", "Red" */
+  options: string[];
+  skus: string[];
+  barcodes: string[];
+  /** Price of the first variant, as shown on the product tile */
+  price: number;
+  /** Stock across all variants */
+  quantity: number;
+  imageUrl?: string;
+}
+
+function unique(values: (string | undefined)[]): string[] {
+  return [...new Set(values.map(v => v?.trim()).filter((v): v is string => !!v))];
+}
+
+export function toSearchDocument(product: Product, platform: string): SearchDocument {
+  const variants = product.variants ?? [];
+  return {
+    id: product.id,
+    platform,
+    name: product.title,
+    description: product.description || undefined,
+    category: product.productType || undefined,
+    vendor: product.vendor || undefined,
+    tags: unique(product.tags ?? []),
+    options: unique([
+      ...(product.options ?? []).flatMap(o => [o.name, ...o.values]),
+      ...variants.flatMap(v => v.options ?? []),
+      ...variants.map(v => (v.title && v.title !== 'Default' && v.title !== 'Default Title' ? v.title : undefined)),
+    ]),
+    skus: unique(variants.map(v => v.sku)),
+    barcodes: unique(variants.map(v => v.barcode)),
+    price: variants[0]?.price ?? 0,
+    quantity: variants.reduce((sum, v) => sum + Math.max(0, v.inventoryQuantity || 0), 0),
+    imageUrl: product.images?.[0]?.url,
+  };
+}
+
+export function toSearchProduct(document: SearchDocument): SearchProduct {
+  return {
+    id: document.id,
+    name: document.name,
+    description: document.description,
+    price: document.price,
+    imageUrl: document.imageUrl,
+    category: document.category,
+    source: 'local',
+    inStock: document.quantity > 0,
+    quantity: document.quantity,
+    sku: document.skus[0],
+    barcode: document.barcodes[0],
+    originalProduct: document,
+  };
+}
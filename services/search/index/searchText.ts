@@ -0,0 +1,78 @@
+/** Non-ASCII punctuation that separates words; other non-ASCII characters are treated as letters */
+const UNICODE_SEPARATORS = new Set(['–', '—', '‘', '’', '‚', '“', '”', '„', '…', '·', '•', '×', '«', '»', '¡', '¿', '°', '\u00a0']);
+
+/** Lower-case and strip diacritics so "Café" and "cafe" index to the same term */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+function isWordChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  if (code < 128) {
+    return (code >= 48 && code <= 57) || (code >= 97 && code <= 122);
+  }
+  return !UNICODE_SEPARATORS.has(char);
+}
+
+/** Split text into normalised search terms */
+export function tokenize(text: string | undefined | null): string[] {
+  if (!text) return [];
+  const terms: string[] = [];
+  let current = '';
+  for (const char of normalizeText(text)) {
+    if (isWordChar(char)) {
+      current += char;
+    } else if (current) {
+      terms.push(current);
+      current = '';
+    }
+  }
+  if (current) terms.push(current);
+  return terms;
+}
+
+/**
+ * Terms for a SKU or barcode: its parts plus the whole code with separators
+ * removed, so "TS-RED-M", "ts red m" and "tsredm" all find it.
+ */
+export function codeTerms(code: string | undefined | null): string[] {
+  const parts = tokenize(code);
+  if (parts.length > 1) {
+    parts.push(parts.join(''));
+  }
+  return parts;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+ * between `a` and `b`, or `maxDistance + 1` as soon as it is known to exceed `maxDistance`.
+ */
+export function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+  if (a === b) return 0;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return Math.min(previous[b.length], maxDistance + 1);
+}
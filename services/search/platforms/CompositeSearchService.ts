@@ -1,10 +1,14 @@
-import { SearchServiceInterface, SearchOptions, SearchResult } from '../SearchServiceInterface';
+import { SearchServiceInterface, SearchOptions, SearchResult, SearchProduct } from '../SearchServiceInterface';
 import { PlatformSearchServiceInterface } from './PlatformSearchServiceInterface';
 import { LoggerFactory } from '../../logger/LoggerFactory';
+import { productSearchIndexService } from '../ProductSearchIndexService';
+import { IndexSearchResult } from '../index/ProductSearchIndex';
+import { toSearchProduct } from '../index/searchDocument';
 
 /**
  * Composite search service that implements the search service interface
- * by delegating to platform-specific implementations
+ * by combining the offline search index (local results) with
+ * platform-specific implementations (ecommerce results)
  */
 export class CompositeSearchService implements SearchServiceInterface {
   private logger = LoggerFactory.getInstance().createLogger('CompositeSearchService');
@@ -23,15 +27,17 @@ export class CompositeSearchService implements SearchServiceInterface {
    */
   async initialize(): Promise<boolean> {
     if (this.platformServices.length === 0) {
-      this.logger.warn({ message: 'No platform search services provided' });
-      return false;
+      this.logger.info({ message: 'No platform search services provided; searching the local index only' });
     }
 
     // Initialize all platform services
     const initResults = await Promise.all(this.platformServices.map(service => service.initialize()));
+    if (this.platformServices.length > 0 && !initResults.some(result => result === true)) {
+      this.logger.warn({ message: 'No platform search service initialized; searching the local index only' });
+    }
 
-    // Check if at least one service initialized successfully
-    this.initialized = initResults.some(result => result === true);
+    // The local index needs no connection, so search is available even when every platform is down
+    this.initialized = true;
 
     return this.initialized;
   }
@@ -44,7 +50,7 @@ export class CompositeSearchService implements SearchServiceInterface {
   }
 
   /**
-   * Search for products across all initialized platform services
+   * Search the local index and all initialized platform services
    */
   async searchProducts(query: string, options: SearchOptions = {}): Promise<SearchResult> {
     if (!this.isInitialized()) {
@@ -54,17 +60,7 @@ export class CompositeSearchService implements SearchServiceInterface {
     this.addToSearchHistory(query);
 
     // Get initialized platform services
-    const activeServices = this.platformServices.filter(service => service.isInitialized());
-
-    if (activeServices.length === 0) {
-      return {
-        query,
-        totalResults: 0,
-        localResults: [],
-        ecommerceResults: [],
-        categories: [],
-      };
-    }
+    const activeServices = options.includeEcommerce === false ? [] : this.platformServices.filter(service => service.isInitialized());
 
     // Route barcode searches through the dedicated searchByBarcode method when available
     const searchPromises = activeServices.map(service =>
@@ -74,13 +70,16 @@ export class CompositeSearchService implements SearchServiceInterface {
     );
 
     // Wait for all searches to complete
-    const allResults = await Promise.all(searchPromises);
+    const [local, allResults] = await Promise.all([
+      options.includeLocal === false ? Promise.resolve(null) : this.searchLocalIndex(query, options),
+      Promise.all(searchPromises),
+    ]);
 
-    // Flatten all product results
-    const ecommerceResults = allResults.flat();
+    const localResults = local ? local.hits.map(hit => toSearchProduct(hit.document)) : [];
+    const ecommerceResults = this.withoutLocalDuplicates(allResults.flat(), localResults);
 
     // Extract unique categories from results
-    const allCategories = new Set<string>();
+    const allCategories = new Set<string>(local?.facets.categories.map(c => c.value));
     ecommerceResults.forEach(product => {
       if (product.category) {
         allCategories.add(product.category);
@@ -89,22 +88,29 @@ export class CompositeSearchService implements SearchServiceInterface {
 
     return {
       query,
-      totalResults: ecommerceResults.length,
-      localResults: [], // Empty as we're only using e-commerce
+      totalResults: (local?.total ?? 0) + ecommerceResults.length,
+      localResults,
       ecommerceResults,
       categories: Array.from(allCategories),
+      facets: local?.facets,
     };
   }
 
   /**
-   * Search for a product by exact barcode across all initialized platform services.
-   * Calls each platform's dedicated searchByBarcode (or falls back to searchPlatformProducts).
+   * Search for a product by exact barcode. A match in the local index is
+   * returned straight away, so scanning works offline; otherwise each
+   * platform's dedicated searchByBarcode (or searchPlatformProducts) is asked.
    */
   async searchByBarcode(barcode: string): Promise<SearchResult> {
     if (!this.isInitialized()) {
       throw new Error('Search service is not initialized');
     }
 
+    const localResults = await this.findLocalByCode(barcode);
+    if (localResults.length > 0) {
+      return { query: barcode, totalResults: localResults.length, localResults, ecommerceResults: [], categories: [] };
+    }
+
     const activeServices = this.platformServices.filter(service => service.isInitialized());
     const results = await Promise.all(
       activeServices.map(service =>
@@ -124,6 +130,31 @@ export class CompositeSearchService implements SearchServiceInterface {
     };
   }
 
+  /** Search the offline index; a failure leaves the platform results to stand alone */
+  private async searchLocalIndex(query: string, options: SearchOptions): Promise<IndexSearchResult | null> {
+    try {
+      return await productSearchIndexService.search(query, options);
+    } catch (error) {
+      this.logger.error({ message: 'Local search index failed' }, error instanceof Error ? error : new Error(String(error)));
+      return null;
+    }
+  }
+
+  private async findLocalByCode(code: string): Promise<SearchProduct[]> {
+    try {
+      return (await productSearchIndexService.findByCode(code)).map(toSearchProduct);
+    } catch (error) {
+      this.logger.error({ message: 'Local barcode lookup failed' }, error instanceof Error ? error : new Error(String(error)));
+      return [];
+    }
+  }
+
+  /** Drop platform results for products the local index already returned */
+  private withoutLocalDuplicates(ecommerceResults: SearchProduct[], localResults: SearchProduct[]): SearchProduct[] {
+    const localIds = new Set(localResults.map(p => p.id));
+    return ecommerceResults.filter(p => !localIds.has(p.id));
+  }
+
   /**
    * Get search history for the current session
    */
@@ -1,14 +1,14 @@
-import { SearchServiceInterface, SearchOptions, SearchResult, SearchProduct } from '../SearchServiceInterface';
+import { SearchServiceInterface, SearchOptions, SearchResult } from '../SearchServiceInterface';
 import { LoggerFactory } from '../../logger/LoggerFactory';
 import { keyValueRepository } from '../../../repositories/KeyValueRepository';
-import { ProductServiceFactory } from '../../product/ProductServiceFactory';
-import { ECommercePlatform } from '../../../utils/platforms';
+import { productSearchIndexService } from '../ProductSearchIndexService';
+import { toSearchProduct } from '../index/searchDocument';
 
 const SEARCH_HISTORY_KEY = 'offline_search_history';
 
 /**
  * Offline search service for local-first POS operation
- * Searches through locally stored products only
+ * Searches locally stored products through the offline search index
  */
 export class OfflineSearchService implements SearchServiceInterface {
   private initialized: boolean = false;
@@ -48,7 +48,7 @@ export class OfflineSearchService implements SearchServiceInterface {
   }
 
   /**
-   * Search for products in local storage
+   * Search local products through the offline search index
    */
   async searchProducts(query: string, options?: SearchOptions): Promise<SearchResult> {
     if (!this.initialized) {
@@ -61,41 +61,15 @@ export class OfflineSearchService implements SearchServiceInterface {
     }
 
     try {
-      const productService = ProductServiceFactory.getInstance().getService(ECommercePlatform.OFFLINE);
-      const limit = options?.limit || 50;
-      const page = options?.page || 1;
-
-      const localResults = await productService.getProducts({
-        search: trimmedQuery,
-        category: options?.categories?.[0],
-        limit,
-        page,
-        includeOutOfStock: !options?.inStock,
-      });
-
-      const searchProducts: SearchProduct[] = localResults.products.map(product => ({
-        id: product.id,
-        name: product.title,
-        description: product.description,
-        price: product.variants[0]?.price || 0,
-        imageUrl: product.images?.[0]?.url,
-        category: product.productType,
-        source: 'local',
-        inStock: (product.variants[0]?.inventoryQuantity || 0) > 0,
-        quantity: product.variants[0]?.inventoryQuantity,
-        sku: product.variants[0]?.sku,
-        barcode: product.variants[0]?.barcode,
-        originalProduct: product,
-      }));
-
-      const categories = [...new Set(localResults.products.map(p => p.productType).filter(Boolean))] as string[];
+      const result = await productSearchIndexService.search(trimmedQuery, options);
 
       return {
         query: trimmedQuery,
-        totalResults: localResults.pagination.totalItems,
-        localResults: searchProducts,
+        totalResults: result.total,
+        localResults: result.hits.map(hit => toSearchProduct(hit.document)),
         ecommerceResults: [],
-        categories,
+        categories: result.facets.categories.map(c => c.value),
+        facets: result.facets,
       };
     } catch (error) {
       this.logger.error({ message: 'Error searching local products' }, error instanceof Error ? error : new Error(String(error)));
@@ -111,29 +85,11 @@ export class OfflineSearchService implements SearchServiceInterface {
 
   /**
    * Search local products by exact barcode value.
-   * Filters the local product catalog by matching variant barcode or SKU.
+   * Looks the code up among indexed variant barcodes and SKUs.
    */
   async searchByBarcode(barcode: string): Promise<SearchResult> {
     try {
-      const productService = ProductServiceFactory.getInstance().getService(ECommercePlatform.OFFLINE);
-      const local = await productService.getProducts({ limit: 1000 });
-
-      const matched: SearchProduct[] = local.products
-        .filter(p => p.variants.some(v => v.barcode === barcode || v.sku === barcode))
-        .map(product => ({
-          id: product.id,
-          name: product.title,
-          description: product.description,
-          price: product.variants[0]?.price || 0,
-          imageUrl: product.images?.[0]?.url,
-          category: product.productType,
-          source: 'local' as const,
-          inStock: (product.variants[0]?.inventoryQuantity || 0) > 0,
-          quantity: product.variants[0]?.inventoryQuantity,
-          sku: product.variants[0]?.sku,
-          barcode: product.variants[0]?.barcode,
-          originalProduct: product,
-        }));
+      const matched = (await productSearchIndexService.findByCode(barcode)).map(toSearchProduct);
 
       return {
         query: barcode,
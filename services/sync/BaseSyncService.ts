@@ -1,18 +1,19 @@
 import { SyncEntityType, SyncOperationResult, SyncOptions, SyncServiceInterface, SyncStatus } from './SyncServiceInterface';
 import { v4 as uuidv4 } from 'uuid';
 import { LoggerFactory } from '../logger/LoggerFactory';
+import { jobScheduler } from '../jobs/JobScheduler';
 
 /**
  * Base implementation of the sync service that handles common functionality
  */
 export abstract class BaseSyncService implements SyncServiceInterface {
   protected logger = LoggerFactory.getInstance().createLogger(this.constructor.name);
+  // Platform whose service runs scheduled syncs; unset = every platform
+  protected readonly platform?: string;
   // In-memory store for active sync operations
   private activeSyncs: Map<string, SyncStatus> = new Map();
   // In-memory store for completed sync history
   private syncHistory: SyncStatus[] = [];
-  // In-memory store for scheduled syncs
-  private scheduledSyncs: Map<string, { options: SyncOptions; schedule: string; active: boolean }> = new Map();
 
   /**
    * Start a sync operation
@@ -143,24 +144,13 @@ export abstract class BaseSyncService implements SyncServiceInterface {
   }
 
   /**
-   * Schedule a recurring sync operation
+   * Schedule a recurring sync operation with the persistent JobScheduler
    * @param options Options for the sync operation
-   * @param schedule Cron-style schedule string (e.g., "0 0 * * *" for daily at midnight)
+   * @param schedule 5-field cron expression (e.g., "0 0 * * *" for daily at midnight)
    * @returns Promise resolving to a schedule ID
    */
   async scheduleSync(options: SyncOptions, schedule: string): Promise<string> {
-    const scheduleId = uuidv4();
-
-    this.scheduledSyncs.set(scheduleId, {
-      options,
-      schedule,
-      active: true,
-    });
-
-    // In a real implementation, we would register this with a job scheduler
-    // For now, we just store it in memory
-
-    return scheduleId;
+    return jobScheduler.scheduleSync(options, schedule, this.platform);
   }
 
   /**
@@ -169,15 +159,7 @@ export abstract class BaseSyncService implements SyncServiceInterface {
    * @returns Promise resolving to true if canceled
    */
   async cancelScheduledSync(scheduleId: string): Promise<boolean> {
-    const scheduled = this.scheduledSyncs.get(scheduleId);
-    if (!scheduled) {
-      return false;
-    }
-
-    scheduled.active = false;
-    // In a real implementation, we would unregister this from the job scheduler
-
-    return true;
+    return jobScheduler.cancel(scheduleId);
   }
 
   /**
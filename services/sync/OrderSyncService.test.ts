@@ -0,0 +1,136 @@
+// Mock dependencies - paths must match what OrderSyncService.ts imports
+jest.mock('../order/OrderServiceFactory', () => ({
+  OrderServiceFactory: jest.fn(),
+}));
+
+jest.mock('../config/POSConfigService', () => ({
+  MAX_SYNC_RETRIES: () => 3,
+  posConfig: { values: { taxRate: 0.2 } },
+}));
+
+jest.mock('../kds/KdsServiceFactory', () => ({
+  kdsServiceFactory: { getService: () => ({ sendOrder: jest.fn().mockResolvedValue(undefined) }) },
+}));
+
+import { OrderSyncService } from './OrderSyncService';
+import { OrderServiceFactory } from '../order/OrderServiceFactory';
+import { Order } from '../order/OrderServiceInterface';
+import { LocalOrder } from '../order/order';
+import { CheckoutServiceInterface } from '../checkout/CheckoutServiceInterface';
+import { OrderRepository } from '../../repositories/OrderRepository';
+import { LoggerInterface } from '../logger/LoggerInterface';
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+function makeLocalOrder(overrides: Partial<LocalOrder> = {}): LocalOrder {
+  return {
+    id: 'order-1',
+    platform: 'woocommerce' as LocalOrder['platform'],
+    items: [{ id: 'line-1', productId: 'prod-1', name: 'Widget', price: 10, quantity: 1 }],
+    subtotal: 10,
+    tax: 2,
+    total: 12,
+    status: 'paid',
+    syncStatus: 'pending',
+    createdAt: new Date('2026-10-19T10:00:00Z'),
+    updatedAt: new Date('2026-10-19T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+function platformOrder(id: string): Order {
+  return { id, platformOrderId: id, lineItems: [], subtotal: 10, tax: 2, total: 12, idempotencyKey: 'order-1' };
+}
+
+function createMockOrderRepo(): jest.Mocked<OrderRepository> {
+  return {
+    updateSyncSuccess: jest.fn(),
+    updateSyncError: jest.fn(),
+    markSyncAttempt: jest.fn(),
+    updateSyncDuplicates: jest.fn(),
+  } as unknown as jest.Mocked<OrderRepository>;
+}
+
+function createMockLogger(): LoggerInterface {
+  return { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as LoggerInterface;
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────
+
+describe('OrderSyncService idempotent create', () => {
+  let localOrder: LocalOrder;
+  let orderRepo: jest.Mocked<OrderRepository>;
+  let orderService: { createOrder: jest.Mock; findOrdersByReference: jest.Mock; completeOrder: jest.Mock };
+  let service: OrderSyncService;
+
+  beforeEach(() => {
+    localOrder = makeLocalOrder();
+    orderRepo = createMockOrderRepo();
+    orderService = {
+      createOrder: jest.fn().mockResolvedValue(platformOrder('9001')),
+      findOrdersByReference: jest.fn().mockResolvedValue([]),
+      completeOrder: jest.fn(),
+    };
+    const checkoutService = { getLocalOrder: jest.fn(async () => localOrder) } as unknown as CheckoutServiceInterface;
+    const factory = { getService: () => orderService } as unknown as OrderServiceFactory;
+    service = new OrderSyncService(checkoutService, orderRepo, factory, createMockLogger());
+  });
+
+  it('marks the attempt and sends the local order ID as the idempotency key on the first create', async () => {
+    const result = await service.syncOrderToPlatform('order-1');
+
+    expect(result).toEqual({ success: true, orderId: 'order-1', platformOrderId: '9001' });
+    expect(orderService.findOrdersByReference).not.toHaveBeenCalled();
+    expect(orderRepo.markSyncAttempt).toHaveBeenCalledWith('order-1');
+    expect(orderService.createOrder).toHaveBeenCalledWith(expect.objectContaining({ idempotencyKey: 'order-1' }));
+    expect(orderRepo.markSyncAttempt.mock.invocationCallOrder[0]).toBeLessThan(orderService.createOrder.mock.invocationCallOrder[0]);
+  });
+
+  it('adopts the order an earlier attempt created instead of creating another', async () => {
+    localOrder = makeLocalOrder({ syncAttemptedAt: new Date('2026-10-19T10:01:00Z') });
+    orderService.findOrdersByReference.mockResolvedValue([platformOrder('9001')]);
+
+    const result = await service.syncOrderToPlatform('order-1');
+
+    expect(result).toEqual({ success: true, orderId: 'order-1', platformOrderId: '9001' });
+    expect(orderService.findOrdersByReference).toHaveBeenCalledWith('order-1', new Date('2026-10-19T09:56:00Z'));
+    expect(orderService.createOrder).not.toHaveBeenCalled();
+    expect(orderRepo.updateSyncSuccess).toHaveBeenCalledWith('order-1', '9001');
+    expect(orderRepo.updateSyncDuplicates).not.toHaveBeenCalled();
+  });
+
+  it('keeps the oldest match and records the others as duplicates', async () => {
+    localOrder = makeLocalOrder({ syncAttemptedAt: new Date('2026-10-19T10:01:00Z') });
+    orderService.findOrdersByReference.mockResolvedValue([platformOrder('9001'), platformOrder('9002'), platformOrder('9003')]);
+
+    const result = await service.syncOrderToPlatform('order-1');
+
+    expect(result.platformOrderId).toBe('9001');
+    expect(orderRepo.updateSyncDuplicates).toHaveBeenCalledWith('order-1', ['9002', '9003']);
+  });
+
+  it('creates on retry when the platform has no order for the key', async () => {
+    localOrder = makeLocalOrder({ syncAttemptedAt: new Date('2026-10-19T10:01:00Z') });
+
+    const result = await service.syncOrderToPlatform('order-1');
+
+    expect(result.success).toBe(true);
+    expect(orderService.createOrder).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not create when the reconciliation search fails', async () => {
+    localOrder = makeLocalOrder({ syncAttemptedAt: new Date('2026-10-19T10:01:00Z') });
+    orderService.findOrdersByReference.mockRejectedValue(new Error('Request timeout: GET https://shop.example/orders'));
+
+    const result = await service.syncOrderToPlatform('order-1');
+
+    expect(result.success).toBe(false);
+    expect(orderService.createOrder).not.toHaveBeenCalled();
+    expect(orderRepo.updateSyncError).toHaveBeenCalledWith('order-1', 'pending', expect.stringContaining('Request timeout'));
+  });
+
+  it('clears duplicates once a manager has resolved them', async () => {
+    expect(await service.dismissDuplicates('order-1')).toBe(true);
+    expect(orderRepo.updateSyncDuplicates).toHaveBeenCalledWith('order-1', []);
+  });
+});
@@ -10,6 +10,9 @@ import { MAX_SYNC_RETRIES, posConfig } from '../config/POSConfigService';
 import { isOnlinePlatform } from '../../utils/platforms';
 import { kdsServiceFactory } from '../kds/KdsServiceFactory';
 
+/** Allowance for clock difference between the register and the platform when searching for earlier creates */
+const RECONCILE_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
 /**
  * Handles syncing paid orders to e-commerce platforms.
  * Depends on CheckoutService for order queries.
@@ -64,8 +67,27 @@ export class OrderSyncService implements OrderSyncServiceInterface {
         return { success: true, orderId, platformOrderId };
       }
 
+      // An earlier create may have reached the platform even though its response was lost:
+      // adopt that order instead of creating a second one (spec requirement: sync.md §2.8)
+      if (localOrder.syncAttemptedAt) {
+        const existing = await orderService.findOrdersByReference(
+          orderId,
+          new Date(localOrder.syncAttemptedAt.getTime() - RECONCILE_CLOCK_SKEW_MS)
+        );
+        if (existing.length > 0) {
+          const platformOrderId = this.platformIdOf(existing[0]);
+          await this.recordDuplicates(orderId, existing.slice(1));
+          await this.orderRepo.updateSyncSuccess(orderId, platformOrderId);
+          this.retryCounts.delete(orderId);
+          this.logger.info(`Order ${orderId} already exists on the platform as ${platformOrderId} - reconciled`);
+          this.dispatchKdsTicket(localOrder);
+          return { success: true, orderId, platformOrderId };
+        }
+      }
+
       const platformOrder: Order = {
-        customerEmail: localOrder.customerEmail,
+        // The platform sends its order confirmation to a receipt email when there is no customer
+        customerEmail: localOrder.customerEmail ?? localOrder.receiptEmail,
         customerName: localOrder.customerName,
         lineItems: this.basketItemsToLineItems(localOrder.items),
         subtotal: localOrder.subtotal,
@@ -84,17 +106,21 @@ export class OrderSyncService implements OrderSyncServiceInterface {
           ]
             .filter(Boolean)
             .join(' | ') || undefined,
+        // The local order ID is stable across retries and restarts
+        idempotencyKey: orderId,
         createdAt: localOrder.createdAt,
       };
 
+      await this.orderRepo.markSyncAttempt(orderId);
       const createdOrder = await orderService.createOrder(platformOrder);
-      await this.orderRepo.updateSyncSuccess(orderId, createdOrder.id ?? createdOrder.platformOrderId);
+      const platformOrderId = this.platformIdOf(createdOrder);
+      await this.orderRepo.updateSyncSuccess(orderId, platformOrderId);
       this.dispatchKdsTicket(localOrder);
 
       return {
         success: true,
         orderId,
-        platformOrderId: createdOrder.id ?? createdOrder.platformOrderId,
+        platformOrderId,
       };
     } catch (error) {
       const errorMessage = (error as Error).message;
@@ -143,6 +169,20 @@ export class OrderSyncService implements OrderSyncServiceInterface {
     }
   }
 
+  async dismissDuplicates(orderId: string): Promise<boolean> {
+    try {
+      await this.orderRepo.updateSyncDuplicates(orderId, []);
+      this.logger.info(`Duplicate platform orders for ${orderId} marked as resolved`);
+      return true;
+    } catch (error) {
+      this.logger.error(
+        { message: `Failed to dismiss duplicates for order ${orderId}` },
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return false;
+    }
+  }
+
   async syncAllPendingOrders(): Promise<SyncResult> {
     const unsyncedOrders = await this.checkoutService.getUnsyncedOrders();
 
@@ -167,6 +207,9 @@ export class OrderSyncService implements OrderSyncServiceInterface {
       // Network errors are retryable
       if (error.name === 'TypeError' && error.message.includes('fetch')) return true;
 
+      // A timed-out create may still have succeeded; the retry reconciles before creating again
+      if (error.message.startsWith('Request timeout')) return true;
+
       // Check HTTP status code
       const statusMatch = error.message.match(/status (\d+)/);
       if (statusMatch) {
@@ -180,6 +223,18 @@ export class OrderSyncService implements OrderSyncServiceInterface {
     return false;
   }
 
+  private platformIdOf(order: Order): string {
+    return (order.id ?? order.platformOrderId)!;
+  }
+
+  /** Keep extra platform orders for the same sale so a manager can cancel them (shown on the Sync Queue screen) */
+  private async recordDuplicates(orderId: string, duplicates: Order[]): Promise<void> {
+    if (duplicates.length === 0) return;
+    const ids = duplicates.map(o => this.platformIdOf(o));
+    await this.orderRepo.updateSyncDuplicates(orderId, ids);
+    this.logger.warn({ message: `Order ${orderId} has ${ids.length} duplicate platform order(s): ${ids.join(', ')}` });
+  }
+
   private dispatchKdsTicket(order: { id: string; items: BasketItem[] }): void {
     kdsServiceFactory
       .getService()
@@ -10,4 +10,6 @@ export interface OrderSyncServiceInterface {
   retrySingleOrder(orderId: string): Promise<CheckoutResult>;
   /** Discard a failed order — marks it as cancelled so it won't be retried */
   discardFailedOrder(orderId: string): Promise<boolean>;
+  /** Clear the duplicate platform orders recorded for an order once a manager has dealt with them */
+  dismissDuplicates(orderId: string): Promise<boolean>;
 }
@@ -0,0 +1,424 @@
+const mockProductUpdate = jest.fn();
+const mockSyncProducts = jest.fn();
+const mockGetProducts = jest.fn();
+const mockAuditLog = jest.fn();
+const mockEmit = jest.fn();
+const mockRepo = {
+  findFieldVersions: jest.fn(),
+  saveFieldVersion: jest.fn(),
+  findById: jest.fn(),
+  findOpen: jest.fn(),
+  findOpenForEntity: jest.fn(),
+  upsertOpen: jest.fn(),
+  markResolved: jest.fn(),
+  findProductLink: jest.fn(),
+  findProductLinks: jest.fn(),
+  saveProductLink: jest.fn(),
+};
+const mockFindByCode = jest.fn();
+const mockKeyValue = { getObject: jest.fn(), setObject: jest.fn() };
+
+jest.mock('../logger/LoggerFactory', () => ({
+  LoggerFactory: {
+    getInstance: () => ({
+      createLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }),
+    }),
+  },
+}));
+
+jest.mock('../../repositories/ProductRepository', () => ({
+  ProductRepository: jest.fn().mockImplementation(() => ({ update: mockProductUpdate })),
+}));
+
+jest.mock('../../repositories/SyncConflictRepository', () => ({
+  syncConflictRepository: mockRepo,
+}));
+
+jest.mock('../../repositories/KeyValueRepository', () => ({
+  keyValueRepository: mockKeyValue,
+}));
+
+jest.mock('../product/ProductServiceFactory', () => ({
+  ProductServiceFactory: { getInstance: () => ({ getService: () => ({ getProducts: mockGetProducts, syncProducts: mockSyncProducts }) }) },
+}));
+
+jest.mock('../search/ProductSearchIndexService', () => ({
+  productSearchIndexService: { findByCode: mockFindByCode },
+}));
+
+jest.mock('../audit/AuditLogService', () => ({
+  auditLogService: { log: mockAuditLog },
+}));
+
+jest.mock('../instoreapi/sync/SyncEventBus', () => ({
+  syncEventBus: { emit: mockEmit },
+}));
+
+import { PlatformProductMatch, SyncConflictService } from './SyncConflictService';
+import { DEFAULT_CONFLICT_POLICIES, ConflictPolicies, PRODUCT_SYNC_FIELDS } from './conflictDetection';
+import { SyncEntityType } from './SyncServiceInterface';
+import { Product as LocalProduct } from '../../repositories/ProductRepository';
+import { Product as PlatformProduct } from '../product/ProductServiceInterface';
+import { SyncConflictRow } from '../../repositories/SyncConflictRepository';
+import { ECommercePlatform } from '../../utils/platforms';
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+const SHOPIFY = ECommercePlatform.SHOPIFY;
+
+function local(overrides: Partial<LocalProduct> = {}): LocalProduct {
+  return {
+    id: 'prod-1',
+    name: 'Enamel Mug',
+    description: null,
+    price: 12.5,
+    sku: 'MUG-01',
+    barcode: null,
+    stock: 8,
+    created_at: 1000,
+    updated_at: 5000,
+    ...overrides,
+  };
+}
+
+function remote(price = 12.5, stock = 8, updatedAt = new Date(4000)): PlatformProduct {
+  return { id: 'prod-1', title: 'Enamel Mug', variants: [{ id: 'var-1', sku: 'MUG-01', price, inventoryQuantity: stock }], updatedAt };
+}
+
+function match(product: PlatformProduct, variantIndex = 0): PlatformProductMatch {
+  return { product, variant: product.variants[variantIndex] };
+}
+
+/** Base rows as left by the last successful sync of `local()` */
+function syncedBase(overrides: Record<string, string> = {}) {
+  const values: Record<string, string> = {
+    name: 'Enamel Mug',
+    description: '',
+    price: '12.5',
+    sku: 'MUG-01',
+    barcode: '',
+    stock: '8',
+    ...overrides,
+  };
+  return Object.entries(values).map(([field, synced_value]) => ({ field, synced_value }));
+}
+
+function openConflict(overrides: Partial<SyncConflictRow> = {}): SyncConflictRow {
+  return {
+    id: 'conflict-1',
+    platform: SHOPIFY,
+    entity_type: 'product',
+    entity_id: 'prod-1',
+    entity_name: 'Enamel Mug',
+    field: 'price',
+    base_value: '12.5',
+    pos_value: '13',
+    platform_value: '11',
+    pos_updated_at: 5000,
+    platform_updated_at: 4000,
+    status: 'open',
+    resolution: null,
+    resolved_by: null,
+    detected_at: 6000,
+    resolved_at: null,
+    ...overrides,
+  };
+}
+
+const policies = (overrides: Partial<ConflictPolicies> = {}): ConflictPolicies => ({ ...DEFAULT_CONFLICT_POLICIES, ...overrides });
+
+// ── Tests ─────────────────────────────────────────────────────────────
+
+describe('SyncConflictService', () => {
+  const service = SyncConflictService.getInstance();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRepo.findFieldVersions.mockResolvedValue(syncedBase());
+    mockRepo.findOpenForEntity.mockResolvedValue([]);
+    mockSyncProducts.mockResolvedValue({ successful: 1, failed: 0, errors: [] });
+    mockRepo.findProductLinks.mockResolvedValue([]);
+    mockRepo.findProductLink.mockResolvedValue(null);
+    mockFindByCode.mockResolvedValue([]);
+  });
+
+  describe('matchPlatformProducts', () => {
+    const page = (products: PlatformProduct[]) => ({
+      products,
+      pagination: { currentPage: 1, totalPages: 1, totalItems: products.length },
+    });
+    const sizes = (): PlatformProduct => ({
+      id: 'prod-1',
+      title: 'Tee',
+      variants: [
+        { id: 'var-s', sku: 'TEE-S', price: 15, inventoryQuantity: 4 },
+        { id: 'var-m', sku: 'TEE-M', price: 15, inventoryQuantity: 2 },
+      ],
+    });
+
+    it('matches a product with the same ID on the platform', async () => {
+      mockGetProducts.mockResolvedValue(page([remote()]));
+
+      const result = await service.matchPlatformProducts(SHOPIFY, [local()]);
+
+      expect(mockGetProducts).toHaveBeenCalledWith({ ids: ['prod-1'], limit: 1 });
+      expect(result.matches.get('prod-1')).toEqual(match(remote()));
+      expect(result).toMatchObject({ missing: [], ambiguous: [] });
+    });
+
+    it('uses the platform product and variant linked on an earlier sync', async () => {
+      mockRepo.findProductLinks.mockResolvedValue([
+        { platform: SHOPIFY, product_id: 'prod-1', platform_product_id: 'gid-9', platform_variant_id: 'var-m', linked_at: 1 },
+      ]);
+      mockGetProducts.mockResolvedValue(page([{ ...sizes(), id: 'gid-9' }]));
+
+      const result = await service.matchPlatformProducts(SHOPIFY, [local()]);
+
+      expect(mockGetProducts).toHaveBeenCalledWith({ ids: ['gid-9'], limit: 1 });
+      expect(result.matches.get('prod-1')?.variant.id).toBe('var-m');
+    });
+
+    it('pairs a product created on the platform by its SKU', async () => {
+      const platformMug = { ...remote(), id: 'gid-42' };
+      mockGetProducts.mockResolvedValueOnce(page([])).mockResolvedValueOnce(page([platformMug]));
+      mockFindByCode.mockResolvedValue([
+        { id: 'gid-42', platform: SHOPIFY },
+        { id: 'woo-7', platform: ECommercePlatform.WOOCOMMERCE },
+      ]);
+
+      const result = await service.matchPlatformProducts(SHOPIFY, [local()]);
+
+      expect(mockFindByCode).toHaveBeenCalledWith('MUG-01');
+      expect(mockGetProducts).toHaveBeenLastCalledWith({ ids: ['gid-42'], limit: 1 });
+      expect(result.matches.get('prod-1')?.product.id).toBe('gid-42');
+    });
+
+    it('reports a product missing when several platform products carry its SKU', async () => {
+      mockGetProducts.mockResolvedValue(page([]));
+      mockFindByCode.mockResolvedValue([
+        { id: 'gid-42', platform: SHOPIFY },
+        { id: 'gid-43', platform: SHOPIFY },
+      ]);
+
+      const result = await service.matchPlatformProducts(SHOPIFY, [local()]);
+
+      expect(result).toMatchObject({ missing: ['prod-1'], ambiguous: [] });
+      expect(result.matches.size).toBe(0);
+    });
+
+    it('flags a multi-variant product when no variant carries the POS SKU', async () => {
+      mockGetProducts.mockResolvedValue(page([sizes()]));
+
+      const result = await service.matchPlatformProducts(SHOPIFY, [local({ sku: 'TEE' })]);
+
+      expect(result).toMatchObject({ missing: [], ambiguous: ['prod-1'] });
+      expect(result.matches.size).toBe(0);
+    });
+
+    it('matches the variant carrying the POS SKU', async () => {
+      mockGetProducts.mockResolvedValue(page([sizes()]));
+
+      const result = await service.matchPlatformProducts(SHOPIFY, [local({ sku: 'TEE-M' })]);
+
+      expect(result.matches.get('prod-1')?.variant.id).toBe('var-m');
+    });
+  });
+
+  describe('reconcileProduct', () => {
+    it('pushes a local price edit and pulls a platform stock change', async () => {
+      const outcome = await service.reconcileProduct(SHOPIFY, local({ price: 13 }), match(remote(12.5, 5)), policies());
+
+      expect(outcome).toEqual({ pushed: ['price'], pulled: ['stock'], policyResolved: [], queued: [] });
+      expect(mockSyncProducts).toHaveBeenCalledWith([
+        expect.objectContaining({ variants: [expect.objectContaining({ price: 13, inventoryQuantity: 5 })] }),
+      ]);
+      expect(mockProductUpdate).toHaveBeenCalledWith('prod-1', { stock: 5 });
+      expect(mockRepo.saveFieldVersion).toHaveBeenCalledWith(expect.objectContaining({ field: 'price', value: '13' }));
+      expect(mockRepo.saveFieldVersion).toHaveBeenCalledWith(expect.objectContaining({ field: 'stock', value: '5' }));
+      expect(mockRepo.saveFieldVersion).toHaveBeenCalledTimes(2);
+    });
+
+    it('queues a price edited on both sides and leaves both values alone', async () => {
+      const outcome = await service.reconcileProduct(SHOPIFY, local({ price: 13 }), match(remote(11)), policies());
+
+      expect(outcome.queued).toEqual(['price']);
+      expect(mockRepo.upsertOpen).toHaveBeenCalledWith(
+        expect.objectContaining({ entityId: 'prod-1', field: 'price', baseValue: '12.5', posValue: '13', platformValue: '11' })
+      );
+      expect(mockSyncProducts).not.toHaveBeenCalled();
+      expect(mockProductUpdate).not.toHaveBeenCalled();
+      expect(mockRepo.saveFieldVersion).not.toHaveBeenCalledWith(expect.objectContaining({ field: 'price' }));
+      expect(mockEmit).toHaveBeenCalledWith('config:updated', expect.objectContaining({ entity: 'sync_conflict', action: 'queued' }));
+    });
+
+    it('settles a conflict by the entity type policy', async () => {
+      const outcome = await service.reconcileProduct(
+        SHOPIFY,
+        local({ price: 13 }),
+        match(remote(11)),
+        policies({ [SyncEntityType.PRODUCT]: 'newest_wins' })
+      );
+
+      // The POS edit (5000) is newer than the platform edit (4000)
+      expect(outcome).toMatchObject({ pushed: ['price'], policyResolved: ['price'], queued: [] });
+      expect(mockRepo.upsertOpen).not.toHaveBeenCalled();
+    });
+
+    it('applies the inventory policy to stock', async () => {
+      const outcome = await service.reconcileProduct(SHOPIFY, local({ stock: 6 }), match(remote(12.5, 3)), policies());
+
+      expect(outcome).toMatchObject({ pulled: ['stock'], policyResolved: ['stock'] });
+      expect(mockProductUpdate).toHaveBeenCalledWith('prod-1', { stock: 3 });
+    });
+
+    it('takes the platform value for every differing field on a first sync instead of queuing', async () => {
+      mockRepo.findFieldVersions.mockResolvedValue([]);
+
+      const outcome = await service.reconcileProduct(SHOPIFY, local({ name: 'Mug', price: 13 }), match(remote(11, 5)), policies());
+
+      expect(outcome).toEqual({ pushed: [], pulled: ['name', 'price', 'stock'], policyResolved: ['name', 'price', 'stock'], queued: [] });
+      expect(mockRepo.upsertOpen).not.toHaveBeenCalled();
+      expect(mockProductUpdate).toHaveBeenCalledWith('prod-1', { name: 'Enamel Mug', price: 11, stock: 5 });
+      // Every field is seeded, so the next sync has a base to compare against
+      expect(mockRepo.saveFieldVersion).toHaveBeenCalledTimes(PRODUCT_SYNC_FIELDS.length);
+      expect(mockRepo.saveFieldVersion).toHaveBeenCalledWith(expect.objectContaining({ field: 'price', value: '11' }));
+    });
+
+    it('lets a first sync follow a policy that names a side', async () => {
+      mockRepo.findFieldVersions.mockResolvedValue([]);
+
+      const outcome = await service.reconcileProduct(
+        SHOPIFY,
+        local({ price: 13 }),
+        match(remote(11)),
+        policies({ [SyncEntityType.PRODUCT]: 'pos_wins' })
+      );
+
+      expect(outcome).toMatchObject({ pushed: ['price'], pulled: [], policyResolved: ['price'], queued: [] });
+    });
+
+    it('pushes to the matched variant and links it for later syncs', async () => {
+      const product: PlatformProduct = {
+        id: 'gid-9',
+        title: 'Enamel Mug',
+        variants: [
+          { id: 'var-a', sku: 'MUG-00', price: 30, inventoryQuantity: 1 },
+          { id: 'var-b', sku: 'MUG-01', price: 12.5, inventoryQuantity: 8 },
+        ],
+        updatedAt: new Date(4000),
+      };
+
+      const outcome = await service.reconcileProduct(SHOPIFY, local({ price: 13 }), match(product, 1), policies());
+
+      expect(outcome).toMatchObject({ pushed: ['price'], pulled: [], queued: [] });
+      expect(mockSyncProducts).toHaveBeenCalledWith([
+        expect.objectContaining({
+          id: 'gid-9',
+          variants: [product.variants[0], expect.objectContaining({ id: 'var-b', price: 13 })],
+        }),
+      ]);
+      expect(mockRepo.saveProductLink).toHaveBeenCalledWith({
+        platform: SHOPIFY,
+        productId: 'prod-1',
+        platformProductId: 'gid-9',
+        platformVariantId: 'var-b',
+      });
+    });
+
+    it('closes an open conflict once both sides agree', async () => {
+      mockRepo.findOpenForEntity.mockResolvedValue([openConflict()]);
+
+      await service.reconcileProduct(SHOPIFY, local({ price: 11 }), match(remote(11)), policies());
+
+      expect(mockRepo.markResolved).toHaveBeenCalledWith('conflict-1', 'converged', null);
+    });
+
+    it('writes nothing on a dry run', async () => {
+      const outcome = await service.reconcileProduct(SHOPIFY, local({ price: 13 }), match(remote(11, 5)), policies(), true);
+
+      expect(outcome).toMatchObject({ pulled: ['stock'], queued: ['price'] });
+      expect(mockRepo.upsertOpen).not.toHaveBeenCalled();
+      expect(mockRepo.saveFieldVersion).not.toHaveBeenCalled();
+      expect(mockProductUpdate).not.toHaveBeenCalled();
+      expect(mockRepo.saveProductLink).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolve', () => {
+    it('writes the platform value locally when the platform is kept', async () => {
+      mockRepo.findById.mockResolvedValue(openConflict());
+
+      await service.resolve('conflict-1', 'platform', 'manager-1');
+
+      expect(mockProductUpdate).toHaveBeenCalledWith('prod-1', { price: 11 });
+      expect(mockRepo.saveFieldVersion).toHaveBeenCalledWith(expect.objectContaining({ field: 'price', value: '11' }));
+      expect(mockRepo.markResolved).toHaveBeenCalledWith('conflict-1', 'platform', 'manager-1');
+      expect(mockAuditLog).toHaveBeenCalledWith(
+        'sync:conflict_resolved',
+        expect.objectContaining({ userId: 'manager-1', metadata: expect.objectContaining({ winner: 'platform' }) })
+      );
+    });
+
+    it('sends the POS value to the current platform product when the POS is kept', async () => {
+      mockRepo.findById.mockResolvedValue(openConflict());
+      mockGetProducts.mockResolvedValue({ products: [remote(10.5)], pagination: { currentPage: 1, totalPages: 1, totalItems: 1 } });
+
+      await service.resolve('conflict-1', 'pos', 'manager-1');
+
+      expect(mockGetProducts).toHaveBeenCalledWith({ ids: ['prod-1'], limit: 1 });
+      expect(mockSyncProducts).toHaveBeenCalledWith([expect.objectContaining({ variants: [expect.objectContaining({ price: 13 })] })]);
+      expect(mockProductUpdate).not.toHaveBeenCalled();
+      expect(mockRepo.markResolved).toHaveBeenCalledWith('conflict-1', 'pos', 'manager-1');
+    });
+
+    it('sends the POS value to the linked platform product and variant', async () => {
+      mockRepo.findById.mockResolvedValue(openConflict());
+      mockRepo.findProductLink.mockResolvedValue({
+        platform: SHOPIFY,
+        product_id: 'prod-1',
+        platform_product_id: 'gid-9',
+        platform_variant_id: 'var-b',
+        linked_at: 1,
+      });
+      const product: PlatformProduct = {
+        id: 'gid-9',
+        title: 'Enamel Mug',
+        variants: [
+          { id: 'var-a', price: 30, inventoryQuantity: 1 },
+          { id: 'var-b', price: 11, inventoryQuantity: 8 },
+        ],
+      };
+      mockGetProducts.mockResolvedValue({ products: [product], pagination: { currentPage: 1, totalPages: 1, totalItems: 1 } });
+
+      await service.resolve('conflict-1', 'pos', 'manager-1');
+
+      expect(mockGetProducts).toHaveBeenCalledWith({ ids: ['gid-9'], limit: 1 });
+      expect(mockSyncProducts).toHaveBeenCalledWith([
+        expect.objectContaining({
+          variants: [{ id: 'var-a', price: 30, inventoryQuantity: 1 }, expect.objectContaining({ id: 'var-b', price: 13 })],
+        }),
+      ]);
+    });
+
+    it('leaves the conflict open when the platform rejects the update', async () => {
+      mockRepo.findById.mockResolvedValue(openConflict());
+      mockGetProducts.mockResolvedValue({ products: [remote()], pagination: { currentPage: 1, totalPages: 1, totalItems: 1 } });
+      mockSyncProducts.mockResolvedValue({ successful: 0, failed: 1, errors: [{ productId: 'prod-1', error: 'Rate limited' }] });
+
+      await expect(service.resolve('conflict-1', 'pos', 'manager-1')).rejects.toThrow('Rate limited');
+      expect(mockRepo.markResolved).not.toHaveBeenCalled();
+    });
+
+    it('refuses a conflict that is already resolved', async () => {
+      mockRepo.findById.mockResolvedValue(openConflict({ status: 'resolved', resolution: 'pos' }));
+
+      await expect(service.resolve('conflict-1', 'platform', 'manager-1')).rejects.toThrow('is not open');
+    });
+  });
+
+  it('merges stored policies over the defaults', async () => {
+    mockKeyValue.getObject.mockResolvedValue({ [SyncEntityType.INVENTORY]: 'pos_wins' });
+
+    expect(await service.getPolicies()).toEqual({ [SyncEntityType.PRODUCT]: 'manual', [SyncEntityType.INVENTORY]: 'pos_wins' });
+  });
+});
@@ -0,0 +1,360 @@
+import { ProductRepository, Product as LocalProduct } from '../../repositories/ProductRepository';
+import { keyValueRepository } from '../../repositories/KeyValueRepository';
+import { syncConflictRepository, SyncConflictRow } from '../../repositories/SyncConflictRepository';
+import { Product as PlatformProduct, ProductServiceInterface, ProductVariant } from '../product/ProductServiceInterface';
+import { ProductServiceFactory } from '../product/ProductServiceFactory';
+import { productSearchIndexService } from '../search/ProductSearchIndexService';
+import { auditLogService } from '../audit/AuditLogService';
+import { syncEventBus } from '../instoreapi/sync/SyncEventBus';
+import { LoggerFactory } from '../logger/LoggerFactory';
+import { ECommercePlatform } from '../../utils/platforms';
+import {
+  applyConflictPolicy,
+  applyToPlatformProduct,
+  compareFields,
+  ConflictEntityType,
+  ConflictPolicies,
+  ConflictPolicy,
+  ConflictWinner,
+  DEFAULT_CONFLICT_POLICIES,
+  FieldSnapshot,
+  fromFieldValue,
+  localProductFields,
+  platformProductFields,
+  PRODUCT_SYNC_FIELDS,
+  selectSyncedVariant,
+  SyncFieldName,
+} from './conflictDetection';
+
+const POLICIES_KEY = 'sync.conflictPolicies';
+
+/** The platform product and variant a local product is synced with */
+export interface PlatformProductMatch {
+  product: PlatformProduct;
+  variant: ProductVariant;
+}
+
+export interface PlatformMatchResult {
+  /** Matches by local product ID */
+  matches: Map<string, PlatformProductMatch>;
+  /** Local products with no platform product */
+  missing: string[];
+  /** Local products whose platform product has several variants, none of which can be told apart */
+  ambiguous: string[];
+}
+
+/** What reconciling one product did, by field */
+export interface ProductReconcileOutcome {
+  /** POS values sent to the platform */
+  pushed: SyncFieldName[];
+  /** Platform values written locally */
+  pulled: SyncFieldName[];
+  /**
+   * Conflicts settled by the entity type's policy, and differences found on a
+   * product's first sync (also counted in pushed/pulled)
+   */
+  policyResolved: SyncFieldName[];
+  /** Conflicts left open for a manager; neither side was changed */
+  queued: SyncFieldName[];
+}
+
+/**
+ * Detects and resolves conflicts for bidirectional product sync.
+ *
+ * Tracks the last agreed value and a version per product field and platform
+ * (`sync_field_versions`), applies the configured policy per entity type, and
+ * keeps the queue of conflicts waiting on a manager (`sync_conflicts`).
+ */
+export class SyncConflictService {
+  private static instance: SyncConflictService;
+  private logger = LoggerFactory.getInstance().createLogger('SyncConflictService');
+  private productRepo = new ProductRepository();
+
+  private constructor() {}
+
+  static getInstance(): SyncConflictService {
+    if (!SyncConflictService.instance) {
+      SyncConflictService.instance = new SyncConflictService();
+    }
+    return SyncConflictService.instance;
+  }
+
+  // ── Policies ──────────────────────────────────────────────────────────
+
+  async getPolicies(): Promise<ConflictPolicies> {
+    const stored = await keyValueRepository.getObject<Partial<ConflictPolicies>>(POLICIES_KEY);
+    return { ...DEFAULT_CONFLICT_POLICIES, ...stored };
+  }
+
+  async setPolicy(entityType: ConflictEntityType, policy: ConflictPolicy): Promise<ConflictPolicies> {
+    const policies = { ...(await this.getPolicies()), [entityType]: policy };
+    await keyValueRepository.setObject(POLICIES_KEY, policies);
+    return policies;
+  }
+
+  // ── Reconciliation ────────────────────────────────────────────────────
+
+  /**
+   * Find the platform product and variant for each local product: by the link
+   * stored on an earlier sync, else by the same ID (as the one-way sync creates
+   * them), else by SKU through the search index.
+   */
+  async matchPlatformProducts(platform: ECommercePlatform, locals: LocalProduct[]): Promise<PlatformMatchResult> {
+    const productService = ProductServiceFactory.getInstance().getService(platform);
+    const links = new Map(
+      (
+        await syncConflictRepository.findProductLinks(
+          platform,
+          locals.map(p => p.id)
+        )
+      ).map(link => [link.product_id, link])
+    );
+    const platformIds = new Map(locals.map(local => [local.id, links.get(local.id)?.platform_product_id ?? local.id]));
+    const remoteById = await this.fetchPlatformProducts(productService, [...new Set(platformIds.values())]);
+
+    // Products created on the platform itself keep their own IDs; pair them by SKU
+    for (const local of locals) {
+      if (remoteById.has(platformIds.get(local.id)!) || !local.sku) continue;
+      const documents = await productSearchIndexService.findByCode(local.sku);
+      const candidates = [...new Set(documents.filter(doc => doc.platform === platform).map(doc => doc.id))];
+      if (candidates.length === 1) platformIds.set(local.id, candidates[0]);
+    }
+    const unfetched = [...new Set(platformIds.values())].filter(id => !remoteById.has(id));
+    for (const [id, product] of await this.fetchPlatformProducts(productService, unfetched)) {
+      remoteById.set(id, product);
+    }
+
+    const result: PlatformMatchResult = { matches: new Map(), missing: [], ambiguous: [] };
+    for (const local of locals) {
+      const product = remoteById.get(platformIds.get(local.id)!);
+      if (!product) {
+        result.missing.push(local.id);
+        continue;
+      }
+      const variant = selectSyncedVariant(product, local.sku, links.get(local.id)?.platform_variant_id);
+      if (variant) result.matches.set(local.id, { product, variant });
+      else result.ambiguous.push(local.id);
+    }
+    return result;
+  }
+
+  /**
+   * Reconcile one product held on both sides. Fields edited on one side only
+   * are copied across; fields edited on both are settled by policy or queued.
+   * With `dryRun` the outcome is reported but nothing is written.
+   */
+  async reconcileProduct(
+    platform: ECommercePlatform,
+    local: LocalProduct,
+    match: PlatformProductMatch,
+    policies: ConflictPolicies,
+    dryRun = false
+  ): Promise<ProductReconcileOutcome> {
+    const { product: remote, variant } = match;
+    const versions = await syncConflictRepository.findFieldVersions(platform, 'product', local.id);
+    const base = Object.fromEntries(versions.map(v => [v.field, v.synced_value]));
+    const posUpdatedAt = local.updated_at;
+    const platformUpdatedAt = remote.updatedAt ? new Date(remote.updatedAt).getTime() : null;
+
+    const comparisons = compareFields(PRODUCT_SYNC_FIELDS, localProductFields(local), platformProductFields(remote, variant), base);
+    const outcome: ProductReconcileOutcome = { pushed: [], pulled: [], policyResolved: [], queued: [] };
+    const toPush: Partial<FieldSnapshot> = {};
+    const toPull: Partial<LocalProduct> = {};
+    const agreed: Partial<FieldSnapshot> = {};
+    const settledConflicts: Array<{ field: SyncFieldName; winner: ConflictWinner | 'converged' }> = [];
+
+    for (const { spec, outcome: fieldOutcome, base: baseValue, pos, platform: platformValue } of comparisons) {
+      let winner: ConflictWinner | null = null;
+
+      if (fieldOutcome === 'in_sync') {
+        agreed[spec.field] = pos;
+        settledConflicts.push({ field: spec.field, winner: 'converged' });
+        continue;
+      }
+      if (fieldOutcome === 'push') winner = 'pos';
+      else if (fieldOutcome === 'pull') winner = 'platform';
+      else if (fieldOutcome === 'no_base') {
+        // First sync: queuing every difference would flood the manager, so take the platform copy unless the policy says otherwise
+        winner = applyConflictPolicy(policies[spec.entityType], posUpdatedAt, platformUpdatedAt) ?? 'platform';
+        outcome.policyResolved.push(spec.field);
+      } else {
+        winner = applyConflictPolicy(policies[spec.entityType], posUpdatedAt, platformUpdatedAt);
+        if (winner) {
+          outcome.policyResolved.push(spec.field);
+        } else {
+          outcome.queued.push(spec.field);
+          if (!dryRun) {
+            await syncConflictRepository.upsertOpen({
+              platform,
+              entityType: 'product',
+              entityId: local.id,
+              entityName: local.name,
+              field: spec.field,
+              baseValue,
+              posValue: pos,
+              platformValue,
+              posUpdatedAt,
+              platformUpdatedAt,
+            });
+          }
+          continue;
+        }
+      }
+
+      if (winner === 'pos') {
+        toPush[spec.field] = pos;
+        agreed[spec.field] = pos;
+        outcome.pushed.push(spec.field);
+      } else {
+        (toPull as Record<string, string | number>)[spec.field] = fromFieldValue(spec, platformValue);
+        agreed[spec.field] = platformValue;
+        outcome.pulled.push(spec.field);
+      }
+      settledConflicts.push({ field: spec.field, winner });
+    }
+
+    if (dryRun) return outcome;
+
+    if (outcome.pushed.length > 0) {
+      await this.pushFields(platform, remote, variant.id, toPush);
+    }
+    if (outcome.pulled.length > 0) {
+      await this.productRepo.update(local.id, toPull);
+      syncEventBus.emit('product:updated', { action: 'updated', id: local.id, platform, source: 'sync' });
+    }
+
+    for (const [field, value] of Object.entries(agreed)) {
+      if (base[field] === value) continue;
+      await syncConflictRepository.saveFieldVersion({
+        platform,
+        entityType: 'product',
+        entityId: local.id,
+        field,
+        value,
+        posUpdatedAt,
+        platformUpdatedAt,
+      });
+    }
+
+    await syncConflictRepository.saveProductLink({
+      platform,
+      productId: local.id,
+      platformProductId: remote.id,
+      platformVariantId: variant.id,
+    });
+    await this.closeSettledConflicts(platform, local.id, settledConflicts);
+    if (outcome.queued.length > 0) {
+      this.logger.warn({ message: `Queued ${outcome.queued.length} sync conflict(s) for product ${local.id} on ${platform}` });
+      syncEventBus.emit('config:updated', { entity: 'sync_conflict', action: 'queued', productId: local.id, platform });
+    }
+
+    return outcome;
+  }
+
+  // ── Manager resolution ────────────────────────────────────────────────
+
+  async getOpenConflicts(platform?: string): Promise<SyncConflictRow[]> {
+    return syncConflictRepository.findOpen(platform);
+  }
+
+  /**
+   * Settle an open conflict with the value a manager chose: the platform value
+   * is written locally, or the POS value is sent to the platform. The chosen
+   * value becomes the new base for the field.
+   */
+  async resolve(conflictId: string, winner: ConflictWinner, resolvedBy: string | null): Promise<void> {
+    const conflict = await syncConflictRepository.findById(conflictId);
+    if (!conflict || conflict.status !== 'open') {
+      throw new Error(`Sync conflict ${conflictId} is not open`);
+    }
+    const spec = PRODUCT_SYNC_FIELDS.find(f => f.field === conflict.field);
+    if (!spec) {
+      throw new Error(`Sync conflict ${conflictId} has unknown field ${conflict.field}`);
+    }
+
+    const platform = conflict.platform as ECommercePlatform;
+    const value = (winner === 'pos' ? conflict.pos_value : conflict.platform_value) ?? '';
+
+    if (winner === 'platform') {
+      await this.productRepo.update(conflict.entity_id, { [spec.field]: fromFieldValue(spec, value) });
+      syncEventBus.emit('product:updated', { action: 'updated', id: conflict.entity_id, platform, source: 'sync' });
+    } else {
+      const link = await syncConflictRepository.findProductLink(platform, conflict.entity_id);
+      const productService = ProductServiceFactory.getInstance().getService(platform);
+      const { products } = await productService.getProducts({ ids: [link?.platform_product_id ?? conflict.entity_id], limit: 1 });
+      if (products.length === 0) {
+        throw new Error(`Product ${conflict.entity_id} no longer exists on ${platform}`);
+      }
+      const variant = selectSyncedVariant(products[0], null, link?.platform_variant_id);
+      if (!variant) {
+        throw new Error(`Variant synced with product ${conflict.entity_id} no longer exists on ${platform}`);
+      }
+      await this.pushFields(platform, products[0], variant.id, { [spec.field]: value });
+    }
+
+    await syncConflictRepository.saveFieldVersion({
+      platform,
+      entityType: 'product',
+      entityId: conflict.entity_id,
+      field: conflict.field,
+      value,
+      posUpdatedAt: conflict.pos_updated_at,
+      platformUpdatedAt: conflict.platform_updated_at,
+    });
+    await syncConflictRepository.markResolved(conflictId, winner, resolvedBy);
+
+    await auditLogService.log('sync:conflict_resolved', {
+      userId: resolvedBy ?? undefined,
+      details: `Kept ${winner === 'pos' ? 'POS' : platform} ${spec.label.toLowerCase()} for ${conflict.entity_name ?? conflict.entity_id}`,
+      metadata: {
+        conflictId,
+        platform,
+        entityId: conflict.entity_id,
+        field: conflict.field,
+        winner,
+        posValue: conflict.pos_value,
+        platformValue: conflict.platform_value,
+      },
+    });
+    syncEventBus.emit('config:updated', { entity: 'sync_conflict', action: 'resolved', id: conflictId, platform });
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────────
+
+  private async fetchPlatformProducts(productService: ProductServiceInterface, ids: string[]): Promise<Map<string, PlatformProduct>> {
+    if (ids.length === 0) return new Map();
+    const { products } = await productService.getProducts({ ids, limit: ids.length });
+    return new Map(products.map(product => [product.id, product]));
+  }
+
+  private async pushFields(
+    platform: ECommercePlatform,
+    remote: PlatformProduct,
+    variantId: string,
+    values: Partial<FieldSnapshot>
+  ): Promise<void> {
+    const productService = ProductServiceFactory.getInstance().getService(platform);
+    const result = await productService.syncProducts([applyToPlatformProduct(remote, variantId, values)]);
+    if (result.failed > 0) {
+      throw new Error(result.errors[0]?.error || `Failed to update product ${remote.id} on ${platform}`);
+    }
+  }
+
+  /** Close open conflicts that no longer need a manager, recording which side was kept */
+  private async closeSettledConflicts(
+    platform: string,
+    entityId: string,
+    settled: Array<{ field: SyncFieldName; winner: ConflictWinner | 'converged' }>
+  ): Promise<void> {
+    if (settled.length === 0) return;
+    const open = await syncConflictRepository.findOpenForEntity(platform, 'product', entityId);
+    for (const conflict of open) {
+      const match = settled.find(s => s.field === conflict.field);
+      if (match) {
+        await syncConflictRepository.markResolved(conflict.id, match.winner, null);
+      }
+    }
+  }
+}
+
+export const syncConflictService = SyncConflictService.getInstance();
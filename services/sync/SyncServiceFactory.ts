@@ -1,4 +1,4 @@
-import { SyncServiceInterface } from './SyncServiceInterface';
+import { ScheduledSyncPayload, SyncOperationResult, SyncServiceInterface, SyncStatus } from './SyncServiceInterface';
 import { CompositeSyncService } from './CompositeSyncService';
 import { ECommercePlatform } from '../../utils/platforms';
 import { ShopifySyncService } from './platforms/ShopifySyncService';
@@ -13,6 +13,12 @@ import { CommerceFullSyncService } from './platforms/CommerceFullSyncService';
 import { PlatformSyncConfig } from './platforms/PlatformSyncServiceInterface';
 import { LoggerFactory } from '../logger/LoggerFactory';
 import { CommerceFullWebhookReceiver } from '../clients/commercefull/CommerceFullWebhookReceiver';
+import { ShopifyWebhookReceiver } from '../clients/shopify/ShopifyWebhookReceiver';
+import { WooCommerceWebhookReceiver } from '../clients/woocommerce/WooCommerceWebhookReceiver';
+import { BigCommerceWebhookReceiver } from '../clients/bigcommerce/BigCommerceWebhookReceiver';
+
+/** Scheduled syncs still running after this are cancelled and recorded as failed */
+const SCHEDULED_SYNC_TIMEOUT_MS = 30 * 60 * 1000;
 
 /**
  * Factory for creating sync service instances
@@ -68,6 +74,32 @@ export class SyncServiceFactory {
     return service;
   }
 
+  /**
+   * Run a sync scheduled through the JobScheduler and wait for it to finish
+   * @param payload Platform and options stored with the schedule
+   * @returns The result of the sync operation
+   */
+  public async runScheduledSync(payload: ScheduledSyncPayload): Promise<SyncOperationResult> {
+    const service = this.getService(payload.platform as ECommercePlatform | undefined);
+    const syncId = await service.startSync(payload.options);
+    const deadline = Date.now() + SCHEDULED_SYNC_TIMEOUT_MS;
+
+    let status: SyncStatus = await service.getSyncStatus(syncId);
+    while (status.status === 'queued' || status.status === 'in_progress') {
+      if (Date.now() > deadline) {
+        await service.cancelSync(syncId);
+        throw new Error(`Scheduled sync ${syncId} did not finish within ${SCHEDULED_SYNC_TIMEOUT_MS / 60000} minutes`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      status = await service.getSyncStatus(syncId);
+    }
+
+    if (!status.result) {
+      throw new Error(`Scheduled sync ${syncId} ${status.status} without a result`);
+    }
+    return status.result;
+  }
+
   /**
    * Create a composite sync service combining multiple platform services
    * @param platforms Platforms to include in the composite service
@@ -170,9 +202,12 @@ export class SyncServiceFactory {
       storeUrl: process.env.SHOPIFY_STORE_URL,
       accessToken: process.env.SHOPIFY_ACCESS_TOKEN,
       apiVersion: process.env.SHOPIFY_API_VERSION,
+      apiSecret: process.env.SHOPIFY_API_SECRET,
       webhookUrl: process.env.SHOPIFY_WEBHOOK_URL,
+      webhookSecret: process.env.SHOPIFY_WEBHOOK_SECRET,
       batchSize: process.env.SHOPIFY_SYNC_BATCH_SIZE ? parseInt(process.env.SHOPIFY_SYNC_BATCH_SIZE, 10) : 50,
     };
+    this.configureWebhookReceiver(ECommercePlatform.SHOPIFY, config);
 
     // Initialize asynchronously
     service.initialize(config).catch(err => {
@@ -194,9 +229,11 @@ export class SyncServiceFactory {
       apiKey: process.env.WOOCOMMERCE_CONSUMER_KEY || process.env.WOOCOMMERCE_KEY,
       apiSecret: process.env.WOOCOMMERCE_CONSUMER_SECRET || process.env.WOOCOMMERCE_SECRET,
       webhookUrl: process.env.WOOCOMMERCE_WEBHOOK_URL,
+      webhookSecret: process.env.WOOCOMMERCE_WEBHOOK_SECRET,
       version: process.env.WOOCOMMERCE_API_VERSION || 'v3',
       batchSize: process.env.WOOCOMMERCE_SYNC_BATCH_SIZE ? parseInt(process.env.WOOCOMMERCE_SYNC_BATCH_SIZE, 10) : 50,
     };
+    this.configureWebhookReceiver(ECommercePlatform.WOOCOMMERCE, config);
 
     // Initialize asynchronously
     service.initialize(config).catch(err => {
@@ -218,8 +255,10 @@ export class SyncServiceFactory {
       accessToken: process.env.BIGCOMMERCE_ACCESS_TOKEN,
       clientId: process.env.BIGCOMMERCE_CLIENT_ID,
       webhookUrl: process.env.BIGCOMMERCE_WEBHOOK_URL,
+      webhookSecret: process.env.BIGCOMMERCE_WEBHOOK_SECRET,
       batchSize: process.env.BIGCOMMERCE_SYNC_BATCH_SIZE ? parseInt(process.env.BIGCOMMERCE_SYNC_BATCH_SIZE, 10) : 50,
     };
+    this.configureWebhookReceiver(ECommercePlatform.BIGCOMMERCE, config);
 
     // Initialize asynchronously
     service.initialize(config).catch(err => {
@@ -229,6 +268,25 @@ export class SyncServiceFactory {
     return service;
   }
 
+  /**
+   * Give the platform's webhook receiver the secret its deliveries are signed with.
+   * Shopify and WooCommerce sign with the API secret unless a webhook secret is set;
+   * BigCommerce does not sign, so its receiver needs an explicit secret.
+   */
+  private configureWebhookReceiver(platform: ECommercePlatform, config: PlatformSyncConfig): void {
+    switch (platform) {
+      case ECommercePlatform.SHOPIFY:
+        ShopifyWebhookReceiver.getInstance().setSecret(config.webhookSecret || config.apiSecret);
+        break;
+      case ECommercePlatform.WOOCOMMERCE:
+        WooCommerceWebhookReceiver.getInstance().setSecret(config.webhookSecret || config.apiSecret);
+        break;
+      case ECommercePlatform.BIGCOMMERCE:
+        BigCommerceWebhookReceiver.getInstance().setSecret(config.webhookSecret);
+        break;
+    }
+  }
+
   /**
    * Create an Offline-specific sync service
    */
@@ -377,6 +435,7 @@ export class SyncServiceFactory {
     try {
       const { ProductRepository } = await import('../../repositories/ProductRepository');
       const { syncEventBus } = await import('../instoreapi/sync/SyncEventBus');
+      const { productSearchIndexService } = await import('../search/ProductSearchIndexService');
       const productRepo = new ProductRepository();
 
       // Parse event type (e.g., 'product.created', 'product.updated', 'product.deleted')
@@ -423,11 +482,32 @@ export class SyncServiceFactory {
           this.logger.info({ message: `[Webhook] Created product: ${productData.id}` });
         }
 
+        await productSearchIndexService.indexProducts(
+          [
+            {
+              id: productData.id,
+              title: productData.name,
+              description: productData.description,
+              variants: [
+                {
+                  id: productData.id,
+                  sku: productData.sku,
+                  barcode: productData.barcode,
+                  price: productData.price,
+                  inventoryQuantity: productData.stock ?? 0,
+                },
+              ],
+            },
+          ],
+          ECommercePlatform.COMMERCEFULL
+        );
+
         // Emit sync event for UI updates
         syncEventBus.emit('product:updated', { productId: productData.id });
       } else if (eventType === 'deleted') {
         const productId = (event.data.id || event.data.productId) as string;
         await productRepo.delete(productId);
+        await productSearchIndexService.removeProducts([productId]);
         this.logger.info({ message: `[Webhook] Deleted product: ${productId}` });
         syncEventBus.emit('product:updated', { productId, deleted: true });
       }
@@ -616,6 +696,7 @@ export class SyncServiceFactory {
             err instanceof Error ? err : new Error(String(err))
           );
         });
+        this.configureWebhookReceiver(platform, config);
         this.serviceInstances[platform] = shopifyService;
         break;
       }
@@ -628,6 +709,7 @@ export class SyncServiceFactory {
             err instanceof Error ? err : new Error(String(err))
           );
         });
+        this.configureWebhookReceiver(platform, config);
         this.serviceInstances[platform] = wooService;
         break;
       }
@@ -640,6 +722,7 @@ export class SyncServiceFactory {
             err instanceof Error ? err : new Error(String(err))
           );
         });
+        this.configureWebhookReceiver(platform, config);
         this.serviceInstances[platform] = bigService;
         break;
       }
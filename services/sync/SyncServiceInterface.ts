@@ -72,6 +72,17 @@ export interface SyncStatus {
   result?: SyncOperationResult;
 }
 
+/**
+ * Job type and payload of a sync scheduled through `scheduleSync`
+ */
+export const SCHEDULED_SYNC_JOB_TYPE = 'sync';
+
+export interface ScheduledSyncPayload {
+  /** Platform whose sync service runs the job; omitted = every platform */
+  platform?: string;
+  options: SyncOptions;
+}
+
 /**
  * Interface for the sync service
  */
@@ -107,9 +118,9 @@ export interface SyncServiceInterface {
   getSyncHistory(entityType?: SyncEntityType, limit?: number, offset?: number): Promise<SyncStatus[]>;
 
   /**
-   * Schedule a recurring sync operation
+   * Schedule a recurring sync operation with the persistent JobScheduler
    * @param options Options for the sync operation
-   * @param schedule Cron-style schedule string (e.g., "0 0 * * *" for daily at midnight)
+   * @param schedule 5-field cron expression (e.g., "0 0 * * *" for daily at midnight)
    * @returns Promise resolving to a schedule ID
    */
   scheduleSync(options: SyncOptions, schedule: string): Promise<string>;
@@ -0,0 +1,153 @@
+import {
+  applyConflictPolicy,
+  applyToPlatformProduct,
+  compareFields,
+  FieldSnapshot,
+  localProductFields,
+  platformProductFields,
+  PRODUCT_SYNC_FIELDS,
+  selectSyncedVariant,
+} from './conflictDetection';
+import { Product } from '../product/ProductServiceInterface';
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+function platformProduct(overrides: Partial<Product['variants'][number]> = {}, title = 'Enamel Mug'): Product {
+  return {
+    id: 'prod-1',
+    title,
+    description: 'Speckled blue',
+    variants: [{ id: 'var-1', sku: 'MUG-01', barcode: '5012345678900', price: 12.5, inventoryQuantity: 8, ...overrides }],
+  };
+}
+
+const snapshot: FieldSnapshot = {
+  name: 'Enamel Mug',
+  description: 'Speckled blue',
+  price: '12.5',
+  sku: 'MUG-01',
+  barcode: '5012345678900',
+  stock: '8',
+};
+
+function outcomes(pos: Partial<FieldSnapshot>, platform: Partial<FieldSnapshot>, base: Partial<FieldSnapshot> | null = snapshot) {
+  const result = compareFields(PRODUCT_SYNC_FIELDS, { ...snapshot, ...pos }, { ...snapshot, ...platform }, base ?? {});
+  return Object.fromEntries(result.map(c => [c.spec.field, c.outcome]));
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────
+
+describe('field snapshots', () => {
+  it('normalises local and platform products to the same values', () => {
+    const local = localProductFields({
+      name: 'Enamel Mug ',
+      description: 'Speckled blue',
+      price: 12.5,
+      sku: 'MUG-01',
+      barcode: '5012345678900',
+      stock: 8,
+    });
+
+    expect(local).toEqual(snapshot);
+    expect(platformProductFields(platformProduct(), platformProduct().variants[0])).toEqual(snapshot);
+  });
+
+  it('treats missing optional values as empty', () => {
+    expect(localProductFields({ name: 'Mug', price: 3, stock: 0, sku: null }).sku).toBe('');
+  });
+
+  it('writes values back onto the synced variant without touching the others', () => {
+    const product = { ...platformProduct(), variants: [...platformProduct().variants, { id: 'var-2', price: 20, inventoryQuantity: 1 }] };
+
+    const updated = applyToPlatformProduct(product, 'var-1', { name: 'Tin Mug', price: '9.99', stock: '3' });
+
+    expect(updated.title).toBe('Tin Mug');
+    expect(updated.variants[0]).toMatchObject({ id: 'var-1', price: 9.99, inventoryQuantity: 3, sku: 'MUG-01' });
+    expect(updated.variants[1]).toEqual({ id: 'var-2', price: 20, inventoryQuantity: 1 });
+    expect(product.title).toBe('Enamel Mug');
+  });
+
+  it('writes values onto a variant other than the first', () => {
+    const product = { ...platformProduct(), variants: [...platformProduct().variants, { id: 'var-2', price: 20, inventoryQuantity: 1 }] };
+
+    const updated = applyToPlatformProduct(product, 'var-2', { price: '18' });
+
+    expect(updated.variants[0]).toEqual(product.variants[0]);
+    expect(updated.variants[1]).toEqual({ id: 'var-2', price: 18, inventoryQuantity: 1 });
+  });
+});
+
+describe('selectSyncedVariant', () => {
+  const sizes = (): Product => ({
+    ...platformProduct(),
+    variants: [
+      { id: 'var-s', sku: 'TEE-S', price: 15, inventoryQuantity: 4 },
+      { id: 'var-m', sku: 'TEE-M', price: 15, inventoryQuantity: 2 },
+    ],
+  });
+
+  it('prefers the variant linked on an earlier sync', () => {
+    expect(selectSyncedVariant(sizes(), 'TEE-S', 'var-m')?.id).toBe('var-m');
+  });
+
+  it('takes the only variant whatever its SKU', () => {
+    expect(selectSyncedVariant(platformProduct({ sku: 'OTHER' }), 'MUG-01')?.id).toBe('var-1');
+  });
+
+  it('picks the variant carrying the POS SKU', () => {
+    expect(selectSyncedVariant(sizes(), ' TEE-M ')?.id).toBe('var-m');
+  });
+
+  it('returns null when no variant of a multi-variant product can be told apart', () => {
+    expect(selectSyncedVariant(sizes(), 'TEE-L')).toBeNull();
+    expect(selectSyncedVariant(sizes(), null)).toBeNull();
+    expect(selectSyncedVariant(sizes(), null, 'var-deleted')).toBeNull();
+  });
+});
+
+describe('compareFields', () => {
+  it('reports fields both sides agree on as in sync', () => {
+    expect(outcomes({}, {})).toMatchObject({ name: 'in_sync', price: 'in_sync', stock: 'in_sync' });
+  });
+
+  it('pushes a field only the POS changed', () => {
+    expect(outcomes({ price: '13' }, {}).price).toBe('push');
+  });
+
+  it('pulls a field only the platform changed', () => {
+    expect(outcomes({}, { price: '11' }).price).toBe('pull');
+  });
+
+  it('flags a field both sides changed to different values', () => {
+    expect(outcomes({ price: '13' }, { price: '11' }).price).toBe('conflict');
+  });
+
+  it('treats the same edit made on both sides as in sync', () => {
+    expect(outcomes({ price: '13' }, { price: '13' }).price).toBe('in_sync');
+  });
+
+  it('reports differing values with no base as a first sync, not a conflict', () => {
+    expect(outcomes({ sku: 'MUG-1' }, { sku: 'MUG-01' }, null)).toMatchObject({ sku: 'no_base', name: 'in_sync' });
+  });
+});
+
+describe('applyConflictPolicy', () => {
+  it('keeps the side named by a fixed policy', () => {
+    expect(applyConflictPolicy('platform_wins')).toBe('platform');
+    expect(applyConflictPolicy('pos_wins')).toBe('pos');
+  });
+
+  it('keeps the most recent edit for newest wins', () => {
+    expect(applyConflictPolicy('newest_wins', 2000, 1000)).toBe('pos');
+    expect(applyConflictPolicy('newest_wins', 1000, 2000)).toBe('platform');
+  });
+
+  it('defers to a manager when newest wins cannot order the edits', () => {
+    expect(applyConflictPolicy('newest_wins', 1000, null)).toBeNull();
+    expect(applyConflictPolicy('newest_wins', 1000, 1000)).toBeNull();
+  });
+
+  it('leaves manual conflicts unresolved', () => {
+    expect(applyConflictPolicy('manual', 2000, 1000)).toBeNull();
+  });
+});
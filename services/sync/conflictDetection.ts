@@ -0,0 +1,195 @@
+import { SyncEntityType } from './SyncServiceInterface';
+import { Product as PlatformProduct, ProductVariant } from '../product/ProductServiceInterface';
+
+/**
+ * Three-way field comparison for bidirectional sync.
+ *
+ * Each synced field is compared on the POS, on the platform and against the
+ * base: the value both sides last agreed on. A side that still holds the base
+ * value has not been edited, so the other side's value is taken. When both
+ * sides moved to different values the entity type's policy decides, or the
+ * conflict is queued for a manager.
+ */
+
+export type ConflictPolicy = 'platform_wins' | 'pos_wins' | 'newest_wins' | 'manual';
+
+/** Entity types whose fields are reconciled in both directions */
+export type ConflictEntityType = SyncEntityType.PRODUCT | SyncEntityType.INVENTORY;
+
+export type ConflictPolicies = Record<ConflictEntityType, ConflictPolicy>;
+
+export const CONFLICT_ENTITY_TYPES: ConflictEntityType[] = [SyncEntityType.PRODUCT, SyncEntityType.INVENTORY];
+
+/**
+ * Catalogue edits are usually deliberate on both sides, so they wait for a
+ * manager; stock counts follow the platform, which sees online sales.
+ */
+export const DEFAULT_CONFLICT_POLICIES: ConflictPolicies = {
+  [SyncEntityType.PRODUCT]: 'manual',
+  [SyncEntityType.INVENTORY]: 'platform_wins',
+};
+
+export type SyncFieldName = 'name' | 'description' | 'price' | 'sku' | 'barcode' | 'stock';
+
+export interface SyncFieldSpec {
+  field: SyncFieldName;
+  entityType: ConflictEntityType;
+  label: string;
+  numeric: boolean;
+}
+
+export const PRODUCT_SYNC_FIELDS: SyncFieldSpec[] = [
+  { field: 'name', entityType: SyncEntityType.PRODUCT, label: 'Name', numeric: false },
+  { field: 'description', entityType: SyncEntityType.PRODUCT, label: 'Description', numeric: false },
+  { field: 'price', entityType: SyncEntityType.PRODUCT, label: 'Price', numeric: true },
+  { field: 'sku', entityType: SyncEntityType.PRODUCT, label: 'SKU', numeric: false },
+  { field: 'barcode', entityType: SyncEntityType.PRODUCT, label: 'Barcode', numeric: false },
+  { field: 'stock', entityType: SyncEntityType.INVENTORY, label: 'Stock', numeric: true },
+];
+
+/** Field values normalised to strings so both sides compare and persist alike */
+export type FieldSnapshot = Record<SyncFieldName, string>;
+
+/** The subset of a local product row that is synced */
+export interface LocalProductFields {
+  name: string;
+  description?: string | null;
+  price: number;
+  sku?: string | null;
+  barcode?: string | null;
+  stock: number;
+}
+
+export function toFieldValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '';
+  return String(value).trim();
+}
+
+/** Convert a stored field value back to the type the local row holds */
+export function fromFieldValue(spec: SyncFieldSpec, value: string): string | number {
+  return spec.numeric ? Number(value) || 0 : value;
+}
+
+export function localProductFields(product: LocalProductFields): FieldSnapshot {
+  return {
+    name: toFieldValue(product.name),
+    description: toFieldValue(product.description),
+    price: toFieldValue(product.price),
+    sku: toFieldValue(product.sku),
+    barcode: toFieldValue(product.barcode),
+    stock: toFieldValue(product.stock),
+  };
+}
+
+/**
+ * The platform variant a local product is synced with, as the POS stores one
+ * variant per product: the variant linked on an earlier sync, else the only
+ * variant, else the one carrying the product's SKU. Null when a multi-variant
+ * product has no variant that can be told apart.
+ */
+export function selectSyncedVariant(product: PlatformProduct, sku?: string | null, linkedVariantId?: string | null): ProductVariant | null {
+  const linked = linkedVariantId ? product.variants.find(v => v.id === linkedVariantId) : undefined;
+  if (linked) return linked;
+  if (product.variants.length === 1) return product.variants[0];
+
+  const code = toFieldValue(sku);
+  if (!code) return null;
+  const bySku = product.variants.filter(v => toFieldValue(v.sku) === code);
+  return bySku.length === 1 ? bySku[0] : null;
+}
+
+/** Platform product fields as seen through the variant the local product is synced with */
+export function platformProductFields(product: PlatformProduct, variant: ProductVariant): FieldSnapshot {
+  return {
+    name: toFieldValue(product.title),
+    description: toFieldValue(product.description),
+    price: toFieldValue(Number(variant.price)),
+    sku: toFieldValue(variant.sku),
+    barcode: toFieldValue(variant.barcode),
+    stock: toFieldValue(Number(variant.inventoryQuantity)),
+  };
+}
+
+/** Copy of a platform product with the given field values written over it and the given variant */
+export function applyToPlatformProduct(product: PlatformProduct, variantId: string, values: Partial<FieldSnapshot>): PlatformProduct {
+  const updated: PlatformProduct = { ...product };
+  if (values.name !== undefined) updated.title = values.name;
+  if (values.description !== undefined) updated.description = values.description || undefined;
+  updated.variants = product.variants.map(variant => {
+    if (variant.id !== variantId) return variant;
+    const nextVariant = { ...variant };
+    if (values.price !== undefined) nextVariant.price = Number(values.price) || 0;
+    if (values.sku !== undefined) nextVariant.sku = values.sku || undefined;
+    if (values.barcode !== undefined) nextVariant.barcode = values.barcode || undefined;
+    if (values.stock !== undefined) nextVariant.inventoryQuantity = Number(values.stock) || 0;
+    return nextVariant;
+  });
+  return updated;
+}
+
+/**
+ * - `in_sync`: both sides hold the same value
+ * - `push`: only the POS changed since the base; send it to the platform
+ * - `pull`: only the platform changed since the base; take it locally
+ * - `conflict`: both changed to different values
+ * - `no_base`: the sides differ and were never synced, so neither is known to
+ *   be newer; settled by policy, falling back to the platform value
+ */
+export type FieldOutcome = 'in_sync' | 'push' | 'pull' | 'conflict' | 'no_base';
+
+export interface FieldComparison {
+  spec: SyncFieldSpec;
+  outcome: FieldOutcome;
+  base: string | null;
+  pos: string;
+  platform: string;
+}
+
+export function compareFields(
+  specs: SyncFieldSpec[],
+  pos: FieldSnapshot,
+  platform: FieldSnapshot,
+  base: Partial<Record<SyncFieldName, string | null>>
+): FieldComparison[] {
+  return specs.map(spec => {
+    const posValue = pos[spec.field];
+    const platformValue = platform[spec.field];
+    const baseValue = base[spec.field] ?? null;
+
+    let outcome: FieldOutcome;
+    if (posValue === platformValue) outcome = 'in_sync';
+    else if (baseValue === null) outcome = 'no_base';
+    else if (posValue === baseValue) outcome = 'pull';
+    else if (platformValue === baseValue) outcome = 'push';
+    else outcome = 'conflict';
+
+    return { spec, outcome, base: baseValue, pos: posValue, platform: platformValue };
+  });
+}
+
+export type ConflictWinner = 'pos' | 'platform';
+
+/**
+ * Pick the side a policy keeps, or null when the conflict needs a manager.
+ * `newest_wins` also defers to a manager when either edit time is unknown or
+ * the two are equal.
+ */
+export function applyConflictPolicy(
+  policy: ConflictPolicy,
+  posUpdatedAt?: number | null,
+  platformUpdatedAt?: number | null
+): ConflictWinner | null {
+  switch (policy) {
+    case 'platform_wins':
+      return 'platform';
+    case 'pos_wins':
+      return 'pos';
+    case 'newest_wins':
+      if (!posUpdatedAt || !platformUpdatedAt || posUpdatedAt === platformUpdatedAt) return null;
+      return posUpdatedAt > platformUpdatedAt ? 'pos' : 'platform';
+    case 'manual':
+    default:
+      return null;
+  }
+}
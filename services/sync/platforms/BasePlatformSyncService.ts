@@ -1,5 +1,9 @@
 import { BaseSyncService } from '../BaseSyncService';
+import { SyncError, SyncOptions } from '../SyncServiceInterface';
 import { PlatformSyncConfig, PlatformSyncConfigRequirements, PlatformSyncServiceInterface } from './PlatformSyncServiceInterface';
+import { syncConflictService } from '../SyncConflictService';
+import { ProductRepository } from '../../../repositories/ProductRepository';
+import { ECommercePlatform } from '../../../utils/platforms';
 
 /**
  * Base class for platform-specific sync services
@@ -75,6 +79,76 @@ export abstract class BasePlatformSyncService extends BaseSyncService implements
     return false;
   }
 
+  /**
+   * Sync products held both locally and on the platform in both directions.
+   * Field edits made on one side are copied to the other; fields edited on
+   * both sides are settled by the conflict policy or queued for a manager
+   * (see SyncConflictService). Products missing on either side are skipped;
+   * one-way syncs create them.
+   */
+  protected async syncProductsBidirectional(
+    syncId: string,
+    options: SyncOptions,
+    stats: { successful: number; failed: number; skipped: number; errors: SyncError[]; warnings: string[]; entityCount: number }
+  ): Promise<void> {
+    if (!this.platform) {
+      stats.warnings.push(`${this.constructor.name} has no platform to sync products with`);
+      return;
+    }
+    const platform = this.platform as ECommercePlatform;
+    const productRepo = new ProductRepository();
+
+    const localProducts = options.entityIds?.length ? await productRepo.findByIds(options.entityIds) : await productRepo.findAll();
+    stats.entityCount += localProducts.length;
+    this.updateSyncProgress(syncId, 0, stats.entityCount);
+    if (localProducts.length === 0) {
+      stats.warnings.push('No local products to reconcile');
+      return;
+    }
+
+    const policies = await syncConflictService.getPolicies();
+    const batchSize = options.batchSize || 50;
+    let missing = 0;
+    let ambiguous = 0;
+    let queued = 0;
+
+    for (let start = 0; start < localProducts.length; start += batchSize) {
+      const batch = localProducts.slice(start, start + batchSize);
+      const { matches, ...unmatched } = await syncConflictService.matchPlatformProducts(platform, batch);
+      missing += unmatched.missing.length;
+      ambiguous += unmatched.ambiguous.length;
+
+      for (const local of batch) {
+        const match = matches.get(local.id);
+        if (!match) {
+          stats.skipped++;
+        } else {
+          try {
+            const outcome = await syncConflictService.reconcileProduct(platform, local, match, policies, options.dryRun);
+            queued += outcome.queued.length;
+            if (options.dryRun) stats.skipped++;
+            else stats.successful++;
+          } catch (error) {
+            stats.failed++;
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            stats.errors.push({ entityId: local.id, platform, message: `Failed to reconcile product: ${errorMessage}`, details: error });
+          }
+        }
+        this.updateSyncProgress(syncId, stats.successful + stats.failed + stats.skipped, stats.entityCount);
+      }
+    }
+
+    if (missing > 0) {
+      stats.warnings.push(`${missing} product(s) not found on ${platform}; run a one-way sync to create them`);
+    }
+    if (ambiguous > 0) {
+      stats.warnings.push(`${ambiguous} product(s) skipped: several variants on ${platform} and none matches the POS SKU`);
+    }
+    if (queued > 0) {
+      stats.warnings.push(`${queued} field conflict(s) queued for manager resolution`);
+    }
+  }
+
   /**
    * Validate configuration object
    * @param config Configuration to validate
@@ -1,12 +1,15 @@
 import { SyncDirection, SyncEntityType, SyncError, SyncOperationResult, SyncOptions } from '../SyncServiceInterface';
 import { BasePlatformSyncService } from './BasePlatformSyncService';
+import { ECommercePlatform } from '../../../utils/platforms';
 import { PlatformSyncConfig, PlatformSyncConfigRequirements } from './PlatformSyncServiceInterface';
 import { BigCommerceApiClient } from '../../clients/bigcommerce/BigCommerceApiClient';
+import { BIGCOMMERCE_WEBHOOK_TOKEN_HEADER } from '../../clients/bigcommerce/BigCommerceWebhookReceiver';
 
 /**
  * BigCommerce-specific sync service implementation
  */
 export class BigCommerceSyncService extends BasePlatformSyncService {
+  protected readonly platform = ECommercePlatform.BIGCOMMERCE;
   private webhookIds: string[] = [];
   private apiClient = BigCommerceApiClient.getInstance();
 
@@ -16,7 +19,7 @@ export class BigCommerceSyncService extends BasePlatformSyncService {
   getConfigRequirements(): PlatformSyncConfigRequirements {
     return {
       required: ['storeHash', 'accessToken', 'clientId'],
-      optional: ['webhookUrl', 'batchSize'],
+      optional: ['webhookUrl', 'webhookSecret', 'batchSize'],
     };
   }
 
@@ -78,8 +81,18 @@ export class BigCommerceSyncService extends BasePlatformSyncService {
           scope: 'store/inventory/*',
           name: 'Inventory Events',
         },
+        {
+          scope: 'store/sku/*',
+          name: 'SKU Events',
+        },
       ];
 
+      // BigCommerce does not sign deliveries — BigCommerceWebhookReceiver checks this header instead
+      const headers: Record<string, string> = { 'X-Webhook-Source': 'RetailPOS-BigCommerce' };
+      if (this.config.webhookSecret) {
+        headers[BIGCOMMERCE_WEBHOOK_TOKEN_HEADER] = this.config.webhookSecret;
+      }
+
       // Register each webhook
       const results = await Promise.all(
         webhookScopes.map(async ({ scope, name }) => {
@@ -89,7 +102,7 @@ export class BigCommerceSyncService extends BasePlatformSyncService {
               scope,
               destination: webhookUrl,
               is_active: true,
-              headers: { 'X-Webhook-Source': 'RetailPOS-BigCommerce' },
+              headers,
             });
             return data.data?.id ?? null;
           } catch (error) {
@@ -314,6 +327,9 @@ export class BigCommerceSyncService extends BasePlatformSyncService {
           this.updateSyncProgress(syncId, stats.successful + stats.failed + stats.skipped, stats.entityCount);
           await new Promise(resolve => setTimeout(resolve, 55));
         }
+      } else if (options.direction === SyncDirection.BIDIRECTIONAL) {
+        // Edits on both sides are compared field by field; see SyncConflictService
+        await this.syncProductsBidirectional(syncId, options, stats);
       }
     } catch (error) {
       stats.warnings.push(`Error in BigCommerce product sync: ${error.message}`);
@@ -1,5 +1,6 @@
 /* eslint-disable @typescript-eslint/no-explicit-any -- raw platform API response mapping */
 import { BasePlatformSyncService } from './BasePlatformSyncService';
+import { ECommercePlatform } from '../../../utils/platforms';
 import { PlatformSyncConfig, PlatformSyncConfigRequirements } from './PlatformSyncServiceInterface';
 import { SyncOptions, SyncOperationResult, SyncEntityType } from '../SyncServiceInterface';
 import { CommerceFullApiClient, CommerceFullConfig } from '../../clients/commercefull/CommerceFullApiClient';
@@ -34,6 +35,7 @@ export type WebhookEventListener = (event: CommerceFullWebhookEvent) => void | P
  *   GET    /customer/categories          → syncCategories (pull)
  */
 export class CommerceFullSyncService extends BasePlatformSyncService {
+  protected readonly platform = ECommercePlatform.COMMERCEFULL;
   private apiClient: CommerceFullApiClient;
   private webhookEndpointId: string | null = null;
   private webhookSecret: string | null = null;
@@ -1,6 +1,8 @@
 import { SyncServiceInterface, SyncOptions, SyncStatus, SyncEntityType, SyncDirection } from '../SyncServiceInterface';
 import { LoggerFactory } from '../../logger/LoggerFactory';
 import { MagentoApiClient } from '../../clients/magento/MagentoApiClient';
+import { jobScheduler } from '../../jobs/JobScheduler';
+import { ECommercePlatform } from '../../../utils/platforms';
 
 /**
  * Magento-specific sync service for offline-first POS operation
@@ -79,19 +81,16 @@ export class MagentoSyncService implements SyncServiceInterface {
   }
 
   /**
-   * Schedule a recurring sync operation
+   * Schedule a recurring sync operation with the persistent JobScheduler
    */
   async scheduleSync(options: SyncOptions, schedule: string): Promise<string> {
-    const scheduleId = `magento-schedule-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    this.logger.info(`Magento sync scheduled (mock): ${scheduleId}`, { options, schedule });
-    return scheduleId;
+    return jobScheduler.scheduleSync(options, schedule, ECommercePlatform.MAGENTO);
   }
 
   /**
    * Cancel a scheduled sync
    */
   async cancelScheduledSync(scheduleId: string): Promise<boolean> {
-    this.logger.info(`Magento scheduled sync canceled (mock): ${scheduleId}`);
-    return true;
+    return jobScheduler.cancel(scheduleId);
   }
 }
@@ -1,5 +1,7 @@
 import { SyncServiceInterface, SyncOptions, SyncStatus, SyncEntityType, SyncDirection } from '../SyncServiceInterface';
 import { LoggerFactory } from '../../logger/LoggerFactory';
+import { jobScheduler } from '../../jobs/JobScheduler';
+import { ECommercePlatform } from '../../../utils/platforms';
 
 /**
  * Offline sync service for local-first POS operation
@@ -80,20 +82,17 @@ export class OfflineSyncService implements SyncServiceInterface {
   }
 
   /**
-   * Schedule a recurring sync operation (no-op)
+   * Schedule a recurring sync operation with the persistent JobScheduler
    */
   async scheduleSync(options: SyncOptions, schedule: string): Promise<string> {
-    const scheduleId = `offline-schedule-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    this.logger.info(`Offline sync scheduled (no-op): ${scheduleId}`, { options, schedule });
-    return scheduleId;
+    return jobScheduler.scheduleSync(options, schedule, ECommercePlatform.OFFLINE);
   }
 
   /**
-   * Cancel a scheduled sync (no-op)
+   * Cancel a scheduled sync
    */
   async cancelScheduledSync(scheduleId: string): Promise<boolean> {
-    this.logger.info(`Offline scheduled sync canceled (no-op): ${scheduleId}`);
-    return true;
+    return jobScheduler.cancel(scheduleId);
   }
 }
 
@@ -29,6 +29,8 @@ export interface PlatformSyncConfig {
 
   // Sync-specific properties
   webhookUrl?: string;
+  /** Secret inbound webhooks are signed with; defaults to apiSecret where the platform signs with it */
+  webhookSecret?: string;
   callbackUrl?: string;
   syncInterval?: number;
   batchSize?: number;
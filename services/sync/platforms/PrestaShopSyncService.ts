@@ -1,6 +1,8 @@
 import { SyncServiceInterface, SyncOptions, SyncStatus, SyncEntityType, SyncDirection } from '../SyncServiceInterface';
 import { LoggerFactory } from '../../logger/LoggerFactory';
 import { PrestaShopApiClient } from '../../clients/prestashop/PrestaShopApiClient';
+import { jobScheduler } from '../../jobs/JobScheduler';
+import { ECommercePlatform } from '../../../utils/platforms';
 
 /**
  * PrestaShop-specific sync service for offline-first POS operation
@@ -79,19 +81,16 @@ export class PrestaShopSyncService implements SyncServiceInterface {
   }
 
   /**
-   * Schedule a recurring sync operation
+   * Schedule a recurring sync operation with the persistent JobScheduler
    */
   async scheduleSync(options: SyncOptions, schedule: string): Promise<string> {
-    const scheduleId = `prestashop-schedule-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    this.logger.info(`PrestaShop sync scheduled (mock): ${scheduleId}`, { options, schedule });
-    return scheduleId;
+    return jobScheduler.scheduleSync(options, schedule, ECommercePlatform.PRESTASHOP);
   }
 
   /**
    * Cancel a scheduled sync
    */
   async cancelScheduledSync(scheduleId: string): Promise<boolean> {
-    this.logger.info(`PrestaShop scheduled sync canceled (mock): ${scheduleId}`);
-    return true;
+    return jobScheduler.cancel(scheduleId);
   }
 }
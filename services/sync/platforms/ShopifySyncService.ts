@@ -3,6 +3,7 @@ import { BasePlatformSyncService } from './BasePlatformSyncService';
 import { PlatformSyncConfig, PlatformSyncConfigRequirements } from './PlatformSyncServiceInterface';
 
 import { ProductServiceFactory } from '../../product/ProductServiceFactory';
+import { productSearchIndexService } from '../../search/ProductSearchIndexService';
 import { CategoryServiceFactory } from '../../category/CategoryServiceFactory';
 import { ECommercePlatform } from '../../../utils/platforms';
 import { ShopifyApiClient } from '../../clients/shopify/ShopifyApiClient';
@@ -15,6 +16,7 @@ interface ShopifyShopResponse {
  * Shopify-specific sync service implementation
  */
 export class ShopifySyncService extends BasePlatformSyncService {
+  protected readonly platform = ECommercePlatform.SHOPIFY;
   private webhookIds: string[] = [];
   private apiClient = ShopifyApiClient.getInstance();
 
@@ -24,7 +26,7 @@ export class ShopifySyncService extends BasePlatformSyncService {
   getConfigRequirements(): PlatformSyncConfigRequirements {
     return {
       required: ['storeUrl', 'accessToken'],
-      optional: ['apiVersion', 'webhookUrl', 'batchSize'],
+      optional: ['apiVersion', 'webhookUrl', 'webhookSecret', 'apiSecret', 'batchSize'],
     };
   }
 
@@ -356,8 +358,8 @@ export class ShopifySyncService extends BasePlatformSyncService {
             stats.skipped++;
           } else {
             try {
-              // In a real implementation, sync product to POS
-              // await syncProductToPOS(product);
+              // Make the product findable offline
+              await productSearchIndexService.indexProducts([product], this.platform);
               stats.successful++;
             } catch (error) {
               stats.failed++;
@@ -372,6 +374,9 @@ export class ShopifySyncService extends BasePlatformSyncService {
           // Update progress
           this.updateSyncProgress(syncId, stats.successful + stats.failed + stats.skipped, stats.entityCount);
         }
+      } else if (options.direction === SyncDirection.BIDIRECTIONAL) {
+        // Edits on both sides are compared field by field; see SyncConflictService
+        await this.syncProductsBidirectional(syncId, options, stats);
       }
     } catch (error) {
       stats.warnings.push(`Error in product sync: ${error.message}`);
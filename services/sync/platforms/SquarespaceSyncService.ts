@@ -1,6 +1,8 @@
 import { SyncServiceInterface, SyncOptions, SyncStatus, SyncEntityType, SyncDirection } from '../SyncServiceInterface';
 import { LoggerFactory } from '../../logger/LoggerFactory';
 import { SquarespaceApiClient } from '../../clients/squarespace/SquarespaceApiClient';
+import { jobScheduler } from '../../jobs/JobScheduler';
+import { ECommercePlatform } from '../../../utils/platforms';
 
 /**
  * Squarespace-specific sync service for offline-first POS operation
@@ -79,19 +81,16 @@ export class SquarespaceSyncService implements SyncServiceInterface {
   }
 
   /**
-   * Schedule a recurring sync operation
+   * Schedule a recurring sync operation with the persistent JobScheduler
    */
   async scheduleSync(options: SyncOptions, schedule: string): Promise<string> {
-    const scheduleId = `squarespace-schedule-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    this.logger.info(`Squarespace sync scheduled (mock): ${scheduleId}`, { options, schedule });
-    return scheduleId;
+    return jobScheduler.scheduleSync(options, schedule, ECommercePlatform.SQUARESPACE);
   }
 
   /**
    * Cancel a scheduled sync
    */
   async cancelScheduledSync(scheduleId: string): Promise<boolean> {
-    this.logger.info(`Squarespace scheduled sync canceled (mock): ${scheduleId}`);
-    return true;
+    return jobScheduler.cancel(scheduleId);
   }
 }
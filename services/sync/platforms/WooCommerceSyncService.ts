@@ -12,6 +12,7 @@ import { WooCommerceApiClient } from '../../clients/woocommerce/WooCommerceApiCl
  * WooCommerce-specific sync service implementation
  */
 export class WooCommerceSyncService extends BasePlatformSyncService {
+  protected readonly platform = ECommercePlatform.WOOCOMMERCE;
   private webhookIds: string[] = [];
   private apiClient = WooCommerceApiClient.getInstance();
 
@@ -21,7 +22,7 @@ export class WooCommerceSyncService extends BasePlatformSyncService {
   getConfigRequirements(): PlatformSyncConfigRequirements {
     return {
       required: ['storeUrl', 'apiKey', 'apiSecret'],
-      optional: ['webhookUrl', 'batchSize', 'version'],
+      optional: ['webhookUrl', 'webhookSecret', 'batchSize', 'version'],
     };
   }
 
@@ -102,6 +103,8 @@ export class WooCommerceSyncService extends BasePlatformSyncService {
               name,
               topic,
               delivery_url: webhookUrl,
+              // Signs each delivery for WooCommerceWebhookReceiver
+              secret: this.config.webhookSecret || this.config.apiSecret,
               status: 'active',
             });
             return data.id ?? null;
@@ -327,6 +330,9 @@ export class WooCommerceSyncService extends BasePlatformSyncService {
           // Simulate some processing delay
           await new Promise(resolve => setTimeout(resolve, 50));
         }
+      } else if (options.direction === SyncDirection.BIDIRECTIONAL) {
+        // Edits on both sides are compared field by field; see SyncConflictService
+        await this.syncProductsBidirectional(syncId, options, stats);
       }
     } catch (error) {
       stats.warnings.push(`Error in WooCommerce product sync: ${error.message}`);
@@ -93,9 +93,24 @@ export class TaxCalculationService {
     }
 
     // Calculate line totals
-    const lineSubtotal = roundMoney(multiplyMoney(unitSubtotal, quantity));
-    const lineTax = roundMoney(multiplyMoney(unitTax, quantity));
-    const lineTotal = roundMoney(multiplyMoney(unitTotal, quantity));
+    let lineSubtotal = roundMoney(multiplyMoney(unitSubtotal, quantity));
+    let lineTax = roundMoney(multiplyMoney(unitTax, quantity));
+    let lineTotal = roundMoney(multiplyMoney(unitTotal, quantity));
+
+    // A decimal quantity (sold by weight or length) is priced on the line amount:
+    // rounding the unit figures first would let subtotal + tax drift from the total
+    if (!Number.isInteger(quantity)) {
+      const lineAmount = multiplyMoney(price, quantity);
+      if (detail.type === 'inclusive') {
+        lineTotal = lineAmount;
+        lineSubtotal = roundMoney(lineAmount / (1 + detail.rate));
+        lineTax = roundMoney(lineAmount - lineSubtotal);
+      } else {
+        lineSubtotal = lineAmount;
+        lineTax = detail.type === 'exclusive' ? roundMoney(multiplyMoney(lineAmount, detail.rate)) : 0;
+        lineTotal = roundMoney(lineAmount + lineTax);
+      }
+    }
 
     // Spec requirement 9.3.7: All values rounded to 2 decimal places (handled by roundMoney)
     return {
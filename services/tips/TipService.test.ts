@@ -0,0 +1,202 @@
+/**
+ * TipService — unit tests
+ *
+ * Settings, staff shares per allocation, and tip adjustment through the
+ * payment provider. Repositories, the payment service, the audit log and the
+ * in-store API client are mocked.
+ */
+
+jest.mock('../logger/LoggerFactory', () => ({
+  LoggerFactory: {
+    getInstance: jest.fn(() => ({
+      createLogger: jest.fn(() => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() })),
+    })),
+  },
+}));
+
+const mockStore: Record<string, unknown> = {};
+jest.mock('../../repositories/KeyValueRepository', () => ({
+  keyValueRepository: {
+    getObject: jest.fn(async (key: string) => mockStore[key] ?? null),
+    setObject: jest.fn(async (key: string, value: unknown) => {
+      mockStore[key] = value;
+    }),
+  },
+}));
+
+const mockOrderRepository = { findById: jest.fn(), updateTip: jest.fn() };
+jest.mock('../../repositories/OrderRepository', () => ({
+  orderRepository: mockOrderRepository,
+  getOrderRepository: () => mockOrderRepository,
+}));
+
+jest.mock('../../repositories/ShiftRepository', () => ({
+  shiftRepository: { findOpenShifts: jest.fn().mockResolvedValue([]) },
+}));
+
+jest.mock('../../repositories/TipRepository', () => ({
+  tipRepository: {
+    replaceForOrder: jest.fn(async (_orderId: string, _registerId: string, _paidAt: number, shares: unknown[]) => shares),
+    findByOrder: jest.fn().mockResolvedValue([]),
+  },
+}));
+
+jest.mock('../payment/PaymentService', () => ({
+  __esModule: true,
+  default: { supportsOnTerminalTipping: jest.fn(() => true), adjustTip: jest.fn() },
+}));
+
+jest.mock('../audit/AuditLogService', () => ({
+  auditLogService: { log: jest.fn().mockResolvedValue(undefined) },
+}));
+
+const mockConfig = { isClient: false, current: { registerId: 'reg-1' } };
+jest.mock('../instoreapi/InstoreApiConfig', () => ({ instoreApiConfig: mockConfig }));
+
+jest.mock('../clients/instoreapi/InstoreApiClient', () => ({
+  instoreApiClient: { recordOrderTips: jest.fn(), storeTipAdjustment: jest.fn() },
+}));
+
+import { TipService, AdjustTipInput } from './TipService';
+import { shiftRepository } from '../../repositories/ShiftRepository';
+import { tipRepository } from '../../repositories/TipRepository';
+import paymentService from '../payment/PaymentService';
+import { auditLogService } from '../audit/AuditLogService';
+import { instoreApiClient } from '../clients/instoreapi/InstoreApiClient';
+
+function getService(): TipService {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (TipService as any).instance = undefined;
+  return TipService.getInstance();
+}
+
+const cardLine = { id: 'p1', method: 'card', amount: 23, tipAmount: 3, transactionId: 'txn-1', processedAt: 0 };
+
+function order(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'order-1',
+    status: 'paid',
+    total: 20,
+    tip_amount: 3,
+    payments_json: JSON.stringify([cardLine]),
+    cashier_id: 'c1',
+    cashier_name: 'Alice',
+    register_id: 'reg-1',
+    paid_at: 1_700_000_000_000,
+    updated_at: 1_700_000_000_000,
+    ...overrides,
+  };
+}
+
+function adjustInput(overrides: Partial<AdjustTipInput> = {}): AdjustTipInput {
+  return { orderId: 'order-1', tipAmount: 5, userId: 'c1', userName: 'Alice', approvedBy: 'manager-1', ...overrides };
+}
+
+describe('TipService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    for (const key of Object.keys(mockStore)) delete mockStore[key];
+    mockConfig.isClient = false;
+    mockOrderRepository.findById.mockResolvedValue(order());
+    (paymentService.adjustTip as jest.Mock).mockResolvedValue({ success: true, timestamp: new Date() });
+  });
+
+  describe('config', () => {
+    it('is off by default and only asks on the terminal when enabled and supported', async () => {
+      const service = getService();
+      expect((await service.getConfig()).enabled).toBe(false);
+      expect(await service.tipsOnTerminal()).toBe(false);
+
+      await service.updateConfig({ enabled: true, onTerminal: true });
+      expect(await service.tipsOnTerminal()).toBe(true);
+
+      (paymentService.supportsOnTerminalTipping as jest.Mock).mockReturnValueOnce(false);
+      expect(await service.tipsOnTerminal()).toBe(false);
+    });
+  });
+
+  describe('allocate', () => {
+    it('gives the whole tip to the cashier', async () => {
+      const shares = await getService().allocate('order-1', 'cashier');
+
+      expect(shares).toEqual([{ staffId: 'c1', staffName: 'Alice', amount: 3 }]);
+      expect(tipRepository.replaceForOrder).toHaveBeenCalledWith('order-1', 'reg-1', 1_700_000_000_000, shares);
+    });
+
+    it('splits between everyone on the drawer, cashier first', async () => {
+      (shiftRepository.findOpenShifts as jest.Mock).mockResolvedValue([
+        { cashier_id: 'c2', cashier_name: 'Bob' },
+        { cashier_id: 'c1', cashier_name: 'Alice' },
+      ]);
+
+      const shares = await getService().allocate('order-1', 'drawer');
+
+      expect(shiftRepository.findOpenShifts).toHaveBeenCalledWith('reg-1');
+      expect(shares).toEqual([
+        { staffId: 'c1', staffName: 'Alice', amount: 1.5 },
+        { staffId: 'c2', staffName: 'Bob', amount: 1.5 },
+      ]);
+    });
+
+    it('goes through the in-store API on a client register', async () => {
+      mockConfig.isClient = true;
+      await getService().allocate('order-1', 'drawer');
+
+      expect(instoreApiClient.recordOrderTips).toHaveBeenCalledWith('order-1', 'drawer');
+      expect(tipRepository.replaceForOrder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('adjustTip', () => {
+    it('adjusts the card authorisation, then stores the tip, lines, shares and an audit entry', async () => {
+      (tipRepository.findByOrder as jest.Mock).mockResolvedValue([
+        { staff_id: 'c1', staff_name: 'Alice' },
+        { staff_id: 'c2', staff_name: 'Bob' },
+      ]);
+
+      const adjustment = await getService().adjustTip(adjustInput());
+
+      expect(paymentService.adjustTip).toHaveBeenCalledWith('txn-1', 25, 5);
+      expect(adjustment).toMatchObject({ previousTip: 3, tipAmount: 5 });
+      expect(JSON.parse(adjustment.paymentsJson)[0]).toMatchObject({ amount: 25, tipAmount: 5 });
+      expect(mockOrderRepository.updateTip).toHaveBeenCalledWith('order-1', 5, adjustment.paymentsJson);
+      expect(tipRepository.replaceForOrder).toHaveBeenCalledWith('order-1', 'reg-1', 1_700_000_000_000, [
+        { staffId: 'c1', staffName: 'Alice', amount: 2.5 },
+        { staffId: 'c2', staffName: 'Bob', amount: 2.5 },
+      ]);
+      expect(auditLogService.log).toHaveBeenCalledWith(
+        'order:tip_adjusted',
+        expect.objectContaining({ metadata: expect.objectContaining({ previousTip: 3, tipAmount: 5, approvedBy: 'manager-1' }) })
+      );
+    });
+
+    it('changes nothing when the provider refuses', async () => {
+      (paymentService.adjustTip as jest.Mock).mockResolvedValue({ success: false, errorMessage: 'Declined', timestamp: new Date() });
+
+      await expect(getService().adjustTip(adjustInput())).rejects.toThrow('Declined');
+      expect(mockOrderRepository.updateTip).not.toHaveBeenCalled();
+      expect(auditLogService.log).not.toHaveBeenCalled();
+    });
+
+    it('refuses orders without a card payment, unpaid orders and unapproved adjustments', async () => {
+      mockOrderRepository.findById.mockResolvedValueOnce(
+        order({ payments_json: JSON.stringify([{ id: 'p1', method: 'cash', amount: 23, tipAmount: 3, processedAt: 0 }]) })
+      );
+      await expect(getService().adjustTip(adjustInput())).rejects.toThrow('card payments');
+
+      mockOrderRepository.findById.mockResolvedValueOnce(order({ status: 'cancelled' }));
+      await expect(getService().adjustTip(adjustInput())).rejects.toThrow('Only paid orders');
+
+      await expect(getService().adjustTip(adjustInput({ approvedBy: '' }))).rejects.toThrow('manager approval');
+      expect(paymentService.adjustTip).not.toHaveBeenCalled();
+    });
+
+    it('sends the accepted adjustment to the server from a client register', async () => {
+      mockConfig.isClient = true;
+      const adjustment = await getService().adjustTip(adjustInput());
+
+      expect(instoreApiClient.storeTipAdjustment).toHaveBeenCalledWith(adjustment);
+      expect(mockOrderRepository.updateTip).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * TipService
+ *
+ * Tipping settings, the staff shares of each order's tip and tip adjustment
+ * after a card payment has been authorised.
+ *
+ * The tip is stored on the order (`tip_amount`) and on the payment lines that
+ * carried it, apart from `total`, so it is never counted as sales revenue.
+ * Its staff shares live in `order_tips` on the register that owns the data;
+ * client registers record and adjust them through the in-store API, passing
+ * their own allocation setting.
+ *
+ * Configuration (stored in key_value_store as `tipping.config`, see tips.ts):
+ *   enabled, percentages, onTerminal, allocation
+ *
+ * See: docs/specs/checkout/tips.md
+ */
+
+import { keyValueRepository } from '../../repositories/KeyValueRepository';
+import { getOrderRepository, orderRepository, OrderRow } from '../../repositories/OrderRepository';
+import { shiftRepository } from '../../repositories/ShiftRepository';
+import { tipRepository, TipShareRow } from '../../repositories/TipRepository';
+import { auditLogService } from '../audit/AuditLogService';
+import { instoreApiConfig } from '../instoreapi/InstoreApiConfig';
+import { instoreApiClient } from '../clients/instoreapi/InstoreApiClient';
+import paymentService from '../payment/PaymentService';
+import { LoggerFactory } from '../logger/LoggerFactory';
+import { addMoney, roundMoney, subtractMoney } from '../../utils/money';
+import { PaymentLine } from '../order/order';
+import {
+  DEFAULT_TIP_CONFIG,
+  TipAllocation,
+  TipConfig,
+  TipStaff,
+  findAdjustableLine,
+  paymentLinesTip,
+  splitTip,
+  withAdjustedTip,
+} from './tips';
+
+const CONFIG_KEY = 'tipping.config';
+
+/** Order statuses whose tip can still change */
+const PAID_STATUSES = new Set(['paid', 'synced']);
+
+export interface AdjustTipInput {
+  orderId: string;
+  /** The new tip on the order's card payment */
+  tipAmount: number;
+  userId: string | null;
+  userName: string | null;
+  /** The user whose permission authorised the adjustment */
+  approvedBy: string;
+}
+
+/** An adjustment already accepted by the payment provider, ready to store */
+export interface TipAdjustment {
+  orderId: string;
+  previousTip: number;
+  tipAmount: number;
+  /** The order's payment lines with the adjusted tip */
+  paymentsJson: string;
+  userId: string | null;
+  userName: string | null;
+  approvedBy: string;
+}
+
+export class TipService {
+  private static instance: TipService;
+  private logger = LoggerFactory.getInstance().createLogger('TipService');
+  private configCache: TipConfig | null = null;
+
+  private constructor() {}
+
+  static getInstance(): TipService {
+    if (!TipService.instance) {
+      TipService.instance = new TipService();
+    }
+    return TipService.instance;
+  }
+
+  // ── Config ────────────────────────────────────────────────────────────
+
+  async getConfig(): Promise<TipConfig> {
+    if (this.configCache) return this.configCache;
+    const stored = await keyValueRepository.getObject<TipConfig>(CONFIG_KEY);
+    this.configCache = stored ? { ...DEFAULT_TIP_CONFIG, ...stored } : DEFAULT_TIP_CONFIG;
+    return this.configCache;
+  }
+
+  async updateConfig(config: Partial<TipConfig>): Promise<void> {
+    const current = await this.getConfig();
+    const updated = { ...current, ...config };
+    await keyValueRepository.setObject(CONFIG_KEY, updated);
+    this.configCache = updated;
+  }
+
+  /** Whether checkout should ask on the card terminal rather than the till */
+  async tipsOnTerminal(): Promise<boolean> {
+    const config = await this.getConfig();
+    return config.enabled && config.onTerminal && paymentService.supportsOnTerminalTipping();
+  }
+
+  // ── Staff shares ──────────────────────────────────────────────────────
+
+  /** Share a paid order's tip between staff according to this register's allocation setting */
+  async recordOrderTips(orderId: string): Promise<TipShareRow[]> {
+    const { allocation } = await this.getConfig();
+    return this.allocate(orderId, allocation);
+  }
+
+  /** Replace the order's staff shares; the in-store API server calls this for client registers */
+  async allocate(orderId: string, allocation: TipAllocation): Promise<TipShareRow[]> {
+    if (instoreApiConfig.isClient) {
+      return instoreApiClient.recordOrderTips(orderId, allocation);
+    }
+
+    const order = await this.requireOrder(orderId);
+    const staff = await this.tipStaff(order, allocation);
+    return tipRepository.replaceForOrder(
+      order.id,
+      order.register_id ?? '',
+      order.paid_at ?? order.updated_at,
+      splitTip(order.tip_amount, staff)
+    );
+  }
+
+  // ── Adjustment ────────────────────────────────────────────────────────
+
+  /**
+   * Change the tip on a paid order's card payment. The payment provider
+   * adjusts the authorisation first; the order, its payment lines and the
+   * staff shares only change once it has accepted.
+   */
+  async adjustTip(input: AdjustTipInput): Promise<TipAdjustment> {
+    const tipAmount = roundMoney(input.tipAmount);
+    if (!(tipAmount >= 0)) {
+      throw new Error('Enter a tip of zero or more.');
+    }
+    if (!input.approvedBy) {
+      throw new Error('Tip adjustments need manager approval.');
+    }
+
+    const order = await getOrderRepository().findById(input.orderId);
+    if (!order || !PAID_STATUSES.has(order.status)) {
+      throw new Error('Only paid orders can have their tip adjusted.');
+    }
+
+    const payments: PaymentLine[] = order.payments_json ? JSON.parse(order.payments_json) : [];
+    const line = findAdjustableLine(payments);
+    if (!line?.transactionId) {
+      throw new Error('Tips can only be adjusted on card payments.');
+    }
+    if (tipAmount === (line.tipAmount ?? 0)) {
+      throw new Error('The tip is already that amount.');
+    }
+
+    const amount = addMoney(subtractMoney(line.amount, line.tipAmount ?? 0), tipAmount);
+    const response = await paymentService.adjustTip(line.transactionId, amount, tipAmount);
+    if (!response.success) {
+      throw new Error(response.errorMessage || 'The payment provider did not accept the tip adjustment.');
+    }
+
+    const adjusted = withAdjustedTip(payments, line.id, tipAmount);
+    const adjustment: TipAdjustment = {
+      orderId: order.id,
+      previousTip: order.tip_amount,
+      tipAmount: paymentLinesTip(adjusted),
+      paymentsJson: JSON.stringify(adjusted),
+      userId: input.userId,
+      userName: input.userName,
+      approvedBy: input.approvedBy,
+    };
+    await this.storeAdjustment(adjustment);
+    return adjustment;
+  }
+
+  /**
+   * Write an accepted adjustment: the order's tip and payment lines, its staff
+   * shares and an audit entry. The in-store API server calls this for client
+   * registers. Staff keep the shares they had, re-split over the new tip.
+   */
+  async storeAdjustment(adjustment: TipAdjustment): Promise<void> {
+    if (instoreApiConfig.isClient) {
+      await instoreApiClient.storeTipAdjustment(adjustment);
+      return;
+    }
+
+    const order = await this.requireOrder(adjustment.orderId);
+    await orderRepository.updateTip(order.id, adjustment.tipAmount, adjustment.paymentsJson);
+
+    const existing = await tipRepository.findByOrder(order.id);
+    const staff =
+      existing.length > 0 ? existing.map(s => ({ staffId: s.staff_id, staffName: s.staff_name })) : await this.tipStaff(order, 'cashier');
+    await tipRepository.replaceForOrder(
+      order.id,
+      order.register_id ?? '',
+      order.paid_at ?? order.updated_at,
+      splitTip(adjustment.tipAmount, staff)
+    );
+
+    await auditLogService.log('order:tip_adjusted', {
+      userId: adjustment.userId ?? undefined,
+      userName: adjustment.userName ?? undefined,
+      registerId: order.register_id ?? undefined,
+      details: `Order ${order.id} tip ${adjustment.previousTip.toFixed(2)} → ${adjustment.tipAmount.toFixed(2)}`,
+      metadata: {
+        orderId: order.id,
+        previousTip: adjustment.previousTip,
+        tipAmount: adjustment.tipAmount,
+        approvedBy: adjustment.approvedBy,
+      },
+    });
+    this.logger.info(`Tip on order ${order.id} adjusted to ${adjustment.tipAmount.toFixed(2)}`);
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────────
+
+  /** The order's cashier, then (for drawer allocation) everyone else on the register's drawer */
+  private async tipStaff(order: OrderRow, allocation: TipAllocation): Promise<TipStaff[]> {
+    const staff: TipStaff[] = order.cashier_id ? [{ staffId: order.cashier_id, staffName: order.cashier_name ?? order.cashier_id }] : [];
+    if (allocation === 'drawer') {
+      for (const shift of await shiftRepository.findOpenShifts(order.register_id ?? '')) {
+        if (!staff.some(s => s.staffId === shift.cashier_id)) {
+          staff.push({ staffId: shift.cashier_id, staffName: shift.cashier_name });
+        }
+      }
+    }
+    return staff;
+  }
+
+  private async requireOrder(orderId: string): Promise<OrderRow> {
+    const order = await orderRepository.findById(orderId);
+    if (!order) {
+      throw new Error(`Order ${orderId} not found.`);
+    }
+    return order;
+  }
+}
+
+export const tipService = TipService.getInstance();
@@ -0,0 +1,119 @@
+import { PaymentLine } from '../order/order';
+import {
+  assignTip,
+  findAdjustableLine,
+  paymentLinesTip,
+  splitTip,
+  summariseTips,
+  tenderTips,
+  tipForPercentage,
+  withAdjustedTip,
+} from './tips';
+
+const line = (overrides: Partial<PaymentLine> & Pick<PaymentLine, 'id' | 'method' | 'amount'>): PaymentLine => ({
+  processedAt: 0,
+  ...overrides,
+});
+
+describe('tipForPercentage', () => {
+  it('rounds to the cent', () => {
+    expect(tipForPercentage(23.45, 12.5)).toBe(2.93);
+    expect(tipForPercentage(20, 15)).toBe(3);
+  });
+});
+
+describe('splitTip', () => {
+  const staff = [
+    { staffId: 'a', staffName: 'Alice' },
+    { staffId: 'b', staffName: 'Bob' },
+    { staffId: 'c', staffName: 'Cara' },
+  ];
+
+  it('splits evenly and gives the odd cents to whoever is listed first', () => {
+    const shares = splitTip(10, staff);
+    expect(shares.map(s => s.amount)).toEqual([3.34, 3.33, 3.33]);
+    expect(shares.reduce((sum, s) => sum + s.amount, 0)).toBeCloseTo(10, 2);
+  });
+
+  it('gives nothing without a tip or without staff', () => {
+    expect(splitTip(0, staff)).toEqual([]);
+    expect(splitTip(5, [])).toEqual([]);
+  });
+});
+
+describe('findAdjustableLine', () => {
+  it('prefers the card line already carrying the tip', () => {
+    const payments = [
+      line({ id: 'p1', method: 'card', amount: 10, transactionId: 't1' }),
+      line({ id: 'p2', method: 'card_terminal', amount: 12, tipAmount: 2, transactionId: 't2' }),
+    ];
+    expect(findAdjustableLine(payments)?.id).toBe('p2');
+  });
+
+  it('ignores cash and card lines without a transaction', () => {
+    expect(findAdjustableLine([line({ id: 'p1', method: 'cash', amount: 10 }), line({ id: 'p2', method: 'card', amount: 5 })])).toBeNull();
+  });
+});
+
+describe('assignTip', () => {
+  it('puts the tip on a card line that covers it, then on cash', () => {
+    const payments = [line({ id: 'p1', method: 'cash', amount: 10 }), line({ id: 'p2', method: 'card', amount: 15, transactionId: 't1' })];
+    expect(assignTip(payments, 3).find(p => p.tipAmount)?.id).toBe('p2');
+    expect(assignTip(payments.slice(0, 1), 3)[0].tipAmount).toBe(3);
+  });
+
+  it('leaves the lines alone without a tip', () => {
+    const payments = [line({ id: 'p1', method: 'cash', amount: 10 })];
+    expect(assignTip(payments, 0)).toBe(payments);
+  });
+});
+
+describe('withAdjustedTip', () => {
+  it('moves the line amount with the tip and leaves other lines alone', () => {
+    const payments = [
+      line({ id: 'p1', method: 'card', amount: 22, tipAmount: 2, transactionId: 't1' }),
+      line({ id: 'p2', method: 'cash', amount: 5 }),
+    ];
+    const adjusted = withAdjustedTip(payments, 'p1', 5);
+    expect(adjusted[0]).toMatchObject({ amount: 25, tipAmount: 5 });
+    expect(adjusted[1]).toBe(payments[1]);
+    expect(paymentLinesTip(adjusted)).toBe(5);
+  });
+
+  it('clears the tip when adjusted to zero', () => {
+    const adjusted = withAdjustedTip([line({ id: 'p1', method: 'card', amount: 22, tipAmount: 2 })], 'p1', 0);
+    expect(adjusted[0].amount).toBe(20);
+    expect(adjusted[0].tipAmount).toBeUndefined();
+  });
+});
+
+describe('summariseTips', () => {
+  it('totals tips per tender and per staff member, counting tipped orders', () => {
+    const summary = summariseTips(
+      [
+        tenderTips([{ method: 'card', tipAmount: 3 }]),
+        tenderTips([
+          { method: 'cash', tipAmount: 1.5 },
+          { method: 'card', tipAmount: undefined },
+        ]),
+        tenderTips(null),
+      ],
+      [
+        { staffId: 'a', staffName: 'Alice', amount: 3 },
+        { staffId: 'a', staffName: 'Alice', amount: 0.75 },
+        { staffId: 'b', staffName: 'Bob', amount: 0.75 },
+      ]
+    );
+
+    expect(summary.count).toBe(2);
+    expect(summary.total).toBe(4.5);
+    expect(summary.byTender).toEqual([
+      { method: 'card', count: 1, total: 3 },
+      { method: 'cash', count: 1, total: 1.5 },
+    ]);
+    expect(summary.byStaff).toEqual([
+      { staffId: 'a', staffName: 'Alice', count: 2, total: 3.75 },
+      { staffId: 'b', staffName: 'Bob', count: 1, total: 0.75 },
+    ]);
+  });
+});
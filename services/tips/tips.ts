@@ -0,0 +1,144 @@
+import { allocateCents, addMoney, roundMoney, subtractMoney, sumMoney, toCents, toDollars } from '../../utils/money';
+import type { PaymentLine } from '../order/order';
+import type { TenderLine, TenderTotal } from '../cashup/shiftReport';
+
+/**
+ * Who shares an order's tip:
+ *
+ *   cashier — the cashier who took the order keeps it all
+ *   drawer  — split evenly between every cashier with an open shift on the
+ *             register's drawer when the order was paid
+ */
+export type TipAllocation = 'cashier' | 'drawer';
+
+export interface TipConfig {
+  enabled: boolean;
+  /** Preset percentages offered at checkout, calculated on the order total */
+  percentages: number[];
+  /** Ask on the card terminal instead of the till when the provider supports it */
+  onTerminal: boolean;
+  /** Ask on the customer display when one that can take input is attached */
+  onDisplay: boolean;
+  allocation: TipAllocation;
+}
+
+export const DEFAULT_TIP_CONFIG: TipConfig = {
+  enabled: false,
+  percentages: [10, 12.5, 15],
+  onTerminal: false,
+  onDisplay: false,
+  allocation: 'cashier',
+};
+
+/** Tenders a tip can be adjusted on after authorisation */
+const ADJUSTABLE_TENDERS = new Set(['card', 'card_terminal']);
+
+export interface TipStaff {
+  staffId: string;
+  staffName: string;
+}
+
+export interface TipShare extends TipStaff {
+  amount: number;
+}
+
+export interface StaffTipTotal extends TipStaff {
+  /** Orders the staff member had a share of */
+  count: number;
+  total: number;
+}
+
+/** Tips kept apart from sales: per tender they were paid with and per staff member they belong to */
+export interface TipSummary {
+  /** Orders with a tip */
+  count: number;
+  total: number;
+  byTender: TenderTotal[];
+  byStaff: StaffTipTotal[];
+}
+
+export function tipForPercentage(orderTotal: number, percentage: number): number {
+  return roundMoney((orderTotal * percentage) / 100);
+}
+
+/** Split a tip evenly between staff; the odd cents go to whoever is listed first */
+export function splitTip(tipAmount: number, staff: TipStaff[]): TipShare[] {
+  if (staff.length === 0 || !(tipAmount > 0)) return [];
+  const parts = allocateCents(
+    toCents(tipAmount),
+    staff.map(() => 1)
+  );
+  return staff.map((member, i) => ({ ...member, amount: toDollars(parts[i]) }));
+}
+
+/** The order's tip as recorded on its payment lines */
+export function paymentLinesTip(payments: PaymentLine[]): number {
+  return sumMoney(payments.map(p => p.tipAmount ?? 0));
+}
+
+/** The card line a tip is adjusted on: the line already carrying the tip, else the first card line */
+export function findAdjustableLine(payments: PaymentLine[]): PaymentLine | null {
+  const cardLines = payments.filter(p => ADJUSTABLE_TENDERS.has(p.method) && p.transactionId);
+  return cardLines.find(p => (p.tipAmount ?? 0) > 0) ?? cardLines[0] ?? null;
+}
+
+/**
+ * Put a split-tender order's tip on one of its payment lines, whose amounts
+ * already include it: a card line if one is large enough (so the tip can be
+ * adjusted later), else cash, else any line that covers it.
+ */
+export function assignTip(payments: PaymentLine[], tipAmount: number): PaymentLine[] {
+  if (!(tipAmount > 0)) return payments;
+  const covers = (p: PaymentLine) => p.amount >= tipAmount;
+  const line =
+    payments.find(p => ADJUSTABLE_TENDERS.has(p.method) && p.transactionId && covers(p)) ??
+    payments.find(p => p.method === 'cash' && covers(p)) ??
+    payments.find(covers);
+  if (!line) return payments;
+  return payments.map(p => (p.id === line.id ? { ...p, tipAmount: roundMoney(tipAmount) } : p));
+}
+
+/** Payment lines with the tip on `lineId` set to `tipAmount`; the line's amount moves with it */
+export function withAdjustedTip(payments: PaymentLine[], lineId: string, tipAmount: number): PaymentLine[] {
+  return payments.map(p => {
+    if (p.id !== lineId) return p;
+    const base = subtractMoney(p.amount, p.tipAmount ?? 0);
+    return { ...p, amount: addMoney(base, tipAmount), tipAmount: tipAmount > 0 ? roundMoney(tipAmount) : undefined };
+  });
+}
+
+/** Tip portion of each payment line, for lines that carry one */
+export function tenderTips(payments: Pick<PaymentLine, 'method' | 'tipAmount'>[] | null | undefined): TenderLine[] {
+  return (payments ?? []).filter(p => (p.tipAmount ?? 0) > 0).map(p => ({ method: p.method.toLowerCase(), amount: p.tipAmount! }));
+}
+
+/**
+ * Roll up the tips of a set of orders. `orderTips` holds each order's tip
+ * lines (see tenderTips); `shares` are the staff shares of the same orders.
+ */
+export function summariseTips(orderTips: TenderLine[][], shares: TipShare[]): TipSummary {
+  const tipped = orderTips.filter(lines => lines.length > 0);
+
+  const byTender = new Map<string, TenderTotal>();
+  for (const line of tipped.flat()) {
+    const entry = byTender.get(line.method) ?? { method: line.method, count: 0, total: 0 };
+    entry.count++;
+    entry.total = addMoney(entry.total, line.amount);
+    byTender.set(line.method, entry);
+  }
+
+  const byStaff = new Map<string, StaffTipTotal>();
+  for (const share of shares) {
+    const entry = byStaff.get(share.staffId) ?? { staffId: share.staffId, staffName: share.staffName, count: 0, total: 0 };
+    entry.count++;
+    entry.total = addMoney(entry.total, share.amount);
+    byStaff.set(share.staffId, entry);
+  }
+
+  return {
+    count: tipped.length,
+    total: sumMoney(tipped.flat().map(line => line.amount)),
+    byTender: [...byTender.values()].sort((a, b) => b.total - a.total || a.method.localeCompare(b.method)),
+    byStaff: [...byStaff.values()].sort((a, b) => b.total - a.total || a.staffName.localeCompare(b.staffName)),
+  };
+}
@@ -0,0 +1,21 @@
+/**
+ * Mock for @react-native-community/netinfo
+ * Used in Jest tests to avoid native module dependencies
+ */
+
+export type NetInfoSubscription = () => void;
+
+const connectedState = {
+  type: 'wifi',
+  isConnected: true,
+  isInternetReachable: true,
+  details: { ipAddress: '127.0.0.1' },
+};
+
+const NetInfo = {
+  fetch: jest.fn(async () => connectedState),
+  addEventListener: jest.fn((_listener: (state: typeof connectedState) => void): NetInfoSubscription => jest.fn()),
+  refresh: jest.fn(async () => connectedState),
+};
+
+export default NetInfo;
@@ -0,0 +1,41 @@
+/**
+ * Mock for expo-file-system module
+ * Files are kept in memory, keyed by URI
+ */
+
+export const files = new Map<string, string>();
+
+type Parent = { uri: string } | string;
+
+const joinUri = (parent: Parent, name: string) => `${typeof parent === 'string' ? parent : parent.uri}/${name}`;
+
+export const Paths = { document: { uri: 'file:///document' }, cache: { uri: 'file:///cache' } };
+
+export class Directory {
+  uri: string;
+  exists = true;
+
+  constructor(parent: Parent, name: string) {
+    this.uri = joinUri(parent, name);
+  }
+
+  create = jest.fn();
+}
+
+export class File {
+  uri: string;
+
+  constructor(parent: Parent, name: string) {
+    this.uri = joinUri(parent, name);
+  }
+
+  get exists(): boolean {
+    return files.has(this.uri);
+  }
+
+  write = jest.fn((content: string) => {
+    files.set(this.uri, content);
+  });
+
+  text = jest.fn(async () => files.get(this.uri) ?? '');
+}
@@ -0,0 +1,28 @@
+/**
+ * Mock for react-native-zeroconf module
+ * Used in Jest tests to avoid native module dependencies
+ */
+
+export default class Zeroconf {
+  scan = jest.fn((_type?: string, _protocol?: string, _domain?: string) => {
+    // Simulate a browse that finds nothing
+  });
+
+  stop = jest.fn(() => {
+    // Simulate successful stop
+  });
+
+  publishService = jest.fn(
+    (_type: string, _protocol: string, _domain: string, _name: string, _port: number, _txt: Record<string, string>) => {
+      // Simulate successful publish
+    }
+  );
+
+  unpublishService = jest.fn((_name: string) => {
+    // Simulate successful unpublish
+  });
+
+  on = jest.fn((_event: string, _listener: Function) => this);
+
+  removeDeviceListeners = jest.fn();
+}
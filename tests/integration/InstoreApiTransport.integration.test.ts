@@ -9,6 +9,9 @@ import { Platform } from 'react-native';
 import { instoreApiConfig } from '../../services/instoreapi/InstoreApiConfig';
 import { instoreApiServer } from '../../services/instoreapi/InstoreApiServer';
 import { instoreApiTransport } from '../../services/instoreapi/InstoreApiTransport';
+import { registerAuthService, IssuedCredential } from '../../services/instoreapi/auth/RegisterAuthService';
+import { signatureHeaders } from '../../services/instoreapi/auth/requestSigning';
+import type { CreateRegisterCredentialInput, RegisterCredentialRow } from '../../repositories/RegisterCredentialRepository';
 
 // Mock react-native-http-bridge for testing
 jest.mock('react-native-http-bridge', () => ({
@@ -27,13 +30,40 @@ jest.mock('react-native-http-bridge', () => ({
   }),
 }));
 
+// Paired credentials live in memory; the expo-sqlite mock cannot return the rows it was given
+jest.mock('../../repositories/RegisterCredentialRepository', () => {
+  const rows = new Map<string, RegisterCredentialRow>();
+  return {
+    registerCredentialRepository: {
+      create: jest.fn(async (input: CreateRegisterCredentialInput) => {
+        rows.set(input.keyId, {
+          id: input.keyId,
+          register_id: input.registerId,
+          register_name: input.registerName,
+          role: input.role,
+          secret: input.secret,
+          created_at: Date.now(),
+          last_seen_at: null,
+          revoked_at: null,
+        });
+      }),
+      findById: jest.fn(async (id: string) => rows.get(id) ?? null),
+      findAll: jest.fn(async () => [...rows.values()]),
+      revoke: jest.fn(),
+      revokeByRegister: jest.fn(),
+      setRole: jest.fn(),
+      upsertMany: jest.fn(),
+      markSeen: jest.fn(),
+    },
+  };
+});
+
 describe('InstoreApiTransport', () => {
   beforeEach(async () => {
     // Reset to server mode for testing
     await instoreApiConfig.save({
       mode: 'server',
       port: 8787,
-      sharedSecret: 'test-secret',
       registerId: 'test-register',
       registerName: 'Test Register',
       serverAddress: '',
@@ -151,7 +181,6 @@ describe('HTTP Request Handling', () => {
     await instoreApiConfig.save({
       mode: 'server',
       port: 8787,
-      sharedSecret: 'test-secret',
       registerId: 'test-register',
       registerName: 'Test Register',
       serverAddress: '',
@@ -161,11 +190,37 @@ describe('HTTP Request Handling', () => {
       requestId: 'test-123',
       method: 'GET',
       url: 'http://localhost:8787/api/health',
-      headers: { 'x-shared-secret': 'test-secret' },
+      headers: {},
       data: null,
     };
   });
 
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  async function send(callback: any, request: any): Promise<{ status: number; body: any }> {
+    httpBridge.respond.mockClear();
+    await callback(request);
+    await new Promise(resolve => setImmediate(resolve));
+    const [, status, , body] = httpBridge.respond.mock.calls[0];
+    return { status, body: JSON.parse(body) };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  async function pairTestRegister(callback: any): Promise<IssuedCredential> {
+    const { code } = registerAuthService.createPairingCode('register');
+    const response = await send(callback, {
+      ...mockRequest,
+      method: 'POST',
+      url: 'http://localhost:8787/api/registers/pair',
+      data: JSON.stringify({ code, registerId: 'client-register', registerName: 'Client Register' }),
+    });
+    expect(response.status).toBe(201);
+    return response.body.credential;
+  }
+
+  function signed(credential: IssuedCredential, method: string, path: string, body = '') {
+    return signatureHeaders(credential, { method, path, body, timestamp: Date.now(), nonce: `nonce-${Math.random()}` });
+  }
+
   afterEach(async () => {
     // Clean up
     await instoreApiTransport.stop();
@@ -195,10 +250,10 @@ describe('HTTP Request Handling', () => {
     await instoreApiServer.start();
     const callback = httpBridge.start.mock.calls[0][2];
 
-    // Request without proper secret
+    // Unsigned request to a protected route
     const unauthRequest = {
       ...mockRequest,
-      headers: { 'x-shared-secret': 'wrong-secret' },
+      url: 'http://localhost:8787/api/orders',
     };
 
     await callback(unauthRequest);
@@ -213,14 +268,17 @@ describe('HTTP Request Handling', () => {
     await instoreApiServer.start();
     const callback = httpBridge.start.mock.calls[0][2];
 
+    const credential = await pairTestRegister(callback);
+    const data = JSON.stringify({
+      order: { id: 'test-order', total: 10.0 },
+      items: [],
+    });
     const postRequest = {
       ...mockRequest,
       method: 'POST',
       url: 'http://localhost:8787/api/orders',
-      data: JSON.stringify({
-        order: { id: 'test-order', total: 10.0 },
-        items: [],
-      }),
+      headers: signed(credential, 'POST', '/api/orders', data),
+      data,
     };
 
     await callback(postRequest);
@@ -236,9 +294,11 @@ describe('HTTP Request Handling', () => {
     await instoreApiServer.start();
     const callback = httpBridge.start.mock.calls[0][2];
 
+    const credential = await pairTestRegister(callback);
     const getWithQuery = {
       ...mockRequest,
       url: 'http://localhost:8787/api/sync/events?since=1234567890',
+      headers: signed(credential, 'GET', '/api/sync/events?since=1234567890'),
     };
 
     await callback(getWithQuery);
@@ -248,4 +308,33 @@ describe('HTTP Request Handling', () => {
 
     expect(httpBridge.respond).toHaveBeenCalledWith('test-123', 200, 'application/json', expect.stringContaining('"events"'));
   });
+
+  it('should reject catalog writes from a register without the back-office role', async () => {
+    await instoreApiServer.start();
+    const callback = httpBridge.start.mock.calls[0][2];
+    const credential = await pairTestRegister(callback);
+
+    const response = await send(callback, {
+      ...mockRequest,
+      method: 'DELETE',
+      url: 'http://localhost:8787/api/products/p1',
+      headers: signed(credential, 'DELETE', '/api/products/p1'),
+    });
+
+    expect(response).toEqual({ status: 403, body: { error: 'Forbidden' } });
+  });
+
+  it('should reject a replayed signed request', async () => {
+    await instoreApiServer.start();
+    const callback = httpBridge.start.mock.calls[0][2];
+    const credential = await pairTestRegister(callback);
+    const request = {
+      ...mockRequest,
+      url: 'http://localhost:8787/api/registers/me',
+      headers: signed(credential, 'GET', '/api/registers/me'),
+    };
+
+    expect((await send(callback, request)).status).toBe(200);
+    expect((await send(callback, request)).status).toBe(401);
+  });
 });
@@ -29,7 +29,10 @@ module.exports = {
     '^react-native$': '<rootDir>/__mocks__/react-native.ts',
     '^react-native-logs$': '<rootDir>/__mocks__/react-native-logs.ts',
     '^expo-sqlite$': '<rootDir>/__mocks__/expo-sqlite.ts',
+    '^expo-file-system$': '<rootDir>/__mocks__/expo-file-system.ts',
     '^react-native-http-bridge$': '<rootDir>/__mocks__/react-native-http-bridge.ts',
+    '^react-native-zeroconf$': '<rootDir>/__mocks__/react-native-zeroconf.ts',
+    '^@react-native-community/netinfo$': '<rootDir>/__mocks__/@react-native-community/netinfo.ts',
     '^@env$': '<rootDir>/__mocks__/@env.ts',
     '^uuid$': '<rootDir>/__mocks__/uuid.ts',
   },
@@ -27,13 +27,18 @@ export const ACTION_REGISTRY: readonly ActionDefinition[] = [
   { key: 'order:void', description: 'Void an unpaid order', defaultMinRole: 'manager' },
   { key: 'order:reopen', description: 'Reopen a completed order for exchange', defaultMinRole: 'manager' },
   { key: 'order:high_value', description: 'Complete a high-value transaction', defaultMinRole: 'manager' },
+  { key: 'order:tip_adjust', description: 'Change the tip on a paid card order', defaultMinRole: 'manager' },
   { key: 'inventory:adjust', description: 'Manually adjust stock levels', defaultMinRole: 'manager' },
   { key: 'inventory:count', description: 'Start or finalise an inventory count', defaultMinRole: 'manager' },
   { key: 'price:override', description: 'Override the price of a basket item', defaultMinRole: 'manager' },
   { key: 'customer:edit', description: 'Edit a customer profile', defaultMinRole: 'manager' },
   { key: 'loyalty:adjust', description: 'Manually adjust loyalty points', defaultMinRole: 'manager' },
   { key: 'store_credit:issue', description: 'Issue store credit to a customer', defaultMinRole: 'manager' },
-  { key: 'cash_drawer:open', description: 'Open the cash drawer outside of a sale', defaultMinRole: 'cashier' },
+  { key: 'cash_drawer:open', description: 'Open the cash drawer outside of a sale', defaultMinRole: 'manager' },
+  { key: 'cash:paid_in', description: 'Pay cash into the drawer', defaultMinRole: 'manager' },
+  { key: 'cash:paid_out', description: 'Pay an expense out of the drawer', defaultMinRole: 'manager' },
+  { key: 'cash:safe_drop', description: 'Move cash from the drawer to the safe', defaultMinRole: 'manager' },
+  { key: 'cash:float_top_up', description: 'Top up the drawer float', defaultMinRole: 'manager' },
   { key: 'report:view', description: 'View daily/period reports', defaultMinRole: 'manager' },
   { key: 'report:export', description: 'Export report data', defaultMinRole: 'manager' },
   { key: 'settings:view', description: 'Access the Settings screen', defaultMinRole: 'manager' },
@@ -45,6 +50,7 @@ export const ACTION_REGISTRY: readonly ActionDefinition[] = [
   { key: 'purchase_order:receive', description: 'Receive goods against a purchase order', defaultMinRole: 'manager' },
   { key: 'exchange:process', description: 'Process an exchange', defaultMinRole: 'manager' },
   { key: 'sync:retry', description: 'Manually retry a failed sync', defaultMinRole: 'manager' },
+  { key: 'sync:resolve_conflict', description: 'Choose which side wins a sync conflict', defaultMinRole: 'manager' },
 ] as const;
 
 /** Lookup map for O(1) access by key */
@@ -1,5 +1,7 @@
 import { type SQLiteDatabase } from 'expo-sqlite';
 import { LoggerFactory } from '../services/logger/LoggerFactory';
+import { generateUUID } from './uuid';
+import { computeAuditHash, GENESIS_HASH } from '../services/audit/auditChain';
 
 const logger = LoggerFactory.getInstance().createLogger('dbSchema');
 
@@ -7,7 +9,7 @@ const logger = LoggerFactory.getInstance().createLogger('dbSchema');
  * Current database schema version.
  * Bump this number and add a migration block whenever the schema changes.
  */
-export const LATEST_DB_VERSION = 9;
+export const LATEST_DB_VERSION = 26;
 
 /**
  * Initialise (or migrate) the database schema.
@@ -694,6 +696,701 @@ async function migrateDatabase(db: SQLiteDatabase, fromVersion: number, toVersio
       logger.info('v9 snapshot fields added to order_items.');
     }
 
+    // ── v10 – Automatic promotions ──────────────────────────────────────
+    if (fromVersion < 10) {
+      logger.info('Applying v10: creating promotions, adding promotion fields to order_items…');
+
+      await db.runAsync(`
+        CREATE TABLE IF NOT EXISTS promotions (
+          id                   TEXT PRIMARY KEY NOT NULL,
+          name                 TEXT NOT NULL,
+          description          TEXT,
+          type                 TEXT NOT NULL CHECK(type IN ('bogo','multi_buy','buy_x_get_y','spend_threshold','happy_hour')),
+          target               TEXT NOT NULL DEFAULT '{}',
+          buy_quantity         INTEGER,
+          get_quantity         INTEGER,
+          get_discount_percent REAL,
+          bundle_price         REAL,
+          tiers                TEXT,
+          discount_type        TEXT,
+          discount_value       REAL,
+          schedule             TEXT,
+          starts_at            INTEGER,
+          ends_at              INTEGER,
+          priority             INTEGER NOT NULL DEFAULT 0,
+          active               INTEGER NOT NULL DEFAULT 1,
+          created_at           INTEGER NOT NULL,
+          updated_at           INTEGER NOT NULL
+        );
+      `);
+      await db.runAsync(`CREATE INDEX IF NOT EXISTS idx_promotions_active ON promotions(active);`);
+
+      // Total promotion discount on the line, in dollars
+      const promotionDiscountExists = await db.getFirstAsync<{ cid: number }>(
+        `SELECT cid FROM pragma_table_info('order_items') WHERE name = 'promotion_discount'`
+      );
+      if (!promotionDiscountExists) {
+        await db.runAsync(`ALTER TABLE order_items ADD COLUMN promotion_discount REAL`);
+      }
+
+      // JSON array of LinePromotion breakdowns
+      const promotionsExists = await db.getFirstAsync<{ cid: number }>(
+        `SELECT cid FROM pragma_table_info('order_items') WHERE name = 'promotions'`
+      );
+      if (!promotionsExists) {
+        await db.runAsync(`ALTER TABLE order_items ADD COLUMN promotions TEXT`);
+      }
+
+      logger.info('v10 promotion tables and fields created.');
+    }
+
+    if (fromVersion < 11) {
+      logger.info('Applying v11: adding stacked discount adjustments to baskets and order_items…');
+
+      // JSON array of basket-level BasketAdjustment (codes, manual, loyalty, store credit)
+      const basketAdjustmentsExists = await db.getFirstAsync<{ cid: number }>(
+        `SELECT cid FROM pragma_table_info('baskets') WHERE name = 'adjustments'`
+      );
+      if (!basketAdjustmentsExists) {
+        await db.runAsync(`ALTER TABLE baskets ADD COLUMN adjustments TEXT`);
+      }
+
+      // JSON array of every discount on the line: promotions, line adjustments and its share of basket adjustments
+      const itemAdjustmentsExists = await db.getFirstAsync<{ cid: number }>(
+        `SELECT cid FROM pragma_table_info('order_items') WHERE name = 'adjustments'`
+      );
+      if (!itemAdjustmentsExists) {
+        await db.runAsync(`ALTER TABLE order_items ADD COLUMN adjustments TEXT`);
+      }
+
+      // Sum of adjustments[].amount, in dollars — what refunds prorate against
+      const discountTotalExists = await db.getFirstAsync<{ cid: number }>(
+        `SELECT cid FROM pragma_table_info('order_items') WHERE name = 'discount_total'`
+      );
+      if (!discountTotalExists) {
+        await db.runAsync(`ALTER TABLE order_items ADD COLUMN discount_total REAL`);
+      }
+
+      logger.info('v11 adjustment fields created.');
+    }
+
+    // ── v12 – Gift cards and their balance ledger ────────────────────────
+    if (fromVersion < 12) {
+      logger.info('Applying v12: creating gift_cards, gift_card_ledger…');
+
+      await db.runAsync(`
+        CREATE TABLE IF NOT EXISTS gift_cards (
+          id             TEXT PRIMARY KEY NOT NULL,
+          code           TEXT NOT NULL UNIQUE,
+          status         TEXT NOT NULL DEFAULT 'active' CHECK(status IN ('active','void')),
+          source         TEXT NOT NULL DEFAULT 'local',
+          remote_id      TEXT,
+          currency       TEXT,
+          customer_email TEXT,
+          order_id       TEXT,
+          expires_at     INTEGER,
+          created_by     TEXT,
+          created_at     INTEGER NOT NULL,
+          updated_at     INTEGER NOT NULL
+        );
+      `);
+      await db.runAsync(`CREATE INDEX IF NOT EXISTS idx_gift_cards_code ON gift_cards(code);`);
+
+      await db.runAsync(`
+        CREATE TABLE IF NOT EXISTS gift_card_ledger (
+          id                    TEXT PRIMARY KEY NOT NULL,
+          card_id               TEXT NOT NULL,
+          type                  TEXT NOT NULL CHECK(type IN ('activate','reload','redeem','refund','reversal','void')),
+          amount_cents          INTEGER NOT NULL,
+          order_id              TEXT,
+          remote_transaction_id TEXT,
+          reason                TEXT,
+          created_by            TEXT,
+          created_at            INTEGER NOT NULL,
+          FOREIGN KEY (card_id) REFERENCES gift_cards(id)
+        );
+      `);
+      await db.runAsync(`CREATE INDEX IF NOT EXISTS idx_gc_ledger_card  ON gift_card_ledger(card_id);`);
+      await db.runAsync(`CREATE INDEX IF NOT EXISTS idx_gc_ledger_order ON gift_card_ledger(order_id);`);
+
+      logger.info('v12 gift card tables created.');
+    }
+
+    // ── v13 – Held (parked) baskets ─────────────────────────────────────
+    if (fromVersion < 13) {
+      logger.info('Applying v13: adding held status and park fields to baskets…');
+
+      // SQLite cannot alter a CHECK constraint — rebuild the table with 'held' allowed
+      await db.runAsync(`
+        CREATE TABLE IF NOT EXISTS baskets_v13 (
+          id              TEXT PRIMARY KEY NOT NULL,
+          items           TEXT NOT NULL DEFAULT '[]',
+          subtotal        REAL NOT NULL DEFAULT 0,
+          tax             REAL NOT NULL DEFAULT 0,
+          total           REAL NOT NULL DEFAULT 0,
+          discount_amount REAL,
+          discount_code   TEXT,
+          adjustments     TEXT,
+          customer_id     TEXT,
+          customer_email  TEXT,
+          customer_name   TEXT,
+          note            TEXT,
+          register_id     TEXT,
+          register_name   TEXT,
+          name            TEXT,
+          held_by         TEXT,
+          expires_at      INTEGER,
+          status          TEXT NOT NULL DEFAULT 'active'
+                            CHECK(status IN ('active', 'held', 'completed', 'abandoned')),
+          created_at      INTEGER NOT NULL,
+          updated_at      INTEGER NOT NULL
+        );
+      `);
+      await db.runAsync(`
+        INSERT INTO baskets_v13 (id, items, subtotal, tax, total, discount_amount, discount_code, adjustments,
+                                 customer_id, customer_email, customer_name, note, register_id, status, created_at, updated_at)
+        SELECT id, items, subtotal, tax, total, discount_amount, discount_code, adjustments,
+               customer_id, customer_email, customer_name, note, register_id, status, created_at, updated_at
+        FROM baskets;
+      `);
+      await db.runAsync(`DROP TABLE baskets;`);
+      await db.runAsync(`ALTER TABLE baskets_v13 RENAME TO baskets;`);
+      await db.runAsync(`CREATE INDEX IF NOT EXISTS idx_baskets_status ON baskets(status);`);
+
+      logger.info('v13 baskets rebuilt with held status.');
+    }
+
+    // ── v14 – Scheduled jobs ────────────────────────────────────────────
+    if (fromVersion < 14) {
+      logger.info('Applying v14: creating scheduled_jobs, scheduled_job_runs…');
+
+      await db.runAsync(`
+        CREATE TABLE IF NOT EXISTS scheduled_jobs (
+          id                TEXT PRIMARY KEY NOT NULL,
+          type              TEXT NOT NULL,
+          name              TEXT NOT NULL,
+          cron              TEXT NOT NULL,
+          payload           TEXT,
+          missed_run_policy TEXT NOT NULL DEFAULT 'catch_up' CHECK(missed_run_policy IN ('skip','catch_up')),
+          enabled           INTEGER NOT NULL DEFAULT 1,
+          next_run_at       INTEGER NOT NULL,
+          last_run_at       INTEGER,
+          last_status       TEXT,
+          created_at        INTEGER NOT NULL,
+          updated_at        INTEGER NOT NULL
+        );
+      `);
+      await db.runAsync(`CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_due ON scheduled_jobs(enabled, next_run_at);`);
+
+      await db.runAsync(`
+        CREATE TABLE IF NOT EXISTS scheduled_job_runs (
+          id            TEXT PRIMARY KEY NOT NULL,
+          job_id        TEXT NOT NULL,
+          scheduled_for INTEGER NOT NULL,
+          started_at    INTEGER NOT NULL,
+          completed_at  INTEGER NOT NULL,
+          status        TEXT NOT NULL CHECK(status IN ('completed','failed','skipped')),
+          result        TEXT,
+          error         TEXT,
+          FOREIGN KEY (job_id) REFERENCES scheduled_jobs(id) ON DELETE CASCADE
+        );
+      `);
+      await db.runAsync(`CREATE INDEX IF NOT EXISTS idx_job_runs_job ON scheduled_job_runs(job_id, started_at);`);
+
+      logger.info('v14 scheduled job tables created.');
+    }
+
+    // ── v15 – Stock locations ───────────────────────────────────────────
+    if (fromVersion < 15) {
+      logger.info('Applying v15: creating locations, adding location_id to purchase_orders and inventory_counts…');
+
+      // platform_location_id: Shopify location id, BigCommerce location_id or Magento MSI source_code
+      await db.runAsync(`
+        CREATE TABLE IF NOT EXISTS locations (
+          id                   TEXT PRIMARY KEY NOT NULL,
+          name                 TEXT NOT NULL,
+          type                 TEXT NOT NULL DEFAULT 'store' CHECK(type IN ('store','warehouse')),
+          code                 TEXT,
+          platform_location_id TEXT,
+          is_default           INTEGER NOT NULL DEFAULT 0,
+          is_active            INTEGER NOT NULL DEFAULT 1,
+          created_at           INTEGER NOT NULL,
+          updated_at           INTEGER NOT NULL
+        );
+      `);
+      await db.runAsync(`CREATE INDEX IF NOT EXISTS idx_locations_active ON locations(is_active);`);
+
+      const poLocationExists = await db.getFirstAsync<{ cid: number }>(
+        `SELECT cid FROM pragma_table_info('purchase_orders') WHERE name = 'location_id'`
+      );
+      if (!poLocationExists) {
+        await db.runAsync(`ALTER TABLE purchase_orders ADD COLUMN location_id TEXT`);
+      }
+
+      const countLocationExists = await db.getFirstAsync<{ cid: number }>(
+        `SELECT cid FROM pragma_table_info('inventory_counts') WHERE name = 'location_id'`
+      );
+      if (!countLocationExists) {
+        await db.runAsync(`ALTER TABLE inventory_counts ADD COLUMN location_id TEXT`);
+      }
+
+      // transfer_orders.from_location / to_location were free text; they now hold location ids.
+      // Turn each distinct name into a location so existing transfers keep pointing somewhere.
+      const legacyNames = await db.getAllAsync<{ name: string }>(
+        `SELECT from_location AS name FROM transfer_orders
+         UNION SELECT to_location AS name FROM transfer_orders`
+      );
+      const now = Date.now();
+      for (const { name } of legacyNames) {
+        const locationId = generateUUID();
+        await db.runAsync(
+          `INSERT INTO locations (id, name, type, is_default, is_active, created_at, updated_at) VALUES (?, ?, 'store', 0, 1, ?, ?)`,
+          [locationId, name, now, now]
+        );
+        await db.runAsync(`UPDATE transfer_orders SET from_location = ? WHERE from_location = ?`, [locationId, name]);
+        await db.runAsync(`UPDATE transfer_orders SET to_location = ? WHERE to_location = ?`, [locationId, name]);
+      }
+
+      logger.info(`v15 locations created (${legacyNames.length} from existing transfer orders).`);
+    }
+
+    // ── v16 – Hash-chained audit log ────────────────────────────────────
+    if (fromVersion < 16) {
+      logger.info('Applying v16: creating audit_log, audit_log_archives, moving audit entries out of key_value_store…');
+
+      // hash = SHA-256 over prev_hash and the entry's fields (services/audit/auditChain.ts)
+      await db.runAsync(`
+        CREATE TABLE IF NOT EXISTS audit_log (
+          seq         INTEGER PRIMARY KEY AUTOINCREMENT,
+          id          TEXT NOT NULL UNIQUE,
+          action      TEXT NOT NULL,
+          user_id     TEXT,
+          user_name   TEXT,
+          register_id TEXT,
+          details     TEXT,
+          metadata    TEXT,
+          timestamp   INTEGER NOT NULL,
+          prev_hash   TEXT NOT NULL,
+          hash        TEXT NOT NULL
+        );
+      `);
+      await db.runAsync(`CREATE INDEX IF NOT EXISTS idx_audit_log_timestamp ON audit_log(timestamp);`);
+      await db.runAsync(`CREATE INDEX IF NOT EXISTS idx_audit_log_action ON audit_log(action, timestamp);`);
+      await db.runAsync(`CREATE INDEX IF NOT EXISTS idx_audit_log_user ON audit_log(user_id, timestamp);`);
+      // One successor per entry — the chain can never fork
+      await db.runAsync(`CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_log_prev_hash ON audit_log(prev_hash);`);
+
+      await db.runAsync(`
+        CREATE TABLE IF NOT EXISTS audit_log_archives (
+          id              TEXT PRIMARY KEY NOT NULL,
+          from_seq        INTEGER NOT NULL,
+          to_seq          INTEGER NOT NULL,
+          entry_count     INTEGER NOT NULL,
+          anchor_hash     TEXT NOT NULL,
+          last_hash       TEXT NOT NULL,
+          archived_before INTEGER NOT NULL,
+          file_uri        TEXT NOT NULL,
+          created_at      INTEGER NOT NULL
+        );
+      `);
+
+      // Append-only: entries are never updated, and only deleted once an archive covers them
+      await db.runAsync(`
+        CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+        BEGIN
+          SELECT RAISE(ABORT, 'audit_log is append-only');
+        END;
+      `);
+      await db.runAsync(`
+        CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+        WHEN OLD.seq > (SELECT COALESCE(MAX(to_seq), 0) FROM audit_log_archives)
+        BEGIN
+          SELECT RAISE(ABORT, 'audit_log entries can only be deleted after they are archived');
+        END;
+      `);
+      await db.runAsync(`
+        CREATE TRIGGER IF NOT EXISTS audit_log_archives_no_update BEFORE UPDATE ON audit_log_archives
+        BEGIN
+          SELECT RAISE(ABORT, 'audit_log_archives is append-only');
+        END;
+      `);
+      await db.runAsync(`
+        CREATE TRIGGER IF NOT EXISTS audit_log_archives_no_delete BEFORE DELETE ON audit_log_archives
+        BEGIN
+          SELECT RAISE(ABORT, 'audit_log_archives is append-only');
+        END;
+      `);
+
+      // Chain the entries kept in key_value_store ('audit.log', newest first), oldest first
+      const legacy = await db.getFirstAsync<{ value: string }>(`SELECT value FROM key_value_store WHERE key = 'audit.log'`);
+      let legacyEntries: Array<{
+        id: string;
+        action: string;
+        userId?: string;
+        userName?: string;
+        registerId?: string;
+        details?: string;
+        metadata?: Record<string, unknown>;
+        timestamp: number;
+      }> = [];
+      try {
+        legacyEntries = legacy ? JSON.parse(legacy.value) : [];
+      } catch {
+        logger.warn({ message: 'v16: audit.log in key_value_store is not valid JSON — not migrated' });
+      }
+
+      let prevHash = GENESIS_HASH;
+      for (const entry of [...legacyEntries].sort((a, b) => a.timestamp - b.timestamp)) {
+        const row = {
+          id: entry.id,
+          action: entry.action,
+          userId: entry.userId ?? null,
+          userName: entry.userName ?? null,
+          registerId: entry.registerId ?? null,
+          details: entry.details ?? null,
+          metadata: entry.metadata ? JSON.stringify(entry.metadata) : null,
+          timestamp: entry.timestamp,
+        };
+        const hash = computeAuditHash(prevHash, row);
+        await db.runAsync(
+          `INSERT INTO audit_log (id, action, user_id, user_name, register_id, details, metadata, timestamp, prev_hash, hash)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [row.id, row.action, row.userId, row.userName, row.registerId, row.details, row.metadata, row.timestamp, prevHash, hash]
+        );
+        prevHash = hash;
+      }
+      await db.runAsync(`DELETE FROM key_value_store WHERE key = 'audit.log'`);
+
+      logger.info(`v16 audit_log created (${legacyEntries.length} entries moved from key_value_store).`);
+    }
+
+    // ── v17 – Product search index ──────────────────────────────────────
+    if (fromVersion < 17) {
+      logger.info('Applying v17: creating product_search_documents…');
+
+      // document: JSON SearchDocument (services/search/index/searchDocument.ts); the inverted index is rebuilt from these in memory
+      await db.runAsync(`
+        CREATE TABLE IF NOT EXISTS product_search_documents (
+          product_id TEXT PRIMARY KEY NOT NULL,
+          platform   TEXT NOT NULL,
+          document   TEXT NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+      `);
+
+      logger.info('v17 product_search_documents created.');
+    }
+
+    // ── v18 – Register credentials ──────────────────────────────────────
+    if (fromVersion < 18) {
+      logger.info('Applying v18: creating register_credentials…');
+
+      // id is the key id sent in x-key-id; secret signs requests (services/instoreapi/auth/requestSigning.ts)
+      await db.runAsync(`
+        CREATE TABLE IF NOT EXISTS register_credentials (
+          id            TEXT PRIMARY KEY NOT NULL,
+          register_id   TEXT NOT NULL,
+          register_name TEXT NOT NULL,
+          role          TEXT NOT NULL DEFAULT 'register' CHECK(role IN ('register','back_office')),
+          secret        TEXT NOT NULL,
+          created_at    INTEGER NOT NULL,
+          last_seen_at  INTEGER,
+          revoked_at    INTEGER
+        );
+      `);
+      await db.runAsync(`CREATE INDEX IF NOT EXISTS idx_register_credentials_register ON register_credentials(register_id);`);
+
+      logger.info('v18 register_credentials created.');
+    }
+
+    // ── v19 – Z-reports ─────────────────────────────────────────────────
+    if (fromVersion < 19) {
+      logger.info('Applying v19: creating z_reports…');
+
+      // report holds the full ShiftReport JSON (services/cashup/shiftReport.ts); the columns are for lookups
+      await db.runAsync(`
+        CREATE TABLE IF NOT EXISTS z_reports (
+          id            TEXT PRIMARY KEY NOT NULL,
+          register_id   TEXT NOT NULL DEFAULT '',
+          z_number      INTEGER NOT NULL,
+          shift_id      TEXT NOT NULL,
+          cashier_id    TEXT,
+          cashier_name  TEXT,
+          opened_at     INTEGER NOT NULL,
+          closed_at     INTEGER NOT NULL,
+          net_takings   REAL NOT NULL,
+          grand_total   REAL NOT NULL,
+          variance      REAL,
+          report        TEXT NOT NULL,
+          created_at    INTEGER NOT NULL,
+          UNIQUE(register_id, z_number)
+        );
+      `);
+      await db.runAsync(`CREATE INDEX IF NOT EXISTS idx_z_reports_closed_at ON z_reports(closed_at);`);
+
+      // Z-reports are fiscal records: never changed or removed once written
+      await db.runAsync(`
+        CREATE TRIGGER IF NOT EXISTS z_reports_no_update BEFORE UPDATE ON z_reports
+        BEGIN
+          SELECT RAISE(ABORT, 'z_reports is append-only');
+        END;
+      `);
+      await db.runAsync(`
+        CREATE TRIGGER IF NOT EXISTS z_reports_no_delete BEFORE DELETE ON z_reports
+        BEGIN
+          SELECT RAISE(ABORT, 'z_reports is append-only');
+        END;
+      `);
+
+      logger.info('v19 z_reports created.');
+    }
+
+    // ── v20 – Cash movement ledger ──────────────────────────────────────
+    if (fromVersion < 20) {
+      logger.info('Applying v20: creating cash_movements…');
+
+      // Paid-ins, paid-outs, safe drops, float top-ups and no-sales (services/cashup/cashMovement.ts)
+      await db.runAsync(`
+        CREATE TABLE IF NOT EXISTS cash_movements (
+          id                TEXT PRIMARY KEY NOT NULL,
+          register_id       TEXT NOT NULL DEFAULT '',
+          shift_id          TEXT NOT NULL,
+          type              TEXT NOT NULL,
+          amount            REAL NOT NULL DEFAULT 0,
+          reason            TEXT NOT NULL,
+          expense_category  TEXT,
+          user_id           TEXT,
+          user_name         TEXT,
+          approved_by       TEXT NOT NULL,
+          created_at        INTEGER NOT NULL
+        );
+      `);
+      await db.runAsync(`CREATE INDEX IF NOT EXISTS idx_cash_movements_shift ON cash_movements(shift_id);`);
+      await db.runAsync(`CREATE INDEX IF NOT EXISTS idx_cash_movements_created_at ON cash_movements(created_at);`);
+
+      // A wrong entry is corrected by an opposite movement, never by editing the ledger
+      await db.runAsync(`
+        CREATE TRIGGER IF NOT EXISTS cash_movements_no_update BEFORE UPDATE ON cash_movements
+        BEGIN
+          SELECT RAISE(ABORT, 'cash_movements is append-only');
+        END;
+      `);
+      await db.runAsync(`
+        CREATE TRIGGER IF NOT EXISTS cash_movements_no_delete BEFORE DELETE ON cash_movements
+        BEGIN
+          SELECT RAISE(ABORT, 'cash_movements is append-only');
+        END;
+      `);
+
+      logger.info('v20 cash_movements created.');
+    }
+
+    // ── v21 – Per-register drawers and per-cashier shifts ────────────────
+    if (fromVersion < 21) {
+      logger.info('Applying v21: creating drawers and shifts…');
+
+      // One cash drawer session per register: float, count and Z-report
+      await db.runAsync(`
+        CREATE TABLE IF NOT EXISTS drawers (
+          id             TEXT PRIMARY KEY NOT NULL,
+          register_id    TEXT NOT NULL DEFAULT '',
+          register_name  TEXT,
+          status         TEXT NOT NULL DEFAULT 'open',
+          opening_float  REAL NOT NULL DEFAULT 0,
+          closing_cash   REAL,
+          opened_at      INTEGER NOT NULL,
+          closed_at      INTEGER,
+          opened_by      TEXT,
+          closed_by      TEXT,
+          z_report_id    TEXT,
+          z_number       INTEGER
+        );
+      `);
+      await db.runAsync(`CREATE UNIQUE INDEX IF NOT EXISTS idx_drawers_open_register ON drawers(register_id) WHERE status = 'open';`);
+      await db.runAsync(`CREATE INDEX IF NOT EXISTS idx_drawers_closed_at ON drawers(closed_at);`);
+
+      // Cashiers working a drawer; several can be open on it at once
+      await db.runAsync(`
+        CREATE TABLE IF NOT EXISTS shifts (
+          id            TEXT PRIMARY KEY NOT NULL,
+          drawer_id     TEXT NOT NULL,
+          register_id   TEXT NOT NULL DEFAULT '',
+          cashier_id    TEXT NOT NULL,
+          cashier_name  TEXT NOT NULL,
+          status        TEXT NOT NULL DEFAULT 'open',
+          started_at    INTEGER NOT NULL,
+          ended_at      INTEGER,
+          end_reason    TEXT
+        );
+      `);
+      await db.runAsync(
+        `CREATE UNIQUE INDEX IF NOT EXISTS idx_shifts_open_cashier ON shifts(register_id, cashier_id) WHERE status = 'open';`
+      );
+      await db.runAsync(`CREATE INDEX IF NOT EXISTS idx_shifts_drawer ON shifts(drawer_id);`);
+
+      // Z-reports now close a drawer; shift_id stays the closing cashier's shift
+      const zDrawerColExists = await db.getFirstAsync<{ cid: number }>(
+        `SELECT cid FROM pragma_table_info('z_reports') WHERE name = 'drawer_id'`
+      );
+      if (!zDrawerColExists) {
+        await db.runAsync(`ALTER TABLE z_reports ADD COLUMN drawer_id TEXT`);
+      }
+
+      logger.info('v21 drawers and shifts created.');
+    }
+
+    // ── v22 – Tips ──────────────────────────────────────────────────────
+    if (fromVersion < 22) {
+      logger.info('Applying v22: adding order tips…');
+
+      // Gratuity on top of the order total; never part of sales revenue
+      const tipColExists = await db.getFirstAsync<{ cid: number }>(`SELECT cid FROM pragma_table_info('orders') WHERE name = 'tip_amount'`);
+      if (!tipColExists) {
+        await db.runAsync(`ALTER TABLE orders ADD COLUMN tip_amount REAL NOT NULL DEFAULT 0`);
+      }
+
+      // Each staff member's share of an order's tip, dated by when the order was paid
+      await db.runAsync(`
+        CREATE TABLE IF NOT EXISTS order_tips (
+          id           TEXT PRIMARY KEY NOT NULL,
+          order_id     TEXT NOT NULL,
+          register_id  TEXT NOT NULL DEFAULT '',
+          staff_id     TEXT NOT NULL,
+          staff_name   TEXT NOT NULL,
+          amount       REAL NOT NULL,
+          paid_at      INTEGER NOT NULL,
+          updated_at   INTEGER NOT NULL
+        );
+      `);
+      await db.runAsync(`CREATE INDEX IF NOT EXISTS idx_order_tips_order ON order_tips(order_id);`);
+      await db.runAsync(`CREATE INDEX IF NOT EXISTS idx_order_tips_paid_at ON order_tips(paid_at);`);
+
+      logger.info('v22 tips added.');
+    }
+
+    // ── v23 – Digital receipt contact ───────────────────────────────────
+    if (fromVersion < 23) {
+      logger.info('Applying v23: adding order receipt contact…');
+
+      // Entered by the customer on the display; kept apart from the order's customer
+      const receiptEmailColExists = await db.getFirstAsync<{ cid: number }>(
+        `SELECT cid FROM pragma_table_info('orders') WHERE name = 'receipt_email'`
+      );
+      if (!receiptEmailColExists) {
+        await db.runAsync(`ALTER TABLE orders ADD COLUMN receipt_email TEXT`);
+      }
+      const receiptPhoneColExists = await db.getFirstAsync<{ cid: number }>(
+        `SELECT cid FROM pragma_table_info('orders') WHERE name = 'receipt_phone'`
+      );
+      if (!receiptPhoneColExists) {
+        await db.runAsync(`ALTER TABLE orders ADD COLUMN receipt_phone TEXT`);
+      }
+
+      logger.info('v23 receipt contact added.');
+    }
+
+    // ── v24 – Idempotent order sync ─────────────────────────────────────
+    if (fromVersion < 24) {
+      logger.info('Applying v24: adding order sync attempt tracking…');
+
+      // First time a platform create was sent; bounds the reconciliation search on retry
+      const syncAttemptedColExists = await db.getFirstAsync<{ cid: number }>(
+        `SELECT cid FROM pragma_table_info('orders') WHERE name = 'sync_attempted_at'`
+      );
+      if (!syncAttemptedColExists) {
+        await db.runAsync(`ALTER TABLE orders ADD COLUMN sync_attempted_at INTEGER`);
+      }
+      // JSON array of extra platform orders found for the same sale
+      const duplicatesColExists = await db.getFirstAsync<{ cid: number }>(
+        `SELECT cid FROM pragma_table_info('orders') WHERE name = 'duplicate_platform_order_ids'`
+      );
+      if (!duplicatesColExists) {
+        await db.runAsync(`ALTER TABLE orders ADD COLUMN duplicate_platform_order_ids TEXT`);
+      }
+
+      logger.info('v24 order sync attempt tracking added.');
+    }
+
+    // ── v25 – Webhook delivery deduplication ────────────────────────────
+    if (fromVersion < 25) {
+      logger.info('Applying v25: creating webhook_deliveries…');
+
+      // Accepted deliveries, so platform retries are recognised across restarts; pruned after a few days
+      await db.runAsync(`
+        CREATE TABLE IF NOT EXISTS webhook_deliveries (
+          platform     TEXT NOT NULL,
+          delivery_key TEXT NOT NULL,
+          received_at  INTEGER NOT NULL,
+          PRIMARY KEY (platform, delivery_key)
+        );
+      `);
+      await db.runAsync(`CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_received ON webhook_deliveries(received_at);`);
+
+      logger.info('v25 webhook_deliveries table created.');
+    }
+
+    // ── v26 – Bidirectional sync conflicts ──────────────────────────────
+    if (fromVersion < 26) {
+      logger.info('Applying v26: creating sync_field_versions, sync_conflicts, sync_product_links…');
+
+      // Last value both sides agreed on for each synced field; the base for three-way comparison
+      await db.runAsync(`
+        CREATE TABLE IF NOT EXISTS sync_field_versions (
+          platform            TEXT NOT NULL,
+          entity_type         TEXT NOT NULL,
+          entity_id           TEXT NOT NULL,
+          field               TEXT NOT NULL,
+          synced_value        TEXT,
+          version             INTEGER NOT NULL DEFAULT 1,
+          pos_updated_at      INTEGER,
+          platform_updated_at INTEGER,
+          synced_at           INTEGER NOT NULL,
+          PRIMARY KEY (platform, entity_type, entity_id, field)
+        );
+      `);
+
+      await db.runAsync(`
+        CREATE TABLE IF NOT EXISTS sync_conflicts (
+          id                  TEXT PRIMARY KEY NOT NULL,
+          platform            TEXT NOT NULL,
+          entity_type         TEXT NOT NULL,
+          entity_id           TEXT NOT NULL,
+          entity_name         TEXT,
+          field               TEXT NOT NULL,
+          base_value          TEXT,
+          pos_value           TEXT,
+          platform_value      TEXT,
+          pos_updated_at      INTEGER,
+          platform_updated_at INTEGER,
+          status              TEXT NOT NULL DEFAULT 'open' CHECK(status IN ('open','resolved')),
+          resolution          TEXT CHECK(resolution IN ('pos','platform','converged')),
+          resolved_by         TEXT,
+          detected_at         INTEGER NOT NULL,
+          resolved_at         INTEGER
+        );
+      `);
+      // At most one open conflict per field; re-detection refreshes it
+      await db.runAsync(
+        `CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_conflicts_open
+           ON sync_conflicts(platform, entity_type, entity_id, field) WHERE status = 'open';`
+      );
+      await db.runAsync(`CREATE INDEX IF NOT EXISTS idx_sync_conflicts_status ON sync_conflicts(status, detected_at);`);
+
+      // Platform product and variant each local product was matched to, so later syncs compare the same variant
+      await db.runAsync(`
+        CREATE TABLE IF NOT EXISTS sync_product_links (
+          platform            TEXT NOT NULL,
+          product_id          TEXT NOT NULL,
+          platform_product_id TEXT NOT NULL,
+          platform_variant_id TEXT NOT NULL,
+          linked_at           INTEGER NOT NULL,
+          PRIMARY KEY (platform, product_id)
+        );
+      `);
+
+      logger.info('v26 sync conflict tables created.');
+    }
+
     // Stamp the version
     await db.runAsync(`PRAGMA user_version = ${toVersion}`);
     logger.info(`Database migration complete. Version is now ${toVersion}.`);
@@ -1,4 +1,6 @@
 import { Platform } from 'react-native';
+import type { KdsOrder, KdsStatusUpdate } from '../services/kds/KdsServiceInterface';
+import type { SerialLineConfig } from '../services/scale/SerialScaleService';
 
 /**
  * Extended window type for Electron environment
@@ -131,6 +133,40 @@ export interface ElectronAPI {
   paymentCancel: () => Promise<void>;
   /** Disconnect from reader */
   paymentDisconnect: () => Promise<void>;
+
+  // ── Kitchen display IPC ──────────────────────────────────────
+  /** Open the built-in KDS window (on a second display when one is connected) */
+  kdsWindowOpen: () => Promise<boolean>;
+  /** Close the KDS window */
+  kdsWindowClose: () => Promise<void>;
+  /** Whether the KDS window is currently open */
+  kdsWindowIsOpen: () => Promise<boolean>;
+  /** Show a ticket on the KDS window; resolves false when the window is closed (the ticket is kept for when it reopens) */
+  kdsSendOrder: (order: KdsOrder) => Promise<boolean>;
+  /** Re-display a bumped ticket */
+  kdsRecallOrder: (orderId: string) => Promise<boolean>;
+  /** Remove a ticket from the KDS window */
+  kdsCancelOrder: (orderId: string) => Promise<boolean>;
+  /** Subscribe to start / bump / recall actions taken on the KDS window */
+  onKdsStatusUpdate: (callback: (update: KdsStatusUpdate) => void) => () => void;
+
+  // ── Customer display IPC ─────────────────────────────────────
+  /** Serve the customer display page and relay socket on `port`, admitting displays that present `token`; resolves the POS socket URL and the page's LAN URLs */
+  displayServerStart: (port: number, token: string) => Promise<{ posUrl: string; displayUrls: string[] }>;
+  /** Stop serving the customer display */
+  displayServerStop: () => Promise<void>;
+  /** Whether the display server is running and how many displays are attached */
+  displayServerStatus: () => Promise<{ running: boolean; port: number | null; displays: number; displayUrls: string[] }>;
+
+  // ── Scale IPC ────────────────────────────────────────────────
+  /** Open the scale's serial port; resolves false when the port or serialport is unavailable */
+  scaleOpen: (config: SerialLineConfig) => Promise<boolean>;
+  /** Release the scale's serial port */
+  scaleClose: () => Promise<void>;
+  /** Send `request` and resolve the next frame ending in `terminator` (latin1), or null on timeout */
+  scaleRead: (request: string, terminator: string, timeoutMs: number) => Promise<string | null>;
+  /** Send a command such as zero to the scale */
+  scaleWrite: (data: string) => Promise<boolean>;
 }
 
 /** Printer connection descriptor passed to Electron IPC */
@@ -1,4 +1,4 @@
-import { toCents, toDollars, roundMoney, multiplyMoney, addMoney, subtractMoney, sumMoney } from './money';
+import { toCents, toDollars, roundMoney, multiplyMoney, addMoney, subtractMoney, sumMoney, allocateCents } from './money';
 
 describe('money utilities', () => {
   // ─── toCents ────────────────────────────────────────────────
@@ -124,4 +124,18 @@ describe('money utilities', () => {
       expect(sumMoney(items)).toBe(1);
     });
   });
+
+  // ─── allocateCents ──────────────────────────────────────────
+  describe('allocateCents', () => {
+    it('always sums to the total', () => {
+      const parts = allocateCents(100, [1, 1, 1]);
+      expect(parts.reduce((s, p) => s + p, 0)).toBe(100);
+      expect(parts).toEqual([34, 33, 33]);
+    });
+
+    it('returns zeros when there is nothing to allocate', () => {
+      expect(allocateCents(0, [5, 5])).toEqual([0, 0]);
+      expect(allocateCents(100, [0, 0])).toEqual([0, 0]);
+    });
+  });
 });
@@ -15,7 +15,7 @@ export function roundMoney(amount: number): number {
   return toDollars(toCents(amount));
 }
 
-/** Multiply a dollar price by an integer quantity, returning dollars. */
+/** Multiply a dollar price by a quantity (whole or, for items sold by measure, decimal), returning dollars. */
 export function multiplyMoney(price: number, quantity: number): number {
   return toDollars(toCents(price) * quantity);
 }
@@ -36,6 +36,27 @@ export function sumMoney(amounts: number[]): number {
   return toDollars(totalCents);
 }
 
+/**
+ * Split `totalCents` across `weights` proportionally using the largest
+ * remainder method so the parts always sum exactly to the total.
+ */
+export function allocateCents(totalCents: number, weights: number[]): number[] {
+  const weightSum = weights.reduce((s, w) => s + w, 0);
+  if (totalCents <= 0 || weightSum <= 0) return weights.map(() => 0);
+
+  const exact = weights.map(w => (totalCents * w) / weightSum);
+  const parts = exact.map(Math.floor);
+  let remainder = totalCents - parts.reduce((s, p) => s + p, 0);
+
+  const order = exact.map((value, index) => ({ index, fraction: value - Math.floor(value) })).sort((a, b) => b.fraction - a.fraction);
+  for (const { index } of order) {
+    if (remainder <= 0) break;
+    parts[index] += 1;
+    remainder -= 1;
+  }
+  return parts;
+}
+
 /**
  * Format a dollar amount for display (e.g. "$19.99" or "19.99₽").
  * Always shows exactly 2 decimal places.
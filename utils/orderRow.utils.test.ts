@@ -39,6 +39,11 @@ function makeRow(overrides: Partial<OrderRow> = {}): OrderRow {
     paid_at: now,
     synced_at: now,
     payments_json: null,
+    tip_amount: 0,
+    receipt_email: null,
+    receipt_phone: null,
+    sync_attempted_at: null,
+    duplicate_platform_order_ids: null,
     ...overrides,
   };
 }
@@ -64,6 +69,10 @@ const sampleItems: OrderItemRow[] = [
     tax_profile_id: null,
     inventory_policy: null,
     catalog_version: null,
+    promotion_discount: null,
+    promotions: null,
+    adjustments: null,
+    discount_total: null,
   },
 ];
 
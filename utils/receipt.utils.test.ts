@@ -0,0 +1,85 @@
+/**
+ * receipt.utils — unit tests
+ *
+ * Tests mapping of order lines and adjustments to receipt discount lines.
+ * No React, no RN, no context.
+ */
+
+import { receiptDiscountsFromOrder, receiptItemsFromOrder } from './receipt.utils';
+import { LocalOrder } from '../services/basket/BasketServiceInterface';
+
+// ── Helpers ───────────────────────────────────────────────────────────────
+
+function makeOrder(overrides: Partial<LocalOrder> = {}): LocalOrder {
+  return {
+    id: 'order-1',
+    status: 'paid',
+    syncStatus: 'pending',
+    items: [],
+    subtotal: 20,
+    tax: 0,
+    total: 20,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    ...overrides,
+  };
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────
+
+describe('receiptItemsFromOrder', () => {
+  it('lists promotions and line discounts under each item', () => {
+    const order = makeOrder({
+      items: [
+        {
+          id: 'line-1',
+          productId: 'p1',
+          name: 'Mug',
+          price: 10,
+          quantity: 2,
+          promotions: [{ promotionId: 'promo', promotionName: 'BOGO', type: 'bogo', amount: 10 }],
+          adjustments: [
+            { id: 'a1', source: 'manual', label: 'Manual discount', reason: 'Chipped', type: 'fixed', value: 1, amount: 1, createdAt: 0 },
+          ],
+        },
+        { id: 'line-2', productId: 'p2', name: 'Tea', price: 3, quantity: 1 },
+      ],
+    });
+
+    const items = receiptItemsFromOrder(order);
+
+    expect(items[0].discounts).toEqual([
+      { label: 'BOGO', amount: 10 },
+      { label: 'Chipped', amount: 1 },
+    ]);
+    expect(items[1].discounts).toBeUndefined();
+  });
+
+  it('carries the selling unit of weighed lines', () => {
+    const order = makeOrder({
+      items: [
+        { id: 'line-1', productId: 'p1', name: 'Cheddar', price: 18.5, quantity: 0.512, properties: { unitOfMeasure: 'kg' } },
+        { id: 'line-2', productId: 'p2', name: 'Tea', price: 3, quantity: 1 },
+      ],
+    });
+
+    expect(receiptItemsFromOrder(order).map(i => [i.quantity, i.unit])).toEqual([
+      [0.512, 'kg'],
+      [1, undefined],
+    ]);
+  });
+});
+
+describe('receiptDiscountsFromOrder', () => {
+  it('returns basket-level adjustments', () => {
+    const order = makeOrder({
+      adjustments: [{ id: 'a1', source: 'code', code: 'SAVE5', label: 'SAVE5', type: 'fixed', value: 5, amount: 5, createdAt: 0 }],
+    });
+    expect(receiptDiscountsFromOrder(order)).toEqual([{ label: 'SAVE5', amount: 5 }]);
+  });
+
+  it('falls back to the legacy discount code', () => {
+    expect(receiptDiscountsFromOrder(makeOrder({ discountCode: 'OLD', discountAmount: 2 }))).toEqual([{ label: 'OLD', amount: 2 }]);
+    expect(receiptDiscountsFromOrder(makeOrder())).toBeUndefined();
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Pure utilities for turning a LocalOrder into printable receipt lines.
+ * No React, no RN, no context — fully testable in node.
+ */
+
+import { LocalOrder } from '../services/basket/BasketServiceInterface';
+import { ReceiptDiscount, ReceiptItem } from '../services/printer/PrinterTypes';
+import { getMeasuredLine } from '../services/product/unitOfMeasure';
+
+/** Receipt items with each line's promotions and line discounts beneath it */
+export function receiptItemsFromOrder(order: LocalOrder): ReceiptItem[] {
+  return order.items.map(item => {
+    const discounts: ReceiptDiscount[] = [
+      ...(item.promotions ?? []).map(p => ({ label: p.promotionName, amount: p.amount })),
+      ...(item.adjustments ?? []).map(a => ({ label: a.reason ?? a.label, amount: a.amount })),
+    ].filter(d => d.amount > 0);
+
+    return {
+      name: item.name,
+      quantity: item.quantity,
+      price: item.price,
+      unit: getMeasuredLine(item)?.unit,
+      discounts: discounts.length > 0 ? discounts : undefined,
+    };
+  });
+}
+
+/**
+ * Basket-level discounts for the totals section. Orders saved before
+ * adjustments existed fall back to the single discount code.
+ */
+export function receiptDiscountsFromOrder(order: LocalOrder): ReceiptDiscount[] | undefined {
+  if (order.adjustments && order.adjustments.length > 0) {
+    const discounts = order.adjustments.filter(a => a.amount > 0).map(a => ({ label: a.label, amount: a.amount }));
+    return discounts.length > 0 ? discounts : undefined;
+  }
+  if (order.discountAmount && order.discountAmount > 0) {
+    return [{ label: order.discountCode ?? 'Discount', amount: order.discountAmount }];
+  }
+  return undefined;
+}
@@ -0,0 +1,22 @@
+import 'react-native-get-random-values';
+
+/** Hex string of `byteLength` cryptographically secure random bytes */
+export function randomHex(byteLength: number): string {
+  const bytes = new Uint8Array(byteLength);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Random numeric code of `digits` length, e.g. a one-time pairing code */
+export function randomDigits(digits: number): string {
+  let code = '';
+  while (code.length < digits) {
+    const bytes = new Uint8Array(digits);
+    crypto.getRandomValues(bytes);
+    // Drop 250–255 so each digit is uniform
+    for (const b of bytes) {
+      if (b < 250 && code.length < digits) code += String(b % 10);
+    }
+  }
+  return code;
+}
@@ -0,0 +1,43 @@
+import { hmacSha256Base64, hmacSha256Hex, sha256Hex } from './sha256';
+
+describe('sha256Hex', () => {
+  it('matches the FIPS 180-4 test vectors', () => {
+    expect(sha256Hex('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256Hex('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(sha256Hex('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')).toBe(
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'
+    );
+  });
+
+  it('pads messages that end exactly at a block boundary', () => {
+    expect(sha256Hex('a'.repeat(64))).toBe('ffe054fe7ae0cb6dc65c3af9b61d5209f439851db43d0ba5997337df154668eb');
+  });
+
+  it('hashes the UTF-8 encoding of non-ASCII text', () => {
+    expect(sha256Hex('€')).toBe('c4cc90ed3d26f12d4b08a75140970a7904035c31cbb4515a83f19b9003c00d1d');
+    // Surrogate pair → one 4-byte code point
+    expect(sha256Hex('😀')).toBe('f0443a342c5ef54783a111b51ba56c938e474c32324d90c3a60c9c8e3a37e2d9');
+  });
+});
+
+describe('hmacSha256Hex', () => {
+  it('matches the RFC 4231 test vectors', () => {
+    expect(hmacSha256Hex('Jefe', 'what do ya want for nothing?')).toBe('5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843');
+  });
+
+  it('hashes keys longer than the block size first', () => {
+    expect(hmacSha256Hex('k'.repeat(100), 'Test Using Larger Than Block-Size Key - Hash Key First')).toBe(
+      '2bc51c04a41032b5f44910acdb471c67a7b1de64e91089e052761fe59a9dac4b'
+    );
+  });
+
+  it('handles an empty key and message', () => {
+    expect(hmacSha256Hex('', '')).toBe('b613679a0814d9ec772f95d778c35fc5ff1697c493715653c6c712144292c5ad');
+  });
+});
+
+describe('hmacSha256Base64', () => {
+  it('base64-encodes the same digest as hmacSha256Hex', () => {
+    expect(hmacSha256Base64('Jefe', 'what do ya want for nothing?')).toBe('W9zBRr9gdU5qBCQmCJV1x1oAPwidJzmDnexYuWTsOEM=');
+  });
+});